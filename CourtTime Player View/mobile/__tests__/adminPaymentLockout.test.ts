@@ -31,6 +31,16 @@ describe('adminPaymentLockout utils', () => {
     expect(filterMembersBySearch(members, '@test')).toHaveLength(2);
   });
 
+  it('keeps dependents without an email searchable', () => {
+    const members = parseAdminLockoutMembers([
+      { userId: '1', fullName: 'Alice Park', email: 'a@test.com', isPaymentLocked: false },
+      { userId: '2', fullName: 'Sam Park', email: null, isPaymentLocked: false },
+    ]);
+    expect(members[1].email).toBeNull();
+    expect(filterMembersBySearch(members, 'park').map((m) => m.userId)).toEqual(['1', '2']);
+    expect(filterMembersBySearch(members, '@test').map((m) => m.userId)).toEqual(['1']);
+  });
+
   it('formats payment lock badge like web', () => {
     expect(
       paymentLockBadgeLabel({ isPaymentLocked: true, lockoutAmountCents: 2550 })
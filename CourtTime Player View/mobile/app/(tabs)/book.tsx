@@ -57,6 +57,8 @@ import {
   bookingWithDetailsToCalendarDetails,
 } from '../../src/utils/bookingCalendar';
 import { userFacingApiMessage, type ApiFailureShape } from '../../src/utils/apiUserMessages';
+import { unwrapApiPayload } from '../../../shared/api/core';
+import { FEATURE_FLAGS } from '../../../shared/constants/featureFlags';
 import {
   RESERVATION_LABEL_TYPE_KEYS,
   getBookingTypeLabel,
@@ -75,6 +77,16 @@ export const ErrorBoundary = createRouteErrorBoundary('Book');
 
 type BookModalKind = 'booking' | 'violations' | null;
 
+interface CourtWaitlistOffer {
+  id: string;
+  courtName?: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  status: 'waiting' | 'offered';
+  offerExpiresAt: string | null;
+}
+
 function paramString(v: string | string[] | undefined): string | undefined {
   if (v == null) return undefined;
   const s = Array.isArray(v) ? v[0] : v;
@@ -131,6 +143,8 @@ function bookingTypeLabel(typeKey: string): string {
 const BOOKING_MODAL_OVERLAY_TOP = 24;
 /** Minimum sheet height so time pickers + confirm button remain usable on small phones */
 const BOOKING_MODAL_MIN_HEIGHT = 360;
+/** Matches the web booking wizard's guest picker */
+const MAX_GUESTS_PER_BOOKING = 3;
 
 export default function BookCourtScreen() {
   const { height: windowHeight } = useWindowDimensions();
@@ -184,6 +198,8 @@ export default function BookCourtScreen() {
   const [recurringDays, setRecurringDays] = useState<string[]>([]);
   const [recurringEndDate, setRecurringEndDate] = useState('');
   const [bringGuest, setBringGuest] = useState(false);
+  // One entry per guest; the club logs each by name and applies its guest limits
+  const [guestNames, setGuestNames] = useState<string[]>(['']);
   const [addBallMachine, setAddBallMachine] = useState(false);
 
   // Rule violations modal payload (shown when modalKind === 'violations')
@@ -192,6 +208,9 @@ export default function BookCourtScreen() {
   const isAdmin = user?.adminFacilities?.includes(facilityId || '') || false;
   const [selectedCalendarBooking, setSelectedCalendarBooking] = useState<BookingWithDetails | null>(null);
   const [courtLoadError, setCourtLoadError] = useState<ApiFailureShape | null>(null);
+  const [waitlistEnabled, setWaitlistEnabled] = useState(false);
+  const [waitlistOffers, setWaitlistOffers] = useState<CourtWaitlistOffer[]>([]);
+  const [claimingOfferId, setClaimingOfferId] = useState<string | null>(null);
 
   function getTodayString() {
     const d = new Date();
@@ -247,6 +266,7 @@ export default function BookCourtScreen() {
     setRecurringDays([]);
     setRecurringEndDate('');
     setBringGuest(false);
+    setGuestNames(['']);
     setAddBallMachine(false);
   }, [modalKind]);
 
@@ -336,6 +356,30 @@ export default function BookCourtScreen() {
     setSelectedCourt(null);
   }, [facilityId]);
 
+  const fetchWaitlistOffers = useCallback(async () => {
+    if (!facilityId) {
+      setWaitlistEnabled(false);
+      setWaitlistOffers([]);
+      return;
+    }
+    const flags = await api.get(`/api/facilities/${facilityId}/feature-flags`);
+    const enabled =
+      flags.success &&
+      (unwrapApiPayload<string[]>(flags.data) ?? []).includes(FEATURE_FLAGS.COURT_WAITLIST);
+    setWaitlistEnabled(Boolean(enabled));
+    if (!enabled) {
+      setWaitlistOffers([]);
+      return;
+    }
+    const res = await api.get(`/api/court-waitlist/me?facilityId=${encodeURIComponent(facilityId)}`);
+    const entries = res.success ? unwrapApiPayload<CourtWaitlistOffer[]>(res.data) ?? [] : [];
+    setWaitlistOffers(entries.filter((e) => e.status === 'offered'));
+  }, [facilityId]);
+
+  useEffect(() => {
+    void fetchWaitlistOffers();
+  }, [fetchWaitlistOffers]);
+
   useEffect(() => {
     if (!user?.id || !facilityId) {
       setStrikeLockout(null);
@@ -358,8 +402,60 @@ export default function BookCourtScreen() {
     setRefreshing(true);
     await fetchCourts();
     await fetchTimeSlots();
+    await fetchWaitlistOffers();
     setRefreshing(false);
-  }, [fetchCourts, fetchTimeSlots]);
+  }, [fetchCourts, fetchTimeSlots, fetchWaitlistOffers]);
+
+  const joinCourtWaitlist = useCallback(
+    async (courtId: string, bookingDate: string, start: string, end: string) => {
+      if (!facilityId) return;
+      const res = await api.post('/api/court-waitlist', {
+        facilityId,
+        courtId,
+        bookingDate,
+        startTime: start,
+        endTime: end,
+      });
+      if (!res.success) {
+        showApiErrorAlert(res, 'Waitlist');
+        return;
+      }
+      const entry = unwrapApiPayload<{ position?: number }>(res.data);
+      hapticSuccess();
+      showAlert(
+        'On the waitlist',
+        `You're${entry?.position ? ` #${entry.position}` : ''} in line. If this court is cancelled we'll notify you, and you'll have a short window to claim it.`
+      );
+    },
+    [facilityId]
+  );
+
+  const claimWaitlistOffer = useCallback(
+    async (offer: CourtWaitlistOffer) => {
+      setClaimingOfferId(offer.id);
+      try {
+        const res = await api.post(`/api/court-waitlist/${offer.id}/claim`, bookingCheckoutUrls);
+        const payload = unwrapApiPayload<{ requiresPayment?: boolean; checkoutUrl?: string }>(res.data);
+        if (res.success && payload?.requiresPayment && payload.checkoutUrl) {
+          const opened = await openStripeCheckout(payload.checkoutUrl);
+          if (!opened) showAlert('Payment', 'Could not open Stripe checkout. Try again.');
+          return;
+        }
+        if (!res.success) {
+          hapticError();
+          showApiErrorAlert(res, 'Could not claim court');
+        } else {
+          hapticSuccess();
+          showAlert('Booked', `${offer.courtName || 'Court'} is yours.`);
+        }
+        await fetchWaitlistOffers();
+        fetchTimeSlots();
+      } finally {
+        setClaimingOfferId(null);
+      }
+    },
+    [bookingCheckoutUrls, fetchWaitlistOffers, fetchTimeSlots]
+  );
 
   // Complete paid court booking after Stripe redirect
   useEffect(() => {
@@ -662,6 +758,13 @@ export default function BookCourtScreen() {
       return;
     }
 
+    const namedGuests = guestNames.map((name) => name.trim());
+    if (bringGuest && namedGuests.some((name) => !name)) {
+      showAlert('Guest names', 'Please enter a name for each guest.');
+      hapticError();
+      return;
+    }
+
     const startTime = modalStartTime + ':00';
     const endTime = modalEndTime + ':00';
 
@@ -834,6 +937,8 @@ export default function BookCourtScreen() {
         notes: bookingNotes.trim() || undefined,
         ...bookingCheckoutUrls,
         bringGuest: bringGuest || undefined,
+        guests: bringGuest ? namedGuests.map((name) => ({ name })) : undefined,
+        guestNames: bringGuest ? namedGuests : undefined,
         addBallMachine: addBallMachine || undefined,
         ...(priorInThisRequest.length > 0
           ? { provisionalSameRequestBookings: [...priorInThisRequest] }
@@ -920,6 +1025,23 @@ export default function BookCourtScreen() {
       setViolations(firstViolations);
       setWarnings(firstWarnings);
       setModalKind('violations');
+    } else if (waitlistEnabled && allCourtIds.length === 1 && firstError?.includes('already booked')) {
+      hapticError();
+      const courtId = allCourtIds[0];
+      showAlert(
+        'Court Taken',
+        `${selectedCourt.name} was just booked. Join the waitlist to be offered it if it's cancelled?`,
+        [
+          { text: 'Not now', style: 'cancel' },
+          {
+            text: 'Join Waitlist',
+            onPress: () => {
+              setModalKind(null);
+              void joinCourtWaitlist(courtId, selectedDate, startTime, endTime);
+            },
+          },
+        ]
+      );
     } else {
       hapticError();
       showAlert('Booking Failed', firstError || 'Could not complete booking.');
@@ -1114,6 +1236,34 @@ export default function BookCourtScreen() {
       >
       <OfflineBanner state={bannerState} cachedAt={lastCachedAt} onRetry={retryConnectivity} />
       <StrikeLockoutBanner status={strikeLockout} />
+      {waitlistOffers.map((offer) => (
+        <View key={offer.id} style={styles.waitlistOffer}>
+          <Ionicons name="hourglass-outline" size={20} color={Colors.success} />
+          <View style={{ flex: 1, gap: Spacing.xs }}>
+            <Text style={styles.noFacilityText}>
+              {offer.courtName || 'A court'} opened up on{' '}
+              {new Date(`${offer.bookingDate}T00:00:00`).toLocaleDateString('en-US', {
+                weekday: 'short',
+                month: 'short',
+                day: 'numeric',
+              })}{' '}
+              at {formatTimeForToast(offer.startTime)}.
+              {offer.offerExpiresAt
+                ? ` Claim it by ${new Date(offer.offerExpiresAt).toLocaleTimeString('en-US', {
+                    hour: 'numeric',
+                    minute: '2-digit',
+                  })}.`
+                : ''}
+            </Text>
+            <Button
+              title="Claim Court"
+              loading={claimingOfferId === offer.id}
+              disabled={claimingOfferId !== null}
+              onPress={() => void claimWaitlistOffer(offer)}
+            />
+          </View>
+        </View>
+      ))}
       {!facilityId && (
         <View style={styles.noFacility}>
           <Ionicons name="warning-outline" size={20} color={Colors.warning} />
@@ -1479,6 +1629,9 @@ export default function BookCourtScreen() {
                       <Text style={styles.modalLabel}>Bringing a guest</Text>
                       <Text style={styles.guestFeeHint}>
                         +{formatCentsAsUsd(primaryCourtGuestFee)} guest fee
+                        {bringGuest && guestNames.length > 1
+                          ? ` each (${formatCentsAsUsd(primaryCourtGuestFee * guestNames.length)} total)`
+                          : ''}
                       </Text>
                     </View>
                     <Switch
@@ -1490,6 +1643,47 @@ export default function BookCourtScreen() {
                   </View>
                 ) : null}
 
+                {bringGuest && primaryCourtGuestFee && additionalCourtIds.length === 0 && !recurringBookingEnabled ? (
+                  <View style={styles.guestNamesSection}>
+                    {guestNames.map((name, index) => (
+                      <View key={index} style={styles.guestNameRow}>
+                        <Input
+                          style={styles.guestNameInput}
+                          value={name}
+                          onChangeText={(value) =>
+                            setGuestNames((prev) => prev.map((n, i) => (i === index ? value : n)))
+                          }
+                          placeholder={`Guest ${index + 1} name`}
+                          accessibilityLabel={`Guest ${index + 1} name`}
+                          autoCapitalize="words"
+                          maxLength={100}
+                        />
+                        {guestNames.length > 1 ? (
+                          <TouchableOpacity
+                            onPress={() => setGuestNames((prev) => prev.filter((_, i) => i !== index))}
+                            accessibilityRole="button"
+                            accessibilityLabel={`Remove guest ${index + 1}`}
+                            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                          >
+                            <Ionicons name="close-circle-outline" size={22} color={Colors.textMuted} />
+                          </TouchableOpacity>
+                        ) : null}
+                      </View>
+                    ))}
+                    {guestNames.length < MAX_GUESTS_PER_BOOKING ? (
+                      <TouchableOpacity
+                        onPress={() => setGuestNames((prev) => [...prev, ''])}
+                        accessibilityRole="button"
+                      >
+                        <Text style={styles.addGuestText}>+ Add another guest</Text>
+                      </TouchableOpacity>
+                    ) : null}
+                    <Text style={styles.guestFeeHint}>
+                      Guests are logged with the club; guest visit limits may apply.
+                    </Text>
+                  </View>
+                ) : null}
+
                 {primaryCourtBallMachineFee && additionalCourtIds.length === 0 && !recurringBookingEnabled ? (
                   <View style={styles.guestFeeRow}>
                     <View style={styles.guestFeeText}>
@@ -1708,9 +1902,22 @@ export default function BookCourtScreen() {
                     />
                   </View>
                 ) : (
-                  <Text style={[styles.violationMessage, { marginTop: Spacing.md }]}>
-                    You can only edit or cancel your own bookings.
-                  </Text>
+                  <View style={{ marginTop: Spacing.md, gap: Spacing.sm }}>
+                    <Text style={styles.violationMessage}>
+                      You can only edit or cancel your own bookings.
+                    </Text>
+                    {waitlistEnabled ? (
+                      <Button
+                        title="Join Waitlist"
+                        variant="secondary"
+                        onPress={() => {
+                          const b = selectedCalendarBooking;
+                          setSelectedCalendarBooking(null);
+                          void joinCourtWaitlist(b.courtId, String(b.bookingDate), b.startTime, b.endTime);
+                        }}
+                      />
+                    ) : null}
+                  </View>
                 )}
               </>
             )}
@@ -1747,6 +1954,17 @@ const styles = StyleSheet.create({
     fontSize: FontSize.sm,
     color: Colors.text,
   },
+  waitlistOffer: {
+    flexDirection: 'row',
+    marginHorizontal: Spacing.md,
+    marginTop: Spacing.md,
+    padding: Spacing.md,
+    backgroundColor: Colors.success + '15',
+    borderRadius: BorderRadius.md,
+    borderLeftWidth: 3,
+    borderLeftColor: Colors.success,
+    gap: Spacing.sm,
+  },
 
   // ── Calendar ──
   calendarSection: {
@@ -2042,6 +2260,10 @@ const styles = StyleSheet.create({
   },
   guestFeeText: { flex: 1, marginRight: Spacing.md },
   guestFeeHint: { fontSize: FontSize.xs, color: Colors.textSecondary, marginTop: 2 },
+  guestNamesSection: { marginBottom: Spacing.md, gap: Spacing.xs },
+  guestNameRow: { flexDirection: 'row', alignItems: 'center', gap: Spacing.sm },
+  guestNameInput: { flex: 1 },
+  addGuestText: { fontSize: FontSize.sm, color: Colors.primary, fontWeight: '600', paddingVertical: Spacing.xs },
   paidBookingHint: {
     fontSize: FontSize.xs,
     color: Colors.primary,
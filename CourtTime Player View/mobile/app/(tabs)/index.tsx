@@ -21,6 +21,8 @@ import { showAlert } from '../../src/utils/alert';
 import { useRouter } from 'expo-router';
 import { useAuth } from '../../src/contexts/AuthContext';
 import { api } from '../../src/api/client';
+import { unwrapApiPayload } from '../../../shared/api/core';
+import { FEATURE_FLAGS } from '../../../shared/constants/featureFlags';
 import { Colors, Gradients, Spacing, FontSize, BorderRadius, FontFamily } from '../../src/constants/theme';
 import { OfflineBanner } from '../../src/components/OfflineBanner';
 import { EditBookingModal } from '../../src/components/EditBookingModal';
@@ -58,6 +60,7 @@ export default function HomeScreen() {
   const [violations, setViolations] = useState<RuleViolation[]>([]);
   const [warnings, setWarnings] = useState<RuleViolation[]>([]);
   const [showViolations, setShowViolations] = useState(false);
+  const [leaguesEnabled, setLeaguesEnabled] = useState(false);
 
   const fetchData = useCallback(async () => {
     if (!user || !facilityId) return;
@@ -79,6 +82,11 @@ export default function HomeScreen() {
     if (lockoutResult.data) {
       setLockout(lockoutResult.data as any);
     }
+
+    const flags = await api.get(`/api/facilities/${facilityId}/feature-flags`);
+    setLeaguesEnabled(
+      flags.success && (unwrapApiPayload<string[]>(flags.data) ?? []).includes(FEATURE_FLAGS.LEAGUES)
+    );
   }, [user, facilityId, fetchWithCache]);
 
   useEffect(() => {
@@ -233,6 +241,21 @@ export default function HomeScreen() {
             <Text style={styles.actionLabel}>Club Info</Text>
           </TouchableOpacity>
         ) : null}
+
+        {leaguesEnabled ? (
+          <TouchableOpacity
+            style={[styles.actionCard, styles.actionCardFull]}
+            onPress={() => router.push('/leagues')}
+            activeOpacity={0.88}
+            accessibilityRole="button"
+            accessibilityLabel="Open leagues"
+          >
+            <View style={styles.actionIconWrap}>
+              <Ionicons name="trophy" size={24} color={Colors.primary} />
+            </View>
+            <Text style={styles.actionLabel}>Leagues</Text>
+          </TouchableOpacity>
+        ) : null}
       </View>
 
       {/* Quick Book — soonest open slots today */}
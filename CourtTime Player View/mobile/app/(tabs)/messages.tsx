@@ -1,6 +1,7 @@
 /**
  * Messages Tab
- * View conversations, read message threads, send new messages
+ * View conversations, read message threads, send new messages (with photos),
+ * react to and edit messages
  */
 
 import { useEffect, useState, useCallback, useRef } from 'react';
@@ -16,8 +17,11 @@ import {
   Modal,
   Alert,
   ActivityIndicator,
+  Pressable,
 } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
 import { useLocalSearchParams, useRouter } from 'expo-router';
+import * as ImagePicker from 'expo-image-picker';
 import { useAuth } from '../../src/contexts/AuthContext';
 import { api } from '../../src/api/client';
 import { showApiErrorAlert } from '../../src/utils/alert';
@@ -32,6 +36,18 @@ import { useMessageUnread } from '../../src/contexts/MessageUnreadContext';
 import { OfflineBanner } from '../../src/components/OfflineBanner';
 import { useOfflineApi } from '../../src/hooks/useOfflineApi';
 import { userFacingApiMessage } from '../../src/utils/apiUserMessages';
+import { subscribeToRealtime } from '../../src/api/realtime';
+import { MessageAttachment } from '../../src/components/MessageAttachment';
+import {
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  QUICK_REACTIONS,
+  attachmentProblem,
+  dataUrlByteLength,
+  formatReadReceipt,
+  type MessageAttachmentSummary,
+  type MessageReactionSummary,
+  type MessageReadReceipt,
+} from '../../../shared/utils/messageContent';
 
 export const ErrorBoundary = createRouteErrorBoundary('Messages');
 
@@ -49,6 +65,16 @@ interface MessageItem {
   messageText: string;
   isRead: boolean;
   createdAt: string;
+  editedAt?: string | null;
+  attachments?: MessageAttachmentSummary[];
+  reactions?: MessageReactionSummary[];
+  readBy?: MessageReadReceipt[];
+}
+
+interface PendingAttachment {
+  fileName: string;
+  mimeType: string;
+  dataUrl: string;
 }
 
 interface MemberItem {
@@ -93,6 +119,10 @@ export default function MessagesScreen() {
   const [newMessage, setNewMessage] = useState('');
   const [sending, setSending] = useState(false);
   const [deletingMessageId, setDeletingMessageId] = useState<string | null>(null);
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  const [editingMessage, setEditingMessage] = useState<MessageItem | null>(null);
+  // Long-pressed message whose reaction / edit sheet is open
+  const [actionMessage, setActionMessage] = useState<MessageItem | null>(null);
   const messagesListRef = useRef<FlatList<MessageItem>>(null);
   const [threadLoadError, setThreadLoadError] = useState<string | null>(null);
 
@@ -237,12 +267,39 @@ export default function MessagesScreen() {
     clearDeepLinkParams,
   ]);
 
+  /** Our own sends arrive both in the POST response and on the stream; keep one. */
+  const appendMessage = useCallback((message: MessageItem) => {
+    setMessages(prev => (prev.some(m => m.id === message.id) ? prev : [...prev, message]));
+  }, []);
+
+  // ── Live updates for the open thread: new messages, edits, reactions, receipts ──
+  const activeConversationId = activeConversation?.id;
+  useEffect(() => {
+    if (!activeConversationId || !user) return;
+    return subscribeToRealtime({}, (event) => {
+      if (!('conversationId' in event) || event.conversationId !== activeConversationId) return;
+      if (event.type === 'message.created') {
+        appendMessage(event.message);
+        if (event.message.senderId !== user.id) {
+          api.patch(`/api/messages/${activeConversationId}/read`, { userId: user.id });
+        }
+      } else if (event.type === 'message.updated' || event.userId !== user.id) {
+        void fetchMessages(activeConversationId);
+      }
+    });
+  }, [activeConversationId, appendMessage, fetchMessages, user]);
+
   // ── Send a message ──
   async function handleSend() {
-    if (!newMessage.trim() || !user || !facilityId || sending) return;
+    if ((!newMessage.trim() && pendingAttachments.length === 0) || !user || !facilityId || sending) return;
 
     if (!activeConversation) return;
 
+    if (editingMessage) {
+      await saveEdit();
+      return;
+    }
+
     setSending(true);
     const text = newMessage.trim();
     const res = await api.post('/api/messages', {
@@ -250,18 +307,108 @@ export default function MessagesScreen() {
       recipientId: activeConversation.otherUser.id,
       facilityId,
       messageText: text,
+      attachments: pendingAttachments,
     });
     setSending(false);
 
     const newMsg = res.data?.message || res.data?.data?.message;
     if (res.success && newMsg) {
       setNewMessage('');
-      setMessages(prev => [...prev, newMsg]);
+      setPendingAttachments([]);
+      appendMessage(newMsg);
     } else {
       showApiErrorAlert(res, 'Could not send');
     }
   }
 
+  async function saveEdit() {
+    if (!editingMessage || !newMessage.trim()) return;
+
+    setSending(true);
+    const res = await api.patch(`/api/messages/message/${editingMessage.id}`, { messageText: newMessage.trim() });
+    setSending(false);
+
+    const edited = res.data?.message || res.data?.data?.message;
+    if (res.success && edited) {
+      setMessages(prev =>
+        prev.map(m => (m.id === edited.id ? { ...m, messageText: edited.messageText, editedAt: edited.editedAt } : m))
+      );
+      setEditingMessage(null);
+      setNewMessage('');
+    } else {
+      showApiErrorAlert(res, 'Could not edit');
+    }
+  }
+
+  const startEditing = useCallback((item: MessageItem) => {
+    setActionMessage(null);
+    setPendingAttachments([]);
+    setEditingMessage(item);
+    setNewMessage(item.messageText);
+  }, []);
+
+  const cancelEditing = useCallback(() => {
+    setEditingMessage(null);
+    setNewMessage('');
+  }, []);
+
+  const pickPhoto = useCallback(async () => {
+    if (pendingAttachments.length >= MAX_ATTACHMENTS_PER_MESSAGE) {
+      Alert.alert('Too many photos', `Attach at most ${MAX_ATTACHMENTS_PER_MESSAGE} files per message.`);
+      return;
+    }
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert('Permission Required', 'Please allow access to your photo library to attach photos.');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      quality: 0.7,
+      base64: true,
+    });
+    const asset = result.canceled ? null : result.assets[0];
+    if (!asset?.base64) return;
+
+    const mimeType = asset.mimeType || 'image/jpeg';
+    const dataUrl = `data:${mimeType};base64,${asset.base64}`;
+    const fileName = asset.fileName || `photo-${Date.now()}.${mimeType.split('/')[1] || 'jpg'}`;
+    const problem = attachmentProblem({ fileName, mimeType, sizeBytes: dataUrlByteLength(dataUrl) });
+    if (problem) {
+      Alert.alert('Cannot attach photo', problem);
+      return;
+    }
+    setPendingAttachments(prev => [...prev, { fileName, mimeType, dataUrl }]);
+  }, [pendingAttachments.length]);
+
+  const toggleReaction = useCallback(async (messageId: string, emoji: string) => {
+    setActionMessage(null);
+    const res = await api.post(`/api/messages/message/${messageId}/reactions`, { emoji });
+    const reactions = res.data?.reactions || res.data?.data?.reactions;
+    if (res.success && reactions) {
+      setMessages(prev => prev.map(m => (m.id === messageId ? { ...m, reactions } : m)));
+    } else {
+      showApiErrorAlert(res, 'Could not react');
+    }
+  }, []);
+
+  const showEditHistory = useCallback(async (messageId: string) => {
+    const res = await api.get(`/api/messages/message/${messageId}/edits`);
+    const edits: Array<{ previousText: string; editedAt: string }> | undefined =
+      res.data?.edits || res.data?.data?.edits;
+    if (!res.success || !edits) {
+      showApiErrorAlert(res, 'Could not load earlier versions');
+      return;
+    }
+    Alert.alert(
+      'Earlier versions',
+      edits.length > 0
+        ? edits.map(edit => `${formatDate(edit.editedAt)}: ${edit.previousText}`).join('\n\n')
+        : 'No earlier versions.'
+    );
+  }, []);
+
   const performDeleteMessage = useCallback(async (messageId: string) => {
     if (!user) return;
     setDeletingMessageId(messageId);
@@ -443,14 +590,26 @@ export default function MessagesScreen() {
     return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
   };
 
+  // Receipts only show under the newest message we sent
+  const lastOwnMessageId = [...messages].reverse().find(m => m.senderId === user?.id)?.id;
+
   const renderMessageItem = useCallback(({ item }: { item: MessageItem }) => {
     const isMe = item.senderId === user?.id;
     const busy = deletingMessageId === item.id;
+    const attachments = item.attachments ?? [];
+    const reactions = item.reactions ?? [];
+    const receipt =
+      isMe && item.id === lastOwnMessageId
+        ? formatReadReceipt(item.readBy ?? [], item.senderId, () => activeConversation?.otherUser.name, false)
+        : null;
     return (
       <View
         style={[styles.messageBubbleRow, isMe && styles.messageBubbleRowMe]}
         accessible
-        accessibilityLabel={`${isMe ? 'You' : activeConversation?.otherUser.name || 'Member'} said ${item.messageText}. ${formatDate(item.createdAt)}.`}
+        accessibilityLabel={`${isMe ? 'You' : activeConversation?.otherUser.name || 'Member'} said ${item.messageText || `${attachments.length} attachment${attachments.length === 1 ? '' : 's'}`}. ${formatDate(item.createdAt)}.`}
+        accessibilityHint="Long press to react or edit"
+        accessibilityActions={[{ name: 'longpress', label: 'React or edit' }]}
+        onAccessibilityAction={() => setActionMessage(item)}
       >
         {isMe && (
           <TouchableOpacity
@@ -468,17 +627,68 @@ export default function MessagesScreen() {
             )}
           </TouchableOpacity>
         )}
-        <View style={[styles.messageBubble, isMe ? styles.bubbleMe : styles.bubbleThem]}>
-          <Text style={[styles.messageText, isMe && styles.messageTextMe]}>
-            {item.messageText}
-          </Text>
-          <Text style={[styles.messageTime, isMe && styles.messageTimeMe]}>
-            {formatDate(item.createdAt)}
-          </Text>
+        <View style={[styles.messageColumn, isMe && styles.messageColumnMe]}>
+          <Pressable
+            style={[styles.messageBubble, isMe ? styles.bubbleMe : styles.bubbleThem]}
+            onLongPress={() => setActionMessage(item)}
+            delayLongPress={300}
+          >
+            {attachments.map(attachment => (
+              <MessageAttachment key={attachment.id} attachment={attachment} />
+            ))}
+            {!!item.messageText && (
+              <Text style={[styles.messageText, isMe && styles.messageTextMe]}>
+                {item.messageText}
+              </Text>
+            )}
+            <Text style={[styles.messageTime, isMe && styles.messageTimeMe]}>
+              {formatDate(item.createdAt)}
+              {item.editedAt && (
+                <Text
+                  style={styles.editedLabel}
+                  onPress={() => void showEditHistory(item.id)}
+                  accessibilityRole="button"
+                  accessibilityLabel="Edited. Show earlier versions"
+                >
+                  {' \u00b7 edited'}
+                </Text>
+              )}
+            </Text>
+          </Pressable>
+          {reactions.length > 0 && (
+            <View style={styles.reactionRow}>
+              {reactions.map(reaction => {
+                const mine = !!user && reaction.userIds.includes(user.id);
+                return (
+                  <TouchableOpacity
+                    key={reaction.emoji}
+                    style={[styles.reactionChip, mine && styles.reactionChipMine]}
+                    onPress={() => void toggleReaction(item.id, reaction.emoji)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: mine }}
+                    accessibilityLabel={`${reaction.emoji} ${reaction.count}${mine ? ', tap to remove yours' : ''}`}
+                  >
+                    <Text style={styles.reactionText}>
+                      {reaction.emoji} {reaction.count}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+          {receipt && <Text style={styles.readReceipt}>{receipt}</Text>}
         </View>
       </View>
     );
-  }, [activeConversation?.otherUser.name, confirmDeleteMessage, deletingMessageId, user?.id]);
+  }, [
+    activeConversation?.otherUser.name,
+    confirmDeleteMessage,
+    deletingMessageId,
+    lastOwnMessageId,
+    showEditHistory,
+    toggleReaction,
+    user,
+  ]);
 
   // ── RENDER: Message Thread View ──
   if (activeConversation) {
@@ -497,6 +707,9 @@ export default function MessagesScreen() {
               clearDeepLinkParams();
               setActiveConversation(null);
               setMessages([]);
+              setPendingAttachments([]);
+              setEditingMessage(null);
+              setNewMessage('');
               fetchConversations();
             }}
             accessibilityRole="button"
@@ -522,7 +735,7 @@ export default function MessagesScreen() {
         <FlatList
           ref={messagesListRef}
           data={messages}
-          extraData={deletingMessageId}
+          extraData={{ deletingMessageId, lastOwnMessageId }}
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.messagesList}
           initialNumToRender={20}
@@ -548,8 +761,49 @@ export default function MessagesScreen() {
           renderItem={renderMessageItem}
         />
 
+        {/* Editing banner / photos waiting to send */}
+        {editingMessage && (
+          <View style={styles.composerBanner}>
+            <Ionicons name="create-outline" size={16} color={Colors.textMuted} />
+            <Text style={styles.composerBannerText}>Editing message</Text>
+            <TouchableOpacity onPress={cancelEditing} accessibilityRole="button" accessibilityLabel="Cancel editing">
+              <Text style={styles.composerBannerAction}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        {pendingAttachments.length > 0 && (
+          <View style={styles.composerBanner}>
+            {pendingAttachments.map((attachment, index) => (
+              <TouchableOpacity
+                key={`${attachment.fileName}-${index}`}
+                style={styles.pendingChip}
+                onPress={() => setPendingAttachments(prev => prev.filter((_, i) => i !== index))}
+                accessibilityRole="button"
+                accessibilityLabel={`Remove ${attachment.fileName}`}
+              >
+                <Ionicons name="image-outline" size={14} color={Colors.text} />
+                <Text style={styles.pendingChipText} numberOfLines={1}>
+                  {attachment.fileName}
+                </Text>
+                <Ionicons name="close" size={14} color={Colors.textMuted} />
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         {/* Input */}
         <View style={styles.inputBar}>
+          {activeConversation.id && !editingMessage && (
+            <TouchableOpacity
+              style={styles.attachButton}
+              onPress={() => void pickPhoto()}
+              disabled={sending}
+              accessibilityRole="button"
+              accessibilityLabel="Attach a photo"
+            >
+              <Ionicons name="image-outline" size={24} color={Colors.primary} />
+            </TouchableOpacity>
+          )}
           <Input
             style={styles.messageInput}
             value={newMessage}
@@ -560,14 +814,55 @@ export default function MessagesScreen() {
             maxLength={1000}
           />
           <Button
-            title="Send"
+            title={editingMessage ? 'Save' : 'Send'}
             onPress={activeConversation.id ? handleSend : handleSendNewConversation}
-            disabled={!newMessage.trim() || sending}
+            disabled={(!newMessage.trim() && (!!editingMessage || pendingAttachments.length === 0)) || sending}
             loading={sending}
-            accessibilityLabel="Send message"
+            accessibilityLabel={editingMessage ? 'Save edited message' : 'Send message'}
             style={styles.sendButton}
           />
         </View>
+
+        {/* Reactions / edit for a long-pressed message */}
+        <Modal
+          visible={!!actionMessage}
+          transparent
+          animationType="fade"
+          onRequestClose={() => setActionMessage(null)}
+        >
+          <Pressable
+            style={styles.actionBackdrop}
+            onPress={() => setActionMessage(null)}
+            accessibilityRole="button"
+            accessibilityLabel="Close message actions"
+          >
+            <View style={styles.actionSheet}>
+              <View style={styles.quickReactionRow}>
+                {QUICK_REACTIONS.map(emoji => (
+                  <TouchableOpacity
+                    key={emoji}
+                    style={styles.quickReaction}
+                    onPress={() => actionMessage && void toggleReaction(actionMessage.id, emoji)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`React with ${emoji}`}
+                  >
+                    <Text style={styles.quickReactionText}>{emoji}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {actionMessage && actionMessage.senderId === user?.id && !!actionMessage.messageText && (
+                <TouchableOpacity
+                  style={styles.actionItem}
+                  onPress={() => startEditing(actionMessage)}
+                  accessibilityRole="button"
+                >
+                  <Ionicons name="create-outline" size={20} color={Colors.text} />
+                  <Text style={styles.actionItemText}>Edit message</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </Pressable>
+        </Modal>
       </KeyboardAvoidingView>
     );
   }
@@ -897,8 +1192,15 @@ const styles = StyleSheet.create({
     fontFamily: FontFamily.semiBold,
     color: Colors.destructive,
   },
-  messageBubble: {
+  messageColumn: {
     maxWidth: '75%',
+    alignItems: 'flex-start',
+  },
+  messageColumnMe: {
+    alignItems: 'flex-end',
+  },
+  messageBubble: {
+    maxWidth: '100%',
     padding: Spacing.sm,
     paddingHorizontal: Spacing.md,
     borderRadius: BorderRadius.lg,
@@ -930,8 +1232,123 @@ const styles = StyleSheet.create({
   messageTimeMe: {
     color: Colors.textInverse + 'aa',
   },
+  editedLabel: {
+    textDecorationLine: 'underline',
+  },
+  reactionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginTop: Spacing.xs,
+  },
+  reactionChip: {
+    paddingVertical: 2,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.card,
+  },
+  reactionChipMine: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primary + '1a',
+  },
+  reactionText: {
+    fontSize: FontSize.xs,
+    fontFamily: FontFamily.semiBold,
+    color: Colors.text,
+  },
+  readReceipt: {
+    fontSize: 10,
+    fontFamily: FontFamily.regular,
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
+
+  // ── Message Actions ──
+  actionBackdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.35)',
+  },
+  actionSheet: {
+    backgroundColor: Colors.card,
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    paddingBottom: Spacing.xl,
+    gap: Spacing.sm,
+  },
+  quickReactionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  quickReaction: {
+    minWidth: TouchTarget.min,
+    minHeight: TouchTarget.min,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  quickReactionText: {
+    fontSize: 28,
+  },
+  actionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    minHeight: TouchTarget.min,
+  },
+  actionItemText: {
+    fontSize: FontSize.md,
+    fontFamily: FontFamily.semiBold,
+    color: Colors.text,
+  },
 
   // ── Input Bar ──
+  composerBanner: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+    backgroundColor: Colors.card,
+  },
+  composerBannerText: {
+    flex: 1,
+    fontSize: FontSize.sm,
+    fontFamily: FontFamily.semiBold,
+    color: Colors.textMuted,
+  },
+  composerBannerAction: {
+    fontSize: FontSize.sm,
+    fontFamily: FontFamily.semiBold,
+    color: Colors.primary,
+  },
+  pendingChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    maxWidth: 160,
+    paddingVertical: 4,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.surface,
+  },
+  pendingChipText: {
+    flexShrink: 1,
+    fontSize: FontSize.xs,
+    fontFamily: FontFamily.regular,
+    color: Colors.text,
+  },
+  attachButton: {
+    minWidth: TouchTarget.min,
+    minHeight: TouchTarget.min,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   inputBar: {
     flexDirection: 'row',
     padding: Spacing.sm,
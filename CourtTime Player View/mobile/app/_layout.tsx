@@ -145,6 +145,7 @@ function RootLayoutNav() {
       <Stack.Screen name="club-info" />
       <Stack.Screen name="notification-settings" />
       <Stack.Screen name="payments" options={{ title: 'Payments' }} />
+      <Stack.Screen name="leagues" options={{ title: 'Leagues' }} />
       <Stack.Screen name="payment-success" options={{ title: 'Payment' }} />
       <Stack.Screen name="lockout-paid" options={{ title: 'Payment' }} />
     </Stack>
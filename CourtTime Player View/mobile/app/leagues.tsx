@@ -0,0 +1,281 @@
+/**
+ * Leagues — the member's upcoming league matches and season standings
+ * (leagues feature flag). Scores are entered on the web Leagues page.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useAuth } from '../src/contexts/AuthContext';
+import { api } from '../src/api/client';
+import { unwrapApiPayload } from '../../shared/api/core';
+import { FEATURE_FLAGS } from '../../shared/constants/featureFlags';
+import { Card } from '../src/components/Card';
+import { Colors, FontSize, Spacing, BorderRadius } from '../src/constants/theme';
+import { createRouteErrorBoundary } from '../src/components/RouteErrorBoundary';
+
+export const ErrorBoundary = createRouteErrorBoundary('Leagues');
+
+interface LeagueSummary {
+  id: string;
+  name: string;
+  format: 'round_robin' | 'ladder';
+  seasons: Array<{ id: string; name: string; status: string }>;
+}
+
+interface Fixture {
+  id: string;
+  roundNumber: number;
+  homeTeamName: string;
+  awayTeamName: string;
+  matchDate: string;
+  startTime: string;
+  courtName: string | null;
+  status: 'scheduled' | 'unscheduled' | 'completed' | 'cancelled';
+  homeScore: number | null;
+  awayScore: number | null;
+  leagueName?: string;
+}
+
+interface StandingRow {
+  teamId: string;
+  teamName: string;
+  position: number;
+  played: number;
+  won: number;
+  lost: number;
+}
+
+interface SeasonDetail {
+  season: { id: string; name: string; leagueName: string; format: 'round_robin' | 'ladder' };
+  fixtures: Fixture[];
+  standings: StandingRow[];
+}
+
+function formatWhen(date: string, time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  const day = new Date(`${date}T00:00:00`).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+  return `${day} · ${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${hours >= 12 ? 'PM' : 'AM'}`;
+}
+
+function FixtureLine({ fixture }: { fixture: Fixture }) {
+  return (
+    <View style={styles.fixtureRow}>
+      <Text style={styles.fixtureTeams}>
+        {fixture.homeTeamName} vs {fixture.awayTeamName}
+        {fixture.status === 'completed' ? `  ${fixture.homeScore}–${fixture.awayScore}` : ''}
+      </Text>
+      <Text style={styles.fixtureMeta}>
+        {formatWhen(fixture.matchDate, fixture.startTime)}
+        {fixture.courtName ? ` · ${fixture.courtName}` : ''}
+        {fixture.status === 'unscheduled' ? ' · court to be confirmed' : ''}
+        {fixture.status === 'cancelled' ? ' · cancelled' : ''}
+      </Text>
+    </View>
+  );
+}
+
+export default function LeaguesScreen() {
+  const { facilityId } = useAuth();
+  const [enabled, setEnabled] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [leagues, setLeagues] = useState<LeagueSummary[]>([]);
+  const [myFixtures, setMyFixtures] = useState<Fixture[]>([]);
+  const [seasonId, setSeasonId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<SeasonDetail | null>(null);
+
+  const load = useCallback(async () => {
+    if (!facilityId) {
+      setLoading(false);
+      return;
+    }
+    const flags = await api.get(`/api/facilities/${facilityId}/feature-flags`);
+    const on =
+      flags.success && (unwrapApiPayload<string[]>(flags.data) ?? []).includes(FEATURE_FLAGS.LEAGUES);
+    setEnabled(Boolean(on));
+    if (on) {
+      const [leaguesRes, fixturesRes] = await Promise.all([
+        api.get(`/api/leagues/${facilityId}/leagues`),
+        api.get(`/api/leagues/${facilityId}/me/fixtures`),
+      ]);
+      const list = leaguesRes.success ? unwrapApiPayload<LeagueSummary[]>(leaguesRes.data) ?? [] : [];
+      setLeagues(list);
+      setMyFixtures(fixturesRes.success ? unwrapApiPayload<Fixture[]>(fixturesRes.data) ?? [] : []);
+      setSeasonId((current) => current ?? list.flatMap((l) => l.seasons)[0]?.id ?? null);
+    }
+    setLoading(false);
+    setRefreshing(false);
+  }, [facilityId]);
+
+  useEffect(() => {
+    setLoading(true);
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!facilityId || !seasonId) {
+      setDetail(null);
+      return;
+    }
+    void api.get(`/api/leagues/${facilityId}/seasons/${seasonId}`).then((res) => {
+      setDetail(res.success ? unwrapApiPayload<SeasonDetail>(res.data) ?? null : null);
+    });
+  }, [facilityId, seasonId]);
+
+  const seasons = leagues.flatMap((league) =>
+    league.seasons.map((season) => ({ id: season.id, label: `${league.name} · ${season.name}` }))
+  );
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={() => {
+            setRefreshing(true);
+            void load();
+          }}
+        />
+      }
+    >
+      {loading ? (
+        <ActivityIndicator color={Colors.primary} style={{ marginTop: Spacing.xl }} />
+      ) : !facilityId || !enabled ? (
+        <Card padded>
+          <Text style={styles.emptyTitle}>Leagues unavailable</Text>
+          <Text style={styles.emptyDesc}>
+            {facilityId ? 'Your club has not turned on leagues.' : 'Choose a facility to see its leagues.'}
+          </Text>
+        </Card>
+      ) : (
+        <>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>My matches</Text>
+            {myFixtures.length === 0 ? (
+              <Text style={styles.emptyDesc}>You have no upcoming league matches.</Text>
+            ) : (
+              <Card padded>
+                {myFixtures.map((fixture) => (
+                  <View key={fixture.id}>
+                    <Text style={styles.fixtureLeague}>
+                      {fixture.leagueName} · Round {fixture.roundNumber}
+                    </Text>
+                    <FixtureLine fixture={fixture} />
+                  </View>
+                ))}
+              </Card>
+            )}
+          </View>
+
+          {seasons.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Standings</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chips}>
+                {seasons.map((season) => (
+                  <TouchableOpacity
+                    key={season.id}
+                    style={[styles.chip, season.id === seasonId && styles.chipActive]}
+                    onPress={() => setSeasonId(season.id)}
+                    accessibilityRole="button"
+                  >
+                    <Text style={[styles.chipText, season.id === seasonId && styles.chipTextActive]}>
+                      {season.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+
+              {detail && (
+                <>
+                  <Card padded>
+                    <View style={styles.tableHeader}>
+                      <Text style={[styles.tableHead, styles.rankCol]}>#</Text>
+                      <Text style={[styles.tableHead, styles.teamCol]}>Team</Text>
+                      <Text style={[styles.tableHead, styles.numCol]}>W</Text>
+                      <Text style={[styles.tableHead, styles.numCol]}>L</Text>
+                    </View>
+                    {detail.standings.map((row) => (
+                      <View key={row.teamId} style={styles.tableRow}>
+                        <Text style={[styles.tableCell, styles.rankCol]}>{row.position}</Text>
+                        <Text style={[styles.tableCell, styles.teamCol]} numberOfLines={1}>
+                          {row.teamName}
+                        </Text>
+                        <Text style={[styles.tableCell, styles.numCol]}>{row.won}</Text>
+                        <Text style={[styles.tableCell, styles.numCol]}>{row.lost}</Text>
+                      </View>
+                    ))}
+                  </Card>
+
+                  <Text style={[styles.sectionTitle, { marginTop: Spacing.lg }]}>Fixtures</Text>
+                  <Card padded>
+                    {detail.fixtures.length === 0 ? (
+                      <Text style={styles.emptyDesc}>No matches scheduled yet.</Text>
+                    ) : (
+                      detail.fixtures.map((fixture) => <FixtureLine key={fixture.id} fixture={fixture} />)
+                    )}
+                  </Card>
+                </>
+              )}
+            </View>
+          )}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.surface },
+  content: { padding: Spacing.md, paddingBottom: Spacing.xxl },
+  section: { marginBottom: Spacing.lg },
+  sectionTitle: {
+    fontSize: FontSize.md,
+    fontWeight: '700',
+    color: Colors.text,
+    marginBottom: Spacing.sm,
+  },
+  fixtureRow: { paddingVertical: Spacing.sm },
+  fixtureLeague: { fontSize: FontSize.xs, color: Colors.textMuted, marginTop: Spacing.xs },
+  fixtureTeams: { fontSize: FontSize.sm, fontWeight: '600', color: Colors.text },
+  fixtureMeta: { fontSize: FontSize.xs, color: Colors.textSecondary, marginTop: 2 },
+  chips: { marginBottom: Spacing.sm },
+  chip: {
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: 6,
+    marginRight: Spacing.sm,
+  },
+  chipActive: { backgroundColor: Colors.primary, borderColor: Colors.primary },
+  chipText: { fontSize: FontSize.sm, color: Colors.text },
+  chipTextActive: { color: Colors.textInverse },
+  tableHeader: { flexDirection: 'row', paddingBottom: Spacing.xs },
+  tableRow: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: Colors.borderLight,
+  },
+  tableHead: { fontSize: FontSize.xs, color: Colors.textMuted, fontWeight: '600' },
+  tableCell: { fontSize: FontSize.sm, color: Colors.text },
+  rankCol: { width: 32 },
+  teamCol: { flex: 1 },
+  numCol: { width: 32, textAlign: 'right' },
+  emptyTitle: { fontSize: FontSize.md, fontWeight: '600', color: Colors.text, marginBottom: 4 },
+  emptyDesc: { fontSize: FontSize.sm, color: Colors.textSecondary, lineHeight: 20 },
+});
@@ -21,7 +21,7 @@ import { Colors, Spacing, FontSize, BorderRadius } from '../constants/theme';
 import type { Court } from '../types/database';
 import { BookingSkeleton } from './LoadingSkeleton';
 import { EmptyState } from './EmptyState';
-import { createPollingTransport } from '../../../shared/api/sync';
+import { isBookingEventFor, realtimeTransport } from '../api/realtime';
 import { getOperatingHoursForDay, isTruthyClosed } from '../../../shared/utils/operatingHours';
 import { userFacingApiMessage, type ApiFailureShape } from '../utils/apiUserMessages';
 import { formatCourtCalendarSubtitle } from '../../../shared/utils/courtNaming';
@@ -32,7 +32,6 @@ const TIME_LABEL_WIDTH = 46;
 const ROW_HEIGHT = 48;
 const DEFAULT_SLOT_MINUTES = 30;
 const COURTS_PER_PAGE = 4;
-const ACTIVE_DAY_POLL_MS = 5000;
 const DRAG_ARM_DELAY_MS = 180;
 const BOOKED_SLOT_TAP_MAX_MOVEMENT_PX = 8;
 
@@ -520,17 +519,18 @@ export function CourtCalendarGrid({
     };
   }, [onInteractionLockChange]);
 
+  // Refetch as soon as someone books or cancels on the shown day
   useEffect(() => {
-    if (selectedYmd !== localTodayYmd()) {
+    if (!facilityId || !selectedYmd) {
       return;
     }
 
-    const stopPolling = createPollingTransport(ACTIVE_DAY_POLL_MS).subscribe(() => {
+    return realtimeTransport({ facilityIds: [facilityId] }, (event) =>
+      isBookingEventFor(event, facilityId, selectedYmd)
+    ).subscribe(() => {
       void fetchAvailability({ background: true });
     });
-
-    return stopPolling;
-  }, [fetchAvailability, selectedYmd]);
+  }, [facilityId, fetchAvailability, selectedYmd]);
 
   /**
    * Vertical size of the time column (one row per slot). Used for scroll math and iOS content height.
@@ -0,0 +1,136 @@
+/**
+ * One attachment in a message bubble. Message lists only carry the name, type
+ * and size; images load their contents on first render and keep them for the
+ * session. Other files show as a labelled chip (open them from the web app).
+ */
+
+import { memo, useEffect, useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, View } from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { api } from '../api/client';
+import { BorderRadius, Colors, FontFamily, FontSize, Spacing } from '../constants/theme';
+import {
+  formatFileSize,
+  isImageAttachment,
+  type MessageAttachmentSummary,
+} from '../../../shared/utils/messageContent';
+
+const contentCache = new Map<string, Promise<string | null>>();
+
+function loadAttachmentContent(attachmentId: string): Promise<string | null> {
+  let pending = contentCache.get(attachmentId);
+  if (!pending) {
+    pending = api.get(`/api/messages/attachments/${attachmentId}`).then((res) => {
+      const dataUrl: string | null = res.success
+        ? res.data?.attachment?.dataUrl ?? res.data?.data?.attachment?.dataUrl ?? null
+        : null;
+      // Let a failed load retry next time it's shown
+      if (!dataUrl) contentCache.delete(attachmentId);
+      return dataUrl;
+    });
+    contentCache.set(attachmentId, pending);
+  }
+  return pending;
+}
+
+function ImageAttachment({ attachment }: { attachment: MessageAttachmentSummary }) {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    void loadAttachmentContent(attachment.id).then((url) => {
+      if (cancelled) return;
+      if (url) setDataUrl(url);
+      else setFailed(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment.id]);
+
+  if (failed) {
+    return <FileChip attachment={attachment} icon="image-outline" />;
+  }
+  if (!dataUrl) {
+    return (
+      <View style={[styles.image, styles.imagePlaceholder]}>
+        <ActivityIndicator size="small" color={Colors.textMuted} />
+      </View>
+    );
+  }
+  return (
+    <Image
+      source={{ uri: dataUrl, cacheKey: `message-attachment-${attachment.id}` }}
+      style={styles.image}
+      contentFit="cover"
+      accessibilityLabel={attachment.fileName}
+      accessibilityIgnoresInvertColors
+    />
+  );
+}
+
+function FileChip({
+  attachment,
+  icon = 'document-outline',
+}: {
+  attachment: MessageAttachmentSummary;
+  icon?: keyof typeof Ionicons.glyphMap;
+}) {
+  return (
+    <View style={styles.fileChip} accessible accessibilityLabel={`Attachment ${attachment.fileName}`}>
+      <Ionicons name={icon} size={16} color={Colors.text} />
+      <Text style={styles.fileName} numberOfLines={1}>
+        {attachment.fileName}
+      </Text>
+      <Text style={styles.fileSize}>{formatFileSize(attachment.sizeBytes)}</Text>
+    </View>
+  );
+}
+
+function MessageAttachmentBase({ attachment }: { attachment: MessageAttachmentSummary }) {
+  return isImageAttachment(attachment.mimeType) ? (
+    <ImageAttachment attachment={attachment} />
+  ) : (
+    <FileChip attachment={attachment} />
+  );
+}
+
+export const MessageAttachment = memo(MessageAttachmentBase);
+
+const styles = StyleSheet.create({
+  image: {
+    width: 200,
+    height: 150,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.xs,
+  },
+  imagePlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.borderLight,
+  },
+  fileChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Colors.card,
+    marginBottom: Spacing.xs,
+    maxWidth: 220,
+  },
+  fileName: {
+    flexShrink: 1,
+    fontSize: FontSize.xs,
+    fontFamily: FontFamily.semiBold,
+    color: Colors.text,
+  },
+  fileSize: {
+    fontSize: FontSize.xs,
+    fontFamily: FontFamily.regular,
+    color: Colors.textMuted,
+  },
+});
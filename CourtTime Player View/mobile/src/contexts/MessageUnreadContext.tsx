@@ -1,8 +1,10 @@
 import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
 import { api } from '../api/client';
+import { subscribeToRealtime } from '../api/realtime';
 import { useAuth } from './AuthContext';
 
-const MESSAGE_UNREAD_REFRESH_MS = 30_000;
+/** Fallback for when the realtime stream is down; new messages normally arrive over it. */
+const MESSAGE_UNREAD_REFRESH_MS = 120_000;
 
 type ConversationWithUnreadCount = {
   unreadCount?: number | string | null;
@@ -69,7 +71,24 @@ export function MessageUnreadProvider({ children }: { children: React.ReactNode
       void refreshUnreadMessages();
     }, MESSAGE_UNREAD_REFRESH_MS);
 
-    return () => clearInterval(intervalId);
+    let connectedBefore = false;
+    const closeStream = subscribeToRealtime(
+      {},
+      (event) => {
+        if (event.type === 'message.created' && event.message.senderId !== user.id) {
+          void refreshUnreadMessages();
+        }
+      },
+      () => {
+        if (connectedBefore) void refreshUnreadMessages();
+        connectedBefore = true;
+      }
+    );
+
+    return () => {
+      clearInterval(intervalId);
+      closeStream();
+    };
   }, [facilityId, refreshUnreadMessages, user?.id]);
 
   const value = useMemo(
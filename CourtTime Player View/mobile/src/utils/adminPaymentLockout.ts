@@ -1,7 +1,8 @@
 export type AdminLockoutMember = {
   userId: string;
   fullName: string;
-  email: string;
+  /** Null for dependents, who have no login of their own. */
+  email: string | null;
   isPaymentLocked: boolean;
   lockoutAmountCents?: number | null;
 };
@@ -9,13 +10,13 @@ export type AdminLockoutMember = {
 export function parseAdminLockoutMembers(raw: unknown): AdminLockoutMember[] {
   const list = Array.isArray(raw) ? raw : [];
   return list
-    .map((m: Record<string, unknown>) => {
+    .map((m: Record<string, unknown>): AdminLockoutMember | null => {
       const userId = String(m.userId ?? m.id ?? '').trim();
       if (!userId) return null;
       return {
         userId,
         fullName: String(m.fullName ?? m.userName ?? m.name ?? 'Member').trim() || 'Member',
-        email: String(m.email ?? '').trim(),
+        email: String(m.email ?? '').trim() || null,
         isPaymentLocked: Boolean(m.isPaymentLocked),
         lockoutAmountCents:
           typeof m.lockoutAmountCents === 'number' ? m.lockoutAmountCents : null,
@@ -33,7 +34,7 @@ export function filterMembersBySearch(
   return members.filter(
     (m) =>
       m.fullName.toLowerCase().includes(q) ||
-      m.email.toLowerCase().includes(q) ||
+      (m.email ?? '').toLowerCase().includes(q) ||
       m.userId.toLowerCase().includes(q)
   );
 }
@@ -11,6 +11,7 @@ const BOOKING_PUSH_TYPES = new Set([
   'booking_cancelled',
   'booking_reminder',
   'court_change',
+  'court_waitlist_offer',
   'reservation_confirmed',
   'reservation_cancelled',
   'reservation_reminder',
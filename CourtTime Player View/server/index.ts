@@ -9,9 +9,10 @@ import dotenv from 'dotenv';
 import os from 'os';
 import path from 'path';
 import fs from 'fs';
-import { testConnection, closePool, getClient } from '../src/database/connection';
-import { processBulletinMinParticipantCancellations } from '../src/services/bulletinBoardService';
-import { expireSplitCourtReservations } from '../src/services/splitCourtPaymentService';
+import { testConnection, closePool } from '../src/database/connection';
+import { startJobWorker, stopJobWorker } from '../src/services/jobQueueService';
+import { registerBackgroundJobs } from '../src/services/backgroundJobs';
+import { startRealtimeRelay, stopRealtimeRelay } from '../src/services/realtimeService';
 
 /** Load `.env`, then fill gaps from `.env.development`, then override with `.env.local`. */
 function loadProjectEnv() {
@@ -37,13 +38,21 @@ import playerProfileRoutes from './routes/playerProfile';
 import hittingPartnerRoutes from './routes/hittingPartner';
 import bulletinBoardRoutes from './routes/bulletinBoard';
 import lessonsRoutes from './routes/lessons';
+import leaguesRoutes from './routes/leagues';
+import tournamentsRoutes from './routes/tournaments';
+import publicTournamentsRoutes from './routes/publicTournaments';
+import bookingRemindersRoutes from './routes/bookingReminders';
+import campaignTrackingRoutes from './routes/campaignTracking';
+import matchResultsRoutes from './routes/matchResults';
 import bookingRoutes from './routes/bookings';
+import courtWaitlistRoutes from './routes/courtWaitlist';
 import adminRoutes from './routes/admin';
 import addressWhitelistRoutes from './routes/addressWhitelist';
 import messagesRoutes from './routes/messages';
 import playerLevelGroupRoutes from './routes/playerLevelGroups';
 import ballMachineRoutes from './routes/ballMachine';
 import notificationRoutes from './routes/notifications';
+import realtimeRoutes from './routes/realtime';
 import userPreferencesRoutes from './routes/userPreferences';
 import supportRoutes from './routes/support';
 // Rules engine routes
@@ -51,6 +60,10 @@ import strikesRoutes from './routes/strikes';
 import courtConfigRoutes from './routes/courtConfig';
 import rulesRoutes from './routes/rules';
 import householdsRoutes from './routes/households';
+import dependentsRoutes from './routes/dependents';
+import walletRoutes from './routes/wallet';
+import sessionPackageRoutes from './routes/sessionPackages';
+import courtPricingRoutes from './routes/courtPricing';
 import paymentRoutes from './routes/payments';
 import webhookRoutes from './routes/webhook';
 import facilityLocationsRoutes from './routes/facilityLocations';
@@ -58,9 +71,11 @@ import stripeConnectRoutes from './routes/stripeConnect';
 import paymentItemsRoutes from './routes/paymentItems';
 import connectPaymentsRoutes from './routes/connectPayments';
 import connectWebhookRoutes from './routes/connectWebhook';
+import smsWebhookRoutes from './routes/smsWebhook';
 import proShopRoutes from './routes/proShop';
 import annualFeesRoutes from './routes/annualFees';
 import reportingRoutes from './routes/reporting';
+import guestsRoutes from './routes/guests';
 import pickleRoutes from './routes/pickle';
 import { requireAuth, requireNotPaymentLocked } from './middleware/auth';
 
@@ -135,8 +150,10 @@ app.set('trust proxy', 1);
 // Stripe webhooks must be mounted BEFORE express.json() — they need the raw body for signature verification.
 //  - webhookRoutes mounts POST /api/webhooks/stripe (platform subscription billing — existing, untouched).
 //  - connectWebhookRoutes mounts POST /api/webhooks/stripe-connect (member→club Connect payments).
+//  - smsWebhookRoutes mounts POST /api/webhooks/sms/{inbound,status} (STOP replies, delivery receipts).
 app.use('/api/webhooks', webhookRoutes);
 app.use('/api/webhooks', connectWebhookRoutes);
+app.use('/api/webhooks', smsWebhookRoutes);
 
 // Middleware
 app.use(cors({
@@ -204,6 +221,12 @@ app.use('/api/payments', paymentRoutes);
 app.use('/api/payments', connectPaymentsRoutes);
 app.use('/api/stripe', stripeConnectRoutes);
 app.use('/api/payment-items', paymentItemsRoutes);
+// Shared tournament brackets; mounted ahead of the authenticated /api/tournaments routes.
+app.use('/api/tournaments/public', publicTournamentsRoutes);
+// Booking reminder confirm / release links; the token is the credential.
+app.use('/api/booking-reminders', bookingRemindersRoutes);
+// Campaign email open pixel / click-through redirect; the send's tracking token is the credential.
+app.use('/api/campaign-tracking', campaignTrackingRoutes);
 
 // API Routes — protected (require valid JWT)
 // Admin routes are NOT subject to payment lockout so admins can manage locked accounts.
@@ -212,6 +235,8 @@ app.use('/api/members', requireAuth, memberRoutes);
 app.use('/api/users', requireAuth, userRoutes);
 app.use('/api/player-profile', requireAuth, playerProfileRoutes);
 app.use('/api/notifications', requireAuth, notificationRoutes);
+// Live booking / message / notification updates (server-sent events)
+app.use('/api/realtime', requireAuth, realtimeRoutes);
 app.use('/api/user-preferences', requireAuth, userPreferencesRoutes);
 app.use('/api/facility-locations', requireAuth, facilityLocationsRoutes);
 
@@ -219,7 +244,11 @@ app.use('/api/facility-locations', requireAuth, facilityLocationsRoutes);
 app.use('/api/hitting-partner', requireAuth, requireNotPaymentLocked, hittingPartnerRoutes);
 app.use('/api/bulletin-board', requireAuth, requireNotPaymentLocked, bulletinBoardRoutes);
 app.use('/api/lessons', requireAuth, requireNotPaymentLocked, lessonsRoutes);
+app.use('/api/leagues', requireAuth, requireNotPaymentLocked, leaguesRoutes);
+app.use('/api/tournaments', requireAuth, requireNotPaymentLocked, tournamentsRoutes);
+app.use('/api/match-results', requireAuth, requireNotPaymentLocked, matchResultsRoutes);
 app.use('/api/bookings', requireAuth, requireNotPaymentLocked, bookingRoutes);
+app.use('/api/court-waitlist', requireAuth, requireNotPaymentLocked, courtWaitlistRoutes);
 app.use('/api/address-whitelist', requireAuth, requireNotPaymentLocked, addressWhitelistRoutes);
 app.use('/api/messages', requireAuth, requireNotPaymentLocked, messagesRoutes);
 app.use('/api/player-level-groups', requireAuth, requireNotPaymentLocked, playerLevelGroupRoutes);
@@ -228,9 +257,14 @@ app.use('/api/strikes', requireAuth, requireNotPaymentLocked, strikesRoutes);
 app.use('/api/court-config', requireAuth, requireNotPaymentLocked, courtConfigRoutes);
 app.use('/api/rules', requireAuth, requireNotPaymentLocked, rulesRoutes);
 app.use('/api/households', requireAuth, requireNotPaymentLocked, householdsRoutes);
+app.use('/api/dependents', requireAuth, requireNotPaymentLocked, dependentsRoutes);
+app.use('/api/wallet', requireAuth, requireNotPaymentLocked, walletRoutes);
+app.use('/api/session-packages', requireAuth, requireNotPaymentLocked, sessionPackageRoutes);
+app.use('/api/court-pricing', requireAuth, requireNotPaymentLocked, courtPricingRoutes);
 app.use('/api/pro-shop', requireAuth, proShopRoutes);
 app.use('/api/annual-fees', requireAuth, annualFeesRoutes);
 app.use('/api/reports', requireAuth, reportingRoutes);
+app.use('/api/guests', requireAuth, requireNotPaymentLocked, guestsRoutes);
 app.use('/api/pickle', requireAuth, pickleRoutes);
 
 // Error handling middleware
@@ -314,52 +348,20 @@ async function startServer() {
       console.log(`   ⏰ Court Config: /api/court-config`);
       console.log(`   📜 Booking Rules: /api/rules`);
       console.log(`   🏠 Households: /api/households`);
+      console.log(`   👪 Dependents: /api/dependents`);
+      console.log(`   💳 Wallet: /api/wallet`);
+      console.log(`   🎟️ Session Packages: /api/session-packages`);
+      console.log(`   🏷️ Court Pricing: /api/court-pricing`);
       console.log(`   💳 Stripe Connect: /api/stripe, /api/payment-items, /api/payments/checkout`);
       console.log(`\n${'='.repeat(60)}\n`);
     });
 
-    let bulletinCancellationSweepRunning = false;
-    const runBulletinCancellationSweep = async () => {
-      if (bulletinCancellationSweepRunning) return;
-      bulletinCancellationSweepRunning = true;
-      let lockClient: Awaited<ReturnType<typeof getClient>> | null = null;
-      let lockAcquired = false;
-      try {
-        lockClient = await getClient();
-        await lockClient.query('BEGIN');
-        const lockResult = await lockClient.query(
-          'SELECT pg_try_advisory_xact_lock(hashtext($1)) AS locked',
-          ['courttime:bulletin-min-participant-cancellations']
-        );
-        lockAcquired = Boolean(lockResult.rows[0]?.locked);
-        if (!lockAcquired) {
-          await lockClient.query('ROLLBACK');
-          return;
-        }
-
-        const cancelledCount = await processBulletinMinParticipantCancellations();
-        if (cancelledCount > 0) {
-          console.log(`📧 Bulletin events cancelled for min participants: ${cancelledCount}`);
-        }
+    // Sweeps, billing runs and campaign sends run from the Postgres job queue
+    registerBackgroundJobs();
+    startJobWorker();
 
-        await lockClient.query('COMMIT');
-      } catch (error) {
-        console.error('Bulletin min participant cancellation sweep failed:', error);
-        if (lockClient && lockAcquired) {
-          await lockClient.query('ROLLBACK').catch((rollbackError) =>
-            console.error('Failed to roll back bulletin sweep lock:', rollbackError)
-          );
-        }
-      } finally {
-        lockClient?.release();
-        bulletinCancellationSweepRunning = false;
-      }
-    };
-    await runBulletinCancellationSweep();
-    const bulletinCancellationInterval = setInterval(runBulletinCancellationSweep, 60 * 1000);
-    const splitPaymentExpiryInterval = setInterval(() => {
-      expireSplitCourtReservations().catch((error) => console.error('Split payment expiry sweep failed:', error));
-    }, 60 * 1000);
+    // Live updates published on other instances reach this one's streams via Postgres NOTIFY
+    void startRealtimeRelay();
 
     // Handle server errors
     server.on('error', (error: any) => {
@@ -383,10 +385,10 @@ async function startServer() {
 
       server.close(async () => {
         console.log('🔌 HTTP server closed');
-        clearInterval(bulletinCancellationInterval);
-        clearInterval(splitPaymentExpiryInterval);
 
         try {
+          await stopJobWorker();
+          stopRealtimeRelay();
           await closePool();
           console.log('✅ Graceful shutdown completed');
           process.exit(0);
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+
+const recordAuditEventMock = vi.fn();
+
+vi.mock('../../../src/database/connection', () => ({
+  query: vi.fn(),
+}));
+
+vi.mock('../../../src/services/auditLogService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/services/auditLogService')>()),
+  recordAuditEvent: (...args: unknown[]) => recordAuditEventMock(...args),
+}));
+
+import { auditTrail } from '../auditLog';
+import { diffSnapshots } from '../../../src/services/auditLogService';
+
+describe('diffSnapshots', () => {
+  it('keeps changed fields only and redacts secrets', () => {
+    expect(
+      diffSnapshots(
+        { name: 'Court 1', is_indoor: false, password_hash: 'a', updated_at: '2030-01-01', config: { b: 1 } },
+        { name: 'Court 1', is_indoor: true, password_hash: 'b', updated_at: '2030-01-02', config: { b: 1 } }
+      )
+    ).toEqual({
+      is_indoor: { before: false, after: true },
+      password_hash: { before: '[redacted]', after: '[redacted]' },
+    });
+  });
+
+  it('shows every field on one side for creates and deletes', () => {
+    expect(diffSnapshots(null, { id: 's1', reason: 'no show' })).toEqual({
+      id: { before: null, after: 's1' },
+      reason: { before: null, after: 'no show' },
+    });
+  });
+});
+
+describe('auditTrail', () => {
+  let server: Server;
+  let baseUrl: string;
+  const courts = new Map<string, Record<string, unknown>>();
+
+  beforeEach(async () => {
+    recordAuditEventMock.mockReset().mockResolvedValue(undefined);
+    courts.clear();
+    courts.set('c1', { id: 'c1', facility_id: 'fac-1', name: 'Court 1' });
+
+    const router = express.Router();
+    auditTrail(router, {
+      source: 'admin',
+      snapshots: {
+        courtId: { entityType: 'courts', load: async (id) => (courts.has(id) ? { ...courts.get(id)! } : null) },
+      },
+      skip: ['/courts/:courtId/preview'],
+    });
+    router.patch('/courts/:courtId', (req, res) => {
+      courts.set(req.params.courtId, { ...courts.get(req.params.courtId)!, name: req.body.name });
+      res.json({ success: true });
+    });
+    router.post('/courts/:courtId/preview', (_req, res) => res.json({ success: true }));
+    router.delete('/courts/:courtId', (_req, res) => res.status(409).json({ success: false }));
+
+    const app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      req.user = { userId: 'admin-1', email: 'a@example.com', userType: 'admin' };
+      next();
+    });
+    app.use('/api/admin', router);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/admin`;
+  });
+
+  afterEach(() => {
+    server.close();
+  });
+
+  /** The middleware writes after the response, so wait for it. */
+  async function nextAuditEvent() {
+    await vi.waitFor(() => expect(recordAuditEventMock).toHaveBeenCalled());
+    return recordAuditEventMock.mock.calls[0][0];
+  }
+
+  it('records the actor, facility and a before/after diff', async () => {
+    await fetch(`${baseUrl}/courts/c1`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Centre Court' }),
+    });
+
+    const event = await nextAuditEvent();
+    expect(event).toMatchObject({
+      actorType: 'admin',
+      actorUserId: 'admin-1',
+      facilityId: 'fac-1',
+      source: 'admin',
+      action: 'PATCH /api/admin/courts/:courtId',
+      entityType: 'courts',
+      entityId: 'c1',
+      changes: { name: { before: 'Court 1', after: 'Centre Court' } },
+    });
+    expect(event.metadata.statusCode).toBe(200);
+  });
+
+  it('skips reads, failures and routes marked as non-mutating', async () => {
+    await fetch(`${baseUrl}/courts/c1/preview`, { method: 'POST' });
+    await fetch(`${baseUrl}/courts/c1`, { method: 'DELETE' });
+    await fetch(`${baseUrl}/courts/c1`);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(recordAuditEventMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Admin audit trail.
+ *
+ * `auditTrail(router, options)` records every successful POST/PUT/PATCH/DELETE
+ * handled by the router in admin_audit_log, once the response has finished.
+ * Entities listed in `snapshots` are loaded by route param before the handler
+ * runs and again afterwards, so the row carries a field-level before/after
+ * diff. Call it after the router's own router.param guards (so unauthorized
+ * requests are rejected before anything is loaded) and before its routes.
+ *
+ * The facility is taken from, in order: the id a guard confirmed the caller
+ * administers (ensureFacilityAdmin sets res.locals.auditFacilityId), the
+ * snapshot, then a facilityId in the params, body or query.
+ */
+
+import express from 'express';
+import { query } from '../../src/database/connection';
+import { diffSnapshots, recordAuditEvent, type AuditActorType } from '../../src/services/auditLogService';
+
+type Snapshot = Record<string, unknown> | null;
+
+export interface AuditSnapshotSpec {
+  /** Plural resource name, e.g. "courts". */
+  entityType: string;
+  load: (value: string, req: express.Request) => Promise<Snapshot>;
+  /** Only for request paths (relative to the router) starting with this. */
+  pathPrefix?: string;
+  /** The owning facility; defaults to the snapshot's facility_id. */
+  facilityIdOf?: (value: string, snapshot: Snapshot) => string | null;
+}
+
+export interface AuditTrailOptions {
+  /** admin | support | rules | strikes | members | court_config | guests */
+  source: string;
+  actorType?: AuditActorType;
+  /** Entity type when no snapshot applies; defaults to the route's first path segment. */
+  entityType?: string;
+  snapshots?: Record<string, AuditSnapshotSpec | AuditSnapshotSpec[]>;
+  /** Route paths, as declared on the router, that change nothing or aren't admin actions. */
+  skip?: string[];
+}
+
+interface AuditEntity {
+  spec: AuditSnapshotSpec;
+  value: string;
+  before: Snapshot;
+}
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+const MAX_BODY_CHARS = 20_000;
+
+/** Snapshot of one row by id. `table` is a constant from the caller, never user input. */
+export function rowSnapshot(table: string, entityType: string = table): AuditSnapshotSpec {
+  return {
+    entityType,
+    load: async (id) => (await query(`SELECT * FROM ${table} WHERE id = $1`, [id])).rows[0] ?? null,
+  };
+}
+
+function clientIp(req: express.Request): string | null {
+  const forwarded = req.headers['x-forwarded-for'];
+  return (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim() || req.ip || null;
+}
+
+/** The request body, dropped (but noted) when it is too large to be worth keeping. */
+function bodyForLog(body: unknown): unknown {
+  if (body === undefined) return null;
+  const json = JSON.stringify(body);
+  return json.length > MAX_BODY_CHARS ? { truncated: true, length: json.length } : body;
+}
+
+function firstPathSegment(routePath: string): string | null {
+  const segment = routePath.split('/').find((part) => part && !part.startsWith(':'));
+  return segment ? segment.replace(/-/g, '_') : null;
+}
+
+function lastParamValue(params: Record<string, string | string[]>): string | null {
+  const values = Object.values(params);
+  return values.length > 0 ? String(values[values.length - 1]) : null;
+}
+
+async function writeEvent(
+  req: express.Request,
+  res: express.Response,
+  baseUrl: string,
+  options: AuditTrailOptions
+): Promise<void> {
+  const routePath: string = req.route.path;
+  const entity: AuditEntity | undefined = res.locals.auditEntity;
+
+  let after: Snapshot = null;
+  if (entity) {
+    try {
+      after = await entity.spec.load(entity.value, req);
+    } catch (error) {
+      console.error('Audit snapshot failed:', error);
+    }
+  }
+  const snapshot = entity ? entity.before ?? after : null;
+  const snapshotFacility = entity
+    ? entity.spec.facilityIdOf
+      ? entity.spec.facilityIdOf(entity.value, snapshot)
+      : (snapshot?.facility_id as string | undefined) ?? null
+    : null;
+
+  await recordAuditEvent({
+    actorType: options.actorType ?? 'admin',
+    actorUserId: req.user?.userId ?? null,
+    facilityId:
+      res.locals.auditFacilityId ??
+      snapshotFacility ??
+      req.params.facilityId ??
+      req.body?.facilityId ??
+      (req.query.facilityId as string | undefined) ??
+      null,
+    source: options.source,
+    action: `${req.method} ${baseUrl}${routePath}`,
+    entityType: entity?.spec.entityType ?? options.entityType ?? firstPathSegment(routePath) ?? options.source,
+    entityId: entity?.value ?? lastParamValue(req.params),
+    changes: entity ? diffSnapshots(entity.before, after) : {},
+    metadata: {
+      ip: clientIp(req),
+      userAgent: req.headers['user-agent'] ?? null,
+      statusCode: res.statusCode,
+      params: req.params,
+      query: req.query,
+      body: bodyForLog(req.body),
+    },
+  });
+}
+
+export function auditTrail(router: express.Router, options: AuditTrailOptions): void {
+  for (const [param, specOrSpecs] of Object.entries(options.snapshots ?? {})) {
+    const specs = Array.isArray(specOrSpecs) ? specOrSpecs : [specOrSpecs];
+    router.param(param, async (req, res, next, value: string) => {
+      const spec = specs.find((s) => !s.pathPrefix || req.path.startsWith(s.pathPrefix));
+      if (!spec || !MUTATING_METHODS.has(req.method)) return next();
+      try {
+        const entity: AuditEntity = { spec, value, before: await spec.load(value, req) };
+        res.locals.auditEntity = entity;
+      } catch (error) {
+        console.error('Audit snapshot failed:', error);
+      }
+      next();
+    });
+  }
+
+  router.use((req, res, next) => {
+    if (!MUTATING_METHODS.has(req.method)) return next();
+    const baseUrl = req.baseUrl;
+    res.on('finish', () => {
+      if (res.statusCode >= 400 || !req.route) return;
+      if (options.skip?.includes(req.route.path)) return;
+      void writeEvent(req, res, baseUrl, options);
+    });
+    next();
+  });
+}
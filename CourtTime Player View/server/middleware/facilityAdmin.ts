@@ -52,7 +52,8 @@ export async function isFacilityAdminUser(
 /**
  * Guard for use inside a handler. Writes the appropriate error response and
  * returns false when the caller is not an admin of `facilityId`; returns true
- * (without touching `res`) when authorized.
+ * when authorized, recording the facility for the audit trail
+ * (middleware/auditLog.ts) in res.locals.
  */
 export async function ensureFacilityAdmin(
   facilityId: string | undefined | null,
@@ -71,6 +72,7 @@ export async function ensureFacilityAdmin(
     res.status(403).json({ success: false, error: 'Facility admin access required' });
     return false;
   }
+  res.locals.auditFacilityId = facilityId;
   return true;
 }
 
@@ -50,6 +50,8 @@ import {
   facilityIdForSeries,
   facilityIdForAdminRecord,
 } from '../middleware/facilityAdmin';
+import { auditTrail, rowSnapshot } from '../middleware/auditLog';
+import { listAuditEvents } from '../../src/services/auditLogService';
 
 const router = express.Router();
 
@@ -89,6 +91,7 @@ function guardParam(resolve: (value: string) => Promise<string | null>) {
         res.status(403).json({ success: false, error: 'Facility admin access required' });
         return;
       }
+      res.locals.auditFacilityId = facilityId;
       next();
     } catch (err) {
       next(err);
@@ -102,6 +105,32 @@ router.param('bookingId', guardParam(facilityIdForBooking));
 router.param('seriesId', guardParam(facilityIdForSeries));
 router.param('adminId', guardParam(facilityIdForAdminRecord));
 
+auditTrail(router, {
+  source: 'admin',
+  snapshots: {
+    facilityId: {
+      ...rowSnapshot('facilities'),
+      pathPrefix: '/facilities/',
+      facilityIdOf: (id) => id,
+    },
+    courtId: rowSnapshot('courts'),
+    bookingId: rowSnapshot('bookings'),
+    seriesId: rowSnapshot('booking_series'),
+    adminId: rowSnapshot('facility_admins', 'admins'),
+    templateType: {
+      entityType: 'email_templates',
+      load: async (templateType, req) =>
+        (
+          await query(`SELECT * FROM email_templates WHERE facility_id = $1 AND template_type = $2`, [
+            req.params.facilityId,
+            templateType,
+          ])
+        ).rows[0] ?? null,
+    },
+  },
+  skip: ['/email-templates/:facilityId/:templateType/preview'],
+});
+
 function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -437,6 +466,35 @@ router.get('/revenue/:facilityId', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/admin/audit-log/:facilityId
+ * Admin and support changes made to a facility, newest first.
+ * Query params: actorUserId, actorType, entityType, entityId, source, from, to (YYYY-MM-DD), search, limit, offset
+ */
+router.get('/audit-log/:facilityId', async (req, res) => {
+  try {
+    const { facilityId } = req.params;
+    const q = req.query as Record<string, string | undefined>;
+    const result = await listAuditEvents({
+      facilityId,
+      actorUserId: q.actorUserId,
+      actorType: q.actorType === 'admin' || q.actorType === 'support' ? q.actorType : undefined,
+      entityType: q.entityType,
+      entityId: q.entityId,
+      source: q.source,
+      from: q.from,
+      to: q.to,
+      search: q.search,
+      limit: q.limit ? Number(q.limit) : undefined,
+      offset: q.offset ? Number(q.offset) : undefined,
+    });
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    console.error('Error fetching audit log:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 /**
  * PATCH /api/admin/facilities/:facilityId
  * Update facility information
@@ -845,6 +903,7 @@ router.patch('/courts/bulk-update', async (req, res) => {
       if (!(await isFacilityAdminUser(facilityId, userId))) {
         return res.status(403).json({ success: false, error: 'Facility admin access required' });
       }
+      res.locals.auditFacilityId = facilityId;
     }
 
     const updatedCount = await updateCourtsBulk(courtIds, updates);
@@ -10,6 +10,7 @@ import {
   getAnnualFeeConfig,
   upsertAnnualFeeConfig,
   assignMemberTier,
+  assignMemberPlan,
   getMembersWithTiers,
   previewBillingRun,
   runAnnualBilling,
@@ -98,14 +99,14 @@ router.post('/tiers/:facilityId', async (req, res) => {
     const { facilityId } = req.params;
     if (!await checkFlag(facilityId, res)) return;
     if (!await requireAdmin(facilityId, req.user?.userId, res)) return;
-    const { name, amountCents, description } = req.body;
+    const { name, amountCents, description, installmentPlans } = req.body;
     if (!name || amountCents === undefined) {
       return res.status(400).json({ success: false, error: 'name and amountCents are required' });
     }
-    const tier = await createAnnualFeeTier(facilityId, name, Number(amountCents), description);
+    const tier = await createAnnualFeeTier(facilityId, name, Number(amountCents), description, installmentPlans ?? []);
     res.status(201).json({ success: true, data: tier });
   } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+    res.status(400).json({ success: false, error: error.message });
   }
 });
 
@@ -114,11 +115,12 @@ router.patch('/tiers/:facilityId/:tierId', async (req, res) => {
     const { facilityId, tierId } = req.params;
     if (!await checkFlag(facilityId, res)) return;
     if (!await requireAdmin(facilityId, req.user?.userId, res)) return;
-    const { name, amountCents, description, isActive } = req.body;
+    const { name, amountCents, description, installmentPlans, isActive } = req.body;
     const tier = await updateAnnualFeeTier(tierId, facilityId, {
       name,
       amountCents: amountCents !== undefined ? Number(amountCents) : undefined,
       description,
+      installmentPlans,
       isActive,
     });
     res.json({ success: true, data: tier });
@@ -168,6 +170,19 @@ router.patch('/members/:facilityId/:userId/tier', async (req, res) => {
   }
 });
 
+// Body: { plan: 'annual' | 'quarterly' | 'monthly' }
+router.patch('/members/:facilityId/:userId/plan', async (req, res) => {
+  try {
+    const { facilityId, userId } = req.params;
+    if (!await checkFlag(facilityId, res)) return;
+    if (!await requireAdmin(facilityId, req.user?.userId, res)) return;
+    await assignMemberPlan(facilityId, userId, req.body?.plan);
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(400).json({ success: false, error: error.message });
+  }
+});
+
 // ---------------------------------------------------------------------------
 // Billing
 // ---------------------------------------------------------------------------
@@ -3,7 +3,9 @@
  *
  * Mounted at /api/ball-machine. Members buy time-based passes here; the per-hour
  * rate stays on courts.ball_machine_fee_cents and is charged through the normal
- * court-booking checkout.
+ * court-booking checkout. Machines themselves are reserved by the booking flow
+ * (bookingService.createBooking); these routes expose availability, each
+ * reservation's access code, and the admin machine / maintenance / calendar views.
  */
 
 import express from 'express';
@@ -13,14 +15,24 @@ import { query } from '../../src/database/connection';
 import { FEATURE_FLAGS } from '../../shared/constants/featureFlags';
 import {
   PASS_DURATIONS_MONTHS,
-  canViewAccessCode,
+  addMaintenanceWindow,
+  createMachine,
+  deleteMaintenanceWindow,
   getActivePass,
   getConfig,
+  getMachineAvailability,
+  getMachineCalendar,
   getMemberPasses,
+  getMemberReservations,
   getPassHolders,
   getPassProducts,
+  getReservationForBooking,
   grantPass,
+  listMachines,
+  listMaintenanceWindows,
   revokePass,
+  rotateAccessCode,
+  updateMachine,
   upsertConfig,
   upsertPassProduct,
 } from '../../src/services/ballMachineService';
@@ -84,6 +96,9 @@ async function requireMember(
   return true;
 }
 
+const YMD = /^\d{4}-\d{2}-\d{2}$/;
+const HHMM = /^\d{2}:\d{2}(:\d{2})?$/;
+
 function defaultAppUrl(): string {
   return process.env.NODE_ENV !== 'production'
     ? process.env.DEV_APP_URL || 'http://localhost:5173'
@@ -95,8 +110,8 @@ function defaultAppUrl(): string {
 // ---------------------------------------------------------------------------
 
 /**
- * Everything the player tab needs. Deliberately omits the access code — that is
- * gated separately behind GET /access-code/:facilityId.
+ * Everything the player tab needs. Access codes are per reservation and only
+ * returned by GET /reservations and GET /access-code.
  */
 router.get('/status/:facilityId', async (req, res) => {
   try {
@@ -105,8 +120,9 @@ router.get('/status/:facilityId', async (req, res) => {
     if (!(await requireMember(facilityId, req.user?.userId, res))) return;
 
     const userId = req.user!.userId;
-    const [config, products, activePass, passes] = await Promise.all([
+    const [config, machines, products, activePass, passes] = await Promise.all([
       getConfig(facilityId),
+      listMachines(facilityId, { activeOnly: true }),
       getPassProducts(facilityId, { activeOnly: true }),
       getActivePass(facilityId, userId),
       getMemberPasses(facilityId, userId),
@@ -124,9 +140,9 @@ router.get('/status/:facilityId', async (req, res) => {
     res.json({
       success: true,
       data: {
-        machineCount: config.machineCount,
+        machineCount: machines.length,
+        machines: machines.map((m) => ({ id: m.id, name: m.name })),
         instructions: config.instructions,
-        hasAccessCode: Boolean(config.accessCode),
         products,
         activePass,
         passes,
@@ -138,9 +154,23 @@ router.get('/status/:facilityId', async (req, res) => {
   }
 });
 
+/** The member's upcoming machine reservations, each with its own keypad code. */
+router.get('/reservations/:facilityId', async (req, res) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await requireMember(facilityId, req.user?.userId, res))) return;
+
+    res.json({ success: true, data: await getMemberReservations(facilityId, req.user!.userId) });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 /**
- * The keypad code. Only for members who hold a live pass or who have a booking
- * where they claimed the machine (i.e. they already paid one way or the other).
+ * The keypad code for one booking (?bookingId=), or for the member's next
+ * reservation. Codes only exist for bookings that reserved a machine, and stop
+ * working shortly after the booking ends.
  */
 router.get('/access-code/:facilityId', async (req, res) => {
   try {
@@ -149,26 +179,29 @@ router.get('/access-code/:facilityId', async (req, res) => {
     if (!(await requireMember(facilityId, req.user?.userId, res))) return;
 
     const userId = req.user!.userId;
-    if (!(await canViewAccessCode(facilityId, userId))) {
-      return res.status(403).json({
-        success: false,
-        error: 'Buy a ball machine pass or add the machine to a booking to see the code',
-      });
-    }
+    const bookingId = typeof req.query.bookingId === 'string' ? req.query.bookingId : '';
+    const reservation = bookingId
+      ? await getReservationForBooking(facilityId, userId, bookingId)
+      : (await getMemberReservations(facilityId, userId))[0] ?? null;
 
-    const config = await getConfig(facilityId);
-    if (!config.accessCode) {
+    if (!reservation) {
       return res.status(404).json({
         success: false,
-        error: 'The club has not set an access code yet. Please ask the front desk.',
+        error: 'Add the ball machine to a booking to get an access code',
       });
     }
 
-    const activePass = await getActivePass(facilityId, userId);
+    const [config, activePass] = await Promise.all([
+      getConfig(facilityId),
+      getActivePass(facilityId, userId),
+    ]);
     res.json({
       success: true,
       data: {
-        accessCode: config.accessCode,
+        accessCode: reservation.accessCode,
+        machineName: reservation.machineName,
+        validFrom: reservation.validFrom,
+        validUntil: reservation.validUntil,
         instructions: config.instructions,
         activePass,
       },
@@ -178,6 +211,37 @@ router.get('/access-code/:facilityId', async (req, res) => {
   }
 });
 
+/** Which machines are free for a slot, so the booking form can offer a choice. */
+router.get('/availability/:facilityId', async (req, res) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await requireMember(facilityId, req.user?.userId, res))) return;
+
+    const { date, startTime, endTime, excludeBookingId } = req.query as Record<string, string | undefined>;
+    if (!date || !YMD.test(date) || !startTime || !HHMM.test(startTime) || !endTime || !HHMM.test(endTime)) {
+      return res.status(400).json({
+        success: false,
+        error: 'date (YYYY-MM-DD), startTime and endTime (HH:MM) are required',
+      });
+    }
+
+    const machines = await getMachineAvailability({
+      facilityId,
+      bookingDate: date,
+      startTime,
+      endTime,
+      excludeBookingId: excludeBookingId || undefined,
+    });
+    res.json({
+      success: true,
+      data: machines.map((m) => ({ id: m.id, name: m.name, available: m.available, reason: m.reason })),
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 /**
  * MUST stay above POST /purchase/:facilityId — Express matches in registration
  * order, so the parameterised route would otherwise swallow this one and treat
@@ -256,14 +320,10 @@ router.put('/admin/config/:facilityId', async (req, res) => {
     if (!(await checkFlag(facilityId, res))) return;
     if (!(await requireAdmin(facilityId, req.user?.userId, res))) return;
 
-    const { accessCode, machineCount, instructions } = req.body || {};
+    const { instructions } = req.body || {};
     const config = await upsertConfig(
       facilityId,
-      {
-        ...(accessCode !== undefined ? { accessCode } : {}),
-        ...(machineCount !== undefined ? { machineCount: Number(machineCount) } : {}),
-        ...(instructions !== undefined ? { instructions } : {}),
-      },
+      instructions !== undefined ? { instructions } : {},
       req.user!.userId
     );
     res.json({ success: true, data: config });
@@ -299,6 +359,138 @@ router.put('/admin/products/:facilityId', async (req, res) => {
   }
 });
 
+router.get('/admin/machines/:facilityId', async (req, res) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await requireAdmin(facilityId, req.user?.userId, res))) return;
+
+    res.json({ success: true, data: await listMachines(facilityId) });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+router.post('/admin/machines/:facilityId', async (req, res) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await requireAdmin(facilityId, req.user?.userId, res))) return;
+
+    const { name, serialNumber, notes } = req.body || {};
+    const machine = await createMachine(facilityId, { name, serialNumber, notes });
+    res.status(201).json({ success: true, data: machine });
+  } catch (error: any) {
+    res.status(400).json({ success: false, error: error.message });
+  }
+});
+
+/** Rename, annotate, or retire (isActive: false) a machine. */
+router.put('/admin/machines/:facilityId/:machineId', async (req, res) => {
+  try {
+    const { facilityId, machineId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await requireAdmin(facilityId, req.user?.userId, res))) return;
+
+    const { name, serialNumber, notes, isActive } = req.body || {};
+    const machine = await updateMachine(facilityId, machineId, {
+      ...(name !== undefined ? { name } : {}),
+      ...(serialNumber !== undefined ? { serialNumber } : {}),
+      ...(notes !== undefined ? { notes } : {}),
+      ...(isActive !== undefined ? { isActive: isActive === true } : {}),
+    });
+    res.json({ success: true, data: machine });
+  } catch (error: any) {
+    res.status(400).json({ success: false, error: error.message });
+  }
+});
+
+router.get('/admin/maintenance/:facilityId', async (req, res) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await requireAdmin(facilityId, req.user?.userId, res))) return;
+
+    res.json({ success: true, data: await listMaintenanceWindows(facilityId) });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * Responds with the reservations that couldn't be moved to another machine, so
+ * staff know which members to contact.
+ */
+router.post('/admin/maintenance/:facilityId', async (req, res) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await requireAdmin(facilityId, req.user?.userId, res))) return;
+
+    const { machineId, startsAt, endsAt, reason } = req.body || {};
+    if (!machineId) {
+      return res.status(400).json({ success: false, error: 'machineId is required' });
+    }
+    const result = await addMaintenanceWindow(
+      facilityId,
+      { machineId, startsAt: String(startsAt || ''), endsAt: String(endsAt || ''), reason },
+      req.user!.userId
+    );
+    res.status(201).json({ success: true, data: result });
+  } catch (error: any) {
+    res.status(400).json({ success: false, error: error.message });
+  }
+});
+
+router.delete('/admin/maintenance/:facilityId/:windowId', async (req, res) => {
+  try {
+    const { facilityId, windowId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await requireAdmin(facilityId, req.user?.userId, res))) return;
+
+    if (!(await deleteMaintenanceWindow(facilityId, windowId))) {
+      return res.status(404).json({ success: false, error: 'Maintenance window not found' });
+    }
+    res.json({ success: true, data: { id: windowId } });
+  } catch (error: any) {
+    res.status(400).json({ success: false, error: error.message });
+  }
+});
+
+/** One day of machine usage: machines, reservations (with member + court) and maintenance. */
+router.get('/admin/calendar/:facilityId', async (req, res) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await requireAdmin(facilityId, req.user?.userId, res))) return;
+
+    const date = String(req.query.date || '');
+    if (!YMD.test(date)) {
+      return res.status(400).json({ success: false, error: 'date (YYYY-MM-DD) is required' });
+    }
+    res.json({ success: true, data: await getMachineCalendar(facilityId, date) });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/** Issue a new code for one reservation, e.g. when a member has shared theirs. */
+router.post('/admin/reservations/:facilityId/:reservationId/rotate-code', async (req, res) => {
+  try {
+    const { facilityId, reservationId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await requireAdmin(facilityId, req.user?.userId, res))) return;
+
+    const reservation = await rotateAccessCode(facilityId, reservationId);
+    if (!reservation) {
+      return res.status(404).json({ success: false, error: 'Reservation not found' });
+    }
+    res.json({ success: true, data: reservation });
+  } catch (error: any) {
+    res.status(400).json({ success: false, error: error.message });
+  }
+});
+
 router.get('/admin/passes/:facilityId', async (req, res) => {
   try {
     const { facilityId } = req.params;
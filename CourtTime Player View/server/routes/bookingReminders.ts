@@ -0,0 +1,54 @@
+import express from 'express';
+import {
+  BookingReminderError,
+  getReminderByToken,
+  respondToReminder
+} from '../../src/services/bookingReminderService';
+
+const router = express.Router();
+
+/** Maps BookingReminderError onto its status; anything else goes to the error middleware. */
+function handleError(error: unknown, res: express.Response, next: express.NextFunction) {
+  if (error instanceof BookingReminderError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  next(error);
+}
+
+/**
+ * GET /api/booking-reminders/:token
+ * No login: the booking behind a reminder's confirm / release links.
+ */
+router.get('/:token', async (req, res, next) => {
+  try {
+    res.json({ success: true, data: await getReminderByToken(req.params.token) });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/booking-reminders/:token/confirm
+ * Member confirms they're coming. Repeat calls are a no-op.
+ */
+router.post('/:token/confirm', async (req, res, next) => {
+  try {
+    res.json({ success: true, data: await respondToReminder(req.params.token, 'confirm') });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/booking-reminders/:token/release
+ * Cancels the booking with no strike, up until it starts.
+ */
+router.post('/:token/release', async (req, res, next) => {
+  try {
+    res.json({ success: true, data: await respondToReminder(req.params.token, 'release') });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+export default router;
@@ -31,6 +31,8 @@ import {
 import { notificationService } from '../../src/services/notificationService';
 import { sendBookingConfirmationEmail, sendBookingCancellationEmail } from '../../src/services/emailService';
 import { isFeatureEnabled } from '../../src/services/featureFlagService';
+import { parseBookingGuests } from '../../src/services/guestRegistryService';
+import { DependentError, resolveActingUserId } from '../../src/services/dependentService';
 import { FEATURE_FLAGS } from '../../shared/constants/featureFlags';
 import { createSplitCourtReservation, checkoutSplitPayment, getSplitPaymentSummary, declineSplitPayment, updateSplitPaymentParticipants } from '../../src/services/splitCourtPaymentService';
 import { query as dbQuery, getPool } from '../../src/database/connection';
@@ -151,8 +153,8 @@ router.get('/facility/:facilityId', async (req, res, next) => {
 });
 
 /**
- * GET /api/bookings/court-waivers/pending?courtIds=a,b,c
- * Court waivers the authenticated user must accept before booking these courts
+ * GET /api/bookings/court-waivers/pending?courtIds=a,b,c[&dependentId=]
+ * Court waivers the authenticated user (or their dependent) must accept before booking these courts
  */
 router.get('/court-waivers/pending', async (req, res, next) => {
   try {
@@ -169,16 +171,21 @@ router.get('/court-waivers/pending', async (req, res, next) => {
       return res.status(400).json({ success: false, error: 'courtIds parameter is required' });
     }
 
-    const pending = await getPendingCourtWaiversForUser(userId, courtIds);
+    const forUserId = await resolveActingUserId(userId, req.query.dependentId);
+    const pending = await getPendingCourtWaiversForUser(forUserId, courtIds);
     res.json({ success: true, data: { pending } });
   } catch (error) {
+    if (error instanceof DependentError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
     next(error);
   }
 });
 
 /**
  * POST /api/bookings/court-waivers/accept
- * Record the authenticated user's acceptance of a court's current waiver
+ * Record the authenticated user's acceptance of a court's current waiver, or a
+ * parent's acceptance on behalf of a dependent
  */
 router.post('/court-waivers/accept', async (req, res, next) => {
   try {
@@ -187,17 +194,27 @@ router.post('/court-waivers/accept', async (req, res, next) => {
       return res.status(401).json({ success: false, error: 'Authentication required' });
     }
 
-    const { courtId } = req.body;
+    const { courtId, dependentId } = req.body;
     if (!courtId || typeof courtId !== 'string') {
       return res.status(400).json({ success: false, error: 'courtId is required' });
     }
 
-    const accepted = await acceptCourtWaiverForUser(userId, courtId, req.ip || null);
+    // A parent accepting for a dependent is recorded as parental consent
+    const acceptingForUserId = await resolveActingUserId(userId, dependentId);
+    const accepted = await acceptCourtWaiverForUser(
+      acceptingForUserId,
+      courtId,
+      req.ip || null,
+      acceptingForUserId === userId ? null : userId
+    );
     res.json({ success: true, data: accepted });
   } catch (error: any) {
     if (error?.message === 'This court has no waiver to accept') {
       return res.status(400).json({ success: false, error: error.message });
     }
+    if (error instanceof DependentError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
     next(error);
   }
 });
@@ -351,13 +368,16 @@ router.post('/', async (req, res, next) => {
       notes,
       bringGuest,
       addBallMachine,
+      ballMachineId,
       guestNames,
+      guests,
       provisionalSameRequestBookings,
       successUrl,
       cancelUrl,
       excludeBookingId,
       splitParticipantIds,
       payAtFrontDesk,
+      dependentId,
     } = req.body;
 
     // Validation
@@ -374,8 +394,19 @@ router.post('/', async (req, res, next) => {
     }
 
     const isAdminCaller = req.user?.userType === 'admin';
-    // Admins may book on behalf of another user; regular users always book as themselves
-    const effectiveUserId = isAdminCaller ? (userId || callerUserId) : callerUserId;
+    // Admins may book on behalf of another user; regular users book as themselves
+    // or one of their dependents
+    let effectiveUserId: string;
+    try {
+      effectiveUserId = isAdminCaller
+        ? (userId || callerUserId)
+        : await resolveActingUserId(callerUserId, dependentId);
+    } catch (error) {
+      if (error instanceof DependentError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      throw error;
+    }
 
     // Reject bookings from view-only members (skip check for admins)
     if (!isAdminCaller) {
@@ -410,9 +441,11 @@ router.post('/', async (req, res, next) => {
       notes,
       bringGuest: bringGuest === true,
       addBallMachine: addBallMachine === true,
+      ballMachineId: typeof ballMachineId === 'string' && ballMachineId ? ballMachineId : null,
       guestNames: Array.isArray(guestNames)
         ? guestNames.filter((n: unknown) => typeof n === 'string' && n.trim())
         : undefined,
+      guests: Array.isArray(guests) ? parseBookingGuests(guests) : undefined,
       provisionalSameRequestBookings: Array.isArray(provisionalSameRequestBookings)
         ? provisionalSameRequestBookings
         : undefined,
@@ -619,13 +652,23 @@ router.post('/payment/confirm', async (req, res, next) => {
  */
 router.post('/recurring-series', async (req, res, next) => {
   try {
-    const { userId, facilityId, bookingType, notes, instances, skipConflicts } = req.body;
+    const { userId, facilityId, bookingType, notes, instances, skipConflicts, dependentId } = req.body;
     const callerUserId = req.user?.userId;
     if (!callerUserId) {
       return res.status(401).json({ success: false, error: 'Authentication required' });
     }
     const isAdminCaller = req.user?.userType === 'admin';
-    const effectiveUserId = isAdminCaller ? (userId || callerUserId) : callerUserId;
+    let effectiveUserId: string;
+    try {
+      effectiveUserId = isAdminCaller
+        ? (userId || callerUserId)
+        : await resolveActingUserId(callerUserId, dependentId);
+    } catch (error) {
+      if (error instanceof DependentError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      throw error;
+    }
 
     if (!effectiveUserId || !facilityId || !Array.isArray(instances) || instances.length === 0) {
       return res.status(400).json({
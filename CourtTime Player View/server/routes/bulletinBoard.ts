@@ -14,6 +14,7 @@ import { query } from '../../src/database/connection';
 import { parseDollarsToCents } from '../../shared/utils/money';
 import { confirmBulletinSignupCheckout } from '../../src/services/stripeConnectService';
 import { sendBulletinPostShareEmail } from '../../src/services/emailService';
+import { DependentError, resolveActingUserId } from '../../src/services/dependentService';
 import {
   buildBulletinPostShareEmailContent,
   formatBulletinPostProminentDate,
@@ -386,8 +387,8 @@ router.post('/:postId/share', async (req, res, next) => {
 router.post('/:postId/signup', async (req, res, next) => {
   try {
     const { postId } = req.params;
-    const userId = req.user!.userId;
-    const { successUrl, cancelUrl } = req.body || {};
+    const { successUrl, cancelUrl, dependentId } = req.body || {};
+    const userId = await resolveActingUserId(req.user!.userId, dependentId);
     const result = await signupForDrill(postId, userId, { successUrl, cancelUrl });
     if (result.requiresPayment) {
       return res.json({
@@ -404,6 +405,9 @@ router.post('/:postId/signup', async (req, res, next) => {
         : `Added to waitlist at position #${result.waitlistPosition}`
     });
   } catch (error: any) {
+    if (error instanceof DependentError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
     if (error?.message?.includes('restricted') || error?.message?.includes('already signed up') || error?.message?.includes('active member')) {
       return res.status(400).json({ success: false, error: error.message });
     }
@@ -418,7 +422,7 @@ router.post('/:postId/signup', async (req, res, next) => {
 router.delete('/:postId/signup', async (req, res, next) => {
   try {
     const { postId } = req.params;
-    const userId = req.user!.userId;
+    const userId = await resolveActingUserId(req.user!.userId, req.query.dependentId);
     const result = await cancelDrillSignup(postId, userId);
     res.json({
       success: true,
@@ -426,6 +430,9 @@ router.delete('/:postId/signup', async (req, res, next) => {
       message: 'Signup cancelled successfully'
     });
   } catch (error: any) {
+    if (error instanceof DependentError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
     if (error?.message?.includes('not signed up')) {
       return res.status(400).json({ success: false, error: error.message });
     }
@@ -0,0 +1,48 @@
+/**
+ * Open pixel and click-through redirect for pickle campaign emails.
+ * Public: the per-send tracking token is the only credential, and a bad
+ * token still gets a pixel (or a 404) without revealing anything.
+ */
+
+import express from 'express';
+import { recordCampaignClick, recordCampaignOpen } from '../../src/services/pickle/pickleCampaignService';
+
+const router = express.Router();
+
+const PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+/**
+ * GET /api/campaign-tracking/open/:token
+ * 1x1 GIF; counts an open each time the mail client loads it.
+ */
+router.get('/open/:token', async (req, res) => {
+  try {
+    await recordCampaignOpen(req.params.token);
+  } catch (error) {
+    console.error('[CAMPAIGN-TRACKING] Error recording open:', error);
+  }
+  res.set({
+    'Content-Type': 'image/gif',
+    'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+  });
+  res.send(PIXEL);
+});
+
+/**
+ * GET /api/campaign-tracking/click/:token/:linkIndex
+ * Counts the click and redirects to the campaign's link.
+ */
+router.get('/click/:token/:linkIndex', async (req, res, next) => {
+  try {
+    const linkIndex = Number.parseInt(req.params.linkIndex, 10);
+    const url = Number.isInteger(linkIndex) && linkIndex >= 0
+      ? await recordCampaignClick(req.params.token, linkIndex)
+      : null;
+    if (!url) return res.status(404).send('Link not found');
+    res.redirect(302, url);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -23,6 +23,7 @@ import {
   refundClubPayment,
   syncSetupSessionForMember,
 } from '../../src/services/stripeConnectService';
+import { WalletError } from '../../src/services/walletService';
 
 const router = express.Router();
 
@@ -218,7 +219,8 @@ router.get('/my-history', requireAuth, async (req, res) => {
 
 /**
  * POST /api/payments/:connectPaymentId/refund
- * Club admin refunds a paid member charge on their connected account.
+ * Club admin refunds a paid member charge on their connected account, or as
+ * account credit with { toWallet: true }.
  */
 router.post('/:connectPaymentId/refund', requireAuth, async (req, res) => {
   try {
@@ -227,12 +229,18 @@ router.post('/:connectPaymentId/refund', requireAuth, async (req, res) => {
       return res.status(400).json({ success: false, error: 'connectPaymentId is required' });
     }
 
-    const result = await refundClubPayment(connectPaymentId, req.user!.userId);
+    const result = await refundClubPayment(connectPaymentId, req.user!.userId, {
+      toWallet: req.body?.toWallet === true,
+    });
     return res.json({ success: true, data: result });
   } catch (err: any) {
     const message = err.message || 'Failed to refund payment';
     console.error('[CONNECT-PAYMENTS] refund failed:', err);
 
+    if (err instanceof WalletError) {
+      return res.status(err.status).json({ success: false, error: message });
+    }
+
     if (message === 'Payment not found') {
       return res.status(404).json({ success: false, error: message });
     }
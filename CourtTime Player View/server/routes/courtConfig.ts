@@ -17,10 +17,37 @@ import {
 } from '../../src/services/courtOperatingConfigSync';
 import { normalizeLocalDatetimeForStorage } from '../../src/utils/dateUtils';
 import { ensureFacilityAdmin, facilityIdForCourt, facilityIdForBlackout } from '../middleware/facilityAdmin';
+import { auditTrail, rowSnapshot } from '../middleware/auditLog';
 
 const router = express.Router();
 const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
 
+auditTrail(router, {
+  source: 'court_config',
+  snapshots: {
+    // A court's weekly schedule, keyed by day name.
+    courtId: {
+      entityType: 'court_schedules',
+      load: async (courtId) => {
+        const result = await query(
+          `SELECT c.facility_id, o.day_of_week, o.is_open, o.open_time, o.close_time, o.prime_time_start,
+                  o.prime_time_end, o.prime_time_max_duration, o.min_duration, o.max_duration
+             FROM courts c
+             LEFT JOIN court_operating_config o ON o.court_id = c.id
+            WHERE c.id = $1`,
+          [courtId]
+        );
+        if (result.rows.length === 0) return null;
+        const days = result.rows
+          .filter((row) => row.day_of_week != null)
+          .map(({ facility_id, day_of_week, ...config }) => [DAY_NAMES[day_of_week], config]);
+        return { facility_id: result.rows[0].facility_id, ...Object.fromEntries(days) };
+      },
+    },
+    blackoutId: rowSnapshot('court_blackouts', 'blackouts'),
+  },
+});
+
 function getFacilityDayConfig(rawOperatingHours: any, dayOfWeek: number): any {
   if (!rawOperatingHours || typeof rawOperatingHours !== 'object') return null;
   const dayName = DAY_NAMES[dayOfWeek];
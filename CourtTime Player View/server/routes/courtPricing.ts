@@ -0,0 +1,144 @@
+/**
+ * Court Pricing Routes
+ * The price preview members see before booking a paid court, and admin setup
+ * of pricing rules (peak/off-peak, weekday/weekend, indoor/outdoor, per court)
+ * and membership tier court discounts.
+ */
+
+import express from 'express';
+import {
+  CourtPricingError,
+  createPricingRule,
+  deletePricingRule,
+  isDynamicPricingEnabled,
+  listPricingRules,
+  listTierDiscounts,
+  quoteCourtBooking,
+  setTierDiscount,
+  updatePricingRule,
+} from '../../src/services/courtPricingService';
+import { ensureFacilityAdmin } from '../middleware/facilityAdmin';
+import { auditTrail } from '../middleware/auditLog';
+
+const router = express.Router();
+
+auditTrail(router, { source: 'court_pricing', entityType: 'court_pricing_rules' });
+
+/** Maps CourtPricingError onto its status; anything else goes to the error middleware. */
+function handleError(error: unknown, res: express.Response, next: express.NextFunction) {
+  if (error instanceof CourtPricingError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  next(error);
+}
+
+/**
+ * GET /api/court-pricing/quote?courtId=&bookingDate=&startTime=&endTime=
+ * What the caller would pay for the court fee of a slot; null for a free court
+ */
+router.get('/quote', async (req, res, next) => {
+  try {
+    const { courtId, bookingDate, startTime, endTime } = req.query;
+    if (!courtId || !bookingDate || !startTime || !endTime) {
+      return res.status(400).json({
+        success: false,
+        error: 'courtId, bookingDate, startTime and endTime are required',
+      });
+    }
+    const quote = await quoteCourtBooking({
+      courtId: String(courtId),
+      userId: req.user!.userId,
+      bookingDate: String(bookingDate),
+      startTime: String(startTime),
+      endTime: String(endTime),
+    });
+    res.json({ success: true, data: quote });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * GET /api/court-pricing/facility/:facilityId
+ * Every pricing rule and tier discount at the club (admin)
+ */
+router.get('/facility/:facilityId', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    const [enabled, rules, tiers] = await Promise.all([
+      isDynamicPricingEnabled(facilityId),
+      listPricingRules(facilityId),
+      listTierDiscounts(facilityId),
+    ]);
+    res.json({ success: true, data: { enabled, rules, tiers } });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/court-pricing/facility/:facilityId/rules
+ * Add a pricing rule (admin)
+ */
+router.post('/facility/:facilityId/rules', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    const rule = await createPricingRule(facilityId, req.body || {}, req.user!.userId);
+    res.status(201).json({ success: true, data: rule });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * PUT /api/court-pricing/facility/:facilityId/rules/:ruleId
+ * Edit a pricing rule (admin)
+ */
+router.put('/facility/:facilityId/rules/:ruleId', async (req, res, next) => {
+  try {
+    const { facilityId, ruleId } = req.params;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    res.json({ success: true, data: await updatePricingRule(facilityId, ruleId, req.body || {}) });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * DELETE /api/court-pricing/facility/:facilityId/rules/:ruleId
+ * Remove a pricing rule (admin)
+ */
+router.delete('/facility/:facilityId/rules/:ruleId', async (req, res, next) => {
+  try {
+    const { facilityId, ruleId } = req.params;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    await deletePricingRule(facilityId, ruleId);
+    res.json({ success: true });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * PUT /api/court-pricing/facility/:facilityId/tiers/:tierId
+ * Set a membership tier's court fee discount ({ courtDiscountPercent }) (admin)
+ */
+router.put('/facility/:facilityId/tiers/:tierId', async (req, res, next) => {
+  try {
+    const { facilityId, tierId } = req.params;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    const tier = await setTierDiscount(facilityId, tierId, req.body?.courtDiscountPercent);
+    res.json({ success: true, data: tier });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+export default router;
@@ -0,0 +1,158 @@
+/**
+ * Court Waitlist API
+ *
+ * Members queue for a booked court window and are offered it when the booking
+ * is cancelled. Every route is gated on the court_waitlist feature flag of the
+ * entry's facility. Offers themselves are made by the service when
+ * cancelBooking frees a window and by the expiry sweep in server/index.ts.
+ */
+
+import express from 'express';
+import { isFeatureEnabled } from '../../src/services/featureFlagService';
+import { FEATURE_FLAGS } from '../../shared/constants/featureFlags';
+import {
+  CourtWaitlistError,
+  claimCourtWaitlistOffer,
+  facilityIdForWaitlistEntry,
+  getMyCourtWaitlist,
+  joinCourtWaitlist,
+  leaveCourtWaitlist,
+} from '../../src/services/courtWaitlistService';
+
+const router = express.Router();
+
+/** False (and responds) when the facility doesn't have the feature turned on. */
+async function ensureFlag(facilityId: string, res: express.Response): Promise<boolean> {
+  if (!(await isFeatureEnabled(facilityId, FEATURE_FLAGS.COURT_WAITLIST))) {
+    res.status(403).json({
+      success: false,
+      error: 'Court waitlists are not enabled for this facility',
+    });
+    return false;
+  }
+  return true;
+}
+
+/** Resolves an entry's facility and runs the flag check against it. */
+async function ensureEntryFlag(entryId: string, res: express.Response): Promise<boolean> {
+  const facilityId = await facilityIdForWaitlistEntry(entryId);
+  if (!facilityId) {
+    res.status(404).json({ success: false, error: 'Waitlist entry not found' });
+    return false;
+  }
+  return ensureFlag(facilityId, res);
+}
+
+/** Maps service-level errors onto responses; anything else is a 500. */
+function handleError(error: any, res: express.Response, context: string) {
+  if (error instanceof CourtWaitlistError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(context, error);
+  res.status(500).json({ success: false, error: error.message });
+}
+
+/**
+ * GET /api/court-waitlist/me?facilityId=
+ * The caller's waiting and offered entries, with their place in line.
+ */
+router.get('/me', async (req, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Authentication required' });
+    }
+    const facilityId = typeof req.query.facilityId === 'string' ? req.query.facilityId : undefined;
+    if (facilityId && !(await ensureFlag(facilityId, res))) return;
+
+    const entries = await getMyCourtWaitlist(userId, facilityId);
+    res.json({ success: true, data: entries });
+  } catch (error: any) {
+    handleError(error, res, 'Error fetching court waitlist:');
+  }
+});
+
+/**
+ * POST /api/court-waitlist
+ * Join the queue for a booked window.
+ * Body: { facilityId, courtId, bookingDate, startTime, endTime }
+ */
+router.post('/', async (req, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Authentication required' });
+    }
+    const { facilityId, courtId, bookingDate, startTime, endTime } = req.body || {};
+    if (!facilityId || !courtId || !bookingDate || !startTime || !endTime) {
+      return res.status(400).json({
+        success: false,
+        error: 'facilityId, courtId, bookingDate, startTime and endTime are required',
+      });
+    }
+    if (!(await ensureFlag(facilityId, res))) return;
+
+    const entry = await joinCourtWaitlist({
+      facilityId,
+      courtId,
+      userId,
+      bookingDate,
+      startTime,
+      endTime,
+    });
+    res.status(201).json({ success: true, data: entry });
+  } catch (error: any) {
+    handleError(error, res, 'Error joining court waitlist:');
+  }
+});
+
+/**
+ * POST /api/court-waitlist/:entryId/claim
+ * Book the slot from an open offer. Paid courts return a checkout URL instead
+ * of a booking, exactly like POST /api/bookings.
+ * Body: { successUrl?, cancelUrl? }
+ */
+router.post('/:entryId/claim', async (req, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Authentication required' });
+    }
+    if (!(await ensureEntryFlag(req.params.entryId, res))) return;
+
+    const { successUrl, cancelUrl } = req.body || {};
+    const result = await claimCourtWaitlistOffer({
+      entryId: req.params.entryId,
+      userId,
+      successUrl: typeof successUrl === 'string' ? successUrl : undefined,
+      cancelUrl: typeof cancelUrl === 'string' ? cancelUrl : undefined,
+    });
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+    res.json(result);
+  } catch (error: any) {
+    handleError(error, res, 'Error claiming court waitlist offer:');
+  }
+});
+
+/**
+ * DELETE /api/court-waitlist/:entryId
+ * Leave the queue, or decline an open offer so it passes to the next member.
+ */
+router.delete('/:entryId', async (req, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Authentication required' });
+    }
+    if (!(await ensureEntryFlag(req.params.entryId, res))) return;
+
+    await leaveCourtWaitlist(req.params.entryId, userId);
+    res.json({ success: true });
+  } catch (error: any) {
+    handleError(error, res, 'Error leaving court waitlist:');
+  }
+});
+
+export default router;
@@ -0,0 +1,93 @@
+/**
+ * Dependent Routes
+ * A parent's junior/dependent profiles. Every route acts on the caller's own
+ * dependents; booking and signing up for them goes through the booking and
+ * bulletin board routes with a dependentId.
+ */
+
+import express from 'express';
+import {
+  DependentError,
+  createDependent,
+  getDependentUpcomingBookings,
+  listDependents,
+  removeDependent,
+  updateDependent,
+} from '../../src/services/dependentService';
+
+const router = express.Router();
+
+/** Maps DependentError onto its status; anything else goes to the error middleware. */
+function handleError(error: unknown, res: express.Response, next: express.NextFunction) {
+  if (error instanceof DependentError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  next(error);
+}
+
+/**
+ * GET /api/dependents
+ * The caller's dependents
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const dependents = await listDependents(req.user!.userId);
+    res.json({ success: true, data: dependents });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/dependents
+ * Add a dependent; joins the parent's facilities and households
+ */
+router.post('/', async (req, res, next) => {
+  try {
+    const dependent = await createDependent(req.user!.userId, req.body || {});
+    res.status(201).json({ success: true, data: dependent });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * PUT /api/dependents/:dependentId
+ * Edit a dependent's name, date of birth or gender
+ */
+router.put('/:dependentId', async (req, res, next) => {
+  try {
+    const dependent = await updateDependent(req.user!.userId, req.params.dependentId, req.body || {});
+    res.json({ success: true, data: dependent });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * DELETE /api/dependents/:dependentId
+ * Remove a dependent profile
+ */
+router.delete('/:dependentId', async (req, res, next) => {
+  try {
+    await removeDependent(req.user!.userId, req.params.dependentId);
+    res.json({ success: true });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * GET /api/dependents/:dependentId/bookings
+ * A dependent's upcoming court bookings
+ */
+router.get('/:dependentId/bookings', async (req, res, next) => {
+  try {
+    const bookings = await getDependentUpcomingBookings(req.user!.userId, req.params.dependentId);
+    res.json({ success: true, data: bookings });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+export default router;
@@ -0,0 +1,115 @@
+/**
+ * Guest Registry Routes
+ * Facility admins browse the guests members have brought, each guest's visit
+ * history, and guest activity over a date range.
+ */
+
+import express from 'express';
+import {
+  GuestRegistryError,
+  getGuestActivityReport,
+  getGuestHistory,
+  listFacilityGuests,
+  updateFacilityGuest,
+} from '../../src/services/guestRegistryService';
+import { ensureFacilityAdmin } from '../middleware/facilityAdmin';
+import { auditTrail, rowSnapshot } from '../middleware/auditLog';
+
+const router = express.Router();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+auditTrail(router, {
+  source: 'guests',
+  entityType: 'guests',
+  snapshots: { guestId: rowSnapshot('facility_guests', 'guests') },
+});
+
+/** Maps GuestRegistryError onto its status; anything else goes to the error middleware. */
+function handleError(error: unknown, res: express.Response, next: express.NextFunction) {
+  if (error instanceof GuestRegistryError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  next(error);
+}
+
+/**
+ * GET /api/guests/:facilityId?search=
+ * The facility's guest registry
+ */
+router.get('/:facilityId', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    const search = typeof req.query.search === 'string' ? req.query.search : undefined;
+    const guests = await listFacilityGuests(facilityId, search);
+    res.json({ success: true, data: guests });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * GET /api/guests/:facilityId/report?start=YYYY-MM-DD&end=YYYY-MM-DD
+ * Guest visits by host and by guest; defaults to the current calendar year
+ */
+router.get('/:facilityId/report', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    const year = new Date().getFullYear();
+    const start = typeof req.query.start === 'string' && req.query.start ? req.query.start : `${year}-01-01`;
+    const end = typeof req.query.end === 'string' && req.query.end ? req.query.end : `${year}-12-31`;
+    if (!DATE_PATTERN.test(start) || !DATE_PATTERN.test(end)) {
+      return res.status(400).json({ success: false, error: 'start and end must be YYYY-MM-DD dates' });
+    }
+    if (start > end) {
+      return res.status(400).json({ success: false, error: 'start must be on or before end' });
+    }
+
+    const report = await getGuestActivityReport(facilityId, start, end);
+    res.json({ success: true, data: report });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * GET /api/guests/:facilityId/:guestId
+ * One guest and their visit history
+ */
+router.get('/:facilityId/:guestId', async (req, res, next) => {
+  try {
+    const { facilityId, guestId } = req.params;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    const history = await getGuestHistory(facilityId, guestId);
+    res.json({ success: true, data: history });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * PATCH /api/guests/:facilityId/:guestId
+ * Correct a guest's name or email
+ */
+router.patch('/:facilityId/:guestId', async (req, res, next) => {
+  try {
+    const { facilityId, guestId } = req.params;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    await updateFacilityGuest(facilityId, guestId, {
+      fullName: req.body?.fullName,
+      email: req.body?.email,
+    });
+    const history = await getGuestHistory(facilityId, guestId);
+    res.json({ success: true, data: history });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+export default router;
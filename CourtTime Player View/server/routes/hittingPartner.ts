@@ -7,9 +7,53 @@ import {
   deleteHittingPartnerPost,
   getUserHittingPartnerPosts
 } from '../../src/services/hittingPartnerService';
+import {
+  HittingPartnerError,
+  cancelInvitation,
+  listInvitations,
+  proposeHit,
+  respondToInvitation,
+  suggestPartners
+} from '../../src/services/hittingPartnerMatchService';
+import {
+  parseAvailabilityWindows,
+  skillLevelIndex
+} from '../../shared/utils/hittingPartnerAvailability';
 
 const router = express.Router();
 
+/** Maps HittingPartnerError onto its status; anything else goes to the error middleware. */
+function handleError(error: unknown, res: express.Response, next: express.NextFunction) {
+  if (error instanceof HittingPartnerError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  next(error);
+}
+
+/**
+ * Validates the structured matchmaking fields of a post body. Returns the
+ * fields that were sent, or an error message.
+ */
+function parseMatchFields(body: any): { fields: Record<string, unknown> } | { error: string } {
+  const fields: Record<string, unknown> = {};
+  if (body.availabilityWindows !== undefined) {
+    const parsed = parseAvailabilityWindows(body.availabilityWindows);
+    if ('error' in parsed) return { error: parsed.error };
+    fields.availabilityWindows = parsed.windows;
+  }
+  for (const key of ['skillMin', 'skillMax'] as const) {
+    if (body[key] === undefined) continue;
+    if (body[key] !== null && body[key] !== '' && skillLevelIndex(body[key]) === null) {
+      return { error: `${key} must be one of Beginner, Intermediate, Advanced, Professional` };
+    }
+    fields[key] = body[key] || null;
+  }
+  const min = skillLevelIndex(fields.skillMin as string);
+  const max = skillLevelIndex(fields.skillMax as string);
+  if (min !== null && max !== null && min > max) return { error: 'skillMin must not be above skillMax' };
+  return { fields };
+}
+
 /**
  * GET /api/hitting-partner
  * Get all hitting partner posts (for users with no facility)
@@ -63,6 +107,85 @@ router.get('/user/:userId', async (req, res, next) => {
   }
 });
 
+/**
+ * GET /api/hitting-partner/facility/:facilityId/suggestions
+ * Other members' posts ranked by fit with the caller's own post and profile
+ */
+router.get('/facility/:facilityId/suggestions', async (req, res, next) => {
+  try {
+    const suggestions = await suggestPartners(req.params.facilityId, req.user!.userId);
+    res.json({ success: true, data: { suggestions } });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * GET /api/hitting-partner/invitations
+ * The caller's hitting invitations, sent and received
+ */
+router.get('/invitations', async (req, res, next) => {
+  try {
+    const invitations = await listInvitations(req.user!.userId);
+    res.json({ success: true, data: invitations });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/hitting-partner/invitations
+ * Propose a hit; the court is booked when the other player accepts
+ * Body: { facilityId, toUserId, postId?, courtId, bookingDate, startTime, endTime, message? }
+ */
+router.post('/invitations', async (req, res, next) => {
+  try {
+    const invitation = await proposeHit(req.user!.userId, req.body ?? {});
+    res.status(201).json({ success: true, data: invitation });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/hitting-partner/invitations/:invitationId/accept
+ * Accept an invitation and book the court
+ */
+router.post('/invitations/:invitationId/accept', async (req, res, next) => {
+  try {
+    const invitation = await respondToInvitation(req.params.invitationId, req.user!.userId, true);
+    res.json({ success: true, data: invitation });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/hitting-partner/invitations/:invitationId/decline
+ * Decline an invitation
+ */
+router.post('/invitations/:invitationId/decline', async (req, res, next) => {
+  try {
+    const invitation = await respondToInvitation(req.params.invitationId, req.user!.userId, false);
+    res.json({ success: true, data: invitation });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * DELETE /api/hitting-partner/invitations/:invitationId
+ * Withdraw an invitation that hasn't been answered
+ */
+router.delete('/invitations/:invitationId', async (req, res, next) => {
+  try {
+    await cancelInvitation(req.params.invitationId, req.user!.userId);
+    res.json({ success: true, data: { cancelledId: req.params.invitationId } });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
 /**
  * POST /api/hitting-partner
  * Create a new hitting partner post
@@ -70,15 +193,25 @@ router.get('/user/:userId', async (req, res, next) => {
 router.post('/', async (req, res, next) => {
   try {
     const postData = req.body;
+    const hasAvailability = postData.availability || postData.availabilityWindows?.length > 0;
 
-    if (!postData.userId || !postData.facilityId || !postData.availability || !postData.description || !postData.expiresInDays) {
+    if (!postData.userId || !postData.facilityId || !hasAvailability || !postData.description || !postData.expiresInDays) {
       return res.status(400).json({
         success: false,
-        error: 'Missing required fields: userId, facilityId, availability, description, expiresInDays'
+        error: 'Missing required fields: userId, facilityId, availability or availabilityWindows, description, expiresInDays'
       });
     }
 
-    const postId = await createHittingPartnerPost(postData);
+    const matchFields = parseMatchFields(postData);
+    if ('error' in matchFields) {
+      return res.status(400).json({ success: false, error: matchFields.error });
+    }
+
+    const postId = await createHittingPartnerPost({
+      ...postData,
+      availability: postData.availability || '',
+      ...matchFields.fields
+    });
 
     res.status(201).json({
       success: true,
@@ -106,7 +239,12 @@ router.patch('/:postId', async (req, res, next) => {
       });
     }
 
-    const success = await updateHittingPartnerPost(postId, userId, updates);
+    const matchFields = parseMatchFields(updates);
+    if ('error' in matchFields) {
+      return res.status(400).json({ success: false, error: matchFields.error });
+    }
+
+    const success = await updateHittingPartnerPost(postId, userId, { ...updates, ...matchFields.fields });
 
     if (success) {
       res.json({
@@ -1,11 +1,19 @@
 /**
  * Household Management Routes
- * Manage household groups and members for booking limit enforcement
+ * Manage household groups and members for booking limit enforcement,
+ * and the household's shared billing payer and monthly statements
  */
 
 import express from 'express';
 import { getPool } from '../../src/database/connection';
 import { ensureFacilityAdmin, isFacilityAdminUser, facilityIdForHousehold } from '../middleware/facilityAdmin';
+import {
+  HouseholdBillingError,
+  getHouseholdStatement,
+  listStatementMonths,
+  renderStatementHtml,
+  setBillingPayer,
+} from '../../src/services/householdBillingService';
 
 const router = express.Router();
 const pool = { query: (text: string, params?: any[]) => getPool().query(text, params) };
@@ -22,6 +30,26 @@ async function canViewHousehold(householdId: string, userId: string | undefined)
   return member.rows.length > 0;
 }
 
+/** Statements list every member's charges, so only facility admins and the billing payer see them. */
+async function canViewStatements(householdId: string, userId: string | undefined): Promise<boolean> {
+  if (!userId) return false;
+  const facilityId = await facilityIdForHousehold(householdId);
+  if (facilityId && (await isFacilityAdminUser(facilityId, userId))) return true;
+  const payer = await getPool().query(
+    `SELECT 1 FROM household_groups WHERE id = $1 AND billing_payer_user_id = $2`,
+    [householdId, userId]
+  );
+  return payer.rows.length > 0;
+}
+
+/** Maps HouseholdBillingError onto its status; anything else goes to the error middleware. */
+function handleBillingError(error: unknown, res: express.Response, next: express.NextFunction) {
+  if (error instanceof HouseholdBillingError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  next(error);
+}
+
 /**
  * GET /api/households/facility/:facilityId
  * Get all households for a facility
@@ -469,6 +497,13 @@ router.delete('/:householdId/members/:userId', async (req, res, next) => {
       });
     }
 
+    // A departing payer stops paying; members go back to their own cards
+    await pool.query(
+      `UPDATE household_groups SET billing_payer_user_id = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND billing_payer_user_id = $2`,
+      [householdId, userId]
+    );
+
     res.json({
       success: true,
       message: 'Member removed from household'
@@ -528,6 +563,75 @@ router.get('/:householdId/bookings', async (req, res, next) => {
   }
 });
 
+/**
+ * PUT /api/households/:householdId/billing-payer
+ * Set (or clear, with payerUserId: null) the member whose saved card pays for the household
+ */
+router.put('/:householdId/billing-payer', async (req, res, next) => {
+  try {
+    const { householdId } = req.params;
+    const { payerUserId } = req.body;
+
+    const facilityId = await facilityIdForHousehold(householdId);
+    if (!facilityId) return res.status(404).json({ success: false, error: 'Household not found' });
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    const household = await setBillingPayer(householdId, payerUserId || null);
+
+    res.json({
+      success: true,
+      household
+    });
+  } catch (error) {
+    handleBillingError(error, res, next);
+  }
+});
+
+/**
+ * GET /api/households/:householdId/statements
+ * Months that have shared-billing charges, newest first
+ */
+router.get('/:householdId/statements', async (req, res, next) => {
+  try {
+    const { householdId } = req.params;
+
+    if (!(await canViewStatements(householdId, req.user?.userId))) {
+      return res.status(403).json({ success: false, error: 'Not authorized to view household statements' });
+    }
+
+    res.json({
+      success: true,
+      months: await listStatementMonths(householdId)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/households/:householdId/statements/:month
+ * Consolidated statement for a YYYY-MM month, with a printable HTML rendering
+ */
+router.get('/:householdId/statements/:month', async (req, res, next) => {
+  try {
+    const { householdId, month } = req.params;
+
+    if (!(await canViewStatements(householdId, req.user?.userId))) {
+      return res.status(403).json({ success: false, error: 'Not authorized to view household statements' });
+    }
+
+    const statement = await getHouseholdStatement(householdId, month);
+
+    res.json({
+      success: true,
+      statement,
+      html: renderStatementHtml(statement)
+    });
+  } catch (error) {
+    handleBillingError(error, res, next);
+  }
+});
+
 /**
  * POST /api/households/auto-create
  * Auto-create households from HOA addresses
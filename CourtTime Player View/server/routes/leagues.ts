@@ -0,0 +1,287 @@
+import express from 'express';
+import { isFeatureEnabled } from '../../src/services/featureFlagService';
+import { FEATURE_FLAGS } from '../../shared/constants/featureFlags';
+import { ensureFacilityAdmin, isFacilityAdminUser } from '../middleware/facilityAdmin';
+import {
+  LeagueError,
+  addTeam,
+  cancelFixture,
+  createLeague,
+  createSeason,
+  facilityIdForFixture,
+  facilityIdForLeague,
+  facilityIdForSeason,
+  getMemberFixtures,
+  getSeasonDetail,
+  isFixtureParticipant,
+  listLeagues,
+  recordResult,
+  removeTeam,
+  rescheduleFixture,
+  scheduleSeason,
+  updateLeague,
+} from '../../src/services/leagueService';
+
+const router = express.Router();
+
+async function checkFlag(facilityId: string, res: express.Response): Promise<boolean> {
+  const enabled = await isFeatureEnabled(facilityId, FEATURE_FLAGS.LEAGUES);
+  if (!enabled) {
+    res.status(403).json({ success: false, error: 'Leagues are not enabled for this facility' });
+    return false;
+  }
+  return true;
+}
+
+/** Maps LeagueError onto its status; anything else goes to the error middleware. */
+function handleError(error: unknown, res: express.Response, next: express.NextFunction) {
+  if (error instanceof LeagueError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  next(error);
+}
+
+/** 404s unless the sub-resource resolves to `facilityId`. */
+async function ensureBelongs(
+  resolved: Promise<string | null>,
+  facilityId: string,
+  label: string,
+  res: express.Response
+): Promise<boolean> {
+  if ((await resolved) !== facilityId) {
+    res.status(404).json({ success: false, error: `${label} not found` });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * GET /api/leagues/:facilityId/leagues
+ * Leagues with their seasons. Admins also see archived leagues (?includeInactive=true).
+ */
+router.get('/:facilityId/leagues', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+
+    const includeInactive =
+      req.query.includeInactive === 'true' &&
+      (await isFacilityAdminUser(facilityId, req.user!.userId));
+    const leagues = await listLeagues(facilityId, { includeInactive });
+    res.json({ success: true, data: leagues });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/leagues/:facilityId/leagues
+ * Admin: create a league.
+ * Body: { name, description?, format?: 'round_robin' | 'ladder', bookingType? }
+ */
+router.post('/:facilityId/leagues', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    const { name, description, format, bookingType } = req.body || {};
+    const league = await createLeague(facilityId, req.user!.userId, { name, description, format, bookingType });
+    res.status(201).json({ success: true, data: league });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * PATCH /api/leagues/:facilityId/leagues/:leagueId
+ * Admin: rename, change booking type or archive a league.
+ * Body: { name?, description?, bookingType?, isActive? }
+ */
+router.patch('/:facilityId/leagues/:leagueId', async (req, res, next) => {
+  try {
+    const { facilityId, leagueId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+    if (!(await ensureBelongs(facilityIdForLeague(leagueId), facilityId, 'League', res))) return;
+
+    const { name, description, bookingType, isActive } = req.body || {};
+    await updateLeague(leagueId, { name, description, bookingType, isActive });
+    res.json({ success: true });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/leagues/:facilityId/leagues/:leagueId/seasons
+ * Admin: open a season.
+ * Body: { name, startDate, matchDayOfWeek, matchStartTime, matchDurationMinutes?, courtIds? }
+ */
+router.post('/:facilityId/leagues/:leagueId/seasons', async (req, res, next) => {
+  try {
+    const { facilityId, leagueId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+    if (!(await ensureBelongs(facilityIdForLeague(leagueId), facilityId, 'League', res))) return;
+
+    const { name, startDate, matchDayOfWeek, matchStartTime, matchDurationMinutes, courtIds } = req.body || {};
+    const season = await createSeason(leagueId, {
+      name,
+      startDate,
+      matchDayOfWeek,
+      matchStartTime,
+      matchDurationMinutes,
+      courtIds,
+    });
+    res.status(201).json({ success: true, data: season });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * GET /api/leagues/:facilityId/me/fixtures
+ * The caller's upcoming league matches at this facility.
+ */
+router.get('/:facilityId/me/fixtures', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+
+    const fixtures = await getMemberFixtures(facilityId, req.user!.userId);
+    res.json({ success: true, data: fixtures });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * GET /api/leagues/:facilityId/seasons/:seasonId
+ * Season with teams, fixtures and standings.
+ */
+router.get('/:facilityId/seasons/:seasonId', async (req, res, next) => {
+  try {
+    const { facilityId, seasonId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureBelongs(facilityIdForSeason(seasonId), facilityId, 'Season', res))) return;
+
+    const detail = await getSeasonDetail(seasonId);
+    res.json({ success: true, data: detail });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/leagues/:facilityId/seasons/:seasonId/teams
+ * Admin: add a team of facility members.
+ * Body: { name, captainId?, memberIds }
+ */
+router.post('/:facilityId/seasons/:seasonId/teams', async (req, res, next) => {
+  try {
+    const { facilityId, seasonId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+    if (!(await ensureBelongs(facilityIdForSeason(seasonId), facilityId, 'Season', res))) return;
+
+    const { name, captainId, memberIds } = req.body || {};
+    if (!Array.isArray(memberIds)) {
+      return res.status(400).json({ success: false, error: 'memberIds must be an array' });
+    }
+    const team = await addTeam(seasonId, { name, captainId, memberIds });
+    res.status(201).json({ success: true, data: team });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * DELETE /api/leagues/:facilityId/seasons/:seasonId/teams/:teamId
+ * Admin: remove a team that has no matches yet.
+ */
+router.delete('/:facilityId/seasons/:seasonId/teams/:teamId', async (req, res, next) => {
+  try {
+    const { facilityId, seasonId, teamId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+    if (!(await ensureBelongs(facilityIdForSeason(seasonId), facilityId, 'Season', res))) return;
+
+    await removeTeam(seasonId, teamId);
+    res.json({ success: true });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/leagues/:facilityId/seasons/:seasonId/schedule
+ * Admin: generate fixtures and reserve courts — the whole season for
+ * round-robin, the next round for a ladder.
+ */
+router.post('/:facilityId/seasons/:seasonId/schedule', async (req, res, next) => {
+  try {
+    const { facilityId, seasonId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+    if (!(await ensureBelongs(facilityIdForSeason(seasonId), facilityId, 'Season', res))) return;
+
+    const result = await scheduleSeason(seasonId, req.user!.userId);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * PATCH /api/leagues/:facilityId/fixtures/:fixtureId
+ * Admin: move a match, or cancel it and release its court.
+ * Body: { matchDate?, startTime?, courtId? } or { status: 'cancelled' }
+ */
+router.patch('/:facilityId/fixtures/:fixtureId', async (req, res, next) => {
+  try {
+    const { facilityId, fixtureId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+    if (!(await ensureBelongs(facilityIdForFixture(fixtureId), facilityId, 'Fixture', res))) return;
+
+    const { matchDate, startTime, courtId, status } = req.body || {};
+    if (status === 'cancelled') {
+      await cancelFixture(fixtureId);
+      return res.json({ success: true });
+    }
+    const fixture = await rescheduleFixture(fixtureId, req.user!.userId, { matchDate, startTime, courtId });
+    res.json({ success: true, data: fixture });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/leagues/:facilityId/fixtures/:fixtureId/result
+ * A player on either team (or an admin): enter or correct the score.
+ * Body: { homeScore, awayScore, scoreDetail? }
+ */
+router.post('/:facilityId/fixtures/:fixtureId/result', async (req, res, next) => {
+  try {
+    const { facilityId, fixtureId } = req.params;
+    const userId = req.user!.userId;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureBelongs(facilityIdForFixture(fixtureId), facilityId, 'Fixture', res))) return;
+    if (!(await isFixtureParticipant(fixtureId, userId)) && !(await isFacilityAdminUser(facilityId, userId))) {
+      return res.status(403).json({ success: false, error: 'Only players in this match or admins can enter the score' });
+    }
+
+    const { homeScore, awayScore, scoreDetail } = req.body || {};
+    const fixture = await recordResult(fixtureId, userId, {
+      homeScore: Number(homeScore),
+      awayScore: Number(awayScore),
+      scoreDetail,
+    });
+    res.json({ success: true, data: fixture });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+export default router;
@@ -3,6 +3,23 @@ import { query } from '../../src/database/connection';
 import { isFeatureEnabled } from '../../src/services/featureFlagService';
 import { getFacilityLessonPosts } from '../../src/services/bulletinBoardService';
 import { FEATURE_FLAGS } from '../../shared/constants/featureFlags';
+import { ensureFacilityAdmin, isFacilityAdminUser } from '../middleware/facilityAdmin';
+import {
+  LessonError,
+  bookLesson,
+  cancelLesson,
+  createLessonPro,
+  facilityIdForLessonBooking,
+  facilityIdForLessonPro,
+  getBookableLessonSlots,
+  getMemberLessons,
+  getProSchedule,
+  isLessonProUser,
+  listLessonPros,
+  setLessonProAvailability,
+  updateLessonPro,
+} from '../../src/services/lessonService';
+import { confirmLessonCheckout } from '../../src/services/stripeConnectService';
 
 const router = express.Router();
 
@@ -25,6 +42,267 @@ async function userIsFacilityAdmin(userId: string, facilityId: string): Promise<
   return result.rows.length > 0;
 }
 
+/** Maps LessonError onto its status; anything else goes to the error middleware. */
+function handleError(error: unknown, res: express.Response, next: express.NextFunction) {
+  if (error instanceof LessonError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  next(error);
+}
+
+/**
+ * Resolves a pro under `facilityId` and checks the caller may manage them:
+ * facility admins manage every pro, a pro manages their own profile.
+ */
+async function ensureCanManagePro(
+  facilityId: string,
+  proId: string,
+  userId: string,
+  res: express.Response
+): Promise<boolean> {
+  if ((await facilityIdForLessonPro(proId)) !== facilityId) {
+    res.status(404).json({ success: false, error: 'Pro not found' });
+    return false;
+  }
+  if ((await isLessonProUser(proId, userId)) || (await isFacilityAdminUser(facilityId, userId))) {
+    return true;
+  }
+  res.status(403).json({ success: false, error: 'Only facility admins or the pro can do this' });
+  return false;
+}
+
+/**
+ * POST /api/lessons/payment/confirm
+ * Browser return from lesson Checkout; the webhook does the same work, this
+ * just closes the gap so the Lessons tab shows the lesson as booked at once.
+ * Body: { sessionId }
+ */
+router.post('/payment/confirm', async (req, res, next) => {
+  try {
+    const { sessionId } = req.body || {};
+    if (!sessionId || typeof sessionId !== 'string') {
+      return res.status(400).json({ success: false, error: 'sessionId is required' });
+    }
+    const result = await confirmLessonCheckout({ sessionId, memberId: req.user!.userId });
+    res.json({ success: true, data: result });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * GET /api/lessons/:facilityId/pros
+ * Pros with their price, lesson length and weekly availability. Admins also
+ * see inactive pros (?includeInactive=true).
+ */
+router.get('/:facilityId/pros', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+
+    const includeInactive =
+      req.query.includeInactive === 'true' &&
+      (await isFacilityAdminUser(facilityId, req.user!.userId));
+    const pros = await listLessonPros(facilityId, { includeInactive });
+    res.json({ success: true, data: pros });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/lessons/:facilityId/pros
+ * Admin: make a member a pro.
+ * Body: { userId, title?, bio?, priceCents?, lessonDurationMinutes?, courtIds? }
+ */
+router.post('/:facilityId/pros', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    const { userId, title, bio, priceCents, lessonDurationMinutes, courtIds } = req.body || {};
+    if (!userId) {
+      return res.status(400).json({ success: false, error: 'userId is required' });
+    }
+    const pro = await createLessonPro(facilityId, {
+      userId,
+      title,
+      bio,
+      priceCents,
+      lessonDurationMinutes,
+      courtIds,
+    });
+    res.status(201).json({ success: true, data: pro });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * PATCH /api/lessons/:facilityId/pros/:proId
+ * Admin or the pro: edit price, lesson length, bio and courts. Only admins
+ * can deactivate a pro.
+ */
+router.patch('/:facilityId/pros/:proId', async (req, res, next) => {
+  try {
+    const { facilityId, proId } = req.params;
+    const userId = req.user!.userId;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureCanManagePro(facilityId, proId, userId, res))) return;
+
+    const { title, bio, priceCents, lessonDurationMinutes, courtIds, isActive } = req.body || {};
+    if (isActive !== undefined && !(await isFacilityAdminUser(facilityId, userId))) {
+      return res.status(403).json({ success: false, error: 'Only facility admins can change whether a pro is active' });
+    }
+    const pro = await updateLessonPro(proId, {
+      title,
+      bio,
+      priceCents,
+      lessonDurationMinutes,
+      courtIds,
+      isActive,
+    });
+    res.json({ success: true, data: pro });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * PUT /api/lessons/:facilityId/pros/:proId/availability
+ * Admin or the pro: replace the weekly availability calendar.
+ * Body: { windows: [{ dayOfWeek, startTime, endTime }] }
+ */
+router.put('/:facilityId/pros/:proId/availability', async (req, res, next) => {
+  try {
+    const { facilityId, proId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureCanManagePro(facilityId, proId, req.user!.userId, res))) return;
+
+    const windows = await setLessonProAvailability(proId, req.body?.windows);
+    res.json({ success: true, data: windows });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * GET /api/lessons/:facilityId/pros/:proId/slots?date=YYYY-MM-DD
+ * Start times the pro can be booked at on that date.
+ */
+router.get('/:facilityId/pros/:proId/slots', async (req, res, next) => {
+  try {
+    const { facilityId, proId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if ((await facilityIdForLessonPro(proId)) !== facilityId) {
+      return res.status(404).json({ success: false, error: 'Pro not found' });
+    }
+
+    const date = typeof req.query.date === 'string' ? req.query.date : '';
+    const slots = await getBookableLessonSlots(proId, date);
+    res.json({ success: true, data: slots });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * GET /api/lessons/:facilityId/pros/:proId/bookings
+ * Admin or the pro: upcoming lessons on the pro's schedule.
+ */
+router.get('/:facilityId/pros/:proId/bookings', async (req, res, next) => {
+  try {
+    const { facilityId, proId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureCanManagePro(facilityId, proId, req.user!.userId, res))) return;
+
+    const lessons = await getProSchedule(proId);
+    res.json({ success: true, data: lessons });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * GET /api/lessons/:facilityId/bookings/me
+ * The caller's upcoming lessons at the facility.
+ */
+router.get('/:facilityId/bookings/me', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+
+    const lessons = await getMemberLessons(facilityId, req.user!.userId);
+    res.json({ success: true, data: lessons });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/lessons/:facilityId/bookings
+ * Book a lesson. Paid lessons respond with requiresPayment + checkoutUrl and
+ * hold the court until checkout completes or the hold lapses.
+ * Body: { proId, lessonDate, startTime, notes?, successUrl, cancelUrl }
+ */
+router.post('/:facilityId/bookings', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+
+    const { proId, lessonDate, startTime, notes, successUrl, cancelUrl } = req.body || {};
+    if (!proId || !lessonDate || !startTime) {
+      return res.status(400).json({ success: false, error: 'proId, lessonDate and startTime are required' });
+    }
+    if ((await facilityIdForLessonPro(proId)) !== facilityId) {
+      return res.status(404).json({ success: false, error: 'Pro not found' });
+    }
+
+    const result = await bookLesson({
+      proId,
+      memberId: req.user!.userId,
+      lessonDate,
+      startTime,
+      notes,
+      successUrl: typeof successUrl === 'string' ? successUrl : '',
+      cancelUrl: typeof cancelUrl === 'string' ? cancelUrl : '',
+    });
+    res.status(201).json({
+      success: true,
+      data: result.lesson,
+      requiresPayment: result.requiresPayment,
+      checkoutUrl: result.checkoutUrl,
+    });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/lessons/:facilityId/bookings/:lessonId/cancel
+ * The member, their pro or an admin cancels a lesson and frees its court.
+ */
+router.post('/:facilityId/bookings/:lessonId/cancel', async (req, res, next) => {
+  try {
+    const { facilityId, lessonId } = req.params;
+    const userId = req.user!.userId;
+    if (!(await checkFlag(facilityId, res))) return;
+    if ((await facilityIdForLessonBooking(lessonId)) !== facilityId) {
+      return res.status(404).json({ success: false, error: 'Lesson not found' });
+    }
+
+    const proResult = await query(`SELECT pro_id FROM lesson_bookings WHERE id = $1`, [lessonId]);
+    const actorIsStaff =
+      (await isLessonProUser(proResult.rows[0].pro_id, userId)) ||
+      (await isFacilityAdminUser(facilityId, userId));
+    const result = await cancelLesson({ lessonId, actorUserId: userId, actorIsStaff });
+    res.json({ success: true, data: result });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
 /**
  * GET /api/lessons/:facilityId?scope=upcoming|past
  * Lesson posts for the Lessons tab. Same underlying bulletin posts the
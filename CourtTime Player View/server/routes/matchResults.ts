@@ -0,0 +1,167 @@
+import express from 'express';
+import { isFeatureEnabled } from '../../src/services/featureFlagService';
+import { FEATURE_FLAGS } from '../../shared/constants/featureFlags';
+import {
+  ClubRatingError,
+  cancelResult,
+  confirmResult,
+  disputeResult,
+  facilityIdForResult,
+  getMyMatchResults,
+  getUserRatings,
+  listClubRatings,
+  reportResult,
+} from '../../src/services/clubRatingService';
+
+const router = express.Router();
+
+async function checkFlag(facilityId: string, res: express.Response): Promise<boolean> {
+  const enabled = await isFeatureEnabled(facilityId, FEATURE_FLAGS.CLUB_RATINGS);
+  if (!enabled) {
+    res.status(403).json({ success: false, error: 'Club ratings are not enabled for this facility' });
+    return false;
+  }
+  return true;
+}
+
+/** Maps ClubRatingError onto its status; anything else goes to the error middleware. */
+function handleError(error: unknown, res: express.Response, next: express.NextFunction) {
+  if (error instanceof ClubRatingError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  next(error);
+}
+
+/** 404s unless the result belongs to `facilityId`. */
+async function ensureResultInFacility(resultId: string, facilityId: string, res: express.Response): Promise<boolean> {
+  if ((await facilityIdForResult(resultId)) !== facilityId) {
+    res.status(404).json({ success: false, error: 'Result not found' });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * GET /api/match-results/me/ratings
+ * The caller's club rating at each facility that has club ratings turned on.
+ */
+router.get('/me/ratings', async (req, res, next) => {
+  try {
+    const ratings = await getUserRatings(req.user!.userId);
+    const enabled = await Promise.all(
+      ratings.map((rating) => isFeatureEnabled(rating.facilityId, FEATURE_FLAGS.CLUB_RATINGS))
+    );
+    res.json({ success: true, data: ratings.filter((_, index) => enabled[index]) });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * GET /api/match-results/:facilityId/me
+ * The caller's rating, results waiting on their confirmation, recent results
+ * and the finished bookings they can still report.
+ */
+router.get('/:facilityId/me', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+
+    const data = await getMyMatchResults(facilityId, req.user!.userId);
+    res.json({ success: true, data });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * GET /api/match-results/:facilityId/ratings
+ * Rated members of the facility, highest first.
+ */
+router.get('/:facilityId/ratings', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+
+    const ratings = await listClubRatings(facilityId);
+    res.json({ success: true, data: ratings });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/match-results/:facilityId/results
+ * Report a result on a finished booking the caller played on.
+ * Body: { bookingId, opponentIds, partnerId?, sets: [{ a, b }] } (a = the caller's side)
+ */
+router.post('/:facilityId/results', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+
+    const result = await reportResult(facilityId, req.user!.userId, {
+      bookingId: req.body?.bookingId,
+      partnerId: req.body?.partnerId,
+      opponentIds: Array.isArray(req.body?.opponentIds) ? req.body.opponentIds : [],
+      sets: req.body?.sets,
+    });
+    res.status(201).json({ success: true, data: result });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/match-results/:facilityId/results/:resultId/confirm
+ * An opponent confirms the result; ratings update.
+ */
+router.post('/:facilityId/results/:resultId/confirm', async (req, res, next) => {
+  try {
+    const { facilityId, resultId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureResultInFacility(resultId, facilityId, res))) return;
+
+    const result = await confirmResult(resultId, req.user!.userId);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/match-results/:facilityId/results/:resultId/dispute
+ * An opponent disputes the result.
+ * Body: { reason }
+ */
+router.post('/:facilityId/results/:resultId/dispute', async (req, res, next) => {
+  try {
+    const { facilityId, resultId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureResultInFacility(resultId, facilityId, res))) return;
+
+    const result = await disputeResult(resultId, req.user!.userId, req.body?.reason);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * DELETE /api/match-results/:facilityId/results/:resultId
+ * The reporter withdraws a result that hasn't been confirmed.
+ */
+router.delete('/:facilityId/results/:resultId', async (req, res, next) => {
+  try {
+    const { facilityId, resultId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureResultInFacility(resultId, facilityId, res))) return;
+
+    await cancelResult(resultId, req.user!.userId);
+    res.json({ success: true, data: { cancelledId: resultId } });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+export default router;
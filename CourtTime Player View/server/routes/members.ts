@@ -11,9 +11,29 @@ import {
 } from '../../src/services/memberService';
 import { query as dbQuery } from '../../src/database/connection';
 import { ensureFacilityAdmin, isFacilityAdminUser } from '../middleware/facilityAdmin';
+import { auditTrail } from '../middleware/auditLog';
 
 const router = express.Router();
 
+auditTrail(router, {
+  source: 'members',
+  entityType: 'members',
+  snapshots: {
+    userId: {
+      entityType: 'members',
+      load: async (userId, req) =>
+        (
+          await dbQuery(`SELECT * FROM facility_memberships WHERE facility_id = $1 AND user_id = $2`, [
+            req.params.facilityId,
+            userId,
+          ])
+        ).rows[0] ?? null,
+    },
+  },
+  // A member acting on their own lockout or member number, not an admin change.
+  skip: ['/:facilityId/me/lockout-checkout', '/:facilityId/me/lockout-confirm', '/:facilityId/me/member-number'],
+});
+
 /**
  * GET /api/members/me/payment-lockout
  * Member: check if the current user has any payment lockout (for login-time UI).
@@ -17,6 +17,19 @@ import {
   COURTTIME_TEAM_USER_ID,
   findOrCreateTeamConversation,
 } from '../../src/services/developerMessagingService';
+import { publishMessageCreated } from '../../src/services/realtimeService';
+import {
+  MessageError,
+  editMessage,
+  getAttachment,
+  getEditHistory,
+  insertMessage,
+  listConversationMessages,
+  markConversationRead,
+  normalizeAttachments,
+  toggleReaction,
+} from '../../src/services/messageService';
+import { ATTACHMENT_ONLY_PREVIEW, messagePreviewText } from '../../shared/utils/messageContent';
 
 const router = express.Router();
 
@@ -491,7 +504,7 @@ router.get('/conversations/:facilityId/:userId', async (req, res) => {
           ELSE u1.email
         END as "otherUserEmail",
         (
-          SELECT m.message_text
+          SELECT COALESCE(NULLIF(m.message_text, ''), '${ATTACHMENT_ONLY_PREVIEW}')
           FROM messages m
           WHERE m.conversation_id = c.id
           ORDER BY m.created_at DESC
@@ -552,7 +565,7 @@ router.get('/conversations/:facilityId/:userId', async (req, res) => {
           SELECT COUNT(*) FROM conversation_participants cp2 WHERE cp2.conversation_id = c.id
         ) as "memberCount",
         (
-          SELECT m.message_text
+          SELECT COALESCE(NULLIF(m.message_text, ''), '${ATTACHMENT_ONLY_PREVIEW}')
           FROM messages m
           WHERE m.conversation_id = c.id
           ORDER BY m.created_at DESC
@@ -679,9 +692,99 @@ router.delete('/message/:messageId', async (req, res) => {
   }
 });
 
+/**
+ * PATCH /api/messages/message/:messageId
+ * Edit a message you sent; the previous text is kept in its edit history
+ */
+router.patch('/message/:messageId', async (req, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Authentication required' });
+    }
+
+    const message = await editMessage(req.params.messageId, userId, req.body.messageText);
+    res.json({ success: true, data: { message } });
+  } catch (error: any) {
+    if (error instanceof MessageError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('Error editing message:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * GET /api/messages/message/:messageId/edits
+ * Earlier versions of a message, oldest first. Any participant may view.
+ */
+router.get('/message/:messageId/edits', async (req, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Authentication required' });
+    }
+
+    const edits = await getEditHistory(req.params.messageId, userId);
+    res.json({ success: true, data: { edits } });
+  } catch (error: any) {
+    if (error instanceof MessageError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('Error fetching message edits:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * POST /api/messages/message/:messageId/reactions
+ * Toggle the caller's emoji reaction on a message
+ */
+router.post('/message/:messageId/reactions', async (req, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Authentication required' });
+    }
+
+    const result = await toggleReaction(req.params.messageId, userId, req.body.emoji);
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    if (error instanceof MessageError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('Error reacting to message:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * GET /api/messages/attachments/:attachmentId
+ * An attachment's contents as a data URL (message lists carry metadata only)
+ */
+router.get('/attachments/:attachmentId', async (req, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Authentication required' });
+    }
+
+    const attachment = await getAttachment(req.params.attachmentId, userId);
+    if (!attachment) {
+      return res.status(404).json({ success: false, error: 'Attachment not found' });
+    }
+    res.set('Cache-Control', 'private, max-age=86400');
+    res.json({ success: true, data: { attachment } });
+  } catch (error: any) {
+    console.error('Error fetching attachment:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 /**
  * GET /api/messages/:conversationId
- * Get all messages in a conversation
+ * Get all messages in a conversation, with attachment metadata, reactions and
+ * read receipts
  */
 router.get('/:conversationId', async (req, res) => {
   try {
@@ -696,23 +799,12 @@ router.get('/:conversationId', async (req, res) => {
       return res.status(403).json({ success: false, error: 'Cannot access this conversation' });
     }
 
-    const result = await query(`
-      SELECT
-        id,
-        conversation_id as "conversationId",
-        sender_id as "senderId",
-        message_text as "messageText",
-        is_read as "isRead",
-        created_at as "createdAt"
-      FROM messages
-      WHERE conversation_id = $1
-      ORDER BY created_at ASC
-    `, [conversationId]);
+    const messages = await listConversationMessages(conversationId);
 
     res.json({
       success: true,
       data: {
-        messages: result.rows
+        messages
       }
     });
   } catch (error: any) {
@@ -730,7 +822,8 @@ router.get('/:conversationId', async (req, res) => {
  */
 router.post('/', async (req, res) => {
   try {
-    const { recipientId, facilityId, messageText, conversationId: existingConversationId } = req.body;
+    const { recipientId, facilityId, conversationId: existingConversationId } = req.body;
+    const messageText = typeof req.body.messageText === 'string' ? req.body.messageText : '';
     // The sender is always the authenticated caller, never a client-supplied id.
     const senderId = req.user?.userId;
     if (!senderId) {
@@ -739,25 +832,21 @@ router.post('/', async (req, res) => {
 
     // Sending into an existing conversation by id — used for group conversations
     // (which have no single "recipient"), and works for any conversation type.
+    const attachments = normalizeAttachments(req.body.attachments);
     if (existingConversationId) {
-      if (!messageText) {
-        return res.status(400).json({ success: false, error: 'messageText is required' });
+      if (!messageText.trim() && attachments.length === 0) {
+        return res.status(400).json({ success: false, error: 'messageText or an attachment is required' });
       }
       if (!(await isConversationParticipant(existingConversationId, senderId))) {
         return res.status(403).json({ success: false, error: 'Cannot access this conversation' });
       }
 
-      const messageResult = await query(`
-        INSERT INTO messages (conversation_id, sender_id, message_text)
-        VALUES ($1, $2, $3)
-        RETURNING
-          id,
-          conversation_id as "conversationId",
-          sender_id as "senderId",
-          message_text as "messageText",
-          is_read as "isRead",
-          created_at as "createdAt"
-      `, [existingConversationId, senderId, messageText]);
+      const message = await insertMessage({
+        conversationId: existingConversationId,
+        senderId,
+        messageText,
+        attachments,
+      });
 
       void (async () => {
         try {
@@ -778,6 +867,8 @@ router.post('/', async (req, res) => {
                 [existingConversationId, senderId]
               )).rows.map((r: any) => r.otherUserId);
 
+          publishMessageCreated(message, [senderId, ...recipients]);
+
           const senderResult = await query(`SELECT full_name FROM users WHERE id = $1`, [senderId]);
           const senderName = senderResult.rows[0]?.full_name || 'A facility member';
           const displayName = isGroup && groupName ? `${senderName} (${groupName})` : senderName;
@@ -787,11 +878,11 @@ router.post('/', async (req, res) => {
               notificationService.notifyMessageReceived(
                 recipientUserId,
                 displayName,
-                messageResult.rows[0].messageText,
+                messagePreviewText(message.messageText, message.attachments),
                 {
                   conversationId: existingConversationId,
                   facilityId: convFacilityId,
-                  messageId: messageResult.rows[0].id,
+                  messageId: message.id,
                   senderId,
                   isGroup: !!isGroup,
                 }
@@ -806,22 +897,23 @@ router.post('/', async (req, res) => {
       return res.json({
         success: true,
         data: {
-          message: messageResult.rows[0],
+          message,
           conversationId: existingConversationId
         }
       });
     }
 
-    if (!recipientId || !facilityId || !messageText) {
+    if (!recipientId || !facilityId || (!messageText.trim() && attachments.length === 0)) {
       console.error('Missing required fields:', {
         hasSenderId: !!senderId,
         hasRecipientId: !!recipientId,
         hasFacilityId: !!facilityId,
-        hasMessageText: !!messageText
+        hasMessageText: !!messageText,
+        attachmentCount: attachments.length
       });
       return res.status(400).json({
         success: false,
-        error: 'Missing required fields: senderId, recipientId, facilityId, messageText'
+        error: 'Missing required fields: senderId, recipientId, facilityId, and messageText or an attachment'
       });
     }
 
@@ -879,18 +971,9 @@ router.post('/', async (req, res) => {
       }
     }
 
-    // Insert message
-    const messageResult = await query(`
-      INSERT INTO messages (conversation_id, sender_id, message_text)
-      VALUES ($1, $2, $3)
-      RETURNING
-        id,
-        conversation_id as "conversationId",
-        sender_id as "senderId",
-        message_text as "messageText",
-        is_read as "isRead",
-        created_at as "createdAt"
-    `, [conversationId, senderId, messageText]);
+    const message = await insertMessage({ conversationId, senderId, messageText, attachments });
+
+    publishMessageCreated(message, [...new Set([senderId, recipientId])]);
 
     if (recipientId !== senderId) {
       void (async () => {
@@ -905,11 +988,11 @@ router.post('/', async (req, res) => {
           await notificationService.notifyMessageReceived(
             recipientId,
             senderName,
-            messageResult.rows[0].messageText,
+            messagePreviewText(message.messageText, message.attachments),
             {
               conversationId,
               facilityId,
-              messageId: messageResult.rows[0].id,
+              messageId: message.id,
               senderId,
             }
           );
@@ -922,11 +1005,14 @@ router.post('/', async (req, res) => {
     res.json({
       success: true,
       data: {
-        message: messageResult.rows[0],
+        message,
         conversationId
       }
     });
   } catch (error: any) {
+    if (error instanceof MessageError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
     console.error('Error sending message:', error);
     res.status(500).json({
       success: false,
@@ -937,7 +1023,8 @@ router.post('/', async (req, res) => {
 
 /**
  * PATCH /api/messages/:conversationId/read
- * Mark all messages in a conversation as read for a user
+ * Mark all messages in a conversation as read for a user, leaving a read
+ * receipt on each
  */
 router.patch('/:conversationId/read', async (req, res) => {
   try {
@@ -957,13 +1044,7 @@ router.patch('/:conversationId/read', async (req, res) => {
       return res.status(403).json({ success: false, error: 'Cannot access this conversation' });
     }
 
-    await query(`
-      UPDATE messages
-      SET is_read = true
-      WHERE conversation_id = $1
-        AND sender_id != $2
-        AND is_read = false
-    `, [conversationId, userId]);
+    await markConversationRead(conversationId, userId);
 
     res.json({
       success: true,
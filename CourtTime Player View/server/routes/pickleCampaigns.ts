@@ -5,13 +5,18 @@ import {
   listCampaigns,
   getCampaign,
   previewCampaignSegment,
-  sendCampaign,
+  previewCampaignEmail,
+  queueCampaignSend,
+  scheduleCampaign,
+  cancelCampaign,
   listCampaignSends,
+  getCampaignEngagement,
   updateCampaignStatus,
   requireCampaignAdmin,
   type SegmentFilter,
   type CampaignChannel,
   type CampaignStatus,
+  type CampaignRecurrence,
 } from '../../src/services/pickle/pickleCampaignService';
 
 const router = express.Router();
@@ -44,7 +49,7 @@ router.post('/orgs/:orgId/campaigns', requireAuth, async (req, res, next) => {
     const { orgId } = req.params;
     await requireCampaignAdmin(req.user!.userId, orgId);
 
-    const { name, segmentFilter, channel, templateBody } = req.body;
+    const { name, segmentFilter, channel, templateBody, subjectVariants } = req.body;
     if (!name || !templateBody) {
       return res.status(400).json({
         success: false,
@@ -54,6 +59,12 @@ router.post('/orgs/:orgId/campaigns', requireAuth, async (req, res, next) => {
     if (channel && !VALID_CHANNELS.includes(channel)) {
       return res.status(400).json({ success: false, error: 'Invalid channel' });
     }
+    if (
+      subjectVariants != null &&
+      (!Array.isArray(subjectVariants) || subjectVariants.some((s: unknown) => typeof s !== 'string'))
+    ) {
+      return res.status(400).json({ success: false, error: 'subjectVariants must be a list of subject lines' });
+    }
 
     const campaign = await createCampaign({
       orgId,
@@ -61,6 +72,7 @@ router.post('/orgs/:orgId/campaigns', requireAuth, async (req, res, next) => {
       segmentFilter: segmentFilter as SegmentFilter,
       channel,
       templateBody,
+      subjectVariants,
     });
 
     res.status(201).json({ success: true, data: { campaign } });
@@ -68,6 +80,9 @@ router.post('/orgs/:orgId/campaigns', requireAuth, async (req, res, next) => {
     if (err.message?.includes('Not authorized')) {
       return res.status(403).json({ success: false, error: err.message });
     }
+    if (err.message?.includes('merge field') || err.message?.includes('subject variants')) {
+      return res.status(400).json({ success: false, error: err.message });
+    }
     next(err);
   }
 });
@@ -114,16 +129,40 @@ router.get('/orgs/:orgId/campaigns/:campaignId/preview', requireAuth, async (req
   }
 });
 
+/**
+ * GET /api/pickle/orgs/:orgId/campaigns/:campaignId/email-preview?userId=
+ * The message as a sample recipient would get it: merge fields, subjects, HTML
+ */
+router.get('/orgs/:orgId/campaigns/:campaignId/email-preview', requireAuth, async (req, res, next) => {
+  try {
+    const { orgId, campaignId } = req.params;
+    await requireCampaignAdmin(req.user!.userId, orgId);
+
+    const userId = typeof req.query.userId === 'string' ? req.query.userId : undefined;
+    const preview = await previewCampaignEmail(orgId, campaignId, userId);
+    res.json({ success: true, data: preview });
+  } catch (err: any) {
+    if (err.message?.includes('Not authorized')) {
+      return res.status(403).json({ success: false, error: err.message });
+    }
+    if (err.message?.includes('not found')) {
+      return res.status(404).json({ success: false, error: err.message });
+    }
+    next(err);
+  }
+});
+
 /**
  * POST /api/pickle/orgs/:orgId/campaigns/:campaignId/send
+ * Queues the send; per-recipient results show up under /sends as it runs.
  */
 router.post('/orgs/:orgId/campaigns/:campaignId/send', requireAuth, async (req, res, next) => {
   try {
     const { orgId, campaignId } = req.params;
     await requireCampaignAdmin(req.user!.userId, orgId);
 
-    const result = await sendCampaign(orgId, campaignId);
-    res.json({ success: true, data: result });
+    const result = await queueCampaignSend(orgId, campaignId);
+    res.status(202).json({ success: true, data: result });
   } catch (err: any) {
     if (err.message?.includes('Not authorized')) {
       return res.status(403).json({ success: false, error: err.message });
@@ -135,6 +174,65 @@ router.post('/orgs/:orgId/campaigns/:campaignId/send', requireAuth, async (req,
   }
 });
 
+/**
+ * POST /api/pickle/orgs/:orgId/campaigns/:campaignId/schedule
+ * Body: { sendAt: 'YYYY-MM-DDTHH:mm' (org local time), recurrence?: 'none' | 'daily' | 'weekly' | 'monthly' }
+ */
+router.post('/orgs/:orgId/campaigns/:campaignId/schedule', requireAuth, async (req, res, next) => {
+  try {
+    const { orgId, campaignId } = req.params;
+    await requireCampaignAdmin(req.user!.userId, orgId);
+
+    const { sendAt, recurrence } = req.body;
+    const campaign = await scheduleCampaign(orgId, campaignId, {
+      sendAt,
+      recurrence: recurrence as CampaignRecurrence | undefined,
+    });
+    res.json({ success: true, data: { campaign } });
+  } catch (err: any) {
+    if (err.message?.includes('Not authorized')) {
+      return res.status(403).json({ success: false, error: err.message });
+    }
+    if (err.message?.includes('not found')) {
+      return res.status(404).json({ success: false, error: err.message });
+    }
+    if (
+      err.message?.includes('already') ||
+      err.message?.includes('sendAt') ||
+      err.message?.includes('recurrence') ||
+      err.message?.includes('future')
+    ) {
+      return res.status(400).json({ success: false, error: err.message });
+    }
+    next(err);
+  }
+});
+
+/**
+ * POST /api/pickle/orgs/:orgId/campaigns/:campaignId/cancel
+ * Stops a draft, scheduled, recurring or in-progress campaign
+ */
+router.post('/orgs/:orgId/campaigns/:campaignId/cancel', requireAuth, async (req, res, next) => {
+  try {
+    const { orgId, campaignId } = req.params;
+    await requireCampaignAdmin(req.user!.userId, orgId);
+
+    const campaign = await cancelCampaign(orgId, campaignId);
+    res.json({ success: true, data: { campaign } });
+  } catch (err: any) {
+    if (err.message?.includes('Not authorized')) {
+      return res.status(403).json({ success: false, error: err.message });
+    }
+    if (err.message?.includes('not found')) {
+      return res.status(404).json({ success: false, error: err.message });
+    }
+    if (err.message?.includes('already')) {
+      return res.status(400).json({ success: false, error: err.message });
+    }
+    next(err);
+  }
+});
+
 /**
  * GET /api/pickle/orgs/:orgId/campaigns/:campaignId/sends
  */
@@ -153,6 +251,28 @@ router.get('/orgs/:orgId/campaigns/:campaignId/sends', requireAuth, async (req,
   }
 });
 
+/**
+ * GET /api/pickle/orgs/:orgId/campaigns/:campaignId/engagement
+ * Email sent / opened / clicked per subject variant
+ */
+router.get('/orgs/:orgId/campaigns/:campaignId/engagement', requireAuth, async (req, res, next) => {
+  try {
+    const { orgId, campaignId } = req.params;
+    await requireCampaignAdmin(req.user!.userId, orgId);
+
+    const variants = await getCampaignEngagement(orgId, campaignId);
+    res.json({ success: true, data: { variants } });
+  } catch (err: any) {
+    if (err.message?.includes('Not authorized')) {
+      return res.status(403).json({ success: false, error: err.message });
+    }
+    if (err.message?.includes('not found')) {
+      return res.status(404).json({ success: false, error: err.message });
+    }
+    next(err);
+  }
+});
+
 /**
  * PATCH /api/pickle/orgs/:orgId/campaigns/:campaignId
  */
@@ -65,6 +65,8 @@ router.put('/players/profile', requireAuth, async (req, res, next) => {
       preferredPrograms,
       availabilityJson,
       equipmentBrands,
+      campaignPushConsent,
+      campaignSmsConsent,
     } = req.body;
 
     const profile = await upsertPickleProfile({
@@ -77,6 +79,8 @@ router.put('/players/profile', requireAuth, async (req, res, next) => {
       preferredPrograms,
       availabilityJson,
       equipmentBrands,
+      campaignPushConsent: typeof campaignPushConsent === 'boolean' ? campaignPushConsent : undefined,
+      campaignSmsConsent: typeof campaignSmsConsent === 'boolean' ? campaignSmsConsent : undefined,
     });
 
     res.json({ success: true, data: { profile } });
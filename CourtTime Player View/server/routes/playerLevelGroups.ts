@@ -26,6 +26,7 @@ import {
   getBoard,
   getMyLevelGroup,
   reorderGroups,
+  suggestLevelsByRating,
   updateGroup,
 } from '../../src/services/playerLevelGroupService';
 
@@ -125,6 +126,26 @@ router.get('/:facilityId', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/player-level-groups/:facilityId/rating-suggestions
+ * Proposed tier moves from members' club ratings. Nothing is moved until the
+ * admin applies them through PUT assignments. Requires club_ratings as well.
+ */
+router.get('/:facilityId/rating-suggestions', async (req, res) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await ensureAdminAccess(facilityId, req, res))) return;
+    if (!(await isFeatureEnabled(facilityId, FEATURE_FLAGS.CLUB_RATINGS))) {
+      return res.status(403).json({ success: false, error: 'Club ratings are not enabled for this facility' });
+    }
+
+    const suggestions = suggestLevelsByRating(await getBoard(facilityId));
+    res.json({ success: true, data: { suggestions } });
+  } catch (error: any) {
+    handleError(error, res, 'Error suggesting level groups:');
+  }
+});
+
 /**
  * POST /api/player-level-groups/:facilityId/groups
  * Create a tier at the bottom of the ladder.
@@ -25,6 +25,25 @@ import {
   billAllTabs,
   recordGuestSale,
 } from '../../src/services/proShopService';
+import {
+  ProShopInventoryError,
+  adjustStock,
+  createVariant,
+  deleteVariant,
+  getInventoryLedger,
+  getLowStockItems,
+  restockItem,
+  returnOrderItems,
+  updateVariant,
+} from '../../src/services/proShopInventoryService';
+import {
+  StringingError,
+  cancelOwnStringingJob,
+  createStringingJob,
+  getStringOptions,
+  listStringingJobs,
+  updateStringingJobStatus,
+} from '../../src/services/stringingService';
 
 const router = express.Router();
 
@@ -113,11 +132,15 @@ router.post('/admin/products/:facilityId', async (req, res) => {
     if (!await requireFacilityAdmin(facilityId, req.user?.userId)) {
       return res.status(403).json({ success: false, error: 'Admin access required' });
     }
-    const { name, description, category, price_cents, stock_quantity, image_data, is_active } = req.body;
+    const { name, description, category, price_cents, stock_quantity, low_stock_threshold, image_data, is_active } = req.body;
     if (!name || !category || price_cents == null) {
       return res.status(400).json({ success: false, error: 'name, category, and price_cents are required' });
     }
-    const product = await createProduct(facilityId, { name, description, category, price_cents, stock_quantity, image_data, is_active });
+    const product = await createProduct(
+      facilityId,
+      { name, description, category, price_cents, stock_quantity, low_stock_threshold, image_data, is_active },
+      req.user!.userId
+    );
     res.status(201).json({ success: true, data: product });
   } catch (error: any) {
     console.error('[ProShop] Admin create product error:', error);
@@ -136,11 +159,11 @@ router.patch('/admin/products/:productId', async (req, res) => {
     if (!await requireFacilityAdmin(facilityId, req.user?.userId)) {
       return res.status(403).json({ success: false, error: 'Admin access required' });
     }
-    const updated = await updateProduct(productId, req.body);
+    const updated = await updateProduct(productId, req.body, req.user!.userId);
     res.json({ success: true, data: updated });
   } catch (error: any) {
     console.error('[ProShop] Admin update product error:', error);
-    res.status(400).json({ success: false, error: error.message });
+    res.status(error instanceof ProShopInventoryError ? error.status : 400).json({ success: false, error: error.message });
   }
 });
 
@@ -178,6 +201,165 @@ router.get('/admin/orders/:facilityId', async (req, res) => {
   }
 });
 
+router.post('/admin/orders/:facilityId/:orderId/return', async (req, res) => {
+  try {
+    const { facilityId, orderId } = req.params;
+    if (!await checkFlag(facilityId, res)) return;
+    if (!await requireFacilityAdmin(facilityId, req.user?.userId)) {
+      return res.status(403).json({ success: false, error: 'Admin access required' });
+    }
+    const { items, restock, note } = req.body;
+    const result = await returnOrderItems(facilityId, orderId, items, {
+      restock: restock !== false,
+      actorId: req.user!.userId,
+      note,
+    });
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    console.error('[ProShop] Return error:', error);
+    res.status(error instanceof ProShopInventoryError ? error.status : 400).json({ success: false, error: error.message });
+  }
+});
+
+// ── Variants ───────────────────────────────────────────────
+
+router.post('/admin/products/:productId/variants', async (req, res) => {
+  try {
+    const { productId } = req.params;
+    const productResult = await query(`SELECT facility_id FROM pro_shop_products WHERE id = $1`, [productId]);
+    if (productResult.rows.length === 0) return res.status(404).json({ success: false, error: 'Product not found' });
+    const facilityId = productResult.rows[0].facility_id;
+
+    if (!await checkFlag(facilityId, res)) return;
+    if (!await requireFacilityAdmin(facilityId, req.user?.userId)) {
+      return res.status(403).json({ success: false, error: 'Admin access required' });
+    }
+    const variant = await createVariant(facilityId, productId, req.body, req.user!.userId);
+    res.status(201).json({ success: true, data: variant });
+  } catch (error: any) {
+    console.error('[ProShop] Create variant error:', error);
+    res.status(error instanceof ProShopInventoryError ? error.status : 400).json({ success: false, error: error.message });
+  }
+});
+
+router.patch('/admin/variants/:variantId', async (req, res) => {
+  try {
+    const { variantId } = req.params;
+    const variantResult = await query(`SELECT facility_id FROM pro_shop_product_variants WHERE id = $1`, [variantId]);
+    if (variantResult.rows.length === 0) return res.status(404).json({ success: false, error: 'Variant not found' });
+    const facilityId = variantResult.rows[0].facility_id;
+
+    if (!await checkFlag(facilityId, res)) return;
+    if (!await requireFacilityAdmin(facilityId, req.user?.userId)) {
+      return res.status(403).json({ success: false, error: 'Admin access required' });
+    }
+    const variant = await updateVariant(facilityId, variantId, req.body, req.user!.userId);
+    res.json({ success: true, data: variant });
+  } catch (error: any) {
+    console.error('[ProShop] Update variant error:', error);
+    res.status(error instanceof ProShopInventoryError ? error.status : 400).json({ success: false, error: error.message });
+  }
+});
+
+router.delete('/admin/variants/:variantId', async (req, res) => {
+  try {
+    const { variantId } = req.params;
+    const variantResult = await query(`SELECT facility_id FROM pro_shop_product_variants WHERE id = $1`, [variantId]);
+    if (variantResult.rows.length === 0) return res.status(404).json({ success: false, error: 'Variant not found' });
+    const facilityId = variantResult.rows[0].facility_id;
+
+    if (!await checkFlag(facilityId, res)) return;
+    if (!await requireFacilityAdmin(facilityId, req.user?.userId)) {
+      return res.status(403).json({ success: false, error: 'Admin access required' });
+    }
+    const result = await deleteVariant(facilityId, variantId);
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    console.error('[ProShop] Delete variant error:', error);
+    res.status(error instanceof ProShopInventoryError ? error.status : 500).json({ success: false, error: error.message });
+  }
+});
+
+// ── Inventory ──────────────────────────────────────────────
+
+router.get('/admin/inventory/:facilityId', async (req, res) => {
+  try {
+    const { facilityId } = req.params;
+    if (!await checkFlag(facilityId, res)) return;
+    if (!await requireFacilityAdmin(facilityId, req.user?.userId)) {
+      return res.status(403).json({ success: false, error: 'Admin access required' });
+    }
+    const productId = typeof req.query.productId === 'string' && req.query.productId ? req.query.productId : undefined;
+    const limit = req.query.limit ? parseInt(String(req.query.limit), 10) || undefined : undefined;
+    const ledger = await getInventoryLedger(facilityId, { productId, limit });
+    res.json({ success: true, data: ledger });
+  } catch (error: any) {
+    console.error('[ProShop] Inventory ledger error:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+router.get('/admin/low-stock/:facilityId', async (req, res) => {
+  try {
+    const { facilityId } = req.params;
+    if (!await checkFlag(facilityId, res)) return;
+    if (!await requireFacilityAdmin(facilityId, req.user?.userId)) {
+      return res.status(403).json({ success: false, error: 'Admin access required' });
+    }
+    const items = await getLowStockItems(facilityId);
+    res.json({ success: true, data: items });
+  } catch (error: any) {
+    console.error('[ProShop] Low stock error:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+router.post('/admin/restock/:facilityId', async (req, res) => {
+  try {
+    const { facilityId } = req.params;
+    if (!await checkFlag(facilityId, res)) return;
+    if (!await requireFacilityAdmin(facilityId, req.user?.userId)) {
+      return res.status(403).json({ success: false, error: 'Admin access required' });
+    }
+    const { product_id, variant_id, quantity, note } = req.body;
+    if (!product_id) return res.status(400).json({ success: false, error: 'product_id is required' });
+    const stock = await restockItem(
+      facilityId,
+      { productId: product_id, variantId: variant_id || null },
+      Number(quantity),
+      req.user!.userId,
+      note
+    );
+    res.json({ success: true, data: { stock_quantity: stock } });
+  } catch (error: any) {
+    console.error('[ProShop] Restock error:', error);
+    res.status(error instanceof ProShopInventoryError ? error.status : 400).json({ success: false, error: error.message });
+  }
+});
+
+router.post('/admin/adjust/:facilityId', async (req, res) => {
+  try {
+    const { facilityId } = req.params;
+    if (!await checkFlag(facilityId, res)) return;
+    if (!await requireFacilityAdmin(facilityId, req.user?.userId)) {
+      return res.status(403).json({ success: false, error: 'Admin access required' });
+    }
+    const { product_id, variant_id, count, note } = req.body;
+    if (!product_id) return res.status(400).json({ success: false, error: 'product_id is required' });
+    const stock = await adjustStock(
+      facilityId,
+      { productId: product_id, variantId: variant_id || null },
+      count,
+      req.user!.userId,
+      note
+    );
+    res.json({ success: true, data: { stock_quantity: stock } });
+  } catch (error: any) {
+    console.error('[ProShop] Stock adjustment error:', error);
+    res.status(error instanceof ProShopInventoryError ? error.status : 400).json({ success: false, error: error.message });
+  }
+});
+
 // ── Settings ───────────────────────────────────────────────
 
 router.get('/admin/settings/:facilityId', async (req, res) => {
@@ -201,8 +383,11 @@ router.patch('/admin/settings/:facilityId', async (req, res) => {
     if (!await requireFacilityAdmin(facilityId, req.user?.userId)) {
       return res.status(403).json({ success: false, error: 'Admin access required' });
     }
-    const { tab_billing_day, require_card } = req.body;
-    const settings = await updateProShopSettings(facilityId, { tab_billing_day, require_card });
+    const { tab_billing_day, require_card, stringing_labor_cents } = req.body;
+    if (stringing_labor_cents != null && (!Number.isInteger(stringing_labor_cents) || stringing_labor_cents < 0)) {
+      return res.status(400).json({ success: false, error: 'stringing_labor_cents must be a whole number of cents' });
+    }
+    const settings = await updateProShopSettings(facilityId, { tab_billing_day, require_card, stringing_labor_cents });
     res.json({ success: true, data: settings });
   } catch (error: any) {
     res.status(400).json({ success: false, error: error.message });
@@ -374,6 +559,104 @@ router.post('/admin/bill-all/:facilityId', async (req, res) => {
   }
 });
 
+// ── Stringing ──────────────────────────────────────────────
+
+router.get('/stringing/options/:facilityId', async (req, res) => {
+  try {
+    const { facilityId } = req.params;
+    if (!await checkFlag(facilityId, res)) return;
+    const options = await getStringOptions(facilityId);
+    res.json({ success: true, data: options });
+  } catch (error: any) {
+    console.error('[ProShop] Stringing options error:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+router.get('/stringing/my-jobs/:facilityId', async (req, res) => {
+  try {
+    const { facilityId } = req.params;
+    if (!await checkFlag(facilityId, res)) return;
+    const jobs = await listStringingJobs(facilityId, { userId: req.user!.userId });
+    res.json({ success: true, data: jobs });
+  } catch (error: any) {
+    console.error('[ProShop] My stringing jobs error:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+router.post('/stringing/:facilityId', async (req, res) => {
+  try {
+    const { facilityId } = req.params;
+    if (!await checkFlag(facilityId, res)) return;
+    const job = await createStringingJob(facilityId, req.user!.userId, req.body, req.user!.userId);
+    res.status(201).json({ success: true, data: job });
+  } catch (error: any) {
+    console.error('[ProShop] Create stringing job error:', error);
+    res.status(error instanceof StringingError ? error.status : 400).json({ success: false, error: error.message });
+  }
+});
+
+router.post('/stringing/:facilityId/:jobId/cancel', async (req, res) => {
+  try {
+    const { facilityId, jobId } = req.params;
+    if (!await checkFlag(facilityId, res)) return;
+    const job = await cancelOwnStringingJob(facilityId, req.user!.userId, jobId);
+    res.json({ success: true, data: job });
+  } catch (error: any) {
+    console.error('[ProShop] Cancel stringing job error:', error);
+    res.status(error instanceof StringingError ? error.status : 400).json({ success: false, error: error.message });
+  }
+});
+
+router.get('/admin/stringing/:facilityId', async (req, res) => {
+  try {
+    const { facilityId } = req.params;
+    if (!await checkFlag(facilityId, res)) return;
+    if (!await requireFacilityAdmin(facilityId, req.user?.userId)) {
+      return res.status(403).json({ success: false, error: 'Admin access required' });
+    }
+    const status = typeof req.query.status === 'string' && req.query.status ? req.query.status : undefined;
+    const jobs = await listStringingJobs(facilityId, { status: status as any });
+    res.json({ success: true, data: jobs });
+  } catch (error: any) {
+    console.error('[ProShop] Admin stringing jobs error:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+router.post('/admin/stringing/:facilityId', async (req, res) => {
+  try {
+    const { facilityId } = req.params;
+    if (!await checkFlag(facilityId, res)) return;
+    if (!await requireFacilityAdmin(facilityId, req.user?.userId)) {
+      return res.status(403).json({ success: false, error: 'Admin access required' });
+    }
+    const { userId } = req.body;
+    if (!userId) return res.status(400).json({ success: false, error: 'userId is required' });
+    const job = await createStringingJob(facilityId, userId, req.body, req.user!.userId);
+    res.status(201).json({ success: true, data: job });
+  } catch (error: any) {
+    console.error('[ProShop] Admin create stringing job error:', error);
+    res.status(error instanceof StringingError ? error.status : 400).json({ success: false, error: error.message });
+  }
+});
+
+router.patch('/admin/stringing/:facilityId/:jobId', async (req, res) => {
+  try {
+    const { facilityId, jobId } = req.params;
+    if (!await checkFlag(facilityId, res)) return;
+    if (!await requireFacilityAdmin(facilityId, req.user?.userId)) {
+      return res.status(403).json({ success: false, error: 'Admin access required' });
+    }
+    const job = await updateStringingJobStatus(facilityId, jobId, req.body.status, req.user!.userId);
+    res.json({ success: true, data: job });
+  } catch (error: any) {
+    console.error('[ProShop] Update stringing job error:', error);
+    res.status(error instanceof StringingError ? error.status : 400).json({ success: false, error: error.message });
+  }
+});
+
 // ── Member tab & card status ────────────────────────────────
 
 router.get('/my-tab/:facilityId', async (req, res) => {
@@ -0,0 +1,30 @@
+import express from 'express';
+import { isFeatureEnabled } from '../../src/services/featureFlagService';
+import { FEATURE_FLAGS } from '../../shared/constants/featureFlags';
+import { facilityIdForTournament, getPublicBracket } from '../../src/services/tournamentService';
+
+const router = express.Router();
+
+/**
+ * GET /api/tournaments/public/:tournamentId
+ * No login: the bracket behind a tournament share link. 404 for drafts,
+ * private tournaments, and facilities with tournaments turned off.
+ */
+router.get('/:tournamentId', async (req, res, next) => {
+  try {
+    const { tournamentId } = req.params;
+    const facilityId = await facilityIdForTournament(tournamentId);
+    const bracket =
+      facilityId && (await isFeatureEnabled(facilityId, FEATURE_FLAGS.TOURNAMENTS))
+        ? await getPublicBracket(tournamentId)
+        : null;
+    if (!bracket) {
+      return res.status(404).json({ success: false, error: 'Tournament not found' });
+    }
+    res.json({ success: true, data: bracket });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,112 @@
+/**
+ * Realtime API Route
+ * Server-sent event stream of live updates (see realtimeService and
+ * shared/api/realtime for the client).
+ */
+
+import express from 'express';
+import { query } from '../../src/database/connection';
+import {
+  conversationTopic,
+  facilityTopic,
+  subscribe,
+  userTopic,
+} from '../../src/services/realtimeService';
+
+const router = express.Router();
+
+/** Keeps proxies (and Render's load balancer) from closing an idle stream. */
+const HEARTBEAT_MS = 25_000;
+/** Per connection, to bound the lookups below. */
+const MAX_TOPICS = 20;
+
+function queryList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : value != null ? [value] : [];
+  return [...new Set(values.filter((v): v is string => typeof v === 'string' && v.length > 0))];
+}
+
+/** The facilities the user belongs to (active member or admin), of those asked for. */
+async function accessibleFacilities(userId: string, facilityIds: string[]): Promise<Set<string>> {
+  if (facilityIds.length === 0) return new Set();
+  const result = await query(
+    `SELECT facility_id FROM facility_memberships
+      WHERE user_id = $1 AND status = 'active' AND facility_id::text = ANY($2::text[])
+     UNION
+     SELECT facility_id FROM facility_admins
+      WHERE user_id = $1 AND status = 'active' AND facility_id::text = ANY($2::text[])`,
+    [userId, facilityIds]
+  );
+  return new Set(result.rows.map((row: { facility_id: string }) => String(row.facility_id)));
+}
+
+/** The conversations the user takes part in (direct or group), of those asked for. */
+async function accessibleConversations(userId: string, conversationIds: string[]): Promise<Set<string>> {
+  if (conversationIds.length === 0) return new Set();
+  const result = await query(
+    `SELECT c.id FROM conversations c
+      WHERE c.id::text = ANY($2::text[])
+        AND (
+          (c.is_group = false AND (c.participant1_id = $1 OR c.participant2_id = $1))
+          OR (c.is_group = true AND EXISTS (
+            SELECT 1 FROM conversation_participants cp
+             WHERE cp.conversation_id = c.id AND cp.user_id = $1
+          ))
+        )`,
+    [userId, conversationIds]
+  );
+  return new Set(result.rows.map((row: { id: string }) => String(row.id)));
+}
+
+/**
+ * GET /api/realtime/stream?facilityId=...&conversationId=...
+ * Always includes the caller's own notifications and messages; facility and
+ * conversation ids add bookings and messages there, when the caller has access
+ * (a 403 otherwise, so the client doesn't silently miss updates).
+ */
+router.get('/stream', async (req, res, next) => {
+  try {
+    const userId = req.user!.userId;
+    const facilityIds = queryList(req.query.facilityId);
+    const conversationIds = queryList(req.query.conversationId);
+    if (facilityIds.length + conversationIds.length > MAX_TOPICS) {
+      return res.status(400).json({ success: false, error: `At most ${MAX_TOPICS} facilities and conversations` });
+    }
+
+    const [facilities, conversations] = await Promise.all([
+      accessibleFacilities(userId, facilityIds),
+      accessibleConversations(userId, conversationIds),
+    ]);
+    if (facilities.size < facilityIds.length || conversations.size < conversationIds.length) {
+      return res.status(403).json({ success: false, error: 'Cannot follow that facility or conversation' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write('retry: 5000\n\n');
+
+    const unsubscribe = subscribe(
+      [
+        userTopic(userId),
+        ...facilityIds.map(facilityTopic),
+        ...conversationIds.map(conversationTopic),
+      ],
+      (event) => {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+    );
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
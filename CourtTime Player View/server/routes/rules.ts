@@ -8,9 +8,35 @@ import { getPool } from '../../src/database/connection';
 import { ensureFacilityAdmin } from '../middleware/facilityAdmin';
 import { isFeatureEnabled, setFeatureFlag } from '../../src/services/featureFlagService';
 import { FEATURE_FLAGS } from '../../shared/constants/featureFlags';
+import { RuleSimulationError, simulateRuleChanges } from '../../src/services/ruleSimulationService';
+import { auditTrail } from '../middleware/auditLog';
 
 const router = express.Router();
 
+// A facility's whole rule set is the audited entity, keyed by rule code, so
+// bulk changes and single-rule edits diff the same way.
+auditTrail(router, {
+  source: 'rules',
+  entityType: 'rules',
+  snapshots: {
+    facilityId: {
+      entityType: 'rules',
+      load: async (facilityId) => {
+        const result = await getPool().query(
+          `SELECT d.rule_code, c.is_enabled, c.rule_config, c.applies_to_court_ids, c.applies_to_tier_ids, c.priority
+             FROM facility_rule_configs c
+             JOIN booking_rule_definitions d ON d.id = c.rule_definition_id
+            WHERE c.facility_id = $1`,
+          [facilityId]
+        );
+        return Object.fromEntries(result.rows.map(({ rule_code, ...config }) => [rule_code, config]));
+      },
+      facilityIdOf: (facilityId) => facilityId,
+    },
+  },
+  skip: ['/facility/:facilityId/simulate'],
+});
+
 // Get the pool instance for direct queries and transactions
 const getDbPool = () => getPool();
 const HIDDEN_RULE_CODES = ['ACC-006', 'ACC-008', 'CRT-012'] as const;
@@ -22,7 +48,9 @@ const ALLOWED_RULE_CODES = [
   'CRT-001', // Peak-hours schedule
   'CRT-002', // Peak-hours max duration
   'HH-002',  // Max active reservations (household)
-  'HH-003'   // Peak-hours per week (household)
+  'HH-003',  // Peak-hours per week (household)
+  'ACC-012', // Guest visits per host per year
+  'ACC-013'  // Visits per guest per year
 ] as const;
 
 function isHiddenRuleCode(ruleCode: string): boolean {
@@ -562,6 +590,33 @@ router.post('/facility/:facilityId/bulk', async (req, res, next) => {
   }
 });
 
+/**
+ * POST /api/rules/facility/:facilityId/simulate
+ * Dry-run a proposed rule set (same shape as /bulk, plus optional bookingRules)
+ * against the last N weeks of bookings. Nothing is saved.
+ */
+router.post('/facility/:facilityId/simulate', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+    const { rules, bookingRules, weeks } = req.body || {};
+
+    const report = await simulateRuleChanges({
+      facilityId,
+      rules,
+      bookingRules,
+      weeks: weeks === undefined ? undefined : Number(weeks),
+    });
+
+    res.json({ success: true, report });
+  } catch (error) {
+    if (error instanceof RuleSimulationError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    next(error);
+  }
+});
+
 /**
  * POST /api/rules/facility/:facilityId/enable-all
  * Enable all rules for a facility with default configs
@@ -0,0 +1,248 @@
+/**
+ * Session Package Routes
+ * Prepaid clinic and court-time packages per facility: what the club sells,
+ * the member's packages and purchases through Stripe Checkout, and admin
+ * product setup, grants, adjustments and refunds of unused units. Redeeming
+ * happens inside the signup and court booking checkouts.
+ */
+
+import express from 'express';
+import {
+  SessionPackageError,
+  adjustPackage,
+  createProduct,
+  getPackageLedger,
+  grantPackage,
+  isSessionPackagesEnabled,
+  listFacilityPackages,
+  listMemberPackages,
+  listProducts,
+  updateProduct,
+} from '../../src/services/sessionPackageService';
+import {
+  confirmSessionPackageCheckout,
+  createSessionPackageCheckoutSession,
+  isClubAdmin,
+  refundSessionPackage,
+} from '../../src/services/stripeConnectService';
+import { WalletError } from '../../src/services/walletService';
+import { query } from '../../src/database/connection';
+import { ensureFacilityAdmin } from '../middleware/facilityAdmin';
+import { auditTrail } from '../middleware/auditLog';
+
+const router = express.Router();
+
+// Members' own purchases aren't audited; every admin change is
+auditTrail(router, {
+  source: 'session_packages',
+  entityType: 'member_session_packages',
+  skip: ['/facility/:facilityId/checkout', '/checkout/confirm'],
+});
+
+/** Maps SessionPackageError / WalletError onto their status; anything else goes to the error middleware. */
+function handleError(error: unknown, res: express.Response, next: express.NextFunction) {
+  if (error instanceof SessionPackageError || error instanceof WalletError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  next(error);
+}
+
+/**
+ * GET /api/session-packages/facility/:facilityId
+ * What the club sells and the caller's packages there
+ */
+router.get('/facility/:facilityId', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    const enabled = await isSessionPackagesEnabled(facilityId);
+    if (!enabled) {
+      return res.json({ success: true, data: { enabled, products: [], packages: [] } });
+    }
+    const [products, packages] = await Promise.all([
+      listProducts(facilityId, { activeOnly: true }),
+      listMemberPackages(facilityId, req.user!.userId),
+    ]);
+    res.json({ success: true, data: { enabled, products, packages } });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/session-packages/facility/:facilityId/checkout
+ * Start a Checkout to buy { productId }; returns { url }
+ */
+router.post('/facility/:facilityId/checkout', async (req, res, next) => {
+  try {
+    const { productId, successUrl, cancelUrl } = req.body || {};
+    if (!productId) {
+      return res.status(400).json({ success: false, error: 'productId is required' });
+    }
+    const base = process.env.APP_URL || 'http://localhost:5173';
+    const result = await createSessionPackageCheckoutSession({
+      clubId: req.params.facilityId,
+      memberId: req.user!.userId,
+      productId: String(productId),
+      successUrl: successUrl || `${base}/payments?packagePurchase=success&session_id={CHECKOUT_SESSION_ID}`,
+      cancelUrl: cancelUrl || `${base}/payments`,
+    });
+    res.json({ success: true, data: result });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/session-packages/checkout/confirm
+ * Activate a paid package from the Checkout redirect ({ sessionId })
+ */
+router.post('/checkout/confirm', async (req, res, next) => {
+  try {
+    const sessionId = String(req.body?.sessionId || '');
+    if (!sessionId) {
+      return res.status(400).json({ success: false, error: 'sessionId is required' });
+    }
+    const result = await confirmSessionPackageCheckout({ sessionId, memberId: req.user!.userId });
+    res.json({ success: true, data: result });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * GET /api/session-packages/facility/:facilityId/packages/:packageId/ledger
+ * Every change to one package (its owner, or an admin)
+ */
+router.get('/facility/:facilityId/packages/:packageId/ledger', async (req, res, next) => {
+  try {
+    const { facilityId, packageId } = req.params;
+    const userId = req.user!.userId;
+    const owner = await query(
+      `SELECT 1 FROM member_session_packages WHERE id = $1 AND facility_id = $2 AND user_id = $3`,
+      [packageId, facilityId, userId]
+    );
+    if (owner.rows.length === 0 && !(await isClubAdmin(userId, facilityId))) {
+      return res.status(404).json({ success: false, error: 'Package not found' });
+    }
+    res.json({ success: true, data: await getPackageLedger(facilityId, packageId) });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * GET /api/session-packages/facility/:facilityId/admin
+ * Every product and every member package at the club (admin)
+ */
+router.get('/facility/:facilityId/admin', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    const [products, packages] = await Promise.all([
+      listProducts(facilityId),
+      listFacilityPackages(facilityId),
+    ]);
+    res.json({ success: true, data: { products, packages } });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/session-packages/facility/:facilityId/products
+ * Create a package product (admin)
+ */
+router.post('/facility/:facilityId/products', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    res.status(201).json({ success: true, data: await createProduct(facilityId, req.body || {}) });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * PUT /api/session-packages/facility/:facilityId/products/:productId
+ * Edit a package product; packages already bought keep their terms (admin)
+ */
+router.put('/facility/:facilityId/products/:productId', async (req, res, next) => {
+  try {
+    const { facilityId, productId } = req.params;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    res.json({ success: true, data: await updateProduct(facilityId, productId, req.body || {}) });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/session-packages/facility/:facilityId/grant
+ * Give a member a package free of charge ({ userId, productId, reason? }) (admin)
+ */
+router.post('/facility/:facilityId/grant', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    const { userId, productId, reason } = req.body || {};
+    if (!userId || !productId) {
+      return res.status(400).json({ success: false, error: 'userId and productId are required' });
+    }
+    const pkg = await grantPackage({
+      facilityId,
+      userId: String(userId),
+      productId: String(productId),
+      grantedBy: req.user!.userId,
+      reason: typeof reason === 'string' ? reason : undefined,
+    });
+    res.status(201).json({ success: true, data: pkg });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/session-packages/facility/:facilityId/packages/:packageId/adjust
+ * Add (positive) or remove (negative) { units } with a { reason } (admin)
+ */
+router.post('/facility/:facilityId/packages/:packageId/adjust', async (req, res, next) => {
+  try {
+    const { facilityId, packageId } = req.params;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    const unitsRemaining = await adjustPackage({
+      facilityId,
+      packageId,
+      units: Number(req.body?.units),
+      reason: String(req.body?.reason ?? ''),
+      adminUserId: req.user!.userId,
+    });
+    res.json({ success: true, data: { unitsRemaining } });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/session-packages/facility/:facilityId/packages/:packageId/refund
+ * Refund the unused units to the card, or as credit with { toWallet: true } (admin)
+ */
+router.post('/facility/:facilityId/packages/:packageId/refund', async (req, res, next) => {
+  try {
+    const { facilityId, packageId } = req.params;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    const result = await refundSessionPackage(facilityId, packageId, req.user!.userId, {
+      toWallet: req.body?.toWallet === true,
+    });
+    res.json({ success: true, data: result });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+export default router;
@@ -0,0 +1,66 @@
+/**
+ * SMS provider webhooks — player replies (STOP/START) and delivery receipts
+ * for campaign texts. Public: the provider's signature is the credential.
+ *
+ * Mounted under /api/webhooks next to the Stripe webhooks, ahead of the global
+ * body parsers, so each route parses its own form body.
+ */
+
+import express from 'express';
+import { getSmsProvider, handleInboundSms } from '../../src/services/smsService';
+import { applySmsDeliveryStatus } from '../../src/services/pickle/pickleCampaignService';
+
+const router = express.Router();
+
+const formBody = express.urlencoded({ extended: false });
+
+function verifiedParams(req: express.Request, res: express.Response): Record<string, string> | null {
+  const params = (req.body || {}) as Record<string, string>;
+  const url = `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+  const signature = req.get('x-twilio-signature');
+  if (!getSmsProvider().verifyWebhook(url, params, signature)) {
+    console.warn('[SMS-WEBHOOK] Rejected request with an invalid signature');
+    res.status(403).send('Invalid signature');
+    return null;
+  }
+  return params;
+}
+
+/**
+ * POST /api/webhooks/sms/inbound
+ * A player's reply. STOP opts the number out of campaign texts, START opts it
+ * back in. Replies with empty TwiML (the carrier sends its own confirmation).
+ */
+router.post('/sms/inbound', formBody, async (req, res) => {
+  const params = verifiedParams(req, res);
+  if (!params) return;
+  try {
+    const message = getSmsProvider().parseInbound(params);
+    if (message) {
+      const result = await handleInboundSms(message);
+      // The last two digits are enough to match a support ticket; the full number stays out of the logs
+      if (result !== 'ignored') console.log(`[SMS-WEBHOOK] ***${message.from.slice(-2)} ${result}`);
+    }
+  } catch (error) {
+    console.error('[SMS-WEBHOOK] Error handling inbound message:', error);
+  }
+  res.type('text/xml').send('<Response></Response>');
+});
+
+/**
+ * POST /api/webhooks/sms/status
+ * Delivery receipt for a message we sent
+ */
+router.post('/sms/status', formBody, async (req, res) => {
+  const params = verifiedParams(req, res);
+  if (!params) return;
+  try {
+    const update = getSmsProvider().parseStatus(params);
+    if (update) await applySmsDeliveryStatus(update);
+  } catch (error) {
+    console.error('[SMS-WEBHOOK] Error recording delivery status:', error);
+  }
+  res.sendStatus(204);
+});
+
+export default router;
@@ -12,10 +12,17 @@ import {
   parseStrikeRuleConfig,
 } from '../../shared/utils/strikeLockout';
 import { ensureFacilityAdmin, isFacilityAdminUser, facilityIdForStrike } from '../middleware/facilityAdmin';
+import { auditTrail, rowSnapshot } from '../middleware/auditLog';
 
 const router = express.Router();
 const pool = { query: (text: string, params?: any[]) => getPool().query(text, params) };
 
+auditTrail(router, {
+  source: 'strikes',
+  entityType: 'strikes',
+  snapshots: { strikeId: rowSnapshot('account_strikes', 'strikes') },
+});
+
 /**
  * GET /api/strikes/facility/:facilityId
  * Get all strikes for a facility
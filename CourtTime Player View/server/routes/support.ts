@@ -37,6 +37,16 @@ import {
   replyToTeamConversation,
   BroadcastFilters,
 } from '../../src/services/developerMessagingService';
+import { listAuditEvents } from '../../src/services/auditLogService';
+import {
+  JobQueueError,
+  cancelJob,
+  listJobRuns,
+  listJobs,
+  retryJob,
+  type JobStatus,
+} from '../../src/services/jobQueueService';
+import { auditTrail, rowSnapshot } from '../middleware/auditLog';
 
 const router = express.Router();
 
@@ -73,6 +83,51 @@ const supportAuth = (req: express.Request, res: express.Response, next: express.
 
 router.use(supportAuth);
 
+const membershipSnapshot = async (userId: string, req: express.Request) =>
+  (
+    await query(`SELECT * FROM facility_memberships WHERE facility_id = $1 AND user_id = $2`, [
+      req.params.facilityId,
+      userId,
+    ])
+  ).rows[0] ?? null;
+
+// The console signs in with a shared password, so support rows have no actor
+// user; the IP and user agent in the row's metadata are what identify them.
+auditTrail(router, {
+  source: 'support',
+  actorType: 'support',
+  snapshots: {
+    id: [
+      { ...rowSnapshot('facilities'), pathPrefix: '/facilities/', facilityIdOf: (id) => id },
+      { ...rowSnapshot('promo_codes'), pathPrefix: '/promo-codes/' },
+    ],
+    userId: [
+      { ...rowSnapshot('users'), pathPrefix: '/users/' },
+      { entityType: 'members', load: membershipSnapshot, pathPrefix: '/members/' },
+    ],
+    facilityId: {
+      entityType: 'subscriptions',
+      pathPrefix: '/subscriptions/',
+      load: async (facilityId) =>
+        (await query(`SELECT * FROM facility_subscriptions WHERE facility_id = $1`, [facilityId])).rows[0] ?? null,
+    },
+    courtId: rowSnapshot('courts'),
+    bookingId: rowSnapshot('bookings'),
+    jobId: rowSnapshot('background_jobs', 'jobs'),
+    key: {
+      entityType: 'feature_flags',
+      load: async (key, req) =>
+        (
+          await query(`SELECT * FROM facility_features WHERE facility_id = $1 AND feature_key = $2`, [
+            req.params.id,
+            key,
+          ])
+        ).rows[0] ?? null,
+    },
+  },
+  skip: ['/verify', '/messages/preview'],
+});
+
 // ── Verify Password ────────────────────────────────────────
 
 router.post('/verify', (_req, res) => {
@@ -471,6 +526,86 @@ router.patch('/facilities/:id/features/:key', async (req, res) => {
   }
 });
 
+// ── Audit Log ──────────────────────────────────────────────
+
+router.get('/audit-log', async (req, res) => {
+  try {
+    const q = req.query as Record<string, string | undefined>;
+    const result = await listAuditEvents({
+      facilityId: q.facilityId,
+      actorUserId: q.actorUserId,
+      actorType: q.actorType === 'admin' || q.actorType === 'support' ? q.actorType : undefined,
+      entityType: q.entityType,
+      entityId: q.entityId,
+      source: q.source,
+      from: q.from,
+      to: q.to,
+      search: q.search,
+      limit: q.limit ? Number(q.limit) : undefined,
+      offset: q.offset ? Number(q.offset) : undefined,
+    });
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    console.error('[Support] Audit log error:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ── Background Jobs ────────────────────────────────────────
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'succeeded', 'dead', 'canceled'];
+
+function handleJobError(error: any, res: express.Response, label: string) {
+  if (error instanceof JobQueueError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`[Support] ${label} error:`, error);
+  res.status(500).json({ success: false, error: error.message });
+}
+
+router.get('/jobs', async (req, res) => {
+  try {
+    const q = req.query as Record<string, string | undefined>;
+    const result = await listJobs({
+      status: JOB_STATUSES.includes(q.status as JobStatus) ? (q.status as JobStatus) : undefined,
+      jobType: q.jobType,
+      search: q.search,
+      limit: q.limit ? Number(q.limit) : undefined,
+      offset: q.offset ? Number(q.offset) : undefined,
+    });
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    handleJobError(error, res, 'Job list');
+  }
+});
+
+router.get('/jobs/:jobId/runs', async (req, res) => {
+  try {
+    const runs = await listJobRuns(req.params.jobId);
+    res.json({ success: true, data: runs });
+  } catch (error: any) {
+    handleJobError(error, res, 'Job runs');
+  }
+});
+
+router.post('/jobs/:jobId/retry', async (req, res) => {
+  try {
+    const job = await retryJob(req.params.jobId);
+    res.json({ success: true, data: job });
+  } catch (error: any) {
+    handleJobError(error, res, 'Job retry');
+  }
+});
+
+router.post('/jobs/:jobId/cancel', async (req, res) => {
+  try {
+    const job = await cancelJob(req.params.jobId);
+    res.json({ success: true, data: job });
+  } catch (error: any) {
+    handleJobError(error, res, 'Job cancel');
+  }
+});
+
 // ── Violations ─────────────────────────────────────────────
 
 router.get('/facilities/:id/violations', async (req, res) => {
@@ -0,0 +1,273 @@
+import express from 'express';
+import { isFeatureEnabled } from '../../src/services/featureFlagService';
+import { FEATURE_FLAGS } from '../../shared/constants/featureFlags';
+import { ensureFacilityAdmin, isFacilityAdminUser } from '../middleware/facilityAdmin';
+import {
+  TournamentError,
+  addEntrant,
+  createTournament,
+  deleteTournament,
+  facilityIdForTournament,
+  facilityIdForTournamentMatch,
+  generateDraw,
+  getTournamentDetail,
+  isMatchParticipant,
+  listTournaments,
+  removeEntrant,
+  scheduleReadyMatches,
+  updateMatchScore,
+  updateTournament,
+} from '../../src/services/tournamentService';
+
+const router = express.Router();
+
+async function checkFlag(facilityId: string, res: express.Response): Promise<boolean> {
+  const enabled = await isFeatureEnabled(facilityId, FEATURE_FLAGS.TOURNAMENTS);
+  if (!enabled) {
+    res.status(403).json({ success: false, error: 'Tournaments are not enabled for this facility' });
+    return false;
+  }
+  return true;
+}
+
+/** Maps TournamentError onto its status; anything else goes to the error middleware. */
+function handleError(error: unknown, res: express.Response, next: express.NextFunction) {
+  if (error instanceof TournamentError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  next(error);
+}
+
+/** 404s unless the sub-resource resolves to `facilityId`. */
+async function ensureBelongs(
+  resolved: Promise<string | null>,
+  facilityId: string,
+  label: string,
+  res: express.Response
+): Promise<boolean> {
+  if ((await resolved) !== facilityId) {
+    res.status(404).json({ success: false, error: `${label} not found` });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * GET /api/tournaments/:facilityId
+ * Tournaments at the facility. Admins also see drafts (?includeDrafts=true).
+ */
+router.get('/:facilityId', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+
+    const includeDrafts =
+      req.query.includeDrafts === 'true' && (await isFacilityAdminUser(facilityId, req.user!.userId));
+    const tournaments = await listTournaments(facilityId, { includeDrafts });
+    res.json({ success: true, data: tournaments });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/tournaments/:facilityId
+ * Admin: create a tournament.
+ * Body: { name, description?, format?, startDate, endDate, matchDurationMinutes?, courtIds?, isPublic? }
+ */
+router.post('/:facilityId', async (req, res, next) => {
+  try {
+    const { facilityId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    const { name, description, format, startDate, endDate, matchDurationMinutes, courtIds, isPublic } = req.body || {};
+    const tournament = await createTournament(facilityId, req.user!.userId, {
+      name: String(name ?? ''),
+      description,
+      format,
+      startDate,
+      endDate,
+      matchDurationMinutes: matchDurationMinutes === undefined ? undefined : Number(matchDurationMinutes),
+      courtIds,
+      isPublic,
+    });
+    res.status(201).json({ success: true, data: tournament });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * GET /api/tournaments/:facilityId/:tournamentId
+ * Tournament with entrants and bracket matches. Drafts are admin-only.
+ */
+router.get('/:facilityId/:tournamentId', async (req, res, next) => {
+  try {
+    const { facilityId, tournamentId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureBelongs(facilityIdForTournament(tournamentId), facilityId, 'Tournament', res))) return;
+
+    const detail = await getTournamentDetail(tournamentId);
+    if (detail?.tournament.status === 'draft' && !(await isFacilityAdminUser(facilityId, req.user!.userId))) {
+      return res.status(404).json({ success: false, error: 'Tournament not found' });
+    }
+    res.json({ success: true, data: detail });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * PATCH /api/tournaments/:facilityId/:tournamentId
+ * Admin: edit details, courts or visibility.
+ * Body: { name?, description?, format?, startDate?, endDate?, matchDurationMinutes?, courtIds?, isPublic? }
+ */
+router.patch('/:facilityId/:tournamentId', async (req, res, next) => {
+  try {
+    const { facilityId, tournamentId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+    if (!(await ensureBelongs(facilityIdForTournament(tournamentId), facilityId, 'Tournament', res))) return;
+
+    const { name, description, format, startDate, endDate, matchDurationMinutes, courtIds, isPublic } = req.body || {};
+    const tournament = await updateTournament(tournamentId, {
+      name,
+      description,
+      format,
+      startDate,
+      endDate,
+      matchDurationMinutes: matchDurationMinutes === undefined ? undefined : Number(matchDurationMinutes),
+      courtIds,
+      isPublic,
+    });
+    res.json({ success: true, data: tournament });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * DELETE /api/tournaments/:facilityId/:tournamentId
+ * Admin: delete a tournament that hasn't been drawn.
+ */
+router.delete('/:facilityId/:tournamentId', async (req, res, next) => {
+  try {
+    const { facilityId, tournamentId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+    if (!(await ensureBelongs(facilityIdForTournament(tournamentId), facilityId, 'Tournament', res))) return;
+
+    await deleteTournament(tournamentId);
+    res.json({ success: true });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/tournaments/:facilityId/:tournamentId/entrants
+ * Admin: enter a player or team before the draw.
+ * Body: { name?, seed?, playerIds? }
+ */
+router.post('/:facilityId/:tournamentId/entrants', async (req, res, next) => {
+  try {
+    const { facilityId, tournamentId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+    if (!(await ensureBelongs(facilityIdForTournament(tournamentId), facilityId, 'Tournament', res))) return;
+
+    const { name, seed, playerIds } = req.body || {};
+    if (playerIds !== undefined && !Array.isArray(playerIds)) {
+      return res.status(400).json({ success: false, error: 'playerIds must be an array' });
+    }
+    const entrant = await addEntrant(tournamentId, {
+      name,
+      seed: seed === undefined || seed === null || seed === '' ? null : Number(seed),
+      playerIds,
+    });
+    res.status(201).json({ success: true, data: entrant });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * DELETE /api/tournaments/:facilityId/:tournamentId/entrants/:entrantId
+ * Admin: withdraw an entry before the draw.
+ */
+router.delete('/:facilityId/:tournamentId/entrants/:entrantId', async (req, res, next) => {
+  try {
+    const { facilityId, tournamentId, entrantId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+    if (!(await ensureBelongs(facilityIdForTournament(tournamentId), facilityId, 'Tournament', res))) return;
+
+    await removeEntrant(tournamentId, entrantId);
+    res.json({ success: true });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/tournaments/:facilityId/:tournamentId/draw
+ * Admin: close entries and generate the bracket.
+ */
+router.post('/:facilityId/:tournamentId/draw', async (req, res, next) => {
+  try {
+    const { facilityId, tournamentId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+    if (!(await ensureBelongs(facilityIdForTournament(tournamentId), facilityId, 'Tournament', res))) return;
+
+    const detail = await generateDraw(tournamentId);
+    res.json({ success: true, data: detail });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/tournaments/:facilityId/:tournamentId/schedule
+ * Admin: reserve courts for every match whose players are known.
+ */
+router.post('/:facilityId/:tournamentId/schedule', async (req, res, next) => {
+  try {
+    const { facilityId, tournamentId } = req.params;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+    if (!(await ensureBelongs(facilityIdForTournament(tournamentId), facilityId, 'Tournament', res))) return;
+
+    const result = await scheduleReadyMatches(tournamentId, req.user!.userId);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/tournaments/:facilityId/matches/:matchId/score
+ * A player in the match (or an admin): post a live score, or the final
+ * result when `winnerId` is given.
+ * Body: { score?, winnerId? }
+ */
+router.post('/:facilityId/matches/:matchId/score', async (req, res, next) => {
+  try {
+    const { facilityId, matchId } = req.params;
+    const userId = req.user!.userId;
+    if (!(await checkFlag(facilityId, res))) return;
+    if (!(await ensureBelongs(facilityIdForTournamentMatch(matchId), facilityId, 'Match', res))) return;
+    if (!(await isMatchParticipant(matchId, userId)) && !(await isFacilityAdminUser(facilityId, userId))) {
+      return res.status(403).json({ success: false, error: 'Only players in this match or admins can enter the score' });
+    }
+
+    const { score, winnerId } = req.body || {};
+    const match = await updateMatchScore(matchId, { score, winnerId });
+    res.json({ success: true, data: match });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+export default router;
@@ -0,0 +1,127 @@
+/**
+ * Wallet Routes
+ * Member account credit per facility: the member's balance and ledger,
+ * top-ups through Stripe Checkout, and admin grants and debits. Spending
+ * happens inside the booking, signup and pro shop checkouts.
+ */
+
+import express from 'express';
+import {
+  WalletError,
+  adjustWalletByAdmin,
+  getWalletSummary,
+} from '../../src/services/walletService';
+import {
+  confirmWalletTopUpCheckout,
+  createWalletTopUpCheckoutSession,
+} from '../../src/services/stripeConnectService';
+import { ensureFacilityAdmin } from '../middleware/facilityAdmin';
+import { auditTrail } from '../middleware/auditLog';
+
+const router = express.Router();
+
+// Only admin grants and debits are audited; top-ups are the member's own
+auditTrail(router, {
+  source: 'wallet',
+  entityType: 'member_wallets',
+  skip: ['/facility/:facilityId/top-up', '/top-up/confirm'],
+});
+
+/** Maps WalletError onto its status; anything else goes to the error middleware. */
+function handleError(error: unknown, res: express.Response, next: express.NextFunction) {
+  if (error instanceof WalletError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  next(error);
+}
+
+/**
+ * GET /api/wallet/facility/:facilityId/me
+ * The caller's balance and recent transactions at a facility
+ */
+router.get('/facility/:facilityId/me', async (req, res, next) => {
+  try {
+    const summary = await getWalletSummary(req.params.facilityId, req.user!.userId);
+    res.json({ success: true, data: summary });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/wallet/facility/:facilityId/top-up
+ * Start a Checkout to add { amountCents } of credit; returns { url }
+ */
+router.post('/facility/:facilityId/top-up', async (req, res, next) => {
+  try {
+    const { amountCents, successUrl, cancelUrl } = req.body || {};
+    const base = process.env.APP_URL || 'http://localhost:5173';
+    const result = await createWalletTopUpCheckoutSession({
+      clubId: req.params.facilityId,
+      memberId: req.user!.userId,
+      amountCents: Number(amountCents),
+      successUrl: successUrl || `${base}/payments?walletTopUp=success&session_id={CHECKOUT_SESSION_ID}`,
+      cancelUrl: cancelUrl || `${base}/payments`,
+    });
+    res.json({ success: true, data: result });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/wallet/top-up/confirm
+ * Credit a paid top-up from the Checkout redirect ({ sessionId })
+ */
+router.post('/top-up/confirm', async (req, res, next) => {
+  try {
+    const sessionId = String(req.body?.sessionId || '');
+    if (!sessionId) {
+      return res.status(400).json({ success: false, error: 'sessionId is required' });
+    }
+    const result = await confirmWalletTopUpCheckout({ sessionId, memberId: req.user!.userId });
+    res.json({ success: true, data: result });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * GET /api/wallet/facility/:facilityId/members/:userId
+ * A member's balance and transactions (admin)
+ */
+router.get('/facility/:facilityId/members/:userId', async (req, res, next) => {
+  try {
+    const { facilityId, userId } = req.params;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    const summary = await getWalletSummary(facilityId, userId);
+    res.json({ success: true, data: summary });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/wallet/facility/:facilityId/members/:userId/adjust
+ * Grant (positive) or take back (negative) { amountCents } with a { reason } (admin)
+ */
+router.post('/facility/:facilityId/members/:userId/adjust', async (req, res, next) => {
+  try {
+    const { facilityId, userId } = req.params;
+    if (!(await ensureFacilityAdmin(facilityId, req.user?.userId, res))) return;
+
+    const balanceCents = await adjustWalletByAdmin({
+      facilityId,
+      userId,
+      adminUserId: req.user!.userId,
+      amountCents: Number(req.body?.amountCents),
+      description: String(req.body?.reason ?? ''),
+    });
+    res.json({ success: true, data: { balanceCents } });
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+export default router;
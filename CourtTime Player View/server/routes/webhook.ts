@@ -87,7 +87,7 @@ async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
   const sessionId = session.id;
   const metadataType = session.metadata?.type;
 
-  if (metadataType === 'pro_shop') {
+  if (metadataType === 'pro_shop' || metadataType === 'pro_shop_guest') {
     const { finalizeOrder } = await import('../../src/services/proShopService');
     await finalizeOrder(sessionId);
     console.log(`[WEBHOOK] pro_shop order finalized for session ${sessionId}`);
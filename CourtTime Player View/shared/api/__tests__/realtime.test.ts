@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createSseParser, isBookingEventFor, realtimeStreamPath, type RealtimeEvent } from '../realtime';
+
+const booking: RealtimeEvent = {
+  type: 'booking.created',
+  facilityId: 'fac-1',
+  bookingId: 'b-1',
+  courtId: 'court-1',
+  bookingDate: '2026-10-19',
+  startTime: '18:00:00',
+  endTime: '19:00:00',
+};
+
+describe('createSseParser', () => {
+  it('emits events split across chunks and skips heartbeats and other fields', () => {
+    const events: RealtimeEvent[] = [];
+    const parse = createSseParser((event) => events.push(event));
+    const frame = `event: booking.created\ndata: ${JSON.stringify(booking)}\n\n`;
+
+    parse('retry: 5000\n\n: ping\n\n');
+    parse(frame.slice(0, 30));
+    expect(events).toEqual([]);
+    parse(frame.slice(30) + frame.replace(/\n/g, '\r\n'));
+
+    expect(events).toEqual([booking, booking]);
+  });
+
+  it('ignores data that is not JSON', () => {
+    const events: RealtimeEvent[] = [];
+    const parse = createSseParser((event) => events.push(event));
+    parse('data: not json\n\n');
+    expect(events).toEqual([]);
+  });
+});
+
+describe('realtimeStreamPath', () => {
+  it('repeats facility and conversation ids as query params', () => {
+    expect(realtimeStreamPath()).toBe('/api/realtime/stream');
+    expect(realtimeStreamPath({ facilityIds: ['fac-1', 'fac-2'], conversationIds: ['c-1'] })).toBe(
+      '/api/realtime/stream?facilityId=fac-1&facilityId=fac-2&conversationId=c-1'
+    );
+  });
+});
+
+describe('isBookingEventFor', () => {
+  it('matches bookings on the shown facility and day only', () => {
+    expect(isBookingEventFor(booking, 'fac-1', '2026-10-19')).toBe(true);
+    expect(isBookingEventFor({ ...booking, type: 'booking.cancelled' }, 'fac-1', '2026-10-19')).toBe(true);
+    expect(isBookingEventFor(booking, 'fac-1', '2026-10-20')).toBe(false);
+    expect(isBookingEventFor(booking, 'fac-2', '2026-10-19')).toBe(false);
+  });
+});
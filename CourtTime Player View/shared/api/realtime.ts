@@ -0,0 +1,241 @@
+/**
+ * Live updates from GET /api/realtime/stream (server-sent events), shared by
+ * the web app and the mobile app. Every stream carries the signed-in user's
+ * own events; facilities and conversations are opted into per connection.
+ *
+ * The connection runs over XMLHttpRequest rather than EventSource so the JWT
+ * goes in the Authorization header, and so the same code works in React
+ * Native, which has no EventSource.
+ */
+
+import type { MessageAttachmentSummary } from '../utils/messageContent';
+import type { SyncTransport } from './sync';
+
+export interface RealtimeBookingEvent {
+  type: 'booking.created' | 'booking.cancelled';
+  facilityId: string;
+  bookingId: string;
+  courtId: string;
+  /** YYYY-MM-DD */
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface RealtimeMessageEvent {
+  type: 'message.created';
+  conversationId: string;
+  message: {
+    id: string;
+    conversationId: string;
+    senderId: string;
+    messageText: string;
+    isRead: boolean;
+    createdAt: string;
+    attachments?: MessageAttachmentSummary[];
+  };
+}
+
+/** A message was edited or its reactions changed; refetch it. */
+export interface RealtimeMessageUpdatedEvent {
+  type: 'message.updated';
+  conversationId: string;
+  messageId: string;
+}
+
+/** A participant read the conversation up to now (read receipts). */
+export interface RealtimeConversationReadEvent {
+  type: 'conversation.read';
+  conversationId: string;
+  userId: string;
+  readAt: string;
+}
+
+export interface RealtimeNotificationEvent {
+  type: 'notification.created';
+  notificationId: string;
+  notificationType: string;
+  title: string;
+  message: string;
+  createdAt: string;
+}
+
+export type RealtimeEvent =
+  | RealtimeBookingEvent
+  | RealtimeMessageEvent
+  | RealtimeMessageUpdatedEvent
+  | RealtimeConversationReadEvent
+  | RealtimeNotificationEvent;
+
+export interface RealtimeSubscription {
+  /** Booking created / cancelled at these facilities. */
+  facilityIds?: string[];
+  /** New messages in these conversations (the caller must be a participant). */
+  conversationIds?: string[];
+}
+
+export const REALTIME_STREAM_PATH = '/api/realtime/stream';
+
+/** Wait before reconnecting after the stream drops. */
+const RECONNECT_DELAY_MS = 5_000;
+/** responseText keeps the whole stream; start a fresh request past this size. */
+const MAX_BUFFERED_CHARS = 1_000_000;
+
+export function realtimeStreamPath(subscription: RealtimeSubscription = {}): string {
+  const params = new URLSearchParams();
+  for (const id of subscription.facilityIds ?? []) if (id) params.append('facilityId', id);
+  for (const id of subscription.conversationIds ?? []) if (id) params.append('conversationId', id);
+  const query = params.toString();
+  return query ? `${REALTIME_STREAM_PATH}?${query}` : REALTIME_STREAM_PATH;
+}
+
+/**
+ * Incremental SSE parser: feed it text as it arrives (chunks may split lines
+ * or events anywhere) and it calls onEvent for each complete `data:` event
+ * whose JSON parses. Comments (heartbeats) and other fields are ignored.
+ */
+export function createSseParser(onEvent: (event: RealtimeEvent) => void): (chunk: string) => void {
+  let buffer = '';
+  let dataLines: string[] = [];
+
+  return (chunk: string) => {
+    buffer += chunk;
+    let newline = buffer.search(/\r?\n/);
+    while (newline >= 0) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(buffer[newline] === '\r' ? newline + 2 : newline + 1);
+
+      if (line === '') {
+        if (dataLines.length > 0) {
+          try {
+            onEvent(JSON.parse(dataLines.join('\n')) as RealtimeEvent);
+          } catch {
+            // Not one of ours; skip it
+          }
+        }
+        dataLines = [];
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(line.startsWith('data: ') ? 6 : 5));
+      }
+      newline = buffer.search(/\r?\n/);
+    }
+  };
+}
+
+export interface RealtimeConnectionOptions {
+  baseUrl: string;
+  getToken: () => string | null | Promise<string | null>;
+  subscription?: RealtimeSubscription;
+  onEvent: (event: RealtimeEvent) => void;
+  /** Called on every (re)connect; refetch here to catch up on anything missed while down. */
+  onOpen?: () => void;
+}
+
+/**
+ * Opens the stream and keeps it open (reconnecting after drops) until the
+ * returned function is called. Without a token it stays closed and retries;
+ * a refused subscription (400/403) is not retried.
+ */
+export function connectRealtime(options: RealtimeConnectionOptions): () => void {
+  let closed = false;
+  let xhr: XMLHttpRequest | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const scheduleReconnect = () => {
+    if (closed || retryTimer) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      void open();
+    }, RECONNECT_DELAY_MS);
+  };
+
+  const open = async () => {
+    const token = await options.getToken();
+    if (closed) return;
+    if (!token || typeof XMLHttpRequest === 'undefined') {
+      scheduleReconnect();
+      return;
+    }
+
+    const request = new XMLHttpRequest();
+    const parse = createSseParser(options.onEvent);
+    let read = 0;
+    let opened = false;
+    xhr = request;
+
+    request.open('GET', `${options.baseUrl}${realtimeStreamPath(options.subscription)}`);
+    request.setRequestHeader('Authorization', `Bearer ${token}`);
+    request.setRequestHeader('Accept', 'text/event-stream');
+    request.onreadystatechange = () => {
+      if (request.readyState < 3) return;
+      if (request.status !== 200) return;
+      if (!opened) {
+        opened = true;
+        options.onOpen?.();
+      }
+      const text = request.responseText;
+      if (text.length > read) {
+        parse(text.slice(read));
+        read = text.length;
+      }
+      if (read > MAX_BUFFERED_CHARS && request.readyState === 3) {
+        // Detach first so loadend doesn't also schedule a delayed reconnect
+        xhr = null;
+        request.abort();
+        void open();
+      }
+    };
+    request.onloadend = () => {
+      if (xhr !== request) return;
+      xhr = null;
+      // Not allowed to follow that facility/conversation; retrying won't change it
+      if (request.status === 400 || request.status === 403) return;
+      scheduleReconnect();
+    };
+    request.send();
+  };
+
+  void open();
+
+  return () => {
+    closed = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    const request = xhr;
+    xhr = null;
+    request?.abort();
+  };
+}
+
+/**
+ * A SyncTransport that ticks when a matching event arrives (and after each
+ * reconnect, to catch up), for screens already built around refetch-on-tick.
+ */
+export function createRealtimeTransport(
+  options: Omit<RealtimeConnectionOptions, 'onEvent' | 'onOpen'>,
+  matches: (event: RealtimeEvent) => boolean
+): SyncTransport {
+  return {
+    subscribe(onTick) {
+      let connectedBefore = false;
+      return connectRealtime({
+        ...options,
+        onOpen: () => {
+          if (connectedBefore) onTick();
+          connectedBefore = true;
+        },
+        onEvent: (event) => {
+          if (matches(event)) onTick();
+        },
+      });
+    },
+  };
+}
+
+/** Matches booking events for one facility and day, for calendar grids. */
+export function isBookingEventFor(event: RealtimeEvent, facilityId: string, bookingDate: string): boolean {
+  return (
+    (event.type === 'booking.created' || event.type === 'booking.cancelled') &&
+    event.facilityId === facilityId &&
+    event.bookingDate === bookingDate
+  );
+}
@@ -16,6 +16,13 @@ export const FEATURE_FLAGS = {
   DEER_LAKE_RESERVATION_TYPES: 'deer_lake_reservation_types',
   UNIVERSITY_CLUB_GUEST_FEE: 'university_club_guest_fee',
   PLAYER_MULTIPLE_COURTS: 'player_multiple_courts',
+  COURT_WAITLIST: 'court_waitlist',
+  LEAGUES: 'leagues',
+  TOURNAMENTS: 'tournaments',
+  CLUB_RATINGS: 'club_ratings',
+  MEMBER_WALLET: 'member_wallet',
+  SESSION_PACKAGES: 'session_packages',
+  DYNAMIC_COURT_PRICING: 'dynamic_court_pricing',
 } as const;
 
 export type FeatureFlagKey = typeof FEATURE_FLAGS[keyof typeof FEATURE_FLAGS];
@@ -36,4 +43,11 @@ export const FEATURE_FLAG_LABELS: Record<string, string> = {
   deer_lake_reservation_types: 'Deer Lake Reservation Types (swap in Deer Lake\'s custom reservation type list)',
   university_club_guest_fee: 'University Club Guest Fee (offer "pay at front desk" alongside Stripe when a guest fee applies)',
   player_multiple_courts: 'Player Multiple Courts (let members add additional courts to a booking, not just admins)',
+  court_waitlist: 'Court Waitlist (members queue for booked slots and are offered cancellations)',
+  leagues: 'Leagues (round-robin and ladder seasons with reserved courts and standings)',
+  tournaments: 'Tournaments (seeded brackets with scheduled courts, live scores and a public bracket page)',
+  club_ratings: 'Club Ratings (members record match results, confirmed by opponents, for a club rating)',
+  member_wallet: 'Member Wallet (account credit from top-ups, admin grants and refunds, spent before the card at checkout)',
+  session_packages: 'Session Packages (prepaid clinic and court-time punch cards)',
+  dynamic_court_pricing: 'Dynamic Court Pricing (peak/off-peak, weekend, indoor/outdoor rates and tier discounts)',
 };
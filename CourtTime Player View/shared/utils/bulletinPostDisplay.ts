@@ -267,16 +267,21 @@ export interface BulletinPostShareInput {
   location?: string | null;
 }
 
+/** Web app origin for share links: explicit, else the current page, else production. */
+export function resolveShareOrigin(appOrigin?: string): string {
+  const origin = (appOrigin || (typeof window !== 'undefined' ? window.location.origin : '')).replace(
+    /\/$/,
+    ''
+  );
+  return origin || 'https://app.courttimeapp.com';
+}
+
 /** Deep link URL for a bulletin post (web app). */
 export function buildBulletinPostShareUrl(
   post: Pick<BulletinPostShareInput, 'id' | 'facilityId' | 'facilityName'>,
   appOrigin?: string
 ): string {
-  const origin = (appOrigin || (typeof window !== 'undefined' ? window.location.origin : '')).replace(
-    /\/$/,
-    ''
-  );
-  const base = origin || 'https://app.courttimeapp.com';
+  const base = resolveShareOrigin(appOrigin);
   const params = new URLSearchParams({
     clubId: post.facilityId,
     postId: post.id,
@@ -0,0 +1,83 @@
+/**
+ * Structured availability and skill ranges for hitting partner posts, shared
+ * by the matchmaking service and the post form.
+ *
+ * A window is one weekday plus a local start/end time ("HH:MM", end after
+ * start, no overnight windows). Days use Date.getDay(): 0 = Sunday.
+ */
+
+export const SKILL_LEVELS = ['Beginner', 'Intermediate', 'Advanced', 'Professional'] as const;
+
+export type SkillLevel = (typeof SKILL_LEVELS)[number];
+
+export interface AvailabilityWindow {
+  day: number;
+  start: string;
+  end: string;
+}
+
+export const WEEKDAY_SHORT_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const MAX_AVAILABILITY_WINDOWS = 21;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/** 0-based position on the SKILL_LEVELS scale, or null for free text / unset. */
+export function skillLevelIndex(level: string | null | undefined): number | null {
+  const index = SKILL_LEVELS.indexOf(level as SkillLevel);
+  return index === -1 ? null : index;
+}
+
+/**
+ * Validates windows from a request body. Returns the cleaned list sorted by
+ * day and start, or an error message for the first bad entry.
+ */
+export function parseAvailabilityWindows(raw: unknown): { windows: AvailabilityWindow[] } | { error: string } {
+  if (raw == null) return { windows: [] };
+  if (!Array.isArray(raw)) return { error: 'availabilityWindows must be a list' };
+  if (raw.length > MAX_AVAILABILITY_WINDOWS) {
+    return { error: `At most ${MAX_AVAILABILITY_WINDOWS} availability windows` };
+  }
+
+  const windows: AvailabilityWindow[] = [];
+  for (const entry of raw as any[]) {
+    const day = Number(entry?.day);
+    const start = String(entry?.start ?? '').slice(0, 5);
+    const end = String(entry?.end ?? '').slice(0, 5);
+    if (!Number.isInteger(day) || day < 0 || day > 6) return { error: 'Each window needs a weekday' };
+    if (!TIME_PATTERN.test(start) || !TIME_PATTERN.test(end)) return { error: 'Times must be HH:MM' };
+    if (timeToMinutes(end) <= timeToMinutes(start)) return { error: 'Each window must end after it starts' };
+    windows.push({ day, start, end });
+  }
+  return {
+    windows: windows.sort((a, b) => a.day - b.day || timeToMinutes(a.start) - timeToMinutes(b.start)),
+  };
+}
+
+/** The times both lists have free, per weekday. */
+export function overlappingWindows(a: AvailabilityWindow[], b: AvailabilityWindow[]): AvailabilityWindow[] {
+  const overlaps: AvailabilityWindow[] = [];
+  for (const left of a) {
+    for (const right of b) {
+      if (left.day !== right.day) continue;
+      const start = Math.max(timeToMinutes(left.start), timeToMinutes(right.start));
+      const end = Math.min(timeToMinutes(left.end), timeToMinutes(right.end));
+      if (end > start) overlaps.push({ day: left.day, start: minutesToTime(start), end: minutesToTime(end) });
+    }
+  }
+  return overlaps.sort((x, y) => x.day - y.day || timeToMinutes(x.start) - timeToMinutes(y.start));
+}
+
+function minutesToTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/** "Tue 18:00–20:00" */
+export function formatAvailabilityWindow(window: AvailabilityWindow): string {
+  return `${WEEKDAY_SHORT_LABELS[window.day]} ${window.start}–${window.end}`;
+}
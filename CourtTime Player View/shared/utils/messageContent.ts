@@ -0,0 +1,99 @@
+/**
+ * Message attachments, reactions, edits and read receipts: the limits and
+ * shapes shared by the messages API and the web/mobile threads, so clients
+ * can reject a file before uploading it.
+ */
+
+/** Per file, before base64 encoding. */
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+/** All files on one message, kept under the API's 10 MB JSON body once encoded. */
+export const MAX_MESSAGE_ATTACHMENT_BYTES = 7 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+
+export const IMAGE_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/heic'] as const;
+export const FILE_ATTACHMENT_TYPES = ['application/pdf', 'text/plain', 'text/csv'] as const;
+export const MESSAGE_ATTACHMENT_TYPES: readonly string[] = [...IMAGE_ATTACHMENT_TYPES, ...FILE_ATTACHMENT_TYPES];
+
+/** Offered in the reaction picker; the API accepts any single emoji. */
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '🎾', '👏', '😮'] as const;
+
+export interface MessageAttachmentSummary {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+}
+
+export interface MessageReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
+export interface MessageReadReceipt {
+  userId: string;
+  readAt: string;
+}
+
+export function isImageAttachment(mimeType: string): boolean {
+  return (IMAGE_ATTACHMENT_TYPES as readonly string[]).includes(mimeType);
+}
+
+/** Decoded size of a base64 data URL's payload. */
+export function dataUrlByteLength(dataUrl: string): number {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.max(0, Math.floor((base64.length * 3) / 4) - padding);
+}
+
+/** Why a file can't be attached, or null when it can. */
+export function attachmentProblem(file: { fileName: string; mimeType: string; sizeBytes: number }): string | null {
+  if (!MESSAGE_ATTACHMENT_TYPES.includes(file.mimeType)) {
+    return `${file.fileName}: only images, PDFs and text files can be attached`;
+  }
+  if (file.sizeBytes > MAX_ATTACHMENT_BYTES) {
+    return `${file.fileName} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`;
+  }
+  return null;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`;
+}
+
+/**
+ * "Seen", "Seen by Sam", "Seen by Sam and 3 others" under a sent message;
+ * null until someone other than the sender has read it.
+ */
+export function formatReadReceipt(
+  readBy: MessageReadReceipt[],
+  senderId: string,
+  nameFor: (userId: string) => string | undefined,
+  isGroup: boolean
+): string | null {
+  const readers = readBy.filter((receipt) => receipt.userId !== senderId);
+  if (readers.length === 0) return null;
+  if (!isGroup) return 'Seen';
+  const first = nameFor(readers[0].userId) ?? 'a member';
+  if (readers.length === 1) return `Seen by ${first}`;
+  const others = readers.length - 1;
+  return `Seen by ${first} and ${others} other${others === 1 ? '' : 's'}`;
+}
+
+/** Stands in for the text of an attachment-only message in previews. */
+export const ATTACHMENT_ONLY_PREVIEW = 'Sent an attachment';
+
+/** Notification / list preview for a message. */
+export function messagePreviewText(
+  messageText: string,
+  attachments: Array<Pick<MessageAttachmentSummary, 'fileName' | 'mimeType'>> = []
+): string {
+  if (messageText.trim()) return messageText;
+  if (attachments.length > 1) return `Sent ${attachments.length} attachments`;
+  if (attachments.length === 1) {
+    return isImageAttachment(attachments[0].mimeType) ? 'Sent a photo' : `Sent ${attachments[0].fileName}`;
+  }
+  return ATTACHMENT_ONLY_PREVIEW;
+}
@@ -0,0 +1,10 @@
+/**
+ * How a session package's units read to people. Clinic packages count
+ * sessions; court-time packages count minutes ("20 hours", "90 min").
+ */
+export function formatPackageUnits(kind: 'clinic' | 'court_time', units: number): string {
+  if (kind === 'clinic') return units === 1 ? '1 session' : `${units} sessions`;
+  if (units % 60 === 0) return units === 60 ? '1 hour' : `${units / 60} hours`;
+  if (units > 60) return `${Math.floor(units / 60)} hr ${units % 60} min`;
+  return `${units} min`;
+}
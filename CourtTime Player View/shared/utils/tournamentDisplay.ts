@@ -0,0 +1,45 @@
+/**
+ * Tournament display helpers shared by the web bracket views.
+ */
+
+import { resolveShareOrigin } from './bulletinPostDisplay';
+
+export type TournamentFormatKey = 'single_elimination' | 'double_elimination' | 'compass';
+
+export const TOURNAMENT_FORMAT_LABELS: Record<TournamentFormatKey, string> = {
+  single_elimination: 'Single elimination',
+  double_elimination: 'Double elimination',
+  compass: 'Compass draw',
+};
+
+/** Order draws are shown in: main bracket first, consolation draws after. */
+export const TOURNAMENT_DRAW_ORDER = [
+  'Main',
+  'Winners',
+  'Losers',
+  'Final',
+  'East',
+  'West',
+  'North',
+  'Northeast',
+  'South',
+  'Southeast',
+  'Northwest',
+  'Southwest',
+];
+
+/** Public bracket link (no login), shared the same way as bulletin posts. */
+export function buildTournamentShareUrl(tournamentId: string, appOrigin?: string): string {
+  return `${resolveShareOrigin(appOrigin)}/brackets/${encodeURIComponent(tournamentId)}`;
+}
+
+/** Round heading within a draw: "Final", "Semifinals", … counted back from the last round. */
+export function tournamentRoundLabel(draw: string, round: number, roundCount: number): string {
+  if (draw === 'Final') return 'Grand final';
+  if (draw === 'Losers') return `Losers round ${round}`;
+  const fromEnd = roundCount - round;
+  if (fromEnd === 0) return 'Final';
+  if (fromEnd === 1) return 'Semifinals';
+  if (fromEnd === 2) return 'Quarterfinals';
+  return `Round ${round}`;
+}
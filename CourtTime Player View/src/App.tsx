@@ -43,10 +43,17 @@ import ProShopAdmin from './components/admin/ProShopAdmin';
 import ProShop from './components/ProShop';
 import LessonsAdmin from './components/admin/LessonsAdmin';
 import Lessons from './components/Lessons';
+import LeaguesAdmin from './components/admin/LeaguesAdmin';
+import Leagues from './components/Leagues';
+import TournamentsAdmin from './components/admin/TournamentsAdmin';
+import Tournaments from './components/Tournaments';
+import { TournamentBracketPage } from './components/TournamentBracketPage';
+import { BookingReminderPage } from './components/BookingReminderPage';
 import BallMachine from './components/BallMachine';
 import BallMachineAdmin from './components/admin/BallMachineAdmin';
 import AnnualFeesAdmin from './components/admin/AnnualFeesAdmin';
 import AdminReports from './components/admin/AdminReports';
+import GuestRegistryAdmin from './components/admin/GuestRegistryAdmin';
 
 // Support Console
 import { SupportConsole } from './components/developer';
@@ -71,6 +78,8 @@ export default function App() {
             <Route path="/register/facility" element={<FacilityRegistration />} />
             <Route path="/forgot-password" element={<ForgotPassword />} />
             <Route path="/reset-password" element={<ResetPassword />} />
+            <Route path="/brackets/:tournamentId" element={<TournamentBracketPage />} />
+            <Route path="/booking-reminder/:token" element={<BookingReminderPage />} />
 
             {/* Legal pages — required public URLs for App Store / Play Store submission */}
             <Route path="/privacy" element={<PrivacyPolicyPage />} />
@@ -110,9 +119,14 @@ export default function App() {
               <Route path="/admin/pro-shop" element={<ProShopAdmin />} />
               <Route path="/admin/annual-fees" element={<AnnualFeesAdmin />} />
               <Route path="/admin/reports" element={<AdminReports />} />
+              <Route path="/admin/guests" element={<GuestRegistryAdmin />} />
               <Route path="/shop" element={<ProShop />} />
               <Route path="/lessons" element={<Lessons />} />
               <Route path="/admin/lessons" element={<LessonsAdmin />} />
+              <Route path="/leagues" element={<Leagues />} />
+              <Route path="/admin/leagues" element={<LeaguesAdmin />} />
+              <Route path="/tournaments" element={<Tournaments />} />
+              <Route path="/admin/tournaments" element={<TournamentsAdmin />} />
               <Route path="/ball-machine" element={<BallMachine />} />
               <Route path="/admin/ball-machine" element={<BallMachineAdmin />} />
               <Route path="/admin/email-blast" element={<Navigate to="/admin/communication" replace />} />
@@ -28,8 +28,8 @@ describe('ballMachineApi envelope', () => {
       success: true,
       data: {
         machineCount: 1,
+        machines: [{ id: 'machine-1', name: 'Machine 1' }],
         instructions: null,
-        hasAccessCode: false,
         products: [],
         activePass: null,
         passes: [],
@@ -51,10 +51,18 @@ describe('ballMachineApi envelope', () => {
     const res = unwrapped(
       asClientResponse({
         success: true,
-        data: { accessCode: '4821', instructions: null, activePass: null },
+        data: {
+          accessCode: '482193',
+          machineName: 'Machine 1',
+          validFrom: '2026-10-20T08:45',
+          validUntil: '2026-10-20T10:15',
+          instructions: null,
+          activePass: null,
+        },
       })
     );
-    expect(res.data.accessCode).toBe('4821');
+    expect(res.data.accessCode).toBe('482193');
+    expect(res.data.machineName).toBe('Machine 1');
   });
 
   it('exposes the pass-holder list as a top-level array', () => {
@@ -14,6 +14,7 @@ import {
   type ApiResponse as SharedApiResponse,
 } from '../../shared/api/core';
 import { isSessionAuthError } from '../../shared/utils/sessionAuth';
+import type { AvailabilityWindow } from '../../shared/utils/hittingPartnerAvailability';
 
 export {
   unwrapApiPayload,
@@ -40,6 +41,12 @@ export interface RecurringSeriesConflict {
   endTime: string;
 }
 
+export interface MessageAttachmentUpload {
+  fileName: string;
+  mimeType: string;
+  dataUrl: string;
+}
+
 export interface TermsAttachment {
   id: string;
   fileName: string;
@@ -481,7 +488,7 @@ export const userPreferencesApi = {
     return apiRequest('/api/user-preferences/notifications');
   },
 
-  updateNotifications: async (updates: Record<string, boolean>) => {
+  updateNotifications: async (updates: Record<string, boolean | number>) => {
     return apiRequest('/api/user-preferences/notifications', {
       method: 'PATCH',
       body: JSON.stringify(updates),
@@ -489,6 +496,34 @@ export const userPreferencesApi = {
   },
 };
 
+export interface BookingReminder {
+  token: string;
+  facilityName: string;
+  courtName: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  bookingStatus: string;
+  response: 'confirmed' | 'released' | null;
+  respondedAt: string | null;
+  canRelease: boolean;
+}
+
+// Booking reminder confirm / release links (no login; the token identifies the booking)
+export const bookingRemindersApi = {
+  get: async (token: string) => {
+    const res = await apiRequest(`/api/booking-reminders/${encodeURIComponent(token)}`);
+    return { ...res, reminder: unwrapApiPayload<BookingReminder>(res.data) };
+  },
+
+  respond: async (token: string, action: 'confirm' | 'release') => {
+    const res = await apiRequest(`/api/booking-reminders/${encodeURIComponent(token)}/${action}`, {
+      method: 'POST',
+    });
+    return { ...res, reminder: unwrapApiPayload<BookingReminder>(res.data) };
+  },
+};
+
 // Player Profile API
 export const playerProfileApi = {
   getProfile: async (userId: string) => {
@@ -524,6 +559,42 @@ export const playerProfileApi = {
 };
 
 // Hitting Partner API
+export interface PartnerSuggestion {
+  postId: string;
+  userId: string;
+  userName: string;
+  skillLevel: string | null;
+  clubRating: number | null;
+  playStyle: string[];
+  availability: string;
+  availabilityWindows: AvailabilityWindow[];
+  description: string;
+  /** 0–100 fit with the caller's own post and profile. */
+  score: number;
+  overlap: AvailabilityWindow[];
+  overlapMinutes: number;
+}
+
+export interface HittingInvitation {
+  id: string;
+  facilityId: string;
+  postId: string | null;
+  fromUserId: string;
+  fromName: string;
+  toUserId: string;
+  toName: string;
+  courtId: string;
+  courtName: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  message: string | null;
+  status: 'pending' | 'booked' | 'declined' | 'cancelled' | 'expired' | 'failed';
+  bookingId: string | null;
+  failureReason: string | null;
+  createdAt: string;
+}
+
 export const hittingPartnerApi = {
   getAll: async () => {
     return apiRequest('/api/hitting-partner');
@@ -542,6 +613,9 @@ export const hittingPartnerApi = {
     facilityId: string;
     skillLevel?: string;
     availability: string;
+    availabilityWindows?: AvailabilityWindow[];
+    skillMin?: string | null;
+    skillMax?: string | null;
     playStyle: string[];
     description: string;
     expiresInDays: number;
@@ -554,6 +628,9 @@ export const hittingPartnerApi = {
 
   update: async (postId: string, userId: string, updates: {
     availability?: string;
+    availabilityWindows?: AvailabilityWindow[];
+    skillMin?: string | null;
+    skillMax?: string | null;
     playStyle?: string[];
     description?: string;
     skillLevel?: string;
@@ -570,6 +647,51 @@ export const hittingPartnerApi = {
       method: 'DELETE',
     });
   },
+
+  /** Other members' posts at the facility, best fit first. */
+  getSuggestions: async (facilityId: string) => {
+    const res = await apiRequest(`/api/hitting-partner/facility/${facilityId}/suggestions`);
+    return {
+      ...res,
+      suggestions: unwrapApiPayload<{ suggestions: PartnerSuggestion[] }>(res.data)?.suggestions ?? [],
+    };
+  },
+
+  getInvitations: async () => {
+    const res = await apiRequest('/api/hitting-partner/invitations');
+    const data = unwrapApiPayload<{ incoming: HittingInvitation[]; outgoing: HittingInvitation[] }>(res.data);
+    return { ...res, incoming: data?.incoming ?? [], outgoing: data?.outgoing ?? [] };
+  },
+
+  /** Propose a hit; the court is only booked once the other player accepts. */
+  proposeHit: async (data: {
+    facilityId: string;
+    toUserId: string;
+    postId?: string;
+    courtId: string;
+    bookingDate: string;
+    startTime: string;
+    endTime: string;
+    message?: string;
+  }) => {
+    const res = await apiRequest('/api/hitting-partner/invitations', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return { ...res, invitation: unwrapApiPayload<HittingInvitation>(res.data) };
+  },
+
+  respondToInvitation: async (invitationId: string, accept: boolean) => {
+    const res = await apiRequest(
+      `/api/hitting-partner/invitations/${invitationId}/${accept ? 'accept' : 'decline'}`,
+      { method: 'POST' }
+    );
+    return { ...res, invitation: unwrapApiPayload<HittingInvitation>(res.data) };
+  },
+
+  cancelInvitation: async (invitationId: string) => {
+    return apiRequest(`/api/hitting-partner/invitations/${invitationId}`, { method: 'DELETE' });
+  },
 };
 
 // Bulletin Board API
@@ -649,7 +771,7 @@ export const bulletinBoardApi = {
 
   signupForDrill: async (
     postId: string,
-    options?: { successUrl?: string; cancelUrl?: string }
+    options?: { successUrl?: string; cancelUrl?: string; dependentId?: string }
   ) => {
     return apiRequest(`/api/bulletin-board/${postId}/signup`, {
       method: 'POST',
@@ -664,8 +786,9 @@ export const bulletinBoardApi = {
     });
   },
 
-  cancelDrillSignup: async (postId: string) => {
-    return apiRequest(`/api/bulletin-board/${postId}/signup`, {
+  cancelDrillSignup: async (postId: string, dependentId?: string) => {
+    const qs = dependentId ? `?dependentId=${encodeURIComponent(dependentId)}` : '';
+    return apiRequest(`/api/bulletin-board/${postId}/signup${qs}`, {
       method: 'DELETE',
     });
   },
@@ -689,210 +812,781 @@ export const bulletinBoardApi = {
 
 // Lessons tab (lessons_tab feature flag). Lessons are bulletin posts; signups,
 // payments, and cancellation go through bulletinBoardApi.
-export const lessonsApi = {
-  getLessons: async (facilityId: string, scope: 'upcoming' | 'past' = 'upcoming') => {
-    return apiRequest(`/api/lessons/${facilityId}?scope=${scope}`);
-  },
-};
-
-// Booking API
-export const bookingApi = {
-  getByFacility: async (facilityId: string, date: string) => {
-    return apiRequest(`/api/bookings/facility/${facilityId}?date=${date}`);
-  },
+export interface LessonProAvailabilityWindow {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+}
 
-  getByFacilityRange: async (facilityId: string, startDate: string, endDate: string) => {
-    return apiRequest(`/api/bookings/facility/${facilityId}/range?startDate=${startDate}&endDate=${endDate}`);
-  },
+export interface LessonPro {
+  id: string;
+  facilityId: string;
+  userId: string;
+  fullName: string;
+  title: string | null;
+  bio: string | null;
+  priceCents: number;
+  lessonDurationMinutes: number;
+  courtIds: string[];
+  isActive: boolean;
+  availability: LessonProAvailabilityWindow[];
+}
 
-  lookupFacilityMembers: async (facilityId: string, q: string) => {
-    return apiRequest(
-      `/api/bookings/facility/${facilityId}/members?q=${encodeURIComponent(q)}`
-    );
-  },
+export interface LessonBooking {
+  id: string;
+  facilityId: string;
+  proId: string;
+  proName: string;
+  memberId: string;
+  memberName: string;
+  bookingId: string | null;
+  courtName: string | null;
+  lessonDate: string;
+  startTime: string;
+  endTime: string;
+  priceCents: number;
+  status: 'pending_payment' | 'confirmed' | 'cancelled' | 'expired';
+  holdExpiresAt: string | null;
+  notes: string | null;
+  createdAt: string;
+}
 
-  getByCourt: async (courtId: string, date: string) => {
-    return apiRequest(`/api/bookings/court/${courtId}?date=${date}`);
-  },
+export type LessonProInput = Partial<
+  Pick<LessonPro, 'title' | 'bio' | 'priceCents' | 'lessonDurationMinutes' | 'courtIds' | 'isActive'>
+>;
 
-  getByUser: async (userId: string, upcoming: boolean = true) => {
-    return apiRequest(`/api/bookings/user/${userId}?upcoming=${upcoming}`);
+export const lessonsApi = {
+  getLessons: async (facilityId: string, scope: 'upcoming' | 'past' = 'upcoming') => {
+    return apiRequest(`/api/lessons/${facilityId}?scope=${scope}`);
   },
 
-  getById: async (bookingId: string) => {
-    return apiRequest(`/api/bookings/${bookingId}`);
+  getPros: async (facilityId: string, includeInactive = false) => {
+    const res = await apiRequest(
+      `/api/lessons/${facilityId}/pros${includeInactive ? '?includeInactive=true' : ''}`
+    );
+    return { ...res, pros: unwrapApiPayload<LessonPro[]>(res.data) ?? [] };
   },
 
-  create: async (data: {
-    courtId: string;
-    userId: string;
-    facilityId: string;
-    bookingDate: string;
-    startTime: string;
-    endTime: string;
-    durationMinutes: number;
-    bookingType?: string;
-    notes?: string;
-    successUrl?: string;
-    cancelUrl?: string;
-    bringGuest?: boolean;
-    addBallMachine?: boolean;
-    guestCount?: number;
-    guestNames?: string[];
-    provisionalSameRequestBookings?: Array<{
-      bookingDate: string;
-      courtId: string;
-      startTime: string;
-      endTime: string;
-      durationMinutes?: number;
-    }>;
-    /** When editing, exclude the original booking from conflict checks */
-    excludeBookingId?: string;
-    /** Active facility members sharing an equal pre-payment split. */
-    splitParticipantIds?: string[];
-    /** University Club Guest Fee: skip Stripe and defer the whole total to the front desk. */
-    payAtFrontDesk?: boolean;
-  }) => {
-    const res = await apiRequest('/api/bookings', {
+  createPro: async (facilityId: string, data: LessonProInput & { userId: string }) => {
+    const res = await apiRequest(`/api/lessons/${facilityId}/pros`, {
       method: 'POST',
       body: JSON.stringify(data),
     });
-    return normalizeBookingCreateResponse(res);
-  },
-
-  // The split-payment routes reply `{ success, data }` / `{ success, checkoutUrl }`, and
-  // buildApiRequest hands back the whole body as `.data` — so without this the payload
-  // would sit at `res.data.data` and a component reading `res.data.shares` gets undefined
-  // (that is exactly what rendered "Split payment: 0 of 0 shares paid" with no Pay button).
-  // Unwrap once here so callers can read `res.data.<field>` directly.
-  getSplitPayment: async (bookingId: string) => {
-    const res = await apiRequest<any>(`/api/bookings/${bookingId}/split-payment`);
-    return { ...res, data: unwrapApiPayload<any>(res.data) };
+    return { ...res, pro: unwrapApiPayload<LessonPro>(res.data) };
   },
 
-  checkoutSplitPayment: async (bookingId: string, successUrl: string, cancelUrl: string) => {
-    const res = await apiRequest<any>(`/api/bookings/${bookingId}/split-payment/checkout`, {
-      method: 'POST', body: JSON.stringify({ successUrl, cancelUrl }),
+  updatePro: async (facilityId: string, proId: string, data: LessonProInput) => {
+    const res = await apiRequest(`/api/lessons/${facilityId}/pros/${proId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
     });
-    return { ...res, data: unwrapApiPayload<any>(res.data) };
+    return { ...res, pro: unwrapApiPayload<LessonPro>(res.data) };
   },
 
-  declineSplitPayment: async (bookingId: string, reason?: string) =>
-    apiRequest(`/api/bookings/${bookingId}/split-payment/decline`, {
-      method: 'POST', body: JSON.stringify({ reason }),
-    }),
-
-  updateSplitPaymentParticipants: async (bookingId: string, participantIds: string[]) => {
-    const res = await apiRequest<any>(`/api/bookings/${bookingId}/split-payment/participants`, {
-      method: 'PUT', body: JSON.stringify({ participantIds }),
+  setAvailability: async (
+    facilityId: string,
+    proId: string,
+    windows: LessonProAvailabilityWindow[]
+  ) => {
+    return apiRequest(`/api/lessons/${facilityId}/pros/${proId}/availability`, {
+      method: 'PUT',
+      body: JSON.stringify({ windows }),
     });
-    return { ...res, data: unwrapApiPayload<any>(res.data) };
   },
 
-  confirmPayment: async (sessionId: string) => {
-    const res = await apiRequest('/api/bookings/payment/confirm', {
-      method: 'POST',
-      body: JSON.stringify({ sessionId }),
-    });
-    if (!res.success) return res;
-    const payload = unwrapApiPayload<{ bookingId?: string; bookingDate?: string }>(res.data);
+  getSlots: async (facilityId: string, proId: string, date: string) => {
+    const res = await apiRequest(
+      `/api/lessons/${facilityId}/pros/${proId}/slots?date=${encodeURIComponent(date)}`
+    );
     return {
       ...res,
-      bookingId: payload?.bookingId,
-      bookingDate: payload?.bookingDate,
+      slots: unwrapApiPayload<Array<{ startTime: string; endTime: string }>>(res.data) ?? [],
     };
   },
 
-  reconcilePaidBookings: async () => {
-    const res = await apiRequest('/api/bookings/payment/reconcile', { method: 'POST' });
-    if (!res.success) return res;
-    const payload = unwrapApiPayload<{
-      recovered?: Array<{ bookingId: string; bookingDate?: string }>;
-      count?: number;
-    }>(res.data);
-    return {
-      ...res,
-      recovered: payload?.recovered ?? [],
-      count: payload?.count ?? 0,
-    };
+  getProSchedule: async (facilityId: string, proId: string) => {
+    const res = await apiRequest(`/api/lessons/${facilityId}/pros/${proId}/bookings`);
+    return { ...res, lessons: unwrapApiPayload<LessonBooking[]>(res.data) ?? [] };
   },
 
-  createRecurringSeries: async (data: {
-    userId: string;
-    facilityId: string;
-    bookingType?: string;
-    notes?: string;
-    skipConflicts?: boolean;
-    instances: Array<{
-      courtId: string;
-      bookingDate: string;
+  getMyLessons: async (facilityId: string) => {
+    const res = await apiRequest(`/api/lessons/${facilityId}/bookings/me`);
+    return { ...res, lessons: unwrapApiPayload<LessonBooking[]>(res.data) ?? [] };
+  },
+
+  /** Paid lessons come back with requiresPayment + checkoutUrl, like bookingApi.create. */
+  book: async (
+    facilityId: string,
+    data: {
+      proId: string;
+      lessonDate: string;
       startTime: string;
-      endTime: string;
-      durationMinutes: number;
-    }>;
-  }): Promise<
-    ApiResponse & {
-      seriesId?: string;
-      bookings?: Array<{ id: string }>;
-      skippedConflicts?: RecurringSeriesConflict[];
-      // Never set for series bookings; declared so series results union cleanly
-      // with bookingApi.create results in the booking flows.
-      requiresPayment?: boolean;
-      checkoutUrl?: string;
-      booking?: { id?: string };
+      notes?: string;
+      successUrl?: string;
+      cancelUrl?: string;
     }
-  > => {
-    const res = await apiRequest('/api/bookings/recurring-series', {
+  ) => {
+    const res = await apiRequest(`/api/lessons/${facilityId}/bookings`, {
       method: 'POST',
       body: JSON.stringify(data),
     });
-    if (!res.success) return res;
-    // Flatten the payload so seriesId/bookings/skippedConflicts sit beside `success`.
-    const inner = unwrapApiPayload<{
-      success?: boolean;
-      seriesId?: string;
-      bookings?: Array<{ id: string }>;
-      skippedConflicts?: RecurringSeriesConflict[];
-      warnings?: ApiResponse['warnings'];
-      error?: string;
-    }>(res.data);
-    if (!inner || typeof inner !== 'object') return res;
-    return { ...res, ...inner, success: res.success && inner.success !== false };
+    const body = (res.data ?? {}) as { requiresPayment?: boolean; checkoutUrl?: string };
+    return {
+      ...res,
+      lesson: unwrapApiPayload<LessonBooking>(res.data),
+      requiresPayment: Boolean(body.requiresPayment),
+      checkoutUrl: typeof body.checkoutUrl === 'string' ? body.checkoutUrl : undefined,
+    };
   },
 
-  cancel: async (bookingId: string, userId: string) => {
-    return apiRequest(`/api/bookings/${bookingId}?userId=${userId}`, {
-      method: 'DELETE',
+  cancel: async (facilityId: string, lessonId: string) => {
+    const res = await apiRequest(`/api/lessons/${facilityId}/bookings/${lessonId}/cancel`, {
+      method: 'POST',
     });
+    return { ...res, refunded: Boolean(unwrapApiPayload<{ refunded?: boolean }>(res.data)?.refunded) };
   },
 
-  validate: async (data: {
-    courtId: string;
-    userId: string;
-    facilityId: string;
-    bookingDate: string;
-    startTime: string;
-    endTime: string;
-    durationMinutes: number;
-  }) => {
-    return apiRequest('/api/bookings/validate', {
+  confirmPayment: async (sessionId: string) => {
+    return apiRequest('/api/lessons/payment/confirm', {
       method: 'POST',
-      body: JSON.stringify(data),
+      body: JSON.stringify({ sessionId }),
     });
   },
+};
 
-  // Court waivers (per-court booking waivers the user must accept)
-  getPendingCourtWaivers: async (courtIds: string[]) => {
-    return apiRequest(
-      `/api/bookings/court-waivers/pending?courtIds=${encodeURIComponent(courtIds.join(','))}`
-    );
-  },
+// Leagues (leagues feature flag). Fixtures hold courts through regular bookings.
+export type LeagueFormat = 'round_robin' | 'ladder';
+export type LeagueBookingType = 'league_match' | 'alta_tennis' | 'usta_tennis' | 'flex_tennis';
 
-  acceptCourtWaiver: async (courtId: string) => {
-    return apiRequest('/api/bookings/court-waivers/accept', {
-      method: 'POST',
-      body: JSON.stringify({ courtId }),
-    });
+export interface League {
+  id: string;
+  facilityId: string;
+  name: string;
+  description: string | null;
+  format: LeagueFormat;
+  bookingType: LeagueBookingType;
+  isActive: boolean;
+  seasons: Array<{ id: string; name: string; startDate: string; status: LeagueSeason['status'] }>;
+}
+
+export interface LeagueSeason {
+  id: string;
+  leagueId: string;
+  leagueName: string;
+  facilityId: string;
+  format: LeagueFormat;
+  bookingType: LeagueBookingType;
+  name: string;
+  startDate: string;
+  matchDayOfWeek: number;
+  matchStartTime: string;
+  matchDurationMinutes: number;
+  courtIds: string[];
+  status: 'draft' | 'scheduled' | 'completed';
+}
+
+export interface LeagueTeam {
+  id: string;
+  seasonId: string;
+  name: string;
+  captainId: string | null;
+  captainName: string | null;
+  ladderRank: number;
+  members: Array<{ userId: string; fullName: string }>;
+}
+
+export interface LeagueFixture {
+  id: string;
+  seasonId: string;
+  roundNumber: number;
+  homeTeamId: string;
+  homeTeamName: string;
+  awayTeamId: string;
+  awayTeamName: string;
+  matchDate: string;
+  startTime: string;
+  endTime: string;
+  courtId: string | null;
+  courtName: string | null;
+  bookingId: string | null;
+  status: 'scheduled' | 'unscheduled' | 'completed' | 'cancelled';
+  homeScore: number | null;
+  awayScore: number | null;
+  scoreDetail: string | null;
+  winnerTeamId: string | null;
+}
+
+export interface LeagueStandingRow {
+  teamId: string;
+  teamName: string;
+  position: number;
+  played: number;
+  won: number;
+  lost: number;
+  scoreFor: number;
+  scoreAgainst: number;
+}
+
+export interface LeagueSeasonDetail {
+  season: LeagueSeason;
+  teams: LeagueTeam[];
+  fixtures: LeagueFixture[];
+  standings: LeagueStandingRow[];
+}
+
+export type MyLeagueFixture = LeagueFixture & { leagueName: string; seasonName: string; myTeamId: string };
+
+export const leaguesApi = {
+  getLeagues: async (facilityId: string, includeInactive = false) => {
+    const res = await apiRequest(
+      `/api/leagues/${facilityId}/leagues${includeInactive ? '?includeInactive=true' : ''}`
+    );
+    return { ...res, leagues: unwrapApiPayload<League[]>(res.data) ?? [] };
+  },
+
+  createLeague: async (
+    facilityId: string,
+    data: { name: string; description?: string; format: LeagueFormat; bookingType: LeagueBookingType }
+  ) => {
+    const res = await apiRequest(`/api/leagues/${facilityId}/leagues`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return { ...res, league: unwrapApiPayload<League>(res.data) };
+  },
+
+  updateLeague: async (
+    facilityId: string,
+    leagueId: string,
+    data: Partial<Pick<League, 'name' | 'description' | 'bookingType' | 'isActive'>>
+  ) => {
+    return apiRequest(`/api/leagues/${facilityId}/leagues/${leagueId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  },
+
+  createSeason: async (
+    facilityId: string,
+    leagueId: string,
+    data: Pick<LeagueSeason, 'name' | 'startDate' | 'matchDayOfWeek' | 'matchStartTime'> &
+      Partial<Pick<LeagueSeason, 'matchDurationMinutes' | 'courtIds'>>
+  ) => {
+    const res = await apiRequest(`/api/leagues/${facilityId}/leagues/${leagueId}/seasons`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return { ...res, season: unwrapApiPayload<LeagueSeason>(res.data) };
+  },
+
+  getSeason: async (facilityId: string, seasonId: string) => {
+    const res = await apiRequest(`/api/leagues/${facilityId}/seasons/${seasonId}`);
+    return { ...res, detail: unwrapApiPayload<LeagueSeasonDetail>(res.data) };
+  },
+
+  addTeam: async (
+    facilityId: string,
+    seasonId: string,
+    data: { name: string; captainId?: string; memberIds: string[] }
+  ) => {
+    const res = await apiRequest(`/api/leagues/${facilityId}/seasons/${seasonId}/teams`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return { ...res, team: unwrapApiPayload<LeagueTeam>(res.data) };
+  },
+
+  removeTeam: async (facilityId: string, seasonId: string, teamId: string) => {
+    return apiRequest(`/api/leagues/${facilityId}/seasons/${seasonId}/teams/${teamId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  /** Round-robin: the whole season. Ladder: the next round. */
+  schedule: async (facilityId: string, seasonId: string) => {
+    const res = await apiRequest(`/api/leagues/${facilityId}/seasons/${seasonId}/schedule`, {
+      method: 'POST',
+    });
+    return {
+      ...res,
+      result: unwrapApiPayload<{ created: number; unscheduled: number }>(res.data),
+    };
+  },
+
+  moveFixture: async (
+    facilityId: string,
+    fixtureId: string,
+    data: { matchDate?: string; startTime?: string; courtId?: string }
+  ) => {
+    const res = await apiRequest(`/api/leagues/${facilityId}/fixtures/${fixtureId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+    return { ...res, fixture: unwrapApiPayload<LeagueFixture>(res.data) };
+  },
+
+  cancelFixture: async (facilityId: string, fixtureId: string) => {
+    return apiRequest(`/api/leagues/${facilityId}/fixtures/${fixtureId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status: 'cancelled' }),
+    });
+  },
+
+  recordResult: async (
+    facilityId: string,
+    fixtureId: string,
+    data: { homeScore: number; awayScore: number; scoreDetail?: string }
+  ) => {
+    const res = await apiRequest(`/api/leagues/${facilityId}/fixtures/${fixtureId}/result`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return { ...res, fixture: unwrapApiPayload<LeagueFixture>(res.data) };
+  },
+
+  getMyFixtures: async (facilityId: string) => {
+    const res = await apiRequest(`/api/leagues/${facilityId}/me/fixtures`);
+    return { ...res, fixtures: unwrapApiPayload<MyLeagueFixture[]>(res.data) ?? [] };
+  },
+};
+
+// Tournaments (tournaments feature flag). Scheduled matches hold courts as 'tournament' bookings.
+export type TournamentFormat = 'single_elimination' | 'double_elimination' | 'compass';
+export type TournamentMatchStatus = 'pending' | 'ready' | 'in_progress' | 'completed' | 'walkover' | 'void';
+
+export interface Tournament {
+  id: string;
+  facilityId: string;
+  name: string;
+  description: string | null;
+  format: TournamentFormat;
+  status: 'draft' | 'drawn' | 'completed';
+  startDate: string;
+  endDate: string;
+  matchDurationMinutes: number;
+  courtIds: string[];
+  isPublic: boolean;
+  entrantCount: number;
+}
+
+export interface TournamentEntrant {
+  id: string;
+  name: string;
+  seed: number | null;
+  playerIds: string[];
+}
+
+export interface TournamentMatch {
+  id: string;
+  key: string;
+  draw: string;
+  round: number;
+  position: number;
+  entrantAId: string | null;
+  entrantBId: string | null;
+  status: TournamentMatchStatus;
+  winnerId: string | null;
+  score: string | null;
+  courtId: string | null;
+  courtName: string | null;
+  matchDate: string | null;
+  startTime: string | null;
+  endTime: string | null;
+}
+
+export interface TournamentDetail {
+  tournament: Tournament & { facilityName: string };
+  entrants: TournamentEntrant[];
+  matches: TournamentMatch[];
+}
+
+type TournamentFields = Pick<Tournament, 'name' | 'startDate' | 'endDate'> &
+  Partial<Pick<Tournament, 'description' | 'format' | 'matchDurationMinutes' | 'courtIds' | 'isPublic'>>;
+
+export const tournamentsApi = {
+  getTournaments: async (facilityId: string, includeDrafts = false) => {
+    const res = await apiRequest(`/api/tournaments/${facilityId}${includeDrafts ? '?includeDrafts=true' : ''}`);
+    return { ...res, tournaments: unwrapApiPayload<Tournament[]>(res.data) ?? [] };
+  },
+
+  getTournament: async (facilityId: string, tournamentId: string) => {
+    const res = await apiRequest(`/api/tournaments/${facilityId}/${tournamentId}`);
+    return { ...res, detail: unwrapApiPayload<TournamentDetail>(res.data) };
+  },
+
+  /** No login needed; only public tournaments that have been drawn. */
+  getPublicBracket: async (tournamentId: string) => {
+    const res = await apiRequest(`/api/tournaments/public/${tournamentId}`);
+    return { ...res, detail: unwrapApiPayload<TournamentDetail>(res.data) };
+  },
+
+  createTournament: async (facilityId: string, data: TournamentFields) => {
+    const res = await apiRequest(`/api/tournaments/${facilityId}`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return { ...res, tournament: unwrapApiPayload<Tournament>(res.data) };
+  },
+
+  updateTournament: async (facilityId: string, tournamentId: string, data: Partial<TournamentFields>) => {
+    const res = await apiRequest(`/api/tournaments/${facilityId}/${tournamentId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+    return { ...res, tournament: unwrapApiPayload<Tournament>(res.data) };
+  },
+
+  deleteTournament: async (facilityId: string, tournamentId: string) => {
+    return apiRequest(`/api/tournaments/${facilityId}/${tournamentId}`, { method: 'DELETE' });
+  },
+
+  addEntrant: async (
+    facilityId: string,
+    tournamentId: string,
+    data: { name?: string; seed?: number | null; playerIds?: string[] }
+  ) => {
+    const res = await apiRequest(`/api/tournaments/${facilityId}/${tournamentId}/entrants`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return { ...res, entrant: unwrapApiPayload<TournamentEntrant>(res.data) };
+  },
+
+  removeEntrant: async (facilityId: string, tournamentId: string, entrantId: string) => {
+    return apiRequest(`/api/tournaments/${facilityId}/${tournamentId}/entrants/${entrantId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  generateDraw: async (facilityId: string, tournamentId: string) => {
+    const res = await apiRequest(`/api/tournaments/${facilityId}/${tournamentId}/draw`, { method: 'POST' });
+    return { ...res, detail: unwrapApiPayload<TournamentDetail>(res.data) };
+  },
+
+  /** Reserve courts for every match whose players are known. */
+  scheduleReady: async (facilityId: string, tournamentId: string) => {
+    const res = await apiRequest(`/api/tournaments/${facilityId}/${tournamentId}/schedule`, { method: 'POST' });
+    return { ...res, result: unwrapApiPayload<{ scheduled: number; unplaced: number }>(res.data) };
+  },
+
+  /** Live score without `winnerId`; final result with it. */
+  updateScore: async (facilityId: string, matchId: string, data: { score?: string; winnerId?: string }) => {
+    const res = await apiRequest(`/api/tournaments/${facilityId}/matches/${matchId}/score`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return { ...res, match: unwrapApiPayload<TournamentMatch>(res.data) };
+  },
+};
+
+// Match Results API (club_ratings feature flag)
+export interface SetScore {
+  a: number;
+  b: number;
+}
+
+export interface MatchResultPlayer {
+  userId: string;
+  fullName: string;
+  ratingBefore: number | null;
+  ratingAfter: number | null;
+}
+
+export interface MatchResult {
+  id: string;
+  facilityId: string;
+  bookingId: string | null;
+  reportedBy: string;
+  /** The reporter's side; set scores are listed from this side's point of view. */
+  teamA: MatchResultPlayer[];
+  teamB: MatchResultPlayer[];
+  sets: SetScore[];
+  winnerSide: 'a' | 'b';
+  playedOn: string;
+  status: 'pending' | 'confirmed' | 'disputed' | 'cancelled';
+  disputeReason: string | null;
+  createdAt: string;
+}
+
+export interface ClubRating {
+  facilityId: string;
+  userId: string;
+  fullName: string;
+  rating: number;
+  ratingDeviation: number;
+  matchesPlayed: number;
+  lastPlayedOn: string | null;
+  provisional: boolean;
+}
+
+export interface ReportableBooking {
+  bookingId: string;
+  courtName: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface MyMatchResults {
+  rating: ClubRating | null;
+  awaitingMe: MatchResult[];
+  recent: MatchResult[];
+  reportableBookings: ReportableBooking[];
+}
+
+export const matchResultsApi = {
+  getMine: async (facilityId: string) => {
+    const res = await apiRequest(`/api/match-results/${facilityId}/me`);
+    return { ...res, mine: unwrapApiPayload<MyMatchResults>(res.data) };
+  },
+
+  /** The caller's rating at every facility where they have one. */
+  getMyRatings: async () => {
+    const res = await apiRequest('/api/match-results/me/ratings');
+    return { ...res, ratings: unwrapApiPayload<ClubRating[]>(res.data) ?? [] };
+  },
+
+  getRatings: async (facilityId: string) => {
+    const res = await apiRequest(`/api/match-results/${facilityId}/ratings`);
+    return { ...res, ratings: unwrapApiPayload<ClubRating[]>(res.data) ?? [] };
+  },
+
+  /** `sets` are from the caller's side: { a: my games, b: their games }. */
+  report: async (
+    facilityId: string,
+    data: { bookingId: string; opponentIds: string[]; partnerId?: string; sets: SetScore[] }
+  ) => {
+    const res = await apiRequest(`/api/match-results/${facilityId}/results`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return { ...res, result: unwrapApiPayload<MatchResult>(res.data) };
+  },
+
+  confirm: async (facilityId: string, resultId: string) => {
+    const res = await apiRequest(`/api/match-results/${facilityId}/results/${resultId}/confirm`, { method: 'POST' });
+    return { ...res, result: unwrapApiPayload<MatchResult>(res.data) };
+  },
+
+  dispute: async (facilityId: string, resultId: string, reason: string) => {
+    const res = await apiRequest(`/api/match-results/${facilityId}/results/${resultId}/dispute`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+    return { ...res, result: unwrapApiPayload<MatchResult>(res.data) };
+  },
+
+  withdraw: async (facilityId: string, resultId: string) => {
+    return apiRequest(`/api/match-results/${facilityId}/results/${resultId}`, { method: 'DELETE' });
+  },
+};
+
+// Booking API
+export const bookingApi = {
+  getByFacility: async (facilityId: string, date: string) => {
+    return apiRequest(`/api/bookings/facility/${facilityId}?date=${date}`);
+  },
+
+  getByFacilityRange: async (facilityId: string, startDate: string, endDate: string) => {
+    return apiRequest(`/api/bookings/facility/${facilityId}/range?startDate=${startDate}&endDate=${endDate}`);
+  },
+
+  lookupFacilityMembers: async (facilityId: string, q: string) => {
+    return apiRequest(
+      `/api/bookings/facility/${facilityId}/members?q=${encodeURIComponent(q)}`
+    );
+  },
+
+  getByCourt: async (courtId: string, date: string) => {
+    return apiRequest(`/api/bookings/court/${courtId}?date=${date}`);
+  },
+
+  getByUser: async (userId: string, upcoming: boolean = true) => {
+    return apiRequest(`/api/bookings/user/${userId}?upcoming=${upcoming}`);
+  },
+
+  getById: async (bookingId: string) => {
+    return apiRequest(`/api/bookings/${bookingId}`);
+  },
+
+  create: async (data: {
+    courtId: string;
+    userId: string;
+    facilityId: string;
+    bookingDate: string;
+    startTime: string;
+    endTime: string;
+    durationMinutes: number;
+    bookingType?: string;
+    notes?: string;
+    successUrl?: string;
+    cancelUrl?: string;
+    bringGuest?: boolean;
+    addBallMachine?: boolean;
+    /** Specific ball machine; the server picks a free one when omitted */
+    ballMachineId?: string;
+    guestCount?: number;
+    guestNames?: string[];
+    /** Named guests with optional emails, logged in the facility's guest registry */
+    guests?: Array<{ name: string; email: string | null }>;
+    provisionalSameRequestBookings?: Array<{
+      bookingDate: string;
+      courtId: string;
+      startTime: string;
+      endTime: string;
+      durationMinutes?: number;
+    }>;
+    /** When editing, exclude the original booking from conflict checks */
+    excludeBookingId?: string;
+    /** Active facility members sharing an equal pre-payment split. */
+    splitParticipantIds?: string[];
+    /** University Club Guest Fee: skip Stripe and defer the whole total to the front desk. */
+    payAtFrontDesk?: boolean;
+    /** Book for one of the caller's dependents instead of themselves */
+    dependentId?: string;
+  }) => {
+    const res = await apiRequest('/api/bookings', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return normalizeBookingCreateResponse(res);
+  },
+
+  // The split-payment routes reply `{ success, data }` / `{ success, checkoutUrl }`, and
+  // buildApiRequest hands back the whole body as `.data` — so without this the payload
+  // would sit at `res.data.data` and a component reading `res.data.shares` gets undefined
+  // (that is exactly what rendered "Split payment: 0 of 0 shares paid" with no Pay button).
+  // Unwrap once here so callers can read `res.data.<field>` directly.
+  getSplitPayment: async (bookingId: string) => {
+    const res = await apiRequest<any>(`/api/bookings/${bookingId}/split-payment`);
+    return { ...res, data: unwrapApiPayload<any>(res.data) };
+  },
+
+  checkoutSplitPayment: async (bookingId: string, successUrl: string, cancelUrl: string) => {
+    const res = await apiRequest<any>(`/api/bookings/${bookingId}/split-payment/checkout`, {
+      method: 'POST', body: JSON.stringify({ successUrl, cancelUrl }),
+    });
+    return { ...res, data: unwrapApiPayload<any>(res.data) };
+  },
+
+  declineSplitPayment: async (bookingId: string, reason?: string) =>
+    apiRequest(`/api/bookings/${bookingId}/split-payment/decline`, {
+      method: 'POST', body: JSON.stringify({ reason }),
+    }),
+
+  updateSplitPaymentParticipants: async (bookingId: string, participantIds: string[]) => {
+    const res = await apiRequest<any>(`/api/bookings/${bookingId}/split-payment/participants`, {
+      method: 'PUT', body: JSON.stringify({ participantIds }),
+    });
+    return { ...res, data: unwrapApiPayload<any>(res.data) };
+  },
+
+  confirmPayment: async (sessionId: string) => {
+    const res = await apiRequest('/api/bookings/payment/confirm', {
+      method: 'POST',
+      body: JSON.stringify({ sessionId }),
+    });
+    if (!res.success) return res;
+    const payload = unwrapApiPayload<{ bookingId?: string; bookingDate?: string }>(res.data);
+    return {
+      ...res,
+      bookingId: payload?.bookingId,
+      bookingDate: payload?.bookingDate,
+    };
+  },
+
+  reconcilePaidBookings: async () => {
+    const res = await apiRequest('/api/bookings/payment/reconcile', { method: 'POST' });
+    if (!res.success) return res;
+    const payload = unwrapApiPayload<{
+      recovered?: Array<{ bookingId: string; bookingDate?: string }>;
+      count?: number;
+    }>(res.data);
+    return {
+      ...res,
+      recovered: payload?.recovered ?? [],
+      count: payload?.count ?? 0,
+    };
+  },
+
+  createRecurringSeries: async (data: {
+    userId: string;
+    facilityId: string;
+    bookingType?: string;
+    notes?: string;
+    skipConflicts?: boolean;
+    dependentId?: string;
+    instances: Array<{
+      courtId: string;
+      bookingDate: string;
+      startTime: string;
+      endTime: string;
+      durationMinutes: number;
+    }>;
+  }): Promise<
+    ApiResponse & {
+      seriesId?: string;
+      bookings?: Array<{ id: string }>;
+      skippedConflicts?: RecurringSeriesConflict[];
+      // Never set for series bookings; declared so series results union cleanly
+      // with bookingApi.create results in the booking flows.
+      requiresPayment?: boolean;
+      checkoutUrl?: string;
+      booking?: { id?: string };
+    }
+  > => {
+    const res = await apiRequest('/api/bookings/recurring-series', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    if (!res.success) return res;
+    // Flatten the payload so seriesId/bookings/skippedConflicts sit beside `success`.
+    const inner = unwrapApiPayload<{
+      success?: boolean;
+      seriesId?: string;
+      bookings?: Array<{ id: string }>;
+      skippedConflicts?: RecurringSeriesConflict[];
+      warnings?: ApiResponse['warnings'];
+      error?: string;
+    }>(res.data);
+    if (!inner || typeof inner !== 'object') return res;
+    return { ...res, ...inner, success: res.success && inner.success !== false };
+  },
+
+  cancel: async (bookingId: string, userId: string) => {
+    return apiRequest(`/api/bookings/${bookingId}?userId=${userId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  validate: async (data: {
+    courtId: string;
+    userId: string;
+    facilityId: string;
+    bookingDate: string;
+    startTime: string;
+    endTime: string;
+    durationMinutes: number;
+  }) => {
+    return apiRequest('/api/bookings/validate', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Court waivers (per-court booking waivers the user must accept)
+  getPendingCourtWaivers: async (courtIds: string[], dependentId?: string) => {
+    const dependentParam = dependentId ? `&dependentId=${encodeURIComponent(dependentId)}` : '';
+    return apiRequest(
+      `/api/bookings/court-waivers/pending?courtIds=${encodeURIComponent(courtIds.join(','))}${dependentParam}`
+    );
+  },
+
+  acceptCourtWaiver: async (courtId: string, dependentId?: string) => {
+    return apiRequest('/api/bookings/court-waivers/accept', {
+      method: 'POST',
+      body: JSON.stringify({ courtId, dependentId }),
+    });
   },
 
   getParticipants: async (bookingId: string) => {
@@ -960,7 +1654,108 @@ export const bookingApi = {
   },
 };
 
+export interface CourtWaitlistEntry {
+  id: string;
+  facilityId: string;
+  facilityName?: string;
+  courtId: string;
+  courtName?: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  status: 'waiting' | 'offered' | 'claimed' | 'expired' | 'cancelled';
+  offeredAt: string | null;
+  offerExpiresAt: string | null;
+  position?: number;
+}
+
+// Court waitlist API — queue for a booked slot, claim it when a cancellation is offered
+export const courtWaitlistApi = {
+  getMine: async (facilityId?: string) => {
+    const qs = facilityId ? `?facilityId=${encodeURIComponent(facilityId)}` : '';
+    const res = await apiRequest(`/api/court-waitlist/me${qs}`);
+    return { ...res, entries: unwrapApiPayload<CourtWaitlistEntry[]>(res.data) ?? [] };
+  },
+
+  join: async (data: {
+    facilityId: string;
+    courtId: string;
+    bookingDate: string;
+    startTime: string;
+    endTime: string;
+  }) => {
+    const res = await apiRequest('/api/court-waitlist', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return { ...res, entry: unwrapApiPayload<CourtWaitlistEntry>(res.data) };
+  },
+
+  /** Book the offered slot; paid courts come back with a checkout URL like bookingApi.create. */
+  claim: async (entryId: string, urls?: { successUrl?: string; cancelUrl?: string }) => {
+    const res = await apiRequest(`/api/court-waitlist/${entryId}/claim`, {
+      method: 'POST',
+      body: JSON.stringify(urls ?? {}),
+    });
+    return normalizeBookingCreateResponse(res) as ApiResponse & {
+      requiresPayment?: boolean;
+      checkoutUrl?: string;
+    };
+  },
+
+  leave: async (entryId: string) => {
+    return apiRequest(`/api/court-waitlist/${entryId}`, { method: 'DELETE' });
+  },
+};
+
+
 // Admin API
+/** One row of the admin audit log. `changes` is a field-level before/after diff. */
+export interface AuditLogEvent {
+  id: string;
+  actorType: 'admin' | 'support';
+  actorUserId: string | null;
+  actorName: string | null;
+  facilityId: string | null;
+  facilityName: string | null;
+  source: string;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  metadata: {
+    ip?: string | null;
+    userAgent?: string | null;
+    statusCode?: number;
+    params?: Record<string, string>;
+    query?: Record<string, unknown>;
+    body?: unknown;
+  };
+  createdAt: string;
+}
+
+export interface AuditLogFilters {
+  facilityId?: string;
+  actorType?: 'admin' | 'support';
+  entityType?: string;
+  source?: string;
+  /** YYYY-MM-DD, inclusive. */
+  from?: string;
+  to?: string;
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/** Query string for audit log filters, skipping unset values. */
+export function auditLogQuery(filters: AuditLogFilters): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== '') params.append(key, String(value));
+  }
+  return params.toString();
+}
+
 export const adminApi = {
   // Dashboard
   getDashboardStats: async (facilityId: string) => {
@@ -971,6 +1766,12 @@ export const adminApi = {
     return apiRequest(`/api/admin/revenue/${facilityId}?months=${months}&limit=${limit}`);
   },
 
+  getAuditLog: async (facilityId: string, filters: AuditLogFilters = {}) => {
+    const res = await apiRequest(`/api/admin/audit-log/${facilityId}?${auditLogQuery(filters)}`);
+    const data = unwrapApiPayload<{ events: AuditLogEvent[]; total: number }>(res.data);
+    return { ...res, events: data?.events ?? [], total: data?.total ?? 0 };
+  },
+
   // Facility Management
   updateFacility: async (facilityId: string, data: {
     name?: string;
@@ -1345,6 +2146,44 @@ export const courtConfigApi = {
   },
 };
 
+export interface RuleSimulationGroup {
+  blocked: number;
+  warned: number;
+  members: number;
+}
+
+export interface RuleSimulationReport {
+  weeks: number;
+  fromDate: string;
+  toDate: string;
+  totals: {
+    replayed: number;
+    blocked: number;
+    warned: number;
+    newlyBlocked: number;
+    newlyAllowed: number;
+    membersAffected: number;
+    skipped: number;
+  };
+  truncated: boolean;
+  byRule: Array<RuleSimulationGroup & { ruleCode: string; ruleName: string }>;
+  byTier: Array<RuleSimulationGroup & { tierId: string | null; tierName: string }>;
+  bookings: Array<{
+    bookingId: string;
+    bookingDate: string;
+    startTime: string;
+    endTime: string;
+    courtName: string | null;
+    userId: string;
+    memberName: string;
+    tierName: string;
+    outcome: 'blocked' | 'warned';
+    newlyBlocked: boolean;
+    ruleCodes: string[];
+    messages: string[];
+  }>;
+}
+
 // Rules API
 export const rulesApi = {
   getDefinitions: async (category?: string) => {
@@ -1416,6 +2255,23 @@ export const rulesApi = {
     });
   },
 
+  /** Replay recent bookings against a proposed rule set (same shape as bulkUpdate); nothing is saved. */
+  simulate: async (facilityId: string, data: {
+    rules: Array<{
+      ruleCode: string;
+      isEnabled: boolean;
+      ruleConfig?: Record<string, any>;
+    }>;
+    bookingRules?: Record<string, any>;
+    weeks?: number;
+  }) => {
+    const res = await apiRequest(`/api/rules/facility/${facilityId}/simulate`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return { ...res, report: unwrapApiPayload<{ report?: RuleSimulationReport }>(res.data)?.report };
+  },
+
   // Replies `{ success, enabled }`; buildApiRequest nests the whole body under `.data`,
   // so unwrap once and let callers read `res.data.enabled`.
   getSplitCourtPaymentsEnabled: async (facilityId: string) => {
@@ -1571,21 +2427,53 @@ export const messagesApi = {
   },
 
   // Send a new message or create a conversation
-  sendMessage: async (senderId: string, recipientId: string, facilityId: string, messageText: string) => {
+  sendMessage: async (
+    senderId: string,
+    recipientId: string,
+    facilityId: string,
+    messageText: string,
+    attachments: MessageAttachmentUpload[] = []
+  ) => {
     return apiRequest('/api/messages', {
       method: 'POST',
-      body: JSON.stringify({ senderId, recipientId, facilityId, messageText }),
+      body: JSON.stringify({ senderId, recipientId, facilityId, messageText, attachments }),
     });
   },
 
   // Send a message into an existing conversation (used for group conversations)
-  sendToConversation: async (conversationId: string, messageText: string) => {
+  sendToConversation: async (conversationId: string, messageText: string, attachments: MessageAttachmentUpload[] = []) => {
     return apiRequest('/api/messages', {
       method: 'POST',
-      body: JSON.stringify({ conversationId, messageText }),
+      body: JSON.stringify({ conversationId, messageText, attachments }),
+    });
+  },
+
+  /** Edit a message you sent (the old text stays in its edit history) */
+  editMessage: async (messageId: string, messageText: string) => {
+    return apiRequest(`/api/messages/message/${messageId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ messageText }),
+    });
+  },
+
+  /** Earlier versions of an edited message */
+  getEditHistory: async (messageId: string) => {
+    return apiRequest(`/api/messages/message/${messageId}/edits`);
+  },
+
+  /** Add your reaction, or remove it if it's already there */
+  toggleReaction: async (messageId: string, emoji: string) => {
+    return apiRequest(`/api/messages/message/${messageId}/reactions`, {
+      method: 'POST',
+      body: JSON.stringify({ emoji }),
     });
   },
 
+  /** An attachment's contents; message lists only carry its name, type and size */
+  getAttachment: async (attachmentId: string) => {
+    return apiRequest(`/api/messages/attachments/${attachmentId}`);
+  },
+
   // Mark all messages in a conversation as read
   markAsRead: async (conversationId: string, userId: string) => {
     return apiRequest(`/api/messages/${conversationId}/read`, {
@@ -1652,6 +2540,7 @@ export interface LevelGroupMember {
   fullName: string;
   skillLevel: string | null;
   isFacilityAdmin: boolean;
+  clubRating: number | null;
 }
 
 export interface LevelGroup {
@@ -1672,6 +2561,14 @@ export interface MyLevelGroup {
   members: { userId: string; fullName: string; skillLevel: string | null }[];
 }
 
+export interface LevelSuggestion {
+  userId: string;
+  fullName: string;
+  clubRating: number;
+  fromGroupId: string | null;
+  toGroupId: string;
+}
+
 export const playerLevelGroupsApi = {
   /** Full admin board: tiers with members, plus the unassigned pool. */
   getBoard: async (facilityId: string) => {
@@ -1679,6 +2576,15 @@ export const playerLevelGroupsApi = {
     return { ...res, board: unwrapApiPayload<LevelGroupBoard>(res.data) };
   },
 
+  /** Proposed tier moves from club ratings (club_ratings flag); nothing moves until applied. */
+  getRatingSuggestions: async (facilityId: string) => {
+    const res = await apiRequest(`/api/player-level-groups/${facilityId}/rating-suggestions`);
+    return {
+      ...res,
+      suggestions: unwrapApiPayload<{ suggestions: LevelSuggestion[] }>(res.data)?.suggestions ?? [],
+    };
+  },
+
   /** Player-facing: the caller's own tier, when the admin has made it visible. */
   getMine: async (facilityId: string) => {
     const res = await apiRequest(`/api/player-level-groups/${facilityId}/me`);
@@ -1793,18 +2699,24 @@ export const notificationsApi = {
 };
 
 // Households API
+export interface HouseholdStatementMonth {
+  month: string;
+  totalCents: number;
+  chargeCount: number;
+}
+
 export const householdsApi = {
   getByFacility: async (facilityId: string) => {
-    return apiRequest(`/api/households/facility/${facilityId}`);
+    return apiRequest<any>(`/api/households/facility/${facilityId}`);
   },
 
   getById: async (householdId: string) => {
-    return apiRequest(`/api/households/${householdId}`);
+    return apiRequest<any>(`/api/households/${householdId}`);
   },
 
   getByUser: async (userId: string, facilityId?: string) => {
     const qs = facilityId ? `?facilityId=${facilityId}` : '';
-    return apiRequest(`/api/households/user/${userId}${qs}`);
+    return apiRequest<any>(`/api/households/user/${userId}${qs}`);
   },
 
   create: async (data: {
@@ -1883,6 +2795,82 @@ export const householdsApi = {
       body: JSON.stringify({ facilityId }),
     });
   },
+
+  // Shared billing: pass null to stop billing the household to one card
+  setBillingPayer: async (householdId: string, payerUserId: string | null) => {
+    return apiRequest(`/api/households/${householdId}/billing-payer`, {
+      method: 'PUT',
+      body: JSON.stringify({ payerUserId }),
+    });
+  },
+
+  getStatementMonths: async (householdId: string) => {
+    return apiRequest<{ months: HouseholdStatementMonth[] }>(`/api/households/${householdId}/statements`);
+  },
+
+  // month is YYYY-MM; the response carries the statement and a printable HTML page
+  getStatement: async (householdId: string, month: string) => {
+    return apiRequest<{ statement: any; html: string }>(`/api/households/${householdId}/statements/${month}`);
+  },
+};
+
+// Junior/dependent profiles managed by the signed-in parent
+export interface Dependent {
+  id: string;
+  parentUserId: string;
+  firstName: string;
+  lastName: string;
+  fullName: string;
+  dateOfBirth: string;
+  gender: 'male' | 'female' | 'other' | 'prefer_not_to_say' | null;
+  createdAt: string;
+}
+
+export interface DependentBooking {
+  id: string;
+  courtName: string;
+  facilityId: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  bookingType: string | null;
+}
+
+export interface DependentInput {
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  gender?: Dependent['gender'];
+}
+
+export const dependentsApi = {
+  list: async () => {
+    return apiRequest<Dependent[]>('/api/dependents');
+  },
+
+  create: async (data: DependentInput) => {
+    return apiRequest<Dependent>('/api/dependents', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  update: async (dependentId: string, data: DependentInput) => {
+    return apiRequest<Dependent>(`/api/dependents/${dependentId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  remove: async (dependentId: string) => {
+    return apiRequest(`/api/dependents/${dependentId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  getUpcomingBookings: async (dependentId: string) => {
+    return apiRequest<DependentBooking[]>(`/api/dependents/${dependentId}/bookings`);
+  },
 };
 
 // Payments API
@@ -1990,6 +2978,10 @@ export interface ConnectPayment {
   paymentItemId: string;
   amountCents: number;
   platformFeeCents: number;
+  /** Part of amountCents paid from account credit rather than the card */
+  walletAppliedCents?: number;
+  /** Value a session package covered; not included in amountCents */
+  packageAppliedCents?: number;
   status: ConnectPaymentStatus;
   stripePaymentIntentId: string | null;
   stripeCheckoutSessionId: string | null;
@@ -2101,10 +3093,11 @@ export const connectPaymentsApi = {
   clubHistory: async (clubId: string) => {
     return apiRequest(`/api/payments/history?clubId=${encodeURIComponent(clubId)}`);
   },
-  // Admin — refund a paid Connect charge.
-  refund: async (connectPaymentId: string) => {
+  // Admin — refund a paid Connect charge, or as account credit with toWallet.
+  refund: async (connectPaymentId: string, options?: { toWallet?: boolean }) => {
     return apiRequest(`/api/payments/${encodeURIComponent(connectPaymentId)}/refund`, {
       method: 'POST',
+      body: JSON.stringify({ toWallet: options?.toWallet === true }),
     });
   },
   // Member — their own payments (optionally filtered by club).
@@ -2114,6 +3107,275 @@ export const connectPaymentsApi = {
   },
 };
 
+export type WalletTransactionKind =
+  | 'top_up'
+  | 'admin_credit'
+  | 'admin_debit'
+  | 'refund'
+  | 'payment'
+  | 'payment_reversal';
+
+export interface WalletTransaction {
+  id: string;
+  amountCents: number;
+  balanceAfterCents: number;
+  kind: WalletTransactionKind;
+  description: string;
+  referenceType: string | null;
+  referenceId: string | null;
+  pending: boolean;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface WalletSummary {
+  enabled: boolean;
+  balanceCents: number;
+  transactions: WalletTransaction[];
+}
+
+// Member account credit per facility
+export const walletApi = {
+  getMine: async (facilityId: string) => {
+    return apiRequest<WalletSummary>(`/api/wallet/facility/${encodeURIComponent(facilityId)}/me`);
+  },
+
+  topUp: async (facilityId: string, data: { amountCents: number; successUrl?: string; cancelUrl?: string }) => {
+    return apiRequest<{ url: string; paymentId: string }>(
+      `/api/wallet/facility/${encodeURIComponent(facilityId)}/top-up`,
+      { method: 'POST', body: JSON.stringify(data) }
+    );
+  },
+
+  confirmTopUp: async (sessionId: string) => {
+    return apiRequest<{ facilityId: string; amountCents: number }>('/api/wallet/top-up/confirm', {
+      method: 'POST',
+      body: JSON.stringify({ sessionId }),
+    });
+  },
+
+  // Admin — a member's balance and ledger
+  getMember: async (facilityId: string, userId: string) => {
+    return apiRequest<WalletSummary>(
+      `/api/wallet/facility/${encodeURIComponent(facilityId)}/members/${encodeURIComponent(userId)}`
+    );
+  },
+
+  // Admin — grant (positive) or take back (negative) credit
+  adjust: async (facilityId: string, userId: string, data: { amountCents: number; reason: string }) => {
+    return apiRequest<{ balanceCents: number }>(
+      `/api/wallet/facility/${encodeURIComponent(facilityId)}/members/${encodeURIComponent(userId)}/adjust`,
+      { method: 'POST', body: JSON.stringify(data) }
+    );
+  },
+};
+
+export type SessionPackageKind = 'clinic' | 'court_time';
+
+export interface SessionPackageProduct {
+  id: string;
+  facilityId: string;
+  name: string;
+  description: string | null;
+  kind: SessionPackageKind;
+  /** Sessions for clinic packages, minutes for court-time packages */
+  units: number;
+  priceCents: number;
+  validDays: number | null;
+  isActive: boolean;
+}
+
+export type SessionPackageProductInput = Omit<SessionPackageProduct, 'id' | 'facilityId'>;
+
+export interface MemberSessionPackage {
+  id: string;
+  facilityId: string;
+  userId: string;
+  productId: string | null;
+  name: string;
+  kind: SessionPackageKind;
+  unitsTotal: number;
+  unitsRemaining: number;
+  priceCentsAtPurchase: number;
+  expiresAt: string | null;
+  status: 'pending' | 'active' | 'expired' | 'refunded' | 'cancelled';
+  grantedBy: string | null;
+  activatedAt: string | null;
+  createdAt: string;
+  /** Admin list only */
+  fullName?: string;
+  email?: string;
+}
+
+export interface SessionPackageLedgerEntry {
+  id: string;
+  units: number;
+  unitsAfter: number;
+  kind: 'purchase' | 'grant' | 'adjustment' | 'redemption' | 'redemption_reversal' | 'refund' | 'expiry';
+  description: string;
+  referenceId: string | null;
+  pending: boolean;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export const sessionPackagesApi = {
+  getMine: async (facilityId: string) => {
+    return apiRequest<{ enabled: boolean; products: SessionPackageProduct[]; packages: MemberSessionPackage[] }>(
+      `/api/session-packages/facility/${encodeURIComponent(facilityId)}`
+    );
+  },
+
+  buy: async (facilityId: string, data: { productId: string; successUrl?: string; cancelUrl?: string }) => {
+    return apiRequest<{ url: string; paymentId: string }>(
+      `/api/session-packages/facility/${encodeURIComponent(facilityId)}/checkout`,
+      { method: 'POST', body: JSON.stringify(data) }
+    );
+  },
+
+  confirmPurchase: async (sessionId: string) => {
+    return apiRequest<{ packageId: string; facilityId: string; name: string }>(
+      '/api/session-packages/checkout/confirm',
+      { method: 'POST', body: JSON.stringify({ sessionId }) }
+    );
+  },
+
+  getLedger: async (facilityId: string, packageId: string) => {
+    return apiRequest<SessionPackageLedgerEntry[]>(
+      `/api/session-packages/facility/${encodeURIComponent(facilityId)}/packages/${encodeURIComponent(packageId)}/ledger`
+    );
+  },
+
+  // Admin — every product and member package at the club
+  getAdmin: async (facilityId: string) => {
+    return apiRequest<{ products: SessionPackageProduct[]; packages: MemberSessionPackage[] }>(
+      `/api/session-packages/facility/${encodeURIComponent(facilityId)}/admin`
+    );
+  },
+
+  createProduct: async (facilityId: string, data: SessionPackageProductInput) => {
+    return apiRequest<SessionPackageProduct>(
+      `/api/session-packages/facility/${encodeURIComponent(facilityId)}/products`,
+      { method: 'POST', body: JSON.stringify(data) }
+    );
+  },
+
+  updateProduct: async (facilityId: string, productId: string, data: SessionPackageProductInput) => {
+    return apiRequest<SessionPackageProduct>(
+      `/api/session-packages/facility/${encodeURIComponent(facilityId)}/products/${encodeURIComponent(productId)}`,
+      { method: 'PUT', body: JSON.stringify(data) }
+    );
+  },
+
+  grant: async (facilityId: string, data: { userId: string; productId: string; reason?: string }) => {
+    return apiRequest<MemberSessionPackage>(
+      `/api/session-packages/facility/${encodeURIComponent(facilityId)}/grant`,
+      { method: 'POST', body: JSON.stringify(data) }
+    );
+  },
+
+  adjust: async (facilityId: string, packageId: string, data: { units: number; reason: string }) => {
+    return apiRequest<{ unitsRemaining: number }>(
+      `/api/session-packages/facility/${encodeURIComponent(facilityId)}/packages/${encodeURIComponent(packageId)}/adjust`,
+      { method: 'POST', body: JSON.stringify(data) }
+    );
+  },
+
+  refund: async (facilityId: string, packageId: string, options?: { toWallet?: boolean }) => {
+    return apiRequest<{ unitsRefunded: number; refundedCents: number; stripeRefundId: string | null }>(
+      `/api/session-packages/facility/${encodeURIComponent(facilityId)}/packages/${encodeURIComponent(packageId)}/refund`,
+      { method: 'POST', body: JSON.stringify(options ?? {}) }
+    );
+  },
+};
+
+// Court Pricing API (dynamic_court_pricing feature flag)
+export type PricingTimeBand = 'any' | 'peak' | 'off_peak';
+export type PricingDayType = 'any' | 'weekday' | 'weekend';
+export type PricingCourtSetting = 'any' | 'indoor' | 'outdoor';
+
+export interface CourtPricingRule {
+  id: string;
+  facilityId: string;
+  name: string;
+  timeBand: PricingTimeBand;
+  dayType: PricingDayType;
+  courtSetting: PricingCourtSetting;
+  /** Limits the rule to one court */
+  courtId: string | null;
+  courtName: string | null;
+  hourlyRateCents: number;
+  isActive: boolean;
+}
+
+export type CourtPricingRuleInput = Omit<CourtPricingRule, 'id' | 'facilityId' | 'courtName'>;
+
+export interface TierCourtDiscount {
+  tierId: string;
+  tierName: string;
+  isDefault: boolean;
+  courtDiscountPercent: number;
+}
+
+export interface CourtPriceQuote {
+  courtId: string;
+  durationMinutes: number;
+  /** The court's standard hourly rate */
+  standardRateCents: number;
+  ruleRateCents: number;
+  ruleName: string | null;
+  tierName: string | null;
+  tierDiscountPercent: number;
+  /** What the member pays per hour */
+  hourlyRateCents: number;
+  courtFeeCents: number;
+  isPeak: boolean;
+  isWeekend: boolean;
+}
+
+export const courtPricingApi = {
+  /** Court fee preview for a slot; null data means the court is free. Times are HH:MM:SS. */
+  quote: async (params: { courtId: string; bookingDate: string; startTime: string; endTime: string }) => {
+    const search = new URLSearchParams(params);
+    return apiRequest<CourtPriceQuote | null>(`/api/court-pricing/quote?${search.toString()}`);
+  },
+
+  // Admin — pricing rules and tier discounts
+  getAdmin: async (facilityId: string) => {
+    return apiRequest<{ enabled: boolean; rules: CourtPricingRule[]; tiers: TierCourtDiscount[] }>(
+      `/api/court-pricing/facility/${encodeURIComponent(facilityId)}`
+    );
+  },
+
+  createRule: async (facilityId: string, data: CourtPricingRuleInput) => {
+    return apiRequest<CourtPricingRule>(
+      `/api/court-pricing/facility/${encodeURIComponent(facilityId)}/rules`,
+      { method: 'POST', body: JSON.stringify(data) }
+    );
+  },
+
+  updateRule: async (facilityId: string, ruleId: string, data: CourtPricingRuleInput) => {
+    return apiRequest<CourtPricingRule>(
+      `/api/court-pricing/facility/${encodeURIComponent(facilityId)}/rules/${encodeURIComponent(ruleId)}`,
+      { method: 'PUT', body: JSON.stringify(data) }
+    );
+  },
+
+  deleteRule: async (facilityId: string, ruleId: string) => {
+    return apiRequest(
+      `/api/court-pricing/facility/${encodeURIComponent(facilityId)}/rules/${encodeURIComponent(ruleId)}`,
+      { method: 'DELETE' }
+    );
+  },
+
+  setTierDiscount: async (facilityId: string, tierId: string, courtDiscountPercent: number) => {
+    return apiRequest<TierCourtDiscount>(
+      `/api/court-pricing/facility/${encodeURIComponent(facilityId)}/tiers/${encodeURIComponent(tierId)}`,
+      { method: 'PUT', body: JSON.stringify({ courtDiscountPercent }) }
+    );
+  },
+};
+
 // Secondary Facility Locations API
 export const facilityLocationsApi = {
   getAll: async (facilityId: string) => {
@@ -2155,11 +3417,35 @@ export const facilityLocationsApi = {
   },
 };
 
+export type ProShopItemInput = { product_id: string; variant_id?: string | null; quantity: number };
+
+export type ProShopVariantInput = {
+  size?: string | null;
+  color?: string | null;
+  grip_size?: string | null;
+  sku?: string | null;
+  stock_quantity?: number | null;
+  low_stock_threshold?: number | null;
+  is_active?: boolean;
+};
+
+export type StringingJobInput = {
+  racquet: string;
+  stringProductId: string;
+  stringVariantId?: string | null;
+  mainTensionLbs: number;
+  crossTensionLbs?: number | null;
+  dueDate: string;
+  notes?: string;
+};
+
+export type StringingStatus = 'received' | 'in_progress' | 'ready' | 'picked_up' | 'cancelled';
+
 export const proShopApi = {
   getShopProducts: (facilityId: string) =>
     apiRequest(`/api/pro-shop/products/${facilityId}`),
 
-  createCheckout: (facilityId: string, items: { product_id: string; quantity: number }[]) =>
+  createCheckout: (facilityId: string, items: ProShopItemInput[]) =>
     apiRequest(`/api/pro-shop/checkout/${facilityId}`, {
       method: 'POST',
       body: JSON.stringify({ items }),
@@ -2194,7 +3480,10 @@ export const proShopApi = {
   adminGetSettings: (facilityId: string) =>
     apiRequest(`/api/pro-shop/admin/settings/${facilityId}`),
 
-  adminUpdateSettings: (facilityId: string, data: { tab_billing_day?: number; require_card?: boolean }) =>
+  adminUpdateSettings: (
+    facilityId: string,
+    data: { tab_billing_day?: number; require_card?: boolean; stringing_labor_cents?: number }
+  ) =>
     apiRequest(`/api/pro-shop/admin/settings/${facilityId}`, {
       method: 'PATCH',
       body: JSON.stringify(data),
@@ -2203,19 +3492,19 @@ export const proShopApi = {
   adminGetMembers: (facilityId: string) =>
     apiRequest(`/api/pro-shop/admin/members/${facilityId}`),
 
-  adminAssignCharge: (facilityId: string, userId: string, items: { product_id: string; quantity: number }[]) =>
+  adminAssignCharge: (facilityId: string, userId: string, items: ProShopItemInput[]) =>
     apiRequest(`/api/pro-shop/admin/assign/charge/${facilityId}`, {
       method: 'POST',
       body: JSON.stringify({ user_id: userId, items }),
     }),
 
-  adminAssignTab: (facilityId: string, userId: string, items: { product_id: string; quantity: number }[]) =>
+  adminAssignTab: (facilityId: string, userId: string, items: ProShopItemInput[]) =>
     apiRequest(`/api/pro-shop/admin/assign/tab/${facilityId}`, {
       method: 'POST',
       body: JSON.stringify({ user_id: userId, items }),
     }),
 
-  adminAssignCash: (facilityId: string, userId: string, items: { product_id: string; quantity: number }[]) =>
+  adminAssignCash: (facilityId: string, userId: string, items: ProShopItemInput[]) =>
     apiRequest(`/api/pro-shop/admin/assign/cash/${facilityId}`, {
       method: 'POST',
       body: JSON.stringify({ user_id: userId, items }),
@@ -2234,7 +3523,7 @@ export const proShopApi = {
     facilityId: string,
     guestName: string,
     guestEmail: string | null,
-    items: { product_id: string; quantity: number }[],
+    items: ProShopItemInput[],
     paymentMode: 'cash' | 'stripe' = 'cash'
   ) =>
     apiRequest(`/api/pro-shop/admin/guest-sale/${facilityId}`, {
@@ -2242,6 +3531,89 @@ export const proShopApi = {
       body: JSON.stringify({ guest_name: guestName, guest_email: guestEmail, items, payment_mode: paymentMode }),
     }),
 
+  adminCreateVariant: (productId: string, data: ProShopVariantInput) =>
+    apiRequest(`/api/pro-shop/admin/products/${productId}/variants`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  adminUpdateVariant: (variantId: string, data: ProShopVariantInput) =>
+    apiRequest(`/api/pro-shop/admin/variants/${variantId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }),
+
+  adminDeleteVariant: (variantId: string) =>
+    apiRequest(`/api/pro-shop/admin/variants/${variantId}`, { method: 'DELETE' }),
+
+  adminGetInventoryLedger: (facilityId: string, productId?: string) => {
+    const qs = productId ? `?${new URLSearchParams({ productId })}` : '';
+    return apiRequest(`/api/pro-shop/admin/inventory/${facilityId}${qs}`);
+  },
+
+  adminGetLowStock: (facilityId: string) =>
+    apiRequest(`/api/pro-shop/admin/low-stock/${facilityId}`),
+
+  adminRestock: (
+    facilityId: string,
+    data: { product_id: string; variant_id?: string | null; quantity: number; note?: string }
+  ) =>
+    apiRequest(`/api/pro-shop/admin/restock/${facilityId}`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  adminAdjustStock: (
+    facilityId: string,
+    data: { product_id: string; variant_id?: string | null; count: number | null; note?: string }
+  ) =>
+    apiRequest(`/api/pro-shop/admin/adjust/${facilityId}`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  adminReturnItems: (
+    facilityId: string,
+    orderId: string,
+    data: { items: { order_item_id: string; quantity: number }[]; restock: boolean; note?: string }
+  ) =>
+    apiRequest(`/api/pro-shop/admin/orders/${facilityId}/${orderId}/return`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  getStringOptions: (facilityId: string) =>
+    apiRequest(`/api/pro-shop/stringing/options/${facilityId}`),
+
+  getMyStringingJobs: (facilityId: string) =>
+    apiRequest(`/api/pro-shop/stringing/my-jobs/${facilityId}`),
+
+  createStringingJob: (facilityId: string, data: StringingJobInput) =>
+    apiRequest(`/api/pro-shop/stringing/${facilityId}`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  cancelStringingJob: (facilityId: string, jobId: string) =>
+    apiRequest(`/api/pro-shop/stringing/${facilityId}/${jobId}/cancel`, { method: 'POST' }),
+
+  adminGetStringingJobs: (facilityId: string, status?: StringingStatus | 'open') => {
+    const qs = status ? `?${new URLSearchParams({ status })}` : '';
+    return apiRequest(`/api/pro-shop/admin/stringing/${facilityId}${qs}`);
+  },
+
+  adminCreateStringingJob: (facilityId: string, userId: string, data: StringingJobInput) =>
+    apiRequest(`/api/pro-shop/admin/stringing/${facilityId}`, {
+      method: 'POST',
+      body: JSON.stringify({ ...data, userId }),
+    }),
+
+  adminUpdateStringingStatus: (facilityId: string, jobId: string, status: StringingStatus) =>
+    apiRequest(`/api/pro-shop/admin/stringing/${facilityId}/${jobId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status }),
+    }),
+
   getMyTab: (facilityId: string) =>
     apiRequest(`/api/pro-shop/my-tab/${facilityId}`),
 
@@ -2259,6 +3631,27 @@ export const reportingApi = {
   },
 };
 
+export const guestsApi = {
+  list: (facilityId: string, search?: string) => {
+    const qs = search ? `?${new URLSearchParams({ search })}` : '';
+    return apiRequest(`/api/guests/${facilityId}${qs}`);
+  },
+
+  getHistory: (facilityId: string, guestId: string) =>
+    apiRequest(`/api/guests/${facilityId}/${guestId}`),
+
+  update: (facilityId: string, guestId: string, data: { fullName?: string; email?: string | null }) =>
+    apiRequest(`/api/guests/${facilityId}/${guestId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }),
+
+  getReport: (facilityId: string, params: { start: string; end: string }) => {
+    const qs = new URLSearchParams({ start: params.start, end: params.end });
+    return apiRequest(`/api/guests/${facilityId}/report?${qs}`);
+  },
+};
+
 export const annualFeesApi = {
   getConfig: (facilityId: string) =>
     apiRequest(`/api/annual-fees/config/${facilityId}`),
@@ -2272,7 +3665,10 @@ export const annualFeesApi = {
   getTiers: (facilityId: string) =>
     apiRequest(`/api/annual-fees/tiers/${facilityId}`),
 
-  createTier: (facilityId: string, data: { name: string; amountCents: number; description?: string }) =>
+  createTier: (
+    facilityId: string,
+    data: { name: string; amountCents: number; description?: string; installmentPlans?: ('monthly' | 'quarterly')[] }
+  ) =>
     apiRequest(`/api/annual-fees/tiers/${facilityId}`, {
       method: 'POST',
       body: JSON.stringify(data),
@@ -2298,6 +3694,12 @@ export const annualFeesApi = {
       body: JSON.stringify({ tierId }),
     }),
 
+  assignMemberPlan: (facilityId: string, userId: string, plan: 'annual' | 'quarterly' | 'monthly') =>
+    apiRequest(`/api/annual-fees/members/${facilityId}/${userId}/plan`, {
+      method: 'PATCH',
+      body: JSON.stringify({ plan }),
+    }),
+
   previewBilling: (facilityId: string) =>
     apiRequest(`/api/annual-fees/billing/preview/${facilityId}`),
 
@@ -2326,8 +3728,23 @@ export const ballMachineApi = {
   getStatus: (facilityId: string) =>
     ballMachineRequest(`/api/ball-machine/status/${facilityId}`),
 
-  getAccessCode: (facilityId: string) =>
-    ballMachineRequest(`/api/ball-machine/access-code/${facilityId}`),
+  /** Code for one booking's machine, or for the member's next reservation when bookingId is omitted. */
+  getAccessCode: (facilityId: string, bookingId?: string) =>
+    ballMachineRequest(
+      `/api/ball-machine/access-code/${facilityId}${bookingId ? `?bookingId=${encodeURIComponent(bookingId)}` : ''}`
+    ),
+
+  getMyReservations: (facilityId: string) =>
+    ballMachineRequest(`/api/ball-machine/reservations/${facilityId}`),
+
+  getAvailability: (
+    facilityId: string,
+    slot: { date: string; startTime: string; endTime: string; excludeBookingId?: string }
+  ) => {
+    const params = new URLSearchParams({ date: slot.date, startTime: slot.startTime, endTime: slot.endTime });
+    if (slot.excludeBookingId) params.set('excludeBookingId', slot.excludeBookingId);
+    return ballMachineRequest(`/api/ball-machine/availability/${facilityId}?${params.toString()}`);
+  },
 
   purchasePass: (facilityId: string, durationMonths: number, urls?: { successUrl?: string; cancelUrl?: string }) =>
     ballMachineRequest(`/api/ball-machine/purchase/${facilityId}`, {
@@ -2347,7 +3764,7 @@ export const ballMachineApi = {
 
   updateConfig: (
     facilityId: string,
-    data: { accessCode?: string | null; machineCount?: number; instructions?: string | null }
+    data: { instructions?: string | null }
   ) =>
     ballMachineRequest(`/api/ball-machine/admin/config/${facilityId}`, {
       method: 'PUT',
@@ -2363,6 +3780,51 @@ export const ballMachineApi = {
       body: JSON.stringify({ products }),
     }),
 
+  getMachines: (facilityId: string) =>
+    ballMachineRequest(`/api/ball-machine/admin/machines/${facilityId}`),
+
+  createMachine: (facilityId: string, data: { name: string; serialNumber?: string | null; notes?: string | null }) =>
+    ballMachineRequest(`/api/ball-machine/admin/machines/${facilityId}`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  updateMachine: (
+    facilityId: string,
+    machineId: string,
+    data: { name?: string; serialNumber?: string | null; notes?: string | null; isActive?: boolean }
+  ) =>
+    ballMachineRequest(`/api/ball-machine/admin/machines/${facilityId}/${machineId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+
+  getMaintenance: (facilityId: string) =>
+    ballMachineRequest(`/api/ball-machine/admin/maintenance/${facilityId}`),
+
+  /** startsAt / endsAt are facility-local "YYYY-MM-DDTHH:MM". */
+  addMaintenance: (
+    facilityId: string,
+    data: { machineId: string; startsAt: string; endsAt: string; reason?: string | null }
+  ) =>
+    ballMachineRequest(`/api/ball-machine/admin/maintenance/${facilityId}`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  deleteMaintenance: (facilityId: string, windowId: string) =>
+    ballMachineRequest(`/api/ball-machine/admin/maintenance/${facilityId}/${windowId}`, {
+      method: 'DELETE',
+    }),
+
+  getCalendar: (facilityId: string, date: string) =>
+    ballMachineRequest(`/api/ball-machine/admin/calendar/${facilityId}?date=${encodeURIComponent(date)}`),
+
+  rotateCode: (facilityId: string, reservationId: string) =>
+    ballMachineRequest(`/api/ball-machine/admin/reservations/${facilityId}/${reservationId}/rotate-code`, {
+      method: 'POST',
+    }),
+
   getPassHolders: (facilityId: string) =>
     ballMachineRequest(`/api/ball-machine/admin/passes/${facilityId}`),
 
@@ -0,0 +1,35 @@
+/**
+ * Live updates for the web app (see shared/api/realtime).
+ */
+
+import {
+  connectRealtime,
+  createRealtimeTransport,
+  type RealtimeEvent,
+  type RealtimeSubscription,
+} from '../../shared/api/realtime';
+import type { SyncTransport } from '../../shared/api/sync';
+
+export { isBookingEventFor, type RealtimeEvent } from '../../shared/api/realtime';
+
+const API_BASE_URL = import.meta.env.DEV
+  ? ''
+  : (import.meta.env.VITE_API_BASE_URL ?? '');
+
+const getToken = () => localStorage.getItem('auth_token');
+
+/** Streams events until the returned function is called; onOpen fires on every (re)connect. */
+export function subscribeToRealtime(
+  subscription: RealtimeSubscription,
+  onEvent: (event: RealtimeEvent) => void,
+  onOpen?: () => void
+): () => void {
+  return connectRealtime({ baseUrl: API_BASE_URL, getToken, subscription, onEvent, onOpen });
+}
+
+export function realtimeTransport(
+  subscription: RealtimeSubscription,
+  matches: (event: RealtimeEvent) => boolean
+): SyncTransport {
+  return createRealtimeTransport({ baseUrl: API_BASE_URL, getToken, subscription }, matches);
+}
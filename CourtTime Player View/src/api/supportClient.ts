@@ -1,3 +1,5 @@
+import { auditLogQuery, type AuditLogEvent, type AuditLogFilters } from './client';
+
 const API_BASE_URL = import.meta.env.DEV
   ? ''
   : (import.meta.env.VITE_API_BASE_URL ?? '');
@@ -320,6 +322,102 @@ export async function getFacilityViolations(facilityId: string) {
   }
 }
 
+// ── Audit Log ──────────────────────────────────────────────
+
+export async function getAuditLog(
+  filters: AuditLogFilters = {}
+): Promise<{ success: boolean; events: AuditLogEvent[]; total: number; error?: string }> {
+  try {
+    const res = await supportFetch(`/audit-log?${auditLogQuery(filters)}`);
+    return { ...res, events: res.data?.events ?? [], total: res.data?.total ?? 0 };
+  } catch {
+    return { success: false, events: [], total: 0, error: 'Failed to fetch audit log' };
+  }
+}
+
+// ── Background Jobs ────────────────────────────────────────
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'dead' | 'canceled';
+
+export interface BackgroundJob {
+  id: string;
+  jobType: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  runAt: string;
+  attempts: number;
+  maxAttempts: number;
+  intervalSeconds: number | null;
+  dedupeKey: string | null;
+  lastError: string | null;
+  lockedBy: string | null;
+  lockedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobRun {
+  id: string;
+  jobId: string;
+  attempt: number;
+  workerId: string;
+  status: 'running' | 'succeeded' | 'failed';
+  error: string | null;
+  result: Record<string, unknown> | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface JobList {
+  jobs: BackgroundJob[];
+  total: number;
+  counts: Record<JobStatus, number>;
+  jobTypes: string[];
+}
+
+export async function getJobs(filters: {
+  status?: JobStatus;
+  jobType?: string;
+  search?: string;
+  limit?: number;
+  offset?: number;
+} = {}): Promise<{ success: boolean; data?: JobList; error?: string }> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+  try {
+    return await supportFetch(`/jobs?${params}`);
+  } catch {
+    return { success: false, error: 'Failed to fetch jobs' };
+  }
+}
+
+export async function getJobRuns(jobId: string): Promise<{ success: boolean; data?: JobRun[]; error?: string }> {
+  try {
+    return await supportFetch(`/jobs/${jobId}/runs`);
+  } catch {
+    return { success: false, error: 'Failed to fetch job runs' };
+  }
+}
+
+export async function retryJob(jobId: string) {
+  try {
+    return await supportFetch(`/jobs/${jobId}/retry`, { method: 'POST' });
+  } catch {
+    return { success: false, error: 'Failed to retry job' };
+  }
+}
+
+export async function cancelJob(jobId: string) {
+  try {
+    return await supportFetch(`/jobs/${jobId}/cancel`, { method: 'POST' });
+  } catch {
+    return { success: false, error: 'Failed to cancel job' };
+  }
+}
+
 // ── Subscriptions ──────────────────────────────────────────
 
 export async function getSubscriptions(filters?: { status?: string; search?: string }) {
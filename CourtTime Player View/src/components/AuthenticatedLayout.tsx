@@ -15,10 +15,13 @@ function getCurrentPage(pathname: string): string {
   if (pathname.startsWith('/admin/booking')) return 'admin-booking';
   if (pathname.startsWith('/admin/members')) return 'member-management';
   if (pathname.startsWith('/admin/households')) return 'household-management';
+  if (pathname.startsWith('/admin/guests')) return 'guests-admin';
   if (pathname.startsWith('/admin/communication')) return 'communication';
   if (pathname.startsWith('/admin/member-payments')) return 'member-payments';
   if (pathname.startsWith('/admin/pro-shop')) return 'pro-shop-admin';
   if (pathname.startsWith('/admin/lessons')) return 'lessons-admin';
+  if (pathname.startsWith('/admin/leagues')) return 'leagues-admin';
+  if (pathname.startsWith('/admin/tournaments')) return 'tournaments-admin';
   if (pathname.startsWith('/admin/annual-fees')) return 'annual-fees';
   if (pathname.startsWith('/admin/reports')) return 'reports';
   if (pathname.startsWith('/admin')) return 'admin-dashboard';
@@ -29,6 +32,8 @@ function getCurrentPage(pathname: string): string {
   if (pathname.startsWith('/club/')) return 'club-info';
   if (pathname.startsWith('/bulletin-board')) return 'bulletin-board';
   if (pathname.startsWith('/lessons')) return 'lessons';
+  if (pathname.startsWith('/leagues')) return 'leagues';
+  if (pathname.startsWith('/tournaments')) return 'tournaments';
   if (pathname.startsWith('/hitting-partner')) return 'hitting-partner';
   if (pathname.startsWith('/messages')) return 'messages';
   if (pathname.startsWith('/payments')) return 'payments';
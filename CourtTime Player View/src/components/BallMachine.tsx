@@ -13,7 +13,8 @@ import { toast } from 'sonner';
  * Member Ball Machine tab (st_marlow_ball_machine feature flag).
  *
  * Passes bought here are unlimited-use for their term. The per-hour alternative is
- * charged on the booking itself, so this page only explains it.
+ * charged on the booking itself, so this page only explains it. Machines are reserved
+ * with a court booking; each reservation's keypad code is listed here.
  */
 
 interface PassProduct {
@@ -32,10 +33,22 @@ interface Pass {
   grantedBy: string | null;
 }
 
+interface MachineReservation {
+  id: string;
+  machineName: string;
+  accessCode: string;
+  /** Facility-local "YYYY-MM-DDTHH:MM" */
+  validFrom: string;
+  validUntil: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  courtName: string | null;
+}
+
 interface Status {
   machineCount: number;
   instructions: string | null;
-  hasAccessCode: boolean;
   products: PassProduct[];
   activePass: Pass | null;
   passes: Pass[];
@@ -54,6 +67,22 @@ function formatDate(iso: string): string {
   });
 }
 
+/** "HH:MM[:SS]" wall-clock time as "9:45 AM". */
+function formatClock(time: string): string {
+  const [h, m] = time.split(':').map(Number);
+  return `${h % 12 || 12}:${String(m).padStart(2, '0')} ${h < 12 ? 'AM' : 'PM'}`;
+}
+
+/** "YYYY-MM-DD" as "Tue, Oct 20" without shifting through the browser's timezone. */
+function formatBookingDate(ymd: string): string {
+  const [y, mo, d] = ymd.split('-').map(Number);
+  return new Date(y, mo - 1, d).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
 function durationLabel(months: number): string {
   if (months === 12) return '1 year';
   return `${months} month${months === 1 ? '' : 's'}`;
@@ -67,7 +96,7 @@ export function BallMachine() {
   const [loading, setLoading] = useState(true);
   const [unavailable, setUnavailable] = useState(false);
   const [status, setStatus] = useState<Status | null>(null);
-  const [accessCode, setAccessCode] = useState<string | null>(null);
+  const [reservations, setReservations] = useState<MachineReservation[]>([]);
   const [buyingMonths, setBuyingMonths] = useState<number | null>(null);
   const confirmInFlightRef = useRef<string | null>(null);
 
@@ -80,19 +109,16 @@ export function BallMachine() {
         // Normalize the collections: a partial payload must not white-screen the tab.
         setStatus({
           ...res.data,
-          machineCount: Number(res.data.machineCount) || 1,
+          machineCount: Number(res.data.machineCount) || 0,
           products: Array.isArray(res.data.products) ? res.data.products : [],
           passes: Array.isArray(res.data.passes) ? res.data.passes : [],
         });
         setUnavailable(false);
 
-        // Only pass holders can read the code; a 403 here is expected and silent.
-        if (res.data.activePass && res.data.hasAccessCode) {
-          const codeRes: any = await ballMachineApi.getAccessCode(selectedFacilityId);
-          setAccessCode(codeRes.success ? codeRes.data?.accessCode ?? null : null);
-        } else {
-          setAccessCode(null);
-        }
+        const reservationsRes: any = await ballMachineApi.getMyReservations(selectedFacilityId);
+        setReservations(
+          reservationsRes.success && Array.isArray(reservationsRes.data) ? reservationsRes.data : []
+        );
       } else {
         setStatus(null);
         setUnavailable(true);
@@ -218,22 +244,6 @@ export function BallMachine() {
                 Active through {formatDate(activePass.expiresAt)}
               </p>
 
-              {accessCode ? (
-                <div className="mt-4 rounded-lg border-2 border-green-300 bg-white px-4 py-3 inline-block">
-                  <p className="text-xs font-medium uppercase tracking-wide text-green-800 flex items-center gap-1">
-                    <KeyRound className="h-3 w-3" />
-                    Keypad code
-                  </p>
-                  <p className="mt-1 font-mono text-3xl font-bold tracking-[0.2em] text-green-900">
-                    {accessCode}
-                  </p>
-                </div>
-              ) : (
-                <p className="mt-3 text-sm text-green-800">
-                  The club hasn't set an access code yet — ask the front desk.
-                </p>
-              )}
-
               <p className="text-xs text-green-800 mt-3">
                 Tick "Add ball machine" when you book and you won't be charged again.
               </p>
@@ -251,6 +261,41 @@ export function BallMachine() {
         </Card>
       )}
 
+      {/* Upcoming reservations, each with its own code */}
+      {reservations.length > 0 && (
+        <div>
+          <h2 className="text-lg font-medium text-gray-900 mb-3">Your machine reservations</h2>
+          <Card className="divide-y">
+            {reservations.map((r) => (
+              <div key={r.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {r.machineName}
+                    {r.courtName ? ` · ${r.courtName}` : ''}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatBookingDate(r.bookingDate)}, {formatClock(r.startTime)} – {formatClock(r.endTime)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Code works {formatClock(r.validFrom.slice(11))} – {formatClock(r.validUntil.slice(11))}
+                  </p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className="text-[10px] font-medium uppercase tracking-wide text-green-800 flex items-center justify-end gap-1">
+                    <KeyRound className="h-3 w-3" />
+                    Keypad code
+                  </p>
+                  <p className="font-mono text-2xl font-bold tracking-[0.2em] text-green-900">{r.accessCode}</p>
+                </div>
+              </div>
+            ))}
+          </Card>
+          {status.instructions && (
+            <p className="mt-2 text-xs text-gray-500 whitespace-pre-wrap">{status.instructions}</p>
+          )}
+        </div>
+      )}
+
       {/* Pass options */}
       {products.length > 0 && (
         <div>
@@ -302,7 +347,7 @@ export function BallMachine() {
 
       {machineCount > 1 && (
         <p className="text-xs text-gray-500">
-          This club has {machineCount} ball machines. They're first come, first served when you book.
+          This club has {machineCount} ball machines. Pick one when you book, or take whichever is free.
         </p>
       )}
 
@@ -8,12 +8,18 @@ interface BallMachineAccessDialogProps {
   isOpen: boolean;
   onClose: () => void;
   facilityId: string;
+  /** Booking whose machine code to show; the member's next reservation when omitted. */
+  bookingId?: string;
   /** Shown under the code so the member knows which reservation this is for. */
   bookingSummary?: string;
 }
 
 interface AccessCodeData {
   accessCode: string;
+  machineName: string;
+  /** Facility-local "YYYY-MM-DDTHH:MM" */
+  validFrom: string;
+  validUntil: string;
   instructions: string | null;
   activePass: { expiresAt: string; durationMonths: number } | null;
 }
@@ -26,15 +32,22 @@ function formatExpiry(iso: string): string {
   });
 }
 
+/** "YYYY-MM-DDTHH:MM" wall-clock time as e.g. "9:45 AM"; no timezone conversion. */
+function formatLocalTime(local: string): string {
+  const [h, m] = local.slice(11, 16).split(':').map(Number);
+  return `${h % 12 || 12}:${String(m).padStart(2, '0')} ${h < 12 ? 'AM' : 'PM'}`;
+}
+
 /**
  * Shown right after a member adds the ball machine to a booking — whether they just
  * paid the hourly rate or their St. Marlow pass covered it. The code is fetched on
- * open rather than passed in, so it always reflects the club's current keypad code.
+ * open rather than passed in, so a code staff rotated since booking is picked up.
  */
 export function BallMachineAccessDialog({
   isOpen,
   onClose,
   facilityId,
+  bookingId,
   bookingSummary,
 }: BallMachineAccessDialogProps) {
   const [data, setData] = useState<AccessCodeData | null>(null);
@@ -50,14 +63,14 @@ export function BallMachineAccessDialog({
     setData(null);
 
     ballMachineApi
-      .getAccessCode(facilityId)
+      .getAccessCode(facilityId, bookingId)
       .then((res: any) => {
         if (cancelled) return;
         if (res.success && res.data?.accessCode) {
           setData(res.data);
         } else {
           setError(
-            res.error || 'The club has not set an access code yet. Please ask the front desk.'
+            res.error || 'No ball machine is reserved for this booking. Please ask the front desk.'
           );
         }
       })
@@ -71,10 +84,10 @@ export function BallMachineAccessDialog({
     return () => {
       cancelled = true;
     };
-  }, [isOpen, facilityId]);
+  }, [isOpen, facilityId, bookingId]);
 
   return (
-    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+    <Dialog open={isOpen} onOpenChange={(open: boolean) => !open && onClose()}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
@@ -101,10 +114,16 @@ export function BallMachineAccessDialog({
         {!isLoading && data && (
           <div className="space-y-3">
             <div className="rounded-lg border-2 border-green-200 bg-green-50 px-4 py-5 text-center">
-              <p className="text-xs font-medium uppercase tracking-wide text-green-800">Keypad code</p>
+              <p className="text-xs font-medium uppercase tracking-wide text-green-800">
+                {data.machineName} keypad code
+              </p>
               <p className="mt-1 font-mono text-4xl font-bold tracking-[0.2em] text-green-900">
                 {data.accessCode}
               </p>
+              <p className="mt-1 text-xs text-green-800">
+                Works {formatLocalTime(data.validFrom)} – {formatLocalTime(data.validUntil)}
+                {data.validFrom.slice(0, 10) !== data.validUntil.slice(0, 10) ? ' (next day)' : ''}
+              </p>
             </div>
 
             {data.activePass ? (
@@ -125,7 +144,8 @@ export function BallMachineAccessDialog({
             )}
 
             <p className="text-xs text-gray-500">
-              The code can change — reopen this from your reservation any time.
+              This code only works on {data.machineName}, and only around your reservation. Reopen this from
+              your reservation any time.
             </p>
           </div>
         )}
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { AlertCircle, BellRing, CheckCircle } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Alert, AlertDescription } from './ui/alert';
+import { bookingRemindersApi, type BookingReminder } from '../api/client';
+import { to12HourTime } from '../../shared/utils/operatingHours';
+
+/**
+ * Public booking reminder page (/booking-reminder/:token): where the links in
+ * a reminder email or push open. No login. The `action` query param only
+ * highlights the matching button — nothing happens until the member clicks,
+ * so link scanners that prefetch the email can't release a court.
+ */
+export function BookingReminderPage() {
+  const { token } = useParams<{ token: string }>();
+  const [searchParams] = useSearchParams();
+  const requestedAction = searchParams.get('action') === 'release' ? 'release' : 'confirm';
+  const [reminder, setReminder] = useState<BookingReminder | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!token) return;
+    bookingRemindersApi
+      .get(token)
+      .then((res) => setReminder(res.success ? res.reminder ?? null : null))
+      .catch((err) => console.error('Error loading booking reminder:', err))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const respond = async (action: 'confirm' | 'release') => {
+    if (!token) return;
+    setSubmitting(true);
+    setError('');
+    try {
+      const res = await bookingRemindersApi.respond(token, action);
+      if (res.success && res.reminder) {
+        setReminder(res.reminder);
+      } else {
+        setError(res.error || 'Something went wrong. Please try again.');
+      }
+    } catch (err) {
+      console.error('Error responding to booking reminder:', err);
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const dateLabel = reminder
+    ? new Date(`${reminder.bookingDate}T00:00:00`).toLocaleDateString('en-US', {
+        weekday: 'long',
+        month: 'long',
+        day: 'numeric',
+      })
+    : '';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-gradient-to-r from-green-700 to-green-800 shadow-md">
+        <div className="max-w-xl mx-auto px-4 sm:px-6 py-4 flex items-center gap-3 text-white">
+          <BellRing className="h-6 w-6" />
+          <span className="font-semibold">{reminder?.facilityName ?? 'CourtTime'}</span>
+        </div>
+      </header>
+
+      <main className="max-w-xl mx-auto px-4 sm:px-6 py-6">
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600" />
+          </div>
+        ) : !reminder ? (
+          <div className="flex flex-col items-center justify-center py-20 text-gray-400">
+            <BellRing className="h-12 w-12 mb-3" />
+            <p className="text-sm">This reminder link isn't valid.</p>
+          </div>
+        ) : (
+          <Card className="p-6 space-y-5">
+            <div>
+              <h1 className="text-2xl font-semibold text-gray-900">Upcoming court booking</h1>
+              <p className="text-sm text-gray-500 mt-1">
+                {reminder.courtName} · {dateLabel} · {to12HourTime(reminder.startTime)} – {to12HourTime(reminder.endTime)}
+              </p>
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {reminder.response === 'released' ? (
+              <div className="flex items-start gap-3 rounded-lg border border-green-200 bg-green-50 p-4 text-sm text-green-800">
+                <CheckCircle className="h-5 w-5 flex-shrink-0" />
+                <p>Court released. Your booking was cancelled with no strike, and the slot is open for other members.</p>
+              </div>
+            ) : reminder.bookingStatus !== 'confirmed' ? (
+              <p className="text-sm text-gray-600">This booking has already been cancelled.</p>
+            ) : (
+              <>
+                {reminder.response === 'confirmed' && (
+                  <div className="flex items-start gap-3 rounded-lg border border-green-200 bg-green-50 p-4 text-sm text-green-800">
+                    <CheckCircle className="h-5 w-5 flex-shrink-0" />
+                    <p>You're confirmed — see you on the court!</p>
+                  </div>
+                )}
+                {reminder.canRelease ? (
+                  <>
+                    <p className="text-sm text-gray-600">
+                      Can't make it? Releasing the court before your start time cancels the booking with no strike.
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {reminder.response !== 'confirmed' && (
+                        <Button
+                          onClick={() => respond('confirm')}
+                          disabled={submitting}
+                          variant={requestedAction === 'confirm' ? 'default' : 'outline'}
+                        >
+                          I'll be there
+                        </Button>
+                      )}
+                      <Button
+                        onClick={() => respond('release')}
+                        disabled={submitting}
+                        variant={requestedAction === 'release' ? 'destructive' : 'outline'}
+                      >
+                        Release court
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-600">This booking has already started.</p>
+                )}
+              </>
+            )}
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
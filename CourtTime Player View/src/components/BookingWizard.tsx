@@ -17,7 +17,7 @@ import {
 } from '../utils/bookingCalendar';
 import { useAuth } from '../contexts/AuthContext';
 import { useAppContext } from '../contexts/AppContext';
-import { ballMachineApi, bookingApi, courtConfigApi, facilitiesApi } from '../api/client';
+import { ballMachineApi, bookingApi, courtConfigApi, dependentsApi, facilitiesApi, type Dependent } from '../api/client';
 import {
   buildExistingBookingsMapByCourtName,
   type CourtAvailabilityData,
@@ -30,6 +30,7 @@ import { confirmSkipRecurringConflicts } from '../utils/recurringConflicts';
 import { courtBookingCheckoutUrls } from '../../shared/utils/courtBookingCheckoutUrls';
 import { FEATURE_FLAGS } from '../../shared/constants/featureFlags';
 import { BallMachineAccessDialog } from './BallMachineAccessDialog';
+import { CourtPricePreview, useCourtPriceQuote } from './CourtPricePreview';
 
 interface RuleViolation {
   ruleCode: string;
@@ -143,6 +144,10 @@ export function BookingWizard({ isOpen, onClose, court, courtId, date, time, fac
   const [notes, setNotes] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const courtWaiverGate = useCourtWaiverGate();
+  const [dependents, setDependents] = useState<Dependent[]>([]);
+  // '' books for the signed-in member; otherwise one of their dependents
+  const [bookingForId, setBookingForId] = useState('');
+  const bookingFor = dependents.find((d) => d.id === bookingForId) ?? null;
   const [ruleViolations, setRuleViolations] = useState<RuleViolation[]>([]);
   const [ruleWarnings, setRuleWarnings] = useState<RuleWarning[]>([]);
   const [isPrimeTime, setIsPrimeTime] = useState(false);
@@ -165,8 +170,15 @@ export function BookingWizard({ isOpen, onClose, court, courtId, date, time, fac
   >([]);
   const [guestCount, setGuestCount] = useState(0);
   const [guestNames, setGuestNames] = useState<string[]>([]);
+  const [guestEmails, setGuestEmails] = useState<string[]>([]);
   const [addBallMachine, setAddBallMachine] = useState(false);
+  /** '' lets the server pick any free machine */
+  const [ballMachineId, setBallMachineId] = useState('');
+  const [ballMachineOptions, setBallMachineOptions] = useState<
+    Array<{ id: string; name: string; available: boolean; reason: 'reserved' | 'maintenance' | null }>
+  >([]);
   const [showBallMachineCode, setShowBallMachineCode] = useState(false);
+  const [ballMachineCodeBookingId, setBallMachineCodeBookingId] = useState<string | undefined>(undefined);
   const [existingBookings, setExistingBookings] = useState<Record<string, Set<string>>>({});
   const [additionalCourtIds, setAdditionalCourtIds] = useState<string[]>([]);
   const { showToast, addNotification } = useNotifications();
@@ -198,6 +210,14 @@ export function BookingWizard({ isOpen, onClose, court, courtId, date, time, fac
     }
   }, [isOpen, facilityId]);
 
+  // The member's dependents, for the "Booking for" picker
+  useEffect(() => {
+    if (!isOpen) return;
+    dependentsApi.list().then(res => {
+      setDependents(res.success ? res.data ?? [] : []);
+    });
+  }, [isOpen]);
+
   // Facility/court operating hours for the selected day — same endpoint the calendar
   // grid uses to gate which slots are selectable, so the Start/End Time pickers here
   // always match what the calendar shows.
@@ -247,6 +267,36 @@ export function BookingWizard({ isOpen, onClose, court, courtId, date, time, fac
     };
   }, [isOpen, facilityId, ballMachineEnabled]);
 
+  // Which machines are free for the chosen slot, so a member can pick a specific one
+  // (clubs with a single machine just see the checkbox).
+  useEffect(() => {
+    if (!isOpen || !facilityId || !ballMachineEnabled || !addBallMachine || !date || !startTime || !endTime) {
+      setBallMachineOptions([]);
+      return;
+    }
+    let cancelled = false;
+    ballMachineApi
+      .getAvailability(facilityId, {
+        date,
+        startTime: convertTo24Hour(startTime),
+        endTime: convertTo24Hour(endTime),
+      })
+      .then((res: any) => {
+        if (cancelled) return;
+        const machines = res?.success && Array.isArray(res.data) ? res.data : [];
+        setBallMachineOptions(machines);
+        setBallMachineId((current) =>
+          machines.some((m: any) => m.id === current && m.available) ? current : ''
+        );
+      })
+      .catch(() => {
+        if (!cancelled) setBallMachineOptions([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, facilityId, ballMachineEnabled, addBallMachine, date, startTime, endTime]);
+
   // Per-court availability (same API as mobile book flow)
   useEffect(() => {
     if (!isOpen || !facilityId || !date || facilityCourts.length === 0) return;
@@ -373,7 +423,9 @@ export function BookingWizard({ isOpen, onClose, court, courtId, date, time, fac
       setAdditionalCourtIds([]);
       setGuestCount(0);
       setGuestNames([]);
+      setGuestEmails([]);
       setAddBallMachine(false);
+      setBallMachineId('');
     }
   }, [selectedSlots, isOpen, time]);
 
@@ -407,12 +459,37 @@ export function BookingWizard({ isOpen, onClose, court, courtId, date, time, fac
     return `${h} hr ${m} min`;
   }, [durationMins]);
 
+  const primaryCourtId = selectedCourts[0]?.courtId || courtId;
+
+  const bookingDateYmd = useMemo(() => {
+    if (date.match(/^\d{4}-\d{2}-\d{2}$/)) return date;
+    if (date.includes('T')) return date.split('T')[0];
+    const parsed = parseLocalDate(date);
+    return `${parsed.getFullYear()}-${String(parsed.getMonth() + 1).padStart(2, '0')}-${String(parsed.getDate()).padStart(2, '0')}`;
+  }, [date]);
+
+  const primaryCourtIsPaid = useMemo(() => {
+    if (selectedCourts.length !== 1) return false;
+    const meta = facilityCourts.find((fc) => fc.id === selectedCourts[0].courtId);
+    return Boolean(meta?.requirePayment && meta?.bookingAmountCents);
+  }, [selectedCourts, facilityCourts]);
+
+  // Server-priced rate for this slot (peak/weekend/indoor rules, tier discount)
+  const priceQuote = useCourtPriceQuote({
+    enabled: isOpen && primaryCourtIsPaid && durationMins > 0,
+    courtId: primaryCourtId,
+    bookingDate: bookingDateYmd,
+    startTime12h: startTime,
+    endTime12h: endTime,
+  });
+
   // Per-hour rate for a single paid court; total scales with selected duration
   const primaryCourtHourlyRateCents = useMemo(() => {
-    if (selectedCourts.length !== 1) return null;
+    if (!primaryCourtIsPaid) return null;
+    if (priceQuote?.courtId === selectedCourts[0].courtId) return priceQuote.hourlyRateCents;
     const meta = facilityCourts.find((fc) => fc.id === selectedCourts[0].courtId);
-    return (meta?.requirePayment && meta?.bookingAmountCents) ? meta.bookingAmountCents : null;
-  }, [selectedCourts, facilityCourts]);
+    return meta?.bookingAmountCents ?? null;
+  }, [primaryCourtIsPaid, priceQuote, selectedCourts, facilityCourts]);
 
   const courtTotalAmountCents = useMemo(() => {
     if (!primaryCourtHourlyRateCents || durationMins <= 0) return null;
@@ -437,15 +514,6 @@ export function BookingWizard({ isOpen, onClose, court, courtId, date, time, fac
 
   const checkoutTotalCents = (courtTotalAmountCents ?? 0) + guestFeeTotalCents + ballMachineTotalCents;
 
-  const primaryCourtId = selectedCourts[0]?.courtId || courtId;
-
-  const bookingDateYmd = useMemo(() => {
-    if (date.match(/^\d{4}-\d{2}-\d{2}$/)) return date;
-    if (date.includes('T')) return date.split('T')[0];
-    const parsed = parseLocalDate(date);
-    return `${parsed.getFullYear()}-${String(parsed.getMonth() + 1).padStart(2, '0')}-${String(parsed.getDate()).padStart(2, '0')}`;
-  }, [date]);
-
   // Peak-hours status from rules engine (same logic as booking validation)
   useEffect(() => {
     if (!isOpen || !user?.id || !primaryCourtId || !facilityId || durationMins <= 0) {
@@ -587,7 +655,8 @@ export function BookingWizard({ isOpen, onClose, court, courtId, date, time, fac
 
     // Court-specific waivers must be accepted before booking
     const waiversAccepted = await courtWaiverGate.ensureAccepted(
-      selectedCourts.map((c) => c.courtId)
+      selectedCourts.map((c) => c.courtId),
+      bookingFor
     );
     if (!waiversAccepted) return;
 
@@ -650,6 +719,7 @@ export function BookingWizard({ isOpen, onClose, court, courtId, date, time, fac
               facilityId,
               bookingType: bookingType || undefined,
               notes: notes || undefined,
+              dependentId: bookingFor?.id,
               instances: bookingRequests.map(({ courtName, ...req }) => req)
             };
             let res = await bookingApi.createRecurringSeries(seriesPayload);
@@ -676,11 +746,19 @@ export function BookingWizard({ isOpen, onClose, court, courtId, date, time, fac
                 ...checkoutReturnUrls,
                 guestCount: guestCount > 0 ? guestCount : undefined,
                 guestNames: guestCount > 0 ? guestNames.slice(0, guestCount).map(n => n.trim()) : undefined,
+                guests: guestCount > 0
+                  ? guestNames.slice(0, guestCount).map((n, i) => ({
+                      name: n.trim(),
+                      email: guestEmails[i]?.trim() || null,
+                    }))
+                  : undefined,
                 bringGuest: guestCount > 0 || undefined,
                 addBallMachine: addBallMachine || undefined,
+                ballMachineId: addBallMachine && ballMachineId ? ballMachineId : undefined,
                 splitParticipantIds: splitPayment ? splitMembers.map((member) => member.userId) : undefined,
                 provisionalSameRequestBookings: prior.length > 0 ? [...prior] : undefined,
-                payAtFrontDesk: payAtFrontDesk || undefined
+                payAtFrontDesk: payAtFrontDesk || undefined,
+                dependentId: bookingFor?.id
               });
               if (res.requiresPayment && res.checkoutUrl) {
                 sessionStorage.setItem(
@@ -780,6 +858,7 @@ export function BookingWizard({ isOpen, onClose, court, courtId, date, time, fac
         // left for Stripe, so show the keypad code here. The paid path shows it on
         // return from checkout in CourtCalendarView instead.
         if (addBallMachine) {
+          setBallMachineCodeBookingId(createdBookingId);
           setShowBallMachineCode(true);
         }
 
@@ -845,6 +924,7 @@ export function BookingWizard({ isOpen, onClose, court, courtId, date, time, fac
       isOpen={showBallMachineCode}
       onClose={() => setShowBallMachineCode(false)}
       facilityId={facilityId}
+      bookingId={ballMachineCodeBookingId}
       bookingSummary={`${court} · ${date} · ${startTime} – ${endTime}`}
     />
     <Dialog open={isOpen} onOpenChange={() => !isSubmitting && onClose()}>
@@ -943,6 +1023,24 @@ export function BookingWizard({ isOpen, onClose, court, courtId, date, time, fac
             </div>
           </div>
 
+          {/* Parents can book for their dependents */}
+          {dependents.length > 0 && (
+            <div className="space-y-2">
+              <Label>Booking for</Label>
+              <Select value={bookingForId || 'self'} onValueChange={(val: string) => setBookingForId(val === 'self' ? '' : val)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="self">Myself</SelectItem>
+                  {dependents.map((d) => (
+                    <SelectItem key={d.id} value={d.id}>{d.fullName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Booking Type Dropdown */}
           <div className="space-y-2">
             <Label>{deerLakeReservationTypes ? 'Type' : 'Type (Optional)'}</Label>
@@ -1082,17 +1180,13 @@ export function BookingWizard({ isOpen, onClose, court, courtId, date, time, fac
 
           {/* Court fee */}
           {courtTotalAmountCents != null && selectedCourts.length === 1 && (
-            <div className="flex items-center justify-between rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm">
-              <span className="text-amber-800 font-medium">
-                {postPlaySettlement ? 'Court fee (charged after play)' : 'Court fee'}
-              </span>
-              <span className="text-amber-900 font-semibold">
-                ${(courtTotalAmountCents / 100).toFixed(2)}
-                <span className="text-amber-600 font-normal ml-1">
-                  (${(primaryCourtHourlyRateCents! / 100).toFixed(2)}/hr × {durationLabel})
-                </span>
-              </span>
-            </div>
+            <CourtPricePreview
+              label={postPlaySettlement ? 'Court fee (charged after play)' : 'Court fee'}
+              courtFeeCents={courtTotalAmountCents}
+              hourlyRateCents={primaryCourtHourlyRateCents!}
+              durationLabel={durationLabel}
+              quote={priceQuote}
+            />
           )}
 
           {splitCourtPaymentsEnabled && courtTotalAmountCents != null && selectedCourts.length === 1 && !advancedBooking && !postPlaySettlement && (
@@ -1121,6 +1215,7 @@ export function BookingWizard({ isOpen, onClose, court, courtId, date, time, fac
                     onClick={() => {
                       setGuestCount(n);
                       setGuestNames(prev => Array.from({ length: n }, (_, i) => prev[i] || ''));
+                      setGuestEmails(prev => Array.from({ length: n }, (_, i) => prev[i] || ''));
                     }}
                     className={`w-10 h-10 rounded-md border text-sm font-medium transition-colors ${
                       guestCount === n
@@ -1140,18 +1235,32 @@ export function BookingWizard({ isOpen, onClose, court, courtId, date, time, fac
               {guestCount > 0 && (
                 <div className="space-y-2 pt-1">
                   {Array.from({ length: guestCount }, (_, i) => (
-                    <Input
-                      key={i}
-                      required
-                      placeholder={`Guest ${i + 1} name`}
-                      value={guestNames[i] || ''}
-                      onChange={(e) => {
-                        const updated = [...guestNames];
-                        updated[i] = e.target.value;
-                        setGuestNames(updated);
-                      }}
-                    />
+                    <div key={i} className="grid grid-cols-2 gap-2">
+                      <Input
+                        required
+                        placeholder={`Guest ${i + 1} name`}
+                        value={guestNames[i] || ''}
+                        onChange={(e) => {
+                          const updated = [...guestNames];
+                          updated[i] = e.target.value;
+                          setGuestNames(updated);
+                        }}
+                      />
+                      <Input
+                        type="email"
+                        placeholder="Email (optional)"
+                        value={guestEmails[i] || ''}
+                        onChange={(e) => {
+                          const updated = [...guestEmails];
+                          updated[i] = e.target.value;
+                          setGuestEmails(updated);
+                        }}
+                      />
+                    </div>
                   ))}
+                  <p className="text-xs text-gray-500">
+                    Guests are logged with the club; guest visit limits may apply.
+                  </p>
                 </div>
               )}
             </div>
@@ -1183,6 +1292,29 @@ export function BookingWizard({ isOpen, onClose, court, courtId, date, time, fac
               />
             </div>
           )}
+          {showBallMachineOption && addBallMachine && ballMachineOptions.length > 1 && selectedCourts.length === 1 && !advancedBooking && (
+            <div className="space-y-1">
+              <Label htmlFor="ballMachineId" className="text-sm">Machine</Label>
+              <select
+                id="ballMachineId"
+                className="w-full h-9 rounded-md border border-input bg-input-background px-2 text-sm"
+                value={ballMachineId}
+                onChange={(e) => setBallMachineId(e.target.value)}
+              >
+                <option value="">Any free machine</option>
+                {ballMachineOptions.map((m) => (
+                  <option key={m.id} value={m.id} disabled={!m.available}>
+                    {m.name}
+                    {m.reason === 'maintenance' ? ' — out of service' : m.reason === 'reserved' ? ' — reserved' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {showBallMachineOption && addBallMachine && ballMachineOptions.length > 0 &&
+            ballMachineOptions.every((m) => !m.available) && (
+            <p className="text-xs text-amber-700">Every ball machine is taken or out of service at this time.</p>
+          )}
 
           {/* Action Buttons */}
           <div className="flex gap-2 pt-4">
@@ -61,6 +61,13 @@ interface BulletinPost {
   requirePayment?: boolean;
   signupAmountCents?: number | null;
   participants?: Array<{ userId: string; fullName: string; status: 'confirmed' | 'waitlist'; waitlistPosition: number | null }>;
+  dependentSignups?: Array<{
+    dependentId: string;
+    firstName: string;
+    status: 'confirmed' | 'waitlist' | null;
+    waitlistPosition: number | null;
+    canSignup: boolean;
+  }>;
   isPinned: boolean;
   createdAt: string;
   authorName: string;
@@ -194,6 +201,7 @@ export function BulletinBoard() {
           ? Number(post.signup_amount_cents)
           : null,
     participants: post.participants || [],
+    dependentSignups: post.dependentSignups || [],
     isPinned: post.isPinned || false,
     createdAt: post.createdAt,
     authorName: post.authorName || 'Unknown'
@@ -448,10 +456,10 @@ export function BulletinBoard() {
     }
   };
 
-  const handleDrillSignup = async (postId: string) => {
+  const handleDrillSignup = async (postId: string, dependentId?: string) => {
     try {
       const { successUrl, cancelUrl } = bulletinSignupReturnUrls(postId);
-      const response = await bulletinBoardApi.signupForDrill(postId, { successUrl, cancelUrl });
+      const response = await bulletinBoardApi.signupForDrill(postId, { successUrl, cancelUrl, dependentId });
       if (response.success) {
         const signupPayload = unwrapApiPayload<{
           checkoutUrl?: string;
@@ -472,9 +480,9 @@ export function BulletinBoard() {
     }
   };
 
-  const handleCancelDrillSignup = async (postId: string) => {
+  const handleCancelDrillSignup = async (postId: string, dependentId?: string) => {
     try {
-      const response = await bulletinBoardApi.cancelDrillSignup(postId);
+      const response = await bulletinBoardApi.cancelDrillSignup(postId, dependentId);
       if (response.success) {
         toast.success('Signup cancelled');
         loadData();
@@ -948,6 +956,35 @@ export function BulletinBoard() {
                 {eventSignupTypes.has(selectedPost.type) && selectedPost.signupBlockedReason && !selectedPost.currentUserSignupStatus && (
                   <p className="text-sm text-red-600">{selectedPost.signupBlockedReason}</p>
                 )}
+                {eventSignupTypes.has(selectedPost.type) && (selectedPost.dependentSignups || []).length > 0 && (
+                  <div className="space-y-2 border-t pt-4">
+                    <h4 className="font-medium">Your family</h4>
+                    {(selectedPost.dependentSignups || []).map((dependent) => (
+                      <div key={dependent.dependentId} className="flex items-center justify-between text-sm">
+                        <span>
+                          {dependent.firstName}
+                          {dependent.status === 'confirmed' && <span className="text-green-700 ml-2">Signed up</span>}
+                          {dependent.status === 'waitlist' && (
+                            <span className="text-amber-700 ml-2">Waitlist #{dependent.waitlistPosition || '-'}</span>
+                          )}
+                        </span>
+                        {dependent.status ? (
+                          <Button size="sm" variant="outline" onClick={() => handleCancelDrillSignup(selectedPost.id, dependent.dependentId)}>
+                            Cancel
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            disabled={!dependent.canSignup}
+                            onClick={() => handleDrillSignup(selectedPost.id, dependent.dependentId)}
+                          >
+                            Sign up {dependent.firstName}
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
                 {eventSignupTypes.has(selectedPost.type) && (
                   <div className="space-y-3 border-t pt-4">
                     <h4 className="font-medium">
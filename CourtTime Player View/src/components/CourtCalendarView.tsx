@@ -17,6 +17,7 @@ import { BulletinActivitySignupModal } from './BulletinActivitySignupModal';
 import { useNotifications } from '../contexts/NotificationContext';
 import { useAuth } from '../contexts/AuthContext';
 import { bulletinBoardApi, facilitiesApi, usersApi, bookingApi, courtConfigApi, strikesApi, unwrapApiPayload } from '../api/client';
+import { isBookingEventFor, realtimeTransport } from '../api/realtime';
 import { StrikeLockoutAlerts } from './StrikeLockoutAlerts';
 import type { StrikeLockoutStatus } from '../../shared/utils/strikeLockout';
 import { parseStrikeLockoutStatus } from '../../shared/utils/strikeLockout';
@@ -215,6 +216,7 @@ export function CourtCalendarView() {
   const [showQuickReserve, setShowQuickReserve] = useState(false);
   const [ballMachineCodeBooking, setBallMachineCodeBooking] = useState<{
     facilityId: string;
+    bookingId: string;
     summary: string;
   } | null>(null);
 
@@ -656,6 +658,23 @@ export function CourtCalendarView() {
     fetchBookings();
   }, [fetchBookings]);
 
+  // Refetch the day as soon as someone books or cancels on it, so members
+  // don't pick a slot that was just taken. Refs keep one stream per facility.
+  const fetchBookingsRef = useRef(fetchBookings);
+  fetchBookingsRef.current = fetchBookings;
+  const selectedDateRef = useRef(selectedDate);
+  selectedDateRef.current = selectedDate;
+  useEffect(() => {
+    if (!selectedFacility) return;
+    return realtimeTransport({ facilityIds: [selectedFacility] }, (event) => {
+      const date = selectedDateRef.current;
+      const dateStr = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+      return isBookingEventFor(event, selectedFacility, dateStr);
+    }).subscribe(() => {
+      void fetchBookingsRef.current();
+    });
+  }, [selectedFacility]);
+
   // Recover paid court checkouts that never created a booking (e.g. Stripe returned to wrong host)
   useEffect(() => {
     if (authLoading || !user?.id) return;
@@ -783,6 +802,7 @@ export function CourtCalendarView() {
         if (booking?.addBallMachine) {
           setBallMachineCodeBooking({
             facilityId: booking.facilityId,
+            bookingId,
             summary: [booking.courtName, booking.bookingDate, booking.startTime]
               .filter(Boolean)
               .join(' · '),
@@ -3015,6 +3035,7 @@ export function CourtCalendarView() {
         isOpen={ballMachineCodeBooking !== null}
         onClose={() => setBallMachineCodeBooking(null)}
         facilityId={ballMachineCodeBooking?.facilityId || ''}
+        bookingId={ballMachineCodeBooking?.bookingId}
         bookingSummary={ballMachineCodeBooking?.summary}
       />
 
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { courtPricingApi, type CourtPriceQuote } from '../api/client';
+import { to24HourTime } from '../utils/bookingPeakHours';
+
+function dollars(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * The server's court fee quote for a draft booking (peak/weekend/indoor rates
+ * and the member's tier discount applied). Null while loading, for free courts,
+ * or when `enabled` is false.
+ */
+export function useCourtPriceQuote(params: {
+  enabled: boolean;
+  courtId?: string;
+  bookingDate?: string;
+  startTime12h?: string;
+  endTime12h?: string;
+}): CourtPriceQuote | null {
+  const { enabled, courtId, bookingDate, startTime12h, endTime12h } = params;
+  const [quote, setQuote] = useState<CourtPriceQuote | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !courtId || !bookingDate || !startTime12h || !endTime12h) {
+      setQuote(null);
+      return;
+    }
+    let cancelled = false;
+    const run = async () => {
+      const res = await courtPricingApi.quote({
+        courtId,
+        bookingDate,
+        startTime: to24HourTime(startTime12h),
+        endTime: to24HourTime(endTime12h),
+      });
+      if (!cancelled) setQuote(res.success ? res.data ?? null : null);
+    };
+    void run();
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, courtId, bookingDate, startTime12h, endTime12h]);
+
+  return quote;
+}
+
+/** Why the rate differs from the court's standard rate, e.g. "Weekend peak · Gold members 10% off". */
+function describeQuote(quote: CourtPriceQuote): string | null {
+  const parts: string[] = [];
+  if (quote.ruleName && quote.ruleRateCents !== quote.standardRateCents) parts.push(quote.ruleName);
+  if (quote.tierName && quote.tierDiscountPercent > 0) {
+    parts.push(`${quote.tierName} ${quote.tierDiscountPercent}% off`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+interface CourtPricePreviewProps {
+  label: string;
+  courtFeeCents: number;
+  hourlyRateCents: number;
+  durationLabel: string;
+  quote?: CourtPriceQuote | null;
+}
+
+/** Court fee line shown before booking a paid court. */
+export function CourtPricePreview({ label, courtFeeCents, hourlyRateCents, durationLabel, quote }: CourtPricePreviewProps) {
+  const detail = quote ? describeQuote(quote) : null;
+  return (
+    <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="text-amber-800 font-medium">{label}</span>
+        <span className="text-amber-900 font-semibold">
+          {dollars(courtFeeCents)}
+          <span className="text-amber-600 font-normal ml-1">
+            ({dollars(hourlyRateCents)}/hr × {durationLabel})
+          </span>
+        </span>
+      </div>
+      {detail && quote && (
+        <div className="mt-0.5 flex items-center justify-between text-xs text-amber-700">
+          <span>{detail}</span>
+          {quote.hourlyRateCents !== quote.standardRateCents && (
+            <span className="line-through">{dollars(quote.standardRateCents)}/hr</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
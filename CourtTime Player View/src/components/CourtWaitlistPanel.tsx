@@ -0,0 +1,166 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Hourglass, Calendar, Clock, MapPin } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { courtWaitlistApi, type CourtWaitlistEntry } from '../api/client';
+import { courtBookingCheckoutUrls } from '../../shared/utils/courtBookingCheckoutUrls';
+import { toast } from 'sonner';
+
+interface CourtWaitlistPanelProps {
+  /** Called after a claim creates a booking so the reservation list can refresh. */
+  onClaimed?: () => void;
+}
+
+function formatDate(dateStr: string) {
+  return new Date(`${dateStr}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function formatTime(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${minutes.toString().padStart(2, '0')} ${period}`;
+}
+
+function formatClaimBy(iso: string) {
+  return new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
+
+/**
+ * The member's court waitlist entries. Open offers float to the top with a
+ * Claim button; everything else shows its place in line. Renders nothing when
+ * the member isn't waiting on any court.
+ */
+export function CourtWaitlistPanel({ onClaimed }: CourtWaitlistPanelProps) {
+  const [entries, setEntries] = useState<CourtWaitlistEntry[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    const res = await courtWaitlistApi.getMine();
+    if (res.success) setEntries(res.entries);
+  }, []);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const handleClaim = async (entry: CourtWaitlistEntry) => {
+    setBusyId(entry.id);
+    try {
+      const res = await courtWaitlistApi.claim(
+        entry.id,
+        typeof window !== 'undefined' ? courtBookingCheckoutUrls(window.location.origin) : undefined
+      );
+      if (res.requiresPayment && res.checkoutUrl) {
+        sessionStorage.setItem(
+          'courtBookingCheckoutPending',
+          JSON.stringify({
+            courtId: entry.courtId,
+            bookingDate: entry.bookingDate,
+            facilityId: entry.facilityId,
+          })
+        );
+        window.location.replace(res.checkoutUrl);
+        return;
+      }
+      if (!res.success) {
+        toast.error(res.error || 'Could not claim this court');
+      } else {
+        toast.success(`${entry.courtName || 'Court'} is booked`);
+        onClaimed?.();
+      }
+      await fetchEntries();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleLeave = async (entry: CourtWaitlistEntry) => {
+    setBusyId(entry.id);
+    try {
+      const res = await courtWaitlistApi.leave(entry.id);
+      if (!res.success) {
+        toast.error(res.error || 'Could not leave the waitlist');
+      }
+      await fetchEntries();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (entries.length === 0) return null;
+
+  const sorted = [...entries].sort(
+    (a, b) => Number(b.status === 'offered') - Number(a.status === 'offered')
+  );
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Hourglass className="h-4 w-4 text-amber-600" />
+        <h2 className="text-sm font-semibold text-gray-900">Court Waitlist</h2>
+      </div>
+      {sorted.map((entry) => {
+        const isOffer = entry.status === 'offered';
+        return (
+          <div
+            key={entry.id}
+            className={`flex items-start justify-between gap-3 rounded-md border p-3 ${
+              isOffer ? 'border-green-400 bg-green-50' : 'border-gray-200'
+            }`}
+          >
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="font-semibold text-gray-900 text-sm">{entry.courtName || 'Court'}</span>
+                {entry.facilityName && (
+                  <span className="text-xs text-gray-500 flex items-center gap-0.5">
+                    <MapPin className="h-3 w-3" />
+                    {entry.facilityName}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-3 flex-wrap text-sm text-gray-600">
+                <span className="flex items-center gap-1">
+                  <Calendar className="h-3.5 w-3.5 text-gray-400" />
+                  {formatDate(entry.bookingDate)}
+                </span>
+                <span className="flex items-center gap-1">
+                  <Clock className="h-3.5 w-3.5 text-gray-400" />
+                  {formatTime(entry.startTime)} – {formatTime(entry.endTime)}
+                </span>
+              </div>
+              {isOffer && entry.offerExpiresAt ? (
+                <p className="text-xs text-green-700">
+                  This court opened up for you — claim it by {formatClaimBy(entry.offerExpiresAt)}.
+                </p>
+              ) : (
+                <Badge className="text-xs bg-amber-100 text-amber-800 border-amber-300">
+                  #{entry.position ?? 1} in line
+                </Badge>
+              )}
+            </div>
+            <div className="flex flex-col items-end gap-2 shrink-0">
+              {isOffer && (
+                <Button size="sm" disabled={busyId !== null} onClick={() => handleClaim(entry)}>
+                  Claim
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-gray-500"
+                disabled={busyId !== null}
+                onClick={() => handleLeave(entry)}
+              >
+                {isOffer ? 'Decline' : 'Leave'}
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
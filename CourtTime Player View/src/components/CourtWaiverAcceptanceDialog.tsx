@@ -15,6 +15,12 @@ export interface PendingCourtWaiver {
   publishedAt: string;
 }
 
+/** A parent's dependent the waiver is being accepted for. */
+export interface WaiverDependent {
+  id: string;
+  firstName: string;
+}
+
 /**
  * Gate a booking action behind per-court waiver acceptance.
  *
@@ -26,6 +32,7 @@ export interface PendingCourtWaiver {
  */
 export function useCourtWaiverGate() {
   const [pendingWaivers, setPendingWaivers] = useState<PendingCourtWaiver[]>([]);
+  const [dependent, setDependent] = useState<WaiverDependent | null>(null);
   const resolverRef = useRef<((accepted: boolean) => void) | null>(null);
 
   const finish = useCallback((accepted: boolean) => {
@@ -34,13 +41,14 @@ export function useCourtWaiverGate() {
     resolverRef.current = null;
   }, []);
 
-  const ensureAccepted = useCallback(async (courtIds: string[]): Promise<boolean> => {
+  // Pass `forDependent` when a parent books for a child; the parent accepts on their behalf.
+  const ensureAccepted = useCallback(async (courtIds: string[], forDependent?: WaiverDependent | null): Promise<boolean> => {
     const uniqueIds = [...new Set(courtIds.filter(Boolean))];
     if (uniqueIds.length === 0) return true;
 
     let waivers: PendingCourtWaiver[] = [];
     try {
-      const res = await bookingApi.getPendingCourtWaivers(uniqueIds);
+      const res = await bookingApi.getPendingCourtWaivers(uniqueIds, forDependent?.id);
       if (res.success) {
         const payload = (res.data as any)?.data ?? res.data;
         waivers = (payload?.pending ?? []) as PendingCourtWaiver[];
@@ -54,6 +62,7 @@ export function useCourtWaiverGate() {
 
     if (waivers.length === 0) return true;
 
+    setDependent(forDependent ?? null);
     setPendingWaivers(waivers);
     return new Promise<boolean>((resolve) => {
       resolverRef.current = resolve;
@@ -79,6 +88,7 @@ export function useCourtWaiverGate() {
     ensureAccepted,
     dialogProps: {
       pendingWaivers,
+      dependent,
       onAccepted: handleAccepted,
       onDeclined: handleDeclined,
     },
@@ -87,10 +97,13 @@ export function useCourtWaiverGate() {
 
 export function CourtWaiverAcceptanceDialog({
   pendingWaivers,
+  dependent = null,
   onAccepted,
   onDeclined,
 }: {
   pendingWaivers: PendingCourtWaiver[];
+  /** Set when a parent is accepting for one of their dependents. */
+  dependent?: WaiverDependent | null;
   onAccepted: (courtId: string) => void;
   onDeclined: () => void;
 }) {
@@ -117,7 +130,7 @@ export function CourtWaiverAcceptanceDialog({
     setSubmitting(true);
     setError(null);
     try {
-      const res = await bookingApi.acceptCourtWaiver(current.courtId);
+      const res = await bookingApi.acceptCourtWaiver(current.courtId, dependent?.id);
       if (res.success) {
         onAccepted(current.courtId);
       } else {
@@ -158,7 +171,9 @@ export function CourtWaiverAcceptanceDialog({
             onCheckedChange={(checked) => setAgreed(Boolean(checked))}
           />
           <label htmlFor={`court-waiver-agree-${current.courtId}`} className="text-sm leading-5">
-            I have read and agree to the waiver for {current.courtName}
+            {dependent
+              ? `As ${dependent.firstName}'s parent or guardian, I have read and agree to the waiver for ${current.courtName} on their behalf`
+              : `I have read and agree to the waiver for ${current.courtName}`}
           </label>
         </div>
 
@@ -0,0 +1,238 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Baby, ChevronDown, ChevronUp, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { dependentsApi, type Dependent, type DependentBooking, type DependentInput } from '../api/client';
+import { toast } from 'sonner';
+
+const EMPTY_FORM: DependentInput = { firstName: '', lastName: '', dateOfBirth: '', gender: null };
+
+function formatBookingTime(booking: DependentBooking) {
+  const date = new Date(`${booking.bookingDate}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short', month: 'short', day: 'numeric',
+  });
+  const start = new Date(`${booking.bookingDate}T${booking.startTime}`).toLocaleTimeString('en-US', {
+    hour: 'numeric', minute: '2-digit',
+  });
+  return `${date} · ${start}`;
+}
+
+/**
+ * The parent's junior/dependent profiles. Dependents can't sign in; the
+ * parent books courts and signs them up for drills from their own account,
+ * and receives their notifications.
+ */
+export function FamilyDependentsCard() {
+  const [dependents, setDependents] = useState<Dependent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<DependentInput>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [bookings, setBookings] = useState<DependentBooking[]>([]);
+
+  const load = useCallback(async () => {
+    const res = await dependentsApi.list();
+    setDependents(res.success ? res.data ?? [] : []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const openAdd = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (dependent: Dependent) => {
+    setEditingId(dependent.id);
+    setForm({
+      firstName: dependent.firstName,
+      lastName: dependent.lastName,
+      dateOfBirth: dependent.dateOfBirth,
+      gender: dependent.gender,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const res = editingId ? await dependentsApi.update(editingId, form) : await dependentsApi.create(form);
+    setSaving(false);
+    if (!res.success) {
+      toast.error(res.error || 'Failed to save dependent');
+      return;
+    }
+    toast.success(editingId ? 'Dependent updated' : 'Dependent added');
+    setDialogOpen(false);
+    load();
+  };
+
+  const handleRemove = async (dependent: Dependent) => {
+    if (!window.confirm(`Remove ${dependent.fullName}? Their bookings and signups will be cancelled.`)) return;
+    const res = await dependentsApi.remove(dependent.id);
+    if (!res.success) {
+      toast.error(res.error || 'Failed to remove dependent');
+      return;
+    }
+    toast.success(`${dependent.firstName} removed`);
+    if (expandedId === dependent.id) setExpandedId(null);
+    load();
+  };
+
+  const toggleBookings = async (dependentId: string) => {
+    if (expandedId === dependentId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(dependentId);
+    setBookings([]);
+    const res = await dependentsApi.getUpcomingBookings(dependentId);
+    if (res.success) setBookings(res.data ?? []);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Baby className="h-5 w-5" />
+              Family
+            </CardTitle>
+            <CardDescription>
+              Junior players you manage. Book courts and sign them up for drills from your account.
+            </CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={openAdd}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : dependents.length === 0 ? (
+          <p className="text-sm text-gray-500">No dependents yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {dependents.map(dependent => (
+              <div key={dependent.id} className="border rounded-lg">
+                <div className="flex items-center justify-between px-3 py-2">
+                  <button
+                    type="button"
+                    className="flex items-center gap-2 text-left min-w-0"
+                    onClick={() => toggleBookings(dependent.id)}
+                  >
+                    {expandedId === dependent.id ? (
+                      <ChevronUp className="h-4 w-4 text-gray-400" />
+                    ) : (
+                      <ChevronDown className="h-4 w-4 text-gray-400" />
+                    )}
+                    <span className="font-medium text-sm truncate">{dependent.fullName}</span>
+                  </button>
+                  <div className="flex items-center gap-1">
+                    <Button size="sm" variant="ghost" onClick={() => openEdit(dependent)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" className="text-red-600" onClick={() => handleRemove(dependent)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {expandedId === dependent.id && (
+                  <div className="border-t bg-gray-50 px-3 py-2">
+                    {bookings.length === 0 ? (
+                      <p className="text-xs text-gray-500">No upcoming bookings.</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {bookings.map(booking => (
+                          <li key={booking.id} className="text-xs text-gray-700">
+                            {formatBookingTime(booking)} · {booking.courtName}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit dependent' : 'Add dependent'}</DialogTitle>
+            <DialogDescription>Dependents must be under 18.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="dependent-first-name">First name</Label>
+                <Input
+                  id="dependent-first-name"
+                  value={form.firstName}
+                  onChange={(e) => setForm(prev => ({ ...prev, firstName: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="dependent-last-name">Last name</Label>
+                <Input
+                  id="dependent-last-name"
+                  value={form.lastName}
+                  onChange={(e) => setForm(prev => ({ ...prev, lastName: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="dependent-dob">Date of birth</Label>
+              <Input
+                id="dependent-dob"
+                type="date"
+                value={form.dateOfBirth}
+                onChange={(e) => setForm(prev => ({ ...prev, dateOfBirth: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label>Gender</Label>
+              <Select
+                value={form.gender ?? 'unset'}
+                onValueChange={(val: string) =>
+                  setForm(prev => ({ ...prev, gender: val === 'unset' ? null : (val as Dependent['gender']) }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unset">Not specified</SelectItem>
+                  <SelectItem value="male">Male</SelectItem>
+                  <SelectItem value="female">Female</SelectItem>
+                  <SelectItem value="other">Other</SelectItem>
+                  <SelectItem value="prefer_not_to_say">Prefer not to say</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
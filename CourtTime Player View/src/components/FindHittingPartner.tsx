@@ -1,9 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { NotificationBell } from './NotificationBell';
-import { Search, Filter, Users, Calendar, Plus, X, Building, Edit, Trash2, AlertCircle, MessageCircle } from 'lucide-react';
+import { Search, Filter, Users, Calendar, Plus, X, Building, Edit, Trash2, AlertCircle, MessageCircle, Send, Sparkles } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { hittingPartnerApi, playerProfileApi, facilitiesApi } from '../api/client';
+import { hittingPartnerApi, playerProfileApi, facilitiesApi, matchResultsApi, type PartnerSuggestion } from '../api/client';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from './ui/card';
 import { Input } from './ui/input';
@@ -15,6 +15,13 @@ import { Avatar, AvatarFallback } from './ui/avatar';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
 import { toast } from 'sonner';
 import { sortFacilitiesByName } from '../../shared/utils/facilitySort';
+import {
+  SKILL_LEVELS,
+  WEEKDAY_SHORT_LABELS,
+  type AvailabilityWindow,
+  formatAvailabilityWindow,
+} from '../../shared/utils/hittingPartnerAvailability';
+import { HittingInvitationsCard, ProposeHitDialog, type HitTarget } from './HittingInvitationsCard';
 
 export function FindHittingPartner() {
   const navigate = useNavigate();
@@ -28,11 +35,21 @@ export function FindHittingPartner() {
   const [filterLevel, setFilterLevel] = useState('all');
   const [filterPlayStyle, setFilterPlayStyle] = useState('all');
   const [selectedFacilityFilter, setSelectedFacilityFilter] = useState<string>('all');
+  const [sortBy, setSortBy] = useState<'newest' | 'rating'>('newest');
+  // The viewer's club rating per facility, for "closest to my rating" sorting.
+  const [myRatings, setMyRatings] = useState<Record<string, number>>({});
+  const [suggestions, setSuggestions] = useState<(PartnerSuggestion & { facilityId: string; facilityName: string })[]>([]);
+  const [hitTarget, setHitTarget] = useState<HitTarget | null>(null);
+  // Bumped after sending an invitation so the invitations card reloads.
+  const [invitationsKey, setInvitationsKey] = useState(0);
 
   // Form state for creating/editing post
   const [formData, setFormData] = useState({
     facilityId: '',
     availability: '',
+    availabilityWindows: [] as AvailabilityWindow[],
+    skillMin: '',
+    skillMax: '',
     playStyle: [] as string[],
     description: '',
     expiresInDays: 30
@@ -85,6 +102,32 @@ export function FindHittingPartner() {
 
       setMemberFacilities(sortFacilitiesByName(activeFacilities));
 
+      try {
+        const ratingsResponse = await matchResultsApi.getMyRatings();
+        if (ratingsResponse.success) {
+          setMyRatings(Object.fromEntries(ratingsResponse.ratings.map((r) => [r.facilityId, r.rating])));
+        }
+      } catch (err) {
+        console.error('Error loading club ratings:', err);
+      }
+
+      const suggestionLists = await Promise.all(
+        activeFacilities.map(async (facility: any) => {
+          try {
+            const response = await hittingPartnerApi.getSuggestions(facility.facilityId);
+            return response.suggestions.map((suggestion) => ({
+              ...suggestion,
+              facilityId: facility.facilityId,
+              facilityName: facility.facilityName,
+            }));
+          } catch (err) {
+            console.error('Error loading partner suggestions:', err);
+            return [];
+          }
+        })
+      );
+      setSuggestions(suggestionLists.flat().sort((a, b) => b.score - a.score).slice(0, 5));
+
       // Set default facility for creating posts
       if (activeFacilities.length > 0 && !formData.facilityId) {
         setFormData(prev => ({ ...prev, facilityId: activeFacilities[0].facilityId }));
@@ -147,7 +190,12 @@ export function FindHittingPartner() {
       return;
     }
 
-    if (!formData.availability || !formData.description || formData.playStyle.length === 0) {
+    if (!formData.availability && formData.availabilityWindows.length === 0) {
+      toast.error('Add at least one availability window or describe your availability');
+      return;
+    }
+
+    if (!formData.description || formData.playStyle.length === 0) {
       toast.error('Please fill in all required fields');
       return;
     }
@@ -162,6 +210,9 @@ export function FindHittingPartner() {
         userId: user.id,
         facilityId: formData.facilityId,
         availability: formData.availability,
+        availabilityWindows: formData.availabilityWindows,
+        skillMin: formData.skillMin || null,
+        skillMax: formData.skillMax || null,
         playStyle: formData.playStyle,
         description: formData.description,
         expiresInDays: formData.expiresInDays
@@ -187,6 +238,9 @@ export function FindHittingPartner() {
     try {
       const response = await hittingPartnerApi.update(editingPost.id, user.id, {
         availability: formData.availability,
+        availabilityWindows: formData.availabilityWindows,
+        skillMin: formData.skillMin || null,
+        skillMax: formData.skillMax || null,
         playStyle: formData.playStyle,
         description: formData.description,
         expiresInDays: formData.expiresInDays
@@ -233,6 +287,9 @@ export function FindHittingPartner() {
     setFormData({
       facilityId: post.facilityId,
       availability: post.availability,
+      availabilityWindows: post.availabilityWindows || [],
+      skillMin: post.skillMin || '',
+      skillMax: post.skillMax || '',
       playStyle: post.playStyle,
       description: post.description,
       expiresInDays: 30 // Default for editing
@@ -243,6 +300,9 @@ export function FindHittingPartner() {
     setFormData({
       facilityId: memberFacilities.length > 0 ? memberFacilities[0].facilityId : '',
       availability: '',
+      availabilityWindows: [],
+      skillMin: '',
+      skillMax: '',
       playStyle: [],
       description: '',
       expiresInDays: 30
@@ -258,6 +318,27 @@ export function FindHittingPartner() {
     }));
   };
 
+  const addWindow = () => {
+    setFormData(prev => ({
+      ...prev,
+      availabilityWindows: [...prev.availabilityWindows, { day: 2, start: '18:00', end: '20:00' }]
+    }));
+  };
+
+  const updateWindow = (index: number, changes: Partial<AvailabilityWindow>) => {
+    setFormData(prev => ({
+      ...prev,
+      availabilityWindows: prev.availabilityWindows.map((w, i) => (i === index ? { ...w, ...changes } : w))
+    }));
+  };
+
+  const removeWindow = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      availabilityWindows: prev.availabilityWindows.filter((_, i) => i !== index)
+    }));
+  };
+
   const formatPostedDate = (dateStr: string) => {
     const date = new Date(dateStr);
     const now = new Date();
@@ -290,6 +371,15 @@ export function FindHittingPartner() {
     return matchesSearch && matchesLevel && matchesPlayStyle;
   });
 
+  if (sortBy === 'rating') {
+    // Closest club rating at the post's facility first; unrated posts last.
+    const gap = (post: any) =>
+      post.clubRating != null && myRatings[post.facilityId] != null
+        ? Math.abs(post.clubRating - myRatings[post.facilityId])
+        : Infinity;
+    filteredPosts.sort((a, b) => gap(a) - gap(b));
+  }
+
   const hasNoFacilities = memberFacilities.length === 0;
 
   if (loading) {
@@ -345,6 +435,55 @@ export function FindHittingPartner() {
             </Card>
           )}
 
+          {!hasNoFacilities && <HittingInvitationsCard refreshKey={invitationsKey} />}
+
+          {/* Suggested Partners */}
+          {suggestions.length > 0 && (
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Sparkles className="h-5 w-5" />
+                  Suggested for You
+                </CardTitle>
+                <CardDescription>Ranked by shared availability, skill, rating and play style</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {suggestions.map((suggestion) => (
+                  <div key={suggestion.postId} className="flex items-center justify-between gap-4 rounded-md border p-3">
+                    <div className="text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{suggestion.userName}</span>
+                        <Badge variant="secondary">{suggestion.score}% match</Badge>
+                        {suggestion.skillLevel && <Badge variant="outline">{suggestion.skillLevel}</Badge>}
+                        {memberFacilities.length > 1 && (
+                          <span className="text-gray-500">{suggestion.facilityName}</span>
+                        )}
+                      </div>
+                      <p className="text-gray-600 mt-1">
+                        {suggestion.overlap.length > 0
+                          ? `Both free ${suggestion.overlap.map(formatAvailabilityWindow).join(', ')}`
+                          : suggestion.availability}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => setHitTarget({
+                        facilityId: suggestion.facilityId,
+                        userId: suggestion.userId,
+                        userName: suggestion.userName,
+                        postId: suggestion.postId,
+                        overlap: suggestion.overlap
+                      })}
+                    >
+                      <Send className="h-4 w-4 mr-1" />
+                      Propose a Hit
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Filters */}
           <Card className="mb-6">
             <CardContent className="pt-6">
@@ -416,6 +555,21 @@ export function FindHittingPartner() {
                     </SelectContent>
                   </Select>
                 </div>
+
+                {Object.keys(myRatings).length > 0 && (
+                  <div>
+                    <Label>Sort</Label>
+                    <Select value={sortBy} onValueChange={(value: string) => setSortBy(value as 'newest' | 'rating')}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="newest">Newest</SelectItem>
+                        <SelectItem value="rating">Closest to my rating</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -455,6 +609,9 @@ export function FindHittingPartner() {
                                 {post.skillLevel && (
                                   <Badge variant="outline">{post.skillLevel}</Badge>
                                 )}
+                                {post.clubRating != null && (
+                                  <Badge variant="outline">Rating {Math.round(post.clubRating)}</Badge>
+                                )}
                                 <Badge variant="secondary">
                                   <Building className="h-3 w-3 mr-1" />
                                   {post.facilityName}
@@ -463,14 +620,30 @@ export function FindHittingPartner() {
                             </div>
                             <div className="flex gap-2">
                               {!isMyPost && (
-                                <Button
-                                  variant="default"
-                                  size="sm"
-                                  onClick={() => navigate(`/messages?recipientId=${post.userId}`)}
-                                >
-                                  <MessageCircle className="h-4 w-4 mr-1" />
-                                  Message
-                                </Button>
+                                <>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setHitTarget({
+                                      facilityId: post.facilityId,
+                                      userId: post.userId,
+                                      userName: post.userName,
+                                      postId: post.id,
+                                      overlap: suggestions.find(s => s.postId === post.id)?.overlap
+                                    })}
+                                  >
+                                    <Send className="h-4 w-4 mr-1" />
+                                    Propose a Hit
+                                  </Button>
+                                  <Button
+                                    variant="default"
+                                    size="sm"
+                                    onClick={() => navigate(`/messages?recipientId=${post.userId}`)}
+                                  >
+                                    <MessageCircle className="h-4 w-4 mr-1" />
+                                    Message
+                                  </Button>
+                                </>
                               )}
                               {isMyPost && (
                                 <>
@@ -497,7 +670,21 @@ export function FindHittingPartner() {
                           <div className="grid grid-cols-2 gap-4 mb-3 text-sm">
                             <div>
                               <span className="text-gray-600">Availability:</span>
-                              <p className="font-medium">{post.availability}</p>
+                              {post.availability && <p className="font-medium">{post.availability}</p>}
+                              {post.availabilityWindows?.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                  {post.availabilityWindows.map((w: AvailabilityWindow, idx: number) => (
+                                    <Badge key={idx} variant="outline" className="text-xs">
+                                      {formatAvailabilityWindow(w)}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              )}
+                              {(post.skillMin || post.skillMax) && (
+                                <p className="text-xs text-gray-500 mt-1">
+                                  Looking for {post.skillMin || 'any'} – {post.skillMax || 'any'}
+                                </p>
+                              )}
                             </div>
                             <div>
                               <span className="text-gray-600">Play Style:</span>
@@ -567,12 +754,90 @@ export function FindHittingPartner() {
                 )}
 
                 <div>
-                  <Label>Availability *</Label>
+                  <div className="flex items-center justify-between">
+                    <Label>When You're Free *</Label>
+                    <Button type="button" variant="ghost" size="sm" onClick={addWindow}>
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Time
+                    </Button>
+                  </div>
+                  <div className="space-y-2 mt-2">
+                    {formData.availabilityWindows.map((w, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <Select
+                          value={String(w.day)}
+                          onValueChange={(value: string) => updateWindow(index, { day: Number(value) })}
+                        >
+                          <SelectTrigger className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {WEEKDAY_SHORT_LABELS.map((label, day) => (
+                              <SelectItem key={day} value={String(day)}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="time"
+                          value={w.start}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateWindow(index, { start: e.target.value })}
+                        />
+                        <span className="text-gray-500">to</span>
+                        <Input
+                          type="time"
+                          value={w.end}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateWindow(index, { end: e.target.value })}
+                        />
+                        <Button type="button" variant="ghost" size="sm" onClick={() => removeWindow(index)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
                   <Input
-                    placeholder="e.g., Weekday mornings, Tuesday & Thursday evenings"
+                    className="mt-2"
+                    placeholder="Anything else, e.g., flexible on weekends"
                     value={formData.availability}
                     onChange={(e) => setFormData(prev => ({ ...prev, availability: e.target.value }))}
                   />
+                  <p className="text-xs text-gray-500 mt-1">Times you add are used to suggest partners who are free then too</p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>Partner Level From</Label>
+                    <Select
+                      value={formData.skillMin || 'any'}
+                      onValueChange={(value: string) => setFormData(prev => ({ ...prev, skillMin: value === 'any' ? '' : value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">Any</SelectItem>
+                        {SKILL_LEVELS.map((level) => (
+                          <SelectItem key={level} value={level}>{level}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Partner Level To</Label>
+                    <Select
+                      value={formData.skillMax || 'any'}
+                      onValueChange={(value: string) => setFormData(prev => ({ ...prev, skillMax: value === 'any' ? '' : value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">Any</SelectItem>
+                        {SKILL_LEVELS.map((level) => (
+                          <SelectItem key={level} value={level}>{level}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
 
                 <div>
@@ -631,6 +896,12 @@ export function FindHittingPartner() {
               </div>
             </DialogContent>
           </Dialog>
+
+          <ProposeHitDialog
+            target={hitTarget}
+            onClose={() => setHitTarget(null)}
+            onSent={() => setInvitationsKey(key => key + 1)}
+          />
         </div>
     </>
   );
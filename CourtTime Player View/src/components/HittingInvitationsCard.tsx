@@ -0,0 +1,348 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Send } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { facilitiesApi, hittingPartnerApi, type HittingInvitation } from '../api/client';
+import { formatLeagueDate, formatLeagueTime } from './LeagueSeasonView';
+import {
+  type AvailabilityWindow,
+  formatAvailabilityWindow,
+  timeToMinutes,
+} from '../../shared/utils/hittingPartnerAvailability';
+import { toast } from 'sonner';
+
+export interface HitTarget {
+  facilityId: string;
+  userId: string;
+  userName: string;
+  postId?: string;
+  /** Shared availability, used to pre-fill the first suggested slot. */
+  overlap?: AvailabilityWindow[];
+}
+
+const DURATIONS = [60, 90, 120];
+
+function addMinutes(time: string, minutes: number) {
+  const total = timeToMinutes(time) + minutes;
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+function toDateInput(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/** The next date (today onwards) that falls on `window`'s weekday before it starts. */
+function nextDateFor(window: AvailabilityWindow) {
+  const now = new Date();
+  const date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  let offset = (window.day - date.getDay() + 7) % 7;
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+  if (offset === 0 && timeToMinutes(window.start) <= nowMinutes) offset = 7;
+  date.setDate(date.getDate() + offset);
+  return toDateInput(date);
+}
+
+function statusVariant(status: HittingInvitation['status']) {
+  if (status === 'booked') return 'default' as const;
+  if (status === 'failed') return 'destructive' as const;
+  return 'outline' as const;
+}
+
+/** Court, date and time picker that sends a hitting invitation to `target`. */
+export function ProposeHitDialog({
+  target,
+  onClose,
+  onSent,
+}: {
+  target: HitTarget | null;
+  onClose: () => void;
+  onSent: () => void;
+}) {
+  const [courts, setCourts] = useState<{ id: string; name: string }[]>([]);
+  const [courtId, setCourtId] = useState('');
+  const [bookingDate, setBookingDate] = useState('');
+  const [startTime, setStartTime] = useState('18:00');
+  const [duration, setDuration] = useState(60);
+  const [message, setMessage] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    if (!target) return;
+    const first = target.overlap?.[0];
+    setBookingDate(first ? nextDateFor(first) : toDateInput(new Date(Date.now() + 86_400_000)));
+    setStartTime(first ? first.start : '18:00');
+    setDuration(first && timeToMinutes(first.end) - timeToMinutes(first.start) >= 90 ? 90 : 60);
+    setMessage('');
+    setCourtId('');
+
+    facilitiesApi
+      .getCourts(target.facilityId)
+      .then((res: any) => {
+        const list = (res.data?.courts || []).filter((c: any) => !(c.isWalkUp ?? c.is_walk_up));
+        setCourts(list.map((c: any) => ({ id: c.id, name: c.name })));
+        if (list.length > 0) setCourtId(list[0].id);
+      })
+      .catch(() => setCourts([]));
+  }, [target]);
+
+  const send = async () => {
+    if (!target || !courtId || !bookingDate || !startTime) {
+      toast.error('Pick a court, date and time');
+      return;
+    }
+    if (timeToMinutes(startTime) + duration > 24 * 60) {
+      toast.error('The hit has to finish by midnight');
+      return;
+    }
+    setSending(true);
+    try {
+      const res = await hittingPartnerApi.proposeHit({
+        facilityId: target.facilityId,
+        toUserId: target.userId,
+        postId: target.postId,
+        courtId,
+        bookingDate,
+        startTime,
+        endTime: addMinutes(startTime, duration),
+        message: message.trim() || undefined,
+      });
+      if (res.success) {
+        toast.success(`Invitation sent to ${target.userName}`);
+        onSent();
+        onClose();
+      } else {
+        toast.error(res.error || 'Failed to send invitation');
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={target !== null} onOpenChange={(open: boolean) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Propose a hit with {target?.userName}</DialogTitle>
+          <DialogDescription>
+            The court is booked in your name once they accept, if it's still free.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {target?.overlap && target.overlap.length > 0 && (
+            <p className="text-sm text-gray-600">
+              You're both free {target.overlap.map(formatAvailabilityWindow).join(', ')}
+            </p>
+          )}
+          <div>
+            <Label>Court</Label>
+            <Select value={courtId} onValueChange={(value: string) => setCourtId(value)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select court" />
+              </SelectTrigger>
+              <SelectContent>
+                {courts.map((court) => (
+                  <SelectItem key={court.id} value={court.id}>
+                    {court.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <Label>Date</Label>
+              <Input
+                type="date"
+                value={bookingDate}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setBookingDate(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Start</Label>
+              <Input
+                type="time"
+                step={1800}
+                value={startTime}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStartTime(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Length</Label>
+              <Select value={String(duration)} onValueChange={(value: string) => setDuration(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DURATIONS.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes} min
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label>Message (optional)</Label>
+            <Textarea
+              rows={2}
+              value={message}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setMessage(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={send} disabled={sending || !courtId}>
+            <Send className="h-4 w-4 mr-2" />
+            Send Invitation
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Hitting invitations sent and received: pending ones to answer or withdraw,
+ * plus recent outcomes. Renders nothing when there are none.
+ */
+export function HittingInvitationsCard({ refreshKey }: { refreshKey: number }) {
+  const [incoming, setIncoming] = useState<HittingInvitation[]>([]);
+  const [outgoing, setOutgoing] = useState<HittingInvitation[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await hittingPartnerApi.getInvitations();
+      if (res.success) {
+        setIncoming(res.incoming);
+        setOutgoing(res.outgoing);
+      }
+    } catch (error) {
+      console.error('Error loading hitting invitations:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const respond = async (invitation: HittingInvitation, accept: boolean) => {
+    setBusyId(invitation.id);
+    try {
+      const res = await hittingPartnerApi.respondToInvitation(invitation.id, accept);
+      if (!res.success) {
+        toast.error(res.error || 'Failed to respond');
+      } else if (res.invitation?.status === 'booked') {
+        toast.success(`Booked with ${invitation.fromName}`);
+      } else if (res.invitation?.status === 'failed') {
+        toast.error(res.invitation.failureReason || 'The court could not be booked');
+      } else {
+        toast.success('Invitation declined');
+      }
+      await load();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const cancel = async (invitation: HittingInvitation) => {
+    setBusyId(invitation.id);
+    try {
+      const res = await hittingPartnerApi.cancelInvitation(invitation.id);
+      if (res.success) {
+        toast.success('Invitation cancelled');
+        await load();
+      } else {
+        toast.error(res.error || 'Failed to cancel invitation');
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const all = [...incoming, ...outgoing];
+  if (all.length === 0) return null;
+
+  const pendingIncoming = incoming.filter((i) => i.status === 'pending');
+  const pendingOutgoing = outgoing.filter((i) => i.status === 'pending');
+  const recent = all.filter((i) => i.status !== 'pending');
+
+  const when = (i: HittingInvitation) =>
+    `${formatLeagueDate(i.bookingDate)}, ${formatLeagueTime(i.startTime)}–${formatLeagueTime(i.endTime)} · ${i.courtName}`;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="text-lg">Hitting Invitations</CardTitle>
+        <CardDescription>The court is booked when the invited player accepts</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {pendingIncoming.map((invitation) => (
+          <div key={invitation.id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+            <div className="text-sm">
+              <p className="font-medium">{invitation.fromName} invited you</p>
+              <p className="text-gray-600">{when(invitation)}</p>
+              {invitation.message && <p className="text-gray-700 mt-1">"{invitation.message}"</p>}
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" disabled={busyId === invitation.id} onClick={() => respond(invitation, true)}>
+                Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={busyId === invitation.id}
+                onClick={() => respond(invitation, false)}
+              >
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {pendingOutgoing.map((invitation) => (
+          <div key={invitation.id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+            <div className="text-sm">
+              <p className="font-medium">Waiting on {invitation.toName}</p>
+              <p className="text-gray-600">{when(invitation)}</p>
+            </div>
+            <Button size="sm" variant="outline" disabled={busyId === invitation.id} onClick={() => cancel(invitation)}>
+              Cancel
+            </Button>
+          </div>
+        ))}
+
+        {recent.length > 0 && (
+          <div className="space-y-2 pt-2">
+            <p className="text-xs font-medium uppercase text-gray-500">Recent</p>
+            {recent.map((invitation) => (
+              <div key={invitation.id} className="flex items-start justify-between gap-4 text-sm">
+                <div>
+                  <p>
+                    {incoming.includes(invitation) ? invitation.fromName : invitation.toName} · {when(invitation)}
+                  </p>
+                  {invitation.failureReason && <p className="text-red-600">{invitation.failureReason}</p>}
+                </div>
+                <Badge variant={statusVariant(invitation.status)} className="capitalize">
+                  {invitation.status}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from 'react';
+import { Calendar, MapPin } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import type { LeagueFixture, LeagueFormat, LeagueStandingRow } from '../api/client';
+
+export const LEAGUE_DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const LEAGUE_BOOKING_TYPE_LABELS: Record<string, string> = {
+  league_match: 'League Match',
+  alta_tennis: 'ALTA',
+  usta_tennis: 'USTA',
+  flex_tennis: 'Flex League',
+};
+
+export function formatLeagueDate(dateStr: string) {
+  return new Date(`${dateStr}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export function formatLeagueTime(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${minutes.toString().padStart(2, '0')} ${period}`;
+}
+
+/** Standings table; ladders show rank only, round-robin tables show score difference. */
+export function LeagueStandingsTable({ format, standings }: { format: LeagueFormat; standings: LeagueStandingRow[] }) {
+  if (standings.length === 0) {
+    return <p className="text-sm text-gray-400">No teams yet.</p>;
+  }
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500">
+          <th className="py-1 w-10">{format === 'ladder' ? 'Rank' : '#'}</th>
+          <th className="py-1">Team</th>
+          <th className="py-1 text-right">P</th>
+          <th className="py-1 text-right">W</th>
+          <th className="py-1 text-right">L</th>
+          {format === 'round_robin' && <th className="py-1 text-right">+/−</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {standings.map((row) => (
+          <tr key={row.teamId} className="border-t border-gray-100">
+            <td className="py-1.5 text-gray-500">{row.position}</td>
+            <td className="py-1.5 font-medium text-gray-900">{row.teamName}</td>
+            <td className="py-1.5 text-right">{row.played}</td>
+            <td className="py-1.5 text-right">{row.won}</td>
+            <td className="py-1.5 text-right">{row.lost}</td>
+            {format === 'round_robin' && (
+              <td className="py-1.5 text-right">
+                {row.scoreFor - row.scoreAgainst > 0 ? '+' : ''}
+                {row.scoreFor - row.scoreAgainst}
+              </td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function FixtureStatusBadge({ fixture }: { fixture: LeagueFixture }) {
+  switch (fixture.status) {
+    case 'completed':
+      return (
+        <Badge className="bg-green-100 text-green-700 hover:bg-green-100">
+          {fixture.homeScore}–{fixture.awayScore}
+        </Badge>
+      );
+    case 'unscheduled':
+      return <Badge className="bg-amber-100 text-amber-700 hover:bg-amber-100">Needs a court</Badge>;
+    case 'cancelled':
+      return <Badge className="bg-gray-100 text-gray-600 hover:bg-gray-100">Cancelled</Badge>;
+    default:
+      return null;
+  }
+}
+
+/** One fixture line: teams, date/time/court, and any actions the caller passes in. */
+export function LeagueFixtureRow({ fixture, actions }: { fixture: LeagueFixture; actions?: React.ReactNode }) {
+  return (
+    <div className="flex items-start justify-between gap-3 py-2.5">
+      <div className="min-w-0 space-y-1">
+        <div className="flex items-center gap-2 flex-wrap text-sm">
+          <span className={fixture.winnerTeamId === fixture.homeTeamId ? 'font-semibold' : ''}>
+            {fixture.homeTeamName}
+          </span>
+          <span className="text-gray-400">vs</span>
+          <span className={fixture.winnerTeamId === fixture.awayTeamId ? 'font-semibold' : ''}>
+            {fixture.awayTeamName}
+          </span>
+          <FixtureStatusBadge fixture={fixture} />
+        </div>
+        <div className="flex items-center gap-4 flex-wrap text-xs text-gray-500">
+          <span className="flex items-center gap-1">
+            <Calendar className="h-3.5 w-3.5" />
+            {formatLeagueDate(fixture.matchDate)} {formatLeagueTime(fixture.startTime)}
+          </span>
+          {fixture.courtName && (
+            <span className="flex items-center gap-1">
+              <MapPin className="h-3.5 w-3.5" />
+              {fixture.courtName}
+            </span>
+          )}
+          {fixture.scoreDetail && <span>{fixture.scoreDetail}</span>}
+        </div>
+      </div>
+      {actions && <div className="flex items-center gap-1 shrink-0">{actions}</div>}
+    </div>
+  );
+}
+
+/** Fixtures grouped by round. */
+export function LeagueFixtureList({
+  fixtures,
+  renderActions,
+}: {
+  fixtures: LeagueFixture[];
+  renderActions?: (fixture: LeagueFixture) => React.ReactNode;
+}) {
+  if (fixtures.length === 0) {
+    return <p className="text-sm text-gray-400">No matches scheduled yet.</p>;
+  }
+  const rounds = Array.from(new Set(fixtures.map((f) => f.roundNumber))).sort((a, b) => a - b);
+  return (
+    <div className="space-y-4">
+      {rounds.map((round) => (
+        <div key={round}>
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Round {round}</h4>
+          <div className="divide-y divide-gray-100">
+            {fixtures
+              .filter((f) => f.roundNumber === round)
+              .map((fixture) => (
+                <LeagueFixtureRow key={fixture.id} fixture={fixture} actions={renderActions?.(fixture)} />
+              ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface LeagueScoreDialogProps {
+  fixture: LeagueFixture | null;
+  onClose: () => void;
+  onSubmit: (data: { homeScore: number; awayScore: number; scoreDetail?: string }) => Promise<void>;
+}
+
+/** Enter or correct a score: sets (or rubbers) won by each side plus an optional line score. */
+export function LeagueScoreDialog({ fixture, onClose, onSubmit }: LeagueScoreDialogProps) {
+  const [homeScore, setHomeScore] = useState('');
+  const [awayScore, setAwayScore] = useState('');
+  const [scoreDetail, setScoreDetail] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setHomeScore(fixture?.homeScore != null ? String(fixture.homeScore) : '');
+    setAwayScore(fixture?.awayScore != null ? String(fixture.awayScore) : '');
+    setScoreDetail(fixture?.scoreDetail ?? '');
+  }, [fixture]);
+
+  const valid =
+    homeScore !== '' && awayScore !== '' && Number(homeScore) >= 0 && Number(awayScore) >= 0 && homeScore !== awayScore;
+
+  const handleSubmit = async () => {
+    if (!valid) return;
+    setSaving(true);
+    try {
+      await onSubmit({
+        homeScore: Number(homeScore),
+        awayScore: Number(awayScore),
+        scoreDetail: scoreDetail.trim() || undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(fixture)} onOpenChange={(open: boolean) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Enter score</DialogTitle>
+          <DialogDescription>
+            Sets or rubbers won by each side. Matches can't end in a tie.
+          </DialogDescription>
+        </DialogHeader>
+        {fixture && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>{fixture.homeTeamName}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={homeScore}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setHomeScore(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>{fixture.awayTeamName}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={awayScore}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAwayScore(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Line score (optional)</Label>
+              <Input
+                placeholder="6-4, 3-6, 10-7"
+                maxLength={200}
+                value={scoreDetail}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setScoreDetail(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => void handleSubmit()} disabled={!valid || saving}>
+            {saving ? 'Saving…' : 'Save score'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,196 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Trophy } from 'lucide-react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useAppContext } from '../contexts/AppContext';
+import {
+  leaguesApi,
+  type League,
+  type LeagueFixture,
+  type LeagueSeasonDetail,
+  type MyLeagueFixture,
+} from '../api/client';
+import {
+  LEAGUE_DAY_LABELS,
+  LeagueFixtureList,
+  LeagueFixtureRow,
+  LeagueScoreDialog,
+  LeagueStandingsTable,
+  formatLeagueTime,
+} from './LeagueSeasonView';
+import { toast } from 'sonner';
+
+/**
+ * Member Leagues tab (leagues feature flag): the member's upcoming league
+ * matches, plus standings and fixtures for any season at the club. Players
+ * enter scores for their own matches here; courts are reserved by the admin
+ * who generates the schedule.
+ */
+export function Leagues() {
+  const { selectedFacilityId } = useAppContext();
+  const [loading, setLoading] = useState(true);
+  const [unavailable, setUnavailable] = useState(false);
+  const [leagues, setLeagues] = useState<League[]>([]);
+  const [myFixtures, setMyFixtures] = useState<MyLeagueFixture[]>([]);
+  const [seasonId, setSeasonId] = useState<string>('');
+  const [detail, setDetail] = useState<LeagueSeasonDetail | null>(null);
+  const [scoring, setScoring] = useState<LeagueFixture | null>(null);
+
+  const load = useCallback(async () => {
+    if (!selectedFacilityId) return;
+    try {
+      setLoading(true);
+      const [leaguesRes, fixturesRes] = await Promise.all([
+        leaguesApi.getLeagues(selectedFacilityId),
+        leaguesApi.getMyFixtures(selectedFacilityId),
+      ]);
+      if (!leaguesRes.success) {
+        setUnavailable(true);
+        return;
+      }
+      setUnavailable(false);
+      setLeagues(leaguesRes.leagues);
+      setMyFixtures(fixturesRes.fixtures);
+      setSeasonId((current) => current || leaguesRes.leagues.flatMap((l) => l.seasons)[0]?.id || '');
+    } catch (err) {
+      console.error('Error loading leagues:', err);
+      toast.error('Failed to load leagues');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedFacilityId]);
+
+  const loadSeason = useCallback(async () => {
+    if (!selectedFacilityId || !seasonId) {
+      setDetail(null);
+      return;
+    }
+    const res = await leaguesApi.getSeason(selectedFacilityId, seasonId);
+    setDetail(res.success ? res.detail ?? null : null);
+  }, [selectedFacilityId, seasonId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    void loadSeason();
+  }, [loadSeason]);
+
+  const handleScore = async (data: { homeScore: number; awayScore: number; scoreDetail?: string }) => {
+    if (!selectedFacilityId || !scoring) return;
+    const res = await leaguesApi.recordResult(selectedFacilityId, scoring.id, data);
+    if (res.success) {
+      toast.success('Score saved');
+      setScoring(null);
+      await Promise.all([load(), loadSeason()]);
+    } else {
+      toast.error(res.error || 'Failed to save score');
+    }
+  };
+
+  if (!selectedFacilityId || unavailable) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 text-gray-400">
+        <Trophy className="h-12 w-12 mb-3" />
+        <p className="text-sm">
+          {selectedFacilityId ? 'Leagues are not enabled for this facility.' : 'Select a facility to see leagues.'}
+        </p>
+      </div>
+    );
+  }
+
+  const seasonOptions = leagues.flatMap((league) =>
+    league.seasons.map((season) => ({ id: season.id, label: `${league.name} — ${season.name}` }))
+  );
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="space-y-6 pb-20">
+      <div className="flex items-center gap-3">
+        <Trophy className="h-6 w-6 text-green-600" />
+        <h1 className="text-2xl font-semibold text-gray-900">Leagues</h1>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-16">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600" />
+        </div>
+      ) : (
+        <>
+          <Card className="p-4">
+            <h2 className="font-semibold text-gray-900 mb-2">My matches</h2>
+            {myFixtures.length === 0 ? (
+              <p className="text-sm text-gray-400">You have no upcoming league matches.</p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {myFixtures.map((fixture) => (
+                  <div key={fixture.id}>
+                    <p className="text-xs text-gray-500 pt-2">
+                      {fixture.leagueName} · {fixture.seasonName} · Round {fixture.roundNumber}
+                    </p>
+                    <LeagueFixtureRow
+                      fixture={fixture}
+                      actions={
+                        fixture.matchDate <= today && (
+                          <Button size="sm" variant="outline" onClick={() => setScoring(fixture)}>
+                            Enter score
+                          </Button>
+                        )
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+
+          {seasonOptions.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-16 text-gray-400">
+              <Trophy className="h-12 w-12 mb-3" />
+              <p className="text-sm">No league seasons yet.</p>
+            </div>
+          ) : (
+            <Card className="p-4 space-y-4">
+              <Select value={seasonId} onValueChange={(value: string) => setSeasonId(value)}>
+                <SelectTrigger className="w-full sm:w-96">
+                  <SelectValue placeholder="Choose a season" />
+                </SelectTrigger>
+                <SelectContent>
+                  {seasonOptions.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {detail && (
+                <>
+                  <p className="text-sm text-gray-600">
+                    {LEAGUE_DAY_LABELS[detail.season.matchDayOfWeek]}s at{' '}
+                    {formatLeagueTime(detail.season.matchStartTime)} ·{' '}
+                    {detail.season.format === 'ladder' ? 'Ladder' : 'Round robin'}
+                  </p>
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-900 mb-2">Standings</h3>
+                    <LeagueStandingsTable format={detail.season.format} standings={detail.standings} />
+                  </div>
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-900 mb-2">Fixtures</h3>
+                    <LeagueFixtureList fixtures={detail.fixtures} />
+                  </div>
+                </>
+              )}
+            </Card>
+          )}
+        </>
+      )}
+
+      <LeagueScoreDialog fixture={scoring} onClose={() => setScoring(null)} onSubmit={handleScore} />
+    </div>
+  );
+}
+
+export default Leagues;
@@ -14,12 +14,14 @@ import {
   type BulletinPostView,
 } from '../utils/bulletinPostDisplay';
 import { BulletinActivitySignupModal } from './BulletinActivitySignupModal';
+import { PrivateLessonsSection } from './PrivateLessonsSection';
 import { toast } from 'sonner';
 
 /**
  * Member Lessons tab (lessons_tab feature flag). Lessons are the same bulletin
  * posts served on the bulletin board and calendar; signup and payment reuse the
  * bulletin signup flow (BulletinActivitySignupModal → Stripe Connect).
+ * Private lessons with a pro are booked from PrivateLessonsSection above them.
  */
 export function Lessons() {
   const { user } = useAuth();
@@ -153,6 +155,8 @@ export function Lessons() {
         <h1 className="text-2xl font-semibold text-gray-900">Lessons</h1>
       </div>
 
+      <PrivateLessonsSection facilityId={selectedFacilityId} />
+
       {lessons.length === 0 ? (
         <div className="flex flex-col items-center justify-center py-20 text-gray-400">
           <Calendar className="h-12 w-12 mb-3" />
@@ -0,0 +1,502 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Plus, Trophy, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import {
+  bookingApi,
+  matchResultsApi,
+  type MatchResult,
+  type MyMatchResults,
+  type SetScore,
+} from '../api/client';
+import { formatLeagueDate, formatLeagueTime } from './LeagueSeasonView';
+import { toast } from 'sonner';
+
+type Member = { userId: string; fullName: string };
+
+/** The result from `userId`'s side: their team, the other team, and sets as "mine-theirs". */
+function fromSideOf(result: MatchResult, userId: string) {
+  const onA = result.teamA.some((p) => p.userId === userId);
+  return {
+    mine: onA ? result.teamA : result.teamB,
+    theirs: onA ? result.teamB : result.teamA,
+    won: result.winnerSide === (onA ? 'a' : 'b'),
+    score: result.sets.map((s) => (onA ? `${s.a}-${s.b}` : `${s.b}-${s.a}`)).join(', '),
+  };
+}
+
+function names(players: { fullName: string }[]) {
+  return players.map((p) => p.fullName).join(' & ');
+}
+
+/** Member search box that resolves to one picked member. */
+function MemberPicker({
+  facilityId,
+  label,
+  value,
+  excludeIds,
+  onChange,
+}: {
+  facilityId: string;
+  label: string;
+  value: Member | null;
+  excludeIds: string[];
+  onChange: (member: Member | null) => void;
+}) {
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<Member[]>([]);
+
+  useEffect(() => {
+    if (search.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    bookingApi
+      .lookupFacilityMembers(facilityId, search)
+      .then((res: any) => {
+        if (!cancelled) setResults(res.members || res.data?.members || []);
+      })
+      .catch(() => {
+        if (!cancelled) setResults([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [facilityId, search]);
+
+  return (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      {value ? (
+        <div className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+          {value.fullName}
+          <button type="button" className="text-gray-400 hover:text-gray-600" onClick={() => onChange(null)}>
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ) : (
+        <>
+          <Input
+            placeholder="Search member name or email"
+            value={search}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearch(e.target.value)}
+          />
+          {results
+            .filter((member) => !excludeIds.includes(member.userId))
+            .map((member) => (
+              <button
+                type="button"
+                key={member.userId}
+                className="block w-full text-left text-sm text-blue-700 hover:underline"
+                onClick={() => {
+                  onChange({ userId: member.userId, fullName: member.fullName });
+                  setSearch('');
+                  setResults([]);
+                }}
+              >
+                {member.fullName}
+              </button>
+            ))}
+        </>
+      )}
+    </div>
+  );
+}
+
+interface RecordResultDialogProps {
+  open: boolean;
+  facilityId: string;
+  userId: string;
+  bookings: MyMatchResults['reportableBookings'];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+/** Pick the booking, the players and the set scores (from the reporter's side). */
+function RecordResultDialog({ open, facilityId, userId, bookings, onClose, onSaved }: RecordResultDialogProps) {
+  const [bookingId, setBookingId] = useState('');
+  const [doubles, setDoubles] = useState(false);
+  const [partner, setPartner] = useState<Member | null>(null);
+  const [opponents, setOpponents] = useState<Array<Member | null>>([null, null]);
+  const [sets, setSets] = useState<Array<{ a: string; b: string }>>([{ a: '', b: '' }]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setBookingId(bookings[0]?.bookingId ?? '');
+    setDoubles(false);
+    setPartner(null);
+    setOpponents([null, null]);
+    setSets([{ a: '', b: '' }]);
+  }, [open, bookings]);
+
+  const picked = [userId, partner?.userId, ...opponents.map((o) => o?.userId)].filter(Boolean) as string[];
+  const opponentIds = (doubles ? opponents : opponents.slice(0, 1)).map((o) => o?.userId);
+  const parsedSets: SetScore[] = sets
+    .filter((s) => s.a !== '' || s.b !== '')
+    .map((s) => ({ a: Number(s.a), b: Number(s.b) }));
+  const ready =
+    Boolean(bookingId) &&
+    opponentIds.every(Boolean) &&
+    (!doubles || Boolean(partner)) &&
+    parsedSets.length > 0;
+
+  const setOpponent = (index: number, member: Member | null) =>
+    setOpponents((current) => current.map((o, i) => (i === index ? member : o)));
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await matchResultsApi.report(facilityId, {
+        bookingId,
+        opponentIds: opponentIds as string[],
+        partnerId: doubles ? partner?.userId : undefined,
+        sets: parsedSets,
+      });
+      if (res.success) {
+        toast.success('Result sent to your opponents to confirm');
+        onSaved();
+      } else {
+        toast.error(res.error || 'Failed to record result');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen: boolean) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Record a match result</DialogTitle>
+          <DialogDescription>
+            Your club rating updates once an opponent confirms the score.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Booking</Label>
+            <Select value={bookingId} onValueChange={(value: string) => setBookingId(value)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Pick the booking you played" />
+              </SelectTrigger>
+              <SelectContent>
+                {bookings.map((b) => (
+                  <SelectItem key={b.bookingId} value={b.bookingId}>
+                    {formatLeagueDate(b.bookingDate)} {formatLeagueTime(b.startTime)} · {b.courtName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Format</Label>
+            <Select value={doubles ? 'doubles' : 'singles'} onValueChange={(value: string) => setDoubles(value === 'doubles')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="singles">Singles</SelectItem>
+                <SelectItem value="doubles">Doubles</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {doubles && (
+            <MemberPicker
+              facilityId={facilityId}
+              label="Your partner"
+              value={partner}
+              excludeIds={picked}
+              onChange={setPartner}
+            />
+          )}
+          <MemberPicker
+            facilityId={facilityId}
+            label={doubles ? 'Opponent 1' : 'Opponent'}
+            value={opponents[0]}
+            excludeIds={picked}
+            onChange={(member: Member | null) => setOpponent(0, member)}
+          />
+          {doubles && (
+            <MemberPicker
+              facilityId={facilityId}
+              label="Opponent 2"
+              value={opponents[1]}
+              excludeIds={picked}
+              onChange={(member: Member | null) => setOpponent(1, member)}
+            />
+          )}
+          <div className="space-y-2">
+            <div className="grid grid-cols-[3rem_1fr_1fr_2rem] gap-2 text-xs font-medium text-gray-500">
+              <span />
+              <span>{doubles ? 'Your team' : 'You'}</span>
+              <span>{doubles ? 'Opponents' : 'Opponent'}</span>
+              <span />
+            </div>
+            {sets.map((set, index) => (
+              <div key={index} className="grid grid-cols-[3rem_1fr_1fr_2rem] gap-2 items-center">
+                <span className="text-sm text-gray-500">Set {index + 1}</span>
+                {(['a', 'b'] as const).map((side) => (
+                  <Input
+                    key={side}
+                    type="number"
+                    min={0}
+                    max={99}
+                    value={set[side]}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setSets((current) => current.map((s, i) => (i === index ? { ...s, [side]: e.target.value } : s)))
+                    }
+                  />
+                ))}
+                {index > 0 ? (
+                  <button
+                    type="button"
+                    className="text-gray-400 hover:text-gray-600"
+                    onClick={() => setSets((current) => current.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                ) : (
+                  <span />
+                )}
+              </div>
+            ))}
+            {sets.length < 5 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="gap-1"
+                onClick={() => setSets((current) => [...current, { a: '', b: '' }])}
+              >
+                <Plus className="h-4 w-4" />
+                Add set
+              </Button>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => void handleSave()} disabled={saving || !ready}>
+            {saving ? 'Sending…' : 'Send for confirmation'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Profile card for club ratings (club_ratings feature flag): the member's
+ * rating at the selected facility, results waiting on their confirmation,
+ * and their recent results. Renders nothing when the flag is off.
+ */
+export function MatchResultsCard({ facilityId, userId }: { facilityId: string; userId: string }) {
+  const [data, setData] = useState<MyMatchResults | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [disputing, setDisputing] = useState<MatchResult | null>(null);
+  const [reason, setReason] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await matchResultsApi.getMine(facilityId);
+      setData(res.success ? res.mine ?? null : null);
+    } catch (err) {
+      console.error('Error loading match results:', err);
+    }
+  }, [facilityId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const act = async (resultId: string, action: () => Promise<{ success: boolean; error?: string }>, done: string) => {
+    setBusyId(resultId);
+    try {
+      const res = await action();
+      if (res.success) {
+        toast.success(done);
+        await load();
+      } else {
+        toast.error(res.error || 'Something went wrong');
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDispute = async () => {
+    if (!disputing) return;
+    await act(disputing.id, () => matchResultsApi.dispute(facilityId, disputing.id, reason.trim()), 'Result disputed');
+    setDisputing(null);
+    setReason('');
+  };
+
+  if (!data) return null;
+  const { rating } = data;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Trophy className="h-5 w-5" />
+              Club Rating
+            </CardTitle>
+            <CardDescription>From match results confirmed by your opponents</CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setRecording(true)} disabled={data.reportableBookings.length === 0}>
+            <Plus className="h-4 w-4 mr-1" />
+            Record Result
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="flex items-baseline gap-3">
+          <span className="text-3xl font-semibold text-gray-900">{rating ? Math.round(rating.rating) : '—'}</span>
+          {rating ? (
+            <>
+              <span className="text-sm text-gray-500">
+                {rating.matchesPlayed} {rating.matchesPlayed === 1 ? 'match' : 'matches'}
+              </span>
+              {rating.provisional && <Badge variant="outline">Provisional</Badge>}
+            </>
+          ) : (
+            <span className="text-sm text-gray-500">Play and record a match to get rated</span>
+          )}
+        </div>
+
+        {data.awaitingMe.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-gray-900">Waiting on you</h4>
+            {data.awaitingMe.map((result) => {
+              const view = fromSideOf(result, userId);
+              return (
+                <div key={result.id} className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm space-y-2">
+                  <div>
+                    <span className="font-medium">{names(result.teamA)}</span> reported{' '}
+                    {view.won ? 'a loss' : 'a win'} against you: <span className="font-medium">{view.score}</span>
+                    <span className="text-gray-500"> · {formatLeagueDate(result.playedOn)}</span>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      disabled={busyId === result.id}
+                      onClick={() =>
+                        void act(result.id, () => matchResultsApi.confirm(facilityId, result.id), 'Result confirmed')
+                      }
+                    >
+                      Confirm
+                    </Button>
+                    <Button size="sm" variant="outline" disabled={busyId === result.id} onClick={() => setDisputing(result)}>
+                      Dispute
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-900">Recent results</h4>
+          {data.recent.length === 0 ? (
+            <p className="text-sm text-gray-400">No results yet.</p>
+          ) : (
+            data.recent.map((result) => {
+              const view = fromSideOf(result, userId);
+              const me = view.mine.find((p) => p.userId === userId);
+              const change =
+                me?.ratingAfter != null && me.ratingBefore != null ? Math.round(me.ratingAfter - me.ratingBefore) : null;
+              return (
+                <div key={result.id} className="flex items-center gap-3 text-sm">
+                  <Badge
+                    className={
+                      view.won
+                        ? 'bg-green-100 text-green-700 hover:bg-green-100'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-100'
+                    }
+                  >
+                    {view.won ? 'W' : 'L'}
+                  </Badge>
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate">
+                      vs {names(view.theirs)} · {view.score}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {formatLeagueDate(result.playedOn)}
+                      {result.status === 'pending' && ' · Awaiting confirmation'}
+                      {result.status === 'disputed' && ` · Disputed: ${result.disputeReason}`}
+                    </div>
+                  </div>
+                  {change != null && (
+                    <span className={change >= 0 ? 'text-green-700' : 'text-red-600'}>
+                      {change >= 0 ? `+${change}` : change}
+                    </span>
+                  )}
+                  {result.status === 'pending' && result.reportedBy === userId && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={busyId === result.id}
+                      onClick={() =>
+                        void act(result.id, () => matchResultsApi.withdraw(facilityId, result.id), 'Result withdrawn')
+                      }
+                    >
+                      Withdraw
+                    </Button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </CardContent>
+
+      <RecordResultDialog
+        open={recording}
+        facilityId={facilityId}
+        userId={userId}
+        bookings={data.reportableBookings}
+        onClose={() => setRecording(false)}
+        onSaved={() => {
+          setRecording(false);
+          void load();
+        }}
+      />
+
+      <Dialog open={Boolean(disputing)} onOpenChange={(open: boolean) => !open && setDisputing(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Dispute result</DialogTitle>
+            <DialogDescription>Tell your opponent what's wrong; they can then report it again.</DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={reason}
+            maxLength={500}
+            placeholder="e.g. The second set was 6-4 to us"
+            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setReason(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDisputing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={() => void handleDispute()} disabled={!reason.trim() || busyId !== null}>
+              Dispute
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
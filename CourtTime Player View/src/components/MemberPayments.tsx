@@ -4,6 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Alert, AlertDescription } from './ui/alert';
+import { Input } from './ui/input';
 import {
   Table,
   TableBody,
@@ -12,16 +13,23 @@ import {
   TableHeader,
   TableRow,
 } from './ui/table';
-import { CreditCard, AlertCircle } from 'lucide-react';
+import { CreditCard, AlertCircle, FileText, Wallet } from 'lucide-react';
 import {
   paymentItemsApi,
   connectPaymentsApi,
+  householdsApi,
+  walletApi,
+  type HouseholdStatementMonth,
   type PaymentItem,
   type PaymentCategory,
   type ConnectPayment,
   type SavedPaymentMethod,
+  type WalletSummary,
 } from '../api/client';
 import { useAppContext } from '../contexts/AppContext';
+import { useAuth } from '../contexts/AuthContext';
+import { formatStatementMonth, openPrintableStatement } from '../utils/householdStatement';
+import { SessionPackagesCard } from './SessionPackagesCard';
 import { toast } from 'sonner';
 
 const CATEGORY_LABELS: Record<PaymentCategory, string> = {
@@ -272,6 +280,9 @@ export function MemberPayments() {
               </Card>
             )}
 
+            {selectedFacilityId && <AccountCreditCard facilityId={selectedFacilityId} />}
+            {selectedFacilityId && <SessionPackagesCard facilityId={selectedFacilityId} />}
+
             {items.length === 0 ? (
               <Card>
                 <CardHeader>
@@ -350,7 +361,19 @@ export function MemberPayments() {
                             {new Date(p.paidAt || p.createdAt).toLocaleString()}
                           </TableCell>
                           <TableCell>{p.itemName || '—'}</TableCell>
-                          <TableCell>{dollars(p.amountCents)}</TableCell>
+                          <TableCell>
+                            {dollars(p.amountCents)}
+                            {!!p.walletAppliedCents && (
+                              <span className="block text-xs text-gray-500">
+                                {dollars(p.walletAppliedCents)} from credit
+                              </span>
+                            )}
+                            {!!p.packageAppliedCents && (
+                              <span className="block text-xs text-gray-500">
+                                {dollars(p.packageAppliedCents)} covered by package
+                              </span>
+                            )}
+                          </TableCell>
                           <TableCell>
                             <MemberPaymentStatusBadge status={p.status} />
                           </TableCell>
@@ -361,6 +384,8 @@ export function MemberPayments() {
                 )}
               </CardContent>
             </Card>
+
+            {selectedFacilityId && <HouseholdStatementsCard facilityId={selectedFacilityId} />}
           </>
         )}
       </div>
@@ -368,6 +393,238 @@ export function MemberPayments() {
   );
 }
 
+const TOP_UP_PRESETS_CENTS = [2500, 5000, 10000];
+
+/**
+ * The member's account credit at this club (member_wallet flag): balance,
+ * ledger, and top-ups through Checkout. Hidden when the club hasn't enabled it.
+ */
+function AccountCreditCard({ facilityId }: { facilityId: string }) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [wallet, setWallet] = useState<WalletSummary | null>(null);
+  const [customAmount, setCustomAmount] = useState('');
+  const [toppingUp, setToppingUp] = useState(false);
+
+  const load = useCallback(async () => {
+    const res = await walletApi.getMine(facilityId);
+    setWallet(res.success ? res.data ?? null : null);
+  }, [facilityId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (searchParams.get('walletTopUp') !== 'success') return;
+    const sessionId = searchParams.get('session_id');
+    const confirm = async () => {
+      if (sessionId) {
+        const res = await walletApi.confirmTopUp(sessionId);
+        if (res.success) {
+          toast.success(`${dollars(res.data?.amountCents ?? 0)} added to your account credit`);
+        } else {
+          toast.error(res.error || 'Could not confirm your top-up yet — it will appear shortly');
+        }
+      }
+      await load();
+      searchParams.delete('walletTopUp');
+      searchParams.delete('session_id');
+      setSearchParams(searchParams, { replace: true });
+    };
+    void confirm();
+  }, [searchParams, setSearchParams, load]);
+
+  const handleTopUp = async (amountCents: number) => {
+    if (!Number.isInteger(amountCents) || amountCents <= 0) {
+      toast.error('Enter an amount to add');
+      return;
+    }
+    setToppingUp(true);
+    const base = window.location.origin;
+    const res = await walletApi.topUp(facilityId, {
+      amountCents,
+      successUrl: `${base}/payments?walletTopUp=success&session_id={CHECKOUT_SESSION_ID}`,
+      cancelUrl: `${base}/payments`,
+    });
+    if (res.success && res.data?.url) {
+      window.location.href = res.data.url;
+      return;
+    }
+    setToppingUp(false);
+    toast.error(res.error || 'Could not start top-up');
+  };
+
+  if (!wallet?.enabled) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Account credit
+        </CardTitle>
+        <CardDescription>
+          Used before your card when you book courts, sign up for events or buy from the pro shop here.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="text-2xl font-semibold">{dollars(wallet.balanceCents)}</div>
+          <div className="flex flex-wrap items-center gap-2">
+            {TOP_UP_PRESETS_CENTS.map(cents => (
+              <Button key={cents} variant="outline" size="sm" disabled={toppingUp} onClick={() => handleTopUp(cents)}>
+                +{dollars(cents)}
+              </Button>
+            ))}
+            <Input
+              className="w-24"
+              type="number"
+              min={5}
+              step="1"
+              placeholder="Other"
+              value={customAmount}
+              onChange={(e) => setCustomAmount(e.target.value)}
+            />
+            <Button
+              size="sm"
+              disabled={toppingUp || !customAmount}
+              onClick={() => handleTopUp(Math.round(Number(customAmount) * 100))}
+            >
+              {toppingUp ? 'Redirecting…' : 'Top up'}
+            </Button>
+          </div>
+        </div>
+        {wallet.transactions.length === 0 ? (
+          <div className="text-sm text-gray-500 py-2 text-center">No credit activity yet.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {wallet.transactions.map(t => (
+                <TableRow key={t.id}>
+                  <TableCell>{new Date(t.createdAt).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    {t.description}
+                    {t.pending && (
+                      <Badge variant="outline" className="ml-2">Held for checkout</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className={`text-right ${t.amountCents < 0 ? 'text-gray-700' : 'text-green-700'}`}>
+                    {t.amountCents < 0 ? '−' : '+'}{dollars(Math.abs(t.amountCents))}
+                  </TableCell>
+                  <TableCell className="text-right">{dollars(t.balanceAfterCents)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Family statements for a household billing payer. Members whose charges go on
+ * someone else's card just see who pays; everyone else sees nothing.
+ */
+function HouseholdStatementsCard({ facilityId }: { facilityId: string }) {
+  const { user } = useAuth();
+  const [householdId, setHouseholdId] = useState<string | null>(null);
+  const [payerName, setPayerName] = useState<string | null>(null);
+  const [isPayer, setIsPayer] = useState(false);
+  const [months, setMonths] = useState<HouseholdStatementMonth[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      if (!user?.id) return;
+      const res = await householdsApi.getByUser(user.id, facilityId);
+      const household = res.success ? res.data?.household : null;
+      if (cancelled || !household?.billing_payer_user_id) return;
+      const payer = (res.data?.members ?? []).find((m: any) => m.user_id === household.billing_payer_user_id);
+      setHouseholdId(household.id);
+      setPayerName(payer ? [payer.first_name, payer.last_name].filter(Boolean).join(' ') || payer.email : null);
+      const payerIsMe = household.billing_payer_user_id === user.id;
+      setIsPayer(payerIsMe);
+      if (payerIsMe) {
+        const monthsRes = await householdsApi.getStatementMonths(household.id);
+        if (!cancelled && monthsRes.success) setMonths(monthsRes.data?.months ?? []);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [facilityId, user?.id]);
+
+  const handleOpen = async (month: string) => {
+    if (!householdId) return;
+    const res = await householdsApi.getStatement(householdId, month);
+    if (!res.success || !res.data?.html) {
+      toast.error(res.error || 'Could not load statement');
+      return;
+    }
+    if (!openPrintableStatement(res.data.html)) {
+      toast.error('Allow pop-ups for this site to view the statement');
+    }
+  };
+
+  if (!householdId) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Family statements</CardTitle>
+        <CardDescription>
+          {isPayer
+            ? "Your household's court fees, guest fees, pro shop tabs and annual fees are charged to your saved card."
+            : `Your court fees, guest fees, pro shop tabs and annual fees are charged to ${payerName ?? 'your household billing payer'}'s card.`}
+        </CardDescription>
+      </CardHeader>
+      {isPayer && (
+        <CardContent>
+          {months.length === 0 ? (
+            <div className="text-sm text-gray-500 py-4 text-center">No household charges yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Month</TableHead>
+                  <TableHead>Charges</TableHead>
+                  <TableHead>Total</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {months.map(m => (
+                  <TableRow key={m.month}>
+                    <TableCell>{formatStatementMonth(m.month)}</TableCell>
+                    <TableCell>{m.chargeCount}</TableCell>
+                    <TableCell>{dollars(m.totalCents)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" onClick={() => handleOpen(m.month)}>
+                        <FileText className="h-4 w-4 mr-1" />
+                        View / print
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
 function MemberPaymentStatusBadge({ status }: { status: ConnectPayment['status'] }) {
   switch (status) {
     case 'PAID':
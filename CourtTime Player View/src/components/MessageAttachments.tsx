@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { Download, FileText, ImageOff, Loader2 } from 'lucide-react';
+import { messagesApi, unwrapApiPayload } from '../api/client';
+import { cn } from './ui/utils';
+import {
+  formatFileSize,
+  isImageAttachment,
+  type MessageAttachmentSummary,
+} from '../../shared/utils/messageContent';
+
+/**
+ * Message lists only carry each attachment's name, type and size; the file
+ * itself is fetched when first shown and kept for the session.
+ */
+const contentCache = new Map<string, Promise<string | null>>();
+
+function loadAttachmentContent(attachmentId: string): Promise<string | null> {
+  let pending = contentCache.get(attachmentId);
+  if (!pending) {
+    pending = messagesApi.getAttachment(attachmentId).then((response) => {
+      const payload = unwrapApiPayload<{ attachment?: { dataUrl?: string } }>(response.data);
+      const dataUrl = response.success ? payload?.attachment?.dataUrl ?? null : null;
+      // Let a failed load retry next time it's shown
+      if (!dataUrl) contentCache.delete(attachmentId);
+      return dataUrl;
+    });
+    contentCache.set(attachmentId, pending);
+  }
+  return pending;
+}
+
+function ImageAttachment({ attachment }: { attachment: MessageAttachmentSummary }) {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    void loadAttachmentContent(attachment.id).then((url) => {
+      if (cancelled) return;
+      if (url) setDataUrl(url);
+      else setFailed(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment.id]);
+
+  if (failed) {
+    return (
+      <div className="flex items-center gap-2 rounded-md bg-black/5 px-3 py-2 text-xs">
+        <ImageOff className="h-4 w-4" />
+        <span className="truncate">{attachment.fileName}</span>
+      </div>
+    );
+  }
+  if (!dataUrl) {
+    return (
+      <div className="flex h-32 w-48 items-center justify-center rounded-md bg-black/5">
+        <Loader2 className="h-5 w-5 animate-spin opacity-60" />
+      </div>
+    );
+  }
+  return (
+    <a href={dataUrl} download={attachment.fileName} title={`Download ${attachment.fileName}`}>
+      <img src={dataUrl} alt={attachment.fileName} className="max-h-60 max-w-full rounded-md object-contain" />
+    </a>
+  );
+}
+
+function FileAttachment({ attachment, isMine }: { attachment: MessageAttachmentSummary; isMine: boolean }) {
+  const [downloading, setDownloading] = useState(false);
+
+  const download = async () => {
+    setDownloading(true);
+    const dataUrl = await loadAttachmentContent(attachment.id);
+    setDownloading(false);
+    if (!dataUrl) return;
+    const link = document.createElement('a');
+    link.href = dataUrl;
+    link.download = attachment.fileName;
+    link.click();
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={download}
+      disabled={downloading}
+      className={cn(
+        'flex w-full items-center gap-2 rounded-md px-3 py-2 text-left text-xs',
+        isMine ? 'bg-green-700/60 hover:bg-green-700' : 'bg-white hover:bg-gray-50'
+      )}
+    >
+      <FileText className="h-4 w-4 shrink-0" />
+      <span className="min-w-0 flex-1 truncate font-medium">{attachment.fileName}</span>
+      <span className="shrink-0 opacity-75">{formatFileSize(attachment.sizeBytes)}</span>
+      {downloading ? <Loader2 className="h-4 w-4 shrink-0 animate-spin" /> : <Download className="h-4 w-4 shrink-0" />}
+    </button>
+  );
+}
+
+export function MessageAttachments({
+  attachments,
+  isMine,
+}: {
+  attachments: MessageAttachmentSummary[];
+  isMine: boolean;
+}) {
+  if (attachments.length === 0) return null;
+  return (
+    <div className="mb-1 space-y-1">
+      {attachments.map((attachment) =>
+        isImageAttachment(attachment.mimeType) ? (
+          <ImageAttachment key={attachment.id} attachment={attachment} />
+        ) : (
+          <FileAttachment key={attachment.id} attachment={attachment} isMine={isMine} />
+        )
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,21 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Send, Search, MessageCircle, Users, X, Plus, UserPlus, ChevronLeft, Trash2, Settings, LogOut } from 'lucide-react';
+import { Send, Search, MessageCircle, Users, X, Plus, UserPlus, ChevronLeft, Trash2, Settings, LogOut, Paperclip, Pencil, SmilePlus } from 'lucide-react';
 import { cn } from './ui/utils';
 import { useAuth } from '../contexts/AuthContext';
-import { messagesApi } from '../api/client';
+import { messagesApi, unwrapApiPayload, type MessageAttachmentUpload } from '../api/client';
+import { subscribeToRealtime } from '../api/realtime';
+import { MessageAttachments } from './MessageAttachments';
+import {
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MESSAGE_ATTACHMENT_TYPES,
+  QUICK_REACTIONS,
+  attachmentProblem,
+  dataUrlByteLength,
+  formatReadReceipt,
+  type MessageAttachmentSummary,
+  type MessageReactionSummary,
+  type MessageReadReceipt,
+} from '../../shared/utils/messageContent';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
 import { Button } from './ui/button';
@@ -11,6 +24,7 @@ import { Badge } from './ui/badge';
 import { Checkbox } from './ui/checkbox';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
 import { Tabs, TabsList, TabsTrigger } from './ui/tabs';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
 import { toast } from 'sonner';
 
 /** Groups are capped at 30 members, including the creator. */
@@ -60,6 +74,21 @@ interface Message {
   messageText: string;
   createdAt: string;
   isRead: boolean;
+  editedAt?: string | null;
+  attachments?: MessageAttachmentSummary[];
+  reactions?: MessageReactionSummary[];
+  readBy?: MessageReadReceipt[];
+}
+
+type PendingAttachment = MessageAttachmentUpload & { sizeBytes: number };
+
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
 }
 
 export function Messages({ facilityId, facilityName, selectedRecipientId, selectedConversationId, heightOffsetPx }: MessagesProps) {
@@ -73,6 +102,12 @@ export function Messages({ facilityId, facilityName, selectedRecipientId, select
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
   const [deletingMessageId, setDeletingMessageId] = useState<string | null>(null);
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [editHistory, setEditHistory] = useState<Record<string, Array<{ previousText: string; editedAt: string }>>>({});
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // For starting new conversations
@@ -114,6 +149,39 @@ export function Messages({ facilityId, facilityName, selectedRecipientId, select
     }
   }, [facilityId, user?.id]);
 
+  // Live updates: new messages land in the open thread, and the conversation
+  // list (previews, unread counts) refreshes for the rest
+  const selectedConversationRef = useRef(selectedConversation);
+  selectedConversationRef.current = selectedConversation;
+  useEffect(() => {
+    if (!facilityId || !user?.id) return;
+    let connectedBefore = false;
+    return subscribeToRealtime(
+      {},
+      (event) => {
+        if (event.type === 'message.updated' || event.type === 'conversation.read') {
+          // Edits, reactions and read receipts: refetch the open thread
+          if (event.conversationId === selectedConversationRef.current) loadMessages(event.conversationId);
+          return;
+        }
+        if (event.type !== 'message.created') return;
+        if (event.conversationId === selectedConversationRef.current) {
+          appendMessage(event.message);
+          if (event.message.senderId !== user.id) markAsRead(event.conversationId);
+        } else {
+          loadConversations(true);
+        }
+      },
+      () => {
+        if (connectedBefore) {
+          loadConversations(true);
+          if (selectedConversationRef.current) loadMessages(selectedConversationRef.current);
+        }
+        connectedBefore = true;
+      }
+    );
+  }, [facilityId, user?.id]);
+
   useEffect(() => {
     if (selectedConversation) {
       loadMessages(selectedConversation);
@@ -452,11 +520,12 @@ export function Messages({ facilityId, facilityName, selectedRecipientId, select
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  const loadConversations = async () => {
+  /** `background` refreshes in place, without the full-panel spinner. */
+  const loadConversations = async (background = false) => {
     if (!user?.id) return;
 
     try {
-      setLoading(true);
+      if (!background) setLoading(true);
       const response = await messagesApi.getConversations(facilityId, user.id);
 
       if (response.success && response.data?.data?.conversations) {
@@ -487,13 +556,18 @@ export function Messages({ facilityId, facilityName, selectedRecipientId, select
     }
   };
 
+  /** Our own sends arrive both in the POST response and on the stream; keep one. */
+  const appendMessage = (message: Message) => {
+    setMessages(prev => (prev.some(m => m.id === message.id) ? prev : [...prev, message]));
+  };
+
   const markAsRead = async (conversationId: string) => {
     if (!user?.id) return;
 
     try {
       await messagesApi.markAsRead(conversationId, user.id);
       // Reload conversations to update unread count
-      loadConversations();
+      loadConversations(true);
       // Let the sidebar's unread indicator refresh immediately instead of waiting for its poll
       window.dispatchEvent(new Event('messages:unread-changed'));
     } catch (error) {
@@ -502,7 +576,7 @@ export function Messages({ facilityId, facilityName, selectedRecipientId, select
   };
 
   const sendMessage = async () => {
-    if (!newMessage.trim() || !user?.id) return;
+    if ((!newMessage.trim() && pendingAttachments.length === 0) || !user?.id) return;
 
     const currentConv = selectedConversation ? conversations.find(c => c.id === selectedConversation) : null;
 
@@ -525,9 +599,10 @@ export function Messages({ facilityId, facilityName, selectedRecipientId, select
 
     try {
       setSending(true);
+      const attachments = pendingAttachments.map(({ fileName, mimeType, dataUrl }) => ({ fileName, mimeType, dataUrl }));
       const response = currentConv?.isGroup
-        ? await messagesApi.sendToConversation(currentConv.id, newMessage)
-        : await messagesApi.sendMessage(user.id, recipientId as string, facilityId, newMessage);
+        ? await messagesApi.sendToConversation(currentConv.id, newMessage, attachments)
+        : await messagesApi.sendMessage(user.id, recipientId as string, facilityId, newMessage, attachments);
 
       if (!response.success) {
         toast.error(response.error || 'Failed to send message');
@@ -535,12 +610,13 @@ export function Messages({ facilityId, facilityName, selectedRecipientId, select
       }
 
       if (response.data?.data?.message) {
-        setMessages(prev => [...prev, response.data.data.message]);
+        appendMessage(response.data.data.message);
       } else if (response.data?.message) {
-        setMessages(prev => [...prev, response.data.message]);
+        appendMessage(response.data.message);
       }
 
       setNewMessage('');
+      setPendingAttachments([]);
 
       // Reload conversations to get/update the conversation
       await loadConversations();
@@ -566,6 +642,83 @@ export function Messages({ facilityId, facilityName, selectedRecipientId, select
     }
   };
 
+  const handleFilesChosen = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    if (pendingAttachments.length + files.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      toast.error(`Attach at most ${MAX_ATTACHMENTS_PER_MESSAGE} files per message`);
+      return;
+    }
+    for (const file of files) {
+      const problem = attachmentProblem({ fileName: file.name, mimeType: file.type, sizeBytes: file.size });
+      if (problem) {
+        toast.error(problem);
+        return;
+      }
+    }
+
+    try {
+      const added = await Promise.all(
+        files.map(async (file) => {
+          const dataUrl = await readFileAsDataUrl(file);
+          return { fileName: file.name, mimeType: file.type, dataUrl, sizeBytes: dataUrlByteLength(dataUrl) };
+        })
+      );
+      setPendingAttachments(prev => [...prev, ...added]);
+    } catch (error) {
+      console.error('Error reading attachment:', error);
+      toast.error('Could not read that file');
+    }
+  };
+
+  const toggleReaction = async (messageId: string, emoji: string) => {
+    const response = await messagesApi.toggleReaction(messageId, emoji);
+    const payload = unwrapApiPayload<{ reactions?: MessageReactionSummary[] }>(response.data);
+    if (!response.success || !payload?.reactions) {
+      toast.error(response.error || 'Failed to react');
+      return;
+    }
+    setMessages(prev => prev.map(m => (m.id === messageId ? { ...m, reactions: payload.reactions } : m)));
+  };
+
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditText(message.messageText);
+  };
+
+  const saveEdit = async () => {
+    if (!editingMessageId || !editText.trim()) return;
+    try {
+      setSavingEdit(true);
+      const response = await messagesApi.editMessage(editingMessageId, editText);
+      const payload = unwrapApiPayload<{ message?: Message }>(response.data);
+      if (!response.success || !payload?.message) {
+        toast.error(response.error || 'Failed to edit message');
+        return;
+      }
+      const edited = payload.message;
+      setMessages(prev => prev.map(m => (m.id === edited.id ? { ...m, messageText: edited.messageText, editedAt: edited.editedAt } : m)));
+      setEditHistory(prev => {
+        const { [edited.id]: _stale, ...rest } = prev;
+        return rest;
+      });
+      setEditingMessageId(null);
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  const loadEditHistory = async (messageId: string) => {
+    if (editHistory[messageId]) return;
+    const response = await messagesApi.getEditHistory(messageId);
+    const payload = unwrapApiPayload<{ edits?: Array<{ previousText: string; editedAt: string }> }>(response.data);
+    if (response.success && payload?.edits) {
+      setEditHistory(prev => ({ ...prev, [messageId]: payload.edits! }));
+    }
+  };
+
   const deleteMessage = async (messageId: string) => {
     if (!user?.id) return;
     if (!window.confirm('Delete this message? The other person will no longer see it.')) return;
@@ -627,6 +780,7 @@ export function Messages({ facilityId, facilityName, selectedRecipientId, select
   );
 
   const selectedConv = conversations.find(c => c.id === selectedConversation);
+  const lastOwnMessageId = [...messages].reverse().find(m => m.senderId === user?.id)?.id;
   const manageableAsGroup = isGroupManager(selectedConv);
 
   if (loading) {
@@ -796,6 +950,16 @@ export function Messages({ facilityId, facilityName, selectedRecipientId, select
                   const senderName = selectedConv?.isGroup && !isMine
                     ? groupMembers.find(m => m.userId === message.senderId)?.fullName
                     : null;
+                  const isEditing = editingMessageId === message.id;
+                  // Receipts show under your latest message only, as in most chat apps
+                  const readReceipt = isMine && message.id === lastOwnMessageId
+                    ? formatReadReceipt(
+                        message.readBy ?? [],
+                        message.senderId,
+                        (userId) => groupMembers.find(m => m.userId === userId)?.fullName,
+                        !!selectedConv?.isGroup
+                      )
+                    : null;
                   return (
                     <div
                       key={message.id}
@@ -803,37 +967,147 @@ export function Messages({ facilityId, facilityName, selectedRecipientId, select
                         isMine ? 'justify-end' : 'justify-start'
                       }`}
                     >
-                      {isMine && (
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="icon"
-                          className="h-8 w-8 shrink-0 text-gray-500 hover:text-red-600 hover:bg-red-50 md:self-end"
-                          onClick={() => deleteMessage(message.id)}
-                          disabled={deletingMessageId === message.id}
-                          aria-label="Delete message"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                      {isMine && !isEditing && (
+                        <div className="flex shrink-0 flex-col md:self-end">
+                          {message.messageText && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-gray-500 hover:text-gray-900"
+                              onClick={() => startEditing(message)}
+                              aria-label="Edit message"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-gray-500 hover:text-red-600 hover:bg-red-50"
+                            onClick={() => deleteMessage(message.id)}
+                            disabled={deletingMessageId === message.id}
+                            aria-label="Delete message"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
                       )}
-                      <div
-                        className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
-                          isMine ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-900'
-                        }`}
-                      >
-                        {senderName && (
-                          <p className="text-xs font-medium text-gray-500 mb-0.5">{senderName}</p>
-                        )}
-                        <p className="text-sm whitespace-pre-wrap break-words">
-                          {message.messageText}
-                        </p>
-                        <p
-                          className={`text-xs mt-1 ${
-                            isMine ? 'text-green-100' : 'text-gray-500'
+                      <div className={`flex max-w-xs lg:max-w-md flex-col ${isMine ? 'items-end' : 'items-start'}`}>
+                        <div
+                          className={`px-4 py-2 rounded-lg ${
+                            isMine ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-900'
                           }`}
                         >
-                          {formatMessageTime(message.createdAt)}
-                        </p>
+                          {senderName && (
+                            <p className="text-xs font-medium text-gray-500 mb-0.5">{senderName}</p>
+                          )}
+                          <MessageAttachments attachments={message.attachments ?? []} isMine={isMine} />
+                          {isEditing ? (
+                            <div className="flex flex-col gap-2">
+                              <Input
+                                value={editText}
+                                onChange={(e) => setEditText(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') void saveEdit();
+                                  if (e.key === 'Escape') setEditingMessageId(null);
+                                }}
+                                disabled={savingEdit}
+                                className="bg-white text-gray-900"
+                                aria-label="Edit message text"
+                                autoFocus
+                              />
+                              <div className="flex justify-end gap-2">
+                                <Button size="sm" variant="secondary" onClick={() => setEditingMessageId(null)} disabled={savingEdit}>
+                                  Cancel
+                                </Button>
+                                <Button size="sm" onClick={saveEdit} disabled={!editText.trim() || savingEdit}>
+                                  Save
+                                </Button>
+                              </div>
+                            </div>
+                          ) : message.messageText ? (
+                            <p className="text-sm whitespace-pre-wrap break-words">
+                              {message.messageText}
+                            </p>
+                          ) : null}
+                          <p
+                            className={`text-xs mt-1 ${
+                              isMine ? 'text-green-100' : 'text-gray-500'
+                            }`}
+                          >
+                            {formatMessageTime(message.createdAt)}
+                            {message.editedAt && (
+                              <Popover onOpenChange={(open: boolean) => open && loadEditHistory(message.id)}>
+                                <PopoverTrigger asChild>
+                                  <button type="button" className="ml-1 underline decoration-dotted">
+                                    (edited)
+                                  </button>
+                                </PopoverTrigger>
+                                <PopoverContent className="w-72 text-sm">
+                                  <p className="mb-2 font-medium">Earlier versions</p>
+                                  {editHistory[message.id] ? (
+                                    <ul className="space-y-2">
+                                      {editHistory[message.id].map((edit) => (
+                                        <li key={edit.editedAt}>
+                                          <p className="whitespace-pre-wrap break-words text-gray-900">{edit.previousText}</p>
+                                          <p className="text-xs text-gray-500">Replaced {formatMessageTime(edit.editedAt)}</p>
+                                        </li>
+                                      ))}
+                                    </ul>
+                                  ) : (
+                                    <p className="text-gray-500">Loading…</p>
+                                  )}
+                                </PopoverContent>
+                              </Popover>
+                            )}
+                          </p>
+                        </div>
+                        <div className="mt-1 flex flex-wrap items-center gap-1">
+                          {(message.reactions ?? []).map((reaction) => {
+                            const mine = !!user?.id && reaction.userIds.includes(user.id);
+                            return (
+                              <button
+                                key={reaction.emoji}
+                                type="button"
+                                onClick={() => toggleReaction(message.id, reaction.emoji)}
+                                className={cn(
+                                  'rounded-full border px-2 py-0.5 text-xs',
+                                  mine ? 'border-green-600 bg-green-50' : 'border-gray-200 bg-white hover:bg-gray-50'
+                                )}
+                                aria-label={`${reaction.emoji} ${reaction.count}${mine ? ', including you' : ''}`}
+                              >
+                                {reaction.emoji} {reaction.count}
+                              </button>
+                            );
+                          })}
+                          <Popover>
+                            <PopoverTrigger asChild>
+                              <button
+                                type="button"
+                                className="rounded-full p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-700"
+                                aria-label="Add reaction"
+                              >
+                                <SmilePlus className="h-4 w-4" />
+                              </button>
+                            </PopoverTrigger>
+                            <PopoverContent className="flex w-auto gap-1 p-2">
+                              {QUICK_REACTIONS.map((emoji) => (
+                                <button
+                                  key={emoji}
+                                  type="button"
+                                  onClick={() => toggleReaction(message.id, emoji)}
+                                  className="rounded p-1 text-lg hover:bg-gray-100"
+                                  aria-label={`React with ${emoji}`}
+                                >
+                                  {emoji}
+                                </button>
+                              ))}
+                            </PopoverContent>
+                          </Popover>
+                        </div>
+                        {readReceipt && <p className="mt-0.5 text-xs text-gray-500">{readReceipt}</p>}
                       </div>
                     </div>
                   );
@@ -844,7 +1118,41 @@ export function Messages({ facilityId, facilityName, selectedRecipientId, select
 
             {/* Message Input - Fixed at bottom */}
             <div className="flex-shrink-0 p-4 border-t bg-white">
+              {pendingAttachments.length > 0 && (
+                <div className="mb-2 flex flex-wrap gap-2">
+                  {pendingAttachments.map((attachment, index) => (
+                    <Badge key={`${attachment.fileName}-${index}`} variant="secondary" className="gap-1">
+                      <Paperclip className="h-3 w-3" />
+                      <span className="max-w-[10rem] truncate">{attachment.fileName}</span>
+                      <button
+                        type="button"
+                        onClick={() => setPendingAttachments(prev => prev.filter((_, i) => i !== index))}
+                        aria-label={`Remove ${attachment.fileName}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
               <div className="flex gap-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept={MESSAGE_ATTACHMENT_TYPES.join(',')}
+                  className="hidden"
+                  onChange={handleFilesChosen}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={sending || pendingAttachments.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+                  aria-label="Attach files"
+                >
+                  <Paperclip className="h-4 w-4" />
+                </Button>
                 <Input
                   placeholder="Type a message..."
                   value={newMessage}
@@ -855,7 +1163,7 @@ export function Messages({ facilityId, facilityName, selectedRecipientId, select
                 />
                 <Button
                   onClick={sendMessage}
-                  disabled={!newMessage.trim() || sending}
+                  disabled={(!newMessage.trim() && pendingAttachments.length === 0) || sending}
                 >
                   <Send className="h-4 w-4" />
                 </Button>
@@ -83,7 +83,10 @@ export function MessagesPage() {
 
             <TabsContent value="levels" className="mt-4">
               {isFacilityAdmin ? (
-                <PlayerLevelGroups facilityId={selectedFacilityId} />
+                <PlayerLevelGroups
+                  facilityId={selectedFacilityId}
+                  ratingsEnabled={enabledFeatures.includes(FEATURE_FLAGS.CLUB_RATINGS)}
+                />
               ) : (
                 <MyLevelGroup facilityId={selectedFacilityId} />
               )}
@@ -5,6 +5,7 @@ import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { ReservationManagementModal } from './ReservationManagementModal';
+import { CourtWaitlistPanel } from './CourtWaitlistPanel';
 import { useAuth } from '../contexts/AuthContext';
 import { bookingApi } from '../api/client';
 import { toast } from 'sonner';
@@ -182,6 +183,8 @@ export function MyReservations() {
           </Button>
         </div>
 
+        {activeTab === 'upcoming' && <CourtWaitlistPanel onClaimed={fetchReservations} />}
+
         {/* Tabs */}
         <div className="flex gap-1 bg-white border border-gray-200 rounded-lg p-1 w-fit">
           {(['upcoming', 'past'] as const).map((tab) => (
@@ -13,14 +13,22 @@ import { ArrowLeft, Save, User, Building2, Plus, CheckCircle, Clock, XCircle, Ca
 import { useNavigate } from 'react-router-dom';
 import { NotificationBell } from './NotificationBell';
 import { useAuth } from '../contexts/AuthContext';
+import { useAppContext } from '../contexts/AppContext';
+import { MatchResultsCard } from './MatchResultsCard';
+import { FamilyDependentsCard } from './FamilyDependentsCard';
 import { playerProfileApi, facilitiesApi, strikesApi, membersApi, usersApi, userPreferencesApi } from '../api/client';
 import { parseStrikeLockoutStatus } from '../../shared/utils/strikeLockout';
 import { toast } from 'sonner';
 import logoImage from 'figma:asset/8775e46e6be583b8cd937eefe50d395e0a3fcf52.png';
 
+/** Booking reminder lead times offered in the profile; the server accepts 1–72. */
+const REMINDER_LEAD_HOUR_OPTIONS = [1, 2, 3, 6, 12, 24, 48] as const;
+const DEFAULT_REMINDER_LEAD_HOURS = 24;
+
 export function PlayerProfile() {
   const navigate = useNavigate();
   const { user, updateProfile, logout } = useAuth();
+  const { selectedFacilityId, enabledFeatures } = useAppContext();
   const [isEditing, setIsEditing] = useState(false);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -57,6 +65,8 @@ export function PlayerProfile() {
   const [emailNotificationsEnabled, setEmailNotificationsEnabled] = useState<boolean | null>(null);
   const [emailBookingConfirmations, setEmailBookingConfirmations] = useState<boolean | null>(null);
   const [emailMembershipRequestAlerts, setEmailMembershipRequestAlerts] = useState<boolean | null>(null);
+  const [emailBookingReminders, setEmailBookingReminders] = useState<boolean | null>(null);
+  const [bookingReminderLeadHours, setBookingReminderLeadHours] = useState<number | null>(null);
   const [pushEnabled, setPushEnabled] = useState<boolean | null>(null);
   const [pushBookingUpdates, setPushBookingUpdates] = useState<boolean | null>(null);
   const [pushBookingReminders, setPushBookingReminders] = useState<boolean | null>(null);
@@ -100,6 +110,8 @@ export function PlayerProfile() {
           setEmailNotificationsEnabled(p.emailNotificationsEnabled !== false);
           setEmailBookingConfirmations(p.emailBookingConfirmations !== false);
           setEmailMembershipRequestAlerts(p.emailMembershipRequestAlerts !== false);
+          setEmailBookingReminders(p.emailBookingReminders !== false);
+          setBookingReminderLeadHours(p.bookingReminderLeadHours ?? DEFAULT_REMINDER_LEAD_HOURS);
           setPushEnabled(p.pushEnabled !== false);
           setPushBookingUpdates(p.pushBookingUpdates !== false);
           setPushBookingReminders(p.pushBookingReminders !== false);
@@ -110,6 +122,8 @@ export function PlayerProfile() {
           setEmailNotificationsEnabled(true);
           setEmailBookingConfirmations(true);
           setEmailMembershipRequestAlerts(true);
+          setEmailBookingReminders(true);
+          setBookingReminderLeadHours(DEFAULT_REMINDER_LEAD_HOURS);
           setPushEnabled(true);
           setPushBookingUpdates(true);
           setPushBookingReminders(true);
@@ -122,6 +136,8 @@ export function PlayerProfile() {
           setEmailNotificationsEnabled(true);
           setEmailBookingConfirmations(true);
           setEmailMembershipRequestAlerts(true);
+          setEmailBookingReminders(true);
+          setBookingReminderLeadHours(DEFAULT_REMINDER_LEAD_HOURS);
           setPushEnabled(true);
           setPushBookingUpdates(true);
           setPushBookingReminders(true);
@@ -346,6 +362,29 @@ export function PlayerProfile() {
     }
   };
 
+  const handleEmailBookingRemindersChange = async (enabled: boolean) => {
+    if (!user?.id || emailBookingReminders === null) return;
+    const previous = emailBookingReminders;
+    setEmailBookingReminders(enabled);
+    const res = await userPreferencesApi.updateNotifications({ emailBookingReminders: enabled });
+    if (!res.success) {
+      setEmailBookingReminders(previous);
+      toast.error(res.error || 'Could not update booking reminder email preference');
+    }
+  };
+
+  const handleBookingReminderLeadHoursChange = async (value: string) => {
+    if (!user?.id || bookingReminderLeadHours === null) return;
+    const previous = bookingReminderLeadHours;
+    const hours = Number(value);
+    setBookingReminderLeadHours(hours);
+    const res = await userPreferencesApi.updateNotifications({ bookingReminderLeadHours: hours });
+    if (!res.success) {
+      setBookingReminderLeadHours(previous);
+      toast.error(res.error || 'Could not update booking reminder timing');
+    }
+  };
+
   const handlePushPrefChange = async (
     key:
       | 'pushEnabled'
@@ -707,6 +746,55 @@ export function PlayerProfile() {
                 />
               </div>
 
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between rounded-lg border border-gray-200 bg-gray-50/80 px-4 py-3">
+                <div className="space-y-0.5 min-w-0">
+                  <Label htmlFor="email-booking-reminders" className="text-base font-medium text-gray-900">
+                    Booking reminder emails
+                  </Label>
+                  <p className="text-sm text-gray-600">
+                    {emailBookingReminders === null
+                      ? 'Loading…'
+                      : emailBookingReminders
+                        ? 'On — a reminder before each booking, with links to confirm or release the court.'
+                        : 'Off — no reminder emails (push reminders are set below).'}
+                  </p>
+                </div>
+                <Switch
+                  id="email-booking-reminders"
+                  className="shrink-0"
+                  checked={emailBookingReminders ?? true}
+                  onCheckedChange={handleEmailBookingRemindersChange}
+                  disabled={emailBookingReminders === null}
+                />
+              </div>
+
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between rounded-lg border border-gray-200 bg-gray-50/80 px-4 py-3">
+                <div className="space-y-0.5 min-w-0">
+                  <Label htmlFor="booking-reminder-lead" className="text-base font-medium text-gray-900">
+                    Remind me
+                  </Label>
+                  <p className="text-sm text-gray-600">
+                    How long before a booking the reminder email and push go out.
+                  </p>
+                </div>
+                <Select
+                  value={bookingReminderLeadHours === null ? undefined : String(bookingReminderLeadHours)}
+                  onValueChange={handleBookingReminderLeadHoursChange}
+                  disabled={bookingReminderLeadHours === null}
+                >
+                  <SelectTrigger id="booking-reminder-lead" className="w-full sm:w-48 shrink-0">
+                    <SelectValue placeholder="Loading…" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REMINDER_LEAD_HOUR_OPTIONS.map((hours) => (
+                      <SelectItem key={hours} value={String(hours)}>
+                        {hours} hour{hours !== 1 ? 's' : ''} before
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               {canManageMembershipRequestEmailAlerts && (
                 <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between rounded-lg border border-gray-200 bg-gray-50/80 px-4 py-3">
                   <div className="space-y-0.5 min-w-0">
@@ -1010,6 +1098,14 @@ export function PlayerProfile() {
                 </CardContent>
               </Card>
 
+              {/* Club Rating */}
+              {selectedFacilityId && user?.id && enabledFeatures.includes('club_ratings') && (
+                <MatchResultsCard facilityId={selectedFacilityId} userId={user.id} />
+              )}
+
+              {/* Family */}
+              <FamilyDependentsCard />
+
               {/* Account Status */}
               <Card>
                 <CardHeader>
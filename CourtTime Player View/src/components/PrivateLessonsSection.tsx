@@ -0,0 +1,270 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Calendar, Clock, DollarSign, MapPin, User } from 'lucide-react';
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { lessonsApi, type LessonBooking, type LessonPro } from '../api/client';
+import { toast } from 'sonner';
+
+interface PrivateLessonsSectionProps {
+  facilityId: string;
+}
+
+function formatDate(dateStr: string) {
+  return new Date(`${dateStr}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function formatTime(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${minutes.toString().padStart(2, '0')} ${period}`;
+}
+
+function formatPrice(cents: number) {
+  return cents > 0 ? `$${(cents / 100).toFixed(2)}` : 'Free';
+}
+
+function todayYmd() {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+function lessonCheckoutUrls(origin: string) {
+  const base = origin.replace(/\/$/, '');
+  return {
+    successUrl: `${base}/lessons?lessonPaymentSuccess=1&session_id={CHECKOUT_SESSION_ID}`,
+    cancelUrl: `${base}/lessons?lessonPaymentCancelled=1`,
+  };
+}
+
+/**
+ * Private lessons on the member Lessons tab: the member's booked lessons, then
+ * each active pro with their open slots for a chosen day. Paid lessons go
+ * through Stripe Checkout and land back here to be confirmed.
+ */
+export function PrivateLessonsSection({ facilityId }: PrivateLessonsSectionProps) {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [pros, setPros] = useState<LessonPro[]>([]);
+  const [myLessons, setMyLessons] = useState<LessonBooking[]>([]);
+  const [selectedProId, setSelectedProId] = useState<string | null>(null);
+  const [date, setDate] = useState(todayYmd);
+  const [slots, setSlots] = useState<Array<{ startTime: string; endTime: string }>>([]);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const confirmInFlightRef = useRef<string | null>(null);
+
+  const load = useCallback(async () => {
+    const [prosRes, mineRes] = await Promise.all([
+      lessonsApi.getPros(facilityId),
+      lessonsApi.getMyLessons(facilityId),
+    ]);
+    if (prosRes.success) setPros(prosRes.pros);
+    if (mineRes.success) setMyLessons(mineRes.lessons);
+  }, [facilityId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const loadSlots = useCallback(async () => {
+    if (!selectedProId) return;
+    setSlotsLoading(true);
+    try {
+      const res = await lessonsApi.getSlots(facilityId, selectedProId, date);
+      setSlots(res.success ? res.slots : []);
+    } finally {
+      setSlotsLoading(false);
+    }
+  }, [facilityId, selectedProId, date]);
+
+  useEffect(() => {
+    void loadSlots();
+  }, [loadSlots]);
+
+  // Confirm paid lessons after the Stripe Checkout redirect back to /lessons.
+  useEffect(() => {
+    const sessionId = searchParams.get('session_id');
+    if (searchParams.get('lessonPaymentCancelled') === '1') {
+      toast.info('Checkout cancelled — the court will be released shortly.');
+      navigate('/lessons', { replace: true });
+      return;
+    }
+    if (searchParams.get('lessonPaymentSuccess') !== '1' || !sessionId) return;
+    if (confirmInFlightRef.current === sessionId) return;
+    confirmInFlightRef.current = sessionId;
+
+    void (async () => {
+      try {
+        const res = await lessonsApi.confirmPayment(sessionId);
+        if (res.success) {
+          toast.success('Payment received — your lesson is booked!');
+        } else {
+          toast.error(res.error || 'Payment received but the lesson could not be confirmed. Contact the club.');
+        }
+      } finally {
+        confirmInFlightRef.current = null;
+        await load();
+        navigate('/lessons', { replace: true });
+      }
+    })();
+  }, [searchParams, navigate, load]);
+
+  const handleBook = async (pro: LessonPro, slot: { startTime: string; endTime: string }) => {
+    const summary = `${formatDate(date)} at ${formatTime(slot.startTime)} with ${pro.fullName}`;
+    if (!confirm(`Book a lesson ${summary} (${formatPrice(pro.priceCents)})?`)) return;
+    setBusy(true);
+    try {
+      const res = await lessonsApi.book(facilityId, {
+        proId: pro.id,
+        lessonDate: date,
+        startTime: slot.startTime,
+        ...lessonCheckoutUrls(window.location.origin),
+      });
+      if (res.requiresPayment && res.checkoutUrl) {
+        window.location.replace(res.checkoutUrl);
+        return;
+      }
+      if (!res.success) {
+        toast.error(res.error || 'Could not book this lesson');
+      } else {
+        toast.success(`Lesson booked — ${summary}`);
+      }
+      await Promise.all([load(), loadSlots()]);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = async (lesson: LessonBooking) => {
+    if (!confirm(`Cancel your lesson with ${lesson.proName} on ${formatDate(lesson.lessonDate)}?`)) return;
+    setBusy(true);
+    try {
+      const res = await lessonsApi.cancel(facilityId, lesson.id);
+      if (res.success) {
+        toast.success(res.refunded ? 'Lesson cancelled and refunded' : 'Lesson cancelled');
+      } else {
+        toast.error(res.error || 'Could not cancel this lesson');
+      }
+      await Promise.all([load(), loadSlots()]);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (pros.length === 0 && myLessons.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900">Private Lessons</h2>
+
+      {myLessons.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-2">
+          <h3 className="text-sm font-semibold text-gray-900">My lessons</h3>
+          {myLessons.map((lesson) => (
+            <div key={lesson.id} className="flex items-center justify-between gap-3 text-sm">
+              <span className="flex items-center gap-3 flex-wrap text-gray-700">
+                <span className="flex items-center gap-1">
+                  <Calendar className="h-3.5 w-3.5 text-gray-400" />
+                  {formatDate(lesson.lessonDate)}
+                </span>
+                <span className="flex items-center gap-1">
+                  <Clock className="h-3.5 w-3.5 text-gray-400" />
+                  {formatTime(lesson.startTime)} – {formatTime(lesson.endTime)}
+                </span>
+                <span className="flex items-center gap-1">
+                  <User className="h-3.5 w-3.5 text-gray-400" />
+                  {lesson.proName}
+                </span>
+                {lesson.courtName && (
+                  <span className="flex items-center gap-1">
+                    <MapPin className="h-3.5 w-3.5 text-gray-400" />
+                    {lesson.courtName}
+                  </span>
+                )}
+                {lesson.status === 'pending_payment' && (
+                  <Badge className="bg-amber-100 text-amber-700 hover:bg-amber-100">Awaiting payment</Badge>
+                )}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-gray-500"
+                disabled={busy}
+                onClick={() => void handleCancel(lesson)}
+              >
+                Cancel
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {pros.map((pro) => {
+          const isSelected = selectedProId === pro.id;
+          return (
+            <Card key={pro.id} className={`p-4 space-y-3 ${isSelected ? 'ring-2 ring-indigo-500' : ''}`}>
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <h3 className="font-semibold text-gray-900">{pro.fullName}</h3>
+                  {pro.title && <p className="text-xs text-gray-500">{pro.title}</p>}
+                </div>
+                <Badge className="shrink-0 bg-indigo-100 text-indigo-700 hover:bg-indigo-100">
+                  <DollarSign className="h-3 w-3 mr-0.5" />
+                  {formatPrice(pro.priceCents)} · {pro.lessonDurationMinutes} min
+                </Badge>
+              </div>
+              {pro.bio && <p className="text-sm text-gray-600 line-clamp-3">{pro.bio}</p>}
+
+              {isSelected ? (
+                <div className="space-y-2">
+                  <Input
+                    type="date"
+                    value={date}
+                    min={todayYmd()}
+                    onChange={(e) => setDate(e.target.value)}
+                  />
+                  {slotsLoading ? (
+                    <p className="text-sm text-gray-400">Loading times…</p>
+                  ) : slots.length === 0 ? (
+                    <p className="text-sm text-gray-400">No open times on this day.</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {slots.map((slot) => (
+                        <Button
+                          key={slot.startTime}
+                          variant="outline"
+                          size="sm"
+                          disabled={busy}
+                          onClick={() => void handleBook(pro, slot)}
+                        >
+                          {formatTime(slot.startTime)}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={pro.availability.length === 0}
+                  onClick={() => setSelectedProId(pro.id)}
+                >
+                  {pro.availability.length === 0 ? 'No availability yet' : 'See open times'}
+                </Button>
+              )}
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
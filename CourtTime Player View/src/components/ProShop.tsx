@@ -1,11 +1,12 @@
-import React, { useState, useEffect } from 'react';
-import { Card, CardContent } from './ui/card';
+import React, { useState, useEffect, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
-import { ShoppingBag, ShoppingCart, X, Plus, Minus, CheckCircle, Receipt, AlertTriangle } from 'lucide-react';
-import { proShopApi } from '../api/client';
+import { ShoppingBag, ShoppingCart, X, Plus, Minus, CheckCircle, Receipt, AlertTriangle, Wrench } from 'lucide-react';
+import { proShopApi, type StringingJobInput } from '../api/client';
 import { useAppContext } from '../contexts/AppContext';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
+import StringingJobForm from './StringingJobForm';
 
 const CATEGORY_COLORS: Record<string, string> = {
   clothing: 'bg-blue-100 text-blue-700',
@@ -14,14 +15,30 @@ const CATEGORY_COLORS: Record<string, string> = {
   bags: 'bg-orange-100 text-orange-700',
   footwear: 'bg-green-100 text-green-700',
   accessories: 'bg-pink-100 text-pink-700',
+  strings: 'bg-teal-100 text-teal-700',
   other: 'bg-gray-100 text-gray-600',
 };
 
+const STRINGING_STATUS: Record<string, { label: string; className: string }> = {
+  received: { label: 'Received', className: 'bg-gray-100 text-gray-700' },
+  in_progress: { label: 'Stringing', className: 'bg-blue-100 text-blue-700' },
+  ready: { label: 'Ready for pickup', className: 'bg-green-100 text-green-700' },
+  picked_up: { label: 'Picked up', className: 'bg-gray-100 text-gray-500' },
+  cancelled: { label: 'Cancelled', className: 'bg-red-50 text-red-600' },
+};
+
 function formatPrice(cents: number) {
   return `$${(cents / 100).toFixed(2)}`;
 }
 
-type CartItem = { product: any; quantity: number };
+function variantLabel(v: { size?: string | null; color?: string | null; grip_size?: string | null }) {
+  return [v.size, v.color, v.grip_size ? `Grip ${v.grip_size}` : null].filter(Boolean).join(' / ');
+}
+
+type CartItem = { product: any; variant: any | null; quantity: number };
+
+const cartKey = (item: { product: any; variant: any | null }) =>
+  item.variant ? `${item.product.id}:${item.variant.id}` : item.product.id;
 
 export default function ProShop() {
   const { selectedFacilityId: currentFacilityId } = useAppContext();
@@ -35,8 +52,14 @@ export default function ProShop() {
   const [checkingOut, setCheckingOut] = useState(false);
   const [orderSuccess, setOrderSuccess] = useState(false);
   const [tab, setTab] = useState<{ unbilled_cents: number; items: any[] } | null>(null);
-  const [cardStatus, setCardStatus] = useState<{ has_card: boolean; card_brand?: string; card_last4?: string } | null>(null);
+  const [cardStatus, setCardStatus] = useState<{ has_card: boolean; card_brand?: string; card_last4?: string; household_payer?: boolean } | null>(null);
   const [requireCard, setRequireCard] = useState(false);
+  const [selectedVariants, setSelectedVariants] = useState<Record<string, string>>({});
+  const [stringOptions, setStringOptions] = useState<{ strings: any[]; laborCents: number }>({ strings: [], laborCents: 0 });
+  const [stringingJobs, setStringingJobs] = useState<any[]>([]);
+  const [stringingFormOpen, setStringingFormOpen] = useState(false);
+  const [stringingSubmitting, setStringingSubmitting] = useState(false);
+  const stringingRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (searchParams.get('order') === 'success') {
@@ -49,8 +72,15 @@ export default function ProShop() {
     if (!currentFacilityId) return;
     loadProducts();
     loadTabAndCard();
+    loadStringing();
   }, [currentFacilityId]);
 
+  useEffect(() => {
+    if (!loading && searchParams.get('tab') === 'stringing') {
+      stringingRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  }, [loading]);
+
   const loadTabAndCard = async () => {
     const [tabRes, cardRes, settingsRes] = await Promise.all([
       proShopApi.getMyTab(currentFacilityId!),
@@ -65,6 +95,40 @@ export default function ProShop() {
     if (settingsRes?.success) setRequireCard(!!(settingsRes.data as any)?.data?.require_card);
   };
 
+  const loadStringing = async () => {
+    const [optionsRes, jobsRes] = await Promise.all([
+      proShopApi.getStringOptions(currentFacilityId!),
+      proShopApi.getMyStringingJobs(currentFacilityId!),
+    ]);
+    if (optionsRes.success) setStringOptions((optionsRes.data as any)?.data ?? { strings: [], laborCents: 0 });
+    if (jobsRes.success) setStringingJobs((jobsRes.data as any)?.data ?? []);
+  };
+
+  const handleRequestStringing = async (data: StringingJobInput) => {
+    setStringingSubmitting(true);
+    const res = await proShopApi.createStringingJob(currentFacilityId!, data);
+    if (res.success) {
+      toast.success("Stringing requested — we'll let you know when it's ready");
+      setStringingFormOpen(false);
+      loadStringing();
+    } else {
+      toast.error((res.error as string) || 'Failed to request stringing');
+    }
+    setStringingSubmitting(false);
+  };
+
+  const handleCancelStringing = async (jobId: string) => {
+    const res = await proShopApi.cancelStringingJob(currentFacilityId!, jobId);
+    if (res.success) {
+      toast.success('Stringing request cancelled');
+      loadStringing();
+    } else {
+      toast.error((res.error as string) || 'Failed to cancel');
+    }
+  };
+
+  const activeStringingJobs = stringingJobs.filter(j => j.status !== 'picked_up' && j.status !== 'cancelled');
+
   const loadProducts = async () => {
     setLoading(true);
     const res = await proShopApi.getShopProducts(currentFacilityId!);
@@ -78,25 +142,34 @@ export default function ProShop() {
     setLoading(false);
   };
 
+  const selectedVariant = (product: any) =>
+    (product.variants ?? []).find((v: any) => v.id === selectedVariants[product.id]) ?? null;
+
   const addToCart = (product: any) => {
+    const variant = selectedVariant(product);
+    if ((product.variants ?? []).length > 0 && !variant) {
+      toast.error('Choose an option first');
+      return;
+    }
+    const key = cartKey({ product, variant });
     setCart(prev => {
-      const existing = prev.find(i => i.product.id === product.id);
+      const existing = prev.find(i => cartKey(i) === key);
       if (existing) {
-        const max = product.stock_quantity;
+        const max = variant ? variant.stock_quantity : product.stock_quantity;
         if (max !== null && existing.quantity >= max) {
           toast.error(`Only ${max} in stock`);
           return prev;
         }
-        return prev.map(i => i.product.id === product.id ? { ...i, quantity: i.quantity + 1 } : i);
+        return prev.map(i => cartKey(i) === key ? { ...i, quantity: i.quantity + 1 } : i);
       }
-      return [...prev, { product, quantity: 1 }];
+      return [...prev, { product, variant, quantity: 1 }];
     });
-    toast.success(`${product.name} added to cart`);
+    toast.success(`${product.name}${variant ? ` (${variantLabel(variant)})` : ''} added to cart`);
   };
 
-  const updateQty = (productId: string, delta: number) => {
+  const updateQty = (key: string, delta: number) => {
     setCart(prev => prev
-      .map(i => i.product.id === productId ? { ...i, quantity: i.quantity + delta } : i)
+      .map(i => cartKey(i) === key ? { ...i, quantity: i.quantity + delta } : i)
       .filter(i => i.quantity > 0)
     );
   };
@@ -107,7 +180,7 @@ export default function ProShop() {
   const handleCheckout = async () => {
     if (cart.length === 0) return;
     setCheckingOut(true);
-    const items = cart.map(i => ({ product_id: i.product.id, quantity: i.quantity }));
+    const items = cart.map(i => ({ product_id: i.product.id, variant_id: i.variant?.id ?? null, quantity: i.quantity }));
     const res = await proShopApi.createCheckout(currentFacilityId!, items);
     if (res.success) {
       const data = (res.data as any)?.data ?? res.data as any;
@@ -175,10 +248,16 @@ export default function ProShop() {
           <AlertTriangle className="h-5 w-5 text-amber-600 flex-shrink-0" />
           <div className="flex-1">
             <p className="text-sm font-medium text-amber-800">No card on file</p>
-            <p className="text-xs text-amber-600">
-              This facility requires a saved payment card. Add one in{' '}
-              <button onClick={() => navigate('/payments')} className="underline font-medium">Payments</button>.
-            </p>
+            {cardStatus.household_payer ? (
+              <p className="text-xs text-amber-600">
+                Your household's charges go on the billing payer's card, and they haven't saved one yet.
+              </p>
+            ) : (
+              <p className="text-xs text-amber-600">
+                This facility requires a saved payment card. Add one in{' '}
+                <button onClick={() => navigate('/payments')} className="underline font-medium">Payments</button>.
+              </p>
+            )}
           </div>
         </div>
       )}
@@ -212,6 +291,58 @@ export default function ProShop() {
         </div>
       )}
 
+      {/* Racquet stringing */}
+      {(stringOptions.strings.length > 0 || activeStringingJobs.length > 0) && (
+        <div ref={stringingRef}>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="text-base flex items-center gap-2">
+                <Wrench className="h-4 w-4 text-indigo-600" /> Racquet Stringing
+              </CardTitle>
+              {!stringingFormOpen && stringOptions.strings.length > 0 && (
+                <Button size="sm" variant="outline" onClick={() => setStringingFormOpen(true)}>
+                  <Plus className="h-4 w-4 mr-1" /> Request Stringing
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {stringingFormOpen && (
+                <div className="p-3 border rounded-lg">
+                  <StringingJobForm
+                    strings={stringOptions.strings}
+                    laborCents={stringOptions.laborCents}
+                    submitting={stringingSubmitting}
+                    onSubmit={handleRequestStringing}
+                  />
+                </div>
+              )}
+              {activeStringingJobs.length === 0 ? (
+                !stringingFormOpen && <p className="text-sm text-gray-400">No racquets in for stringing.</p>
+              ) : (
+                <div className="divide-y">
+                  {activeStringingJobs.map(job => (
+                    <div key={job.id} className="flex items-center gap-3 py-2">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{job.racquet}</p>
+                        <p className="text-xs text-gray-500">
+                          {job.string_label} @ {job.tension_label} · needed by {job.due_date}
+                        </p>
+                      </div>
+                      <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${STRINGING_STATUS[job.status]?.className}`}>
+                        {STRINGING_STATUS[job.status]?.label ?? job.status}
+                      </span>
+                      {job.status === 'received' && (
+                        <Button size="sm" variant="ghost" onClick={() => handleCancelStringing(job.id)}>Cancel</Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* Products grid */}
       {products.length === 0 ? (
         <div className="flex flex-col items-center justify-center py-20 text-gray-400">
@@ -220,7 +351,14 @@ export default function ProShop() {
         </div>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-          {products.map(product => (
+          {products.map(product => {
+            const variants: any[] = product.variants ?? [];
+            const variant = selectedVariant(product);
+            const stock = variants.length > 0 ? variant?.stock_quantity ?? null : product.stock_quantity;
+            const soldOut = variants.length > 0
+              ? variants.every(v => v.stock_quantity === 0)
+              : product.stock_quantity === 0;
+            return (
             <Card key={product.id} className="overflow-hidden">
               {product.image_data ? (
                 <img src={product.image_data} alt={product.name} className="w-full h-48 object-cover" />
@@ -239,24 +377,39 @@ export default function ProShop() {
                     <p className="text-xs text-gray-500 mt-0.5 line-clamp-2">{product.description}</p>
                   )}
                 </div>
+                {variants.length > 0 && (
+                  <select
+                    className="w-full h-9 rounded-md border border-input bg-input-background px-2 text-sm"
+                    value={selectedVariants[product.id] ?? ''}
+                    onChange={e => setSelectedVariants(prev => ({ ...prev, [product.id]: e.target.value }))}
+                  >
+                    <option value="">Choose an option…</option>
+                    {variants.map(v => (
+                      <option key={v.id} value={v.id} disabled={v.stock_quantity === 0}>
+                        {variantLabel(v)}{v.stock_quantity === 0 ? ' — sold out' : ''}
+                      </option>
+                    ))}
+                  </select>
+                )}
                 <div className="flex items-center justify-between">
                   <div>
                     <span className="text-base font-bold">{formatPrice(product.price_cents)}</span>
-                    {product.stock_quantity !== null && (
-                      <span className="text-xs text-gray-400 ml-2">{product.stock_quantity} left</span>
+                    {stock !== null && (
+                      <span className="text-xs text-gray-400 ml-2">{stock} left</span>
                     )}
                   </div>
                   <Button
                     size="sm"
                     onClick={() => addToCart(product)}
-                    disabled={product.stock_quantity === 0}
+                    disabled={soldOut || stock === 0}
                   >
-                    {product.stock_quantity === 0 ? 'Out of stock' : 'Add to Cart'}
+                    {soldOut || stock === 0 ? 'Out of stock' : 'Add to Cart'}
                   </Button>
                 </div>
               </CardContent>
             </Card>
-          ))}
+            );
+          })}
         </div>
       )}
 
@@ -275,7 +428,7 @@ export default function ProShop() {
                 <p className="text-sm text-gray-400 text-center py-10">Your cart is empty.</p>
               ) : (
                 cart.map(item => (
-                  <div key={item.product.id} className="flex items-center gap-3">
+                  <div key={cartKey(item)} className="flex items-center gap-3">
                     {item.product.image_data ? (
                       <img src={item.product.image_data} alt={item.product.name} className="h-12 w-12 rounded object-cover flex-shrink-0" />
                     ) : (
@@ -285,14 +438,15 @@ export default function ProShop() {
                     )}
                     <div className="flex-1 min-w-0">
                       <p className="text-sm font-medium truncate">{item.product.name}</p>
+                      {item.variant && <p className="text-xs text-gray-500">{variantLabel(item.variant)}</p>}
                       <p className="text-xs text-gray-500">{formatPrice(item.product.price_cents)} each</p>
                     </div>
                     <div className="flex items-center gap-1">
-                      <button onClick={() => updateQty(item.product.id, -1)} className="p-1 rounded hover:bg-gray-100">
+                      <button onClick={() => updateQty(cartKey(item), -1)} className="p-1 rounded hover:bg-gray-100">
                         <Minus className="h-3 w-3" />
                       </button>
                       <span className="text-sm w-6 text-center">{item.quantity}</span>
-                      <button onClick={() => updateQty(item.product.id, 1)} className="p-1 rounded hover:bg-gray-100">
+                      <button onClick={() => updateQty(cartKey(item), 1)} className="p-1 rounded hover:bg-gray-100">
                         <Plus className="h-3 w-3" />
                       </button>
                     </div>
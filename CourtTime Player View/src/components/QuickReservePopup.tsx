@@ -10,8 +10,9 @@ import { Calendar, Clock, MapPin, User, Zap, AlertCircle, Info } from 'lucide-re
 import { RuleViolationDialog } from './RuleViolationDialog';
 import { SplitPaymentPicker } from './SplitPaymentPicker';
 import { CourtWaiverAcceptanceDialog, useCourtWaiverGate } from './CourtWaiverAcceptanceDialog';
+import { CourtPricePreview, useCourtPriceQuote } from './CourtPricePreview';
 import { useAuth } from '../contexts/AuthContext';
-import { bookingApi, courtConfigApi } from '../api/client';
+import { bookingApi, courtConfigApi, courtWaitlistApi } from '../api/client';
 import {
   formatMinutesAsHHMM,
   parseHHMMToMinutes,
@@ -219,6 +220,7 @@ export function QuickReservePopup({
   const canUseRecurring = isAdmin || facilityFeatures.includes(FEATURE_FLAGS.PLAYER_RECURRING_BOOKINGS);
   const canSplitPayment = facilityFeatures.includes(FEATURE_FLAGS.SPLIT_COURT_PAYMENTS);
   const deerLakeReservationTypes = facilityFeatures.includes(FEATURE_FLAGS.DEER_LAKE_RESERVATION_TYPES);
+  const canJoinWaitlist = facilityFeatures.includes(FEATURE_FLAGS.COURT_WAITLIST);
   const reservationTypeKeys = deerLakeReservationTypes
     ? DEER_LAKE_RESERVATION_TYPE_KEYS
     : RESERVATION_LABEL_TYPE_KEYS;
@@ -249,6 +251,8 @@ export function QuickReservePopup({
   const [recurringEndDate, setRecurringEndDate] = useState('');
   const [splitPayment, setSplitPayment] = useState(false);
   const [splitMembers, setSplitMembers] = useState<Array<{ userId: string; fullName: string }>>([]);
+  const [waitlistedCourtIds, setWaitlistedCourtIds] = useState<string[]>([]);
+  const [joiningWaitlistCourtId, setJoiningWaitlistCourtId] = useState<string | null>(null);
 
   // Set once the user picks a start or end time; their choice then wins over autofill
   const [userChoseTime, setUserChoseTime] = useState(false);
@@ -274,6 +278,7 @@ export function QuickReservePopup({
     setAdditionalCourtIds([]);
     setSplitPayment(false);
     setSplitMembers([]);
+    setWaitlistedCourtIds([]);
   }, [isOpen]);
 
   // Reset court selection when facility changes
@@ -473,6 +478,17 @@ export function QuickReservePopup({
     }));
   }, [selectedCourtType, selectedTime, duration, availableCourts, availabilityByCourtId, bookedByCourtId]);
 
+  // Booked (not closed) courts for the chosen window — the ones a member can queue for
+  const waitlistableCourts = React.useMemo(
+    () =>
+      courtsWithAvailability.filter(
+        (court) =>
+          !court.isAvailable &&
+          isWithinCourtHours(court, selectedTime, duration, availabilityByCourtId)
+      ),
+    [courtsWithAvailability, selectedTime, duration, availabilityByCourtId]
+  );
+
   // Keep the court selection on a court that can actually host the chosen window
   useEffect(() => {
     if (!selectedCourtId || courtsWithAvailability.length === 0) return;
@@ -491,6 +507,33 @@ export function QuickReservePopup({
     setSelectedTime(timeSlots[0]);
   }, [selectedTime, timeSlots]);
 
+  const handleJoinWaitlist = async (court: FacilityCourt) => {
+    const startMinutes = slotLabelToMinutes(selectedTime);
+    const endMinutes = startMinutes + durationToMinutes(duration);
+    setJoiningWaitlistCourtId(court.id);
+    try {
+      const res = await courtWaitlistApi.join({
+        facilityId: selectedFacility,
+        courtId: court.id,
+        bookingDate: selectedDate,
+        startTime: `${formatMinutesAsHHMM(startMinutes)}:00`,
+        endTime: `${formatMinutesAsHHMM(endMinutes)}:00`,
+      });
+      if (!res.success) {
+        alert(res.error || 'Could not join the waitlist');
+        return;
+      }
+      setWaitlistedCourtIds((prev) => [...prev, court.id]);
+      const position = res.entry?.position;
+      alert(
+        `You're on the waitlist for ${court.name}${position ? ` (#${position} in line)` : ''}. ` +
+          `If it's cancelled we'll notify you, and you'll have a short window to claim it.`
+      );
+    } finally {
+      setJoiningWaitlistCourtId(null);
+    }
+  };
+
   const toggleRecurringDay = (day: string) => {
     setRecurringDays(prev =>
       prev.includes(day)
@@ -937,6 +980,21 @@ export function QuickReservePopup({
     return `${h} hr ${m} min`;
   }, [duration]);
 
+  const selectedCourtIsPaid = React.useMemo(() => {
+    const court = availableCourts.find((c) => c.id === selectedCourtId);
+    return Boolean(court?.requirePayment && court?.bookingAmountCents);
+  }, [availableCourts, selectedCourtId]);
+
+  // Court fee for a single paid court, priced by the server for this slot and member
+  const priceQuote = useCourtPriceQuote({
+    enabled: isOpen && selectedCourtIsPaid && allSelectedCourts.length === 1 && !advancedBooking,
+    courtId: selectedCourtId,
+    bookingDate: selectedDate,
+    startTime12h: selectedTime,
+    endTime12h: selectedEndTime,
+  });
+  const postPlaySettlement = facilityFeatures.includes(FEATURE_FLAGS.POST_PLAY_SETTLEMENT);
+
   return (
     <>
     <CourtWaiverAcceptanceDialog {...courtWaiverGate.dialogProps} />
@@ -1130,9 +1188,45 @@ export function QuickReservePopup({
                     : `No ${selectedCourtType} courts are free from ${selectedTime} to ${selectedEndTime}. Try another time.`}
                 </p>
               )}
+              {canJoinWaitlist &&
+                !courtsWithAvailability.some(court => court.isAvailable) &&
+                waitlistableCourts.length > 0 && (
+                <div className="space-y-1.5 rounded-md border border-amber-200 bg-amber-50 p-2">
+                  <p className="text-xs text-amber-800">
+                    Join a waitlist and we'll offer you the court if it's cancelled.
+                  </p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {waitlistableCourts.map((court) => {
+                      const joined = waitlistedCourtIds.includes(court.id);
+                      return (
+                        <Button
+                          key={court.id}
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          disabled={joined || joiningWaitlistCourtId !== null}
+                          onClick={() => handleJoinWaitlist(court)}
+                        >
+                          {joined ? `On waitlist: ${court.name}` : `Join waitlist: ${court.name}`}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
+          {priceQuote && allSelectedCourts.length === 1 && !advancedBooking && (
+            <CourtPricePreview
+              label={postPlaySettlement ? 'Court fee (charged after play)' : 'Court fee'}
+              courtFeeCents={priceQuote.courtFeeCents}
+              hourlyRateCents={priceQuote.hourlyRateCents}
+              durationLabel={durationLabel}
+              quote={priceQuote}
+            />
+          )}
+
           {/* Advanced Booking Checkbox - admins always; players when enabled for the facility */}
           {canSplitPayment && !advancedBooking && allSelectedCourts.length === 1 && (
             <SplitPaymentPicker
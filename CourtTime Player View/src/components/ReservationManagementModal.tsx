@@ -722,6 +722,7 @@ export function ReservationManagementModal({
         isOpen={showBallMachineCode}
         onClose={() => setShowBallMachineCode(false)}
         facilityId={reservation.facilityId}
+        bookingId={reservation.id}
         bookingSummary={[reservation.courtName, reservation.bookingDate, reservation.startTime]
           .filter(Boolean)
           .join(' · ')}
@@ -0,0 +1,176 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Ticket } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import {
+  sessionPackagesApi,
+  type MemberSessionPackage,
+  type SessionPackageLedgerEntry,
+  type SessionPackageProduct,
+} from '../api/client';
+import { formatPackageUnits } from '../../shared/utils/sessionPackages';
+import { toast } from 'sonner';
+
+function dollars(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+const STATUS_LABELS: Record<MemberSessionPackage['status'], string> = {
+  pending: 'Pending',
+  active: 'Active',
+  expired: 'Expired',
+  refunded: 'Refunded',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * The member's clinic and court-time packages at a club, with what the club
+ * sells. Packages are used automatically at checkout for drill/clinic signups
+ * and paid court bookings. Hidden when the club hasn't enabled packages.
+ */
+export function SessionPackagesCard({ facilityId }: { facilityId: string }) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [enabled, setEnabled] = useState(false);
+  const [products, setProducts] = useState<SessionPackageProduct[]>([]);
+  const [packages, setPackages] = useState<MemberSessionPackage[]>([]);
+  const [buyingId, setBuyingId] = useState<string | null>(null);
+  const [openLedgerId, setOpenLedgerId] = useState<string | null>(null);
+  const [ledger, setLedger] = useState<SessionPackageLedgerEntry[]>([]);
+
+  const load = useCallback(async () => {
+    const res = await sessionPackagesApi.getMine(facilityId);
+    setEnabled(Boolean(res.success && res.data?.enabled));
+    setProducts(res.data?.products ?? []);
+    setPackages(res.data?.packages ?? []);
+  }, [facilityId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (searchParams.get('packagePurchase') !== 'success') return;
+    const sessionId = searchParams.get('session_id');
+    const confirm = async () => {
+      if (sessionId) {
+        const res = await sessionPackagesApi.confirmPurchase(sessionId);
+        if (res.success) {
+          toast.success(`${res.data?.name ?? 'Package'} is ready to use`);
+        } else {
+          toast.error(res.error || 'Could not confirm your purchase yet — it will appear shortly');
+        }
+      }
+      await load();
+      searchParams.delete('packagePurchase');
+      searchParams.delete('session_id');
+      setSearchParams(searchParams, { replace: true });
+    };
+    void confirm();
+  }, [searchParams, setSearchParams, load]);
+
+  const handleBuy = async (productId: string) => {
+    setBuyingId(productId);
+    const base = window.location.origin;
+    const res = await sessionPackagesApi.buy(facilityId, {
+      productId,
+      successUrl: `${base}/payments?packagePurchase=success&session_id={CHECKOUT_SESSION_ID}`,
+      cancelUrl: `${base}/payments`,
+    });
+    if (res.success && res.data?.url) {
+      window.location.href = res.data.url;
+      return;
+    }
+    setBuyingId(null);
+    toast.error(res.error || 'Could not start checkout');
+  };
+
+  const toggleLedger = async (packageId: string) => {
+    if (openLedgerId === packageId) {
+      setOpenLedgerId(null);
+      return;
+    }
+    setOpenLedgerId(packageId);
+    setLedger([]);
+    const res = await sessionPackagesApi.getLedger(facilityId, packageId);
+    if (res.success) setLedger(res.data ?? []);
+  };
+
+  if (!enabled || (products.length === 0 && packages.length === 0)) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Ticket className="h-5 w-5" />
+          Session packages
+        </CardTitle>
+        <CardDescription>
+          Prepaid clinics and court time. A package is used automatically when you sign up for a
+          clinic or drill, or book a court, instead of paying each time.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {packages.length > 0 && (
+          <ul className="divide-y rounded-md border">
+            {packages.map(p => (
+              <li key={p.id} className="px-3 py-2 text-sm">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <div className="font-medium">{p.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {formatPackageUnits(p.kind, p.unitsRemaining)} left of {formatPackageUnits(p.kind, p.unitsTotal)}
+                      {p.expiresAt ? ` · expires ${new Date(p.expiresAt).toLocaleDateString()}` : ''}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={p.status === 'active' ? 'default' : 'secondary'}>{STATUS_LABELS[p.status]}</Badge>
+                    <Button variant="ghost" size="sm" onClick={() => toggleLedger(p.id)}>
+                      {openLedgerId === p.id ? 'Hide' : 'History'}
+                    </Button>
+                  </div>
+                </div>
+                {openLedgerId === p.id && (
+                  <ul className="mt-2 space-y-1 text-xs text-gray-600">
+                    {ledger.map(e => (
+                      <li key={e.id} className="flex justify-between gap-3">
+                        <span>
+                          {new Date(e.createdAt).toLocaleDateString()} · {e.description}
+                          {e.pending ? ' (held for checkout)' : ''}
+                        </span>
+                        <span className={e.units < 0 ? '' : 'text-green-700'}>
+                          {e.units < 0 ? '−' : '+'}{formatPackageUnits(p.kind, Math.abs(e.units))}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        {products.length > 0 && (
+          <div className="grid gap-3 sm:grid-cols-2">
+            {products.map(product => (
+              <div key={product.id} className="rounded-md border p-3 space-y-1">
+                <div className="font-medium">{product.name}</div>
+                <div className="text-sm text-gray-600">
+                  {formatPackageUnits(product.kind, product.units)}
+                  {product.validDays ? ` · valid ${product.validDays} days` : ''}
+                </div>
+                {product.description && <div className="text-xs text-gray-500">{product.description}</div>}
+                <div className="flex items-center justify-between pt-1">
+                  <span className="font-semibold">{dollars(product.priceCents)}</span>
+                  <Button size="sm" disabled={buyingId !== null} onClick={() => handleBuy(product.id)}>
+                    {buyingId === product.id ? 'Redirecting…' : 'Buy'}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import type { StringingJobInput } from '../api/client';
+
+function formatPrice(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function variantLabel(v: { size?: string | null; color?: string | null; grip_size?: string | null }) {
+  return [v.size, v.color, v.grip_size ? `Grip ${v.grip_size}` : null].filter(Boolean).join(' / ');
+}
+
+function todayYmd() {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+interface StringingJobFormProps {
+  /** Active 'strings' products with their variants */
+  strings: any[];
+  laborCents: number;
+  submitting: boolean;
+  submitLabel?: string;
+  onSubmit: (data: StringingJobInput) => void;
+}
+
+/** Racquet, string, tension and due date for a stringing job; shared by the member shop and the admin desk. */
+export default function StringingJobForm({ strings, laborCents, submitting, submitLabel = 'Request Stringing', onSubmit }: StringingJobFormProps) {
+  const [racquet, setRacquet] = useState('');
+  const [productId, setProductId] = useState('');
+  const [variantId, setVariantId] = useState('');
+  const [mainTension, setMainTension] = useState('55');
+  const [crossTension, setCrossTension] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const product = strings.find(s => s.id === productId);
+  const variants: any[] = product?.variants ?? [];
+  const total = product ? product.price_cents + laborCents : null;
+
+  const canSubmit = racquet.trim() && product && (variants.length === 0 || variantId) && mainTension && dueDate;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    onSubmit({
+      racquet: racquet.trim(),
+      stringProductId: productId,
+      stringVariantId: variantId || null,
+      mainTensionLbs: Number(mainTension),
+      crossTensionLbs: crossTension ? Number(crossTension) : null,
+      dueDate,
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  if (strings.length === 0) {
+    return <p className="text-sm text-gray-400">The shop has no strings listed right now.</p>;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="space-y-1">
+        <Label>Racquet</Label>
+        <Input value={racquet} maxLength={120} placeholder="e.g. Babolat Pure Drive, black grip" onChange={e => setRacquet(e.target.value)} />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label>String</Label>
+          <select
+            className="w-full h-9 rounded-md border border-input bg-input-background px-2 text-sm"
+            value={productId}
+            onChange={e => { setProductId(e.target.value); setVariantId(''); }}
+          >
+            <option value="">Choose a string…</option>
+            {strings.map(s => (
+              <option key={s.id} value={s.id} disabled={s.stock_quantity === 0}>
+                {s.name} — {formatPrice(s.price_cents)}{s.stock_quantity === 0 ? ' (sold out)' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+        {variants.length > 0 && (
+          <div className="space-y-1">
+            <Label>Gauge / Color</Label>
+            <select
+              className="w-full h-9 rounded-md border border-input bg-input-background px-2 text-sm"
+              value={variantId}
+              onChange={e => setVariantId(e.target.value)}
+            >
+              <option value="">Choose an option…</option>
+              {variants.map(v => (
+                <option key={v.id} value={v.id} disabled={v.stock_quantity === 0}>
+                  {variantLabel(v)}{v.stock_quantity === 0 ? ' — sold out' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label>Mains (lbs)</Label>
+          <Input type="number" min={20} max={80} step={0.5} value={mainTension} onChange={e => setMainTension(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label>Crosses (lbs)</Label>
+          <Input type="number" min={20} max={80} step={0.5} value={crossTension} placeholder="Same" onChange={e => setCrossTension(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label>Needed by</Label>
+          <Input type="date" min={todayYmd()} value={dueDate} onChange={e => setDueDate(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label>Notes</Label>
+        <Textarea rows={2} value={notes} placeholder="Pre-stretch, logo, anything else" onChange={e => setNotes(e.target.value)} />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500">
+          {total !== null
+            ? `${formatPrice(total)} (string ${formatPrice(product.price_cents)} + labor ${formatPrice(laborCents)}), added to the tab when ready`
+            : `Labor ${formatPrice(laborCents)} plus the string, added to the tab when ready`}
+        </p>
+        <Button type="submit" size="sm" disabled={!canSubmit || submitting}>
+          {submitting ? 'Saving…' : submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
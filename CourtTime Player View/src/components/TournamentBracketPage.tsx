@@ -0,0 +1,83 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Trophy } from 'lucide-react';
+import { Card } from './ui/card';
+import { tournamentsApi, type TournamentDetail } from '../api/client';
+import { TournamentBracket, ShareBracketButton } from './TournamentBracketView';
+import { formatLeagueDate } from './LeagueSeasonView';
+import { TOURNAMENT_FORMAT_LABELS } from '../../shared/utils/tournamentDisplay';
+
+/** How often the public bracket refreshes so live scores show up. */
+const REFRESH_MS = 30_000;
+
+/**
+ * Public bracket page (/brackets/:tournamentId): what a tournament share link
+ * opens. No login; refreshes on a timer while open.
+ */
+export function TournamentBracketPage() {
+  const { tournamentId } = useParams<{ tournamentId: string }>();
+  const [detail, setDetail] = useState<TournamentDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    if (!tournamentId) return;
+    try {
+      const res = await tournamentsApi.getPublicBracket(tournamentId);
+      setDetail(res.success ? res.detail ?? null : null);
+    } catch (err) {
+      console.error('Error loading bracket:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [tournamentId]);
+
+  useEffect(() => {
+    void load();
+    const timer = window.setInterval(() => void load(), REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, [load]);
+
+  const tournament = detail?.tournament;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-gradient-to-r from-green-700 to-green-800 shadow-md">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 py-4 flex items-center gap-3 text-white">
+          <Trophy className="h-6 w-6" />
+          <span className="font-semibold">{tournament?.facilityName ?? 'CourtTime'}</span>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 py-6">
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600" />
+          </div>
+        ) : !tournament || !detail ? (
+          <div className="flex flex-col items-center justify-center py-20 text-gray-400">
+            <Trophy className="h-12 w-12 mb-3" />
+            <p className="text-sm">This bracket isn't available.</p>
+          </div>
+        ) : (
+          <Card className="p-4 space-y-4">
+            <div className="flex items-start justify-between gap-3 flex-wrap">
+              <div>
+                <h1 className="text-2xl font-semibold text-gray-900">{tournament.name}</h1>
+                <p className="text-sm text-gray-500">
+                  {TOURNAMENT_FORMAT_LABELS[tournament.format]} · {formatLeagueDate(tournament.startDate)}
+                  {tournament.endDate !== tournament.startDate && ` – ${formatLeagueDate(tournament.endDate)}`}
+                  {tournament.status === 'completed' && ' · Completed'}
+                </p>
+                {tournament.description && <p className="text-sm text-gray-600 mt-1">{tournament.description}</p>}
+              </div>
+              <ShareBracketButton tournamentId={tournament.id} name={tournament.name} />
+            </div>
+            <TournamentBracket detail={detail} />
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
+
+export default TournamentBracketPage;
@@ -0,0 +1,253 @@
+import React, { useEffect, useState } from 'react';
+import { Calendar, MapPin, Share2 } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import type { TournamentDetail, TournamentEntrant, TournamentMatch } from '../api/client';
+import { formatLeagueDate, formatLeagueTime } from './LeagueSeasonView';
+import {
+  TOURNAMENT_DRAW_ORDER,
+  buildTournamentShareUrl,
+  tournamentRoundLabel,
+} from '../../shared/utils/tournamentDisplay';
+import { toast } from 'sonner';
+
+function entrantLabel(entrant: TournamentEntrant | undefined) {
+  if (!entrant) return null;
+  return entrant.seed ? `${entrant.name} (${entrant.seed})` : entrant.name;
+}
+
+function MatchStatusBadge({ match }: { match: TournamentMatch }) {
+  switch (match.status) {
+    case 'in_progress':
+      return <Badge className="bg-red-100 text-red-700 hover:bg-red-100">Live</Badge>;
+    case 'ready':
+      return match.courtId ? null : (
+        <Badge className="bg-amber-100 text-amber-700 hover:bg-amber-100">Needs a court</Badge>
+      );
+    default:
+      return null;
+  }
+}
+
+/** One bracket box: both lines, the score, and where/when it's played. */
+function MatchCard({
+  match,
+  entrants,
+  actions,
+}: {
+  match: TournamentMatch;
+  entrants: Map<string, TournamentEntrant>;
+  actions?: React.ReactNode;
+}) {
+  const line = (entrantId: string | null) => {
+    const won = match.winnerId != null && match.winnerId === entrantId;
+    const label =
+      entrantLabel(entrantId ? entrants.get(entrantId) : undefined) ??
+      (match.status === 'walkover' || match.status === 'void' ? 'Bye' : 'TBD');
+    return (
+      <div className={`truncate ${won ? 'font-semibold text-gray-900' : entrantId ? 'text-gray-700' : 'text-gray-400'}`}>
+        {label}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className={`rounded-md border bg-white p-2 text-sm space-y-1 ${
+        match.status === 'in_progress' ? 'border-red-300' : 'border-gray-200'
+      }`}
+    >
+      {line(match.entrantAId)}
+      {line(match.entrantBId)}
+      <div className="flex items-center gap-2 flex-wrap text-xs text-gray-500">
+        {match.score && <span className="font-medium text-gray-700">{match.score}</span>}
+        <MatchStatusBadge match={match} />
+        {match.matchDate && match.startTime && match.status !== 'completed' && (
+          <span className="flex items-center gap-1">
+            <Calendar className="h-3 w-3" />
+            {formatLeagueDate(match.matchDate)} {formatLeagueTime(match.startTime)}
+          </span>
+        )}
+        {match.courtName && match.status !== 'completed' && (
+          <span className="flex items-center gap-1">
+            <MapPin className="h-3 w-3" />
+            {match.courtName}
+          </span>
+        )}
+      </div>
+      {actions && <div className="flex items-center gap-1 pt-1">{actions}</div>}
+    </div>
+  );
+}
+
+/**
+ * The bracket, one section per draw (main, losers, compass directions) with
+ * rounds as columns. Void matches (nobody can reach them) are hidden.
+ */
+export function TournamentBracket({
+  detail,
+  renderActions,
+}: {
+  detail: TournamentDetail;
+  renderActions?: (match: TournamentMatch) => React.ReactNode;
+}) {
+  const entrants = new Map(detail.entrants.map((e) => [e.id, e]));
+  const draws = Array.from(new Set(detail.matches.map((m) => m.draw))).sort(
+    (a, b) => TOURNAMENT_DRAW_ORDER.indexOf(a) - TOURNAMENT_DRAW_ORDER.indexOf(b)
+  );
+
+  if (detail.matches.length === 0) {
+    return <p className="text-sm text-gray-400">The draw hasn't been made yet.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {draws.map((draw) => {
+        const matches = detail.matches.filter((m) => m.draw === draw);
+        const roundCount = Math.max(...matches.map((m) => m.round));
+        const rounds = Array.from({ length: roundCount }, (_, i) => i + 1);
+        return (
+          <div key={draw}>
+            {draws.length > 1 && (
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">{draw === 'Final' ? 'Grand final' : draw}</h3>
+            )}
+            <div className="flex gap-3 overflow-x-auto pb-2">
+              {rounds.map((round) => (
+                <div key={round} className="w-52 shrink-0 space-y-2">
+                  <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+                    {tournamentRoundLabel(draw, round, roundCount)}
+                  </h4>
+                  <div className="flex flex-col justify-around gap-2 h-full">
+                    {matches
+                      .filter((m) => m.round === round && m.status !== 'void')
+                      .sort((a, b) => a.position - b.position)
+                      .map((match) => (
+                        <MatchCard
+                          key={match.id}
+                          match={match}
+                          entrants={entrants}
+                          actions={renderActions?.(match)}
+                        />
+                      ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/** Copies (or natively shares) the public bracket link. */
+export function ShareBracketButton({ tournamentId, name }: { tournamentId: string; name: string }) {
+  const handleShare = async () => {
+    const url = buildTournamentShareUrl(tournamentId);
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: name, url });
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      toast.success('Bracket link copied');
+    } catch (err) {
+      if ((err as Error)?.name !== 'AbortError') toast.error('Could not share the link');
+    }
+  };
+
+  return (
+    <Button variant="outline" size="sm" className="gap-2" onClick={() => void handleShare()}>
+      <Share2 className="h-4 w-4" />
+      Share bracket
+    </Button>
+  );
+}
+
+interface TournamentScoreDialogProps {
+  match: TournamentMatch | null;
+  entrants: TournamentEntrant[];
+  onClose: () => void;
+  onSubmit: (data: { score?: string; winnerId?: string }) => Promise<void>;
+}
+
+/** Post a live score while the match is on, or pick the winner to finish it. */
+export function TournamentScoreDialog({ match, entrants, onClose, onSubmit }: TournamentScoreDialogProps) {
+  const [score, setScore] = useState('');
+  const [winnerId, setWinnerId] = useState('live');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setScore(match?.score ?? '');
+    setWinnerId(match?.winnerId ?? 'live');
+  }, [match]);
+
+  const names = new Map(entrants.map((e) => [e.id, e.name]));
+  const final = winnerId !== 'live';
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    try {
+      await onSubmit({ score: score.trim() || undefined, winnerId: final ? winnerId : undefined });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(match)} onOpenChange={(open: boolean) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Match score</DialogTitle>
+          <DialogDescription>
+            Update the score as you play; pick the winner when the match is over.
+          </DialogDescription>
+        </DialogHeader>
+        {match && (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Score</Label>
+              <Input
+                placeholder="6-4, 3-6, 10-7"
+                maxLength={100}
+                value={score}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setScore(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Result</Label>
+              <Select value={winnerId} onValueChange={(value: string) => setWinnerId(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {match.status !== 'completed' && <SelectItem value="live">Still playing</SelectItem>}
+                  {[match.entrantAId, match.entrantBId].map(
+                    (id) =>
+                      id && (
+                        <SelectItem key={id} value={id}>
+                          {names.get(id)} won
+                        </SelectItem>
+                      )
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => void handleSubmit()} disabled={saving || (!final && !score.trim())}>
+            {saving ? 'Saving…' : final ? 'Save result' : 'Update live score'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,173 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Award } from 'lucide-react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useAppContext } from '../contexts/AppContext';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  tournamentsApi,
+  type Tournament,
+  type TournamentDetail,
+  type TournamentMatch,
+} from '../api/client';
+import { ShareBracketButton, TournamentBracket, TournamentScoreDialog } from './TournamentBracketView';
+import { formatLeagueDate } from './LeagueSeasonView';
+import { TOURNAMENT_FORMAT_LABELS } from '../../shared/utils/tournamentDisplay';
+import { toast } from 'sonner';
+
+/**
+ * Member Tournaments tab (tournaments feature flag): brackets at the club,
+ * with live score entry for the member's own matches. Draws and courts are
+ * managed on the admin Tournaments page.
+ */
+export function Tournaments() {
+  const { selectedFacilityId } = useAppContext();
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [unavailable, setUnavailable] = useState(false);
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [tournamentId, setTournamentId] = useState('');
+  const [detail, setDetail] = useState<TournamentDetail | null>(null);
+  const [scoring, setScoring] = useState<TournamentMatch | null>(null);
+
+  const load = useCallback(async () => {
+    if (!selectedFacilityId) return;
+    try {
+      setLoading(true);
+      const res = await tournamentsApi.getTournaments(selectedFacilityId);
+      if (!res.success) {
+        setUnavailable(true);
+        return;
+      }
+      setUnavailable(false);
+      setTournaments(res.tournaments);
+      setTournamentId((current) => current || res.tournaments[0]?.id || '');
+    } catch (err) {
+      console.error('Error loading tournaments:', err);
+      toast.error('Failed to load tournaments');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedFacilityId]);
+
+  const loadDetail = useCallback(async () => {
+    if (!selectedFacilityId || !tournamentId) {
+      setDetail(null);
+      return;
+    }
+    const res = await tournamentsApi.getTournament(selectedFacilityId, tournamentId);
+    setDetail(res.success ? res.detail ?? null : null);
+  }, [selectedFacilityId, tournamentId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    void loadDetail();
+  }, [loadDetail]);
+
+  const handleScore = async (data: { score?: string; winnerId?: string }) => {
+    if (!selectedFacilityId || !scoring) return;
+    const res = await tournamentsApi.updateScore(selectedFacilityId, scoring.id, data);
+    if (res.success) {
+      toast.success(data.winnerId ? 'Result saved' : 'Live score updated');
+      setScoring(null);
+      await loadDetail();
+    } else {
+      toast.error(res.error || 'Failed to save score');
+    }
+  };
+
+  if (!selectedFacilityId || unavailable) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 text-gray-400">
+        <Award className="h-12 w-12 mb-3" />
+        <p className="text-sm">
+          {selectedFacilityId
+            ? 'Tournaments are not enabled for this facility.'
+            : 'Select a facility to see tournaments.'}
+        </p>
+      </div>
+    );
+  }
+
+  const myEntrantIds = new Set(
+    detail?.entrants.filter((e) => user && e.playerIds.includes(user.id)).map((e) => e.id) ?? []
+  );
+  const isMine = (match: TournamentMatch) =>
+    myEntrantIds.has(match.entrantAId ?? '') || myEntrantIds.has(match.entrantBId ?? '');
+
+  return (
+    <div className="space-y-6 pb-20">
+      <div className="flex items-center gap-3">
+        <Award className="h-6 w-6 text-green-600" />
+        <h1 className="text-2xl font-semibold text-gray-900">Tournaments</h1>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-16">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600" />
+        </div>
+      ) : tournaments.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-gray-400">
+          <Award className="h-12 w-12 mb-3" />
+          <p className="text-sm">No tournaments yet.</p>
+        </div>
+      ) : (
+        <Card className="p-4 space-y-4">
+          <div className="flex items-center justify-between gap-3 flex-wrap">
+            <Select value={tournamentId} onValueChange={(value: string) => setTournamentId(value)}>
+              <SelectTrigger className="w-full sm:w-96">
+                <SelectValue placeholder="Choose a tournament" />
+              </SelectTrigger>
+              <SelectContent>
+                {tournaments.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {detail?.tournament.isPublic && (
+              <ShareBracketButton tournamentId={detail.tournament.id} name={detail.tournament.name} />
+            )}
+          </div>
+
+          {detail && (
+            <>
+              <p className="text-sm text-gray-600">
+                {TOURNAMENT_FORMAT_LABELS[detail.tournament.format]} ·{' '}
+                {formatLeagueDate(detail.tournament.startDate)}
+                {detail.tournament.endDate !== detail.tournament.startDate &&
+                  ` – ${formatLeagueDate(detail.tournament.endDate)}`}
+                {detail.tournament.status === 'completed' && ' · Completed'}
+              </p>
+              <TournamentBracket
+                detail={detail}
+                renderActions={(match) =>
+                  isMine(match) &&
+                  (match.status === 'ready' || match.status === 'in_progress') && (
+                    <Button size="sm" variant="outline" onClick={() => setScoring(match)}>
+                      {match.status === 'in_progress' ? 'Update score' : 'Enter score'}
+                    </Button>
+                  )
+                }
+              />
+            </>
+          )}
+        </Card>
+      )}
+
+      <TournamentScoreDialog
+        match={scoring}
+        entrants={detail?.entrants ?? []}
+        onClose={() => setScoring(null)}
+        onSubmit={handleScore}
+      />
+    </div>
+  );
+}
+
+export default Tournaments;
@@ -4,7 +4,7 @@ import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from './ui/dropdown-menu';
 import { Button } from './ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
-import { User, LogOut, ChevronLeft, ChevronRight, ChevronDown, Calendar, Building2, LayoutDashboard, UserSearch, BookOpen, UserCog, MessageSquare, MessageCircle, Mail, X, CreditCard, Plus, ShoppingBag, ShoppingCart, DollarSign, BarChart2, CalendarDays, GraduationCap, Target } from 'lucide-react';
+import { User, LogOut, ChevronLeft, ChevronRight, ChevronDown, Calendar, Building2, LayoutDashboard, UserSearch, BookOpen, UserCog, MessageSquare, MessageCircle, Mail, X, CreditCard, Plus, ShoppingBag, ShoppingCart, DollarSign, BarChart2, CalendarDays, GraduationCap, Target, Trophy, Award, UserCheck } from 'lucide-react';
 import logoImage from 'figma:asset/8775e46e6be583b8cd937eefe50d395e0a3fcf52.png';
 import { useAuth } from '../contexts/AuthContext';
 import { useAppContext } from '../contexts/AppContext';
@@ -42,6 +42,8 @@ export function UnifiedSidebar({
   const proShopEnabled = enabledFeatures.includes('pro_shop');
   const annualFeesEnabled = enabledFeatures.includes('annual_membership_fees');
   const lessonsEnabled = enabledFeatures.includes('lessons_tab');
+  const leaguesEnabled = enabledFeatures.includes('leagues');
+  const tournamentsEnabled = enabledFeatures.includes('tournaments');
   const ballMachineEnabled = enabledFeatures.includes('st_marlow_ball_machine');
   const location = useLocation();
   const navigate = useNavigate();
@@ -430,6 +432,12 @@ export function UnifiedSidebar({
                   label="Reservations"
                   isActive={currentPage === 'booking-management' || currentPage === 'admin-booking'}
                 />
+                <SidebarButton
+                  onClick={() => handleNav('/admin/guests')}
+                  icon={UserCheck}
+                  label="Guests"
+                  isActive={currentPage === 'guests-admin'}
+                />
                 <SidebarButton
                   onClick={() => handleNav('/admin/member-payments')}
                   icon={CreditCard}
@@ -456,6 +464,22 @@ export function UnifiedSidebar({
                     isActive={currentPage === 'lessons-admin'}
                   />
                 )}
+                {leaguesEnabled && (
+                  <SidebarButton
+                    onClick={() => handleNav('/admin/leagues')}
+                    icon={Trophy}
+                    label="Leagues"
+                    isActive={currentPage === 'leagues-admin'}
+                  />
+                )}
+                {tournamentsEnabled && (
+                  <SidebarButton
+                    onClick={() => handleNav('/admin/tournaments')}
+                    icon={Award}
+                    label="Tournaments"
+                    isActive={currentPage === 'tournaments-admin'}
+                  />
+                )}
                 {proShopEnabled && (
                   <SidebarButton
                     onClick={() => handleNav('/admin/pro-shop')}
@@ -544,6 +568,22 @@ export function UnifiedSidebar({
                   isActive={currentPage === 'lessons'}
                 />
               )}
+              {leaguesEnabled && (
+                <SidebarButton
+                  onClick={() => handleNav('/leagues')}
+                  icon={Trophy}
+                  label="Leagues"
+                  isActive={currentPage === 'leagues'}
+                />
+              )}
+              {tournamentsEnabled && (
+                <SidebarButton
+                  onClick={() => handleNav('/tournaments')}
+                  icon={Award}
+                  label="Tournaments"
+                  isActive={currentPage === 'tournaments'}
+                />
+              )}
               {ballMachineEnabled && (
                 <SidebarButton
                   onClick={() => handleNav('/ball-machine')}
@@ -18,7 +18,7 @@ import { confirmSkipRecurringConflicts } from '../../utils/recurringConflicts';
 interface Member {
   userId: string;
   fullName: string;
-  email: string;
+  email: string | null;
   membershipType?: string;
 }
 
@@ -890,7 +890,7 @@ export function AdminBooking() {
                         <SelectContent>
                           {members.map((member) => (
                             <SelectItem key={member.userId} value={member.userId}>
-                              {member.fullName} ({member.email})
+                              {member.email ? `${member.fullName} (${member.email})` : member.fullName}
                             </SelectItem>
                           ))}
                           {members.length === 0 && !isLoadingMembers && (
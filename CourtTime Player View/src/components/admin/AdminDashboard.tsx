@@ -1,13 +1,14 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { NotificationBell } from '../NotificationBell';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { Button } from '../ui/button';
-import { Calendar, Users, TrendingUp, DollarSign, Download, Filter, BarChart3, PieChart } from 'lucide-react';
+import { Calendar, Users, TrendingUp, DollarSign, Download, Filter, BarChart3, PieChart, History } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { Label } from '../ui/label';
 import { Badge } from '../ui/badge';
-import { adminApi, unwrapApiPayload } from '../../api/client';
+import { adminApi, unwrapApiPayload, type AuditLogFilters } from '../../api/client';
+import { AuditLogViewer } from './AuditLogViewer';
 import { useAuth } from '../../contexts/AuthContext';
 import { useAppContext } from '../../contexts/AppContext';
 import { toast } from 'sonner';
@@ -58,7 +59,7 @@ export function AdminDashboard() {
   const { user } = useAuth();
   const { selectedFacilityId: currentFacilityId } = useAppContext();
   const navigate = useNavigate();
-  const [activeTab, setActiveTab] = useState<'overview' | 'courts' | 'members'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'courts' | 'members' | 'audit'>('overview');
   const [timeRange, setTimeRange] = useState('30');
   const [stats, setStats] = useState<DashboardStats>({
     totalBookings: 0,
@@ -96,6 +97,11 @@ export function AdminDashboard() {
     }
   }, [timeRange]);
 
+  const loadAuditLog = useCallback(
+    (filters: AuditLogFilters) => adminApi.getAuditLog(currentFacilityId!, filters),
+    [currentFacilityId]
+  );
+
   const loadDashboardData = async () => {
     if (!currentFacilityId) {
       toast.error('No facility selected');
@@ -352,8 +358,17 @@ export function AdminDashboard() {
                     <Users className="h-4 w-4 mr-1" />
                     Members
                   </Button>
+                  <Button
+                    variant={activeTab === 'audit' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setActiveTab('audit')}
+                    className="shrink-0"
+                  >
+                    <History className="h-4 w-4 mr-1" />
+                    Audit Log
+                  </Button>
                 </div>
-                {activeTab !== 'overview' && (
+                {(activeTab === 'courts' || activeTab === 'members') && (
                   <div className="flex items-center gap-2">
                     <Filter className="h-4 w-4 text-gray-500" />
                     <Label htmlFor="timeRange" className="text-sm">Time Range:</Label>
@@ -846,6 +861,9 @@ export function AdminDashboard() {
                   </Card>
                 </div>
               )}
+
+              {/* Audit Log Tab */}
+              {activeTab === 'audit' && currentFacilityId && <AuditLogViewer load={loadAuditLog} />}
             </>
           )}
         </div>
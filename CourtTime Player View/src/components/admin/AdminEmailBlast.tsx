@@ -13,7 +13,7 @@ import { useAppContext } from '../../contexts/AppContext';
 
 interface Member {
   userId: string;
-  email: string;
+  email: string | null;
   fullName: string;
   status: string;
   membershipType: string;
@@ -7,6 +7,7 @@ import { Badge } from '../ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Checkbox } from '../ui/checkbox';
 import { DollarSign, Plus, Pencil, Trash2, Users, PlayCircle, History, CreditCard, AlertCircle, CheckCircle, Lock } from 'lucide-react';
 import { annualFeesApi } from '../../api/client';
 import { useAppContext } from '../../contexts/AppContext';
@@ -25,6 +26,28 @@ function formatDate(iso: string) {
   return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
 }
 
+/** Due dates come back as plain YYYY-MM-DD, so parse them as local dates. */
+function formatDueDate(date: string) {
+  return formatDate(`${date}T00:00:00`);
+}
+
+const INSTALLMENT_PLANS = [
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+] as const;
+
+const PLAN_LABELS: Record<string, string> = { annual: 'Annual', quarterly: 'Quarterly', monthly: 'Monthly' };
+
+const RECORD_STATUS: Record<string, { label: string; className: string }> = {
+  charged: { label: 'Charged', className: 'bg-green-100 text-green-700' },
+  scheduled: { label: 'Scheduled', className: 'bg-blue-100 text-blue-700' },
+  past_due: { label: 'Past due', className: 'bg-orange-100 text-orange-700' },
+  lockout_applied: { label: 'Lockout', className: 'bg-amber-100 text-amber-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' },
+  waived: { label: 'Waived', className: '' },
+  refunded: { label: 'Refunded', className: '' },
+};
+
 // ---------------------------------------------------------------------------
 // Tiers tab
 // ---------------------------------------------------------------------------
@@ -34,7 +57,7 @@ function TiersTab({ facilityId }: { facilityId: string }) {
   const [loading, setLoading] = useState(true);
   const [modalOpen, setModalOpen] = useState(false);
   const [editing, setEditing] = useState<any>(null);
-  const [form, setForm] = useState({ name: '', amountDollars: '', description: '' });
+  const [form, setForm] = useState({ name: '', amountDollars: '', description: '', installmentPlans: [] as string[] });
   const [saving, setSaving] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
 
@@ -49,7 +72,7 @@ function TiersTab({ facilityId }: { facilityId: string }) {
 
   function openCreate() {
     setEditing(null);
-    setForm({ name: '', amountDollars: '', description: '' });
+    setForm({ name: '', amountDollars: '', description: '', installmentPlans: [] });
     setModalOpen(true);
   }
 
@@ -59,6 +82,7 @@ function TiersTab({ facilityId }: { facilityId: string }) {
       name: tier.name,
       amountDollars: (tier.amountCents / 100).toFixed(2),
       description: tier.description ?? '',
+      installmentPlans: tier.installmentPlans ?? [],
     });
     setModalOpen(true);
   }
@@ -76,6 +100,7 @@ function TiersTab({ facilityId }: { facilityId: string }) {
           name: form.name.trim(),
           amountCents,
           description: form.description.trim() || null,
+          installmentPlans: form.installmentPlans,
         });
         if (!res.success) throw new Error(res.error);
         toast.success('Tier updated');
@@ -84,6 +109,7 @@ function TiersTab({ facilityId }: { facilityId: string }) {
           name: form.name.trim(),
           amountCents,
           description: form.description.trim() || undefined,
+          installmentPlans: form.installmentPlans as ('monthly' | 'quarterly')[],
         });
         if (!res.success) throw new Error(res.error);
         toast.success('Tier created');
@@ -140,6 +166,11 @@ function TiersTab({ facilityId }: { facilityId: string }) {
                   <div className="flex items-center gap-2">
                     <span className="font-medium text-sm">{tier.name}</span>
                     {!tier.isActive && <Badge variant="secondary" className="text-xs">Inactive</Badge>}
+                    {(tier.installmentPlans ?? []).length > 0 && (
+                      <Badge variant="outline" className="text-xs">
+                        {tier.installmentPlans.map((p: string) => PLAN_LABELS[p]).join(' / ')} installments
+                      </Badge>
+                    )}
                   </div>
                   {tier.description && (
                     <p className="text-xs text-muted-foreground mt-0.5 truncate">{tier.description}</p>
@@ -208,6 +239,30 @@ function TiersTab({ facilityId }: { facilityId: string }) {
                 onChange={e => setForm(f => ({ ...f, description: e.target.value }))}
               />
             </div>
+            <div className="space-y-2">
+              <Label>Installment Plans</Label>
+              <p className="text-xs text-muted-foreground">
+                Members on this tier can always pay the year up front. Allow them to split it as well:
+              </p>
+              <div className="flex gap-4">
+                {INSTALLMENT_PLANS.map(plan => (
+                  <label key={plan.value} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.installmentPlans.includes(plan.value)}
+                      onCheckedChange={(checked: boolean | 'indeterminate') =>
+                        setForm(f => ({
+                          ...f,
+                          installmentPlans: checked === true
+                            ? [...f.installmentPlans, plan.value]
+                            : f.installmentPlans.filter(p => p !== plan.value),
+                        }))
+                      }
+                    />
+                    {plan.label}
+                  </label>
+                ))}
+              </div>
+            </div>
             <div className="flex justify-end gap-2 pt-2">
               <Button variant="outline" onClick={() => setModalOpen(false)}>Cancel</Button>
               <Button onClick={handleSave} disabled={saving}>
@@ -251,7 +306,13 @@ function MembersTab({ facilityId }: { facilityId: string }) {
       setMembers(prev => prev.map(m => {
         if (m.userId !== userId) return m;
         const tier = tiers.find(t => t.id === tierId);
-        return { ...m, tierId: tier?.id ?? null, tierName: tier?.name ?? null, tierAmountCents: tier?.amountCents ?? null };
+        return {
+          ...m,
+          tierId: tier?.id ?? null,
+          tierName: tier?.name ?? null,
+          tierAmountCents: tier?.amountCents ?? null,
+          tierInstallmentPlans: tier?.installmentPlans ?? [],
+        };
       }));
     } else {
       toast.error(res.error ?? 'Failed to assign tier');
@@ -259,6 +320,17 @@ function MembersTab({ facilityId }: { facilityId: string }) {
     setSaving(null);
   }
 
+  async function handlePlanChange(userId: string, plan: 'annual' | 'quarterly' | 'monthly') {
+    setSaving(userId);
+    const res = await annualFeesApi.assignMemberPlan(facilityId, userId, plan);
+    if (res.success) {
+      setMembers(prev => prev.map(m => (m.userId === userId ? { ...m, plan } : m)));
+    } else {
+      toast.error(res.error ?? 'Failed to update payment plan');
+    }
+    setSaving(null);
+  }
+
   if (loading) return <div className="py-8 text-center text-muted-foreground text-sm">Loading members…</div>;
 
   if (tiers.length === 0) {
@@ -275,6 +347,7 @@ function MembersTab({ facilityId }: { facilityId: string }) {
     <div className="space-y-4">
       <p className="text-sm text-muted-foreground">
         Assign each active member to an annual fee tier. Members without a tier will not be billed.
+        Members who join after the billing date are charged a prorated fee for the rest of the year.
       </p>
       <Card>
         <div className="divide-y">
@@ -313,6 +386,23 @@ function MembersTab({ facilityId }: { facilityId: string }) {
                     ))}
                   </SelectContent>
                 </Select>
+                {(member.tierInstallmentPlans ?? []).length > 0 && (
+                  <Select
+                    value={member.tierInstallmentPlans.includes(member.plan) ? member.plan : 'annual'}
+                    onValueChange={(val: string) => handlePlanChange(member.userId, val as 'annual' | 'quarterly' | 'monthly')}
+                    disabled={saving === member.userId}
+                  >
+                    <SelectTrigger className="w-32 h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="annual">Pay annually</SelectItem>
+                      {member.tierInstallmentPlans.map((p: string) => (
+                        <SelectItem key={p} value={p}>Pay {PLAN_LABELS[p].toLowerCase()}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
               </div>
             </div>
           ))}
@@ -377,13 +467,13 @@ function BillingTab({ facilityId }: { facilityId: string }) {
   }
 
   async function handleRun() {
-    if (!confirm('Run annual billing now? Members with saved cards will be charged immediately.')) return;
+    if (!confirm('Run annual billing now? Each member\'s first installment will be charged immediately.')) return;
     setRunning(true);
     const res = await annualFeesApi.runBilling(facilityId);
     if (res.success) {
       const result = (res.data as any)?.data;
       setLastResult(result);
-      toast.success(`Billing complete — ${result?.chargedCount} charged, ${result?.lockoutCount} payment lockouts applied`);
+      toast.success(`Billing complete — ${result?.chargedCount} charged, ${result?.pastDueCount} past due`);
       setPreview(null);
       loadHistory();
     } else {
@@ -479,7 +569,12 @@ function BillingTab({ facilityId }: { facilityId: string }) {
           {lastResult && (
             <div className="rounded-md bg-green-50 border border-green-200 p-4 text-sm space-y-1">
               <p className="font-medium text-green-800">Billing run complete ({lastResult.billingYear})</p>
-              <p className="text-green-700">Charged: {lastResult.chargedCount} &nbsp;·&nbsp; Lockouts applied: {lastResult.lockoutCount} &nbsp;·&nbsp; Failed: {lastResult.failedCount}</p>
+              <p className="text-green-700">Charged: {lastResult.chargedCount} &nbsp;·&nbsp; Past due: {lastResult.pastDueCount} &nbsp;·&nbsp; Failed: {lastResult.failedCount}</p>
+              {lastResult.pastDueCount > 0 && (
+                <p className="text-green-700">
+                  Past-due members are retried and emailed 1, 3 and 7 days from now; a lockout applies only if the last retry fails.
+                </p>
+              )}
             </div>
           )}
 
@@ -498,9 +593,18 @@ function BillingTab({ facilityId }: { facilityId: string }) {
                   <div key={m.userId} className="flex items-center gap-3 px-3 py-2">
                     <div className="flex-1 min-w-0">
                       <span className="font-medium truncate block">{m.fullName}</span>
-                      <span className="text-xs text-muted-foreground">{m.tierName}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {m.tierName}
+                        {m.proratedMonths < 12 && ` · prorated ${m.proratedMonths}/12 months`}
+                        {m.installmentCount > 1 && ` · ${PLAN_LABELS[m.plan].toLowerCase()}, ${m.installmentCount} payments`}
+                      </span>
+                    </div>
+                    <div className="text-right">
+                      <span className="font-medium text-green-700 block">{formatCents(m.amountCents)}</span>
+                      {m.installmentCount > 1 && (
+                        <span className="text-xs text-muted-foreground">{formatCents(m.firstInstallmentCents)} today</span>
+                      )}
                     </div>
-                    <span className="font-medium text-green-700">{formatCents(m.amountCents)}</span>
                     <div className="flex items-center gap-1 shrink-0">
                       {m.alreadyBilledThisYear ? (
                         <Badge variant="secondary" className="text-xs">Already billed</Badge>
@@ -510,7 +614,7 @@ function BillingTab({ facilityId }: { facilityId: string }) {
                         </span>
                       ) : (
                         <span className="text-xs text-amber-600 flex items-center gap-1">
-                          <Lock className="h-3 w-3" /> Lockout
+                          <AlertCircle className="h-3 w-3" /> No card
                         </span>
                       )}
                     </div>
@@ -544,6 +648,11 @@ function BillingTab({ facilityId }: { facilityId: string }) {
                   >
                     <div className="flex-1 min-w-0">
                       <span className="font-medium text-sm">{run.billingYear} Annual Billing</span>
+                      {run.scheduledCount > 0 && (
+                        <span className="text-xs text-muted-foreground ml-2">
+                          {run.scheduledCount} on installments
+                        </span>
+                      )}
                       <span className="text-xs text-muted-foreground ml-2">
                         {formatDate(run.startedAt)}
                         {run.triggeredByName && ` · by ${run.triggeredByName}`}
@@ -553,6 +662,11 @@ function BillingTab({ facilityId }: { facilityId: string }) {
                       <span className="text-green-700 flex items-center gap-1">
                         <CheckCircle className="h-3 w-3" /> {run.chargedCount}
                       </span>
+                      {run.pastDueCount > 0 && (
+                        <span className="text-orange-600 flex items-center gap-1">
+                          <CreditCard className="h-3 w-3" /> {run.pastDueCount}
+                        </span>
+                      )}
                       <span className="text-amber-600 flex items-center gap-1">
                         <Lock className="h-3 w-3" /> {run.lockoutCount}
                       </span>
@@ -569,25 +683,17 @@ function BillingTab({ facilityId }: { facilityId: string }) {
                         <div key={rec.id} className="flex items-center gap-3 px-4 py-2">
                           <div className="flex-1 min-w-0">
                             <span className="font-medium truncate block">{rec.fullName}</span>
-                            <span className="text-muted-foreground">{rec.tierName}</span>
+                            <span className="text-muted-foreground">
+                              {rec.tierName}
+                              {rec.installmentCount > 1 && ` · ${rec.installmentNumber}/${rec.installmentCount}`}
+                              {rec.proratedMonths < 12 && ` · prorated ${rec.proratedMonths}/12`}
+                              {rec.dueDate && rec.status === 'scheduled' && ` · due ${formatDueDate(rec.dueDate)}`}
+                              {rec.status === 'past_due' && rec.nextRetryAt && ` · retry ${formatDate(rec.nextRetryAt)}`}
+                            </span>
                           </div>
                           <span className="text-green-700">{formatCents(rec.amountCents)}</span>
-                          <Badge
-                            variant="secondary"
-                            className={
-                              rec.status === 'charged'
-                                ? 'bg-green-100 text-green-700'
-                                : rec.status === 'lockout_applied'
-                                ? 'bg-amber-100 text-amber-700'
-                                : rec.status === 'failed'
-                                ? 'bg-red-100 text-red-700'
-                                : ''
-                            }
-                          >
-                            {rec.status === 'charged' ? 'Charged'
-                              : rec.status === 'lockout_applied' ? 'Lockout'
-                              : rec.status === 'failed' ? 'Failed'
-                              : rec.status}
+                          <Badge variant="secondary" className={RECORD_STATUS[rec.status]?.className ?? ''}>
+                            {RECORD_STATUS[rec.status]?.label ?? rec.status}
                           </Badge>
                           {rec.errorMessage && (
                             <span className="text-red-600 truncate max-w-32" title={rec.errorMessage}>
@@ -0,0 +1,320 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, Download, RefreshCw, Search } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import type { AuditLogEvent, AuditLogFilters } from '../../api/client';
+import { toast } from 'sonner';
+
+type LoadAuditLog = (
+  filters: AuditLogFilters
+) => Promise<{ success: boolean; events: AuditLogEvent[]; total: number; error?: string }>;
+
+const PAGE_SIZE = 100;
+/** The server's page cap; an export covers at most this many rows. */
+const EXPORT_LIMIT = 1000;
+
+const SOURCES = [
+  { value: 'admin', label: 'Admin' },
+  { value: 'members', label: 'Members' },
+  { value: 'rules', label: 'Booking Rules' },
+  { value: 'strikes', label: 'Strikes' },
+  { value: 'court_config', label: 'Court Schedules' },
+  { value: 'guests', label: 'Guests' },
+  { value: 'support', label: 'Support' },
+];
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function describeChanges(changes: AuditLogEvent['changes']): string {
+  return Object.entries(changes)
+    .map(([field, { before, after }]) => `${field}: ${formatValue(before)} → ${formatValue(after)}`)
+    .join('; ');
+}
+
+function csvCell(value: unknown): string {
+  return `"${formatValue(value).replace(/"/g, '""')}"`;
+}
+
+function exportCsv(events: AuditLogEvent[]) {
+  const header = ['Time', 'Actor', 'Actor Type', 'Facility', 'Source', 'Action', 'Entity Type', 'Entity ID', 'Changes', 'Request Body', 'IP', 'User Agent'];
+  const rows = events.map(e => [
+    new Date(e.createdAt).toISOString(),
+    e.actorName ?? '',
+    e.actorType,
+    e.facilityName ?? e.facilityId ?? '',
+    e.source,
+    e.action,
+    e.entityType,
+    e.entityId ?? '',
+    describeChanges(e.changes),
+    e.metadata.body == null ? '' : JSON.stringify(e.metadata.body),
+    e.metadata.ip ?? '',
+    e.metadata.userAgent ?? '',
+  ].map(csvCell));
+  const csv = [header.map(csvCell), ...rows].map(r => r.join(',')).join('\n');
+  const blob = new Blob([csv], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function AuditEventDetail({ event }: { event: AuditLogEvent }) {
+  const changes = Object.entries(event.changes);
+  return (
+    <div className="space-y-3 text-sm">
+      {changes.length > 0 ? (
+        <table className="w-full text-left">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="py-1 pr-4 font-medium">Field</th>
+              <th className="py-1 pr-4 font-medium">Before</th>
+              <th className="py-1 font-medium">After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map(([field, { before, after }]) => (
+              <tr key={field} className="align-top">
+                <td className="py-1 pr-4 font-mono text-xs">{field}</td>
+                <td className="py-1 pr-4 break-all text-red-700">{formatValue(before)}</td>
+                <td className="py-1 break-all text-green-700">{formatValue(after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-gray-500">No field-level diff recorded for this action.</p>
+      )}
+      {event.metadata.body != null && (
+        <div>
+          <p className="text-gray-500 mb-1">Request body</p>
+          <pre className="bg-gray-50 rounded p-2 text-xs overflow-x-auto">{JSON.stringify(event.metadata.body, null, 2)}</pre>
+        </div>
+      )}
+      <p className="text-xs text-gray-500">
+        {event.metadata.ip ?? 'Unknown IP'} · {event.metadata.userAgent ?? 'Unknown client'}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Filterable, paged view of the admin audit log with CSV export. `load` picks
+ * the endpoint (a facility's log for admins, the whole log for support).
+ */
+export function AuditLogViewer({ load, showFacility = false }: { load: LoadAuditLog; showFacility?: boolean }) {
+  const [events, setEvents] = useState<AuditLogEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [source, setSource] = useState('all');
+  const [actorType, setActorType] = useState('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const filters: AuditLogFilters = {
+    search: search.trim() || undefined,
+    source: source === 'all' ? undefined : source,
+    actorType: actorType === 'all' ? undefined : (actorType as 'admin' | 'support'),
+    from: from || undefined,
+    to: to || undefined,
+  };
+
+  const fetchPage = useCallback(async (pageOffset: number) => {
+    setLoading(true);
+    try {
+      const res = await load({ ...filters, limit: PAGE_SIZE, offset: pageOffset });
+      if (res.success) {
+        setEvents(res.events);
+        setTotal(res.total);
+        setOffset(pageOffset);
+      } else {
+        toast.error(res.error || 'Failed to load audit log');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [load, search, source, actorType, from, to]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => fetchPage(0), 300);
+    return () => clearTimeout(timer);
+  }, [fetchPage]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const res = await load({ ...filters, limit: EXPORT_LIMIT, offset: 0 });
+      if (!res.success) {
+        toast.error(res.error || 'Failed to export audit log');
+        return;
+      }
+      exportCsv(res.events);
+      if (res.total > EXPORT_LIMIT) {
+        toast.info(`Exported the newest ${EXPORT_LIMIT} of ${res.total} entries — narrow the dates to export the rest`);
+      }
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Audit Log</CardTitle>
+          <CardDescription>Every change made through admin tools and the support console</CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => fetchPage(offset)} disabled={loading}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={exporting || total === 0}>
+            <Download className="h-4 w-4 mr-1" /> Export CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+          <div className="md:col-span-2">
+            <Label>Search</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                className="pl-9"
+                placeholder="Action, entity ID or actor"
+                value={search}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearch(e.target.value)}
+              />
+            </div>
+          </div>
+          <div>
+            <Label>Area</Label>
+            <Select value={source} onValueChange={(value: string) => setSource(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All areas</SelectItem>
+                {SOURCES.map(s => (
+                  <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>From</Label>
+            <Input type="date" value={from} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFrom(e.target.value)} />
+          </div>
+          <div>
+            <Label>To</Label>
+            <Input type="date" value={to} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTo(e.target.value)} />
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label className="text-sm">Changed by</Label>
+          <Select value={actorType} onValueChange={(value: string) => setActorType(value)}>
+            <SelectTrigger className="w-40 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Anyone</SelectItem>
+              <SelectItem value="admin">Facility admins</SelectItem>
+              <SelectItem value="support">Support</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {events.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">{loading ? 'Loading…' : 'No changes match these filters'}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-6" />
+                <TableHead>When</TableHead>
+                <TableHead>Who</TableHead>
+                {showFacility && <TableHead>Facility</TableHead>}
+                <TableHead>Action</TableHead>
+                <TableHead>Entity</TableHead>
+                <TableHead>Changes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map(event => {
+                const expanded = expandedId === event.id;
+                const changedFields = Object.keys(event.changes);
+                return (
+                  <React.Fragment key={event.id}>
+                    <TableRow className="cursor-pointer" onClick={() => setExpandedId(expanded ? null : event.id)}>
+                      <TableCell>
+                        {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>
+                        {event.actorType === 'support' ? (
+                          <Badge variant="outline">Support</Badge>
+                        ) : (
+                          event.actorName ?? 'Unknown admin'
+                        )}
+                      </TableCell>
+                      {showFacility && <TableCell>{event.facilityName ?? event.facilityId ?? '—'}</TableCell>}
+                      <TableCell className="font-mono text-xs">{event.action}</TableCell>
+                      <TableCell>
+                        {event.entityType}
+                        {event.entityId && <span className="block text-xs text-gray-500 break-all">{event.entityId}</span>}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {changedFields.length > 0
+                          ? changedFields.slice(0, 3).join(', ') + (changedFields.length > 3 ? ` +${changedFields.length - 3}` : '')
+                          : '—'}
+                      </TableCell>
+                    </TableRow>
+                    {expanded && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={showFacility ? 6 : 5}>
+                          <AuditEventDetail event={event} />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <span>
+              {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+            </span>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" disabled={loading || offset === 0} onClick={() => fetchPage(Math.max(0, offset - PAGE_SIZE))}>
+                Previous
+              </Button>
+              <Button variant="outline" size="sm" disabled={loading || offset + PAGE_SIZE >= total} onClick={() => fetchPage(offset + PAGE_SIZE)}>
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
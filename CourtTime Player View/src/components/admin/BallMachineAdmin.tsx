@@ -1,5 +1,5 @@
 import React, { useCallback, useEffect, useState } from 'react';
-import { KeyRound, Target, Trash2 } from 'lucide-react';
+import { Info, Target, Trash2 } from 'lucide-react';
 import { Card } from '../ui/card';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
@@ -10,11 +10,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { useAppContext } from '../../contexts/AppContext';
 import { adminApi, ballMachineApi, facilitiesApi, membersApi } from '../../api/client';
 import { toast } from 'sonner';
+import { BallMachineFleet } from './BallMachineFleet';
 
 /**
- * Admin Ball Machine tab (st_marlow_ball_machine feature flag). Sets the keypad code,
- * how many machines exist, pass pricing, and the club-wide hourly rate; also lists and
- * comps passes.
+ * Admin Ball Machine tab (st_marlow_ball_machine feature flag). Manages the machines
+ * themselves (BallMachineFleet), member instructions, pass pricing, and the club-wide
+ * hourly rate; also lists and comps passes.
  *
  * The hourly rate lives per-court (courts.ball_machine_fee_cents), so saving it here
  * bulk-applies to every court — same call SetFeesForAllPanel makes.
@@ -62,8 +63,6 @@ export function BallMachineAdmin() {
   const [unavailable, setUnavailable] = useState(false);
   const [saving, setSaving] = useState<string | null>(null);
 
-  const [accessCode, setAccessCode] = useState('');
-  const [machineCount, setMachineCount] = useState('1');
   const [instructions, setInstructions] = useState('');
   const [products, setProducts] = useState<ProductForm[]>([]);
   const [hourlyDollars, setHourlyDollars] = useState('');
@@ -86,8 +85,6 @@ export function BallMachineAdmin() {
 
       const config = res.data.config ?? {};
       const saved: any[] = Array.isArray(res.data.products) ? res.data.products : [];
-      setAccessCode(config.accessCode ?? '');
-      setMachineCount(String(config.machineCount ?? 1));
       setInstructions(config.instructions ?? '');
 
       // Always render all four durations, pre-filled where the club has set a price.
@@ -147,19 +144,12 @@ export function BallMachineAdmin() {
 
   const saveConfig = async () => {
     if (!selectedFacilityId) return;
-    const count = parseInt(machineCount, 10);
-    if (!Number.isInteger(count) || count < 1) {
-      toast.error('Machine count must be at least 1');
-      return;
-    }
     setSaving('config');
     try {
       const res: any = await ballMachineApi.updateConfig(selectedFacilityId, {
-        accessCode: accessCode.trim() || null,
-        machineCount: count,
         instructions: instructions.trim() || null,
       });
-      if (res.success) toast.success('Ball machine settings saved');
+      if (res.success) toast.success('Instructions saved');
       else toast.error(res.error || 'Could not save settings');
     } finally {
       setSaving(null);
@@ -304,59 +294,35 @@ export function BallMachineAdmin() {
           Ball Machine
         </h1>
         <p className="text-sm text-gray-500 mt-1">
-          Set the keypad code and what members pay to use the machine.
+          Manage the machines, their maintenance, and what members pay to use them.
         </p>
       </div>
 
-      {/* Access code + machines */}
+      <BallMachineFleet facilityId={selectedFacilityId} />
+
+      {/* Member instructions */}
       <Card className="p-5 space-y-4">
         <h2 className="font-medium text-gray-900 flex items-center gap-2">
-          <KeyRound className="h-4 w-4" />
-          Access
+          <Info className="h-4 w-4" />
+          Instructions
         </h2>
 
-        <div className="grid gap-4 sm:grid-cols-2">
-          <div className="space-y-2">
-            <Label htmlFor="bm-code">Keypad code</Label>
-            <Input
-              id="bm-code"
-              value={accessCode}
-              onChange={(e) => setAccessCode(e.target.value)}
-              placeholder="e.g. 4821"
-              maxLength={32}
-            />
-            <p className="text-xs text-gray-500">
-              Everyone with access sees this code. Changing it takes effect immediately.
-            </p>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="bm-count">Machines at this club</Label>
-            <Input
-              id="bm-count"
-              type="number"
-              min="1"
-              value={machineCount}
-              onChange={(e) => setMachineCount(e.target.value)}
-            />
-            <p className="text-xs text-gray-500">
-              Overlapping bookings beyond this many are blocked.
-            </p>
-          </div>
-        </div>
-
         <div className="space-y-2">
-          <Label htmlFor="bm-instructions">Instructions (optional)</Label>
+          <Label htmlFor="bm-instructions">Shown with every access code (optional)</Label>
           <Input
             id="bm-instructions"
             value={instructions}
             onChange={(e) => setInstructions(e.target.value)}
-            placeholder="e.g. Machine is in the shed behind Court 4"
+            placeholder="e.g. Machines are in the shed behind Court 4"
           />
+          <p className="text-xs text-gray-500">
+            Codes are issued per reservation and work from 15 minutes before the booking until 15
+            minutes after it ends.
+          </p>
         </div>
 
         <Button onClick={saveConfig} disabled={saving === 'config'}>
-          {saving === 'config' ? 'Saving…' : 'Save access settings'}
+          {saving === 'config' ? 'Saving…' : 'Save instructions'}
         </Button>
       </Card>
 
@@ -0,0 +1,390 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CalendarDays, RefreshCw, Target, Trash2, Wrench } from 'lucide-react';
+import { Card } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { ballMachineApi } from '../../api/client';
+import { toast } from 'sonner';
+
+/**
+ * The club's individual ball machines, their maintenance windows, and a day view of
+ * who has each machine (with that reservation's keypad code). Part of the admin
+ * Ball Machine tab.
+ *
+ * All times are facility-local wall clock, exactly as the server stores them.
+ */
+
+interface Machine {
+  id: string;
+  name: string;
+  serialNumber: string | null;
+  notes: string | null;
+  isActive: boolean;
+}
+
+interface MaintenanceWindow {
+  id: string;
+  machineId: string;
+  machineName: string;
+  startsAt: string;
+  endsAt: string;
+  reason: string | null;
+}
+
+interface CalendarEntry {
+  id: string;
+  machineId: string;
+  memberName: string;
+  courtName: string | null;
+  accessCode: string;
+  startTime: string;
+  endTime: string;
+}
+
+function todayYmd(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+/** "HH:MM[:SS]" as "9:45 AM". */
+function formatClock(time: string): string {
+  const [h, m] = time.split(':').map(Number);
+  return `${h % 12 || 12}:${String(m).padStart(2, '0')} ${h < 12 ? 'AM' : 'PM'}`;
+}
+
+/** "YYYY-MM-DDTHH:MM" as "Oct 20, 9:45 AM" without a timezone shift. */
+function formatLocal(local: string): string {
+  const [y, mo, d] = local.slice(0, 10).split('-').map(Number);
+  const day = new Date(y, mo - 1, d).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return `${day}, ${formatClock(local.slice(11))}`;
+}
+
+interface BallMachineFleetProps {
+  facilityId: string;
+}
+
+export function BallMachineFleet({ facilityId }: BallMachineFleetProps) {
+  const [machines, setMachines] = useState<Machine[]>([]);
+  const [maintenance, setMaintenance] = useState<MaintenanceWindow[]>([]);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const [newName, setNewName] = useState('');
+  const [newSerial, setNewSerial] = useState('');
+
+  const [mMachineId, setMMachineId] = useState('');
+  const [mStartsAt, setMStartsAt] = useState('');
+  const [mEndsAt, setMEndsAt] = useState('');
+  const [mReason, setMReason] = useState('');
+
+  const [calendarDate, setCalendarDate] = useState(todayYmd());
+  const [calendar, setCalendar] = useState<{ reservations: CalendarEntry[]; maintenance: MaintenanceWindow[] }>({
+    reservations: [],
+    maintenance: [],
+  });
+
+  const loadMachines = useCallback(async () => {
+    const [machinesRes, maintenanceRes]: any[] = await Promise.all([
+      ballMachineApi.getMachines(facilityId),
+      ballMachineApi.getMaintenance(facilityId),
+    ]);
+    setMachines(machinesRes.success && Array.isArray(machinesRes.data) ? machinesRes.data : []);
+    setMaintenance(maintenanceRes.success && Array.isArray(maintenanceRes.data) ? maintenanceRes.data : []);
+  }, [facilityId]);
+
+  const loadCalendar = useCallback(async () => {
+    const res: any = await ballMachineApi.getCalendar(facilityId, calendarDate);
+    setCalendar({
+      reservations: res.success && Array.isArray(res.data?.reservations) ? res.data.reservations : [],
+      maintenance: res.success && Array.isArray(res.data?.maintenance) ? res.data.maintenance : [],
+    });
+  }, [facilityId, calendarDate]);
+
+  useEffect(() => {
+    void loadMachines();
+  }, [loadMachines]);
+
+  useEffect(() => {
+    void loadCalendar();
+  }, [loadCalendar]);
+
+  const handleAddMachine = async () => {
+    if (!newName.trim()) {
+      toast.error('Give the machine a name');
+      return;
+    }
+    setSaving('add');
+    try {
+      const res: any = await ballMachineApi.createMachine(facilityId, {
+        name: newName.trim(),
+        serialNumber: newSerial.trim() || null,
+      });
+      if (res.success) {
+        toast.success('Machine added');
+        setNewName('');
+        setNewSerial('');
+        await loadMachines();
+      } else {
+        toast.error(res.error || 'Could not add the machine');
+      }
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleToggleActive = async (machine: Machine) => {
+    setSaving(machine.id);
+    try {
+      const res: any = await ballMachineApi.updateMachine(facilityId, machine.id, {
+        isActive: !machine.isActive,
+      });
+      if (res.success) await loadMachines();
+      else toast.error(res.error || 'Could not update the machine');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleAddMaintenance = async () => {
+    if (!mMachineId || !mStartsAt || !mEndsAt) {
+      toast.error('Pick a machine, start and end');
+      return;
+    }
+    setSaving('maintenance');
+    try {
+      const res: any = await ballMachineApi.addMaintenance(facilityId, {
+        machineId: mMachineId,
+        startsAt: mStartsAt,
+        endsAt: mEndsAt,
+        reason: mReason.trim() || null,
+      });
+      if (!res.success) {
+        toast.error(res.error || 'Could not schedule maintenance');
+        return;
+      }
+      const { moved, unresolved } = res.data ?? { moved: 0, unresolved: [] };
+      if (unresolved?.length) {
+        toast.warning(
+          `${unresolved.length} reservation${unresolved.length === 1 ? '' : 's'} could not be moved to another machine — ` +
+            unresolved
+              .map((r: any) => `${r.bookingDate} ${formatClock(r.startTime)}`)
+              .join(', ')
+        );
+      } else {
+        toast.success(moved ? `Maintenance scheduled — ${moved} reservation${moved === 1 ? '' : 's'} moved` : 'Maintenance scheduled');
+      }
+      setMStartsAt('');
+      setMEndsAt('');
+      setMReason('');
+      await Promise.all([loadMachines(), loadCalendar()]);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleDeleteMaintenance = async (windowId: string) => {
+    setSaving(windowId);
+    try {
+      const res: any = await ballMachineApi.deleteMaintenance(facilityId, windowId);
+      if (res.success) await Promise.all([loadMachines(), loadCalendar()]);
+      else toast.error(res.error || 'Could not remove the window');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleRotate = async (entry: CalendarEntry) => {
+    if (!confirm(`Issue a new code for ${entry.memberName}? Their old code stops working.`)) return;
+    setSaving(entry.id);
+    try {
+      const res: any = await ballMachineApi.rotateCode(facilityId, entry.id);
+      if (res.success) {
+        toast.success(`New code ${res.data?.accessCode}`);
+        await loadCalendar();
+      } else {
+        toast.error(res.error || 'Could not rotate the code');
+      }
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const activeMachines = machines.filter((m) => m.isActive);
+
+  return (
+    <>
+      {/* Machines */}
+      <Card className="p-5 space-y-4">
+        <div>
+          <h2 className="font-medium text-gray-900 flex items-center gap-2">
+            <Target className="h-4 w-4" />
+            Machines
+          </h2>
+          <p className="text-sm text-gray-500 mt-0.5">
+            Each booking reserves one machine and gets its own keypad code for that session.
+          </p>
+        </div>
+
+        {machines.length === 0 ? (
+          <p className="text-sm text-gray-500">No machines yet — members can't add one to a booking until you add one.</p>
+        ) : (
+          <div className="divide-y border rounded-md">
+            {machines.map((m) => (
+              <div key={m.id} className="flex items-center justify-between px-3 py-2.5 gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{m.name}</p>
+                  {m.serialNumber && <p className="text-xs text-gray-500">S/N {m.serialNumber}</p>}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant={m.isActive ? 'default' : 'secondary'}>{m.isActive ? 'In use' : 'Retired'}</Badge>
+                  <Button variant="ghost" size="sm" onClick={() => handleToggleActive(m)} disabled={saving === m.id}>
+                    {m.isActive ? 'Retire' : 'Reactivate'}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-3 rounded-md border bg-gray-50 p-3">
+          <div className="space-y-1 flex-1 min-w-[160px]">
+            <Label htmlFor="bm-new-name" className="text-xs">Name</Label>
+            <Input id="bm-new-name" value={newName} maxLength={60} placeholder="e.g. Lobster Elite 2" onChange={(e) => setNewName(e.target.value)} />
+          </div>
+          <div className="space-y-1 flex-1 min-w-[140px]">
+            <Label htmlFor="bm-new-serial" className="text-xs">Serial number (optional)</Label>
+            <Input id="bm-new-serial" value={newSerial} maxLength={60} onChange={(e) => setNewSerial(e.target.value)} />
+          </div>
+          <Button variant="outline" onClick={handleAddMachine} disabled={saving === 'add'}>
+            {saving === 'add' ? 'Adding…' : 'Add machine'}
+          </Button>
+        </div>
+      </Card>
+
+      {/* Maintenance */}
+      <Card className="p-5 space-y-4">
+        <div>
+          <h2 className="font-medium text-gray-900 flex items-center gap-2">
+            <Wrench className="h-4 w-4" />
+            Maintenance
+          </h2>
+          <p className="text-sm text-gray-500 mt-0.5">
+            A machine can't be reserved while it's out of service. Reservations already on it move to a
+            free machine when there is one.
+          </p>
+        </div>
+
+        {maintenance.length > 0 && (
+          <div className="divide-y border rounded-md">
+            {maintenance.map((w) => (
+              <div key={w.id} className="flex items-center justify-between px-3 py-2.5 gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">{w.machineName}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatLocal(w.startsAt)} – {formatLocal(w.endsAt)}
+                    {w.reason ? ` · ${w.reason}` : ''}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleDeleteMaintenance(w.id)} disabled={saving === w.id}>
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid gap-3 sm:grid-cols-2 rounded-md border bg-gray-50 p-3">
+          <div className="space-y-1">
+            <Label htmlFor="bm-m-machine" className="text-xs">Machine</Label>
+            <select
+              id="bm-m-machine"
+              className="w-full h-9 rounded-md border border-input bg-input-background px-2 text-sm"
+              value={mMachineId}
+              onChange={(e) => setMMachineId(e.target.value)}
+            >
+              <option value="">Choose a machine…</option>
+              {activeMachines.map((m) => (
+                <option key={m.id} value={m.id}>{m.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="bm-m-reason" className="text-xs">Reason (optional)</Label>
+            <Input id="bm-m-reason" value={mReason} maxLength={200} placeholder="e.g. Motor repair" onChange={(e) => setMReason(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="bm-m-start" className="text-xs">From</Label>
+            <Input id="bm-m-start" type="datetime-local" value={mStartsAt} onChange={(e) => setMStartsAt(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="bm-m-end" className="text-xs">Until</Label>
+            <Input id="bm-m-end" type="datetime-local" value={mEndsAt} min={mStartsAt || undefined} onChange={(e) => setMEndsAt(e.target.value)} />
+          </div>
+          <div className="sm:col-span-2">
+            <Button variant="outline" onClick={handleAddMaintenance} disabled={saving === 'maintenance'}>
+              {saving === 'maintenance' ? 'Scheduling…' : 'Schedule maintenance'}
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      {/* Usage calendar */}
+      <Card className="p-5 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="font-medium text-gray-900 flex items-center gap-2">
+            <CalendarDays className="h-4 w-4" />
+            Usage
+          </h2>
+          <Input type="date" className="w-[170px]" value={calendarDate} onChange={(e) => e.target.value && setCalendarDate(e.target.value)} />
+        </div>
+
+        {activeMachines.length === 0 ? (
+          <p className="text-sm text-gray-500">No machines in use.</p>
+        ) : (
+          <div className="space-y-3">
+            {activeMachines.map((m) => {
+              const entries = calendar.reservations.filter((r) => r.machineId === m.id);
+              const windows = calendar.maintenance.filter((w) => w.machineId === m.id);
+              return (
+                <div key={m.id} className="border rounded-md">
+                  <p className="px-3 py-2 text-sm font-medium text-gray-900 bg-gray-50 border-b">{m.name}</p>
+                  {entries.length === 0 && windows.length === 0 ? (
+                    <p className="px-3 py-2 text-xs text-gray-400">Free all day</p>
+                  ) : (
+                    <div className="divide-y">
+                      {windows.map((w) => (
+                        <p key={w.id} className="px-3 py-2 text-xs text-amber-800 bg-amber-50">
+                          Out of service {formatLocal(w.startsAt)} – {formatLocal(w.endsAt)}
+                          {w.reason ? ` · ${w.reason}` : ''}
+                        </p>
+                      ))}
+                      {entries.map((r) => (
+                        <div key={r.id} className="flex items-center justify-between px-3 py-2 gap-3">
+                          <div className="min-w-0">
+                            <p className="text-sm text-gray-900 truncate">
+                              {formatClock(r.startTime)} – {formatClock(r.endTime)} · {r.memberName}
+                            </p>
+                            {r.courtName && <p className="text-xs text-gray-500">{r.courtName}</p>}
+                          </div>
+                          <div className="flex items-center gap-2 shrink-0">
+                            <span className="font-mono text-sm text-gray-700">{r.accessCode}</span>
+                            <Button variant="ghost" size="sm" onClick={() => handleRotate(r)} disabled={saving === r.id} title="Issue a new code">
+                              <RefreshCw className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </Card>
+    </>
+  );
+}
+
+export default BallMachineFleet;
@@ -0,0 +1,386 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { Switch } from '../ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { DollarSign, Edit, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAppContext } from '../../contexts/AppContext';
+import {
+  courtPricingApi,
+  type CourtPricingRule,
+  type PricingCourtSetting,
+  type PricingDayType,
+  type PricingTimeBand,
+  type TierCourtDiscount,
+} from '../../api/client';
+import { FEATURE_FLAGS } from '../../../shared/constants/featureFlags';
+import { parseDollarsToCents } from '../../../shared/utils/money';
+import { sortCourtsForDisplay } from '../../../shared/utils/courtDisplayOrder';
+
+type PanelCourt = { id: string; name: string; courtNumber?: number };
+
+const TIME_BAND_LABELS: Record<PricingTimeBand, string> = {
+  any: 'Any time',
+  peak: 'Peak hours',
+  off_peak: 'Off-peak',
+};
+
+const DAY_TYPE_LABELS: Record<PricingDayType, string> = {
+  any: 'Every day',
+  weekday: 'Weekdays',
+  weekend: 'Weekends',
+};
+
+const COURT_SETTING_LABELS: Record<PricingCourtSetting, string> = {
+  any: 'All courts',
+  indoor: 'Indoor courts',
+  outdoor: 'Outdoor courts',
+};
+
+/** Court select value for a rule that isn't limited to one court. */
+const ALL_COURTS = 'all';
+
+interface RuleForm {
+  id: string | null;
+  name: string;
+  timeBand: PricingTimeBand;
+  dayType: PricingDayType;
+  courtSetting: PricingCourtSetting;
+  courtId: string;
+  rate: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: RuleForm = {
+  id: null,
+  name: '',
+  timeBand: 'peak',
+  dayType: 'any',
+  courtSetting: 'any',
+  courtId: ALL_COURTS,
+  rate: '',
+  isActive: true,
+};
+
+function dollars(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * Pricing rules and membership tier discounts for paid courts. Each rule sets
+ * the hourly court fee for the slots it matches; the most specific matching rule
+ * wins and unmatched slots keep the court's own fee. Hidden unless the facility
+ * has dynamic court pricing enabled.
+ */
+export function CourtPricingPanel({ courts }: { courts: PanelCourt[] }) {
+  const { selectedFacilityId, enabledFeatures } = useAppContext();
+  const enabled = enabledFeatures.includes(FEATURE_FLAGS.DYNAMIC_COURT_PRICING);
+  const [rules, setRules] = useState<CourtPricingRule[]>([]);
+  const [tiers, setTiers] = useState<TierCourtDiscount[]>([]);
+  const [tierDrafts, setTierDrafts] = useState<Record<string, string>>({});
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!selectedFacilityId) return;
+    const res = await courtPricingApi.getAdmin(selectedFacilityId);
+    if (res.success && res.data) {
+      setRules(res.data.rules);
+      setTiers(res.data.tiers);
+      setTierDrafts(
+        Object.fromEntries(res.data.tiers.map((t) => [t.tierId, String(t.courtDiscountPercent)]))
+      );
+    }
+  }, [selectedFacilityId]);
+
+  useEffect(() => {
+    if (enabled) load();
+  }, [enabled, load]);
+
+  if (!enabled || !selectedFacilityId) return null;
+
+  const openEdit = (rule: CourtPricingRule) => {
+    setForm({
+      id: rule.id,
+      name: rule.name,
+      timeBand: rule.timeBand,
+      dayType: rule.dayType,
+      courtSetting: rule.courtSetting,
+      courtId: rule.courtId ?? ALL_COURTS,
+      rate: (rule.hourlyRateCents / 100).toFixed(2),
+      isActive: rule.isActive,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    const data = {
+      name: form.name,
+      timeBand: form.timeBand,
+      dayType: form.dayType,
+      courtSetting: form.courtSetting,
+      courtId: form.courtId === ALL_COURTS ? null : form.courtId,
+      hourlyRateCents: parseDollarsToCents(form.rate),
+      isActive: form.isActive,
+    };
+    setSaving(true);
+    const res = form.id
+      ? await courtPricingApi.updateRule(selectedFacilityId, form.id, data)
+      : await courtPricingApi.createRule(selectedFacilityId, data);
+    setSaving(false);
+    if (!res.success) {
+      toast.error(res.error || 'Could not save pricing rule');
+      return;
+    }
+    toast.success(form.id ? 'Pricing rule updated' : 'Pricing rule added');
+    setForm(null);
+    await load();
+  };
+
+  const handleDelete = async (rule: CourtPricingRule) => {
+    if (!window.confirm(`Remove the "${rule.name}" pricing rule?`)) return;
+    const res = await courtPricingApi.deleteRule(selectedFacilityId, rule.id);
+    if (!res.success) {
+      toast.error(res.error || 'Could not remove pricing rule');
+      return;
+    }
+    await load();
+  };
+
+  const handleSaveTier = async (tier: TierCourtDiscount) => {
+    const percent = Number(tierDrafts[tier.tierId]);
+    if (percent === tier.courtDiscountPercent) return;
+    const res = await courtPricingApi.setTierDiscount(selectedFacilityId, tier.tierId, percent);
+    if (!res.success) {
+      toast.error(res.error || 'Could not save discount');
+      setTierDrafts((prev) => ({ ...prev, [tier.tierId]: String(tier.courtDiscountPercent) }));
+      return;
+    }
+    toast.success(`${tier.tierName} members now get ${percent}% off court fees`);
+    await load();
+  };
+
+  const describeCourts = (rule: CourtPricingRule) =>
+    rule.courtName ?? COURT_SETTING_LABELS[rule.courtSetting];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <DollarSign className="h-5 w-5" />
+            Court Pricing
+          </span>
+          <Button size="sm" onClick={() => setForm({ ...EMPTY_FORM })}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Hourly court fees by time, day and court. When several rules match a booking the most
+          specific one applies; otherwise the court's own booking fee is charged. Peak hours follow
+          the Peak Hours schedule in Booking Rules.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {rules.length === 0 ? (
+          <p className="text-sm text-gray-500">No pricing rules yet — every paid court charges its own booking fee.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rule</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead>Courts</TableHead>
+                <TableHead>Rate</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell className="font-medium">
+                    {rule.name}
+                    {!rule.isActive && <Badge variant="secondary" className="ml-2">Off</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    {TIME_BAND_LABELS[rule.timeBand]} · {DAY_TYPE_LABELS[rule.dayType]}
+                  </TableCell>
+                  <TableCell>{describeCourts(rule)}</TableCell>
+                  <TableCell>{dollars(rule.hourlyRateCents)}/hr</TableCell>
+                  <TableCell className="text-right space-x-1">
+                    <Button variant="outline" size="sm" onClick={() => openEdit(rule)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(rule)}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Membership tier discounts</Label>
+          {tiers.length === 0 ? (
+            <p className="text-sm text-gray-500">No membership tiers are set up for this facility.</p>
+          ) : (
+            <div className="grid gap-2 sm:grid-cols-2">
+              {tiers.map((tier) => (
+                <div key={tier.tierId} className="flex items-center justify-between gap-3 rounded-md border px-3 py-2">
+                  <span className="text-sm">
+                    {tier.tierName}
+                    {tier.isDefault && <span className="text-xs text-gray-500 ml-1">(default)</span>}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      min="0"
+                      max="100"
+                      className="w-20 h-8"
+                      value={tierDrafts[tier.tierId] ?? ''}
+                      onChange={(e) => setTierDrafts((prev) => ({ ...prev, [tier.tierId]: e.target.value }))}
+                      onBlur={() => handleSaveTier(tier)}
+                    />
+                    <span className="text-sm text-gray-500">% off</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={Boolean(form)} onOpenChange={(open: boolean) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Edit pricing rule' : 'Add pricing rule'}</DialogTitle>
+            <DialogDescription>Applies to paid courts only. Guest and ball machine fees are unchanged.</DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="pricing-rule-name">Name</Label>
+                <Input
+                  id="pricing-rule-name"
+                  placeholder="e.g. Weekend peak"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label>Time</Label>
+                  <Select
+                    value={form.timeBand}
+                    onValueChange={(v: string) => setForm({ ...form, timeBand: v as PricingTimeBand })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(TIME_BAND_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label>Days</Label>
+                  <Select
+                    value={form.dayType}
+                    onValueChange={(v: string) => setForm({ ...form, dayType: v as PricingDayType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(DAY_TYPE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label>Court type</Label>
+                  <Select
+                    value={form.courtSetting}
+                    onValueChange={(v: string) => setForm({ ...form, courtSetting: v as PricingCourtSetting })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(COURT_SETTING_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label>Only this court</Label>
+                  <Select value={form.courtId} onValueChange={(v: string) => setForm({ ...form, courtId: v })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_COURTS}>Any court</SelectItem>
+                      {sortCourtsForDisplay(courts).map((court) => (
+                        <SelectItem key={court.id} value={court.id}>{court.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3 items-end">
+                <div className="space-y-1.5">
+                  <Label htmlFor="pricing-rule-rate">Hourly rate (USD)</Label>
+                  <Input
+                    id="pricing-rule-rate"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.rate}
+                    onChange={(e) => setForm({ ...form, rate: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-center justify-between pb-2">
+                  <Label htmlFor="pricing-rule-active">Active</Label>
+                  <Switch
+                    id="pricing-rule-active"
+                    checked={form.isActive}
+                    onCheckedChange={(v: boolean) => setForm({ ...form, isActive: v })}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
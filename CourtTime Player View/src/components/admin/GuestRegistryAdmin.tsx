@@ -0,0 +1,491 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Badge } from '../ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
+import { UserCheck, Download, RefreshCw, Search, AlertCircle, X } from 'lucide-react';
+import { guestsApi } from '../../api/client';
+import { useAppContext } from '../../contexts/AppContext';
+import { toast } from 'sonner';
+
+interface FacilityGuest {
+  id: string;
+  fullName: string;
+  email: string | null;
+  createdAt: string;
+  visitsThisYear: number;
+  totalVisits: number;
+  lastVisitDate: string | null;
+  lastHostName: string | null;
+}
+
+interface GuestVisit {
+  id: string;
+  bookingId: string;
+  visitDate: string;
+  startTime: string;
+  courtName: string;
+  hostUserId: string;
+  hostName: string;
+  feeCents: number;
+  bookingStatus: string;
+}
+
+interface GuestHistory {
+  guest: { id: string; fullName: string; email: string | null; createdAt: string };
+  visits: GuestVisit[];
+}
+
+interface ActivityReport {
+  start: string;
+  end: string;
+  totalVisits: number;
+  uniqueGuests: number;
+  hostCount: number;
+  totalFeeCents: number;
+  byHost: Array<{
+    hostUserId: string;
+    hostName: string;
+    hostEmail: string | null;
+    visits: number;
+    uniqueGuests: number;
+    feeCents: number;
+  }>;
+  byGuest: Array<{
+    guestId: string;
+    fullName: string;
+    email: string | null;
+    visits: number;
+    hosts: number;
+    lastVisitDate: string;
+  }>;
+}
+
+function fmt(cents: number) {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(cents / 100);
+}
+
+function fmtDate(ymd: string | null) {
+  if (!ymd) return '—';
+  const [y, m, d] = ymd.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString();
+}
+
+function fmtTime(hms: string) {
+  const [h, m] = hms.split(':').map(Number);
+  const suffix = h >= 12 ? 'PM' : 'AM';
+  return `${h % 12 || 12}:${String(m).padStart(2, '0')} ${suffix}`;
+}
+
+function csvCell(value: string) {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+function exportCsv(report: ActivityReport) {
+  const header = ['Host', 'Host Email', 'Guest Visits', 'Unique Guests', 'Guest Fees'];
+  const rows = report.byHost.map(h => [
+    csvCell(h.hostName),
+    csvCell(h.hostEmail ?? ''),
+    h.visits,
+    h.uniqueGuests,
+    (h.feeCents / 100).toFixed(2),
+  ]);
+  const csv = [header, ...rows].map(r => r.join(',')).join('\n');
+  const blob = new Blob([csv], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `guest-activity-${report.start}-to-${report.end}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function GuestDetail({
+  facilityId,
+  guestId,
+  onClose,
+  onSaved,
+}: {
+  facilityId: string;
+  guestId: string;
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const [history, setHistory] = useState<GuestHistory | null>(null);
+  const [fullName, setFullName] = useState('');
+  const [email, setEmail] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const applyHistory = (data: GuestHistory) => {
+    setHistory(data);
+    setFullName(data.guest.fullName);
+    setEmail(data.guest.email ?? '');
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    guestsApi.getHistory(facilityId, guestId).then(res => {
+      if (cancelled) return;
+      if (res.success) applyHistory((res.data as any)?.data);
+      else toast.error((res.error as string) || 'Failed to load guest');
+    });
+    return () => { cancelled = true; };
+  }, [facilityId, guestId]);
+
+  const save = async () => {
+    setSaving(true);
+    const res = await guestsApi.update(facilityId, guestId, { fullName, email: email.trim() || null });
+    setSaving(false);
+    if (res.success) {
+      applyHistory((res.data as any)?.data);
+      toast.success('Guest updated');
+      onSaved();
+    } else {
+      toast.error((res.error as string) || 'Failed to update guest');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-base">{history?.guest.fullName ?? 'Guest'}</CardTitle>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!history ? (
+          <p className="text-sm text-gray-400">Loading…</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-3 items-end">
+              <div className="space-y-1">
+                <label className="text-xs font-medium text-gray-600">Name</label>
+                <Input value={fullName} onChange={e => setFullName(e.target.value)} className="w-56" />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-medium text-gray-600">Email</label>
+                <Input type="email" value={email} onChange={e => setEmail(e.target.value)} className="w-64" />
+              </div>
+              <Button size="sm" onClick={save} disabled={saving || !fullName.trim()}>
+                Save
+              </Button>
+            </div>
+
+            {history.visits.length === 0 ? (
+              <p className="text-sm text-gray-400">No visits recorded.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b bg-gray-50 text-xs text-gray-500 uppercase tracking-wide">
+                      <th className="text-left px-4 py-3 font-medium">Date</th>
+                      <th className="text-left px-4 py-3 font-medium">Court</th>
+                      <th className="text-left px-4 py-3 font-medium">Host</th>
+                      <th className="text-right px-4 py-3 font-medium">Fee</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {history.visits.map(v => (
+                      <tr key={v.id} className={v.bookingStatus === 'cancelled' ? 'text-gray-400' : ''}>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {fmtDate(v.visitDate)} {fmtTime(v.startTime)}
+                          {v.bookingStatus === 'cancelled' && (
+                            <Badge variant="secondary" className="ml-2 text-xs">Cancelled</Badge>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">{v.courtName}</td>
+                        <td className="px-4 py-3">{v.hostName}</td>
+                        <td className="px-4 py-3 text-right">{fmt(v.feeCents)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function GuestRegistryTab({ facilityId }: { facilityId: string }) {
+  const [search, setSearch] = useState('');
+  const [guests, setGuests] = useState<FacilityGuest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const loadGuests = useCallback(async () => {
+    setLoading(true);
+    const res = await guestsApi.list(facilityId, search.trim() || undefined);
+    if (res.success) setGuests((res.data as any)?.data ?? []);
+    else toast.error((res.error as string) || 'Failed to load guests');
+    setLoading(false);
+  }, [facilityId, search]);
+
+  useEffect(() => {
+    const timer = setTimeout(loadGuests, 250);
+    return () => clearTimeout(timer);
+  }, [loadGuests]);
+
+  return (
+    <div className="space-y-4">
+      <div className="relative w-72">
+        <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+        <Input
+          placeholder="Search name or email"
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          className="pl-9"
+        />
+      </div>
+
+      {selectedId && (
+        <GuestDetail
+          facilityId={facilityId}
+          guestId={selectedId}
+          onClose={() => setSelectedId(null)}
+          onSaved={loadGuests}
+        />
+      )}
+
+      <Card>
+        <CardContent className="p-0">
+          {loading && guests.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-12">Loading…</p>
+          ) : guests.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-12">
+              No guests yet. Guests are added when members book with them.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-gray-50 text-xs text-gray-500 uppercase tracking-wide">
+                    <th className="text-left px-4 py-3 font-medium">Guest</th>
+                    <th className="text-right px-4 py-3 font-medium">Visits This Year</th>
+                    <th className="text-right px-4 py-3 font-medium">All Visits</th>
+                    <th className="text-left px-4 py-3 font-medium">Last Visit</th>
+                    <th className="text-left px-4 py-3 font-medium">Last Host</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {guests.map(g => (
+                    <tr
+                      key={g.id}
+                      onClick={() => setSelectedId(g.id)}
+                      className={`cursor-pointer hover:bg-gray-50 transition-colors ${selectedId === g.id ? 'bg-indigo-50' : ''}`}
+                    >
+                      <td className="px-4 py-3">
+                        <div className="font-medium text-gray-900">{g.fullName}</div>
+                        {g.email && <div className="text-xs text-gray-400">{g.email}</div>}
+                      </td>
+                      <td className="px-4 py-3 text-right">{g.visitsThisYear}</td>
+                      <td className="px-4 py-3 text-right text-gray-500">{g.totalVisits}</td>
+                      <td className="px-4 py-3 whitespace-nowrap">{fmtDate(g.lastVisitDate)}</td>
+                      <td className="px-4 py-3 text-gray-600">{g.lastHostName ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function GuestActivityTab({ facilityId }: { facilityId: string }) {
+  const year = new Date().getFullYear();
+  const [startDate, setStartDate] = useState(`${year}-01-01`);
+  const [endDate, setEndDate] = useState(`${year}-12-31`);
+  const [report, setReport] = useState<ActivityReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg(null);
+    const res = await guestsApi.getReport(facilityId, { start: startDate, end: endDate });
+    if (res.success) {
+      setReport((res.data as any)?.data ?? null);
+    } else {
+      const msg = (res.error as string) || 'Failed to load report';
+      setErrorMsg(msg);
+      toast.error(msg);
+    }
+    setLoading(false);
+  }, [facilityId, startDate, endDate]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="pt-5">
+          <div className="flex flex-wrap gap-3 items-end">
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-gray-600">From</label>
+              <Input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className="w-40" />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-gray-600">To</label>
+              <Input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className="w-40" />
+            </div>
+            <div className="flex gap-2 ml-auto">
+              <Button size="sm" onClick={loadReport} disabled={loading}>
+                <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} /> Run Report
+              </Button>
+              <Button variant="outline" size="sm"
+                onClick={() => report && exportCsv(report)}
+                disabled={!report || report.byHost.length === 0}
+              >
+                <Download className="h-4 w-4 mr-1" /> Export CSV
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {errorMsg && (
+        <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>{errorMsg}</span>
+        </div>
+      )}
+
+      {report && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {[
+              { label: 'Guest Visits', value: String(report.totalVisits) },
+              { label: 'Unique Guests', value: String(report.uniqueGuests) },
+              { label: 'Hosting Members', value: String(report.hostCount) },
+              { label: 'Guest Fees', value: fmt(report.totalFeeCents) },
+            ].map(card => (
+              <Card key={card.label}>
+                <CardContent className="pt-4 pb-4">
+                  <span className="text-xs font-medium text-gray-500">{card.label}</span>
+                  <p className="text-xl font-bold text-gray-900 mt-1">{card.value}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">By Member</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {report.byHost.length === 0 ? (
+                <p className="text-sm text-gray-400 text-center py-12">No guest visits in this period.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b bg-gray-50 text-xs text-gray-500 uppercase tracking-wide">
+                        <th className="text-left px-4 py-3 font-medium">Member</th>
+                        <th className="text-right px-4 py-3 font-medium">Guest Visits</th>
+                        <th className="text-right px-4 py-3 font-medium">Unique Guests</th>
+                        <th className="text-right px-4 py-3 font-medium">Guest Fees</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {report.byHost.map(h => (
+                        <tr key={h.hostUserId}>
+                          <td className="px-4 py-3">
+                            <div className="font-medium text-gray-900">{h.hostName}</div>
+                            {h.hostEmail && <div className="text-xs text-gray-400">{h.hostEmail}</div>}
+                          </td>
+                          <td className="px-4 py-3 text-right">{h.visits}</td>
+                          <td className="px-4 py-3 text-right">{h.uniqueGuests}</td>
+                          <td className="px-4 py-3 text-right font-semibold">{fmt(h.feeCents)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {report.byGuest.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">By Guest</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b bg-gray-50 text-xs text-gray-500 uppercase tracking-wide">
+                        <th className="text-left px-4 py-3 font-medium">Guest</th>
+                        <th className="text-right px-4 py-3 font-medium">Visits</th>
+                        <th className="text-right px-4 py-3 font-medium">Hosts</th>
+                        <th className="text-left px-4 py-3 font-medium">Last Visit</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {report.byGuest.map(g => (
+                        <tr key={g.guestId}>
+                          <td className="px-4 py-3">
+                            <div className="font-medium text-gray-900">{g.fullName}</div>
+                            {g.email && <div className="text-xs text-gray-400">{g.email}</div>}
+                          </td>
+                          <td className="px-4 py-3 text-right">{g.visits}</td>
+                          <td className="px-4 py-3 text-right">{g.hosts}</td>
+                          <td className="px-4 py-3 whitespace-nowrap">{fmtDate(g.lastVisitDate)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function GuestRegistryAdmin() {
+  const { selectedFacilityId: facilityId } = useAppContext();
+
+  if (!facilityId) {
+    return (
+      <Card>
+        <CardContent className="py-10 text-center text-sm text-gray-400">
+          Select a facility to view guests.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <UserCheck className="h-6 w-6 text-indigo-600" />
+        <h1 className="text-2xl font-semibold text-gray-900">Guests</h1>
+      </div>
+
+      <Tabs defaultValue="registry">
+        <TabsList>
+          <TabsTrigger value="registry">Guest Registry</TabsTrigger>
+          <TabsTrigger value="activity">Activity Report</TabsTrigger>
+        </TabsList>
+        <TabsContent value="registry" className="pt-4">
+          <GuestRegistryTab facilityId={facilityId} />
+        </TabsContent>
+        <TabsContent value="activity" className="pt-4">
+          <GuestActivityTab facilityId={facilityId} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
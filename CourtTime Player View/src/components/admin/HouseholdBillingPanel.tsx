@@ -0,0 +1,206 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { CreditCard, FileText, ChevronDown, ChevronUp } from 'lucide-react';
+import { householdsApi, type HouseholdStatementMonth } from '../../api/client';
+import { formatStatementMonth, openPrintableStatement } from '../../utils/householdStatement';
+import { toast } from 'sonner';
+
+interface HouseholdGroupRow {
+  id: string;
+  household_name: string | null;
+  street_address: string;
+  billing_payer_user_id: string | null;
+  member_count: number | string;
+}
+
+interface HouseholdGroupMember {
+  user_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string;
+  verification_status: 'pending' | 'verified' | 'rejected';
+}
+
+function memberName(m: HouseholdGroupMember): string {
+  return [m.first_name, m.last_name].filter(Boolean).join(' ') || m.email;
+}
+
+function formatCents(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * Shared billing for the facility's registered household groups: pick the
+ * member whose saved card pays for everyone, and open monthly statements.
+ */
+export function HouseholdBillingPanel({ facilityId }: { facilityId: string }) {
+  const [groups, setGroups] = useState<HouseholdGroupRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [members, setMembers] = useState<HouseholdGroupMember[]>([]);
+  const [months, setMonths] = useState<HouseholdStatementMonth[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const loadGroups = useCallback(async () => {
+    setLoading(true);
+    const res = await householdsApi.getByFacility(facilityId);
+    setGroups(res.success ? res.data?.households ?? [] : []);
+    setLoading(false);
+  }, [facilityId]);
+
+  useEffect(() => {
+    loadGroups();
+  }, [loadGroups]);
+
+  const toggle = async (householdId: string) => {
+    if (expandedId === householdId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(householdId);
+    setMembers([]);
+    setMonths([]);
+    const [detail, statementMonths] = await Promise.all([
+      householdsApi.getById(householdId),
+      householdsApi.getStatementMonths(householdId),
+    ]);
+    if (detail.success) setMembers(detail.data?.members ?? []);
+    if (statementMonths.success) setMonths(statementMonths.data?.months ?? []);
+  };
+
+  const handlePayerChange = async (householdId: string, value: string) => {
+    setSaving(true);
+    const res = await householdsApi.setBillingPayer(householdId, value === 'none' ? null : value);
+    setSaving(false);
+    if (!res.success) {
+      toast.error(res.error || 'Failed to update billing payer');
+      return;
+    }
+    toast.success(value === 'none' ? 'Members will be billed individually' : 'Billing payer updated');
+    setGroups(prev =>
+      prev.map(g => (g.id === householdId ? { ...g, billing_payer_user_id: value === 'none' ? null : value } : g))
+    );
+  };
+
+  const handleOpenStatement = async (householdId: string, month: string) => {
+    const res = await householdsApi.getStatement(householdId, month);
+    if (!res.success || !res.data?.html) {
+      toast.error(res.error || 'Failed to load statement');
+      return;
+    }
+    if (!openPrintableStatement(res.data.html)) {
+      toast.error('Allow pop-ups for this site to view the statement');
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <CreditCard className="h-5 w-5" />
+          Shared Billing
+        </CardTitle>
+        <CardDescription>
+          With a billing payer set, every member's court fees, guest fees, pro shop tabs and annual fees
+          go on the payer's saved card, and the payer gets a consolidated statement each month.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-6 text-gray-500">Loading household groups...</div>
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4">No registered household groups at this facility.</p>
+        ) : (
+          <div className="space-y-2">
+            {groups.map(group => {
+              const isExpanded = expandedId === group.id;
+              return (
+                <div key={group.id} className="border rounded-lg overflow-hidden">
+                  <div
+                    className="flex items-center justify-between px-4 py-3 hover:bg-gray-50 cursor-pointer"
+                    onClick={() => toggle(group.id)}
+                  >
+                    <div className="min-w-0">
+                      <div className="font-medium text-sm truncate">
+                        {group.household_name || group.street_address}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {Number(group.member_count)} {Number(group.member_count) === 1 ? 'member' : 'members'}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      {group.billing_payer_user_id ? (
+                        <Badge variant="outline" className="text-[10px] text-green-700 border-green-600">Shared billing</Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-[10px]">Billed individually</Badge>
+                      )}
+                      {isExpanded ? (
+                        <ChevronUp className="h-4 w-4 text-gray-400" />
+                      ) : (
+                        <ChevronDown className="h-4 w-4 text-gray-400" />
+                      )}
+                    </div>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="border-t bg-gray-50 px-4 py-3 space-y-4">
+                      <div className="flex flex-wrap items-center gap-3">
+                        <span className="text-sm text-gray-700">Billing payer</span>
+                        <Select
+                          value={group.billing_payer_user_id ?? 'none'}
+                          onValueChange={(val: string) => handlePayerChange(group.id, val)}
+                          disabled={saving}
+                        >
+                          <SelectTrigger className="w-64 h-8 text-xs">
+                            <SelectValue placeholder="Bill members individually" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Bill members individually</SelectItem>
+                            {members
+                              .filter(m => m.verification_status !== 'rejected')
+                              .map(m => (
+                                <SelectItem key={m.user_id} value={m.user_id}>
+                                  {memberName(m)}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div>
+                        <div className="text-xs font-medium text-gray-500 mb-2">Statements</div>
+                        {months.length === 0 ? (
+                          <p className="text-sm text-gray-500">No shared-billing charges yet.</p>
+                        ) : (
+                          <div className="space-y-1">
+                            {months.map(m => (
+                              <div key={m.month} className="flex items-center justify-between p-2 bg-white rounded-lg border">
+                                <span className="text-sm">
+                                  {formatStatementMonth(m.month)}
+                                  <span className="text-xs text-gray-500 ml-2">
+                                    {m.chargeCount} {m.chargeCount === 1 ? 'charge' : 'charges'} · {formatCents(m.totalCents)}
+                                  </span>
+                                </span>
+                                <Button size="sm" variant="outline" onClick={() => handleOpenStatement(group.id, m.month)}>
+                                  <FileText className="h-4 w-4 mr-1" />
+                                  View / print
+                                </Button>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,6 +8,7 @@ import {
   Search, Home, ChevronDown, ChevronUp, Users, RefreshCw
 } from 'lucide-react';
 import { membersApi } from '../../api/client';
+import { HouseholdBillingPanel } from './HouseholdBillingPanel';
 import { useAppContext } from '../../contexts/AppContext';
 import { toast } from 'sonner';
 
@@ -317,6 +318,8 @@ export function HouseholdManagement() {
             )}
           </CardContent>
         </Card>
+
+        <HouseholdBillingPanel facilityId={currentFacilityId} />
       </div>
     </div>
   );
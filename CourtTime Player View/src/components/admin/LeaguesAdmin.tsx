@@ -0,0 +1,720 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CalendarPlus, Plus, Trash2, Trophy, X } from 'lucide-react';
+import { Card } from '../ui/card';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Checkbox } from '../ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { useAppContext } from '../../contexts/AppContext';
+import {
+  facilitiesApi,
+  leaguesApi,
+  membersApi,
+  type League,
+  type LeagueBookingType,
+  type LeagueFixture,
+  type LeagueFormat,
+  type LeagueSeasonDetail,
+} from '../../api/client';
+import {
+  LEAGUE_BOOKING_TYPE_LABELS,
+  LEAGUE_DAY_LABELS,
+  LeagueFixtureList,
+  LeagueScoreDialog,
+  LeagueStandingsTable,
+} from '../LeagueSeasonView';
+import { toast } from 'sonner';
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+const EMPTY_SEASON = {
+  name: '',
+  startDate: '',
+  matchDayOfWeek: '2',
+  matchStartTime: '18:30',
+  matchDurationMinutes: '90',
+  courtIds: [] as string[],
+};
+
+/**
+ * Admin Leagues page (leagues feature flag): leagues, seasons and teams, then
+ * one click to generate fixtures and reserve their courts. Fixtures that found
+ * no free court show as "Needs a court" and can be moved by hand here.
+ */
+export default function LeaguesAdmin() {
+  const { selectedFacilityId } = useAppContext();
+  const [loading, setLoading] = useState(true);
+  const [unavailable, setUnavailable] = useState(false);
+  const [leagues, setLeagues] = useState<League[]>([]);
+  const [courts, setCourts] = useState<Option[]>([]);
+  const [members, setMembers] = useState<Option[]>([]);
+  const [leagueId, setLeagueId] = useState('');
+  const [seasonId, setSeasonId] = useState('');
+  const [detail, setDetail] = useState<LeagueSeasonDetail | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [newLeague, setNewLeague] = useState<{ name: string; format: LeagueFormat; bookingType: LeagueBookingType }>({
+    name: '',
+    format: 'round_robin',
+    bookingType: 'league_match',
+  });
+  const [newSeason, setNewSeason] = useState(EMPTY_SEASON);
+  const [newTeamName, setNewTeamName] = useState('');
+  const [newTeamMemberIds, setNewTeamMemberIds] = useState<string[]>([]);
+  const [moving, setMoving] = useState<LeagueFixture | null>(null);
+  const [move, setMove] = useState({ matchDate: '', startTime: '', courtId: '' });
+  const [scoring, setScoring] = useState<LeagueFixture | null>(null);
+
+  const loadLeagues = useCallback(async () => {
+    if (!selectedFacilityId) return;
+    try {
+      setLoading(true);
+      const res = await leaguesApi.getLeagues(selectedFacilityId, true);
+      if (!res.success) {
+        setUnavailable(true);
+        return;
+      }
+      setUnavailable(false);
+      setLeagues(res.leagues);
+      setLeagueId((current) => current || res.leagues[0]?.id || '');
+    } catch (err) {
+      console.error('Error loading leagues:', err);
+      toast.error('Failed to load leagues');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedFacilityId]);
+
+  const loadSeason = useCallback(async () => {
+    if (!selectedFacilityId || !seasonId) {
+      setDetail(null);
+      return;
+    }
+    const res = await leaguesApi.getSeason(selectedFacilityId, seasonId);
+    setDetail(res.success ? res.detail ?? null : null);
+  }, [selectedFacilityId, seasonId]);
+
+  useEffect(() => {
+    void loadLeagues();
+  }, [loadLeagues]);
+
+  useEffect(() => {
+    void loadSeason();
+  }, [loadSeason]);
+
+  useEffect(() => {
+    if (!selectedFacilityId) return;
+    facilitiesApi
+      .getCourts(selectedFacilityId)
+      .then((res: any) => {
+        const list = res?.data?.courts ?? [];
+        setCourts(
+          (Array.isArray(list) ? list : [])
+            .filter((c: any) => !(c.isWalkUp ?? c.is_walk_up))
+            .map((c: any) => ({ id: c.id, name: c.name }))
+        );
+      })
+      .catch(() => setCourts([]));
+    membersApi
+      .getFacilityMembers(selectedFacilityId)
+      .then((res: any) => {
+        const list = res?.data?.members ?? res?.members ?? [];
+        setMembers(
+          (Array.isArray(list) ? list : []).map((m: any) => ({
+            id: m.userId ?? m.user_id ?? m.id,
+            name: m.fullName ?? m.full_name ?? m.email,
+          }))
+        );
+      })
+      .catch(() => setMembers([]));
+  }, [selectedFacilityId]);
+
+  const league = leagues.find((l) => l.id === leagueId) ?? null;
+
+  /** Runs an admin action, toasting its error; returns whether it succeeded. */
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, successMessage?: string) => {
+    setBusy(true);
+    try {
+      const res = await action();
+      if (!res.success) {
+        toast.error(res.error || 'Something went wrong');
+        return false;
+      }
+      if (successMessage) toast.success(successMessage);
+      return true;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreateLeague = async () => {
+    if (!selectedFacilityId || !newLeague.name.trim()) return;
+    let createdId: string | undefined;
+    const ok = await run(async () => {
+      const res = await leaguesApi.createLeague(selectedFacilityId, newLeague);
+      createdId = res.league?.id;
+      return res;
+    }, 'League created');
+    if (ok) {
+      setNewLeague({ ...newLeague, name: '' });
+      if (createdId) setLeagueId(createdId);
+      await loadLeagues();
+    }
+  };
+
+  const handleCreateSeason = async () => {
+    if (!selectedFacilityId || !league || !newSeason.name.trim() || !newSeason.startDate) return;
+    let createdId: string | undefined;
+    const ok = await run(async () => {
+      const res = await leaguesApi.createSeason(selectedFacilityId, league.id, {
+        name: newSeason.name,
+        startDate: newSeason.startDate,
+        matchDayOfWeek: Number(newSeason.matchDayOfWeek),
+        matchStartTime: newSeason.matchStartTime,
+        matchDurationMinutes: Number(newSeason.matchDurationMinutes),
+        courtIds: newSeason.courtIds,
+      });
+      createdId = res.season?.id;
+      return res;
+    }, 'Season created — add teams next');
+    if (ok) {
+      setNewSeason(EMPTY_SEASON);
+      if (createdId) setSeasonId(createdId);
+      await loadLeagues();
+    }
+  };
+
+  const handleAddTeam = async () => {
+    if (!selectedFacilityId || !seasonId || !newTeamName.trim() || newTeamMemberIds.length === 0) return;
+    const ok = await run(
+      () =>
+        leaguesApi.addTeam(selectedFacilityId, seasonId, {
+          name: newTeamName,
+          captainId: newTeamMemberIds[0],
+          memberIds: newTeamMemberIds,
+        }),
+      'Team added'
+    );
+    if (ok) {
+      setNewTeamName('');
+      setNewTeamMemberIds([]);
+      await loadSeason();
+    }
+  };
+
+  const handleRemoveTeam = async (teamId: string, name: string) => {
+    if (!selectedFacilityId || !confirm(`Remove ${name}?`)) return;
+    if (await run(() => leaguesApi.removeTeam(selectedFacilityId, seasonId, teamId), 'Team removed')) {
+      await loadSeason();
+    }
+  };
+
+  const handleSchedule = async () => {
+    if (!selectedFacilityId || !detail) return;
+    let summary = '';
+    const ok = await run(async () => {
+      const res = await leaguesApi.schedule(selectedFacilityId, seasonId);
+      if (res.result) {
+        summary = res.result.unscheduled
+          ? `${res.result.created} matches created; ${res.result.unscheduled} still need a court`
+          : `${res.result.created} matches scheduled and courts reserved`;
+      }
+      return res;
+    });
+    if (ok) {
+      toast.success(summary || 'Schedule generated');
+      await Promise.all([loadSeason(), loadLeagues()]);
+    }
+  };
+
+  const openMove = (fixture: LeagueFixture) => {
+    setMoving(fixture);
+    setMove({ matchDate: fixture.matchDate, startTime: fixture.startTime.slice(0, 5), courtId: fixture.courtId ?? '' });
+  };
+
+  const handleMove = async () => {
+    if (!selectedFacilityId || !moving) return;
+    const ok = await run(
+      () =>
+        leaguesApi.moveFixture(selectedFacilityId, moving.id, {
+          matchDate: move.matchDate,
+          startTime: move.startTime,
+          courtId: move.courtId || undefined,
+        }),
+      'Match moved'
+    );
+    if (ok) {
+      setMoving(null);
+      await loadSeason();
+    }
+  };
+
+  const handleCancelFixture = async (fixture: LeagueFixture) => {
+    if (!selectedFacilityId) return;
+    if (!confirm(`Cancel ${fixture.homeTeamName} vs ${fixture.awayTeamName}? Its court is released.`)) return;
+    if (await run(() => leaguesApi.cancelFixture(selectedFacilityId, fixture.id), 'Match cancelled')) {
+      await loadSeason();
+    }
+  };
+
+  const handleScore = async (data: { homeScore: number; awayScore: number; scoreDetail?: string }) => {
+    if (!selectedFacilityId || !scoring) return;
+    if (await run(() => leaguesApi.recordResult(selectedFacilityId, scoring.id, data), 'Score saved')) {
+      setScoring(null);
+      await Promise.all([loadSeason(), loadLeagues()]);
+    }
+  };
+
+  if (!selectedFacilityId || unavailable) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 text-gray-400">
+        <Trophy className="h-12 w-12 mb-3" />
+        <p className="text-sm">
+          {selectedFacilityId ? 'Leagues are not enabled for this facility.' : 'Select a facility to manage leagues.'}
+        </p>
+      </div>
+    );
+  }
+
+  const season = detail?.season;
+  const teamMemberIds = new Set(detail?.teams.flatMap((t) => t.members.map((m) => m.userId)) ?? []);
+  const canAddTeams =
+    season && season.status !== 'completed' && (season.format === 'ladder' || season.status === 'draft');
+  const hasOpenFixtures = detail?.fixtures.some((f) => f.status === 'scheduled' || f.status === 'unscheduled');
+  const canSchedule =
+    season &&
+    season.status !== 'completed' &&
+    (season.format === 'ladder' ? !hasOpenFixtures : detail?.fixtures.length === 0);
+
+  return (
+    <div className="space-y-6 pb-20">
+      <div className="flex items-center gap-3">
+        <Trophy className="h-6 w-6 text-green-600" />
+        <h1 className="text-2xl font-semibold text-gray-900">Leagues</h1>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-16">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-4">
+            <Card className="p-4 space-y-3">
+              <h2 className="font-semibold text-gray-900">Leagues</h2>
+              {leagues.length === 0 && <p className="text-sm text-gray-400">No leagues yet.</p>}
+              <div className="space-y-1">
+                {leagues.map((l) => (
+                  <button
+                    key={l.id}
+                    type="button"
+                    onClick={() => {
+                      setLeagueId(l.id);
+                      setSeasonId('');
+                    }}
+                    className={`w-full text-left rounded-md px-3 py-2 text-sm ${
+                      l.id === leagueId ? 'bg-green-50 text-green-800' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <span className="font-medium">{l.name}</span>
+                    <span className="block text-xs text-gray-500">
+                      {l.format === 'ladder' ? 'Ladder' : 'Round robin'} ·{' '}
+                      {LEAGUE_BOOKING_TYPE_LABELS[l.bookingType]}
+                      {!l.isActive && ' · Archived'}
+                    </span>
+                  </button>
+                ))}
+              </div>
+              <div className="space-y-2 border-t pt-3">
+                <Input
+                  placeholder="New league name"
+                  value={newLeague.name}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setNewLeague({ ...newLeague, name: e.target.value })
+                  }
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  <Select
+                    value={newLeague.format}
+                    onValueChange={(value: string) => setNewLeague({ ...newLeague, format: value as LeagueFormat })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="round_robin">Round robin</SelectItem>
+                      <SelectItem value="ladder">Ladder</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={newLeague.bookingType}
+                    onValueChange={(value: string) =>
+                      setNewLeague({ ...newLeague, bookingType: value as LeagueBookingType })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(LEAGUE_BOOKING_TYPE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  className="w-full gap-2"
+                  onClick={() => void handleCreateLeague()}
+                  disabled={busy || !newLeague.name.trim()}
+                >
+                  <Plus className="h-4 w-4" />
+                  Create league
+                </Button>
+              </div>
+            </Card>
+
+            {league && (
+              <Card className="p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h2 className="font-semibold text-gray-900">Seasons</h2>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      void run(
+                        () => leaguesApi.updateLeague(selectedFacilityId, league.id, { isActive: !league.isActive }),
+                        league.isActive ? 'League archived' : 'League restored'
+                      ).then((ok) => {
+                        if (ok) void loadLeagues();
+                      })
+                    }
+                  >
+                    {league.isActive ? 'Archive' : 'Restore'}
+                  </Button>
+                </div>
+                {league.seasons.length === 0 && <p className="text-sm text-gray-400">No seasons yet.</p>}
+                <div className="space-y-1">
+                  {league.seasons.map((s) => (
+                    <button
+                      key={s.id}
+                      type="button"
+                      onClick={() => setSeasonId(s.id)}
+                      className={`w-full flex items-center justify-between rounded-md px-3 py-2 text-sm ${
+                        s.id === seasonId ? 'bg-green-50 text-green-800' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      <span>{s.name}</span>
+                      <Badge variant="outline" className="capitalize">
+                        {s.status}
+                      </Badge>
+                    </button>
+                  ))}
+                </div>
+                <div className="space-y-2 border-t pt-3">
+                  <Input
+                    placeholder="Season name (e.g. Spring 2027)"
+                    value={newSeason.name}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setNewSeason({ ...newSeason, name: e.target.value })
+                    }
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Starts</Label>
+                      <Input
+                        type="date"
+                        value={newSeason.startDate}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setNewSeason({ ...newSeason, startDate: e.target.value })
+                        }
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Match night</Label>
+                      <Select
+                        value={newSeason.matchDayOfWeek}
+                        onValueChange={(value: string) => setNewSeason({ ...newSeason, matchDayOfWeek: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {LEAGUE_DAY_LABELS.map((label, i) => (
+                            <SelectItem key={label} value={String(i)}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Start time</Label>
+                      <Input
+                        type="time"
+                        value={newSeason.matchStartTime}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setNewSeason({ ...newSeason, matchStartTime: e.target.value })
+                        }
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Minutes per match</Label>
+                      <Input
+                        type="number"
+                        min={30}
+                        max={300}
+                        step={15}
+                        value={newSeason.matchDurationMinutes}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setNewSeason({ ...newSeason, matchDurationMinutes: e.target.value })
+                        }
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Courts (none selected = any court)</Label>
+                    <div className="grid grid-cols-2 gap-1">
+                      {courts.map((court) => (
+                        <label key={court.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={newSeason.courtIds.includes(court.id)}
+                            onCheckedChange={(checked: boolean) =>
+                              setNewSeason({
+                                ...newSeason,
+                                courtIds: checked
+                                  ? [...newSeason.courtIds, court.id]
+                                  : newSeason.courtIds.filter((id) => id !== court.id),
+                              })
+                            }
+                          />
+                          {court.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <Button
+                    className="w-full gap-2"
+                    variant="outline"
+                    onClick={() => void handleCreateSeason()}
+                    disabled={busy || !newSeason.name.trim() || !newSeason.startDate}
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add season
+                  </Button>
+                </div>
+              </Card>
+            )}
+          </div>
+
+          <div className="lg:col-span-2 space-y-4">
+            {!detail ? (
+              <div className="flex flex-col items-center justify-center py-16 text-gray-400">
+                <Trophy className="h-12 w-12 mb-3" />
+                <p className="text-sm">Pick or create a season to manage teams and the schedule.</p>
+              </div>
+            ) : (
+              <>
+                <Card className="p-4 space-y-3">
+                  <div className="flex items-center justify-between gap-3 flex-wrap">
+                    <div>
+                      <h2 className="font-semibold text-gray-900">
+                        {detail.season.leagueName} — {detail.season.name}
+                      </h2>
+                      <p className="text-sm text-gray-500">
+                        {LEAGUE_DAY_LABELS[detail.season.matchDayOfWeek]}s from {detail.season.startDate},{' '}
+                        {detail.season.matchDurationMinutes} min matches
+                      </p>
+                    </div>
+                    {canSchedule && (
+                      <Button className="gap-2" onClick={() => void handleSchedule()} disabled={busy}>
+                        <CalendarPlus className="h-4 w-4" />
+                        {detail.season.format === 'ladder' ? 'Schedule next round' : 'Generate schedule'}
+                      </Button>
+                    )}
+                  </div>
+                  <LeagueStandingsTable format={detail.season.format} standings={detail.standings} />
+                </Card>
+
+                <Card className="p-4 space-y-3">
+                  <h3 className="font-semibold text-gray-900">Teams ({detail.teams.length})</h3>
+                  <div className="divide-y divide-gray-100">
+                    {detail.teams.map((team) => (
+                      <div key={team.id} className="flex items-center justify-between py-2 text-sm">
+                        <div>
+                          <span className="font-medium">{team.name}</span>
+                          <span className="block text-xs text-gray-500">
+                            {team.members.map((m) => m.fullName).join(', ')}
+                          </span>
+                        </div>
+                        {detail.fixtures.every((f) => f.homeTeamId !== team.id && f.awayTeamId !== team.id) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600 hover:text-red-700"
+                            onClick={() => void handleRemoveTeam(team.id, team.name)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  {canAddTeams && (
+                    <div className="space-y-2 border-t pt-3">
+                      <Input
+                        placeholder="Team name"
+                        value={newTeamName}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewTeamName(e.target.value)}
+                      />
+                      <Select
+                        value=""
+                        onValueChange={(value: string) =>
+                          setNewTeamMemberIds((ids) => (ids.includes(value) ? ids : [...ids, value]))
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Add a player (first added is captain)" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {members
+                            .filter((m) => !teamMemberIds.has(m.id) && !newTeamMemberIds.includes(m.id))
+                            .map((m) => (
+                              <SelectItem key={m.id} value={m.id}>
+                                {m.name}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      {newTeamMemberIds.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {newTeamMemberIds.map((id) => (
+                            <Badge key={id} variant="outline" className="gap-1">
+                              {members.find((m) => m.id === id)?.name ?? id}
+                              <button
+                                type="button"
+                                onClick={() => setNewTeamMemberIds((ids) => ids.filter((x) => x !== id))}
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                      <Button
+                        variant="outline"
+                        className="gap-2"
+                        onClick={() => void handleAddTeam()}
+                        disabled={busy || !newTeamName.trim() || newTeamMemberIds.length === 0}
+                      >
+                        <Plus className="h-4 w-4" />
+                        Add team
+                      </Button>
+                    </div>
+                  )}
+                </Card>
+
+                <Card className="p-4 space-y-3">
+                  <h3 className="font-semibold text-gray-900">Fixtures</h3>
+                  <LeagueFixtureList
+                    fixtures={detail.fixtures}
+                    renderActions={(fixture) =>
+                      fixture.status === 'cancelled' ? null : (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => setScoring(fixture)}>
+                            Score
+                          </Button>
+                          {fixture.status !== 'completed' && (
+                            <>
+                              <Button variant="ghost" size="sm" onClick={() => openMove(fixture)}>
+                                Move
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-red-600 hover:text-red-700"
+                                onClick={() => void handleCancelFixture(fixture)}
+                              >
+                                Cancel
+                              </Button>
+                            </>
+                          )}
+                        </>
+                      )
+                    }
+                  />
+                </Card>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      <Dialog open={Boolean(moving)} onOpenChange={(open: boolean) => !open && setMoving(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              Move {moving?.homeTeamName} vs {moving?.awayTeamName}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label>Date</Label>
+                <Input
+                  type="date"
+                  value={move.matchDate}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMove({ ...move, matchDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Start time</Label>
+                <Input
+                  type="time"
+                  value={move.startTime}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMove({ ...move, startTime: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Court</Label>
+              <Select
+                value={move.courtId || 'any'}
+                onValueChange={(value: string) => setMove({ ...move, courtId: value === 'any' ? '' : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any free court</SelectItem>
+                  {courts.map((court) => (
+                    <SelectItem key={court.id} value={court.id}>
+                      {court.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMoving(null)}>
+              Cancel
+            </Button>
+            <Button onClick={() => void handleMove()} disabled={busy || !move.matchDate || !move.startTime}>
+              Reserve and move
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <LeagueScoreDialog fixture={scoring} onClose={() => setScoring(null)} onSubmit={handleScore} />
+    </div>
+  );
+}
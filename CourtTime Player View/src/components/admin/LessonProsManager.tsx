@@ -0,0 +1,447 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Calendar, Clock, Plus, Trash2, UserPlus } from 'lucide-react';
+import { Card } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Switch } from '../ui/switch';
+import { Badge } from '../ui/badge';
+import { Textarea } from '../ui/textarea';
+import { Checkbox } from '../ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import {
+  facilitiesApi,
+  lessonsApi,
+  membersApi,
+  type LessonBooking,
+  type LessonPro,
+  type LessonProAvailabilityWindow,
+} from '../../api/client';
+import { toast } from 'sonner';
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface LessonProsManagerProps {
+  facilityId: string;
+  /** Admins manage every pro; anyone else only sees their own pro profile. */
+  isAdmin: boolean;
+  currentUserId: string | undefined;
+}
+
+interface CourtOption {
+  id: string;
+  name: string;
+}
+
+function formatTime(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${minutes.toString().padStart(2, '0')} ${period}`;
+}
+
+/**
+ * Pros tab of the admin Lessons page: who teaches, what they charge, which
+ * courts they use and when they're bookable. Members book these slots from the
+ * Lessons tab; each booking holds a court like any other reservation.
+ */
+export function LessonProsManager({ facilityId, isAdmin, currentUserId }: LessonProsManagerProps) {
+  const [loading, setLoading] = useState(true);
+  const [pros, setPros] = useState<LessonPro[]>([]);
+  const [courts, setCourts] = useState<CourtOption[]>([]);
+  const [members, setMembers] = useState<Array<{ userId: string; fullName: string }>>([]);
+  const [newProUserId, setNewProUserId] = useState('');
+  const [adding, setAdding] = useState(false);
+
+  const loadPros = useCallback(async () => {
+    try {
+      setLoading(true);
+      const res = await lessonsApi.getPros(facilityId, isAdmin);
+      setPros(
+        isAdmin ? res.pros : res.pros.filter((pro) => pro.userId === currentUserId)
+      );
+    } catch (err) {
+      console.error('Error loading pros:', err);
+      toast.error('Failed to load pros');
+    } finally {
+      setLoading(false);
+    }
+  }, [facilityId, isAdmin, currentUserId]);
+
+  useEffect(() => {
+    void loadPros();
+  }, [loadPros]);
+
+  useEffect(() => {
+    facilitiesApi
+      .getCourts(facilityId)
+      .then((res: any) => {
+        const list = res?.data?.courts ?? [];
+        setCourts(
+          (Array.isArray(list) ? list : [])
+            .filter((c: any) => !(c.isWalkUp ?? c.is_walk_up))
+            .map((c: any) => ({ id: c.id, name: c.name }))
+        );
+      })
+      .catch(() => setCourts([]));
+  }, [facilityId]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    membersApi
+      .getFacilityMembers(facilityId)
+      .then((res: any) => {
+        const list = res?.data?.members ?? res?.members ?? [];
+        setMembers(
+          (Array.isArray(list) ? list : []).map((m: any) => ({
+            userId: m.userId ?? m.user_id ?? m.id,
+            fullName: m.fullName ?? m.full_name ?? m.email,
+          }))
+        );
+      })
+      .catch(() => setMembers([]));
+  }, [facilityId, isAdmin]);
+
+  const handleAddPro = async () => {
+    if (!newProUserId) return;
+    setAdding(true);
+    try {
+      const res = await lessonsApi.createPro(facilityId, { userId: newProUserId });
+      if (res.success) {
+        toast.success('Pro added — set their price and availability below');
+        setNewProUserId('');
+        await loadPros();
+      } else {
+        toast.error(res.error || 'Failed to add pro');
+      }
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const proUserIds = new Set(pros.map((pro) => pro.userId));
+  const addableMembers = members.filter((m) => !proUserIds.has(m.userId));
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {isAdmin && (
+        <Card className="p-4">
+          <div className="flex items-end gap-3 flex-wrap">
+            <div className="space-y-1 min-w-[220px] flex-1">
+              <Label className="text-xs">Make a member a pro</Label>
+              <Select value={newProUserId} onValueChange={setNewProUserId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a member" />
+                </SelectTrigger>
+                <SelectContent>
+                  {addableMembers.map((m) => (
+                    <SelectItem key={m.userId} value={m.userId}>
+                      {m.fullName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={() => void handleAddPro()} disabled={!newProUserId || adding} className="gap-2">
+              <UserPlus className="h-4 w-4" />
+              Add Pro
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {pros.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-gray-400">
+          <Calendar className="h-12 w-12 mb-3" />
+          <p className="text-sm">
+            {isAdmin ? 'No pros yet. Add one to open private lesson booking.' : 'You are not set up as a pro here.'}
+          </p>
+        </div>
+      ) : (
+        pros.map((pro) => (
+          <ProCard
+            key={pro.id}
+            facilityId={facilityId}
+            pro={pro}
+            courts={courts}
+            isAdmin={isAdmin}
+            onSaved={loadPros}
+          />
+        ))
+      )}
+    </div>
+  );
+}
+
+function ProCard({
+  facilityId,
+  pro,
+  courts,
+  isAdmin,
+  onSaved,
+}: {
+  facilityId: string;
+  pro: LessonPro;
+  courts: CourtOption[];
+  isAdmin: boolean;
+  onSaved: () => Promise<void>;
+}) {
+  const [title, setTitle] = useState(pro.title ?? '');
+  const [bio, setBio] = useState(pro.bio ?? '');
+  const [priceDollars, setPriceDollars] = useState((pro.priceCents / 100).toFixed(2));
+  const [duration, setDuration] = useState(String(pro.lessonDurationMinutes));
+  const [courtIds, setCourtIds] = useState<string[]>(pro.courtIds);
+  const [windows, setWindows] = useState<LessonProAvailabilityWindow[]>(pro.availability);
+  const [saving, setSaving] = useState<'profile' | 'availability' | null>(null);
+  const [schedule, setSchedule] = useState<LessonBooking[] | null>(null);
+
+  const saveProfile = async (overrides: { isActive?: boolean } = {}) => {
+    const priceCents = Math.round(Number(priceDollars) * 100);
+    const lessonDurationMinutes = parseInt(duration, 10);
+    if (!Number.isFinite(priceCents) || priceCents < 0) {
+      toast.error('Enter a valid price');
+      return;
+    }
+    setSaving('profile');
+    try {
+      const res = await lessonsApi.updatePro(facilityId, pro.id, {
+        title: title.trim() || null,
+        bio: bio.trim() || null,
+        priceCents,
+        lessonDurationMinutes,
+        courtIds,
+        ...overrides,
+      });
+      if (res.success) {
+        toast.success(`${pro.fullName} updated`);
+        await onSaved();
+      } else {
+        toast.error(res.error || 'Failed to save pro');
+      }
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const saveAvailability = async () => {
+    setSaving('availability');
+    try {
+      const res = await lessonsApi.setAvailability(facilityId, pro.id, windows);
+      if (res.success) {
+        toast.success('Availability saved');
+        await onSaved();
+      } else {
+        toast.error(res.error || 'Failed to save availability');
+      }
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const loadSchedule = async () => {
+    const res = await lessonsApi.getProSchedule(facilityId, pro.id);
+    if (res.success) setSchedule(res.lessons);
+    else toast.error(res.error || 'Failed to load schedule');
+  };
+
+  const cancelLesson = async (lesson: LessonBooking) => {
+    if (!confirm(`Cancel ${lesson.memberName}'s lesson on ${lesson.lessonDate}? Any lesson fee is refunded.`)) return;
+    const res = await lessonsApi.cancel(facilityId, lesson.id);
+    if (res.success) {
+      toast.success(res.refunded ? 'Lesson cancelled and refunded' : 'Lesson cancelled');
+      await loadSchedule();
+    } else {
+      toast.error(res.error || 'Failed to cancel lesson');
+    }
+  };
+
+  const updateWindow = (index: number, patch: Partial<LessonProAvailabilityWindow>) => {
+    setWindows((prev) => prev.map((w, i) => (i === index ? { ...w, ...patch } : w)));
+  };
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <h3 className="font-semibold text-gray-900">{pro.fullName}</h3>
+          {!pro.isActive && <Badge variant="secondary">Inactive</Badge>}
+        </div>
+        {isAdmin && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <span>Bookable</span>
+            <Switch
+              checked={pro.isActive}
+              disabled={saving !== null}
+              onCheckedChange={(checked: boolean) => void saveProfile({ isActive: checked })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Title</Label>
+          <Input value={title} placeholder="Head Pro" onChange={(e) => setTitle(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Price per lesson ($)</Label>
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={priceDollars}
+            onChange={(e) => setPriceDollars(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Lesson length (minutes)</Label>
+          <Input
+            type="number"
+            min="15"
+            max="240"
+            step="15"
+            value={duration}
+            onChange={(e) => setDuration(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Bio</Label>
+        <Textarea value={bio} rows={2} onChange={(e) => setBio(e.target.value)} />
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Teaches on (none selected = any reservable court)</Label>
+        <div className="flex flex-wrap gap-3">
+          {courts.map((court) => (
+            <label key={court.id} className="flex items-center gap-1.5 text-sm text-gray-700">
+              <Checkbox
+                checked={courtIds.includes(court.id)}
+                onCheckedChange={(checked: boolean | 'indeterminate') =>
+                  setCourtIds((prev) =>
+                    checked === true ? [...prev, court.id] : prev.filter((id) => id !== court.id)
+                  )
+                }
+              />
+              {court.name}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button size="sm" disabled={saving !== null} onClick={() => void saveProfile()}>
+          Save Profile
+        </Button>
+      </div>
+
+      <div className="border-t pt-4 space-y-2">
+        <h4 className="text-sm font-medium text-gray-900">Weekly availability</h4>
+        {windows.length === 0 && (
+          <p className="text-sm text-gray-400">No availability yet — members can't book this pro.</p>
+        )}
+        {windows.map((window, index) => (
+          <div key={index} className="flex items-center gap-2 flex-wrap">
+            <Select
+              value={String(window.dayOfWeek)}
+              onValueChange={(value: string) => updateWindow(index, { dayOfWeek: Number(value) })}
+            >
+              <SelectTrigger className="w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DAY_LABELS.map((label, day) => (
+                  <SelectItem key={label} value={String(day)}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="time"
+              className="w-32"
+              value={window.startTime.slice(0, 5)}
+              onChange={(e) => updateWindow(index, { startTime: e.target.value })}
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <Input
+              type="time"
+              className="w-32"
+              value={window.endTime.slice(0, 5)}
+              onChange={(e) => updateWindow(index, { endTime: e.target.value })}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-red-600 hover:text-red-700"
+              onClick={() => setWindows((prev) => prev.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            onClick={() =>
+              setWindows((prev) => [...prev, { dayOfWeek: 1, startTime: '09:00', endTime: '12:00' }])
+            }
+          >
+            <Plus className="h-4 w-4" />
+            Add window
+          </Button>
+          <Button size="sm" disabled={saving !== null} onClick={() => void saveAvailability()}>
+            Save Availability
+          </Button>
+        </div>
+      </div>
+
+      <div className="border-t pt-4 space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-gray-900">Upcoming lessons</h4>
+          <Button variant="ghost" size="sm" onClick={() => void loadSchedule()}>
+            {schedule ? 'Refresh' : 'Show schedule'}
+          </Button>
+        </div>
+        {schedule &&
+          (schedule.length === 0 ? (
+            <p className="text-sm text-gray-400">Nothing booked yet.</p>
+          ) : (
+            <ul className="divide-y">
+              {schedule.map((lesson) => (
+                <li key={lesson.id} className="flex items-center justify-between py-2 text-sm">
+                  <span className="flex items-center gap-2 flex-wrap">
+                    <Clock className="h-4 w-4 text-gray-400" />
+                    {lesson.lessonDate} · {formatTime(lesson.startTime)} – {formatTime(lesson.endTime)}
+                    <span className="text-gray-600">{lesson.memberName}</span>
+                    {lesson.courtName && <span className="text-gray-400">{lesson.courtName}</span>}
+                    {lesson.status === 'pending_payment' && (
+                      <Badge className="bg-amber-100 text-amber-700 hover:bg-amber-100">Awaiting payment</Badge>
+                    )}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => void cancelLesson(lesson)}
+                  >
+                    Cancel
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          ))}
+      </div>
+    </Card>
+  );
+}
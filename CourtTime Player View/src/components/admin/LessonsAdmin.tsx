@@ -26,6 +26,7 @@ import {
   type BulletinPostView,
 } from '../../utils/bulletinPostDisplay';
 import { BulletinPostCreateModal } from '../BulletinPostCreateModal';
+import { LessonProsManager } from './LessonProsManager';
 import { toast } from 'sonner';
 
 /**
@@ -33,12 +34,16 @@ import { toast } from 'sonner';
  * lessons/clinics: create (same form + create path as the bulletin board),
  * upcoming/past lists, and per-lesson rosters. Lessons remain bulletin posts,
  * so they also appear on the bulletin board and hold their court on the calendar.
+ * The Pros tab manages bookable private lessons (LessonProsManager); a pro who
+ * isn't an admin lands there to manage their own calendar.
  */
 export default function LessonsAdmin() {
   const { user } = useAuth();
   const { selectedFacilityId } = useAppContext();
+  const isAdmin = Boolean(selectedFacilityId && user?.adminFacilities?.includes(selectedFacilityId));
   const [facilityName, setFacilityName] = useState('');
   const [scope, setScope] = useState<'upcoming' | 'past'>('upcoming');
+  const [showPros, setShowPros] = useState(!isAdmin);
   const [loading, setLoading] = useState(true);
   const [unavailable, setUnavailable] = useState(false);
   const [lessons, setLessons] = useState<BulletinPostView[]>([]);
@@ -146,12 +151,27 @@ export default function LessonsAdmin() {
         </Button>
       </div>
 
-      <Tabs value={scope} onValueChange={(value) => setScope(value as 'upcoming' | 'past')}>
+      <Tabs
+        value={showPros ? 'pros' : scope}
+        onValueChange={(value) => {
+          setShowPros(value === 'pros');
+          if (value !== 'pros') setScope(value as 'upcoming' | 'past');
+        }}
+      >
         <TabsList>
           <TabsTrigger value="upcoming">Upcoming</TabsTrigger>
           <TabsTrigger value="past">Past</TabsTrigger>
+          <TabsTrigger value="pros">Pros</TabsTrigger>
         </TabsList>
 
+        <TabsContent value="pros" className="mt-4">
+          <LessonProsManager
+            facilityId={selectedFacilityId}
+            isAdmin={isAdmin}
+            currentUserId={user?.id}
+          />
+        </TabsContent>
+
         <TabsContent value={scope} className="mt-4">
           {loading ? (
             <div className="flex justify-center py-16">
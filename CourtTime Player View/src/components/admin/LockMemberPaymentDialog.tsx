@@ -18,7 +18,7 @@ import { membersApi } from '../../api/client';
 export interface LockMemberTarget {
   userId: string;
   fullName: string;
-  email: string;
+  email: string | null;
 }
 
 interface LockMemberPaymentDialogProps {
@@ -98,7 +98,7 @@ export function LockMemberPaymentDialog({
             {member ? (
               <>
                 <span className="font-medium text-gray-900">{member.fullName}</span>
-                {' '}({member.email}) will be blocked from the app until they pay via Stripe.
+                {member.email && ` (${member.email})`} will be blocked from the app until they pay via Stripe.
               </>
             ) : (
               'Select a member to lock.'
@@ -0,0 +1,158 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Wallet } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { walletApi, type WalletSummary } from '../../api/client';
+import { toast } from 'sonner';
+
+function dollars(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+interface MemberCreditCardProps {
+  clubId: string;
+  members: Array<{ userId: string; fullName: string; email: string | null }>;
+}
+
+/**
+ * Admin view of a member's account credit: current balance, recent activity,
+ * and grants or debits with a reason the member sees on their ledger.
+ */
+export function MemberCreditCard({ clubId, members }: MemberCreditCardProps) {
+  const [memberId, setMemberId] = useState('');
+  const [wallet, setWallet] = useState<WalletSummary | null>(null);
+  const [amountDollars, setAmountDollars] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const sortedMembers = useMemo(
+    () => [...members].sort((a, b) => a.fullName.localeCompare(b.fullName)),
+    [members]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setWallet(null);
+    if (!memberId) return;
+    walletApi.getMember(clubId, memberId).then(res => {
+      if (!cancelled && res.success) setWallet(res.data ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [clubId, memberId]);
+
+  const handleAdjust = async (direction: 1 | -1) => {
+    const amountCents = Math.round(Number(amountDollars) * 100);
+    if (!memberId || !Number.isFinite(amountCents) || amountCents <= 0) {
+      toast.error('Choose a member and enter an amount');
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error('Enter a reason');
+      return;
+    }
+    setSaving(true);
+    const res = await walletApi.adjust(clubId, memberId, { amountCents: amountCents * direction, reason });
+    setSaving(false);
+    if (!res.success) {
+      toast.error(res.error || 'Could not adjust credit');
+      return;
+    }
+    toast.success(direction > 0 ? `Granted ${dollars(amountCents)} credit` : `Removed ${dollars(amountCents)} credit`);
+    setAmountDollars('');
+    setReason('');
+    const refreshed = await walletApi.getMember(clubId, memberId);
+    if (refreshed.success) setWallet(refreshed.data ?? null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Member credit
+        </CardTitle>
+        <CardDescription>
+          Grant or remove account credit. To refund a payment as credit, use Refund on the payment below.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-[1fr_auto] md:items-end">
+          <div className="space-y-1.5">
+            <Label>Member</Label>
+            <Select value={memberId} onValueChange={setMemberId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a member" />
+              </SelectTrigger>
+              <SelectContent>
+                {sortedMembers.map(m => (
+                  <SelectItem key={m.userId} value={m.userId}>
+                    {m.email ? `${m.fullName} · ${m.email}` : m.fullName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {wallet && (
+            <div className="text-sm text-gray-600 md:text-right">
+              Balance <span className="text-lg font-semibold text-gray-900 ml-1">{dollars(wallet.balanceCents)}</span>
+            </div>
+          )}
+        </div>
+
+        {memberId && (
+          <div className="grid gap-3 md:grid-cols-[8rem_1fr_auto] md:items-end">
+            <div className="space-y-1.5">
+              <Label htmlFor="credit-amount">Amount (USD)</Label>
+              <Input
+                id="credit-amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={amountDollars}
+                onChange={e => setAmountDollars(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="credit-reason">Reason</Label>
+              <Input
+                id="credit-reason"
+                placeholder="e.g. Rain-out goodwill credit"
+                value={reason}
+                onChange={e => setReason(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={() => handleAdjust(1)} disabled={saving}>Grant</Button>
+              <Button variant="outline" onClick={() => handleAdjust(-1)} disabled={saving}>Remove</Button>
+            </div>
+          </div>
+        )}
+
+        {wallet && wallet.transactions.length > 0 && (
+          <ul className="divide-y rounded-md border text-sm">
+            {wallet.transactions.slice(0, 10).map(t => (
+              <li key={t.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                <div className="min-w-0">
+                  <div className="truncate">{t.description}</div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(t.createdAt).toLocaleDateString()}
+                    {t.createdByName ? ` · ${t.createdByName}` : ''}
+                    {t.pending ? ' · held for checkout' : ''}
+                  </div>
+                </div>
+                <span className={t.amountCents < 0 ? 'text-gray-700' : 'text-green-700'}>
+                  {t.amountCents < 0 ? '−' : '+'}{dollars(Math.abs(t.amountCents))}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
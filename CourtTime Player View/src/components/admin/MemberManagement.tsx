@@ -23,7 +23,7 @@ import { AddressWhitelistPanel } from './AddressWhitelistPanel';
 
 interface Member {
   userId: string;
-  email: string;
+  email: string | null;
   fullName: string;
   membershipId: string;
   membershipType: string;
@@ -42,6 +42,11 @@ import {
   type ConnectPayment,
 } from '../../api/client';
 import { toast } from 'sonner';
+import { useAppContext } from '../../contexts/AppContext';
+import { FEATURE_FLAGS } from '../../../shared/constants/featureFlags';
+import { MemberCreditCard } from './MemberCreditCard';
+import { SessionPackagesAdmin } from './SessionPackagesAdmin';
+import { describeLockoutCandidate, filterLockoutCandidates } from '../../utils/paymentLockout';
 
 interface PaymentsTabProps {
   clubId: string;
@@ -99,7 +104,7 @@ export function PaymentsTab({ clubId }: PaymentsTabProps) {
   const [connecting, setConnecting] = useState(false);
 
   // Member lockout state
-  const [allMembers, setAllMembers] = useState<Array<{ userId: string; fullName: string; email: string; isPaymentLocked: boolean; lockoutAmountCents?: number | null; lockoutDescription?: string | null; paymentLockedAt?: string | null }>>([]);
+  const [allMembers, setAllMembers] = useState<Array<{ userId: string; fullName: string; email: string | null; isPaymentLocked: boolean; lockoutAmountCents?: number | null; lockoutDescription?: string | null; paymentLockedAt?: string | null }>>([]);
   const [lockoutMemberSearch, setLockoutMemberSearch] = useState('');
   const [selectedMemberId, setSelectedMemberId] = useState('');
   const [lockoutAmountDollars, setLockoutAmountDollars] = useState('');
@@ -108,6 +113,10 @@ export function PaymentsTab({ clubId }: PaymentsTabProps) {
   const [clearingLockout, setClearingLockout] = useState<string | null>(null);
   const [refundTarget, setRefundTarget] = useState<ConnectPayment | null>(null);
   const [refunding, setRefunding] = useState(false);
+  const [refundToWallet, setRefundToWallet] = useState(false);
+  const { enabledFeatures } = useAppContext();
+  const walletEnabled = enabledFeatures.includes(FEATURE_FLAGS.MEMBER_WALLET);
+  const packagesEnabled = enabledFeatures.includes(FEATURE_FLAGS.SESSION_PACKAGES);
 
   const loadMembers = useCallback(async () => {
     if (!clubId) return;
@@ -160,10 +169,12 @@ export function PaymentsTab({ clubId }: PaymentsTabProps) {
     if (!refundTarget) return;
     setRefunding(true);
     try {
-      const res = await connectPaymentsApi.refund(refundTarget.id);
+      const res = await connectPaymentsApi.refund(refundTarget.id, { toWallet: refundToWallet });
       if (res.success) {
         toast.success(
-          `Refunded ${dollars(refundTarget.amountCents)} to ${refundTarget.memberName || 'member'}`
+          refundToWallet
+            ? `Credited ${dollars(refundTarget.amountCents)} to ${refundTarget.memberName || 'member'}'s account`
+            : `Refunded ${dollars(refundTarget.amountCents)} to ${refundTarget.memberName || 'member'}`
         );
         setRefundTarget(null);
         await refresh();
@@ -328,13 +339,10 @@ export function PaymentsTab({ clubId }: PaymentsTabProps) {
 
   const isConnected = Boolean(connectStatus?.onboarded);
 
-  const filteredMembers = useMemo(() => {
-    const q = lockoutMemberSearch.toLowerCase();
-    return allMembers.filter(m =>
-      !m.isPaymentLocked &&
-      (m.fullName.toLowerCase().includes(q) || m.email.toLowerCase().includes(q))
-    );
-  }, [allMembers, lockoutMemberSearch]);
+  const filteredMembers = useMemo(
+    () => filterLockoutCandidates(allMembers, lockoutMemberSearch),
+    [allMembers, lockoutMemberSearch]
+  );
 
   const lockedMembers = useMemo(
     () => allMembers.filter(m => m.isPaymentLocked),
@@ -634,11 +642,11 @@ export function PaymentsTab({ clubId }: PaymentsTabProps) {
                         className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50 transition-colors"
                         onClick={() => {
                           setSelectedMemberId(m.userId);
-                          setLockoutMemberSearch(`${m.fullName} (${m.email})`);
+                          setLockoutMemberSearch(describeLockoutCandidate(m));
                         }}
                       >
                         <span className="font-medium">{m.fullName}</span>
-                        <span className="text-gray-400 ml-2">{m.email}</span>
+                        {m.email && <span className="text-gray-400 ml-2">{m.email}</span>}
                       </button>
                     ))}
                   </div>
@@ -702,7 +710,7 @@ export function PaymentsTab({ clubId }: PaymentsTabProps) {
                     <TableRow key={m.userId}>
                       <TableCell>
                         <div className="font-medium">{m.fullName}</div>
-                        <div className="text-xs text-gray-500">{m.email}</div>
+                        {m.email && <div className="text-xs text-gray-500">{m.email}</div>}
                       </TableCell>
                       <TableCell>
                         {m.lockoutAmountCents
@@ -742,6 +750,12 @@ export function PaymentsTab({ clubId }: PaymentsTabProps) {
         </CardContent>
       </Card>
 
+      {walletEnabled && <MemberCreditCard clubId={clubId} members={allMembers} />}
+
+      {packagesEnabled && (
+        <SessionPackagesAdmin clubId={clubId} members={allMembers} walletEnabled={walletEnabled} />
+      )}
+
       {/* Payment history (admin view) */}
       <Card>
         <CardHeader>
@@ -781,7 +795,15 @@ export function PaymentsTab({ clubId }: PaymentsTabProps) {
                       )}
                     </TableCell>
                     <TableCell>{p.itemName || '—'}</TableCell>
-                    <TableCell>{dollars(p.amountCents)}</TableCell>
+                    <TableCell>
+                      {dollars(p.amountCents)}
+                      {!!p.walletAppliedCents && (
+                        <div className="text-xs text-gray-500">{dollars(p.walletAppliedCents)} from credit</div>
+                      )}
+                      {!!p.packageAppliedCents && (
+                        <div className="text-xs text-gray-500">{dollars(p.packageAppliedCents)} covered by package</div>
+                      )}
+                    </TableCell>
                     <TableCell>{dollars(p.platformFeeCents)}</TableCell>
                     <TableCell>
                       <PaymentStatusBadge status={p.status} />
@@ -791,7 +813,10 @@ export function PaymentsTab({ clubId }: PaymentsTabProps) {
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => setRefundTarget(p)}
+                          onClick={() => {
+                            setRefundToWallet(false);
+                            setRefundTarget(p);
+                          }}
                         >
                           <Undo2 className="h-4 w-4 mr-1" />
                           Refund
@@ -811,9 +836,9 @@ export function PaymentsTab({ clubId }: PaymentsTabProps) {
           <DialogHeader>
             <DialogTitle>Refund payment</DialogTitle>
             <DialogDescription>
-              This will refund the full amount to the member&apos;s card. The refund is processed
-              through your connected Stripe account and may take 5–10 business days to appear on
-              the member&apos;s statement.
+              {refundToWallet
+                ? 'The full amount goes to the member\'s account credit at this club, ready to spend right away.'
+                : 'This will refund the full amount to the member\'s card (and any account credit used back to their balance). The refund is processed through your connected Stripe account and may take 5–10 business days to appear on the member\'s statement.'}
             </DialogDescription>
           </DialogHeader>
           {refundTarget && (
@@ -830,6 +855,16 @@ export function PaymentsTab({ clubId }: PaymentsTabProps) {
                 <span className="text-gray-500">Amount</span>
                 <span className="font-medium">{dollars(refundTarget.amountCents)}</span>
               </div>
+              {walletEnabled && (
+                <div className="flex items-center justify-between pt-2">
+                  <Label htmlFor="refund-to-wallet">Refund as account credit</Label>
+                  <Switch
+                    id="refund-to-wallet"
+                    checked={refundToWallet}
+                    onCheckedChange={setRefundToWallet}
+                  />
+                </div>
+              )}
             </div>
           )}
           <DialogFooter>
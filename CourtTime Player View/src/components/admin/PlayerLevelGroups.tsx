@@ -25,6 +25,7 @@ import {
   Plus,
   Search,
   Trash2,
+  TrendingUp,
   UserMinus,
   Users,
 } from 'lucide-react';
@@ -44,11 +45,20 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '../ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
 import {
   playerLevelGroupsApi,
   type LevelGroup,
   type LevelGroupBoard,
   type LevelGroupMember,
+  type LevelSuggestion,
 } from '../../api/client';
 
 /** Group chats are capped at 30 including the creator (see groupConversationService). */
@@ -59,12 +69,14 @@ const UNASSIGNED = '__unassigned__';
 
 interface PlayerLevelGroupsProps {
   facilityId: string;
+  /** Show club ratings and offer rating-based level suggestions (club_ratings flag). */
+  ratingsEnabled?: boolean;
 }
 
 /** Empty board, so render paths never have to null-check. */
 const EMPTY_BOARD: LevelGroupBoard = { groups: [], unassigned: [] };
 
-export function PlayerLevelGroups({ facilityId }: PlayerLevelGroupsProps) {
+export function PlayerLevelGroups({ facilityId, ratingsEnabled = false }: PlayerLevelGroupsProps) {
   const navigate = useNavigate();
   const [board, setBoard] = useState<LevelGroupBoard>(EMPTY_BOARD);
   const [loading, setLoading] = useState(true);
@@ -79,6 +91,8 @@ export function PlayerLevelGroups({ facilityId }: PlayerLevelGroupsProps) {
   const [renameValue, setRenameValue] = useState('');
 
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [suggestions, setSuggestions] = useState<LevelSuggestion[] | null>(null);
+  const [applyingSuggestions, setApplyingSuggestions] = useState(false);
   const [dropTarget, setDropTarget] = useState<string | null>(null);
 
   // The players being dragged. A ref (not state) because dragover/drop fire far
@@ -368,6 +382,52 @@ export function PlayerLevelGroups({ facilityId }: PlayerLevelGroupsProps) {
     [board.groups]
   );
 
+  const handleSuggest = async () => {
+    try {
+      const response = await playerLevelGroupsApi.getRatingSuggestions(facilityId);
+      if (!response.success) {
+        toast.error(response.error || 'Failed to suggest levels');
+      } else if (response.suggestions.length === 0) {
+        toast.success('Levels already line up with club ratings');
+      } else {
+        setSuggestions(response.suggestions);
+      }
+    } catch (error) {
+      console.error('Error suggesting levels:', error);
+      toast.error('Failed to suggest levels');
+    }
+  };
+
+  /** Applies the suggested moves one target tier at a time, then reloads. */
+  const applySuggestions = async () => {
+    if (!suggestions) return;
+    const byTarget = new Map<string, string[]>();
+    for (const suggestion of suggestions) {
+      byTarget.set(suggestion.toGroupId, [...(byTarget.get(suggestion.toGroupId) ?? []), suggestion.userId]);
+    }
+    try {
+      setApplyingSuggestions(true);
+      for (const [groupId, userIds] of byTarget) {
+        const response = await playerLevelGroupsApi.assign(facilityId, userIds, groupId);
+        if (!response.success) {
+          toast.error(response.error || 'Failed to move players');
+          return;
+        }
+      }
+      toast.success(`Moved ${suggestions.length} player${suggestions.length === 1 ? '' : 's'}`);
+      setSuggestions(null);
+    } catch (error) {
+      console.error('Error applying level suggestions:', error);
+      toast.error('Failed to move players');
+    } finally {
+      setApplyingSuggestions(false);
+      await loadBoard();
+    }
+  };
+
+  const groupName = (groupId: string | null) =>
+    groupId ? board.groups.find((group) => group.id === groupId)?.name ?? 'Unknown' : 'Unassigned';
+
   /** One player row. Draggable, selectable, and a drop target for insert-before. */
   const renderMember = (member: LevelGroupMember, zoneId: string) => {
     const isSelected = selectedIds.has(member.userId);
@@ -406,6 +466,11 @@ export function PlayerLevelGroups({ facilityId }: PlayerLevelGroupsProps) {
             {member.skillLevel}
           </Badge>
         )}
+        {ratingsEnabled && member.clubRating != null && (
+          <Badge variant="outline" className="shrink-0 text-[10px]">
+            {Math.round(member.clubRating)}
+          </Badge>
+        )}
         {member.isFacilityAdmin && (
           <Badge variant="secondary" className="shrink-0 text-[10px]">
             Admin
@@ -489,6 +554,12 @@ export function PlayerLevelGroups({ facilityId }: PlayerLevelGroupsProps) {
           player. {saving && <span className="text-gray-400">Saving…</span>}
         </p>
         <div className="flex gap-2">
+          {ratingsEnabled && board.groups.length > 0 && (
+            <Button variant="outline" onClick={() => void handleSuggest()}>
+              <TrendingUp className="mr-1 h-4 w-4" />
+              Suggest from Ratings
+            </Button>
+          )}
           <Input
             placeholder="New level name (e.g. 3.5)"
             value={newGroupName}
@@ -716,6 +787,41 @@ export function PlayerLevelGroups({ facilityId }: PlayerLevelGroupsProps) {
           </CardContent>
         </Card>
       </div>
+
+      <Dialog open={suggestions !== null} onOpenChange={(open: boolean) => !open && setSuggestions(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Suggested moves</DialogTitle>
+            <DialogDescription>
+              Rated players ranked by club rating and split across your levels in proportion to
+              their current size. Unrated players stay where they are.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-80 space-y-1.5 overflow-y-auto">
+            {suggestions?.map((suggestion) => (
+              <div key={suggestion.userId} className="flex items-center gap-2 text-sm">
+                <span className="min-w-0 flex-1 truncate font-medium text-gray-900">
+                  {suggestion.fullName}
+                </span>
+                <Badge variant="outline" className="shrink-0 text-[10px]">
+                  {Math.round(suggestion.clubRating)}
+                </Badge>
+                <span className="shrink-0 text-gray-500">
+                  {groupName(suggestion.fromGroupId)} → {groupName(suggestion.toGroupId)}
+                </span>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSuggestions(null)}>
+              Cancel
+            </Button>
+            <Button onClick={() => void applySuggestions()} disabled={applyingSuggestions}>
+              {applyingSuggestions ? 'Moving…' : 'Apply moves'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -8,10 +8,13 @@ import { Switch } from '../ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
-import { ShoppingBag, Plus, Pencil, Trash2, CreditCard, AlertTriangle, CheckCircle, Receipt, Copy, ExternalLink } from 'lucide-react';
-import { proShopApi } from '../../api/client';
+import { ShoppingBag, Plus, Pencil, Trash2, CreditCard, AlertTriangle, CheckCircle, Receipt, Copy, ExternalLink, Undo2 } from 'lucide-react';
+import { proShopApi, type ProShopItemInput } from '../../api/client';
 import { useAppContext } from '../../contexts/AppContext';
+import { useSearchParams } from 'react-router-dom';
 import { toast } from 'sonner';
+import ProShopInventory, { totalStock, variantLabel } from './ProShopInventory';
+import StringingJobsAdmin from './StringingJobsAdmin';
 
 const CATEGORIES = [
   { value: 'clothing', label: 'Clothing' },
@@ -20,6 +23,7 @@ const CATEGORIES = [
   { value: 'bags', label: 'Bags' },
   { value: 'footwear', label: 'Footwear' },
   { value: 'accessories', label: 'Accessories' },
+  { value: 'strings', label: 'Strings' },
   { value: 'other', label: 'Other' },
 ];
 
@@ -30,6 +34,7 @@ const CATEGORY_COLORS: Record<string, string> = {
   bags: 'bg-orange-100 text-orange-700',
   footwear: 'bg-green-100 text-green-700',
   accessories: 'bg-pink-100 text-pink-700',
+  strings: 'bg-teal-100 text-teal-700',
   other: 'bg-gray-100 text-gray-600',
 };
 
@@ -37,18 +42,43 @@ function formatPrice(cents: number) {
   return `$${(cents / 100).toFixed(2)}`;
 }
 
+type SellableOption = { key: string; product_id: string; variant_id: string | null; name: string; price_cents: number; stock: number | null };
+
+/** One pickable row per active variant, or per product when it has none. */
+function sellableOptions(products: any[]): SellableOption[] {
+  return products.filter(p => p.is_active).flatMap((p): SellableOption[] => {
+    const variants = (p.variants ?? []).filter((v: any) => v.is_active);
+    if (variants.length === 0) {
+      return [{ key: p.id, product_id: p.id, variant_id: null, name: p.name, price_cents: p.price_cents, stock: p.stock_quantity }];
+    }
+    return variants.map((v: any) => ({
+      key: `${p.id}:${v.id}`,
+      product_id: p.id,
+      variant_id: v.id,
+      name: `${p.name} (${variantLabel(v)})`,
+      price_cents: p.price_cents,
+      stock: v.stock_quantity,
+    }));
+  });
+}
+
+const itemKey = (item: { product_id: string; variant_id?: string | null }) =>
+  item.variant_id ? `${item.product_id}:${item.variant_id}` : item.product_id;
+
 const emptyForm = {
   name: '',
   description: '',
   category: 'accessories',
   price: '',
   stock: '',
+  threshold: '',
   is_active: true,
   image_data: null as string | null,
 };
 
 export default function ProShopAdmin() {
   const { selectedFacilityId: facilityId } = useAppContext();
+  const [searchParams] = useSearchParams();
 
   // ── Products ──────────────────────────────────────────────
   const [products, setProducts] = useState<any[]>([]);
@@ -58,16 +88,21 @@ export default function ProShopAdmin() {
   const [form, setForm] = useState({ ...emptyForm });
   const [saving, setSaving] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [lowStock, setLowStock] = useState<any[]>([]);
 
   // ── Orders ────────────────────────────────────────────────
   const [orders, setOrders] = useState<any[]>([]);
   const [ordersLoading, setOrdersLoading] = useState(false);
+  const [returnOrder, setReturnOrder] = useState<any>(null);
+  const [returnQty, setReturnQty] = useState<Record<string, string>>({});
+  const [returnRestock, setReturnRestock] = useState(true);
+  const [returning, setReturning] = useState(false);
 
   // ── Assign ────────────────────────────────────────────────
   const [members, setMembers] = useState<any[]>([]);
   const [membersLoading, setMembersLoading] = useState(false);
   const [assignMemberId, setAssignMemberId] = useState('');
-  const [assignItems, setAssignItems] = useState<{ product_id: string; quantity: number }[]>([]);
+  const [assignItems, setAssignItems] = useState<ProShopItemInput[]>([]);
   const [assignMode, setAssignMode] = useState<'charge' | 'tab' | 'cash'>('charge');
   const [assigning, setAssigning] = useState(false);
   const [assignTarget, setAssignTarget] = useState<'member' | 'guest'>('member');
@@ -83,12 +118,13 @@ export default function ProShopAdmin() {
   const [billingAll, setBillingAll] = useState(false);
 
   // ── Settings ──────────────────────────────────────────────
-  const [settingsForm, setSettingsForm] = useState({ tab_billing_day: 1, require_card: false });
+  const [settingsForm, setSettingsForm] = useState({ tab_billing_day: 1, require_card: false, stringing_labor: '0.00' });
   const [settingsSaving, setSettingsSaving] = useState(false);
 
   useEffect(() => {
     if (!facilityId) return;
     loadProducts();
+    loadLowStock();
   }, [facilityId]);
 
   // ── Products ──────────────────────────────────────────────
@@ -101,6 +137,17 @@ export default function ProShopAdmin() {
     setLoading(false);
   };
 
+  const loadLowStock = async () => {
+    const res = await proShopApi.adminGetLowStock(facilityId!);
+    if (res.success) setLowStock((res.data as any)?.data ?? []);
+  };
+
+  const reloadInventory = async () => {
+    const res = await proShopApi.adminGetProducts(facilityId!);
+    if (res.success) setProducts((res.data as any)?.data ?? []);
+    await loadLowStock();
+  };
+
   const openAdd = () => { setEditingProduct(null); setForm({ ...emptyForm }); setModalOpen(true); };
 
   const openEdit = (product: any) => {
@@ -111,6 +158,7 @@ export default function ProShopAdmin() {
       category: product.category,
       price: (product.price_cents / 100).toFixed(2),
       stock: product.stock_quantity != null ? String(product.stock_quantity) : '',
+      threshold: product.low_stock_threshold != null ? String(product.low_stock_threshold) : '',
       is_active: product.is_active,
       image_data: product.image_data ?? null,
     });
@@ -132,15 +180,17 @@ export default function ProShopAdmin() {
     }
     const price_cents = Math.round(parseFloat(form.price) * 100);
     if (isNaN(price_cents) || price_cents < 0) { toast.error('Invalid price'); return; }
-    const payload = {
+    const payload: Record<string, any> = {
       name: form.name.trim(),
       description: form.description.trim() || null,
       category: form.category,
       price_cents,
-      stock_quantity: form.stock !== '' ? parseInt(form.stock) : null,
+      low_stock_threshold: form.threshold !== '' ? parseInt(form.threshold) : null,
       image_data: form.image_data,
       is_active: form.is_active,
     };
+    // Products with variants keep stock on the variants (Inventory tab)
+    if (!editingHasVariants) payload.stock_quantity = form.stock !== '' ? parseInt(form.stock) : null;
     setSaving(true);
     let res: any;
     if (editingProduct) res = await proShopApi.adminUpdateProduct(editingProduct.id, payload);
@@ -149,6 +199,7 @@ export default function ProShopAdmin() {
       toast.success(editingProduct ? 'Product updated' : 'Product added');
       setModalOpen(false);
       await loadProducts();
+      await loadLowStock();
     } else {
       toast.error((res.error as string) || 'Failed to save product');
     }
@@ -191,6 +242,31 @@ export default function ProShopAdmin() {
     setOrdersLoading(false);
   };
 
+  const openReturn = (order: any) => {
+    setReturnOrder(order);
+    setReturnQty({});
+    setReturnRestock(true);
+  };
+
+  const handleReturn = async () => {
+    if (!returnOrder) return;
+    const items = Object.entries(returnQty)
+      .map(([order_item_id, qty]) => ({ order_item_id, quantity: parseInt(qty) || 0 }))
+      .filter(i => i.quantity > 0);
+    if (items.length === 0) { toast.error('Enter a quantity to return'); return; }
+    setReturning(true);
+    const res = await proShopApi.adminReturnItems(facilityId!, returnOrder.id, { items, restock: returnRestock });
+    if (res.success) {
+      const data = (res.data as any)?.data ?? {};
+      toast.success(`${data.returnedUnits} item(s) returned · ${formatPrice(data.returnedCents ?? 0)} to settle with the customer`);
+      setReturnOrder(null);
+      await Promise.all([loadOrders(), reloadInventory()]);
+    } else {
+      toast.error((res.error as string) || 'Return failed');
+    }
+    setReturning(false);
+  };
+
   // ── Assign ────────────────────────────────────────────────
 
   const loadMembers = async () => {
@@ -201,17 +277,19 @@ export default function ProShopAdmin() {
     setMembersLoading(false);
   };
 
-  const toggleAssignItem = (productId: string) => {
+  const options = sellableOptions(products);
+
+  const toggleAssignItem = (option: SellableOption) => {
     setAssignItems(prev => {
-      const existing = prev.find(i => i.product_id === productId);
-      if (existing) return prev.filter(i => i.product_id !== productId);
-      return [...prev, { product_id: productId, quantity: 1 }];
+      const existing = prev.find(i => itemKey(i) === option.key);
+      if (existing) return prev.filter(i => itemKey(i) !== option.key);
+      return [...prev, { product_id: option.product_id, variant_id: option.variant_id, quantity: 1 }];
     });
   };
 
-  const setAssignQty = (productId: string, qty: number) => {
+  const setAssignQty = (key: string, qty: number) => {
     if (qty < 1) return;
-    setAssignItems(prev => prev.map(i => i.product_id === productId ? { ...i, quantity: qty } : i));
+    setAssignItems(prev => prev.map(i => itemKey(i) === key ? { ...i, quantity: qty } : i));
   };
 
   const assignTotal = assignItems.reduce((sum, item) => {
@@ -219,6 +297,8 @@ export default function ProShopAdmin() {
     return sum + (product?.price_cents ?? 0) * item.quantity;
   }, 0);
 
+  const editingHasVariants = (editingProduct?.variants ?? []).length > 0;
+
   const handleAssign = async () => {
     if (assignTarget === 'guest') {
       if (!guestName.trim()) { toast.error('Guest name is required'); return; }
@@ -249,6 +329,7 @@ export default function ProShopAdmin() {
           toast.success(`${formatPrice(assignTotal)} cash sale recorded for ${guestName.trim()}`);
           setGuestName(''); setGuestEmail(''); setAssignItems([]);
         }
+        reloadInventory();
       } else {
         toast.error((res.error as string) || 'Guest sale failed');
       }
@@ -277,6 +358,7 @@ export default function ProShopAdmin() {
       setAssignMemberId('');
       setAssignItems([]);
       if (assignMode === 'tab') loadTabs();
+      reloadInventory();
     } else {
       toast.error((res.error as string) || 'Assignment failed');
     }
@@ -329,13 +411,27 @@ export default function ProShopAdmin() {
     const res = await proShopApi.adminGetSettings(facilityId!);
     if (res.success) {
       const s = (res.data as any)?.data ?? {};
-      setSettingsForm({ tab_billing_day: s.tab_billing_day ?? 1, require_card: s.require_card ?? false });
+      setSettingsForm({
+        tab_billing_day: s.tab_billing_day ?? 1,
+        require_card: s.require_card ?? false,
+        stringing_labor: ((s.stringing_labor_cents ?? 0) / 100).toFixed(2),
+      });
     }
   };
 
   const handleSaveSettings = async () => {
     setSettingsSaving(true);
-    const res = await proShopApi.adminUpdateSettings(facilityId!, settingsForm);
+    const laborCents = Math.round(parseFloat(settingsForm.stringing_labor || '0') * 100);
+    if (!Number.isFinite(laborCents) || laborCents < 0) {
+      toast.error('Enter a valid stringing labor fee');
+      setSettingsSaving(false);
+      return;
+    }
+    const res = await proShopApi.adminUpdateSettings(facilityId!, {
+      tab_billing_day: settingsForm.tab_billing_day,
+      require_card: settingsForm.require_card,
+      stringing_labor_cents: laborCents,
+    });
     if (res.success) toast.success('Settings saved');
     else toast.error((res.error as string) || 'Failed to save settings');
     setSettingsSaving(false);
@@ -358,12 +454,26 @@ export default function ProShopAdmin() {
         <h1 className="text-2xl font-semibold text-gray-900">Pro Shop</h1>
       </div>
 
-      <Tabs defaultValue="products" className="space-y-4">
+      {lowStock.length > 0 && (
+        <div className="flex items-center gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          {lowStock.length} item{lowStock.length !== 1 ? 's are' : ' is'} running low — see the Inventory tab to restock.
+        </div>
+      )}
+
+      <Tabs defaultValue={searchParams.get('tab') || 'products'} className="space-y-4">
         <TabsList>
           <TabsTrigger value="products">Products</TabsTrigger>
+          <TabsTrigger value="inventory">
+            Inventory
+            {lowStock.length > 0 && (
+              <span className="ml-1.5 text-xs px-1.5 rounded-full bg-amber-100 text-amber-700">{lowStock.length}</span>
+            )}
+          </TabsTrigger>
           <TabsTrigger value="orders" onClick={() => { if (orders.length === 0) loadOrders(); }}>Orders</TabsTrigger>
           <TabsTrigger value="assign" onClick={() => { if (members.length === 0) loadMembers(); }}>Assign</TabsTrigger>
           <TabsTrigger value="tabs" onClick={() => { if (tabs.length === 0) loadTabs(); }}>Tabs</TabsTrigger>
+          <TabsTrigger value="stringing">Stringing</TabsTrigger>
           <TabsTrigger value="settings" onClick={loadSettings}>Settings</TabsTrigger>
         </TabsList>
 
@@ -403,8 +513,14 @@ export default function ProShopAdmin() {
                         <div className="flex items-center gap-3 mt-0.5">
                           <span className="text-sm font-semibold text-gray-700">{formatPrice(p.price_cents)}</span>
                           <span className="text-xs text-gray-400">
-                            {p.stock_quantity != null ? `${p.stock_quantity} in stock` : 'Unlimited'}
+                            {totalStock(p) != null ? `${totalStock(p)} in stock` : 'Unlimited'}
+                            {(p.variants ?? []).length > 0 && ` · ${p.variants.length} variant${p.variants.length !== 1 ? 's' : ''}`}
                           </span>
+                          {lowStock.some(l => l.product_id === p.id) && (
+                            <span className="text-xs text-amber-600 flex items-center gap-1">
+                              <AlertTriangle className="h-3 w-3" /> Low stock
+                            </span>
+                          )}
                         </div>
                       </div>
                       <div className="flex items-center gap-2 flex-shrink-0">
@@ -425,6 +541,11 @@ export default function ProShopAdmin() {
           </Card>
         </TabsContent>
 
+        {/* ── Inventory ── */}
+        <TabsContent value="inventory">
+          <ProShopInventory facilityId={facilityId} products={products} lowStock={lowStock} onChanged={reloadInventory} />
+        </TabsContent>
+
         {/* ── Orders ── */}
         <TabsContent value="orders">
           <Card>
@@ -451,10 +572,19 @@ export default function ProShopAdmin() {
                           <Badge variant={o.status === 'paid' ? 'default' : o.status === 'cancelled' ? 'destructive' : 'secondary'} className="text-xs capitalize">
                             {o.status}
                           </Badge>
+                          {o.status === 'paid' && o.items?.some((i: any) => i.returned_quantity < i.quantity) && (
+                            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => openReturn(o)}>
+                              <Undo2 className="h-3.5 w-3.5 mr-1" /> Return
+                            </Button>
+                          )}
                         </div>
                       </div>
                       <p className="text-xs text-gray-500">
-                        {o.items?.map((i: any) => `${i.name} ×${i.quantity}`).join(', ')}
+                        {o.items?.map((i: any) => {
+                          const label = variantLabel(i);
+                          const returned = i.returned_quantity > 0 ? ` (${i.returned_quantity} returned)` : '';
+                          return `${i.name}${label ? ` (${label})` : ''} ×${i.quantity}${returned}`;
+                        }).join(', ')}
                       </p>
                       <p className="text-xs text-gray-400">{new Date(o.created_at).toLocaleDateString()}</p>
                     </div>
@@ -529,29 +659,30 @@ export default function ProShopAdmin() {
                     {/* Product list */}
                     <div className="space-y-2">
                       <Label>Products</Label>
-                      {products.filter(p => p.is_active).length === 0 ? (
+                      {options.length === 0 ? (
                         <p className="text-sm text-gray-400">No active products.</p>
                       ) : (
                         <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
-                          {products.filter(p => p.is_active).map(p => {
-                            const selected = assignItems.find(i => i.product_id === p.id);
+                          {options.map(opt => {
+                            const selected = assignItems.find(i => itemKey(i) === opt.key);
                             return (
-                              <div key={p.id}
+                              <div key={opt.key}
                                 className={`flex items-center gap-3 p-2.5 border rounded-lg cursor-pointer transition-colors ${selected ? 'border-indigo-400 bg-indigo-50' : 'hover:bg-gray-50'}`}
-                                onClick={() => toggleAssignItem(p.id)}
+                                onClick={() => toggleAssignItem(opt)}
                               >
                                 <input type="checkbox" readOnly checked={!!selected}
                                   className="h-4 w-4 accent-indigo-600 flex-shrink-0" />
                                 <div className="flex-1 min-w-0">
-                                  <span className="text-sm font-medium">{p.name}</span>
-                                  <span className="text-xs text-gray-500 ml-2">{formatPrice(p.price_cents)}</span>
+                                  <span className="text-sm font-medium">{opt.name}</span>
+                                  <span className="text-xs text-gray-500 ml-2">{formatPrice(opt.price_cents)}</span>
+                                  {opt.stock != null && <span className="text-xs text-gray-400 ml-2">{opt.stock} in stock</span>}
                                 </div>
                                 {selected && (
                                   <div className="flex items-center gap-1" onClick={e => e.stopPropagation()}>
-                                    <button onClick={() => setAssignQty(p.id, selected.quantity - 1)}
+                                    <button onClick={() => setAssignQty(opt.key, selected.quantity - 1)}
                                       className="w-6 h-6 rounded border text-gray-600 text-sm flex items-center justify-center hover:bg-gray-100">−</button>
                                     <span className="w-8 text-center text-sm">{selected.quantity}</span>
-                                    <button onClick={() => setAssignQty(p.id, selected.quantity + 1)}
+                                    <button onClick={() => setAssignQty(opt.key, selected.quantity + 1)}
                                       className="w-6 h-6 rounded border text-gray-600 text-sm flex items-center justify-center hover:bg-gray-100">+</button>
                                   </div>
                                 )}
@@ -645,29 +776,30 @@ export default function ProShopAdmin() {
                   {/* Product list */}
                   <div className="space-y-2">
                     <Label>Products</Label>
-                    {products.filter(p => p.is_active).length === 0 ? (
+                    {options.length === 0 ? (
                       <p className="text-sm text-gray-400">No active products.</p>
                     ) : (
                       <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
-                        {products.filter(p => p.is_active).map(p => {
-                          const selected = assignItems.find(i => i.product_id === p.id);
+                        {options.map(opt => {
+                          const selected = assignItems.find(i => itemKey(i) === opt.key);
                           return (
-                            <div key={p.id}
+                            <div key={opt.key}
                               className={`flex items-center gap-3 p-2.5 border rounded-lg cursor-pointer transition-colors ${selected ? 'border-indigo-400 bg-indigo-50' : 'hover:bg-gray-50'}`}
-                              onClick={() => toggleAssignItem(p.id)}
+                              onClick={() => toggleAssignItem(opt)}
                             >
                               <input type="checkbox" readOnly checked={!!selected}
                                 className="h-4 w-4 accent-indigo-600 flex-shrink-0" />
                               <div className="flex-1 min-w-0">
-                                <span className="text-sm font-medium">{p.name}</span>
-                                <span className="text-xs text-gray-500 ml-2">{formatPrice(p.price_cents)}</span>
+                                <span className="text-sm font-medium">{opt.name}</span>
+                                <span className="text-xs text-gray-500 ml-2">{formatPrice(opt.price_cents)}</span>
+                                {opt.stock != null && <span className="text-xs text-gray-400 ml-2">{opt.stock} in stock</span>}
                               </div>
                               {selected && (
                                 <div className="flex items-center gap-1" onClick={e => e.stopPropagation()}>
-                                  <button onClick={() => setAssignQty(p.id, selected.quantity - 1)}
+                                  <button onClick={() => setAssignQty(opt.key, selected.quantity - 1)}
                                     className="w-6 h-6 rounded border text-gray-600 text-sm flex items-center justify-center hover:bg-gray-100">−</button>
                                   <span className="w-8 text-center text-sm">{selected.quantity}</span>
-                                  <button onClick={() => setAssignQty(p.id, selected.quantity + 1)}
+                                  <button onClick={() => setAssignQty(opt.key, selected.quantity + 1)}
                                     className="w-6 h-6 rounded border text-gray-600 text-sm flex items-center justify-center hover:bg-gray-100">+</button>
                                 </div>
                               )}
@@ -823,6 +955,11 @@ export default function ProShopAdmin() {
           </Card>
         </TabsContent>
 
+        {/* ── Stringing ── */}
+        <TabsContent value="stringing">
+          <StringingJobsAdmin facilityId={facilityId} />
+        </TabsContent>
+
         {/* ── Settings ── */}
         <TabsContent value="settings">
           <Card>
@@ -855,6 +992,20 @@ export default function ProShopAdmin() {
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label>Stringing Labor Fee ($)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={settingsForm.stringing_labor}
+                  onChange={e => setSettingsForm(p => ({ ...p, stringing_labor: e.target.value }))}
+                />
+                <p className="text-xs text-gray-500">
+                  Added to the string price when a stringing job is marked ready and posted to the member's tab.
+                </p>
+              </div>
+
               <Button onClick={handleSaveSettings} disabled={settingsSaving}>
                 {settingsSaving ? 'Saving…' : 'Save Settings'}
               </Button>
@@ -907,9 +1058,16 @@ export default function ProShopAdmin() {
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label>Stock Quantity</Label>
-                <Input type="number" min="0" value={form.stock}
+                <Input type="number" min="0" value={editingHasVariants ? '' : form.stock}
+                  disabled={editingHasVariants}
                   onChange={e => setForm(p => ({ ...p, stock: e.target.value }))}
-                  placeholder="Leave blank for unlimited" />
+                  placeholder={editingHasVariants ? 'Tracked per variant' : 'Leave blank for unlimited'} />
+              </div>
+              <div className="space-y-2">
+                <Label>Low Stock Alert At</Label>
+                <Input type="number" min="0" value={form.threshold}
+                  onChange={e => setForm(p => ({ ...p, threshold: e.target.value }))}
+                  placeholder="No alert" />
               </div>
               <div className="space-y-2">
                 <Label>Visible in Shop</Label>
@@ -942,6 +1100,48 @@ export default function ProShopAdmin() {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* ── Return modal ── */}
+      <Dialog open={!!returnOrder} onOpenChange={(open: boolean) => { if (!open) setReturnOrder(null); }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Return Items — {returnOrder?.member_name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 pt-2">
+            {(returnOrder?.items ?? []).filter((i: any) => i.returned_quantity < i.quantity).map((i: any) => {
+              const label = variantLabel(i);
+              const remaining = i.quantity - i.returned_quantity;
+              return (
+                <div key={i.id} className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium">{i.name}{label ? ` (${label})` : ''}</p>
+                    <p className="text-xs text-gray-500">{remaining} returnable · {formatPrice(i.price_cents)} each</p>
+                  </div>
+                  <Input type="number" min="0" max={remaining} className="w-20"
+                    value={returnQty[i.id] ?? ''} placeholder="0"
+                    onChange={e => setReturnQty(q => ({ ...q, [i.id]: e.target.value }))} />
+                </div>
+              );
+            })}
+            <div className="flex items-center justify-between pt-2 border-t">
+              <div>
+                <Label>Put back in stock</Label>
+                <p className="text-xs text-gray-500 mt-0.5">Turn off for damaged items that can't be resold.</p>
+              </div>
+              <Switch checked={returnRestock} onCheckedChange={setReturnRestock} />
+            </div>
+            <p className="text-xs text-gray-500">
+              Returns don't move money. Settle the amount with the customer, or refund the whole order from Payments.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setReturnOrder(null)}>Cancel</Button>
+              <Button onClick={handleReturn} disabled={returning}>
+                {returning ? 'Saving…' : 'Record Return'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
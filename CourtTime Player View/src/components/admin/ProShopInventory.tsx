@@ -0,0 +1,439 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { Switch } from '../ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
+import { AlertTriangle, PackagePlus, ClipboardList, Plus, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import { proShopApi } from '../../api/client';
+import { toast } from 'sonner';
+
+const MOVEMENT_LABELS: Record<string, string> = {
+  sale: 'Sale',
+  restock: 'Restock',
+  adjustment: 'Count',
+  return: 'Return',
+};
+
+const MOVEMENT_COLORS: Record<string, string> = {
+  sale: 'bg-gray-100 text-gray-700',
+  restock: 'bg-green-100 text-green-700',
+  adjustment: 'bg-blue-100 text-blue-700',
+  return: 'bg-amber-100 text-amber-700',
+};
+
+export function variantLabel(v: { size?: string | null; color?: string | null; grip_size?: string | null }) {
+  return [v.size, v.color, v.grip_size ? `Grip ${v.grip_size}` : null].filter(Boolean).join(' / ');
+}
+
+/** Stock across a product's active variants, or the product's own stock; null when untracked. */
+export function totalStock(product: any): number | null {
+  const variants = (product.variants ?? []).filter((v: any) => v.is_active !== false);
+  if (variants.length === 0) return product.stock_quantity;
+  if (variants.some((v: any) => v.stock_quantity == null)) return null;
+  return variants.reduce((sum: number, v: any) => sum + v.stock_quantity, 0);
+}
+
+const emptyVariant = { size: '', color: '', grip_size: '', sku: '', stock: '', threshold: '' };
+
+type StockTarget = { product: any; variant: any | null; mode: 'restock' | 'count' };
+
+interface ProShopInventoryProps {
+  facilityId: string;
+  products: any[];
+  lowStock: any[];
+  /** Reload products and the low-stock list after a change */
+  onChanged: () => Promise<void> | void;
+}
+
+export default function ProShopInventory({ facilityId, products, lowStock, onChanged }: ProShopInventoryProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [variantForm, setVariantForm] = useState({ ...emptyVariant });
+  const [savingVariant, setSavingVariant] = useState(false);
+
+  const [stockTarget, setStockTarget] = useState<StockTarget | null>(null);
+  const [stockQty, setStockQty] = useState('');
+  const [stockNote, setStockNote] = useState('');
+  const [stockSaving, setStockSaving] = useState(false);
+
+  const [ledger, setLedger] = useState<any[]>([]);
+  const [ledgerLoading, setLedgerLoading] = useState(false);
+  const [ledgerProductId, setLedgerProductId] = useState('all');
+
+  useEffect(() => {
+    loadLedger();
+  }, [facilityId, ledgerProductId]);
+
+  const loadLedger = async () => {
+    setLedgerLoading(true);
+    const res = await proShopApi.adminGetInventoryLedger(facilityId, ledgerProductId === 'all' ? undefined : ledgerProductId);
+    if (res.success) setLedger((res.data as any)?.data ?? []);
+    else toast.error((res.error as string) || 'Failed to load inventory history');
+    setLedgerLoading(false);
+  };
+
+  const refresh = async () => {
+    await Promise.all([onChanged(), loadLedger()]);
+  };
+
+  // ── Variants ──────────────────────────────────────────────
+
+  const toggleExpanded = (productId: string) => {
+    setExpandedId(prev => (prev === productId ? null : productId));
+    setVariantForm({ ...emptyVariant });
+  };
+
+  const handleAddVariant = async (product: any) => {
+    if (!variantForm.size.trim() && !variantForm.color.trim() && !variantForm.grip_size.trim()) {
+      toast.error('Enter a size, color, or grip size'); return;
+    }
+    setSavingVariant(true);
+    const res = await proShopApi.adminCreateVariant(product.id, {
+      size: variantForm.size.trim() || null,
+      color: variantForm.color.trim() || null,
+      grip_size: variantForm.grip_size.trim() || null,
+      sku: variantForm.sku.trim() || null,
+      stock_quantity: variantForm.stock !== '' ? parseInt(variantForm.stock) : null,
+      low_stock_threshold: variantForm.threshold !== '' ? parseInt(variantForm.threshold) : null,
+    });
+    if (res.success) {
+      toast.success('Variant added');
+      setVariantForm({ ...emptyVariant });
+      await refresh();
+    } else {
+      toast.error((res.error as string) || 'Failed to add variant');
+    }
+    setSavingVariant(false);
+  };
+
+  const handleToggleVariant = async (variant: any) => {
+    const res = await proShopApi.adminUpdateVariant(variant.id, { is_active: !variant.is_active });
+    if (res.success) await onChanged();
+    else toast.error((res.error as string) || 'Failed to update variant');
+  };
+
+  const handleVariantThreshold = async (variant: any, value: string) => {
+    const threshold = value !== '' ? parseInt(value) : null;
+    if (threshold === variant.low_stock_threshold) return;
+    const res = await proShopApi.adminUpdateVariant(variant.id, { low_stock_threshold: threshold });
+    if (res.success) await onChanged();
+    else toast.error((res.error as string) || 'Failed to update threshold');
+  };
+
+  const handleDeleteVariant = async (product: any, variant: any) => {
+    if (!confirm(`Remove ${variantLabel(variant)} from "${product.name}"?`)) return;
+    const res = await proShopApi.adminDeleteVariant(variant.id);
+    if (res.success) {
+      toast.success((res.data as any)?.data?.reason === 'deactivated' ? 'Variant deactivated (has sales history)' : 'Variant removed');
+      await onChanged();
+    } else {
+      toast.error((res.error as string) || 'Failed to remove variant');
+    }
+  };
+
+  // ── Restock / count ───────────────────────────────────────
+
+  const openStock = (product: any, variant: any | null, mode: 'restock' | 'count') => {
+    setStockTarget({ product, variant, mode });
+    const current = variant ? variant.stock_quantity : product.stock_quantity;
+    setStockQty(mode === 'count' && current != null ? String(current) : '');
+    setStockNote('');
+  };
+
+  const handleSaveStock = async () => {
+    if (!stockTarget) return;
+    const { product, variant, mode } = stockTarget;
+    const qty = stockQty === '' ? null : parseInt(stockQty);
+    if (mode === 'restock' && (!qty || qty < 1)) { toast.error('Enter how many units arrived'); return; }
+    if (qty !== null && (isNaN(qty) || qty < 0)) { toast.error('Enter a whole number'); return; }
+
+    setStockSaving(true);
+    const ref = { product_id: product.id, variant_id: variant?.id ?? null, note: stockNote.trim() || undefined };
+    const res = mode === 'restock'
+      ? await proShopApi.adminRestock(facilityId, { ...ref, quantity: qty! })
+      : await proShopApi.adminAdjustStock(facilityId, { ...ref, count: qty });
+    if (res.success) {
+      toast.success(mode === 'restock' ? `Added ${qty} to stock` : 'Stock count saved');
+      setStockTarget(null);
+      await refresh();
+    } else {
+      toast.error((res.error as string) || 'Failed to update stock');
+    }
+    setStockSaving(false);
+  };
+
+  const stockCell = (product: any, variant: any | null) => {
+    const stock = variant ? variant.stock_quantity : product.stock_quantity;
+    const isLow = lowStock.some(l => l.product_id === product.id && (l.variant_id ?? null) === (variant?.id ?? null));
+    return (
+      <div className="flex items-center gap-2">
+        <span className={`text-sm ${isLow ? 'font-semibold text-amber-600' : 'text-gray-700'}`}>
+          {stock != null ? `${stock} in stock` : 'Unlimited'}
+        </span>
+        {isLow && <AlertTriangle className="h-3.5 w-3.5 text-amber-500" />}
+        {stock != null && (
+          <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => openStock(product, variant, 'restock')}>
+            <PackagePlus className="h-3.5 w-3.5 mr-1" /> Restock
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => openStock(product, variant, 'count')}>
+          <ClipboardList className="h-3.5 w-3.5 mr-1" /> Count
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* ── Low stock ── */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 text-amber-500" />
+            Low Stock
+          </CardTitle>
+          <p className="text-sm text-gray-500 mt-1">
+            Items at or below their alert level. Facility admins are notified when an item first drops this low.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {lowStock.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-4">Nothing is running low.</p>
+          ) : (
+            <div className="space-y-2">
+              {lowStock.map(item => {
+                const product = products.find(p => p.id === item.product_id);
+                const variant = product?.variants?.find((v: any) => v.id === item.variant_id) ?? null;
+                return (
+                  <div key={`${item.product_id}:${item.variant_id ?? ''}`}
+                    className="flex items-center justify-between p-2.5 border border-amber-200 bg-amber-50 rounded-lg">
+                    <div>
+                      <p className="text-sm font-medium">{item.name}</p>
+                      <p className="text-xs text-amber-700">
+                        {item.stock_quantity} left · alert at {item.threshold}
+                      </p>
+                    </div>
+                    {product && (
+                      <Button size="sm" variant="outline" onClick={() => openStock(product, variant, 'restock')}>
+                        <PackagePlus className="h-4 w-4 mr-1" /> Restock
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* ── Stock by product / variant ── */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Stock & Variants</CardTitle>
+          <p className="text-sm text-gray-500 mt-1">
+            Add sizes, colors or grip sizes to sell a product in variants, each with its own stock.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {products.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-8">No products yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {products.map(p => {
+                const variants = p.variants ?? [];
+                const expanded = expandedId === p.id;
+                return (
+                  <div key={p.id} className="border rounded-lg">
+                    <div className="flex items-center gap-3 p-3">
+                      <button onClick={() => toggleExpanded(p.id)} className="text-gray-500 hover:text-gray-700">
+                        {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </button>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium">{p.name}</span>
+                          {!p.is_active && <Badge variant="secondary" className="text-xs">Hidden</Badge>}
+                          {variants.length > 0 && (
+                            <span className="text-xs text-gray-400">{variants.length} variant{variants.length !== 1 ? 's' : ''}</span>
+                          )}
+                        </div>
+                      </div>
+                      {variants.length === 0 ? stockCell(p, null) : (
+                        <span className="text-sm text-gray-700">
+                          {totalStock(p) != null ? `${totalStock(p)} in stock` : 'Unlimited'}
+                        </span>
+                      )}
+                    </div>
+
+                    {expanded && (
+                      <div className="border-t bg-gray-50 p-3 space-y-3">
+                        {variants.length > 0 && (
+                          <div className="space-y-2">
+                            {variants.map((v: any) => (
+                              <div key={v.id} className="flex items-center gap-3 p-2 bg-white border rounded">
+                                <div className="flex-1 min-w-0">
+                                  <span className={`text-sm font-medium ${v.is_active ? '' : 'text-gray-400 line-through'}`}>
+                                    {variantLabel(v)}
+                                  </span>
+                                  {v.sku && <span className="text-xs text-gray-400 ml-2">SKU {v.sku}</span>}
+                                </div>
+                                {stockCell(p, v)}
+                                <div className="flex items-center gap-1">
+                                  <Label className="text-xs text-gray-500">Alert at</Label>
+                                  <Input
+                                    type="number" min="0" className="h-7 w-16 text-xs"
+                                    defaultValue={v.low_stock_threshold ?? ''}
+                                    placeholder={p.low_stock_threshold != null ? String(p.low_stock_threshold) : '—'}
+                                    onBlur={e => handleVariantThreshold(v, e.target.value)}
+                                  />
+                                </div>
+                                <Switch checked={v.is_active} onCheckedChange={() => handleToggleVariant(v)} />
+                                <Button variant="ghost" size="sm" className="text-red-500 hover:text-red-700"
+                                  onClick={() => handleDeleteVariant(p, v)}>
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+                          <div className="space-y-1">
+                            <Label className="text-xs">Size</Label>
+                            <Input className="h-8" value={variantForm.size} placeholder="e.g. M"
+                              onChange={e => setVariantForm(f => ({ ...f, size: e.target.value }))} />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Color</Label>
+                            <Input className="h-8" value={variantForm.color} placeholder="e.g. Navy"
+                              onChange={e => setVariantForm(f => ({ ...f, color: e.target.value }))} />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Grip Size</Label>
+                            <Input className="h-8" value={variantForm.grip_size} placeholder="e.g. 4 1/4"
+                              onChange={e => setVariantForm(f => ({ ...f, grip_size: e.target.value }))} />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">SKU</Label>
+                            <Input className="h-8" value={variantForm.sku}
+                              onChange={e => setVariantForm(f => ({ ...f, sku: e.target.value }))} />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Stock</Label>
+                            <Input className="h-8" type="number" min="0" value={variantForm.stock} placeholder="Unlimited"
+                              onChange={e => setVariantForm(f => ({ ...f, stock: e.target.value }))} />
+                          </div>
+                          <Button size="sm" onClick={() => handleAddVariant(p)} disabled={savingVariant}>
+                            <Plus className="h-4 w-4 mr-1" /> Add Variant
+                          </Button>
+                        </div>
+                        {variants.length === 0 && p.stock_quantity != null && (
+                          <p className="text-xs text-gray-500">
+                            Once a product has variants, stock is tracked per variant and members pick one at checkout.
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* ── Ledger ── */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-base">Inventory History</CardTitle>
+          <Select value={ledgerProductId} onValueChange={setLedgerProductId}>
+            <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All products</SelectItem>
+              {products.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {ledgerLoading ? (
+            <div className="flex justify-center py-10">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600" />
+            </div>
+          ) : ledger.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-8">No stock movements yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 border-b">
+                    <th className="py-2 pr-3 font-medium">When</th>
+                    <th className="py-2 pr-3 font-medium">Item</th>
+                    <th className="py-2 pr-3 font-medium">Type</th>
+                    <th className="py-2 pr-3 font-medium text-right">Change</th>
+                    <th className="py-2 pr-3 font-medium text-right">Stock After</th>
+                    <th className="py-2 pr-3 font-medium">By</th>
+                    <th className="py-2 font-medium">Note</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ledger.map(m => (
+                    <tr key={m.id} className="border-b last:border-0">
+                      <td className="py-2 pr-3 text-xs text-gray-500 whitespace-nowrap">{new Date(m.created_at).toLocaleString()}</td>
+                      <td className="py-2 pr-3">
+                        {m.product_name}
+                        {m.variant_label && <span className="text-xs text-gray-500 ml-1">({m.variant_label})</span>}
+                      </td>
+                      <td className="py-2 pr-3">
+                        <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${MOVEMENT_COLORS[m.movement_type] || MOVEMENT_COLORS.sale}`}>
+                          {MOVEMENT_LABELS[m.movement_type] ?? m.movement_type}
+                        </span>
+                      </td>
+                      <td className={`py-2 pr-3 text-right font-medium ${m.quantity_change < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {m.quantity_change > 0 ? `+${m.quantity_change}` : m.quantity_change}
+                      </td>
+                      <td className="py-2 pr-3 text-right">{m.stock_after ?? '—'}</td>
+                      <td className="py-2 pr-3 text-xs text-gray-500">{m.created_by_name ?? '—'}</td>
+                      <td className="py-2 text-xs text-gray-500">{m.note ?? ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* ── Restock / count dialog ── */}
+      <Dialog open={!!stockTarget} onOpenChange={(open: boolean) => { if (!open) setStockTarget(null); }}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>
+              {stockTarget?.mode === 'restock' ? 'Restock' : 'Stock Count'}: {stockTarget?.product.name}
+              {stockTarget?.variant ? ` (${variantLabel(stockTarget.variant)})` : ''}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <Label>{stockTarget?.mode === 'restock' ? 'Units received' : 'Counted on hand'}</Label>
+              <Input type="number" min="0" value={stockQty} onChange={e => setStockQty(e.target.value)}
+                placeholder={stockTarget?.mode === 'count' ? 'Leave blank to stop tracking' : ''} />
+            </div>
+            <div className="space-y-2">
+              <Label>Note</Label>
+              <Input value={stockNote} onChange={e => setStockNote(e.target.value)}
+                placeholder={stockTarget?.mode === 'restock' ? 'e.g. Supplier invoice #' : 'e.g. Monthly count'} />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setStockTarget(null)}>Cancel</Button>
+              <Button onClick={handleSaveStock} disabled={stockSaving}>
+                {stockSaving ? 'Saving…' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
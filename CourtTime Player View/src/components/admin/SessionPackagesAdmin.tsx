@@ -0,0 +1,540 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Pencil, Plus, Ticket } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { Switch } from '../ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import {
+  sessionPackagesApi,
+  type MemberSessionPackage,
+  type SessionPackageKind,
+  type SessionPackageProduct,
+} from '../../api/client';
+import { formatPackageUnits } from '../../../shared/utils/sessionPackages';
+import { parseDollarsToCents } from '../../../shared/utils/money';
+import { toast } from 'sonner';
+
+function dollars(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/** Court time is entered in hours and stored in minutes. */
+function toUnits(kind: SessionPackageKind, value: number): number {
+  return kind === 'court_time' ? Math.round(value * 60) : Math.round(value);
+}
+
+function unitLabel(kind: SessionPackageKind): string {
+  return kind === 'court_time' ? 'Hours' : 'Sessions';
+}
+
+interface ProductForm {
+  id: string | null;
+  name: string;
+  description: string;
+  kind: SessionPackageKind;
+  amount: string;
+  price: string;
+  validDays: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: ProductForm = {
+  id: null,
+  name: '',
+  description: '',
+  kind: 'clinic',
+  amount: '10',
+  price: '',
+  validDays: '',
+  isActive: true,
+};
+
+interface SessionPackagesAdminProps {
+  clubId: string;
+  members: Array<{ userId: string; fullName: string; email: string | null }>;
+  walletEnabled: boolean;
+}
+
+/**
+ * Admin setup for prepaid session packages: the products members can buy, plus
+ * every member's packages with grant, adjust and refund-remaining actions.
+ */
+export function SessionPackagesAdmin({ clubId, members, walletEnabled }: SessionPackagesAdminProps) {
+  const [products, setProducts] = useState<SessionPackageProduct[]>([]);
+  const [packages, setPackages] = useState<MemberSessionPackage[]>([]);
+  const [form, setForm] = useState<ProductForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [grantMemberId, setGrantMemberId] = useState('');
+  const [grantProductId, setGrantProductId] = useState('');
+  const [grantReason, setGrantReason] = useState('');
+  const [adjustTarget, setAdjustTarget] = useState<MemberSessionPackage | null>(null);
+  const [adjustAmount, setAdjustAmount] = useState('');
+  const [adjustReason, setAdjustReason] = useState('');
+  const [refundTarget, setRefundTarget] = useState<MemberSessionPackage | null>(null);
+  const [refundToWallet, setRefundToWallet] = useState(false);
+
+  const load = useCallback(async () => {
+    const res = await sessionPackagesApi.getAdmin(clubId);
+    if (res.success && res.data) {
+      setProducts(res.data.products);
+      setPackages(res.data.packages);
+    }
+  }, [clubId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const sortedMembers = useMemo(
+    () => [...members].sort((a, b) => a.fullName.localeCompare(b.fullName)),
+    [members]
+  );
+
+  const openEdit = (product: SessionPackageProduct) => {
+    setForm({
+      id: product.id,
+      name: product.name,
+      description: product.description ?? '',
+      kind: product.kind,
+      amount: String(product.kind === 'court_time' ? product.units / 60 : product.units),
+      price: (product.priceCents / 100).toFixed(2),
+      validDays: product.validDays ? String(product.validDays) : '',
+      isActive: product.isActive,
+    });
+  };
+
+  const handleSaveProduct = async () => {
+    if (!form) return;
+    const data = {
+      name: form.name,
+      description: form.description || null,
+      kind: form.kind,
+      units: toUnits(form.kind, Number(form.amount)),
+      priceCents: parseDollarsToCents(form.price),
+      validDays: form.validDays ? Number(form.validDays) : null,
+      isActive: form.isActive,
+    };
+    setSaving(true);
+    const res = form.id
+      ? await sessionPackagesApi.updateProduct(clubId, form.id, data)
+      : await sessionPackagesApi.createProduct(clubId, data);
+    setSaving(false);
+    if (!res.success) {
+      toast.error(res.error || 'Could not save package');
+      return;
+    }
+    toast.success(form.id ? 'Package updated' : 'Package created');
+    setForm(null);
+    await load();
+  };
+
+  const handleGrant = async () => {
+    if (!grantMemberId || !grantProductId) {
+      toast.error('Choose a member and a package');
+      return;
+    }
+    setSaving(true);
+    const res = await sessionPackagesApi.grant(clubId, {
+      userId: grantMemberId,
+      productId: grantProductId,
+      reason: grantReason || undefined,
+    });
+    setSaving(false);
+    if (!res.success) {
+      toast.error(res.error || 'Could not grant package');
+      return;
+    }
+    toast.success(`Granted ${res.data?.name ?? 'package'}`);
+    setGrantReason('');
+    await load();
+  };
+
+  const handleAdjust = async () => {
+    if (!adjustTarget) return;
+    const units = toUnits(adjustTarget.kind, Number(adjustAmount));
+    if (!Number.isFinite(units) || units === 0) {
+      toast.error('Enter a positive or negative amount');
+      return;
+    }
+    setSaving(true);
+    const res = await sessionPackagesApi.adjust(clubId, adjustTarget.id, { units, reason: adjustReason });
+    setSaving(false);
+    if (!res.success) {
+      toast.error(res.error || 'Could not adjust package');
+      return;
+    }
+    toast.success(`${formatPackageUnits(adjustTarget.kind, res.data?.unitsRemaining ?? 0)} now left`);
+    setAdjustTarget(null);
+    await load();
+  };
+
+  const handleRefund = async () => {
+    if (!refundTarget) return;
+    setSaving(true);
+    const res = await sessionPackagesApi.refund(clubId, refundTarget.id, { toWallet: refundToWallet });
+    setSaving(false);
+    if (!res.success) {
+      toast.error(res.error || 'Could not refund package');
+      return;
+    }
+    const refunded = res.data?.refundedCents ?? 0;
+    toast.success(
+      refunded > 0
+        ? `Refunded ${dollars(refunded)}${refundToWallet ? ' as account credit' : ''}`
+        : 'Package cancelled'
+    );
+    setRefundTarget(null);
+    await load();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Ticket className="h-5 w-5" />
+            Session packages
+          </CardTitle>
+          <CardDescription>
+            Prepaid clinic sessions and court hours. Clinic packages pay for drill and clinic signups;
+            court-time packages pay the court fee of paid bookings.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setForm({ ...EMPTY_FORM })}>
+          <Plus className="h-4 w-4 mr-1" />
+          New package
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {products.length === 0 ? (
+          <div className="text-sm text-gray-500">No packages set up yet.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Package</TableHead>
+                <TableHead>Includes</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead>Valid for</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {products.map(product => (
+                <TableRow key={product.id}>
+                  <TableCell className="font-medium">{product.name}</TableCell>
+                  <TableCell>{formatPackageUnits(product.kind, product.units)}</TableCell>
+                  <TableCell>{dollars(product.priceCents)}</TableCell>
+                  <TableCell>{product.validDays ? `${product.validDays} days` : 'No expiry'}</TableCell>
+                  <TableCell>
+                    <Badge variant={product.isActive ? 'default' : 'secondary'}>
+                      {product.isActive ? 'On sale' : 'Hidden'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => openEdit(product)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {products.length > 0 && (
+          <div className="grid gap-3 md:grid-cols-[1fr_1fr_1fr_auto] md:items-end">
+            <div className="space-y-1.5">
+              <Label>Grant to member</Label>
+              <Select value={grantMemberId} onValueChange={setGrantMemberId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a member" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sortedMembers.map(m => (
+                    <SelectItem key={m.userId} value={m.userId}>
+                      {m.email ? `${m.fullName} · ${m.email}` : m.fullName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>Package</Label>
+              <Select value={grantProductId} onValueChange={setGrantProductId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a package" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="package-grant-reason">Reason</Label>
+              <Input
+                id="package-grant-reason"
+                placeholder="e.g. Raffle prize"
+                value={grantReason}
+                onChange={e => setGrantReason(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleGrant} disabled={saving}>Grant</Button>
+          </div>
+        )}
+
+        {packages.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Member</TableHead>
+                <TableHead>Package</TableHead>
+                <TableHead>Left</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {packages.map(p => (
+                <TableRow key={p.id}>
+                  <TableCell>
+                    <div className="font-medium">{p.fullName}</div>
+                    <div className="text-xs text-gray-500">{p.email}</div>
+                  </TableCell>
+                  <TableCell>
+                    {p.name}
+                    {p.grantedBy && <div className="text-xs text-gray-500">Granted</div>}
+                  </TableCell>
+                  <TableCell>
+                    {formatPackageUnits(p.kind, p.unitsRemaining)} of {formatPackageUnits(p.kind, p.unitsTotal)}
+                  </TableCell>
+                  <TableCell>{p.expiresAt ? new Date(p.expiresAt).toLocaleDateString() : '—'}</TableCell>
+                  <TableCell>
+                    <Badge variant={p.status === 'active' ? 'default' : 'secondary'}>{p.status}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right space-x-1">
+                    {p.status === 'active' && (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setAdjustAmount('');
+                            setAdjustReason('');
+                            setAdjustTarget(p);
+                          }}
+                        >
+                          Adjust
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setRefundToWallet(false);
+                            setRefundTarget(p);
+                          }}
+                        >
+                          {p.priceCentsAtPurchase > 0 ? 'Refund' : 'Cancel'}
+                        </Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={Boolean(form)} onOpenChange={(open: boolean) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Edit package' : 'New package'}</DialogTitle>
+            <DialogDescription>
+              Changes apply to future purchases; packages already bought keep their terms.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="package-name">Name</Label>
+                <Input
+                  id="package-name"
+                  placeholder="e.g. 10 clinics"
+                  value={form.name}
+                  onChange={e => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label>Type</Label>
+                  <Select
+                    value={form.kind}
+                    onValueChange={(v: string) => setForm({ ...form, kind: v as SessionPackageKind })}
+                    disabled={Boolean(form.id)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="clinic">Clinic / drill sessions</SelectItem>
+                      <SelectItem value="court_time">Court hours</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="package-amount">{unitLabel(form.kind)}</Label>
+                  <Input
+                    id="package-amount"
+                    type="number"
+                    min="0"
+                    step={form.kind === 'court_time' ? '0.5' : '1'}
+                    value={form.amount}
+                    onChange={e => setForm({ ...form, amount: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="package-price">Price (USD)</Label>
+                  <Input
+                    id="package-price"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.price}
+                    onChange={e => setForm({ ...form, price: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="package-valid-days">Valid for (days)</Label>
+                  <Input
+                    id="package-valid-days"
+                    type="number"
+                    min="1"
+                    placeholder="No expiry"
+                    value={form.validDays}
+                    onChange={e => setForm({ ...form, validDays: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="package-description">Description</Label>
+                <Input
+                  id="package-description"
+                  value={form.description}
+                  onChange={e => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="package-active">On sale to members</Label>
+                <Switch
+                  id="package-active"
+                  checked={form.isActive}
+                  onCheckedChange={(v: boolean) => setForm({ ...form, isActive: v })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={handleSaveProduct} disabled={saving}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(adjustTarget)} onOpenChange={(open: boolean) => !open && setAdjustTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Adjust package</DialogTitle>
+            <DialogDescription>
+              {adjustTarget &&
+                `${adjustTarget.fullName} has ${formatPackageUnits(adjustTarget.kind, adjustTarget.unitsRemaining)} left on ${adjustTarget.name}. Use a negative number to remove.`}
+            </DialogDescription>
+          </DialogHeader>
+          {adjustTarget && (
+            <div className="grid grid-cols-[8rem_1fr] gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="package-adjust-amount">{unitLabel(adjustTarget.kind)}</Label>
+                <Input
+                  id="package-adjust-amount"
+                  type="number"
+                  step={adjustTarget.kind === 'court_time' ? '0.5' : '1'}
+                  value={adjustAmount}
+                  onChange={e => setAdjustAmount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="package-adjust-reason">Reason</Label>
+                <Input
+                  id="package-adjust-reason"
+                  placeholder="e.g. Clinic rained out"
+                  value={adjustReason}
+                  onChange={e => setAdjustReason(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAdjustTarget(null)}>Cancel</Button>
+            <Button onClick={handleAdjust} disabled={saving}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(refundTarget)} onOpenChange={(open: boolean) => !open && setRefundTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{refundTarget?.priceCentsAtPurchase ? 'Refund unused units' : 'Cancel package'}</DialogTitle>
+            <DialogDescription>
+              {refundTarget?.priceCentsAtPurchase
+                ? 'The package closes and the member gets back its price pro rata to what is left.'
+                : 'This granted package closes and its remaining units are removed.'}
+            </DialogDescription>
+          </DialogHeader>
+          {refundTarget && (
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-gray-500">Member</span>
+                <span className="font-medium">{refundTarget.fullName}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Left</span>
+                <span className="font-medium">
+                  {formatPackageUnits(refundTarget.kind, refundTarget.unitsRemaining)} of{' '}
+                  {formatPackageUnits(refundTarget.kind, refundTarget.unitsTotal)}
+                </span>
+              </div>
+              {refundTarget.priceCentsAtPurchase > 0 && walletEnabled && (
+                <div className="flex items-center justify-between pt-2">
+                  <Label htmlFor="package-refund-to-wallet">Refund as account credit</Label>
+                  <Switch id="package-refund-to-wallet" checked={refundToWallet} onCheckedChange={setRefundToWallet} />
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRefundTarget(null)}>Back</Button>
+            <Button variant="destructive" onClick={handleRefund} disabled={saving}>
+              {refundTarget?.priceCentsAtPurchase ? 'Refund' : 'Cancel package'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
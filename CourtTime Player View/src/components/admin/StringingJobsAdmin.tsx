@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Plus, Wrench } from 'lucide-react';
+import { proShopApi, type StringingJobInput, type StringingStatus } from '../../api/client';
+import { toast } from 'sonner';
+import StringingJobForm from '../StringingJobForm';
+
+const STATUS_LABELS: Record<StringingStatus, string> = {
+  received: 'Received',
+  in_progress: 'In Progress',
+  ready: 'Ready',
+  picked_up: 'Picked Up',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_COLORS: Record<StringingStatus, string> = {
+  received: 'bg-gray-100 text-gray-700',
+  in_progress: 'bg-blue-100 text-blue-700',
+  ready: 'bg-green-100 text-green-700',
+  picked_up: 'bg-gray-100 text-gray-500',
+  cancelled: 'bg-red-50 text-red-600',
+};
+
+/** The next step staff take on a job; mirrors the transitions the server allows. */
+const NEXT_ACTIONS: Record<StringingStatus, { status: StringingStatus; label: string }[]> = {
+  received: [{ status: 'in_progress', label: 'Start' }, { status: 'cancelled', label: 'Cancel' }],
+  in_progress: [{ status: 'ready', label: 'Mark Ready' }, { status: 'cancelled', label: 'Cancel' }],
+  ready: [{ status: 'picked_up', label: 'Picked Up' }],
+  picked_up: [],
+  cancelled: [],
+};
+
+function formatPrice(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+interface StringingJobsAdminProps {
+  facilityId: string;
+}
+
+export default function StringingJobsAdmin({ facilityId }: StringingJobsAdminProps) {
+  const [jobs, setJobs] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<StringingStatus | 'open'>('open');
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const [newOpen, setNewOpen] = useState(false);
+  const [members, setMembers] = useState<any[]>([]);
+  const [memberId, setMemberId] = useState('');
+  const [options, setOptions] = useState<{ strings: any[]; laborCents: number }>({ strings: [], laborCents: 0 });
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    loadJobs();
+  }, [facilityId, filter]);
+
+  const loadJobs = async () => {
+    setLoading(true);
+    const res = await proShopApi.adminGetStringingJobs(facilityId, filter);
+    if (res.success) setJobs((res.data as any)?.data ?? []);
+    else toast.error((res.error as string) || 'Failed to load stringing jobs');
+    setLoading(false);
+  };
+
+  const openNew = async () => {
+    setMemberId('');
+    setNewOpen(true);
+    const [membersRes, optionsRes] = await Promise.all([
+      proShopApi.adminGetMembers(facilityId),
+      proShopApi.getStringOptions(facilityId),
+    ]);
+    if (membersRes.success) setMembers((membersRes.data as any)?.data ?? []);
+    if (optionsRes.success) setOptions((optionsRes.data as any)?.data ?? { strings: [], laborCents: 0 });
+  };
+
+  const handleCreate = async (data: StringingJobInput) => {
+    if (!memberId) {
+      toast.error('Choose the member');
+      return;
+    }
+    setCreating(true);
+    const res = await proShopApi.adminCreateStringingJob(facilityId, memberId, data);
+    if (res.success) {
+      toast.success('Stringing job logged');
+      setNewOpen(false);
+      loadJobs();
+    } else {
+      toast.error((res.error as string) || 'Failed to create job');
+    }
+    setCreating(false);
+  };
+
+  const handleStatus = async (job: any, status: StringingStatus) => {
+    if (status === 'cancelled' && !confirm(`Cancel stringing for ${job.member_name}'s ${job.racquet}?`)) return;
+    setUpdatingId(job.id);
+    const res = await proShopApi.adminUpdateStringingStatus(facilityId, job.id, status);
+    if (res.success) {
+      if (status === 'ready') toast.success(`Charged to ${job.member_name}'s tab and notified them`);
+      loadJobs();
+    } else {
+      toast.error((res.error as string) || 'Failed to update job');
+    }
+    setUpdatingId(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Wrench className="h-4 w-4" /> Stringing Jobs
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Select value={filter} onValueChange={(v: string) => setFilter(v as StringingStatus | 'open')}>
+            <SelectTrigger className="w-40 h-9"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              {(Object.keys(STATUS_LABELS) as StringingStatus[]).map(s => (
+                <SelectItem key={s} value={s}>{STATUS_LABELS[s]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={openNew}><Plus className="h-4 w-4 mr-1" /> New Job</Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-gray-400 py-6 text-center">Loading…</p>
+        ) : jobs.length === 0 ? (
+          <p className="text-sm text-gray-400 py-6 text-center">No stringing jobs.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b">
+                  <th className="py-2 pr-3">Member</th>
+                  <th className="py-2 pr-3">Racquet</th>
+                  <th className="py-2 pr-3">String / Tension</th>
+                  <th className="py-2 pr-3">Due</th>
+                  <th className="py-2 pr-3">Status</th>
+                  <th className="py-2 pr-3 text-right">Charge</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {jobs.map(job => (
+                  <tr key={job.id} className="border-b last:border-0 align-top">
+                    <td className="py-2 pr-3">
+                      <p className="font-medium">{job.member_name}</p>
+                      <p className="text-xs text-gray-500">{job.member_email}</p>
+                    </td>
+                    <td className="py-2 pr-3">
+                      <p>{job.racquet}</p>
+                      {job.notes && <p className="text-xs text-gray-500">{job.notes}</p>}
+                    </td>
+                    <td className="py-2 pr-3">
+                      <p>{job.string_label}</p>
+                      <p className="text-xs text-gray-500">{job.tension_label}</p>
+                    </td>
+                    <td className="py-2 pr-3 whitespace-nowrap">{job.due_date}</td>
+                    <td className="py-2 pr-3">
+                      <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${STATUS_COLORS[job.status as StringingStatus]}`}>
+                        {STATUS_LABELS[job.status as StringingStatus] ?? job.status}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-3 text-right whitespace-nowrap">
+                      {job.charged_cents != null
+                        ? formatPrice(job.charged_cents)
+                        : <span className="text-gray-400">{formatPrice(job.string_price_cents + job.labor_cents)}</span>}
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap space-x-1">
+                      {NEXT_ACTIONS[job.status as StringingStatus]?.map(action => (
+                        <Button
+                          key={action.status}
+                          size="sm"
+                          variant={action.status === 'cancelled' ? 'ghost' : 'outline'}
+                          disabled={updatingId === job.id}
+                          onClick={() => handleStatus(job, action.status)}
+                        >
+                          {action.label}
+                        </Button>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={newOpen} onOpenChange={(open: boolean) => setNewOpen(open)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader><DialogTitle>New Stringing Job</DialogTitle></DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label>Member</Label>
+              <select
+                className="w-full h-9 rounded-md border border-input bg-input-background px-2 text-sm"
+                value={memberId}
+                onChange={e => setMemberId(e.target.value)}
+              >
+                <option value="">Choose a member…</option>
+                {members.map(m => (
+                  <option key={m.id} value={m.id}>{m.full_name} ({m.email})</option>
+                ))}
+              </select>
+            </div>
+            <StringingJobForm
+              strings={options.strings}
+              laborCents={options.laborCents}
+              submitting={creating}
+              submitLabel="Log Job"
+              onSubmit={handleCreate}
+            />
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,571 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Award, CalendarPlus, Plus, Shuffle, Trash2, X } from 'lucide-react';
+import { Card } from '../ui/card';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Checkbox } from '../ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useAppContext } from '../../contexts/AppContext';
+import {
+  facilitiesApi,
+  membersApi,
+  tournamentsApi,
+  type Tournament,
+  type TournamentDetail,
+  type TournamentFormat,
+  type TournamentMatch,
+} from '../../api/client';
+import { ShareBracketButton, TournamentBracket, TournamentScoreDialog } from '../TournamentBracketView';
+import { formatLeagueDate } from '../LeagueSeasonView';
+import { TOURNAMENT_FORMAT_LABELS } from '../../../shared/utils/tournamentDisplay';
+import { toast } from 'sonner';
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+const EMPTY_TOURNAMENT = {
+  name: '',
+  format: 'single_elimination' as TournamentFormat,
+  startDate: '',
+  endDate: '',
+  matchDurationMinutes: '90',
+  courtIds: [] as string[],
+  isPublic: true,
+};
+
+/**
+ * Admin Tournaments page (tournaments feature flag): create a tournament,
+ * enter players, make the draw, then reserve courts for every match whose
+ * players are known. Run "Schedule ready matches" again as results come in
+ * to book the next round.
+ */
+export default function TournamentsAdmin() {
+  const { selectedFacilityId } = useAppContext();
+  const [loading, setLoading] = useState(true);
+  const [unavailable, setUnavailable] = useState(false);
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [courts, setCourts] = useState<Option[]>([]);
+  const [members, setMembers] = useState<Option[]>([]);
+  const [tournamentId, setTournamentId] = useState('');
+  const [detail, setDetail] = useState<TournamentDetail | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [newTournament, setNewTournament] = useState(EMPTY_TOURNAMENT);
+  const [entrantName, setEntrantName] = useState('');
+  const [entrantSeed, setEntrantSeed] = useState('');
+  const [entrantPlayerIds, setEntrantPlayerIds] = useState<string[]>([]);
+  const [scoring, setScoring] = useState<TournamentMatch | null>(null);
+
+  const loadTournaments = useCallback(async () => {
+    if (!selectedFacilityId) return;
+    try {
+      setLoading(true);
+      const res = await tournamentsApi.getTournaments(selectedFacilityId, true);
+      if (!res.success) {
+        setUnavailable(true);
+        return;
+      }
+      setUnavailable(false);
+      setTournaments(res.tournaments);
+      setTournamentId((current) => current || res.tournaments[0]?.id || '');
+    } catch (err) {
+      console.error('Error loading tournaments:', err);
+      toast.error('Failed to load tournaments');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedFacilityId]);
+
+  const loadDetail = useCallback(async () => {
+    if (!selectedFacilityId || !tournamentId) {
+      setDetail(null);
+      return;
+    }
+    const res = await tournamentsApi.getTournament(selectedFacilityId, tournamentId);
+    setDetail(res.success ? res.detail ?? null : null);
+  }, [selectedFacilityId, tournamentId]);
+
+  useEffect(() => {
+    void loadTournaments();
+  }, [loadTournaments]);
+
+  useEffect(() => {
+    void loadDetail();
+  }, [loadDetail]);
+
+  useEffect(() => {
+    if (!selectedFacilityId) return;
+    facilitiesApi
+      .getCourts(selectedFacilityId)
+      .then((res: any) => {
+        const list = res?.data?.courts ?? [];
+        setCourts(
+          (Array.isArray(list) ? list : [])
+            .filter((c: any) => !(c.isWalkUp ?? c.is_walk_up))
+            .map((c: any) => ({ id: c.id, name: c.name }))
+        );
+      })
+      .catch(() => setCourts([]));
+    membersApi
+      .getFacilityMembers(selectedFacilityId)
+      .then((res: any) => {
+        const list = res?.data?.members ?? res?.members ?? [];
+        setMembers(
+          (Array.isArray(list) ? list : []).map((m: any) => ({
+            id: m.userId ?? m.user_id ?? m.id,
+            name: m.fullName ?? m.full_name ?? m.email,
+          }))
+        );
+      })
+      .catch(() => setMembers([]));
+  }, [selectedFacilityId]);
+
+  /** Runs an admin action, toasting its error; returns whether it succeeded. */
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, successMessage?: string) => {
+    setBusy(true);
+    try {
+      const res = await action();
+      if (!res.success) {
+        toast.error(res.error || 'Something went wrong');
+        return false;
+      }
+      if (successMessage) toast.success(successMessage);
+      return true;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const form = newTournament;
+    if (!selectedFacilityId || !form.name.trim() || !form.startDate || !form.endDate) return;
+    let createdId: string | undefined;
+    const ok = await run(async () => {
+      const res = await tournamentsApi.createTournament(selectedFacilityId, {
+        name: form.name,
+        format: form.format,
+        startDate: form.startDate,
+        endDate: form.endDate,
+        matchDurationMinutes: Number(form.matchDurationMinutes),
+        courtIds: form.courtIds,
+        isPublic: form.isPublic,
+      });
+      createdId = res.tournament?.id;
+      return res;
+    }, 'Tournament created — add entries next');
+    if (ok) {
+      setNewTournament(EMPTY_TOURNAMENT);
+      if (createdId) setTournamentId(createdId);
+      await loadTournaments();
+    }
+  };
+
+  const handleAddEntrant = async () => {
+    if (!selectedFacilityId || !tournamentId || (!entrantName.trim() && entrantPlayerIds.length === 0)) return;
+    const ok = await run(
+      () =>
+        tournamentsApi.addEntrant(selectedFacilityId, tournamentId, {
+          name: entrantName.trim() || undefined,
+          seed: entrantSeed ? Number(entrantSeed) : null,
+          playerIds: entrantPlayerIds,
+        }),
+      'Entry added'
+    );
+    if (ok) {
+      setEntrantName('');
+      setEntrantSeed('');
+      setEntrantPlayerIds([]);
+      await Promise.all([loadDetail(), loadTournaments()]);
+    }
+  };
+
+  const handleRemoveEntrant = async (entrantId: string, name: string) => {
+    if (!selectedFacilityId || !confirm(`Remove ${name}?`)) return;
+    if (await run(() => tournamentsApi.removeEntrant(selectedFacilityId, tournamentId, entrantId), 'Entry removed')) {
+      await Promise.all([loadDetail(), loadTournaments()]);
+    }
+  };
+
+  const handleDraw = async () => {
+    if (!selectedFacilityId || !detail) return;
+    if (!confirm('Make the draw? Entries close and the bracket is fixed.')) return;
+    if (await run(() => tournamentsApi.generateDraw(selectedFacilityId, tournamentId), 'Draw made')) {
+      await Promise.all([loadDetail(), loadTournaments()]);
+    }
+  };
+
+  const handleSchedule = async () => {
+    if (!selectedFacilityId) return;
+    let summary = '';
+    const ok = await run(async () => {
+      const res = await tournamentsApi.scheduleReady(selectedFacilityId, tournamentId);
+      if (res.result) {
+        summary =
+          res.result.scheduled === 0 && res.result.unplaced === 0
+            ? 'Every ready match already has a court'
+            : res.result.unplaced
+              ? `${res.result.scheduled} matches booked; ${res.result.unplaced} found no free court before the end date`
+              : `${res.result.scheduled} matches booked`;
+      }
+      return res;
+    });
+    if (ok) {
+      toast.success(summary || 'Courts reserved');
+      await loadDetail();
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedFacilityId || !detail || !confirm(`Delete ${detail.tournament.name}?`)) return;
+    if (await run(() => tournamentsApi.deleteTournament(selectedFacilityId, tournamentId), 'Tournament deleted')) {
+      setTournamentId('');
+      await loadTournaments();
+    }
+  };
+
+  const handleTogglePublic = async (isPublic: boolean) => {
+    if (!selectedFacilityId) return;
+    if (await run(() => tournamentsApi.updateTournament(selectedFacilityId, tournamentId, { isPublic }))) {
+      await loadDetail();
+    }
+  };
+
+  const handleScore = async (data: { score?: string; winnerId?: string }) => {
+    if (!selectedFacilityId || !scoring) return;
+    const ok = await run(
+      () => tournamentsApi.updateScore(selectedFacilityId, scoring.id, data),
+      data.winnerId ? 'Result saved' : 'Live score updated'
+    );
+    if (ok) {
+      setScoring(null);
+      await Promise.all([loadDetail(), loadTournaments()]);
+    }
+  };
+
+  if (!selectedFacilityId || unavailable) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 text-gray-400">
+        <Award className="h-12 w-12 mb-3" />
+        <p className="text-sm">
+          {selectedFacilityId
+            ? 'Tournaments are not enabled for this facility.'
+            : 'Select a facility to manage tournaments.'}
+        </p>
+      </div>
+    );
+  }
+
+  const tournament = detail?.tournament;
+  const enteredIds = new Set(detail?.entrants.flatMap((e) => e.playerIds) ?? []);
+  const needsCourt = detail?.matches.some((m) => m.status === 'ready' && !m.courtId);
+
+  return (
+    <div className="space-y-6 pb-20">
+      <div className="flex items-center gap-3">
+        <Award className="h-6 w-6 text-green-600" />
+        <h1 className="text-2xl font-semibold text-gray-900">Tournaments</h1>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-16">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="p-4 space-y-3 h-fit">
+            <h2 className="font-semibold text-gray-900">Tournaments</h2>
+            {tournaments.length === 0 && <p className="text-sm text-gray-400">No tournaments yet.</p>}
+            <div className="space-y-1">
+              {tournaments.map((t) => (
+                <button
+                  key={t.id}
+                  type="button"
+                  onClick={() => setTournamentId(t.id)}
+                  className={`w-full flex items-center justify-between rounded-md px-3 py-2 text-sm text-left ${
+                    t.id === tournamentId ? 'bg-green-50 text-green-800' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <span>
+                    <span className="font-medium">{t.name}</span>
+                    <span className="block text-xs text-gray-500">
+                      {TOURNAMENT_FORMAT_LABELS[t.format]} · {formatLeagueDate(t.startDate)} · {t.entrantCount} entries
+                    </span>
+                  </span>
+                  <Badge variant="outline" className="capitalize">
+                    {t.status}
+                  </Badge>
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-2 border-t pt-3">
+              <Input
+                placeholder="New tournament name"
+                value={newTournament.name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setNewTournament({ ...newTournament, name: e.target.value })
+                }
+              />
+              <Select
+                value={newTournament.format}
+                onValueChange={(value: string) =>
+                  setNewTournament({ ...newTournament, format: value as TournamentFormat })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TOURNAMENT_FORMAT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">First day</Label>
+                  <Input
+                    type="date"
+                    value={newTournament.startDate}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setNewTournament({ ...newTournament, startDate: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Last day</Label>
+                  <Input
+                    type="date"
+                    value={newTournament.endDate}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setNewTournament({ ...newTournament, endDate: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Minutes per match</Label>
+                  <Input
+                    type="number"
+                    min={30}
+                    max={300}
+                    step={15}
+                    value={newTournament.matchDurationMinutes}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setNewTournament({ ...newTournament, matchDurationMinutes: e.target.value })
+                    }
+                  />
+                </div>
+                <label className="flex items-end gap-2 text-sm pb-2">
+                  <Checkbox
+                    checked={newTournament.isPublic}
+                    onCheckedChange={(checked: boolean) => setNewTournament({ ...newTournament, isPublic: checked })}
+                  />
+                  Public bracket
+                </label>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Courts (none selected = any court)</Label>
+                <div className="grid grid-cols-2 gap-1">
+                  {courts.map((court) => (
+                    <label key={court.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={newTournament.courtIds.includes(court.id)}
+                        onCheckedChange={(checked: boolean) =>
+                          setNewTournament({
+                            ...newTournament,
+                            courtIds: checked
+                              ? [...newTournament.courtIds, court.id]
+                              : newTournament.courtIds.filter((id) => id !== court.id),
+                          })
+                        }
+                      />
+                      {court.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <Button
+                className="w-full gap-2"
+                onClick={() => void handleCreate()}
+                disabled={busy || !newTournament.name.trim() || !newTournament.startDate || !newTournament.endDate}
+              >
+                <Plus className="h-4 w-4" />
+                Create tournament
+              </Button>
+            </div>
+          </Card>
+
+          <div className="lg:col-span-2 space-y-4">
+            {!detail || !tournament ? (
+              <div className="flex flex-col items-center justify-center py-16 text-gray-400">
+                <Award className="h-12 w-12 mb-3" />
+                <p className="text-sm">Pick or create a tournament to manage entries and the draw.</p>
+              </div>
+            ) : (
+              <>
+                <Card className="p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-3 flex-wrap">
+                    <div>
+                      <h2 className="font-semibold text-gray-900">{tournament.name}</h2>
+                      <p className="text-sm text-gray-500">
+                        {TOURNAMENT_FORMAT_LABELS[tournament.format]} · {formatLeagueDate(tournament.startDate)} –{' '}
+                        {formatLeagueDate(tournament.endDate)} · {tournament.matchDurationMinutes} min matches
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-wrap">
+                      {tournament.status === 'draft' && (
+                        <>
+                          <Button className="gap-2" onClick={() => void handleDraw()} disabled={busy}>
+                            <Shuffle className="h-4 w-4" />
+                            Make the draw
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600 hover:text-red-700"
+                            onClick={() => void handleDelete()}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      {tournament.status === 'drawn' && needsCourt && (
+                        <Button className="gap-2" onClick={() => void handleSchedule()} disabled={busy}>
+                          <CalendarPlus className="h-4 w-4" />
+                          Schedule ready matches
+                        </Button>
+                      )}
+                      {tournament.status !== 'draft' && tournament.isPublic && (
+                        <ShareBracketButton tournamentId={tournament.id} name={tournament.name} />
+                      )}
+                    </div>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={tournament.isPublic}
+                      onCheckedChange={(checked: boolean) => void handleTogglePublic(checked)}
+                    />
+                    Anyone with the link can view the bracket
+                  </label>
+                </Card>
+
+                {tournament.status === 'draft' ? (
+                  <Card className="p-4 space-y-3">
+                    <h3 className="font-semibold text-gray-900">Entries ({detail.entrants.length})</h3>
+                    <div className="divide-y divide-gray-100">
+                      {detail.entrants.map((entrant) => (
+                        <div key={entrant.id} className="flex items-center justify-between py-2 text-sm">
+                          <span>
+                            {entrant.seed && <span className="text-gray-500 mr-2">[{entrant.seed}]</span>}
+                            <span className="font-medium">{entrant.name}</span>
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600 hover:text-red-700"
+                            onClick={() => void handleRemoveEntrant(entrant.id, entrant.name)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="space-y-2 border-t pt-3">
+                      <div className="grid grid-cols-3 gap-2">
+                        <Input
+                          className="col-span-2"
+                          placeholder="Entry name (optional for members)"
+                          value={entrantName}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEntrantName(e.target.value)}
+                        />
+                        <Input
+                          type="number"
+                          min={1}
+                          placeholder="Seed"
+                          value={entrantSeed}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEntrantSeed(e.target.value)}
+                        />
+                      </div>
+                      {entrantPlayerIds.length < 2 && (
+                        <Select
+                          value=""
+                          onValueChange={(value: string) =>
+                            setEntrantPlayerIds((ids) => (ids.includes(value) ? ids : [...ids, value]))
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Add a player (two for doubles)" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {members
+                              .filter((m) => !enteredIds.has(m.id) && !entrantPlayerIds.includes(m.id))
+                              .map((m) => (
+                                <SelectItem key={m.id} value={m.id}>
+                                  {m.name}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      {entrantPlayerIds.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {entrantPlayerIds.map((id) => (
+                            <Badge key={id} variant="outline" className="gap-1">
+                              {members.find((m) => m.id === id)?.name ?? id}
+                              <button
+                                type="button"
+                                onClick={() => setEntrantPlayerIds((ids) => ids.filter((x) => x !== id))}
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                      <Button
+                        variant="outline"
+                        className="gap-2"
+                        onClick={() => void handleAddEntrant()}
+                        disabled={busy || (!entrantName.trim() && entrantPlayerIds.length === 0)}
+                      >
+                        <Plus className="h-4 w-4" />
+                        Add entry
+                      </Button>
+                    </div>
+                  </Card>
+                ) : (
+                  <Card className="p-4 space-y-3">
+                    <h3 className="font-semibold text-gray-900">Bracket</h3>
+                    <TournamentBracket
+                      detail={detail}
+                      renderActions={(match) =>
+                        ['ready', 'in_progress', 'completed'].includes(match.status) && (
+                          <Button variant="ghost" size="sm" onClick={() => setScoring(match)}>
+                            Score
+                          </Button>
+                        )
+                      }
+                    />
+                  </Card>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      <TournamentScoreDialog
+        match={scoring}
+        entrants={detail?.entrants ?? []}
+        onClose={() => setScoring(null)}
+        onSubmit={handleScore}
+      />
+    </div>
+  );
+}
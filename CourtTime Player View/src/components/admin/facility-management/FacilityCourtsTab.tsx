@@ -18,6 +18,7 @@ import { RULE_METADATA, CATEGORIES } from '../../facility-registration/rule-defa
 import { getFacilityTypeSelectOptions } from '../../../../shared/constants/facilityTypes';
 import { CourtScheduleEditor } from '../CourtScheduleEditor';
 import { SetFeesForAllPanel } from '../SetFeesForAllPanel';
+import { CourtPricingPanel } from '../CourtPricingPanel';
 import { FacilityCourtFormBody } from './FacilityCourtFormBody';
 import { US_STATES } from './usStates';
 import type { UseFacilityManagementReturn } from './useFacilityManagement';
@@ -275,6 +276,8 @@ export function FacilityCourtsTab(props: Props) {
     </Card>
   )}
 
+  {!courtsLoading && courts.length > 0 && <CourtPricingPanel courts={activeCourts} />}
+
   {/* Blackout Periods */}
   <Card>
     <CardHeader>
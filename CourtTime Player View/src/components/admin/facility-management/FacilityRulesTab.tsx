@@ -22,6 +22,7 @@ import { RULE_METADATA, CATEGORIES } from '../../facility-registration/rule-defa
 import { getFacilityTypeSelectOptions } from '../../../../shared/constants/facilityTypes';
 import { CourtScheduleEditor } from '../CourtScheduleEditor';
 import { FacilityCourtFormBody } from './FacilityCourtFormBody';
+import { RuleSimulationPanel } from './RuleSimulationPanel';
 import { US_STATES } from './usStates';
 import type { UseFacilityManagementReturn } from './useFacilityManagement';
 import {
@@ -52,7 +53,8 @@ export function FacilityRulesTab(props: Props) {
     configuringCourtId, courtSchedule, courtScheduleLoading, courtScheduleSaving,
     courtOperatingHours, courtHoursLoading, facilityCourtEditPanelRef,
     blackouts, blackoutsLoading, editingBlackout, setEditingBlackout,
-    isAddingBlackout, blackoutSaving, handleAddNewCourt, handleEditCourt,
+    isAddingBlackout, blackoutSaving, ruleSimulation, ruleSimulationRunning, runRuleSimulation,
+    handleAddNewCourt, handleEditCourt,
     handleSaveCourt, handleCancelCourtEdit, handleDeleteCourt, handleToggleCourtConfig,
     updateCourtScheduleDay, updateAllScheduleDays, saveCourtSchedule,
     handleAddBlackout, handleSaveBlackout, handleDeleteBlackout,
@@ -179,6 +181,47 @@ export function FacilityRulesTab(props: Props) {
       }
     />
 
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <User className="h-5 w-5" />
+          Guest Limits
+        </CardTitle>
+        <CardDescription>Counted per calendar year; cancelled bookings don't count</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 flex items-start gap-3">
+          <Info className="h-5 w-5 text-green-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-green-800">
+            Limit how often members can bring guests, and how often the same guest can visit. Each guest on a booking is one visit.
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label>Guest Visits Per Member Per Year</Label>
+          <BookingRuleToggleInput
+            checked={facilityData.bookingRules.guestVisitsPerYearEnabled}
+            onCheckedChange={(v: boolean) => handleBookingRulesChange('guestVisitsPerYearEnabled', v)}
+            value={facilityData.bookingRules.guestVisitsPerYear}
+            onChange={(value) => handleBookingRulesChange('guestVisitsPerYear', value)}
+            disabled={!isEditing}
+            min="1"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Visits Per Guest Per Year</Label>
+          <BookingRuleToggleInput
+            checked={facilityData.bookingRules.visitsPerGuestEnabled}
+            onCheckedChange={(v: boolean) => handleBookingRulesChange('visitsPerGuestEnabled', v)}
+            value={facilityData.bookingRules.visitsPerGuest}
+            onChange={(value) => handleBookingRulesChange('visitsPerGuest', value)}
+            disabled={!isEditing}
+            min="1"
+          />
+        </div>
+      </CardContent>
+      {renderSectionSaveFooter('guest limits')}
+    </Card>
+
     <SplitPaymentToggleSection facilityId={currentFacilityId} />
 
     <Card>
@@ -418,6 +461,14 @@ export function FacilityRulesTab(props: Props) {
       {renderSectionSaveFooter('peak hours policy')}
     </Card>
 
+    {isEditing && (
+      <RuleSimulationPanel
+        report={ruleSimulation}
+        running={ruleSimulationRunning}
+        onRun={(weeks) => void runRuleSimulation(weeks)}
+      />
+    )}
+
                 </div>
   {renderTabFooterSaveBar()}
 </TabsContent>
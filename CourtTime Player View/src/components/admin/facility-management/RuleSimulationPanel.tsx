@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../ui/card';
+import { Button } from '../../ui/button';
+import { Badge } from '../../ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../ui/select';
+import { FlaskConical, Info } from 'lucide-react';
+import type { RuleSimulationReport } from '../../../api/client';
+
+interface RuleSimulationPanelProps {
+  report: RuleSimulationReport | null;
+  running: boolean;
+  onRun: (weeks: number) => void;
+}
+
+const WEEK_OPTIONS = [1, 2, 4, 8, 12];
+
+function formatDate(dateStr: string) {
+  return new Date(`${dateStr}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function formatTime(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${minutes.toString().padStart(2, '0')} ${period}`;
+}
+
+function Stat({ label, value, tone }: { label: string; value: number; tone?: string }) {
+  return (
+    <div className="rounded-lg border border-gray-200 p-3">
+      <p className={`text-2xl font-semibold ${tone ?? 'text-gray-900'}`}>{value}</p>
+      <p className="text-xs text-gray-500">{label}</p>
+    </div>
+  );
+}
+
+/**
+ * "Preview impact" on the Rules tab: replays recent real bookings against the
+ * unsaved rule edits and shows who would have been blocked or warned.
+ */
+export function RuleSimulationPanel({ report, running, onRun }: RuleSimulationPanelProps) {
+  const [weeks, setWeeks] = useState(4);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <FlaskConical className="h-5 w-5" />
+          Preview Impact
+        </CardTitle>
+        <CardDescription>See how these rules would have treated recent bookings before you save</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 flex items-start gap-3">
+          <Info className="h-5 w-5 text-green-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-green-800">
+            Each booking is checked as of when it was made, counting only the reservations the member already
+            had. Nothing is saved and no one is notified.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Select value={String(weeks)} onValueChange={(value: string) => setWeeks(Number(value))}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEK_OPTIONS.map((n) => (
+                <SelectItem key={n} value={String(n)}>
+                  Last {n} {n === 1 ? 'week' : 'weeks'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => onRun(weeks)} disabled={running}>
+            {running ? 'Replaying bookings…' : 'Preview impact'}
+          </Button>
+        </div>
+
+        {report && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {report.totals.replayed} bookings from {formatDate(report.fromDate)} to {formatDate(report.toDate)}
+              {report.truncated && ' (most recent only)'}
+              {report.totals.skipped > 0 && ` · ${report.totals.skipped} could not be replayed`}
+            </p>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <Stat label="Would be blocked" value={report.totals.blocked} tone="text-red-600" />
+              <Stat label="Newly blocked" value={report.totals.newlyBlocked} tone="text-red-600" />
+              <Stat label="Warnings" value={report.totals.warned} tone="text-amber-600" />
+              <Stat label="Members affected" value={report.totals.membersAffected} />
+            </div>
+            {report.totals.newlyAllowed > 0 && (
+              <p className="text-sm text-green-700">
+                {report.totals.newlyAllowed} bookings blocked by the current rules would be allowed.
+              </p>
+            )}
+
+            {report.byRule.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-900 mb-2">By rule</h4>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500">
+                        <th className="py-1">Rule</th>
+                        <th className="py-1 text-right">Blocked</th>
+                        <th className="py-1 text-right">Warned</th>
+                        <th className="py-1 text-right">Members</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.byRule.map((row) => (
+                        <tr key={row.ruleCode} className="border-t border-gray-100">
+                          <td className="py-1">
+                            <span className="font-mono text-xs text-gray-500 mr-1">{row.ruleCode}</span>
+                            {row.ruleName}
+                          </td>
+                          <td className="py-1 text-right">{row.blocked}</td>
+                          <td className="py-1 text-right">{row.warned}</td>
+                          <td className="py-1 text-right">{row.members}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-900 mb-2">By membership tier</h4>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500">
+                        <th className="py-1">Tier</th>
+                        <th className="py-1 text-right">Blocked</th>
+                        <th className="py-1 text-right">Warned</th>
+                        <th className="py-1 text-right">Members</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.byTier.map((row) => (
+                        <tr key={row.tierId ?? 'none'} className="border-t border-gray-100">
+                          <td className="py-1">{row.tierName}</td>
+                          <td className="py-1 text-right">{row.blocked}</td>
+                          <td className="py-1 text-right">{row.warned}</td>
+                          <td className="py-1 text-right">{row.members}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {report.bookings.length > 0 ? (
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 mb-2">Affected bookings</h4>
+                <div className="max-h-72 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {report.bookings.map((b) => (
+                    <div key={b.bookingId} className="p-2 text-sm">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium text-gray-900">{b.memberName}</span>
+                        <span className="text-gray-500">
+                          {formatDate(b.bookingDate)} {formatTime(b.startTime)}
+                          {b.courtName ? ` · ${b.courtName}` : ''} · {b.tierName}
+                        </span>
+                        {b.outcome === 'blocked' ? (
+                          <Badge className="bg-red-100 text-red-700 hover:bg-red-100">
+                            {b.newlyBlocked ? 'Newly blocked' : 'Blocked'}
+                          </Badge>
+                        ) : (
+                          <Badge className="bg-amber-100 text-amber-700 hover:bg-amber-100">Warning</Badge>
+                        )}
+                      </div>
+                      {b.messages.length > 0 && (
+                        <p className="text-xs text-gray-500 mt-0.5">{b.messages.join(' ')}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">None of these bookings would have been blocked or warned.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -110,6 +110,12 @@ export interface BookingRules {
   // HH-003: Household peak-hours cap
   householdPrimeCapEnabled: boolean;
   householdPrimeCap: string;
+  // ACC-012: Guest visits per member per year
+  guestVisitsPerYearEnabled: boolean;
+  guestVisitsPerYear: string;
+  // ACC-013: Visits per guest per year
+  visitsPerGuestEnabled: boolean;
+  visitsPerGuest: string;
 }
 
 export interface FacilityData {
@@ -241,6 +247,10 @@ export const defaultBookingRules: BookingRules = {
   householdMaxActive: '',
   householdPrimeCapEnabled: false,
   householdPrimeCap: '',
+  guestVisitsPerYearEnabled: false,
+  guestVisitsPerYear: '6',
+  visitsPerGuestEnabled: false,
+  visitsPerGuest: '3',
 };
 
 export interface SecondaryLocation {
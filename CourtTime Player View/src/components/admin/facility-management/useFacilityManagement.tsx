@@ -20,6 +20,7 @@ import {
   facilityLocationsApi,
   stripeConnectApi,
   isStripeConnectReadyFromResponse,
+  type RuleSimulationReport,
 } from '../../../api/client';
 import {
   formatCentsToDollars,
@@ -160,6 +161,15 @@ const [editingBlackout, setEditingBlackout] = useState<any | null>(null);
 const [isAddingBlackout, setIsAddingBlackout] = useState(false);
 const [blackoutSaving, setBlackoutSaving] = useState(false);
 
+// Rule change preview (dry run against recent bookings)
+const [ruleSimulation, setRuleSimulation] = useState<RuleSimulationReport | null>(null);
+const [ruleSimulationRunning, setRuleSimulationRunning] = useState(false);
+
+useEffect(() => {
+  // A preview only describes the edits in progress.
+  if (!isEditing) setRuleSimulation(null);
+}, [isEditing]);
+
 
 // Secondary facility locations
 interface SecondaryLocation {
@@ -599,6 +609,10 @@ const loadFacilityData = async () => {
             householdMaxActive: defaultBookingRules.householdMaxActive,
             householdPrimeCapEnabled: defaultBookingRules.householdPrimeCapEnabled,
             householdPrimeCap: defaultBookingRules.householdPrimeCap,
+            guestVisitsPerYearEnabled: defaultBookingRules.guestVisitsPerYearEnabled,
+            guestVisitsPerYear: defaultBookingRules.guestVisitsPerYear,
+            visitsPerGuestEnabled: defaultBookingRules.visitsPerGuestEnabled,
+            visitsPerGuest: defaultBookingRules.visitsPerGuest,
           };
 
       const data: FacilityData = {
@@ -642,6 +656,20 @@ const loadFacilityData = async () => {
   }
 };
 
+/** booking_rules as performSave stores it on the facility row. */
+const toSavedBookingRules = (rules: FacilityData['bookingRules']) => ({
+  ...rules,
+  // Keep legacy and current weekly-limit fields aligned so all
+  // backend enforcement paths use the same updated value.
+  maxBookingsPerWeek: rules.courtsPerWeekUser,
+  maxBookingsPerWeekUnlimited: !rules.courtsPerWeekUserEnabled,
+  advanceBookingDays: rules.daysInAdvance,
+  advanceBookingDaysUnlimited: !rules.daysInAdvanceEnabled,
+  restrictionsApplyToAdmins: false,
+  peakHoursApplyToAdmins: false,
+  weekendPolicyApplyToAdmins: false,
+});
+
 const performSave = async (options?: { closeEditor?: boolean; toastMessage?: string }) => {
   if (!currentFacilityId) return;
 
@@ -653,18 +681,7 @@ const performSave = async (options?: { closeEditor?: boolean; toastMessage?: str
     const { facilityImage: _facilityImage, ...serializableFacility } = facilityData;
     const payload = {
       ...serializableFacility,
-      bookingRules: {
-        ...facilityData.bookingRules,
-        // Keep legacy and current weekly-limit fields aligned so all
-        // backend enforcement paths use the same updated value.
-        maxBookingsPerWeek: facilityData.bookingRules.courtsPerWeekUser,
-        maxBookingsPerWeekUnlimited: !facilityData.bookingRules.courtsPerWeekUserEnabled,
-        advanceBookingDays: facilityData.bookingRules.daysInAdvance,
-        advanceBookingDaysUnlimited: !facilityData.bookingRules.daysInAdvanceEnabled,
-        restrictionsApplyToAdmins: false,
-        peakHoursApplyToAdmins: false,
-        weekendPolicyApplyToAdmins: false,
-      },
+      bookingRules: toSavedBookingRules(facilityData.bookingRules),
     };
     const hoursChanged =
       !originalData ||
@@ -1565,158 +1582,167 @@ const handleDeleteBlackout = async (blackoutId: string) => {
 };
 
 // Rules engine sync
-const syncBookingRulesToEngine = async (rulesSnapshot?: FacilityData['bookingRules']) => {
-  if (!currentFacilityId) return false;
-  const rules = rulesSnapshot ?? facilityData.bookingRules;
+/** The bulk-update payload for the rules engine, derived from the Booking Rules form. */
+const buildEngineRuleConfigs = (rules: FacilityData['bookingRules']) => {
   const ruleConfigs: Array<{
     ruleCode: string;
     isEnabled: boolean;
     ruleConfig?: Record<string, any>;
   }> = [];
-  try {
-    // Sync all metadata-mapped rule cards so admin edits are enforced by the rules engine.
-    // Peak-hours aggregate rules are handled separately below to preserve existing behavior.
-    const skippedCodes = new Set(['ACC-010', 'CRT-001', 'CRT-002']);
-    const mappedCodes = Object.keys(RULE_STATE_MAP).filter((code) => !skippedCodes.has(code));
-
-    for (const code of mappedCodes) {
-      if (code === 'ACC-005') {
-        const advanceEnabled = !!rules.daysInAdvanceEnabled;
-        const raw = rules.daysInAdvance;
-        const parsed =
-          raw === undefined || raw === null || String(raw).trim() === ''
-            ? NaN
-            : parseInt(String(raw).trim(), 10);
-        const limit = Number.isFinite(parsed) && parsed > 0 ? parsed : 7;
-        ruleConfigs.push({
-          ruleCode: 'ACC-005',
-          isEnabled: advanceEnabled,
-          ruleConfig: { max_days_ahead: limit },
-        });
-        continue;
-      }
+  // Sync all metadata-mapped rule cards so admin edits are enforced by the rules engine.
+  // Peak-hours aggregate rules are handled separately below to preserve existing behavior.
+  const skippedCodes = new Set(['ACC-010', 'CRT-001', 'CRT-002']);
+  const mappedCodes = Object.keys(RULE_STATE_MAP).filter((code) => !skippedCodes.has(code));
+
+  for (const code of mappedCodes) {
+    if (code === 'ACC-005') {
+      const advanceEnabled = !!rules.daysInAdvanceEnabled;
+      const raw = rules.daysInAdvance;
+      const parsed =
+        raw === undefined || raw === null || String(raw).trim() === ''
+          ? NaN
+          : parseInt(String(raw).trim(), 10);
+      const limit = Number.isFinite(parsed) && parsed > 0 ? parsed : 7;
+      ruleConfigs.push({
+        ruleCode: 'ACC-005',
+        isEnabled: advanceEnabled,
+        ruleConfig: { max_days_ahead: limit },
+      });
+      continue;
+    }
 
-      const map = RULE_STATE_MAP[code];
-      if (!map) continue;
-
-      const enabledRaw = getNestedValue(rules, map.enabledField);
-      const isEnabled = map.invertEnabled ? !enabledRaw : !!enabledRaw;
-      const ruleConfig: Record<string, any> = {};
-
-      for (const [configKey, fieldInfo] of Object.entries(map.configMap)) {
-        const rawValue = getNestedValue(rules, fieldInfo.field);
-        if (rawValue === undefined || rawValue === null || rawValue === '') continue;
-        const numericValue = Number(rawValue);
-        const normalizedValue = fieldInfo.toDb
-          ? fieldInfo.toDb(Number.isFinite(numericValue) ? numericValue : 0)
-          : rawValue;
-        ruleConfig[configKey] = normalizedValue;
-      }
+    const map = RULE_STATE_MAP[code];
+    if (!map) continue;
+
+    const enabledRaw = getNestedValue(rules, map.enabledField);
+    const isEnabled = map.invertEnabled ? !enabledRaw : !!enabledRaw;
+    const ruleConfig: Record<string, any> = {};
+
+    for (const [configKey, fieldInfo] of Object.entries(map.configMap)) {
+      const rawValue = getNestedValue(rules, fieldInfo.field);
+      if (rawValue === undefined || rawValue === null || rawValue === '') continue;
+      const numericValue = Number(rawValue);
+      const normalizedValue = fieldInfo.toDb
+        ? fieldInfo.toDb(Number.isFinite(numericValue) ? numericValue : 0)
+        : rawValue;
+      ruleConfig[configKey] = normalizedValue;
+    }
 
-      // Normalize max duration from admin entry.
-      // Some legacy states stored "2" in maxReservationDurationMinutes to mean 2 hours.
-      if (code === 'CRT-005') {
-        const rawMinutes = Number(rules.maxReservationDurationMinutes);
-        if (Number.isFinite(rawMinutes) && rawMinutes > 0) {
-          ruleConfig.max_duration_minutes = rawMinutes <= 12 ? Math.round(rawMinutes * 60) : Math.round(rawMinutes);
-        } else {
-          const rawHours = Number(rules.maxBookingDurationHours);
-          if (Number.isFinite(rawHours) && rawHours > 0) {
-            ruleConfig.max_duration_minutes = Math.round(rawHours * 60);
-          }
+    // Normalize max duration from admin entry.
+    // Some legacy states stored "2" in maxReservationDurationMinutes to mean 2 hours.
+    if (code === 'CRT-005') {
+      const rawMinutes = Number(rules.maxReservationDurationMinutes);
+      if (Number.isFinite(rawMinutes) && rawMinutes > 0) {
+        ruleConfig.max_duration_minutes = rawMinutes <= 12 ? Math.round(rawMinutes * 60) : Math.round(rawMinutes);
+      } else {
+        const rawHours = Number(rules.maxBookingDurationHours);
+        if (Number.isFinite(rawHours) && rawHours > 0) {
+          ruleConfig.max_duration_minutes = Math.round(rawHours * 60);
         }
       }
+    }
 
-      // Preserve expected default fields for common rules when values are missing.
-      if (code === 'ACC-002') {
-        // Mirror Booking Management: weekly individual + daily individual caps share ACC-002.
-        // Previously only weekly was synced here, so bulk update stripped max_per_day_* right after
-        // PATCH saved them — daily limits never stuck in the rules engine.
-        const weeklyEnabled = !!rules.courtsPerWeekUserEnabled;
-        const weeklyLimit = parseInt(String(rules.courtsPerWeekUser), 10) || 1;
-        const dailyEnabled =
-          !!rules.courtsPerDayUserEnabled && (parseInt(String(rules.courtsPerDayUser), 10) || 0) > 0;
-        const dailyLimit = Math.max(1, parseInt(String(rules.courtsPerDayUser), 10) || 1);
-        const ruleOn = weeklyEnabled || dailyEnabled;
-        const ruleConfig: Record<string, any> = {
-          window_type: 'calendar_week',
-          include_canceled: false,
-        };
-        if (weeklyEnabled && weeklyLimit > 0) {
-          ruleConfig.max_per_week = weeklyLimit;
-        }
-        ruleConfig.max_per_day_enabled = dailyEnabled;
-        ruleConfig.max_per_day = dailyEnabled ? dailyLimit : 0;
-        ruleConfigs.push({
-          ruleCode: code,
-          isEnabled: ruleOn,
-          ruleConfig,
-        });
-        continue;
-      }
-      if (code === 'ACC-003' && ruleConfig.window_type === undefined) {
-        ruleConfig.window_type = 'calendar_week';
-      }
-      if (code === 'ACC-010' && ruleConfig.window_type === undefined) {
-        ruleConfig.window_type = 'calendar_week';
-      }
-      if (code === 'CRT-008' && ruleConfig.allowed_types === undefined) {
-        ruleConfig.allowed_types = Array.isArray(rules.allowedBookingTypes) ? rules.allowedBookingTypes : [];
-      }
-      if (code === 'CRT-010' && ruleConfig.window_type === undefined) {
-        ruleConfig.window_type = 'calendar_week';
+    // Preserve expected default fields for common rules when values are missing.
+    if (code === 'ACC-002') {
+      // Mirror Booking Management: weekly individual + daily individual caps share ACC-002.
+      // Previously only weekly was synced here, so bulk update stripped max_per_day_* right after
+      // PATCH saved them — daily limits never stuck in the rules engine.
+      const weeklyEnabled = !!rules.courtsPerWeekUserEnabled;
+      const weeklyLimit = parseInt(String(rules.courtsPerWeekUser), 10) || 1;
+      const dailyEnabled =
+        !!rules.courtsPerDayUserEnabled && (parseInt(String(rules.courtsPerDayUser), 10) || 0) > 0;
+      const dailyLimit = Math.max(1, parseInt(String(rules.courtsPerDayUser), 10) || 1);
+      const ruleOn = weeklyEnabled || dailyEnabled;
+      const ruleConfig: Record<string, any> = {
+        window_type: 'calendar_week',
+        include_canceled: false,
+      };
+      if (weeklyEnabled && weeklyLimit > 0) {
+        ruleConfig.max_per_week = weeklyLimit;
       }
-
+      ruleConfig.max_per_day_enabled = dailyEnabled;
+      ruleConfig.max_per_day = dailyEnabled ? dailyLimit : 0;
       ruleConfigs.push({
         ruleCode: code,
-        isEnabled,
+        isEnabled: ruleOn,
         ruleConfig,
       });
+      continue;
     }
-
-    // Preserve existing Peak Hours Policy behavior.
-    if (rules.hasPeakHours) {
-      const peakWindows = rules.peakHoursSlots.map((slot) => ({
-        id: slot.id,
-        days: slot.days,
-        start_time: slot.startTime,
-        end_time: slot.endTime,
-        applies_to_all_courts: slot.appliesToAllCourts !== false,
-        selected_court_ids: slot.appliesToAllCourts ? [] : (slot.selectedCourtIds || []),
-        rules: {
-          max_bookings_per_day: slot.rules.maxBookingsPerDayUnlimited ? -1 : (parseInt(slot.rules.maxBookingsPerDay) || 1),
-          max_bookings_per_day_household: slot.rules.maxBookingsPerDayHouseholdUnlimited ? -1 : (parseInt(slot.rules.maxBookingsPerDayHousehold) || 1),
-          max_bookings_per_week: slot.rules.maxBookingsPerWeekUnlimited ? -1 : (parseInt(slot.rules.maxBookingsPerWeek) || 2),
-          max_bookings_per_week_household: slot.rules.maxBookingsPerWeekHouseholdUnlimited ? -1 : (parseInt(slot.rules.maxBookingsPerWeekHousehold) || 2),
-          max_duration_hours: slot.rules.maxDurationUnlimited ? -1 : (parseFloat(slot.rules.maxDurationHours) || 1.5),
-        }
-      }));
-      ruleConfigs.push({
-        ruleCode: 'CRT-001',
-        isEnabled: true,
-        ruleConfig: { peak_windows: peakWindows },
-      });
-      ruleConfigs.push({
-        ruleCode: 'ACC-010',
-        isEnabled: !rules.peakHoursRestrictions.maxBookingsUnlimited,
-        ruleConfig: {
-          max_prime_per_week: parseInt(rules.peakHoursRestrictions.maxBookingsPerWeek) || 2,
-          window_type: 'calendar_week'
-        }
-      });
-      ruleConfigs.push({
-        ruleCode: 'CRT-002',
-        isEnabled: !rules.peakHoursRestrictions.maxDurationUnlimited,
-        ruleConfig: {
-          max_minutes_prime: (parseFloat(rules.peakHoursRestrictions.maxDurationHours) || 1.5) * 60
-        }
-      });
-    } else {
-      ruleConfigs.push({ ruleCode: 'ACC-010', isEnabled: false });
-      ruleConfigs.push({ ruleCode: 'CRT-002', isEnabled: false });
-      ruleConfigs.push({ ruleCode: 'CRT-001', isEnabled: false });
+    if (code === 'ACC-003' && ruleConfig.window_type === undefined) {
+      ruleConfig.window_type = 'calendar_week';
+    }
+    if (code === 'ACC-010' && ruleConfig.window_type === undefined) {
+      ruleConfig.window_type = 'calendar_week';
+    }
+    if (code === 'CRT-008' && ruleConfig.allowed_types === undefined) {
+      ruleConfig.allowed_types = Array.isArray(rules.allowedBookingTypes) ? rules.allowedBookingTypes : [];
+    }
+    if (code === 'CRT-010' && ruleConfig.window_type === undefined) {
+      ruleConfig.window_type = 'calendar_week';
+    }
+    if ((code === 'ACC-012' || code === 'ACC-013') && ruleConfig.window_type === undefined) {
+      ruleConfig.window_type = 'calendar_year';
     }
 
+    ruleConfigs.push({
+      ruleCode: code,
+      isEnabled,
+      ruleConfig,
+    });
+  }
+
+  // Preserve existing Peak Hours Policy behavior.
+  if (rules.hasPeakHours) {
+    const peakWindows = rules.peakHoursSlots.map((slot) => ({
+      id: slot.id,
+      days: slot.days,
+      start_time: slot.startTime,
+      end_time: slot.endTime,
+      applies_to_all_courts: slot.appliesToAllCourts !== false,
+      selected_court_ids: slot.appliesToAllCourts ? [] : (slot.selectedCourtIds || []),
+      rules: {
+        max_bookings_per_day: slot.rules.maxBookingsPerDayUnlimited ? -1 : (parseInt(slot.rules.maxBookingsPerDay) || 1),
+        max_bookings_per_day_household: slot.rules.maxBookingsPerDayHouseholdUnlimited ? -1 : (parseInt(slot.rules.maxBookingsPerDayHousehold) || 1),
+        max_bookings_per_week: slot.rules.maxBookingsPerWeekUnlimited ? -1 : (parseInt(slot.rules.maxBookingsPerWeek) || 2),
+        max_bookings_per_week_household: slot.rules.maxBookingsPerWeekHouseholdUnlimited ? -1 : (parseInt(slot.rules.maxBookingsPerWeekHousehold) || 2),
+        max_duration_hours: slot.rules.maxDurationUnlimited ? -1 : (parseFloat(slot.rules.maxDurationHours) || 1.5),
+      }
+    }));
+    ruleConfigs.push({
+      ruleCode: 'CRT-001',
+      isEnabled: true,
+      ruleConfig: { peak_windows: peakWindows },
+    });
+    ruleConfigs.push({
+      ruleCode: 'ACC-010',
+      isEnabled: !rules.peakHoursRestrictions.maxBookingsUnlimited,
+      ruleConfig: {
+        max_prime_per_week: parseInt(rules.peakHoursRestrictions.maxBookingsPerWeek) || 2,
+        window_type: 'calendar_week'
+      }
+    });
+    ruleConfigs.push({
+      ruleCode: 'CRT-002',
+      isEnabled: !rules.peakHoursRestrictions.maxDurationUnlimited,
+      ruleConfig: {
+        max_minutes_prime: (parseFloat(rules.peakHoursRestrictions.maxDurationHours) || 1.5) * 60
+      }
+    });
+  } else {
+    ruleConfigs.push({ ruleCode: 'ACC-010', isEnabled: false });
+    ruleConfigs.push({ ruleCode: 'CRT-002', isEnabled: false });
+    ruleConfigs.push({ ruleCode: 'CRT-001', isEnabled: false });
+  }
+
+  return ruleConfigs;
+};
+
+const syncBookingRulesToEngine = async (rulesSnapshot?: FacilityData['bookingRules']) => {
+  if (!currentFacilityId) return false;
+  const rules = rulesSnapshot ?? facilityData.bookingRules;
+  try {
+    const ruleConfigs = buildEngineRuleConfigs(rules);
     const response = await rulesApi.bulkUpdate(currentFacilityId, ruleConfigs);
     if (!response.success) {
       console.error('Error syncing peak rules to engine:', response.error);
@@ -1731,6 +1757,29 @@ const syncBookingRulesToEngine = async (rulesSnapshot?: FacilityData['bookingRul
   }
 };
 
+// Replays recent bookings against the unsaved Booking Rules form; nothing is saved.
+const runRuleSimulation = async (weeks: number) => {
+  if (!currentFacilityId) return;
+  setRuleSimulationRunning(true);
+  try {
+    const response = await rulesApi.simulate(currentFacilityId, {
+      rules: buildEngineRuleConfigs(facilityData.bookingRules),
+      bookingRules: toSavedBookingRules(facilityData.bookingRules),
+      weeks,
+    });
+    if (response.success && response.report) {
+      setRuleSimulation(response.report);
+    } else {
+      toast.error(response.error || 'Failed to preview rule changes');
+    }
+  } catch (error) {
+    console.error('Error simulating rule changes:', error);
+    toast.error('Failed to preview rule changes');
+  } finally {
+    setRuleSimulationRunning(false);
+  }
+};
+
 const loadFacilityRules = async () => {
   if (!currentFacilityId) return;
   try {
@@ -1818,6 +1867,8 @@ const RULE_STATE_MAP: Record<string, {
   'HH-001': { enabledField: 'householdMaxMembersEnabled', configMap: { max_members: { field: 'householdMaxMembers' } } },
   'HH-002': { enabledField: 'householdMaxActiveEnabled', configMap: { max_active_household: { field: 'householdMaxActive' } } },
   'HH-003': { enabledField: 'householdPrimeCapEnabled', configMap: { max_prime_per_week_household: { field: 'householdPrimeCap' } } },
+  'ACC-012': { enabledField: 'guestVisitsPerYearEnabled', configMap: { max_guest_visits: { field: 'guestVisitsPerYear', fromDb: (v: number) => v, toDb: (v: number) => v } } },
+  'ACC-013': { enabledField: 'visitsPerGuestEnabled', configMap: { max_visits_per_guest: { field: 'visitsPerGuest', fromDb: (v: number) => v, toDb: (v: number) => v } } },
 };
 
 // Helper to get nested field value
@@ -2069,6 +2120,10 @@ const renderTabFooterSaveBar = () =>
     isAddingBlackout,
     setIsAddingBlackout,
     blackoutSaving,
+    ruleSimulation,
+    setRuleSimulation,
+    ruleSimulationRunning,
+    runRuleSimulation,
     secondaryLocations,
     addingSecondaryLocation,
     setAddingSecondaryLocation,
@@ -11,6 +11,9 @@ import { SupportCourtManagement } from './SupportCourtManagement';
 import { SupportSubscriptionManagement } from './SupportSubscriptionManagement';
 import { SupportPromoCodes } from './SupportPromoCodes';
 import { DeveloperMessaging } from './DeveloperMessaging';
+import { SupportJobs } from './SupportJobs';
+import { AuditLogViewer } from '../admin/AuditLogViewer';
+import { getAuditLog } from '../../api/supportClient';
 
 export type SupportView =
   | 'dashboard'
@@ -21,7 +24,9 @@ export type SupportView =
   | 'courts'
   | 'subscriptions'
   | 'promos'
-  | 'messages';
+  | 'messages'
+  | 'audit'
+  | 'jobs';
 
 export function SupportConsole() {
   const [authenticated, setAuthenticated] = useState(isSupportAuthenticated());
@@ -95,6 +100,10 @@ export function SupportConsole() {
         return <SupportPromoCodes />;
       case 'messages':
         return <DeveloperMessaging />;
+      case 'audit':
+        return <AuditLogViewer load={getAuditLog} showFacility />;
+      case 'jobs':
+        return <SupportJobs />;
       default:
         return <SupportDashboard onNavigate={navigateTo} />;
     }
@@ -0,0 +1,353 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, RefreshCw, RotateCcw, Search, XCircle } from 'lucide-react';
+import { Card, CardContent } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { cn } from '../ui/utils';
+import {
+  cancelJob,
+  getJobRuns,
+  getJobs,
+  retryJob,
+  type BackgroundJob,
+  type JobRun,
+  type JobStatus,
+} from '../../api/supportClient';
+import { toast } from 'sonner';
+
+const PAGE_SIZE = 50;
+const REFRESH_MS = 15_000;
+
+const STATUS_TILES: { status: JobStatus; label: string; className: string }[] = [
+  { status: 'queued', label: 'Queued', className: 'text-blue-700' },
+  { status: 'running', label: 'Running', className: 'text-indigo-700' },
+  { status: 'succeeded', label: 'Succeeded', className: 'text-green-700' },
+  { status: 'dead', label: 'Dead', className: 'text-red-700' },
+  { status: 'canceled', label: 'Canceled', className: 'text-gray-600' },
+];
+
+const STATUS_BADGES: Record<string, string> = {
+  queued: 'bg-blue-100 text-blue-800',
+  running: 'bg-indigo-100 text-indigo-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-amber-100 text-amber-800',
+  dead: 'bg-red-100 text-red-800',
+  canceled: 'bg-gray-100 text-gray-700',
+};
+
+function formatInterval(seconds: number): string {
+  if (seconds % 86400 === 0) return `${seconds / 86400}d`;
+  if (seconds % 3600 === 0) return `${seconds / 3600}h`;
+  if (seconds % 60 === 0) return `${seconds / 60}m`;
+  return `${seconds}s`;
+}
+
+function formatDuration(run: JobRun): string {
+  if (!run.finishedAt) return '…';
+  const ms = new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime();
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function JobDetail({ job }: { job: BackgroundJob }) {
+  const [runs, setRuns] = useState<JobRun[] | null>(null);
+
+  useEffect(() => {
+    getJobRuns(job.id).then((res) => {
+      if (res.success) setRuns(res.data ?? []);
+      else toast.error(res.error || 'Failed to load run history');
+    });
+  }, [job.id, job.updatedAt]);
+
+  return (
+    <div className="space-y-3 text-sm">
+      {job.lastError && (
+        <div>
+          <p className="text-gray-500 mb-1">Last error</p>
+          <pre className="bg-red-50 text-red-800 rounded p-2 text-xs whitespace-pre-wrap break-all">{job.lastError}</pre>
+        </div>
+      )}
+      {Object.keys(job.payload).length > 0 && (
+        <div>
+          <p className="text-gray-500 mb-1">Payload</p>
+          <pre className="bg-gray-50 rounded p-2 text-xs overflow-x-auto">{JSON.stringify(job.payload, null, 2)}</pre>
+        </div>
+      )}
+      <div>
+        <p className="text-gray-500 mb-1">Run history</p>
+        {runs === null ? (
+          <p className="text-gray-400">Loading…</p>
+        ) : runs.length === 0 ? (
+          <p className="text-gray-400">No attempts yet.</p>
+        ) : (
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="py-1 pr-4 font-medium">Started</th>
+                <th className="py-1 pr-4 font-medium">Attempt</th>
+                <th className="py-1 pr-4 font-medium">Result</th>
+                <th className="py-1 pr-4 font-medium">Took</th>
+                <th className="py-1 pr-4 font-medium">Worker</th>
+                <th className="py-1 font-medium">Output</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((run) => (
+                <tr key={run.id} className="align-top">
+                  <td className="py-1 pr-4 whitespace-nowrap">{new Date(run.startedAt).toLocaleString()}</td>
+                  <td className="py-1 pr-4">{run.attempt}</td>
+                  <td className="py-1 pr-4">
+                    <Badge className={STATUS_BADGES[run.status]}>{run.status}</Badge>
+                  </td>
+                  <td className="py-1 pr-4">{formatDuration(run)}</td>
+                  <td className="py-1 pr-4 font-mono text-xs">{run.workerId}</td>
+                  <td className="py-1 text-xs break-all">
+                    {run.error ? (
+                      <span className="text-red-700">{run.error}</span>
+                    ) : run.result ? (
+                      <span className="font-mono">{JSON.stringify(run.result)}</span>
+                    ) : (
+                      '—'
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function SupportJobs() {
+  const [jobs, setJobs] = useState<BackgroundJob[]>([]);
+  const [total, setTotal] = useState(0);
+  const [counts, setCounts] = useState<Partial<Record<JobStatus, number>>>({});
+  const [jobTypes, setJobTypes] = useState<string[]>([]);
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [actingId, setActingId] = useState<string | null>(null);
+  const [status, setStatus] = useState<JobStatus | 'all'>('all');
+  const [jobType, setJobType] = useState('all');
+  const [search, setSearch] = useState('');
+
+  const fetchPage = useCallback(async (pageOffset: number) => {
+    setLoading(true);
+    try {
+      const res = await getJobs({
+        status: status === 'all' ? undefined : status,
+        jobType: jobType === 'all' ? undefined : jobType,
+        search: search.trim() || undefined,
+        limit: PAGE_SIZE,
+        offset: pageOffset,
+      });
+      if (res.success && res.data) {
+        setJobs(res.data.jobs);
+        setTotal(res.data.total);
+        setCounts(res.data.counts);
+        setJobTypes(res.data.jobTypes);
+        setOffset(pageOffset);
+      } else {
+        toast.error(res.error || 'Failed to load jobs');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [status, jobType, search]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => fetchPage(0), 300);
+    return () => clearTimeout(timer);
+  }, [fetchPage]);
+
+  useEffect(() => {
+    const timer = setInterval(() => fetchPage(offset), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [fetchPage, offset]);
+
+  const handleAction = async (job: BackgroundJob, action: 'retry' | 'cancel') => {
+    if (action === 'cancel' && !window.confirm(`Cancel this ${job.jobType} job? It won't run again unless retried.`)) return;
+    setActingId(job.id);
+    try {
+      const res = action === 'retry' ? await retryJob(job.id) : await cancelJob(job.id);
+      if (res.success) {
+        toast.success(action === 'retry' ? 'Job queued to run now' : 'Job canceled');
+        fetchPage(offset);
+      } else {
+        toast.error(res.error || `Failed to ${action} job`);
+      }
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Background Jobs</h1>
+          <p className="text-sm text-gray-500 mt-1">Sweeps, billing runs and campaign sends, with retries and run history</p>
+        </div>
+        <Button variant="outline" onClick={() => fetchPage(offset)} disabled={loading}>
+          <RefreshCw className={cn('h-4 w-4 mr-2', loading && 'animate-spin')} />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+        {STATUS_TILES.map((tile) => (
+          <button
+            key={tile.status}
+            onClick={() => setStatus(status === tile.status ? 'all' : tile.status)}
+            className={cn(
+              'rounded-lg border bg-white p-3 text-left transition-colors hover:border-indigo-300',
+              status === tile.status && 'border-indigo-500 ring-1 ring-indigo-500'
+            )}
+          >
+            <p className="text-xs text-gray-500">{tile.label}</p>
+            <p className={cn('text-2xl font-semibold', tile.className)}>{counts[tile.status] ?? 0}</p>
+          </button>
+        ))}
+      </div>
+
+      <Card>
+        <CardContent className="p-4 space-y-4">
+          <div className="flex flex-col sm:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                className="pl-9"
+                placeholder="Search payload, key or error"
+                value={search}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearch(e.target.value)}
+              />
+            </div>
+            <Select value={jobType} onValueChange={(value: string) => setJobType(value)}>
+              <SelectTrigger className="sm:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All job types</SelectItem>
+                {jobTypes.map((type) => (
+                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {jobs.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">{loading ? 'Loading…' : 'No jobs match these filters'}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-6" />
+                  <TableHead>Job</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Next / Last Run</TableHead>
+                  <TableHead>Last Error</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => {
+                  const expanded = expandedId === job.id;
+                  const canRetry = job.status === 'queued' || job.status === 'dead' || job.status === 'canceled';
+                  const canCancel = job.status === 'queued' || job.status === 'dead';
+                  return (
+                    <React.Fragment key={job.id}>
+                      <TableRow className="cursor-pointer" onClick={() => setExpandedId(expanded ? null : job.id)}>
+                        <TableCell>
+                          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell>
+                          <span className="font-mono text-xs">{job.jobType}</span>
+                          {job.intervalSeconds !== null && (
+                            <Badge variant="outline" className="ml-2 text-xs">every {formatInterval(job.intervalSeconds)}</Badge>
+                          )}
+                          {job.dedupeKey && job.dedupeKey !== job.jobType && (
+                            <span className="block text-xs text-gray-500 break-all">{job.dedupeKey}</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={STATUS_BADGES[job.status]}>{job.status}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {job.intervalSeconds !== null ? job.attempts : `${job.attempts} / ${job.maxAttempts}`}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-sm">
+                          {job.status === 'queued'
+                            ? new Date(job.runAt).toLocaleString()
+                            : job.status === 'running'
+                              ? `since ${new Date(job.lockedAt ?? job.updatedAt).toLocaleTimeString()}`
+                              : job.completedAt
+                                ? new Date(job.completedAt).toLocaleString()
+                                : '—'}
+                        </TableCell>
+                        <TableCell className="max-w-xs truncate text-sm text-red-700">{job.lastError ?? ''}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {canRetry && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={actingId === job.id}
+                              onClick={(e: React.MouseEvent) => { e.stopPropagation(); handleAction(job, 'retry'); }}
+                            >
+                              <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                              {job.status === 'queued' ? 'Run Now' : 'Retry'}
+                            </Button>
+                          )}
+                          {canCancel && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="ml-1 text-red-600"
+                              disabled={actingId === job.id}
+                              onClick={(e: React.MouseEvent) => { e.stopPropagation(); handleAction(job, 'cancel'); }}
+                            >
+                              <XCircle className="h-3.5 w-3.5 mr-1" />
+                              Cancel
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {expanded && (
+                        <TableRow>
+                          <TableCell />
+                          <TableCell colSpan={6}>
+                            <JobDetail job={job} />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <span>
+                {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+              </span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" disabled={loading || offset === 0} onClick={() => fetchPage(Math.max(0, offset - PAGE_SIZE))}>
+                  Previous
+                </Button>
+                <Button variant="outline" size="sm" disabled={loading || offset + PAGE_SIZE >= total} onClick={() => fetchPage(offset + PAGE_SIZE)}>
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import {
   LayoutDashboard, Users, Building2, UserCheck, CalendarDays, Columns3, LogOut, Menu, X,
-  CreditCard, Tag, Search, Command, MessageSquare,
+  CreditCard, Tag, Search, Command, MessageSquare, History, ListChecks,
 } from 'lucide-react';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
@@ -26,6 +26,8 @@ const navItems: { view: SupportView; label: string; icon: React.ElementType; sec
   { view: 'facilities', label: 'Facilities', icon: Building2, section: 'operations' },
   { view: 'courts', label: 'Courts', icon: Columns3, section: 'operations' },
   { view: 'bookings', label: 'Bookings', icon: CalendarDays, section: 'operations' },
+  { view: 'audit', label: 'Audit Log', icon: History, section: 'operations' },
+  { view: 'jobs', label: 'Background Jobs', icon: ListChecks, section: 'operations' },
 ];
 
 const sections = [
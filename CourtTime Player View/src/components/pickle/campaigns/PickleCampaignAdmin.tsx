@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { useParams } from 'react-router-dom';
+import DOMPurify from 'dompurify';
 import { Button } from '../../ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../ui/card';
 import { Input } from '../../ui/input';
@@ -14,7 +15,8 @@ import {
   SelectValue,
 } from '../../ui/select';
 import {
-  Megaphone, Plus, Send, Eye, RefreshCw, AlertCircle, Mail,
+  Megaphone, Plus, Send, Eye, RefreshCw, AlertCircle, Mail, Smartphone, MessageSquare, ListChecks,
+  Clock, XCircle, X,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { pickleApi, unwrapApiPayload } from '../../../api/client';
@@ -27,23 +29,103 @@ interface Campaign {
   status: string;
   segmentFilter: Record<string, unknown>;
   templateBody: string;
+  subjectVariants: string[];
+  scheduledAt: string | null;
+  timezone: string | null;
+  recurrence: Recurrence;
+  parentCampaignId: string | null;
   createdAt: string;
 }
 
+type Recurrence = 'none' | 'daily' | 'weekly' | 'monthly';
+
+const RECURRENCE_LABELS: Record<Recurrence, string> = {
+  none: 'Once',
+  daily: 'Every day',
+  weekly: 'Every week',
+  monthly: 'Every month',
+};
+
+function describeSchedule(c: Campaign): string | null {
+  if (c.status !== 'scheduled' || !c.scheduledAt) return null;
+  const when = new Date(c.scheduledAt).toLocaleString(undefined, {
+    timeZone: c.timezone || undefined,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+  return c.recurrence === 'none' ? `Sends ${when}` : `${RECURRENCE_LABELS[c.recurrence]} — next ${when}`;
+}
+
+interface CampaignSend {
+  id: string;
+  userId: string;
+  fullName?: string;
+  email?: string;
+  status: 'pending' | 'sent' | 'failed' | 'skipped';
+  errorMessage: string | null;
+  deliveryStatus: 'queued' | 'delivered' | 'undelivered' | null;
+  deliveryError: string | null;
+  subjectVariant: number | null;
+  openedAt: string | null;
+  clickedAt: string | null;
+}
+
 interface SegmentPreview {
   count: number;
   sample: Array<{ userId: string; fullName: string; email: string }>;
 }
 
-interface SendResult {
+interface MessagePreview {
+  recipient: { userId: string; fullName: string } | null;
+  sampleRecipients: Array<{ userId: string; fullName: string }>;
+  subjects: string[];
+  body: string;
+  html: string;
+}
+
+interface VariantEngagement {
+  variant: number;
+  subject: string;
   sent: number;
-  failed: number;
-  skipped: number;
+  opened: number;
+  clicked: number;
 }
 
+const MERGE_FIELDS: Array<{ key: string; label: string }> = [
+  { key: 'firstName', label: 'First name' },
+  { key: 'homeFacility', label: 'Home facility' },
+  { key: 'visitCount', label: 'Visit count' },
+  { key: 'membershipTier', label: 'Membership' },
+];
+
+const MAX_SUBJECT_VARIANTS = 4;
+
 const LIFECYCLE_OPTIONS = ['lead', 'drop_in', 'trial_member', 'member', 'past_member'];
 const ACTIVITY_OPTIONS = ['active', 'at_risk', 'inactive'];
 
+const CHANNEL_ICONS: Record<string, typeof Mail> = {
+  email: Mail,
+  push: Smartphone,
+  sms: MessageSquare,
+};
+
+/** One SMS segment; longer texts are split and billed per segment. */
+const SMS_SEGMENT_LENGTH = 160;
+
+function describeSend(send: CampaignSend): string {
+  if (send.status !== 'sent') return send.errorMessage ? `${send.status} — ${send.errorMessage}` : send.status;
+  if (send.deliveryStatus === 'undelivered') {
+    return send.deliveryError ? `undelivered — ${send.deliveryError}` : 'undelivered';
+  }
+  if (send.clickedAt) return 'clicked';
+  if (send.openedAt) return 'opened';
+  return send.deliveryStatus ?? 'sent';
+}
+
+function percent(part: number, whole: number): string {
+  return whole > 0 ? `${Math.round((part / whole) * 100)}%` : '—';
+}
+
 export function PickleCampaignAdmin() {
   const { orgId } = useParams<{ orgId: string }>();
   const { user } = useAuth();
@@ -54,10 +136,19 @@ export function PickleCampaignAdmin() {
   const [preview, setPreview] = useState<SegmentPreview | null>(null);
   const [previewCampaignId, setPreviewCampaignId] = useState<string | null>(null);
   const [sendingId, setSendingId] = useState<string | null>(null);
+  const [cancelingId, setCancelingId] = useState<string | null>(null);
+  const [resultsCampaign, setResultsCampaign] = useState<Campaign | null>(null);
+  const [sends, setSends] = useState<CampaignSend[]>([]);
+  const [engagement, setEngagement] = useState<VariantEngagement[]>([]);
+  const [messagePreview, setMessagePreview] = useState<MessagePreview | null>(null);
+  const [previewChannel, setPreviewChannel] = useState<string>('email');
 
   const [name, setName] = useState('');
   const [templateBody, setTemplateBody] = useState('');
+  const [subjectVariants, setSubjectVariants] = useState<string[]>(['']);
   const [channel, setChannel] = useState<'email' | 'push' | 'sms'>('email');
+  const [sendAt, setSendAt] = useState('');
+  const [recurrence, setRecurrence] = useState<Recurrence>('none');
   const [gender, setGender] = useState<string>('');
   const [minAge, setMinAge] = useState('');
   const [maxAge, setMaxAge] = useState('');
@@ -114,12 +205,26 @@ export function PickleCampaignAdmin() {
         templateBody: templateBody.trim(),
         channel,
         segmentFilter: buildSegmentFilter(),
+        subjectVariants: channel === 'email' ? subjectVariants.map((v) => v.trim()).filter(Boolean) : [],
       });
       if (res.success) {
-        toast.success('Campaign created');
+        const created = res.data ? unwrapApiPayload<{ campaign: Campaign }>(res.data)?.campaign : undefined;
+        if (sendAt && created) {
+          const scheduled = await pickleApi.scheduleCampaign(orgId, created.id, { sendAt, recurrence });
+          if (scheduled.success) {
+            toast.success(recurrence === 'none' ? 'Campaign scheduled' : 'Recurring campaign scheduled');
+          } else {
+            toast.error(scheduled.error || 'Campaign saved as a draft but could not be scheduled');
+          }
+        } else {
+          toast.success('Campaign created');
+        }
         setShowForm(false);
         setName('');
         setTemplateBody('');
+        setSubjectVariants(['']);
+        setSendAt('');
+        setRecurrence('none');
         setGender('');
         setMinAge('');
         setMaxAge('');
@@ -138,11 +243,12 @@ export function PickleCampaignAdmin() {
     }
   };
 
-  const handlePreview = async (campaignId: string) => {
+  const handlePreview = async (campaign: Campaign) => {
     if (!orgId) return;
-    setPreviewCampaignId(campaignId);
+    setPreviewCampaignId(campaign.id);
+    setPreviewChannel(campaign.channel);
     try {
-      const res = await pickleApi.previewCampaign(orgId, campaignId);
+      const res = await pickleApi.previewCampaign(orgId, campaign.id);
       if (res.success && res.data) {
         const data = unwrapApiPayload<SegmentPreview>(res.data);
         if (data) setPreview(data);
@@ -152,6 +258,30 @@ export function PickleCampaignAdmin() {
     } catch {
       toast.error('Preview failed');
     }
+    await loadMessagePreview(campaign.id);
+  };
+
+  const loadMessagePreview = async (campaignId: string, userId?: string) => {
+    if (!orgId) return;
+    try {
+      const res = await pickleApi.previewCampaignEmail(orgId, campaignId, userId);
+      if (res.success && res.data) {
+        setMessagePreview(unwrapApiPayload<MessagePreview>(res.data) ?? null);
+      } else {
+        toast.error(res.error || 'Message preview failed');
+      }
+    } catch {
+      toast.error('Message preview failed');
+    }
+  };
+
+  const closePreview = () => {
+    setPreview(null);
+    setMessagePreview(null);
+  };
+
+  const insertMergeField = (key: string) => {
+    setTemplateBody((body) => `${body}{{${key}}}`);
   };
 
   const handleSend = async (campaignId: string) => {
@@ -160,11 +290,8 @@ export function PickleCampaignAdmin() {
     setSendingId(campaignId);
     try {
       const res = await pickleApi.sendCampaign(orgId, campaignId);
-      if (res.success && res.data) {
-        const result = unwrapApiPayload<SendResult>(res.data);
-        if (result) {
-          toast.success(`Sent ${result.sent}, failed ${result.failed}, skipped ${result.skipped}`);
-        }
+      if (res.success) {
+        toast.success('Campaign queued — recipients will receive it over the next few minutes');
         await loadCampaigns();
       } else {
         toast.error(res.error || 'Send failed');
@@ -176,6 +303,53 @@ export function PickleCampaignAdmin() {
     }
   };
 
+  const handleCancel = async (campaign: Campaign) => {
+    if (!orgId) return;
+    const prompt = campaign.status === 'sending'
+      ? 'Stop this campaign? Players who have not received it yet will be skipped.'
+      : campaign.recurrence !== 'none'
+        ? 'Cancel this recurring campaign? No further sends will go out.'
+        : 'Cancel this campaign? It will not be sent.';
+    if (!window.confirm(prompt)) return;
+    setCancelingId(campaign.id);
+    try {
+      const res = await pickleApi.cancelCampaign(orgId, campaign.id);
+      if (res.success) {
+        toast.success('Campaign canceled');
+        await loadCampaigns();
+      } else {
+        toast.error(res.error || 'Cancel failed');
+      }
+    } catch {
+      toast.error('Cancel failed');
+    } finally {
+      setCancelingId(null);
+    }
+  };
+
+  const handleResults = async (campaign: Campaign) => {
+    if (!orgId) return;
+    setResultsCampaign(campaign);
+    try {
+      const [res, engagementRes] = await Promise.all([
+        pickleApi.listCampaignSends(orgId, campaign.id),
+        campaign.channel === 'email' ? pickleApi.getCampaignEngagement(orgId, campaign.id) : null,
+      ]);
+      if (res.success && res.data) {
+        const payload = unwrapApiPayload<{ sends: CampaignSend[] }>(res.data);
+        setSends(payload?.sends ?? []);
+      } else {
+        toast.error(res.error || 'Failed to load results');
+      }
+      const variants = engagementRes?.success && engagementRes.data
+        ? unwrapApiPayload<{ variants: VariantEngagement[] }>(engagementRes.data)?.variants
+        : undefined;
+      setEngagement(variants ?? []);
+    } catch {
+      toast.error('Failed to load results');
+    }
+  };
+
   const toggleFilter = (arr: string[], item: string, setter: (v: string[]) => void) => {
     setter(arr.includes(item) ? arr.filter((x) => x !== item) : [...arr, item]);
   };
@@ -214,7 +388,7 @@ export function PickleCampaignAdmin() {
             Marketing Campaigns
           </h1>
           <p className="text-gray-600 mt-1">
-            Segment players by demographics and lifecycle, then send email campaigns.
+            Segment players by demographics and lifecycle, then send by email, push or text.
           </p>
         </div>
         <Button onClick={() => setShowForm(!showForm)}>
@@ -250,12 +424,65 @@ export function PickleCampaignAdmin() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="email">Email</SelectItem>
-                    <SelectItem value="push">Push (stub)</SelectItem>
-                    <SelectItem value="sms">SMS (stub)</SelectItem>
+                    <SelectItem value="push">Push notification</SelectItem>
+                    <SelectItem value="sms">SMS</SelectItem>
                   </SelectContent>
                 </Select>
+                {channel !== 'email' && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {channel === 'push'
+                      ? 'Goes to players with the mobile app who have not turned off club announcements.'
+                      : 'Goes only to players who opted in to texts. "Reply STOP to opt out." is added to every message.'}
+                  </p>
+                )}
               </div>
 
+              {channel === 'email' && (
+                <div>
+                  <Label>Subject Line{subjectVariants.length > 1 ? 's (A/B test)' : ''}</Label>
+                  <div className="space-y-2">
+                    {subjectVariants.map((subject, i) => (
+                      <div key={i} className="flex gap-2">
+                        <Input
+                          value={subject}
+                          onChange={(e) =>
+                            setSubjectVariants(subjectVariants.map((v, j) => (j === i ? e.target.value : v)))
+                          }
+                          placeholder={i === 0 ? 'Defaults to the campaign name' : `Variant ${String.fromCharCode(65 + i)}`}
+                        />
+                        {subjectVariants.length > 1 && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setSubjectVariants(subjectVariants.filter((_, j) => j !== i))}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  {subjectVariants.length < MAX_SUBJECT_VARIANTS && (
+                    <Button
+                      type="button"
+                      variant="link"
+                      size="sm"
+                      className="px-0"
+                      onClick={() => setSubjectVariants([...subjectVariants, ''])}
+                    >
+                      <Plus className="h-3 w-3 mr-1" />
+                      Add subject variant
+                    </Button>
+                  )}
+                  {subjectVariants.length > 1 && (
+                    <p className="text-xs text-gray-500">
+                      Recipients are split evenly across the subject lines; compare opens and clicks under Results.
+                    </p>
+                  )}
+                </div>
+              )}
+
               <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
                 <div>
                   <Label>Gender</Label>
@@ -321,15 +548,75 @@ export function PickleCampaignAdmin() {
                   rows={5}
                   value={templateBody}
                   onChange={(e) => setTemplateBody(e.target.value)}
-                  placeholder="Hi! Join us for our spring clinic series..."
+                  placeholder="Hi {{firstName}}! Join us for our spring clinic series..."
                   required
                 />
+                <div className="flex flex-wrap items-center gap-2 mt-2">
+                  <span className="text-xs text-gray-500">Insert:</span>
+                  {MERGE_FIELDS.map((f) => (
+                    <Badge
+                      key={f.key}
+                      variant="outline"
+                      className="cursor-pointer"
+                      onClick={() => insertMergeField(f.key)}
+                    >
+                      {`{{${f.key}}}`} · {f.label}
+                    </Badge>
+                  ))}
+                </div>
+                {channel === 'email' && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Links are tracked, so Results show who opened and clicked.
+                  </p>
+                )}
+                {channel === 'sms' && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {templateBody.length} characters
+                    {templateBody.length > SMS_SEGMENT_LENGTH &&
+                      ` — sent as ${Math.ceil(templateBody.length / SMS_SEGMENT_LENGTH)} texts per player`}
+                  </p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="send-at">Schedule For (optional)</Label>
+                  <Input
+                    id="send-at"
+                    type="datetime-local"
+                    value={sendAt}
+                    onChange={(e) => setSendAt(e.target.value)}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Your club's local time. Leave empty to save a draft and send it yourself.
+                  </p>
+                </div>
+                <div>
+                  <Label>Repeat</Label>
+                  <Select
+                    value={recurrence}
+                    onValueChange={(v: string) => setRecurrence(v as Recurrence)}
+                    disabled={!sendAt}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(RECURRENCE_LABELS) as Recurrence[]).map((r) => (
+                        <SelectItem key={r} value={r}>{RECURRENCE_LABELS[r]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {recurrence !== 'none' && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Each send goes to whoever matches the filters at that time.
+                    </p>
+                  )}
+                </div>
               </div>
 
               <div className="flex gap-2">
                 <Button type="submit" disabled={creating}>
                   {creating ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : null}
-                  Create Draft
+                  {sendAt ? 'Schedule' : 'Create Draft'}
                 </Button>
                 <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
                   Cancel
@@ -356,13 +643,116 @@ export function PickleCampaignAdmin() {
             ) : (
               <p className="text-gray-500 text-sm">No sample recipients</p>
             )}
-            <Button variant="outline" size="sm" className="mt-3" onClick={() => setPreview(null)}>
+            {messagePreview && (
+              <div className="mt-4 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Label className="shrink-0">Preview as</Label>
+                  {messagePreview.sampleRecipients.length > 0 ? (
+                    <Select
+                      value={messagePreview.recipient?.userId}
+                      onValueChange={(v: string) => loadMessagePreview(previewCampaignId, v)}
+                    >
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {messagePreview.sampleRecipients.map((r) => (
+                          <SelectItem key={r.userId} value={r.userId}>{r.fullName}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <span className="text-sm text-gray-500">a sample player</span>
+                  )}
+                </div>
+                {previewChannel === 'email' ? (
+                  <>
+                    {messagePreview.subjects.map((subject, i) => (
+                      <p key={i} className="text-xs text-gray-500">
+                        {messagePreview.subjects.length > 1 ? `Subject ${String.fromCharCode(65 + i)}` : 'Subject'}:{' '}
+                        <strong>{subject}</strong>
+                      </p>
+                    ))}
+                    <div
+                      className="bg-white rounded-lg border overflow-hidden"
+                      dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(messagePreview.html) }}
+                    />
+                  </>
+                ) : (
+                  <p className="text-sm whitespace-pre-wrap rounded-lg border bg-gray-50 p-3">{messagePreview.body}</p>
+                )}
+              </div>
+            )}
+            <Button variant="outline" size="sm" className="mt-3" onClick={closePreview}>
               Close
             </Button>
           </CardContent>
         </Card>
       )}
 
+      {resultsCampaign && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Delivery — {resultsCampaign.name}</CardTitle>
+            <CardDescription>
+              {sends.filter((x) => x.status === 'sent').length} sent ·{' '}
+              {sends.filter((x) => x.deliveryStatus === 'delivered').length} delivered ·{' '}
+              {sends.filter((x) => x.status === 'failed' || x.deliveryStatus === 'undelivered').length} failed ·{' '}
+              {sends.filter((x) => x.status === 'skipped').length} skipped
+              {resultsCampaign.channel === 'email' && (
+                <>
+                  {' '}· {sends.filter((x) => x.openedAt).length} opened ·{' '}
+                  {sends.filter((x) => x.clickedAt).length} clicked
+                </>
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {engagement.length > 1 && (
+              <table className="w-full text-sm mb-4">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="font-normal">Subject</th>
+                    <th className="font-normal text-right">Sent</th>
+                    <th className="font-normal text-right">Opened</th>
+                    <th className="font-normal text-right">Clicked</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {engagement.map((v) => (
+                    <tr key={v.variant}>
+                      <td>{String.fromCharCode(65 + v.variant)} — {v.subject}</td>
+                      <td className="text-right">{v.sent}</td>
+                      <td className="text-right">{percent(v.opened, v.sent)}</td>
+                      <td className="text-right">{percent(v.clicked, v.sent)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {sends.length > 0 ? (
+              <ul className="text-sm space-y-1 max-h-80 overflow-y-auto">
+                {sends.map((x) => (
+                  <li key={x.id} className="flex justify-between gap-4">
+                    <span>{x.fullName || x.email || x.userId}</span>
+                    <span className="text-gray-500">{describeSend(x)}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-500 text-sm">Nothing sent yet</p>
+            )}
+            <div className="flex gap-2 mt-3">
+              <Button variant="outline" size="sm" onClick={() => handleResults(resultsCampaign)}>
+                <RefreshCw className="h-4 w-4 mr-1" />
+                Refresh
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setResultsCampaign(null)}>
+                Close
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <div className="space-y-3">
         {campaigns.length === 0 ? (
           <Card>
@@ -371,48 +761,74 @@ export function PickleCampaignAdmin() {
             </CardContent>
           </Card>
         ) : (
-          campaigns.map((c) => (
-            <Card key={c.id}>
-              <CardContent className="py-4 flex items-center justify-between gap-4">
-                <div>
-                  <div className="flex items-center gap-2">
-                    <Mail className="h-4 w-4 text-gray-400" />
-                    <span className="font-medium">{c.name}</span>
-                    <Badge className={STATUS_COLORS[c.status] || ''}>{c.status}</Badge>
-                    <Badge variant="outline">{c.channel}</Badge>
+          campaigns.map((c) => {
+            const ChannelIcon = CHANNEL_ICONS[c.channel] || Mail;
+            return (
+              <Card key={c.id}>
+                <CardContent className="py-4 flex items-center justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <ChannelIcon className="h-4 w-4 text-gray-400" />
+                      <span className="font-medium">{c.name}</span>
+                      <Badge className={STATUS_COLORS[c.status] || ''}>{c.status}</Badge>
+                      <Badge variant="outline">{c.channel}</Badge>
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1 line-clamp-1">{c.templateBody}</p>
+                    {describeSchedule(c) && (
+                      <p className="text-xs text-blue-700 mt-1 flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        {describeSchedule(c)}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-400 mt-1">
+                      Created {new Date(c.createdAt).toLocaleDateString()}
+                    </p>
                   </div>
-                  <p className="text-sm text-gray-500 mt-1 line-clamp-1">{c.templateBody}</p>
-                  <p className="text-xs text-gray-400 mt-1">
-                    Created {new Date(c.createdAt).toLocaleDateString()}
-                  </p>
-                </div>
-                <div className="flex gap-2 shrink-0">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handlePreview(c.id)}
-                  >
-                    <Eye className="h-4 w-4 mr-1" />
-                    Preview
-                  </Button>
-                  {c.status === 'draft' && (
+                  <div className="flex gap-2 shrink-0">
                     <Button
+                      variant="outline"
                       size="sm"
-                      onClick={() => handleSend(c.id)}
-                      disabled={sendingId === c.id}
+                      onClick={() => handlePreview(c)}
                     >
-                      {sendingId === c.id ? (
-                        <RefreshCw className="h-4 w-4 mr-1 animate-spin" />
-                      ) : (
-                        <Send className="h-4 w-4 mr-1" />
-                      )}
-                      Send
+                      <Eye className="h-4 w-4 mr-1" />
+                      Preview
                     </Button>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
-          ))
+                    {(c.status === 'sending' || c.status === 'sent') && (
+                      <Button variant="outline" size="sm" onClick={() => handleResults(c)}>
+                        <ListChecks className="h-4 w-4 mr-1" />
+                        Results
+                      </Button>
+                    )}
+                    {(c.status === 'draft' || c.status === 'scheduled' || c.status === 'sending') && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleCancel(c)}
+                        disabled={cancelingId === c.id}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        {c.status === 'sending' ? 'Stop' : 'Cancel'}
+                      </Button>
+                    )}
+                    {c.status === 'draft' && (
+                      <Button
+                        size="sm"
+                        onClick={() => handleSend(c.id)}
+                        disabled={sendingId === c.id}
+                      >
+                        {sendingId === c.id ? (
+                          <RefreshCw className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <Send className="h-4 w-4 mr-1" />
+                        )}
+                        Send
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })
         )}
       </div>
     </div>
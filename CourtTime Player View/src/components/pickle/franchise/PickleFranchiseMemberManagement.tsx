@@ -21,7 +21,7 @@ import { useAuth } from '../../../contexts/AuthContext';
 
 interface FacilityMemberRow {
   userId: string;
-  email: string;
+  email: string | null;
   fullName: string;
   membershipStatus: string;
   membershipType: string;
@@ -118,7 +118,7 @@ export function PickleFranchiseMemberManagement() {
     const q = search.toLowerCase();
     return (
       member.fullName.toLowerCase().includes(q)
-      || member.email.toLowerCase().includes(q)
+      || (member.email ?? '').toLowerCase().includes(q)
       || member.tierLabel.toLowerCase().includes(q)
     );
   });
@@ -270,7 +270,7 @@ export function PickleFranchiseMemberManagement() {
                   {filteredMembers.map((member) => (
                     <TableRow key={member.userId}>
                       <TableCell className="font-medium">{member.fullName}</TableCell>
-                      <TableCell>{member.email}</TableCell>
+                      <TableCell>{member.email ?? '—'}</TableCell>
                       <TableCell>
                         <Badge className={TIER_COLORS[member.tierLabel] ?? TIER_COLORS.non_member}>
                           {formatTierLabel(member.tierLabel, member.productName)}
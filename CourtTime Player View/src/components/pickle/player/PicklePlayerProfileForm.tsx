@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../..
 import { Input } from '../../ui/input';
 import { Label } from '../../ui/label';
 import { Badge } from '../../ui/badge';
+import { Switch } from '../../ui/switch';
 import {
   User, Target, Calendar, Trophy, Save, RefreshCw, CheckCircle2, AlertCircle,
 } from 'lucide-react';
@@ -21,6 +22,8 @@ interface PickleProfile {
   preferredPrograms: string[];
   availabilityJson: Record<string, unknown>;
   equipmentBrands: Record<string, unknown>;
+  campaignPushConsent: boolean;
+  campaignSmsConsent: boolean;
 }
 
 interface LifecycleSnapshot {
@@ -76,6 +79,8 @@ export function PicklePlayerProfileForm() {
     preferredPrograms: [],
     availabilityJson: {},
     equipmentBrands: {},
+    campaignPushConsent: true,
+    campaignSmsConsent: false,
   });
   const [lifecycle, setLifecycle] = useState<LifecycleSnapshot | null>(null);
   const [paddleBrand, setPaddleBrand] = useState('');
@@ -127,6 +132,8 @@ export function PicklePlayerProfileForm() {
         preferredFormats: profile.preferredFormats,
         preferredPrograms: profile.preferredPrograms,
         availabilityJson: profile.availabilityJson,
+        campaignPushConsent: profile.campaignPushConsent,
+        campaignSmsConsent: profile.campaignSmsConsent,
         equipmentBrands: {
           paddle: paddleBrand || undefined,
           ball: ballBrand || undefined,
@@ -350,6 +357,32 @@ export function PicklePlayerProfileForm() {
               </div>
             </div>
 
+            <div className="space-y-3">
+              <Label className="block">Club Announcements</Label>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-medium">Push notifications</p>
+                  <p className="text-xs text-gray-500">Program and event news on your phone</p>
+                </div>
+                <Switch
+                  checked={profile.campaignPushConsent}
+                  onCheckedChange={(checked: boolean) => setProfile({ ...profile, campaignPushConsent: checked })}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-medium">Text messages</p>
+                  <p className="text-xs text-gray-500">
+                    Sent to the phone number on your account. Reply STOP to any text to opt out.
+                  </p>
+                </div>
+                <Switch
+                  checked={profile.campaignSmsConsent}
+                  onCheckedChange={(checked: boolean) => setProfile({ ...profile, campaignSmsConsent: checked })}
+                />
+              </div>
+            </div>
+
             <Button type="submit" disabled={saving}>
               {saving ? (
                 <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { toast } from 'sonner@2.0.3';
 import { notificationsApi } from '../api/client';
+import { subscribeToRealtime } from '../api/realtime';
 import { useAuth } from './AuthContext';
 
 export interface Notification {
@@ -65,16 +66,32 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
     }
   };
 
-  // Initial load and periodic refresh (pauses when tab is hidden)
+  // Initial load, live updates from the realtime stream, and a slow periodic
+  // refresh as a fallback (pauses when tab is hidden)
   useEffect(() => {
     if (user?.id) {
       refreshNotifications();
 
+      let connectedBefore = false;
+      const closeStream = subscribeToRealtime(
+        {},
+        (event) => {
+          if (event.type === 'notification.created') refreshNotifications();
+          // The sidebar's unread-messages badge listens for this
+          if (event.type === 'message.created') window.dispatchEvent(new Event('messages:unread-changed'));
+        },
+        () => {
+          // Catch up on anything sent while the stream was down
+          if (connectedBefore) refreshNotifications();
+          connectedBefore = true;
+        }
+      );
+
       let interval: ReturnType<typeof setInterval> | null = null;
 
       const startPolling = () => {
         if (!interval) {
-          interval = setInterval(refreshNotifications, 30000);
+          interval = setInterval(refreshNotifications, 120000);
         }
       };
 
@@ -98,6 +115,7 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
       document.addEventListener('visibilitychange', handleVisibilityChange);
 
       return () => {
+        closeStream();
         stopPolling();
         document.removeEventListener('visibilitychange', handleVisibilityChange);
       };
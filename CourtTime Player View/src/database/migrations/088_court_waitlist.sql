@@ -0,0 +1,56 @@
+-- Court waitlist: members queue for a specific court + time window that is
+-- already booked. When cancelBooking frees an overlapping reservation, the
+-- next eligible member (re-checked against the rules engine) is offered the
+-- slot with a timed claim window. Gated behind the court_waitlist feature flag.
+--
+-- Queue order is created_at — first in, first offered. A member who is not
+-- currently eligible (e.g. at their weekly cap) is skipped, not dropped, so
+-- they can still be offered a later cancellation for the same window.
+
+CREATE TABLE IF NOT EXISTS court_waitlist_entries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    facility_id VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+    court_id UUID NOT NULL REFERENCES courts(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    booking_date DATE NOT NULL,
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'waiting'
+        CHECK (status IN ('waiting', 'offered', 'claimed', 'expired', 'cancelled')),
+    offered_at TIMESTAMP,
+    -- While an offer is open the slot is held for this member only; createBooking
+    -- treats an unexpired offer held by someone else as a conflict.
+    offer_expires_at TIMESTAMP,
+    claimed_booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CHECK (end_time > start_time)
+);
+
+-- One live entry per member per court window; re-joining after leaving is fine.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_court_waitlist_unique_active
+    ON court_waitlist_entries (court_id, user_id, booking_date, start_time, end_time)
+    WHERE status IN ('waiting', 'offered');
+
+CREATE INDEX IF NOT EXISTS idx_court_waitlist_slot
+    ON court_waitlist_entries (court_id, booking_date, status, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_court_waitlist_user
+    ON court_waitlist_entries (user_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_court_waitlist_offer_expiry
+    ON court_waitlist_entries (offer_expires_at)
+    WHERE status = 'offered';
+
+CREATE TRIGGER update_court_waitlist_entries_updated_at
+BEFORE UPDATE ON court_waitlist_entries
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Match 070_enable_rls.sql: backend connects as postgres (BYPASSRLS); enabling
+-- RLS with no policies closes the unused PostgREST surface.
+ALTER TABLE IF EXISTS public.court_waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO facility_features (facility_id, feature_key, is_enabled, updated_at)
+SELECT id, 'court_waitlist', false, NOW()
+FROM facilities
+ON CONFLICT (facility_id, feature_key) DO NOTHING;
@@ -0,0 +1,110 @@
+-- First-class private lessons (lessons_tab feature flag). Until now the Lessons
+-- tab only re-served bulletin posts (074_lessons_tab.sql); those stay as-is for
+-- clinics and group lessons. This adds bookable one-on-one lessons with a pro:
+--
+--   lesson_pros              a facility member who teaches, with their own price
+--                            and lesson length
+--   lesson_pro_availability  weekly windows the pro is bookable in
+--   lesson_bookings          a member's lesson with a pro; holds a court through
+--                            a regular bookings row (booking_type 'lesson')
+--
+-- Paid lessons go through Stripe Connect Checkout. Until payment lands the
+-- lesson is 'pending_payment' and its court booking is 'pending'; an unpaid hold
+-- is released once hold_expires_at passes.
+
+CREATE TABLE IF NOT EXISTS lesson_pros (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    facility_id VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    title VARCHAR(100),
+    bio TEXT,
+    -- Per lesson, not per hour. 0 = free (booked without checkout).
+    price_cents INTEGER NOT NULL DEFAULT 0 CHECK (price_cents >= 0),
+    lesson_duration_minutes INTEGER NOT NULL DEFAULT 60
+        CHECK (lesson_duration_minutes BETWEEN 15 AND 240),
+    -- Courts this pro teaches on; empty = any reservable court at the facility.
+    court_ids UUID[] NOT NULL DEFAULT '{}',
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (facility_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS lesson_pro_availability (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    pro_id UUID NOT NULL REFERENCES lesson_pros(id) ON DELETE CASCADE,
+    -- 0 = Sunday … 6 = Saturday, matching Date#getDay().
+    day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_pro_availability_pro
+    ON lesson_pro_availability (pro_id, day_of_week);
+
+CREATE TABLE IF NOT EXISTS lesson_bookings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    facility_id VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+    pro_id UUID NOT NULL REFERENCES lesson_pros(id) ON DELETE CASCADE,
+    member_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    lesson_date DATE NOT NULL,
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    -- Price snapshot so a later repricing doesn't change what was charged.
+    price_cents INTEGER NOT NULL DEFAULT 0,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending_payment'
+        CHECK (status IN ('pending_payment', 'confirmed', 'cancelled', 'expired')),
+    hold_expires_at TIMESTAMP,
+    connect_payment_id UUID REFERENCES connect_payments(id) ON DELETE SET NULL,
+    stripe_checkout_session_id VARCHAR(255),
+    notes TEXT,
+    cancelled_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    cancelled_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CHECK (end_time > start_time)
+);
+
+-- A pro can only be in one lesson at a time.
+CREATE INDEX IF NOT EXISTS idx_lesson_bookings_pro_date
+    ON lesson_bookings (pro_id, lesson_date)
+    WHERE status IN ('pending_payment', 'confirmed');
+
+CREATE INDEX IF NOT EXISTS idx_lesson_bookings_member
+    ON lesson_bookings (member_id, lesson_date);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_bookings_hold_expiry
+    ON lesson_bookings (hold_expires_at)
+    WHERE status = 'pending_payment';
+
+CREATE INDEX IF NOT EXISTS idx_lesson_bookings_checkout_session
+    ON lesson_bookings (stripe_checkout_session_id);
+
+CREATE TRIGGER update_lesson_pros_updated_at
+BEFORE UPDATE ON lesson_pros
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_lesson_bookings_updated_at
+BEFORE UPDATE ON lesson_bookings
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Private lesson fees are their own revenue line.
+ALTER TABLE facility_revenue_log
+  DROP CONSTRAINT IF EXISTS facility_revenue_log_payment_type_check;
+
+ALTER TABLE facility_revenue_log
+  ADD CONSTRAINT facility_revenue_log_payment_type_check
+    CHECK (payment_type IN (
+      'COURT_BOOKING', 'BULLETIN_SIGNUP', 'PAYMENT_ITEM',
+      'GUEST_FEE', 'PLATFORM_SUBSCRIPTION', 'BALL_MACHINE_PASS',
+      'LESSON'
+    ));
+
+-- Match 070_enable_rls.sql: backend connects as postgres (BYPASSRLS); enabling
+-- RLS with no policies closes the unused PostgREST surface.
+ALTER TABLE IF EXISTS public.lesson_pros ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.lesson_pro_availability ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.lesson_bookings ENABLE ROW LEVEL SECURITY;
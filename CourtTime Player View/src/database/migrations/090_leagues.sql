@@ -0,0 +1,120 @@
+-- League management (leagues feature flag). Replaces the spreadsheets clubs use
+-- for ALTA/USTA/flex leagues:
+--
+--   leagues               a named competition at a facility (format + booking type)
+--   league_seasons        one run of a league: match night, start time, courts
+--   league_teams          a team (or a single player in a singles ladder)
+--   league_team_members   who plays on a team
+--   league_fixtures       one match between two teams; holds a court through a
+--                         regular bookings row made with the league's booking type
+--
+-- Round-robin seasons are scheduled in one go; ladder seasons one round at a
+-- time, since each round pairs neighbours on the ladder as it stands.
+
+CREATE TABLE IF NOT EXISTS leagues (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    facility_id VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+    name VARCHAR(120) NOT NULL,
+    description TEXT,
+    format VARCHAR(20) NOT NULL DEFAULT 'round_robin'
+        CHECK (format IN ('round_robin', 'ladder')),
+    -- One of the league booking types in shared/constants/bookingTypes.ts.
+    booking_type VARCHAR(50) NOT NULL DEFAULT 'league_match'
+        CHECK (booking_type IN ('league_match', 'alta_tennis', 'usta_tennis', 'flex_tennis')),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_leagues_facility ON leagues (facility_id);
+
+CREATE TABLE IF NOT EXISTS league_seasons (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    league_id UUID NOT NULL REFERENCES leagues(id) ON DELETE CASCADE,
+    name VARCHAR(120) NOT NULL,
+    start_date DATE NOT NULL,
+    -- 0 = Sunday … 6 = Saturday, matching Date#getDay().
+    match_day_of_week SMALLINT NOT NULL CHECK (match_day_of_week BETWEEN 0 AND 6),
+    match_start_time TIME NOT NULL,
+    match_duration_minutes INTEGER NOT NULL DEFAULT 90
+        CHECK (match_duration_minutes BETWEEN 30 AND 300),
+    -- Courts fixtures may be placed on; empty = any reservable court at the facility.
+    court_ids UUID[] NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'draft'
+        CHECK (status IN ('draft', 'scheduled', 'completed')),
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_league_seasons_league ON league_seasons (league_id);
+
+CREATE TABLE IF NOT EXISTS league_teams (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    season_id UUID NOT NULL REFERENCES league_seasons(id) ON DELETE CASCADE,
+    name VARCHAR(120) NOT NULL,
+    captain_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    -- Ladder position (1 = top). Round-robin seasons keep entry order here.
+    ladder_rank INTEGER NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (season_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS league_team_members (
+    team_id UUID NOT NULL REFERENCES league_teams(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (team_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_league_team_members_user ON league_team_members (user_id);
+
+CREATE TABLE IF NOT EXISTS league_fixtures (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    season_id UUID NOT NULL REFERENCES league_seasons(id) ON DELETE CASCADE,
+    round_number INTEGER NOT NULL,
+    home_team_id UUID NOT NULL REFERENCES league_teams(id) ON DELETE CASCADE,
+    away_team_id UUID NOT NULL REFERENCES league_teams(id) ON DELETE CASCADE,
+    match_date DATE NOT NULL,
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    court_id UUID REFERENCES courts(id) ON DELETE SET NULL,
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    -- 'unscheduled' = no court could be reserved; an admin places it by hand.
+    status VARCHAR(20) NOT NULL DEFAULT 'scheduled'
+        CHECK (status IN ('scheduled', 'unscheduled', 'completed', 'cancelled')),
+    -- Sets (or rubbers) won by each side; score_detail is the free-text line score.
+    home_score INTEGER CHECK (home_score >= 0),
+    away_score INTEGER CHECK (away_score >= 0),
+    score_detail VARCHAR(200),
+    winner_team_id UUID REFERENCES league_teams(id) ON DELETE SET NULL,
+    reported_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reported_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CHECK (home_team_id <> away_team_id),
+    CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_league_fixtures_season ON league_fixtures (season_id, round_number);
+CREATE INDEX IF NOT EXISTS idx_league_fixtures_date ON league_fixtures (match_date);
+
+CREATE TRIGGER update_leagues_updated_at
+BEFORE UPDATE ON leagues
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_league_seasons_updated_at
+BEFORE UPDATE ON league_seasons
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_league_fixtures_updated_at
+BEFORE UPDATE ON league_fixtures
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Match 070_enable_rls.sql: backend connects as postgres (BYPASSRLS); enabling
+-- RLS with no policies closes the unused PostgREST surface.
+ALTER TABLE IF EXISTS public.leagues ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.league_seasons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.league_teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.league_team_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.league_fixtures ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,97 @@
+-- Tournament brackets (tournaments feature flag) behind the 'tournament' booking type:
+--
+--   tournaments            a draw at a facility: format, dates, match length, courts
+--   tournament_entrants    a player or doubles team, with an optional seed
+--   tournament_matches     one bracket match; its entrants arrive from the seed
+--                          draw or from an earlier match (feed_*), and once both
+--                          are known it can hold a court through a regular booking
+--
+-- Matches point at their feeders by match_key (e.g. 'W2-1', 'L3-2', 'East1-4')
+-- so the whole bracket can be inserted at once and advanced generically.
+
+CREATE TABLE IF NOT EXISTS tournaments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    facility_id VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+    name VARCHAR(120) NOT NULL,
+    description TEXT,
+    format VARCHAR(30) NOT NULL DEFAULT 'single_elimination'
+        CHECK (format IN ('single_elimination', 'double_elimination', 'compass')),
+    status VARCHAR(20) NOT NULL DEFAULT 'draft'
+        CHECK (status IN ('draft', 'drawn', 'completed')),
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    match_duration_minutes INTEGER NOT NULL DEFAULT 90
+        CHECK (match_duration_minutes BETWEEN 30 AND 300),
+    -- Courts matches may be placed on; empty = any reservable court at the facility.
+    court_ids UUID[] NOT NULL DEFAULT '{}',
+    -- Anyone with the link can view the bracket (no login) once it is drawn.
+    is_public BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournaments_facility ON tournaments (facility_id, start_date DESC);
+
+CREATE TABLE IF NOT EXISTS tournament_entrants (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tournament_id UUID NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+    name VARCHAR(120) NOT NULL,
+    seed INTEGER CHECK (seed >= 1),
+    -- Members playing as this entrant (one for singles, two for doubles); may be
+    -- empty for guests entered by name only.
+    player_ids UUID[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (tournament_id, name)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tournament_entrants_seed
+    ON tournament_entrants (tournament_id, seed) WHERE seed IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS tournament_matches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tournament_id UUID NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+    match_key VARCHAR(40) NOT NULL,
+    -- 'Main', 'Winners', 'Losers', 'Final', or a compass direction.
+    draw VARCHAR(20) NOT NULL,
+    round INTEGER NOT NULL,
+    position INTEGER NOT NULL,
+    entrant_a_id UUID REFERENCES tournament_entrants(id) ON DELETE SET NULL,
+    entrant_b_id UUID REFERENCES tournament_entrants(id) ON DELETE SET NULL,
+    feed_a_key VARCHAR(40),
+    feed_a_outcome VARCHAR(10) CHECK (feed_a_outcome IN ('winner', 'loser')),
+    feed_b_key VARCHAR(40),
+    feed_b_outcome VARCHAR(10) CHECK (feed_b_outcome IN ('winner', 'loser')),
+    -- pending: waiting on a feeder; ready: both entrants known; walkover: one
+    -- entrant advanced on a bye; void: neither side will ever arrive.
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'ready', 'in_progress', 'completed', 'walkover', 'void')),
+    winner_id UUID REFERENCES tournament_entrants(id) ON DELETE SET NULL,
+    loser_id UUID REFERENCES tournament_entrants(id) ON DELETE SET NULL,
+    score VARCHAR(100),
+    court_id UUID REFERENCES courts(id) ON DELETE SET NULL,
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    match_date DATE,
+    start_time TIME,
+    end_time TIME,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (tournament_id, match_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournament_matches_tournament ON tournament_matches (tournament_id, draw, round, position);
+
+CREATE TRIGGER update_tournaments_updated_at
+BEFORE UPDATE ON tournaments
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_tournament_matches_updated_at
+BEFORE UPDATE ON tournament_matches
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Match 070_enable_rls.sql: backend connects as postgres (BYPASSRLS); enabling
+-- RLS with no policies closes the unused PostgREST surface.
+ALTER TABLE IF EXISTS public.tournaments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.tournament_entrants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.tournament_matches ENABLE ROW LEVEL SECURITY;
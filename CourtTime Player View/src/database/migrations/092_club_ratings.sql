@@ -0,0 +1,73 @@
+-- Member match results and club ratings (club_ratings feature flag):
+--
+--   match_results        a singles or doubles result reported on a finished
+--                        booking; side A is the reporter's, side B confirms it
+--   club_ratings         one Glicko rating per member per facility
+--   club_rating_changes  before/after for every player a confirmed result moved
+--
+-- Ratings only change when the other side confirms, so a disputed or
+-- abandoned report never touches anyone's rating.
+
+CREATE TABLE IF NOT EXISTS match_results (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    facility_id VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    reported_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    team_a UUID[] NOT NULL,
+    team_b UUID[] NOT NULL,
+    -- [{ "a": 6, "b": 4 }, ...] games per set, side A first.
+    sets JSONB NOT NULL,
+    winner_side CHAR(1) NOT NULL CHECK (winner_side IN ('a', 'b')),
+    played_on DATE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'confirmed', 'disputed', 'cancelled')),
+    confirmed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    confirmed_at TIMESTAMP,
+    dispute_reason TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CHECK (cardinality(team_a) = cardinality(team_b) AND cardinality(team_a) BETWEEN 1 AND 2)
+);
+
+-- One live result per booking; a disputed or cancelled report can be redone.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_match_results_booking_active
+    ON match_results (booking_id) WHERE status IN ('pending', 'confirmed');
+CREATE INDEX IF NOT EXISTS idx_match_results_facility ON match_results (facility_id, played_on DESC);
+CREATE INDEX IF NOT EXISTS idx_match_results_team_a ON match_results USING GIN (team_a);
+CREATE INDEX IF NOT EXISTS idx_match_results_team_b ON match_results USING GIN (team_b);
+
+CREATE TABLE IF NOT EXISTS club_ratings (
+    facility_id VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    rating NUMERIC(7, 2) NOT NULL DEFAULT 1500,
+    rating_deviation NUMERIC(6, 2) NOT NULL DEFAULT 350,
+    matches_played INTEGER NOT NULL DEFAULT 0,
+    last_played_on DATE,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (facility_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_club_ratings_rating ON club_ratings (facility_id, rating DESC);
+
+CREATE TABLE IF NOT EXISTS club_rating_changes (
+    result_id UUID NOT NULL REFERENCES match_results(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    rating_before NUMERIC(7, 2) NOT NULL,
+    rating_after NUMERIC(7, 2) NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (result_id, user_id)
+);
+
+CREATE TRIGGER update_match_results_updated_at
+BEFORE UPDATE ON match_results
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_club_ratings_updated_at
+BEFORE UPDATE ON club_ratings
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Match 070_enable_rls.sql: backend connects as postgres (BYPASSRLS); enabling
+-- RLS with no policies closes the unused PostgREST surface.
+ALTER TABLE IF EXISTS public.match_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.club_ratings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.club_rating_changes ENABLE ROW LEVEL SECURITY;
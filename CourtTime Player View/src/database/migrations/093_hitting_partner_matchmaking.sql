@@ -0,0 +1,50 @@
+-- Hitting partner matchmaking:
+--
+--   hitting_partner_posts   gains structured weekly availability windows and
+--                           the skill range the poster wants to play against
+--   hitting_invitations     a proposed hit (court + time) from one member to
+--                           another; the court is only booked once the
+--                           invitee accepts
+--
+-- The free-text availability column stays for the description shown on
+-- older posts.
+
+ALTER TABLE hitting_partner_posts
+    ADD COLUMN IF NOT EXISTS availability_windows JSONB NOT NULL DEFAULT '[]'::jsonb,
+    ADD COLUMN IF NOT EXISTS skill_min VARCHAR(50),
+    ADD COLUMN IF NOT EXISTS skill_max VARCHAR(50);
+
+CREATE TABLE IF NOT EXISTS hitting_invitations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    facility_id VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+    post_id UUID REFERENCES hitting_partner_posts(id) ON DELETE SET NULL,
+    from_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    to_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    court_id UUID NOT NULL REFERENCES courts(id) ON DELETE CASCADE,
+    booking_date DATE NOT NULL,
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    message TEXT,
+    -- pending: waiting on the invitee; booked: both accepted and the court is
+    -- reserved; failed: accepted, but the booking could not be made.
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'booked', 'declined', 'cancelled', 'expired', 'failed')),
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    failure_reason TEXT,
+    responded_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CHECK (from_user_id <> to_user_id),
+    CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_hitting_invitations_to ON hitting_invitations (to_user_id, status);
+CREATE INDEX IF NOT EXISTS idx_hitting_invitations_from ON hitting_invitations (from_user_id, status);
+
+CREATE TRIGGER update_hitting_invitations_updated_at
+BEFORE UPDATE ON hitting_invitations
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Match 070_enable_rls.sql: backend connects as postgres (BYPASSRLS); enabling
+-- RLS with no policies closes the unused PostgREST surface.
+ALTER TABLE IF EXISTS public.hitting_invitations ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,47 @@
+-- Admin audit log: one row per successful mutating request through the
+-- admin, support, rules, strikes, members and court-config routes.
+--
+-- Append-only: a trigger rejects UPDATE and DELETE. For the same reason there
+-- are no foreign keys — deleting a facility or user must not cascade into (or
+-- be blocked by) its history — so the actor's name is copied onto the row.
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- admin: a facility admin's JWT; support: the shared support console password
+    actor_type VARCHAR(20) NOT NULL CHECK (actor_type IN ('admin', 'support')),
+    actor_user_id UUID,
+    actor_name VARCHAR(255),
+    facility_id VARCHAR(50),
+    -- admin | support | rules | strikes | members | court_config
+    source VARCHAR(30) NOT NULL,
+    -- "PATCH /api/admin/courts/:courtId"
+    action VARCHAR(255) NOT NULL,
+    entity_type VARCHAR(50) NOT NULL,
+    entity_id VARCHAR(255),
+    -- { field: { before, after } } for entities that are snapshotted around the change
+    changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+    -- ip, userAgent, statusCode, params, query and the (redacted) request body
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_facility ON admin_audit_log (facility_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor ON admin_audit_log (actor_user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_entity ON admin_audit_log (entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created ON admin_audit_log (created_at DESC);
+
+CREATE OR REPLACE FUNCTION reject_admin_audit_log_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'admin_audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS admin_audit_log_append_only ON admin_audit_log;
+CREATE TRIGGER admin_audit_log_append_only
+BEFORE UPDATE OR DELETE ON admin_audit_log
+FOR EACH ROW EXECUTE FUNCTION reject_admin_audit_log_change();
+
+-- Match 070_enable_rls.sql: backend connects as postgres (BYPASSRLS); enabling
+-- RLS with no policies closes the unused PostgREST surface.
+ALTER TABLE IF EXISTS public.admin_audit_log ENABLE ROW LEVEL SECURITY;
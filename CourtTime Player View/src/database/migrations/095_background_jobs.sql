@@ -0,0 +1,62 @@
+-- Background job queue: replaces the in-process setInterval sweeps in
+-- server/index.ts, which fired once per API instance and lost work on restart.
+--
+-- Workers claim queued rows with FOR UPDATE SKIP LOCKED, so each job runs on
+-- exactly one instance. A failed job is re-queued with exponential backoff
+-- until max_attempts, then parked as 'dead' for support to retry or cancel.
+-- Recurring jobs (interval_seconds set) are a single row per job type that is
+-- re-queued after every run and never dies.
+
+CREATE TABLE IF NOT EXISTS background_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    job_type VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'succeeded', 'dead', 'canceled')),
+    run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5 CHECK (max_attempts > 0),
+    interval_seconds INTEGER CHECK (interval_seconds IS NULL OR interval_seconds > 0),
+    -- At most one job per key, e.g. "campaign_send:<campaignId>" or the recurring job type
+    dedupe_key VARCHAR(255) UNIQUE,
+    last_error TEXT,
+    -- "<hostname>:<pid>" of the worker holding the job while running
+    locked_by VARCHAR(255),
+    locked_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_background_jobs_due ON background_jobs (run_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_background_jobs_running ON background_jobs (locked_at) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_background_jobs_status ON background_jobs (status, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_background_jobs_type ON background_jobs (job_type, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_background_jobs_updated_at ON background_jobs;
+CREATE TRIGGER update_background_jobs_updated_at
+BEFORE UPDATE ON background_jobs
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- One row per attempt: the run history shown in the support console.
+CREATE TABLE IF NOT EXISTS background_job_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    job_id UUID NOT NULL REFERENCES background_jobs(id) ON DELETE CASCADE,
+    attempt INTEGER NOT NULL,
+    worker_id VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'running'
+        CHECK (status IN ('running', 'succeeded', 'failed')),
+    error TEXT,
+    -- Whatever the handler returned, e.g. { cancelled: 2 }
+    result JSONB,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_background_job_runs_job ON background_job_runs (job_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_background_job_runs_started ON background_job_runs (started_at);
+
+-- Match 070_enable_rls.sql: backend connects as postgres (BYPASSRLS); enabling
+-- RLS with no policies closes the unused PostgREST surface.
+ALTER TABLE IF EXISTS public.background_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.background_job_runs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,44 @@
+-- Booking reminders: a push notification and email sent a member-chosen
+-- number of hours before each confirmed booking, with links to confirm the
+-- booking or release the court (cancelled with no strike).
+
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS email_booking_reminders BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS booking_reminder_lead_hours INTEGER NOT NULL DEFAULT 24;
+
+ALTER TABLE user_preferences DROP CONSTRAINT IF EXISTS user_preferences_booking_reminder_lead_hours_check;
+ALTER TABLE user_preferences ADD CONSTRAINT user_preferences_booking_reminder_lead_hours_check
+  CHECK (booking_reminder_lead_hours BETWEEN 1 AND 72);
+
+COMMENT ON COLUMN user_preferences.email_booking_reminders IS 'Email for upcoming booking reminders';
+COMMENT ON COLUMN user_preferences.booking_reminder_lead_hours IS 'Hours before a booking starts that its reminder goes out';
+
+-- One reminder per booking. The token is the capability behind the email's
+-- confirm / release links, so those work without signing in.
+CREATE TABLE IF NOT EXISTS booking_reminders (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL UNIQUE REFERENCES bookings(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    facility_id VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+    token VARCHAR(64) NOT NULL UNIQUE,
+    lead_hours INTEGER NOT NULL,
+    -- Per channel, so a retried send doesn't repeat one that already went out
+    notified_at TIMESTAMPTZ,
+    emailed_at TIMESTAMPTZ,
+    response VARCHAR(20) CHECK (response IN ('confirmed', 'released')),
+    responded_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_reminders_user ON booking_reminders (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_booking_reminders_facility ON booking_reminders (facility_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_booking_reminders_updated_at ON booking_reminders;
+CREATE TRIGGER update_booking_reminders_updated_at
+BEFORE UPDATE ON booking_reminders
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Match 070_enable_rls.sql: backend connects as postgres (BYPASSRLS); enabling
+-- RLS with no policies closes the unused PostgREST surface.
+ALTER TABLE IF EXISTS public.booking_reminders ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,52 @@
+-- Annual fee installment plans, proration and dunning.
+--
+-- A member's fee for the year is split into one billing record per
+-- installment (1 for annual, up to 4 quarterly or 12 monthly). Records past
+-- the first start 'scheduled' and are charged on their due_date. A failed
+-- charge goes 'past_due' and is retried on the dunning schedule (1, 3 and 7
+-- days after the first failure); only the final failure applies a lockout.
+
+-- Installment plans a tier offers on top of paying the year up front
+ALTER TABLE annual_fee_tiers
+  ADD COLUMN IF NOT EXISTS installment_plans TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE annual_fee_tiers DROP CONSTRAINT IF EXISTS annual_fee_tiers_installment_plans_check;
+ALTER TABLE annual_fee_tiers ADD CONSTRAINT annual_fee_tiers_installment_plans_check
+  CHECK (installment_plans <@ ARRAY['monthly', 'quarterly']::TEXT[]);
+
+-- The plan each member pays on; falls back to annual if their tier doesn't offer it
+ALTER TABLE facility_memberships
+  ADD COLUMN IF NOT EXISTS annual_fee_plan VARCHAR(20) NOT NULL DEFAULT 'annual';
+
+ALTER TABLE facility_memberships DROP CONSTRAINT IF EXISTS facility_memberships_annual_fee_plan_check;
+ALTER TABLE facility_memberships ADD CONSTRAINT facility_memberships_annual_fee_plan_check
+  CHECK (annual_fee_plan IN ('annual', 'quarterly', 'monthly'));
+
+ALTER TABLE annual_fee_billing_records
+  ADD COLUMN IF NOT EXISTS plan VARCHAR(20) NOT NULL DEFAULT 'annual',
+  ADD COLUMN IF NOT EXISTS installment_number INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS installment_count INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS due_date DATE,
+  -- Tier amount for the full year and how many of its 12 months were billed
+  ADD COLUMN IF NOT EXISTS full_amount_cents INTEGER,
+  ADD COLUMN IF NOT EXISTS prorated_months INTEGER NOT NULL DEFAULT 12,
+  ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 0,
+  -- Dunning retries done so far (0 until the first retry)
+  ADD COLUMN IF NOT EXISTS dunning_step INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS dunning_started_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMPTZ;
+
+ALTER TABLE annual_fee_billing_records
+  DROP CONSTRAINT IF EXISTS annual_fee_billing_records_status_check;
+ALTER TABLE annual_fee_billing_records
+  ADD CONSTRAINT annual_fee_billing_records_status_check
+  CHECK (status IN ('scheduled', 'charged', 'past_due', 'lockout_applied', 'failed', 'waived', 'refunded'));
+
+CREATE INDEX IF NOT EXISTS idx_annual_fee_records_scheduled
+  ON annual_fee_billing_records (due_date) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_annual_fee_records_past_due
+  ON annual_fee_billing_records (next_retry_at) WHERE status = 'past_due';
+
+ALTER TABLE annual_fee_billing_runs
+  ADD COLUMN IF NOT EXISTS past_due_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS scheduled_count INTEGER NOT NULL DEFAULT 0;
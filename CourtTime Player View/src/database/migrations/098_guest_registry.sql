@@ -0,0 +1,67 @@
+-- Guest registry: the guests members bring, and each visit they make.
+--
+-- A guest is registered per facility the first time a member books with them
+-- and is matched on later bookings by email, or by name when no email was
+-- given. One guest_visits row per guest per booking; visits on cancelled
+-- bookings stay in the table but aren't counted (joins filter on the
+-- booking's status). ACC-012 / ACC-013 cap visits per host and per guest.
+
+CREATE TABLE IF NOT EXISTS facility_guests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    facility_id VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+    full_name VARCHAR(255) NOT NULL,
+    email VARCHAR(255),
+    -- Lowercased, whitespace-collapsed full_name; the match key for guests without an email
+    name_key VARCHAR(255) NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_facility_guests_email
+  ON facility_guests (facility_id, LOWER(email)) WHERE email IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_facility_guests_name_key ON facility_guests (facility_id, name_key);
+
+CREATE TABLE IF NOT EXISTS guest_visits (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    facility_id VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+    guest_id UUID NOT NULL REFERENCES facility_guests(id) ON DELETE CASCADE,
+    host_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+    visit_date DATE NOT NULL,
+    -- The court's per-guest fee when the booking was made
+    fee_cents INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (booking_id, guest_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_guest_visits_facility_date ON guest_visits (facility_id, visit_date);
+CREATE INDEX IF NOT EXISTS idx_guest_visits_guest_date ON guest_visits (guest_id, visit_date);
+CREATE INDEX IF NOT EXISTS idx_guest_visits_host_date ON guest_visits (host_user_id, facility_id, visit_date);
+
+DROP TRIGGER IF EXISTS update_facility_guests_updated_at ON facility_guests;
+CREATE TRIGGER update_facility_guests_updated_at
+BEFORE UPDATE ON facility_guests
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO booking_rule_definitions (rule_code, rule_category, rule_name, description, config_schema, default_config, evaluation_order, failure_message_template) VALUES
+('ACC-012', 'account', 'Guest Visits Per Year', 'Caps how many guest visits a member can host per calendar year',
+ '{"type":"object","properties":{"max_guest_visits":{"type":"integer"},"window_type":{"type":"string"}}}',
+ '{"max_guest_visits": 6, "window_type": "calendar_year"}',
+ 110, 'You have hosted {current} of your {max} guest visits for {year}.'),
+
+('ACC-013', 'account', 'Visits Per Guest Per Year', 'Caps how many times the same guest can visit per calendar year',
+ '{"type":"object","properties":{"max_visits_per_guest":{"type":"integer"},"window_type":{"type":"string"}}}',
+ '{"max_visits_per_guest": 3, "window_type": "calendar_year"}',
+ 111, '{guestName} has already visited {current} of {max} times allowed in {year}.')
+ON CONFLICT (rule_code) DO UPDATE SET
+    rule_name = EXCLUDED.rule_name,
+    description = EXCLUDED.description,
+    config_schema = EXCLUDED.config_schema,
+    default_config = EXCLUDED.default_config,
+    failure_message_template = EXCLUDED.failure_message_template;
+
+-- Match 070_enable_rls.sql: backend connects as postgres (BYPASSRLS); enabling
+-- RLS with no policies closes the unused PostgREST surface.
+ALTER TABLE IF EXISTS public.facility_guests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.guest_visits ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,81 @@
+-- Pro shop variants and inventory ledger.
+--
+-- A product can be sold in variants (size / color / grip size), each with its
+-- own stock. Products without variants keep tracking stock on
+-- pro_shop_products.stock_quantity; once a product has variants, sales must
+-- name one and stock moves on the variant row instead. NULL stock still means
+-- untracked / unlimited.
+--
+-- Every stock change is written to pro_shop_inventory_movements (sale,
+-- restock, adjustment, return) with the resulting stock level, so the ledger
+-- replays to the current count. low_stock_alerted_at marks a product or
+-- variant whose admins have already been told it is running low; it clears
+-- once stock is brought back above the threshold.
+
+CREATE TABLE IF NOT EXISTS pro_shop_product_variants (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    product_id UUID NOT NULL REFERENCES pro_shop_products(id) ON DELETE CASCADE,
+    facility_id VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+    size VARCHAR(30),
+    color VARCHAR(30),
+    grip_size VARCHAR(30),
+    sku VARCHAR(64),
+    stock_quantity INTEGER CHECK (stock_quantity IS NULL OR stock_quantity >= 0),
+    -- Overrides the product's threshold when set
+    low_stock_threshold INTEGER CHECK (low_stock_threshold IS NULL OR low_stock_threshold >= 0),
+    low_stock_alerted_at TIMESTAMPTZ,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (size IS NOT NULL OR color IS NOT NULL OR grip_size IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pro_shop_variants_options
+  ON pro_shop_product_variants (product_id, COALESCE(size, ''), COALESCE(color, ''), COALESCE(grip_size, ''));
+CREATE INDEX IF NOT EXISTS idx_pro_shop_variants_facility ON pro_shop_product_variants (facility_id);
+
+DROP TRIGGER IF EXISTS update_pro_shop_product_variants_updated_at ON pro_shop_product_variants;
+CREATE TRIGGER update_pro_shop_product_variants_updated_at
+BEFORE UPDATE ON pro_shop_product_variants
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE pro_shop_products
+  ADD COLUMN IF NOT EXISTS low_stock_threshold INTEGER CHECK (low_stock_threshold IS NULL OR low_stock_threshold >= 0),
+  ADD COLUMN IF NOT EXISTS low_stock_alerted_at TIMESTAMPTZ;
+
+ALTER TABLE pro_shop_order_items
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES pro_shop_product_variants(id) ON DELETE SET NULL,
+  -- Units handed back by the customer; never more than quantity
+  ADD COLUMN IF NOT EXISTS returned_quantity INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE pro_shop_order_items DROP CONSTRAINT IF EXISTS pro_shop_order_items_returned_quantity_check;
+ALTER TABLE pro_shop_order_items ADD CONSTRAINT pro_shop_order_items_returned_quantity_check
+  CHECK (returned_quantity >= 0 AND returned_quantity <= quantity);
+
+ALTER TABLE pro_shop_tab_items
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES pro_shop_product_variants(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS pro_shop_inventory_movements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    facility_id VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES pro_shop_products(id) ON DELETE CASCADE,
+    variant_id UUID REFERENCES pro_shop_product_variants(id) ON DELETE CASCADE,
+    movement_type VARCHAR(20) NOT NULL CHECK (movement_type IN ('sale', 'restock', 'adjustment', 'return')),
+    -- Signed: negative for sales, positive for restocks and returns
+    quantity_change INTEGER NOT NULL,
+    -- Stock after the movement; NULL when the item is not stock-tracked
+    stock_after INTEGER,
+    order_id UUID REFERENCES pro_shop_orders(id) ON DELETE SET NULL,
+    note TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pro_shop_movements_facility ON pro_shop_inventory_movements (facility_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pro_shop_movements_product ON pro_shop_inventory_movements (product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pro_shop_movements_order ON pro_shop_inventory_movements (order_id) WHERE order_id IS NOT NULL;
+
+-- Match 070_enable_rls.sql: backend connects as postgres (BYPASSRLS); enabling
+-- RLS with no policies closes the unused PostgREST surface.
+ALTER TABLE IF EXISTS public.pro_shop_product_variants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.pro_shop_inventory_movements ENABLE ROW LEVEL SECURITY;
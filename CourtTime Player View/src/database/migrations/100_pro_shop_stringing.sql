@@ -0,0 +1,53 @@
+-- Racquet stringing jobs.
+--
+-- A member (or staff on their behalf) books a job with their racquet, a
+-- string from the pro shop's 'strings' products, tension and a due date.
+-- Staff move it received -> in_progress -> ready -> picked_up. Reaching
+-- 'ready' posts the string plus the facility's labor fee to the member's tab
+-- (which also takes the string out of stock) and notifies the member.
+
+ALTER TABLE pro_shop_products DROP CONSTRAINT IF EXISTS pro_shop_products_category_check;
+ALTER TABLE pro_shop_products ADD CONSTRAINT pro_shop_products_category_check
+  CHECK (category IN ('clothing','rackets','balls','bags','footwear','accessories','strings','other'));
+
+ALTER TABLE pro_shop_settings
+  ADD COLUMN IF NOT EXISTS stringing_labor_cents INTEGER NOT NULL DEFAULT 0 CHECK (stringing_labor_cents >= 0);
+
+CREATE TABLE IF NOT EXISTS pro_shop_stringing_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    facility_id VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    racquet VARCHAR(120) NOT NULL,
+    string_product_id UUID NOT NULL REFERENCES pro_shop_products(id) ON DELETE RESTRICT,
+    string_variant_id UUID REFERENCES pro_shop_product_variants(id) ON DELETE SET NULL,
+    main_tension_lbs NUMERIC(4,1) NOT NULL CHECK (main_tension_lbs BETWEEN 20 AND 80),
+    -- NULL when the crosses are strung at the mains tension
+    cross_tension_lbs NUMERIC(4,1) CHECK (cross_tension_lbs IS NULL OR cross_tension_lbs BETWEEN 20 AND 80),
+    due_date DATE NOT NULL,
+    notes TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'received'
+      CHECK (status IN ('received', 'in_progress', 'ready', 'picked_up', 'cancelled')),
+    -- Labor fee captured when the job is booked, so later settings changes don't reprice it
+    labor_cents INTEGER NOT NULL DEFAULT 0 CHECK (labor_cents >= 0),
+    charged_cents INTEGER,
+    charged_at TIMESTAMPTZ,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    started_at TIMESTAMPTZ,
+    ready_at TIMESTAMPTZ,
+    picked_up_at TIMESTAMPTZ,
+    cancelled_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stringing_jobs_facility_status ON pro_shop_stringing_jobs (facility_id, status, due_date);
+CREATE INDEX IF NOT EXISTS idx_stringing_jobs_user ON pro_shop_stringing_jobs (user_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_pro_shop_stringing_jobs_updated_at ON pro_shop_stringing_jobs;
+CREATE TRIGGER update_pro_shop_stringing_jobs_updated_at
+BEFORE UPDATE ON pro_shop_stringing_jobs
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Match 070_enable_rls.sql: backend connects as postgres (BYPASSRLS); enabling
+-- RLS with no policies closes the unused PostgREST surface.
+ALTER TABLE IF EXISTS public.pro_shop_stringing_jobs ENABLE ROW LEVEL SECURITY;
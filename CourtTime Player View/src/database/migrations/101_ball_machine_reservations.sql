@@ -0,0 +1,148 @@
+-- Individually identified ball machines.
+--
+-- Replaces ball_machine_config.machine_count (a bare concurrency number) and the
+-- single club-wide access_code. Each booking that takes the machine now reserves a
+-- specific machine and gets its own keypad code, valid only from shortly before the
+-- booking starts until shortly after it ends. Machines can be taken out of service
+-- for maintenance windows, which block new reservations on that machine.
+--
+-- Times on reservations and maintenance windows are facility-local wall clock
+-- (TIMESTAMP WITHOUT TIME ZONE), the same frame as bookings.booking_date + start_time.
+
+CREATE TABLE IF NOT EXISTS ball_machines (
+  id            UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  facility_id   VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+  name          VARCHAR(60) NOT NULL,
+  serial_number VARCHAR(60),
+  notes         TEXT,
+  is_active     BOOLEAN NOT NULL DEFAULT true,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT unique_ball_machine_name UNIQUE (facility_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ball_machines_facility ON ball_machines(facility_id, is_active);
+
+DROP TRIGGER IF EXISTS update_ball_machines_updated_at ON ball_machines;
+CREATE TRIGGER update_ball_machines_updated_at
+BEFORE UPDATE ON ball_machines
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS ball_machine_maintenance (
+  id          UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  machine_id  UUID NOT NULL REFERENCES ball_machines(id) ON DELETE CASCADE,
+  facility_id VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+  starts_at   TIMESTAMP NOT NULL,
+  ends_at     TIMESTAMP NOT NULL,
+  reason      VARCHAR(200),
+  created_by  UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT ball_machine_maintenance_window CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ball_machine_maintenance_machine
+  ON ball_machine_maintenance(machine_id, starts_at, ends_at);
+
+-- One machine per booking. A cancelled booking frees its machine without deleting
+-- the row, so every availability check joins bookings.status.
+CREATE TABLE IF NOT EXISTS ball_machine_reservations (
+  id               UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  facility_id      VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+  machine_id       UUID NOT NULL REFERENCES ball_machines(id) ON DELETE RESTRICT,
+  booking_id       UUID NOT NULL UNIQUE REFERENCES bookings(id) ON DELETE CASCADE,
+  user_id          UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  access_code      VARCHAR(12) NOT NULL,
+  code_valid_from  TIMESTAMP NOT NULL,
+  code_valid_until TIMESTAMP NOT NULL,
+  code_rotated_at  TIMESTAMPTZ,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ball_machine_reservations_machine
+  ON ball_machine_reservations(machine_id, code_valid_from);
+CREATE INDEX IF NOT EXISTS idx_ball_machine_reservations_user
+  ON ball_machine_reservations(facility_id, user_id, code_valid_until);
+
+-- Seed machines from the old count: every club that configured the machine, offers
+-- it through the feature flag, or charges an hourly rate on a court. Clubs with no
+-- config row behaved as one machine. Skipped on re-runs once machine_count is gone.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+              WHERE table_name = 'ball_machine_config' AND column_name = 'machine_count') THEN
+    INSERT INTO ball_machines (facility_id, name)
+    SELECT clubs.facility_id, 'Machine ' || n
+      FROM (
+        SELECT f.id AS facility_id, GREATEST(COALESCE(c.machine_count, 1), 1) AS machine_count
+          FROM facilities f
+          LEFT JOIN ball_machine_config c ON c.facility_id = f.id
+         WHERE c.facility_id IS NOT NULL
+            OR EXISTS (SELECT 1 FROM facility_features ff
+                        WHERE ff.facility_id = f.id
+                          AND ff.feature_key = 'st_marlow_ball_machine'
+                          AND ff.is_enabled)
+            OR EXISTS (SELECT 1 FROM courts ct
+                        WHERE ct.facility_id = f.id AND ct.ball_machine_fee_cents IS NOT NULL)
+      ) clubs
+      CROSS JOIN LATERAL generate_series(1, clubs.machine_count) AS n
+     WHERE NOT EXISTS (SELECT 1 FROM ball_machines m WHERE m.facility_id = clubs.facility_id)
+    ON CONFLICT (facility_id, name) DO NOTHING;
+  END IF;
+END $$;
+
+-- Give upcoming bookings that already claimed the machine a specific machine and a
+-- code, first come first served, so they keep counting against capacity.
+DO $$
+DECLARE
+  b RECORD;
+  picked UUID;
+BEGIN
+  FOR b IN
+    SELECT id, facility_id, user_id, booking_date, start_time, end_time
+      FROM bookings
+     WHERE (add_ball_machine = true OR booking_type = 'ball_machine')
+       AND status != 'cancelled'
+       AND booking_date >= CURRENT_DATE
+       AND NOT EXISTS (SELECT 1 FROM ball_machine_reservations r WHERE r.booking_id = bookings.id)
+     ORDER BY booking_date, start_time, created_at
+  LOOP
+    SELECT m.id INTO picked
+      FROM ball_machines m
+     WHERE m.facility_id = b.facility_id
+       AND m.is_active
+       AND NOT EXISTS (
+         SELECT 1
+           FROM ball_machine_reservations r
+           JOIN bookings ob ON ob.id = r.booking_id
+          WHERE r.machine_id = m.id
+            AND ob.status != 'cancelled'
+            AND ob.booking_date = b.booking_date
+            AND ob.start_time < b.end_time
+            AND ob.end_time > b.start_time
+       )
+     ORDER BY m.name
+     LIMIT 1;
+
+    IF picked IS NOT NULL THEN
+      INSERT INTO ball_machine_reservations
+        (facility_id, machine_id, booking_id, user_id, access_code, code_valid_from, code_valid_until)
+      VALUES (
+        b.facility_id, picked, b.id, b.user_id,
+        lpad(floor(random() * 1000000)::int::text, 6, '0'),
+        (b.booking_date + b.start_time) - INTERVAL '15 minutes',
+        (b.booking_date + b.end_time) + INTERVAL '15 minutes'
+      );
+    END IF;
+  END LOOP;
+END $$;
+
+-- The static club code and bare machine count are superseded by the tables above.
+ALTER TABLE ball_machine_config
+  DROP COLUMN IF EXISTS access_code,
+  DROP COLUMN IF EXISTS machine_count;
+
+-- Match 070_enable_rls.sql: backend connects as postgres (BYPASSRLS); enabling
+-- RLS with no policies closes the unused PostgREST surface.
+ALTER TABLE IF EXISTS public.ball_machines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.ball_machine_maintenance ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.ball_machine_reservations ENABLE ROW LEVEL SECURITY;
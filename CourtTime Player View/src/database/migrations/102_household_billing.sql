@@ -0,0 +1,45 @@
+-- Household shared billing.
+--
+-- A household with a billing payer has every member's off-session charges (post-play
+-- court and guest fees, pro shop tabs and annual fees) put on the payer's saved card
+-- instead of each member's own. Each such charge is copied into a household ledger,
+-- which the monthly consolidated statement is built from.
+
+ALTER TABLE household_groups
+  ADD COLUMN IF NOT EXISTS billing_payer_user_id UUID REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS household_billing_charges (
+  id                       UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id             UUID NOT NULL REFERENCES household_groups(id) ON DELETE CASCADE,
+  facility_id              VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+  payer_user_id            UUID REFERENCES users(id) ON DELETE SET NULL,
+  member_user_id           UUID REFERENCES users(id) ON DELETE SET NULL,
+  source                   VARCHAR(20) NOT NULL
+                             CHECK (source IN ('court_fee', 'guest_fee', 'pro_shop', 'annual_fee')),
+  -- Booking, pro shop order or annual fee record the charge came from
+  source_id                VARCHAR(100),
+  description              VARCHAR(255) NOT NULL,
+  amount_cents             INTEGER NOT NULL,
+  stripe_payment_intent_id VARCHAR(255),
+  charged_at               TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_household_billing_charges_household
+  ON household_billing_charges(household_id, charged_at);
+
+-- One row per household per month once the statement email has gone out, so the
+-- daily job sends each statement exactly once.
+CREATE TABLE IF NOT EXISTS household_statements (
+  id           UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES household_groups(id) ON DELETE CASCADE,
+  period_month DATE NOT NULL,
+  total_cents  INTEGER NOT NULL,
+  emailed_to   VARCHAR(255),
+  sent_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT unique_household_statement_month UNIQUE (household_id, period_month)
+);
+
+-- Match 070_enable_rls.sql: backend connects as postgres (BYPASSRLS); enabling
+-- RLS with no policies closes the unused PostgREST surface.
+ALTER TABLE IF EXISTS public.household_billing_charges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.household_statements ENABLE ROW LEVEL SECURITY;
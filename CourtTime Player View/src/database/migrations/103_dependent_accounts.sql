@@ -0,0 +1,31 @@
+-- Junior/dependent profiles managed by a parent.
+--
+-- A dependent is a users row with a parent_user_id and no email or password, so it
+-- can't sign in but has its own player identity everywhere a user id is used:
+-- bookings, drill/clinic signups, booking participants and household membership.
+-- The parent acts for the dependent (booking, signing up, accepting court waivers)
+-- and receives the dependent's notifications and email.
+
+ALTER TABLE users
+  ALTER COLUMN email DROP NOT NULL,
+  ALTER COLUMN password_hash DROP NOT NULL;
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS parent_user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS date_of_birth DATE;
+
+CREATE INDEX IF NOT EXISTS idx_users_parent ON users(parent_user_id) WHERE parent_user_id IS NOT NULL;
+
+-- Only dependents may go without login credentials.
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'users_login_or_dependent') THEN
+    ALTER TABLE users ADD CONSTRAINT users_login_or_dependent
+      CHECK (parent_user_id IS NOT NULL OR (email IS NOT NULL AND password_hash IS NOT NULL));
+  END IF;
+END $$;
+
+-- Parental consent: the adult who accepted a waiver on a dependent's behalf.
+-- NULL when members accepted for themselves.
+ALTER TABLE member_court_waiver_acceptances
+  ADD COLUMN IF NOT EXISTS accepted_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL;
@@ -0,0 +1,80 @@
+-- Member account credit (wallet), per facility.
+--
+-- Members hold a credit balance at each club. Credit comes from prepaid top-ups,
+-- admin grants and refunds issued as credit instead of back to the card; it is
+-- spent before Stripe is charged at checkout for court bookings (including guest
+-- fees), bulletin signups, pro shop purchases and post-play close-out charges.
+-- Every balance change is one row in wallet_transactions.
+
+CREATE TABLE IF NOT EXISTS member_wallets (
+  facility_id   VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+  user_id       UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  balance_cents INTEGER NOT NULL DEFAULT 0 CHECK (balance_cents >= 0),
+  updated_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (facility_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS wallet_transactions (
+  id                  UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  facility_id         VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+  user_id             UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- Signed: credits are positive, spending is negative
+  amount_cents        INTEGER NOT NULL CHECK (amount_cents <> 0),
+  balance_after_cents INTEGER NOT NULL,
+  kind                VARCHAR(20) NOT NULL
+                        CHECK (kind IN ('top_up', 'admin_credit', 'admin_debit', 'refund', 'payment', 'payment_reversal')),
+  description         VARCHAR(255) NOT NULL,
+  -- The charge a payment, reversal or refund belongs to
+  reference_type      VARCHAR(30)
+                        CHECK (reference_type IS NULL OR reference_type IN ('connect_payment', 'pro_shop_order', 'settlement_charge', 'annual_fee')),
+  reference_id        VARCHAR(100),
+  -- Set while a payment is held for an open Stripe Checkout; the hold is
+  -- released back to the balance if the checkout isn't paid by then
+  hold_expires_at     TIMESTAMPTZ,
+  created_by          UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_member
+  ON wallet_transactions(facility_id, user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_reference
+  ON wallet_transactions(reference_type, reference_id)
+  WHERE reference_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_holds
+  ON wallet_transactions(hold_expires_at)
+  WHERE hold_expires_at IS NOT NULL;
+
+-- A top-up credits the wallet once however many times its checkout is confirmed
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wallet_transactions_top_up
+  ON wallet_transactions(reference_id)
+  WHERE kind = 'top_up';
+
+-- How much of each charge was paid from credit rather than the card
+ALTER TABLE connect_payments
+  ADD COLUMN IF NOT EXISTS wallet_applied_cents INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS is_wallet_top_up BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE pro_shop_orders
+  ADD COLUMN IF NOT EXISTS wallet_applied_cents INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE booking_settlement_charges
+  ADD COLUMN IF NOT EXISTS wallet_applied_cents INTEGER NOT NULL DEFAULT 0;
+
+-- Top-ups are club revenue when bought; spending the credit later is not
+ALTER TABLE facility_revenue_log
+  DROP CONSTRAINT IF EXISTS facility_revenue_log_payment_type_check;
+
+ALTER TABLE facility_revenue_log
+  ADD CONSTRAINT facility_revenue_log_payment_type_check
+    CHECK (payment_type IN (
+      'COURT_BOOKING', 'BULLETIN_SIGNUP', 'PAYMENT_ITEM',
+      'GUEST_FEE', 'PLATFORM_SUBSCRIPTION', 'BALL_MACHINE_PASS',
+      'LESSON', 'WALLET_TOP_UP'
+    ));
+
+-- Match 070_enable_rls.sql: backend connects as postgres (BYPASSRLS); enabling
+-- RLS with no policies closes the unused PostgREST surface.
+ALTER TABLE IF EXISTS public.member_wallets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.wallet_transactions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,107 @@
+-- Prepaid session packages ("punch cards").
+--
+-- A club sells packages like "10 clinics for $200" or "20 court hours". Clinic
+-- packages count sessions and are redeemed one per paid drill/clinic signup;
+-- court-time packages count minutes and are redeemed against the court fee of a
+-- paid booking. Every change to what's left on a package is one row in
+-- session_package_ledger.
+
+CREATE TABLE IF NOT EXISTS session_package_products (
+  id          UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  facility_id VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+  name        VARCHAR(120) NOT NULL,
+  description TEXT,
+  kind        VARCHAR(20) NOT NULL CHECK (kind IN ('clinic', 'court_time')),
+  -- Sessions for clinic packages, minutes for court-time packages
+  units       INTEGER NOT NULL CHECK (units > 0),
+  price_cents INTEGER NOT NULL CHECK (price_cents >= 0),
+  -- Days from purchase until unused units lapse; NULL never expires
+  valid_days  INTEGER CHECK (valid_days IS NULL OR valid_days > 0),
+  is_active   BOOLEAN NOT NULL DEFAULT true,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_package_products_facility
+  ON session_package_products(facility_id);
+
+CREATE TABLE IF NOT EXISTS member_session_packages (
+  id                         UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  facility_id                VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+  user_id                    UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  product_id                 UUID REFERENCES session_package_products(id) ON DELETE SET NULL,
+  -- Snapshotted so renaming or repricing a product leaves bought packages alone
+  name                       VARCHAR(120) NOT NULL,
+  kind                       VARCHAR(20) NOT NULL CHECK (kind IN ('clinic', 'court_time')),
+  units_total                INTEGER NOT NULL CHECK (units_total > 0),
+  units_remaining            INTEGER NOT NULL DEFAULT 0 CHECK (units_remaining >= 0),
+  price_cents_at_purchase    INTEGER NOT NULL DEFAULT 0,
+  valid_days                 INTEGER,
+  expires_at                 TIMESTAMPTZ,
+  status                     VARCHAR(20) NOT NULL DEFAULT 'pending'
+                               CHECK (status IN ('pending', 'active', 'expired', 'refunded', 'cancelled')),
+  connect_payment_id         UUID REFERENCES connect_payments(id) ON DELETE SET NULL,
+  stripe_checkout_session_id VARCHAR(255),
+  granted_by                 UUID REFERENCES users(id) ON DELETE SET NULL,
+  activated_at               TIMESTAMPTZ,
+  created_at                 TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_member_session_packages_member
+  ON member_session_packages(facility_id, user_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_member_session_packages_checkout
+  ON member_session_packages(stripe_checkout_session_id)
+  WHERE stripe_checkout_session_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS session_package_ledger (
+  id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  package_id      UUID NOT NULL REFERENCES member_session_packages(id) ON DELETE CASCADE,
+  -- Signed: purchases and grants are positive, redemptions negative
+  units           INTEGER NOT NULL CHECK (units <> 0),
+  units_after     INTEGER NOT NULL,
+  kind            VARCHAR(20) NOT NULL
+                    CHECK (kind IN ('purchase', 'grant', 'adjustment', 'redemption',
+                                    'redemption_reversal', 'refund', 'expiry')),
+  description     VARCHAR(255) NOT NULL,
+  -- The connect payment a redemption covered
+  reference_id    UUID REFERENCES connect_payments(id) ON DELETE SET NULL,
+  -- Set while a redemption is held for an open Stripe Checkout (guest or ball
+  -- machine fees still to pay); released if the checkout isn't paid by then
+  hold_expires_at TIMESTAMPTZ,
+  created_by      UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_package_ledger_package
+  ON session_package_ledger(package_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_session_package_ledger_reference
+  ON session_package_ledger(reference_id)
+  WHERE reference_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_session_package_ledger_holds
+  ON session_package_ledger(hold_expires_at)
+  WHERE hold_expires_at IS NOT NULL;
+
+-- What a package covered on a charge. amount_cents is what is still owed in
+-- money after that, so it can be 0 for a signup a clinic package paid for.
+ALTER TABLE connect_payments
+  ADD COLUMN IF NOT EXISTS package_applied_cents INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE facility_revenue_log
+  DROP CONSTRAINT IF EXISTS facility_revenue_log_payment_type_check;
+
+ALTER TABLE facility_revenue_log
+  ADD CONSTRAINT facility_revenue_log_payment_type_check
+    CHECK (payment_type IN (
+      'COURT_BOOKING', 'BULLETIN_SIGNUP', 'PAYMENT_ITEM',
+      'GUEST_FEE', 'PLATFORM_SUBSCRIPTION', 'BALL_MACHINE_PASS',
+      'LESSON', 'WALLET_TOP_UP', 'SESSION_PACKAGE'
+    ));
+
+-- Match 070_enable_rls.sql: backend connects as postgres (BYPASSRLS); enabling
+-- RLS with no policies closes the unused PostgREST surface.
+ALTER TABLE IF EXISTS public.session_package_products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.member_session_packages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.session_package_ledger ENABLE ROW LEVEL SECURITY;
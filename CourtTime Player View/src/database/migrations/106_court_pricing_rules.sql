@@ -0,0 +1,46 @@
+-- Dynamic court pricing.
+--
+-- A paid court's booking_amount_cents stays its standard hourly rate. Pricing
+-- rules replace that rate for the slots they match: peak or off-peak (the
+-- facility's peak-hours schedule, CRT-001 / booking_rules peak slots), weekday
+-- or weekend, indoor or outdoor courts, or one specific court. When several
+-- rules match, the most specific one wins. A membership tier can then take a
+-- percentage off the court fee. Guest and ball machine fees are not affected.
+
+CREATE TABLE IF NOT EXISTS court_pricing_rules (
+  id                UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  facility_id       VARCHAR(50) NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+  name              VARCHAR(120) NOT NULL,
+  time_band         VARCHAR(10) NOT NULL DEFAULT 'any'
+                      CHECK (time_band IN ('any', 'peak', 'off_peak')),
+  day_type          VARCHAR(10) NOT NULL DEFAULT 'any'
+                      CHECK (day_type IN ('any', 'weekday', 'weekend')),
+  court_setting     VARCHAR(10) NOT NULL DEFAULT 'any'
+                      CHECK (court_setting IN ('any', 'indoor', 'outdoor')),
+  -- Limits the rule to one court (split children match their parent's rules too)
+  court_id          UUID REFERENCES courts(id) ON DELETE CASCADE,
+  hourly_rate_cents INTEGER NOT NULL CHECK (hourly_rate_cents >= 0),
+  is_active         BOOLEAN NOT NULL DEFAULT true,
+  created_by        UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at        TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_court_pricing_rules_facility
+  ON court_pricing_rules(facility_id)
+  WHERE is_active = true;
+
+-- Percentage off the court fee for members on this tier (0 = none)
+ALTER TABLE membership_tiers
+  ADD COLUMN IF NOT EXISTS court_discount_percent INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE membership_tiers
+  DROP CONSTRAINT IF EXISTS membership_tiers_court_discount_percent_check;
+
+ALTER TABLE membership_tiers
+  ADD CONSTRAINT membership_tiers_court_discount_percent_check
+    CHECK (court_discount_percent BETWEEN 0 AND 100);
+
+-- Match 070_enable_rls.sql: backend connects as postgres (BYPASSRLS); enabling
+-- RLS with no policies closes the unused PostgREST surface.
+ALTER TABLE IF EXISTS public.court_pricing_rules ENABLE ROW LEVEL SECURITY;
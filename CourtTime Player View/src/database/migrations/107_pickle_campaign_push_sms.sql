@@ -0,0 +1,40 @@
+-- Push and SMS delivery for pickle campaigns.
+--
+-- Push goes to the player's registered Expo tokens (user_push_tokens); SMS goes
+-- to users.phone through the configured SMS provider. Players opt in per
+-- channel on their pickle profile — push defaults on, SMS is opt-in only. A
+-- STOP reply blocks the phone number for every org until the player texts START.
+
+ALTER TABLE pickle_player_profiles
+  ADD COLUMN IF NOT EXISTS campaign_push_consent BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS campaign_sms_consent BOOLEAN NOT NULL DEFAULT false;
+
+-- Numbers that replied STOP, in E.164 form (+15551234567)
+CREATE TABLE IF NOT EXISTS sms_opt_outs (
+  phone          VARCHAR(20) PRIMARY KEY,
+  keyword        VARCHAR(20) NOT NULL,
+  opted_out_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Per-recipient delivery tracking. status stays the send outcome (sent/failed/
+-- skipped); delivery_status is what the provider reported afterwards.
+ALTER TABLE pickle_campaign_sends
+  ADD COLUMN IF NOT EXISTS channel VARCHAR(10),
+  ADD COLUMN IF NOT EXISTS provider_message_ids TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS delivery_status VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS delivery_error TEXT,
+  ADD COLUMN IF NOT EXISTS delivery_updated_at TIMESTAMPTZ;
+
+ALTER TABLE pickle_campaign_sends
+  DROP CONSTRAINT IF EXISTS pickle_campaign_sends_delivery_status_check;
+
+ALTER TABLE pickle_campaign_sends
+  ADD CONSTRAINT pickle_campaign_sends_delivery_status_check
+    CHECK (delivery_status IS NULL OR delivery_status IN ('queued', 'delivered', 'undelivered'));
+
+CREATE INDEX IF NOT EXISTS idx_pickle_campaign_sends_provider_ids
+  ON pickle_campaign_sends USING GIN (provider_message_ids);
+
+-- Match 070_enable_rls.sql: backend connects as postgres (BYPASSRLS); enabling
+-- RLS with no policies closes the unused PostgREST surface.
+ALTER TABLE IF EXISTS public.sms_opt_outs ENABLE ROW LEVEL SECURITY;
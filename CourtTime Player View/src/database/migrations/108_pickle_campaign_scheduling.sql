@@ -0,0 +1,33 @@
+-- Scheduled and recurring pickle campaigns, sent in throttled batches.
+--
+-- A scheduled campaign has its next send time in scheduled_at, entered as wall
+-- clock time in the org's timezone (kept in timezone so recurrences stay at the
+-- same local time across DST). A recurring campaign stays 'scheduled': each
+-- time it comes due, a copy is made for that occurrence (parent_campaign_id)
+-- and sent, and scheduled_at moves to the next occurrence.
+--
+-- Sending first snapshots the audience as 'pending' rows in
+-- pickle_campaign_sends, then works through them a batch at a time, so a
+-- restart resumes with whoever is still pending.
+
+ALTER TABLE pickle_campaigns
+  ADD COLUMN IF NOT EXISTS scheduled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS timezone VARCHAR(50),
+  ADD COLUMN IF NOT EXISTS recurrence VARCHAR(10) NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS parent_campaign_id UUID REFERENCES pickle_campaigns(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS last_sent_at TIMESTAMPTZ;
+
+ALTER TABLE pickle_campaigns
+  DROP CONSTRAINT IF EXISTS pickle_campaigns_recurrence_check;
+
+ALTER TABLE pickle_campaigns
+  ADD CONSTRAINT pickle_campaigns_recurrence_check
+    CHECK (recurrence IN ('none', 'daily', 'weekly', 'monthly'));
+
+CREATE INDEX IF NOT EXISTS idx_pickle_campaigns_parent
+  ON pickle_campaigns(parent_campaign_id)
+  WHERE parent_campaign_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_pickle_campaign_sends_pending
+  ON pickle_campaign_sends(campaign_id)
+  WHERE status = 'pending';
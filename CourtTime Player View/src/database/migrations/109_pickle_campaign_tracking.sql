@@ -0,0 +1,22 @@
+-- Campaign merge fields, A/B subject lines, and email open/click tracking.
+--
+-- subject_variants holds the subject lines an email campaign splits its
+-- audience across (empty: the campaign name is the subject); each send
+-- records which one the recipient got. Every email send gets a
+-- tracking_token behind its open pixel and click-through links, and the
+-- first open/click is kept along with running counts.
+
+ALTER TABLE pickle_campaigns
+  ADD COLUMN IF NOT EXISTS subject_variants TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE pickle_campaign_sends
+  ADD COLUMN IF NOT EXISTS subject_variant SMALLINT,
+  ADD COLUMN IF NOT EXISTS tracking_token VARCHAR(64),
+  ADD COLUMN IF NOT EXISTS opened_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS open_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS clicked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS click_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pickle_campaign_sends_tracking_token
+  ON pickle_campaign_sends(tracking_token)
+  WHERE tracking_token IS NOT NULL;
@@ -0,0 +1,54 @@
+-- Richer messages: file/image attachments, emoji reactions, editing with the
+-- previous text kept, and per-member read receipts (messages.is_read stays as
+-- the "anyone else has read it" flag DMs already use).
+
+-- Files are stored inline as base64 data URLs, like profile images and terms
+-- PDFs; size and type limits are enforced by the API (shared/utils/messageContent).
+CREATE TABLE IF NOT EXISTS message_attachments (
+  id          UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  message_id  UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  file_name   VARCHAR(255) NOT NULL,
+  mime_type   VARCHAR(100) NOT NULL,
+  size_bytes  INTEGER NOT NULL CHECK (size_bytes > 0),
+  data_url    TEXT NOT NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_attachments_message ON message_attachments(message_id);
+
+CREATE TABLE IF NOT EXISTS message_reactions (
+  message_id  UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id     UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  emoji       VARCHAR(32) NOT NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (message_id, user_id, emoji)
+);
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ;
+
+-- One row per edit, holding the text it replaced
+CREATE TABLE IF NOT EXISTS message_edits (
+  id             UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  message_id     UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  previous_text  TEXT NOT NULL,
+  edited_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_edits_message ON message_edits(message_id, edited_at);
+
+CREATE TABLE IF NOT EXISTS message_reads (
+  message_id  UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id     UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  read_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (message_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_reads_user ON message_reads(user_id);
+
+-- Match 070_enable_rls.sql: backend connects as postgres (BYPASSRLS); enabling
+-- RLS with no policies closes the unused PostgREST surface.
+ALTER TABLE IF EXISTS public.message_attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.message_reactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.message_edits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.message_reads ENABLE ROW LEVEL SECURITY;
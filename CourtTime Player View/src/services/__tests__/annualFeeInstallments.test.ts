@@ -0,0 +1,172 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const paymentIntentsCreateMock = vi.fn();
+const sendAnnualFeePaymentFailedEmailMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+}));
+
+vi.stubEnv('STRIPE_SECRET_KEY', 'sk_test_annual_fee_installment_tests');
+
+vi.mock('stripe', () => ({
+  default: vi.fn().mockImplementation(() => ({
+    paymentIntents: { create: paymentIntentsCreateMock },
+  })),
+}));
+
+vi.mock('../emailService', () => ({
+  sendAnnualFeePaymentFailedEmail: (...args: unknown[]) => sendAnnualFeePaymentFailedEmailMock(...args),
+}));
+
+import {
+  addMonths,
+  buildInstallmentSchedule,
+  chargeBillingRecord,
+  nextDunningState,
+  proratedMonths,
+} from '../annualFeeService';
+
+describe('proration and installment schedule', () => {
+  it('bills the full year for members who joined before the billing date', () => {
+    expect(proratedMonths('2030-03-01', '2029-11-20')).toBe(12);
+    expect(proratedMonths('2030-03-01', null)).toBe(12);
+  });
+
+  it('counts the joining month toward a mid-year member\'s months', () => {
+    expect(proratedMonths('2030-03-01', '2030-03-15')).toBe(12);
+    expect(proratedMonths('2030-03-01', '2030-09-01')).toBe(6);
+    expect(proratedMonths('2030-03-15', '2030-09-10')).toBe(7);
+    expect(proratedMonths('2030-03-01', '2031-02-27')).toBe(1);
+  });
+
+  it('splits a prorated year into installments with leftover cents up front', () => {
+    const schedule = buildInstallmentSchedule(25_001, 'quarterly', 5, '2030-09-01');
+
+    expect(schedule.map(i => i.amountCents)).toEqual([12_501, 12_500]);
+    expect(schedule.map(i => i.dueDate)).toEqual(['2030-09-01', '2030-12-01']);
+    expect(schedule.every(i => i.installmentCount === 2)).toBe(true);
+  });
+
+  it('keeps annual plans to a single charge', () => {
+    expect(buildInstallmentSchedule(50_000, 'annual', 12, '2030-03-01')).toHaveLength(1);
+  });
+
+  it('clamps month-end due dates', () => {
+    expect(addMonths('2030-01-31', 1)).toBe('2030-02-28');
+  });
+});
+
+describe('nextDunningState', () => {
+  const started = new Date('2030-03-01T15:00:00Z');
+
+  it('retries 1, 3 and 7 days after the first failure, then gives up', () => {
+    expect(nextDunningState(0, started).nextRetryAt?.toISOString()).toBe('2030-03-02T15:00:00.000Z');
+    expect(nextDunningState(1, started).nextRetryAt?.toISOString()).toBe('2030-03-04T15:00:00.000Z');
+    expect(nextDunningState(2, started).nextRetryAt?.toISOString()).toBe('2030-03-08T15:00:00.000Z');
+    expect(nextDunningState(3, started)).toEqual({ final: true, nextRetryAt: null });
+  });
+});
+
+describe('chargeBillingRecord', () => {
+  const record = (overrides: Record<string, unknown> = {}) => ({
+    id: 'rec-1',
+    facility_id: 'fac-1',
+    user_id: 'user-1',
+    tier_name: 'Full',
+    amount_cents: 5000,
+    billing_year: 2030,
+    status: 'past_due',
+    installment_number: 2,
+    installment_count: 4,
+    attempt_count: 1,
+    dunning_step: 0,
+    dunning_started_at: '2030-03-01T15:00:00Z',
+    membership_status: 'active',
+    stripe_customer_id: 'cus_1',
+    payment_method_id: 'pm_1',
+    card_last4: '4242',
+    facility_name: 'Sunrise Valley',
+    stripe_account_id: 'acct_1',
+    stripe_onboarded: true,
+    platform_fee_percent: 0,
+    email: 'member@example.com',
+    full_name: 'Member One',
+    ...overrides,
+  });
+
+  function mockRecord(row: Record<string, unknown>) {
+    queryMock.mockImplementation(async (sql: string) => {
+      if (/FROM annual_fee_billing_records r/.test(sql)) return { rows: [row] };
+      // resolveBillingCard: no household payer, so the member's own card
+      if (/JOIN household_groups g/.test(sql)) {
+        return {
+          rows: [{
+            household_id: null,
+            payer_user_id: row.user_id,
+            stripe_customer_id: row.stripe_customer_id,
+            stripe_default_payment_method_id: row.payment_method_id,
+            card_last4: row.card_last4,
+          }],
+        };
+      }
+      return { rows: [], rowCount: 1 };
+    });
+  }
+
+  const recordUpdate = () =>
+    queryMock.mock.calls.find(([sql]) => /UPDATE annual_fee_billing_records/.test(sql))!;
+
+  beforeEach(() => {
+    queryMock.mockReset();
+    paymentIntentsCreateMock.mockReset();
+    sendAnnualFeePaymentFailedEmailMock.mockReset().mockResolvedValue({ success: true });
+  });
+
+  it('starts dunning without locking out or emailing on the first failure', async () => {
+    mockRecord(record({ status: 'scheduled', installment_number: 1, attempt_count: 0, dunning_started_at: null }));
+    paymentIntentsCreateMock.mockRejectedValue(new Error('Your card was declined.'));
+
+    await expect(chargeBillingRecord('rec-1')).resolves.toBe('past_due');
+
+    const [, params] = recordUpdate();
+    expect(params[1]).toBe('past_due');
+    expect(params[2]).toBe(0);
+    expect(queryMock.mock.calls.some(([sql]) => /SET lockout_amount_cents/.test(sql))).toBe(false);
+    expect(sendAnnualFeePaymentFailedEmailMock).not.toHaveBeenCalled();
+  });
+
+  it('emails a reminder with the next retry when a dunning retry fails', async () => {
+    mockRecord(record({ dunning_step: 0 }));
+    paymentIntentsCreateMock.mockRejectedValue(new Error('Your card was declined.'));
+
+    await expect(chargeBillingRecord('rec-1')).resolves.toBe('past_due');
+
+    expect(recordUpdate()[1][2]).toBe(1);
+    const nextRetry = sendAnnualFeePaymentFailedEmailMock.mock.calls[0][6] as Date;
+    expect(nextRetry.toISOString()).toBe('2030-03-04T15:00:00.000Z');
+  });
+
+  it('locks the member out only after the final retry fails', async () => {
+    mockRecord(record({ dunning_step: 2, payment_method_id: null, card_last4: null }));
+
+    await expect(chargeBillingRecord('rec-1')).resolves.toBe('lockout_applied');
+
+    expect(paymentIntentsCreateMock).not.toHaveBeenCalled();
+    expect(queryMock.mock.calls.some(([sql]) => /SET lockout_amount_cents/.test(sql))).toBe(true);
+    expect(sendAnnualFeePaymentFailedEmailMock.mock.calls[0][6]).toBeNull();
+  });
+
+  it('charges with a per-attempt idempotency key', async () => {
+    mockRecord(record());
+    paymentIntentsCreateMock.mockResolvedValue({ id: 'pi_1' });
+
+    await expect(chargeBillingRecord('rec-1')).resolves.toBe('charged');
+
+    expect(paymentIntentsCreateMock.mock.calls[0][0].description).toBe(
+      'Annual membership fee - Full (2030), installment 2 of 4'
+    );
+    expect(paymentIntentsCreateMock.mock.calls[0][1].idempotencyKey).toBe('annual_fee_rec-1_2');
+  });
+});
@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const clientQuery = vi.fn();
+const client = { query: (...args: unknown[]) => clientQuery(...args) };
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+  transaction: async (fn: (c: unknown) => unknown) => fn(client),
+}));
+
+import {
+  addMaintenanceWindow,
+  generateAccessCode,
+  reserveMachine,
+  updateMachine,
+} from '../ballMachineService';
+
+const slot = {
+  facilityId: 'fac-1',
+  bookingId: 'b-1',
+  userId: 'u-1',
+  bookingDate: '2026-10-20',
+  startTime: '09:00:00',
+  endTime: '10:00:00',
+};
+
+const machines = [
+  { id: 'm-1', name: 'Machine 1', reserved: true, inMaintenance: false },
+  { id: 'm-2', name: 'Machine 2', reserved: false, inMaintenance: true },
+  { id: 'm-3', name: 'Machine 3', reserved: false, inMaintenance: false },
+];
+
+function mockClient(rows = machines) {
+  clientQuery.mockImplementation(async (sql: string) => {
+    if (/AS "inMaintenance"/.test(sql)) return { rows };
+    if (/INSERT INTO ball_machine_reservations/.test(sql)) return { rows: [{ id: 'r-1' }] };
+    if (/FROM ball_machine_reservations r/.test(sql)) return { rows: [{ id: 'r-1', machineName: 'Machine 3' }] };
+    return { rows: [] };
+  });
+}
+
+beforeEach(() => {
+  queryMock.mockReset();
+  clientQuery.mockReset();
+});
+
+describe('generateAccessCode', () => {
+  it('is always six digits', () => {
+    for (let i = 0; i < 50; i++) expect(generateAccessCode()).toMatch(/^\d{6}$/);
+  });
+});
+
+describe('reserveMachine', () => {
+  it('skips reserved and out-of-service machines', async () => {
+    mockClient();
+
+    const reservation = await reserveMachine(client as any, slot);
+
+    expect(reservation?.machineName).toBe('Machine 3');
+    const calls = clientQuery.mock.calls as unknown as Array<[string, unknown[]]>;
+    const insert = calls.find(([sql]) => /INSERT INTO ball_machine_reservations/.test(sql));
+    expect(insert![1].slice(0, 4)).toEqual(['fac-1', 'm-3', 'b-1', 'u-1']);
+    expect(insert![1].slice(-2)).toEqual([15, 15]);
+  });
+
+  it('returns null when the requested machine is taken', async () => {
+    mockClient();
+
+    expect(await reserveMachine(client as any, { ...slot, machineId: 'm-2' })).toBeNull();
+    const calls = clientQuery.mock.calls as unknown as Array<[string]>;
+    expect(calls.some(([sql]) => /INSERT/.test(sql))).toBe(false);
+  });
+});
+
+describe('updateMachine', () => {
+  it('refuses to retire a machine that still has upcoming reservations', async () => {
+    queryMock.mockImplementation(async (sql: string) => {
+      if (/COUNT\(\*\)/.test(sql)) return { rows: [{ count: 2 }] };
+      return { rows: [{ id: 'm-1', name: 'Machine 1', isActive: true }] };
+    });
+
+    await expect(updateMachine('fac-1', 'm-1', { isActive: false }))
+      .rejects.toThrow('Machine 1 has 2 upcoming reservations');
+  });
+});
+
+describe('addMaintenanceWindow', () => {
+  it('rejects a window that ends before it starts', async () => {
+    await expect(
+      addMaintenanceWindow('fac-1', { machineId: 'm-1', startsAt: '2026-10-20T12:00', endsAt: '2026-10-20T09:00' }, 'admin-1')
+    ).rejects.toThrow('Maintenance must end after it starts');
+  });
+
+  it('moves affected reservations to a free machine and reports the rest', async () => {
+    const affected = [
+      { id: 'r-1', bookingId: 'b-1', bookingDate: '2026-10-20', startTime: '09:00:00', endTime: '10:00:00' },
+      { id: 'r-2', bookingId: 'b-2', bookingDate: '2026-10-20', startTime: '11:00:00', endTime: '12:00:00' },
+    ];
+    clientQuery.mockImplementation(async (sql: string, values: unknown[]) => {
+      if (/SELECT id FROM ball_machines WHERE id/.test(sql)) return { rows: [{ id: 'm-1' }] };
+      if (/INSERT INTO ball_machine_maintenance/.test(sql)) return { rows: [{ id: 'w-1' }] };
+      if (/AS "inMaintenance"/.test(sql)) {
+        // Only the 9:00 slot has a free second machine.
+        const free = values[2] === '09:00:00';
+        return {
+          rows: [
+            { id: 'm-1', name: 'Machine 1', reserved: false, inMaintenance: true },
+            { id: 'm-2', name: 'Machine 2', reserved: !free, inMaintenance: false },
+          ],
+        };
+      }
+      if (/FROM ball_machine_reservations r/.test(sql)) return { rows: affected };
+      if (/FROM ball_machine_maintenance w/.test(sql)) return { rows: [{ id: 'w-1' }] };
+      return { rows: [] };
+    });
+
+    const result = await addMaintenanceWindow(
+      'fac-1',
+      { machineId: 'm-1', startsAt: '2026-10-20T08:00', endsAt: '2026-10-20T13:00', reason: 'Motor' },
+      'admin-1'
+    );
+
+    expect(result.moved).toBe(1);
+    expect(result.unresolved.map((r) => r.id)).toEqual(['r-2']);
+    const calls = clientQuery.mock.calls as unknown as Array<[string, unknown[]]>;
+    const move = calls.find(([sql]) => /SET machine_id/.test(sql));
+    expect(move![1]).toEqual(['r-1', 'm-2']);
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const cancelBookingMock = vi.fn();
+const notifyBookingReminderMock = vi.fn();
+const sendBookingReminderEmailMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+}));
+
+vi.mock('../bookingService', () => ({
+  cancelBooking: (...args: unknown[]) => cancelBookingMock(...args),
+}));
+
+vi.mock('../notificationService', () => ({
+  notificationService: {
+    notifyBookingReminder: (...args: unknown[]) => notifyBookingReminderMock(...args),
+  },
+}));
+
+vi.mock('../emailService', () => ({
+  sendBookingReminderEmail: (...args: unknown[]) => sendBookingReminderEmailMock(...args),
+}));
+
+import { BookingReminderError, respondToReminder, sendBookingReminder } from '../bookingReminderService';
+
+const reminderRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'rem-1',
+  token: 'tok-1',
+  bookingId: 'bk-1',
+  userId: 'user-1',
+  response: null,
+  respondedAt: null,
+  bookingDate: '2030-06-04',
+  startTime: '18:00:00',
+  endTime: '19:00:00',
+  bookingStatus: 'confirmed',
+  courtName: 'Court 1',
+  facilityName: 'Sunrise Valley',
+  timezone: 'UTC',
+  ...overrides,
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2030-06-04T12:00:00Z'));
+  queryMock.mockReset().mockResolvedValue({ rows: [], rowCount: 1 });
+  cancelBookingMock.mockReset().mockResolvedValue({ success: true, strikeIssued: false });
+  notifyBookingReminderMock.mockReset().mockResolvedValue('notif-1');
+  sendBookingReminderEmailMock.mockReset().mockResolvedValue(true);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('respondToReminder', () => {
+  it('releases the court through cancelBooking with the strike waived', async () => {
+    queryMock.mockImplementation(async (sql: string) =>
+      /FROM booking_reminders r/.test(sql) ? { rows: [reminderRow()] } : { rows: [], rowCount: 1 }
+    );
+
+    await respondToReminder('tok-1', 'release');
+
+    expect(cancelBookingMock).toHaveBeenCalledWith('bk-1', 'user-1', 'Released from booking reminder', { waiveStrike: true });
+    const update = queryMock.mock.calls.find(([sql]) => /UPDATE booking_reminders SET response/.test(sql));
+    expect(update![1]).toEqual(['rem-1', 'released']);
+  });
+
+  it('refuses to release once the booking has started', async () => {
+    queryMock.mockResolvedValue({ rows: [reminderRow({ startTime: '11:30:00' })] });
+
+    await expect(respondToReminder('tok-1', 'release')).rejects.toMatchObject({ status: 409 });
+    expect(cancelBookingMock).not.toHaveBeenCalled();
+  });
+
+  it('treats a repeated confirm as a no-op', async () => {
+    queryMock.mockResolvedValue({ rows: [reminderRow({ response: 'confirmed' })] });
+
+    const view = await respondToReminder('tok-1', 'confirm');
+
+    expect(view.response).toBe('confirmed');
+    expect(queryMock.mock.calls.some(([sql]) => /UPDATE booking_reminders/.test(sql))).toBe(false);
+  });
+
+  it('404s an unknown token', async () => {
+    await expect(respondToReminder('nope', 'confirm')).rejects.toBeInstanceOf(BookingReminderError);
+  });
+});
+
+describe('sendBookingReminder', () => {
+  const booking = {
+    id: 'bk-1',
+    userId: 'user-1',
+    facilityId: 'fac-1',
+    courtId: 'court-1',
+    bookingDate: '2030-06-04',
+    startTime: '18:00:00',
+    endTime: '19:00:00',
+    status: 'confirmed',
+    courtName: 'Court 1',
+    facilityName: 'Sunrise Valley',
+    timezone: 'UTC',
+    email: 'member@example.com',
+    fullName: 'Member One',
+    leadHours: 6,
+  };
+
+  it('only sends the channels a previous attempt did not', async () => {
+    queryMock.mockImplementation(async (sql: string) => {
+      if (/FROM bookings b/.test(sql)) return { rows: [booking] };
+      if (/FROM booking_reminders WHERE booking_id/.test(sql)) {
+        return { rows: [{ id: 'rem-1', token: 'tok-1', notifiedAt: '2030-06-04T11:55:00Z', emailedAt: null, response: null }] };
+      }
+      return { rows: [], rowCount: 1 };
+    });
+
+    await expect(sendBookingReminder('bk-1')).resolves.toEqual({ notified: false, emailed: true });
+    expect(notifyBookingReminderMock).not.toHaveBeenCalled();
+    expect(sendBookingReminderEmailMock.mock.calls[0][8]).toBe(6);
+  });
+
+  it('throws when the email fails so the job retries', async () => {
+    sendBookingReminderEmailMock.mockResolvedValue(false);
+    queryMock.mockImplementation(async (sql: string) => {
+      if (/FROM bookings b/.test(sql)) return { rows: [booking] };
+      if (/FROM booking_reminders WHERE booking_id/.test(sql)) {
+        return { rows: [{ id: 'rem-1', token: 'tok-1', notifiedAt: null, emailedAt: null, response: null }] };
+      }
+      return { rows: [], rowCount: 1 };
+    });
+
+    await expect(sendBookingReminder('bk-1')).rejects.toThrow('Booking reminder email failed to send');
+    expect(queryMock.mock.calls.some(([sql]) => /SET notified_at = NOW\(\)/.test(sql))).toBe(true);
+  });
+
+  it('skips bookings that are no longer confirmed', async () => {
+    queryMock.mockResolvedValue({ rows: [{ ...booking, status: 'cancelled' }] });
+
+    await expect(sendBookingReminder('bk-1')).resolves.toMatchObject({ skipped: 'booking cancelled' });
+    expect(notifyBookingReminderMock).not.toHaveBeenCalled();
+  });
+});
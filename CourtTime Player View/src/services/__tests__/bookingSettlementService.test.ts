@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const isFeatureEnabledMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+  transaction: vi.fn(),
+}));
+vi.mock('../featureFlagService', () => ({
+  isFeatureEnabled: (...args: unknown[]) => isFeatureEnabledMock(...args),
+}));
+vi.mock('../rulesEngine/RuleContext', () => ({
+  isPeakHoursSlot: vi.fn(),
+}));
+vi.mock('../stripeConnectService', () => ({
+  getStripe: vi.fn(),
+}));
+vi.mock('../householdBillingService', () => ({
+  hasUsableCard: vi.fn(),
+  missingCardMessage: vi.fn(),
+  recordHouseholdCharge: vi.fn(),
+  resolveBillingCard: vi.fn(),
+}));
+vi.mock('../walletService', () => ({
+  isWalletEnabled: vi.fn(),
+  payFromWallet: vi.fn(),
+  reverseWalletPayment: vi.fn(),
+}));
+
+import { shouldUsePostPlaySettlement } from '../bookingSettlementService';
+
+const paidCourt = {
+  id: 'court-1',
+  facility_id: 'club-1',
+  parent_court_id: null,
+  is_indoor: false,
+  require_payment: true,
+  booking_amount_cents: 2000,
+  guest_fee_cents: 500,
+  ball_machine_fee_cents: null,
+};
+const slot = { userId: 'user-1', bookingDate: '2026-10-20', startTime: '18:00', endTime: '19:00' };
+
+/** The court row, no pricing rules, and the member's tier discount. */
+function mockPricing(discountPercent: number) {
+  queryMock.mockImplementation(async (sql: string) => {
+    if (/FROM courts c/.test(sql)) return { rows: [paidCourt] };
+    if (/FROM membership_tiers/.test(sql)) return { rows: [{ tierName: 'Staff', discountPercent }] };
+    return { rows: [] };
+  });
+}
+
+describe('shouldUsePostPlaySettlement', () => {
+  beforeEach(() => {
+    queryMock.mockReset();
+    isFeatureEnabledMock.mockReset().mockResolvedValue(true);
+  });
+
+  it('needs no payment when the member tier discounts the court to $0', async () => {
+    mockPricing(100);
+    await expect(shouldUsePostPlaySettlement('club-1', 'court-1', slot)).resolves.toEqual({
+      usePostPlay: true,
+      needsPayment: false,
+    });
+  });
+
+  it('still needs payment for a discounted rate or a guest fee', async () => {
+    mockPricing(25);
+    await expect(shouldUsePostPlaySettlement('club-1', 'court-1', slot)).resolves.toMatchObject({
+      needsPayment: true,
+    });
+
+    mockPricing(100);
+    await expect(
+      shouldUsePostPlaySettlement('club-1', 'court-1', slot, { bringGuest: true })
+    ).resolves.toMatchObject({ needsPayment: true });
+  });
+});
@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const clientQueryMock = vi.fn();
+const createNotificationMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+  transaction: (callback: (client: { query: typeof clientQueryMock }) => unknown) =>
+    callback({ query: clientQueryMock }),
+}));
+
+vi.mock('../notificationService', () => ({
+  notificationService: {
+    createNotification: (...args: unknown[]) => createNotificationMock(...args),
+  },
+}));
+
+vi.mock('../rulesEngine/RuleContext', () => ({
+  getFacilityLocalNow: () => new Date(2030, 5, 4, 18, 0),
+}));
+
+import {
+  confirmResult,
+  glickoUpdate,
+  inflateDeviation,
+  rateMatch,
+  reportResult,
+  validateSets,
+} from '../clubRatingService';
+
+/** Params of every call whose SQL contains `fragment`, in call order. */
+function callsWith(mock: typeof clientQueryMock, fragment: string) {
+  return mock.mock.calls.filter(([sql]) => String(sql).includes(fragment)).map(([, params]) => params as any[]);
+}
+
+describe('validateSets', () => {
+  it('returns the side that won more sets', () => {
+    expect(validateSets([{ a: 6, b: 4 }, { a: 3, b: 6 }, { a: 10, b: 8 }]).winnerSide).toBe('a');
+    expect(validateSets([{ a: 2, b: 6 }]).winnerSide).toBe('b');
+  });
+
+  it('rejects level sets, level matches and junk', () => {
+    expect(() => validateSets([{ a: 6, b: 6 }])).toThrow('A set cannot end level');
+    expect(() => validateSets([{ a: 6, b: 4 }, { a: 4, b: 6 }])).toThrow('level on sets');
+    expect(() => validateSets([{ a: 6.5, b: 4 }])).toThrow('whole numbers');
+    expect(() => validateSets([])).toThrow('at least one set');
+  });
+});
+
+describe('Glicko', () => {
+  it('matches the textbook first game between two new players', () => {
+    const next = glickoUpdate({ rating: 1500, rd: 350 }, { rating: 1500, rd: 350 }, 1);
+    expect(next.rating).toBeCloseTo(1662.2, 1);
+    expect(next.rd).toBeCloseTo(290.2, 1);
+  });
+
+  it('moves an established player less than a new one', () => {
+    const settled = glickoUpdate({ rating: 1500, rd: 60 }, { rating: 1500, rd: 60 }, 1);
+    const fresh = glickoUpdate({ rating: 1500, rd: 300 }, { rating: 1500, rd: 60 }, 1);
+    expect(settled.rating - 1500).toBeLessThan(fresh.rating - 1500);
+  });
+
+  it('regains deviation with time off, up to the starting value', () => {
+    expect(inflateDeviation(50, 0)).toBe(50);
+    expect(inflateDeviation(50, 300)).toBeGreaterThan(100);
+    expect(inflateDeviation(50, 10_000)).toBe(350);
+  });
+
+  it('rates doubles players against the opposing pair and by their own deviation', () => {
+    const player = (userId: string, rd: number) => ({ userId, rating: 1500, rd, lastPlayedOn: null });
+    const next = rateMatch([player('a1', 80), player('a2', 300)], [player('b1', 80), player('b2', 80)], 'a', '2030-06-04');
+
+    expect(next.get('a1')!.rating).toBeGreaterThan(1500);
+    expect(next.get('a2')!.rating - 1500).toBeGreaterThan(next.get('a1')!.rating - 1500);
+    expect(next.get('b1')!.rating).toBeLessThan(1500);
+  });
+});
+
+describe('results', () => {
+  beforeEach(() => {
+    queryMock.mockReset();
+    clientQueryMock.mockReset();
+    createNotificationMock.mockReset().mockResolvedValue('n1');
+  });
+
+  it('refuses a result before the booking has finished', async () => {
+    queryMock.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM bookings b')) {
+        return { rows: [{ id: 'b1', bookingDate: '2030-06-04', endTime: '19:00:00', status: 'confirmed', isPlayer: true }] };
+      }
+      return { rows: [] };
+    });
+
+    await expect(
+      reportResult('fac-1', 'u1', { bookingId: 'b1', opponentIds: ['u2'], sets: [{ a: 6, b: 3 }] })
+    ).rejects.toThrow('once the booking has finished');
+  });
+
+  it('refuses doubles with one opponent', async () => {
+    await expect(
+      reportResult('fac-1', 'u1', { bookingId: 'b1', partnerId: 'u3', opponentIds: ['u2'], sets: [{ a: 6, b: 3 }] })
+    ).rejects.toThrow('two opponents');
+  });
+
+  it('moves both players when the opponent confirms', async () => {
+    clientQueryMock.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM match_results WHERE id = $1 FOR UPDATE')) {
+        return {
+          rows: [
+            {
+              id: 'r1',
+              facilityId: 'fac-1',
+              reportedBy: 'u1',
+              teamA: ['u1'],
+              teamB: ['u2'],
+              sets: [{ a: 6, b: 3 }],
+              winnerSide: 'a',
+              playedOn: '2030-06-04',
+              status: 'pending',
+            },
+          ],
+        };
+      }
+      if (sql.includes('FROM club_ratings')) {
+        return {
+          rows: [
+            { userId: 'u1', rating: 1500, rd: 350, lastPlayedOn: null },
+            { userId: 'u2', rating: 1500, rd: 350, lastPlayedOn: null },
+          ],
+        };
+      }
+      return { rows: [] };
+    });
+    queryMock.mockResolvedValue({
+      rows: [
+        {
+          id: 'r1',
+          teamAIds: ['u1'],
+          teamBIds: ['u2'],
+          sets: [{ a: 6, b: 3 }],
+          players: [{ userId: 'u1', fullName: 'Pat', ratingBefore: 1500, ratingAfter: 1662.21 }],
+        },
+      ],
+    });
+
+    await confirmResult('r1', 'u2');
+
+    const updates = callsWith(clientQueryMock, 'UPDATE club_ratings');
+    expect(updates.map((params) => [params[1], params[2]])).toEqual([
+      ['u1', 1662.21],
+      ['u2', 1337.79],
+    ]);
+    expect(callsWith(clientQueryMock, "SET status = 'confirmed'")).toEqual([['r1', 'u2']]);
+    expect(createNotificationMock).toHaveBeenCalledWith(
+      'u1',
+      'Match result confirmed',
+      expect.stringContaining('now 1662'),
+      'match_result_confirmed',
+      expect.anything()
+    );
+  });
+
+  it('only lets the opposing side confirm', async () => {
+    clientQueryMock.mockResolvedValueOnce({
+      rows: [{ id: 'r1', reportedBy: 'u1', teamA: ['u1'], teamB: ['u2'], status: 'pending' }],
+    });
+
+    await expect(confirmResult('r1', 'u1')).rejects.toMatchObject({ status: 403 });
+  });
+});
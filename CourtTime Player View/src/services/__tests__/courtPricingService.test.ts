@@ -0,0 +1,193 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const isFeatureEnabledMock = vi.fn();
+const isPeakHoursSlotMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+}));
+
+vi.mock('../featureFlagService', () => ({
+  isFeatureEnabled: (...args: unknown[]) => isFeatureEnabledMock(...args),
+}));
+
+vi.mock('../rulesEngine/RuleContext', () => ({
+  isPeakHoursSlot: (...args: unknown[]) => isPeakHoursSlotMock(...args),
+}));
+
+import {
+  CourtPricingError,
+  applyTierDiscount,
+  isWeekendDate,
+  normalizeRuleInput,
+  quoteCourtRate,
+  selectPricingRule,
+  type CourtPricingRule,
+} from '../courtPricingService';
+
+beforeEach(() => {
+  queryMock.mockReset();
+  isFeatureEnabledMock.mockReset();
+  isPeakHoursSlotMock.mockReset();
+  isFeatureEnabledMock.mockResolvedValue(true);
+  isPeakHoursSlotMock.mockResolvedValue(false);
+});
+
+function rule(overrides: Partial<CourtPricingRule>): CourtPricingRule {
+  return {
+    id: 'rule-1',
+    facilityId: 'club-1',
+    name: 'Rule',
+    timeBand: 'any',
+    dayType: 'any',
+    courtSetting: 'any',
+    courtId: null,
+    courtName: null,
+    hourlyRateCents: 2000,
+    isActive: true,
+    ...overrides,
+  };
+}
+
+const facts = { courtIds: ['court-1'], isIndoor: true, isPeak: true, isWeekend: false };
+
+describe('selectPricingRule', () => {
+  it('ignores rules whose conditions do not match the slot', () => {
+    const rules = [
+      rule({ id: 'off-peak', timeBand: 'off_peak' }),
+      rule({ id: 'weekend', dayType: 'weekend' }),
+      rule({ id: 'outdoor', courtSetting: 'outdoor' }),
+      rule({ id: 'other-court', courtId: 'court-2' }),
+    ];
+    expect(selectPricingRule(rules, facts)).toBeNull();
+  });
+
+  it('prefers the rule with the most matching conditions', () => {
+    const rules = [
+      rule({ id: 'peak', timeBand: 'peak' }),
+      rule({ id: 'indoor-peak', timeBand: 'peak', courtSetting: 'indoor' }),
+      rule({ id: 'weekday', dayType: 'weekday' }),
+    ];
+    expect(selectPricingRule(rules, facts)?.id).toBe('indoor-peak');
+  });
+
+  it('lets a court-specific rule outrank every other condition', () => {
+    const rules = [
+      rule({ id: 'indoor-weekday-peak', timeBand: 'peak', dayType: 'weekday', courtSetting: 'indoor' }),
+      rule({ id: 'court', courtId: 'court-1' }),
+    ];
+    expect(selectPricingRule(rules, facts)?.id).toBe('court');
+  });
+
+  it('keeps the oldest rule on a tie and skips inactive rules', () => {
+    const rules = [
+      rule({ id: 'disabled', timeBand: 'peak', isActive: false }),
+      rule({ id: 'first', timeBand: 'peak' }),
+      rule({ id: 'second', dayType: 'weekday' }),
+    ];
+    expect(selectPricingRule(rules, facts)?.id).toBe('first');
+  });
+});
+
+describe('applyTierDiscount', () => {
+  it('takes the percentage off and rounds to whole cents', () => {
+    expect(applyTierDiscount(2500, 15)).toBe(2125);
+    expect(applyTierDiscount(999, 10)).toBe(899);
+  });
+
+  it('clamps the discount to 0-100%', () => {
+    expect(applyTierDiscount(2000, -5)).toBe(2000);
+    expect(applyTierDiscount(2000, 150)).toBe(0);
+  });
+});
+
+describe('isWeekendDate', () => {
+  it('treats Saturday and Sunday as the weekend', () => {
+    expect(isWeekendDate('2026-10-17')).toBe(true);
+    expect(isWeekendDate('2026-10-18')).toBe(true);
+    expect(isWeekendDate('2026-10-19')).toBe(false);
+  });
+});
+
+describe('normalizeRuleInput', () => {
+  it('trims the name and fills defaults', () => {
+    expect(normalizeRuleInput({ name: '  Prime time ', hourlyRateCents: 3000 })).toEqual({
+      name: 'Prime time',
+      timeBand: 'any',
+      dayType: 'any',
+      courtSetting: 'any',
+      courtId: null,
+      hourlyRateCents: 3000,
+      isActive: true,
+    });
+  });
+
+  it('rejects a blank name, an unknown band and fractional cents', () => {
+    expect(() => normalizeRuleInput({ name: ' ', hourlyRateCents: 100 })).toThrow('Rule name is required');
+    expect(() =>
+      normalizeRuleInput({ name: 'x', timeBand: 'night' as never, hourlyRateCents: 100 })
+    ).toThrow(CourtPricingError);
+    expect(() => normalizeRuleInput({ name: 'x', hourlyRateCents: 12.5 })).toThrow(
+      'Hourly rate must be a whole number of cents'
+    );
+  });
+});
+
+describe('quoteCourtRate', () => {
+  const court = {
+    id: 'court-1',
+    facility_id: 'club-1',
+    parent_court_id: null,
+    is_indoor: false,
+    booking_amount_cents: 2000,
+  } as any;
+  const slot = { userId: 'user-1', bookingDate: '2026-10-17', startTime: '18:00', endTime: '19:00' };
+
+  it('charges the court rate when dynamic pricing is off', async () => {
+    isFeatureEnabledMock.mockResolvedValue(false);
+
+    const quote = await quoteCourtRate(court, slot);
+
+    expect(quote.hourlyRateCents).toBe(2000);
+    expect(quote.ruleName).toBeNull();
+    expect(queryMock).not.toHaveBeenCalled();
+  });
+
+  it('applies the matching rule and then the member tier discount', async () => {
+    isPeakHoursSlotMock.mockResolvedValue(true);
+    queryMock
+      .mockResolvedValueOnce({
+        rows: [
+          rule({ id: 'peak', name: 'Peak', timeBand: 'peak', hourlyRateCents: 3000 }),
+          rule({ id: 'weekend-peak', name: 'Weekend peak', timeBand: 'peak', dayType: 'weekend', hourlyRateCents: 3600 }),
+        ],
+      })
+      .mockResolvedValueOnce({ rows: [{ tierName: 'Gold', discountPercent: 25 }] });
+
+    const quote = await quoteCourtRate(court, slot);
+
+    expect(quote).toMatchObject({
+      standardRateCents: 2000,
+      ruleRateCents: 3600,
+      ruleName: 'Weekend peak',
+      tierName: 'Gold',
+      tierDiscountPercent: 25,
+      hourlyRateCents: 2700,
+      isPeak: true,
+      isWeekend: true,
+    });
+  });
+
+  it('skips the peak-hours lookup when no rule depends on it', async () => {
+    queryMock
+      .mockResolvedValueOnce({ rows: [rule({ courtSetting: 'outdoor', hourlyRateCents: 1500 })] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const quote = await quoteCourtRate(court, slot);
+
+    expect(isPeakHoursSlotMock).not.toHaveBeenCalled();
+    expect(quote.hourlyRateCents).toBe(1500);
+    expect(quote.tierName).toBeNull();
+  });
+});
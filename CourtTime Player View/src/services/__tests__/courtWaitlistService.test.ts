@@ -0,0 +1,212 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const validateBookingMock = vi.fn();
+const createBookingMock = vi.fn();
+const isFeatureEnabledMock = vi.fn();
+const createNotificationMock = vi.fn();
+const sendOfferEmailMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+  transaction: vi.fn(),
+}));
+
+vi.mock('../bookingService', () => ({
+  validateBooking: (...args: unknown[]) => validateBookingMock(...args),
+  createBooking: (...args: unknown[]) => createBookingMock(...args),
+}));
+
+vi.mock('../featureFlagService', () => ({
+  isFeatureEnabled: (...args: unknown[]) => isFeatureEnabledMock(...args),
+}));
+
+vi.mock('../notificationService', () => ({
+  notificationService: {
+    createNotification: (...args: unknown[]) => createNotificationMock(...args),
+  },
+}));
+
+vi.mock('../emailService', () => ({
+  sendCourtWaitlistOfferEmail: (...args: unknown[]) => sendOfferEmailMock(...args),
+}));
+
+import {
+  CourtWaitlistError,
+  claimCourtWaitlistOffer,
+  offerFreedSlot,
+} from '../courtWaitlistService';
+
+const slot = {
+  facilityId: 'fac-1',
+  courtId: 'court-1',
+  bookingDate: '2030-06-01',
+  startTime: '18:00:00',
+  endTime: '19:00:00',
+};
+
+function entry(id: string, userId: string, overrides: Record<string, unknown> = {}) {
+  return { id, userId, status: 'waiting', ...slot, ...overrides };
+}
+
+/**
+ * Routes each SQL statement to a canned result by fragment, so the tests pin
+ * behaviour rather than the exact order the service issues queries in.
+ */
+function routeQueries(candidates: unknown[], bookedWindows: Set<string> = new Set()) {
+  // Windows become "taken" once booked or offered earlier in the same pass.
+  const taken = new Set(bookedWindows);
+  const windowOf = new Map(
+    (candidates as Array<{ id: string; startTime: string; endTime: string }>).map((c) => [
+      c.id,
+      `${c.startTime}-${c.endTime}`,
+    ])
+  );
+  queryMock.mockImplementation(async (sql: string, params: any[] = []) => {
+    if (sql.includes('ORDER BY w.created_at')) return { rows: candidates };
+    if (sql.includes('UNION ALL')) {
+      return { rows: taken.has(`${params[2]}-${params[3]}`) ? [{}] : [] };
+    }
+    if (sql.includes("SET status = 'offered'")) {
+      taken.add(windowOf.get(params[0])!);
+      return { rows: [{ offerExpiresAt: '2030-06-01T17:30:00.000Z' }] };
+    }
+    if (sql.includes('FROM courts c')) {
+      return {
+        rows: [{
+          courtName: 'Court 1',
+          facilityName: 'Test Club',
+          timezone: 'America/New_York',
+          email: 'member@example.com',
+          fullName: 'Member',
+        }],
+      };
+    }
+    return { rows: [] };
+  });
+}
+
+function offeredIds(): string[] {
+  return queryMock.mock.calls
+    .filter(([sql]) => String(sql).includes("SET status = 'offered'"))
+    .map(([, params]) => (params as string[])[0]);
+}
+
+describe('courtWaitlistService', () => {
+  beforeEach(() => {
+    queryMock.mockReset();
+    validateBookingMock.mockReset();
+    createBookingMock.mockReset();
+    isFeatureEnabledMock.mockReset().mockResolvedValue(true);
+    createNotificationMock.mockReset().mockResolvedValue('n-1');
+    sendOfferEmailMock.mockReset().mockResolvedValue({ success: true });
+  });
+
+  describe('offerFreedSlot', () => {
+    it('offers the freed window to the first eligible member in line only', async () => {
+      routeQueries([entry('e1', 'u1'), entry('e2', 'u2')]);
+      validateBookingMock.mockResolvedValue({ allowed: true });
+
+      const count = await offerFreedSlot(slot);
+
+      expect(count).toBe(1);
+      expect(offeredIds()).toEqual(['e1']);
+      expect(createNotificationMock).toHaveBeenCalledWith(
+        'u1',
+        expect.any(String),
+        expect.stringContaining('Court 1'),
+        'court_waitlist_offer',
+        expect.objectContaining({ priority: 'high' })
+      );
+      expect(sendOfferEmailMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('skips members the rules engine now rejects without dropping them', async () => {
+      routeQueries([entry('e1', 'u1'), entry('e2', 'u2')]);
+      validateBookingMock
+        .mockResolvedValueOnce({ allowed: false, blockers: [{ ruleCode: 'ACC-002' }] })
+        .mockResolvedValueOnce({ allowed: true });
+
+      await offerFreedSlot(slot);
+
+      expect(offeredIds()).toEqual(['e2']);
+      expect(validateBookingMock).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'u1', durationMinutes: 60 })
+      );
+      const cancelled = queryMock.mock.calls.filter(([sql]) =>
+        String(sql).includes("status = 'cancelled'")
+      );
+      expect(cancelled).toEqual([]);
+    });
+
+    it('leaves entries waiting when their wider window is still partly booked', async () => {
+      routeQueries(
+        [entry('e1', 'u1', { startTime: '17:00:00', endTime: '19:00:00' }), entry('e2', 'u2')],
+        new Set(['17:00:00-19:00:00'])
+      );
+      validateBookingMock.mockResolvedValue({ allowed: true });
+
+      await offerFreedSlot(slot);
+
+      expect(offeredIds()).toEqual(['e2']);
+      expect(validateBookingMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('does nothing when the facility has not enabled the waitlist', async () => {
+      isFeatureEnabledMock.mockResolvedValue(false);
+
+      const count = await offerFreedSlot(slot);
+
+      expect(count).toBe(0);
+      expect(queryMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('claimCourtWaitlistOffer', () => {
+    const future = new Date(Date.now() + 10 * 60 * 1000).toISOString();
+
+    it('books the slot and marks the entry claimed', async () => {
+      queryMock
+        .mockResolvedValueOnce({ rows: [entry('e1', 'u1', { status: 'offered', offerExpiresAt: future })] })
+        .mockResolvedValueOnce({ rows: [] });
+      createBookingMock.mockResolvedValue({ success: true, booking: { id: 'b-9' } });
+
+      const result = await claimCourtWaitlistOffer({ entryId: 'e1', userId: 'u1' });
+
+      expect(result.success).toBe(true);
+      expect(createBookingMock).toHaveBeenCalledWith(
+        expect.objectContaining({ courtId: 'court-1', userId: 'u1', startTime: '18:00:00' })
+      );
+      const [sql, params] = queryMock.mock.calls[1];
+      expect(String(sql)).toContain("status = 'claimed'");
+      expect(params).toEqual(['e1', 'b-9']);
+    });
+
+    it('keeps the offer open while a paid court goes through checkout', async () => {
+      queryMock.mockResolvedValueOnce({
+        rows: [entry('e1', 'u1', { status: 'offered', offerExpiresAt: future })],
+      });
+      createBookingMock.mockResolvedValue({
+        success: true,
+        requiresPayment: true,
+        checkoutUrl: 'https://checkout.example/x',
+      });
+
+      const result = await claimCourtWaitlistOffer({ entryId: 'e1', userId: 'u1' });
+
+      expect(result.checkoutUrl).toBe('https://checkout.example/x');
+      expect(queryMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects an offer whose claim window has passed', async () => {
+      queryMock.mockResolvedValueOnce({
+        rows: [entry('e1', 'u1', { status: 'offered', offerExpiresAt: '2000-01-01T00:00:00Z' })],
+      });
+
+      await expect(claimCourtWaitlistOffer({ entryId: 'e1', userId: 'u1' })).rejects.toBeInstanceOf(
+        CourtWaitlistError
+      );
+      expect(createBookingMock).not.toHaveBeenCalled();
+    });
+  });
+});
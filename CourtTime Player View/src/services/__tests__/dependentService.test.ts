@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+  transaction: vi.fn(),
+}));
+
+import {
+  DependentError,
+  ageOn,
+  getNotificationRecipient,
+  normalizeDependentInput,
+  resolveActingUserId,
+} from '../dependentService';
+
+beforeEach(() => {
+  queryMock.mockReset();
+});
+
+describe('ageOn', () => {
+  it('counts a birthday only once it has passed', () => {
+    expect(ageOn('2012-10-20', '2026-10-19')).toBe(13);
+    expect(ageOn('2012-10-19', '2026-10-19')).toBe(14);
+  });
+});
+
+describe('normalizeDependentInput', () => {
+  const today = '2026-10-19';
+
+  it('trims names and defaults gender to null', () => {
+    expect(normalizeDependentInput({ firstName: ' Alex ', lastName: 'Smith', dateOfBirth: '2015-03-02' }, today))
+      .toEqual({ firstName: 'Alex', lastName: 'Smith', dateOfBirth: '2015-03-02', gender: null });
+  });
+
+  it('refuses players who are 18 or older', () => {
+    expect(() => normalizeDependentInput({ firstName: 'Sam', lastName: 'Smith', dateOfBirth: '2008-10-19' }, today))
+      .toThrow('players under 18');
+  });
+
+  it('refuses malformed and future birth dates', () => {
+    expect(() => normalizeDependentInput({ firstName: 'A', lastName: 'B', dateOfBirth: '03/02/2015' }, today))
+      .toThrow('YYYY-MM-DD');
+    expect(() => normalizeDependentInput({ firstName: 'A', lastName: 'B', dateOfBirth: '2027-01-01' }, today))
+      .toThrow('in the future');
+  });
+});
+
+describe('resolveActingUserId', () => {
+  it('acts as the caller when no dependent is named', async () => {
+    await expect(resolveActingUserId('parent-1', undefined)).resolves.toBe('parent-1');
+    expect(queryMock).not.toHaveBeenCalled();
+  });
+
+  it('acts as one of the caller\'s own dependents', async () => {
+    queryMock.mockResolvedValue({ rows: [{ '?column?': 1 }] });
+    await expect(resolveActingUserId('parent-1', 'kid-1')).resolves.toBe('kid-1');
+    expect(queryMock.mock.calls[0][1]).toEqual(['kid-1', 'parent-1']);
+  });
+
+  it('refuses anyone else\'s id with a 403', async () => {
+    queryMock.mockResolvedValue({ rows: [] });
+    const error = await resolveActingUserId('parent-1', 'stranger').catch((e) => e);
+    expect(error).toBeInstanceOf(DependentError);
+    expect(error.status).toBe(403);
+  });
+});
+
+describe('getNotificationRecipient', () => {
+  it('redirects a dependent to the parent, naming the child', async () => {
+    queryMock.mockResolvedValue({
+      rows: [{ parent_user_id: 'parent-1', first_name: 'Alex', email: null, parent_email: 'pat@example.com' }],
+    });
+    await expect(getNotificationRecipient('kid-1')).resolves.toEqual({
+      userId: 'parent-1',
+      email: 'pat@example.com',
+      dependentName: 'Alex',
+    });
+  });
+
+  it('leaves regular members alone', async () => {
+    queryMock.mockResolvedValue({
+      rows: [{ parent_user_id: null, first_name: 'Pat', email: 'pat@example.com', parent_email: null }],
+    });
+    await expect(getNotificationRecipient('parent-1')).resolves.toEqual({
+      userId: 'parent-1',
+      email: 'pat@example.com',
+      dependentName: null,
+    });
+  });
+});
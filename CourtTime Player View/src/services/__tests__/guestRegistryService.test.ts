@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+}));
+
+import {
+  matchRegisteredGuest,
+  parseBookingGuests,
+  recordGuestVisits,
+} from '../guestRegistryService';
+import { accountEvaluators } from '../rulesEngine/evaluators/AccountRuleEvaluators';
+import { billableGuestCount, computeBookingFeeTotalCents } from '../courtPaymentSettings';
+import type { GuestVisitRecord, RequestedGuest, RuleContext } from '../rulesEngine/types';
+
+const evaluator = (code: string) => accountEvaluators.find((e) => e.ruleCode === code)!;
+
+function guestContext(requested: RequestedGuest[], visits: GuestVisitRecord[], excludeBookingId?: string) {
+  return {
+    request: { userId: 'host-1', bookingDate: '2030-05-10', excludeBookingId },
+    guests: { requested, visits },
+  } as unknown as RuleContext;
+}
+
+const visit = (overrides: Partial<GuestVisitRecord> = {}): GuestVisitRecord => ({
+  guestId: 'g-1',
+  hostUserId: 'host-1',
+  bookingId: 'bk-old',
+  visitDate: '2030-02-01',
+  ...overrides,
+});
+
+describe('parseBookingGuests', () => {
+  it('normalizes names and emails and collapses repeats', () => {
+    expect(
+      parseBookingGuests([
+        { name: '  Jane   Doe ', email: ' Jane@Example.com ' },
+        { name: 'Jane D.', email: 'jane@example.com' },
+        { name: 'Sam', email: 'not-an-email' },
+        { name: 'sam' },
+        { name: '   ' },
+      ])
+    ).toEqual([
+      { name: 'Jane Doe', email: 'jane@example.com' },
+      { name: 'Sam', email: null },
+    ]);
+  });
+
+  it('falls back to the legacy guestNames list', () => {
+    expect(parseBookingGuests(undefined, ['Pat', ''])).toEqual([{ name: 'Pat', email: null }]);
+  });
+});
+
+describe('matchRegisteredGuest', () => {
+  const rows = [
+    { id: 'with-email', email: 'jane@example.com', nameKey: 'jane doe' },
+    { id: 'name-only', email: null, nameKey: 'jane doe' },
+  ];
+
+  it('matches by email before name', () => {
+    expect(matchRegisteredGuest({ name: 'J. Doe', email: 'jane@example.com' }, rows)?.id).toBe('with-email');
+  });
+
+  it('prefers a name-only row for a guest given without an email', () => {
+    expect(matchRegisteredGuest({ name: 'Jane  DOE', email: null }, rows)?.id).toBe('name-only');
+  });
+
+  it('does not match a different email to a guest that already has one', () => {
+    expect(matchRegisteredGuest({ name: 'Jane Doe', email: 'other@example.com' }, rows.slice(0, 1))).toBeNull();
+  });
+});
+
+describe('ACC-012 guest visits per year', () => {
+  it('blocks when the new guests would exceed the host allowance', async () => {
+    const context = guestContext(
+      [{ name: 'A', email: null, guestId: null }, { name: 'B', email: null, guestId: null }],
+      [visit(), visit({ bookingId: 'bk-2' }), visit({ hostUserId: 'host-2', bookingId: 'bk-3' })]
+    );
+
+    const result = await evaluator('ACC-012').evaluate(context, { max_guest_visits: 3, window_type: 'calendar_year' });
+
+    expect(result.passed).toBe(false);
+    expect(result.details).toMatchObject({ current: 2, max: 3, requested: 2 });
+  });
+
+  it('does not count the booking being edited', async () => {
+    const context = guestContext(
+      [{ name: 'A', email: null, guestId: 'g-1' }],
+      [visit({ bookingId: 'bk-edit' }), visit({ bookingId: 'bk-2' })],
+      'bk-edit'
+    );
+
+    const result = await evaluator('ACC-012').evaluate(context, { max_guest_visits: 2, window_type: 'calendar_year' });
+
+    expect(result.passed).toBe(true);
+  });
+});
+
+describe('ACC-013 visits per guest per year', () => {
+  it('counts a guest\'s visits with any host', async () => {
+    const context = guestContext(
+      [{ name: 'Jane Doe', email: null, guestId: 'g-1' }],
+      [visit(), visit({ hostUserId: 'host-2', bookingId: 'bk-2' }), visit({ guestId: 'g-2', bookingId: 'bk-3' })]
+    );
+
+    const result = await evaluator('ACC-013').evaluate(context, { max_visits_per_guest: 2, window_type: 'calendar_year' });
+
+    expect(result.passed).toBe(false);
+    expect(result.message).toBe('Jane Doe has already visited 2 of 2 times allowed in 2030.');
+  });
+
+  it('lets first-time guests through', async () => {
+    const context = guestContext([{ name: 'New', email: null, guestId: null }], []);
+
+    const result = await evaluator('ACC-013').evaluate(context, { max_visits_per_guest: 1, window_type: 'calendar_year' });
+
+    expect(result.passed).toBe(true);
+  });
+});
+
+describe('per-guest fees', () => {
+  it('bills each named guest, and one guest when none are named', () => {
+    expect(billableGuestCount(true, ['A', 'B', 'C'])).toBe(3);
+    expect(billableGuestCount(true, [])).toBe(1);
+    expect(billableGuestCount(false, ['A'])).toBe(0);
+  });
+
+  it('multiplies the guest fee by the guest count', () => {
+    const court = { require_payment: true, booking_amount_cents: 2000, guest_fee_cents: 1500 };
+    expect(computeBookingFeeTotalCents(court, { durationMinutes: 90, bringGuest: true, guestCount: 2 })).toBe(6000);
+  });
+});
+
+describe('recordGuestVisits', () => {
+  beforeEach(() => {
+    queryMock.mockReset();
+  });
+
+  it('registers new guests, backfills a missing email and records one visit each', async () => {
+    const clientQuery = vi.fn(async (sql: string) => {
+      if (/FROM facility_guests/.test(sql)) {
+        return { rows: [{ id: 'g-known', email: null, nameKey: 'jane doe' }] };
+      }
+      if (/INSERT INTO facility_guests/.test(sql)) return { rows: [{ id: 'g-new' }] };
+      return { rows: [], rowCount: 1 };
+    });
+
+    await recordGuestVisits({ query: clientQuery } as any, {
+      facilityId: 'fac-1',
+      hostUserId: 'host-1',
+      bookingId: 'bk-1',
+      visitDate: '2030-05-10',
+      guests: [
+        { name: 'Jane Doe', email: 'jane@example.com' },
+        { name: 'Sam Smith', email: null },
+      ],
+      feeCentsPerGuest: 1500,
+    });
+
+    const calls = clientQuery.mock.calls as unknown as Array<[string, unknown[]]>;
+    const emailUpdate = calls.find(([sql]) => /UPDATE facility_guests SET email/.test(sql));
+    expect(emailUpdate![1]).toEqual(['g-known', 'jane@example.com']);
+
+    const visits = calls.filter(([sql]) => /INSERT INTO guest_visits/.test(sql)).map(([, params]) => params[1]);
+    expect(visits).toEqual(['g-known', 'g-new']);
+    expect(queryMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const createBookingMock = vi.fn();
+const createNotificationMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+}));
+
+vi.mock('../bookingService', () => ({
+  createBooking: (...args: unknown[]) => createBookingMock(...args),
+}));
+
+vi.mock('../notificationService', () => ({
+  notificationService: {
+    createNotification: (...args: unknown[]) => createNotificationMock(...args),
+  },
+}));
+
+vi.mock('../rulesEngine/RuleContext', () => ({
+  getFacilityLocalNow: () => new Date(2030, 5, 4, 18, 0),
+}));
+
+import { proposeHit, respondToInvitation, scorePartnerMatch, type MatchProfile } from '../hittingPartnerMatchService';
+import { overlappingWindows, parseAvailabilityWindows } from '../../../shared/utils/hittingPartnerAvailability';
+
+function profile(overrides: Partial<MatchProfile> = {}): MatchProfile {
+  return {
+    skillLevel: 'Intermediate',
+    skillMin: null,
+    skillMax: null,
+    windows: [],
+    playStyle: ['Singles'],
+    clubRating: null,
+    ...overrides,
+  };
+}
+
+const invitationRow = {
+  id: 'inv-1',
+  facilityId: 'fac-1',
+  postId: null,
+  fromUserId: 'u1',
+  fromName: 'Pat',
+  toUserId: 'u2',
+  toName: 'Sam',
+  courtId: 'court-1',
+  courtName: 'Court 1',
+  bookingDate: '2030-06-05',
+  startTime: '18:00:00',
+  endTime: '19:30:00',
+  message: null,
+  status: 'pending',
+  bookingId: null,
+  failureReason: null,
+};
+
+describe('availability windows', () => {
+  it('validates and sorts windows', () => {
+    expect(
+      parseAvailabilityWindows([
+        { day: 4, start: '18:00', end: '20:00' },
+        { day: 2, start: '07:00:00', end: '09:00' },
+      ])
+    ).toEqual({
+      windows: [
+        { day: 2, start: '07:00', end: '09:00' },
+        { day: 4, start: '18:00', end: '20:00' },
+      ],
+    });
+    expect(parseAvailabilityWindows([{ day: 7, start: '18:00', end: '20:00' }])).toEqual({
+      error: 'Each window needs a weekday',
+    });
+    expect(parseAvailabilityWindows([{ day: 1, start: '20:00', end: '18:00' }])).toEqual({
+      error: 'Each window must end after it starts',
+    });
+  });
+
+  it('finds the shared part of each weekday', () => {
+    expect(
+      overlappingWindows(
+        [{ day: 2, start: '17:00', end: '20:00' }, { day: 6, start: '08:00', end: '10:00' }],
+        [{ day: 2, start: '18:30', end: '21:00' }, { day: 0, start: '08:00', end: '10:00' }]
+      )
+    ).toEqual([{ day: 2, start: '18:30', end: '20:00' }]);
+  });
+});
+
+describe('scorePartnerMatch', () => {
+  const tuesdayEvening = [{ day: 2, start: '18:00', end: '22:00' }];
+
+  it('ranks shared availability and a close level above a poor fit', () => {
+    const me = profile({ windows: tuesdayEvening });
+    const good = scorePartnerMatch(me, profile({ windows: tuesdayEvening }))!;
+    const poor = scorePartnerMatch(me, profile({ skillLevel: 'Professional', windows: [{ day: 5, start: '06:00', end: '07:00' }] }))!;
+
+    expect(good.overlapMinutes).toBe(240);
+    expect(good.score).toBeGreaterThan(poor.score);
+    expect(poor.overlap).toEqual([]);
+  });
+
+  it('drops a candidate outside either player’s skill range', () => {
+    expect(scorePartnerMatch(profile({ skillMin: 'Advanced' }), profile({ skillLevel: 'Intermediate' }))).toBeNull();
+    expect(scorePartnerMatch(profile({ skillLevel: 'Beginner' }), profile({ skillMin: 'Intermediate' }))).toBeNull();
+    expect(scorePartnerMatch(profile({ skillMin: 'Advanced' }), profile({ skillLevel: null }))).not.toBeNull();
+  });
+});
+
+describe('invitations', () => {
+  beforeEach(() => {
+    queryMock.mockReset();
+    createBookingMock.mockReset();
+    createNotificationMock.mockReset().mockResolvedValue('n1');
+  });
+
+  it('refuses a slot in the past', async () => {
+    queryMock.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM facility_memberships')) return { rows: [{ user_id: 'u1' }, { user_id: 'u2' }] };
+      if (sql.includes('FROM courts')) return { rows: [{ id: 'court-1' }] };
+      return { rows: [] };
+    });
+
+    await expect(
+      proposeHit('u1', {
+        facilityId: 'fac-1',
+        toUserId: 'u2',
+        courtId: 'court-1',
+        bookingDate: '2030-06-04',
+        startTime: '17:00',
+        endTime: '18:00',
+      })
+    ).rejects.toThrow('in the future');
+  });
+
+  it('books the court in the proposer’s name when the invitee accepts', async () => {
+    queryMock.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM hitting_invitations i')) return { rows: [invitationRow] };
+      if (sql.includes('SET responded_at')) return { rows: [{ id: 'inv-1' }] };
+      return { rows: [] };
+    });
+    createBookingMock.mockResolvedValue({ success: true, booking: { id: 'b1' } });
+
+    await respondToInvitation('inv-1', 'u2', true);
+
+    expect(createBookingMock).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'u1', courtId: 'court-1', bookingDate: '2030-06-05', durationMinutes: 90 })
+    );
+    const participants = queryMock.mock.calls.find(([sql]) => String(sql).includes('INSERT INTO booking_participants'));
+    expect(participants?.[1]).toEqual(['b1', 'u1', 'u1', 'u2']);
+    expect(queryMock).toHaveBeenCalledWith(expect.stringContaining("status = 'booked'"), ['inv-1', 'b1']);
+  });
+
+  it('marks the invitation failed with the reason when booking is refused', async () => {
+    queryMock.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM hitting_invitations i')) return { rows: [invitationRow] };
+      if (sql.includes('SET responded_at')) return { rows: [{ id: 'inv-1' }] };
+      return { rows: [] };
+    });
+    createBookingMock.mockResolvedValue({ success: false, error: 'Court is already booked' });
+
+    await respondToInvitation('inv-1', 'u2', true);
+
+    expect(queryMock).toHaveBeenCalledWith(expect.stringContaining("status = 'failed'"), ['inv-1', 'Court is already booked']);
+    expect(createNotificationMock).toHaveBeenCalledWith(
+      'u1',
+      'Hit could not be booked',
+      expect.stringContaining('Court is already booked'),
+      'hitting_invitation',
+      expect.anything()
+    );
+  });
+
+  it('only lets the invited player respond', async () => {
+    queryMock.mockResolvedValueOnce({ rows: [invitationRow] });
+
+    await expect(respondToInvitation('inv-1', 'u1', true)).rejects.toMatchObject({ status: 403 });
+    expect(createBookingMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const sendHouseholdStatementEmailMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+}));
+
+vi.mock('../emailService', () => ({
+  sendHouseholdStatementEmail: (...args: unknown[]) => sendHouseholdStatementEmailMock(...args),
+}));
+
+import {
+  groupChargesByMember,
+  missingCardMessage,
+  recordHouseholdCharge,
+  renderStatementHtml,
+  resolveBillingCard,
+  sendMonthlyStatements,
+  setBillingPayer,
+} from '../householdBillingService';
+
+beforeEach(() => {
+  queryMock.mockReset();
+  sendHouseholdStatementEmailMock.mockReset().mockResolvedValue({ success: true });
+});
+
+describe('resolveBillingCard', () => {
+  it('charges the household payer when one is set, and says so when their card is missing', async () => {
+    queryMock.mockResolvedValue({
+      rows: [{ household_id: 'hh-1', payer_user_id: 'parent-1', stripe_customer_id: null, stripe_default_payment_method_id: null, card_last4: null }],
+    });
+
+    const card = await resolveBillingCard('fac-1', 'kid-1');
+
+    expect(card.householdId).toBe('hh-1');
+    expect(card.payerUserId).toBe('parent-1');
+    expect(missingCardMessage(card)).toBe('Household payer has no saved card on file');
+  });
+
+  it('falls back to the member themselves outside shared billing', async () => {
+    queryMock.mockResolvedValue({
+      rows: [{ household_id: null, payer_user_id: 'kid-1', stripe_customer_id: 'cus_1', stripe_default_payment_method_id: 'pm_1', card_last4: '4242' }],
+    });
+
+    const card = await resolveBillingCard('fac-1', 'kid-1');
+
+    expect(card).toMatchObject({ householdId: null, payerUserId: 'kid-1', paymentMethodId: 'pm_1' });
+  });
+});
+
+describe('recordHouseholdCharge', () => {
+  const charge = {
+    facilityId: 'fac-1',
+    memberUserId: 'kid-1',
+    source: 'pro_shop' as const,
+    sourceId: 'order-1',
+    description: 'Pro Shop Tab – Grip ×1',
+    amountCents: 800,
+    stripePaymentIntentId: 'pi_1',
+  };
+
+  it('skips charges that went on the member\'s own card', async () => {
+    await recordHouseholdCharge(
+      { householdId: null, payerUserId: 'kid-1', stripeCustomerId: 'cus_1', paymentMethodId: 'pm_1', cardLast4: '4242', cardBrand: 'visa' },
+      charge
+    );
+    expect(queryMock).not.toHaveBeenCalled();
+  });
+
+  it('writes the ledger row against the payer', async () => {
+    queryMock.mockResolvedValue({ rows: [] });
+    await recordHouseholdCharge(
+      { householdId: 'hh-1', payerUserId: 'parent-1', stripeCustomerId: 'cus_1', paymentMethodId: 'pm_1', cardLast4: '4242', cardBrand: 'visa' },
+      charge
+    );
+    expect(queryMock.mock.calls[0][1].slice(0, 5)).toEqual(['hh-1', 'fac-1', 'parent-1', 'kid-1', 'pro_shop']);
+  });
+});
+
+describe('setBillingPayer', () => {
+  it('refuses a payer from outside the household', async () => {
+    queryMock.mockResolvedValue({ rows: [] });
+    await expect(setBillingPayer('hh-1', 'stranger')).rejects.toThrow('must be a member of the household');
+  });
+});
+
+describe('statements', () => {
+  const rows = [
+    { id: 'c-2', source: 'guest_fee' as const, description: 'Guest fees', amountCents: 1000, chargedAt: '2026-09-14T10:00', memberUserId: 'parent-1', memberName: 'Pat Smith' },
+    { id: 'c-1', source: 'court_fee' as const, description: 'Court <1>', amountCents: 2500, chargedAt: '2026-09-02T09:00', memberUserId: 'parent-1', memberName: 'Pat Smith' },
+    { id: 'c-3', source: 'pro_shop' as const, description: 'Grip', amountCents: 800, chargedAt: '2026-09-05T16:00', memberUserId: 'kid-1', memberName: 'Alex Smith' },
+  ];
+
+  it('groups charges per member in date order with subtotals', () => {
+    const members = groupChargesByMember(rows);
+
+    expect(members.map(m => m.fullName)).toEqual(['Alex Smith', 'Pat Smith']);
+    expect(members[1].charges.map(c => c.id)).toEqual(['c-1', 'c-2']);
+    expect(members[1].totalCents).toBe(3500);
+  });
+
+  it('renders an escaped, printable page with the household total', () => {
+    const members = groupChargesByMember(rows);
+    const html = renderStatementHtml({
+      householdId: 'hh-1',
+      householdName: 'Smith Family',
+      facilityId: 'fac-1',
+      facilityName: 'Sunrise Valley',
+      month: '2026-09',
+      payer: { userId: 'parent-1', fullName: 'Pat Smith', email: 'pat@example.com' },
+      members,
+      totalCents: 4300,
+    });
+
+    expect(html).toContain('Smith Family – September 2026 statement');
+    expect(html).toContain('Court &lt;1&gt;');
+    expect(html).toContain('$43.00');
+  });
+
+  it('claims each month before emailing, so a re-run sends nothing twice', async () => {
+    queryMock.mockImplementation(async (sql: string) => {
+      if (/FROM household_groups g\s+JOIN facilities f ON f.id = g.facility_id\s+WHERE g.billing_payer_user_id/.test(sql)) {
+        return { rows: [{ id: 'hh-1', month: '2026-09' }] };
+      }
+      if (/FROM household_groups g/.test(sql)) {
+        return {
+          rows: [{ id: 'hh-1', facility_id: 'fac-1', household_name: 'Smith Family', facility_name: 'Sunrise Valley',
+            billing_payer_user_id: 'parent-1', payer_name: 'Pat Smith', payer_email: 'pat@example.com' }],
+        };
+      }
+      if (/FROM household_billing_charges c/.test(sql)) return { rows };
+      // Another run already claimed the month
+      if (/INSERT INTO household_statements/.test(sql)) return { rows: [] };
+      return { rows: [] };
+    });
+
+    await expect(sendMonthlyStatements()).resolves.toBe(0);
+    expect(sendHouseholdStatementEmailMock).not.toHaveBeenCalled();
+  });
+});
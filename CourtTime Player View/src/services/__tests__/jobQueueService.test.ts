@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+}));
+
+import {
+  enqueueJob,
+  registerJobHandler,
+  registerRecurringJob,
+  retryDelaySeconds,
+  runJob,
+  type BackgroundJob,
+} from '../jobQueueService';
+
+const handlerMock = vi.fn();
+registerJobHandler('test_job', (payload, context) => handlerMock(payload, context));
+registerRecurringJob('test_sweep', 60, () => handlerMock());
+
+function job(overrides: Partial<BackgroundJob> = {}): BackgroundJob {
+  return {
+    id: 'job-1',
+    jobType: 'test_job',
+    payload: { facilityId: 'fac-1' },
+    status: 'running',
+    runAt: '2030-06-04T18:00:00Z',
+    attempts: 1,
+    maxAttempts: 3,
+    intervalSeconds: null,
+    dedupeKey: null,
+    lastError: null,
+    lockedBy: 'host:1',
+    lockedAt: '2030-06-04T18:00:00Z',
+    completedAt: null,
+    createdAt: '2030-06-04T18:00:00Z',
+    updatedAt: '2030-06-04T18:00:00Z',
+    ...overrides,
+  };
+}
+
+/** The params of the final UPDATE background_jobs issued by runJob. */
+function jobUpdateParams(): unknown[] {
+  const call = queryMock.mock.calls.filter(([sql]) => /UPDATE background_jobs/.test(sql as string)).at(-1);
+  return call![1] as unknown[];
+}
+
+beforeEach(() => {
+  queryMock.mockReset().mockImplementation(async (sql: string) =>
+    /INSERT INTO background_job_runs/.test(sql) ? { rows: [{ id: 'run-1' }] } : { rows: [], rowCount: 1 }
+  );
+  handlerMock.mockReset();
+});
+
+describe('retryDelaySeconds', () => {
+  it('doubles from 30 seconds and caps at an hour', () => {
+    expect([1, 2, 3, 4].map(retryDelaySeconds)).toEqual([30, 60, 120, 240]);
+    expect(retryDelaySeconds(20)).toBe(3600);
+  });
+});
+
+describe('runJob', () => {
+  it('records a successful run with the handler output', async () => {
+    handlerMock.mockResolvedValue({ charged: 4 });
+
+    await runJob(job());
+
+    expect(handlerMock).toHaveBeenCalledWith({ facilityId: 'fac-1' }, { jobId: 'job-1', attempt: 1 });
+    const runUpdate = queryMock.mock.calls.find(([sql]) => /UPDATE background_job_runs SET status = 'succeeded'/.test(sql));
+    expect(runUpdate![1]).toEqual(['run-1', JSON.stringify({ charged: 4 })]);
+  });
+
+  it('re-queues a failed job with backoff while attempts remain', async () => {
+    handlerMock.mockRejectedValue(new Error('Stripe unavailable'));
+
+    await runJob(job({ attempts: 2 }));
+
+    const [, , status, delay, error] = jobUpdateParams();
+    expect(status).toBe('queued');
+    expect(delay).toBe(60);
+    expect(error).toBe('Stripe unavailable');
+  });
+
+  it('dead-letters a one-off job on its last attempt', async () => {
+    handlerMock.mockRejectedValue(new Error('Stripe unavailable'));
+
+    await runJob(job({ attempts: 3 }));
+
+    expect(jobUpdateParams()[2]).toBe('dead');
+  });
+
+  it('never dead-letters a recurring job and retries within its interval', async () => {
+    handlerMock.mockRejectedValue(new Error('boom'));
+
+    await runJob(job({ jobType: 'test_sweep', intervalSeconds: 60, attempts: 9, maxAttempts: 5 }));
+
+    const [, , status, delay] = jobUpdateParams();
+    expect(status).toBe('queued');
+    expect(delay).toBe(60);
+  });
+});
+
+describe('enqueueJob', () => {
+  it('returns the existing job when the dedupe key is taken', async () => {
+    queryMock.mockReset()
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ id: 'existing-job' }] });
+
+    await expect(enqueueJob('test_job', {}, { dedupeKey: 'test_job:fac-1' })).resolves.toBe('existing-job');
+    expect(queryMock.mock.calls[0][0]).toContain('ON CONFLICT (dedupe_key) DO NOTHING');
+  });
+});
@@ -0,0 +1,225 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const createBookingMock = vi.fn();
+const createNotificationMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+  transaction: vi.fn(),
+}));
+
+vi.mock('../bookingService', () => ({
+  createBooking: (...args: unknown[]) => createBookingMock(...args),
+}));
+
+vi.mock('../notificationService', () => ({
+  notificationService: {
+    createNotification: (...args: unknown[]) => createNotificationMock(...args),
+  },
+}));
+
+import {
+  LeagueError,
+  applyLadderResult,
+  blackoutBlocks,
+  buildLadderPairings,
+  buildRoundRobinRounds,
+  computeStandings,
+  firstMatchDate,
+  scheduleSeason,
+} from '../leagueService';
+
+describe('buildRoundRobinRounds', () => {
+  it('has every team meet every other team exactly once', () => {
+    const teams = ['a', 'b', 'c', 'd', 'e', 'f'];
+    const rounds = buildRoundRobinRounds(teams);
+    expect(rounds).toHaveLength(5);
+
+    const meetings = new Set<string>();
+    for (const round of rounds) {
+      const playing = round.flatMap((p) => [p.homeTeamId, p.awayTeamId]);
+      expect(new Set(playing).size).toBe(6);
+      for (const p of round) meetings.add([p.homeTeamId, p.awayTeamId].sort().join('-'));
+    }
+    expect(meetings.size).toBe(15);
+  });
+
+  it('gives one team a bye each round when the count is odd', () => {
+    const rounds = buildRoundRobinRounds(['a', 'b', 'c', 'd', 'e']);
+    expect(rounds).toHaveLength(5);
+    expect(rounds.every((round) => round.length === 2)).toBe(true);
+  });
+});
+
+describe('ladder helpers', () => {
+  it('alternates neighbour pairings between rounds', () => {
+    const ladder = ['a', 'b', 'c', 'd', 'e'];
+    expect(buildLadderPairings(ladder, 1)).toEqual([
+      { homeTeamId: 'a', awayTeamId: 'b' },
+      { homeTeamId: 'c', awayTeamId: 'd' },
+    ]);
+    expect(buildLadderPairings(ladder, 2)).toEqual([
+      { homeTeamId: 'b', awayTeamId: 'c' },
+      { homeTeamId: 'd', awayTeamId: 'e' },
+    ]);
+  });
+
+  it('moves a lower-ranked winner into the loser’s place', () => {
+    expect(applyLadderResult(['a', 'b', 'c', 'd'], 'd', 'b')).toEqual(['a', 'd', 'b', 'c']);
+    expect(applyLadderResult(['a', 'b', 'c', 'd'], 'a', 'b')).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
+
+describe('computeStandings', () => {
+  const teams = [
+    { id: 'a', name: 'Aces', ladderRank: 2 },
+    { id: 'b', name: 'Baseliners', ladderRank: 1 },
+    { id: 'c', name: 'Chargers', ladderRank: 3 },
+  ];
+  const fixtures = [
+    { homeTeamId: 'a', awayTeamId: 'b', status: 'completed' as const, homeScore: 3, awayScore: 2, winnerTeamId: 'a' },
+    { homeTeamId: 'c', awayTeamId: 'b', status: 'completed' as const, homeScore: 0, awayScore: 5, winnerTeamId: 'b' },
+    { homeTeamId: 'a', awayTeamId: 'c', status: 'scheduled' as const, homeScore: null, awayScore: null, winnerTeamId: null },
+  ];
+
+  it('orders round-robin tables by wins, then score difference', () => {
+    const rows = computeStandings('round_robin', teams, fixtures);
+    expect(rows.map((r) => r.teamId)).toEqual(['b', 'a', 'c']);
+    expect(rows[0]).toMatchObject({ position: 1, played: 2, won: 1, lost: 1, scoreFor: 7, scoreAgainst: 3 });
+  });
+
+  it('keeps ladder order for ladder tables', () => {
+    expect(computeStandings('ladder', teams, fixtures).map((r) => r.teamId)).toEqual(['b', 'a', 'c']);
+  });
+});
+
+describe('blackoutBlocks', () => {
+  it('blocks one-off overlaps and weekly repeats on the right court only', () => {
+    const oneOff = {
+      courtId: 'court-1',
+      startDatetime: new Date(2030, 5, 4, 18, 0),
+      endDatetime: new Date(2030, 5, 4, 20, 0),
+      recurrenceRule: null,
+    };
+    expect(blackoutBlocks(oneOff, 'court-1', '2030-06-04', '19:00:00', '20:30:00')).toBe(true);
+    expect(blackoutBlocks(oneOff, 'court-2', '2030-06-04', '19:00:00', '20:30:00')).toBe(false);
+    expect(blackoutBlocks(oneOff, 'court-1', '2030-06-11', '19:00:00', '20:30:00')).toBe(false);
+
+    const weekly = { ...oneOff, courtId: null, recurrenceRule: 'FREQ=WEEKLY' };
+    expect(blackoutBlocks(weekly, 'court-2', '2030-06-11', '19:00:00', '20:30:00')).toBe(true);
+    expect(blackoutBlocks(weekly, 'court-2', '2030-06-11', '20:00:00', '21:30:00')).toBe(false);
+  });
+});
+
+describe('firstMatchDate', () => {
+  it('rolls forward to the match night', () => {
+    // 2030-06-03 is a Monday.
+    expect(firstMatchDate('2030-06-03', 2)).toBe('2030-06-04');
+    expect(firstMatchDate('2030-06-03', 1)).toBe('2030-06-03');
+    expect(firstMatchDate('2030-06-04', 1)).toBe('2030-06-10');
+  });
+});
+
+describe('scheduleSeason', () => {
+  const season = {
+    id: 'season-1',
+    leagueId: 'league-1',
+    leagueName: 'Tuesday Doubles',
+    facilityId: 'fac-1',
+    format: 'round_robin',
+    bookingType: 'alta_tennis',
+    name: 'Spring',
+    startDate: '2030-06-03',
+    matchDayOfWeek: 2,
+    matchStartTime: '18:30:00',
+    matchDurationMinutes: 90,
+    courtIds: [],
+    status: 'draft',
+  };
+  const teams = [
+    { id: 't1', seasonId: 'season-1', name: 'Aces', ladderRank: 1 },
+    { id: 't2', seasonId: 'season-1', name: 'Baseliners', ladderRank: 2 },
+  ];
+  let inserts: unknown[][];
+
+  beforeEach(() => {
+    queryMock.mockReset();
+    createBookingMock.mockReset();
+    createNotificationMock.mockReset().mockResolvedValue('n1');
+    inserts = [];
+    queryMock.mockImplementation(async (sql: string, params: unknown[]) => {
+      if (sql.includes('FROM league_seasons s')) return { rows: [season] };
+      if (sql.includes('FROM league_teams t')) return { rows: teams };
+      if (sql.includes('FROM league_team_members m')) {
+        return { rows: [{ teamId: 't1', userId: 'u1', fullName: 'Pat' }] };
+      }
+      if (sql.includes('MAX(round_number)')) return { rows: [{ lastRound: 0, open: 0 }] };
+      if (sql.includes('FROM courts')) return { rows: [{ id: 'court-1' }, { id: 'court-2' }] };
+      if (sql.includes('FROM court_blackouts')) {
+        return {
+          rows: [
+            {
+              courtId: 'court-1',
+              startDatetime: new Date(2030, 5, 4, 17, 0),
+              endDatetime: new Date(2030, 5, 4, 21, 0),
+              recurrenceRule: null,
+            },
+          ],
+        };
+      }
+      if (sql.includes('INSERT INTO league_fixtures')) inserts.push(params);
+      return { rows: [] };
+    });
+  });
+
+  it('skips blacked-out courts and books the next one with the league booking type', async () => {
+    createBookingMock.mockResolvedValue({ success: true, booking: { id: 'booking-1' } });
+
+    const result = await scheduleSeason('season-1', 'admin-1');
+
+    expect(result).toEqual({ created: 1, unscheduled: 0 });
+    expect(createBookingMock).toHaveBeenCalledTimes(1);
+    expect(createBookingMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        courtId: 'court-2',
+        bookingDate: '2030-06-04',
+        startTime: '18:30:00',
+        endTime: '20:00:00',
+        bookingType: 'alta_tennis',
+        skipRulesValidation: true,
+        skipPaymentCheck: true,
+      })
+    );
+    expect(inserts[0]).toEqual(expect.arrayContaining(['court-2', 'booking-1', 'scheduled']));
+    expect(createNotificationMock).toHaveBeenCalledWith('u1', expect.any(String), expect.any(String), 'league_schedule', expect.any(Object));
+  });
+
+  it('tries later starts, then leaves the fixture unscheduled', async () => {
+    createBookingMock.mockResolvedValue({ success: false, error: 'Court is already booked' });
+
+    const result = await scheduleSeason('season-1', 'admin-1');
+
+    expect(result).toEqual({ created: 1, unscheduled: 1 });
+    // court-1 is blacked out until 21:00, so only 18:30 and 20:00 on court-2,
+    // then 21:30 on both courts.
+    expect(createBookingMock.mock.calls.map(([b]) => `${b.courtId}@${b.startTime}`)).toEqual([
+      'court-2@18:30:00',
+      'court-2@20:00:00',
+      'court-1@21:30:00',
+      'court-2@21:30:00',
+    ]);
+    expect(inserts[0]).toEqual(expect.arrayContaining([null, null, 'unscheduled']));
+  });
+
+  it('stops when the booking is refused for the admin rather than the court', async () => {
+    createBookingMock.mockResolvedValue({
+      success: false,
+      error: 'Accept the facility terms first',
+      ruleViolations: [{ ruleCode: 'TERMS' }],
+    });
+
+    await expect(scheduleSeason('season-1', 'admin-1')).rejects.toBeInstanceOf(LeagueError);
+    expect(inserts).toHaveLength(0);
+  });
+});
@@ -0,0 +1,215 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const createBookingMock = vi.fn();
+const createNotificationMock = vi.fn();
+const createLessonCheckoutSessionMock = vi.fn();
+const offerFreedSlotMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+  transaction: vi.fn(),
+}));
+
+vi.mock('../bookingService', () => ({
+  createBooking: (...args: unknown[]) => createBookingMock(...args),
+  cancelBooking: vi.fn(),
+}));
+
+vi.mock('../notificationService', () => ({
+  notificationService: {
+    createNotification: (...args: unknown[]) => createNotificationMock(...args),
+  },
+}));
+
+vi.mock('../stripeConnectService', () => ({
+  createLessonCheckoutSession: (...args: unknown[]) => createLessonCheckoutSessionMock(...args),
+}));
+
+vi.mock('../courtWaitlistService', () => ({
+  offerFreedSlot: (...args: unknown[]) => offerFreedSlotMock(...args),
+}));
+
+vi.mock('../rulesEngine/RuleContext', () => ({
+  // Fixed "now" well before any lesson date the tests use.
+  getFacilityLocalNow: () => new Date(2030, 0, 1, 8, 0, 0),
+}));
+
+import { LessonError, bookLesson, buildLessonSlots, expireLessonHolds } from '../lessonService';
+
+// 2030-06-03 is a Monday.
+const MONDAY = '2030-06-03';
+
+describe('buildLessonSlots', () => {
+  const windows = [{ dayOfWeek: 1, startTime: '09:00:00', endTime: '12:00:00' }];
+
+  it('steps through the window in half hours where a whole lesson fits', () => {
+    const slots = buildLessonSlots({ windows, dateYmd: MONDAY, durationMinutes: 60, busy: [] });
+    expect(slots.map((s) => s.startTime)).toEqual([
+      '09:00:00',
+      '09:30:00',
+      '10:00:00',
+      '10:30:00',
+      '11:00:00',
+    ]);
+    expect(slots[4].endTime).toBe('12:00:00');
+  });
+
+  it('drops starts that overlap the pro’s other lessons', () => {
+    const slots = buildLessonSlots({
+      windows,
+      dateYmd: MONDAY,
+      durationMinutes: 60,
+      busy: [{ startTime: '10:00:00', endTime: '11:00:00' }],
+    });
+    expect(slots.map((s) => s.startTime)).toEqual(['09:00:00', '11:00:00']);
+  });
+
+  it('ignores other weekdays and anything already started today', () => {
+    expect(buildLessonSlots({ windows, dateYmd: '2030-06-04', durationMinutes: 60, busy: [] })).toEqual([]);
+    const slots = buildLessonSlots({
+      windows,
+      dateYmd: MONDAY,
+      durationMinutes: 60,
+      busy: [],
+      earliestStartMinutes: 10 * 60 + 15,
+    });
+    expect(slots.map((s) => s.startTime)).toEqual(['10:30:00', '11:00:00']);
+  });
+});
+
+describe('bookLesson', () => {
+  const pro = {
+    id: 'pro-1',
+    facilityId: 'fac-1',
+    userId: 'coach',
+    fullName: 'Coach Casey',
+    priceCents: 0,
+    lessonDurationMinutes: 60,
+    courtIds: [],
+    isActive: true,
+  };
+
+  /** Routes each SQL statement to a canned result by fragment. */
+  function routeQueries(priceCents: number) {
+    queryMock.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM lesson_pros p') && sql.includes('WHERE p.id')) {
+        return { rows: [{ ...pro, priceCents }] };
+      }
+      if (sql.includes('FROM lesson_pro_availability')) {
+        return {
+          rows: [{ proId: 'pro-1', dayOfWeek: 1, startTime: '09:00:00', endTime: '12:00:00' }],
+        };
+      }
+      if (sql.includes('SELECT timezone')) return { rows: [{ timezone: 'America/New_York' }] };
+      if (sql.includes('SELECT id FROM courts')) return { rows: [{ id: 'court-1' }, { id: 'court-2' }] };
+      if (sql.includes('INSERT INTO lesson_bookings')) return { rows: [{ id: 'lesson-1' }] };
+      if (sql.includes('FROM lesson_bookings l')) {
+        return { rows: [{ id: 'lesson-1', proId: 'pro-1', memberName: 'Member', lessonDate: MONDAY, startTime: '10:00:00' }] };
+      }
+      return { rows: [] };
+    });
+  }
+
+  const params = {
+    proId: 'pro-1',
+    memberId: 'member-1',
+    lessonDate: MONDAY,
+    startTime: '10:00',
+    successUrl: 'https://app.example/lessons?ok=1',
+    cancelUrl: 'https://app.example/lessons',
+  };
+
+  beforeEach(() => {
+    queryMock.mockReset();
+    createBookingMock.mockReset();
+    createNotificationMock.mockReset().mockResolvedValue('n-1');
+    createLessonCheckoutSessionMock.mockReset();
+  });
+
+  it('falls through to the next court when the first is taken, and confirms free lessons', async () => {
+    routeQueries(0);
+    createBookingMock
+      .mockResolvedValueOnce({ success: false, error: 'Time slot is already booked' })
+      .mockResolvedValueOnce({ success: true, booking: { id: 'booking-2' } });
+
+    const result = await bookLesson(params);
+
+    expect(result.requiresPayment).toBe(false);
+    expect(createBookingMock).toHaveBeenCalledTimes(2);
+    expect(createBookingMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        courtId: 'court-2',
+        userId: 'member-1',
+        bookingType: 'lesson',
+        startTime: '10:00:00',
+        endTime: '11:00:00',
+        initialStatus: 'confirmed',
+      })
+    );
+    const insert = queryMock.mock.calls.find(([sql]) => String(sql).includes('INSERT INTO lesson_bookings'));
+    expect(insert?.[1]).toEqual(expect.arrayContaining(['booking-2', 'confirmed']));
+    expect(createLessonCheckoutSessionMock).not.toHaveBeenCalled();
+  });
+
+  it('holds the court as pending and hands back a checkout URL for paid lessons', async () => {
+    routeQueries(6500);
+    createBookingMock.mockResolvedValue({ success: true, booking: { id: 'booking-1' } });
+    createLessonCheckoutSessionMock.mockResolvedValue({ url: 'https://checkout.example/l', paymentId: 'cp-1' });
+
+    const result = await bookLesson(params);
+
+    expect(result).toMatchObject({ requiresPayment: true, checkoutUrl: 'https://checkout.example/l' });
+    expect(createBookingMock).toHaveBeenCalledWith(expect.objectContaining({ initialStatus: 'pending' }));
+    expect(createLessonCheckoutSessionMock).toHaveBeenCalledWith(
+      expect.objectContaining({ lessonBookingId: 'lesson-1' })
+    );
+  });
+
+  it('stops at a rule violation instead of trying every court', async () => {
+    routeQueries(0);
+    createBookingMock.mockResolvedValue({
+      success: false,
+      error: 'Weekly booking limit reached',
+      ruleViolations: [{ ruleCode: 'ACC-002' }],
+    });
+
+    await expect(bookLesson(params)).rejects.toBeInstanceOf(LessonError);
+    expect(createBookingMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('expireLessonHolds', () => {
+  beforeEach(() => {
+    queryMock.mockReset();
+    offerFreedSlotMock.mockReset().mockResolvedValue(1);
+  });
+
+  it('cancels the held court and offers it to the waitlist', async () => {
+    const freed = {
+      facilityId: 'fac-1',
+      courtId: 'court-1',
+      bookingDate: MONDAY,
+      startTime: '10:00:00',
+      endTime: '11:00:00',
+    };
+    queryMock.mockImplementation(async (sql: string) => {
+      if (sql.includes('hold_expires_at <= NOW()')) return { rows: [{ id: 'lesson-1' }] };
+      if (sql.includes('UPDATE lesson_bookings')) return { rows: [{ booking_id: 'booking-1' }] };
+      if (sql.includes('UPDATE bookings')) return { rows: [freed] };
+      return { rows: [] };
+    });
+
+    await expect(expireLessonHolds()).resolves.toBe(1);
+    expect(offerFreedSlotMock).toHaveBeenCalledWith(freed);
+  });
+
+  it('offers nothing when the hold was already released', async () => {
+    queryMock.mockImplementation(async (sql: string) =>
+      sql.includes('hold_expires_at <= NOW()') ? { rows: [{ id: 'lesson-1' }] } : { rows: [] }
+    );
+
+    await expireLessonHolds();
+    expect(offerFreedSlotMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,163 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const clientQuery = vi.fn();
+const publishToConversation = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+  transaction: async (fn: (client: { query: typeof clientQuery }) => unknown) => fn({ query: clientQuery }),
+}));
+
+vi.mock('../realtimeService', () => ({
+  publishToConversation: (...args: unknown[]) => publishToConversation(...args),
+}));
+
+import {
+  MessageError,
+  editMessage,
+  markConversationRead,
+  normalizeAttachments,
+  toggleReaction,
+} from '../messageService';
+
+const messageRow = {
+  id: 'msg-1',
+  conversationId: 'conv-1',
+  senderId: 'u-1',
+  messageText: 'See you at 6',
+  isRead: false,
+  createdAt: '2026-10-19T18:00:00.000Z',
+  editedAt: null,
+};
+
+function dataUrl(mimeType: string, bytes: number): string {
+  return `data:${mimeType};base64,${Buffer.alloc(bytes, 1).toString('base64')}`;
+}
+
+/** The message lookup finds messageRow; `reacted` decides whether the DELETE removes a reaction. */
+function mockMessageQueries(reacted = false) {
+  queryMock.mockImplementation(async (sql: string) => {
+    if (/FROM messages m\s+JOIN conversations c/.test(sql)) return { rows: [messageRow] };
+    if (/DELETE FROM message_reactions/.test(sql)) return { rows: reacted ? [{ emoji: '🎾' }] : [] };
+    if (/FROM conversations c/.test(sql)) return { rows: [{ userId: 'u-1' }, { userId: 'u-2' }] };
+    if (/FROM message_reactions/.test(sql)) {
+      return { rows: reacted ? [] : [{ messageId: 'msg-1', emoji: '🎾', count: 1, userIds: ['u-2'] }] };
+    }
+    return { rows: [] };
+  });
+}
+
+beforeEach(() => {
+  queryMock.mockReset();
+  clientQuery.mockReset();
+  publishToConversation.mockReset();
+});
+
+describe('normalizeAttachments', () => {
+  it('sizes each file from its decoded data', () => {
+    const [photo] = normalizeAttachments([
+      { fileName: ' court.png ', mimeType: 'image/png', dataUrl: dataUrl('image/png', 1500) },
+    ]);
+    expect(photo).toMatchObject({ fileName: 'court.png', mimeType: 'image/png', sizeBytes: 1500 });
+  });
+
+  it('rejects unsupported types, mismatched data URLs and oversized files', () => {
+    expect(() => normalizeAttachments([
+      { fileName: 'app.exe', mimeType: 'application/x-msdownload', dataUrl: dataUrl('application/x-msdownload', 10) },
+    ])).toThrow('only images, PDFs and text files');
+    expect(() => normalizeAttachments([
+      { fileName: 'court.png', mimeType: 'image/png', dataUrl: dataUrl('image/jpeg', 10) },
+    ])).toThrow(MessageError);
+    expect(() => normalizeAttachments([
+      { fileName: 'huge.pdf', mimeType: 'application/pdf', dataUrl: dataUrl('application/pdf', 5 * 1024 * 1024 + 1) },
+    ])).toThrow('huge.pdf is larger than 5 MB');
+    expect(() => normalizeAttachments(['court.png'])).toThrow(MessageError);
+    expect(() => normalizeAttachments([null])).toThrow(MessageError);
+  });
+
+  it('caps the number of files and their combined size', () => {
+    const small = { fileName: 'a.txt', mimeType: 'text/plain', dataUrl: dataUrl('text/plain', 10) };
+    expect(() => normalizeAttachments([small, small, small, small, small])).toThrow('at most 4 files');
+
+    const large = { fileName: 'b.pdf', mimeType: 'application/pdf', dataUrl: dataUrl('application/pdf', 4 * 1024 * 1024) };
+    expect(() => normalizeAttachments([large, large])).toThrow('total at most 7 MB');
+  });
+});
+
+describe('toggleReaction', () => {
+  it('adds a reaction the user has not made yet and announces the change', async () => {
+    mockMessageQueries(false);
+    const result = await toggleReaction('msg-1', 'u-2', '🎾');
+
+    expect(queryMock.mock.calls.some(([sql]) => /INSERT INTO message_reactions/.test(sql))).toBe(true);
+    expect(result.reactions).toEqual([{ emoji: '🎾', count: 1, userIds: ['u-2'] }]);
+    expect(publishToConversation).toHaveBeenCalledWith('conv-1', ['u-1', 'u-2'], {
+      type: 'message.updated',
+      conversationId: 'conv-1',
+      messageId: 'msg-1',
+    });
+  });
+
+  it('removes an existing reaction instead of adding it twice', async () => {
+    mockMessageQueries(true);
+    const result = await toggleReaction('msg-1', 'u-2', '🎾');
+
+    expect(queryMock.mock.calls.some(([sql]) => /INSERT INTO message_reactions/.test(sql))).toBe(false);
+    expect(result.reactions).toEqual([]);
+  });
+
+  it('only accepts a single emoji', async () => {
+    mockMessageQueries();
+    await expect(toggleReaction('msg-1', 'u-2', 'nice')).rejects.toThrow('single emoji');
+    await expect(toggleReaction('msg-1', 'u-2', '👍 hi')).rejects.toThrow('single emoji');
+    await expect(toggleReaction('msg-1', 'u-2', '👍🏽')).resolves.toBeTruthy();
+  });
+});
+
+describe('editMessage', () => {
+  it('keeps the previous text before replacing it', async () => {
+    mockMessageQueries();
+    clientQuery.mockImplementation(async (sql: string) =>
+      /UPDATE messages/.test(sql)
+        ? { rows: [{ ...messageRow, messageText: 'See you at 7', editedAt: '2026-10-19T18:05:00.000Z' }] }
+        : { rows: [] }
+    );
+
+    const updated = await editMessage('msg-1', 'u-1', ' See you at 7 ');
+
+    expect(clientQuery).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO message_edits'), ['msg-1', 'See you at 6']);
+    expect(updated.messageText).toBe('See you at 7');
+    expect(publishToConversation).toHaveBeenCalledTimes(1);
+  });
+
+  it('only lets the sender edit', async () => {
+    mockMessageQueries();
+    await expect(editMessage('msg-1', 'u-2', 'Changed')).rejects.toMatchObject({ status: 404 });
+    expect(clientQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe('markConversationRead', () => {
+  it('announces new receipts to the conversation', async () => {
+    queryMock.mockImplementation(async (sql: string) => {
+      if (/INSERT INTO message_reads/.test(sql)) return { rows: [{ readAt: '2026-10-19T18:10:00.000Z' }] };
+      if (/FROM conversations c/.test(sql)) return { rows: [{ userId: 'u-1' }, { userId: 'u-2' }] };
+      return { rows: [] };
+    });
+
+    await expect(markConversationRead('conv-1', 'u-2')).resolves.toBe(1);
+    expect(publishToConversation).toHaveBeenCalledWith('conv-1', ['u-1', 'u-2'], {
+      type: 'conversation.read',
+      conversationId: 'conv-1',
+      userId: 'u-2',
+      readAt: '2026-10-19T18:10:00.000Z',
+    });
+  });
+
+  it('stays quiet when everything was already read', async () => {
+    queryMock.mockResolvedValue({ rows: [] });
+    await expect(markConversationRead('conv-1', 'u-2')).resolves.toBe(0);
+    expect(publishToConversation).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,228 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const enqueueJobMock = vi.fn();
+const getUserPushTokensMock = vi.fn();
+const sendExpoPushMessagesMock = vi.fn();
+const removePushTokensMock = vi.fn();
+const getExpoPushReceiptsMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+}));
+
+vi.mock('../emailService', () => ({
+  sendCampaignEmail: vi.fn(),
+}));
+
+vi.mock('../jobQueueService', () => ({
+  enqueueJob: (...args: unknown[]) => enqueueJobMock(...args),
+}));
+
+vi.mock('../pickle/pickleOrgService', () => ({
+  isOrgAdmin: vi.fn(),
+}));
+
+vi.mock('../pickle/pickleLifecycleService', () => ({
+  getPlayerLifecycle: vi.fn(),
+}));
+
+vi.mock('../expoPushService', () => ({
+  getUserPushTokens: (...args: unknown[]) => getUserPushTokensMock(...args),
+  sendExpoPushMessages: (...args: unknown[]) => sendExpoPushMessagesMock(...args),
+  removePushTokens: (...args: unknown[]) => removePushTokensMock(...args),
+  getExpoPushReceipts: (...args: unknown[]) => getExpoPushReceiptsMock(...args),
+}));
+
+import {
+  applySmsDeliveryStatus,
+  checkCampaignPushReceipts,
+  sendCampaign,
+} from '../pickle/pickleCampaignService';
+import {
+  FakeSmsProvider,
+  handleInboundSms,
+  normalizePhoneNumber,
+  setSmsProvider,
+} from '../smsService';
+
+interface Recipient {
+  userId: string;
+  phone?: string | null;
+  pushConsent?: boolean;
+  smsConsent?: boolean;
+}
+
+/** Routes the campaign send's queries; returns the recorded send rows. */
+function mockCampaignQueries(channel: 'push' | 'sms', recipients: Recipient[], optedOut: string[] = []) {
+  const sends: unknown[][] = [];
+  const candidateRows = recipients.map((r) => ({
+    userId: r.userId, email: `${r.userId}@example.com`, fullName: r.userId, phone: r.phone ?? null,
+    gender: null, birthdate: null, duprRating: null,
+    pushConsent: r.pushConsent ?? true, smsConsent: r.smsConsent ?? false,
+  }));
+  queryMock.mockImplementation(async (sql: string, params: unknown[] = []) => {
+    if (sql.includes('FROM pickle_campaigns')) {
+      return {
+        rows: [{
+          id: 'camp-1', orgId: 'org-1', name: 'Spring clinic', segmentFilter: {}, channel,
+          templateBody: 'Clinics start Monday', status: 'draft', recurrence: 'none', createdAt: '', updatedAt: '',
+        }],
+      };
+    }
+    if (sql.includes('FROM franchise_organizations')) return { rows: [{ name: 'Dink City' }] };
+    if (sql.includes('FROM users u') || sql.includes('JOIN users u')) return { rows: candidateRows };
+    if (sql.includes('FROM sms_opt_outs')) {
+      return { rows: optedOut.includes(params[0] as string) ? [{ '?column?': 1 }] : [] };
+    }
+    if (sql.includes('COUNT(*)')) return { rows: [{ remaining: 0 }] };
+    if (sql.includes('INSERT INTO pickle_campaign_sends') && !sql.includes('UNNEST')) sends.push(params);
+    return { rows: [] };
+  });
+  return sends;
+}
+
+let sms: FakeSmsProvider;
+
+beforeEach(() => {
+  queryMock.mockReset();
+  enqueueJobMock.mockReset();
+  getUserPushTokensMock.mockReset();
+  sendExpoPushMessagesMock.mockReset();
+  removePushTokensMock.mockReset();
+  getExpoPushReceiptsMock.mockReset();
+  sms = new FakeSmsProvider();
+  setSmsProvider(sms);
+});
+
+describe('normalizePhoneNumber', () => {
+  it('turns stored numbers into E.164', () => {
+    expect(normalizePhoneNumber('(555) 123-4567')).toBe('+15551234567');
+    expect(normalizePhoneNumber('1-555-123-4567')).toBe('+15551234567');
+    expect(normalizePhoneNumber('+44 20 7946 0958')).toBe('+442079460958');
+    expect(normalizePhoneNumber('12345')).toBeNull();
+    expect(normalizePhoneNumber(null)).toBeNull();
+  });
+});
+
+describe('handleInboundSms', () => {
+  it('records STOP and clears it on START', async () => {
+    queryMock.mockResolvedValue({ rows: [] });
+
+    expect(await handleInboundSms({ from: '+15551234567', body: ' stop ' })).toBe('opted_out');
+    expect(queryMock.mock.calls[0][0]).toContain('INSERT INTO sms_opt_outs');
+    expect(queryMock.mock.calls[0][1]).toEqual(['+15551234567', 'STOP']);
+
+    expect(await handleInboundSms({ from: '+15551234567', body: 'START' })).toBe('opted_in');
+    expect(queryMock.mock.calls[1][0]).toContain('DELETE FROM sms_opt_outs');
+  });
+
+  it('ignores other replies', async () => {
+    expect(await handleInboundSms({ from: '+15551234567', body: 'see you there' })).toBe('ignored');
+    expect(queryMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('sendCampaign over SMS', () => {
+  it('texts opted-in players with the opt-out footer and skips everyone else', async () => {
+    const sends = mockCampaignQueries(
+      'sms',
+      [
+        { userId: 'u-ok', phone: '555-123-4567', smsConsent: true },
+        { userId: 'u-no-consent', phone: '555-222-3333' },
+        { userId: 'u-stopped', phone: '555-999-0000', smsConsent: true },
+        { userId: 'u-no-phone', smsConsent: true },
+      ],
+      ['+15559990000']
+    );
+
+    const result = await sendCampaign('org-1', 'camp-1');
+
+    expect(result).toEqual({ sent: 1, failed: 0, skipped: 3, remaining: 0 });
+    expect(sms.sent).toEqual([
+      { to: '+15551234567', body: 'Dink City: Clinics start Monday\nReply STOP to opt out.', messageId: 'fake-sms-1' },
+    ]);
+    const byUser = Object.fromEntries(sends.map((p) => [p[1], p]));
+    expect(byUser['u-ok'].slice(3, 8)).toEqual(['sent', null, 'sms', ['fake-sms-1'], 'queued']);
+    expect(byUser['u-no-consent'][4]).toBe('Not opted in to SMS campaigns');
+    expect(byUser['u-stopped'][4]).toBe('Opted out by STOP reply');
+    expect(byUser['u-no-phone'][4]).toBe('No valid mobile number');
+    expect(enqueueJobMock).not.toHaveBeenCalled();
+  });
+
+  it('records a provider rejection as failed', async () => {
+    sms.failingNumbers.add('+15551234567');
+    const sends = mockCampaignQueries('sms', [{ userId: 'u-1', phone: '5551234567', smsConsent: true }]);
+
+    const result = await sendCampaign('org-1', 'camp-1');
+
+    expect(result).toEqual({ sent: 0, failed: 1, skipped: 0, remaining: 0 });
+    expect(sends[0].slice(3, 5)).toEqual(['failed', 'Fake provider rejected the number']);
+  });
+});
+
+describe('sendCampaign over push', () => {
+  it('sends to every device, drops unregistered tokens and schedules the receipt check', async () => {
+    const sends = mockCampaignQueries('push', [
+      { userId: 'u-1' },
+      { userId: 'u-off', pushConsent: false },
+      { userId: 'u-no-device' },
+    ]);
+    getUserPushTokensMock.mockImplementation(async (userId: string) =>
+      userId === 'u-1' ? ['ExponentPushToken[a]', 'ExponentPushToken[b]'] : []
+    );
+    sendExpoPushMessagesMock.mockResolvedValue([
+      { status: 'ok', id: 'ticket-a' },
+      { status: 'error', message: 'gone', details: { error: 'DeviceNotRegistered' } },
+    ]);
+
+    const result = await sendCampaign('org-1', 'camp-1');
+
+    expect(result).toEqual({ sent: 1, failed: 0, skipped: 2, remaining: 0 });
+    expect(sendExpoPushMessagesMock.mock.calls[0][0][0]).toMatchObject({
+      to: 'ExponentPushToken[a]',
+      title: 'Dink City: Spring clinic',
+      body: 'Clinics start Monday',
+    });
+    expect(removePushTokensMock).toHaveBeenCalledWith(['ExponentPushToken[b]']);
+    expect(sends.find((p) => p[1] === 'u-1')?.slice(6, 8)).toEqual([['ticket-a'], 'queued']);
+    expect(sends.find((p) => p[1] === 'u-off')?.[4]).toBe('Push campaigns turned off');
+    expect(enqueueJobMock).toHaveBeenCalledWith(
+      'campaign_push_receipts',
+      { campaignId: 'camp-1' },
+      expect.objectContaining({ dedupeKey: 'campaign_push_receipts:camp-1:0' })
+    );
+  });
+});
+
+describe('delivery status', () => {
+  it('applies an SMS delivery receipt by provider message id', async () => {
+    queryMock.mockResolvedValue({ rows: [], rowCount: 1 });
+
+    expect(await applySmsDeliveryStatus({ messageId: 'SM1', status: 'undelivered', error: 'Carrier error 30003' }))
+      .toBe(true);
+    expect(queryMock.mock.calls[0][1]).toEqual(['SM1', 'undelivered', 'Carrier error 30003']);
+  });
+
+  it('resolves push sends from Expo receipts and leaves unanswered ones queued', async () => {
+    queryMock.mockResolvedValueOnce({
+      rows: [
+        { id: 'send-1', ticketIds: ['t1', 't2'] },
+        { id: 'send-2', ticketIds: ['t3'] },
+        { id: 'send-3', ticketIds: ['t4'] },
+      ],
+    });
+    queryMock.mockResolvedValue({ rows: [] });
+    getExpoPushReceiptsMock.mockResolvedValue({
+      t1: { status: 'error', message: 'MessageRateExceeded' },
+      t2: { status: 'ok' },
+      t3: { status: 'error', message: 'DeviceNotRegistered' },
+    });
+
+    const result = await checkCampaignPushReceipts('camp-1');
+
+    expect(result).toEqual({ delivered: 1, undelivered: 1, pending: 1 });
+    expect(queryMock.mock.calls[1][1]).toEqual(['send-1', 'delivered', null]);
+    expect(queryMock.mock.calls[2][1]).toEqual(['send-2', 'undelivered', 'DeviceNotRegistered']);
+  });
+});
@@ -0,0 +1,194 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const enqueueJobMock = vi.fn();
+const sendCampaignEmailMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+}));
+
+vi.mock('../emailService', () => ({
+  sendCampaignEmail: (...args: unknown[]) => sendCampaignEmailMock(...args),
+}));
+
+vi.mock('../jobQueueService', () => ({
+  enqueueJob: (...args: unknown[]) => enqueueJobMock(...args),
+}));
+
+vi.mock('../pickle/pickleOrgService', () => ({
+  isOrgAdmin: vi.fn(),
+}));
+
+vi.mock('../pickle/pickleLifecycleService', () => ({
+  getPlayerLifecycle: vi.fn(),
+}));
+
+import {
+  cancelCampaign,
+  runCampaignSendJob,
+  scheduleCampaign,
+  sendCampaign,
+} from '../pickle/pickleCampaignService';
+
+const FUTURE = '2099-03-02T14:00:00.000Z';
+
+function campaignRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'camp-1',
+    orgId: 'org-1',
+    name: 'We miss you',
+    segmentFilter: { activityLevel: ['at_risk'] },
+    channel: 'email',
+    templateBody: 'Come back for a free clinic',
+    status: 'draft',
+    scheduledAt: null,
+    timezone: null,
+    recurrence: 'none',
+    parentCampaignId: null,
+    lastSentAt: null,
+    createdAt: '',
+    updatedAt: '',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  queryMock.mockReset();
+  enqueueJobMock.mockReset();
+  sendCampaignEmailMock.mockReset();
+  sendCampaignEmailMock.mockResolvedValue({ success: true });
+});
+
+describe('scheduleCampaign', () => {
+  it('converts the local time in the org timezone and queues the send for then', async () => {
+    queryMock
+      .mockResolvedValueOnce({ rows: [campaignRow()] })
+      .mockResolvedValueOnce({ rows: [{ timezone: 'America/Chicago' }] })
+      .mockResolvedValueOnce({
+        rows: [campaignRow({ status: 'scheduled', scheduledAt: FUTURE, timezone: 'America/Chicago', recurrence: 'weekly' })],
+      });
+
+    const campaign = await scheduleCampaign('org-1', 'camp-1', { sendAt: '2099-03-02T08:00', recurrence: 'weekly' });
+
+    expect(campaign.status).toBe('scheduled');
+    expect(queryMock.mock.calls[2][1]).toEqual(['org-1', 'camp-1', '2099-03-02T08:00', 'America/Chicago', 'weekly']);
+    expect(enqueueJobMock).toHaveBeenCalledWith(
+      'campaign_send',
+      { orgId: 'org-1', campaignId: 'camp-1', scheduledAt: FUTURE },
+      { runAt: new Date(FUTURE), dedupeKey: `campaign_send:camp-1:${FUTURE}` }
+    );
+  });
+
+  it('rejects a time that has already passed', async () => {
+    queryMock
+      .mockResolvedValueOnce({ rows: [campaignRow()] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await expect(scheduleCampaign('org-1', 'camp-1', { sendAt: '2001-01-01T08:00' })).rejects.toThrow(
+      'Scheduled time must be in the future'
+    );
+    expect(enqueueJobMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects a malformed time and campaigns already going out', async () => {
+    queryMock.mockResolvedValueOnce({ rows: [campaignRow()] });
+    await expect(scheduleCampaign('org-1', 'camp-1', { sendAt: 'next tuesday' })).rejects.toThrow('sendAt');
+
+    queryMock.mockResolvedValueOnce({ rows: [campaignRow({ status: 'sending' })] });
+    await expect(scheduleCampaign('org-1', 'camp-1', { sendAt: '2099-03-02T08:00' })).rejects.toThrow(
+      'Campaign is already sending'
+    );
+  });
+});
+
+describe('runCampaignSendJob', () => {
+  it('ignores a scheduled job for a campaign that was rescheduled or canceled', async () => {
+    queryMock.mockResolvedValueOnce({ rows: [campaignRow({ status: 'scheduled', scheduledAt: '2099-04-01T14:00:00.000Z' })] });
+    expect(await runCampaignSendJob({ orgId: 'org-1', campaignId: 'camp-1', scheduledAt: FUTURE })).toEqual({ stale: true });
+
+    queryMock.mockResolvedValueOnce({ rows: [campaignRow({ status: 'canceled' })] });
+    expect(await runCampaignSendJob({ orgId: 'org-1', campaignId: 'camp-1', scheduledAt: FUTURE })).toEqual({ stale: true });
+    expect(enqueueJobMock).not.toHaveBeenCalled();
+  });
+
+  it('sends a copy of a recurring campaign and moves it to the next occurrence', async () => {
+    const next = '2099-03-09T14:00:00.000Z';
+    const recurring = { status: 'scheduled', scheduledAt: FUTURE, timezone: 'America/Chicago', recurrence: 'weekly' };
+    queryMock
+      .mockResolvedValueOnce({ rows: [campaignRow(recurring)] })
+      .mockResolvedValueOnce({ rows: [campaignRow({ id: 'occ-1', status: 'sending', parentCampaignId: 'camp-1' })] })
+      .mockResolvedValueOnce({ rows: [campaignRow({ ...recurring, scheduledAt: next })] });
+
+    const result = await runCampaignSendJob({ orgId: 'org-1', campaignId: 'camp-1', scheduledAt: FUTURE });
+
+    expect(result).toEqual({ occurrenceId: 'occ-1', nextSendAt: next });
+    expect(queryMock.mock.calls[1][0]).toContain('INSERT INTO pickle_campaigns');
+    expect(queryMock.mock.calls[2][1]).toEqual(['camp-1', '7 days']);
+    expect(enqueueJobMock).toHaveBeenNthCalledWith(
+      1,
+      'campaign_send',
+      { orgId: 'org-1', campaignId: 'occ-1' },
+      { dedupeKey: 'campaign_send:occ-1' }
+    );
+    expect(enqueueJobMock).toHaveBeenNthCalledWith(
+      2,
+      'campaign_send',
+      { orgId: 'org-1', campaignId: 'camp-1', scheduledAt: next },
+      { runAt: new Date(next), dedupeKey: `campaign_send:camp-1:${next}` }
+    );
+  });
+});
+
+describe('sendCampaign batching', () => {
+  it('sends one batch and queues the next while recipients are still pending', async () => {
+    const pending = [1, 2].map((n) => ({ userId: `u-${n}`, email: `u${n}@example.com`, fullName: `Player ${n}` }));
+    queryMock.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM pickle_campaigns')) return { rows: [campaignRow({ status: 'sending' })] };
+      if (sql.includes('FROM franchise_organizations')) return { rows: [{ name: 'Dink City' }] };
+      if (sql.includes('JOIN users u')) return { rows: pending };
+      if (sql.includes('COUNT(*)')) return { rows: [{ remaining: 40 }] };
+      return { rows: [] };
+    });
+
+    const result = await sendCampaign('org-1', 'camp-1', 3);
+
+    expect(result).toEqual({ sent: 2, failed: 0, skipped: 0, remaining: 40 });
+    // Later batches don't re-snapshot the audience
+    expect(queryMock.mock.calls.some(([sql]) => String(sql).includes('UNNEST'))).toBe(false);
+    expect(queryMock.mock.calls.some(([sql]) => String(sql).includes("status = 'sent', last_sent_at"))).toBe(false);
+    expect(enqueueJobMock).toHaveBeenCalledWith(
+      'campaign_send',
+      { orgId: 'org-1', campaignId: 'camp-1', batch: 4 },
+      expect.objectContaining({ dedupeKey: 'campaign_send:camp-1:4' })
+    );
+  });
+
+  it('does nothing once the campaign has been canceled', async () => {
+    queryMock.mockResolvedValueOnce({ rows: [campaignRow({ status: 'canceled' })] });
+
+    expect(await sendCampaign('org-1', 'camp-1', 2)).toEqual({ sent: 0, failed: 0, skipped: 0, remaining: 0 });
+    expect(queryMock).toHaveBeenCalledTimes(1);
+    expect(sendCampaignEmailMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('cancelCampaign', () => {
+  it('cancels and skips whoever has not been sent to yet', async () => {
+    queryMock
+      .mockResolvedValueOnce({ rows: [campaignRow({ status: 'sending' })] })
+      .mockResolvedValueOnce({ rows: [campaignRow({ status: 'canceled' })] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const campaign = await cancelCampaign('org-1', 'camp-1');
+
+    expect(campaign.status).toBe('canceled');
+    expect(queryMock.mock.calls[2][0]).toContain("SET status = 'skipped', error_message = 'Campaign canceled'");
+  });
+
+  it('refuses a campaign that already went out', async () => {
+    queryMock.mockResolvedValueOnce({ rows: [campaignRow({ status: 'sent' })] });
+    await expect(cancelCampaign('org-1', 'camp-1')).rejects.toThrow('Campaign is already sent');
+  });
+});
@@ -0,0 +1,192 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const sendCampaignEmailMock = vi.fn();
+const getMemberSubscriptionMock = vi.fn();
+const getVisitCountMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+}));
+
+vi.mock('../emailService', () => ({
+  sendCampaignEmail: (...args: unknown[]) => sendCampaignEmailMock(...args),
+}));
+
+vi.mock('../jobQueueService', () => ({
+  enqueueJob: vi.fn(),
+}));
+
+vi.mock('../pickle/pickleOrgService', () => ({
+  isOrgAdmin: vi.fn(),
+}));
+
+vi.mock('../pickle/pickleLifecycleService', () => ({
+  getPlayerLifecycle: vi.fn(),
+}));
+
+vi.mock('../pickle/pickleMembershipService', () => ({
+  getMemberSubscription: (...args: unknown[]) => getMemberSubscriptionMock(...args),
+}));
+
+vi.mock('../pickle/picklePlayerProfileService', () => ({
+  getVisitCount: (...args: unknown[]) => getVisitCountMock(...args),
+}));
+
+import {
+  createCampaign,
+  getCampaignEngagement,
+  recordCampaignClick,
+  sendCampaign,
+} from '../pickle/pickleCampaignService';
+import {
+  extractCampaignLinks,
+  findUnknownMergeFields,
+  pickSubjectVariant,
+  renderCampaignEmailHtml,
+  renderMergeFields,
+  resolveMergeFields,
+  SAMPLE_MERGE_VALUES,
+} from '../pickle/pickleCampaignTemplateService';
+
+const BODY = 'Hi {{ firstName }}, {{visitCount}} visits at {{homeFacility}}!\nBook at https://club.example.com/book.';
+
+function campaignRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'camp-1', orgId: 'org-1', name: 'We miss you', segmentFilter: {}, channel: 'email',
+    templateBody: BODY, subjectVariants: [], status: 'sending', recurrence: 'none',
+    createdAt: '', updatedAt: '',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  queryMock.mockReset();
+  sendCampaignEmailMock.mockReset();
+  sendCampaignEmailMock.mockResolvedValue({ success: true });
+  getMemberSubscriptionMock.mockReset();
+  getMemberSubscriptionMock.mockResolvedValue({ homeFacilityName: 'Dink City East', product: { name: 'Unlimited' } });
+  getVisitCountMock.mockReset();
+  getVisitCountMock.mockResolvedValue(7);
+});
+
+describe('merge fields', () => {
+  it('fills known fields, tolerating spaces, and reports unknown ones', () => {
+    expect(renderMergeFields(BODY, SAMPLE_MERGE_VALUES)).toContain('Hi Alex, 12 visits at Downtown Pickleball Club!');
+    expect(findUnknownMergeFields('Hi {{firstName}} {{ lastName }} {{tier}}')).toEqual(['lastName', 'tier']);
+  });
+
+  it('resolves a recipient from their membership and visits', async () => {
+    expect(await resolveMergeFields('org-1', { userId: 'u-1', fullName: 'Jordan Lee' })).toEqual({
+      firstName: 'Jordan',
+      homeFacility: 'Dink City East',
+      visitCount: '7',
+      membershipTier: 'Unlimited',
+    });
+
+    getMemberSubscriptionMock.mockResolvedValueOnce(null);
+    const nonMember = await resolveMergeFields('org-1', { userId: 'u-2', fullName: null });
+    expect(nonMember).toMatchObject({ firstName: 'there', homeFacility: '', membershipTier: '' });
+  });
+
+  it('rejects a campaign that uses an unknown field', async () => {
+    await expect(
+      createCampaign({ orgId: 'org-1', name: 'Promo', templateBody: 'Hi {{nickname}}' })
+    ).rejects.toThrow('Unknown merge field {{nickname}}');
+    expect(queryMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('renderCampaignEmailHtml', () => {
+  it('escapes merged values and routes links through the click tracker with an open pixel', () => {
+    const html = renderCampaignEmailHtml({
+      templateBody: BODY,
+      values: { ...SAMPLE_MERGE_VALUES, homeFacility: '<b>Court & Co</b>' },
+      orgName: 'Dink City',
+      fullName: 'Alex Rivera',
+      trackingToken: 'tok123',
+    });
+
+    expect(html).toContain('&lt;b&gt;Court &amp; Co&lt;/b&gt;!<br>Book at ');
+    expect(html).toContain('href="http://localhost:5173/api/campaign-tracking/click/tok123/0"');
+    expect(html).toContain('>https://club.example.com/book</a>.');
+    expect(html).toContain('src="http://localhost:5173/api/campaign-tracking/open/tok123"');
+  });
+
+  it('leaves links as typed and skips the pixel for previews', () => {
+    const html = renderCampaignEmailHtml({ templateBody: BODY, values: null, orgName: 'Dink City', fullName: 'Alex' });
+    expect(html).toContain('href="https://club.example.com/book"');
+    expect(html).not.toContain('campaign-tracking');
+  });
+});
+
+describe('sending with merge fields and subject variants', () => {
+  it('personalizes each email and records the variant and tracking token', async () => {
+    const sends: unknown[][] = [];
+    queryMock.mockImplementation(async (sql: string, params: unknown[] = []) => {
+      if (sql.includes('FROM pickle_campaigns')) {
+        return { rows: [campaignRow({ subjectVariants: ['{{firstName}}, we miss you', 'Courts are open'] })] };
+      }
+      if (sql.includes('FROM franchise_organizations')) return { rows: [{ name: 'Dink City' }] };
+      if (sql.includes('JOIN users u')) {
+        return { rows: [{ userId: 'u-1', email: 'jordan@example.com', fullName: 'Jordan Lee' }] };
+      }
+      if (sql.includes('COUNT(*)')) return { rows: [{ remaining: 0 }] };
+      if (sql.includes('INSERT INTO pickle_campaign_sends')) sends.push(params);
+      return { rows: [] };
+    });
+
+    const result = await sendCampaign('org-1', 'camp-1', 1);
+
+    expect(result).toEqual({ sent: 1, failed: 0, skipped: 0, remaining: 0 });
+    const variant = pickSubjectVariant('u-1', 2);
+    const [to, subject, html] = sendCampaignEmailMock.mock.calls[0];
+    expect(to).toBe('jordan@example.com');
+    expect(subject).toBe(['Jordan, we miss you', 'Courts are open'][variant]);
+    expect(html).toContain('Hi Jordan, 7 visits at Dink City East!');
+    const [subjectVariant, trackingToken] = sends[0].slice(9, 11);
+    expect(subjectVariant).toBe(variant);
+    expect(html).toContain(`/click/${trackingToken}/0`);
+  });
+
+  it('keeps the old "<name> - <org>" subject when there is no A/B test', async () => {
+    queryMock.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM pickle_campaigns')) return { rows: [campaignRow({ templateBody: 'Clinics start Monday' })] };
+      if (sql.includes('FROM franchise_organizations')) return { rows: [{ name: 'Dink City' }] };
+      if (sql.includes('JOIN users u')) return { rows: [{ userId: 'u-1', email: 'a@example.com', fullName: 'A' }] };
+      if (sql.includes('COUNT(*)')) return { rows: [{ remaining: 0 }] };
+      return { rows: [] };
+    });
+
+    await sendCampaign('org-1', 'camp-1', 1);
+
+    expect(sendCampaignEmailMock.mock.calls[0][1]).toBe('We miss you - Dink City');
+    // No merge fields, so no per-recipient lookups
+    expect(getMemberSubscriptionMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('tracking', () => {
+  it('redirects only to links the campaign contained', async () => {
+    expect(extractCampaignLinks(BODY + ' https://x.example/{{firstName}}')).toEqual(['https://club.example.com/book']);
+
+    queryMock.mockResolvedValue({ rows: [{ templateBody: BODY }] });
+    expect(await recordCampaignClick('tok123', 0)).toBe('https://club.example.com/book');
+    expect(queryMock.mock.calls[1][0]).toContain('click_count = click_count + 1');
+
+    queryMock.mockClear();
+    expect(await recordCampaignClick('tok123', 3)).toBeNull();
+    expect(queryMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports opens and clicks per subject variant', async () => {
+    queryMock
+      .mockResolvedValueOnce({ rows: [campaignRow({ subjectVariants: ['A subject', 'B subject'] })] })
+      .mockResolvedValueOnce({ rows: [{ variant: 1, sent: 40, opened: 18, clicked: 5 }] });
+
+    expect(await getCampaignEngagement('org-1', 'camp-1')).toEqual([
+      { variant: 0, subject: 'A subject', sent: 0, opened: 0, clicked: 0 },
+      { variant: 1, subject: 'B subject', sent: 40, opened: 18, clicked: 5 },
+    ]);
+  });
+});
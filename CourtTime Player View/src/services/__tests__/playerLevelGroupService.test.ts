@@ -16,6 +16,8 @@ import {
   assignMembers,
   getBoard,
   reorderGroups,
+  suggestLevelsByRating,
+  type LevelGroupMember,
 } from '../playerLevelGroupService';
 
 /** Finds the call whose SQL contains `fragment`, so tests don't depend on call order. */
@@ -219,4 +221,50 @@ describe('playerLevelGroupService', () => {
       });
     });
   });
+
+  describe('suggestLevelsByRating', () => {
+    const member = (userId: string, clubRating: number | null): LevelGroupMember => ({
+      userId,
+      fullName: userId,
+      skillLevel: null,
+      isFacilityAdmin: false,
+      clubRating,
+    });
+    const tier = (id: string, members: LevelGroupMember[]) => ({
+      id,
+      name: id,
+      sortPosition: 0,
+      isVisibleToPlayers: false,
+      members,
+    });
+
+    it('deals rated players top-down by tier size and only reports real moves', () => {
+      const suggestions = suggestLevelsByRating({
+        groups: [
+          tier('top', [member('a', 1400), member('b', 1700)]),
+          tier('bottom', [member('c', 1600), member('d', 1300), member('e', null)]),
+        ],
+        unassigned: [member('f', 1650)],
+      });
+
+      // Five rated players over tiers sized 2:3 -> two up top, three below.
+      expect(suggestions.map((s) => [s.userId, s.fromGroupId, s.toGroupId])).toEqual([
+        ['f', null, 'top'],
+        ['a', 'top', 'bottom'],
+      ]);
+    });
+
+    it('splits evenly when every tier is empty', () => {
+      const suggestions = suggestLevelsByRating({
+        groups: [tier('top', []), tier('bottom', [])],
+        unassigned: [member('a', 1500), member('b', 1700), member('c', 1600)],
+      });
+
+      expect(suggestions.map((s) => [s.userId, s.toGroupId])).toEqual([
+        ['b', 'top'],
+        ['c', 'top'],
+        ['a', 'bottom'],
+      ]);
+    });
+  });
 });
@@ -0,0 +1,194 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const clientQuery = vi.fn();
+const createNotification = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+  transaction: (callback: (client: unknown) => unknown) => callback({ query: clientQuery }),
+}));
+
+vi.mock('../notificationService', () => ({
+  notificationService: { createNotification: (...args: unknown[]) => createNotification(...args) },
+}));
+
+import {
+  applyStockMovement,
+  checkLowStock,
+  resolveSaleItems,
+  returnOrderItems,
+  variantLabel,
+} from '../proShopInventoryService';
+
+const product = { id: 'p-1', name: 'Club Polo', price_cents: 4000, stock_quantity: null };
+const ball = { id: 'p-2', name: 'Balls', price_cents: 500, stock_quantity: 3 };
+const medium = { id: 'v-m', product_id: 'p-1', size: 'M', color: 'Navy', grip_size: null, stock_quantity: 2, is_active: true };
+
+function mockCatalog(products: any[], variants: any[]) {
+  queryMock.mockImplementation(async (sql: string) => {
+    if (/FROM pro_shop_products/.test(sql)) return { rows: products };
+    if (/FROM pro_shop_product_variants/.test(sql)) return { rows: variants };
+    return { rows: [] };
+  });
+}
+
+beforeEach(() => {
+  queryMock.mockReset();
+  clientQuery.mockReset();
+  createNotification.mockReset();
+});
+
+describe('variantLabel', () => {
+  it('joins the options that are set', () => {
+    expect(variantLabel({ size: 'M', color: 'Navy', grip_size: null })).toBe('M / Navy');
+    expect(variantLabel({ grip_size: '4 1/4' })).toBe('Grip 4 1/4');
+  });
+});
+
+describe('resolveSaleItems', () => {
+  it('requires a variant for products sold in variants', async () => {
+    mockCatalog([product], [medium]);
+
+    await expect(resolveSaleItems('fac-1', [{ product_id: 'p-1', quantity: 1 }]))
+      .rejects.toThrow('Choose a size or color for "Club Polo"');
+  });
+
+  it('prices variant lines and names them with the variant label', async () => {
+    mockCatalog([product], [medium]);
+
+    const items = await resolveSaleItems('fac-1', [{ product_id: 'p-1', variant_id: 'v-m', quantity: 2 }]);
+
+    expect(items).toEqual([
+      { product_id: 'p-1', variant_id: 'v-m', quantity: 2, price_cents: 4000, name: 'Club Polo (M / Navy)' },
+    ]);
+  });
+
+  it('checks stock against the combined quantity of repeated lines', async () => {
+    mockCatalog([ball], []);
+
+    await expect(
+      resolveSaleItems('fac-1', [
+        { product_id: 'p-2', quantity: 2 },
+        { product_id: 'p-2', quantity: 2 },
+      ])
+    ).rejects.toThrow('Insufficient stock for "Balls"');
+  });
+});
+
+describe('applyStockMovement', () => {
+  it('moves variant stock and logs the resulting level', async () => {
+    clientQuery.mockImplementation(async (sql: string) =>
+      /UPDATE pro_shop_product_variants/.test(sql) ? { rows: [{ stock_quantity: 1 }] } : { rows: [] }
+    );
+
+    const after = await applyStockMovement({ query: clientQuery } as any, {
+      facilityId: 'fac-1',
+      productId: 'p-1',
+      variantId: 'v-m',
+      movementType: 'sale',
+      quantityChange: -1,
+      orderId: 'o-1',
+      actorId: 'u-1',
+    });
+
+    expect(after).toBe(1);
+    const calls = clientQuery.mock.calls as unknown as Array<[string, unknown[]]>;
+    expect(calls.some(([sql]) => /UPDATE pro_shop_products\b/.test(sql))).toBe(false);
+    const ledger = calls.find(([sql]) => /INSERT INTO pro_shop_inventory_movements/.test(sql));
+    expect(ledger![1]).toEqual(['fac-1', 'p-1', 'v-m', 'sale', -1, 1, 'o-1', null, 'u-1']);
+  });
+});
+
+describe('returnOrderItems', () => {
+  function mockOrder(returned: number) {
+    clientQuery.mockImplementation(async (sql: string) => {
+      if (/FROM pro_shop_orders/.test(sql)) return { rows: [{ status: 'paid' }] };
+      if (/FROM pro_shop_order_items/.test(sql)) {
+        return {
+          rows: [{
+            id: 'oi-1', product_id: 'p-2', variant_id: null,
+            quantity: 3, returned_quantity: returned, price_cents_at_purchase: 500,
+          }],
+        };
+      }
+      if (/UPDATE pro_shop_products/.test(sql)) return { rows: [{ stock_quantity: 5 }] };
+      return { rows: [] };
+    });
+  }
+
+  it('restocks returned units and reports their value', async () => {
+    mockOrder(1);
+
+    const result = await returnOrderItems('fac-1', 'o-1', [{ order_item_id: 'oi-1', quantity: 2 }], {
+      restock: true,
+      actorId: 'admin-1',
+    });
+
+    expect(result).toEqual({ returnedUnits: 2, returnedCents: 1000 });
+    const calls = clientQuery.mock.calls as unknown as Array<[string, unknown[]]>;
+    const ledger = calls.find(([sql]) => /INSERT INTO pro_shop_inventory_movements/.test(sql));
+    expect(ledger![1].slice(3, 7)).toEqual(['return', 2, 5, 'o-1']);
+  });
+
+  it('refuses to return more than was bought', async () => {
+    mockOrder(2);
+
+    await expect(
+      returnOrderItems('fac-1', 'o-1', [{ order_item_id: 'oi-1', quantity: 2 }], { restock: true, actorId: 'admin-1' })
+    ).rejects.toThrow('Only 1 of that item can still be returned');
+  });
+
+  it('marks damaged units returned without moving stock', async () => {
+    mockOrder(0);
+
+    await returnOrderItems('fac-1', 'o-1', [{ order_item_id: 'oi-1', quantity: 1 }], {
+      restock: false,
+      actorId: 'admin-1',
+    });
+
+    const calls = clientQuery.mock.calls as unknown as Array<[string, unknown[]]>;
+    expect(calls.some(([sql]) => /SET returned_quantity = returned_quantity/.test(sql))).toBe(true);
+    expect(calls.some(([sql]) => /pro_shop_inventory_movements/.test(sql))).toBe(false);
+  });
+});
+
+describe('checkLowStock', () => {
+  const lowRow = {
+    product_id: 'p-1', variant_id: 'v-m', product_name: 'Club Polo',
+    size: 'M', color: 'Navy', grip_size: null,
+    stock_quantity: 1, threshold: 2, alerted_at: null,
+  };
+
+  it('notifies each admin once when an item drops to its threshold', async () => {
+    queryMock.mockImplementation(async (sql: string) => {
+      if (/UNION ALL/.test(sql)) return { rows: [lowRow] };
+      if (/SET low_stock_alerted_at = NOW\(\)/.test(sql)) return { rows: [{ id: 'v-m' }] };
+      if (/FROM facility_admins/.test(sql)) return { rows: [{ user_id: 'a-1' }, { user_id: 'a-2' }] };
+      return { rows: [] };
+    });
+
+    await checkLowStock('fac-1', [{ productId: 'p-1', variantId: 'v-m' }]);
+
+    expect(createNotification).toHaveBeenCalledTimes(2);
+    expect(createNotification.mock.calls[0].slice(0, 4)).toEqual([
+      'a-1',
+      'Pro Shop Low Stock',
+      'Club Polo (M / Navy) is down to 1 (alert at 2).',
+      'pro_shop_low_stock',
+    ]);
+  });
+
+  it('stays quiet for items already alerted or not part of the sale', async () => {
+    queryMock.mockImplementation(async (sql: string) => {
+      if (/UNION ALL/.test(sql)) {
+        return { rows: [{ ...lowRow, alerted_at: new Date() }, { ...lowRow, variant_id: 'v-l' }] };
+      }
+      return { rows: [] };
+    });
+
+    await checkLowStock('fac-1', [{ productId: 'p-1', variantId: 'v-m' }]);
+
+    expect(createNotification).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,158 @@
+import { EventEmitter } from 'events';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const relayClient = Object.assign(new EventEmitter(), {
+  query: vi.fn(async () => ({ rows: [] })),
+  release: vi.fn(),
+});
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+  getClient: async () => relayClient,
+}));
+
+import {
+  conversationTopic,
+  facilityTopic,
+  listenerCount,
+  publish,
+  publishBookingChange,
+  publishMessageCreated,
+  startRealtimeRelay,
+  stopRealtimeRelay,
+  subscribe,
+  userTopic,
+} from '../realtimeService';
+
+const message = {
+  id: 'm-1',
+  conversationId: 'c-1',
+  senderId: 'u-1',
+  messageText: 'Courts at 6?',
+  isRead: false,
+  createdAt: '2026-10-19T17:00:00.000Z',
+};
+
+describe('realtimeService', () => {
+  it('delivers once to a listener on several of the topics', () => {
+    const listener = vi.fn();
+    const other = vi.fn();
+    const unsubscribe = subscribe([conversationTopic('c-1'), userTopic('u-2')], listener);
+    const unsubscribeOther = subscribe([userTopic('u-3')], other);
+
+    publishMessageCreated(message, ['u-1', 'u-2']);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ type: 'message.created', conversationId: 'c-1', message });
+    expect(other).not.toHaveBeenCalled();
+    unsubscribe();
+    unsubscribeOther();
+  });
+
+  it('sends booking changes to the facility topic', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribe([facilityTopic('fac-1')], listener);
+
+    publishBookingChange('booking.cancelled', {
+      id: 'b-1',
+      facilityId: 'fac-1',
+      courtId: 'court-1',
+      bookingDate: '2026-10-19',
+      startTime: '18:00:00',
+      endTime: '19:00:00',
+    });
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'booking.cancelled', bookingId: 'b-1', bookingDate: '2026-10-19' })
+    );
+    unsubscribe();
+  });
+
+  it('stops delivering after unsubscribe and drops empty topics', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribe([userTopic('u-1')], listener);
+    expect(listenerCount(userTopic('u-1'))).toBe(1);
+
+    unsubscribe();
+    publishMessageCreated(message, ['u-1']);
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(listenerCount(userTopic('u-1'))).toBe(0);
+  });
+
+  it('keeps delivering when one listener throws', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = vi.fn(() => {
+      throw new Error('socket closed');
+    });
+    const listener = vi.fn();
+    const unsubscribeFailing = subscribe([userTopic('u-1')], failing);
+    const unsubscribe = subscribe([userTopic('u-1')], listener);
+
+    publish([userTopic('u-1')], {
+      type: 'notification.created',
+      notificationId: 'n-1',
+      notificationType: 'reservation_confirmed',
+      title: 'Booked',
+      message: 'Court 1 at 6pm',
+      createdAt: '2026-10-19T17:00:00.000Z',
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    unsubscribeFailing();
+    unsubscribe();
+  });
+});
+
+describe('realtime relay', () => {
+  afterEach(() => {
+    stopRealtimeRelay();
+    queryMock.mockReset();
+    relayClient.query.mockClear();
+    relayClient.release.mockClear();
+  });
+
+  it('stays in process until the relay is started', () => {
+    publishMessageCreated(message, ['u-1']);
+    expect(queryMock).not.toHaveBeenCalled();
+  });
+
+  it('sends events to other instances and delivers theirs here, skipping its own', async () => {
+    queryMock.mockResolvedValue({ rows: [] });
+    await startRealtimeRelay();
+    expect(relayClient.query).toHaveBeenCalledWith('LISTEN realtime_events');
+
+    publishMessageCreated(message, ['u-1']);
+    const [sql, [channel, payload]] = queryMock.mock.calls[0];
+    expect(sql).toBe('SELECT pg_notify($1, $2)');
+    expect(channel).toBe('realtime_events');
+
+    const listener = vi.fn();
+    const unsubscribe = subscribe([userTopic('u-1')], listener);
+    // Our own notification comes back too; it was already delivered locally
+    relayClient.emit('notification', { channel: 'realtime_events', payload });
+    expect(listener).not.toHaveBeenCalled();
+
+    const fromOtherInstance = JSON.stringify({ ...JSON.parse(payload), origin: 'web-2:41' });
+    relayClient.emit('notification', { channel: 'realtime_events', payload: fromOtherInstance });
+    expect(listener).toHaveBeenCalledWith({ type: 'message.created', conversationId: 'c-1', message });
+    unsubscribe();
+  });
+
+  it('relays a message too long for NOTIFY as an update to refetch', async () => {
+    queryMock.mockResolvedValue({ rows: [] });
+    await startRealtimeRelay();
+
+    publishMessageCreated({ ...message, messageText: 'x'.repeat(9000) }, ['u-1']);
+    const relayed = JSON.parse(queryMock.mock.calls[0][1][1]);
+    expect(relayed.event).toEqual({ type: 'message.updated', conversationId: 'c-1', messageId: 'm-1' });
+  });
+
+  it('hands the listening connection back when stopped', async () => {
+    await startRealtimeRelay();
+    stopRealtimeRelay();
+    expect(relayClient.release).toHaveBeenCalledTimes(1);
+    expect(relayClient.listenerCount('notification')).toBe(0);
+  });
+});
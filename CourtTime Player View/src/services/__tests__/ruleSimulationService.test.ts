@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const buildRuleContextMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+}));
+
+vi.mock('../rulesEngine/RuleContext', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../rulesEngine/RuleContext')>();
+  return {
+    ...actual,
+    buildRuleContext: (...args: unknown[]) => buildRuleContextMock(...args),
+    fetchPeakHoursSlots: async () => [],
+  };
+});
+
+import { RuleSimulationError, simulateRuleChanges } from '../ruleSimulationService';
+
+interface Row {
+  id: string;
+  userId: string;
+  bookingDate: string;
+  createdAt: Date;
+  durationMinutes?: number;
+}
+
+/** Routes each SQL statement to a canned result by fragment. */
+function routeQueries(bookings: Row[]) {
+  queryMock.mockImplementation(async (sql: string, params: unknown[]) => {
+    if (sql.includes('FROM facilities WHERE id')) {
+      return { rows: [{ timezone: 'UTC', fromDate: '2030-05-13', toDate: '2030-06-10' }] };
+    }
+    if (sql.includes('FROM booking_rule_definitions')) {
+      const codes = params[0] as string[];
+      return {
+        rows: codes.map((code) => ({ id: `def-${code}`, ruleCode: code, ruleCategory: 'account', ruleName: code })),
+      };
+    }
+    if (sql.includes('FROM bookings b')) {
+      return {
+        rows: bookings.map((b) => ({
+          courtId: 'court-1',
+          startTime: '09:00:00',
+          endTime: '10:00:00',
+          durationMinutes: 60,
+          courtName: 'Court 1',
+          memberName: `Member ${b.userId}`,
+          ...b,
+        })),
+      };
+    }
+    return { rows: [] };
+  });
+
+  // Every booking in the window shows up as "existing" for its member.
+  buildRuleContextMock.mockImplementation(async (request: any) => ({
+    request,
+    user: { id: request.userId, email: '', fullName: request.userId, tier: { id: 'tier-1', tierName: 'Gold' } },
+    court: { id: 'court-1', facilityId: 'fac-1', name: 'Court 1', isIndoor: false, hasLights: false, status: 'available' },
+    facility: { id: 'fac-1', name: 'Club', timezone: 'UTC', status: 'active', rules: [], bookingRulesRaw: null },
+    existingBookings: {
+      user: bookings
+        .filter((b) => b.userId === request.userId && b.id !== request.excludeBookingId)
+        .map((b) => ({ ...b, status: 'confirmed', startTime: '09:00:00', endTime: '10:00:00' })),
+      household: [],
+      court: [],
+    },
+    strikes: [],
+    recentCancellations: [],
+    blackouts: [],
+    currentDateTime: new Date(),
+    isPrimeTime: false,
+    peakHoursSlots: [],
+  }));
+}
+
+describe('simulateRuleChanges', () => {
+  beforeEach(() => {
+    queryMock.mockReset();
+    buildRuleContextMock.mockReset();
+  });
+
+  it('judges the advance window from when each booking was made', async () => {
+    routeQueries([
+      { id: 'early', userId: 'u1', bookingDate: '2030-06-10', createdAt: new Date('2030-06-01T12:00:00Z') },
+      { id: 'late', userId: 'u2', bookingDate: '2030-06-10', createdAt: new Date('2030-06-08T12:00:00Z') },
+    ]);
+
+    const report = await simulateRuleChanges({
+      facilityId: 'fac-1',
+      rules: [{ ruleCode: 'ACC-005', isEnabled: true, ruleConfig: { max_days_ahead: 7 } }],
+    });
+
+    expect(report.totals).toMatchObject({ replayed: 2, blocked: 1, newlyBlocked: 1, membersAffected: 1 });
+    expect(report.bookings.map((b) => b.bookingId)).toEqual(['early']);
+    expect(report.byRule).toEqual([
+      expect.objectContaining({ ruleCode: 'ACC-005', blocked: 1, members: 1 }),
+    ]);
+    expect(report.byTier).toEqual([expect.objectContaining({ tierName: 'Gold', blocked: 1 })]);
+  });
+
+  it('only counts bookings that already existed toward limits', async () => {
+    routeQueries([
+      { id: 'second', userId: 'u1', bookingDate: '2030-06-10', createdAt: new Date('2030-06-09T12:00:00Z') },
+      { id: 'first', userId: 'u1', bookingDate: '2030-06-10', createdAt: new Date('2030-06-09T08:00:00Z') },
+    ]);
+
+    const report = await simulateRuleChanges({
+      facilityId: 'fac-1',
+      rules: [
+        { ruleCode: 'ACC-002', isEnabled: true, ruleConfig: { max_per_day_enabled: true, max_per_day: 1 } },
+      ],
+    });
+
+    expect(report.totals.blocked).toBe(1);
+    expect(report.bookings[0]).toMatchObject({ bookingId: 'second', outcome: 'blocked' });
+    expect(report.bookings[0].ruleCodes).toContain('ACC-002');
+  });
+
+  it('ignores disabled and unsupported codes and rejects bad windows', async () => {
+    routeQueries([
+      { id: 'b1', userId: 'u1', bookingDate: '2030-06-10', createdAt: new Date('2030-06-01T12:00:00Z') },
+    ]);
+
+    const report = await simulateRuleChanges({
+      facilityId: 'fac-1',
+      rules: [
+        { ruleCode: 'ACC-005', isEnabled: false, ruleConfig: { max_days_ahead: 1 } },
+        { ruleCode: 'ACC-006', isEnabled: true },
+      ],
+    });
+    expect(report.totals).toMatchObject({ replayed: 1, blocked: 0, warned: 0 });
+
+    await expect(simulateRuleChanges({ facilityId: 'fac-1', rules: [], weeks: 52 })).rejects.toBeInstanceOf(
+      RuleSimulationError
+    );
+  });
+});
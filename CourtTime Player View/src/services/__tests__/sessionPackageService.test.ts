@@ -0,0 +1,181 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const clientQueryMock = vi.fn();
+const isFeatureEnabledMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+  transaction: (fn: (client: unknown) => unknown) => fn({ query: clientQueryMock }),
+}));
+
+vi.mock('../featureFlagService', () => ({
+  isFeatureEnabled: (...args: unknown[]) => isFeatureEnabledMock(...args),
+}));
+
+import {
+  SessionPackageError,
+  adjustPackage,
+  normalizeProductInput,
+  redeemSessionPackage,
+  remainderValueCents,
+  reverseRedemption,
+} from '../sessionPackageService';
+import { formatPackageUnits } from '../../../shared/utils/sessionPackages';
+
+beforeEach(() => {
+  queryMock.mockReset();
+  clientQueryMock.mockReset();
+  isFeatureEnabledMock.mockReset();
+  isFeatureEnabledMock.mockResolvedValue(true);
+});
+
+/** Client response for lockPackage. */
+function lockedPackage(overrides: Record<string, unknown> = {}) {
+  clientQueryMock.mockResolvedValueOnce({
+    rows: [
+      {
+        id: 'pkg-1',
+        facility_id: 'club-1',
+        user_id: 'user-1',
+        kind: 'clinic',
+        status: 'active',
+        units_total: 10,
+        units_remaining: 4,
+        price_cents_at_purchase: 20000,
+        connect_payment_id: 'pay-0',
+        ...overrides,
+      },
+    ],
+  });
+}
+
+describe('normalizeProductInput', () => {
+  const base = { name: ' 10 clinics ', kind: 'clinic' as const, units: 10, priceCents: 20000, validDays: 0 };
+
+  it('trims the name and treats 0 valid days as no expiry', () => {
+    expect(normalizeProductInput(base)).toEqual({
+      name: '10 clinics',
+      description: null,
+      kind: 'clinic',
+      units: 10,
+      priceCents: 20000,
+      validDays: null,
+      isActive: true,
+    });
+  });
+
+  it('rejects a missing name, fractional sessions and fractional cents', () => {
+    expect(() => normalizeProductInput({ ...base, name: '  ' })).toThrow('Package name is required');
+    expect(() => normalizeProductInput({ ...base, units: 2.5 })).toThrow('Sessions must be a positive whole number');
+    expect(() => normalizeProductInput({ ...base, priceCents: 99.5 })).toThrow('Price must be a whole number of cents');
+  });
+});
+
+describe('remainderValueCents', () => {
+  it('prices unused units pro rata, capped at what was paid', () => {
+    expect(remainderValueCents(20000, 10, 4)).toBe(8000);
+    expect(remainderValueCents(10000, 3, 1)).toBe(3333);
+    expect(remainderValueCents(20000, 10, 12)).toBe(20000);
+  });
+
+  it('is worth nothing for granted or used-up packages', () => {
+    expect(remainderValueCents(0, 10, 4)).toBe(0);
+    expect(remainderValueCents(20000, 10, 0)).toBe(0);
+  });
+});
+
+describe('redeemSessionPackage', () => {
+  const params = {
+    facilityId: 'club-1',
+    userId: 'user-1',
+    kind: 'clinic' as const,
+    units: 1,
+    connectPaymentId: 'pay-1',
+    description: 'Tuesday clinic',
+  };
+
+  it('does nothing when the club has not enabled packages', async () => {
+    isFeatureEnabledMock.mockResolvedValue(false);
+    await expect(redeemSessionPackage(params)).resolves.toBeNull();
+    expect(clientQueryMock).not.toHaveBeenCalled();
+  });
+
+  it('returns null when no package has enough left', async () => {
+    clientQueryMock.mockResolvedValueOnce({ rows: [] });
+    await expect(redeemSessionPackage({ ...params, units: 5 })).resolves.toBeNull();
+    expect(clientQueryMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('takes the units from the package that expires soonest', async () => {
+    clientQueryMock.mockResolvedValueOnce({ rows: [{ id: 'pkg-1' }] });
+    lockedPackage();
+    clientQueryMock.mockResolvedValue({ rows: [] });
+
+    await expect(redeemSessionPackage(params)).resolves.toEqual({ packageId: 'pkg-1', units: 1 });
+
+    expect(clientQueryMock.mock.calls[2][1]).toEqual(['pkg-1', 3]);
+    const [, ledgerArgs] = clientQueryMock.mock.calls[3];
+    expect(ledgerArgs.slice(0, 6)).toEqual(['pkg-1', -1, 3, 'redemption', 'Tuesday clinic', 'pay-1']);
+  });
+});
+
+describe('reverseRedemption', () => {
+  it('restores nothing when the payment used no package', async () => {
+    queryMock.mockResolvedValueOnce({ rows: [] });
+    await expect(reverseRedemption('pay-1', 'Checkout abandoned')).resolves.toBe(0);
+    expect(clientQueryMock).not.toHaveBeenCalled();
+  });
+
+  it('restores only what has not already been put back', async () => {
+    queryMock.mockResolvedValueOnce({ rows: [{ package_id: 'pkg-1' }] });
+    lockedPackage();
+    clientQueryMock
+      .mockResolvedValueOnce({ rows: [{ net: '-2' }] })
+      .mockResolvedValue({ rows: [] });
+
+    await expect(reverseRedemption('pay-1', 'Booking cancelled')).resolves.toBe(2);
+    const [, ledgerArgs] = clientQueryMock.mock.calls[4];
+    expect(ledgerArgs.slice(0, 4)).toEqual(['pkg-1', 2, 6, 'redemption_reversal']);
+  });
+
+  it('leaves closed packages alone', async () => {
+    queryMock.mockResolvedValueOnce({ rows: [{ package_id: 'pkg-1' }] });
+    lockedPackage({ status: 'expired' });
+    clientQueryMock
+      .mockResolvedValueOnce({ rows: [{ net: '-1' }] })
+      .mockResolvedValue({ rows: [] });
+
+    await expect(reverseRedemption('pay-1', 'Refunded')).resolves.toBe(0);
+  });
+});
+
+describe('adjustPackage', () => {
+  const params = { facilityId: 'club-1', packageId: 'pkg-1', units: 2, reason: 'Rained out', adminUserId: 'admin-1' };
+
+  it('requires a non-zero whole number and a reason', async () => {
+    await expect(adjustPackage({ ...params, units: 0 })).rejects.toThrow('non-zero whole number');
+    await expect(adjustPackage({ ...params, reason: ' ' })).rejects.toThrow('A reason is required');
+  });
+
+  it('refuses to take a package below zero', async () => {
+    lockedPackage();
+    await expect(adjustPackage({ ...params, units: -5 })).rejects.toBeInstanceOf(SessionPackageError);
+  });
+
+  it('rejects packages from another club', async () => {
+    lockedPackage({ facility_id: 'club-2' });
+    await expect(adjustPackage(params)).rejects.toMatchObject({ status: 404 });
+  });
+});
+
+describe('formatPackageUnits', () => {
+  it('reads sessions and court time naturally', () => {
+    expect(formatPackageUnits('clinic', 1)).toBe('1 session');
+    expect(formatPackageUnits('clinic', 10)).toBe('10 sessions');
+    expect(formatPackageUnits('court_time', 60)).toBe('1 hour');
+    expect(formatPackageUnits('court_time', 1200)).toBe('20 hours');
+    expect(formatPackageUnits('court_time', 90)).toBe('1 hr 30 min');
+    expect(formatPackageUnits('court_time', 45)).toBe('45 min');
+  });
+});
@@ -13,6 +13,7 @@ const createSplitCourtPaymentCheckoutSessionMock = vi.fn();
 const refundSplitPaymentSharesMock = vi.fn();
 const refundSplitShareDifferenceMock = vi.fn();
 const createNotificationMock = vi.fn();
+const publishBookingChangeMock = vi.fn();
 
 vi.mock('../../database/connection', () => ({
   query: (...args: unknown[]) => queryMock(...args),
@@ -36,6 +37,9 @@ vi.mock('../stripeConnectService', () => ({
 vi.mock('../notificationService', () => ({
   notificationService: { createNotification: (...args: unknown[]) => createNotificationMock(...args) },
 }));
+vi.mock('../realtimeService', () => ({
+  publishBookingChange: (...args: unknown[]) => publishBookingChangeMock(...args),
+}));
 
 import {
   createSplitCourtReservation,
@@ -124,16 +128,29 @@ describe('createSplitCourtReservation', () => {
   });
 });
 
+const heldSlot = {
+  id: 'booking-1',
+  facilityId: 'fac-1',
+  courtId: 'court-1',
+  bookingDate: '2026-10-20',
+  startTime: '18:00:00',
+  endTime: '19:00:00',
+};
+
 describe('declineSplitPayment', () => {
   beforeEach(() => {
     queryMock.mockReset();
-    txClientQueryMock.mockReset();
+    txClientQueryMock.mockReset().mockResolvedValue({ rows: [] });
     transactionMock.mockClear();
+    publishBookingChangeMock.mockReset();
     refundSplitPaymentSharesMock.mockReset().mockResolvedValue({ refunded: 1, skipped: 0, failed: 0 });
     createNotificationMock.mockReset().mockResolvedValue('notif-id');
   });
 
   it('cancels the whole booking, refunds paid shares, and notifies everyone but the decliner', async () => {
+    txClientQueryMock.mockImplementation(async (sql: string) =>
+      sql.includes("bookings SET status = 'cancelled'") ? { rows: [heldSlot] } : { rows: [] }
+    );
     queryMock
       .mockResolvedValueOnce({ rows: [{ id: 'share-2', shareStatus: 'pending', bookingStatus: 'pending' }] }) // decliner's own share lookup
       .mockResolvedValueOnce({ // notifySplitBookingCancelled participant lookup
@@ -149,6 +166,7 @@ describe('declineSplitPayment', () => {
     expect(txClientQueryMock).toHaveBeenCalledWith(expect.stringContaining("status = 'declined'"), ['share-2', "Can't make it"]);
     expect(txClientQueryMock).toHaveBeenCalledWith(expect.stringContaining("bookings SET status = 'cancelled'"), ['booking-1']);
     expect(refundSplitPaymentSharesMock).toHaveBeenCalledWith('booking-1');
+    expect(publishBookingChangeMock).toHaveBeenCalledWith('booking.cancelled', heldSlot);
 
     // The decliner (p2) already knows — only owner-1 and p1 get notified.
     const notifiedUserIds = createNotificationMock.mock.calls.map((call) => call[0]);
@@ -169,13 +187,14 @@ describe('expireSplitCourtReservations', () => {
     queryMock.mockReset();
     txClientQueryMock.mockReset();
     transactionMock.mockClear();
+    publishBookingChangeMock.mockReset();
     refundSplitPaymentSharesMock.mockReset().mockResolvedValue({ refunded: 1, skipped: 0, failed: 0 });
     createNotificationMock.mockReset().mockResolvedValue('notif-id');
   });
 
   it('refunds already-paid shares for every expired booking and notifies participants (the money-leak fix)', async () => {
     txClientQueryMock
-      .mockResolvedValueOnce({ rows: [{ id: 'booking-1' }] }) // UPDATE bookings ... RETURNING id
+      .mockResolvedValueOnce({ rows: [heldSlot] }) // UPDATE bookings ... RETURNING the freed slot
       .mockResolvedValueOnce({ rows: [] }); // UPDATE booking_payment_shares (pending -> cancelled)
     queryMock.mockResolvedValueOnce({
       rows: [{ userId: 'owner-1', courtName: 'Court 1', facilityName: 'Test Club' }],
@@ -185,6 +204,7 @@ describe('expireSplitCourtReservations', () => {
 
     expect(count).toBe(1);
     expect(refundSplitPaymentSharesMock).toHaveBeenCalledWith('booking-1');
+    expect(publishBookingChangeMock).toHaveBeenCalledWith('booking.cancelled', heldSlot);
     expect(createNotificationMock).toHaveBeenCalledWith(
       'owner-1',
       expect.any(String),
@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const addToTab = vi.fn();
+const notifyStringingReady = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+}));
+
+vi.mock('../proShopService', () => ({
+  addToTab: (...args: unknown[]) => addToTab(...args),
+  getProShopSettings: async () => ({ stringing_labor_cents: 2000 }),
+}));
+
+vi.mock('../notificationService', () => ({
+  notificationService: { notifyStringingReady: (...args: unknown[]) => notifyStringingReady(...args) },
+}));
+
+import {
+  canTransition,
+  cancelOwnStringingJob,
+  parseStringingJobInput,
+  updateStringingJobStatus,
+} from '../stringingService';
+
+const baseInput = {
+  racquet: ' Pure Drive ',
+  stringProductId: 'p-1',
+  mainTensionLbs: 55,
+  crossTensionLbs: 53,
+  dueDate: '2026-10-20',
+};
+
+const jobRow = {
+  id: 'job-1', facility_id: 'fac-1', user_id: 'u-1', member_name: 'Sam', member_email: 'sam@example.com',
+  racquet: 'Pure Drive', string_product_id: 'p-1', string_name: 'RPM Blast', string_price_cents: 1800,
+  string_variant_id: 'v-1', size: '17', color: 'Black', grip_size: null,
+  main_tension_lbs: 55, cross_tension_lbs: 53, due_date: '2026-10-20', notes: null,
+  status: 'in_progress', labor_cents: 2000, charged_cents: null, charged_at: null,
+};
+
+function mockJob(status: string, claimed = true) {
+  queryMock.mockImplementation(async (sql: string) => {
+    if (/FROM pro_shop_stringing_jobs j/.test(sql)) return { rows: [{ ...jobRow, status }] };
+    if (/RETURNING id/.test(sql)) return { rows: claimed ? [{ id: 'job-1' }] : [] };
+    return { rows: [] };
+  });
+}
+
+beforeEach(() => {
+  queryMock.mockReset();
+  addToTab.mockReset();
+  notifyStringingReady.mockReset().mockResolvedValue(undefined);
+});
+
+describe('parseStringingJobInput', () => {
+  it('trims the racquet and drops a cross tension equal to the mains', () => {
+    const input = parseStringingJobInput({ ...baseInput, crossTensionLbs: 55 }, '2026-10-19');
+    expect(input.racquet).toBe('Pure Drive');
+    expect(input.crossTensionLbs).toBeNull();
+  });
+
+  it('rejects tensions outside 20-80 lbs and past due dates', () => {
+    expect(() => parseStringingJobInput({ ...baseInput, mainTensionLbs: 95 }, '2026-10-19'))
+      .toThrow('Main tension must be between 20 and 80 lbs');
+    expect(() => parseStringingJobInput({ ...baseInput, dueDate: '2026-10-18' }, '2026-10-19'))
+      .toThrow('Due date cannot be in the past');
+  });
+});
+
+describe('canTransition', () => {
+  it('only lets a ready job move on to pickup', () => {
+    expect(canTransition('received', 'in_progress')).toBe(true);
+    expect(canTransition('ready', 'cancelled')).toBe(false);
+    expect(canTransition('ready', 'picked_up')).toBe(true);
+    expect(canTransition('picked_up', 'ready')).toBe(false);
+  });
+});
+
+describe('updateStringingJobStatus', () => {
+  it('charges string plus labor to the tab and notifies the member when ready', async () => {
+    mockJob('in_progress');
+
+    await updateStringingJobStatus('fac-1', 'job-1', 'ready', 'admin-1');
+
+    expect(addToTab).toHaveBeenCalledWith(
+      'fac-1',
+      'u-1',
+      'admin-1',
+      [{ product_id: 'p-1', variant_id: 'v-1', quantity: 1 }],
+      { label: 'Stringing – Pure Drive: RPM Blast (17 / Black) @ 55/53 lbs', feeCents: 2000 }
+    );
+    const calls = queryMock.mock.calls as unknown as Array<[string, unknown[]]>;
+    const charged = calls.find(([sql]) => /SET charged_cents/.test(sql));
+    expect(charged![1]).toEqual(['job-1', 3800]);
+    expect(notifyStringingReady).toHaveBeenCalledWith('u-1', 'Pure Drive', 'fac-1', 'job-1');
+  });
+
+  it('puts the job back when the tab charge fails', async () => {
+    mockJob('in_progress');
+    addToTab.mockRejectedValue(new Error('Insufficient stock for "RPM Blast"'));
+
+    await expect(updateStringingJobStatus('fac-1', 'job-1', 'ready', 'admin-1'))
+      .rejects.toThrow('Insufficient stock');
+
+    const calls = queryMock.mock.calls as unknown as Array<[string, unknown[]]>;
+    const revert = calls.find(([sql]) => /ready_at = NULL/.test(sql));
+    expect(revert![1]).toEqual(['job-1', 'in_progress']);
+    expect(notifyStringingReady).not.toHaveBeenCalled();
+  });
+
+  it('does not charge twice when another update got there first', async () => {
+    mockJob('in_progress', false);
+
+    await expect(updateStringingJobStatus('fac-1', 'job-1', 'ready', 'admin-1'))
+      .rejects.toMatchObject({ status: 409 });
+    expect(addToTab).not.toHaveBeenCalled();
+  });
+
+  it('refuses to cancel a job that is already ready', async () => {
+    mockJob('ready');
+
+    await expect(updateStringingJobStatus('fac-1', 'job-1', 'cancelled', 'admin-1'))
+      .rejects.toThrow("A ready job can't be moved to cancelled");
+  });
+});
+
+describe('cancelOwnStringingJob', () => {
+  it('only cancels jobs staff have not started', async () => {
+    queryMock.mockResolvedValue({ rows: [] });
+
+    await expect(cancelOwnStringingJob('fac-1', 'u-1', 'job-1'))
+      .rejects.toThrow('Only jobs that have not been started can be cancelled');
+  });
+});
@@ -0,0 +1,245 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const createBookingMock = vi.fn();
+const createNotificationMock = vi.fn();
+const getCourtAvailabilityMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+  transaction: vi.fn(),
+}));
+
+vi.mock('../bookingService', () => ({
+  createBooking: (...args: unknown[]) => createBookingMock(...args),
+}));
+
+vi.mock('../courtService', () => ({
+  getCourtAvailability: (...args: unknown[]) => getCourtAvailabilityMock(...args),
+}));
+
+vi.mock('../notificationService', () => ({
+  notificationService: {
+    createNotification: (...args: unknown[]) => createNotificationMock(...args),
+  },
+}));
+
+vi.mock('../rulesEngine/RuleContext', () => ({
+  // 2030-06-04 is a Tuesday.
+  getFacilityLocalNow: () => new Date(2030, 5, 4, 9, 10),
+}));
+
+import {
+  advanceBracket,
+  buildBracket,
+  findOpenSlot,
+  placeEntrants,
+  scheduleReadyMatches,
+  seedOrder,
+  type BracketMatch,
+  type TournamentFormat,
+} from '../tournamentService';
+
+const entrants = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({ id: `e${i + 1}`, seed: i + 1 }));
+
+/** Plays every ready match (side A wins) until the bracket stops moving. */
+function playOut(matches: BracketMatch[]) {
+  for (;;) {
+    const ready = matches.filter((m) => m.status === 'ready');
+    if (ready.length === 0) return;
+    for (const m of ready) {
+      Object.assign(m, { status: 'completed', winnerId: m.entrantA, loserId: m.entrantB });
+    }
+    advanceBracket(matches);
+  }
+}
+
+describe('seedOrder and placeEntrants', () => {
+  it('keeps the top seeds apart', () => {
+    expect(seedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+
+  it('gives byes to the top seeds', () => {
+    const lines = placeEntrants(entrants(5), 8);
+    expect(lines).toEqual(['e1', null, 'e4', 'e5', 'e2', null, 'e3', null]);
+  });
+});
+
+describe('buildBracket', () => {
+  it('walks top seeds over their byes in single elimination', () => {
+    const matches = buildBracket('single_elimination', placeEntrants(entrants(5), 8));
+    const byKey = new Map(matches.map((m) => [m.key, m]));
+    expect(byKey.get('M1-1')).toMatchObject({ status: 'walkover', winnerId: 'e1' });
+    expect(byKey.get('M1-2')).toMatchObject({ status: 'ready', entrantA: 'e4', entrantB: 'e5' });
+    expect(byKey.get('M2-2')).toMatchObject({ status: 'ready', entrantA: 'e2', entrantB: 'e3' });
+  });
+
+  it('drops winners-bracket losers into the losers bracket', () => {
+    const matches = buildBracket('double_elimination', placeEntrants(entrants(4), 4));
+    const byKey = new Map(matches.map((m) => [m.key, m]));
+    Object.assign(byKey.get('W1-1')!, { status: 'completed', winnerId: 'e1', loserId: 'e4' });
+    Object.assign(byKey.get('W1-2')!, { status: 'completed', winnerId: 'e3', loserId: 'e2' });
+    advanceBracket(matches);
+    expect(byKey.get('L1-1')).toMatchObject({ status: 'ready', entrantA: 'e4', entrantB: 'e2' });
+    expect(byKey.get('W2-1')).toMatchObject({ status: 'ready', entrantA: 'e1', entrantB: 'e3' });
+
+    Object.assign(byKey.get('W2-1')!, { status: 'completed', winnerId: 'e3', loserId: 'e1' });
+    Object.assign(byKey.get('L1-1')!, { status: 'completed', winnerId: 'e2', loserId: 'e4' });
+    advanceBracket(matches);
+    expect(byKey.get('L2-1')).toMatchObject({ status: 'ready', entrantA: 'e2', entrantB: 'e1' });
+    expect(byKey.get('F1-1')).toMatchObject({ status: 'pending', entrantA: 'e3' });
+  });
+
+  it('plays a compass draw out to three matches each', () => {
+    const matches = buildBracket('compass', placeEntrants(entrants(8), 8));
+    expect(new Set(matches.map((m) => m.draw))).toEqual(new Set(['East', 'West', 'North', 'South']));
+    playOut(matches);
+    const played = new Map<string, number>();
+    for (const m of matches.filter((x) => x.status === 'completed')) {
+      for (const id of [m.entrantA!, m.entrantB!]) played.set(id, (played.get(id) ?? 0) + 1);
+    }
+    expect([...played.values()]).toEqual(Array(8).fill(3));
+  });
+
+  it.each<[TournamentFormat, number, number]>([
+    ['single_elimination', 3, 4],
+    ['single_elimination', 13, 16],
+    ['double_elimination', 5, 8],
+    ['double_elimination', 11, 16],
+    ['compass', 6, 8],
+    ['compass', 13, 16],
+  ])('%s with %i entries always finishes', (format, count, size) => {
+    const matches = buildBracket(format, placeEntrants(entrants(count), size));
+    playOut(matches);
+    expect(matches.filter((m) => !['completed', 'walkover', 'void'].includes(m.status))).toEqual([]);
+  });
+});
+
+describe('findOpenSlot', () => {
+  // Closed Sundays; 08:00–20:00 otherwise.
+  const schedule = Array.from({ length: 7 }, (_, day) => ({
+    day_of_week: day,
+    is_open: day !== 0,
+    open_time: '08:00',
+    close_time: '20:00',
+  }));
+
+  it('starts at the next half hour and skips busy courts', () => {
+    const busy = new Map([
+      ['court-1', [{ date: '2030-06-04', startMinutes: 9 * 60, endMinutes: 12 * 60 }]],
+      ['court-2', [{ date: '2030-06-04', startMinutes: 10 * 60, endMinutes: 11 * 60 }]],
+    ]);
+    const slot = findOpenSlot({
+      schedule,
+      courtIds: ['court-1', 'court-2'],
+      busy,
+      fromDate: '2030-06-04',
+      fromMinutes: 9 * 60 + 10,
+      toDate: '2030-06-04',
+      durationMinutes: 90,
+    });
+    expect(slot).toEqual({ courtId: 'court-2', date: '2030-06-04', startMinutes: 11 * 60 });
+  });
+
+  it('skips closed days and fails past the last day', () => {
+    const args = {
+      schedule,
+      courtIds: ['court-1'],
+      busy: new Map(),
+      fromDate: '2030-06-09',
+      fromMinutes: 0,
+      durationMinutes: 60,
+    };
+    expect(findOpenSlot({ ...args, toDate: '2030-06-10' })).toEqual({
+      courtId: 'court-1',
+      date: '2030-06-10',
+      startMinutes: 8 * 60,
+    });
+    expect(findOpenSlot({ ...args, toDate: '2030-06-09' })).toBeNull();
+  });
+});
+
+describe('scheduleReadyMatches', () => {
+  let updates: unknown[][];
+
+  beforeEach(() => {
+    queryMock.mockReset();
+    createBookingMock.mockReset();
+    createNotificationMock.mockReset().mockResolvedValue('n1');
+    getCourtAvailabilityMock.mockReset();
+    updates = [];
+    queryMock.mockImplementation(async (sql: string, params: unknown[]) => {
+      if (sql.includes('FROM tournaments t')) {
+        return {
+          rows: [
+            {
+              id: 't1',
+              facilityId: 'fac-1',
+              name: 'Club Championship',
+              format: 'single_elimination',
+              status: 'drawn',
+              startDate: '2030-06-04',
+              endDate: '2030-06-05',
+              matchDurationMinutes: 90,
+              courtIds: [],
+            },
+          ],
+        };
+      }
+      if (sql.includes("status = 'ready' AND booking_id IS NULL")) {
+        return { rows: [{ id: 'm1', entrantAId: 'e1', entrantBId: 'e2' }] };
+      }
+      if (sql.includes('FROM facilities')) {
+        const day = { open: '08:00', close: '20:00' };
+        return { rows: [{ operating_hours: { tuesday: day, wednesday: day }, timezone: 'America/New_York' }] };
+      }
+      if (sql.includes('FROM courts')) return { rows: [{ id: 'court-1' }] };
+      if (sql.includes('FROM tournament_entrants')) {
+        return {
+          rows: [
+            { id: 'e1', name: 'Pat Lee', seed: 1, playerIds: ['u1'] },
+            { id: 'e2', name: 'Sam Cho', seed: 2, playerIds: ['u2'] },
+          ],
+        };
+      }
+      if (sql.includes('UPDATE tournament_matches')) updates.push(params);
+      return { rows: [] };
+    });
+  });
+
+  it('books the first free time as a tournament booking and notifies both players', async () => {
+    getCourtAvailabilityMock.mockResolvedValue([
+      { bookingDate: new Date(2030, 5, 4), startTime: '09:30:00', endTime: '11:00:00', status: 'confirmed' },
+    ]);
+    createBookingMock.mockResolvedValue({ success: true, booking: { id: 'booking-1' } });
+
+    const result = await scheduleReadyMatches('t1', 'admin-1');
+
+    expect(result).toEqual({ scheduled: 1, unplaced: 0 });
+    expect(createBookingMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        courtId: 'court-1',
+        bookingDate: '2030-06-04',
+        startTime: '11:00:00',
+        endTime: '12:30:00',
+        bookingType: 'tournament',
+        skipRulesValidation: true,
+      })
+    );
+    expect(updates[0]).toEqual(['m1', 'court-1', 'booking-1', '2030-06-04', '11:00:00', '12:30:00']);
+    expect(createNotificationMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('looks again when a slot is taken between the check and the booking', async () => {
+    getCourtAvailabilityMock.mockResolvedValue([]);
+    createBookingMock
+      .mockResolvedValueOnce({ success: false, error: 'Court is already booked' })
+      .mockResolvedValueOnce({ success: true, booking: { id: 'booking-2' } });
+
+    const result = await scheduleReadyMatches('t1', 'admin-1');
+
+    expect(result).toEqual({ scheduled: 1, unplaced: 0 });
+    expect(createBookingMock.mock.calls.map(([b]) => b.startTime)).toEqual(['09:30:00', '11:00:00']);
+  });
+});
@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryMock = vi.fn();
+const clientQueryMock = vi.fn();
+const isFeatureEnabledMock = vi.fn();
+
+vi.mock('../../database/connection', () => ({
+  query: (...args: unknown[]) => queryMock(...args),
+  transaction: (fn: (client: unknown) => unknown) => fn({ query: clientQueryMock }),
+}));
+
+vi.mock('../featureFlagService', () => ({
+  isFeatureEnabled: (...args: unknown[]) => isFeatureEnabledMock(...args),
+}));
+
+import {
+  WalletError,
+  adjustWalletByAdmin,
+  payFromWallet,
+  reverseWalletPayment,
+  walletCheckoutExpiry,
+} from '../walletService';
+
+beforeEach(() => {
+  queryMock.mockReset();
+  clientQueryMock.mockReset();
+  isFeatureEnabledMock.mockReset();
+  isFeatureEnabledMock.mockResolvedValue(true);
+});
+
+/** Client responses for lockBalance: the upsert, then the locked balance. */
+function lockedBalance(cents: number) {
+  clientQueryMock
+    .mockResolvedValueOnce({ rows: [] })
+    .mockResolvedValueOnce({ rows: [{ balance_cents: cents }] });
+}
+
+describe('payFromWallet', () => {
+  const params = {
+    facilityId: 'club-1',
+    userId: 'user-1',
+    description: 'Court booking',
+    referenceType: 'connect_payment' as const,
+    referenceId: 'pay-1',
+  };
+
+  it('applies nothing when the club has not enabled credit', async () => {
+    isFeatureEnabledMock.mockResolvedValue(false);
+    await expect(payFromWallet({ ...params, amountCents: 2500 })).resolves.toBe(0);
+    expect(clientQueryMock).not.toHaveBeenCalled();
+  });
+
+  it('spends at most the balance and records a held payment', async () => {
+    lockedBalance(1000);
+    clientQueryMock.mockResolvedValue({ rows: [] });
+    const hold = new Date('2026-10-19T13:30:00Z');
+
+    await expect(payFromWallet({ ...params, amountCents: 2500, holdExpiresAt: hold })).resolves.toBe(1000);
+
+    const [, updateArgs] = clientQueryMock.mock.calls[2];
+    expect(updateArgs).toEqual(['club-1', 'user-1', 0]);
+    const [, insertArgs] = clientQueryMock.mock.calls[3];
+    expect(insertArgs.slice(2, 5)).toEqual([-1000, 0, 'payment']);
+    expect(insertArgs[8]).toBe(hold);
+  });
+
+  it('writes nothing for an empty wallet', async () => {
+    lockedBalance(0);
+    await expect(payFromWallet({ ...params, amountCents: 2500 })).resolves.toBe(0);
+    expect(clientQueryMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('adjustWalletByAdmin', () => {
+  const params = { facilityId: 'club-1', userId: 'user-1', adminUserId: 'admin-1' };
+
+  it('requires a whole, non-zero amount and a reason', async () => {
+    await expect(adjustWalletByAdmin({ ...params, amountCents: 0, description: 'x' })).rejects.toThrow('non-zero');
+    await expect(adjustWalletByAdmin({ ...params, amountCents: 12.5, description: 'x' })).rejects.toThrow('non-zero');
+    await expect(adjustWalletByAdmin({ ...params, amountCents: 500, description: '  ' })).rejects.toThrow('reason');
+  });
+
+  it('refuses with a 403 when credit is off', async () => {
+    isFeatureEnabledMock.mockResolvedValue(false);
+    const error = await adjustWalletByAdmin({ ...params, amountCents: 500, description: 'Goodwill' }).catch((e) => e);
+    expect(error).toBeInstanceOf(WalletError);
+    expect(error.status).toBe(403);
+  });
+
+  it('will not take the balance below zero', async () => {
+    queryMock.mockResolvedValue({ rows: [{ '?column?': 1 }] });
+    lockedBalance(300);
+    await expect(adjustWalletByAdmin({ ...params, amountCents: -500, description: 'Correction' }))
+      .rejects.toThrow('Insufficient account credit');
+  });
+});
+
+describe('reverseWalletPayment', () => {
+  it('returns nothing for a charge that spent no credit', async () => {
+    queryMock.mockResolvedValue({ rows: [] });
+    await expect(reverseWalletPayment('connect_payment', 'pay-1', 'Refund')).resolves.toBe(0);
+    expect(clientQueryMock).not.toHaveBeenCalled();
+  });
+
+  it('returns only what has not been given back already', async () => {
+    queryMock.mockResolvedValue({ rows: [{ facility_id: 'club-1', user_id: 'user-1' }] });
+    lockedBalance(200);
+    clientQueryMock
+      .mockResolvedValueOnce({ rows: [{ net: '-700' }] })
+      .mockResolvedValue({ rows: [] });
+
+    await expect(reverseWalletPayment('connect_payment', 'pay-1', 'Refund')).resolves.toBe(700);
+    const [, insertArgs] = clientQueryMock.mock.calls[5];
+    expect(insertArgs.slice(2, 5)).toEqual([700, 900, 'payment_reversal']);
+  });
+
+  it('is a no-op once fully reversed', async () => {
+    queryMock.mockResolvedValue({ rows: [{ facility_id: 'club-1', user_id: 'user-1' }] });
+    lockedBalance(900);
+    clientQueryMock
+      .mockResolvedValueOnce({ rows: [{ net: '0' }] })
+      .mockResolvedValue({ rows: [] });
+
+    await expect(reverseWalletPayment('connect_payment', 'pay-1', 'Refund')).resolves.toBe(0);
+    expect(clientQueryMock).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('walletCheckoutExpiry', () => {
+  it('releases the hold a grace period after the session expires', () => {
+    const now = Date.parse('2026-10-19T12:00:00Z');
+    const { sessionExpiresAt, holdExpiresAt } = walletCheckoutExpiry(now);
+    expect(sessionExpiresAt).toBe(Date.parse('2026-10-19T13:00:00Z') / 1000);
+    expect(holdExpiresAt.toISOString()).toBe('2026-10-19T13:30:00.000Z');
+  });
+});
@@ -1,5 +1,20 @@
+/**
+ * Annual membership fees: per-facility tiers, the yearly billing run, and the
+ * installments and dunning that follow it.
+ *
+ * Each member's fee for the year becomes one billing record per installment
+ * (one for annual, up to 4 quarterly or 12 monthly), prorated by whole months
+ * for members who joined after the billing date. The first installment is
+ * charged by the run; the rest sit 'scheduled' until their due date, when the
+ * annual_fee_installments job charges them. A failed charge goes 'past_due'
+ * and is retried 1, 3 and 7 days later with a reminder email each time; only
+ * the final failure applies a payment lockout.
+ */
+
 import Stripe from 'stripe';
 import { query } from '../database/connection';
+import { sendAnnualFeePaymentFailedEmail } from './emailService';
+import { hasUsableCard, missingCardMessage, recordHouseholdCharge, resolveBillingCard } from './householdBillingService';
 
 function getStripe(): Stripe | null {
   const key = process.env.STRIPE_SECRET_KEY;
@@ -11,12 +26,28 @@ function getStripe(): Stripe | null {
 // Types
 // ---------------------------------------------------------------------------
 
+export type AnnualFeePlan = 'annual' | 'quarterly' | 'monthly';
+
+/** Plans a tier can offer on top of paying the year up front. */
+export type InstallmentPlan = Exclude<AnnualFeePlan, 'annual'>;
+
+/** Months covered by one installment of each plan. */
+export const PLAN_INTERVAL_MONTHS: Record<AnnualFeePlan, number> = {
+  annual: 12,
+  quarterly: 3,
+  monthly: 1,
+};
+
+/** Days after the first failed charge that dunning retries (and emails); the last failure locks the member out. */
+export const DUNNING_RETRY_DAYS = [1, 3, 7] as const;
+
 export interface AnnualFeeTier {
   id: string;
   facilityId: string;
   name: string;
   amountCents: number;
   description: string | null;
+  installmentPlans: InstallmentPlan[];
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -35,7 +66,14 @@ export interface BillingPreviewMember {
   email: string;
   tierId: string;
   tierName: string;
+  /** Fee for the year after proration. */
   amountCents: number;
+  fullAmountCents: number;
+  proratedMonths: number;
+  plan: AnnualFeePlan;
+  installmentCount: number;
+  /** What the run charges today. */
+  firstInstallmentCents: number;
   hasSavedCard: boolean;
   cardBrand: string | null;
   cardLast4: string | null;
@@ -50,58 +88,76 @@ export interface BillingRunResult {
   lockoutCount: number;
   failedCount: number;
   waivedCount: number;
+  pastDueCount: number;
+  scheduledCount: number;
 }
 
-// ---------------------------------------------------------------------------
-// Tier CRUD
-// ---------------------------------------------------------------------------
+export interface InstallmentScheduleEntry {
+  installmentNumber: number;
+  installmentCount: number;
+  amountCents: number;
+  dueDate: string;
+}
 
-export async function getAnnualFeeTiers(facilityId: string): Promise<AnnualFeeTier[]> {
-  const result = await query(
-    `SELECT id, facility_id, name, amount_cents, description, is_active, created_at, updated_at
-       FROM annual_fee_tiers WHERE facility_id = $1 ORDER BY name`,
-    [facilityId]
-  );
-  return result.rows.map(row => ({
+function mapTier(row: any): AnnualFeeTier {
+  return {
     id: row.id,
     facilityId: row.facility_id,
     name: row.name,
     amountCents: row.amount_cents,
     description: row.description,
+    installmentPlans: row.installment_plans ?? [],
     isActive: row.is_active,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
-  }));
+  };
+}
+
+function normalizeInstallmentPlans(plans: unknown): InstallmentPlan[] {
+  if (!Array.isArray(plans) || plans.some(p => p !== 'monthly' && p !== 'quarterly')) {
+    throw new Error('installmentPlans may only contain "monthly" and "quarterly"');
+  }
+  return Array.from(new Set(plans as InstallmentPlan[]));
+}
+
+// ---------------------------------------------------------------------------
+// Tier CRUD
+// ---------------------------------------------------------------------------
+
+export async function getAnnualFeeTiers(facilityId: string): Promise<AnnualFeeTier[]> {
+  const result = await query(
+    `SELECT id, facility_id, name, amount_cents, description, installment_plans, is_active, created_at, updated_at
+       FROM annual_fee_tiers WHERE facility_id = $1 ORDER BY name`,
+    [facilityId]
+  );
+  return result.rows.map(mapTier);
 }
 
 export async function createAnnualFeeTier(
   facilityId: string,
   name: string,
   amountCents: number,
-  description?: string
+  description?: string,
+  installmentPlans: InstallmentPlan[] = []
 ): Promise<AnnualFeeTier> {
   const result = await query(
-    `INSERT INTO annual_fee_tiers (facility_id, name, amount_cents, description)
-     VALUES ($1, $2, $3, $4) RETURNING *`,
-    [facilityId, name, amountCents, description ?? null]
+    `INSERT INTO annual_fee_tiers (facility_id, name, amount_cents, description, installment_plans)
+     VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+    [facilityId, name, amountCents, description ?? null, normalizeInstallmentPlans(installmentPlans)]
   );
-  const row = result.rows[0];
-  return {
-    id: row.id,
-    facilityId: row.facility_id,
-    name: row.name,
-    amountCents: row.amount_cents,
-    description: row.description,
-    isActive: row.is_active,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-  };
+  return mapTier(result.rows[0]);
 }
 
 export async function updateAnnualFeeTier(
   tierId: string,
   facilityId: string,
-  updates: { name?: string; amountCents?: number; description?: string | null; isActive?: boolean }
+  updates: {
+    name?: string;
+    amountCents?: number;
+    description?: string | null;
+    installmentPlans?: InstallmentPlan[];
+    isActive?: boolean;
+  }
 ): Promise<AnnualFeeTier> {
   const fields: string[] = [];
   const values: any[] = [];
@@ -110,6 +166,10 @@ export async function updateAnnualFeeTier(
   if (updates.name !== undefined) { fields.push(`name = $${i++}`); values.push(updates.name); }
   if (updates.amountCents !== undefined) { fields.push(`amount_cents = $${i++}`); values.push(updates.amountCents); }
   if (updates.description !== undefined) { fields.push(`description = $${i++}`); values.push(updates.description); }
+  if (updates.installmentPlans !== undefined) {
+    fields.push(`installment_plans = $${i++}`);
+    values.push(normalizeInstallmentPlans(updates.installmentPlans));
+  }
   if (updates.isActive !== undefined) { fields.push(`is_active = $${i++}`); values.push(updates.isActive); }
 
   if (fields.length === 0) throw new Error('No fields to update');
@@ -123,17 +183,7 @@ export async function updateAnnualFeeTier(
     values
   );
   if (result.rows.length === 0) throw new Error('Tier not found');
-  const row = result.rows[0];
-  return {
-    id: row.id,
-    facilityId: row.facility_id,
-    name: row.name,
-    amountCents: row.amount_cents,
-    description: row.description,
-    isActive: row.is_active,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-  };
+  return mapTier(result.rows[0]);
 }
 
 export async function deleteAnnualFeeTier(tierId: string, facilityId: string): Promise<void> {
@@ -191,6 +241,32 @@ export async function upsertAnnualFeeConfig(
   };
 }
 
+/**
+ * Facilities whose billing date has arrived this year (in the facility's time
+ * zone) with the feature on and no billing run yet this year. Checked by the
+ * annual_billing_due background job.
+ */
+export async function getFacilitiesDueForAnnualBilling(): Promise<string[]> {
+  const result = await query(
+    `SELECT c.facility_id
+       FROM annual_fee_config c
+       JOIN facilities f ON f.id = c.facility_id
+       JOIN facility_features ff
+         ON ff.facility_id = c.facility_id AND ff.feature_key = 'annual_membership_fees' AND ff.is_enabled = true
+       CROSS JOIN LATERAL (
+         SELECT (NOW() AT TIME ZONE COALESCE(f.timezone, 'America/New_York'))::date AS today
+       ) local
+      WHERE c.is_active = true
+        AND make_date(EXTRACT(YEAR FROM local.today)::int, c.billing_month, c.billing_day) <= local.today
+        AND NOT EXISTS (
+          SELECT 1 FROM annual_fee_billing_runs r
+           WHERE r.facility_id = c.facility_id
+             AND r.billing_year = EXTRACT(YEAR FROM local.today)::int
+        )`
+  );
+  return result.rows.map((row: { facility_id: string }) => row.facility_id);
+}
+
 // ---------------------------------------------------------------------------
 // Member tier assignment
 // ---------------------------------------------------------------------------
@@ -215,6 +291,26 @@ export async function assignMemberTier(
   );
 }
 
+/**
+ * Set the installment plan a member pays on. A plan their tier doesn't offer
+ * is kept but billed annually until the tier offers it.
+ */
+export async function assignMemberPlan(
+  facilityId: string,
+  userId: string,
+  plan: AnnualFeePlan
+): Promise<void> {
+  if (!Object.prototype.hasOwnProperty.call(PLAN_INTERVAL_MONTHS, plan)) {
+    throw new Error('plan must be annual, quarterly or monthly');
+  }
+  const result = await query(
+    `UPDATE facility_memberships SET annual_fee_plan = $3, updated_at = NOW()
+      WHERE user_id = $1 AND facility_id = $2`,
+    [userId, facilityId, plan]
+  );
+  if (result.rowCount === 0) throw new Error('Member not found for this facility');
+}
+
 export async function getMembersWithTiers(facilityId: string): Promise<{
   userId: string;
   fullName: string;
@@ -224,6 +320,8 @@ export async function getMembersWithTiers(facilityId: string): Promise<{
   tierId: string | null;
   tierName: string | null;
   tierAmountCents: number | null;
+  tierInstallmentPlans: InstallmentPlan[];
+  plan: AnnualFeePlan;
   hasSavedCard: boolean;
   cardBrand: string | null;
   cardLast4: string | null;
@@ -238,6 +336,8 @@ export async function getMembersWithTiers(facilityId: string): Promise<{
        fm.annual_fee_tier_id AS tier_id,
        aft.name       AS tier_name,
        aft.amount_cents AS tier_amount_cents,
+       aft.installment_plans AS tier_installment_plans,
+       fm.annual_fee_plan,
        fm.stripe_default_payment_method_id IS NOT NULL
          AND fm.card_last4 IS NOT NULL AS has_saved_card,
        fm.card_brand,
@@ -259,6 +359,8 @@ export async function getMembersWithTiers(facilityId: string): Promise<{
     tierId: row.tier_id,
     tierName: row.tier_name,
     tierAmountCents: row.tier_amount_cents,
+    tierInstallmentPlans: row.tier_installment_plans ?? [],
+    plan: row.annual_fee_plan ?? 'annual',
     hasSavedCard: row.has_saved_card === true,
     cardBrand: row.card_brand,
     cardLast4: row.card_last4,
@@ -266,15 +368,123 @@ export async function getMembersWithTiers(facilityId: string): Promise<{
 }
 
 // ---------------------------------------------------------------------------
-// Billing preview
+// Proration, installments and dunning
 // ---------------------------------------------------------------------------
 
-export async function previewBillingRun(facilityId: string): Promise<{
-  billingYear: number;
-  members: BillingPreviewMember[];
-}> {
-  const billingYear = new Date().getFullYear();
+/** `date` plus `months` calendar months, with the day clamped to the target month's length. */
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+/**
+ * How many of the billing year's 12 months a member owes for: all of them if
+ * they joined on or before the billing date, otherwise the months left,
+ * counting the one they joined in.
+ */
+export function proratedMonths(yearStart: string, memberStart: string | null): number {
+  if (!memberStart || memberStart <= yearStart) return 12;
+  const [startYear, startMonth, startDay] = yearStart.split('-').map(Number);
+  const [joinYear, joinMonth, joinDay] = memberStart.split('-').map(Number);
+  let elapsed = (joinYear - startYear) * 12 + (joinMonth - startMonth);
+  if (joinDay < startDay) elapsed -= 1;
+  return Math.min(12, Math.max(1, 12 - elapsed));
+}
+
+export function prorateAmount(amountCents: number, months: number): number {
+  return Math.round((amountCents * months) / 12);
+}
+
+/**
+ * Split a year's fee into installments due every plan interval from
+ * `firstDueDate`. A prorated year gets fewer of them — 5 months left on a
+ * quarterly plan is 2 installments. Leftover cents go on the first.
+ */
+export function buildInstallmentSchedule(
+  totalCents: number,
+  plan: AnnualFeePlan,
+  months: number,
+  firstDueDate: string
+): InstallmentScheduleEntry[] {
+  const interval = PLAN_INTERVAL_MONTHS[plan];
+  const count = Math.max(1, Math.ceil(months / interval));
+  const base = Math.floor(totalCents / count);
+  const remainder = totalCents - base * count;
+  return Array.from({ length: count }, (_, i) => ({
+    installmentNumber: i + 1,
+    installmentCount: count,
+    amountCents: base + (i === 0 ? remainder : 0),
+    dueDate: addMonths(firstDueDate, i * interval),
+  }));
+}
+
+/**
+ * Where a record goes after its charge fails at dunning step `step` (0 for
+ * the original attempt, then one per retry): the next retry time, or final
+ * once the last retry in DUNNING_RETRY_DAYS has failed.
+ */
+export function nextDunningState(step: number, dunningStartedAt: Date): { final: boolean; nextRetryAt: Date | null } {
+  if (step >= DUNNING_RETRY_DAYS.length) return { final: true, nextRetryAt: null };
+  return {
+    final: false,
+    nextRetryAt: new Date(dunningStartedAt.getTime() + DUNNING_RETRY_DAYS[step] * 24 * 60 * 60 * 1000),
+  };
+}
+
+/** The member's chosen plan if their tier offers it, otherwise annual. */
+function effectivePlan(memberPlan: AnnualFeePlan | null, tierPlans: InstallmentPlan[] | null): AnnualFeePlan {
+  return memberPlan && memberPlan !== 'annual' && (tierPlans ?? []).includes(memberPlan) ? memberPlan : 'annual';
+}
+
+function yearStartDate(billingYear: number, billingMonth: number | null, billingDay: number | null): string {
+  const month = String(billingMonth ?? 1).padStart(2, '0');
+  const day = String(billingDay ?? 1).padStart(2, '0');
+  return `${billingYear}-${month}-${day}`;
+}
+
+interface BillingFacility {
+  id: string;
+  stripeAccountId: string | null;
+  stripeOnboarded: boolean;
+  today: string;
+  billingMonth: number | null;
+  billingDay: number | null;
+}
+
+async function getBillingFacility(facilityId: string): Promise<BillingFacility> {
+  const result = await query(
+    `SELECT f.id, f.stripe_account_id, f.stripe_onboarded,
+            TO_CHAR((NOW() AT TIME ZONE COALESCE(f.timezone, 'America/New_York'))::date, 'YYYY-MM-DD') AS today,
+            c.billing_month, c.billing_day
+       FROM facilities f
+       LEFT JOIN annual_fee_config c ON c.facility_id = f.id
+      WHERE f.id = $1`,
+    [facilityId]
+  );
+  if (result.rows.length === 0) throw new Error('Facility not found');
+  const row = result.rows[0];
+  return {
+    id: row.id,
+    stripeAccountId: row.stripe_account_id,
+    stripeOnboarded: row.stripe_onboarded === true,
+    today: row.today,
+    billingMonth: row.billing_month,
+    billingDay: row.billing_day,
+  };
+}
 
+/**
+ * Active members on an active tier, flagged when they already have this
+ * year's fee charged or in progress (scheduled or past due).
+ */
+async function getBillableMembers(
+  facilityId: string,
+  billingYear: number,
+  joinedOnOrAfter?: string
+): Promise<any[]> {
   const result = await query(
     `SELECT
        u.id           AS user_id,
@@ -283,6 +493,9 @@ export async function previewBillingRun(facilityId: string): Promise<{
        fm.annual_fee_tier_id AS tier_id,
        aft.name       AS tier_name,
        aft.amount_cents AS amount_cents,
+       aft.installment_plans,
+       fm.annual_fee_plan,
+       TO_CHAR(fm.start_date, 'YYYY-MM-DD') AS start_date,
        fm.stripe_default_payment_method_id IS NOT NULL
          AND fm.card_last4 IS NOT NULL AS has_saved_card,
        fm.card_brand,
@@ -292,7 +505,7 @@ export async function previewBillingRun(facilityId: string): Promise<{
           WHERE afbr.user_id = u.id
             AND afbr.facility_id = $1
             AND afbr.billing_year = $2
-            AND afbr.status = 'charged'
+            AND afbr.status IN ('charged', 'scheduled', 'past_due')
        ) AS already_billed
      FROM facility_memberships fm
      JOIN users u ON u.id = fm.user_id
@@ -300,220 +513,390 @@ export async function previewBillingRun(facilityId: string): Promise<{
      WHERE fm.facility_id = $1
        AND fm.status = 'active'
        AND aft.is_active = true
+       AND ($3::date IS NULL OR fm.start_date >= $3::date)
      ORDER BY u.full_name`,
-    [facilityId, billingYear]
+    [facilityId, billingYear, joinedOnOrAfter ?? null]
   );
+  return result.rows;
+}
 
+/** The member's fee for the year as an installment schedule starting today. */
+function scheduleForMember(member: any, facility: BillingFacility, billingYear: number) {
+  const yearStart = yearStartDate(billingYear, facility.billingMonth, facility.billingDay);
+  const months = proratedMonths(yearStart, member.start_date);
+  const totalCents = prorateAmount(member.amount_cents, months);
+  const plan = effectivePlan(member.annual_fee_plan, member.installment_plans);
   return {
-    billingYear,
-    members: result.rows.map(row => ({
-      userId: row.user_id,
-      fullName: row.full_name,
-      email: row.email,
-      tierId: row.tier_id,
-      tierName: row.tier_name,
-      amountCents: row.amount_cents,
-      hasSavedCard: row.has_saved_card === true,
-      cardBrand: row.card_brand,
-      cardLast4: row.card_last4,
-      alreadyBilledThisYear: row.already_billed === true,
-    })),
+    months,
+    totalCents,
+    plan,
+    installments: buildInstallmentSchedule(totalCents, plan, months, facility.today),
   };
 }
 
-// ---------------------------------------------------------------------------
-// Billing run
-// ---------------------------------------------------------------------------
-
-export async function runAnnualBilling(
-  facilityId: string,
-  triggeredBy: string
-): Promise<BillingRunResult> {
-  const stripe = getStripe();
-  const billingYear = new Date().getFullYear();
-
-  // Get facility Stripe info
-  const facilityResult = await query(
-    `SELECT stripe_account_id, stripe_onboarded, platform_fee_percent
-       FROM facilities WHERE id = $1`,
-    [facilityId]
-  );
-  if (facilityResult.rows.length === 0) throw new Error('Facility not found');
-  const facility = facilityResult.rows[0];
-  const stripeAccountId: string | null = facility.stripe_account_id;
-  const stripeOnboarded: boolean = facility.stripe_onboarded === true;
-  const platformFeePercent: number = Number(facility.platform_fee_percent ?? 0);
-
-  // Get members with tiers not yet billed this year
-  const membersResult = await query(
-    `SELECT
-       u.id           AS user_id,
-       fm.annual_fee_tier_id AS tier_id,
-       aft.name       AS tier_name,
-       aft.amount_cents AS amount_cents,
-       fm.stripe_customer_id,
-       fm.stripe_default_payment_method_id AS payment_method_id,
-       fm.card_last4
-     FROM facility_memberships fm
-     JOIN users u ON u.id = fm.user_id
-     JOIN annual_fee_tiers aft ON aft.id = fm.annual_fee_tier_id
-     WHERE fm.facility_id = $1
-       AND fm.status = 'active'
-       AND aft.is_active = true
-       AND NOT EXISTS (
-         SELECT 1 FROM annual_fee_billing_records afbr
-          WHERE afbr.user_id = u.id
-            AND afbr.facility_id = $1
-            AND afbr.billing_year = $2
-            AND afbr.status = 'charged'
-       )`,
-    [facilityId, billingYear]
-  );
-
-  const members = membersResult.rows;
-  if (members.length === 0) {
-    // Nothing to do — create an empty run record and return
-    const runResult = await query(
-      `INSERT INTO annual_fee_billing_runs
-         (facility_id, billing_year, total_members, triggered_by, completed_at)
-       VALUES ($1, $2, 0, $3, NOW()) RETURNING id`,
-      [facilityId, billingYear, triggeredBy]
+/** Create the member's installment records for the year and charge the first. */
+async function enrollMember(
+  runId: string,
+  facility: BillingFacility,
+  billingYear: number,
+  member: any
+): Promise<void> {
+  const { months, plan, installments } = scheduleForMember(member, facility, billingYear);
+  let firstRecordId: string | null = null;
+  for (const installment of installments) {
+    const result = await query(
+      `INSERT INTO annual_fee_billing_records
+         (run_id, facility_id, user_id, tier_id, tier_name, amount_cents, billing_year, status,
+          plan, installment_number, installment_count, due_date, full_amount_cents, prorated_months)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, 'scheduled', $8, $9, $10, $11, $12, $13)
+       RETURNING id`,
+      [runId, facility.id, member.user_id, member.tier_id, member.tier_name, installment.amountCents,
+       billingYear, plan, installment.installmentNumber, installment.installmentCount,
+       installment.dueDate, member.amount_cents, months]
     );
-    return {
-      runId: runResult.rows[0].id,
-      billingYear,
-      totalMembers: 0,
-      chargedCount: 0,
-      lockoutCount: 0,
-      failedCount: 0,
-      waivedCount: 0,
-    };
+    firstRecordId ??= result.rows[0].id;
   }
+  if (firstRecordId) await chargeBillingRecord(firstRecordId);
+}
 
-  // Create the run record
-  const runResult = await query(
-    `INSERT INTO annual_fee_billing_runs
-       (facility_id, billing_year, total_members, triggered_by)
-     VALUES ($1, $2, $3, $4) RETURNING id`,
-    [facilityId, billingYear, members.length, triggeredBy]
-  );
-  const runId: string = runResult.rows[0].id;
+function recordDescription(record: {
+  tier_name: string | null;
+  billing_year: number;
+  installment_number: number;
+  installment_count: number;
+}): string {
+  const base = `Annual membership fee - ${record.tier_name ?? 'Membership'} (${record.billing_year})`;
+  return record.installment_count > 1
+    ? `${base}, installment ${record.installment_number} of ${record.installment_count}`
+    : base;
+}
 
-  let chargedCount = 0;
-  let lockoutCount = 0;
-  let failedCount = 0;
-  let waivedCount = 0;
+async function applyPaymentLockout(userId: string, facilityId: string, amountCents: number, description: string) {
+  // A member already locked for an earlier installment owes both
+  await query(
+    `UPDATE facility_memberships
+        SET lockout_amount_cents = CASE WHEN is_payment_locked THEN COALESCE(lockout_amount_cents, 0) + $3 ELSE $3 END,
+            lockout_description = $4,
+            is_payment_locked = true,
+            payment_locked_at = COALESCE(payment_locked_at, NOW()),
+            updated_at = NOW()
+      WHERE user_id = $1 AND facility_id = $2`,
+    [userId, facilityId, amountCents, description]
+  );
+}
 
-  for (const member of members) {
-    const amountCents: number = member.amount_cents;
-    const platformFeeCents = Math.round((amountCents * platformFeePercent) / 100);
-    const hasSavedCard = !!member.payment_method_id && !!member.card_last4;
+/**
+ * Attempt the charge for a scheduled or past-due record and move it along:
+ * charged, into or further through dunning, or locked out after the final
+ * retry. Returns the record's new status, or null if it wasn't chargeable.
+ */
+export async function chargeBillingRecord(recordId: string): Promise<string | null> {
+  const result = await query(
+    `SELECT r.id, r.facility_id, r.user_id, r.tier_name, r.amount_cents, r.billing_year, r.status,
+            r.installment_number, r.installment_count, r.attempt_count, r.dunning_step, r.dunning_started_at,
+            fm.status AS membership_status,
+            f.name AS facility_name, f.stripe_account_id, f.stripe_onboarded, f.platform_fee_percent,
+            u.email, u.full_name
+       FROM annual_fee_billing_records r
+       JOIN facilities f ON f.id = r.facility_id
+       JOIN users u ON u.id = r.user_id
+       LEFT JOIN facility_memberships fm ON fm.user_id = r.user_id AND fm.facility_id = r.facility_id
+      WHERE r.id = $1 AND r.status IN ('scheduled', 'past_due')`,
+    [recordId]
+  );
+  const record = result.rows[0];
+  if (!record) return null;
+
+  const settle = async (status: string, errorMessage: string | null) => {
+    await query(
+      `UPDATE annual_fee_billing_records
+          SET status = $2, error_message = $3, next_retry_at = NULL, processed_at = NOW()
+        WHERE id = $1`,
+      [record.id, status, errorMessage]
+    );
+    return status;
+  };
 
-    if (!hasSavedCard) {
-      // Apply payment lockout
-      await query(
-        `UPDATE facility_memberships
-            SET is_payment_locked = true,
-                payment_locked_at = NOW(),
-                lockout_amount_cents = $3,
-                lockout_description = $4,
-                updated_at = NOW()
-          WHERE user_id = $1 AND facility_id = $2`,
-        [
-          member.user_id,
-          facilityId,
-          amountCents,
-          `Annual membership fee - ${member.tier_name} (${billingYear})`,
-        ]
-      );
-      await query(
-        `INSERT INTO annual_fee_billing_records
-           (run_id, facility_id, user_id, tier_id, tier_name, amount_cents, billing_year, status)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, 'lockout_applied')`,
-        [runId, facilityId, member.user_id, member.tier_id, member.tier_name, amountCents, billingYear]
-      );
-      lockoutCount++;
-      continue;
-    }
+  if (record.membership_status !== 'active') return settle('waived', 'Membership no longer active');
+  if (record.amount_cents <= 0) return settle('waived', null);
 
-    if (!stripe || !stripeAccountId || !stripeOnboarded) {
-      // Stripe not configured — mark as failed but do NOT lock the member out.
-      // The facility hasn't set up payments, so the member has no way to pay;
-      // blocking them would punish them for the facility's missing setup.
-      await query(
-        `INSERT INTO annual_fee_billing_records
-           (run_id, facility_id, user_id, tier_id, tier_name, amount_cents, billing_year, status, error_message)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, 'failed', 'Stripe not configured')`,
-        [runId, facilityId, member.user_id, member.tier_id, member.tier_name, amountCents, billingYear]
-      );
-      failedCount++;
-      continue;
-    }
+  const stripe = getStripe();
+  if (!stripe || !record.stripe_account_id || record.stripe_onboarded !== true) {
+    // The facility hasn't set up payments, so the member has no way to pay;
+    // don't dun or lock them out for the facility's missing setup.
+    return settle('failed', 'Stripe not configured');
+  }
 
+  const description = recordDescription(record);
+  // A household payer's card covers the fee when one is set
+  const card = await resolveBillingCard(record.facility_id, record.user_id);
+  let errorMessage = missingCardMessage(card);
+  if (hasUsableCard(card)) {
+    const platformFeeCents = Math.round((record.amount_cents * Number(record.platform_fee_percent ?? 0)) / 100);
     try {
       const pi = await stripe.paymentIntents.create(
         {
-          amount: amountCents,
+          amount: record.amount_cents,
           currency: 'usd',
-          customer: member.stripe_customer_id,
-          payment_method: member.payment_method_id,
+          customer: card.stripeCustomerId!,
+          payment_method: card.paymentMethodId!,
           off_session: true,
           confirm: true,
           application_fee_amount: platformFeeCents > 0 ? platformFeeCents : undefined,
-          description: `Annual membership fee - ${member.tier_name} (${billingYear})`,
+          description,
         },
-        { stripeAccount: stripeAccountId }
+        // One key per attempt, so a re-run job can't double-charge an attempt
+        { stripeAccount: record.stripe_account_id, idempotencyKey: `annual_fee_${record.id}_${record.attempt_count + 1}` }
       );
-
       await query(
-        `INSERT INTO annual_fee_billing_records
-           (run_id, facility_id, user_id, tier_id, tier_name, amount_cents, billing_year,
-            status, stripe_payment_intent_id)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, 'charged', $8)`,
-        [runId, facilityId, member.user_id, member.tier_id, member.tier_name,
-         amountCents, billingYear, pi.id]
+        `UPDATE annual_fee_billing_records
+            SET status = 'charged', stripe_payment_intent_id = $2, error_message = NULL,
+                attempt_count = attempt_count + 1, next_retry_at = NULL, processed_at = NOW()
+          WHERE id = $1`,
+        [record.id, pi.id]
       );
-      chargedCount++;
+      await recordHouseholdCharge(card, {
+        facilityId: record.facility_id,
+        memberUserId: record.user_id,
+        source: 'annual_fee',
+        sourceId: record.id,
+        description,
+        amountCents: record.amount_cents,
+        stripePaymentIntentId: pi.id,
+      });
+      return 'charged';
     } catch (err: any) {
-      // Charge failed — apply a lockout so the member must settle before using the app
-      const message = err?.message ?? 'Stripe charge failed';
-      await query(
-        `UPDATE facility_memberships
-            SET is_payment_locked = true,
-                payment_locked_at = NOW(),
-                lockout_amount_cents = $3,
-                lockout_description = $4,
-                updated_at = NOW()
-          WHERE user_id = $1 AND facility_id = $2`,
-        [
-          member.user_id,
-          facilityId,
-          amountCents,
-          `Annual membership fee - ${member.tier_name} (${billingYear})`,
-        ]
-      );
-      await query(
-        `INSERT INTO annual_fee_billing_records
-           (run_id, facility_id, user_id, tier_id, tier_name, amount_cents, billing_year,
-            status, error_message)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, 'lockout_applied', $8)`,
-        [runId, facilityId, member.user_id, member.tier_id, member.tier_name,
-         amountCents, billingYear, message]
-      );
-      lockoutCount++;
+      errorMessage = err?.message ?? 'Stripe charge failed';
     }
   }
 
-  // Close out the run record with totals
+  const firstFailure = record.status === 'scheduled';
+  const step = firstFailure ? 0 : record.dunning_step + 1;
+  const dunningStartedAt = firstFailure ? new Date() : new Date(record.dunning_started_at);
+  const { final, nextRetryAt } = nextDunningState(step, dunningStartedAt);
+
+  if (final) {
+    await applyPaymentLockout(record.user_id, record.facility_id, record.amount_cents, description);
+  }
   await query(
-    `UPDATE annual_fee_billing_runs
-        SET charged_count = $2, lockout_count = $3, failed_count = $4, waived_count = $5,
-            completed_at = NOW()
+    `UPDATE annual_fee_billing_records
+        SET status = $2, dunning_step = $3, dunning_started_at = $4, next_retry_at = $5,
+            error_message = $6, attempt_count = attempt_count + 1, processed_at = NOW()
       WHERE id = $1`,
-    [runId, chargedCount, lockoutCount, failedCount, waivedCount]
+    [record.id, final ? 'lockout_applied' : 'past_due', step, dunningStartedAt, nextRetryAt, errorMessage]
+  );
+
+  // The reminder emails go out with each retry (days 1, 3 and 7), not the original attempt
+  if (!firstFailure && record.email) {
+    sendAnnualFeePaymentFailedEmail(
+      record.email,
+      record.full_name || 'there',
+      record.facility_name,
+      description,
+      record.amount_cents,
+      errorMessage,
+      nextRetryAt,
+      record.user_id
+    ).catch(err => console.error('Annual fee dunning email failed:', err));
+  }
+
+  return final ? 'lockout_applied' : 'past_due';
+}
+
+/** Recount a run's totals from its records; members count once per status they have. */
+async function refreshRunCounts(runId: string, options: { complete?: boolean } = {}) {
+  const result = await query(
+    `UPDATE annual_fee_billing_runs r
+        SET charged_count   = c.charged,
+            lockout_count   = c.lockout,
+            failed_count    = c.failed,
+            waived_count    = c.waived,
+            past_due_count  = c.past_due,
+            scheduled_count = c.scheduled,
+            completed_at    = CASE WHEN $2 THEN NOW() ELSE r.completed_at END
+       FROM (
+         SELECT
+           COUNT(DISTINCT user_id) FILTER (WHERE status = 'charged')         AS charged,
+           COUNT(DISTINCT user_id) FILTER (WHERE status = 'lockout_applied') AS lockout,
+           COUNT(DISTINCT user_id) FILTER (WHERE status = 'failed')          AS failed,
+           COUNT(DISTINCT user_id) FILTER (WHERE status = 'waived')          AS waived,
+           COUNT(DISTINCT user_id) FILTER (WHERE status = 'past_due')        AS past_due,
+           COUNT(DISTINCT user_id) FILTER (WHERE status = 'scheduled')       AS scheduled
+           FROM annual_fee_billing_records
+          WHERE run_id = $1
+       ) c
+      WHERE r.id = $1
+      RETURNING r.total_members, r.charged_count, r.lockout_count, r.failed_count,
+                r.waived_count, r.past_due_count, r.scheduled_count`,
+    [runId, options.complete === true]
+  );
+  const row = result.rows[0];
+  return {
+    totalMembers: row.total_members,
+    chargedCount: row.charged_count,
+    lockoutCount: row.lockout_count,
+    failedCount: row.failed_count,
+    waivedCount: row.waived_count,
+    pastDueCount: row.past_due_count,
+    scheduledCount: row.scheduled_count,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Billing preview
+// ---------------------------------------------------------------------------
+
+export async function previewBillingRun(facilityId: string): Promise<{
+  billingYear: number;
+  members: BillingPreviewMember[];
+}> {
+  const facility = await getBillingFacility(facilityId);
+  const billingYear = Number(facility.today.slice(0, 4));
+  const members = await getBillableMembers(facilityId, billingYear);
+
+  return {
+    billingYear,
+    members: members.map(row => {
+      const { months, totalCents, plan, installments } = scheduleForMember(row, facility, billingYear);
+      return {
+        userId: row.user_id,
+        fullName: row.full_name,
+        email: row.email,
+        tierId: row.tier_id,
+        tierName: row.tier_name,
+        amountCents: totalCents,
+        fullAmountCents: row.amount_cents,
+        proratedMonths: months,
+        plan,
+        installmentCount: installments.length,
+        firstInstallmentCents: installments[0].amountCents,
+        hasSavedCard: row.has_saved_card === true,
+        cardBrand: row.card_brand,
+        cardLast4: row.card_last4,
+        alreadyBilledThisYear: row.already_billed === true,
+      };
+    }),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Billing run
+// ---------------------------------------------------------------------------
+
+/**
+ * Enroll every member not yet billed this year and charge their first
+ * installment. `triggeredBy` is null for runs started by the
+ * annual_billing_run job.
+ */
+export async function runAnnualBilling(
+  facilityId: string,
+  triggeredBy: string | null
+): Promise<BillingRunResult> {
+  const facility = await getBillingFacility(facilityId);
+  const billingYear = Number(facility.today.slice(0, 4));
+  const members = (await getBillableMembers(facilityId, billingYear)).filter(m => m.already_billed !== true);
+
+  const runResult = await query(
+    `INSERT INTO annual_fee_billing_runs
+       (facility_id, billing_year, total_members, triggered_by)
+     VALUES ($1, $2, $3, $4) RETURNING id`,
+    [facilityId, billingYear, members.length, triggeredBy]
   );
+  const runId: string = runResult.rows[0].id;
+
+  for (const member of members) {
+    await enrollMember(runId, facility, billingYear, member);
+  }
 
-  return { runId, billingYear, totalMembers: members.length, chargedCount, lockoutCount, failedCount, waivedCount };
+  const counts = await refreshRunCounts(runId, { complete: true });
+  return { runId, billingYear, ...counts };
+}
+
+/**
+ * Members who joined after this billing year's run get a prorated fee for
+ * the rest of the year, added to that run. Returns how many were enrolled.
+ */
+export async function billNewMembers(facilityId: string): Promise<number> {
+  const facility = await getBillingFacility(facilityId);
+  const currentYear = Number(facility.today.slice(0, 4));
+  const billingYear =
+    facility.today >= yearStartDate(currentYear, facility.billingMonth, facility.billingDay)
+      ? currentYear
+      : currentYear - 1;
+
+  const runResult = await query(
+    `SELECT r.id,
+            TO_CHAR((r.started_at AT TIME ZONE COALESCE(f.timezone, 'America/New_York'))::date, 'YYYY-MM-DD') AS run_date
+       FROM annual_fee_billing_runs r
+       JOIN facilities f ON f.id = r.facility_id
+      WHERE r.facility_id = $1 AND r.billing_year = $2
+      ORDER BY r.started_at DESC
+      LIMIT 1`,
+    [facilityId, billingYear]
+  );
+  const run = runResult.rows[0];
+  if (!run) return 0;
+
+  const members = (await getBillableMembers(facilityId, billingYear, run.run_date)).filter(
+    m => m.already_billed !== true
+  );
+  if (members.length === 0) return 0;
+
+  for (const member of members) {
+    await enrollMember(run.id, facility, billingYear, member);
+  }
+  await query(
+    `UPDATE annual_fee_billing_runs SET total_members = total_members + $2 WHERE id = $1`,
+    [run.id, members.length]
+  );
+  await refreshRunCounts(run.id);
+  return members.length;
+}
+
+/**
+ * The annual_fee_installments job: bill members who joined since their
+ * facility's run, charge installments that have come due, and retry
+ * past-due ones whose dunning retry time has arrived.
+ */
+export async function processAnnualFeeInstallments(): Promise<{ enrolled: number; processed: number }> {
+  const facilities = await query(
+    `SELECT c.facility_id
+       FROM annual_fee_config c
+       JOIN facility_features ff
+         ON ff.facility_id = c.facility_id AND ff.feature_key = 'annual_membership_fees' AND ff.is_enabled = true
+      WHERE c.is_active = true`
+  );
+  let enrolled = 0;
+  for (const { facility_id } of facilities.rows) {
+    enrolled += await billNewMembers(facility_id);
+  }
+
+  const due = await query(
+    `SELECT r.id, r.run_id
+       FROM annual_fee_billing_records r
+       JOIN facilities f ON f.id = r.facility_id
+       JOIN facility_features ff
+         ON ff.facility_id = r.facility_id AND ff.feature_key = 'annual_membership_fees' AND ff.is_enabled = true
+      WHERE (r.status = 'scheduled'
+             AND r.due_date <= (NOW() AT TIME ZONE COALESCE(f.timezone, 'America/New_York'))::date)
+         OR (r.status = 'past_due' AND r.next_retry_at <= NOW())
+      ORDER BY r.due_date, r.next_retry_at
+      LIMIT 500`
+  );
+  const runIds = new Set<string>();
+  for (const record of due.rows) {
+    try {
+      await chargeBillingRecord(record.id);
+    } catch (err) {
+      console.error(`Annual fee installment ${record.id} failed to process:`, err);
+    }
+    runIds.add(record.run_id);
+  }
+  for (const runId of runIds) {
+    await refreshRunCounts(runId);
+  }
+
+  return { enrolled, processed: due.rows.length };
 }
 
 // ---------------------------------------------------------------------------
@@ -527,6 +910,8 @@ export async function getBillingRuns(facilityId: string): Promise<{
   chargedCount: number;
   lockoutCount: number;
   failedCount: number;
+  pastDueCount: number;
+  scheduledCount: number;
   startedAt: string;
   completedAt: string | null;
   triggeredByName: string | null;
@@ -534,7 +919,8 @@ export async function getBillingRuns(facilityId: string): Promise<{
   const result = await query(
     `SELECT
        r.id, r.billing_year, r.total_members, r.charged_count,
-       r.lockout_count, r.failed_count, r.started_at, r.completed_at,
+       r.lockout_count, r.failed_count, r.past_due_count, r.scheduled_count,
+       r.started_at, r.completed_at,
        u.full_name AS triggered_by_name
      FROM annual_fee_billing_runs r
      LEFT JOIN users u ON u.id = r.triggered_by
@@ -549,6 +935,8 @@ export async function getBillingRuns(facilityId: string): Promise<{
     chargedCount: row.charged_count,
     lockoutCount: row.lockout_count,
     failedCount: row.failed_count,
+    pastDueCount: row.past_due_count,
+    scheduledCount: row.scheduled_count,
     startedAt: row.started_at,
     completedAt: row.completed_at,
     triggeredByName: row.triggered_by_name,
@@ -563,6 +951,14 @@ export async function getBillingRunRecords(runId: string, facilityId: string): P
   tierName: string | null;
   amountCents: number;
   status: string;
+  plan: AnnualFeePlan;
+  installmentNumber: number;
+  installmentCount: number;
+  dueDate: string | null;
+  fullAmountCents: number | null;
+  proratedMonths: number;
+  dunningStep: number;
+  nextRetryAt: string | null;
   stripePaymentIntentId: string | null;
   errorMessage: string | null;
   processedAt: string;
@@ -571,11 +967,14 @@ export async function getBillingRunRecords(runId: string, facilityId: string): P
     `SELECT
        r.id, r.user_id, u.full_name, u.email,
        r.tier_name, r.amount_cents, r.status,
+       r.plan, r.installment_number, r.installment_count,
+       TO_CHAR(r.due_date, 'YYYY-MM-DD') AS due_date,
+       r.full_amount_cents, r.prorated_months, r.dunning_step, r.next_retry_at,
        r.stripe_payment_intent_id, r.error_message, r.processed_at
      FROM annual_fee_billing_records r
      JOIN users u ON u.id = r.user_id
      WHERE r.run_id = $1 AND r.facility_id = $2
-     ORDER BY u.full_name`,
+     ORDER BY u.full_name, r.installment_number`,
     [runId, facilityId]
   );
   return result.rows.map(row => ({
@@ -586,6 +985,14 @@ export async function getBillingRunRecords(runId: string, facilityId: string): P
     tierName: row.tier_name,
     amountCents: row.amount_cents,
     status: row.status,
+    plan: row.plan,
+    installmentNumber: row.installment_number,
+    installmentCount: row.installment_count,
+    dueDate: row.due_date,
+    fullAmountCents: row.full_amount_cents,
+    proratedMonths: row.prorated_months,
+    dunningStep: row.dunning_step,
+    nextRetryAt: row.next_retry_at,
     stripePaymentIntentId: row.stripe_payment_intent_id,
     errorMessage: row.error_message,
     processedAt: row.processed_at,
@@ -0,0 +1,171 @@
+/**
+ * Admin audit log.
+ *
+ * Rows are written by server/middleware/auditLog.ts after a mutating admin or
+ * support request succeeds, and are never updated or deleted. Where the
+ * route's entity can be loaded, the row carries a field-level before/after
+ * diff; otherwise the redacted request body in `metadata` is the record of
+ * what was asked for.
+ */
+
+import { query } from '../database/connection';
+
+export type AuditActorType = 'admin' | 'support';
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditEventInput {
+  actorType: AuditActorType;
+  actorUserId: string | null;
+  facilityId: string | null;
+  source: string;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  changes: AuditChanges;
+  metadata: Record<string, unknown>;
+}
+
+export interface AuditEvent extends AuditEventInput {
+  id: string;
+  actorName: string | null;
+  facilityName: string | null;
+  createdAt: string;
+}
+
+export interface AuditEventFilters {
+  facilityId?: string;
+  actorUserId?: string;
+  actorType?: AuditActorType;
+  entityType?: string;
+  entityId?: string;
+  source?: string;
+  /** Inclusive YYYY-MM-DD bounds on created_at. */
+  from?: string;
+  to?: string;
+  /** Matched against action, entity id and actor name. */
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export const MAX_AUDIT_PAGE_SIZE = 1000;
+
+/** Columns whose values never go into the log, in snapshots or request bodies. */
+const SENSITIVE_KEY = /password|secret|token|api_?key|card_?number|cvc/i;
+/** Bookkeeping columns that change on every write and would drown the diff. */
+const IGNORED_DIFF_KEYS = new Set(['updated_at', 'updatedAt']);
+
+/** Deep copy with sensitive keys replaced by "[redacted]". */
+export function redactSensitive<T>(value: T): T {
+  if (Array.isArray(value)) return value.map((item) => redactSensitive(item)) as T;
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+        key,
+        SENSITIVE_KEY.test(key) ? '[redacted]' : redactSensitive(item),
+      ])
+    ) as T;
+  }
+  return value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Field-level diff of two snapshots of the same entity. A null `before` is a
+ * create and a null `after` a delete; every field then shows up on one side.
+ */
+export function diffSnapshots(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const key of keys) {
+    if (IGNORED_DIFF_KEYS.has(key)) continue;
+    const from = before?.[key] ?? null;
+    const to = after?.[key] ?? null;
+    if (sameValue(from, to)) continue;
+    changes[key] = SENSITIVE_KEY.test(key)
+      ? { before: '[redacted]', after: '[redacted]' }
+      : { before: redactSensitive(from), after: redactSensitive(to) };
+  }
+  return changes;
+}
+
+/**
+ * Appends one event. Audit failures are logged rather than thrown: the change
+ * itself has already been committed and answered by the time this runs.
+ */
+export async function recordAuditEvent(event: AuditEventInput): Promise<void> {
+  try {
+    await query(
+      `INSERT INTO admin_audit_log
+         (actor_type, actor_user_id, actor_name, facility_id, source, action, entity_type, entity_id, changes, metadata)
+       VALUES ($1, $2, (SELECT full_name FROM users WHERE id = $2), $3, $4, $5, $6, $7, $8::jsonb, $9::jsonb)`,
+      [
+        event.actorType,
+        event.actorUserId,
+        event.facilityId,
+        event.source,
+        event.action,
+        event.entityType,
+        event.entityId,
+        JSON.stringify(event.changes),
+        JSON.stringify(redactSensitive(event.metadata)),
+      ]
+    );
+  } catch (error) {
+    console.error('Failed to write admin audit log entry:', error, event.action);
+  }
+}
+
+/** Newest first. `total` is the count before limit/offset, for paging. */
+export async function listAuditEvents(
+  filters: AuditEventFilters
+): Promise<{ events: AuditEvent[]; total: number }> {
+  const where: string[] = [];
+  const params: unknown[] = [];
+  // Every "?" in a clause is the same (new) parameter.
+  const add = (clause: string, value: unknown) => {
+    params.push(value);
+    where.push(clause.split('?').join(`$${params.length}`));
+  };
+
+  if (filters.facilityId) add('a.facility_id = ?', filters.facilityId);
+  if (filters.actorUserId) add('a.actor_user_id = ?', filters.actorUserId);
+  if (filters.actorType) add('a.actor_type = ?', filters.actorType);
+  if (filters.entityType) add('a.entity_type = ?', filters.entityType);
+  if (filters.entityId) add('a.entity_id = ?', filters.entityId);
+  if (filters.source) add('a.source = ?', filters.source);
+  if (filters.from) add('a.created_at >= ?::date', filters.from);
+  if (filters.to) add("a.created_at < ?::date + INTERVAL '1 day'", filters.to);
+  if (filters.search) {
+    add('(a.action ILIKE ? OR a.entity_id ILIKE ? OR a.actor_name ILIKE ?)', `%${filters.search}%`);
+  }
+
+  const whereSql = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+  const limit = Math.min(Math.max(Number(filters.limit) || 100, 1), MAX_AUDIT_PAGE_SIZE);
+  const offset = Math.max(Number(filters.offset) || 0, 0);
+
+  const [rows, count] = await Promise.all([
+    query(
+      `SELECT a.id, a.actor_type as "actorType", a.actor_user_id as "actorUserId", a.actor_name as "actorName",
+              a.facility_id as "facilityId", f.name as "facilityName", a.source, a.action,
+              a.entity_type as "entityType", a.entity_id as "entityId", a.changes, a.metadata,
+              a.created_at as "createdAt"
+         FROM admin_audit_log a
+         LEFT JOIN facilities f ON f.id = a.facility_id
+         ${whereSql}
+        ORDER BY a.created_at DESC, a.id
+        LIMIT ${limit} OFFSET ${offset}`,
+      params
+    ),
+    query(`SELECT COUNT(*)::int as total FROM admin_audit_log a ${whereSql}`, params),
+  ]);
+
+  return { events: rows.rows, total: count.rows[0]?.total ?? 0 };
+}
@@ -0,0 +1,111 @@
+/**
+ * Every background job the API runs, registered with the job queue at
+ * startup. Sweeps that used to be setIntervals in server/index.ts are
+ * recurring jobs here, so they run once per interval across all instances.
+ */
+
+import { enqueueJob, pruneJobHistory, registerJobHandler, registerRecurringJob } from './jobQueueService';
+import { processBulletinMinParticipantCancellations } from './bulletinBoardService';
+import { expireSplitCourtReservations } from './splitCourtPaymentService';
+import { expireCourtWaitlistOffers } from './courtWaitlistService';
+import { expireLessonHolds } from './lessonService';
+import {
+  getFacilitiesDueForAnnualBilling,
+  processAnnualFeeInstallments,
+  runAnnualBilling,
+} from './annualFeeService';
+import { sendMonthlyStatements } from './householdBillingService';
+import { checkCampaignPushReceipts, runCampaignSendJob } from './pickle/pickleCampaignService';
+import { findBookingsDueForReminder, sendBookingReminder } from './bookingReminderService';
+import { releaseExpiredWalletHolds } from './walletService';
+import { expireSessionPackages, releaseExpiredRedemptionHolds } from './sessionPackageService';
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export function registerBackgroundJobs(): void {
+  registerRecurringJob('bulletin_min_participant_cancellations', MINUTE, async () => {
+    const cancelled = await processBulletinMinParticipantCancellations();
+    if (cancelled > 0) {
+      console.log(`📧 Bulletin events cancelled for min participants: ${cancelled}`);
+    }
+    return { cancelled };
+  });
+
+  registerRecurringJob('split_court_payment_expiry', MINUTE, async () => ({
+    expired: await expireSplitCourtReservations(),
+  }));
+
+  registerRecurringJob('court_waitlist_offer_expiry', MINUTE, async () => ({
+    expired: await expireCourtWaitlistOffers(),
+  }));
+
+  registerRecurringJob('lesson_hold_expiry', MINUTE, async () => ({
+    expired: await expireLessonHolds(),
+  }));
+
+  // Account credit held for Checkouts that expired unpaid goes back to the member.
+  registerRecurringJob('wallet_hold_release', 15 * MINUTE, async () => ({
+    released: await releaseExpiredWalletHolds(),
+  }));
+
+  // Session package units held the same way, and packages past their expiry date.
+  registerRecurringJob('session_package_hold_release', 15 * MINUTE, async () => ({
+    released: await releaseExpiredRedemptionHolds(),
+  }));
+  registerRecurringJob('session_package_expiry', HOUR, async () => ({
+    expired: await expireSessionPackages(),
+  }));
+
+  // Queues a run for each facility whose annual billing date has arrived.
+  registerRecurringJob('annual_billing_due', HOUR, async () => {
+    const facilityIds = await getFacilitiesDueForAnnualBilling();
+    const year = new Date().getFullYear();
+    for (const facilityId of facilityIds) {
+      await enqueueJob('annual_billing_run', { facilityId }, { dedupeKey: `annual_billing_run:${facilityId}:${year}` });
+    }
+    return { queued: facilityIds.length };
+  });
+
+  // runAnnualBilling skips members already charged this year, so a retry
+  // only picks up the rest.
+  registerJobHandler<{ facilityId: string }>('annual_billing_run', async ({ facilityId }) => {
+    const result = await runAnnualBilling(facilityId, null);
+    return { ...result };
+  }, { maxAttempts: 3 });
+
+  // Prorated billing for new members, due installments, and dunning retries.
+  registerRecurringJob('annual_fee_installments', HOUR, async () => processAnnualFeeInstallments());
+
+  // Last month's family statements, once each facility's month has closed locally.
+  registerRecurringJob('household_statements', HOUR, async () => ({
+    sent: await sendMonthlyStatements(),
+  }));
+
+  // One job per booking, so a failed send retries on its own.
+  registerRecurringJob('booking_reminder_scan', 5 * MINUTE, async () => {
+    const bookingIds = await findBookingsDueForReminder();
+    for (const bookingId of bookingIds) {
+      await enqueueJob('booking_reminder', { bookingId }, { dedupeKey: `booking_reminder:${bookingId}` });
+    }
+    return { queued: bookingIds.length };
+  });
+
+  registerJobHandler<{ bookingId: string }>('booking_reminder', async ({ bookingId }) => ({
+    ...(await sendBookingReminder(bookingId)),
+  }), { maxAttempts: 3 });
+
+  // Scheduled sends coming due, and each throttled batch of a send in progress.
+  registerJobHandler<{ orgId: string; campaignId: string; batch?: number; scheduledAt?: string }>(
+    'campaign_send',
+    async (payload) => runCampaignSendJob(payload)
+  );
+
+  // Queued by sendCampaign after a push send, once Expo has receipts.
+  registerJobHandler<{ campaignId: string }>('campaign_push_receipts', async ({ campaignId }) => ({
+    ...(await checkCampaignPushReceipts(campaignId)),
+  }), { maxAttempts: 3 });
+
+  registerRecurringJob('job_history_prune', DAY, async () => pruneJobHistory());
+}
@@ -8,10 +8,20 @@
  * A live pass makes the hourly fee $0 for that booking. resolveBallMachineCoverage()
  * is the single place that decision is made; bookingService pins the result onto
  * bookings.ball_machine_pass_id so post-play settlement can't re-charge later.
+ *
+ * Each club's machines are individually identified (migration 101). A booking that
+ * takes the machine reserves one specific machine and gets its own keypad code,
+ * valid from CODE_LEAD_MINUTES before the booking to CODE_GRACE_MINUTES after it.
+ * Maintenance windows take a machine out of service.
  */
 
+import { randomInt } from 'crypto';
 import { PoolClient } from 'pg';
-import { query } from '../database/connection';
+import { query, transaction } from '../database/connection';
+
+/** How early a reservation's code starts working, and how long it keeps working after. */
+export const CODE_LEAD_MINUTES = 15;
+export const CODE_GRACE_MINUTES = 15;
 
 /** Pass lengths a club may offer, matching the CHECK on ball_machine_pass_products. */
 export const PASS_DURATIONS_MONTHS = [1, 3, 6, 12] as const;
@@ -19,12 +29,57 @@ export type PassDurationMonths = (typeof PASS_DURATIONS_MONTHS)[number];
 
 export interface BallMachineConfig {
   facilityId: string;
-  accessCode: string | null;
-  machineCount: number;
   instructions: string | null;
   updatedAt: string | null;
 }
 
+export interface BallMachineUnit {
+  id: string;
+  facilityId: string;
+  name: string;
+  serialNumber: string | null;
+  notes: string | null;
+  isActive: boolean;
+  createdAt: string;
+}
+
+/** Out-of-service window. Times are facility-local wall clock, "YYYY-MM-DDTHH:MM". */
+export interface MaintenanceWindow {
+  id: string;
+  machineId: string;
+  machineName: string;
+  startsAt: string;
+  endsAt: string;
+  reason: string | null;
+  createdAt: string;
+}
+
+/** A machine held for one booking, with that booking's keypad code. */
+export interface MachineReservation {
+  id: string;
+  machineId: string;
+  machineName: string;
+  bookingId: string;
+  userId: string;
+  accessCode: string;
+  validFrom: string;
+  validUntil: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  courtName: string | null;
+}
+
+export interface MachineCalendarEntry extends MachineReservation {
+  memberName: string;
+}
+
+export interface MachineAvailability extends BallMachineUnit {
+  available: boolean;
+  /** Why an unavailable machine can't be had for the window. */
+  reason: 'reserved' | 'maintenance' | null;
+}
+
 export interface BallMachinePassProduct {
   id: string;
   facilityId: string;
@@ -71,15 +126,13 @@ const PASS_COLUMNS = `
 `;
 
 // ---------------------------------------------------------------------------
-// Config (access code + machine count)
+// Config (member-facing instructions)
 // ---------------------------------------------------------------------------
 
-/** Never returns null — a facility with no row yet behaves as "1 machine, no code set". */
+/** Never returns null — a facility with no row yet has no instructions. */
 export async function getConfig(facilityId: string): Promise<BallMachineConfig> {
   const result = await query(
     `SELECT facility_id AS "facilityId",
-            access_code AS "accessCode",
-            machine_count AS "machineCount",
             instructions,
             updated_at AS "updatedAt"
        FROM ball_machine_config
@@ -87,52 +140,147 @@ export async function getConfig(facilityId: string): Promise<BallMachineConfig>
     [facilityId]
   );
 
-  return (
-    result.rows[0] ?? {
-      facilityId,
-      accessCode: null,
-      machineCount: 1,
-      instructions: null,
-      updatedAt: null,
-    }
-  );
+  return result.rows[0] ?? { facilityId, instructions: null, updatedAt: null };
 }
 
 export async function upsertConfig(
   facilityId: string,
-  updates: { accessCode?: string | null; machineCount?: number; instructions?: string | null },
+  updates: { instructions?: string | null },
   adminUserId: string
 ): Promise<BallMachineConfig> {
   const current = await getConfig(facilityId);
-
-  const accessCode =
-    updates.accessCode === undefined ? current.accessCode : normalizeAccessCode(updates.accessCode);
-  const machineCount = updates.machineCount === undefined ? current.machineCount : updates.machineCount;
   const instructions =
     updates.instructions === undefined ? current.instructions : updates.instructions?.trim() || null;
 
-  if (!Number.isInteger(machineCount) || machineCount < 1) {
-    throw new Error('Machine count must be a whole number of at least 1');
-  }
-
   await query(
-    `INSERT INTO ball_machine_config (facility_id, access_code, machine_count, instructions, updated_at, updated_by)
-     VALUES ($1, $2, $3, $4, NOW(), $5)
+    `INSERT INTO ball_machine_config (facility_id, instructions, updated_at, updated_by)
+     VALUES ($1, $2, NOW(), $3)
      ON CONFLICT (facility_id)
-     DO UPDATE SET access_code = $2, machine_count = $3, instructions = $4, updated_at = NOW(), updated_by = $5`,
-    [facilityId, accessCode, machineCount, instructions, adminUserId]
+     DO UPDATE SET instructions = $2, updated_at = NOW(), updated_by = $3`,
+    [facilityId, instructions, adminUserId]
   );
 
   return getConfig(facilityId);
 }
 
-function normalizeAccessCode(code: string | null): string | null {
-  const trimmed = code?.trim();
+// ---------------------------------------------------------------------------
+// Machines
+// ---------------------------------------------------------------------------
+
+const MACHINE_COLUMNS = `
+  m.id,
+  m.facility_id   AS "facilityId",
+  m.name,
+  m.serial_number AS "serialNumber",
+  m.notes,
+  m.is_active     AS "isActive",
+  m.created_at    AS "createdAt"
+`;
+
+export async function listMachines(
+  facilityId: string,
+  options?: { activeOnly?: boolean }
+): Promise<BallMachineUnit[]> {
+  const result = await query(
+    `SELECT ${MACHINE_COLUMNS}
+       FROM ball_machines m
+      WHERE m.facility_id = $1
+        ${options?.activeOnly ? 'AND m.is_active = true' : ''}
+      ORDER BY m.is_active DESC, m.name`,
+    [facilityId]
+  );
+  return result.rows;
+}
+
+function normalizeMachineName(name: unknown): string {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed) throw new Error('Give the machine a name');
+  if (trimmed.length > 60) throw new Error('Machine name must be 60 characters or fewer');
+  return trimmed;
+}
+
+function optionalText(value: unknown, max: number, label: string): string | null {
+  const trimmed = typeof value === 'string' ? value.trim() : '';
   if (!trimmed) return null;
-  if (trimmed.length > 32) throw new Error('Access code must be 32 characters or fewer');
+  if (trimmed.length > max) throw new Error(`${label} must be ${max} characters or fewer`);
   return trimmed;
 }
 
+export async function createMachine(
+  facilityId: string,
+  input: { name: string; serialNumber?: string | null; notes?: string | null }
+): Promise<BallMachineUnit> {
+  const name = normalizeMachineName(input.name);
+  try {
+    const result = await query(
+      `INSERT INTO ball_machines (facility_id, name, serial_number, notes)
+       VALUES ($1, $2, $3, $4)
+       RETURNING ${MACHINE_COLUMNS.replace(/m\./g, '')}`,
+      [facilityId, name, optionalText(input.serialNumber, 60, 'Serial number'), optionalText(input.notes, 1000, 'Notes')]
+    );
+    return result.rows[0];
+  } catch (err: any) {
+    if (err.code === '23505') throw new Error(`There is already a machine called "${name}"`);
+    throw err;
+  }
+}
+
+/**
+ * Retiring a machine is refused while it still holds upcoming reservations — those
+ * members were promised that machine and its code.
+ */
+export async function updateMachine(
+  facilityId: string,
+  machineId: string,
+  updates: { name?: string; serialNumber?: string | null; notes?: string | null; isActive?: boolean }
+): Promise<BallMachineUnit> {
+  const existing = await query(
+    `SELECT ${MACHINE_COLUMNS} FROM ball_machines m WHERE m.id = $1 AND m.facility_id = $2`,
+    [machineId, facilityId]
+  );
+  const machine: BallMachineUnit | undefined = existing.rows[0];
+  if (!machine) throw new Error('Ball machine not found');
+
+  if (updates.isActive === false && machine.isActive) {
+    const upcoming = await query(
+      `SELECT COUNT(*)::int AS count
+         FROM ball_machine_reservations r
+         JOIN bookings b ON b.id = r.booking_id
+        WHERE r.machine_id = $1
+          AND b.status != 'cancelled'
+          AND b.booking_date >= CURRENT_DATE`,
+      [machineId]
+    );
+    const count = upcoming.rows[0]?.count ?? 0;
+    if (count > 0) {
+      throw new Error(
+        `${machine.name} has ${count} upcoming reservation${count === 1 ? '' : 's'}. ` +
+          'Schedule maintenance to move them to another machine first.'
+      );
+    }
+  }
+
+  const name = updates.name === undefined ? machine.name : normalizeMachineName(updates.name);
+  const serialNumber =
+    updates.serialNumber === undefined ? machine.serialNumber : optionalText(updates.serialNumber, 60, 'Serial number');
+  const notes = updates.notes === undefined ? machine.notes : optionalText(updates.notes, 1000, 'Notes');
+  const isActive = updates.isActive === undefined ? machine.isActive : updates.isActive === true;
+
+  try {
+    const result = await query(
+      `UPDATE ball_machines
+          SET name = $3, serial_number = $4, notes = $5, is_active = $6
+        WHERE id = $1 AND facility_id = $2
+        RETURNING ${MACHINE_COLUMNS.replace(/m\./g, '')}`,
+      [machineId, facilityId, name, serialNumber, notes, isActive]
+    );
+    return result.rows[0];
+  } catch (err: any) {
+    if (err.code === '23505') throw new Error(`There is already a machine called "${name}"`);
+    throw err;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Pass products (pricing)
 // ---------------------------------------------------------------------------
@@ -349,7 +497,7 @@ export async function revokePass(
 }
 
 // ---------------------------------------------------------------------------
-// Booking-time coverage + machine availability
+// Booking-time coverage
 // ---------------------------------------------------------------------------
 
 /**
@@ -367,92 +515,361 @@ export async function resolveBallMachineCoverage(
   return pass ? { covered: true, passId: pass.id } : { covered: false, passId: null };
 }
 
+// ---------------------------------------------------------------------------
+// Availability + reservations
+// ---------------------------------------------------------------------------
+
+type Runner = (text: string, values: any[]) => Promise<{ rows: any[] }>;
+
+function runnerFor(client?: PoolClient): Runner {
+  return client
+    ? (text, values) => client.query(text, values)
+    : (text, values) => query(text, values);
+}
+
 /**
- * How many other bookings already claim a machine in this window. The machine is a
- * club-wide resource, so this deliberately ignores court_id.
- *
- * Pass the transaction client when calling from inside createBooking so the count is
- * taken under the same lock that serializes the claim.
+ * SQL fragments for "machine m is busy during ($2 date, $3 start, $4 end)", ignoring
+ * booking $5 (the booking being replaced by an edit).
  */
-export async function countOverlappingMachineClaims(
-  params: {
-    facilityId: string;
-    bookingDate: string;
-    startTime: string;
-    endTime: string;
-    excludeBookingId?: string;
-  },
+const RESERVED_SQL = `EXISTS (
+  SELECT 1
+    FROM ball_machine_reservations r
+    JOIN bookings ob ON ob.id = r.booking_id
+   WHERE r.machine_id = m.id
+     AND ob.status != 'cancelled'
+     AND ob.booking_date = $2
+     AND ($5::uuid IS NULL OR ob.id != $5)
+     AND ob.start_time < $4::time
+     AND ob.end_time > $3::time
+)`;
+
+const MAINTENANCE_SQL = `EXISTS (
+  SELECT 1
+    FROM ball_machine_maintenance w
+   WHERE w.machine_id = m.id
+     AND w.starts_at < ($2::date + $4::time)
+     AND w.ends_at > ($2::date + $3::time)
+)`;
+
+export interface MachineWindowParams {
+  facilityId: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  excludeBookingId?: string;
+}
+
+function windowValues(params: MachineWindowParams): any[] {
+  return [
+    params.facilityId,
+    params.bookingDate,
+    params.startTime,
+    params.endTime,
+    params.excludeBookingId ?? null,
+  ];
+}
+
+/** Every active machine with whether it can be reserved for this window. */
+export async function getMachineAvailability(
+  params: MachineWindowParams,
   client?: PoolClient
-): Promise<number> {
-  const run = client
-    ? (text: string, values: any[]) => client.query(text, values)
-    : (text: string, values: any[]) => query(text, values);
-
-  const result = await run(
-    `SELECT COUNT(*)::int AS count
-       FROM bookings
-      WHERE facility_id = $1
-        AND booking_date = $2
-        AND add_ball_machine = true
-        AND status != 'cancelled'
-        AND ($5::uuid IS NULL OR id != $5)
-        AND start_time < $4::time
-        AND end_time > $3::time`,
+): Promise<MachineAvailability[]> {
+  const result = await runnerFor(client)(
+    `SELECT ${MACHINE_COLUMNS},
+            ${RESERVED_SQL} AS "reserved",
+            ${MAINTENANCE_SQL} AS "inMaintenance"
+       FROM ball_machines m
+      WHERE m.facility_id = $1 AND m.is_active = true
+      ORDER BY m.name`,
+    windowValues(params)
+  );
+
+  return result.rows.map(({ reserved, inMaintenance, ...machine }: any) => ({
+    ...machine,
+    available: !reserved && !inMaintenance,
+    reason: inMaintenance ? 'maintenance' : reserved ? 'reserved' : null,
+  }));
+}
+
+/**
+ * Takes the facility-wide lock that serializes concurrent machine claims. The court-row
+ * lock in createBooking only serializes per court, which isn't enough for shared machines.
+ */
+export async function lockMachines(facilityId: string, client: PoolClient): Promise<void> {
+  await client.query(
+    `SELECT id FROM ball_machines WHERE facility_id = $1 AND is_active = true FOR UPDATE`,
+    [facilityId]
+  );
+}
+
+export function generateAccessCode(): string {
+  return String(randomInt(0, 1_000_000)).padStart(6, '0');
+}
+
+const RESERVATION_COLUMNS = `
+  r.id,
+  r.machine_id        AS "machineId",
+  m.name              AS "machineName",
+  r.booking_id        AS "bookingId",
+  r.user_id           AS "userId",
+  r.access_code       AS "accessCode",
+  TO_CHAR(r.code_valid_from, 'YYYY-MM-DD"T"HH24:MI')  AS "validFrom",
+  TO_CHAR(r.code_valid_until, 'YYYY-MM-DD"T"HH24:MI') AS "validUntil",
+  TO_CHAR(b.booking_date, 'YYYY-MM-DD') AS "bookingDate",
+  b.start_time        AS "startTime",
+  b.end_time          AS "endTime",
+  c.name              AS "courtName"
+`;
+
+const RESERVATION_FROM = `
+  FROM ball_machine_reservations r
+  JOIN ball_machines m ON m.id = r.machine_id
+  JOIN bookings b ON b.id = r.booking_id
+  LEFT JOIN courts c ON c.id = b.court_id
+`;
+
+/**
+ * Holds a machine for a booking that was just inserted in the same transaction, and
+ * issues its code. Call lockMachines() first. Returns null when no machine (or not
+ * the requested one) is free for the window.
+ */
+export async function reserveMachine(
+  client: PoolClient,
+  params: MachineWindowParams & { bookingId: string; userId: string; machineId?: string | null }
+): Promise<MachineReservation | null> {
+  const machines = await getMachineAvailability(params, client);
+  const machine = params.machineId
+    ? machines.find((m) => m.id === params.machineId && m.available)
+    : machines.find((m) => m.available);
+  if (!machine) return null;
+
+  const inserted = await client.query(
+    `INSERT INTO ball_machine_reservations
+       (facility_id, machine_id, booking_id, user_id, access_code, code_valid_from, code_valid_until)
+     VALUES ($1, $2, $3, $4, $5,
+             ($6::date + $7::time) - make_interval(mins => $9),
+             ($6::date + $8::time) + make_interval(mins => $10))
+     RETURNING id`,
     [
       params.facilityId,
+      machine.id,
+      params.bookingId,
+      params.userId,
+      generateAccessCode(),
       params.bookingDate,
       params.startTime,
       params.endTime,
-      params.excludeBookingId ?? null,
+      CODE_LEAD_MINUTES,
+      CODE_GRACE_MINUTES,
     ]
   );
-  return result.rows[0]?.count ?? 0;
+
+  const result = await client.query(
+    `SELECT ${RESERVATION_COLUMNS} ${RESERVATION_FROM} WHERE r.id = $1`,
+    [inserted.rows[0].id]
+  );
+  return result.rows[0];
 }
 
-/**
- * Takes the facility-wide lock that serializes concurrent machine claims. The court-row
- * lock in createBooking only serializes per court, which isn't enough for a shared machine.
- */
-export async function lockMachineConfig(
+/** Facility-local "now" as a SQL expression over facilities f. */
+const LOCAL_NOW_SQL = `(NOW() AT TIME ZONE COALESCE(f.timezone, 'America/New_York'))`;
+
+/** The member's reservations whose code hasn't expired yet, soonest first. */
+export async function getMemberReservations(
   facilityId: string,
-  client: PoolClient
-): Promise<{ machineCount: number }> {
-  const result = await client.query(
-    `SELECT machine_count AS "machineCount"
-       FROM ball_machine_config
-      WHERE facility_id = $1
-      FOR UPDATE`,
-    [facilityId]
+  userId: string
+): Promise<MachineReservation[]> {
+  const result = await query(
+    `SELECT ${RESERVATION_COLUMNS}
+       ${RESERVATION_FROM}
+       JOIN facilities f ON f.id = r.facility_id
+      WHERE r.facility_id = $1
+        AND r.user_id = $2
+        AND b.status != 'cancelled'
+        AND r.code_valid_until > ${LOCAL_NOW_SQL}
+      ORDER BY r.code_valid_from`,
+    [facilityId, userId]
   );
+  return result.rows;
+}
 
-  // No config row yet: fall back to the default of a single machine. Nothing to lock,
-  // but the court-row lock still bounds the race to one court at a time.
-  return { machineCount: result.rows[0]?.machineCount ?? 1 };
+export async function getReservationForBooking(
+  facilityId: string,
+  userId: string,
+  bookingId: string
+): Promise<MachineReservation | null> {
+  const result = await query(
+    `SELECT ${RESERVATION_COLUMNS}
+       ${RESERVATION_FROM}
+      WHERE r.facility_id = $1 AND r.user_id = $2 AND r.booking_id = $3 AND b.status != 'cancelled'`,
+    [facilityId, userId, bookingId]
+  );
+  return result.rows[0] ?? null;
+}
+
+/** Issues a fresh code for one reservation, e.g. when a member has shared theirs. */
+export async function rotateAccessCode(
+  facilityId: string,
+  reservationId: string
+): Promise<MachineReservation | null> {
+  const updated = await query(
+    `UPDATE ball_machine_reservations
+        SET access_code = $3, code_rotated_at = NOW()
+      WHERE id = $1 AND facility_id = $2
+      RETURNING id`,
+    [reservationId, facilityId, generateAccessCode()]
+  );
+  if (updated.rows.length === 0) return null;
+
+  const result = await query(`SELECT ${RESERVATION_COLUMNS} ${RESERVATION_FROM} WHERE r.id = $1`, [
+    reservationId,
+  ]);
+  return result.rows[0];
+}
+
+/** Machines, their reservations and maintenance for one day — the admin usage calendar. */
+export async function getMachineCalendar(
+  facilityId: string,
+  date: string
+): Promise<{
+  machines: BallMachineUnit[];
+  reservations: MachineCalendarEntry[];
+  maintenance: MaintenanceWindow[];
+}> {
+  const [machines, reservations, maintenance] = await Promise.all([
+    listMachines(facilityId),
+    query(
+      `SELECT ${RESERVATION_COLUMNS}, u.full_name AS "memberName"
+         ${RESERVATION_FROM}
+         JOIN users u ON u.id = r.user_id
+        WHERE r.facility_id = $1
+          AND b.booking_date = $2
+          AND b.status != 'cancelled'
+        ORDER BY b.start_time, m.name`,
+      [facilityId, date]
+    ),
+    listMaintenanceWindows(facilityId, { from: `${date}T00:00`, to: `${date}T23:59` }),
+  ]);
+  return { machines, reservations: reservations.rows, maintenance };
 }
 
 // ---------------------------------------------------------------------------
-// Access code authorization
+// Maintenance windows
 // ---------------------------------------------------------------------------
 
+const LOCAL_DATETIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+
+const MAINTENANCE_COLUMNS = `
+  w.id,
+  w.machine_id AS "machineId",
+  m.name       AS "machineName",
+  TO_CHAR(w.starts_at, 'YYYY-MM-DD"T"HH24:MI') AS "startsAt",
+  TO_CHAR(w.ends_at, 'YYYY-MM-DD"T"HH24:MI')   AS "endsAt",
+  w.reason,
+  w.created_at AS "createdAt"
+`;
+
+/** Windows overlapping [from, to]; with no range, those that haven't ended yet. */
+export async function listMaintenanceWindows(
+  facilityId: string,
+  range?: { from?: string; to?: string }
+): Promise<MaintenanceWindow[]> {
+  const result = await query(
+    `SELECT ${MAINTENANCE_COLUMNS}
+       FROM ball_machine_maintenance w
+       JOIN ball_machines m ON m.id = w.machine_id
+       JOIN facilities f ON f.id = w.facility_id
+      WHERE w.facility_id = $1
+        AND w.ends_at > COALESCE($2::timestamp, ${LOCAL_NOW_SQL})
+        AND ($3::timestamp IS NULL OR w.starts_at < $3::timestamp)
+      ORDER BY w.starts_at`,
+    [facilityId, range?.from ?? null, range?.to ?? null]
+  );
+  return result.rows;
+}
+
 /**
- * A member may see the code if they hold a live pass, or if they have an upcoming or
- * recent booking on which they claimed the machine (which means they already paid,
- * or their pass covered it).
+ * Takes a machine out of service. Reservations already on it for that window are
+ * moved to another free machine (their code stays the same); any that can't be moved
+ * are returned so staff can contact those members.
  */
-export async function canViewAccessCode(facilityId: string, userId: string): Promise<boolean> {
-  const pass = await getActivePass(facilityId, userId);
-  if (pass) return true;
+export async function addMaintenanceWindow(
+  facilityId: string,
+  input: { machineId: string; startsAt: string; endsAt: string; reason?: string | null },
+  createdBy: string
+): Promise<{ window: MaintenanceWindow; moved: number; unresolved: MachineReservation[] }> {
+  if (!LOCAL_DATETIME.test(input.startsAt) || !LOCAL_DATETIME.test(input.endsAt)) {
+    throw new Error('Maintenance start and end must be YYYY-MM-DDTHH:MM');
+  }
+  if (input.endsAt <= input.startsAt) throw new Error('Maintenance must end after it starts');
+  const reason = optionalText(input.reason, 200, 'Reason');
+
+  return transaction(async (client) => {
+    const machine = await client.query(
+      `SELECT id FROM ball_machines WHERE id = $1 AND facility_id = $2`,
+      [input.machineId, facilityId]
+    );
+    if (machine.rows.length === 0) throw new Error('Ball machine not found');
+    await lockMachines(facilityId, client);
+
+    const inserted = await client.query(
+      `INSERT INTO ball_machine_maintenance (machine_id, facility_id, starts_at, ends_at, reason, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id`,
+      [input.machineId, facilityId, input.startsAt, input.endsAt, reason, createdBy]
+    );
+
+    const affected = await client.query(
+      `SELECT ${RESERVATION_COLUMNS}
+         ${RESERVATION_FROM}
+        WHERE r.machine_id = $1
+          AND b.status != 'cancelled'
+          AND (b.booking_date + b.start_time) < $3::timestamp
+          AND (b.booking_date + b.end_time) > $2::timestamp
+        ORDER BY b.booking_date, b.start_time`,
+      [input.machineId, input.startsAt, input.endsAt]
+    );
 
+    let moved = 0;
+    const unresolved: MachineReservation[] = [];
+    for (const reservation of affected.rows as MachineReservation[]) {
+      const candidates = await getMachineAvailability(
+        {
+          facilityId,
+          bookingDate: reservation.bookingDate,
+          startTime: reservation.startTime,
+          endTime: reservation.endTime,
+          excludeBookingId: reservation.bookingId,
+        },
+        client
+      );
+      const target = candidates.find((m) => m.available && m.id !== input.machineId);
+      if (!target) {
+        unresolved.push(reservation);
+        continue;
+      }
+      await client.query(`UPDATE ball_machine_reservations SET machine_id = $2 WHERE id = $1`, [
+        reservation.id,
+        target.id,
+      ]);
+      moved++;
+    }
+
+    const window = await client.query(
+      `SELECT ${MAINTENANCE_COLUMNS}
+         FROM ball_machine_maintenance w
+         JOIN ball_machines m ON m.id = w.machine_id
+        WHERE w.id = $1`,
+      [inserted.rows[0].id]
+    );
+    return { window: window.rows[0], moved, unresolved };
+  });
+}
+
+export async function deleteMaintenanceWindow(facilityId: string, windowId: string): Promise<boolean> {
   const result = await query(
-    `SELECT 1
-       FROM bookings
-      WHERE facility_id = $1
-        AND user_id = $2
-        AND add_ball_machine = true
-        AND status != 'cancelled'
-        AND booking_date BETWEEN (CURRENT_DATE - INTERVAL '1 day') AND (CURRENT_DATE + INTERVAL '30 days')
-      LIMIT 1`,
-    [facilityId, userId]
+    `DELETE FROM ball_machine_maintenance WHERE id = $1 AND facility_id = $2 RETURNING id`,
+    [windowId, facilityId]
   );
   return result.rows.length > 0;
 }
@@ -0,0 +1,267 @@
+/**
+ * Booking reminders — a push notification and email sent a member-chosen
+ * number of hours (user_preferences.booking_reminder_lead_hours) before each
+ * confirmed booking, so courts nobody is coming for get released instead of
+ * ending in a no-show strike.
+ *
+ * The booking_reminder_scan job finds bookings whose reminder point has
+ * passed and queues one booking_reminder job per booking; the job sends
+ * whichever channels haven't gone out yet, so a retry after a failed email
+ * doesn't repeat the push. Each reminder carries a token behind its
+ * confirm / release links. Releasing cancels the booking through
+ * cancelBooking with the late-cancel strike waived, and is allowed right up
+ * to the start time.
+ */
+
+import crypto from 'crypto';
+import { query } from '../database/connection';
+import { cancelBooking } from './bookingService';
+import { notificationService } from './notificationService';
+import { sendBookingReminderEmail } from './emailService';
+import { getFacilityLocalNow } from './rulesEngine/RuleContext';
+import { DEFAULT_BOOKING_REMINDER_LEAD_HOURS } from './userPreferencesService';
+import { to12HourTime } from '../../shared/utils/operatingHours';
+
+/** Thrown for caller mistakes; `status` is the HTTP status the route should return. */
+export class BookingReminderError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'BookingReminderError';
+  }
+}
+
+export type BookingReminderResponse = 'confirmed' | 'released';
+
+/** What the public reminder page shows; reachable by token alone, so no member details. */
+export interface BookingReminderView {
+  token: string;
+  facilityName: string;
+  courtName: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  bookingStatus: string;
+  response: BookingReminderResponse | null;
+  respondedAt: string | null;
+  /** The booking is still confirmed and hasn't started. */
+  canRelease: boolean;
+}
+
+const RELEASE_REASON = 'Released from booking reminder';
+
+function generateToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+function reminderUrl(token: string, action: 'confirm' | 'release'): string {
+  const appUrl = (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '');
+  return `${appUrl}/booking-reminder/${token}?action=${action}`;
+}
+
+/** Facility-local start of a booking, in the same local-components form as getFacilityLocalNow. */
+function bookingStart(bookingDate: string, startTime: string): Date {
+  const [year, month, day] = bookingDate.split('-').map(Number);
+  const [hour, minute] = startTime.split(':').map(Number);
+  return new Date(year, month - 1, day, hour, minute, 0);
+}
+
+/**
+ * Confirmed bookings whose reminder point (start minus the member's lead
+ * time) has passed and that haven't had a reminder yet. Bookings made inside
+ * the lead window are skipped — the confirmation they just got is reminder
+ * enough. created_at is session-local, so its age is measured against
+ * LOCALTIMESTAMP and added to the facility-local time left before start.
+ */
+export async function findBookingsDueForReminder(): Promise<string[]> {
+  const result = await query(
+    `SELECT b.id
+       FROM bookings b
+       JOIN facilities f ON f.id = b.facility_id
+       LEFT JOIN user_preferences up ON up.user_id = b.user_id
+       CROSS JOIN LATERAL (
+         SELECT (NOW() AT TIME ZONE COALESCE(f.timezone, 'America/New_York')) AS local_now,
+                make_interval(hours => COALESCE(up.booking_reminder_lead_hours, $1)) AS lead
+       ) t
+      WHERE b.status = 'confirmed'
+        AND b.booking_date BETWEEN t.local_now::date AND (t.local_now + t.lead)::date
+        AND (b.booking_date + b.start_time) > t.local_now
+        AND (b.booking_date + b.start_time) <= t.local_now + t.lead
+        AND ((b.booking_date + b.start_time) - t.local_now) + (LOCALTIMESTAMP - b.created_at) >= t.lead
+        AND (
+          (COALESCE(up.push_enabled, true) AND COALESCE(up.push_booking_reminders, true))
+          OR COALESCE(up.email_booking_reminders, true)
+        )
+        AND NOT EXISTS (SELECT 1 FROM booking_reminders r WHERE r.booking_id = b.id)
+      ORDER BY b.booking_date, b.start_time`,
+    [DEFAULT_BOOKING_REMINDER_LEAD_HOURS]
+  );
+  return result.rows.map((row) => row.id as string);
+}
+
+/**
+ * Send the reminder for one booking: the booking_reminder job handler.
+ * Throws when the email fails so the job retries; the push already sent is
+ * recorded and not repeated.
+ */
+export async function sendBookingReminder(bookingId: string): Promise<{ notified: boolean; emailed: boolean; skipped?: string }> {
+  const bookingResult = await query(
+    `SELECT b.id, b.user_id as "userId", b.facility_id as "facilityId", b.court_id as "courtId",
+            TO_CHAR(b.booking_date, 'YYYY-MM-DD') as "bookingDate",
+            b.start_time as "startTime", b.end_time as "endTime", b.status,
+            c.name as "courtName", f.name as "facilityName",
+            COALESCE(f.timezone, 'America/New_York') as timezone,
+            u.email, u.full_name as "fullName",
+            COALESCE(up.booking_reminder_lead_hours, $2) as "leadHours"
+       FROM bookings b
+       JOIN courts c ON c.id = b.court_id
+       JOIN facilities f ON f.id = b.facility_id
+       JOIN users u ON u.id = b.user_id
+       LEFT JOIN user_preferences up ON up.user_id = b.user_id
+      WHERE b.id = $1`,
+    [bookingId, DEFAULT_BOOKING_REMINDER_LEAD_HOURS]
+  );
+  const booking = bookingResult.rows[0];
+  if (!booking) return { notified: false, emailed: false, skipped: 'booking not found' };
+  if (booking.status !== 'confirmed') return { notified: false, emailed: false, skipped: `booking ${booking.status}` };
+
+  const start = bookingStart(booking.bookingDate, booking.startTime);
+  const msUntil = start.getTime() - getFacilityLocalNow(booking.timezone).getTime();
+  if (msUntil <= 0) return { notified: false, emailed: false, skipped: 'booking started' };
+
+  await query(
+    `INSERT INTO booking_reminders (booking_id, user_id, facility_id, token, lead_hours)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (booking_id) DO NOTHING`,
+    [bookingId, booking.userId, booking.facilityId, generateToken(), booking.leadHours]
+  );
+  const reminderResult = await query(
+    `SELECT id, token, notified_at as "notifiedAt", emailed_at as "emailedAt", response
+       FROM booking_reminders WHERE booking_id = $1`,
+    [bookingId]
+  );
+  const reminder = reminderResult.rows[0];
+  if (reminder.response) return { notified: false, emailed: false, skipped: `already ${reminder.response}` };
+
+  const hoursUntil = Math.max(1, Math.round(msUntil / 3600000));
+  let notified = false;
+  let emailed = false;
+
+  if (!reminder.notifiedAt) {
+    await notificationService.notifyBookingReminder(
+      booking.userId,
+      booking.facilityName,
+      booking.courtName,
+      start,
+      hoursUntil,
+      { bookingId, facilityId: booking.facilityId, bookingDate: booking.bookingDate, courtId: booking.courtId },
+      reminder.token
+    );
+    await query(`UPDATE booking_reminders SET notified_at = NOW() WHERE id = $1`, [reminder.id]);
+    notified = true;
+  }
+
+  if (!reminder.emailedAt && booking.email) {
+    const dateLabel = new Date(`${booking.bookingDate}T00:00:00`).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+    const sent = await sendBookingReminderEmail(
+      booking.email,
+      booking.fullName || 'there',
+      booking.facilityId,
+      booking.facilityName,
+      booking.courtName,
+      dateLabel,
+      to12HourTime(booking.startTime),
+      to12HourTime(booking.endTime),
+      hoursUntil,
+      reminderUrl(reminder.token, 'confirm'),
+      reminderUrl(reminder.token, 'release'),
+      booking.userId
+    );
+    if (!sent) {
+      throw new Error('Booking reminder email failed to send');
+    }
+    await query(`UPDATE booking_reminders SET emailed_at = NOW() WHERE id = $1`, [reminder.id]);
+    emailed = true;
+  }
+
+  return { notified, emailed };
+}
+
+async function loadReminder(token: string) {
+  const result = await query(
+    `SELECT r.id, r.token, r.booking_id as "bookingId", r.user_id as "userId",
+            r.response, r.responded_at as "respondedAt",
+            TO_CHAR(b.booking_date, 'YYYY-MM-DD') as "bookingDate",
+            b.start_time as "startTime", b.end_time as "endTime", b.status as "bookingStatus",
+            c.name as "courtName", f.name as "facilityName",
+            COALESCE(f.timezone, 'America/New_York') as timezone
+       FROM booking_reminders r
+       JOIN bookings b ON b.id = r.booking_id
+       JOIN courts c ON c.id = b.court_id
+       JOIN facilities f ON f.id = b.facility_id
+      WHERE r.token = $1`,
+    [token]
+  );
+  const row = result.rows[0];
+  if (!row) throw new BookingReminderError('Reminder not found', 404);
+  return row;
+}
+
+function hasStarted(row: { bookingDate: string; startTime: string; timezone: string }): boolean {
+  return bookingStart(row.bookingDate, row.startTime).getTime() <= getFacilityLocalNow(row.timezone).getTime();
+}
+
+function toView(row: Awaited<ReturnType<typeof loadReminder>>): BookingReminderView {
+  return {
+    token: row.token,
+    facilityName: row.facilityName,
+    courtName: row.courtName,
+    bookingDate: row.bookingDate,
+    startTime: row.startTime,
+    endTime: row.endTime,
+    bookingStatus: row.bookingStatus,
+    response: row.response,
+    respondedAt: row.respondedAt,
+    canRelease: row.bookingStatus === 'confirmed' && !hasStarted(row),
+  };
+}
+
+export async function getReminderByToken(token: string): Promise<BookingReminderView> {
+  return toView(await loadReminder(token));
+}
+
+/**
+ * Confirm the booking or release the court. Repeating the same answer is a
+ * no-op; a confirmed member can still release until the start time.
+ */
+export async function respondToReminder(token: string, action: 'confirm' | 'release'): Promise<BookingReminderView> {
+  const reminder = await loadReminder(token);
+  const response: BookingReminderResponse = action === 'confirm' ? 'confirmed' : 'released';
+
+  if (reminder.response === response) return toView(reminder);
+  if (reminder.response === 'released') {
+    throw new BookingReminderError('This court has already been released', 409);
+  }
+  if (reminder.bookingStatus !== 'confirmed') {
+    throw new BookingReminderError('This booking has already been cancelled', 409);
+  }
+
+  if (action === 'release') {
+    if (hasStarted(reminder)) {
+      throw new BookingReminderError('This booking has already started, so the court can no longer be released', 409);
+    }
+    const result = await cancelBooking(reminder.bookingId, reminder.userId, RELEASE_REASON, { waiveStrike: true });
+    if (!result.success) {
+      throw new BookingReminderError(result.error || 'Failed to release the court', 409);
+    }
+  }
+
+  await query(
+    `UPDATE booking_reminders SET response = $2, responded_at = NOW() WHERE id = $1`,
+    [reminder.id, response]
+  );
+  return getReminderByToken(token);
+}
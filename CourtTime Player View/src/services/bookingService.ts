@@ -13,7 +13,7 @@ import {
   resolveDailyHouseholdFromBookingRules,
   resolveWeeklyHouseholdFromBookingRules
 } from './rulesEngine/RuleContext';
-import type { FacilityRuleConfig } from './rulesEngine/types';
+import type { BookingGuest, FacilityRuleConfig } from './rulesEngine/types';
 import { sendStrikeIssuedEmail, sendLockoutEmail } from './emailService';
 import { notificationService } from './notificationService';
 import { buildTermsAcceptanceBookingBlocker } from './termsService';
@@ -25,7 +25,17 @@ import {
 } from './bookingSettlementService';
 import { FEATURE_FLAGS } from '../../shared/constants/featureFlags';
 import { isFeatureEnabled } from './featureFlagService';
-import { loadCourtPaymentSettings, computeBookingFeeTotalCents } from './courtPaymentSettings';
+import {
+  loadCourtPaymentSettings,
+  computeBookingFeeTotalCents,
+  billableGuestCount
+} from './courtPaymentSettings';
+import { parseBookingGuests, recordGuestVisits } from './guestRegistryService';
+import { isGuardianOf } from './dependentService';
+import { reverseWalletPayment } from './walletService';
+import { reverseRedemption } from './sessionPackageService';
+import { loadPricedCourtPaymentSettings } from './courtPricingService';
+import { publishBookingChange } from './realtimeService';
 
 /**
  * Serialize booking creates per user + facility so concurrent multi-court POSTs
@@ -375,6 +385,9 @@ export interface Booking {
   addBallMachine?: boolean;
   /** Non-null when a St. Marlow pass covered the machine, so no hourly fee applies. */
   ballMachinePassId?: string | null;
+  /** Machine reserved for this booking; only set on the result of createBooking. */
+  ballMachineId?: string;
+  ballMachineName?: string;
   paymentMode?: 'single_payer' | 'split';
   paymentDeadlineAt?: string | null;
   createdAt: string;
@@ -651,9 +664,13 @@ export type PendingCourtBookingPayload = {
   isPrimeTime?: boolean;
   bringGuest?: boolean;
   guestNames?: string[];
+  /** Named guests with optional emails, for the guest registry */
+  guests?: BookingGuest[];
   addBallMachine?: boolean;
   /** Set when a St. Marlow ball machine pass already covers the machine for this booking. */
   ballMachinePassId?: string | null;
+  /** Specific machine the member picked; any free machine when omitted. */
+  ballMachineId?: string | null;
 };
 
 function sameMemberId(a: string | null | undefined, b: string | null | undefined): boolean {
@@ -704,12 +721,14 @@ export function parsePendingCourtBooking(raw: unknown): PendingCourtBookingPaylo
       : Array.isArray(r.guest_names)
         ? (r.guest_names as unknown[]).map(String)
         : undefined,
+    guests: Array.isArray(r.guests) ? parseBookingGuests(r.guests) : undefined,
     addBallMachine: r.addBallMachine === true || r.add_ball_machine === true,
     ballMachinePassId: r.ballMachinePassId
       ? String(r.ballMachinePassId)
       : r.ball_machine_pass_id
         ? String(r.ball_machine_pass_id)
         : null,
+    ballMachineId: r.ballMachineId ? String(r.ballMachineId) : null,
   };
 }
 
@@ -754,6 +773,8 @@ export async function validateBooking(bookingData: {
   provisionalSameRequestBookings?: ProvisionalBookingSlice[];
   /** Booking being replaced (edit); excluded from conflict/quota checks */
   excludeBookingId?: string;
+  /** Guests on the booking, checked against ACC-012 / ACC-013 */
+  guests?: BookingGuest[];
 }): Promise<EvaluationResult> {
   const termsBlocker = await buildTermsAcceptanceBookingBlocker(
     bookingData.userId,
@@ -834,6 +855,7 @@ export async function validateBooking(bookingData: {
     activityType: bookingData.activityType,
     provisionalSameRequestBookings: bookingData.provisionalSameRequestBookings,
     excludeBookingId: bookingData.excludeBookingId,
+    guests: bookingData.guests,
   };
 
   return rulesEngine.validate(request);
@@ -859,9 +881,13 @@ export async function createBooking(bookingData: {
   skipPaymentCheck?: boolean; // After Stripe payment or admin override
   bringGuest?: boolean;
   guestNames?: string[];
+  /** Named guests with optional emails; falls back to guestNames when omitted. */
+  guests?: BookingGuest[];
   addBallMachine?: boolean;
   /** Pre-resolved pass coverage; set when finalizing a booking after Stripe checkout. */
   ballMachinePassId?: string | null;
+  /** Specific ball machine to reserve; any free machine when omitted. */
+  ballMachineId?: string | null;
   provisionalSameRequestBookings?: ProvisionalBookingSlice[];
   successUrl?: string;
   cancelUrl?: string;
@@ -874,9 +900,11 @@ export async function createBooking(bookingData: {
   /** University Club Guest Fee: skip Stripe and defer the whole total to the front desk. Re-verified server-side. */
   payAtFrontDesk?: boolean;
 }): Promise<BookingResult> {
-  return enqueueBookingCreation(bookingData.userId, bookingData.facilityId, () =>
+  const result = await enqueueBookingCreation(bookingData.userId, bookingData.facilityId, () =>
     createBookingCore(bookingData)
   );
+  if (result.success && result.booking) publishBookingChange('booking.created', result.booking);
+  return result;
 }
 
 async function createBookingCore(bookingData: {
@@ -896,9 +924,13 @@ async function createBookingCore(bookingData: {
   skipPaymentCheck?: boolean;
   bringGuest?: boolean;
   guestNames?: string[];
+  /** Named guests with optional emails; falls back to guestNames when omitted. */
+  guests?: BookingGuest[];
   addBallMachine?: boolean;
   /** Pre-resolved pass coverage; set when finalizing a booking after Stripe checkout. */
   ballMachinePassId?: string | null;
+  /** Specific ball machine to reserve; any free machine when omitted. */
+  ballMachineId?: string | null;
   provisionalSameRequestBookings?: ProvisionalBookingSlice[];
   successUrl?: string;
   cancelUrl?: string;
@@ -909,6 +941,11 @@ async function createBookingCore(bookingData: {
   payAtFrontDesk?: boolean;
 }): Promise<BookingResult> {
   try {
+    // A ball machine session is a court booking that always takes a machine.
+    if (bookingData.bookingType === 'ball_machine') {
+      bookingData.addBallMachine = true;
+    }
+
     // Only honor excludeBookingId when it is an active booking owned by this user
     // at this facility (prevents using another member's id to bypass conflicts).
     if (bookingData.excludeBookingId) {
@@ -960,6 +997,22 @@ async function createBookingCore(bookingData: {
       };
     }
 
+    // Each named guest is registered, rule-checked and billed the per-guest fee
+    const guests = bookingData.bringGuest
+      ? bookingData.guests?.length
+        ? bookingData.guests
+        : parseBookingGuests(undefined, bookingData.guestNames)
+      : [];
+    // An unnamed guest would be billed but skip the guest limits and the visit log
+    if (bookingData.bringGuest && guests.length === 0) {
+      return {
+        success: false,
+        error: 'Enter a name for each guest you are bringing.'
+      };
+    }
+    const guestNames = guests.length > 0 ? guests.map((g) => g.name) : bookingData.guestNames;
+    const guestCount = billableGuestCount(bookingData.bringGuest, guests);
+
     // Declared here so both the rules block and payment block can access them
     let isPrimeTime = false;
     let warnings: RuleResult[] = [];
@@ -978,6 +1031,7 @@ async function createBookingCore(bookingData: {
         activityType: bookingData.activityType,
         provisionalSameRequestBookings: bookingData.provisionalSameRequestBookings,
         excludeBookingId: bookingData.excludeBookingId,
+        guests,
       });
 
       if (!evaluation.allowed) {
@@ -1022,7 +1076,12 @@ async function createBookingCore(bookingData: {
       // total at the front desk instead. Only honored when a guest fee actually
       // applies and the facility has opted in — never trust the client alone.
       if (bookingData.payAtFrontDesk) {
-        const courtRow = await loadCourtPaymentSettings(bookingData.courtId);
+        const courtRow = await loadPricedCourtPaymentSettings(bookingData.courtId, {
+          userId: bookingData.userId,
+          bookingDate: bookingData.bookingDate,
+          startTime: bookingData.startTime,
+          endTime: bookingData.endTime,
+        });
         const hasGuestFee = Boolean(bookingData.bringGuest && courtRow?.guest_fee_cents);
         const frontDeskEnabled =
           hasGuestFee &&
@@ -1034,6 +1093,7 @@ async function createBookingCore(bookingData: {
           frontDeskAmountDueCents = computeBookingFeeTotalCents(courtRow, {
             durationMinutes: bookingData.durationMinutes,
             bringGuest: true,
+            guestCount,
             addBallMachine: bookingData.addBallMachine && !ballMachinePassId,
           });
         }
@@ -1045,6 +1105,12 @@ async function createBookingCore(bookingData: {
       const postPlay = await shouldUsePostPlaySettlement(
         bookingData.facilityId,
         bookingData.courtId,
+        {
+          userId: bookingData.userId,
+          bookingDate: bookingData.bookingDate,
+          startTime: bookingData.startTime,
+          endTime: bookingData.endTime,
+        },
         {
           bringGuest: bookingData.bringGuest,
           // Covered by a pass ⇒ contributes $0, so it must not force a checkout.
@@ -1081,7 +1147,7 @@ async function createBookingCore(bookingData: {
           (process.env.NODE_ENV !== 'production'
             ? process.env.DEV_APP_URL || 'http://localhost:5173'
             : process.env.APP_URL || 'http://localhost:5173');
-        const { url } = await createCourtBookingCheckoutSession({
+        const checkout = await createCourtBookingCheckoutSession({
           memberId: bookingData.userId,
           pendingBooking: {
             courtId: bookingData.courtId,
@@ -1097,19 +1163,25 @@ async function createBookingCore(bookingData: {
             notes: bookingData.notes,
             isPrimeTime: isPrimeTime || false,
             bringGuest: bookingData.bringGuest || false,
-            guestNames: bookingData.guestNames,
+            guestNames,
+            guests,
             addBallMachine: bookingData.addBallMachine || false,
             ballMachinePassId,
+            ballMachineId: bookingData.ballMachineId ?? null,
           },
           successUrl:
             bookingData.successUrl ||
             `${base}/calendar?bookingPaymentSuccess=1&session_id={CHECKOUT_SESSION_ID}`,
           cancelUrl: bookingData.cancelUrl || `${base}/calendar?bookingPaymentCancelled=1`,
         });
+        if (checkout.paidInFull) {
+          const paid = await bookingPaidInFull(checkout.paymentId, bookingData.userId);
+          return { ...paid, warnings: warnings || [], isPrimeTime: isPrimeTime || false };
+        }
         return {
           success: true,
           requiresPayment: true,
-          checkoutUrl: url,
+          checkoutUrl: checkout.url,
           warnings: warnings || [],
           isPrimeTime: isPrimeTime || false,
         };
@@ -1117,6 +1189,10 @@ async function createBookingCore(bookingData: {
       }
     }
 
+    const guestFeeCents = guests.length > 0
+      ? Number((await loadCourtPaymentSettings(bookingData.courtId))?.guest_fee_cents ?? 0)
+      : 0;
+
     // Atomically check conflicts and insert to prevent double-booking under concurrency.
     // The FOR UPDATE lock on the court row serializes concurrent booking attempts for the same court.
     let newBooking: any;
@@ -1150,33 +1226,21 @@ async function createBookingCore(bookingData: {
           throw Object.assign(new Error('Time slot is already booked'), { code: 'BOOKING_CONFLICT' });
         }
 
-        // The ball machine is a club-wide resource, so the court lock above doesn't
-        // serialize claims on it — take the config row lock too, then count overlaps.
-        if (bookingData.addBallMachine) {
-          const { countOverlappingMachineClaims, lockMachineConfig } = await import(
-            './ballMachineService'
+        // A cancellation that was just offered to a waitlisted member is theirs
+        // until the claim window closes.
+        const { isSlotHeldForAnotherMember } = await import('./courtWaitlistService');
+        if (await isSlotHeldForAnotherMember(client, bookingData)) {
+          throw Object.assign(
+            new Error('This slot is being held for a waitlisted member'),
+            { code: 'BOOKING_CONFLICT' }
           );
-          const { machineCount } = await lockMachineConfig(bookingData.facilityId, client);
-          const claimed = await countOverlappingMachineClaims(
-            {
-              facilityId: bookingData.facilityId,
-              bookingDate: bookingData.bookingDate,
-              startTime: bookingData.startTime,
-              endTime: bookingData.endTime,
-              excludeBookingId: bookingData.excludeBookingId,
-            },
-            client
-          );
-          if (claimed >= machineCount) {
-            throw Object.assign(
-              new Error(
-                machineCount === 1
-                  ? 'The ball machine is already reserved for that time.'
-                  : `All ${machineCount} ball machines are already reserved for that time.`
-              ),
-              { code: 'BOOKING_CONFLICT' }
-            );
-          }
+        }
+
+        // Ball machines are shared across courts, so the court lock above doesn't
+        // serialize claims on them — lock the club's machines until this commits.
+        if (bookingData.addBallMachine) {
+          const { lockMachines } = await import('./ballMachineService');
+          await lockMachines(bookingData.facilityId, client);
         }
 
         const splitAvailability = await client.query(
@@ -1286,9 +1350,46 @@ async function createBookingCore(bookingData: {
             paymentMode,
             bookingData.paymentDeadlineAt || null,
             frontDeskAmountDueCents,
-            bookingData.bringGuest && bookingData.guestNames?.length ? bookingData.guestNames : null,
+            bookingData.bringGuest && guestNames?.length ? guestNames : null,
           ]
         );
+
+        if (bookingData.addBallMachine) {
+          const { reserveMachine } = await import('./ballMachineService');
+          const reservation = await reserveMachine(client, {
+            facilityId: bookingData.facilityId,
+            bookingId: ins.rows[0].id,
+            userId: bookingData.userId,
+            bookingDate: bookingData.bookingDate,
+            startTime: bookingData.startTime,
+            endTime: bookingData.endTime,
+            excludeBookingId: bookingData.excludeBookingId,
+            machineId: bookingData.ballMachineId,
+          });
+          if (!reservation) {
+            throw Object.assign(
+              new Error(
+                bookingData.ballMachineId
+                  ? 'That ball machine is already reserved or out of service for that time.'
+                  : 'No ball machine is free for that time.'
+              ),
+              { code: 'BOOKING_CONFLICT' }
+            );
+          }
+          ins.rows[0].ballMachineId = reservation.machineId;
+          ins.rows[0].ballMachineName = reservation.machineName;
+        }
+
+        if (guests.length > 0) {
+          await recordGuestVisits(client, {
+            facilityId: bookingData.facilityId,
+            hostUserId: bookingData.userId,
+            bookingId: ins.rows[0].id,
+            visitDate: bookingData.bookingDate,
+            guests,
+            feeCentsPerGuest: guestFeeCents,
+          });
+        }
         return ins.rows[0];
       });
     } catch (txErr: any) {
@@ -1317,6 +1418,30 @@ async function createBookingCore(bookingData: {
   }
 }
 
+/**
+ * Account credit or a session package paid the whole booking, so there is no
+ * Checkout to come back from: hand back the reservation now, or return the
+ * credit and package units if it couldn't be made.
+ */
+async function bookingPaidInFull(connectPaymentId: string, memberId: string): Promise<BookingResult> {
+  try {
+    const finalized = await finalizeBookingAfterPayment({ connectPaymentId, memberId });
+    const booking = finalized ? await getBookingById(finalized.bookingId) : null;
+    if (booking) {
+      return { success: true, booking };
+    }
+  } catch (err) {
+    console.error('Court booking paid from account credit could not be created:', err);
+  }
+  await reverseWalletPayment('connect_payment', connectPaymentId, 'Booking could not be made – credit returned');
+  await reverseRedemption(connectPaymentId, 'Booking could not be made – units returned');
+  await query(`UPDATE connect_payments SET status = 'REFUNDED' WHERE id = $1`, [connectPaymentId]);
+  return {
+    success: false,
+    error: 'The court could not be booked. Any account credit or package time used has been returned.',
+  };
+}
+
 /**
  * Create a court booking after Stripe Connect checkout completes.
  */
@@ -1455,9 +1580,13 @@ export type RecurringSeriesResult = BookingResult & {
 export async function createRecurringBookingSeries(
   payload: RecurringSeriesRequest
 ): Promise<RecurringSeriesResult> {
-  return enqueueBookingCreation(payload.userId, payload.facilityId, () =>
+  const result = await enqueueBookingCreation(payload.userId, payload.facilityId, () =>
     createRecurringBookingSeriesCore(payload)
   );
+  for (const booking of result.success ? result.bookings ?? [] : []) {
+    publishBookingChange('booking.created', booking);
+  }
+  return result;
 }
 
 async function createRecurringBookingSeriesCore(
@@ -1818,6 +1947,8 @@ export async function createBookingWithOverride(
       ]
     );
 
+    publishBookingChange('booking.created', result.rows[0]);
+
     return {
       success: true,
       booking: result.rows[0],
@@ -1845,12 +1976,15 @@ export interface CancellationResult {
 }
 
 /**
- * Cancel a booking with rule evaluation
+ * Cancel a booking with rule evaluation. `waiveStrike` still records a late
+ * cancellation but never issues its strike — used when a member releases the
+ * court from their booking reminder.
  */
 export async function cancelBooking(
   bookingId: string,
   userId: string,
-  reason?: string
+  reason?: string,
+  options: { waiveStrike?: boolean } = {}
 ): Promise<CancellationResult> {
   try {
     // Get booking details first
@@ -1858,6 +1992,7 @@ export async function cancelBooking(
       `SELECT
         b.id,
         b.facility_id as "facilityId",
+        b.court_id as "courtId",
         TO_CHAR(b.booking_date, 'YYYY-MM-DD') as "bookingDate",
         b.start_time as "startTime",
         b.end_time as "endTime",
@@ -1888,7 +2023,8 @@ export async function cancelBooking(
     }
 
     const booking = bookingResult.rows[0];
-    const isOwner = booking.userId === userId;
+    // A parent cancels a dependent's booking as its owner
+    const isOwner = booking.userId === userId || await isGuardianOf(userId, booking.userId);
     // Checks the facility_admins table (invited admins) as well as the
     // facility_memberships.is_facility_admin flag and platform super-admin
     // status — matching ensureFacilityAdmin's broader definition. A check
@@ -1931,6 +2067,8 @@ export async function cancelBooking(
       const { notifySplitBookingCancelled } = await import('./splitCourtPaymentService');
       const { failed } = await refundSplitPaymentShares(bookingId);
       await notifySplitBookingCancelled(bookingId, 'cancelled', true);
+      publishBookingChange('booking.cancelled', booking);
+      offerCancelledSlotToWaitlist(booking);
       return {
         success: true,
         message: failed > 0 ? 'Cancelled; some refunds need manual follow-up' : undefined,
@@ -1990,8 +2128,9 @@ export async function cancelBooking(
     );
 
     // Issue strike if late cancel
+    const strikeWillBeIssued = cancellationEval.strikeWillBeIssued && !options.waiveStrike;
     let strikeId: string | undefined;
-    if (cancellationEval.strikeWillBeIssued) {
+    if (strikeWillBeIssued) {
       strikeId = await issueStrike(
         booking.userId,
         booking.facilityId,
@@ -2011,10 +2150,13 @@ export async function cancelBooking(
       }
     }
 
+    publishBookingChange('booking.cancelled', booking);
+    offerCancelledSlotToWaitlist(booking);
+
     return {
       success: true,
       isLateCancel: cancellationEval.isLateCancel,
-      strikeIssued: cancellationEval.strikeWillBeIssued,
+      strikeIssued: strikeWillBeIssued,
       message: cancellationEval.message
     };
   } catch (error) {
@@ -2026,6 +2168,22 @@ export async function cancelBooking(
   }
 }
 
+/**
+ * Hand a just-cancelled window to the court waitlist. Fire-and-forget: the
+ * cancellation has already succeeded and offer delivery shouldn't delay it.
+ */
+function offerCancelledSlotToWaitlist(booking: {
+  facilityId: string;
+  courtId: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+}): void {
+  import('./courtWaitlistService')
+    .then(({ offerFreedSlot }) => offerFreedSlot(booking))
+    .catch((error) => console.error('Court waitlist offer after cancellation failed:', error));
+}
+
 /**
  * Get booking by ID
  */
@@ -1,8 +1,11 @@
 import { query, transaction } from '../database/connection';
 import { FEATURE_FLAGS } from '../../shared/constants/featureFlags';
 import { isFeatureEnabled } from './featureFlagService';
-import { courtBookingNeedsPayment, loadCourtPaymentSettings } from './courtPaymentSettings';
+import { billableGuestCount, courtBookingNeedsPayment } from './courtPaymentSettings';
+import { loadPricedCourtPaymentSettings, type CourtPricingSlot } from './courtPricingService';
 import { getStripe } from './stripeConnectService';
+import { hasUsableCard, missingCardMessage, recordHouseholdCharge, resolveBillingCard } from './householdBillingService';
+import { isWalletEnabled, payFromWallet, reverseWalletPayment } from './walletService';
 
 export type SettlementStatus =
   | 'not_applicable'
@@ -228,6 +231,8 @@ function computeSettlementAmounts(params: {
   ballMachineFeeCents: number | null;
   durationMinutes: number;
   bringGuest: boolean;
+  /** Guests billed the per-guest fee (see billableGuestCount) */
+  guestCount: number;
   addBallMachine: boolean;
   /** A St. Marlow pass already paid for the machine — the hourly fee must not apply. */
   ballMachineCoveredByPass: boolean;
@@ -244,7 +249,9 @@ function computeSettlementAmounts(params: {
       ? Math.round(Number(params.bookingAmountCents) * hours)
       : 0;
   const guestFeeCents =
-    params.bringGuest && params.guestFeeCents ? Number(params.guestFeeCents) : 0;
+    params.bringGuest && params.guestFeeCents
+      ? Number(params.guestFeeCents) * Math.max(1, params.guestCount)
+      : 0;
   const ballMachineFeeCents =
     params.addBallMachine && params.ballMachineFeeCents && !params.ballMachineCoveredByPass
       ? Math.round(Number(params.ballMachineFeeCents) * hours)
@@ -291,9 +298,13 @@ export async function previewSettlement(
        b.user_id AS "ownerId",
        b.facility_id AS "facilityId",
        b.court_id AS "courtId",
+       TO_CHAR(b.booking_date, 'YYYY-MM-DD') AS "bookingDate",
+       b.start_time AS "startTime",
+       b.end_time AS "endTime",
        b.duration_minutes AS "durationMinutes",
        b.settlement_status AS "settlementStatus",
        COALESCE(b.bring_guest, false) AS "bringGuest",
+       b.guest_names AS "guestNames",
        COALESCE(b.add_ball_machine, false) AS "addBallMachine",
        b.ball_machine_pass_id AS "ballMachinePassId",
        b.status
@@ -312,7 +323,12 @@ export async function previewSettlement(
     throw new Error('No participants on this reservation');
   }
 
-  const court = await loadCourtPaymentSettings(booking.courtId);
+  const court = await loadPricedCourtPaymentSettings(booking.courtId, {
+    userId: booking.ownerId,
+    bookingDate: booking.bookingDate,
+    startTime: booking.startTime,
+    endTime: booking.endTime,
+  });
   const computed = computeSettlementAmounts({
     ownerId: booking.ownerId,
     participantIds: participants.map((p) => p.userId),
@@ -322,6 +338,7 @@ export async function previewSettlement(
     ballMachineFeeCents: court?.ball_machine_fee_cents ?? null,
     durationMinutes: Number(booking.durationMinutes) || 60,
     bringGuest: booking.bringGuest === true,
+    guestCount: billableGuestCount(booking.bringGuest === true, booking.guestNames),
     addBallMachine: booking.addBallMachine === true,
     ballMachineCoveredByPass: Boolean(booking.ballMachinePassId),
   });
@@ -409,6 +426,38 @@ async function refreshBookingSettlementStatus(bookingId: string, settledBy?: str
   return 'settling';
 }
 
+/**
+ * Spends the participant's account credit on their close-out line before the
+ * card is charged. The charge row is created up front so the wallet entry has
+ * something to point at. Returns the row id and cents applied.
+ */
+async function applyCreditToSettlementLine(
+  bookingId: string,
+  facilityId: string,
+  line: { userId: string; amountCents: number },
+  bookingDate: string
+): Promise<{ chargeId: string | null; walletCents: number }> {
+  if (!(await isWalletEnabled(facilityId))) return { chargeId: null, walletCents: 0 };
+  const row = await query(
+    `INSERT INTO booking_settlement_charges (booking_id, user_id, amount_cents, status, updated_at)
+     VALUES ($1, $2, $3, 'pending', NOW())
+     ON CONFLICT (booking_id, user_id) DO UPDATE
+       SET amount_cents = $3, wallet_applied_cents = 0, updated_at = NOW()
+     RETURNING id`,
+    [bookingId, line.userId, line.amountCents]
+  );
+  const chargeId: string = row.rows[0].id;
+  const walletCents = await payFromWallet({
+    facilityId,
+    userId: line.userId,
+    amountCents: line.amountCents,
+    description: `Court reservation on ${bookingDate}`,
+    referenceType: 'settlement_charge',
+    referenceId: chargeId,
+  });
+  return { chargeId, walletCents };
+}
+
 export async function closeOutBooking(params: {
   bookingId: string;
   actorUserId: string;
@@ -438,10 +487,13 @@ export async function closeOutBooking(params: {
   }
 
   const bookingMeta = await query(
-    `SELECT facility_id AS "facilityId", court_id AS "courtId" FROM bookings WHERE id = $1`,
+    `SELECT facility_id AS "facilityId", court_id AS "courtId",
+            TO_CHAR(booking_date, 'YYYY-MM-DD') AS "bookingDate"
+     FROM bookings WHERE id = $1`,
     [params.bookingId]
   );
   const facilityId = bookingMeta.rows[0].facilityId;
+  const bookingDate = bookingMeta.rows[0].bookingDate as string;
 
   const facility = await query(
     `SELECT stripe_account_id, stripe_onboarded, platform_fee_percent
@@ -483,29 +535,41 @@ export async function closeOutBooking(params: {
       continue;
     }
 
-    const member = await query(
-      `SELECT stripe_customer_id, stripe_default_payment_method_id, card_last4
-       FROM facility_memberships
-       WHERE user_id = $1 AND facility_id = $2`,
-      [line.userId, facilityId]
-    );
-    const m = member.rows[0];
-    const hasCard =
-      !!m?.stripe_customer_id &&
-      !!m?.stripe_default_payment_method_id &&
-      !!m?.card_last4;
+    // Account credit first; the card covers whatever is left
+    const credit = await applyCreditToSettlementLine(params.bookingId, facilityId, line, bookingDate);
+    const cardCents = line.amountCents - credit.walletCents;
+    const returnCredit = async () => {
+      if (credit.chargeId && credit.walletCents > 0) {
+        await reverseWalletPayment('settlement_charge', credit.chargeId, 'Card charge failed – credit returned');
+      }
+    };
+    if (cardCents === 0) {
+      await query(
+        `UPDATE booking_settlement_charges
+            SET status = 'charged', stripe_payment_intent_id = NULL, wallet_applied_cents = $2,
+                error_message = NULL, resolved_by = $3, resolved_at = NOW(), updated_at = NOW()
+          WHERE id = $1`,
+        [credit.chargeId, credit.walletCents, params.actorUserId]
+      );
+      continue;
+    }
+
+    // A household payer's card covers the member's share when one is set
+    const card = await resolveBillingCard(facilityId, line.userId);
+    const hasCard = hasUsableCard(card);
 
     if (!hasCard || !stripe || !stripeAccountId || !stripeOnboarded) {
       const err = !hasCard
-        ? 'No saved card on file'
+        ? missingCardMessage(card)
         : 'Stripe is not configured for this facility';
+      await returnCredit();
       await query(
         `INSERT INTO booking_settlement_charges
            (booking_id, user_id, amount_cents, status, error_message, updated_at)
          VALUES ($1, $2, $3, 'failed', $4, NOW())
          ON CONFLICT (booking_id, user_id) DO UPDATE
            SET amount_cents = $3, status = 'failed', error_message = $4,
-               stripe_payment_intent_id = NULL, updated_at = NOW()
+               stripe_payment_intent_id = NULL, wallet_applied_cents = 0, updated_at = NOW()
            WHERE booking_settlement_charges.status NOT IN ('charged', 'cash', 'waived')`,
         [params.bookingId, line.userId, line.amountCents, err]
       );
@@ -514,16 +578,17 @@ export async function closeOutBooking(params: {
 
     const platformFeeCents = Math.max(
       0,
-      Math.round((line.amountCents * platformFeePercent) / 100)
+      Math.round((cardCents * platformFeePercent) / 100)
     );
 
+    let chargedIntentId: string | null = null;
     try {
       const pi = await stripe.paymentIntents.create(
         {
-          amount: line.amountCents,
+          amount: cardCents,
           currency: 'usd',
-          customer: m.stripe_customer_id,
-          payment_method: m.stripe_default_payment_method_id,
+          customer: card.stripeCustomerId!,
+          payment_method: card.paymentMethodId!,
           off_session: true,
           confirm: true,
           application_fee_amount: platformFeeCents > 0 ? platformFeeCents : undefined,
@@ -540,26 +605,48 @@ export async function closeOutBooking(params: {
       await query(
         `INSERT INTO booking_settlement_charges
            (booking_id, user_id, amount_cents, status, stripe_payment_intent_id,
-            resolved_by, resolved_at, updated_at)
-         VALUES ($1, $2, $3, 'charged', $4, $5, NOW(), NOW())
+            resolved_by, resolved_at, updated_at, wallet_applied_cents)
+         VALUES ($1, $2, $3, 'charged', $4, $5, NOW(), NOW(), $6)
          ON CONFLICT (booking_id, user_id) DO UPDATE
            SET amount_cents = $3, status = 'charged', stripe_payment_intent_id = $4,
-               error_message = NULL, resolved_by = $5, resolved_at = NOW(), updated_at = NOW()`,
-        [params.bookingId, line.userId, line.amountCents, pi.id, params.actorUserId]
+               error_message = NULL, resolved_by = $5, resolved_at = NOW(), updated_at = NOW(),
+               wallet_applied_cents = $6`,
+        [params.bookingId, line.userId, line.amountCents, pi.id, params.actorUserId, credit.walletCents]
       );
+      chargedIntentId = pi.id;
     } catch (err: any) {
       const message = err?.message ?? 'Stripe charge failed';
+      await returnCredit();
       await query(
         `INSERT INTO booking_settlement_charges
            (booking_id, user_id, amount_cents, status, error_message, updated_at)
          VALUES ($1, $2, $3, 'failed', $4, NOW())
          ON CONFLICT (booking_id, user_id) DO UPDATE
            SET amount_cents = $3, status = 'failed', error_message = $4,
-               stripe_payment_intent_id = NULL, updated_at = NOW()
+               stripe_payment_intent_id = NULL, wallet_applied_cents = 0, updated_at = NOW()
            WHERE booking_settlement_charges.status NOT IN ('charged', 'cash', 'waived')`,
         [params.bookingId, line.userId, line.amountCents, message]
       );
     }
+
+    if (chargedIntentId) {
+      // The owner's line carries the booking's guest fees; list them separately on the
+      // statement. Only the card portion is the payer's charge.
+      const guestFeeCents = line.isOwner ? Math.min(preview.guestFeeCents, cardCents) : 0;
+      const household = { facilityId, memberUserId: line.userId, sourceId: params.bookingId, stripePaymentIntentId: chargedIntentId };
+      await recordHouseholdCharge(card, {
+        ...household,
+        source: 'court_fee',
+        description: `Court reservation on ${bookingDate}`,
+        amountCents: cardCents - guestFeeCents,
+      });
+      await recordHouseholdCharge(card, {
+        ...household,
+        source: 'guest_fee',
+        description: `Guest fees for court reservation on ${bookingDate}`,
+        amountCents: guestFeeCents,
+      });
+    }
   }
 
   const settlementStatus = await refreshBookingSettlementStatus(
@@ -811,13 +898,18 @@ export async function markFrontDeskFeeCollected(params: {
   return updated.rows[0] ?? { frontDeskCollectedAt: new Date().toISOString() };
 }
 
-/** Whether create should use post-play unsettled path instead of Checkout. */
+/**
+ * Whether create should use post-play unsettled path instead of Checkout.
+ * needsPayment uses the member's priced rate for the slot, the same one
+ * Checkout charges, so a $0 rule or a 100% tier discount books for free.
+ */
 export async function shouldUsePostPlaySettlement(
   facilityId: string,
   courtId: string,
+  slot: CourtPricingSlot,
   options?: { bringGuest?: boolean; addBallMachine?: boolean }
 ): Promise<{ usePostPlay: boolean; needsPayment: boolean }> {
-  const courtRow = await loadCourtPaymentSettings(courtId);
+  const courtRow = await loadPricedCourtPaymentSettings(courtId, slot);
   const needsPayment = courtBookingNeedsPayment(courtRow, options);
   const enabled = await isFeatureEnabled(facilityId, FEATURE_FLAGS.POST_PLAY_SETTLEMENT);
   // When the flag is on, every booking is unsettled so staff can close out
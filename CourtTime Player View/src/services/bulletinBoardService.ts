@@ -58,6 +58,14 @@ export interface BulletinPost {
   lessonType?: LessonType | null;
   lessonTypeLabel?: string | null;
   participants?: Array<{ userId: string; fullName: string; status: 'confirmed' | 'waitlist'; waitlistPosition: number | null }>;
+  /** The requester's dependents and where each stands, so the parent can sign them up or cancel. */
+  dependentSignups?: Array<{
+    dependentId: string;
+    firstName: string;
+    status: 'confirmed' | 'waitlist' | null;
+    waitlistPosition: number | null;
+    canSignup: boolean;
+  }>;
 }
 
 export interface CreateBulletinPost {
@@ -218,6 +226,14 @@ async function enrichBulletinPostsWithSignupContext(
   const userResult = await query(`SELECT gender FROM users WHERE id = $1`, [requesterUserId]);
   const requesterGender = userResult.rows[0]?.gender || null;
 
+  const dependentResult = await query(
+    `SELECT id, first_name, gender FROM users WHERE parent_user_id = $1 ORDER BY date_of_birth, first_name`,
+    [requesterUserId]
+  );
+  const meetsGenderRestriction = (restriction: BulletinPost['drillGenderRestriction'], gender: string | null) =>
+    !restriction || restriction === 'any' ||
+    (gender || '').toLowerCase() === (restriction === 'male_only' ? 'male' : 'female');
+
   for (const post of posts) {
     if (!SIGNUP_CATEGORIES.includes(post.category as (typeof SIGNUP_CATEGORIES)[number])) continue;
     const participants = participantsByPost.get(post.id) || [];
@@ -242,6 +258,17 @@ async function enrichBulletinPostsWithSignupContext(
       post.currentUserCanSignup = true;
     }
 
+    post.dependentSignups = dependentResult.rows.map((d: { id: string; first_name: string; gender: string | null }) => {
+      const signup = participants.find((p) => sameUserId(p.userId, d.id));
+      return {
+        dependentId: d.id,
+        firstName: d.first_name,
+        status: signup?.status || null,
+        waitlistPosition: signup?.waitlistPosition || null,
+        canSignup: !signup && meetsGenderRestriction(post.drillGenderRestriction, d.gender),
+      };
+    });
+
     if (post.drillShowParticipants || isFacilityAdmin) {
       post.participants = participants;
     } else {
@@ -846,7 +873,7 @@ export async function signupForDrill(
     await assertSignupEligibility(post, userId);
     const base = process.env.APP_URL || 'http://localhost:5173';
     const { createBulletinSignupCheckoutSession } = await import('./stripeConnectService');
-    const { url } = await createBulletinSignupCheckoutSession({
+    const checkout = await createBulletinSignupCheckoutSession({
       bulletinPostId: postId,
       memberId: userId,
       successUrl:
@@ -854,7 +881,18 @@ export async function signupForDrill(
         `${base}/bulletin-board?signupSuccess=1&postId=${encodeURIComponent(postId)}&session_id={CHECKOUT_SESSION_ID}`,
       cancelUrl: options?.cancelUrl || `${base}/bulletin-board?postId=${encodeURIComponent(postId)}`,
     });
-    return { requiresPayment: true, checkoutUrl: url, status: null, waitlistPosition: null };
+    if (checkout.paidInFull) {
+      // Account credit or a clinic package covered the fee and the signup was made on the spot
+      const signup = await query(
+        `SELECT status, waitlist_position FROM bulletin_drill_signups
+          WHERE bulletin_post_id = $1 AND user_id = $2`,
+        [postId, userId]
+      );
+      const row = signup.rows[0];
+      if (!row) throw new Error('Signup could not be completed. Please contact the club.');
+      return { status: row.status, waitlistPosition: row.waitlist_position ?? null };
+    }
+    return { requiresPayment: true, checkoutUrl: checkout.url, status: null, waitlistPosition: null };
   }
 
   const userRow = await query(`SELECT gender FROM users WHERE id = $1`, [userId]);
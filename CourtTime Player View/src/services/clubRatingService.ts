@@ -0,0 +1,527 @@
+/**
+ * Match results and club ratings (club_ratings feature flag).
+ *
+ * A member who played on a finished booking reports the result set by set,
+ * naming their opponents (and partner, for doubles). The other side confirms
+ * or disputes it; only a confirmed result moves ratings, so nobody can rate
+ * themselves up with made-up wins.
+ *
+ * Ratings are Glicko-1, one per member per facility, starting at 1500 with a
+ * deviation (RD) of 350. Each confirmed match is its own rating period: RD
+ * first grows with the time since the player's last match, then the usual
+ * single-game update applies. Doubles rate each player against the opposing
+ * team's average rating and pooled RD, so partners share the result but a
+ * newer (higher-RD) player moves further.
+ */
+
+import { query, transaction } from '../database/connection';
+import { notificationService } from './notificationService';
+import { formatDate, formatTime } from './rulesEngine/utils/timeUtils';
+
+/** Thrown for caller mistakes; `status` is the HTTP status the route should return. */
+export class ClubRatingError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ClubRatingError';
+  }
+}
+
+export type MatchResultStatus = 'pending' | 'confirmed' | 'disputed' | 'cancelled';
+export type MatchSide = 'a' | 'b';
+
+export interface SetScore {
+  a: number;
+  b: number;
+}
+
+export const INITIAL_RATING = 1500;
+export const INITIAL_DEVIATION = 350;
+const MIN_DEVIATION = 30;
+/** RD regained per 30 days without a confirmed match (≈ 3 years back to 350 from 50). */
+const DEVIATION_DRIFT_PER_MONTH = 35;
+/** Players at or above this RD are shown as provisional. */
+export const PROVISIONAL_DEVIATION = 200;
+/** How far back a finished booking can still have a result reported. */
+const REPORT_WINDOW_DAYS = 14;
+const MAX_SETS = 5;
+
+const Q = Math.LN10 / 400;
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Checks a set-by-set score and returns who won. Every set needs a winner
+ * (tiebreaks are recorded as 7-6 or a 10-8 super-tiebreak) and the match
+ * can't end level on sets.
+ */
+export function validateSets(raw: unknown): { sets: SetScore[]; winnerSide: MatchSide } {
+  if (!Array.isArray(raw) || raw.length === 0) throw new ClubRatingError('Enter the score of at least one set');
+  if (raw.length > MAX_SETS) throw new ClubRatingError(`A match has at most ${MAX_SETS} sets`);
+
+  const sets = raw.map((set: any) => ({ a: Number(set?.a), b: Number(set?.b) }));
+  for (const set of sets) {
+    if (![set.a, set.b].every((games) => Number.isInteger(games) && games >= 0 && games <= 99)) {
+      throw new ClubRatingError('Set scores must be whole numbers of games');
+    }
+    if (set.a === set.b) throw new ClubRatingError('A set cannot end level');
+  }
+
+  const setsA = sets.filter((s) => s.a > s.b).length;
+  const setsB = sets.length - setsA;
+  if (setsA === setsB) throw new ClubRatingError('The match cannot end level on sets');
+  return { sets, winnerSide: setsA > setsB ? 'a' : 'b' };
+}
+
+/** "6-4, 3-6, 10-8" from side A's point of view. */
+export function formatSets(sets: SetScore[]): string {
+  return sets.map((s) => `${s.a}-${s.b}`).join(', ');
+}
+
+/** RD after `days` without play, capped at the starting RD. */
+export function inflateDeviation(rd: number, days: number): number {
+  if (days <= 0) return rd;
+  const drift = DEVIATION_DRIFT_PER_MONTH * DEVIATION_DRIFT_PER_MONTH * (days / 30);
+  return Math.min(INITIAL_DEVIATION, Math.sqrt(rd * rd + drift));
+}
+
+function g(rd: number): number {
+  return 1 / Math.sqrt(1 + (3 * Q * Q * rd * rd) / (Math.PI * Math.PI));
+}
+
+/** Expected score (0..1) of a player against an opponent. */
+export function expectedScore(rating: number, opponentRating: number, opponentRd: number): number {
+  return 1 / (1 + Math.pow(10, (-g(opponentRd) * (rating - opponentRating)) / 400));
+}
+
+/** Glicko-1 update for one game; `score` is 1 for a win and 0 for a loss. */
+export function glickoUpdate(
+  player: { rating: number; rd: number },
+  opponent: { rating: number; rd: number },
+  score: number
+): { rating: number; rd: number } {
+  const gj = g(opponent.rd);
+  const e = expectedScore(player.rating, opponent.rating, opponent.rd);
+  const dSquared = 1 / (Q * Q * gj * gj * e * (1 - e));
+  const precision = 1 / (player.rd * player.rd) + 1 / dSquared;
+  return {
+    rating: player.rating + (Q / precision) * gj * (score - e),
+    rd: Math.max(MIN_DEVIATION, Math.sqrt(1 / precision)),
+  };
+}
+
+export interface RatedPlayer {
+  userId: string;
+  rating: number;
+  rd: number;
+  lastPlayedOn: string | null;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+/** New rating and RD for every player in a match, rounded to two decimals. */
+export function rateMatch(
+  teamA: RatedPlayer[],
+  teamB: RatedPlayer[],
+  winnerSide: MatchSide,
+  playedOn: string
+): Map<string, { rating: number; rd: number }> {
+  const current = (p: RatedPlayer) => ({
+    rating: p.rating,
+    rd: p.lastPlayedOn ? inflateDeviation(p.rd, daysBetween(p.lastPlayedOn, playedOn)) : p.rd,
+  });
+  const composite = (team: RatedPlayer[]) => {
+    const players = team.map(current);
+    return {
+      rating: players.reduce((sum, p) => sum + p.rating, 0) / players.length,
+      rd: Math.sqrt(players.reduce((sum, p) => sum + p.rd * p.rd, 0) / players.length),
+    };
+  };
+
+  const round = (n: number) => Math.round(n * 100) / 100;
+  const result = new Map<string, { rating: number; rd: number }>();
+  const rateTeam = (team: RatedPlayer[], opponents: RatedPlayer[], score: number) => {
+    const opponent = composite(opponents);
+    for (const player of team) {
+      const next = glickoUpdate(current(player), opponent, score);
+      result.set(player.userId, { rating: round(next.rating), rd: round(next.rd) });
+    }
+  };
+  rateTeam(teamA, teamB, winnerSide === 'a' ? 1 : 0);
+  rateTeam(teamB, teamA, winnerSide === 'b' ? 1 : 0);
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Results
+// ---------------------------------------------------------------------------
+
+export interface MatchResultPlayer {
+  userId: string;
+  fullName: string;
+  ratingBefore: number | null;
+  ratingAfter: number | null;
+}
+
+export interface MatchResult {
+  id: string;
+  facilityId: string;
+  bookingId: string | null;
+  reportedBy: string;
+  teamA: MatchResultPlayer[];
+  teamB: MatchResultPlayer[];
+  sets: SetScore[];
+  winnerSide: MatchSide;
+  playedOn: string;
+  status: MatchResultStatus;
+  disputeReason: string | null;
+  createdAt: string;
+}
+
+const RESULT_COLUMNS = `
+  r.id, r.facility_id as "facilityId", r.booking_id as "bookingId", r.reported_by as "reportedBy",
+  r.team_a as "teamAIds", r.team_b as "teamBIds", r.sets, r.winner_side as "winnerSide",
+  TO_CHAR(r.played_on, 'YYYY-MM-DD') as "playedOn", r.status, r.dispute_reason as "disputeReason",
+  r.created_at as "createdAt",
+  (SELECT COALESCE(json_agg(json_build_object(
+            'userId', u.id, 'fullName', u.full_name,
+            'ratingBefore', c.rating_before::float, 'ratingAfter', c.rating_after::float)), '[]'::json)
+     FROM users u
+     LEFT JOIN club_rating_changes c ON c.result_id = r.id AND c.user_id = u.id
+    WHERE u.id = ANY(r.team_a || r.team_b)) as players`;
+
+function toResult(row: any): MatchResult {
+  const players = new Map<string, MatchResultPlayer>(row.players.map((p: MatchResultPlayer) => [p.userId, p]));
+  const team = (ids: string[]) =>
+    ids.map((id) => players.get(id) ?? { userId: id, fullName: 'Former member', ratingBefore: null, ratingAfter: null });
+  const { teamAIds, teamBIds, players: _players, ...rest } = row;
+  return { ...rest, teamA: team(teamAIds), teamB: team(teamBIds) };
+}
+
+async function getResult(resultId: string): Promise<MatchResult | null> {
+  const result = await query(`SELECT ${RESULT_COLUMNS} FROM match_results r WHERE r.id = $1`, [resultId]);
+  return result.rows[0] ? toResult(result.rows[0]) : null;
+}
+
+export async function facilityIdForResult(resultId: string): Promise<string | null> {
+  const result = await query(`SELECT facility_id FROM match_results WHERE id = $1`, [resultId]);
+  return result.rows[0]?.facility_id ?? null;
+}
+
+async function facilityNow(facilityId: string): Promise<{ date: string; time: string }> {
+  const facility = await query(`SELECT timezone FROM facilities WHERE id = $1`, [facilityId]);
+  const { getFacilityLocalNow } = await import('./rulesEngine/RuleContext');
+  const now = getFacilityLocalNow(facility.rows[0]?.timezone || 'America/New_York');
+  return { date: formatDate(now), time: formatTime(now) };
+}
+
+export interface ReportableBooking {
+  bookingId: string;
+  courtName: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * The member's finished bookings from the last two weeks (as owner or added
+ * participant) that don't already have a live result.
+ */
+export async function getReportableBookings(facilityId: string, userId: string): Promise<ReportableBooking[]> {
+  const now = await facilityNow(facilityId);
+  const result = await query(
+    `SELECT b.id as "bookingId", c.name as "courtName", TO_CHAR(b.booking_date, 'YYYY-MM-DD') as "bookingDate",
+            b.start_time as "startTime", b.end_time as "endTime"
+       FROM bookings b
+       JOIN courts c ON c.id = b.court_id
+      WHERE b.facility_id = $1
+        AND b.status <> 'cancelled'
+        AND (b.user_id = $2 OR EXISTS (
+              SELECT 1 FROM booking_participants bp WHERE bp.booking_id = b.id AND bp.user_id = $2))
+        AND b.booking_date >= $3::date - $5::int
+        AND (b.booking_date < $3::date OR (b.booking_date = $3::date AND b.end_time <= $4::time))
+        AND NOT EXISTS (
+              SELECT 1 FROM match_results r
+               WHERE r.booking_id = b.id AND r.status IN ('pending', 'confirmed'))
+      ORDER BY b.booking_date DESC, b.start_time DESC`,
+    [facilityId, userId, now.date, now.time, REPORT_WINDOW_DAYS]
+  );
+  return result.rows;
+}
+
+/**
+ * Records a result on a finished booking the reporter played on. The
+ * reporter (plus partner) is side A; the named opponents are side B and are
+ * asked to confirm.
+ */
+export async function reportResult(
+  facilityId: string,
+  reporterId: string,
+  fields: { bookingId?: string; partnerId?: string | null; opponentIds?: string[]; sets?: unknown }
+): Promise<MatchResult> {
+  const { sets, winnerSide } = validateSets(fields.sets);
+  const teamA = fields.partnerId ? [reporterId, fields.partnerId] : [reporterId];
+  const teamB = Array.from(new Set(fields.opponentIds ?? []));
+  if (teamB.length !== teamA.length) {
+    throw new ClubRatingError(teamA.length === 1 ? 'Pick one opponent for singles' : 'Pick two opponents for doubles');
+  }
+  const everyone = [...teamA, ...teamB];
+  if (new Set(everyone).size !== everyone.length) throw new ClubRatingError('Each player can only appear once');
+  if (!fields.bookingId) throw new ClubRatingError('bookingId is required');
+
+  const booking = await query(
+    `SELECT b.id, TO_CHAR(b.booking_date, 'YYYY-MM-DD') as "bookingDate", b.end_time as "endTime", b.status,
+            (b.user_id = $3 OR EXISTS (
+               SELECT 1 FROM booking_participants bp WHERE bp.booking_id = b.id AND bp.user_id = $3)) as "isPlayer"
+       FROM bookings b
+      WHERE b.id = $1 AND b.facility_id = $2`,
+    [fields.bookingId, facilityId, reporterId]
+  );
+  const row = booking.rows[0];
+  if (!row) throw new ClubRatingError('Booking not found', 404);
+  if (!row.isPlayer) throw new ClubRatingError('You can only report results for your own bookings', 403);
+  if (row.status === 'cancelled') throw new ClubRatingError('That booking was cancelled');
+  const now = await facilityNow(facilityId);
+  if (row.bookingDate > now.date || (row.bookingDate === now.date && row.endTime > now.time)) {
+    throw new ClubRatingError('Results can be reported once the booking has finished');
+  }
+
+  const members = await query(
+    `SELECT user_id FROM facility_memberships
+      WHERE facility_id = $1 AND user_id = ANY($2::uuid[]) AND status = 'active'`,
+    [facilityId, everyone]
+  );
+  if (members.rows.length !== everyone.length) {
+    throw new ClubRatingError('Every player must be an active member of the facility');
+  }
+
+  let resultId: string;
+  try {
+    const inserted = await query(
+      `INSERT INTO match_results (facility_id, booking_id, reported_by, team_a, team_b, sets, winner_side, played_on)
+       VALUES ($1, $2, $3, $4::uuid[], $5::uuid[], $6::jsonb, $7, $8)
+       RETURNING id`,
+      [facilityId, fields.bookingId, reporterId, teamA, teamB, JSON.stringify(sets), winnerSide, row.bookingDate]
+    );
+    resultId = inserted.rows[0].id;
+  } catch (error: any) {
+    if (error?.code === '23505') throw new ClubRatingError('A result has already been reported for this booking', 409);
+    throw error;
+  }
+
+  const result = (await getResult(resultId))!;
+  const reporter = result.teamA[0].fullName;
+  for (const opponentId of teamB) {
+    notify(
+      opponentId,
+      'Confirm your match result',
+      `${reporter} reported ${winnerSide === 'a' ? 'a win' : 'a loss'} against you (${formatSets(sets)}). Confirm it to update your club rating.`,
+      'match_result_pending'
+    );
+  }
+  return result;
+}
+
+/** Loads a result for a member of the confirming side (B), locked for update. */
+async function lockPendingForOpponent(client: any, resultId: string, userId: string) {
+  const result = await client.query(
+    `SELECT id, facility_id as "facilityId", reported_by as "reportedBy", team_a as "teamA", team_b as "teamB",
+            sets, winner_side as "winnerSide", TO_CHAR(played_on, 'YYYY-MM-DD') as "playedOn", status
+       FROM match_results WHERE id = $1 FOR UPDATE`,
+    [resultId]
+  );
+  const row = result.rows[0];
+  if (!row) throw new ClubRatingError('Result not found', 404);
+  if (!row.teamB.includes(userId)) throw new ClubRatingError('Only the opposing side can respond to this result', 403);
+  if (row.status !== 'pending') throw new ClubRatingError(`This result is already ${row.status}`, 409);
+  return row;
+}
+
+/**
+ * An opponent confirms the result: ratings for all players are updated in
+ * one transaction, with their rating rows locked so concurrent confirmations
+ * for the same player apply one after the other.
+ */
+export async function confirmResult(resultId: string, userId: string): Promise<MatchResult> {
+  const reportedBy = await transaction(async (client) => {
+    const row = await lockPendingForOpponent(client, resultId, userId);
+    const players: string[] = [...row.teamA, ...row.teamB];
+
+    await client.query(
+      `INSERT INTO club_ratings (facility_id, user_id)
+       SELECT $1, unnest($2::uuid[])
+       ON CONFLICT (facility_id, user_id) DO NOTHING`,
+      [row.facilityId, players]
+    );
+    const current = await client.query(
+      `SELECT user_id as "userId", rating::float as rating, rating_deviation::float as rd,
+              TO_CHAR(last_played_on, 'YYYY-MM-DD') as "lastPlayedOn"
+         FROM club_ratings
+        WHERE facility_id = $1 AND user_id = ANY($2::uuid[])
+        ORDER BY user_id
+        FOR UPDATE`,
+      [row.facilityId, players]
+    );
+    const byId = new Map<string, RatedPlayer>(current.rows.map((p: RatedPlayer) => [p.userId, p]));
+    const side = (ids: string[]) => ids.map((id) => byId.get(id)!);
+    const next = rateMatch(side(row.teamA), side(row.teamB), row.winnerSide, row.playedOn);
+
+    for (const [playerId, rating] of next) {
+      await client.query(
+        `UPDATE club_ratings
+            SET rating = $3, rating_deviation = $4, matches_played = matches_played + 1,
+                last_played_on = GREATEST(COALESCE(last_played_on, $5::date), $5::date)
+          WHERE facility_id = $1 AND user_id = $2`,
+        [row.facilityId, playerId, rating.rating, rating.rd, row.playedOn]
+      );
+      await client.query(
+        `INSERT INTO club_rating_changes (result_id, user_id, rating_before, rating_after) VALUES ($1, $2, $3, $4)`,
+        [resultId, playerId, byId.get(playerId)!.rating, rating.rating]
+      );
+    }
+    await client.query(
+      `UPDATE match_results SET status = 'confirmed', confirmed_by = $2, confirmed_at = CURRENT_TIMESTAMP WHERE id = $1`,
+      [resultId, userId]
+    );
+    return row.reportedBy as string;
+  });
+
+  const result = (await getResult(resultId))!;
+  const reporter = result.teamA.find((p) => p.userId === reportedBy);
+  const change =
+    reporter?.ratingAfter != null && reporter.ratingBefore != null
+      ? ` Your club rating is now ${Math.round(reporter.ratingAfter)}.`
+      : '';
+  notify(reportedBy, 'Match result confirmed', `Your result (${formatSets(result.sets)}) was confirmed.${change}`, 'match_result_confirmed');
+  return result;
+}
+
+/** An opponent disputes the result; the reporter can then report it again. */
+export async function disputeResult(resultId: string, userId: string, reason?: string): Promise<MatchResult> {
+  const trimmed = String(reason ?? '').trim();
+  if (!trimmed) throw new ClubRatingError('Say what is wrong with the result');
+  if (trimmed.length > 500) throw new ClubRatingError('Keep the reason under 500 characters');
+
+  const reportedBy = await transaction(async (client) => {
+    const row = await lockPendingForOpponent(client, resultId, userId);
+    await client.query(`UPDATE match_results SET status = 'disputed', dispute_reason = $2 WHERE id = $1`, [
+      resultId,
+      trimmed,
+    ]);
+    return row.reportedBy as string;
+  });
+
+  notify(reportedBy, 'Match result disputed', `Your opponent disputed the result: "${trimmed}". You can report it again.`, 'match_result_disputed');
+  return (await getResult(resultId))!;
+}
+
+/** The reporter withdraws a result nobody has confirmed yet. */
+export async function cancelResult(resultId: string, userId: string): Promise<void> {
+  const result = await query(
+    `UPDATE match_results SET status = 'cancelled'
+      WHERE id = $1 AND reported_by = $2 AND status = 'pending'
+      RETURNING id`,
+    [resultId, userId]
+  );
+  if (result.rows.length === 0) {
+    const existing = await query(`SELECT reported_by, status FROM match_results WHERE id = $1`, [resultId]);
+    if (!existing.rows[0]) throw new ClubRatingError('Result not found', 404);
+    if (existing.rows[0].reported_by !== userId) throw new ClubRatingError('Only the reporter can withdraw a result', 403);
+    throw new ClubRatingError(`This result is already ${existing.rows[0].status}`, 409);
+  }
+}
+
+function notify(userId: string, title: string, message: string, type: string) {
+  void notificationService
+    .createNotification(userId, title, message, type, { actionUrl: '/profile', priority: 'medium' })
+    .catch((error) => console.error('Match result notification failed:', error));
+}
+
+// ---------------------------------------------------------------------------
+// Ratings
+// ---------------------------------------------------------------------------
+
+export interface ClubRating {
+  facilityId: string;
+  userId: string;
+  fullName: string;
+  rating: number;
+  ratingDeviation: number;
+  matchesPlayed: number;
+  lastPlayedOn: string | null;
+  provisional: boolean;
+}
+
+const RATING_COLUMNS = `
+  cr.facility_id as "facilityId", cr.user_id as "userId", u.full_name as "fullName",
+  cr.rating::float as rating, cr.rating_deviation::float as "ratingDeviation",
+  cr.matches_played as "matchesPlayed", TO_CHAR(cr.last_played_on, 'YYYY-MM-DD') as "lastPlayedOn",
+  cr.rating_deviation >= ${PROVISIONAL_DEVIATION} as provisional`;
+
+/** Rated active members of a facility, best first. */
+export async function listClubRatings(facilityId: string): Promise<ClubRating[]> {
+  const result = await query(
+    `SELECT ${RATING_COLUMNS}
+       FROM club_ratings cr
+       JOIN users u ON u.id = cr.user_id
+       JOIN facility_memberships fm ON fm.facility_id = cr.facility_id AND fm.user_id = cr.user_id AND fm.status = 'active'
+      WHERE cr.facility_id = $1 AND cr.matches_played > 0
+      ORDER BY cr.rating DESC, u.full_name`,
+    [facilityId]
+  );
+  return result.rows;
+}
+
+/** The member's rating at every facility where they've had a result confirmed. */
+export async function getUserRatings(userId: string): Promise<ClubRating[]> {
+  const result = await query(
+    `SELECT ${RATING_COLUMNS}
+       FROM club_ratings cr
+       JOIN users u ON u.id = cr.user_id
+      WHERE cr.user_id = $1 AND cr.matches_played > 0`,
+    [userId]
+  );
+  return result.rows;
+}
+
+export interface MyMatchResults {
+  rating: ClubRating | null;
+  awaitingMe: MatchResult[];
+  recent: MatchResult[];
+  reportableBookings: ReportableBooking[];
+}
+
+/** Everything the profile card needs for one facility. */
+export async function getMyMatchResults(facilityId: string, userId: string): Promise<MyMatchResults> {
+  const [rating, awaiting, recent, reportableBookings] = await Promise.all([
+    query(
+      `SELECT ${RATING_COLUMNS} FROM club_ratings cr JOIN users u ON u.id = cr.user_id
+        WHERE cr.facility_id = $1 AND cr.user_id = $2 AND cr.matches_played > 0`,
+      [facilityId, userId]
+    ),
+    query(
+      `SELECT ${RESULT_COLUMNS} FROM match_results r
+        WHERE r.facility_id = $1 AND r.status = 'pending' AND $2 = ANY(r.team_b)
+        ORDER BY r.played_on DESC, r.created_at DESC`,
+      [facilityId, userId]
+    ),
+    query(
+      `SELECT ${RESULT_COLUMNS} FROM match_results r
+        WHERE r.facility_id = $1 AND ($2 = ANY(r.team_a) OR ($2 = ANY(r.team_b) AND r.status <> 'pending'))
+          AND r.status <> 'cancelled'
+        ORDER BY r.played_on DESC, r.created_at DESC
+        LIMIT 10`,
+      [facilityId, userId]
+    ),
+    getReportableBookings(facilityId, userId),
+  ]);
+  return {
+    rating: rating.rows[0] ?? null,
+    awaitingMe: awaiting.rows.map(toResult),
+    recent: recent.rows.map(toResult),
+    reportableBookings,
+  };
+}
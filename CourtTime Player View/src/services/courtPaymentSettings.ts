@@ -7,6 +7,8 @@ export async function loadCourtPaymentSettings(courtId: string) {
        c.id,
        c.name,
        c.facility_id,
+       c.parent_court_id,
+       COALESCE(c.is_indoor, p.is_indoor, false) AS is_indoor,
        (COALESCE(c.require_payment, false) OR COALESCE(p.require_payment, false)) AS require_payment,
        COALESCE(c.booking_amount_cents, p.booking_amount_cents) AS booking_amount_cents,
        COALESCE(c.guest_fee_cents, p.guest_fee_cents) AS guest_fee_cents,
@@ -24,7 +26,13 @@ export async function loadCourtPaymentSettings(courtId: string) {
   return result.rows[0] ?? null;
 }
 
-/** Authoritative total (court + guest + ball machine fees), hours-scaled like computeSettlementAmounts. */
+/** Guests billed on a booking: one per named guest, and at least one when bringGuest is set. */
+export function billableGuestCount(bringGuest: boolean | null | undefined, guestNames?: unknown[] | null): number {
+  if (!bringGuest) return 0;
+  return Math.max(1, guestNames?.length ?? 0);
+}
+
+/** Authoritative total (court + per-guest + ball machine fees), hours-scaled like computeSettlementAmounts. */
 export function computeBookingFeeTotalCents(
   courtRow: {
     require_payment?: boolean;
@@ -32,7 +40,7 @@ export function computeBookingFeeTotalCents(
     guest_fee_cents?: number | null;
     ball_machine_fee_cents?: number | null;
   } | null | undefined,
-  options: { durationMinutes: number; bringGuest?: boolean; addBallMachine?: boolean }
+  options: { durationMinutes: number; bringGuest?: boolean; guestCount?: number; addBallMachine?: boolean }
 ): number {
   if (!courtRow) return 0;
   const hours = options.durationMinutes > 0 ? options.durationMinutes / 60 : 1;
@@ -41,7 +49,9 @@ export function computeBookingFeeTotalCents(
       ? Math.round(Number(courtRow.booking_amount_cents) * hours)
       : 0;
   const guestFeeCents =
-    options.bringGuest && courtRow.guest_fee_cents ? Number(courtRow.guest_fee_cents) : 0;
+    options.bringGuest && courtRow.guest_fee_cents
+      ? Number(courtRow.guest_fee_cents) * Math.max(1, options.guestCount ?? 1)
+      : 0;
   const ballMachineFeeCents =
     options.addBallMachine && courtRow.ball_machine_fee_cents
       ? Math.round(Number(courtRow.ball_machine_fee_cents) * hours)
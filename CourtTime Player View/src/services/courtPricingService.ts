@@ -0,0 +1,444 @@
+/**
+ * Dynamic court pricing (migration 106, dynamic_court_pricing feature flag).
+ *
+ * A paid court's booking_amount_cents is its standard hourly rate. Pricing rules
+ * swap in a different hourly rate for the slots they match — peak or off-peak
+ * (the same peak-hours schedule booking validation uses), weekday or weekend,
+ * indoor or outdoor courts, or one court — and the member's membership tier can
+ * then take a percentage off. Only the court fee is repriced; guest and ball
+ * machine fees stay as set on the court.
+ *
+ * Checkout, split payments, post-play settlement and front-desk totals all read
+ * the rate through loadPricedCourtPaymentSettings, so the preview a member sees
+ * before booking is the amount they are charged.
+ */
+
+import { query } from '../database/connection';
+import { isFeatureEnabled } from './featureFlagService';
+import { FEATURE_FLAGS } from '../../shared/constants/featureFlags';
+import { loadCourtPaymentSettings } from './courtPaymentSettings';
+import { isPeakHoursSlot } from './rulesEngine/RuleContext';
+import { getDayOfWeek, timeToMinutes } from './rulesEngine/utils/timeUtils';
+
+/** Thrown for caller mistakes; `status` is the HTTP status the route should return. */
+export class CourtPricingError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'CourtPricingError';
+  }
+}
+
+export type PricingTimeBand = 'any' | 'peak' | 'off_peak';
+export type PricingDayType = 'any' | 'weekday' | 'weekend';
+export type PricingCourtSetting = 'any' | 'indoor' | 'outdoor';
+
+export interface CourtPricingRule {
+  id: string;
+  facilityId: string;
+  name: string;
+  timeBand: PricingTimeBand;
+  dayType: PricingDayType;
+  courtSetting: PricingCourtSetting;
+  courtId: string | null;
+  courtName: string | null;
+  hourlyRateCents: number;
+  isActive: boolean;
+}
+
+export interface CourtPricingRuleInput {
+  name: string;
+  timeBand?: PricingTimeBand;
+  dayType?: PricingDayType;
+  courtSetting?: PricingCourtSetting;
+  courtId?: string | null;
+  hourlyRateCents: number;
+  isActive?: boolean;
+}
+
+export interface TierCourtDiscount {
+  tierId: string;
+  tierName: string;
+  isDefault: boolean;
+  courtDiscountPercent: number;
+}
+
+/** Who is booking and when; the court comes from the payment settings row. */
+export interface CourtPricingSlot {
+  userId: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+}
+
+/** The facts about a slot that rules match on. */
+export interface PricingSlotFacts {
+  courtIds: string[];
+  isIndoor: boolean;
+  isPeak: boolean;
+  isWeekend: boolean;
+}
+
+export interface CourtPriceQuote {
+  /** The court's standard hourly rate */
+  standardRateCents: number;
+  /** The rate of the rule that matched, or the standard rate */
+  ruleRateCents: number;
+  ruleName: string | null;
+  tierName: string | null;
+  tierDiscountPercent: number;
+  /** What the member pays per hour after the rule and their tier discount */
+  hourlyRateCents: number;
+  isPeak: boolean;
+  isWeekend: boolean;
+}
+
+const TIME_BANDS: PricingTimeBand[] = ['any', 'peak', 'off_peak'];
+const DAY_TYPES: PricingDayType[] = ['any', 'weekday', 'weekend'];
+const COURT_SETTINGS: PricingCourtSetting[] = ['any', 'indoor', 'outdoor'];
+
+const RULE_COLUMNS = `
+  r.id,
+  r.facility_id        AS "facilityId",
+  r.name,
+  r.time_band          AS "timeBand",
+  r.day_type           AS "dayType",
+  r.court_setting      AS "courtSetting",
+  r.court_id           AS "courtId",
+  c.name               AS "courtName",
+  r.hourly_rate_cents  AS "hourlyRateCents",
+  r.is_active          AS "isActive"`;
+
+export async function isDynamicPricingEnabled(facilityId: string): Promise<boolean> {
+  return isFeatureEnabled(facilityId, FEATURE_FLAGS.DYNAMIC_COURT_PRICING);
+}
+
+// ---------------------------------------------------------------------------
+// Rule matching
+// ---------------------------------------------------------------------------
+
+function ruleMatches(rule: CourtPricingRule, facts: PricingSlotFacts): boolean {
+  if (rule.courtId && !facts.courtIds.includes(rule.courtId)) return false;
+  if (rule.timeBand === 'peak' && !facts.isPeak) return false;
+  if (rule.timeBand === 'off_peak' && facts.isPeak) return false;
+  if (rule.dayType === 'weekend' && !facts.isWeekend) return false;
+  if (rule.dayType === 'weekday' && facts.isWeekend) return false;
+  if (rule.courtSetting === 'indoor' && !facts.isIndoor) return false;
+  if (rule.courtSetting === 'outdoor' && facts.isIndoor) return false;
+  return true;
+}
+
+/** A court-specific rule outranks any combination of the other conditions. */
+function specificity(rule: CourtPricingRule): number {
+  return (
+    (rule.courtId ? 4 : 0) +
+    (rule.timeBand !== 'any' ? 1 : 0) +
+    (rule.dayType !== 'any' ? 1 : 0) +
+    (rule.courtSetting !== 'any' ? 1 : 0)
+  );
+}
+
+/**
+ * The active rule that prices a slot: the most specific one that matches, and
+ * the oldest of those on a tie (`rules` comes in creation order).
+ */
+export function selectPricingRule(rules: CourtPricingRule[], facts: PricingSlotFacts): CourtPricingRule | null {
+  let best: CourtPricingRule | null = null;
+  for (const rule of rules) {
+    if (!rule.isActive || !ruleMatches(rule, facts)) continue;
+    if (!best || specificity(rule) > specificity(best)) best = rule;
+  }
+  return best;
+}
+
+export function applyTierDiscount(rateCents: number, discountPercent: number): number {
+  const percent = Math.min(100, Math.max(0, discountPercent));
+  return Math.round((rateCents * (100 - percent)) / 100);
+}
+
+export function isWeekendDate(bookingDate: string): boolean {
+  const day = getDayOfWeek(bookingDate);
+  return day === 0 || day === 6;
+}
+
+async function fetchActiveRules(facilityId: string): Promise<CourtPricingRule[]> {
+  const result = await query(
+    `SELECT ${RULE_COLUMNS}
+       FROM court_pricing_rules r
+       LEFT JOIN courts c ON c.id = r.court_id
+      WHERE r.facility_id = $1 AND r.is_active = true
+      ORDER BY r.created_at`,
+    [facilityId]
+  );
+  return result.rows.map((row: any) => ({ ...row, hourlyRateCents: Number(row.hourlyRateCents) }));
+}
+
+/** The member's tier at the club, falling back to the club's default tier. */
+async function fetchMemberTierDiscount(
+  facilityId: string,
+  userId: string
+): Promise<{ tierName: string; discountPercent: number } | null> {
+  const result = await query(
+    `SELECT mt.tier_name AS "tierName", mt.court_discount_percent AS "discountPercent"
+       FROM membership_tiers mt
+       LEFT JOIN user_tiers ut
+         ON ut.tier_id = mt.id AND ut.user_id = $2 AND ut.facility_id = $1
+        AND (ut.expires_at IS NULL OR ut.expires_at > CURRENT_TIMESTAMP)
+      WHERE mt.facility_id = $1 AND (ut.id IS NOT NULL OR mt.is_default = true)
+      ORDER BY (ut.id IS NOT NULL) DESC
+      LIMIT 1`,
+    [facilityId, userId]
+  );
+  const row = result.rows[0];
+  return row ? { tierName: row.tierName, discountPercent: Number(row.discountPercent) || 0 } : null;
+}
+
+// ---------------------------------------------------------------------------
+// Pricing
+// ---------------------------------------------------------------------------
+
+type CourtPaymentRow = NonNullable<Awaited<ReturnType<typeof loadCourtPaymentSettings>>>;
+
+/**
+ * Prices one slot on a paid court. Returns the standard rate untouched when the
+ * club hasn't enabled dynamic pricing.
+ */
+export async function quoteCourtRate(court: CourtPaymentRow, slot: CourtPricingSlot): Promise<CourtPriceQuote> {
+  const standardRateCents = Number(court.booking_amount_cents) || 0;
+  const isWeekend = isWeekendDate(slot.bookingDate);
+  const flat: CourtPriceQuote = {
+    standardRateCents,
+    ruleRateCents: standardRateCents,
+    ruleName: null,
+    tierName: null,
+    tierDiscountPercent: 0,
+    hourlyRateCents: standardRateCents,
+    isPeak: false,
+    isWeekend,
+  };
+  if (!(await isDynamicPricingEnabled(court.facility_id))) return flat;
+
+  const [rules, tier] = await Promise.all([
+    fetchActiveRules(court.facility_id),
+    fetchMemberTierDiscount(court.facility_id, slot.userId),
+  ]);
+  // Peak resolution loads the whole rule set, so skip it unless a rule asks
+  const isPeak = rules.some((r) => r.timeBand !== 'any')
+    ? await isPeakHoursSlot({
+        facilityId: court.facility_id,
+        courtId: court.id,
+        bookingDate: slot.bookingDate,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+      })
+    : false;
+
+  const rule = selectPricingRule(rules, {
+    courtIds: [court.id, court.parent_court_id].filter(Boolean),
+    isIndoor: Boolean(court.is_indoor),
+    isPeak,
+    isWeekend,
+  });
+  const ruleRateCents = rule ? rule.hourlyRateCents : standardRateCents;
+  const tierDiscountPercent = tier?.discountPercent ?? 0;
+  return {
+    standardRateCents,
+    ruleRateCents,
+    ruleName: rule?.name ?? null,
+    tierName: tier && tierDiscountPercent > 0 ? tier.tierName : null,
+    tierDiscountPercent,
+    hourlyRateCents: applyTierDiscount(ruleRateCents, tierDiscountPercent),
+    isPeak,
+    isWeekend,
+  };
+}
+
+/**
+ * loadCourtPaymentSettings with booking_amount_cents replaced by the hourly
+ * rate this member pays for this slot. Everything that charges a court fee
+ * reads its rate through here.
+ */
+export async function loadPricedCourtPaymentSettings(courtId: string, slot: CourtPricingSlot) {
+  const court = await loadCourtPaymentSettings(courtId);
+  if (!court || !court.require_payment || !court.booking_amount_cents) return court;
+  const quote = await quoteCourtRate(court, slot);
+  return { ...court, booking_amount_cents: quote.hourlyRateCents };
+}
+
+/**
+ * The price preview shown before booking. Null when the court has no court fee.
+ */
+export async function quoteCourtBooking(params: CourtPricingSlot & { courtId: string }): Promise<
+  | (CourtPriceQuote & { courtId: string; durationMinutes: number; courtFeeCents: number })
+  | null
+> {
+  const durationMinutes = timeToMinutes(params.endTime) - timeToMinutes(params.startTime);
+  if (!params.bookingDate || durationMinutes <= 0) {
+    throw new CourtPricingError('Choose a valid date, start and end time');
+  }
+  const court = await loadCourtPaymentSettings(params.courtId);
+  if (!court) throw new CourtPricingError('Court not found', 404);
+  if (!court.require_payment || !court.booking_amount_cents) return null;
+
+  const quote = await quoteCourtRate(court, params);
+  return {
+    ...quote,
+    courtId: court.id,
+    durationMinutes,
+    courtFeeCents: Math.round(quote.hourlyRateCents * (durationMinutes / 60)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Admin
+// ---------------------------------------------------------------------------
+
+export async function listPricingRules(facilityId: string): Promise<CourtPricingRule[]> {
+  const result = await query(
+    `SELECT ${RULE_COLUMNS}
+       FROM court_pricing_rules r
+       LEFT JOIN courts c ON c.id = r.court_id
+      WHERE r.facility_id = $1
+      ORDER BY r.created_at`,
+    [facilityId]
+  );
+  return result.rows.map((row: any) => ({ ...row, hourlyRateCents: Number(row.hourlyRateCents) }));
+}
+
+/** Validates and trims an admin's rule form. */
+export function normalizeRuleInput(input: CourtPricingRuleInput): Required<CourtPricingRuleInput> {
+  const name = String(input.name ?? '').trim();
+  if (!name) throw new CourtPricingError('Rule name is required');
+  if (name.length > 120) throw new CourtPricingError('Rule name must be 120 characters or fewer');
+  const timeBand = input.timeBand ?? 'any';
+  const dayType = input.dayType ?? 'any';
+  const courtSetting = input.courtSetting ?? 'any';
+  if (!TIME_BANDS.includes(timeBand)) throw new CourtPricingError('Time must be any, peak or off_peak');
+  if (!DAY_TYPES.includes(dayType)) throw new CourtPricingError('Days must be any, weekday or weekend');
+  if (!COURT_SETTINGS.includes(courtSetting)) throw new CourtPricingError('Courts must be any, indoor or outdoor');
+  const hourlyRateCents = Number(input.hourlyRateCents);
+  if (!Number.isInteger(hourlyRateCents) || hourlyRateCents < 0) {
+    throw new CourtPricingError('Hourly rate must be a whole number of cents');
+  }
+  return {
+    name,
+    timeBand,
+    dayType,
+    courtSetting,
+    courtId: input.courtId || null,
+    hourlyRateCents,
+    isActive: input.isActive ?? true,
+  };
+}
+
+async function assertCourtAtFacility(facilityId: string, courtId: string | null): Promise<void> {
+  if (!courtId) return;
+  const result = await query(`SELECT 1 FROM courts WHERE id = $1 AND facility_id = $2`, [courtId, facilityId]);
+  if (result.rows.length === 0) throw new CourtPricingError('Court not found', 404);
+}
+
+async function getPricingRule(facilityId: string, ruleId: string): Promise<CourtPricingRule> {
+  const result = await query(
+    `SELECT ${RULE_COLUMNS}
+       FROM court_pricing_rules r
+       LEFT JOIN courts c ON c.id = r.court_id
+      WHERE r.id = $1 AND r.facility_id = $2`,
+    [ruleId, facilityId]
+  );
+  if (result.rows.length === 0) throw new CourtPricingError('Pricing rule not found', 404);
+  return { ...result.rows[0], hourlyRateCents: Number(result.rows[0].hourlyRateCents) };
+}
+
+export async function createPricingRule(
+  facilityId: string,
+  input: CourtPricingRuleInput,
+  adminUserId: string
+): Promise<CourtPricingRule> {
+  const rule = normalizeRuleInput(input);
+  await assertCourtAtFacility(facilityId, rule.courtId);
+  const result = await query(
+    `INSERT INTO court_pricing_rules
+       (facility_id, name, time_band, day_type, court_setting, court_id, hourly_rate_cents, is_active, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     RETURNING id`,
+    [
+      facilityId,
+      rule.name,
+      rule.timeBand,
+      rule.dayType,
+      rule.courtSetting,
+      rule.courtId,
+      rule.hourlyRateCents,
+      rule.isActive,
+      adminUserId,
+    ]
+  );
+  return getPricingRule(facilityId, result.rows[0].id);
+}
+
+export async function updatePricingRule(
+  facilityId: string,
+  ruleId: string,
+  input: CourtPricingRuleInput
+): Promise<CourtPricingRule> {
+  const rule = normalizeRuleInput(input);
+  await assertCourtAtFacility(facilityId, rule.courtId);
+  const result = await query(
+    `UPDATE court_pricing_rules
+        SET name = $3, time_band = $4, day_type = $5, court_setting = $6, court_id = $7,
+            hourly_rate_cents = $8, is_active = $9, updated_at = NOW()
+      WHERE id = $1 AND facility_id = $2`,
+    [
+      ruleId,
+      facilityId,
+      rule.name,
+      rule.timeBand,
+      rule.dayType,
+      rule.courtSetting,
+      rule.courtId,
+      rule.hourlyRateCents,
+      rule.isActive,
+    ]
+  );
+  if (result.rowCount === 0) throw new CourtPricingError('Pricing rule not found', 404);
+  return getPricingRule(facilityId, ruleId);
+}
+
+export async function deletePricingRule(facilityId: string, ruleId: string): Promise<void> {
+  const result = await query(`DELETE FROM court_pricing_rules WHERE id = $1 AND facility_id = $2`, [
+    ruleId,
+    facilityId,
+  ]);
+  if (result.rowCount === 0) throw new CourtPricingError('Pricing rule not found', 404);
+}
+
+export async function listTierDiscounts(facilityId: string): Promise<TierCourtDiscount[]> {
+  const result = await query(
+    `SELECT id AS "tierId", tier_name AS "tierName", COALESCE(is_default, false) AS "isDefault",
+            court_discount_percent AS "courtDiscountPercent"
+       FROM membership_tiers
+      WHERE facility_id = $1
+      ORDER BY tier_level, tier_name`,
+    [facilityId]
+  );
+  return result.rows.map((row: any) => ({ ...row, courtDiscountPercent: Number(row.courtDiscountPercent) }));
+}
+
+export async function setTierDiscount(
+  facilityId: string,
+  tierId: string,
+  courtDiscountPercent: number
+): Promise<TierCourtDiscount> {
+  const percent = Number(courtDiscountPercent);
+  if (!Number.isInteger(percent) || percent < 0 || percent > 100) {
+    throw new CourtPricingError('Discount must be a whole percentage from 0 to 100');
+  }
+  const result = await query(
+    `UPDATE membership_tiers SET court_discount_percent = $3
+      WHERE id = $1 AND facility_id = $2
+      RETURNING id AS "tierId", tier_name AS "tierName", COALESCE(is_default, false) AS "isDefault",
+                court_discount_percent AS "courtDiscountPercent"`,
+    [tierId, facilityId, percent]
+  );
+  if (result.rows.length === 0) throw new CourtPricingError('Membership tier not found', 404);
+  return result.rows[0];
+}
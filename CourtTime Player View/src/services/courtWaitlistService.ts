@@ -0,0 +1,482 @@
+/**
+ * Court waitlist -- members queue for a court + time window that is already
+ * booked, and are offered the slot when a cancellation frees it.
+ *
+ * Lifecycle of an entry: waiting → offered → claimed, with expired/cancelled
+ * as the terminal exits. Only one member at a time holds an open offer for any
+ * given window; while that offer is open createBooking treats the window as
+ * taken for everyone else (see isSlotHeldForAnotherMember), so the offeree
+ * isn't racing the whole club for the slot they were promised.
+ *
+ * Eligibility is re-checked with the rules engine (validateBooking) both when
+ * the offer is made and again when it is claimed, because caps like ACC-002
+ * and CRT-001 can change between joining the queue and the cancellation.
+ */
+
+import type { PoolClient } from 'pg';
+import { query, transaction } from '../database/connection';
+import { createBooking, validateBooking, type BookingResult } from './bookingService';
+import { isFeatureEnabled } from './featureFlagService';
+import { FEATURE_FLAGS } from '../../shared/constants/featureFlags';
+import { notificationService } from './notificationService';
+import { sendCourtWaitlistOfferEmail } from './emailService';
+
+/** Thrown for caller mistakes; `status` is the HTTP status the route should return. */
+export class CourtWaitlistError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'CourtWaitlistError';
+  }
+}
+
+/** How long an offered member has to claim the slot before it moves down the line. */
+export const CLAIM_WINDOW_MINUTES = 30;
+
+/** Per-window queue cap, so one prime-time slot can't collect an unbounded list. */
+const MAX_ENTRIES_PER_WINDOW = 20;
+
+export type CourtWaitlistStatus = 'waiting' | 'offered' | 'claimed' | 'expired' | 'cancelled';
+
+export interface CourtWaitlistEntry {
+  id: string;
+  facilityId: string;
+  courtId: string;
+  courtName?: string;
+  facilityName?: string;
+  userId: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  status: CourtWaitlistStatus;
+  offeredAt: string | null;
+  offerExpiresAt: string | null;
+  claimedBookingId: string | null;
+  /** 1-based place in line among members still waiting for an overlapping window. */
+  position?: number;
+  createdAt: string;
+}
+
+export interface FreedSlot {
+  facilityId: string;
+  courtId: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+}
+
+const ENTRY_COLUMNS = `
+  w.id,
+  w.facility_id as "facilityId",
+  w.court_id as "courtId",
+  w.user_id as "userId",
+  TO_CHAR(w.booking_date, 'YYYY-MM-DD') as "bookingDate",
+  w.start_time as "startTime",
+  w.end_time as "endTime",
+  w.status,
+  w.offered_at as "offeredAt",
+  w.offer_expires_at as "offerExpiresAt",
+  w.claimed_booking_id as "claimedBookingId",
+  w.created_at as "createdAt"`;
+
+function normalizeTime(time: string): string {
+  const m = String(time || '').trim().match(/^(\d{1,2}):(\d{2})/);
+  if (!m) throw new CourtWaitlistError('Times must be in HH:MM format');
+  return `${m[1].padStart(2, '0')}:${m[2]}:00`;
+}
+
+function minutesOf(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+function formatTime12h(time: string): string {
+  const [h, m] = time.split(':').map(Number);
+  const period = h >= 12 ? 'PM' : 'AM';
+  return `${h % 12 || 12}:${String(m).padStart(2, '0')} ${period}`;
+}
+
+/** Owning facility of an entry, or null when it doesn't exist. */
+export async function facilityIdForWaitlistEntry(entryId: string): Promise<string | null> {
+  const result = await query(`SELECT facility_id FROM court_waitlist_entries WHERE id = $1`, [entryId]);
+  return result.rows[0]?.facility_id ?? null;
+}
+
+/**
+ * Join the queue for a booked court window. The window has to actually be
+ * taken — an open slot should just be booked, not waitlisted.
+ */
+export async function joinCourtWaitlist(params: {
+  facilityId: string;
+  courtId: string;
+  userId: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+}): Promise<CourtWaitlistEntry> {
+  const startTime = normalizeTime(params.startTime);
+  const endTime = normalizeTime(params.endTime);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(params.bookingDate)) {
+    throw new CourtWaitlistError('bookingDate must be YYYY-MM-DD');
+  }
+  if (minutesOf(endTime) <= minutesOf(startTime)) {
+    throw new CourtWaitlistError('End time must be after start time');
+  }
+
+  const court = await query(
+    `SELECT id, is_walk_up FROM courts WHERE id = $1 AND facility_id = $2`,
+    [params.courtId, params.facilityId]
+  );
+  if (court.rows.length === 0) throw new CourtWaitlistError('Court not found', 404);
+  if (court.rows[0].is_walk_up) {
+    throw new CourtWaitlistError('Walk-up only courts cannot be waitlisted');
+  }
+
+  const membership = await query(
+    `SELECT 1 FROM facility_memberships
+      WHERE facility_id = $1 AND user_id = $2 AND status = 'active'`,
+    [params.facilityId, params.userId]
+  );
+  if (membership.rows.length === 0) {
+    throw new CourtWaitlistError('Only active members can join the waitlist', 403);
+  }
+
+  const blocking = await query(
+    `SELECT user_id FROM bookings
+      WHERE court_id = $1 AND booking_date = $2 AND status != 'cancelled'
+        AND start_time < $4 AND end_time > $3`,
+    [params.courtId, params.bookingDate, startTime, endTime]
+  );
+  if (blocking.rows.length === 0) {
+    throw new CourtWaitlistError('This time is open — book it directly instead of joining the waitlist');
+  }
+  if (blocking.rows.every((row: any) => row.user_id === params.userId)) {
+    throw new CourtWaitlistError('You already have this court reserved');
+  }
+
+  const queued = await query(
+    `SELECT COUNT(*)::int as count FROM court_waitlist_entries
+      WHERE court_id = $1 AND booking_date = $2 AND start_time = $3 AND end_time = $4
+        AND status IN ('waiting', 'offered')`,
+    [params.courtId, params.bookingDate, startTime, endTime]
+  );
+  if (queued.rows[0].count >= MAX_ENTRIES_PER_WINDOW) {
+    throw new CourtWaitlistError('The waitlist for this time is full');
+  }
+
+  let entryId: string;
+  try {
+    const inserted = await query(
+      `INSERT INTO court_waitlist_entries
+         (facility_id, court_id, user_id, booking_date, start_time, end_time)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id`,
+      [params.facilityId, params.courtId, params.userId, params.bookingDate, startTime, endTime]
+    );
+    entryId = inserted.rows[0].id;
+  } catch (error: any) {
+    if (error?.code === '23505') {
+      throw new CourtWaitlistError('You are already on the waitlist for this time', 409);
+    }
+    throw error;
+  }
+
+  const entries = await getMyCourtWaitlist(params.userId, params.facilityId);
+  const entry = entries.find((e) => e.id === entryId);
+  if (!entry) throw new CourtWaitlistError('Waitlist entry could not be loaded', 500);
+  return entry;
+}
+
+/**
+ * The caller's live (waiting or offered) entries, soonest first, with their
+ * place in line.
+ */
+export async function getMyCourtWaitlist(
+  userId: string,
+  facilityId?: string
+): Promise<CourtWaitlistEntry[]> {
+  const result = await query(
+    `SELECT ${ENTRY_COLUMNS},
+            c.name as "courtName",
+            f.name as "facilityName",
+            (SELECT COUNT(*)::int FROM court_waitlist_entries ahead
+              WHERE ahead.court_id = w.court_id
+                AND ahead.booking_date = w.booking_date
+                AND ahead.status = 'waiting'
+                AND ahead.start_time < w.end_time AND ahead.end_time > w.start_time
+                AND ahead.created_at < w.created_at) + 1 as position
+       FROM court_waitlist_entries w
+       JOIN courts c ON c.id = w.court_id
+       JOIN facilities f ON f.id = w.facility_id
+      WHERE w.user_id = $1
+        AND w.status IN ('waiting', 'offered')
+        AND w.booking_date >= CURRENT_DATE
+        AND ($2::varchar IS NULL OR w.facility_id = $2)
+      ORDER BY w.booking_date ASC, w.start_time ASC`,
+    [userId, facilityId ?? null]
+  );
+  return result.rows;
+}
+
+/**
+ * Leave the queue. Giving up an open offer passes the slot straight to the
+ * next member in line instead of waiting for the offer to time out.
+ */
+export async function leaveCourtWaitlist(entryId: string, userId: string): Promise<void> {
+  const existing = await query(
+    `SELECT ${ENTRY_COLUMNS}
+       FROM court_waitlist_entries w
+      WHERE w.id = $1 AND w.user_id = $2 AND w.status IN ('waiting', 'offered')`,
+    [entryId, userId]
+  );
+  const entry = existing.rows[0] as CourtWaitlistEntry | undefined;
+  if (!entry) throw new CourtWaitlistError('Waitlist entry not found', 404);
+
+  await query(
+    `UPDATE court_waitlist_entries SET status = 'cancelled'
+      WHERE id = $1 AND status IN ('waiting', 'offered')`,
+    [entryId]
+  );
+
+  if (entry.status === 'offered') {
+    await offerFreedSlot(entry).catch((error) =>
+      console.error('Court waitlist re-offer after leave failed:', error)
+    );
+  }
+}
+
+/**
+ * True when someone other than `userId` holds an unexpired offer overlapping
+ * the window. Called inside createBooking's court-locked transaction so the
+ * offeree's claim can't be sniped by a direct booking.
+ */
+export async function isSlotHeldForAnotherMember(
+  client: Pick<PoolClient, 'query'>,
+  slot: { courtId: string; bookingDate: string; startTime: string; endTime: string; userId: string }
+): Promise<boolean> {
+  const held = await client.query(
+    `SELECT 1 FROM court_waitlist_entries
+      WHERE court_id = $1 AND booking_date = $2
+        AND status = 'offered' AND offer_expires_at > NOW()
+        AND user_id != $5
+        AND start_time < $4 AND end_time > $3
+      LIMIT 1`,
+    [slot.courtId, slot.bookingDate, slot.startTime, slot.endTime, slot.userId]
+  );
+  return held.rows.length > 0;
+}
+
+/**
+ * Offer a freed window to the queue. Walks waiting entries that overlap it in
+ * join order and offers each one whose window is now clear of bookings and
+ * open offers and who passes the rules engine today. Non-overlapping windows
+ * inside one long cancellation can each go to a different member.
+ *
+ * Returns the number of offers made. No-op when the facility hasn't enabled
+ * the waitlist.
+ */
+export async function offerFreedSlot(slot: FreedSlot): Promise<number> {
+  if (!(await isFeatureEnabled(slot.facilityId, FEATURE_FLAGS.COURT_WAITLIST))) return 0;
+
+  const candidates = await query(
+    `SELECT ${ENTRY_COLUMNS}
+       FROM court_waitlist_entries w
+      WHERE w.court_id = $1 AND w.booking_date = $2 AND w.status = 'waiting'
+        AND w.start_time < $4 AND w.end_time > $3
+      ORDER BY w.created_at ASC`,
+    [slot.courtId, slot.bookingDate, slot.startTime, slot.endTime]
+  );
+
+  let offered = 0;
+  for (const entry of candidates.rows as CourtWaitlistEntry[]) {
+    const stillTaken = await query(
+      `SELECT 1 FROM bookings
+        WHERE court_id = $1 AND booking_date = $2 AND status != 'cancelled'
+          AND start_time < $4 AND end_time > $3
+       UNION ALL
+       SELECT 1 FROM court_waitlist_entries
+        WHERE court_id = $1 AND booking_date = $2 AND status = 'offered'
+          AND offer_expires_at > NOW()
+          AND start_time < $4 AND end_time > $3
+       LIMIT 1`,
+      [entry.courtId, entry.bookingDate, entry.startTime, entry.endTime]
+    );
+    if (stillTaken.rows.length > 0) continue;
+
+    const evaluation = await validateBooking({
+      courtId: entry.courtId,
+      userId: entry.userId,
+      facilityId: entry.facilityId,
+      bookingDate: entry.bookingDate,
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      durationMinutes: minutesOf(entry.endTime) - minutesOf(entry.startTime),
+    });
+    if (!evaluation.allowed) continue;
+
+    const updated = await query(
+      `UPDATE court_waitlist_entries
+          SET status = 'offered',
+              offered_at = NOW(),
+              offer_expires_at = NOW() + ($2 || ' minutes')::interval
+        WHERE id = $1 AND status = 'waiting'
+        RETURNING offer_expires_at as "offerExpiresAt"`,
+      [entry.id, String(CLAIM_WINDOW_MINUTES)]
+    );
+    if (updated.rows.length === 0) continue;
+
+    offered += 1;
+    await notifyOffer({ ...entry, offerExpiresAt: updated.rows[0].offerExpiresAt }).catch((error) =>
+      console.error('Court waitlist offer notification failed:', error)
+    );
+  }
+  return offered;
+}
+
+async function notifyOffer(entry: CourtWaitlistEntry): Promise<void> {
+  const details = await query(
+    `SELECT c.name as "courtName", f.name as "facilityName",
+            COALESCE(f.timezone, 'America/New_York') as timezone,
+            u.email, u.full_name as "fullName"
+       FROM courts c
+       JOIN facilities f ON f.id = c.facility_id
+       JOIN users u ON u.id = $2
+      WHERE c.id = $1`,
+    [entry.courtId, entry.userId]
+  );
+  const row = details.rows[0];
+  if (!row) return;
+
+  const dateLabel = new Date(`${entry.bookingDate}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+  const timeLabel = `${formatTime12h(entry.startTime)} – ${formatTime12h(entry.endTime)}`;
+  const claimByLabel = new Date(entry.offerExpiresAt!).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: row.timezone,
+  });
+
+  await notificationService.createNotification(
+    entry.userId,
+    'A waitlisted court opened up',
+    `${row.courtName} at ${row.facilityName} is free on ${dateLabel}, ${timeLabel}. Claim it by ${claimByLabel} before it goes to the next member.`,
+    'court_waitlist_offer',
+    {
+      actionUrl: `/my-reservations?facilityId=${encodeURIComponent(entry.facilityId)}`,
+      priority: 'high',
+      pushData: {
+        waitlistEntryId: entry.id,
+        facilityId: entry.facilityId,
+        courtId: entry.courtId,
+        bookingDate: entry.bookingDate,
+      },
+    }
+  );
+
+  if (row.email) {
+    await sendCourtWaitlistOfferEmail(
+      row.email,
+      row.fullName || 'there',
+      row.facilityName,
+      row.courtName,
+      dateLabel,
+      timeLabel,
+      claimByLabel,
+      entry.userId
+    );
+  }
+}
+
+/**
+ * Claim an open offer by booking the slot. createBooking re-runs the rules
+ * engine and the payment flow, so a paid court returns a checkout URL — the
+ * entry stays 'offered' until the booking row exists, and the expiry sweep
+ * marks it claimed once checkout finalizes inside the window.
+ */
+export async function claimCourtWaitlistOffer(params: {
+  entryId: string;
+  userId: string;
+  successUrl?: string;
+  cancelUrl?: string;
+}): Promise<BookingResult> {
+  const result = await query(
+    `SELECT ${ENTRY_COLUMNS}
+       FROM court_waitlist_entries w
+      WHERE w.id = $1 AND w.user_id = $2`,
+    [params.entryId, params.userId]
+  );
+  const entry = result.rows[0] as CourtWaitlistEntry | undefined;
+  if (!entry) throw new CourtWaitlistError('Waitlist entry not found', 404);
+  if (entry.status !== 'offered') {
+    throw new CourtWaitlistError('There is no open offer on this waitlist entry');
+  }
+  if (!entry.offerExpiresAt || new Date(entry.offerExpiresAt) <= new Date()) {
+    throw new CourtWaitlistError('This offer has expired');
+  }
+
+  const booking = await createBooking({
+    courtId: entry.courtId,
+    userId: entry.userId,
+    facilityId: entry.facilityId,
+    bookingDate: entry.bookingDate,
+    startTime: entry.startTime,
+    endTime: entry.endTime,
+    durationMinutes: minutesOf(entry.endTime) - minutesOf(entry.startTime),
+    successUrl: params.successUrl,
+    cancelUrl: params.cancelUrl,
+  });
+
+  if (booking.success && booking.booking?.id) {
+    await query(
+      `UPDATE court_waitlist_entries
+          SET status = 'claimed', claimed_booking_id = $2
+        WHERE id = $1`,
+      [entry.id, booking.booking.id]
+    );
+  }
+  return booking;
+}
+
+/**
+ * Run by the recurring court_waitlist_offer_expiry job (backgroundJobs.ts):
+ * settles offers whose checkout finished, times out unclaimed offers and
+ * re-offers their windows, and retires entries for dates that have passed.
+ * Returns the number of offers that timed out.
+ */
+export async function expireCourtWaitlistOffers(): Promise<number> {
+  const expired = await transaction(async (client) => {
+    await client.query(
+      `UPDATE court_waitlist_entries w
+          SET status = 'claimed',
+              claimed_booking_id = b.id
+         FROM bookings b
+        WHERE w.status = 'offered'
+          AND b.court_id = w.court_id AND b.booking_date = w.booking_date
+          AND b.user_id = w.user_id AND b.status != 'cancelled'
+          AND b.start_time <= w.start_time AND b.end_time >= w.end_time`
+    );
+    const timedOut = await client.query(
+      `UPDATE court_waitlist_entries
+          SET status = 'expired'
+        WHERE status = 'offered' AND offer_expires_at <= NOW()
+        RETURNING facility_id as "facilityId", court_id as "courtId",
+                  TO_CHAR(booking_date, 'YYYY-MM-DD') as "bookingDate",
+                  start_time as "startTime", end_time as "endTime"`
+    );
+    await client.query(
+      `UPDATE court_waitlist_entries
+          SET status = 'expired'
+        WHERE status IN ('waiting', 'offered') AND booking_date < CURRENT_DATE`
+    );
+    return timedOut.rows as FreedSlot[];
+  });
+
+  for (const slot of expired) {
+    await offerFreedSlot(slot).catch((error) =>
+      console.error('Court waitlist re-offer after expiry failed:', error)
+    );
+  }
+  return expired.length;
+}
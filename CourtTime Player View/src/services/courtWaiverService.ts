@@ -261,7 +261,9 @@ export async function buildCourtWaiverBookingBlocker(
 export async function acceptCourtWaiverForUser(
   userId: string,
   courtId: string,
-  ipAddress?: string | null
+  ipAddress?: string | null,
+  /** The parent accepting on a dependent's behalf, if any. */
+  acceptedByUserId?: string | null
 ): Promise<{ acceptedVersionNumber: number; acceptedAt: string }> {
   return transaction(async (client) => {
     const currentResult = await client.query(
@@ -285,10 +287,11 @@ export async function acceptCourtWaiverForUser(
          court_id,
          waiver_version_id,
          version_number,
-         ip_address
-       ) VALUES ($1, $2, $3, $4, $5)
+         ip_address,
+         accepted_by_user_id
+       ) VALUES ($1, $2, $3, $4, $5, $6)
        RETURNING accepted_at as "acceptedAt"`,
-      [userId, courtId, current.id, versionNumber, ipAddress || null]
+      [userId, courtId, current.id, versionNumber, ipAddress || null, acceptedByUserId || null]
     );
 
     return {
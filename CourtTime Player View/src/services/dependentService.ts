@@ -0,0 +1,234 @@
+/**
+ * Junior/dependent profiles (migration 103).
+ *
+ * A dependent is a users row with parent_user_id set and no email or password:
+ * it can't sign in, but it is a real player everywhere a user id goes. The
+ * parent creates and edits it, books courts and signs it up for drills and
+ * clinics, accepts court waivers for it (recorded as parental consent), and
+ * receives its notifications and email.
+ *
+ * A new dependent joins each facility the parent is an active member of as a
+ * Junior member, and each household the parent belongs to.
+ */
+
+import type { PoolClient } from 'pg';
+import { query, transaction } from '../database/connection';
+
+/** Thrown for caller mistakes; `status` is the HTTP status the route should return. */
+export class DependentError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'DependentError';
+  }
+}
+
+/** Dependent profiles are for players under this age. */
+export const DEPENDENT_MAX_AGE = 18;
+
+export type DependentGender = 'male' | 'female' | 'other' | 'prefer_not_to_say';
+
+export interface Dependent {
+  id: string;
+  parentUserId: string;
+  firstName: string;
+  lastName: string;
+  fullName: string;
+  dateOfBirth: string;
+  gender: DependentGender | null;
+  createdAt: string;
+}
+
+export interface DependentInput {
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  gender?: DependentGender | null;
+}
+
+const GENDERS: DependentGender[] = ['male', 'female', 'other', 'prefer_not_to_say'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const DEPENDENT_COLUMNS = `
+  id,
+  parent_user_id AS "parentUserId",
+  first_name AS "firstName",
+  last_name AS "lastName",
+  full_name AS "fullName",
+  TO_CHAR(date_of_birth, 'YYYY-MM-DD') AS "dateOfBirth",
+  gender,
+  created_at AS "createdAt"`;
+
+/** Whole years between a YYYY-MM-DD birth date and `today` (also YYYY-MM-DD). */
+export function ageOn(dateOfBirth: string, today: string): number {
+  const [by, bm, bd] = dateOfBirth.split('-').map(Number);
+  const [ty, tm, td] = today.split('-').map(Number);
+  return ty - by - (tm < bm || (tm === bm && td < bd) ? 1 : 0);
+}
+
+/** Validates and trims a create/update request. */
+export function normalizeDependentInput(input: Partial<DependentInput>, today: string): DependentInput {
+  const firstName = String(input.firstName ?? '').trim();
+  const lastName = String(input.lastName ?? '').trim();
+  if (!firstName || !lastName) throw new DependentError('First and last name are required');
+  if (firstName.length > 100 || lastName.length > 100) throw new DependentError('Names must be 100 characters or fewer');
+
+  const dateOfBirth = String(input.dateOfBirth ?? '');
+  if (!DATE_PATTERN.test(dateOfBirth) || Number.isNaN(Date.parse(`${dateOfBirth}T00:00:00Z`))) {
+    throw new DependentError('Date of birth must be YYYY-MM-DD');
+  }
+  if (dateOfBirth > today) throw new DependentError('Date of birth cannot be in the future');
+  if (ageOn(dateOfBirth, today) >= DEPENDENT_MAX_AGE) {
+    throw new DependentError(`Dependent profiles are for players under ${DEPENDENT_MAX_AGE}; older players need their own account`);
+  }
+
+  const gender = input.gender ?? null;
+  if (gender !== null && !GENDERS.includes(gender)) throw new DependentError('Invalid gender');
+
+  return { firstName, lastName, dateOfBirth, gender };
+}
+
+function todayYmd(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export async function listDependents(parentUserId: string): Promise<Dependent[]> {
+  const result = await query(
+    `SELECT ${DEPENDENT_COLUMNS} FROM users WHERE parent_user_id = $1 ORDER BY date_of_birth, first_name`,
+    [parentUserId]
+  );
+  return result.rows;
+}
+
+/** True when `userId` is a dependent managed by `parentUserId`. */
+export async function isGuardianOf(parentUserId: string, userId: string): Promise<boolean> {
+  if (!parentUserId || !userId || parentUserId === userId) return false;
+  const result = await query(`SELECT 1 FROM users WHERE id = $1 AND parent_user_id = $2`, [userId, parentUserId]);
+  return result.rows.length > 0;
+}
+
+/**
+ * The user a request acts as: the caller, or one of the caller's dependents
+ * when `dependentId` is given. Anyone else's id is refused.
+ */
+export async function resolveActingUserId(callerUserId: string, dependentId?: unknown): Promise<string> {
+  if (dependentId === undefined || dependentId === null || dependentId === '' || dependentId === callerUserId) {
+    return callerUserId;
+  }
+  if (typeof dependentId !== 'string' || !(await isGuardianOf(callerUserId, dependentId))) {
+    throw new DependentError('You can only act for your own dependents', 403);
+  }
+  return dependentId;
+}
+
+/**
+ * Where a user's notifications and email go: the parent for a dependent, the
+ * user themselves otherwise. `dependentName` is set when redirected.
+ */
+export async function getNotificationRecipient(
+  userId: string
+): Promise<{ userId: string; email: string | null; dependentName: string | null }> {
+  const result = await query(
+    `SELECT u.parent_user_id, u.first_name, u.email, p.email AS parent_email
+       FROM users u
+       LEFT JOIN users p ON p.id = u.parent_user_id
+      WHERE u.id = $1`,
+    [userId]
+  );
+  const row = result.rows[0];
+  if (!row?.parent_user_id) return { userId, email: row?.email ?? null, dependentName: null };
+  return { userId: row.parent_user_id, email: row.parent_email ?? null, dependentName: row.first_name };
+}
+
+async function enrollDependent(client: PoolClient, parentUserId: string, dependentId: string): Promise<void> {
+  await client.query(
+    `INSERT INTO facility_memberships (user_id, facility_id, membership_type, status, start_date)
+     SELECT $2, fm.facility_id, 'Junior', 'active', CURRENT_DATE
+       FROM facility_memberships fm
+      WHERE fm.user_id = $1 AND fm.status = 'active'
+     ON CONFLICT (user_id, facility_id) DO NOTHING`,
+    [parentUserId, dependentId]
+  );
+  // Households cap login accounts per address (max_members); a dependent has
+  // no login, so it joins regardless.
+  await client.query(
+    `INSERT INTO household_members (household_id, user_id, is_primary, verification_status, added_by, verified_at, verified_by)
+     SELECT hm.household_id, $2, false, 'verified', $1, CURRENT_TIMESTAMP, $1
+       FROM household_members hm
+      WHERE hm.user_id = $1 AND hm.verification_status != 'rejected'
+     ON CONFLICT (household_id, user_id) DO NOTHING`,
+    [parentUserId, dependentId]
+  );
+}
+
+export async function createDependent(parentUserId: string, input: Partial<DependentInput>): Promise<Dependent> {
+  const data = normalizeDependentInput(input, todayYmd());
+
+  return transaction(async (client) => {
+    const parent = await client.query(`SELECT parent_user_id FROM users WHERE id = $1`, [parentUserId]);
+    if (parent.rows.length === 0) throw new DependentError('User not found', 404);
+    if (parent.rows[0].parent_user_id) throw new DependentError('A dependent cannot have dependents');
+
+    const inserted = await client.query(
+      `INSERT INTO users (full_name, first_name, last_name, date_of_birth, gender, user_type, parent_user_id)
+       VALUES ($1, $2, $3, $4, $5, 'player', $6)
+       RETURNING ${DEPENDENT_COLUMNS}`,
+      [`${data.firstName} ${data.lastName}`, data.firstName, data.lastName, data.dateOfBirth, data.gender, parentUserId]
+    );
+    const dependent: Dependent = inserted.rows[0];
+    await enrollDependent(client, parentUserId, dependent.id);
+    return dependent;
+  });
+}
+
+export async function updateDependent(
+  parentUserId: string,
+  dependentId: string,
+  input: Partial<DependentInput>
+): Promise<Dependent> {
+  const data = normalizeDependentInput(input, todayYmd());
+  const result = await query(
+    `UPDATE users
+        SET full_name = $3, first_name = $4, last_name = $5, date_of_birth = $6, gender = $7,
+            updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND parent_user_id = $2
+      RETURNING ${DEPENDENT_COLUMNS}`,
+    [dependentId, parentUserId, `${data.firstName} ${data.lastName}`, data.firstName, data.lastName, data.dateOfBirth, data.gender]
+  );
+  if (result.rows.length === 0) throw new DependentError('Dependent not found', 404);
+  return result.rows[0];
+}
+
+/** Removes the profile along with its bookings, signups and memberships. */
+export async function removeDependent(parentUserId: string, dependentId: string): Promise<void> {
+  const result = await query(
+    `DELETE FROM users WHERE id = $1 AND parent_user_id = $2 RETURNING id`,
+    [dependentId, parentUserId]
+  );
+  if (result.rows.length === 0) throw new DependentError('Dependent not found', 404);
+}
+
+export interface DependentBooking {
+  id: string;
+  courtName: string;
+  facilityId: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  bookingType: string | null;
+}
+
+/** A dependent's upcoming, uncancelled court bookings, for the parent's family view. */
+export async function getDependentUpcomingBookings(parentUserId: string, dependentId: string): Promise<DependentBooking[]> {
+  if (!(await isGuardianOf(parentUserId, dependentId))) throw new DependentError('Dependent not found', 404);
+  const result = await query(
+    `SELECT b.id, c.name AS "courtName", b.facility_id AS "facilityId",
+            TO_CHAR(b.booking_date, 'YYYY-MM-DD') AS "bookingDate",
+            b.start_time AS "startTime", b.end_time AS "endTime", b.booking_type AS "bookingType"
+       FROM bookings b
+       JOIN courts c ON c.id = b.court_id
+      WHERE b.user_id = $1 AND b.status != 'cancelled' AND b.booking_date >= CURRENT_DATE
+      ORDER BY b.booking_date, b.start_time`,
+    [dependentId]
+  );
+  return result.rows;
+}
@@ -5,6 +5,7 @@
  */
 
 import { query } from '../database/connection';
+import { getNotificationRecipient } from './dependentService';
 import {
   EMAIL_TEMPLATE_TYPES,
   renderTemplate,
@@ -21,7 +22,13 @@ interface EmailSendResult {
 }
 
 /** Which preference column gates this send (each can be toggled independently). */
-export type TransactionalEmailCategory = 'general' | 'booking' | 'membership_request' | 'strike';
+export type TransactionalEmailCategory =
+  | 'general'
+  | 'booking'
+  | 'booking_reminder'
+  | 'membership_request'
+  | 'strike'
+  | 'billing';
 
 async function shouldSendTransactionalEmail(
   userId: string | undefined,
@@ -31,9 +38,12 @@ async function shouldSendTransactionalEmail(
   const prefs = await import('./userPreferencesService');
   switch (category) {
     case 'strike':
+    case 'billing':
       return true;
     case 'booking':
       return prefs.isEmailBookingConfirmationsEnabled(userId);
+    case 'booking_reminder':
+      return prefs.isEmailBookingRemindersEnabled(userId);
     case 'membership_request':
       return prefs.isEmailMembershipRequestAlertsEnabled(userId);
     default:
@@ -51,6 +61,14 @@ async function sendEmail(
   userId?: string,
   category: TransactionalEmailCategory = 'general'
 ): Promise<EmailSendResult> {
+  // Dependents have no email address of their own; their mail goes to the parent
+  if (!to && userId) {
+    const recipient = await getNotificationRecipient(userId);
+    if (!recipient.email) return { success: true, status: null };
+    to = recipient.email;
+    userId = recipient.userId;
+  }
+
   if (!(await shouldSendTransactionalEmail(userId, category))) {
     return { success: true, status: null };
   }
@@ -257,6 +275,44 @@ export async function sendBookingCancellationEmail(
   );
 }
 
+/**
+ * Send a reminder before an upcoming booking, with confirm / release links
+ */
+export async function sendBookingReminderEmail(
+  email: string,
+  fullName: string,
+  facilityId: string,
+  facilityName: string,
+  courtName: string,
+  bookingDate: string,
+  startTime: string,
+  endTime: string,
+  hoursUntil: number,
+  confirmUrl: string,
+  releaseUrl: string,
+  userId?: string
+): Promise<boolean> {
+  return sendTemplatedEmail(
+    email,
+    facilityId,
+    facilityName,
+    'booking_reminder',
+    {
+      playerName: fullName,
+      facilityName,
+      courtName,
+      date: bookingDate,
+      startTime,
+      endTime,
+      hoursUntil: String(hoursUntil),
+      confirmUrl,
+      releaseUrl,
+    },
+    userId,
+    'booking_reminder'
+  );
+}
+
 // =====================================================
 // STRIKE EMAILS
 // =====================================================
@@ -387,6 +443,19 @@ export async function sendAnnouncementEmail(
   return sendEmail(email, `${subject} - ${facilityName}`, fullHtml, userId, 'general');
 }
 
+/**
+ * Send an org marketing campaign email, already rendered per recipient
+ * (merge fields, tracking) by pickleCampaignTemplateService.
+ */
+export async function sendCampaignEmail(
+  email: string,
+  subject: string,
+  html: string,
+  userId?: string
+): Promise<EmailSendResult> {
+  return sendEmail(email, subject, html, userId, 'general');
+}
+
 function escapeHtml(text: string): string {
   return text
     .replace(/&/g, '&amp;')
@@ -506,3 +575,100 @@ export async function sendBulletinMinParticipantsNotMetEmail(
   const html = wrapInEmailLayout(bodyContent, facilityName);
   return sendEmail(email, `${eventType} Cancelled - ${eventTitle}`, html, userId, 'booking');
 }
+
+/**
+ * Offer a waitlisted member a court slot that just opened up
+ */
+export async function sendCourtWaitlistOfferEmail(
+  email: string,
+  fullName: string,
+  facilityName: string,
+  courtName: string,
+  dateLabel: string,
+  timeLabel: string,
+  claimByLabel: string,
+  userId?: string
+): Promise<EmailSendResult> {
+  const bodyContent = `
+    <p style="color: #374151; margin-top: 0;">Hi ${escapeHtml(fullName)},</p>
+    <p style="color: #374151;">A reservation was cancelled and the court you waitlisted is now open.</p>
+    <div style="background-color: #ecfdf5; border: 1px solid #6ee7b7; border-radius: 8px; padding: 16px; margin: 20px 0;">
+      <p style="margin: 4px 0; color: #374151;"><strong>Court:</strong> ${escapeHtml(courtName)}</p>
+      <p style="margin: 4px 0; color: #374151;"><strong>Date:</strong> ${dateLabel}</p>
+      <p style="margin: 4px 0; color: #374151;"><strong>Time:</strong> ${timeLabel}</p>
+    </div>
+    <p style="color: #374151;">The slot is held for you until <strong>${claimByLabel}</strong>. Open My Reservations in CourtTime to claim it.</p>
+    <p style="color: #6b7280; font-size: 14px;">If you don't claim it in time, it will be offered to the next member on the waitlist.</p>
+  `;
+  const html = wrapInEmailLayout(bodyContent, facilityName);
+  return sendEmail(email, `Court Available - ${courtName}`, html, userId, 'booking');
+}
+
+/**
+ * Annual fee dunning: sent after each failed retry of a past-due installment.
+ * `nextRetryAt` is null on the final failure, when the account is locked.
+ */
+export async function sendAnnualFeePaymentFailedEmail(
+  email: string,
+  fullName: string,
+  facilityName: string,
+  description: string,
+  amountCents: number,
+  reason: string,
+  nextRetryAt: Date | null,
+  userId?: string
+): Promise<EmailSendResult> {
+  const appUrl = (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '');
+  const paymentsUrl = `${appUrl}/payments`;
+  const amount = `$${(amountCents / 100).toFixed(2)}`;
+  const nextStep = nextRetryAt
+    ? `We'll try your card again on <strong>${nextRetryAt.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}</strong>. Update your saved card before then to avoid a payment lockout.`
+    : 'This was our final attempt, so your account has been locked until the fee is paid. Open Payments in CourtTime to pay it and restore access.';
+
+  const bodyContent = `
+    <p style="color: #374151; margin-top: 0;">Hi ${escapeHtml(fullName)},</p>
+    <p style="color: #374151;">We couldn't collect your membership fee at <strong>${escapeHtml(facilityName)}</strong>.</p>
+    <div style="background-color: ${nextRetryAt ? '#fffbeb' : '#fef2f2'}; border: 1px solid ${nextRetryAt ? '#fcd34d' : '#fecaca'}; border-radius: 8px; padding: 16px; margin: 20px 0;">
+      <p style="margin: 4px 0; color: #374151;"><strong>${escapeHtml(description)}</strong></p>
+      <p style="margin: 4px 0; color: #374151;"><strong>Amount:</strong> ${amount}</p>
+      <p style="margin: 4px 0; color: #374151;"><strong>Reason:</strong> ${escapeHtml(reason)}</p>
+    </div>
+    <p style="color: #374151;">${nextStep}</p>
+    <p style="margin: 24px 0 0;">
+      <a href="${paymentsUrl}" style="display: inline-block; background-color: #16a34a; color: #ffffff; text-decoration: none; padding: 12px 20px; border-radius: 8px; font-weight: 600;">${nextRetryAt ? 'Update payment method' : 'Pay now'}</a>
+    </p>
+  `;
+  const html = wrapInEmailLayout(bodyContent, facilityName);
+  const subject = nextRetryAt
+    ? `Payment failed - ${facilityName} membership fee`
+    : `Account locked - ${facilityName} membership fee unpaid`;
+  return sendEmail(email, subject, html, userId, 'billing');
+}
+
+/**
+ * Household consolidated statement, sent to the billing payer after each month
+ * closes. `statementTable` is pre-rendered (and escaped) by householdBillingService.
+ */
+export async function sendHouseholdStatementEmail(
+  email: string,
+  fullName: string,
+  facilityName: string,
+  householdName: string,
+  monthLabel: string,
+  statementTable: string,
+  userId?: string
+): Promise<EmailSendResult> {
+  const appUrl = (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '');
+  const paymentsUrl = `${appUrl}/payments`;
+
+  const bodyContent = `
+    <p style="color: #374151; margin-top: 0;">Hi ${escapeHtml(fullName)},</p>
+    <p style="color: #374151;">Here is the ${escapeHtml(monthLabel)} statement for <strong>${escapeHtml(householdName)}</strong> at <strong>${escapeHtml(facilityName)}</strong>. These charges were billed to your saved card.</p>
+    <div style="margin: 20px 0;">${statementTable}</div>
+    <p style="margin: 24px 0 0;">
+      <a href="${paymentsUrl}" style="display: inline-block; background-color: #16a34a; color: #ffffff; text-decoration: none; padding: 12px 20px; border-radius: 8px; font-weight: 600;">View statements</a>
+    </p>
+  `;
+  const html = wrapInEmailLayout(bodyContent, facilityName);
+  return sendEmail(email, `${monthLabel} family statement - ${facilityName}`, html, userId, 'billing');
+}
@@ -87,6 +87,8 @@ export const EMAIL_TEMPLATE_TYPES: Record<string, TemplateTypeConfig> = {
       { key: '{{startTime}}', description: 'Start time', sampleValue: '10:00 AM' },
       { key: '{{endTime}}', description: 'End time', sampleValue: '11:00 AM' },
       { key: '{{hoursUntil}}', description: 'Hours until booking', sampleValue: '2' },
+      { key: '{{confirmUrl}}', description: 'Link to confirm the booking', sampleValue: 'https://app.courttime.com/booking-reminder/abc123?action=confirm' },
+      { key: '{{releaseUrl}}', description: 'Link to release the court without a strike', sampleValue: 'https://app.courttime.com/booking-reminder/abc123?action=release' },
     ],
     defaultSubject: 'Upcoming Booking Reminder - {{facilityName}}',
     defaultBody: `<h2 style="color: #2563eb;">Booking Reminder</h2>
@@ -97,6 +99,11 @@ export const EMAIL_TEMPLATE_TYPES: Record<string, TemplateTypeConfig> = {
   <p style="margin: 4px 0; color: #374151;"><strong>Date:</strong> {{date}}</p>
   <p style="margin: 4px 0; color: #374151;"><strong>Time:</strong> {{startTime}} - {{endTime}}</p>
 </div>
+<p style="margin: 24px 0;">
+  <a href="{{confirmUrl}}" style="display: inline-block; background-color: #16a34a; color: #ffffff; text-decoration: none; padding: 12px 20px; border-radius: 8px; font-weight: 600;">I'll be there</a>
+  <a href="{{releaseUrl}}" style="display: inline-block; margin-left: 8px; background-color: #ffffff; color: #374151; border: 1px solid #d1d5db; text-decoration: none; padding: 11px 20px; border-radius: 8px; font-weight: 600;">Release court</a>
+</p>
+<p style="color: #666; font-size: 14px;">Can't make it? Releasing the court before your start time cancels the booking with no strike and opens it for other members.</p>
 <p style="color: #666; font-size: 14px;">See you on the court!</p>`,
   },
 
@@ -0,0 +1,88 @@
+/**
+ * Expo Push API client for the device tokens registered through
+ * /api/notifications/register-device (user_push_tokens).
+ */
+
+import { query } from '../database/connection';
+
+const EXPO_PUSH_SEND_URL = 'https://exp.host/--/api/v2/push/send';
+const EXPO_PUSH_RECEIPTS_URL = 'https://exp.host/--/api/v2/push/getReceipts';
+const SEND_BATCH_SIZE = 100;
+const RECEIPT_BATCH_SIZE = 1000;
+
+export interface ExpoPushMessage {
+  to: string;
+  title: string;
+  body: string;
+  sound?: 'default';
+  data?: Record<string, string>;
+}
+
+/** Expo's answer for one message: accepted (with a receipt id) or rejected. */
+export type ExpoPushTicket =
+  | { status: 'ok'; id: string }
+  | { status: 'error'; message: string; details?: { error?: string } };
+
+/** Whether Expo handed the message to Apple/Google, looked up by ticket id. */
+export type ExpoPushReceipt =
+  | { status: 'ok' }
+  | { status: 'error'; message: string; details?: { error?: string } };
+
+export function isExpoPushToken(token: string): boolean {
+  return token.startsWith('ExponentPushToken[');
+}
+
+/** The user's registered Expo tokens (web and other non-Expo tokens are left out). */
+export async function getUserPushTokens(userId: string): Promise<string[]> {
+  const result = await query(`SELECT push_token FROM user_push_tokens WHERE user_id = $1`, [userId]);
+  return result.rows.map((row: { push_token: string }) => row.push_token).filter(isExpoPushToken);
+}
+
+/** Drops tokens Expo reported as DeviceNotRegistered (app uninstalled or token rotated). */
+export async function removePushTokens(tokens: string[]): Promise<void> {
+  if (tokens.length === 0) return;
+  await query(`DELETE FROM user_push_tokens WHERE push_token = ANY($1::text[])`, [tokens]);
+}
+
+/**
+ * Sends in batches of 100 (Expo's limit) and returns one ticket per message,
+ * in order. A batch that fails outright yields error tickets for its messages.
+ */
+export async function sendExpoPushMessages(messages: ExpoPushMessage[]): Promise<ExpoPushTicket[]> {
+  const tickets: ExpoPushTicket[] = [];
+  for (let i = 0; i < messages.length; i += SEND_BATCH_SIZE) {
+    const batch = messages.slice(i, i + SEND_BATCH_SIZE);
+    try {
+      const response = await fetch(EXPO_PUSH_SEND_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(batch),
+      });
+      const json = (await response.json().catch(() => ({}))) as { data?: ExpoPushTicket[] };
+      if (!response.ok || !Array.isArray(json.data)) {
+        throw new Error(`Expo push responded ${response.status}`);
+      }
+      tickets.push(...json.data);
+    } catch (error: any) {
+      const message = error?.message || 'Push request failed';
+      tickets.push(...batch.map((): ExpoPushTicket => ({ status: 'error', message })));
+    }
+  }
+  return tickets;
+}
+
+/** Receipts by ticket id; ids Expo hasn't processed yet are missing from the result. */
+export async function getExpoPushReceipts(ticketIds: string[]): Promise<Record<string, ExpoPushReceipt>> {
+  const receipts: Record<string, ExpoPushReceipt> = {};
+  for (let i = 0; i < ticketIds.length; i += RECEIPT_BATCH_SIZE) {
+    const response = await fetch(EXPO_PUSH_RECEIPTS_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ids: ticketIds.slice(i, i + RECEIPT_BATCH_SIZE) }),
+    });
+    if (!response.ok) throw new Error(`Expo receipts responded ${response.status}`);
+    const json = (await response.json()) as { data?: Record<string, ExpoPushReceipt> };
+    Object.assign(receipts, json.data ?? {});
+  }
+  return receipts;
+}
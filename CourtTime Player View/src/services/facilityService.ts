@@ -22,7 +22,9 @@ const ALLOWED_BOOKING_RULE_CODES = new Set([
   'CRT-001',
   'CRT-002',
   'HH-001',
-  'HH-003'
+  'HH-003',
+  'ACC-012',
+  'ACC-013'
 ]);
 
 /**
@@ -0,0 +1,404 @@
+/**
+ * Guest registry — every guest a member brings to a facility, and each visit.
+ *
+ * Bookings name their guests (optionally with an email). createBooking records
+ * one guest_visits row per guest inside the booking transaction, registering
+ * the guest on first sight. Later bookings are matched to the same guest by
+ * email, or by name when none was given, so the ACC-012 (visits per host) and
+ * ACC-013 (visits per guest) account rules can count history. Visits on
+ * cancelled bookings are kept but never counted.
+ */
+
+import type { PoolClient } from 'pg';
+import { query } from '../database/connection';
+import type { BookingGuest, GuestVisitRecord, RequestedGuest } from './rulesEngine/types';
+
+/** Thrown for caller mistakes; `status` is the HTTP status the route should return. */
+export class GuestRegistryError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'GuestRegistryError';
+  }
+}
+
+export interface FacilityGuest {
+  id: string;
+  fullName: string;
+  email: string | null;
+  createdAt: string;
+  visitsThisYear: number;
+  totalVisits: number;
+  lastVisitDate: string | null;
+  lastHostName: string | null;
+}
+
+export interface GuestVisit {
+  id: string;
+  bookingId: string;
+  visitDate: string;
+  startTime: string;
+  courtName: string;
+  hostUserId: string;
+  hostName: string;
+  feeCents: number;
+  bookingStatus: string;
+}
+
+export interface GuestActivityHostRow {
+  hostUserId: string;
+  hostName: string;
+  hostEmail: string | null;
+  visits: number;
+  uniqueGuests: number;
+  feeCents: number;
+}
+
+export interface GuestActivityGuestRow {
+  guestId: string;
+  fullName: string;
+  email: string | null;
+  visits: number;
+  hosts: number;
+  lastVisitDate: string;
+}
+
+export interface GuestActivityReport {
+  start: string;
+  end: string;
+  totalVisits: number;
+  uniqueGuests: number;
+  hostCount: number;
+  totalFeeCents: number;
+  byHost: GuestActivityHostRow[];
+  byGuest: GuestActivityGuestRow[];
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Lowercased, whitespace-collapsed name; how guests without an email are matched. */
+export function guestNameKey(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function normalizeEmail(email: unknown): string | null {
+  if (typeof email !== 'string') return null;
+  const trimmed = email.trim().toLowerCase();
+  return EMAIL_PATTERN.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * The guests named on a booking request: `guests` ([{ name, email }]) when
+ * sent, otherwise the older `guestNames` string list. Blank names are dropped
+ * and repeats (same email, or same name without one) collapse to one guest.
+ */
+export function parseBookingGuests(guests: unknown, guestNames?: unknown): BookingGuest[] {
+  const raw: Array<{ name?: unknown; email?: unknown }> = Array.isArray(guests)
+    ? guests.filter((g): g is Record<string, unknown> => !!g && typeof g === 'object')
+    : Array.isArray(guestNames)
+      ? guestNames.map((name) => ({ name }))
+      : [];
+
+  const seen = new Set<string>();
+  const parsed: BookingGuest[] = [];
+  for (const entry of raw) {
+    if (typeof entry.name !== 'string' || !entry.name.trim()) continue;
+    const name = entry.name.trim().replace(/\s+/g, ' ');
+    const email = normalizeEmail(entry.email);
+    const key = email ?? `name:${guestNameKey(name)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    parsed.push({ name, email });
+  }
+  return parsed;
+}
+
+interface GuestRow {
+  id: string;
+  email: string | null;
+  nameKey: string;
+}
+
+/**
+ * The registry row a guest resolves to. An email only matches that email —
+ * or, failing that, a same-named guest registered without one; a name-only
+ * guest matches by name, preferring a row that has no email either.
+ */
+export function matchRegisteredGuest(guest: BookingGuest, rows: GuestRow[]): GuestRow | null {
+  const nameKey = guestNameKey(guest.name);
+  if (guest.email) {
+    return (
+      rows.find((row) => row.email === guest.email) ??
+      rows.find((row) => !row.email && row.nameKey === nameKey) ??
+      null
+    );
+  }
+  const sameName = rows.filter((row) => row.nameKey === nameKey);
+  return sameName.find((row) => !row.email) ?? sameName[0] ?? null;
+}
+
+async function loadCandidateRows(
+  facilityId: string,
+  guests: BookingGuest[],
+  client?: PoolClient
+): Promise<GuestRow[]> {
+  if (guests.length === 0) return [];
+  const run = client
+    ? (text: string, values: any[]) => client.query(text, values)
+    : (text: string, values: any[]) => query(text, values);
+  const emails = guests.map((g) => g.email).filter((e): e is string => !!e);
+  const nameKeys = guests.map((g) => guestNameKey(g.name));
+  const result = await run(
+    `SELECT id, LOWER(email) AS email, name_key AS "nameKey"
+       FROM facility_guests
+      WHERE facility_id = $1
+        AND (LOWER(email) = ANY($2::text[]) OR name_key = ANY($3::text[]))
+      ORDER BY created_at`,
+    [facilityId, emails, nameKeys]
+  );
+  return result.rows;
+}
+
+/** Match requested guests to the registry without registering anyone (rules evaluation). */
+export async function resolveRequestedGuests(
+  facilityId: string,
+  guests: BookingGuest[]
+): Promise<RequestedGuest[]> {
+  const rows = await loadCandidateRows(facilityId, guests);
+  return guests.map((guest) => ({ ...guest, guestId: matchRegisteredGuest(guest, rows)?.id ?? null }));
+}
+
+/**
+ * Counted visits (booking not cancelled) in the calendar year of `bookingDate`
+ * that either the host made or any of the given guests made with anyone.
+ */
+export async function getGuestVisitsForRules(params: {
+  facilityId: string;
+  hostUserId: string;
+  guestIds: string[];
+  bookingDate: string;
+}): Promise<GuestVisitRecord[]> {
+  const year = params.bookingDate.slice(0, 4);
+  const result = await query(
+    `SELECT v.guest_id AS "guestId", v.host_user_id AS "hostUserId", v.booking_id AS "bookingId",
+            TO_CHAR(v.visit_date, 'YYYY-MM-DD') AS "visitDate"
+       FROM guest_visits v
+       JOIN bookings b ON b.id = v.booking_id
+      WHERE v.facility_id = $1
+        AND (v.host_user_id = $2 OR v.guest_id = ANY($3::uuid[]))
+        AND v.visit_date BETWEEN $4::date AND $5::date
+        AND b.status != 'cancelled'`,
+    [params.facilityId, params.hostUserId, params.guestIds, `${year}-01-01`, `${year}-12-31`]
+  );
+  return result.rows;
+}
+
+/**
+ * Register any new guests and record one visit per guest for a booking. Runs
+ * on the booking transaction's client so the visits commit with the booking.
+ * An email given now is filled in on a guest first registered without one.
+ */
+export async function recordGuestVisits(
+  client: PoolClient,
+  params: {
+    facilityId: string;
+    hostUserId: string;
+    bookingId: string;
+    visitDate: string;
+    guests: BookingGuest[];
+    feeCentsPerGuest: number;
+  }
+): Promise<void> {
+  if (params.guests.length === 0) return;
+  const rows = await loadCandidateRows(params.facilityId, params.guests, client);
+
+  for (const guest of params.guests) {
+    let guestId = matchRegisteredGuest(guest, rows)?.id ?? null;
+    if (!guestId) {
+      const inserted = await client.query(
+        `INSERT INTO facility_guests (facility_id, full_name, email, name_key, created_by)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING id`,
+        [params.facilityId, guest.name, guest.email, guestNameKey(guest.name), params.hostUserId]
+      );
+      guestId = inserted.rows[0].id as string;
+      rows.push({ id: guestId, email: guest.email, nameKey: guestNameKey(guest.name) });
+    } else if (guest.email) {
+      await client.query(
+        `UPDATE facility_guests SET email = $2 WHERE id = $1 AND email IS NULL`,
+        [guestId, guest.email]
+      );
+    }
+
+    await client.query(
+      `INSERT INTO guest_visits (facility_id, guest_id, host_user_id, booking_id, visit_date, fee_cents)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (booking_id, guest_id) DO NOTHING`,
+      [params.facilityId, guestId, params.hostUserId, params.bookingId, params.visitDate, params.feeCentsPerGuest]
+    );
+  }
+}
+
+/** The facility's guests, most recently seen first, optionally filtered by name or email. */
+export async function listFacilityGuests(facilityId: string, search?: string): Promise<FacilityGuest[]> {
+  const term = search?.trim() ? `%${search.trim().toLowerCase()}%` : null;
+  const result = await query(
+    `SELECT g.id, g.full_name AS "fullName", g.email, g.created_at AS "createdAt",
+            COUNT(v.id) FILTER (WHERE EXTRACT(YEAR FROM v.visit_date) = EXTRACT(YEAR FROM CURRENT_DATE))::int AS "visitsThisYear",
+            COUNT(v.id)::int AS "totalVisits",
+            TO_CHAR(MAX(v.visit_date), 'YYYY-MM-DD') AS "lastVisitDate",
+            (SELECT u.full_name
+               FROM guest_visits lv
+               JOIN bookings lb ON lb.id = lv.booking_id AND lb.status != 'cancelled'
+               JOIN users u ON u.id = lv.host_user_id
+              WHERE lv.guest_id = g.id
+              ORDER BY lv.visit_date DESC
+              LIMIT 1) AS "lastHostName"
+       FROM facility_guests g
+       LEFT JOIN guest_visits v ON v.guest_id = g.id
+        AND EXISTS (SELECT 1 FROM bookings b WHERE b.id = v.booking_id AND b.status != 'cancelled')
+      WHERE g.facility_id = $1
+        AND ($2::text IS NULL OR LOWER(g.full_name) LIKE $2 OR LOWER(g.email) LIKE $2)
+      GROUP BY g.id
+      ORDER BY MAX(v.visit_date) DESC NULLS LAST, g.full_name
+      LIMIT 500`,
+    [facilityId, term]
+  );
+  return result.rows;
+}
+
+async function loadGuest(facilityId: string, guestId: string) {
+  const result = await query(
+    `SELECT id, full_name AS "fullName", email, created_at AS "createdAt"
+       FROM facility_guests
+      WHERE id = $1 AND facility_id = $2`,
+    [guestId, facilityId]
+  );
+  const guest = result.rows[0];
+  if (!guest) throw new GuestRegistryError('Guest not found', 404);
+  return guest as { id: string; fullName: string; email: string | null; createdAt: string };
+}
+
+/** One guest and every visit, cancelled bookings included so staff see the whole history. */
+export async function getGuestHistory(
+  facilityId: string,
+  guestId: string
+): Promise<{ guest: { id: string; fullName: string; email: string | null; createdAt: string }; visits: GuestVisit[] }> {
+  const guest = await loadGuest(facilityId, guestId);
+  const visits = await query(
+    `SELECT v.id, v.booking_id AS "bookingId", TO_CHAR(v.visit_date, 'YYYY-MM-DD') AS "visitDate",
+            b.start_time AS "startTime", c.name AS "courtName",
+            v.host_user_id AS "hostUserId", u.full_name AS "hostName",
+            v.fee_cents AS "feeCents", b.status AS "bookingStatus"
+       FROM guest_visits v
+       JOIN bookings b ON b.id = v.booking_id
+       JOIN courts c ON c.id = b.court_id
+       JOIN users u ON u.id = v.host_user_id
+      WHERE v.guest_id = $1
+      ORDER BY v.visit_date DESC, b.start_time DESC`,
+    [guestId]
+  );
+  return { guest, visits: visits.rows };
+}
+
+/** Correct a guest's name or email; an email already on another guest is refused. */
+export async function updateFacilityGuest(
+  facilityId: string,
+  guestId: string,
+  updates: { fullName?: unknown; email?: unknown }
+): Promise<void> {
+  const guest = await loadGuest(facilityId, guestId);
+
+  let fullName = guest.fullName;
+  if (updates.fullName !== undefined) {
+    if (typeof updates.fullName !== 'string' || !updates.fullName.trim()) {
+      throw new GuestRegistryError('Guest name is required');
+    }
+    fullName = updates.fullName.trim().replace(/\s+/g, ' ');
+  }
+
+  let email = guest.email;
+  if (updates.email !== undefined) {
+    if (updates.email === null || updates.email === '') {
+      email = null;
+    } else {
+      email = normalizeEmail(updates.email);
+      if (!email) throw new GuestRegistryError('Enter a valid email address');
+    }
+  }
+
+  if (email) {
+    const taken = await query(
+      `SELECT 1 FROM facility_guests WHERE facility_id = $1 AND LOWER(email) = $2 AND id != $3`,
+      [facilityId, email, guestId]
+    );
+    if (taken.rows.length > 0) {
+      throw new GuestRegistryError('Another guest already has that email', 409);
+    }
+  }
+
+  await query(
+    `UPDATE facility_guests SET full_name = $2, email = $3, name_key = $4 WHERE id = $1`,
+    [guestId, fullName, email, guestNameKey(fullName)]
+  );
+}
+
+/** Guest visits on non-cancelled bookings between two dates (inclusive), by host and by guest. */
+export async function getGuestActivityReport(
+  facilityId: string,
+  start: string,
+  end: string
+): Promise<GuestActivityReport> {
+  const visitsCte = `
+    WITH counted AS (
+      SELECT v.*
+        FROM guest_visits v
+        JOIN bookings b ON b.id = v.booking_id
+       WHERE v.facility_id = $1
+         AND v.visit_date BETWEEN $2::date AND $3::date
+         AND b.status != 'cancelled'
+    )`;
+
+  const [totals, byHost, byGuest] = await Promise.all([
+    query(
+      `${visitsCte}
+       SELECT COUNT(*)::int AS "totalVisits",
+              COUNT(DISTINCT guest_id)::int AS "uniqueGuests",
+              COUNT(DISTINCT host_user_id)::int AS "hostCount",
+              COALESCE(SUM(fee_cents), 0)::int AS "totalFeeCents"
+         FROM counted`,
+      [facilityId, start, end]
+    ),
+    query(
+      `${visitsCte}
+       SELECT c.host_user_id AS "hostUserId", u.full_name AS "hostName", u.email AS "hostEmail",
+              COUNT(*)::int AS visits,
+              COUNT(DISTINCT c.guest_id)::int AS "uniqueGuests",
+              COALESCE(SUM(c.fee_cents), 0)::int AS "feeCents"
+         FROM counted c
+         JOIN users u ON u.id = c.host_user_id
+        GROUP BY c.host_user_id, u.full_name, u.email
+        ORDER BY visits DESC, u.full_name`,
+      [facilityId, start, end]
+    ),
+    query(
+      `${visitsCte}
+       SELECT c.guest_id AS "guestId", g.full_name AS "fullName", g.email,
+              COUNT(*)::int AS visits,
+              COUNT(DISTINCT c.host_user_id)::int AS hosts,
+              TO_CHAR(MAX(c.visit_date), 'YYYY-MM-DD') AS "lastVisitDate"
+         FROM counted c
+         JOIN facility_guests g ON g.id = c.guest_id
+        GROUP BY c.guest_id, g.full_name, g.email
+        ORDER BY visits DESC, g.full_name`,
+      [facilityId, start, end]
+    ),
+  ]);
+
+  return {
+    start,
+    end,
+    ...totals.rows[0],
+    byHost: byHost.rows,
+    byGuest: byGuest.rows,
+  };
+}
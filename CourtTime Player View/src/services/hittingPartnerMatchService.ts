@@ -0,0 +1,457 @@
+/**
+ * Hitting partner matchmaking and "propose a hit" invitations.
+ *
+ * Suggestions rank other members' active posts at a facility against the
+ * caller's own post (availability windows, skill range, play styles) plus
+ * profile skill level and club rating, so it still works for members who
+ * haven't posted. A skill range either side set explicitly is a hard filter;
+ * everything else only moves the score.
+ *
+ * An invitation names a court and time. Proposing is the proposer's
+ * acceptance; the court is booked through createBooking — in the proposer's
+ * name, with the invitee added as a participant — only when the invitee
+ * accepts, so the rules engine judges the slot as it stands at that moment.
+ * A booking that fails then (slot taken, rule violation, a court that needs
+ * payment up front) leaves the invitation 'failed' with the reason.
+ */
+
+import { query } from '../database/connection';
+import { createBooking } from './bookingService';
+import { notificationService } from './notificationService';
+import { formatDate, formatTime } from './rulesEngine/utils/timeUtils';
+import {
+  type AvailabilityWindow,
+  overlappingWindows,
+  skillLevelIndex,
+  timeToMinutes,
+} from '../../shared/utils/hittingPartnerAvailability';
+
+/** Thrown for caller mistakes; `status` is the HTTP status the route should return. */
+export class HittingPartnerError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'HittingPartnerError';
+  }
+}
+
+export type HittingInvitationStatus = 'pending' | 'booked' | 'declined' | 'cancelled' | 'expired' | 'failed';
+
+const SUGGESTION_LIMIT = 20;
+const MIN_HIT_MINUTES = 30;
+const MAX_HIT_MINUTES = 240;
+/** Weekly overlap that earns full availability points. */
+const FULL_OVERLAP_MINUTES = 240;
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+export interface MatchProfile {
+  skillLevel: string | null;
+  skillMin: string | null;
+  skillMax: string | null;
+  windows: AvailabilityWindow[];
+  playStyle: string[];
+  clubRating: number | null;
+}
+
+export interface PartnerMatchScore {
+  /** 0–100. */
+  score: number;
+  overlap: AvailabilityWindow[];
+  overlapMinutes: number;
+}
+
+/** False when `level` is known and falls outside a range the other player set. */
+function withinRange(level: string | null, min: string | null, max: string | null): boolean {
+  const index = skillLevelIndex(level);
+  if (index === null) return true;
+  const low = skillLevelIndex(min);
+  const high = skillLevelIndex(max);
+  return (low === null || index >= low) && (high === null || index <= high);
+}
+
+/**
+ * How well `candidate` suits `me`, or null when either side's skill range
+ * rules the other out. Weights: availability 50, skill 25, club rating 15,
+ * play style 10; unknowns score part marks so a sparse post isn't buried.
+ */
+export function scorePartnerMatch(me: MatchProfile, candidate: MatchProfile): PartnerMatchScore | null {
+  if (!withinRange(candidate.skillLevel, me.skillMin, me.skillMax)) return null;
+  if (!withinRange(me.skillLevel, candidate.skillMin, candidate.skillMax)) return null;
+
+  const overlap = overlappingWindows(me.windows, candidate.windows);
+  const overlapMinutes = overlap.reduce((sum, w) => sum + timeToMinutes(w.end) - timeToMinutes(w.start), 0);
+  const availability =
+    me.windows.length > 0 && candidate.windows.length > 0
+      ? 50 * Math.min(1, overlapMinutes / FULL_OVERLAP_MINUTES)
+      : 15;
+
+  const mine = skillLevelIndex(me.skillLevel);
+  const theirs = skillLevelIndex(candidate.skillLevel);
+  const skill = mine !== null && theirs !== null ? 25 * Math.max(0, 1 - Math.abs(mine - theirs) / 2) : 10;
+
+  const rating =
+    me.clubRating != null && candidate.clubRating != null
+      ? 15 * Math.max(0, 1 - Math.abs(me.clubRating - candidate.clubRating) / 400)
+      : 5;
+
+  const shared = me.playStyle.filter((style) => candidate.playStyle.includes(style)).length;
+  const union = new Set([...me.playStyle, ...candidate.playStyle]).size;
+  const style = me.playStyle.length > 0 && candidate.playStyle.length > 0 ? (10 * shared) / union : 3;
+
+  return { score: Math.round(availability + skill + rating + style), overlap, overlapMinutes };
+}
+
+export interface PartnerSuggestion extends PartnerMatchScore {
+  postId: string;
+  userId: string;
+  userName: string;
+  skillLevel: string | null;
+  clubRating: number | null;
+  playStyle: string[];
+  availability: string;
+  availabilityWindows: AvailabilityWindow[];
+  description: string;
+}
+
+/**
+ * Other members' active posts at the facility, best match first. One post
+ * per member (their newest).
+ */
+export async function suggestPartners(facilityId: string, userId: string): Promise<PartnerSuggestion[]> {
+  const membership = await query(
+    `SELECT 1 FROM facility_memberships WHERE facility_id = $1 AND user_id = $2 AND status = 'active'`,
+    [facilityId, userId]
+  );
+  if (membership.rows.length === 0) throw new HittingPartnerError('Not a member of this facility', 403);
+
+  const result = await query(
+    `SELECT DISTINCT ON (hp.user_id)
+            hp.id as "postId", hp.user_id as "userId", u.full_name as "userName",
+            COALESCE(pp.skill_level, hp.skill_level) as "skillLevel",
+            hp.skill_min as "skillMin", hp.skill_max as "skillMax",
+            hp.availability, hp.availability_windows as "availabilityWindows",
+            hp.play_style as "playStyle", hp.description,
+            cr.rating::float as "clubRating"
+       FROM hitting_partner_posts hp
+       JOIN users u ON u.id = hp.user_id
+       JOIN facility_memberships fm ON fm.user_id = hp.user_id AND fm.facility_id = hp.facility_id AND fm.status = 'active'
+       LEFT JOIN player_profiles pp ON pp.user_id = hp.user_id
+       LEFT JOIN club_ratings cr
+         ON cr.user_id = hp.user_id AND cr.facility_id = hp.facility_id AND cr.matches_played > 0
+      WHERE hp.facility_id = $1 AND hp.status = 'active' AND hp.expires_at > CURRENT_TIMESTAMP
+      ORDER BY hp.user_id, hp.posted_date DESC`,
+    [facilityId]
+  );
+
+  const mine = result.rows.find((row) => row.userId === userId);
+  const profile = mine
+    ? null
+    : await query(
+        `SELECT pp.skill_level as "skillLevel", cr.rating::float as "clubRating"
+           FROM users u
+           LEFT JOIN player_profiles pp ON pp.user_id = u.id
+           LEFT JOIN club_ratings cr ON cr.user_id = u.id AND cr.facility_id = $2 AND cr.matches_played > 0
+          WHERE u.id = $1`,
+        [userId, facilityId]
+      );
+  const me: MatchProfile = mine
+    ? toProfile(mine)
+    : {
+        skillLevel: profile?.rows[0]?.skillLevel ?? null,
+        skillMin: null,
+        skillMax: null,
+        windows: [],
+        playStyle: [],
+        clubRating: profile?.rows[0]?.clubRating ?? null,
+      };
+
+  const suggestions: PartnerSuggestion[] = [];
+  for (const row of result.rows) {
+    if (row.userId === userId) continue;
+    const match = scorePartnerMatch(me, toProfile(row));
+    if (!match) continue;
+    const { skillMin: _min, skillMax: _max, ...post } = row;
+    suggestions.push({ ...post, playStyle: row.playStyle ?? [], ...match });
+  }
+  return suggestions
+    .sort((a, b) => b.score - a.score || b.overlapMinutes - a.overlapMinutes)
+    .slice(0, SUGGESTION_LIMIT);
+}
+
+function toProfile(row: any): MatchProfile {
+  return {
+    skillLevel: row.skillLevel ?? null,
+    skillMin: row.skillMin ?? null,
+    skillMax: row.skillMax ?? null,
+    windows: Array.isArray(row.availabilityWindows) ? row.availabilityWindows : [],
+    playStyle: row.playStyle ?? [],
+    clubRating: row.clubRating ?? null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Invitations
+// ---------------------------------------------------------------------------
+
+export interface HittingInvitation {
+  id: string;
+  facilityId: string;
+  postId: string | null;
+  fromUserId: string;
+  fromName: string;
+  toUserId: string;
+  toName: string;
+  courtId: string;
+  courtName: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  message: string | null;
+  status: HittingInvitationStatus;
+  bookingId: string | null;
+  failureReason: string | null;
+  createdAt: string;
+}
+
+const INVITATION_COLUMNS = `
+  i.id, i.facility_id as "facilityId", i.post_id as "postId",
+  i.from_user_id as "fromUserId", fu.full_name as "fromName",
+  i.to_user_id as "toUserId", tu.full_name as "toName",
+  i.court_id as "courtId", c.name as "courtName",
+  TO_CHAR(i.booking_date, 'YYYY-MM-DD') as "bookingDate", i.start_time as "startTime", i.end_time as "endTime",
+  i.message, i.status, i.booking_id as "bookingId", i.failure_reason as "failureReason", i.created_at as "createdAt"`;
+
+const INVITATION_JOINS = `
+  JOIN users fu ON fu.id = i.from_user_id
+  JOIN users tu ON tu.id = i.to_user_id
+  JOIN courts c ON c.id = i.court_id`;
+
+async function getInvitation(invitationId: string): Promise<HittingInvitation | null> {
+  const result = await query(
+    `SELECT ${INVITATION_COLUMNS} FROM hitting_invitations i ${INVITATION_JOINS} WHERE i.id = $1`,
+    [invitationId]
+  );
+  return result.rows[0] ?? null;
+}
+
+function whenLabel(invitation: Pick<HittingInvitation, 'bookingDate' | 'startTime' | 'courtName'>): string {
+  const day = new Date(`${invitation.bookingDate}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+  return `${day} at ${invitation.startTime.slice(0, 5)} on ${invitation.courtName}`;
+}
+
+function notify(userId: string, title: string, message: string) {
+  void notificationService
+    .createNotification(userId, title, message, 'hitting_invitation', { actionUrl: '/hitting-partner', priority: 'medium' })
+    .catch((error) => console.error('Hitting invitation notification failed:', error));
+}
+
+/** Pending invitations whose start time has passed can no longer be accepted. */
+async function expireStaleInvitations(userId: string): Promise<void> {
+  await query(
+    `UPDATE hitting_invitations i
+        SET status = 'expired'
+       FROM facilities f
+      WHERE f.id = i.facility_id
+        AND i.status = 'pending'
+        AND (i.from_user_id = $1 OR i.to_user_id = $1)
+        AND (i.booking_date + i.start_time) <= (NOW() AT TIME ZONE COALESCE(f.timezone, 'America/New_York'))`,
+    [userId]
+  );
+}
+
+/** The caller's pending invitations plus the last 30 days of answered ones. */
+export async function listInvitations(userId: string): Promise<{ incoming: HittingInvitation[]; outgoing: HittingInvitation[] }> {
+  await expireStaleInvitations(userId);
+  const result = await query(
+    `SELECT ${INVITATION_COLUMNS}
+       FROM hitting_invitations i ${INVITATION_JOINS}
+      WHERE (i.from_user_id = $1 OR i.to_user_id = $1)
+        AND (i.status = 'pending' OR i.updated_at > NOW() - INTERVAL '30 days')
+      ORDER BY (i.status = 'pending') DESC, i.booking_date, i.start_time`,
+    [userId]
+  );
+  return {
+    incoming: result.rows.filter((row) => row.toUserId === userId),
+    outgoing: result.rows.filter((row) => row.fromUserId === userId),
+  };
+}
+
+/**
+ * Propose a hit on a specific court and time. The slot has to be in the
+ * future and free right now; it is not held — the booking happens on accept.
+ */
+export async function proposeHit(
+  fromUserId: string,
+  fields: {
+    facilityId?: string;
+    toUserId?: string;
+    postId?: string | null;
+    courtId?: string;
+    bookingDate?: string;
+    startTime?: string;
+    endTime?: string;
+    message?: string;
+  }
+): Promise<HittingInvitation> {
+  const { facilityId, toUserId, courtId, bookingDate } = fields;
+  if (!facilityId || !toUserId || !courtId || !bookingDate || !fields.startTime || !fields.endTime) {
+    throw new HittingPartnerError('facilityId, toUserId, courtId, bookingDate, startTime and endTime are required');
+  }
+  if (toUserId === fromUserId) throw new HittingPartnerError('You cannot invite yourself');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(bookingDate)) throw new HittingPartnerError('bookingDate must be YYYY-MM-DD');
+  const startTime = `${fields.startTime.slice(0, 5)}:00`;
+  const endTime = `${fields.endTime.slice(0, 5)}:00`;
+  const duration = timeToMinutes(endTime) - timeToMinutes(startTime);
+  if (!(duration >= MIN_HIT_MINUTES && duration <= MAX_HIT_MINUTES)) {
+    throw new HittingPartnerError(`A hit is ${MIN_HIT_MINUTES} to ${MAX_HIT_MINUTES} minutes`);
+  }
+  const message = String(fields.message ?? '').trim() || null;
+  if (message && message.length > 500) throw new HittingPartnerError('Keep the message under 500 characters');
+
+  const members = await query(
+    `SELECT user_id FROM facility_memberships
+      WHERE facility_id = $1 AND user_id = ANY($2::uuid[]) AND status = 'active'`,
+    [facilityId, [fromUserId, toUserId]]
+  );
+  if (members.rows.length !== 2) throw new HittingPartnerError('Both players must be active members of the facility', 403);
+
+  const court = await query(`SELECT id FROM courts WHERE id = $1 AND facility_id = $2`, [courtId, facilityId]);
+  if (court.rows.length === 0) throw new HittingPartnerError('Court not found', 404);
+
+  const facility = await query(`SELECT timezone FROM facilities WHERE id = $1`, [facilityId]);
+  const { getFacilityLocalNow } = await import('./rulesEngine/RuleContext');
+  const now = getFacilityLocalNow(facility.rows[0]?.timezone || 'America/New_York');
+  if (bookingDate < formatDate(now) || (bookingDate === formatDate(now) && startTime <= formatTime(now))) {
+    throw new HittingPartnerError('Pick a time in the future');
+  }
+
+  const taken = await query(
+    `SELECT 1 FROM bookings
+      WHERE court_id = $1 AND booking_date = $2 AND status <> 'cancelled'
+        AND start_time < $4 AND end_time > $3
+      LIMIT 1`,
+    [courtId, bookingDate, startTime, endTime]
+  );
+  if (taken.rows.length > 0) throw new HittingPartnerError('That court is already booked then', 409);
+
+  const duplicate = await query(
+    `SELECT 1 FROM hitting_invitations
+      WHERE from_user_id = $1 AND to_user_id = $2 AND status = 'pending'
+        AND booking_date = $3 AND start_time < $5 AND end_time > $4
+      LIMIT 1`,
+    [fromUserId, toUserId, bookingDate, startTime, endTime]
+  );
+  if (duplicate.rows.length > 0) throw new HittingPartnerError('You already invited them for that time', 409);
+
+  const inserted = await query(
+    `INSERT INTO hitting_invitations
+       (facility_id, post_id, from_user_id, to_user_id, court_id, booking_date, start_time, end_time, message)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     RETURNING id`,
+    [facilityId, fields.postId || null, fromUserId, toUserId, courtId, bookingDate, startTime, endTime, message]
+  );
+
+  const invitation = (await getInvitation(inserted.rows[0].id))!;
+  notify(toUserId, 'Hitting invitation', `${invitation.fromName} wants to hit ${whenLabel(invitation)}.`);
+  return invitation;
+}
+
+/**
+ * The invitee accepts or declines. Accepting claims the invitation (so a
+ * double tap can't book twice) and then books the court.
+ */
+export async function respondToInvitation(
+  invitationId: string,
+  userId: string,
+  accept: boolean
+): Promise<HittingInvitation> {
+  const existing = await getInvitation(invitationId);
+  if (!existing) throw new HittingPartnerError('Invitation not found', 404);
+  if (existing.toUserId !== userId) throw new HittingPartnerError('Only the invited player can respond', 403);
+
+  const claimed = await query(
+    `UPDATE hitting_invitations
+        SET responded_at = CURRENT_TIMESTAMP, status = CASE WHEN $2 THEN status ELSE 'declined' END
+      WHERE id = $1 AND status = 'pending' AND responded_at IS NULL
+      RETURNING id`,
+    [invitationId, accept]
+  );
+  if (claimed.rows.length === 0) throw new HittingPartnerError(`This invitation is already ${existing.status}`, 409);
+
+  if (!accept) {
+    notify(existing.fromUserId, 'Hitting invitation declined', `${existing.toName} can't make ${whenLabel(existing)}.`);
+    return (await getInvitation(invitationId))!;
+  }
+
+  let failure: string | null = null;
+  let bookingId: string | null = null;
+  try {
+    const result = await createBooking({
+      courtId: existing.courtId,
+      userId: existing.fromUserId,
+      facilityId: existing.facilityId,
+      bookingDate: existing.bookingDate,
+      startTime: existing.startTime,
+      endTime: existing.endTime,
+      durationMinutes: timeToMinutes(existing.endTime) - timeToMinutes(existing.startTime),
+      notes: `Hit with ${existing.toName}`,
+    });
+    if (result.requiresPayment) {
+      failure = `This court needs payment when it's booked, so ${existing.fromName} has to book it from the calendar.`;
+    } else if (!result.success || !result.booking?.id) {
+      failure = result.error || 'The court could not be booked';
+    } else {
+      bookingId = result.booking.id;
+    }
+  } catch (error: any) {
+    console.error('Hitting invitation booking failed:', error);
+    failure = 'The court could not be booked';
+  }
+
+  if (bookingId) {
+    await query(
+      `INSERT INTO booking_participants (booking_id, user_id, added_by)
+       VALUES ($1, $2, $3), ($1, $4, $3)
+       ON CONFLICT (booking_id, user_id) DO NOTHING`,
+      [bookingId, existing.fromUserId, existing.fromUserId, existing.toUserId]
+    );
+    await query(`UPDATE hitting_invitations SET status = 'booked', booking_id = $2 WHERE id = $1`, [
+      invitationId,
+      bookingId,
+    ]);
+    notify(existing.fromUserId, 'Hit booked', `${existing.toName} accepted — you're booked ${whenLabel(existing)}.`);
+  } else {
+    await query(`UPDATE hitting_invitations SET status = 'failed', failure_reason = $2 WHERE id = $1`, [
+      invitationId,
+      failure,
+    ]);
+    notify(
+      existing.fromUserId,
+      'Hit could not be booked',
+      `${existing.toName} accepted ${whenLabel(existing)}, but the court couldn't be booked: ${failure}`
+    );
+  }
+  return (await getInvitation(invitationId))!;
+}
+
+/** The proposer withdraws an invitation that hasn't been answered. */
+export async function cancelInvitation(invitationId: string, userId: string): Promise<void> {
+  const result = await query(
+    `UPDATE hitting_invitations SET status = 'cancelled'
+      WHERE id = $1 AND from_user_id = $2 AND status = 'pending' AND responded_at IS NULL
+      RETURNING id`,
+    [invitationId, userId]
+  );
+  if (result.rows.length === 0) {
+    const existing = await getInvitation(invitationId);
+    if (!existing) throw new HittingPartnerError('Invitation not found', 404);
+    if (existing.fromUserId !== userId) throw new HittingPartnerError('Only the player who sent it can cancel', 403);
+    throw new HittingPartnerError(`This invitation is already ${existing.status}`, 409);
+  }
+}
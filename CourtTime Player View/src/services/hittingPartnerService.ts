@@ -1,4 +1,5 @@
 import { query } from '../database/connection';
+import type { AvailabilityWindow } from '../../shared/utils/hittingPartnerAvailability';
 
 /**
  * Hitting Partner Service
@@ -13,7 +14,14 @@ export interface HittingPartnerPost {
   facilityId: string;
   facilityName: string;
   skillLevel?: string;
+  /** The poster's club rating at this facility, once they have a confirmed result. */
+  clubRating?: number | null;
   availability: string;
+  /** Structured weekly windows (see shared/utils/hittingPartnerAvailability). */
+  availabilityWindows: AvailabilityWindow[];
+  /** Skill range the poster wants to play against, on the SKILL_LEVELS scale. */
+  skillMin?: string | null;
+  skillMax?: string | null;
   playStyle: string[];
   description: string;
   postedDate: string;
@@ -26,6 +34,9 @@ export interface CreateHittingPartnerPost {
   facilityId: string;
   skillLevel?: string;
   availability: string;
+  availabilityWindows?: AvailabilityWindow[];
+  skillMin?: string | null;
+  skillMax?: string | null;
   playStyle: string[];
   description: string;
   expiresInDays: number; // 7-90 days
@@ -53,15 +64,21 @@ export async function getFacilityHittingPartnerPosts(facilityId: string): Promis
         f.name as "facilityName",
         COALESCE(pp.skill_level, hp.skill_level) as "skillLevel",
         hp.availability,
+        hp.availability_windows as "availabilityWindows",
+        hp.skill_min as "skillMin",
+        hp.skill_max as "skillMax",
         hp.play_style as "playStyle",
         hp.description,
         hp.posted_date as "postedDate",
         hp.expires_at as "expiresAt",
-        hp.status
+        hp.status,
+        cr.rating::float as "clubRating"
        FROM hitting_partner_posts hp
        JOIN users u ON hp.user_id = u.id
        JOIN facilities f ON hp.facility_id = f.id
        LEFT JOIN player_profiles pp ON hp.user_id = pp.user_id
+       LEFT JOIN club_ratings cr
+         ON cr.user_id = hp.user_id AND cr.facility_id = hp.facility_id AND cr.matches_played > 0
        WHERE hp.facility_id = $1 AND hp.status = 'active'
        ORDER BY hp.posted_date DESC`,
       [facilityId]
@@ -91,15 +108,21 @@ export async function getAllHittingPartnerPosts(): Promise<HittingPartnerPost[]>
         f.name as "facilityName",
         COALESCE(pp.skill_level, hp.skill_level) as "skillLevel",
         hp.availability,
+        hp.availability_windows as "availabilityWindows",
+        hp.skill_min as "skillMin",
+        hp.skill_max as "skillMax",
         hp.play_style as "playStyle",
         hp.description,
         hp.posted_date as "postedDate",
         hp.expires_at as "expiresAt",
-        hp.status
+        hp.status,
+        cr.rating::float as "clubRating"
        FROM hitting_partner_posts hp
        JOIN users u ON hp.user_id = u.id
        JOIN facilities f ON hp.facility_id = f.id
        LEFT JOIN player_profiles pp ON hp.user_id = pp.user_id
+       LEFT JOIN club_ratings cr
+         ON cr.user_id = hp.user_id AND cr.facility_id = hp.facility_id AND cr.matches_played > 0
        WHERE hp.status = 'active' AND hp.expires_at > CURRENT_TIMESTAMP
        ORDER BY hp.posted_date DESC
        LIMIT 50`,
@@ -132,12 +155,15 @@ export async function createHittingPartnerPost(data: CreateHittingPartnerPost):
         facility_id,
         skill_level,
         availability,
+        availability_windows,
+        skill_min,
+        skill_max,
         play_style,
         description,
         expires_at,
         status
       ) VALUES (
-        $1, $2, $3, $4, $5, $6,
+        $1, $2, $3, $4, $8::jsonb, $9, $10, $5, $6,
         CURRENT_TIMESTAMP + INTERVAL '1 day' * $7,
         'active'
       )
@@ -149,7 +175,10 @@ export async function createHittingPartnerPost(data: CreateHittingPartnerPost):
         data.availability,
         data.playStyle,
         data.description,
-        data.expiresInDays
+        data.expiresInDays,
+        JSON.stringify(data.availabilityWindows ?? []),
+        data.skillMin ?? null,
+        data.skillMax ?? null
       ]
     );
 
@@ -178,6 +207,21 @@ export async function updateHittingPartnerPost(
       values.push(updates.availability);
     }
 
+    if (updates.availabilityWindows !== undefined) {
+      fields.push(`availability_windows = $${paramIndex++}::jsonb`);
+      values.push(JSON.stringify(updates.availabilityWindows));
+    }
+
+    if (updates.skillMin !== undefined) {
+      fields.push(`skill_min = $${paramIndex++}`);
+      values.push(updates.skillMin);
+    }
+
+    if (updates.skillMax !== undefined) {
+      fields.push(`skill_max = $${paramIndex++}`);
+      values.push(updates.skillMax);
+    }
+
     if (updates.playStyle !== undefined) {
       fields.push(`play_style = $${paramIndex++}`);
       values.push(updates.playStyle);
@@ -251,15 +295,21 @@ export async function getUserHittingPartnerPosts(userId: string): Promise<Hittin
         f.name as "facilityName",
         COALESCE(pp.skill_level, hp.skill_level) as "skillLevel",
         hp.availability,
+        hp.availability_windows as "availabilityWindows",
+        hp.skill_min as "skillMin",
+        hp.skill_max as "skillMax",
         hp.play_style as "playStyle",
         hp.description,
         hp.posted_date as "postedDate",
         hp.expires_at as "expiresAt",
-        hp.status
+        hp.status,
+        cr.rating::float as "clubRating"
        FROM hitting_partner_posts hp
        JOIN users u ON hp.user_id = u.id
        JOIN facilities f ON hp.facility_id = f.id
        LEFT JOIN player_profiles pp ON hp.user_id = pp.user_id
+       LEFT JOIN club_ratings cr
+         ON cr.user_id = hp.user_id AND cr.facility_id = hp.facility_id AND cr.matches_played > 0
        WHERE hp.user_id = $1 AND hp.status IN ('active', 'expired')
        ORDER BY hp.posted_date DESC`,
       [userId]
@@ -0,0 +1,415 @@
+/**
+ * Household shared billing.
+ * A household can name one of its members as billing payer. While a payer is
+ * set, every member's off-session charges -- post-play court and guest fees,
+ * pro shop tabs and annual fees -- go on the payer's saved card instead of the
+ * member's own, and each one is copied into household_billing_charges. The
+ * monthly consolidated statement lists those charges per family member; the
+ * household_statements job emails it to the payer after each month closes.
+ *
+ * Interactive payments (Stripe Checkout) are untouched: whoever is at the
+ * checkout pays.
+ */
+
+import { query } from '../database/connection';
+import { sendHouseholdStatementEmail } from './emailService';
+import { formatStatementMonth } from '../utils/householdStatement';
+
+export class HouseholdBillingError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'HouseholdBillingError';
+  }
+}
+
+export type HouseholdChargeSource = 'court_fee' | 'guest_fee' | 'pro_shop' | 'annual_fee';
+
+/** The card an off-session charge for `userId` should use. */
+export interface BillingCard {
+  /** Set when the charge is redirected to a household payer. */
+  householdId: string | null;
+  payerUserId: string;
+  stripeCustomerId: string | null;
+  paymentMethodId: string | null;
+  cardLast4: string | null;
+  cardBrand: string | null;
+}
+
+export function hasUsableCard(card: BillingCard): boolean {
+  return !!card.stripeCustomerId && !!card.paymentMethodId && !!card.cardLast4;
+}
+
+/** Error text for a charge that couldn't find a card, naming whose card was missing. */
+export function missingCardMessage(card: BillingCard): string {
+  return card.householdId ? 'Household payer has no saved card on file' : 'No saved card on file';
+}
+
+/**
+ * Whose card pays for `userId`'s charges at this facility: the household
+ * payer's when the member belongs to a household with one, then a dependent's
+ * parent's, otherwise their own. A payer without a card is not silently
+ * skipped -- the charge fails so the family sees one card to fix.
+ */
+export async function resolveBillingCard(facilityId: string, userId: string): Promise<BillingCard> {
+  const result = await query(
+    `SELECT hh.id AS household_id,
+            COALESCE(hh.billing_payer_user_id, u.parent_user_id, $2::uuid) AS payer_user_id,
+            fm.stripe_customer_id, fm.stripe_default_payment_method_id, fm.card_last4, fm.card_brand
+       FROM (SELECT 1) one
+       LEFT JOIN users u ON u.id = $2
+       LEFT JOIN LATERAL (
+         SELECT g.id, g.billing_payer_user_id
+           FROM household_members hm
+           JOIN household_groups g ON g.id = hm.household_id
+          WHERE hm.user_id = $2
+            AND g.facility_id = $1
+            AND g.billing_payer_user_id IS NOT NULL
+            AND hm.verification_status != 'rejected'
+          ORDER BY hm.added_at
+          LIMIT 1
+       ) hh ON true
+       LEFT JOIN facility_memberships fm
+         ON fm.facility_id = $1 AND fm.user_id = COALESCE(hh.billing_payer_user_id, u.parent_user_id, $2::uuid)`,
+    [facilityId, userId]
+  );
+  const row = result.rows[0] ?? {};
+  return {
+    householdId: row.household_id ?? null,
+    payerUserId: row.payer_user_id ?? userId,
+    stripeCustomerId: row.stripe_customer_id ?? null,
+    paymentMethodId: row.stripe_default_payment_method_id ?? null,
+    cardLast4: row.card_last4 ?? null,
+    cardBrand: row.card_brand ?? null,
+  };
+}
+
+export interface HouseholdChargeInput {
+  facilityId: string;
+  memberUserId: string;
+  source: HouseholdChargeSource;
+  sourceId: string;
+  description: string;
+  amountCents: number;
+  stripePaymentIntentId: string | null;
+}
+
+/**
+ * Copy a successful charge into the household ledger. A no-op for charges that
+ * went on the member's own card, so callers can call it unconditionally. By the
+ * time this runs the card has been charged, so a ledger failure is logged
+ * rather than thrown.
+ */
+export async function recordHouseholdCharge(card: BillingCard, charge: HouseholdChargeInput): Promise<void> {
+  if (!card.householdId || charge.amountCents <= 0) return;
+  try {
+    await query(
+      `INSERT INTO household_billing_charges
+         (household_id, facility_id, payer_user_id, member_user_id, source, source_id,
+          description, amount_cents, stripe_payment_intent_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        card.householdId,
+        charge.facilityId,
+        card.payerUserId,
+        charge.memberUserId,
+        charge.source,
+        charge.sourceId,
+        charge.description.slice(0, 255),
+        charge.amountCents,
+        charge.stripePaymentIntentId,
+      ]
+    );
+  } catch (err) {
+    console.error(`[HOUSEHOLD-BILLING] Failed to record ${charge.source} charge ${charge.sourceId} for household ${card.householdId}:`, err);
+  }
+}
+
+/** Name (or clear, with null) the member whose card pays for the household. */
+export async function setBillingPayer(householdId: string, payerUserId: string | null) {
+  if (payerUserId) {
+    const member = await query(
+      `SELECT verification_status FROM household_members WHERE household_id = $1 AND user_id = $2`,
+      [householdId, payerUserId]
+    );
+    if (member.rows.length === 0) {
+      throw new HouseholdBillingError('The billing payer must be a member of the household');
+    }
+    if (member.rows[0].verification_status === 'rejected') {
+      throw new HouseholdBillingError('A rejected household member cannot be the billing payer');
+    }
+  }
+  const result = await query(
+    `UPDATE household_groups SET billing_payer_user_id = $2, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      RETURNING id, billing_payer_user_id AS "billingPayerUserId"`,
+    [householdId, payerUserId]
+  );
+  if (result.rows.length === 0) throw new HouseholdBillingError('Household not found', 404);
+  return result.rows[0] as { id: string; billingPayerUserId: string | null };
+}
+
+// ── Statements ─────────────────────────────────────────────
+
+export interface StatementCharge {
+  id: string;
+  source: HouseholdChargeSource;
+  description: string;
+  amountCents: number;
+  chargedAt: string;
+}
+
+export interface StatementMember {
+  userId: string | null;
+  fullName: string;
+  totalCents: number;
+  charges: StatementCharge[];
+}
+
+export interface HouseholdStatement {
+  householdId: string;
+  householdName: string;
+  facilityId: string;
+  facilityName: string;
+  /** YYYY-MM, in the facility's time zone */
+  month: string;
+  payer: { userId: string; fullName: string; email: string } | null;
+  members: StatementMember[];
+  totalCents: number;
+}
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export const SOURCE_LABELS: Record<HouseholdChargeSource, string> = {
+  court_fee: 'Court fee',
+  guest_fee: 'Guest fee',
+  pro_shop: 'Pro shop',
+  annual_fee: 'Annual fee',
+};
+
+/** Group ledger rows by member, keeping each member's charges in date order. */
+export function groupChargesByMember(
+  rows: Array<StatementCharge & { memberUserId: string | null; memberName: string | null }>
+): StatementMember[] {
+  const members = new Map<string, StatementMember>();
+  for (const row of rows) {
+    const key = row.memberUserId ?? 'former';
+    let member = members.get(key);
+    if (!member) {
+      member = { userId: row.memberUserId, fullName: row.memberName ?? 'Former member', totalCents: 0, charges: [] };
+      members.set(key, member);
+    }
+    member.charges.push({
+      id: row.id,
+      source: row.source,
+      description: row.description,
+      amountCents: row.amountCents,
+      chargedAt: row.chargedAt,
+    });
+    member.totalCents += row.amountCents;
+  }
+  for (const member of members.values()) {
+    member.charges.sort((a, b) => a.chargedAt.localeCompare(b.chargedAt));
+  }
+  return [...members.values()].sort((a, b) => a.fullName.localeCompare(b.fullName));
+}
+
+/** Months with household charges, newest first, for the statement picker. */
+export async function listStatementMonths(householdId: string) {
+  const result = await query(
+    `SELECT TO_CHAR(c.charged_at AT TIME ZONE COALESCE(f.timezone, 'America/New_York'), 'YYYY-MM') AS month,
+            SUM(c.amount_cents)::int AS "totalCents",
+            COUNT(*)::int AS "chargeCount"
+       FROM household_billing_charges c
+       JOIN facilities f ON f.id = c.facility_id
+      WHERE c.household_id = $1
+      GROUP BY 1
+      ORDER BY 1 DESC`,
+    [householdId]
+  );
+  return result.rows as Array<{ month: string; totalCents: number; chargeCount: number }>;
+}
+
+export async function getHouseholdStatement(householdId: string, month: string): Promise<HouseholdStatement> {
+  if (!MONTH_PATTERN.test(month)) throw new HouseholdBillingError('Month must be YYYY-MM');
+
+  const householdResult = await query(
+    `SELECT g.id, g.facility_id, COALESCE(g.household_name, g.street_address) AS household_name,
+            f.name AS facility_name, g.billing_payer_user_id, u.full_name AS payer_name, u.email AS payer_email
+       FROM household_groups g
+       JOIN facilities f ON f.id = g.facility_id
+       LEFT JOIN users u ON u.id = g.billing_payer_user_id
+      WHERE g.id = $1`,
+    [householdId]
+  );
+  const household = householdResult.rows[0];
+  if (!household) throw new HouseholdBillingError('Household not found', 404);
+
+  const chargesResult = await query(
+    `SELECT c.id, c.source, c.description, c.amount_cents AS "amountCents",
+            TO_CHAR(c.charged_at AT TIME ZONE COALESCE(f.timezone, 'America/New_York'), 'YYYY-MM-DD"T"HH24:MI') AS "chargedAt",
+            c.member_user_id AS "memberUserId", u.full_name AS "memberName"
+       FROM household_billing_charges c
+       JOIN facilities f ON f.id = c.facility_id
+       LEFT JOIN users u ON u.id = c.member_user_id
+      WHERE c.household_id = $1
+        AND (c.charged_at AT TIME ZONE COALESCE(f.timezone, 'America/New_York')) >= ($2 || '-01')::date
+        AND (c.charged_at AT TIME ZONE COALESCE(f.timezone, 'America/New_York')) < ($2 || '-01')::date + INTERVAL '1 month'
+      ORDER BY c.charged_at`,
+    [householdId, month]
+  );
+  const members = groupChargesByMember(
+    chargesResult.rows.map((r: any) => ({ ...r, amountCents: Number(r.amountCents) }))
+  );
+
+  return {
+    householdId: household.id,
+    householdName: household.household_name,
+    facilityId: household.facility_id,
+    facilityName: household.facility_name,
+    month,
+    payer: household.billing_payer_user_id
+      ? { userId: household.billing_payer_user_id, fullName: household.payer_name, email: household.payer_email }
+      : null,
+    members,
+    totalCents: members.reduce((sum, m) => sum + m.totalCents, 0),
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+function dollars(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * The statement table shared by the printable page and the email: one section
+ * per family member with their charges and subtotal, then the household total.
+ */
+export function renderStatementTable(statement: HouseholdStatement): string {
+  const cell = 'padding: 6px 8px; border-bottom: 1px solid #e5e7eb; text-align: left;';
+  const amountCell = 'padding: 6px 8px; border-bottom: 1px solid #e5e7eb; text-align: right;';
+  const sections = statement.members
+    .map((member) => {
+      const rows = member.charges
+        .map(
+          (c) => `<tr>
+            <td style="${cell}">${escapeHtml(c.chargedAt.slice(0, 10))}</td>
+            <td style="${cell}">${SOURCE_LABELS[c.source]}</td>
+            <td style="${cell}">${escapeHtml(c.description)}</td>
+            <td style="${amountCell}">${dollars(c.amountCents)}</td>
+          </tr>`
+        )
+        .join('');
+      return `<tr><td colspan="4" style="padding: 12px 8px 4px; font-weight: 600; color: #111827;">${escapeHtml(member.fullName)}</td></tr>
+        ${rows}
+        <tr>
+          <td colspan="3" style="${amountCell} color: #6b7280;">Subtotal</td>
+          <td style="${amountCell} font-weight: 600;">${dollars(member.totalCents)}</td>
+        </tr>`;
+    })
+    .join('');
+  const body = statement.members.length
+    ? sections
+    : `<tr><td colspan="4" style="${cell} color: #6b7280;">No charges this month.</td></tr>`;
+  return `<table style="width: 100%; border-collapse: collapse; font-size: 14px; color: #374151;">
+    <thead>
+      <tr>
+        <th style="${cell}">Date</th>
+        <th style="${cell}">Type</th>
+        <th style="${cell}">Description</th>
+        <th style="${amountCell}">Amount</th>
+      </tr>
+    </thead>
+    <tbody>${body}</tbody>
+    <tfoot>
+      <tr>
+        <td colspan="3" style="padding: 10px 8px; text-align: right; font-weight: 700;">Household total</td>
+        <td style="padding: 10px 8px; text-align: right; font-weight: 700;">${dollars(statement.totalCents)}</td>
+      </tr>
+    </tfoot>
+  </table>`;
+}
+
+/** Standalone printable page; members save it as a PDF from the browser's print dialog. */
+export function renderStatementHtml(statement: HouseholdStatement): string {
+  const title = `${statement.householdName} – ${formatStatementMonth(statement.month)} statement`;
+  const payerLine = statement.payer
+    ? `<p style="margin: 4px 0;">Billed to ${escapeHtml(statement.payer.fullName)} (${escapeHtml(statement.payer.email)})</p>`
+    : '';
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 32px; color: #111827; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1 style="font-size: 20px; margin: 0 0 4px;">${escapeHtml(statement.facilityName)}</h1>
+  <p style="margin: 4px 0; font-weight: 600;">${escapeHtml(title)}</p>
+  ${payerLine}
+  <div style="margin-top: 24px;">${renderStatementTable(statement)}</div>
+</body>
+</html>`;
+}
+
+/**
+ * Email last month's statement to every household payer who had charges and
+ * hasn't been sent it yet. The statement row is claimed before sending, so a
+ * re-run never double-sends. Run hourly by the household_statements job, so
+ * each facility's statements go out soon after its month closes locally.
+ */
+export async function sendMonthlyStatements(): Promise<number> {
+  const due = await query(
+    `SELECT g.id,
+            TO_CHAR(date_trunc('month', NOW() AT TIME ZONE COALESCE(f.timezone, 'America/New_York')) - INTERVAL '1 month', 'YYYY-MM') AS month
+       FROM household_groups g
+       JOIN facilities f ON f.id = g.facility_id
+      WHERE g.billing_payer_user_id IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM household_statements s
+           WHERE s.household_id = g.id
+             AND s.period_month = (date_trunc('month', NOW() AT TIME ZONE COALESCE(f.timezone, 'America/New_York')) - INTERVAL '1 month')::date
+        )`
+  );
+
+  let sent = 0;
+  for (const row of due.rows) {
+    try {
+      const statement = await getHouseholdStatement(row.id, row.month);
+      if (statement.totalCents <= 0 || !statement.payer?.email) continue;
+
+      const claimed = await query(
+        `INSERT INTO household_statements (household_id, period_month, total_cents, emailed_to)
+         VALUES ($1, ($2 || '-01')::date, $3, $4)
+         ON CONFLICT (household_id, period_month) DO NOTHING
+         RETURNING id`,
+        [statement.householdId, statement.month, statement.totalCents, statement.payer.email]
+      );
+      if (claimed.rows.length === 0) continue;
+
+      await sendHouseholdStatementEmail(
+        statement.payer.email,
+        statement.payer.fullName,
+        statement.facilityName,
+        statement.householdName,
+        formatStatementMonth(statement.month),
+        renderStatementTable(statement),
+        statement.payer.userId
+      );
+      sent++;
+    } catch (err) {
+      console.error(`[HOUSEHOLD-BILLING] Statement for household ${row.id} failed:`, err);
+    }
+  }
+  return sent;
+}
@@ -0,0 +1,450 @@
+/**
+ * Background job queue.
+ *
+ * Jobs live in background_jobs; every API instance runs a worker that polls
+ * for due jobs and claims one at a time with FOR UPDATE SKIP LOCKED, so a job
+ * runs on exactly one instance and survives restarts. Each attempt is written
+ * to background_job_runs. A failed one-off job is retried with exponential
+ * backoff until max_attempts, then parked as 'dead' for support to retry.
+ *
+ * Recurring jobs (the expiry sweeps, billing checks) are one row per job type
+ * that goes back to 'queued' after every run, success or failure.
+ *
+ * Handlers are registered at startup (see backgroundJobs.ts); a worker only
+ * claims job types it has a handler for.
+ */
+
+import os from 'os';
+import { query } from '../database/connection';
+
+export class JobQueueError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'dead' | 'canceled';
+
+export interface BackgroundJob {
+  id: string;
+  jobType: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  runAt: string;
+  attempts: number;
+  maxAttempts: number;
+  intervalSeconds: number | null;
+  dedupeKey: string | null;
+  lastError: string | null;
+  lockedBy: string | null;
+  lockedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobRun {
+  id: string;
+  jobId: string;
+  attempt: number;
+  workerId: string;
+  status: 'running' | 'succeeded' | 'failed';
+  error: string | null;
+  result: Record<string, unknown> | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface JobContext {
+  jobId: string;
+  attempt: number;
+}
+
+/** Whatever the handler returns is kept on the run row, e.g. `{ cancelled: 2 }`. */
+export type JobHandler<P = Record<string, unknown>> = (
+  payload: P,
+  context: JobContext
+) => Promise<Record<string, unknown> | void>;
+
+interface JobDefinition {
+  handler: JobHandler<any>;
+  maxAttempts: number;
+  intervalSeconds: number | null;
+}
+
+export interface EnqueueOptions {
+  /** Defaults to now. */
+  runAt?: Date;
+  /**
+   * At most one job per key, ever. Enqueueing an existing key returns that job
+   * untouched; a dead one stays dead until support retries it.
+   */
+  dedupeKey?: string;
+  maxAttempts?: number;
+}
+
+export interface JobFilters {
+  status?: JobStatus;
+  jobType?: string;
+  /** Matched against the dedupe key, last error and payload. */
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+export const JOB_POLL_INTERVAL_MS = 5_000;
+/** A running job whose worker hasn't finished it in this long is assumed lost. */
+export const JOB_LOCK_TIMEOUT_SECONDS = 30 * 60;
+const RETRY_BASE_SECONDS = 30;
+const RETRY_MAX_SECONDS = 60 * 60;
+const MAX_ERROR_CHARS = 4_000;
+const MAX_JOB_PAGE_SIZE = 200;
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+const JOB_COLUMNS = `
+  id, job_type as "jobType", payload, status, run_at as "runAt", attempts,
+  max_attempts as "maxAttempts", interval_seconds as "intervalSeconds",
+  dedupe_key as "dedupeKey", last_error as "lastError", locked_by as "lockedBy",
+  locked_at as "lockedAt", completed_at as "completedAt",
+  created_at as "createdAt", updated_at as "updatedAt"`;
+
+const definitions = new Map<string, JobDefinition>();
+
+/** Registers the handler for a one-off job type. */
+export function registerJobHandler<P = Record<string, unknown>>(
+  jobType: string,
+  handler: JobHandler<P>,
+  options: { maxAttempts?: number } = {}
+): void {
+  definitions.set(jobType, {
+    handler,
+    maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    intervalSeconds: null,
+  });
+}
+
+/** Registers a job that runs every `intervalSeconds` on one instance. */
+export function registerRecurringJob(
+  jobType: string,
+  intervalSeconds: number,
+  handler: JobHandler<Record<string, never>>
+): void {
+  definitions.set(jobType, { handler, maxAttempts: DEFAULT_MAX_ATTEMPTS, intervalSeconds });
+}
+
+/** Seconds to wait before retrying after the given (1-based) failed attempt. */
+export function retryDelaySeconds(attempt: number): number {
+  return Math.min(RETRY_BASE_SECONDS * 2 ** Math.max(attempt - 1, 0), RETRY_MAX_SECONDS);
+}
+
+function errorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.slice(0, MAX_ERROR_CHARS);
+}
+
+/** Adds a job and returns its id (the existing job's id on a dedupe hit). */
+export async function enqueueJob(
+  jobType: string,
+  payload: Record<string, unknown> = {},
+  options: EnqueueOptions = {}
+): Promise<string> {
+  const runAt = options.runAt ?? new Date();
+  const maxAttempts = options.maxAttempts ?? definitions.get(jobType)?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+  if (!options.dedupeKey) {
+    const result = await query(
+      `INSERT INTO background_jobs (job_type, payload, run_at, max_attempts)
+       VALUES ($1, $2::jsonb, $3, $4) RETURNING id`,
+      [jobType, JSON.stringify(payload), runAt, maxAttempts]
+    );
+    return result.rows[0].id;
+  }
+
+  const result = await query(
+    `INSERT INTO background_jobs (job_type, payload, run_at, max_attempts, dedupe_key)
+     VALUES ($1, $2::jsonb, $3, $4, $5)
+     ON CONFLICT (dedupe_key) DO NOTHING
+     RETURNING id`,
+    [jobType, JSON.stringify(payload), runAt, maxAttempts, options.dedupeKey]
+  );
+  if (result.rows[0]) return result.rows[0].id;
+
+  const existing = await query(`SELECT id FROM background_jobs WHERE dedupe_key = $1`, [options.dedupeKey]);
+  return existing.rows[0].id;
+}
+
+/**
+ * Makes sure every registered recurring job has its row. A recurring job that
+ * support canceled stays canceled until it is retried.
+ */
+export async function ensureRecurringJobs(): Promise<void> {
+  for (const [jobType, definition] of definitions) {
+    if (definition.intervalSeconds === null) continue;
+    await query(
+      `INSERT INTO background_jobs (job_type, interval_seconds, dedupe_key)
+       VALUES ($1, $2, $1)
+       ON CONFLICT (dedupe_key) DO UPDATE SET interval_seconds = EXCLUDED.interval_seconds
+       WHERE background_jobs.interval_seconds IS DISTINCT FROM EXCLUDED.interval_seconds`,
+      [jobType, definition.intervalSeconds]
+    );
+  }
+}
+
+/**
+ * Frees jobs whose worker died mid-run: the attempt is marked failed and the
+ * job re-queued, or dead if it was a one-off on its last attempt.
+ */
+export async function reclaimStaleJobs(): Promise<number> {
+  const result = await query(
+    `WITH stale AS (
+       UPDATE background_jobs
+          SET status = CASE WHEN interval_seconds IS NULL AND attempts >= max_attempts THEN 'dead' ELSE 'queued' END,
+              last_error = 'Worker stopped before the job finished',
+              locked_by = NULL, locked_at = NULL, run_at = NOW()
+        WHERE status = 'running' AND locked_at < NOW() - make_interval(secs => $1)
+        RETURNING id
+     ), lost_runs AS (
+       UPDATE background_job_runs
+          SET status = 'failed', error = 'Worker stopped before the job finished', finished_at = NOW()
+        WHERE status = 'running' AND job_id IN (SELECT id FROM stale)
+     )
+     SELECT COUNT(*)::int as count FROM stale`,
+    [JOB_LOCK_TIMEOUT_SECONDS]
+  );
+  return result.rows[0]?.count ?? 0;
+}
+
+/** Claims the most overdue job this worker can run, or null if none is due. */
+export async function claimNextJob(): Promise<BackgroundJob | null> {
+  const jobTypes = [...definitions.keys()];
+  if (jobTypes.length === 0) return null;
+
+  const result = await query(
+    `UPDATE background_jobs
+        SET status = 'running', attempts = attempts + 1, locked_by = $1, locked_at = NOW()
+      WHERE id = (
+        SELECT id FROM background_jobs
+         WHERE status = 'queued' AND run_at <= NOW() AND job_type = ANY($2)
+         ORDER BY run_at
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+      )
+      RETURNING ${JOB_COLUMNS}`,
+    [WORKER_ID, jobTypes]
+  );
+  return result.rows[0] ?? null;
+}
+
+/** Runs a claimed job, records the attempt, and schedules what comes next. */
+export async function runJob(job: BackgroundJob): Promise<void> {
+  const definition = definitions.get(job.jobType);
+  const runResult = await query(
+    `INSERT INTO background_job_runs (job_id, attempt, worker_id) VALUES ($1, $2, $3) RETURNING id`,
+    [job.id, job.attempts, WORKER_ID]
+  );
+  const runId: string = runResult.rows[0].id;
+
+  try {
+    if (!definition) throw new Error(`No handler registered for job type ${job.jobType}`);
+    const output = await definition.handler(job.payload, { jobId: job.id, attempt: job.attempts });
+
+    await query(
+      `UPDATE background_job_runs SET status = 'succeeded', result = $2::jsonb, finished_at = NOW() WHERE id = $1`,
+      [runId, output ? JSON.stringify(output) : null]
+    );
+    await query(
+      `UPDATE background_jobs
+          SET status = CASE WHEN interval_seconds IS NULL THEN 'succeeded' ELSE 'queued' END,
+              run_at = CASE WHEN interval_seconds IS NULL THEN run_at ELSE NOW() + make_interval(secs => interval_seconds) END,
+              attempts = CASE WHEN interval_seconds IS NULL THEN attempts ELSE 0 END,
+              last_error = NULL, locked_by = NULL, locked_at = NULL, completed_at = NOW()
+        WHERE id = $1 AND status = 'running' AND locked_by = $2`,
+      [job.id, WORKER_ID]
+    );
+  } catch (error) {
+    const message = errorMessage(error);
+    console.error(`Background job ${job.jobType} (${job.id}) attempt ${job.attempts} failed:`, error);
+
+    const recurring = job.intervalSeconds !== null;
+    const delay = recurring
+      ? Math.min(retryDelaySeconds(job.attempts), job.intervalSeconds!)
+      : retryDelaySeconds(job.attempts);
+    const dead = !recurring && job.attempts >= job.maxAttempts;
+
+    await query(
+      `UPDATE background_job_runs SET status = 'failed', error = $2, finished_at = NOW() WHERE id = $1`,
+      [runId, message]
+    );
+    await query(
+      `UPDATE background_jobs
+          SET status = $3, run_at = NOW() + make_interval(secs => $4), last_error = $5,
+              locked_by = NULL, locked_at = NULL, completed_at = CASE WHEN $3 = 'dead' THEN NOW() ELSE NULL END
+        WHERE id = $1 AND status = 'running' AND locked_by = $2`,
+      [job.id, WORKER_ID, dead ? 'dead' : 'queued', delay, message]
+    );
+  }
+}
+
+// ── Worker ──────────────────────────────────────────────────
+
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+let inFlight: Promise<unknown> | null = null;
+let stopping = false;
+let recurringJobsEnsured = false;
+
+/** Runs due jobs one after another until none are left (or `limit` ran). */
+export async function processDueJobs(limit = 100): Promise<number> {
+  if (!recurringJobsEnsured) {
+    await ensureRecurringJobs();
+    recurringJobsEnsured = true;
+  }
+  await reclaimStaleJobs();
+  let processed = 0;
+  while (processed < limit && !stopping) {
+    const job = await claimNextJob();
+    if (!job) break;
+    await runJob(job);
+    processed++;
+  }
+  return processed;
+}
+
+function schedulePoll(delayMs: number) {
+  pollTimer = setTimeout(() => {
+    inFlight = processDueJobs()
+      .catch((error) => console.error('Background job poll failed:', error))
+      .finally(() => {
+        inFlight = null;
+        if (!stopping) schedulePoll(JOB_POLL_INTERVAL_MS);
+      });
+  }, delayMs);
+}
+
+/**
+ * Starts polling on this instance. Call once handlers are registered. Poll
+ * failures (the database being briefly unreachable, say) are logged and the
+ * next poll tries again.
+ */
+export function startJobWorker(): void {
+  stopping = false;
+  recurringJobsEnsured = false;
+  schedulePoll(0);
+}
+
+/** Stops polling and waits for the job in progress, if any, to finish. */
+export async function stopJobWorker(): Promise<void> {
+  stopping = true;
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = null;
+  await inFlight;
+}
+
+// ── Support console ─────────────────────────────────────────
+
+/** Newest activity first, with per-status counts across all jobs for the summary tiles. */
+export async function listJobs(filters: JobFilters): Promise<{
+  jobs: BackgroundJob[];
+  total: number;
+  counts: Record<JobStatus, number>;
+  jobTypes: string[];
+}> {
+  const where: string[] = [];
+  const params: unknown[] = [];
+  const add = (clause: string, value: unknown) => {
+    params.push(value);
+    where.push(clause.split('?').join(`$${params.length}`));
+  };
+
+  if (filters.status) add('status = ?', filters.status);
+  if (filters.jobType) add('job_type = ?', filters.jobType);
+  if (filters.search) {
+    add('(dedupe_key ILIKE ? OR last_error ILIKE ? OR payload::text ILIKE ?)', `%${filters.search}%`);
+  }
+
+  const whereSql = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+  const limit = Math.min(Math.max(Number(filters.limit) || 50, 1), MAX_JOB_PAGE_SIZE);
+  const offset = Math.max(Number(filters.offset) || 0, 0);
+
+  const [rows, count, statusCounts, types] = await Promise.all([
+    query(
+      `SELECT ${JOB_COLUMNS} FROM background_jobs ${whereSql}
+        ORDER BY updated_at DESC, id LIMIT ${limit} OFFSET ${offset}`,
+      params
+    ),
+    query(`SELECT COUNT(*)::int as total FROM background_jobs ${whereSql}`, params),
+    query(`SELECT status, COUNT(*)::int as count FROM background_jobs GROUP BY status`),
+    query(`SELECT DISTINCT job_type as "jobType" FROM background_jobs ORDER BY job_type`),
+  ]);
+
+  const counts: Record<JobStatus, number> = { queued: 0, running: 0, succeeded: 0, dead: 0, canceled: 0 };
+  for (const row of statusCounts.rows) counts[row.status as JobStatus] = row.count;
+
+  return {
+    jobs: rows.rows,
+    total: count.rows[0]?.total ?? 0,
+    counts,
+    jobTypes: types.rows.map((row: { jobType: string }) => row.jobType),
+  };
+}
+
+export async function listJobRuns(jobId: string, limit = 50): Promise<JobRun[]> {
+  const result = await query(
+    `SELECT id, job_id as "jobId", attempt, worker_id as "workerId", status, error, result,
+            started_at as "startedAt", finished_at as "finishedAt"
+       FROM background_job_runs
+      WHERE job_id = $1
+      ORDER BY started_at DESC
+      LIMIT $2`,
+    [jobId, Math.min(Math.max(limit, 1), MAX_JOB_PAGE_SIZE)]
+  );
+  return result.rows;
+}
+
+/** Queues a dead, canceled or waiting job to run now with a fresh set of attempts. */
+export async function retryJob(jobId: string): Promise<BackgroundJob> {
+  const result = await query(
+    `UPDATE background_jobs
+        SET status = 'queued', run_at = NOW(), attempts = 0, completed_at = NULL
+      WHERE id = $1 AND status IN ('queued', 'dead', 'canceled')
+      RETURNING ${JOB_COLUMNS}`,
+    [jobId]
+  );
+  if (result.rows[0]) return result.rows[0];
+  throw await jobStateError(jobId, 'retried');
+}
+
+/** Stops a queued or dead job from running again. */
+export async function cancelJob(jobId: string): Promise<BackgroundJob> {
+  const result = await query(
+    `UPDATE background_jobs
+        SET status = 'canceled', completed_at = NOW()
+      WHERE id = $1 AND status IN ('queued', 'dead')
+      RETURNING ${JOB_COLUMNS}`,
+    [jobId]
+  );
+  if (result.rows[0]) return result.rows[0];
+  throw await jobStateError(jobId, 'canceled');
+}
+
+async function jobStateError(jobId: string, action: string): Promise<JobQueueError> {
+  const existing = await query(`SELECT status FROM background_jobs WHERE id = $1`, [jobId]);
+  if (!existing.rows[0]) return new JobQueueError('Job not found', 404);
+  return new JobQueueError(`A ${existing.rows[0].status} job can't be ${action}`, 409);
+}
+
+/** Drops run history and finished one-off jobs older than `days`. */
+export async function pruneJobHistory(days = 30): Promise<{ runs: number; jobs: number }> {
+  const runs = await query(
+    `DELETE FROM background_job_runs WHERE started_at < NOW() - make_interval(days => $1)`,
+    [days]
+  );
+  const jobs = await query(
+    `DELETE FROM background_jobs
+      WHERE interval_seconds IS NULL AND status IN ('succeeded', 'canceled')
+        AND completed_at < NOW() - make_interval(days => $1)`,
+    [days]
+  );
+  return { runs: runs.rowCount ?? 0, jobs: jobs.rowCount ?? 0 };
+}
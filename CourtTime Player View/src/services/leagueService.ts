@@ -0,0 +1,1098 @@
+/**
+ * Leagues (leagues feature flag): seasons, teams, generated schedules, court
+ * reservations, results and standings.
+ *
+ * A league has a format and one of the league booking types from
+ * shared/constants/bookingTypes.ts. Each season fixes a match night, start
+ * time, match length and the courts it may use. Round-robin seasons are
+ * scheduled in one pass with the circle method; ladder seasons one round at a
+ * time, pairing neighbours on the ladder as it stands after the last round.
+ *
+ * Every fixture holds its court through a regular createBooking call made by
+ * the admin who generated the schedule, with the league's booking type, so
+ * the court calendar, conflict lock and reports all see it. Booking rules and
+ * court fees are skipped (the same as bulletin events), but court blackouts
+ * are checked here, since the rules engine no longer enforces CRT-006. A
+ * fixture that finds no free court is left 'unscheduled' for an admin to
+ * place by hand.
+ */
+
+import { query, transaction } from '../database/connection';
+import { createBooking } from './bookingService';
+import { notificationService } from './notificationService';
+import { publishBookingChange } from './realtimeService';
+import {
+  combineDateAndTime,
+  matchesRecurrenceRule,
+  timeRangesOverlap,
+} from './rulesEngine/utils/timeUtils';
+
+/** Thrown for caller mistakes; `status` is the HTTP status the route should return. */
+export class LeagueError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'LeagueError';
+  }
+}
+
+export const LEAGUE_BOOKING_TYPES = ['league_match', 'alta_tennis', 'usta_tennis', 'flex_tennis'] as const;
+export type LeagueBookingType = (typeof LEAGUE_BOOKING_TYPES)[number];
+
+export type LeagueFormat = 'round_robin' | 'ladder';
+export type SeasonStatus = 'draft' | 'scheduled' | 'completed';
+export type FixtureStatus = 'scheduled' | 'unscheduled' | 'completed' | 'cancelled';
+
+/**
+ * When every court is taken at the season start time, try this many later
+ * starts (one match length apart) before leaving a fixture unscheduled.
+ */
+export const LEAGUE_MAX_START_SHIFTS = 2;
+
+export interface LeagueSeasonSummary {
+  id: string;
+  name: string;
+  startDate: string;
+  status: SeasonStatus;
+}
+
+export interface League {
+  id: string;
+  facilityId: string;
+  name: string;
+  description: string | null;
+  format: LeagueFormat;
+  bookingType: LeagueBookingType;
+  isActive: boolean;
+  seasons: LeagueSeasonSummary[];
+}
+
+export interface LeagueSeason {
+  id: string;
+  leagueId: string;
+  leagueName: string;
+  facilityId: string;
+  format: LeagueFormat;
+  bookingType: LeagueBookingType;
+  name: string;
+  startDate: string;
+  matchDayOfWeek: number;
+  matchStartTime: string;
+  matchDurationMinutes: number;
+  courtIds: string[];
+  status: SeasonStatus;
+}
+
+export interface LeagueTeam {
+  id: string;
+  seasonId: string;
+  name: string;
+  captainId: string | null;
+  captainName: string | null;
+  ladderRank: number;
+  members: Array<{ userId: string; fullName: string }>;
+}
+
+export interface LeagueFixture {
+  id: string;
+  seasonId: string;
+  roundNumber: number;
+  homeTeamId: string;
+  homeTeamName: string;
+  awayTeamId: string;
+  awayTeamName: string;
+  matchDate: string;
+  startTime: string;
+  endTime: string;
+  courtId: string | null;
+  courtName: string | null;
+  bookingId: string | null;
+  status: FixtureStatus;
+  homeScore: number | null;
+  awayScore: number | null;
+  scoreDetail: string | null;
+  winnerTeamId: string | null;
+}
+
+export interface StandingRow {
+  teamId: string;
+  teamName: string;
+  position: number;
+  played: number;
+  won: number;
+  lost: number;
+  scoreFor: number;
+  scoreAgainst: number;
+}
+
+export interface SeasonDetail {
+  season: LeagueSeason;
+  teams: LeagueTeam[];
+  fixtures: LeagueFixture[];
+  standings: StandingRow[];
+}
+
+export interface Pairing {
+  homeTeamId: string;
+  awayTeamId: string;
+}
+
+const SEASON_COLUMNS = `
+  s.id,
+  s.league_id as "leagueId",
+  l.name as "leagueName",
+  l.facility_id as "facilityId",
+  l.format,
+  l.booking_type as "bookingType",
+  s.name,
+  TO_CHAR(s.start_date, 'YYYY-MM-DD') as "startDate",
+  s.match_day_of_week as "matchDayOfWeek",
+  s.match_start_time as "matchStartTime",
+  s.match_duration_minutes as "matchDurationMinutes",
+  s.court_ids as "courtIds",
+  s.status`;
+
+const FIXTURE_COLUMNS = `
+  f.id,
+  f.season_id as "seasonId",
+  f.round_number as "roundNumber",
+  f.home_team_id as "homeTeamId",
+  ht.name as "homeTeamName",
+  f.away_team_id as "awayTeamId",
+  at.name as "awayTeamName",
+  TO_CHAR(f.match_date, 'YYYY-MM-DD') as "matchDate",
+  f.start_time as "startTime",
+  f.end_time as "endTime",
+  f.court_id as "courtId",
+  c.name as "courtName",
+  f.booking_id as "bookingId",
+  f.status,
+  f.home_score as "homeScore",
+  f.away_score as "awayScore",
+  f.score_detail as "scoreDetail",
+  f.winner_team_id as "winnerTeamId"`;
+
+const FIXTURE_JOINS = `
+  JOIN league_teams ht ON ht.id = f.home_team_id
+  JOIN league_teams at ON at.id = f.away_team_id
+  LEFT JOIN courts c ON c.id = f.court_id`;
+
+function toMinutes(time: string): number {
+  const m = String(time || '').trim().match(/^(\d{1,2}):(\d{2})/);
+  if (!m) throw new LeagueError('Times must be in HH:MM format');
+  return Number(m[1]) * 60 + Number(m[2]);
+}
+
+function toTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}:00`;
+}
+
+function isYmd(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+function addDaysYmd(ymd: string, days: number): string {
+  const [y, m, d] = ymd.split('-').map(Number);
+  const date = new Date(y, m - 1, d + days);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/** First date on or after `startYmd` that falls on `dayOfWeek`. */
+export function firstMatchDate(startYmd: string, dayOfWeek: number): string {
+  const [y, m, d] = startYmd.split('-').map(Number);
+  const offset = (dayOfWeek - new Date(y, m - 1, d).getDay() + 7) % 7;
+  return addDaysYmd(startYmd, offset);
+}
+
+/**
+ * Round-robin rounds by the circle method: every team meets every other once,
+ * with a bye each round when the count is odd. Home and away alternate so no
+ * team hosts every week.
+ */
+export function buildRoundRobinRounds(teamIds: string[]): Pairing[][] {
+  const slots: Array<string | null> = [...teamIds];
+  if (slots.length % 2 === 1) slots.push(null);
+  const n = slots.length;
+  const rounds: Pairing[][] = [];
+
+  for (let round = 0; round < n - 1; round++) {
+    const pairings: Pairing[] = [];
+    for (let i = 0; i < n / 2; i++) {
+      const a = slots[i];
+      const b = slots[n - 1 - i];
+      if (!a || !b) continue;
+      const flip = i === 0 ? round % 2 === 1 : i % 2 === 1;
+      pairings.push(flip ? { homeTeamId: b, awayTeamId: a } : { homeTeamId: a, awayTeamId: b });
+    }
+    rounds.push(pairings);
+    // Keep the first slot fixed and rotate the rest one place clockwise.
+    slots.splice(1, 0, slots.pop()!);
+  }
+  return rounds;
+}
+
+/**
+ * Ladder round: neighbours play, the higher-ranked side at home. Odd rounds
+ * pair 1v2, 3v4…; even rounds 2v3, 4v5… so nobody is stuck behind the same
+ * opponent. Whoever is left over sits the round out.
+ */
+export function buildLadderPairings(rankedTeamIds: string[], roundNumber: number): Pairing[] {
+  const pairings: Pairing[] = [];
+  const start = roundNumber % 2 === 0 ? 1 : 0;
+  for (let i = start; i + 1 < rankedTeamIds.length; i += 2) {
+    pairings.push({ homeTeamId: rankedTeamIds[i], awayTeamId: rankedTeamIds[i + 1] });
+  }
+  return pairings;
+}
+
+/**
+ * Ladder order after a result: a winner ranked below the loser takes the
+ * loser's place and everyone in between drops one. Other results change nothing.
+ */
+export function applyLadderResult(rankedTeamIds: string[], winnerId: string, loserId: string): string[] {
+  const winnerIndex = rankedTeamIds.indexOf(winnerId);
+  const loserIndex = rankedTeamIds.indexOf(loserId);
+  if (winnerIndex < 0 || loserIndex < 0 || winnerIndex < loserIndex) return rankedTeamIds;
+  const next = rankedTeamIds.filter((id) => id !== winnerId);
+  next.splice(loserIndex, 0, winnerId);
+  return next;
+}
+
+/**
+ * Standings from completed fixtures. Round-robin tables sort by wins, then
+ * score difference, then score won; ladder tables keep ladder order.
+ */
+export function computeStandings(
+  format: LeagueFormat,
+  teams: Array<Pick<LeagueTeam, 'id' | 'name' | 'ladderRank'>>,
+  fixtures: Array<Pick<LeagueFixture, 'homeTeamId' | 'awayTeamId' | 'status' | 'homeScore' | 'awayScore' | 'winnerTeamId'>>
+): StandingRow[] {
+  const rows = new Map<string, StandingRow & { ladderRank: number }>();
+  for (const team of teams) {
+    rows.set(team.id, {
+      teamId: team.id,
+      teamName: team.name,
+      ladderRank: team.ladderRank,
+      position: 0,
+      played: 0,
+      won: 0,
+      lost: 0,
+      scoreFor: 0,
+      scoreAgainst: 0,
+    });
+  }
+
+  for (const f of fixtures) {
+    if (f.status !== 'completed' || !f.winnerTeamId) continue;
+    const home = rows.get(f.homeTeamId);
+    const away = rows.get(f.awayTeamId);
+    if (!home || !away) continue;
+    home.played += 1;
+    away.played += 1;
+    home.scoreFor += f.homeScore ?? 0;
+    home.scoreAgainst += f.awayScore ?? 0;
+    away.scoreFor += f.awayScore ?? 0;
+    away.scoreAgainst += f.homeScore ?? 0;
+    if (f.winnerTeamId === f.homeTeamId) {
+      home.won += 1;
+      away.lost += 1;
+    } else {
+      away.won += 1;
+      home.lost += 1;
+    }
+  }
+
+  const sorted = Array.from(rows.values()).sort((a, b) =>
+    format === 'ladder'
+      ? a.ladderRank - b.ladderRank
+      : b.won - a.won ||
+        b.scoreFor - b.scoreAgainst - (a.scoreFor - a.scoreAgainst) ||
+        b.scoreFor - a.scoreFor ||
+        a.teamName.localeCompare(b.teamName)
+  );
+  return sorted.map(({ ladderRank: _ladderRank, ...row }, index) => ({ ...row, position: index + 1 }));
+}
+
+export interface BlackoutWindow {
+  courtId: string | null;
+  startDatetime: Date;
+  endDatetime: Date;
+  recurrenceRule: string | null;
+}
+
+/** Same test as CRT-006: a one-off overlap, or a weekly recurrence on this day that overlaps in time. */
+export function blackoutBlocks(
+  blackout: BlackoutWindow,
+  courtId: string,
+  dateYmd: string,
+  startTime: string,
+  endTime: string
+): boolean {
+  if (blackout.courtId && blackout.courtId !== courtId) return false;
+  const start = combineDateAndTime(dateYmd, startTime);
+  const end = combineDateAndTime(dateYmd, endTime);
+  const blackoutStart = new Date(blackout.startDatetime);
+  const blackoutEnd = new Date(blackout.endDatetime);
+  if (blackoutStart < end && blackoutEnd > start) return true;
+  if (blackout.recurrenceRule && matchesRecurrenceRule(blackout.recurrenceRule, blackoutStart, start)) {
+    return timeRangesOverlap(
+      startTime,
+      endTime,
+      blackoutStart.toTimeString().slice(0, 8),
+      blackoutEnd.toTimeString().slice(0, 8)
+    );
+  }
+  return false;
+}
+
+// ---------------------------------------------------------------------------
+// Leagues and seasons
+// ---------------------------------------------------------------------------
+
+function validateBookingType(bookingType: unknown): LeagueBookingType {
+  if (!LEAGUE_BOOKING_TYPES.includes(bookingType as LeagueBookingType)) {
+    throw new LeagueError(`bookingType must be one of ${LEAGUE_BOOKING_TYPES.join(', ')}`);
+  }
+  return bookingType as LeagueBookingType;
+}
+
+/** Leagues with their seasons, newest season first. Members only see active leagues. */
+export async function listLeagues(
+  facilityId: string,
+  options: { includeInactive?: boolean } = {}
+): Promise<League[]> {
+  const leagues = await query(
+    `SELECT id, facility_id as "facilityId", name, description, format,
+            booking_type as "bookingType", is_active as "isActive"
+       FROM leagues
+      WHERE facility_id = $1
+        AND ($2::boolean OR is_active = true)
+      ORDER BY name`,
+    [facilityId, Boolean(options.includeInactive)]
+  );
+  if (leagues.rows.length === 0) return [];
+
+  const seasons = await query(
+    `SELECT id, league_id as "leagueId", name, TO_CHAR(start_date, 'YYYY-MM-DD') as "startDate", status
+       FROM league_seasons
+      WHERE league_id = ANY($1::uuid[])
+      ORDER BY start_date DESC`,
+    [leagues.rows.map((l: any) => l.id)]
+  );
+  return leagues.rows.map((league: any) => ({
+    ...league,
+    seasons: seasons.rows
+      .filter((s: any) => s.leagueId === league.id)
+      .map(({ leagueId: _leagueId, ...s }: any) => s),
+  }));
+}
+
+export async function createLeague(
+  facilityId: string,
+  createdBy: string,
+  fields: { name: string; description?: string | null; format?: LeagueFormat; bookingType?: string }
+): Promise<League> {
+  const name = String(fields.name || '').trim();
+  if (!name) throw new LeagueError('name is required');
+  const format = fields.format ?? 'round_robin';
+  if (format !== 'round_robin' && format !== 'ladder') {
+    throw new LeagueError('format must be round_robin or ladder');
+  }
+  const bookingType = validateBookingType(fields.bookingType ?? 'league_match');
+
+  const inserted = await query(
+    `INSERT INTO leagues (facility_id, name, description, format, booking_type, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING id`,
+    [facilityId, name, fields.description?.trim() || null, format, bookingType, createdBy]
+  );
+  const leagues = await listLeagues(facilityId, { includeInactive: true });
+  return leagues.find((l) => l.id === inserted.rows[0].id)!;
+}
+
+/** Rename, describe or archive a league. Format is fixed once created. */
+export async function updateLeague(
+  leagueId: string,
+  fields: { name?: string; description?: string | null; bookingType?: string; isActive?: boolean }
+): Promise<void> {
+  if (fields.name !== undefined && !String(fields.name).trim()) {
+    throw new LeagueError('name cannot be empty');
+  }
+  if (fields.bookingType !== undefined) validateBookingType(fields.bookingType);
+  await query(
+    `UPDATE leagues SET
+       name = COALESCE($2, name),
+       description = CASE WHEN $3::boolean THEN $4 ELSE description END,
+       booking_type = COALESCE($5, booking_type),
+       is_active = COALESCE($6, is_active)
+     WHERE id = $1`,
+    [
+      leagueId,
+      fields.name?.trim() ?? null,
+      fields.description !== undefined,
+      fields.description?.trim() || null,
+      fields.bookingType ?? null,
+      fields.isActive ?? null,
+    ]
+  );
+}
+
+/** Owning facility of a league, season or fixture, or null when it doesn't exist. */
+export async function facilityIdForLeague(leagueId: string): Promise<string | null> {
+  const result = await query(`SELECT facility_id FROM leagues WHERE id = $1`, [leagueId]);
+  return result.rows[0]?.facility_id ?? null;
+}
+
+export async function facilityIdForSeason(seasonId: string): Promise<string | null> {
+  const result = await query(
+    `SELECT l.facility_id FROM league_seasons s JOIN leagues l ON l.id = s.league_id WHERE s.id = $1`,
+    [seasonId]
+  );
+  return result.rows[0]?.facility_id ?? null;
+}
+
+export async function facilityIdForFixture(fixtureId: string): Promise<string | null> {
+  const result = await query(
+    `SELECT l.facility_id
+       FROM league_fixtures f
+       JOIN league_seasons s ON s.id = f.season_id
+       JOIN leagues l ON l.id = s.league_id
+      WHERE f.id = $1`,
+    [fixtureId]
+  );
+  return result.rows[0]?.facility_id ?? null;
+}
+
+async function assertCourtsInFacility(facilityId: string, courtIds: string[]) {
+  if (courtIds.length === 0) return;
+  const result = await query(
+    `SELECT COUNT(*)::int as count FROM courts WHERE facility_id = $1 AND id = ANY($2::uuid[])`,
+    [facilityId, courtIds]
+  );
+  if (result.rows[0].count !== new Set(courtIds).size) {
+    throw new LeagueError('One or more courts do not belong to this facility');
+  }
+}
+
+export async function createSeason(
+  leagueId: string,
+  fields: {
+    name: string;
+    startDate: string;
+    matchDayOfWeek: number;
+    matchStartTime: string;
+    matchDurationMinutes?: number;
+    courtIds?: string[];
+  }
+): Promise<LeagueSeason> {
+  const facilityId = await facilityIdForLeague(leagueId);
+  if (!facilityId) throw new LeagueError('League not found', 404);
+
+  const name = String(fields.name || '').trim();
+  if (!name) throw new LeagueError('name is required');
+  if (!isYmd(fields.startDate)) throw new LeagueError('startDate must be YYYY-MM-DD');
+  if (!Number.isInteger(fields.matchDayOfWeek) || fields.matchDayOfWeek < 0 || fields.matchDayOfWeek > 6) {
+    throw new LeagueError('matchDayOfWeek must be 0 (Sunday) to 6 (Saturday)');
+  }
+  const duration = fields.matchDurationMinutes ?? 90;
+  if (!Number.isInteger(duration) || duration < 30 || duration > 300) {
+    throw new LeagueError('Match length must be between 30 and 300 minutes');
+  }
+  const start = toMinutes(fields.matchStartTime);
+  if (start + duration > 24 * 60) throw new LeagueError('Matches must finish by midnight');
+  const courtIds = fields.courtIds ?? [];
+  if (!Array.isArray(courtIds)) throw new LeagueError('courtIds must be an array');
+  await assertCourtsInFacility(facilityId, courtIds);
+
+  const inserted = await query(
+    `INSERT INTO league_seasons
+       (league_id, name, start_date, match_day_of_week, match_start_time, match_duration_minutes, court_ids)
+     VALUES ($1, $2, $3, $4, $5, $6, $7::uuid[])
+     RETURNING id`,
+    [leagueId, name, fields.startDate, fields.matchDayOfWeek, toTime(start), duration, courtIds]
+  );
+  return (await getSeason(inserted.rows[0].id))!;
+}
+
+async function getSeason(seasonId: string): Promise<LeagueSeason | null> {
+  const result = await query(
+    `SELECT ${SEASON_COLUMNS}
+       FROM league_seasons s
+       JOIN leagues l ON l.id = s.league_id
+      WHERE s.id = $1`,
+    [seasonId]
+  );
+  return result.rows[0] ?? null;
+}
+
+async function getTeams(seasonId: string): Promise<LeagueTeam[]> {
+  const teams = await query(
+    `SELECT t.id, t.season_id as "seasonId", t.name, t.captain_id as "captainId",
+            cu.full_name as "captainName", t.ladder_rank as "ladderRank"
+       FROM league_teams t
+       LEFT JOIN users cu ON cu.id = t.captain_id
+      WHERE t.season_id = $1
+      ORDER BY t.ladder_rank, t.name`,
+    [seasonId]
+  );
+  const members = await query(
+    `SELECT m.team_id as "teamId", m.user_id as "userId", u.full_name as "fullName"
+       FROM league_team_members m
+       JOIN league_teams t ON t.id = m.team_id
+       JOIN users u ON u.id = m.user_id
+      WHERE t.season_id = $1
+      ORDER BY u.full_name`,
+    [seasonId]
+  );
+  return teams.rows.map((team: any) => ({
+    ...team,
+    members: members.rows
+      .filter((m: any) => m.teamId === team.id)
+      .map((m: any) => ({ userId: m.userId, fullName: m.fullName })),
+  }));
+}
+
+async function getFixtures(seasonId: string): Promise<LeagueFixture[]> {
+  const result = await query(
+    `SELECT ${FIXTURE_COLUMNS}
+       FROM league_fixtures f ${FIXTURE_JOINS}
+      WHERE f.season_id = $1
+      ORDER BY f.round_number, f.match_date, f.start_time, ht.name`,
+    [seasonId]
+  );
+  return result.rows;
+}
+
+async function getFixture(fixtureId: string): Promise<LeagueFixture | null> {
+  const result = await query(
+    `SELECT ${FIXTURE_COLUMNS} FROM league_fixtures f ${FIXTURE_JOINS} WHERE f.id = $1`,
+    [fixtureId]
+  );
+  return result.rows[0] ?? null;
+}
+
+/** Season with its teams, fixtures and current standings. */
+export async function getSeasonDetail(seasonId: string): Promise<SeasonDetail | null> {
+  const season = await getSeason(seasonId);
+  if (!season) return null;
+  const [teams, fixtures] = await Promise.all([getTeams(seasonId), getFixtures(seasonId)]);
+  return { season, teams, fixtures, standings: computeStandings(season.format, teams, fixtures) };
+}
+
+// ---------------------------------------------------------------------------
+// Teams
+// ---------------------------------------------------------------------------
+
+/**
+ * Add a team. Round-robin teams can only join before the schedule is
+ * generated; ladder teams can join any time and start at the bottom.
+ */
+export async function addTeam(
+  seasonId: string,
+  fields: { name: string; captainId?: string | null; memberIds: string[] }
+): Promise<LeagueTeam> {
+  const season = await getSeason(seasonId);
+  if (!season) throw new LeagueError('Season not found', 404);
+  if (season.status === 'completed') throw new LeagueError('This season has finished');
+  if (season.format === 'round_robin' && season.status !== 'draft') {
+    throw new LeagueError('Teams cannot join a round-robin season after the schedule is out', 409);
+  }
+
+  const name = String(fields.name || '').trim();
+  if (!name) throw new LeagueError('Team name is required');
+  const memberIds = Array.from(new Set([...(fields.memberIds || []), ...(fields.captainId ? [fields.captainId] : [])]));
+  if (memberIds.length === 0) throw new LeagueError('A team needs at least one player');
+
+  const members = await query(
+    `SELECT COUNT(*)::int as count FROM facility_memberships
+      WHERE facility_id = $1 AND user_id = ANY($2::uuid[]) AND status = 'active'`,
+    [season.facilityId, memberIds]
+  );
+  if (members.rows[0].count !== memberIds.length) {
+    throw new LeagueError('Every player must be an active member of the facility');
+  }
+  const taken = await query(
+    `SELECT u.full_name as "fullName"
+       FROM league_team_members m
+       JOIN league_teams t ON t.id = m.team_id
+       JOIN users u ON u.id = m.user_id
+      WHERE t.season_id = $1 AND m.user_id = ANY($2::uuid[])
+      LIMIT 1`,
+    [seasonId, memberIds]
+  );
+  if (taken.rows.length > 0) {
+    throw new LeagueError(`${taken.rows[0].fullName} is already on a team this season`, 409);
+  }
+
+  let teamId: string;
+  try {
+    teamId = await transaction(async (client) => {
+      const inserted = await client.query(
+        `INSERT INTO league_teams (season_id, name, captain_id, ladder_rank)
+         VALUES ($1, $2, $3,
+                 (SELECT COALESCE(MAX(ladder_rank), 0) + 1 FROM league_teams WHERE season_id = $1))
+         RETURNING id`,
+        [seasonId, name, fields.captainId || null]
+      );
+      const id: string = inserted.rows[0].id;
+      for (const userId of memberIds) {
+        await client.query(`INSERT INTO league_team_members (team_id, user_id) VALUES ($1, $2)`, [id, userId]);
+      }
+      return id;
+    });
+  } catch (error: any) {
+    if (error?.code === '23505') {
+      throw new LeagueError('A team with this name already exists this season', 409);
+    }
+    throw error;
+  }
+
+  return (await getTeams(seasonId)).find((t) => t.id === teamId)!;
+}
+
+/** Remove a team that has no fixtures yet; the ladder closes up behind it. */
+export async function removeTeam(seasonId: string, teamId: string): Promise<void> {
+  const fixtures = await query(
+    `SELECT 1 FROM league_fixtures WHERE home_team_id = $1 OR away_team_id = $1 LIMIT 1`,
+    [teamId]
+  );
+  if (fixtures.rows.length > 0) {
+    throw new LeagueError('This team already has matches on the schedule', 409);
+  }
+  await transaction(async (client) => {
+    const removed = await client.query(
+      `DELETE FROM league_teams WHERE id = $1 AND season_id = $2 RETURNING ladder_rank`,
+      [teamId, seasonId]
+    );
+    if (removed.rows.length === 0) throw new LeagueError('Team not found', 404);
+    await client.query(
+      `UPDATE league_teams SET ladder_rank = ladder_rank - 1 WHERE season_id = $1 AND ladder_rank > $2`,
+      [seasonId, removed.rows[0].ladder_rank]
+    );
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Scheduling and court reservation
+// ---------------------------------------------------------------------------
+
+async function seasonCourtIds(season: LeagueSeason): Promise<string[]> {
+  const result = await query(
+    `SELECT id FROM courts
+      WHERE facility_id = $1
+        AND is_walk_up = false
+        AND COALESCE(status, 'available') = 'available'
+        AND (cardinality($2::uuid[]) = 0 OR id = ANY($2::uuid[]))
+      ORDER BY court_number NULLS LAST, name`,
+    [season.facilityId, season.courtIds]
+  );
+  return result.rows.map((row: any) => row.id);
+}
+
+async function loadBlackouts(facilityId: string, fromYmd: string, toYmd: string): Promise<BlackoutWindow[]> {
+  const result = await query(
+    `SELECT court_id as "courtId", start_datetime as "startDatetime",
+            end_datetime as "endDatetime", recurrence_rule as "recurrenceRule"
+       FROM court_blackouts
+      WHERE facility_id = $1
+        AND is_active = true
+        AND (
+          (start_datetime::date <= $3::date AND end_datetime::date >= $2::date)
+          OR recurrence_rule IS NOT NULL
+        )`,
+    [facilityId, fromYmd, toYmd]
+  );
+  return result.rows;
+}
+
+interface CourtReservation {
+  courtId: string;
+  bookingId: string;
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * Reserve a court for one fixture: each court at the requested start, then
+ * each later start up to `maxShifts` (default LEAGUE_MAX_START_SHIFTS) match
+ * lengths on. Returns
+ * null when nothing is free; throws when the booking is refused for reasons
+ * another court would not fix (e.g. the admin has unaccepted terms).
+ */
+async function reserveFixtureCourt(params: {
+  season: LeagueSeason;
+  actorId: string;
+  courtIds: string[];
+  blackouts: BlackoutWindow[];
+  matchDate: string;
+  startTime: string;
+  label: string;
+  maxShifts?: number;
+  excludeBookingId?: string;
+}): Promise<CourtReservation | null> {
+  const duration = params.season.matchDurationMinutes;
+  const firstStart = toMinutes(params.startTime);
+  const maxShifts = params.maxShifts ?? LEAGUE_MAX_START_SHIFTS;
+
+  for (let shift = 0; shift <= maxShifts; shift++) {
+    const start = firstStart + shift * duration;
+    if (start + duration > 24 * 60) break;
+    const startTime = toTime(start);
+    const endTime = toTime(start + duration);
+
+    for (const courtId of params.courtIds) {
+      if (params.blackouts.some((b) => blackoutBlocks(b, courtId, params.matchDate, startTime, endTime))) {
+        continue;
+      }
+      const result = await createBooking({
+        courtId,
+        userId: params.actorId,
+        facilityId: params.season.facilityId,
+        bookingDate: params.matchDate,
+        startTime,
+        endTime,
+        durationMinutes: duration,
+        bookingType: params.season.bookingType,
+        notes: params.label,
+        skipRulesValidation: true,
+        skipPaymentCheck: true,
+        excludeBookingId: params.excludeBookingId,
+      });
+      if (result.success && result.booking?.id) {
+        return { courtId, bookingId: result.booking.id, startTime, endTime };
+      }
+      if (result.ruleViolations?.length) {
+        throw new LeagueError(result.error || 'The court could not be reserved');
+      }
+    }
+  }
+  return null;
+}
+
+function fixtureLabel(season: LeagueSeason, home: string, away: string): string {
+  return `${season.leagueName}: ${home} vs ${away}`;
+}
+
+/**
+ * Generate fixtures and reserve their courts. Round-robin seasons get every
+ * round at once; ladder seasons get the next round once the last one is
+ * finished. Returns how many fixtures were created and how many of those
+ * could not be given a court.
+ */
+export async function scheduleSeason(
+  seasonId: string,
+  actorId: string
+): Promise<{ created: number; unscheduled: number }> {
+  const season = await getSeason(seasonId);
+  if (!season) throw new LeagueError('Season not found', 404);
+  if (season.status === 'completed') throw new LeagueError('This season has finished');
+
+  const teams = await getTeams(seasonId);
+  if (teams.length < 2) throw new LeagueError('Add at least two teams first');
+  const teamNames = new Map(teams.map((t) => [t.id, t.name]));
+
+  const existing = await query(
+    `SELECT COALESCE(MAX(round_number), 0)::int as "lastRound",
+            COUNT(*) FILTER (WHERE status IN ('scheduled', 'unscheduled'))::int as "open"
+       FROM league_fixtures WHERE season_id = $1`,
+    [seasonId]
+  );
+  const { lastRound, open } = existing.rows[0];
+
+  let rounds: Array<{ roundNumber: number; pairings: Pairing[] }>;
+  if (season.format === 'round_robin') {
+    if (lastRound > 0) throw new LeagueError('This season is already scheduled', 409);
+    rounds = buildRoundRobinRounds(teams.map((t) => t.id)).map((pairings, i) => ({
+      roundNumber: i + 1,
+      pairings,
+    }));
+  } else {
+    if (open > 0) throw new LeagueError('Finish or cancel the current round before starting the next', 409);
+    const roundNumber = lastRound + 1;
+    rounds = [{ roundNumber, pairings: buildLadderPairings(teams.map((t) => t.id), roundNumber) }];
+  }
+
+  const firstDate = firstMatchDate(season.startDate, season.matchDayOfWeek);
+  const dateFor = (roundNumber: number) => addDaysYmd(firstDate, (roundNumber - 1) * 7);
+  const courtIds = await seasonCourtIds(season);
+  const blackouts = await loadBlackouts(
+    season.facilityId,
+    dateFor(rounds[0].roundNumber),
+    dateFor(rounds[rounds.length - 1].roundNumber)
+  );
+
+  let created = 0;
+  let unscheduled = 0;
+  for (const round of rounds) {
+    const matchDate = dateFor(round.roundNumber);
+    for (const pairing of round.pairings) {
+      const home = teamNames.get(pairing.homeTeamId)!;
+      const away = teamNames.get(pairing.awayTeamId)!;
+      const reservation = await reserveFixtureCourt({
+        season,
+        actorId,
+        courtIds,
+        blackouts,
+        matchDate,
+        startTime: season.matchStartTime,
+        label: fixtureLabel(season, home, away),
+      });
+      const startTime = reservation?.startTime ?? toTime(toMinutes(season.matchStartTime));
+      const endTime =
+        reservation?.endTime ?? toTime(toMinutes(season.matchStartTime) + season.matchDurationMinutes);
+
+      await query(
+        `INSERT INTO league_fixtures
+           (season_id, round_number, home_team_id, away_team_id, match_date, start_time, end_time,
+            court_id, booking_id, status)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+        [
+          seasonId,
+          round.roundNumber,
+          pairing.homeTeamId,
+          pairing.awayTeamId,
+          matchDate,
+          startTime,
+          endTime,
+          reservation?.courtId ?? null,
+          reservation?.bookingId ?? null,
+          reservation ? 'scheduled' : 'unscheduled',
+        ]
+      );
+      created += 1;
+      if (!reservation) unscheduled += 1;
+    }
+  }
+
+  await query(`UPDATE league_seasons SET status = 'scheduled' WHERE id = $1 AND status = 'draft'`, [seasonId]);
+  notifySchedulePosted(season, teams);
+  return { created, unscheduled };
+}
+
+/**
+ * Move a fixture to a new date, time and/or court. The new court is reserved
+ * before the old booking is released, so a failed move leaves it where it was.
+ */
+export async function rescheduleFixture(
+  fixtureId: string,
+  actorId: string,
+  fields: { matchDate?: string; startTime?: string; courtId?: string }
+): Promise<LeagueFixture> {
+  const fixture = await getFixture(fixtureId);
+  if (!fixture) throw new LeagueError('Fixture not found', 404);
+  if (fixture.status === 'completed' || fixture.status === 'cancelled') {
+    throw new LeagueError('Only upcoming matches can be moved');
+  }
+  const season = (await getSeason(fixture.seasonId))!;
+
+  const matchDate = fields.matchDate ?? fixture.matchDate;
+  if (!isYmd(matchDate)) throw new LeagueError('matchDate must be YYYY-MM-DD');
+  const startTime = toTime(toMinutes(fields.startTime ?? fixture.startTime));
+  if (toMinutes(startTime) + season.matchDurationMinutes > 24 * 60) {
+    throw new LeagueError('Matches must finish by midnight');
+  }
+  const courtIds = fields.courtId ? [fields.courtId] : await seasonCourtIds(season);
+  await assertCourtsInFacility(season.facilityId, courtIds);
+
+  const endTime = toTime(toMinutes(startTime) + season.matchDurationMinutes);
+  const blackouts = await loadBlackouts(season.facilityId, matchDate, matchDate);
+  if (fields.courtId && blackouts.some((b) => blackoutBlocks(b, fields.courtId!, matchDate, startTime, endTime))) {
+    throw new LeagueError('That court is blacked out at this time', 409);
+  }
+
+  // Only this exact slot: a manual move shouldn't drift to a later start.
+  const reservation = await reserveFixtureCourt({
+    season,
+    actorId,
+    courtIds,
+    blackouts,
+    matchDate,
+    startTime,
+    label: fixtureLabel(season, fixture.homeTeamName, fixture.awayTeamName),
+    maxShifts: 0,
+    excludeBookingId: fixture.bookingId ?? undefined,
+  });
+  if (!reservation) throw new LeagueError('No court is free at that time', 409);
+
+  if (fixture.bookingId) {
+    await releaseFixtureBooking(fixture.bookingId);
+  }
+  await query(
+    `UPDATE league_fixtures
+        SET match_date = $2, start_time = $3, end_time = $4, court_id = $5, booking_id = $6,
+            status = 'scheduled'
+      WHERE id = $1`,
+    [fixtureId, matchDate, startTime, endTime, reservation.courtId, reservation.bookingId]
+  );
+  return (await getFixture(fixtureId))!;
+}
+
+/** Cancel a fixture and give its court back. */
+export async function cancelFixture(fixtureId: string): Promise<void> {
+  const fixture = await getFixture(fixtureId);
+  if (!fixture) throw new LeagueError('Fixture not found', 404);
+  if (fixture.status === 'completed') throw new LeagueError('This match already has a result');
+  await query(`UPDATE league_fixtures SET status = 'cancelled' WHERE id = $1`, [fixtureId]);
+  if (fixture.bookingId) {
+    await releaseFixtureBooking(fixture.bookingId);
+  }
+}
+
+/** Cancels the court booking a fixture held and tells open calendars. */
+async function releaseFixtureBooking(bookingId: string): Promise<void> {
+  const released = await query(
+    `UPDATE bookings SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND status != 'cancelled'
+      RETURNING id, facility_id as "facilityId", court_id as "courtId",
+                TO_CHAR(booking_date, 'YYYY-MM-DD') as "bookingDate",
+                start_time as "startTime", end_time as "endTime"`,
+    [bookingId]
+  );
+  if (released.rows[0]) publishBookingChange('booking.cancelled', released.rows[0]);
+}
+
+// ---------------------------------------------------------------------------
+// Results
+// ---------------------------------------------------------------------------
+
+/** True when `userId` plays for either side of the fixture. */
+export async function isFixtureParticipant(fixtureId: string, userId: string): Promise<boolean> {
+  const result = await query(
+    `SELECT 1
+       FROM league_fixtures f
+       JOIN league_team_members m ON m.team_id IN (f.home_team_id, f.away_team_id)
+      WHERE f.id = $1 AND m.user_id = $2
+      LIMIT 1`,
+    [fixtureId, userId]
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * Record (or correct) a result. Scores are sets or rubbers won; ties aren't
+ * allowed. On a ladder the winner moves up past a higher-ranked loser. A
+ * corrected ladder result doesn't unwind the earlier move — fix the ladder by
+ * hand if that matters.
+ */
+export async function recordResult(
+  fixtureId: string,
+  reporterId: string,
+  fields: { homeScore: number; awayScore: number; scoreDetail?: string | null }
+): Promise<LeagueFixture> {
+  const { homeScore, awayScore } = fields;
+  if (!Number.isInteger(homeScore) || !Number.isInteger(awayScore) || homeScore < 0 || awayScore < 0) {
+    throw new LeagueError('Scores must be whole numbers, 0 or more');
+  }
+  if (homeScore === awayScore) throw new LeagueError('A match needs a winner');
+  const scoreDetail = fields.scoreDetail?.trim().slice(0, 200) || null;
+
+  const fixture = await getFixture(fixtureId);
+  if (!fixture) throw new LeagueError('Fixture not found', 404);
+  if (fixture.status === 'cancelled') throw new LeagueError('This match was cancelled');
+  const season = (await getSeason(fixture.seasonId))!;
+
+  const winnerId = homeScore > awayScore ? fixture.homeTeamId : fixture.awayTeamId;
+  const loserId = winnerId === fixture.homeTeamId ? fixture.awayTeamId : fixture.homeTeamId;
+  const firstReport = fixture.status !== 'completed';
+
+  await transaction(async (client) => {
+    await client.query(
+      `UPDATE league_fixtures
+          SET home_score = $2, away_score = $3, score_detail = $4, winner_team_id = $5,
+              status = 'completed', reported_by = $6, reported_at = CURRENT_TIMESTAMP
+        WHERE id = $1`,
+      [fixtureId, homeScore, awayScore, scoreDetail, winnerId, reporterId]
+    );
+
+    if (season.format === 'ladder' && firstReport) {
+      const ladder = await client.query(
+        `SELECT id FROM league_teams WHERE season_id = $1 ORDER BY ladder_rank FOR UPDATE`,
+        [season.id]
+      );
+      const before: string[] = ladder.rows.map((r: any) => r.id);
+      const after = applyLadderResult(before, winnerId, loserId);
+      for (let i = 0; i < after.length; i++) {
+        if (after[i] !== before[i]) {
+          await client.query(`UPDATE league_teams SET ladder_rank = $2 WHERE id = $1`, [after[i], i + 1]);
+        }
+      }
+    }
+
+    if (season.format === 'round_robin') {
+      await client.query(
+        `UPDATE league_seasons SET status = 'completed'
+          WHERE id = $1
+            AND NOT EXISTS (
+              SELECT 1 FROM league_fixtures
+               WHERE season_id = $1 AND status IN ('scheduled', 'unscheduled')
+            )`,
+        [season.id]
+      );
+    }
+  });
+
+  const updated = (await getFixture(fixtureId))!;
+  notifyResultPosted(season, updated, reporterId);
+  return updated;
+}
+
+/** Upcoming (and unreported) fixtures for teams the member plays on at a facility. */
+export async function getMemberFixtures(
+  facilityId: string,
+  userId: string
+): Promise<Array<LeagueFixture & { leagueName: string; seasonName: string; myTeamId: string }>> {
+  const result = await query(
+    `SELECT ${FIXTURE_COLUMNS},
+            l.name as "leagueName",
+            s.name as "seasonName",
+            m.team_id as "myTeamId"
+       FROM league_fixtures f ${FIXTURE_JOINS}
+       JOIN league_seasons s ON s.id = f.season_id
+       JOIN leagues l ON l.id = s.league_id
+       JOIN league_team_members m ON m.team_id IN (f.home_team_id, f.away_team_id) AND m.user_id = $2
+      WHERE l.facility_id = $1
+        AND f.status IN ('scheduled', 'unscheduled')
+      ORDER BY f.match_date, f.start_time`,
+    [facilityId, userId]
+  );
+  return result.rows;
+}
+
+// ---------------------------------------------------------------------------
+// Notifications
+// ---------------------------------------------------------------------------
+
+function notifySchedulePosted(season: LeagueSeason, teams: LeagueTeam[]) {
+  const userIds = new Set(teams.flatMap((t) => t.members.map((m) => m.userId)));
+  for (const userId of userIds) {
+    void notificationService
+      .createNotification(
+        userId,
+        'League schedule posted',
+        `${season.leagueName} — ${season.name}: your matches and courts are on the Leagues page.`,
+        'league_schedule',
+        { actionUrl: '/leagues', priority: 'medium' }
+      )
+      .catch((error) => console.error('League schedule notification failed:', error));
+  }
+}
+
+function notifyResultPosted(season: LeagueSeason, fixture: LeagueFixture, reporterId: string) {
+  void query(
+    `SELECT DISTINCT user_id FROM league_team_members WHERE team_id = ANY($1::uuid[]) AND user_id != $2`,
+    [[fixture.homeTeamId, fixture.awayTeamId], reporterId]
+  )
+    .then((members) =>
+      Promise.all(
+        members.rows.map((row: any) =>
+          notificationService.createNotification(
+            row.user_id,
+            'League result posted',
+            `${fixture.homeTeamName} ${fixture.homeScore}–${fixture.awayScore} ${fixture.awayTeamName} (${season.leagueName}).`,
+            'league_result',
+            { actionUrl: '/leagues', priority: 'low' }
+          )
+        )
+      )
+    )
+    .catch((error) => console.error('League result notification failed:', error));
+}
@@ -0,0 +1,817 @@
+/**
+ * Private lessons with a pro (lessons_tab feature flag).
+ *
+ * A pro is a facility member with a lesson price, a lesson length and weekly
+ * availability windows. Members book a slot inside those windows; the lesson
+ * holds a court through a regular createBooking call (booking_type 'lesson'),
+ * so the rules engine, blackouts and the court conflict lock all apply exactly
+ * as they do for any other reservation.
+ *
+ * Paid lessons hold the court as a 'pending' booking while the member is in
+ * Stripe Checkout. markCheckoutSessionPaid confirms both rows; the
+ * lesson_hold_expiry job (backgroundJobs.ts) releases holds whose checkout
+ * was abandoned.
+ */
+
+import { query, transaction } from '../database/connection';
+import { cancelBooking, createBooking } from './bookingService';
+import { notificationService } from './notificationService';
+import { publishBookingChange } from './realtimeService';
+
+/** Thrown for caller mistakes; `status` is the HTTP status the route should return. */
+export class LessonError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'LessonError';
+  }
+}
+
+/** How long an unpaid lesson holds its court while the member is in checkout. */
+export const LESSON_HOLD_MINUTES = 30;
+
+/** Slot start granularity inside an availability window. */
+export const LESSON_SLOT_STEP_MINUTES = 30;
+
+/** Members who cancel closer than this to the start are not refunded. */
+export const LESSON_REFUND_CUTOFF_HOURS = 24;
+
+export interface LessonPro {
+  id: string;
+  facilityId: string;
+  userId: string;
+  fullName: string;
+  title: string | null;
+  bio: string | null;
+  priceCents: number;
+  lessonDurationMinutes: number;
+  courtIds: string[];
+  isActive: boolean;
+  availability: AvailabilityWindow[];
+}
+
+export interface AvailabilityWindow {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface LessonSlot {
+  startTime: string;
+  endTime: string;
+}
+
+export type LessonStatus = 'pending_payment' | 'confirmed' | 'cancelled' | 'expired';
+
+export interface LessonBooking {
+  id: string;
+  facilityId: string;
+  proId: string;
+  proName: string;
+  memberId: string;
+  memberName: string;
+  bookingId: string | null;
+  courtName: string | null;
+  lessonDate: string;
+  startTime: string;
+  endTime: string;
+  priceCents: number;
+  status: LessonStatus;
+  holdExpiresAt: string | null;
+  notes: string | null;
+  createdAt: string;
+}
+
+export interface BookLessonResult {
+  lesson: LessonBooking;
+  requiresPayment: boolean;
+  checkoutUrl?: string;
+}
+
+const PRO_COLUMNS = `
+  p.id,
+  p.facility_id as "facilityId",
+  p.user_id as "userId",
+  u.full_name as "fullName",
+  p.title,
+  p.bio,
+  p.price_cents as "priceCents",
+  p.lesson_duration_minutes as "lessonDurationMinutes",
+  p.court_ids as "courtIds",
+  p.is_active as "isActive"`;
+
+const LESSON_COLUMNS = `
+  l.id,
+  l.facility_id as "facilityId",
+  l.pro_id as "proId",
+  pu.full_name as "proName",
+  l.member_id as "memberId",
+  mu.full_name as "memberName",
+  l.booking_id as "bookingId",
+  c.name as "courtName",
+  TO_CHAR(l.lesson_date, 'YYYY-MM-DD') as "lessonDate",
+  l.start_time as "startTime",
+  l.end_time as "endTime",
+  l.price_cents as "priceCents",
+  l.status,
+  l.hold_expires_at as "holdExpiresAt",
+  l.notes,
+  l.created_at as "createdAt"`;
+
+const LESSON_JOINS = `
+  JOIN lesson_pros p ON p.id = l.pro_id
+  JOIN users pu ON pu.id = p.user_id
+  JOIN users mu ON mu.id = l.member_id
+  LEFT JOIN bookings b ON b.id = l.booking_id
+  LEFT JOIN courts c ON c.id = b.court_id`;
+
+function toMinutes(time: string): number {
+  const m = String(time || '').trim().match(/^(\d{1,2}):(\d{2})/);
+  if (!m) throw new LessonError('Times must be in HH:MM format');
+  return Number(m[1]) * 60 + Number(m[2]);
+}
+
+function toTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}:00`;
+}
+
+function dayOfWeekFor(dateYmd: string): number {
+  const [y, m, d] = dateYmd.split('-').map(Number);
+  return new Date(y, m - 1, d).getDay();
+}
+
+/**
+ * Start times a pro can teach on `dateYmd`: every LESSON_SLOT_STEP_MINUTES
+ * inside that weekday's windows where a full lesson fits, minus anything
+ * overlapping `busy` (the pro's other lessons) and, for today, anything that
+ * has already started. Pure so the slot arithmetic can be tested on its own.
+ */
+export function buildLessonSlots(params: {
+  windows: AvailabilityWindow[];
+  dateYmd: string;
+  durationMinutes: number;
+  busy: Array<{ startTime: string; endTime: string }>;
+  /** Minutes since midnight before which nothing is offered (today only). */
+  earliestStartMinutes?: number;
+}): LessonSlot[] {
+  const day = dayOfWeekFor(params.dateYmd);
+  const busy = params.busy.map((b) => ({ start: toMinutes(b.startTime), end: toMinutes(b.endTime) }));
+  const starts = new Set<number>();
+
+  for (const window of params.windows) {
+    if (window.dayOfWeek !== day) continue;
+    const open = toMinutes(window.startTime);
+    const close = toMinutes(window.endTime);
+    for (let t = open; t + params.durationMinutes <= close; t += LESSON_SLOT_STEP_MINUTES) {
+      if (params.earliestStartMinutes != null && t < params.earliestStartMinutes) continue;
+      const end = t + params.durationMinutes;
+      if (busy.some((b) => t < b.end && end > b.start)) continue;
+      starts.add(t);
+    }
+  }
+
+  return [...starts]
+    .sort((a, b) => a - b)
+    .map((t) => ({ startTime: toTime(t), endTime: toTime(t + params.durationMinutes) }));
+}
+
+async function loadAvailability(proIds: string[]): Promise<Map<string, AvailabilityWindow[]>> {
+  const byPro = new Map<string, AvailabilityWindow[]>();
+  if (proIds.length === 0) return byPro;
+  const result = await query(
+    `SELECT pro_id as "proId",
+            day_of_week as "dayOfWeek",
+            start_time as "startTime",
+            end_time as "endTime"
+       FROM lesson_pro_availability
+      WHERE pro_id = ANY($1::uuid[])
+      ORDER BY day_of_week, start_time`,
+    [proIds]
+  );
+  for (const row of result.rows) {
+    const list = byPro.get(row.proId) ?? [];
+    list.push({ dayOfWeek: row.dayOfWeek, startTime: row.startTime, endTime: row.endTime });
+    byPro.set(row.proId, list);
+  }
+  return byPro;
+}
+
+/** Pros at a facility with their weekly availability. Members only see active pros. */
+export async function listLessonPros(
+  facilityId: string,
+  options: { includeInactive?: boolean } = {}
+): Promise<LessonPro[]> {
+  const result = await query(
+    `SELECT ${PRO_COLUMNS}
+       FROM lesson_pros p
+       JOIN users u ON u.id = p.user_id
+      WHERE p.facility_id = $1
+        AND ($2::boolean OR p.is_active = true)
+      ORDER BY u.full_name`,
+    [facilityId, Boolean(options.includeInactive)]
+  );
+  const availability = await loadAvailability(result.rows.map((r: any) => r.id));
+  return result.rows.map((row: any) => ({ ...row, availability: availability.get(row.id) ?? [] }));
+}
+
+export async function getLessonPro(proId: string): Promise<LessonPro | null> {
+  const result = await query(
+    `SELECT ${PRO_COLUMNS}
+       FROM lesson_pros p
+       JOIN users u ON u.id = p.user_id
+      WHERE p.id = $1`,
+    [proId]
+  );
+  const row = result.rows[0];
+  if (!row) return null;
+  const availability = await loadAvailability([proId]);
+  return { ...row, availability: availability.get(proId) ?? [] };
+}
+
+/** Owning facility of a pro, or null when it doesn't exist. */
+export async function facilityIdForLessonPro(proId: string): Promise<string | null> {
+  const result = await query(`SELECT facility_id FROM lesson_pros WHERE id = $1`, [proId]);
+  return result.rows[0]?.facility_id ?? null;
+}
+
+/** Owning facility of a lesson booking, or null when it doesn't exist. */
+export async function facilityIdForLessonBooking(lessonId: string): Promise<string | null> {
+  const result = await query(`SELECT facility_id FROM lesson_bookings WHERE id = $1`, [lessonId]);
+  return result.rows[0]?.facility_id ?? null;
+}
+
+/** True when `userId` is the pro behind `proId` — pros manage their own calendar. */
+export async function isLessonProUser(proId: string, userId: string): Promise<boolean> {
+  const result = await query(`SELECT 1 FROM lesson_pros WHERE id = $1 AND user_id = $2`, [
+    proId,
+    userId,
+  ]);
+  return result.rows.length > 0;
+}
+
+function validateProFields(fields: {
+  priceCents?: number;
+  lessonDurationMinutes?: number;
+  courtIds?: string[];
+}) {
+  if (fields.priceCents !== undefined && (!Number.isInteger(fields.priceCents) || fields.priceCents < 0)) {
+    throw new LessonError('priceCents must be a whole number of cents, 0 or more');
+  }
+  if (
+    fields.lessonDurationMinutes !== undefined &&
+    (!Number.isInteger(fields.lessonDurationMinutes) ||
+      fields.lessonDurationMinutes < 15 ||
+      fields.lessonDurationMinutes > 240)
+  ) {
+    throw new LessonError('Lesson length must be between 15 and 240 minutes');
+  }
+  if (fields.courtIds !== undefined && !Array.isArray(fields.courtIds)) {
+    throw new LessonError('courtIds must be an array');
+  }
+}
+
+async function assertCourtsInFacility(facilityId: string, courtIds: string[]) {
+  if (courtIds.length === 0) return;
+  const result = await query(
+    `SELECT COUNT(*)::int as count FROM courts WHERE facility_id = $1 AND id = ANY($2::uuid[])`,
+    [facilityId, courtIds]
+  );
+  if (result.rows[0].count !== new Set(courtIds).size) {
+    throw new LessonError('One or more courts do not belong to this facility');
+  }
+}
+
+export async function createLessonPro(
+  facilityId: string,
+  fields: {
+    userId: string;
+    title?: string | null;
+    bio?: string | null;
+    priceCents?: number;
+    lessonDurationMinutes?: number;
+    courtIds?: string[];
+  }
+): Promise<LessonPro> {
+  validateProFields(fields);
+  const membership = await query(
+    `SELECT 1 FROM facility_memberships
+      WHERE facility_id = $1 AND user_id = $2 AND status = 'active'`,
+    [facilityId, fields.userId]
+  );
+  if (membership.rows.length === 0) {
+    throw new LessonError('Pros must be active members of the facility');
+  }
+  await assertCourtsInFacility(facilityId, fields.courtIds ?? []);
+
+  let proId: string;
+  try {
+    const inserted = await query(
+      `INSERT INTO lesson_pros
+         (facility_id, user_id, title, bio, price_cents, lesson_duration_minutes, court_ids)
+       VALUES ($1, $2, $3, $4, $5, $6, $7::uuid[])
+       RETURNING id`,
+      [
+        facilityId,
+        fields.userId,
+        fields.title?.trim() || null,
+        fields.bio?.trim() || null,
+        fields.priceCents ?? 0,
+        fields.lessonDurationMinutes ?? 60,
+        fields.courtIds ?? [],
+      ]
+    );
+    proId = inserted.rows[0].id;
+  } catch (error: any) {
+    if (error?.code === '23505') {
+      throw new LessonError('This member is already set up as a pro', 409);
+    }
+    throw error;
+  }
+
+  return (await getLessonPro(proId))!;
+}
+
+export async function updateLessonPro(
+  proId: string,
+  updates: {
+    title?: string | null;
+    bio?: string | null;
+    priceCents?: number;
+    lessonDurationMinutes?: number;
+    courtIds?: string[];
+    isActive?: boolean;
+  }
+): Promise<LessonPro> {
+  validateProFields(updates);
+  const existing = await getLessonPro(proId);
+  if (!existing) throw new LessonError('Pro not found', 404);
+  if (updates.courtIds) await assertCourtsInFacility(existing.facilityId, updates.courtIds);
+
+  await query(
+    `UPDATE lesson_pros
+        SET title = $2,
+            bio = $3,
+            price_cents = $4,
+            lesson_duration_minutes = $5,
+            court_ids = $6::uuid[],
+            is_active = $7
+      WHERE id = $1`,
+    [
+      proId,
+      updates.title !== undefined ? updates.title?.trim() || null : existing.title,
+      updates.bio !== undefined ? updates.bio?.trim() || null : existing.bio,
+      updates.priceCents ?? existing.priceCents,
+      updates.lessonDurationMinutes ?? existing.lessonDurationMinutes,
+      updates.courtIds ?? existing.courtIds,
+      updates.isActive ?? existing.isActive,
+    ]
+  );
+  return (await getLessonPro(proId))!;
+}
+
+/** Replace a pro's weekly availability. Overlapping windows on the same day are rejected. */
+export async function setLessonProAvailability(
+  proId: string,
+  windows: AvailabilityWindow[]
+): Promise<AvailabilityWindow[]> {
+  if (!Array.isArray(windows)) throw new LessonError('windows must be an array');
+  const normalized = windows.map((w) => {
+    const day = Number(w.dayOfWeek);
+    if (!Number.isInteger(day) || day < 0 || day > 6) {
+      throw new LessonError('dayOfWeek must be 0 (Sunday) through 6 (Saturday)');
+    }
+    const start = toMinutes(w.startTime);
+    const end = toMinutes(w.endTime);
+    if (end <= start) throw new LessonError('Each window must end after it starts');
+    return { dayOfWeek: day, start, end };
+  });
+  for (const a of normalized) {
+    for (const b of normalized) {
+      if (a !== b && a.dayOfWeek === b.dayOfWeek && a.start < b.end && a.end > b.start) {
+        throw new LessonError('Availability windows on the same day cannot overlap');
+      }
+    }
+  }
+
+  await transaction(async (client) => {
+    await client.query(`DELETE FROM lesson_pro_availability WHERE pro_id = $1`, [proId]);
+    for (const w of normalized) {
+      await client.query(
+        `INSERT INTO lesson_pro_availability (pro_id, day_of_week, start_time, end_time)
+         VALUES ($1, $2, $3, $4)`,
+        [proId, w.dayOfWeek, toTime(w.start), toTime(w.end)]
+      );
+    }
+  });
+
+  return normalized
+    .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.start - b.start)
+    .map((w) => ({ dayOfWeek: w.dayOfWeek, startTime: toTime(w.start), endTime: toTime(w.end) }));
+}
+
+/** Courts a pro can teach on, in display order. */
+async function lessonCourtIds(pro: LessonPro): Promise<string[]> {
+  const result = await query(
+    `SELECT id FROM courts
+      WHERE facility_id = $1
+        AND is_walk_up = false
+        AND COALESCE(status, 'available') = 'available'
+        AND (cardinality($2::uuid[]) = 0 OR id = ANY($2::uuid[]))
+      ORDER BY court_number NULLS LAST, name`,
+    [pro.facilityId, pro.courtIds]
+  );
+  return result.rows.map((row: any) => row.id);
+}
+
+/** Wall-clock "now" at the facility, comparable with dates/times built from local components. */
+async function facilityLocalNow(facilityId: string): Promise<Date> {
+  const tz = await query(`SELECT timezone FROM facilities WHERE id = $1`, [facilityId]);
+  const { getFacilityLocalNow } = await import('./rulesEngine/RuleContext');
+  return getFacilityLocalNow(tz.rows[0]?.timezone || 'America/New_York');
+}
+
+/** Earliest bookable start on `dateYmd`: now for today, nothing for past dates. */
+async function earliestStartFor(facilityId: string, dateYmd: string): Promise<number | undefined> {
+  const now = await facilityLocalNow(facilityId);
+  const todayYmd = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+  if (dateYmd < todayYmd) return Number.POSITIVE_INFINITY;
+  if (dateYmd > todayYmd) return undefined;
+  return now.getHours() * 60 + now.getMinutes();
+}
+
+/**
+ * Bookable slots for a pro on a date: inside their availability, not clashing
+ * with their other lessons, and with at least one of their courts free.
+ */
+export async function getBookableLessonSlots(proId: string, dateYmd: string): Promise<LessonSlot[]> {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateYmd)) throw new LessonError('date must be YYYY-MM-DD');
+  const pro = await getLessonPro(proId);
+  if (!pro || !pro.isActive) throw new LessonError('Pro not found', 404);
+
+  const busy = await query(
+    `SELECT start_time as "startTime", end_time as "endTime"
+       FROM lesson_bookings
+      WHERE pro_id = $1 AND lesson_date = $2
+        AND status IN ('pending_payment', 'confirmed')`,
+    [proId, dateYmd]
+  );
+  const slots = buildLessonSlots({
+    windows: pro.availability,
+    dateYmd,
+    durationMinutes: pro.lessonDurationMinutes,
+    busy: busy.rows,
+    earliestStartMinutes: await earliestStartFor(pro.facilityId, dateYmd),
+  });
+  if (slots.length === 0) return [];
+
+  const courtIds = await lessonCourtIds(pro);
+  const courtBookings = await query(
+    `SELECT court_id as "courtId", start_time as "startTime", end_time as "endTime"
+       FROM bookings
+      WHERE court_id = ANY($1::uuid[]) AND booking_date = $2 AND status != 'cancelled'`,
+    [courtIds, dateYmd]
+  );
+  return slots.filter((slot) => {
+    const start = toMinutes(slot.startTime);
+    const end = toMinutes(slot.endTime);
+    return courtIds.some(
+      (courtId) =>
+        !courtBookings.rows.some(
+          (b: any) =>
+            b.courtId === courtId && start < toMinutes(b.endTime) && end > toMinutes(b.startTime)
+        )
+    );
+  });
+}
+
+async function getLessonBooking(lessonId: string): Promise<LessonBooking | null> {
+  const result = await query(
+    `SELECT ${LESSON_COLUMNS} FROM lesson_bookings l ${LESSON_JOINS} WHERE l.id = $1`,
+    [lessonId]
+  );
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Book a lesson. Picks the first of the pro's courts that createBooking accepts
+ * for the window; free lessons are confirmed straight away, paid ones hold the
+ * court and return a Checkout URL.
+ */
+export async function bookLesson(params: {
+  proId: string;
+  memberId: string;
+  lessonDate: string;
+  startTime: string;
+  notes?: string;
+  successUrl: string;
+  cancelUrl: string;
+}): Promise<BookLessonResult> {
+  const pro = await getLessonPro(params.proId);
+  if (!pro || !pro.isActive) throw new LessonError('Pro not found', 404);
+  if (pro.userId === params.memberId) throw new LessonError('You cannot book a lesson with yourself');
+
+  const start = toMinutes(params.startTime);
+  const startTime = toTime(start);
+  const endTime = toTime(start + pro.lessonDurationMinutes);
+  const slots = await getBookableLessonSlots(pro.id, params.lessonDate);
+  if (!slots.some((slot) => slot.startTime === startTime)) {
+    throw new LessonError('That time is no longer available with this pro', 409);
+  }
+
+  const isPaid = pro.priceCents > 0;
+  if (isPaid && (!params.successUrl || !params.cancelUrl)) {
+    throw new LessonError('successUrl and cancelUrl are required for paid lessons');
+  }
+  let bookingId: string | null = null;
+  let lastError = 'No court is available for this lesson';
+  for (const courtId of await lessonCourtIds(pro)) {
+    const result = await createBooking({
+      courtId,
+      userId: params.memberId,
+      facilityId: pro.facilityId,
+      bookingDate: params.lessonDate,
+      startTime,
+      endTime,
+      durationMinutes: pro.lessonDurationMinutes,
+      bookingType: 'lesson',
+      notes: `Lesson with ${pro.fullName}`,
+      // The lesson price covers the court; the court's own fee isn't charged on top.
+      skipPaymentCheck: true,
+      initialStatus: isPaid ? 'pending' : 'confirmed',
+    });
+    if (result.success && result.booking?.id) {
+      bookingId = result.booking.id;
+      break;
+    }
+    lastError = result.error || lastError;
+    // Rule violations apply to the member, not the court — another court won't help.
+    if (result.ruleViolations?.length) {
+      throw new LessonError(lastError);
+    }
+  }
+  if (!bookingId) throw new LessonError(lastError, 409);
+
+  const inserted = await query(
+    `INSERT INTO lesson_bookings
+       (facility_id, pro_id, member_id, booking_id, lesson_date, start_time, end_time,
+        price_cents, status, hold_expires_at, notes)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9,
+             CASE WHEN $9 = 'pending_payment' THEN NOW() + ($10 || ' minutes')::interval END,
+             $11)
+     RETURNING id`,
+    [
+      pro.facilityId,
+      pro.id,
+      params.memberId,
+      bookingId,
+      params.lessonDate,
+      startTime,
+      endTime,
+      pro.priceCents,
+      isPaid ? 'pending_payment' : 'confirmed',
+      String(LESSON_HOLD_MINUTES),
+      params.notes?.trim() || null,
+    ]
+  );
+  const lessonId: string = inserted.rows[0].id;
+
+  if (!isPaid) {
+    const lesson = (await getLessonBooking(lessonId))!;
+    notifyLessonBooked(lesson);
+    return { lesson, requiresPayment: false };
+  }
+
+  try {
+    const { createLessonCheckoutSession } = await import('./stripeConnectService');
+    const { url } = await createLessonCheckoutSession({
+      lessonBookingId: lessonId,
+      successUrl: params.successUrl,
+      cancelUrl: params.cancelUrl,
+    });
+    return { lesson: (await getLessonBooking(lessonId))!, requiresPayment: true, checkoutUrl: url };
+  } catch (error) {
+    // No checkout means no way to pay — give the court back immediately.
+    await releaseLessonHold(lessonId, 'expired');
+    throw error;
+  }
+}
+
+async function releaseLessonHold(lessonId: string, status: 'cancelled' | 'expired') {
+  const released = await query(
+    `UPDATE lesson_bookings SET status = $2
+      WHERE id = $1 AND status = 'pending_payment'
+      RETURNING booking_id`,
+    [lessonId, status]
+  );
+  const bookingId = released.rows[0]?.booking_id;
+  if (bookingId) {
+    const freed = await query(
+      `UPDATE bookings SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND status = 'pending'
+        RETURNING id, facility_id as "facilityId", court_id as "courtId",
+                  TO_CHAR(booking_date, 'YYYY-MM-DD') as "bookingDate",
+                  start_time as "startTime", end_time as "endTime"`,
+      [bookingId]
+    );
+    if (freed.rows[0]) {
+      publishBookingChange('booking.cancelled', freed.rows[0]);
+      const { offerFreedSlot } = await import('./courtWaitlistService');
+      offerFreedSlot(freed.rows[0]).catch((error) =>
+        console.error('Court waitlist offer failed:', error)
+      );
+    }
+  }
+}
+
+function notifyLessonBooked(lesson: LessonBooking) {
+  const when = `${lesson.lessonDate} at ${lesson.startTime.slice(0, 5)}`;
+  void query(`SELECT user_id FROM lesson_pros WHERE id = $1`, [lesson.proId])
+    .then((pro) => {
+      const proUserId = pro.rows[0]?.user_id;
+      if (!proUserId) return;
+      return notificationService.createNotification(
+        proUserId,
+        'New lesson booked',
+        `${lesson.memberName} booked a lesson with you on ${when}${lesson.courtName ? ` (${lesson.courtName})` : ''}.`,
+        'lesson_booked',
+        { actionUrl: '/admin/lessons', priority: 'medium' }
+      );
+    })
+    .catch((error) => console.error('Lesson booked notification failed:', error));
+}
+
+/**
+ * Called from markCheckoutSessionPaid once the lesson's charge lands.
+ * Idempotent: the status guard makes the webhook / redirect race harmless.
+ * Returns false when the hold had already been released, so the caller can
+ * refund a payment that arrived too late.
+ */
+export async function confirmPaidLesson(lessonId: string, connectPaymentId: string): Promise<boolean> {
+  const confirmed = await query(
+    `UPDATE lesson_bookings
+        SET status = 'confirmed', hold_expires_at = NULL, connect_payment_id = $2
+      WHERE id = $1 AND status IN ('pending_payment', 'confirmed')
+      RETURNING booking_id`,
+    [lessonId, connectPaymentId]
+  );
+  if (confirmed.rows.length === 0) return false;
+
+  const bookingId = confirmed.rows[0].booking_id;
+  if (bookingId) {
+    await query(
+      `UPDATE bookings SET status = 'confirmed', updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND status = 'pending'`,
+      [bookingId]
+    );
+  }
+  const lesson = await getLessonBooking(lessonId);
+  if (lesson) notifyLessonBooked(lesson);
+  return true;
+}
+
+/** Tells a member their late payment was returned because the hold had lapsed. */
+export async function notifyLessonPaymentRefunded(lessonId: string): Promise<void> {
+  const lesson = await getLessonBooking(lessonId);
+  if (!lesson) return;
+  await notificationService.createNotification(
+    lesson.memberId,
+    'Lesson payment refunded',
+    `Your payment for the lesson with ${lesson.proName} on ${lesson.lessonDate} arrived after the ${LESSON_HOLD_MINUTES}-minute hold ended, so it has been refunded. Please book again.`,
+    'payment',
+    { actionUrl: '/lessons', priority: 'high' }
+  );
+}
+
+/** Lessons a member has booked at a facility, upcoming first. */
+export async function getMemberLessons(facilityId: string, memberId: string): Promise<LessonBooking[]> {
+  const result = await query(
+    `SELECT ${LESSON_COLUMNS}
+       FROM lesson_bookings l ${LESSON_JOINS}
+      WHERE l.facility_id = $1 AND l.member_id = $2
+        AND l.status IN ('pending_payment', 'confirmed')
+        AND l.lesson_date >= CURRENT_DATE
+      ORDER BY l.lesson_date, l.start_time`,
+    [facilityId, memberId]
+  );
+  return result.rows;
+}
+
+/** A pro's upcoming lessons — their teaching schedule in LessonsAdmin. */
+export async function getProSchedule(proId: string): Promise<LessonBooking[]> {
+  const result = await query(
+    `SELECT ${LESSON_COLUMNS}
+       FROM lesson_bookings l ${LESSON_JOINS}
+      WHERE l.pro_id = $1
+        AND l.status IN ('pending_payment', 'confirmed')
+        AND l.lesson_date >= CURRENT_DATE
+      ORDER BY l.lesson_date, l.start_time`,
+    [proId]
+  );
+  return result.rows;
+}
+
+/**
+ * Cancel a lesson and release its court. Members cancel through cancelBooking,
+ * so the facility's late-cancel rules apply to them as for any reservation;
+ * the pro or an admin cancelling releases the court without a strike on the
+ * member. Refunds go out when staff cancel, or when the member cancels at
+ * least LESSON_REFUND_CUTOFF_HOURS ahead.
+ */
+export async function cancelLesson(params: {
+  lessonId: string;
+  actorUserId: string;
+  /** The lesson's pro or a facility admin. */
+  actorIsStaff: boolean;
+}): Promise<{ refunded: boolean }> {
+  const lesson = await getLessonBooking(params.lessonId);
+  if (!lesson) throw new LessonError('Lesson not found', 404);
+  const isMember = lesson.memberId === params.actorUserId;
+  if (!isMember && !params.actorIsStaff) throw new LessonError('Lesson not found', 404);
+  if (lesson.status !== 'confirmed' && lesson.status !== 'pending_payment') {
+    throw new LessonError('This lesson is already cancelled');
+  }
+
+  if (lesson.status === 'pending_payment') {
+    await releaseLessonHold(lesson.id, 'cancelled');
+    return { refunded: false };
+  }
+
+  if (lesson.bookingId) {
+    if (params.actorIsStaff) {
+      const released = await query(
+        `UPDATE bookings SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1 AND status != 'cancelled'
+          RETURNING id, court_id as "courtId", TO_CHAR(booking_date, 'YYYY-MM-DD') as "bookingDate",
+                    start_time as "startTime", end_time as "endTime"`,
+        [lesson.bookingId]
+      );
+      if (released.rows[0]) {
+        publishBookingChange('booking.cancelled', { facilityId: lesson.facilityId, ...released.rows[0] });
+        const { offerFreedSlot } = await import('./courtWaitlistService');
+        offerFreedSlot({ facilityId: lesson.facilityId, ...released.rows[0] }).catch((error) =>
+          console.error('Court waitlist offer failed:', error)
+        );
+      }
+    } else {
+      const result = await cancelBooking(lesson.bookingId, lesson.memberId, 'Lesson cancelled');
+      if (!result.success) {
+        throw new LessonError(result.error || 'This lesson cannot be cancelled');
+      }
+    }
+  }
+
+  await query(
+    `UPDATE lesson_bookings
+        SET status = 'cancelled', cancelled_by = $2, cancelled_at = NOW()
+      WHERE id = $1`,
+    [lesson.id, params.actorUserId]
+  );
+
+  const now = await facilityLocalNow(lesson.facilityId);
+  const [y, m, d] = lesson.lessonDate.split('-').map(Number);
+  const start = toMinutes(lesson.startTime);
+  const lessonStart = new Date(y, m - 1, d, Math.floor(start / 60), start % 60);
+  const hoursAhead = (lessonStart.getTime() - now.getTime()) / 3_600_000;
+  let refunded = false;
+  if (lesson.priceCents > 0 && (params.actorIsStaff || hoursAhead >= LESSON_REFUND_CUTOFF_HOURS)) {
+    const { refundLessonPayment } = await import('./stripeConnectService');
+    refunded = await refundLessonPayment(lesson.id).catch((error) => {
+      console.error('Lesson refund failed:', error);
+      return false;
+    });
+  }
+
+  const recipient = isMember
+    ? (await query(`SELECT user_id FROM lesson_pros WHERE id = $1`, [lesson.proId])).rows[0]?.user_id
+    : lesson.memberId;
+  if (recipient) {
+    notificationService
+      .createNotification(
+        recipient,
+        'Lesson cancelled',
+        `The lesson on ${lesson.lessonDate} at ${lesson.startTime.slice(0, 5)} with ${
+          isMember ? lesson.memberName : lesson.proName
+        } was cancelled.${refunded ? ' The lesson fee has been refunded.' : ''}`,
+        'lesson_cancelled',
+        { actionUrl: isMember ? '/admin/lessons' : '/lessons', priority: 'medium' }
+      )
+      .catch((error) => console.error('Lesson cancelled notification failed:', error));
+  }
+
+  return { refunded };
+}
+
+/**
+ * Run by the recurring lesson_hold_expiry job (backgroundJobs.ts): releases
+ * courts held for lessons whose checkout was abandoned. Returns the number of
+ * holds released.
+ */
+export async function expireLessonHolds(): Promise<number> {
+  const stale = await query(
+    `SELECT id FROM lesson_bookings
+      WHERE status = 'pending_payment' AND hold_expires_at <= NOW()`
+  );
+  for (const row of stale.rows) {
+    await releaseLessonHold(row.id, 'expired');
+  }
+  return stale.rows.length;
+}
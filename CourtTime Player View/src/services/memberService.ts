@@ -8,7 +8,8 @@ import { User, FacilityMembership } from '../types/database';
 
 export interface MemberWithProfile {
   userId: string;
-  email: string;
+  /** Null for dependents (junior profiles without a login; see dependentService). */
+  email: string | null;
   fullName: string;
   membershipId: string;
   membershipType: string;
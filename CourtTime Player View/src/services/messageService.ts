@@ -0,0 +1,386 @@
+/**
+ * Per-message features on top of plain text: attachments, emoji reactions,
+ * edits (the replaced text is kept) and per-member read receipts.
+ *
+ * server/routes/messages.ts owns conversations and who may message whom; it
+ * calls in here once the caller is known to be a participant, or for lookups
+ * that check participation themselves (anything keyed by message id).
+ */
+
+import { query, transaction } from '../database/connection';
+import {
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MAX_MESSAGE_ATTACHMENT_BYTES,
+  attachmentProblem,
+  dataUrlByteLength,
+  formatFileSize,
+  type MessageAttachmentSummary,
+  type MessageReactionSummary,
+  type MessageReadReceipt,
+} from '../../shared/utils/messageContent';
+import { publishToConversation } from './realtimeService';
+
+/** Thrown for caller mistakes; `status` is the HTTP status the route should return. */
+export class MessageError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'MessageError';
+  }
+}
+
+export interface NewMessageAttachment {
+  fileName: string;
+  mimeType: string;
+  dataUrl: string;
+  sizeBytes: number;
+}
+
+export interface MessageRow {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  messageText: string;
+  isRead: boolean;
+  createdAt: string;
+  editedAt: string | null;
+}
+
+export interface MessageDetails {
+  attachments: MessageAttachmentSummary[];
+  reactions: MessageReactionSummary[];
+  readBy: MessageReadReceipt[];
+}
+
+const MESSAGE_COLUMNS = `
+  m.id,
+  m.conversation_id as "conversationId",
+  m.sender_id as "senderId",
+  m.message_text as "messageText",
+  m.is_read as "isRead",
+  m.created_at as "createdAt",
+  m.edited_at as "editedAt"`;
+
+/** Matches a conversation the user takes part in, as `c` joined to message `m`. */
+const PARTICIPANT_CONDITION = `
+  (
+    (c.is_group = false AND (c.participant1_id = $2 OR c.participant2_id = $2))
+    OR (c.is_group = true AND EXISTS (
+      SELECT 1 FROM conversation_participants cp
+       WHERE cp.conversation_id = c.id AND cp.user_id = $2
+    ))
+  )`;
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+/** One emoji (with modifiers, ZWJ sequences, flags); no letters, digits or spaces. */
+const REACTION_PATTERN = /^(?:\p{Extended_Pictographic}|\p{Regional_Indicator})[\p{Extended_Pictographic}\p{Regional_Indicator}\p{Emoji_Modifier}\u200D\uFE0F]*$/u;
+const MAX_REACTION_LENGTH = 32;
+
+/**
+ * Validates attachments from a request body. Each is { fileName, mimeType,
+ * dataUrl } with the data URL's type matching mimeType; sizes come from the
+ * decoded data, never the client.
+ */
+export function normalizeAttachments(raw: unknown): NewMessageAttachment[] {
+  if (raw == null) return [];
+  if (!Array.isArray(raw)) throw new MessageError('attachments must be a list');
+  if (raw.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    throw new MessageError(`Attach at most ${MAX_ATTACHMENTS_PER_MESSAGE} files per message`);
+  }
+
+  const attachments = raw.map((item: unknown): NewMessageAttachment => {
+    const fields: Record<string, unknown> = typeof item === 'object' && item !== null ? { ...item } : {};
+    const fileName = typeof fields.fileName === 'string' ? fields.fileName.trim().slice(0, 255) : '';
+    const mimeType = typeof fields.mimeType === 'string' ? fields.mimeType.trim().toLowerCase() : '';
+    const dataUrl = typeof fields.dataUrl === 'string' ? fields.dataUrl : '';
+    const prefix = `data:${mimeType};base64,`;
+    if (!fileName || !mimeType || !dataUrl.startsWith(prefix) || !BASE64_PATTERN.test(dataUrl.slice(prefix.length))) {
+      throw new MessageError('Each attachment needs a file name, type and base64 data URL of that type');
+    }
+    const sizeBytes = dataUrlByteLength(dataUrl);
+    if (sizeBytes === 0) throw new MessageError(`${fileName} is empty`);
+    const problem = attachmentProblem({ fileName, mimeType, sizeBytes });
+    if (problem) throw new MessageError(problem);
+    return { fileName, mimeType, dataUrl, sizeBytes };
+  });
+
+  const totalBytes = attachments.reduce((sum, attachment) => sum + attachment.sizeBytes, 0);
+  if (totalBytes > MAX_MESSAGE_ATTACHMENT_BYTES) {
+    throw new MessageError(`Attachments on one message can total at most ${formatFileSize(MAX_MESSAGE_ATTACHMENT_BYTES)}`);
+  }
+  return attachments;
+}
+
+/**
+ * Inserts a message and its attachments together. Either text or at least
+ * one attachment is required.
+ */
+export async function insertMessage(input: {
+  conversationId: string;
+  senderId: string;
+  messageText: string;
+  attachments: NewMessageAttachment[];
+}): Promise<MessageRow & { attachments: MessageAttachmentSummary[] }> {
+  const messageText = input.messageText.trim();
+  if (!messageText && input.attachments.length === 0) {
+    throw new MessageError('messageText or an attachment is required');
+  }
+
+  return transaction(async (client) => {
+    const inserted = await client.query(
+      `INSERT INTO messages (conversation_id, sender_id, message_text)
+       VALUES ($1, $2, $3)
+       RETURNING
+         id,
+         conversation_id as "conversationId",
+         sender_id as "senderId",
+         message_text as "messageText",
+         is_read as "isRead",
+         created_at as "createdAt",
+         edited_at as "editedAt"`,
+      [input.conversationId, input.senderId, messageText]
+    );
+    const message: MessageRow = inserted.rows[0];
+
+    const attachments: MessageAttachmentSummary[] = [];
+    for (const attachment of input.attachments) {
+      const saved = await client.query(
+        `INSERT INTO message_attachments (message_id, file_name, mime_type, size_bytes, data_url)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING id, file_name as "fileName", mime_type as "mimeType", size_bytes as "sizeBytes"`,
+        [message.id, attachment.fileName, attachment.mimeType, attachment.sizeBytes, attachment.dataUrl]
+      );
+      attachments.push(saved.rows[0]);
+    }
+
+    return { ...message, attachments };
+  });
+}
+
+/** Everyone in a conversation: both people in a DM, every member of a group. */
+export async function getConversationParticipantIds(conversationId: string): Promise<string[]> {
+  const result = await query(
+    `SELECT cp.user_id as "userId"
+       FROM conversations c
+       JOIN conversation_participants cp ON cp.conversation_id = c.id
+      WHERE c.id = $1 AND c.is_group = true
+     UNION
+     SELECT unnest(ARRAY[c.participant1_id, c.participant2_id])
+       FROM conversations c
+      WHERE c.id = $1 AND c.is_group = false`,
+    [conversationId]
+  );
+  return result.rows.map((row: { userId: string | null }) => row.userId).filter((id): id is string => !!id);
+}
+
+/** The message, when the user takes part in its conversation. */
+async function findMessageForParticipant(messageId: string, userId: string): Promise<MessageRow | null> {
+  const result = await query(
+    `SELECT ${MESSAGE_COLUMNS}
+       FROM messages m
+       JOIN conversations c ON c.id = m.conversation_id
+      WHERE m.id = $1 AND ${PARTICIPANT_CONDITION}`,
+    [messageId, userId]
+  );
+  return result.rows[0] ?? null;
+}
+
+async function announceMessageUpdated(message: MessageRow): Promise<void> {
+  const participantIds = await getConversationParticipantIds(message.conversationId);
+  publishToConversation(message.conversationId, participantIds, {
+    type: 'message.updated',
+    conversationId: message.conversationId,
+    messageId: message.id,
+  });
+}
+
+/** Attachment metadata, reactions and read receipts for a page of messages. */
+export async function getMessageDetails(messageIds: string[]): Promise<Map<string, MessageDetails>> {
+  const details = new Map<string, MessageDetails>(
+    messageIds.map((id) => [id, { attachments: [], reactions: [], readBy: [] }])
+  );
+  if (messageIds.length === 0) return details;
+
+  const [attachments, reactions, reads] = await Promise.all([
+    query(
+      `SELECT id, message_id as "messageId", file_name as "fileName", mime_type as "mimeType",
+              size_bytes as "sizeBytes"
+         FROM message_attachments
+        WHERE message_id = ANY($1::uuid[])
+        ORDER BY created_at ASC`,
+      [messageIds]
+    ),
+    query(
+      `SELECT message_id as "messageId", emoji, COUNT(*)::int as count,
+              array_agg(user_id ORDER BY created_at) as "userIds"
+         FROM message_reactions
+        WHERE message_id = ANY($1::uuid[])
+        GROUP BY message_id, emoji
+        ORDER BY MIN(created_at) ASC`,
+      [messageIds]
+    ),
+    query(
+      `SELECT message_id as "messageId", user_id as "userId", read_at as "readAt"
+         FROM message_reads
+        WHERE message_id = ANY($1::uuid[])
+        ORDER BY read_at ASC`,
+      [messageIds]
+    ),
+  ]);
+
+  for (const { messageId, ...attachment } of attachments.rows) {
+    details.get(messageId)?.attachments.push(attachment);
+  }
+  for (const { messageId, ...reaction } of reactions.rows) {
+    details.get(messageId)?.reactions.push(reaction);
+  }
+  for (const { messageId, ...receipt } of reads.rows) {
+    details.get(messageId)?.readBy.push(receipt);
+  }
+  return details;
+}
+
+/** A conversation's messages, oldest first, with their attachments, reactions and receipts. */
+export async function listConversationMessages(
+  conversationId: string
+): Promise<Array<MessageRow & MessageDetails>> {
+  const result = await query(
+    `SELECT ${MESSAGE_COLUMNS}
+       FROM messages m
+      WHERE m.conversation_id = $1
+      ORDER BY m.created_at ASC`,
+    [conversationId]
+  );
+  const details = await getMessageDetails(result.rows.map((row: MessageRow) => row.id));
+  return result.rows.map((row: MessageRow) => ({ ...row, ...details.get(row.id)! }));
+}
+
+/** The file itself, for a participant of the conversation it was sent in. */
+export async function getAttachment(
+  attachmentId: string,
+  userId: string
+): Promise<(MessageAttachmentSummary & { dataUrl: string }) | null> {
+  const result = await query(
+    `SELECT a.id, a.file_name as "fileName", a.mime_type as "mimeType",
+            a.size_bytes as "sizeBytes", a.data_url as "dataUrl"
+       FROM message_attachments a
+       JOIN messages m ON m.id = a.message_id
+       JOIN conversations c ON c.id = m.conversation_id
+      WHERE a.id = $1 AND ${PARTICIPANT_CONDITION}`,
+    [attachmentId, userId]
+  );
+  return result.rows[0] ?? null;
+}
+
+/** Adds the user's reaction, or removes it if they already reacted with that emoji. */
+export async function toggleReaction(
+  messageId: string,
+  userId: string,
+  rawEmoji: unknown
+): Promise<{ conversationId: string; reactions: MessageReactionSummary[] }> {
+  const emoji = typeof rawEmoji === 'string' ? rawEmoji.trim() : '';
+  if (!emoji || emoji.length > MAX_REACTION_LENGTH || !REACTION_PATTERN.test(emoji)) {
+    throw new MessageError('Reaction must be a single emoji');
+  }
+
+  const message = await findMessageForParticipant(messageId, userId);
+  if (!message) throw new MessageError('Message not found', 404);
+
+  const removed = await query(
+    `DELETE FROM message_reactions WHERE message_id = $1 AND user_id = $2 AND emoji = $3 RETURNING emoji`,
+    [messageId, userId, emoji]
+  );
+  if (removed.rows.length === 0) {
+    await query(
+      `INSERT INTO message_reactions (message_id, user_id, emoji) VALUES ($1, $2, $3)
+       ON CONFLICT DO NOTHING`,
+      [messageId, userId, emoji]
+    );
+  }
+
+  await announceMessageUpdated(message);
+  const details = await getMessageDetails([messageId]);
+  return { conversationId: message.conversationId, reactions: details.get(messageId)!.reactions };
+}
+
+/** Changes the text of the sender's own message, keeping what it said before. */
+export async function editMessage(messageId: string, userId: string, rawText: unknown): Promise<MessageRow> {
+  const messageText = typeof rawText === 'string' ? rawText.trim() : '';
+  if (!messageText) throw new MessageError('messageText is required');
+
+  const message = await findMessageForParticipant(messageId, userId);
+  if (!message || message.senderId !== userId) {
+    throw new MessageError('Message not found or you cannot edit this message', 404);
+  }
+  if (message.messageText === messageText) return message;
+
+  const updated = await transaction(async (client) => {
+    await client.query(
+      `INSERT INTO message_edits (message_id, previous_text) VALUES ($1, $2)`,
+      [messageId, message.messageText]
+    );
+    const result = await client.query(
+      `UPDATE messages m SET message_text = $2, edited_at = NOW()
+        WHERE m.id = $1
+        RETURNING ${MESSAGE_COLUMNS}`,
+      [messageId, messageText]
+    );
+    return result.rows[0] as MessageRow;
+  });
+
+  await announceMessageUpdated(updated);
+  return updated;
+}
+
+/** Earlier versions of a message, oldest first; visible to every participant. */
+export async function getEditHistory(
+  messageId: string,
+  userId: string
+): Promise<Array<{ previousText: string; editedAt: string }>> {
+  const message = await findMessageForParticipant(messageId, userId);
+  if (!message) throw new MessageError('Message not found', 404);
+
+  const result = await query(
+    `SELECT previous_text as "previousText", edited_at as "editedAt"
+       FROM message_edits
+      WHERE message_id = $1
+      ORDER BY edited_at ASC`,
+    [messageId]
+  );
+  return result.rows;
+}
+
+/**
+ * Records that the user has read everything others sent in the conversation
+ * (a receipt per message) and keeps the legacy is_read flag in step. The caller
+ * must already be a participant.
+ */
+export async function markConversationRead(conversationId: string, userId: string): Promise<number> {
+  const receipts = await query(
+    `INSERT INTO message_reads (message_id, user_id)
+     SELECT m.id, $2 FROM messages m
+      WHERE m.conversation_id = $1 AND m.sender_id != $2
+     ON CONFLICT DO NOTHING
+     RETURNING read_at as "readAt"`,
+    [conversationId, userId]
+  );
+
+  await query(
+    `UPDATE messages
+        SET is_read = true
+      WHERE conversation_id = $1
+        AND sender_id != $2
+        AND is_read = false`,
+    [conversationId, userId]
+  );
+
+  if (receipts.rows.length > 0) {
+    const participantIds = await getConversationParticipantIds(conversationId);
+    publishToConversation(conversationId, participantIds, {
+      type: 'conversation.read',
+      conversationId,
+      userId,
+      readAt: new Date(receipts.rows[0].readAt).toISOString(),
+    });
+  }
+  return receipts.rows.length;
+}
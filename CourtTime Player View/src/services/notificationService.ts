@@ -1,5 +1,8 @@
 import { getPool, query as dbQuery } from '../database/connection';
 import { Notification } from '../contexts/NotificationContext';
+import { getNotificationRecipient } from './dependentService';
+import { getUserPushTokens, sendExpoPushMessages } from './expoPushService';
+import { publish, userTopic } from './realtimeService';
 
 export interface DBNotification {
   id: string;
@@ -94,6 +97,7 @@ function defaultActionUrlForType(dbType: string): string | undefined {
     case 'booking_cancelled':
     case 'booking_reminder':
     case 'court_change':
+    case 'court_waitlist_offer':
       return '/my-reservations';
     case 'message':
       return '/messages';
@@ -106,6 +110,19 @@ function defaultActionUrlForType(dbType: string): string | undefined {
       return '/bulletin-board';
     case 'weather':
       return '/calendar';
+    case 'lesson_booked':
+    case 'lesson_cancelled':
+      return '/lessons';
+    case 'league_schedule':
+    case 'league_result':
+      return '/leagues';
+    case 'tournament_match':
+      return '/tournaments';
+    case 'hitting_invitation':
+      return '/hitting-partner';
+    case 'match_result_pending':
+    case 'match_result_confirmed':
+    case 'match_result_disputed':
     case 'strike_issued':
     case 'strike_revoked':
     case 'account_lockout':
@@ -228,6 +245,11 @@ export const notificationService = {
     `;
 
     try {
+      // A dependent's notifications go to the parent, labelled with the child's name
+      const recipient = await getNotificationRecipient(userId);
+      userId = recipient.userId;
+      if (recipient.dependentName) title = `${title} – ${recipient.dependentName}`;
+
       const pool = getPool();
       const result = await pool.query(query, [
         userId,
@@ -240,6 +262,16 @@ export const notificationService = {
       const notificationId = result.rows[0].id as string;
       const notificationCreatedAt = new Date(result.rows[0].created_at).toISOString();
 
+      // Open web/mobile sessions update the bell and unread counts right away
+      publish([userTopic(userId)], {
+        type: 'notification.created',
+        notificationId,
+        notificationType: type,
+        title,
+        message,
+        createdAt: notificationCreatedAt,
+      });
+
       // Fire-and-forget: send push notification to user's registered devices
       sendPushNotifications(userId, title, message, type, {
         notificationId,
@@ -448,10 +480,14 @@ export const notificationService = {
     courtName: string,
     startTime: Date,
     hoursUntil: number,
-    pushContext?: BookingPushContext
+    pushContext?: BookingPushContext,
+    reminderToken?: string
   ): Promise<string> {
     const title = 'Court Session Starting Soon';
-    const message = `Your ${courtName} session at ${facilityName} starts in ${hoursUntil} hour${hoursUntil !== 1 ? 's' : ''}.`;
+    const message = reminderToken
+      ? `Your ${courtName} session at ${facilityName} starts in ${hoursUntil} hour${hoursUntil !== 1 ? 's' : ''}. Tap to confirm or release the court.`
+      : `Your ${courtName} session at ${facilityName} starts in ${hoursUntil} hour${hoursUntil !== 1 ? 's' : ''}.`;
+    const pushData = buildBookingPushData(pushContext, { includeCourtId: true });
 
     return this.createNotification(
       userId,
@@ -459,9 +495,10 @@ export const notificationService = {
       message,
       'booking_reminder',
       {
-        actionUrl: buildBookingActionUrl(pushContext),
+        // The reminder page carries the confirm / release actions
+        actionUrl: reminderToken ? `/booking-reminder/${reminderToken}` : buildBookingActionUrl(pushContext),
         priority: 'high',
-        pushData: buildBookingPushData(pushContext, { includeCourtId: true }),
+        pushData: reminderToken ? { ...pushData, reminderToken } : pushData,
       }
     );
   },
@@ -529,6 +566,28 @@ export const notificationService = {
     );
   },
 
+  async notifyStringingReady(
+    userId: string,
+    racquet: string,
+    facilityId: string,
+    jobId: string
+  ): Promise<string> {
+    const title = 'Racquet Ready';
+    const message = `Your ${racquet} has been strung and is ready for pickup at the pro shop.`;
+
+    return this.createNotification(
+      userId,
+      title,
+      message,
+      'stringing_ready',
+      {
+        actionUrl: `/shop?${new URLSearchParams({ facilityId, tab: 'stringing' })}`,
+        priority: 'medium',
+        pushData: { facilityId, jobId },
+      }
+    );
+  },
+
   async notifyFacilityAnnouncement(
     userIds: string[],
     title: string,
@@ -602,12 +661,8 @@ async function sendPushNotifications(
     const prefKey = preferenceKeyForType(type);
     if (!isMandatory && prefKey && !prefs[prefKey]) return;
 
-    const result = await dbQuery(
-      `SELECT push_token FROM user_push_tokens WHERE user_id = $1`,
-      [userId]
-    );
-
-    if (result.rows.length === 0) return;
+    const tokens = await getUserPushTokens(userId);
+    if (tokens.length === 0) return;
 
     const dataPayload: Record<string, string> = {
       type,
@@ -616,31 +671,9 @@ async function sendPushNotifications(
       ...sanitizePushData(options?.pushData),
     };
 
-    const messages = result.rows
-      .filter((row: any) => row.push_token.startsWith('ExponentPushToken['))
-      .map((row: any) => ({
-        to: row.push_token,
-        sound: 'default' as const,
-        title,
-        body,
-        data: dataPayload,
-      }));
-
-    if (messages.length === 0) return;
-
-    // Expo Push API accepts batches of up to 100
-    const chunks: typeof messages[] = [];
-    for (let i = 0; i < messages.length; i += 100) {
-      chunks.push(messages.slice(i, i + 100));
-    }
-
-    for (const chunk of chunks) {
-      await fetch('https://exp.host/--/api/v2/push/send', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(chunk),
-      });
-    }
+    await sendExpoPushMessages(
+      tokens.map((to) => ({ to, sound: 'default' as const, title, body, data: dataPayload }))
+    );
   } catch (error) {
     console.error('Push notification error:', error);
   }
@@ -1,17 +1,48 @@
 /**
  * CourtTime-Pickle marketing campaign service.
- * Segments org players and sends via emailService announcement pattern.
+ * Segments org players and sends by email (emailService announcement pattern),
+ * push (the player's Expo tokens) or SMS (smsService provider). Push and SMS
+ * need the player's per-channel consent on their pickle profile. Merge fields
+ * and email open/click tracking come from pickleCampaignTemplateService.
  */
 
 import { query } from '../../database/connection';
-import { sendAnnouncementEmail } from '../emailService';
+import { sendCampaignEmail } from '../emailService';
+import { enqueueJob } from '../jobQueueService';
+import {
+  getExpoPushReceipts,
+  getUserPushTokens,
+  removePushTokens,
+  sendExpoPushMessages,
+} from '../expoPushService';
+import {
+  isSmsOptedOut,
+  normalizePhoneNumber,
+  sendSms,
+  type SmsStatusUpdate,
+} from '../smsService';
 import { isOrgAdmin } from './pickleOrgService';
+import {
+  SAMPLE_MERGE_VALUES,
+  extractCampaignLinks,
+  findUnknownMergeFields,
+  generateTrackingToken,
+  hasMergeFields,
+  pickSubjectVariant,
+  renderCampaignEmailHtml,
+  renderMergeFields,
+  resolveMergeFields,
+  type CampaignMergeValues,
+} from './pickleCampaignTemplateService';
 import type { LifecycleStatus, ActivityLevel } from './pickleLifecycleService';
 import { getPlayerLifecycle } from './pickleLifecycleService';
 
 export type CampaignChannel = 'email' | 'push' | 'sms';
 export type CampaignStatus = 'draft' | 'scheduled' | 'sending' | 'sent' | 'canceled';
 export type CampaignSendStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+export type CampaignRecurrence = 'none' | 'daily' | 'weekly' | 'monthly';
+/** What the push service or SMS carrier reported after accepting the message. */
+export type CampaignDeliveryStatus = 'queued' | 'delivered' | 'undelivered';
 
 export interface SegmentFilter {
   gender?: 'male' | 'female' | 'other' | 'prefer_not_to_say';
@@ -30,7 +61,17 @@ export interface PickleCampaign {
   segmentFilter: SegmentFilter;
   channel: CampaignChannel;
   templateBody: string;
+  /** A/B subject lines for email, split across the audience; empty uses the name. */
+  subjectVariants: string[];
   status: CampaignStatus;
+  /** Next send time (UTC) while scheduled. */
+  scheduledAt: string | null;
+  /** Timezone the schedule was entered in; recurrences keep its wall-clock time. */
+  timezone: string | null;
+  recurrence: CampaignRecurrence;
+  /** Set on the copy made for each occurrence of a recurring campaign. */
+  parentCampaignId: string | null;
+  lastSentAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -42,6 +83,16 @@ export interface CampaignSend {
   sentAt: string | null;
   status: CampaignSendStatus;
   errorMessage: string | null;
+  channel: CampaignChannel | null;
+  deliveryStatus: CampaignDeliveryStatus | null;
+  deliveryError: string | null;
+  deliveryUpdatedAt: string | null;
+  /** Index into the campaign's subjectVariants (email only). */
+  subjectVariant: number | null;
+  openedAt: string | null;
+  openCount: number;
+  clickedAt: string | null;
+  clickCount: number;
   createdAt: string;
   fullName?: string;
   email?: string;
@@ -53,8 +104,19 @@ export interface CreateCampaignInput {
   segmentFilter?: SegmentFilter;
   channel?: CampaignChannel;
   templateBody: string;
+  subjectVariants?: string[];
 }
 
+/** Up to this many subject lines per A/B test. */
+export const MAX_SUBJECT_VARIANTS = 4;
+
+const CAMPAIGN_COLUMNS = `
+  id, org_id as "orgId", name, segment_filter as "segmentFilter",
+  channel, template_body as "templateBody", subject_variants as "subjectVariants", status,
+  scheduled_at as "scheduledAt", timezone, recurrence,
+  parent_campaign_id as "parentCampaignId", last_sent_at as "lastSentAt",
+  created_at as "createdAt", updated_at as "updatedAt"`;
+
 function mapCampaign(row: Record<string, unknown>): PickleCampaign {
   return {
     id: row.id as string,
@@ -63,7 +125,13 @@ function mapCampaign(row: Record<string, unknown>): PickleCampaign {
     segmentFilter: (row.segmentFilter as SegmentFilter) || {},
     channel: row.channel as CampaignChannel,
     templateBody: row.templateBody as string,
+    subjectVariants: (row.subjectVariants as string[]) || [],
     status: row.status as CampaignStatus,
+    scheduledAt: row.scheduledAt ? new Date(row.scheduledAt as string).toISOString() : null,
+    timezone: (row.timezone as string) || null,
+    recurrence: (row.recurrence as CampaignRecurrence) || 'none',
+    parentCampaignId: (row.parentCampaignId as string) || null,
+    lastSentAt: (row.lastSentAt as string) || null,
     createdAt: row.createdAt as string,
     updatedAt: row.updatedAt as string,
   };
@@ -77,6 +145,15 @@ function mapSend(row: Record<string, unknown>): CampaignSend {
     sentAt: (row.sentAt as string) || null,
     status: row.status as CampaignSendStatus,
     errorMessage: (row.errorMessage as string) || null,
+    channel: (row.channel as CampaignChannel) || null,
+    deliveryStatus: (row.deliveryStatus as CampaignDeliveryStatus) || null,
+    deliveryError: (row.deliveryError as string) || null,
+    deliveryUpdatedAt: (row.deliveryUpdatedAt as string) || null,
+    subjectVariant: row.subjectVariant != null ? Number(row.subjectVariant) : null,
+    openedAt: (row.openedAt as string) || null,
+    openCount: Number(row.openCount ?? 0),
+    clickedAt: (row.clickedAt as string) || null,
+    clickCount: Number(row.clickCount ?? 0),
     createdAt: row.createdAt as string,
     fullName: row.fullName as string | undefined,
     email: row.email as string | undefined,
@@ -103,18 +180,26 @@ export async function requireCampaignAdmin(userId: string, orgId: string): Promi
 }
 
 export async function createCampaign(input: CreateCampaignInput): Promise<PickleCampaign> {
+  const subjectVariants = (input.subjectVariants ?? []).map((s) => s.trim()).filter(Boolean);
+  if (subjectVariants.length > MAX_SUBJECT_VARIANTS) {
+    throw new Error(`At most ${MAX_SUBJECT_VARIANTS} subject variants`);
+  }
+  const unknown = findUnknownMergeFields([input.templateBody, ...subjectVariants].join('\n'));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown merge field ${unknown.map((f) => `{{${f}}}`).join(', ')}`);
+  }
+
   const result = await query(
-    `INSERT INTO pickle_campaigns (org_id, name, segment_filter, channel, template_body, status)
-     VALUES ($1, $2, $3::jsonb, $4, $5, 'draft')
-     RETURNING id, org_id as "orgId", name, segment_filter as "segmentFilter",
-               channel, template_body as "templateBody", status,
-               created_at as "createdAt", updated_at as "updatedAt"`,
+    `INSERT INTO pickle_campaigns (org_id, name, segment_filter, channel, template_body, subject_variants, status)
+     VALUES ($1, $2, $3::jsonb, $4, $5, $6::text[], 'draft')
+     RETURNING ${CAMPAIGN_COLUMNS}`,
     [
       input.orgId,
       input.name,
       JSON.stringify(input.segmentFilter ?? {}),
       input.channel ?? 'email',
       input.templateBody,
+      subjectVariants,
     ]
   );
   return mapCampaign(result.rows[0]);
@@ -122,9 +207,7 @@ export async function createCampaign(input: CreateCampaignInput): Promise<Pickle
 
 export async function listCampaigns(orgId: string): Promise<PickleCampaign[]> {
   const result = await query(
-    `SELECT id, org_id as "orgId", name, segment_filter as "segmentFilter",
-            channel, template_body as "templateBody", status,
-            created_at as "createdAt", updated_at as "updatedAt"
+    `SELECT ${CAMPAIGN_COLUMNS}
      FROM pickle_campaigns
      WHERE org_id = $1
      ORDER BY created_at DESC`,
@@ -135,9 +218,7 @@ export async function listCampaigns(orgId: string): Promise<PickleCampaign[]> {
 
 export async function getCampaign(orgId: string, campaignId: string): Promise<PickleCampaign | null> {
   const result = await query(
-    `SELECT id, org_id as "orgId", name, segment_filter as "segmentFilter",
-            channel, template_body as "templateBody", status,
-            created_at as "createdAt", updated_at as "updatedAt"
+    `SELECT ${CAMPAIGN_COLUMNS}
      FROM pickle_campaigns
      WHERE org_id = $1 AND id = $2`,
     [orgId, campaignId]
@@ -149,21 +230,47 @@ interface SegmentCandidate {
   userId: string;
   email: string;
   fullName: string;
+  phone: string | null;
   gender: string | null;
   birthdate: string | null;
   duprRating: number | null;
+  pushConsent: boolean;
+  smsConsent: boolean;
+}
+
+const CANDIDATE_COLUMNS = `
+  u.id as "userId", u.email, u.full_name as "fullName", u.phone, u.gender,
+  COALESCE(pp_org.birthdate, pp_global.birthdate) as birthdate,
+  COALESCE(pp_org.dupr_rating, pp_global.dupr_rating) as "duprRating",
+  COALESCE(pp_org.campaign_push_consent, pp_global.campaign_push_consent, true) as "pushConsent",
+  COALESCE(pp_org.campaign_sms_consent, pp_global.campaign_sms_consent, false) as "smsConsent"`;
+
+/** Joins the player's org profile and global profile; $1 must be the org id. */
+const CANDIDATE_PROFILE_JOINS = `
+  LEFT JOIN pickle_player_profiles pp_org
+    ON pp_org.user_id = u.id AND pp_org.org_id = $1
+  LEFT JOIN pickle_player_profiles pp_global
+    ON pp_global.user_id = u.id AND pp_global.org_id IS NULL`;
+
+function mapCandidate(row: Record<string, unknown>): SegmentCandidate {
+  return {
+    userId: row.userId as string,
+    email: row.email as string,
+    fullName: row.fullName as string,
+    phone: (row.phone as string) || null,
+    gender: (row.gender as string) || null,
+    birthdate: (row.birthdate as string) || null,
+    duprRating: row.duprRating != null ? Number(row.duprRating) : null,
+    pushConsent: row.pushConsent !== false,
+    smsConsent: row.smsConsent === true,
+  };
 }
 
 export async function getOrgPlayerCandidates(orgId: string): Promise<SegmentCandidate[]> {
   const result = await query(
-    `SELECT DISTINCT u.id as "userId", u.email, u.full_name as "fullName", u.gender,
-            COALESCE(pp_org.birthdate, pp_global.birthdate) as birthdate,
-            COALESCE(pp_org.dupr_rating, pp_global.dupr_rating) as "duprRating"
+    `SELECT DISTINCT ${CANDIDATE_COLUMNS}
      FROM users u
-     LEFT JOIN pickle_player_profiles pp_org
-       ON pp_org.user_id = u.id AND pp_org.org_id = $1
-     LEFT JOIN pickle_player_profiles pp_global
-       ON pp_global.user_id = u.id AND pp_global.org_id IS NULL
+     ${CANDIDATE_PROFILE_JOINS}
      WHERE u.id IN (
        SELECT user_id FROM player_visits WHERE org_id = $1
        UNION
@@ -174,14 +281,7 @@ export async function getOrgPlayerCandidates(orgId: string): Promise<SegmentCand
      ORDER BY u.full_name`,
     [orgId]
   );
-  return result.rows.map((row) => ({
-    userId: row.userId as string,
-    email: row.email as string,
-    fullName: row.fullName as string,
-    gender: (row.gender as string) || null,
-    birthdate: (row.birthdate as string) || null,
-    duprRating: row.duprRating != null ? Number(row.duprRating) : null,
-  }));
+  return result.rows.map(mapCandidate);
 }
 
 export async function segmentMembers(
@@ -237,93 +337,566 @@ export async function previewCampaignSegment(
   };
 }
 
-export async function sendCampaign(
+export interface CampaignEmailPreview {
+  /** Whose merge fields filled the preview; null when the segment is empty (sample values). */
+  recipient: { userId: string; fullName: string } | null;
+  sampleRecipients: Array<{ userId: string; fullName: string }>;
+  /** One per A/B variant, as that recipient would see it. */
+  subjects: string[];
+  /** The message body with merge fields filled (what push and SMS send). */
+  body: string;
+  html: string;
+}
+
+/**
+ * The campaign as one of the first sample recipients in its segment would
+ * get it (the given user, or the first sample), without tracking.
+ */
+export async function previewCampaignEmail(
+  orgId: string,
+  campaignId: string,
+  userId?: string
+): Promise<CampaignEmailPreview> {
+  const campaign = await getCampaign(orgId, campaignId);
+  if (!campaign) throw new Error('Campaign not found');
+
+  const samples = (await segmentMembers(orgId, campaign.segmentFilter)).slice(0, 10);
+  const recipient = samples.find((m) => m.userId === userId) ?? samples[0] ?? null;
+  const values = recipient ? await resolveMergeFields(orgId, recipient) : SAMPLE_MERGE_VALUES;
+  const orgName = await getOrgName(orgId);
+  const variantCount = Math.max(campaign.subjectVariants.length, 1);
+
+  return {
+    recipient: recipient ? { userId: recipient.userId, fullName: recipient.fullName } : null,
+    sampleRecipients: samples.map((m) => ({ userId: m.userId, fullName: m.fullName })),
+    subjects: Array.from({ length: variantCount }, (_, i) => campaignSubject(campaign, i, values, orgName)),
+    body: renderMergeFields(campaign.templateBody, values),
+    html: renderCampaignEmailHtml({
+      templateBody: campaign.templateBody,
+      values,
+      orgName,
+      fullName: recipient?.fullName || values.firstName,
+    }),
+  };
+}
+
+/**
+ * Hands the send to the campaign_send background job and marks the campaign
+ * as sending. Queueing the same campaign twice returns the existing job.
+ */
+export async function queueCampaignSend(
   orgId: string,
   campaignId: string
-): Promise<{ sent: number; failed: number; skipped: number }> {
+): Promise<{ jobId: string }> {
   const campaign = await getCampaign(orgId, campaignId);
   if (!campaign) throw new Error('Campaign not found');
   if (campaign.status === 'sent' || campaign.status === 'canceled') {
     throw new Error(`Campaign is already ${campaign.status}`);
   }
+  if (campaign.recurrence !== 'none' && campaign.status === 'scheduled') {
+    throw new Error('Recurring campaigns are already scheduled; cancel to stop them');
+  }
 
-  const orgResult = await query(
-    `SELECT name FROM franchise_organizations WHERE id = $1`,
+  const jobId = await enqueueJob('campaign_send', { orgId, campaignId }, { dedupeKey: `campaign_send:${campaignId}` });
+  await updateCampaignStatus(orgId, campaignId, 'sending');
+  return { jobId };
+}
+
+const RECURRENCES: CampaignRecurrence[] = ['none', 'daily', 'weekly', 'monthly'];
+
+const RECURRENCE_INTERVALS: Record<Exclude<CampaignRecurrence, 'none'>, string> = {
+  daily: '1 day',
+  weekly: '7 days',
+  monthly: '1 month',
+};
+
+const LOCAL_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+
+/** Timezone of the org's first location that has one. */
+async function getOrgTimezone(orgId: string): Promise<string> {
+  const result = await query(
+    `SELECT timezone FROM facilities
+      WHERE org_id = $1 AND timezone IS NOT NULL
+      ORDER BY created_at
+      LIMIT 1`,
     [orgId]
   );
-  const orgName = orgResult.rows[0]?.name || 'CourtTime Pickle';
+  return result.rows[0]?.timezone || 'America/New_York';
+}
 
-  const recipients = await segmentMembers(orgId, campaign.segmentFilter);
+async function enqueueScheduledSend(campaign: PickleCampaign): Promise<void> {
+  if (!campaign.scheduledAt) return;
+  await enqueueJob(
+    'campaign_send',
+    { orgId: campaign.orgId, campaignId: campaign.id, scheduledAt: campaign.scheduledAt },
+    { runAt: new Date(campaign.scheduledAt), dedupeKey: `campaign_send:${campaign.id}:${campaign.scheduledAt}` }
+  );
+}
 
+/**
+ * Schedules a draft (or reschedules a scheduled campaign) for `sendAt`, a local
+ * date and time (YYYY-MM-DDTHH:mm) in the org's timezone. With a recurrence
+ * the campaign goes out again every day, week or month at the same local time
+ * until it is canceled.
+ */
+export async function scheduleCampaign(
+  orgId: string,
+  campaignId: string,
+  input: { sendAt: string; recurrence?: CampaignRecurrence }
+): Promise<PickleCampaign> {
+  const campaign = await getCampaign(orgId, campaignId);
+  if (!campaign) throw new Error('Campaign not found');
+  if (campaign.status !== 'draft' && campaign.status !== 'scheduled') {
+    throw new Error(`Campaign is already ${campaign.status}`);
+  }
+  if (!LOCAL_DATE_TIME.test(input.sendAt ?? '')) {
+    throw new Error('sendAt must be a local date and time (YYYY-MM-DDTHH:mm)');
+  }
+  const recurrence = input.recurrence ?? 'none';
+  if (!RECURRENCES.includes(recurrence)) throw new Error('Invalid recurrence');
+
+  const timezone = await getOrgTimezone(orgId);
+  const result = await query(
+    `UPDATE pickle_campaigns
+        SET status = 'scheduled', scheduled_at = $3::timestamp AT TIME ZONE $4,
+            timezone = $4, recurrence = $5, updated_at = NOW()
+      WHERE org_id = $1 AND id = $2 AND ($3::timestamp AT TIME ZONE $4) > NOW()
+      RETURNING ${CAMPAIGN_COLUMNS}`,
+    [orgId, campaignId, input.sendAt, timezone, recurrence]
+  );
+  if (!result.rows[0]) throw new Error('Scheduled time must be in the future');
+
+  const scheduled = mapCampaign(result.rows[0]);
+  await enqueueScheduledSend(scheduled);
+  return scheduled;
+}
+
+/**
+ * Stops a campaign before (or while) it goes out: a scheduled or recurring
+ * campaign never fires, and a campaign mid-send skips whoever is still pending.
+ */
+export async function cancelCampaign(orgId: string, campaignId: string): Promise<PickleCampaign> {
+  const campaign = await getCampaign(orgId, campaignId);
+  if (!campaign) throw new Error('Campaign not found');
+  if (campaign.status === 'sent' || campaign.status === 'canceled') {
+    throw new Error(`Campaign is already ${campaign.status}`);
+  }
+
+  const result = await query(
+    `UPDATE pickle_campaigns SET status = 'canceled', scheduled_at = NULL, updated_at = NOW()
+      WHERE org_id = $1 AND id = $2
+      RETURNING ${CAMPAIGN_COLUMNS}`,
+    [orgId, campaignId]
+  );
   await query(
-    `UPDATE pickle_campaigns SET status = 'sending', updated_at = NOW()
-     WHERE id = $1`,
+    `UPDATE pickle_campaign_sends SET status = 'skipped', error_message = 'Campaign canceled'
+      WHERE campaign_id = $1 AND status = 'pending'`,
     [campaignId]
   );
+  return mapCampaign(result.rows[0]);
+}
+
+/**
+ * The campaign_send job. A job carrying `scheduledAt` is a scheduled send
+ * coming due (ignored if the campaign was rescheduled or canceled since);
+ * otherwise it is the next batch of a campaign already going out.
+ */
+export async function runCampaignSendJob(payload: {
+  orgId: string;
+  campaignId: string;
+  batch?: number;
+  scheduledAt?: string;
+}): Promise<Record<string, unknown>> {
+  const { orgId, campaignId } = payload;
+  if (!payload.scheduledAt) return sendCampaign(orgId, campaignId, payload.batch ?? 0);
+
+  const campaign = await getCampaign(orgId, campaignId);
+  if (!campaign || campaign.status !== 'scheduled' || campaign.scheduledAt !== payload.scheduledAt) {
+    return { stale: true };
+  }
+
+  if (campaign.recurrence === 'none') {
+    await updateCampaignStatus(orgId, campaignId, 'sending');
+    return sendCampaign(orgId, campaignId);
+  }
+
+  const occurrence = await createOccurrence(campaign);
+  await enqueueJob('campaign_send', { orgId, campaignId: occurrence.id }, { dedupeKey: `campaign_send:${occurrence.id}` });
+  const next = await advanceRecurringCampaign(campaign);
+  return { occurrenceId: occurrence.id, nextSendAt: next?.scheduledAt ?? null };
+}
+
+/** The copy of a recurring campaign that goes out for one occurrence. */
+async function createOccurrence(campaign: PickleCampaign): Promise<PickleCampaign> {
+  const result = await query(
+    `INSERT INTO pickle_campaigns
+       (org_id, name, segment_filter, channel, template_body, subject_variants, status, parent_campaign_id)
+     SELECT org_id,
+            name || ' — ' || TO_CHAR(scheduled_at AT TIME ZONE COALESCE(timezone, 'America/New_York'), 'Mon DD, YYYY'),
+            segment_filter, channel, template_body, subject_variants, 'sending', id
+       FROM pickle_campaigns
+      WHERE id = $1
+     RETURNING ${CAMPAIGN_COLUMNS}`,
+    [campaign.id]
+  );
+  return mapCampaign(result.rows[0]);
+}
+
+/**
+ * Moves a recurring campaign to its next occurrence at the same local time,
+ * skipping any occurrences missed while the server was down, and queues it.
+ */
+async function advanceRecurringCampaign(campaign: PickleCampaign): Promise<PickleCampaign | null> {
+  const interval = RECURRENCE_INTERVALS[campaign.recurrence as Exclude<CampaignRecurrence, 'none'>];
+  let next: PickleCampaign | null = null;
+  do {
+    const result = await query(
+      `UPDATE pickle_campaigns
+          SET scheduled_at = ((scheduled_at AT TIME ZONE COALESCE(timezone, 'America/New_York')) + $2::interval)
+                             AT TIME ZONE COALESCE(timezone, 'America/New_York'),
+              last_sent_at = NOW(), updated_at = NOW()
+        WHERE id = $1 AND status = 'scheduled'
+        RETURNING ${CAMPAIGN_COLUMNS}`,
+      [campaign.id, interval]
+    );
+    if (!result.rows[0]) return null;
+    next = mapCampaign(result.rows[0]);
+  } while (next.scheduledAt && new Date(next.scheduledAt).getTime() <= Date.now());
+
+  await enqueueScheduledSend(next);
+  return next;
+}
+
+async function getOrgName(orgId: string): Promise<string> {
+  const result = await query(
+    `SELECT name FROM franchise_organizations WHERE id = $1`,
+    [orgId]
+  );
+  return result.rows[0]?.name || 'CourtTime Pickle';
+}
+
+/** Recipients per batch; SMS goes slowest to stay inside carrier rate limits. */
+const CAMPAIGN_BATCH_SIZES: Record<CampaignChannel, number> = {
+  email: 100,
+  push: 500,
+  sms: 30,
+};
+
+const CAMPAIGN_BATCH_INTERVAL_MS = 60 * 1000;
+
+/** Records the audience as pending sends; members already recorded keep their row. */
+async function snapshotAudience(campaign: PickleCampaign): Promise<void> {
+  const recipients = await segmentMembers(campaign.orgId, campaign.segmentFilter);
+  if (recipients.length === 0) return;
+  await query(
+    `INSERT INTO pickle_campaign_sends (campaign_id, user_id, status, channel)
+     SELECT $1, user_id, 'pending', $3 FROM UNNEST($2::uuid[]) AS user_id
+     ON CONFLICT (campaign_id, user_id) DO NOTHING`,
+    [campaign.id, recipients.map((r) => r.userId), campaign.channel]
+  );
+}
+
+async function fetchPendingRecipients(campaign: PickleCampaign, limit: number): Promise<SegmentCandidate[]> {
+  const result = await query(
+    `SELECT ${CANDIDATE_COLUMNS}
+     FROM pickle_campaign_sends s
+     JOIN users u ON u.id = s.user_id
+     ${CANDIDATE_PROFILE_JOINS}
+     WHERE s.campaign_id = $2 AND s.status = 'pending'
+     ORDER BY s.created_at, s.id
+     LIMIT $3`,
+    [campaign.orgId, campaign.id, limit]
+  );
+  return result.rows.map(mapCandidate);
+}
+
+/**
+ * Sends one batch of a campaign that is going out. Batch 0 snapshots the
+ * audience as pending sends; every batch then delivers to the next pending
+ * recipients and queues the following batch a minute later, so a large
+ * audience trickles out and a restart resumes with whoever is still pending.
+ * The last batch marks the campaign sent.
+ */
+export async function sendCampaign(
+  orgId: string,
+  campaignId: string,
+  batch = 0
+): Promise<{ sent: number; failed: number; skipped: number; remaining: number }> {
+  const campaign = await getCampaign(orgId, campaignId);
+  if (!campaign) throw new Error('Campaign not found');
+  if (campaign.status === 'sent' || campaign.status === 'canceled') {
+    return { sent: 0, failed: 0, skipped: 0, remaining: 0 };
+  }
+
+  const orgName = await getOrgName(orgId);
+
+  if (batch === 0) {
+    await snapshotAudience(campaign);
+    await query(
+      `UPDATE pickle_campaigns SET status = 'sending', updated_at = NOW()
+       WHERE id = $1`,
+      [campaignId]
+    );
+  }
+
+  const recipients = await fetchPendingRecipients(campaign, CAMPAIGN_BATCH_SIZES[campaign.channel]);
 
   let sent = 0;
   let failed = 0;
   let skipped = 0;
+  let pushQueued = false;
 
   for (const recipient of recipients) {
-    if (campaign.channel === 'email') {
-      if (!recipient.email) {
-        await recordSend(campaignId, recipient.userId, 'skipped', null, 'No email address');
-        skipped++;
-        continue;
+    const outcome = await deliverToRecipient(campaign, recipient, orgName);
+    await recordSend(campaignId, recipient.userId, campaign.channel, outcome);
+    if (outcome.status === 'sent') sent++;
+    else if (outcome.status === 'failed') failed++;
+    else skipped++;
+    if (campaign.channel === 'push' && outcome.providerMessageIds?.length) pushQueued = true;
+  }
+
+  const pendingResult = await query(
+    `SELECT COUNT(*)::int AS remaining FROM pickle_campaign_sends
+      WHERE campaign_id = $1 AND status = 'pending'`,
+    [campaignId]
+  );
+  const remaining = Number(pendingResult.rows[0]?.remaining ?? 0);
+
+  if (remaining > 0) {
+    await enqueueJob(
+      'campaign_send',
+      { orgId, campaignId, batch: batch + 1 },
+      { runAt: new Date(Date.now() + CAMPAIGN_BATCH_INTERVAL_MS), dedupeKey: `campaign_send:${campaignId}:${batch + 1}` }
+    );
+  } else {
+    await query(
+      `UPDATE pickle_campaigns SET status = 'sent', last_sent_at = NOW(), updated_at = NOW()
+       WHERE id = $1 AND status = 'sending'`,
+      [campaignId]
+    );
+  }
+
+  // Expo only has receipts once Apple/Google have answered, so look later.
+  if (pushQueued) {
+    await enqueueJob(
+      'campaign_push_receipts',
+      { campaignId },
+      {
+        runAt: new Date(Date.now() + PUSH_RECEIPT_DELAY_MS),
+        dedupeKey: `campaign_push_receipts:${campaignId}:${batch}`,
       }
+    );
+  }
 
-      const result = await sendAnnouncementEmail(
-        recipient.email,
-        recipient.fullName || 'Player',
-        campaign.name,
-        campaign.templateBody,
+  return { sent, failed, skipped, remaining };
+}
+
+interface DeliveryOutcome {
+  status: Exclude<CampaignSendStatus, 'pending'>;
+  errorMessage?: string;
+  providerMessageIds?: string[];
+  subjectVariant?: number;
+  trackingToken?: string;
+}
+
+const PUSH_RECEIPT_DELAY_MS = 30 * 60 * 1000;
+const SMS_OPT_OUT_FOOTER = 'Reply STOP to opt out.';
+
+/** Fills merge fields only when the campaign uses them, to spare the lookups. */
+async function recipientMergeValues(
+  campaign: PickleCampaign,
+  recipient: { userId: string; fullName: string | null }
+): Promise<CampaignMergeValues | null> {
+  if (![campaign.templateBody, ...campaign.subjectVariants].some(hasMergeFields)) return null;
+  return resolveMergeFields(campaign.orgId, recipient);
+}
+
+function campaignSubject(
+  campaign: PickleCampaign,
+  variant: number,
+  values: CampaignMergeValues | null,
+  orgName: string
+): string {
+  const subject = campaign.subjectVariants[variant];
+  if (!subject) return `${campaign.name} - ${orgName}`;
+  return values ? renderMergeFields(subject, values) : subject;
+}
+
+async function deliverToRecipient(
+  campaign: PickleCampaign,
+  recipient: SegmentCandidate,
+  orgName: string
+): Promise<DeliveryOutcome> {
+  const values = await recipientMergeValues(campaign, recipient);
+  const body = values ? renderMergeFields(campaign.templateBody, values) : campaign.templateBody;
+
+  switch (campaign.channel) {
+    case 'email': {
+      if (!recipient.email) return { status: 'skipped', errorMessage: 'No email address' };
+      const subjectVariant = pickSubjectVariant(recipient.userId, campaign.subjectVariants.length);
+      const trackingToken = generateTrackingToken();
+      const html = renderCampaignEmailHtml({
+        templateBody: campaign.templateBody,
+        values,
         orgName,
+        fullName: recipient.fullName || 'Player',
+        trackingToken,
+      });
+      const result = await sendCampaignEmail(
+        recipient.email,
+        campaignSubject(campaign, subjectVariant, values, orgName),
+        html,
         recipient.userId
       );
+      return result.success
+        ? { status: 'sent', subjectVariant, trackingToken }
+        : { status: 'failed', errorMessage: result.error || 'Send failed', subjectVariant };
+    }
 
-      if (result.success) {
-        await recordSend(campaignId, recipient.userId, 'sent', new Date().toISOString());
-        sent++;
-      } else {
-        await recordSend(campaignId, recipient.userId, 'failed', null, result.error || 'Send failed');
-        failed++;
-      }
-    } else {
-      await recordSend(
-        campaignId,
-        recipient.userId,
-        'skipped',
-        null,
-        `${campaign.channel} channel not yet implemented`
+    case 'push': {
+      if (!recipient.pushConsent) return { status: 'skipped', errorMessage: 'Push campaigns turned off' };
+      const tokens = await getUserPushTokens(recipient.userId);
+      if (tokens.length === 0) return { status: 'skipped', errorMessage: 'No registered device' };
+
+      const tickets = await sendExpoPushMessages(
+        tokens.map((to) => ({
+          to,
+          sound: 'default' as const,
+          title: `${orgName}: ${campaign.name}`,
+          body,
+          data: { type: 'pickle_campaign', campaignId: campaign.id },
+        }))
       );
-      skipped++;
+      const ticketIds: string[] = [];
+      const staleTokens: string[] = [];
+      let firstError: string | null = null;
+      tickets.forEach((ticket, i) => {
+        if (ticket.status === 'ok') {
+          ticketIds.push(ticket.id);
+          return;
+        }
+        if (ticket.details?.error === 'DeviceNotRegistered') staleTokens.push(tokens[i]);
+        firstError ??= ticket.message;
+      });
+      await removePushTokens(staleTokens);
+      return ticketIds.length > 0
+        ? { status: 'sent', providerMessageIds: ticketIds }
+        : { status: 'failed', errorMessage: firstError || 'Push send failed' };
     }
-  }
 
-  await query(
-    `UPDATE pickle_campaigns SET status = 'sent', updated_at = NOW()
-     WHERE id = $1`,
-    [campaignId]
-  );
+    case 'sms': {
+      if (!recipient.smsConsent) return { status: 'skipped', errorMessage: 'Not opted in to SMS campaigns' };
+      const phone = normalizePhoneNumber(recipient.phone);
+      if (!phone) return { status: 'skipped', errorMessage: 'No valid mobile number' };
+      if (await isSmsOptedOut(phone)) return { status: 'skipped', errorMessage: 'Opted out by STOP reply' };
 
-  return { sent, failed, skipped };
+      const result = await sendSms(phone, `${orgName}: ${body}\n${SMS_OPT_OUT_FOOTER}`);
+      return result.success && result.messageId
+        ? { status: 'sent', providerMessageIds: [result.messageId] }
+        : { status: 'failed', errorMessage: result.error || 'SMS send failed' };
+    }
+  }
 }
 
 async function recordSend(
   campaignId: string,
   userId: string,
-  status: CampaignSendStatus,
-  sentAt: string | null,
-  errorMessage?: string
+  channel: CampaignChannel,
+  outcome: DeliveryOutcome
 ): Promise<void> {
+  const providerMessageIds = outcome.providerMessageIds ?? [];
+  const sentAt = outcome.status === 'sent' ? new Date().toISOString() : null;
+  const deliveryStatus: CampaignDeliveryStatus | null = providerMessageIds.length > 0 ? 'queued' : null;
   await query(
-    `INSERT INTO pickle_campaign_sends (campaign_id, user_id, sent_at, status, error_message)
-     VALUES ($1, $2, $3::timestamptz, $4, $5)
+    `INSERT INTO pickle_campaign_sends
+       (campaign_id, user_id, sent_at, status, error_message, channel,
+        provider_message_ids, delivery_status, delivery_error, delivery_updated_at,
+        subject_variant, tracking_token)
+     VALUES ($1, $2, $3::timestamptz, $4, $5, $6, $7::text[], $8, NULL, $9::timestamptz, $10, $11)
      ON CONFLICT (campaign_id, user_id)
      DO UPDATE SET sent_at = EXCLUDED.sent_at, status = EXCLUDED.status,
-                   error_message = EXCLUDED.error_message`,
-    [campaignId, userId, sentAt, status, errorMessage ?? null]
+                   error_message = EXCLUDED.error_message, channel = EXCLUDED.channel,
+                   provider_message_ids = EXCLUDED.provider_message_ids,
+                   delivery_status = EXCLUDED.delivery_status, delivery_error = NULL,
+                   delivery_updated_at = EXCLUDED.delivery_updated_at,
+                   subject_variant = EXCLUDED.subject_variant,
+                   tracking_token = EXCLUDED.tracking_token`,
+    [
+      campaignId,
+      userId,
+      sentAt,
+      outcome.status,
+      outcome.errorMessage ?? null,
+      channel,
+      providerMessageIds,
+      deliveryStatus,
+      deliveryStatus ? sentAt : null,
+      outcome.subjectVariant ?? null,
+      outcome.trackingToken ?? null,
+    ]
+  );
+}
+
+/**
+ * Records an SMS carrier's final delivery report against the recipient's
+ * send row. Returns false when no campaign send has that message id.
+ */
+export async function applySmsDeliveryStatus(update: SmsStatusUpdate): Promise<boolean> {
+  const result = await query(
+    `UPDATE pickle_campaign_sends
+        SET delivery_status = $2, delivery_error = $3, delivery_updated_at = NOW()
+      WHERE channel = 'sms' AND $1 = ANY(provider_message_ids)`,
+    [update.messageId, update.status, update.error ?? null]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Resolves queued push sends from Expo receipts: delivered if any of the
+ * player's devices got it, undelivered once every ticket came back as an
+ * error. Sends Expo hasn't answered for yet stay queued.
+ */
+export async function checkCampaignPushReceipts(
+  campaignId: string
+): Promise<{ delivered: number; undelivered: number; pending: number }> {
+  const result = await query(
+    `SELECT id, provider_message_ids AS "ticketIds"
+       FROM pickle_campaign_sends
+      WHERE campaign_id = $1 AND channel = 'push' AND delivery_status = 'queued'`,
+    [campaignId]
+  );
+  const rows = result.rows as Array<{ id: string; ticketIds: string[] }>;
+  const receipts = await getExpoPushReceipts(rows.flatMap((row) => row.ticketIds));
+
+  let delivered = 0;
+  let undelivered = 0;
+  let pending = 0;
+  for (const row of rows) {
+    const found = row.ticketIds.map((id) => receipts[id]).filter(Boolean);
+    if (found.some((receipt) => receipt.status === 'ok')) {
+      await setPushDelivery(row.id, 'delivered', null);
+      delivered++;
+    } else if (found.length === row.ticketIds.length) {
+      const error = found.find((receipt) => receipt.status === 'error');
+      await setPushDelivery(row.id, 'undelivered', error?.status === 'error' ? error.message : null);
+      undelivered++;
+    } else {
+      pending++;
+    }
+  }
+  return { delivered, undelivered, pending };
+}
+
+async function setPushDelivery(
+  sendId: string,
+  status: CampaignDeliveryStatus,
+  error: string | null
+): Promise<void> {
+  await query(
+    `UPDATE pickle_campaign_sends
+        SET delivery_status = $2, delivery_error = $3, delivery_updated_at = NOW()
+      WHERE id = $1`,
+    [sendId, status, error]
   );
 }
 
@@ -334,7 +907,10 @@ export async function listCampaignSends(
   const result = await query(
     `SELECT s.id, s.campaign_id as "campaignId", s.user_id as "userId",
             s.sent_at as "sentAt", s.status, s.error_message as "errorMessage",
-            s.created_at as "createdAt",
+            s.channel, s.delivery_status as "deliveryStatus", s.delivery_error as "deliveryError",
+            s.delivery_updated_at as "deliveryUpdatedAt", s.subject_variant as "subjectVariant",
+            s.opened_at as "openedAt", s.open_count as "openCount",
+            s.clicked_at as "clickedAt", s.click_count as "clickCount", s.created_at as "createdAt",
             u.full_name as "fullName", u.email
      FROM pickle_campaign_sends s
      JOIN pickle_campaigns c ON c.id = s.campaign_id
@@ -346,6 +922,84 @@ export async function listCampaignSends(
   return result.rows.map(mapSend);
 }
 
+/** Counts an open from the email's tracking pixel. */
+export async function recordCampaignOpen(trackingToken: string): Promise<boolean> {
+  const result = await query(
+    `UPDATE pickle_campaign_sends
+        SET opened_at = COALESCE(opened_at, NOW()), open_count = open_count + 1
+      WHERE tracking_token = $1`,
+    [trackingToken]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Counts a click on one of the email's links and returns where it goes.
+ * A click is also an open, for mail clients that block the pixel. Null when
+ * the token or link is unknown, so nobody can bounce through the redirect
+ * to a URL the campaign didn't contain.
+ */
+export async function recordCampaignClick(trackingToken: string, linkIndex: number): Promise<string | null> {
+  const result = await query(
+    `SELECT c.template_body as "templateBody"
+       FROM pickle_campaign_sends s
+       JOIN pickle_campaigns c ON c.id = s.campaign_id
+      WHERE s.tracking_token = $1`,
+    [trackingToken]
+  );
+  if (!result.rows[0]) return null;
+  const url = extractCampaignLinks(result.rows[0].templateBody)[linkIndex];
+  if (!url) return null;
+
+  await query(
+    `UPDATE pickle_campaign_sends
+        SET clicked_at = COALESCE(clicked_at, NOW()), click_count = click_count + 1,
+            opened_at = COALESCE(opened_at, NOW())
+      WHERE tracking_token = $1`,
+    [trackingToken]
+  );
+  return url;
+}
+
+export interface CampaignVariantEngagement {
+  variant: number;
+  subject: string;
+  sent: number;
+  opened: number;
+  clicked: number;
+}
+
+/** Email sends, opens and clicks per subject variant (a single row without an A/B test). */
+export async function getCampaignEngagement(
+  orgId: string,
+  campaignId: string
+): Promise<CampaignVariantEngagement[]> {
+  const campaign = await getCampaign(orgId, campaignId);
+  if (!campaign) throw new Error('Campaign not found');
+
+  const result = await query(
+    `SELECT COALESCE(subject_variant, 0)::int AS variant,
+            COUNT(*) FILTER (WHERE status = 'sent')::int AS sent,
+            COUNT(opened_at)::int AS opened,
+            COUNT(clicked_at)::int AS clicked
+       FROM pickle_campaign_sends
+      WHERE campaign_id = $1 AND channel = 'email'
+      GROUP BY 1`,
+    [campaignId]
+  );
+  const byVariant = new Map<number, { sent: number; opened: number; clicked: number }>(
+    result.rows.map((row: { variant: number; sent: number; opened: number; clicked: number }) => [row.variant, row])
+  );
+  const variantCount = Math.max(campaign.subjectVariants.length, 1);
+  return Array.from({ length: variantCount }, (_, variant) => ({
+    variant,
+    subject: campaign.subjectVariants[variant] ?? campaign.name,
+    sent: byVariant.get(variant)?.sent ?? 0,
+    opened: byVariant.get(variant)?.opened ?? 0,
+    clicked: byVariant.get(variant)?.clicked ?? 0,
+  }));
+}
+
 export async function updateCampaignStatus(
   orgId: string,
   campaignId: string,
@@ -354,9 +1008,7 @@ export async function updateCampaignStatus(
   const result = await query(
     `UPDATE pickle_campaigns SET status = $3, updated_at = NOW()
      WHERE org_id = $1 AND id = $2
-     RETURNING id, org_id as "orgId", name, segment_filter as "segmentFilter",
-               channel, template_body as "templateBody", status,
-               created_at as "createdAt", updated_at as "updatedAt"`,
+     RETURNING ${CAMPAIGN_COLUMNS}`,
     [orgId, campaignId, status]
   );
   return result.rows[0] ? mapCampaign(result.rows[0]) : null;
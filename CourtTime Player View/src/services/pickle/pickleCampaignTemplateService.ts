@@ -0,0 +1,143 @@
+/**
+ * CourtTime-Pickle campaign templating: per-recipient merge fields, the
+ * campaign email's HTML (with open pixel and click-through links when
+ * tracked), and A/B subject assignment.
+ */
+
+import crypto from 'crypto';
+import { renderTemplate, wrapInEmailLayout } from '../emailTemplateDefaults';
+import { getMemberSubscription } from './pickleMembershipService';
+import { getVisitCount } from './picklePlayerProfileService';
+
+export const CAMPAIGN_MERGE_FIELDS = ['firstName', 'homeFacility', 'visitCount', 'membershipTier'] as const;
+
+export type CampaignMergeField = (typeof CAMPAIGN_MERGE_FIELDS)[number];
+export type CampaignMergeValues = Record<CampaignMergeField, string>;
+
+/** Stand-ins for previewing a campaign whose segment has nobody in it yet. */
+export const SAMPLE_MERGE_VALUES: CampaignMergeValues = {
+  firstName: 'Alex',
+  homeFacility: 'Downtown Pickleball Club',
+  visitCount: '12',
+  membershipTier: 'Unlimited',
+};
+
+const MERGE_FIELD_PATTERN = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+const LINK_PATTERN = /https?:\/\/[^\s<>"']+/g;
+
+function trackingBaseUrl(): string {
+  return `${(process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '')}/api/campaign-tracking`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Merge fields in the text that aren't one of CAMPAIGN_MERGE_FIELDS. */
+export function findUnknownMergeFields(text: string): string[] {
+  const unknown = new Set<string>();
+  for (const match of text.matchAll(MERGE_FIELD_PATTERN)) {
+    if (!(CAMPAIGN_MERGE_FIELDS as readonly string[]).includes(match[1])) unknown.add(match[1]);
+  }
+  return [...unknown];
+}
+
+export function hasMergeFields(text: string): boolean {
+  return new RegExp(MERGE_FIELD_PATTERN.source).test(text);
+}
+
+export function renderMergeFields(text: string, values: CampaignMergeValues): string {
+  return renderTemplate(text.replace(MERGE_FIELD_PATTERN, '{{$1}}'), values);
+}
+
+export async function resolveMergeFields(
+  orgId: string,
+  recipient: { userId: string; fullName: string | null }
+): Promise<CampaignMergeValues> {
+  const [subscription, visitCount] = await Promise.all([
+    getMemberSubscription(recipient.userId, orgId),
+    getVisitCount(recipient.userId, orgId),
+  ]);
+  return {
+    firstName: (recipient.fullName || '').trim().split(/\s+/)[0] || 'there',
+    homeFacility: subscription?.homeFacilityName ?? '',
+    visitCount: String(visitCount),
+    membershipTier: subscription?.product?.name ?? '',
+  };
+}
+
+/**
+ * The links a campaign body tracks, in order. Links built from merge fields
+ * differ per recipient, so they go out untracked.
+ */
+export function extractCampaignLinks(templateBody: string): string[] {
+  const links: string[] = [];
+  for (const match of templateBody.matchAll(LINK_PATTERN)) {
+    const url = match[0].replace(/[.,;:!?)]+$/, '');
+    if (!url.includes('{{') && !links.includes(url)) links.push(url);
+  }
+  return links;
+}
+
+export function generateTrackingToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+/**
+ * Which subject line a recipient gets. Hashing the user id keeps a player on
+ * the same variant if a batch is retried.
+ */
+export function pickSubjectVariant(userId: string, variantCount: number): number {
+  if (variantCount <= 1) return 0;
+  return crypto.createHash('sha1').update(userId).digest().readUInt32BE(0) % variantCount;
+}
+
+export interface CampaignEmailInput {
+  templateBody: string;
+  /** Null when the template has no merge fields to fill. */
+  values: CampaignMergeValues | null;
+  orgName: string;
+  fullName: string;
+  /** Omit for previews: links stay as typed and there's no open pixel. */
+  trackingToken?: string | null;
+}
+
+/**
+ * Campaign email HTML: the admin's plain text with merge fields filled in
+ * and escaped, line breaks kept, links made clickable (through the
+ * click-through redirect when tracked), in the standard email layout.
+ */
+export function renderCampaignEmailHtml(input: CampaignEmailInput): string {
+  const trackedLinks = extractCampaignLinks(input.templateBody);
+  const base = trackingBaseUrl();
+  const text = input.values ? renderMergeFields(input.templateBody, input.values) : input.templateBody;
+
+  let html = '';
+  let last = 0;
+  for (const match of text.matchAll(LINK_PATTERN)) {
+    const url = match[0].replace(/[.,;:!?)]+$/, '');
+    const start = match.index ?? 0;
+    const linkIndex = trackedLinks.indexOf(url);
+    const href = input.trackingToken && linkIndex >= 0
+      ? `${base}/click/${input.trackingToken}/${linkIndex}`
+      : url;
+    html += escapeHtml(text.slice(last, start));
+    html += `<a href="${escapeHtml(href)}" style="color: #16a34a;">${escapeHtml(url)}</a>`;
+    last = start + url.length;
+  }
+  html += escapeHtml(text.slice(last));
+
+  const pixel = input.trackingToken
+    ? `<img src="${base}/open/${input.trackingToken}" width="1" height="1" alt="" style="display: block; border: 0;" />`
+    : '';
+  const bodyContent = `
+    <p style="color: #374151; margin-top: 0;">Hi ${escapeHtml(input.fullName)},</p>
+    <div style="color: #374151; line-height: 1.6;">${html.replace(/\n/g, '<br>')}</div>
+    ${pixel}
+  `;
+  return wrapInEmailLayout(bodyContent, escapeHtml(input.orgName));
+}
@@ -628,7 +628,8 @@ export async function getFacilityOrgId(facilityId: string): Promise<string | nul
 
 export interface FacilityMemberWithTier {
   userId: string;
-  email: string;
+  /** Null for dependents, who have no login of their own. */
+  email: string | null;
   fullName: string;
   membershipStatus: string;
   membershipType: string;
@@ -16,6 +16,9 @@ export interface PicklePlayerProfile {
   preferredPrograms: string[];
   availabilityJson: Record<string, unknown>;
   equipmentBrands: Record<string, unknown>;
+  /** Org marketing campaigns by push / by SMS (see pickleCampaignService). */
+  campaignPushConsent: boolean;
+  campaignSmsConsent: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -30,6 +33,8 @@ export interface UpsertPickleProfileInput {
   preferredPrograms?: string[];
   availabilityJson?: Record<string, unknown>;
   equipmentBrands?: Record<string, unknown>;
+  campaignPushConsent?: boolean;
+  campaignSmsConsent?: boolean;
 }
 
 export type VisitType =
@@ -65,6 +70,8 @@ function mapProfile(row: Record<string, unknown>): PicklePlayerProfile {
     preferredPrograms: (row.preferredPrograms as string[]) || [],
     availabilityJson: (row.availabilityJson as Record<string, unknown>) || {},
     equipmentBrands: (row.equipmentBrands as Record<string, unknown>) || {},
+    campaignPushConsent: row.campaignPushConsent !== false,
+    campaignSmsConsent: row.campaignSmsConsent === true,
     createdAt: row.createdAt as string,
     updatedAt: row.updatedAt as string,
   };
@@ -94,6 +101,7 @@ export async function getPickleProfile(
               primary_goals as "primaryGoals", preferred_formats as "preferredFormats",
               preferred_programs as "preferredPrograms",
               availability_json as "availabilityJson", equipment_brands as "equipmentBrands",
+              campaign_push_consent as "campaignPushConsent", campaign_sms_consent as "campaignSmsConsent",
               created_at as "createdAt", updated_at as "updatedAt"
        FROM pickle_player_profiles
        WHERE user_id = $1 AND org_id = $2`,
@@ -108,6 +116,7 @@ export async function getPickleProfile(
             primary_goals as "primaryGoals", preferred_formats as "preferredFormats",
             preferred_programs as "preferredPrograms",
             availability_json as "availabilityJson", equipment_brands as "equipmentBrands",
+            campaign_push_consent as "campaignPushConsent", campaign_sms_consent as "campaignSmsConsent",
             created_at as "createdAt", updated_at as "updatedAt"
      FROM pickle_player_profiles
      WHERE user_id = $1 AND org_id IS NULL`,
@@ -130,6 +139,8 @@ export async function upsertPickleProfile(input: UpsertPickleProfileInput): Prom
          preferred_programs = COALESCE($7, preferred_programs),
          availability_json = COALESCE($8::jsonb, availability_json),
          equipment_brands = COALESCE($9::jsonb, equipment_brands),
+         campaign_push_consent = COALESCE($10, campaign_push_consent),
+         campaign_sms_consent = COALESCE($11, campaign_sms_consent),
          updated_at = NOW()
        WHERE id = $1 AND user_id = $2
        RETURNING id, user_id as "userId", org_id as "orgId",
@@ -137,6 +148,7 @@ export async function upsertPickleProfile(input: UpsertPickleProfileInput): Prom
                  primary_goals as "primaryGoals", preferred_formats as "preferredFormats",
                  preferred_programs as "preferredPrograms",
                  availability_json as "availabilityJson", equipment_brands as "equipmentBrands",
+                 campaign_push_consent as "campaignPushConsent", campaign_sms_consent as "campaignSmsConsent",
                  created_at as "createdAt", updated_at as "updatedAt"`,
       [
         existing.id,
@@ -148,6 +160,8 @@ export async function upsertPickleProfile(input: UpsertPickleProfileInput): Prom
         input.preferredPrograms ?? null,
         input.availabilityJson != null ? JSON.stringify(input.availabilityJson) : null,
         input.equipmentBrands != null ? JSON.stringify(input.equipmentBrands) : null,
+        input.campaignPushConsent ?? null,
+        input.campaignSmsConsent ?? null,
       ]
     );
     return mapProfile(result.rows[0]);
@@ -157,13 +171,14 @@ export async function upsertPickleProfile(input: UpsertPickleProfileInput): Prom
     `INSERT INTO pickle_player_profiles (
        user_id, org_id, dupr_rating, birthdate,
        primary_goals, preferred_formats, preferred_programs,
-       availability_json, equipment_brands
-     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb, $9::jsonb)
+       availability_json, equipment_brands, campaign_push_consent, campaign_sms_consent
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb, $9::jsonb, $10, $11)
      RETURNING id, user_id as "userId", org_id as "orgId",
                dupr_rating as "duprRating", birthdate,
                primary_goals as "primaryGoals", preferred_formats as "preferredFormats",
                preferred_programs as "preferredPrograms",
                availability_json as "availabilityJson", equipment_brands as "equipmentBrands",
+               campaign_push_consent as "campaignPushConsent", campaign_sms_consent as "campaignSmsConsent",
                created_at as "createdAt", updated_at as "updatedAt"`,
     [
       input.userId,
@@ -175,6 +190,8 @@ export async function upsertPickleProfile(input: UpsertPickleProfileInput): Prom
       input.preferredPrograms ?? [],
       JSON.stringify(input.availabilityJson ?? {}),
       JSON.stringify(input.equipmentBrands ?? {}),
+      input.campaignPushConsent ?? true,
+      input.campaignSmsConsent ?? false,
     ]
   );
   return mapProfile(result.rows[0]);
@@ -255,6 +272,7 @@ export async function listOrgPlayerProfiles(
             p.primary_goals as "primaryGoals", p.preferred_formats as "preferredFormats",
             p.preferred_programs as "preferredPrograms",
             p.availability_json as "availabilityJson", p.equipment_brands as "equipmentBrands",
+            p.campaign_push_consent as "campaignPushConsent", p.campaign_sms_consent as "campaignSmsConsent",
             p.created_at as "createdAt", p.updated_at as "updatedAt",
             u.full_name as "fullName", u.email
      FROM pickle_player_profiles p
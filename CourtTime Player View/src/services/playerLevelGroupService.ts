@@ -34,6 +34,8 @@ export interface LevelGroupMember {
   /** Self-reported skill level from the player's profile, when they've set one. */
   skillLevel: string | null;
   isFacilityAdmin: boolean;
+  /** Club rating from confirmed match results (clubRatingService), when they have one. */
+  clubRating: number | null;
 }
 
 export interface LevelGroup {
@@ -99,6 +101,7 @@ export async function getBoard(facilityId: string): Promise<LevelGroupBoard> {
        u.full_name as "fullName",
        pp.skill_level as "skillLevel",
        (fa.user_id IS NOT NULL) as "isFacilityAdmin",
+       cr.rating::float as "clubRating",
        plgm.group_id as "groupId",
        plgm.sort_position as "memberSortPosition"
      FROM facility_memberships fm
@@ -106,6 +109,8 @@ export async function getBoard(facilityId: string): Promise<LevelGroupBoard> {
      LEFT JOIN player_profiles pp ON pp.user_id = u.id
      LEFT JOIN facility_admins fa
        ON fa.user_id = fm.user_id AND fa.facility_id = fm.facility_id AND fa.status = 'active'
+     LEFT JOIN club_ratings cr
+       ON cr.user_id = fm.user_id AND cr.facility_id = fm.facility_id AND cr.matches_played > 0
      LEFT JOIN player_level_group_members plgm
        ON plgm.user_id = fm.user_id AND plgm.facility_id = fm.facility_id
      WHERE fm.facility_id = $1 AND fm.status = 'active'
@@ -122,6 +127,7 @@ export async function getBoard(facilityId: string): Promise<LevelGroupBoard> {
       fullName: row.fullName,
       skillLevel: row.skillLevel ?? null,
       isFacilityAdmin: row.isFacilityAdmin === true,
+      clubRating: row.clubRating ?? null,
     };
     if (row.groupId) {
       const bucket = membersByGroup.get(row.groupId);
@@ -143,6 +149,67 @@ export async function getBoard(facilityId: string): Promise<LevelGroupBoard> {
   return { groups, unassigned };
 }
 
+export interface LevelSuggestion {
+  userId: string;
+  fullName: string;
+  clubRating: number;
+  fromGroupId: string | null;
+  toGroupId: string;
+}
+
+/**
+ * Proposes tiers from club ratings: rated members are ranked and dealt into
+ * the ladder top-down, each tier taking a share proportional to its current
+ * size (an even split when every tier is empty). Only members whose tier
+ * would change are returned; unrated members are left where they are.
+ */
+export function suggestLevelsByRating(board: LevelGroupBoard): LevelSuggestion[] {
+  if (board.groups.length === 0) return [];
+
+  const rated = [
+    ...board.groups.flatMap((group) => group.members.map((member) => ({ member, groupId: group.id as string | null }))),
+    ...board.unassigned.map((member) => ({ member, groupId: null as string | null })),
+  ]
+    .filter(({ member }) => member.clubRating != null)
+    .sort((a, b) => b.member.clubRating! - a.member.clubRating! || a.member.fullName.localeCompare(b.member.fullName));
+
+  // Largest-remainder apportionment of the rated members across tiers.
+  const sizes = board.groups.map((group) => group.members.length);
+  const total = sizes.reduce((sum, size) => sum + size, 0);
+  const weights = total === 0 ? sizes.map(() => 1) : sizes;
+  const weightTotal = weights.reduce((sum, w) => sum + w, 0);
+  const exact = weights.map((w) => (rated.length * w) / weightTotal);
+  const quotas = exact.map(Math.floor);
+  let left = rated.length - quotas.reduce((sum, q) => sum + q, 0);
+  exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .forEach(({ index }) => {
+      if (left > 0) {
+        quotas[index] += 1;
+        left -= 1;
+      }
+    });
+
+  const suggestions: LevelSuggestion[] = [];
+  let next = 0;
+  board.groups.forEach((group, index) => {
+    for (const { member, groupId } of rated.slice(next, next + quotas[index])) {
+      if (groupId !== group.id) {
+        suggestions.push({
+          userId: member.userId,
+          fullName: member.fullName,
+          clubRating: member.clubRating!,
+          fromGroupId: groupId,
+          toGroupId: group.id,
+        });
+      }
+    }
+    next += quotas[index];
+  });
+  return suggestions;
+}
+
 /** Creates a tier at the bottom of the ladder. */
 export async function createGroup(
   facilityId: string,
@@ -0,0 +1,730 @@
+/**
+ * Pro Shop Inventory Service
+ * Product variants (size / color / grip size), the stock movement ledger,
+ * returns, and low-stock alerts to facility admins.
+ *
+ * Stock lives on the variant when a product has variants and on the product
+ * otherwise; NULL stock means untracked. Every change goes through
+ * applyStockMovement so the ledger and the stock columns never disagree.
+ */
+
+import type { PoolClient } from 'pg';
+import { query, transaction } from '../database/connection';
+import { notificationService } from './notificationService';
+
+export class ProShopInventoryError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ProShopInventoryError';
+  }
+}
+
+export type InventoryMovementType = 'sale' | 'restock' | 'adjustment' | 'return';
+
+export interface SaleItemInput {
+  product_id: string;
+  variant_id?: string | null;
+  quantity: number;
+}
+
+export interface SaleLineItem {
+  product_id: string;
+  variant_id: string | null;
+  quantity: number;
+  price_cents: number;
+  /** Product name, with the variant label appended when there is one */
+  name: string;
+}
+
+export interface VariantOptions {
+  size?: string | null;
+  color?: string | null;
+  grip_size?: string | null;
+}
+
+export interface StockRef {
+  productId: string;
+  variantId: string | null;
+}
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+/** "M / Navy / Grip 3" — the variant's options in a fixed order. */
+export function variantLabel(variant: VariantOptions): string {
+  return [variant.size, variant.color, variant.grip_size ? `Grip ${variant.grip_size}` : null]
+    .filter((part): part is string => !!part && part.trim() !== '')
+    .join(' / ');
+}
+
+function cleanOption(value: unknown, field: string): string | null {
+  if (value == null) return null;
+  if (typeof value !== 'string') throw new ProShopInventoryError(`${field} must be a string`);
+  const trimmed = value.trim();
+  if (trimmed.length > 30) throw new ProShopInventoryError(`${field} must be 30 characters or fewer`);
+  return trimmed || null;
+}
+
+function cleanCount(value: unknown, field: string): number | null {
+  if (value == null || value === '') return null;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw new ProShopInventoryError(`${field} must be a whole number of 0 or more`);
+  return n;
+}
+
+// ── Sale items ─────────────────────────────────────────────
+
+/**
+ * Prices and validates a cart. Products that have active variants must be
+ * bought by variant; stock is checked against the summed quantity of each
+ * product / variant across the cart.
+ */
+export async function resolveSaleItems(
+  facilityId: string,
+  items: SaleItemInput[],
+  options: { activeOnly?: boolean } = {}
+): Promise<SaleLineItem[]> {
+  const activeOnly = options.activeOnly ?? true;
+  for (const item of items) {
+    if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      throw new ProShopInventoryError('Quantities must be whole numbers of 1 or more');
+    }
+  }
+
+  const productIds = [...new Set(items.map(i => i.product_id))];
+  const productsResult = await query(
+    `SELECT id, name, price_cents, stock_quantity FROM pro_shop_products
+     WHERE id = ANY($1::uuid[]) AND facility_id = $2 ${activeOnly ? 'AND is_active = true' : ''}`,
+    [productIds, facilityId]
+  );
+  const productMap = new Map<string, any>(productsResult.rows.map((p: any) => [p.id, p]));
+
+  const variantsResult = await query(
+    `SELECT id, product_id, size, color, grip_size, stock_quantity, is_active
+     FROM pro_shop_product_variants
+     WHERE product_id = ANY($1::uuid[])`,
+    [productIds]
+  );
+  const variantMap = new Map<string, any>(variantsResult.rows.map((v: any) => [v.id, v]));
+  const productsWithVariants = new Set(
+    variantsResult.rows.filter((v: any) => v.is_active).map((v: any) => v.product_id as string)
+  );
+
+  const lineItems: SaleLineItem[] = [];
+  const requested = new Map<string, { stock: number | null; quantity: number; name: string }>();
+
+  for (const item of items) {
+    const product = productMap.get(item.product_id);
+    if (!product) throw new ProShopInventoryError(`Product ${item.product_id} not found or not available`);
+
+    let variant: any = null;
+    if (item.variant_id) {
+      variant = variantMap.get(item.variant_id);
+      if (!variant || variant.product_id !== product.id || (activeOnly && !variant.is_active)) {
+        throw new ProShopInventoryError(`That option of "${product.name}" is not available`);
+      }
+    } else if (productsWithVariants.has(product.id)) {
+      throw new ProShopInventoryError(`Choose a size or color for "${product.name}"`);
+    }
+
+    const name = variant ? `${product.name} (${variantLabel(variant)})` : product.name;
+    const key = variant ? `v:${variant.id}` : `p:${product.id}`;
+    const entry = requested.get(key) ?? {
+      stock: variant ? variant.stock_quantity : product.stock_quantity,
+      quantity: 0,
+      name,
+    };
+    entry.quantity += item.quantity;
+    requested.set(key, entry);
+
+    lineItems.push({
+      product_id: product.id,
+      variant_id: variant?.id ?? null,
+      quantity: item.quantity,
+      price_cents: product.price_cents,
+      name,
+    });
+  }
+
+  for (const entry of requested.values()) {
+    if (entry.stock !== null && entry.stock < entry.quantity) {
+      throw new ProShopInventoryError(`Insufficient stock for "${entry.name}"`);
+    }
+  }
+
+  return lineItems;
+}
+
+// ── Ledger ─────────────────────────────────────────────────
+
+/**
+ * Moves stock on a variant (or a product without variants) and writes the
+ * ledger row. Stock never goes below zero; an untracked item still gets a
+ * ledger row with a NULL stock_after. Crossing back above the low-stock
+ * threshold re-arms the alert. Returns the new stock level.
+ */
+export async function applyStockMovement(
+  client: Queryable,
+  movement: {
+    facilityId: string;
+    productId: string;
+    variantId?: string | null;
+    movementType: InventoryMovementType;
+    quantityChange: number;
+    orderId?: string | null;
+    note?: string | null;
+    actorId?: string | null;
+  }
+): Promise<number | null> {
+  const updated = movement.variantId
+    ? await client.query(
+        `UPDATE pro_shop_product_variants v
+         SET stock_quantity = GREATEST(0, v.stock_quantity + $2),
+             low_stock_alerted_at = CASE
+               WHEN GREATEST(0, v.stock_quantity + $2) > COALESCE(v.low_stock_threshold, p.low_stock_threshold, -1)
+               THEN NULL ELSE v.low_stock_alerted_at END
+         FROM pro_shop_products p
+         WHERE v.id = $1 AND p.id = v.product_id AND v.stock_quantity IS NOT NULL
+         RETURNING v.stock_quantity`,
+        [movement.variantId, movement.quantityChange]
+      )
+    : await client.query(
+        `UPDATE pro_shop_products
+         SET stock_quantity = GREATEST(0, stock_quantity + $2),
+             low_stock_alerted_at = CASE
+               WHEN GREATEST(0, stock_quantity + $2) > COALESCE(low_stock_threshold, -1)
+               THEN NULL ELSE low_stock_alerted_at END,
+             updated_at = NOW()
+         WHERE id = $1 AND stock_quantity IS NOT NULL
+         RETURNING stock_quantity`,
+        [movement.productId, movement.quantityChange]
+      );
+  const stockAfter: number | null = updated.rows[0]?.stock_quantity ?? null;
+
+  await client.query(
+    `INSERT INTO pro_shop_inventory_movements
+       (facility_id, product_id, variant_id, movement_type, quantity_change, stock_after, order_id, note, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+    [
+      movement.facilityId,
+      movement.productId,
+      movement.variantId ?? null,
+      movement.movementType,
+      movement.quantityChange,
+      stockAfter,
+      movement.orderId ?? null,
+      movement.note ?? null,
+      movement.actorId ?? null,
+    ]
+  );
+
+  return stockAfter;
+}
+
+/** One 'sale' movement per line item, inside the caller's order transaction. */
+export async function recordSaleMovements(
+  client: Queryable,
+  facilityId: string,
+  orderId: string | null,
+  items: { product_id: string; variant_id?: string | null; quantity: number }[],
+  actorId: string | null
+): Promise<StockRef[]> {
+  for (const item of items) {
+    await applyStockMovement(client, {
+      facilityId,
+      productId: item.product_id,
+      variantId: item.variant_id ?? null,
+      movementType: 'sale',
+      quantityChange: -item.quantity,
+      orderId,
+      actorId,
+    });
+  }
+  return items.map(i => ({ productId: i.product_id, variantId: i.variant_id ?? null }));
+}
+
+async function loadStockTarget(client: Queryable, facilityId: string, ref: StockRef) {
+  const result = ref.variantId
+    ? await client.query(
+        `SELECT v.stock_quantity FROM pro_shop_product_variants v
+         WHERE v.id = $1 AND v.product_id = $2 AND v.facility_id = $3
+         FOR UPDATE`,
+        [ref.variantId, ref.productId, facilityId]
+      )
+    : await client.query(
+        `SELECT p.stock_quantity,
+                EXISTS (SELECT 1 FROM pro_shop_product_variants v WHERE v.product_id = p.id AND v.is_active) AS has_variants
+         FROM pro_shop_products p
+         WHERE p.id = $1 AND p.facility_id = $2
+         FOR UPDATE OF p`,
+        [ref.productId, facilityId]
+      );
+  if (result.rows.length === 0) throw new ProShopInventoryError('Product not found', 404);
+  return result.rows[0] as { stock_quantity: number | null; has_variants?: boolean };
+}
+
+const VARIANT_STOCK_MESSAGE = 'This product has variants; restock or count a specific variant';
+
+/** Adds received units to a tracked product or variant. */
+export async function restockItem(
+  facilityId: string,
+  ref: StockRef,
+  quantity: number,
+  actorId: string,
+  note?: string | null
+): Promise<number | null> {
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new ProShopInventoryError('Restock quantity must be a whole number of 1 or more');
+  }
+  return transaction(async (client) => {
+    const target = await loadStockTarget(client, facilityId, ref);
+    if (target.has_variants) throw new ProShopInventoryError(VARIANT_STOCK_MESSAGE);
+    if (target.stock_quantity === null) {
+      throw new ProShopInventoryError('Stock is not tracked for this item; set a counted quantity first');
+    }
+    return applyStockMovement(client, {
+      facilityId,
+      productId: ref.productId,
+      variantId: ref.variantId,
+      movementType: 'restock',
+      quantityChange: quantity,
+      note: note?.trim() || null,
+      actorId,
+    });
+  });
+}
+
+/**
+ * Sets the stock to a counted quantity (or NULL to stop tracking) and logs
+ * the difference as an adjustment.
+ */
+export async function setStockLevel(
+  client: Queryable,
+  facilityId: string,
+  ref: StockRef,
+  count: number | null,
+  actorId: string | null,
+  note?: string | null
+): Promise<void> {
+  const target = await loadStockTarget(client, facilityId, ref);
+  const previous = target.stock_quantity;
+  if (previous === count) return;
+  if (target.has_variants) throw new ProShopInventoryError(VARIANT_STOCK_MESSAGE);
+
+  if (ref.variantId) {
+    await client.query(
+      `UPDATE pro_shop_product_variants SET stock_quantity = $2, low_stock_alerted_at = NULL WHERE id = $1`,
+      [ref.variantId, count]
+    );
+  } else {
+    await client.query(
+      `UPDATE pro_shop_products SET stock_quantity = $2, low_stock_alerted_at = NULL, updated_at = NOW() WHERE id = $1`,
+      [ref.productId, count]
+    );
+  }
+
+  await client.query(
+    `INSERT INTO pro_shop_inventory_movements
+       (facility_id, product_id, variant_id, movement_type, quantity_change, stock_after, note, created_by)
+     VALUES ($1, $2, $3, 'adjustment', $4, $5, $6, $7)`,
+    [
+      facilityId,
+      ref.productId,
+      ref.variantId,
+      (count ?? 0) - (previous ?? 0),
+      count,
+      note?.trim() || (count === null ? 'Stopped tracking stock' : null),
+      actorId,
+    ]
+  );
+}
+
+export async function adjustStock(
+  facilityId: string,
+  ref: StockRef,
+  count: unknown,
+  actorId: string,
+  note?: string | null
+): Promise<number | null> {
+  const counted = cleanCount(count, 'count');
+  await transaction((client) => setStockLevel(client, facilityId, ref, counted, actorId, note));
+  await checkLowStock(facilityId, [ref]);
+  return counted;
+}
+
+export async function getInventoryLedger(
+  facilityId: string,
+  filters: { productId?: string; limit?: number } = {}
+) {
+  const limit = Math.min(Math.max(filters.limit ?? 200, 1), 1000);
+  const result = await query(
+    `SELECT m.id, m.movement_type, m.quantity_change, m.stock_after, m.order_id, m.note, m.created_at,
+            m.product_id, p.name AS product_name,
+            m.variant_id, v.size, v.color, v.grip_size,
+            u.full_name AS created_by_name
+     FROM pro_shop_inventory_movements m
+     JOIN pro_shop_products p ON p.id = m.product_id
+     LEFT JOIN pro_shop_product_variants v ON v.id = m.variant_id
+     LEFT JOIN users u ON u.id = m.created_by
+     WHERE m.facility_id = $1 AND ($2::uuid IS NULL OR m.product_id = $2)
+     ORDER BY m.created_at DESC
+     LIMIT $3`,
+    [facilityId, filters.productId ?? null, limit]
+  );
+  return result.rows.map((row: any) => {
+    const { size, color, grip_size, ...rest } = row;
+    return { ...rest, variant_label: row.variant_id ? variantLabel({ size, color, grip_size }) : null };
+  });
+}
+
+// ── Variants ───────────────────────────────────────────────
+
+export async function createVariant(
+  facilityId: string,
+  productId: string,
+  data: VariantOptions & { sku?: string | null; stock_quantity?: unknown; low_stock_threshold?: unknown },
+  actorId: string
+) {
+  const size = cleanOption(data.size, 'size');
+  const color = cleanOption(data.color, 'color');
+  const gripSize = cleanOption(data.grip_size, 'grip_size');
+  if (!size && !color && !gripSize) {
+    throw new ProShopInventoryError('A variant needs a size, color, or grip size');
+  }
+  const stock = cleanCount(data.stock_quantity, 'stock_quantity');
+  const threshold = cleanCount(data.low_stock_threshold, 'low_stock_threshold');
+
+  return transaction(async (client) => {
+    const product = await client.query(
+      `SELECT id FROM pro_shop_products WHERE id = $1 AND facility_id = $2`,
+      [productId, facilityId]
+    );
+    if (product.rows.length === 0) throw new ProShopInventoryError('Product not found', 404);
+
+    const duplicate = await client.query(
+      `SELECT 1 FROM pro_shop_product_variants
+       WHERE product_id = $1 AND COALESCE(size, '') = COALESCE($2, '')
+         AND COALESCE(color, '') = COALESCE($3, '') AND COALESCE(grip_size, '') = COALESCE($4, '')`,
+      [productId, size, color, gripSize]
+    );
+    if (duplicate.rows.length > 0) throw new ProShopInventoryError('This product already has that variant', 409);
+
+    const inserted = await client.query(
+      `INSERT INTO pro_shop_product_variants
+         (product_id, facility_id, size, color, grip_size, sku, stock_quantity, low_stock_threshold)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [productId, facilityId, size, color, gripSize, data.sku?.trim() || null, stock, threshold]
+    );
+    const variant = inserted.rows[0];
+
+    if (stock !== null && stock > 0) {
+      await client.query(
+        `INSERT INTO pro_shop_inventory_movements
+           (facility_id, product_id, variant_id, movement_type, quantity_change, stock_after, note, created_by)
+         VALUES ($1, $2, $3, 'adjustment', $4, $4, 'Opening stock', $5)`,
+        [facilityId, productId, variant.id, stock, actorId]
+      );
+    }
+    return variant;
+  });
+}
+
+/**
+ * Edits a variant's options, SKU, threshold and active flag. A stock_quantity
+ * in the payload is treated as a counted adjustment.
+ */
+export async function updateVariant(
+  facilityId: string,
+  variantId: string,
+  data: VariantOptions & {
+    sku?: string | null;
+    stock_quantity?: unknown;
+    low_stock_threshold?: unknown;
+    is_active?: boolean;
+  },
+  actorId: string
+) {
+  const fields: string[] = [];
+  const values: any[] = [];
+  let idx = 1;
+
+  if (data.size !== undefined)      { fields.push(`size = $${idx++}`);      values.push(cleanOption(data.size, 'size')); }
+  if (data.color !== undefined)     { fields.push(`color = $${idx++}`);     values.push(cleanOption(data.color, 'color')); }
+  if (data.grip_size !== undefined) { fields.push(`grip_size = $${idx++}`); values.push(cleanOption(data.grip_size, 'grip_size')); }
+  if (data.sku !== undefined)       { fields.push(`sku = $${idx++}`);       values.push(data.sku?.trim() || null); }
+  if (data.low_stock_threshold !== undefined) {
+    fields.push(`low_stock_threshold = $${idx++}`, 'low_stock_alerted_at = NULL');
+    values.push(cleanCount(data.low_stock_threshold, 'low_stock_threshold'));
+  }
+  if (data.is_active !== undefined) { fields.push(`is_active = $${idx++}`); values.push(!!data.is_active); }
+
+  const variant = await transaction(async (client) => {
+    const existing = await client.query(
+      `SELECT id, product_id FROM pro_shop_product_variants WHERE id = $1 AND facility_id = $2 FOR UPDATE`,
+      [variantId, facilityId]
+    );
+    if (existing.rows.length === 0) throw new ProShopInventoryError('Variant not found', 404);
+    const productId = existing.rows[0].product_id as string;
+
+    if (fields.length > 0) {
+      values.push(variantId);
+      const updated = await client.query(
+        `UPDATE pro_shop_product_variants SET ${fields.join(', ')} WHERE id = $${idx}
+         RETURNING size, color, grip_size`,
+        values
+      );
+      const row = updated.rows[0];
+      if (!row.size && !row.color && !row.grip_size) {
+        throw new ProShopInventoryError('A variant needs a size, color, or grip size');
+      }
+    }
+    if (data.stock_quantity !== undefined) {
+      await setStockLevel(
+        client,
+        facilityId,
+        { productId, variantId },
+        cleanCount(data.stock_quantity, 'stock_quantity'),
+        actorId
+      );
+    }
+
+    const result = await client.query(`SELECT * FROM pro_shop_product_variants WHERE id = $1`, [variantId]);
+    return result.rows[0];
+  }).catch((error: any) => {
+    if (error?.code === '23505') throw new ProShopInventoryError('This product already has that variant', 409);
+    throw error;
+  });
+
+  await checkLowStock(facilityId, [{ productId: variant.product_id, variantId }]);
+  return variant;
+}
+
+/** Deletes an unused variant; one with sales or tab history is deactivated instead. */
+export async function deleteVariant(
+  facilityId: string,
+  variantId: string
+): Promise<{ deleted: boolean; reason?: string }> {
+  const existing = await query(
+    `SELECT id FROM pro_shop_product_variants WHERE id = $1 AND facility_id = $2`,
+    [variantId, facilityId]
+  );
+  if (existing.rows.length === 0) throw new ProShopInventoryError('Variant not found', 404);
+
+  const used = await query(
+    `SELECT 1 FROM pro_shop_order_items WHERE variant_id = $1
+     UNION ALL
+     SELECT 1 FROM pro_shop_tab_items WHERE variant_id = $1
+     LIMIT 1`,
+    [variantId]
+  );
+  if (used.rows.length > 0) {
+    await query(`UPDATE pro_shop_product_variants SET is_active = false WHERE id = $1`, [variantId]);
+    return { deleted: false, reason: 'deactivated' };
+  }
+  await query(`DELETE FROM pro_shop_product_variants WHERE id = $1`, [variantId]);
+  return { deleted: true };
+}
+
+// ── Returns ────────────────────────────────────────────────
+
+/**
+ * Records units handed back on a paid order. Restocked units go back on the
+ * shelf with a 'return' movement; damaged ones (restock = false) are only
+ * marked returned. The value of the returned units is reported so the admin
+ * can settle it — card refunds still go through the payments screen.
+ */
+export async function returnOrderItems(
+  facilityId: string,
+  orderId: string,
+  items: { order_item_id: string; quantity: number }[],
+  options: { restock: boolean; actorId: string; note?: string | null }
+): Promise<{ returnedUnits: number; returnedCents: number }> {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new ProShopInventoryError('items must be a non-empty array');
+  }
+  for (const item of items) {
+    if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      throw new ProShopInventoryError('Return quantities must be whole numbers of 1 or more');
+    }
+  }
+
+  const result = await transaction(async (client) => {
+    const order = await client.query(
+      `SELECT status FROM pro_shop_orders WHERE id = $1 AND facility_id = $2 FOR UPDATE`,
+      [orderId, facilityId]
+    );
+    if (order.rows.length === 0) throw new ProShopInventoryError('Order not found', 404);
+    if (order.rows[0].status !== 'paid') {
+      throw new ProShopInventoryError('Only paid orders can take returns');
+    }
+
+    const orderItems = await client.query(
+      `SELECT id, product_id, variant_id, quantity, returned_quantity, price_cents_at_purchase
+       FROM pro_shop_order_items WHERE order_id = $1`,
+      [orderId]
+    );
+    const itemMap = new Map<string, any>(orderItems.rows.map((i: any) => [i.id, i]));
+
+    let returnedUnits = 0;
+    let returnedCents = 0;
+    const touched: StockRef[] = [];
+    for (const item of items) {
+      const line = itemMap.get(item.order_item_id);
+      if (!line) throw new ProShopInventoryError('Item is not part of this order');
+      if (line.returned_quantity + item.quantity > line.quantity) {
+        throw new ProShopInventoryError(`Only ${line.quantity - line.returned_quantity} of that item can still be returned`);
+      }
+      line.returned_quantity += item.quantity;
+
+      await client.query(
+        `UPDATE pro_shop_order_items SET returned_quantity = returned_quantity + $2 WHERE id = $1`,
+        [line.id, item.quantity]
+      );
+      if (options.restock) {
+        await applyStockMovement(client, {
+          facilityId,
+          productId: line.product_id,
+          variantId: line.variant_id,
+          movementType: 'return',
+          quantityChange: item.quantity,
+          orderId,
+          note: options.note?.trim() || null,
+          actorId: options.actorId,
+        });
+        touched.push({ productId: line.product_id, variantId: line.variant_id });
+      }
+      returnedUnits += item.quantity;
+      returnedCents += item.quantity * line.price_cents_at_purchase;
+    }
+    return { returnedUnits, returnedCents };
+  });
+
+  console.log(`[ProShop] ${result.returnedUnits} unit(s) returned on order ${orderId}`);
+  return result;
+}
+
+/**
+ * Puts everything not already returned on a refunded order back in stock.
+ * Called once the refund has gone through.
+ */
+export async function restockRefundedOrder(orderId: string, actorId: string | null): Promise<void> {
+  await transaction(async (client) => {
+    const items = await client.query(
+      `SELECT oi.id, oi.product_id, oi.variant_id, oi.quantity - oi.returned_quantity AS outstanding, o.facility_id
+       FROM pro_shop_order_items oi
+       JOIN pro_shop_orders o ON o.id = oi.order_id
+       WHERE oi.order_id = $1 AND oi.returned_quantity < oi.quantity
+       FOR UPDATE OF oi`,
+      [orderId]
+    );
+    for (const item of items.rows) {
+      await client.query(`UPDATE pro_shop_order_items SET returned_quantity = quantity WHERE id = $1`, [item.id]);
+      await applyStockMovement(client, {
+        facilityId: item.facility_id,
+        productId: item.product_id,
+        variantId: item.variant_id,
+        movementType: 'return',
+        quantityChange: Number(item.outstanding),
+        orderId,
+        note: 'Order refunded',
+        actorId,
+      });
+    }
+  });
+}
+
+// ── Low stock ──────────────────────────────────────────────
+
+const LOW_STOCK_ITEMS_SQL = `
+  SELECT p.id AS product_id, NULL::uuid AS variant_id, p.name AS product_name,
+         NULL AS size, NULL AS color, NULL AS grip_size,
+         p.stock_quantity, p.low_stock_threshold AS threshold, p.low_stock_alerted_at AS alerted_at
+  FROM pro_shop_products p
+  WHERE p.facility_id = $1 AND p.is_active
+    AND p.stock_quantity IS NOT NULL AND p.low_stock_threshold IS NOT NULL
+    AND p.stock_quantity <= p.low_stock_threshold
+    AND NOT EXISTS (SELECT 1 FROM pro_shop_product_variants v WHERE v.product_id = p.id AND v.is_active)
+  UNION ALL
+  SELECT p.id, v.id, p.name, v.size, v.color, v.grip_size,
+         v.stock_quantity, COALESCE(v.low_stock_threshold, p.low_stock_threshold), v.low_stock_alerted_at
+  FROM pro_shop_product_variants v
+  JOIN pro_shop_products p ON p.id = v.product_id
+  WHERE v.facility_id = $1 AND v.is_active AND p.is_active
+    AND v.stock_quantity IS NOT NULL
+    AND COALESCE(v.low_stock_threshold, p.low_stock_threshold) IS NOT NULL
+    AND v.stock_quantity <= COALESCE(v.low_stock_threshold, p.low_stock_threshold)`;
+
+function toLowStockItem(row: any) {
+  return {
+    product_id: row.product_id as string,
+    variant_id: row.variant_id as string | null,
+    name: row.variant_id
+      ? `${row.product_name} (${variantLabel(row)})`
+      : (row.product_name as string),
+    stock_quantity: Number(row.stock_quantity),
+    threshold: Number(row.threshold),
+    alerted_at: row.alerted_at ?? null,
+  };
+}
+
+/** Everything at or below its low-stock threshold, emptiest first. */
+export async function getLowStockItems(facilityId: string) {
+  const result = await query(`${LOW_STOCK_ITEMS_SQL} ORDER BY 7, 3`, [facilityId]);
+  return result.rows.map(toLowStockItem);
+}
+
+/**
+ * Notifies the facility's admins about any of the given items that have just
+ * dropped to their threshold. Each item alerts once until it is restocked
+ * above the threshold; the alerted_at claim keeps concurrent sales from
+ * sending duplicates.
+ */
+export async function checkLowStock(facilityId: string, refs: StockRef[]): Promise<void> {
+  if (refs.length === 0) return;
+  const low = (await query(LOW_STOCK_ITEMS_SQL, [facilityId])).rows.filter((row: any) =>
+    !row.alerted_at &&
+    refs.some(r => r.productId === row.product_id && (r.variantId ?? null) === (row.variant_id ?? null))
+  );
+
+  const claimed: ReturnType<typeof toLowStockItem>[] = [];
+  for (const row of low) {
+    const claim = row.variant_id
+      ? await query(
+          `UPDATE pro_shop_product_variants SET low_stock_alerted_at = NOW()
+           WHERE id = $1 AND low_stock_alerted_at IS NULL RETURNING id`,
+          [row.variant_id]
+        )
+      : await query(
+          `UPDATE pro_shop_products SET low_stock_alerted_at = NOW()
+           WHERE id = $1 AND low_stock_alerted_at IS NULL RETURNING id`,
+          [row.product_id]
+        );
+    if (claim.rows.length > 0) claimed.push(toLowStockItem(row));
+  }
+  if (claimed.length === 0) return;
+
+  const admins = await query(
+    `SELECT DISTINCT fa.user_id FROM facility_admins fa
+     WHERE fa.facility_id = $1 AND fa.status = 'active' AND fa.user_id IS NOT NULL`,
+    [facilityId]
+  );
+  const message = claimed.length === 1
+    ? `${claimed[0].name} is down to ${claimed[0].stock_quantity} (alert at ${claimed[0].threshold}).`
+    : `${claimed.length} items are at or below their low-stock level: ${claimed.map(c => `${c.name} (${c.stock_quantity})`).join(', ')}.`;
+
+  for (const admin of admins.rows) {
+    try {
+      await notificationService.createNotification(admin.user_id, 'Pro Shop Low Stock', message, 'pro_shop_low_stock', {
+        actionUrl: `/admin/pro-shop?facilityId=${encodeURIComponent(facilityId)}&tab=inventory`,
+        pushData: { facilityId },
+      });
+    } catch (e) {
+      console.error('[ProShop] Failed to send low-stock notification:', e);
+    }
+  }
+}
+
+/** Fire-and-forget wrapper for sale paths: an alert failure never fails the sale. */
+export function queueLowStockCheck(facilityId: string, refs: StockRef[]): void {
+  checkLowStock(facilityId, refs).catch(err => console.error('[ProShop] Low-stock check failed:', err));
+}
@@ -1,5 +1,28 @@
 import Stripe from 'stripe';
+import { randomUUID } from 'crypto';
 import { query, getClient } from '../database/connection';
+import {
+  queueLowStockCheck,
+  recordSaleMovements,
+  resolveSaleItems,
+  setStockLevel,
+  type SaleItemInput,
+  type StockRef,
+} from './proShopInventoryService';
+import {
+  hasUsableCard,
+  missingCardMessage,
+  recordHouseholdCharge,
+  resolveBillingCard,
+  type BillingCard,
+} from './householdBillingService';
+import {
+  captureWalletHold,
+  payFromWallet,
+  reverseWalletPayment,
+  walletCheckoutDiscount,
+  walletCheckoutExpiry,
+} from './walletService';
 
 function getStripe(): Stripe | null {
   const key = process.env.STRIPE_SECRET_KEY;
@@ -15,10 +38,18 @@ function getBaseUrl(): string {
 
 export async function getActiveProducts(facilityId: string) {
   const result = await query(
-    `SELECT id, name, description, category, price_cents, stock_quantity, image_data, is_active, created_at
-     FROM pro_shop_products
-     WHERE facility_id = $1 AND is_active = true
-     ORDER BY category, name`,
+    `SELECT p.id, p.name, p.description, p.category, p.price_cents, p.stock_quantity, p.image_data, p.is_active, p.created_at,
+            COALESCE((
+              SELECT json_agg(json_build_object(
+                       'id', v.id, 'size', v.size, 'color', v.color, 'grip_size', v.grip_size,
+                       'stock_quantity', v.stock_quantity
+                     ) ORDER BY v.size, v.color, v.grip_size)
+              FROM pro_shop_product_variants v
+              WHERE v.product_id = p.id AND v.is_active
+            ), '[]'::json) AS variants
+     FROM pro_shop_products p
+     WHERE p.facility_id = $1 AND p.is_active = true
+     ORDER BY p.category, p.name`,
     [facilityId]
   );
   return result.rows;
@@ -26,10 +57,20 @@ export async function getActiveProducts(facilityId: string) {
 
 export async function getAllProducts(facilityId: string) {
   const result = await query(
-    `SELECT id, name, description, category, price_cents, stock_quantity, image_data, is_active, created_at, updated_at
-     FROM pro_shop_products
-     WHERE facility_id = $1
-     ORDER BY category, name`,
+    `SELECT p.id, p.name, p.description, p.category, p.price_cents, p.stock_quantity, p.low_stock_threshold,
+            p.image_data, p.is_active, p.created_at, p.updated_at,
+            COALESCE((
+              SELECT json_agg(json_build_object(
+                       'id', v.id, 'size', v.size, 'color', v.color, 'grip_size', v.grip_size, 'sku', v.sku,
+                       'stock_quantity', v.stock_quantity, 'low_stock_threshold', v.low_stock_threshold,
+                       'is_active', v.is_active
+                     ) ORDER BY v.size, v.color, v.grip_size)
+              FROM pro_shop_product_variants v
+              WHERE v.product_id = p.id
+            ), '[]'::json) AS variants
+     FROM pro_shop_products p
+     WHERE p.facility_id = $1
+     ORDER BY p.category, p.name`,
     [facilityId]
   );
   return result.rows;
@@ -41,37 +82,65 @@ export async function createProduct(facilityId: string, data: {
   category: string;
   price_cents: number;
   stock_quantity?: number | null;
+  low_stock_threshold?: number | null;
   image_data?: string | null;
   is_active?: boolean;
-}) {
-  const result = await query(
-    `INSERT INTO pro_shop_products
-       (facility_id, name, description, category, price_cents, stock_quantity, image_data, is_active)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-     RETURNING *`,
-    [
-      facilityId,
-      data.name,
-      data.description ?? null,
-      data.category,
-      data.price_cents,
-      data.stock_quantity ?? null,
-      data.image_data ?? null,
-      data.is_active ?? true,
-    ]
-  );
-  return result.rows[0];
+}, adminId: string | null = null) {
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    const result = await client.query(
+      `INSERT INTO pro_shop_products
+         (facility_id, name, description, category, price_cents, stock_quantity, low_stock_threshold, image_data, is_active)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      [
+        facilityId,
+        data.name,
+        data.description ?? null,
+        data.category,
+        data.price_cents,
+        data.stock_quantity ?? null,
+        data.low_stock_threshold ?? null,
+        data.image_data ?? null,
+        data.is_active ?? true,
+      ]
+    );
+    const product = result.rows[0];
+
+    // Opening stock starts the ledger so it replays to the current count
+    if (product.stock_quantity) {
+      await client.query(
+        `INSERT INTO pro_shop_inventory_movements
+           (facility_id, product_id, movement_type, quantity_change, stock_after, note, created_by)
+         VALUES ($1, $2, 'adjustment', $3, $3, 'Opening stock', $4)`,
+        [facilityId, product.id, product.stock_quantity, adminId]
+      );
+    }
+    await client.query('COMMIT');
+    return product;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
 }
 
+/**
+ * A stock_quantity in the payload is a counted adjustment: it goes through
+ * the inventory ledger rather than overwriting the column.
+ */
 export async function updateProduct(productId: string, data: {
   name?: string;
   description?: string | null;
   category?: string;
   price_cents?: number;
   stock_quantity?: number | null;
+  low_stock_threshold?: number | null;
   image_data?: string | null;
   is_active?: boolean;
-}) {
+}, adminId: string | null = null) {
   const fields: string[] = [];
   const values: any[] = [];
   let idx = 1;
@@ -80,20 +149,38 @@ export async function updateProduct(productId: string, data: {
   if (data.description !== undefined)    { fields.push(`description = $${idx++}`);    values.push(data.description); }
   if (data.category !== undefined)       { fields.push(`category = $${idx++}`);       values.push(data.category); }
   if (data.price_cents !== undefined)    { fields.push(`price_cents = $${idx++}`);    values.push(data.price_cents); }
-  if (data.stock_quantity !== undefined) { fields.push(`stock_quantity = $${idx++}`); values.push(data.stock_quantity); }
   if (data.image_data !== undefined)     { fields.push(`image_data = $${idx++}`);     values.push(data.image_data); }
   if (data.is_active !== undefined)      { fields.push(`is_active = $${idx++}`);      values.push(data.is_active); }
+  if (data.low_stock_threshold !== undefined) {
+    fields.push(`low_stock_threshold = $${idx++}`, `low_stock_alerted_at = NULL`);
+    values.push(data.low_stock_threshold);
+  }
 
-  if (fields.length === 0) return null;
-
-  fields.push(`updated_at = NOW()`);
-  values.push(productId);
+  if (fields.length === 0 && data.stock_quantity === undefined) return null;
 
-  const result = await query(
-    `UPDATE pro_shop_products SET ${fields.join(', ')} WHERE id = $${idx} RETURNING *`,
-    values
-  );
-  return result.rows[0] ?? null;
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    if (fields.length > 0) {
+      fields.push(`updated_at = NOW()`);
+      values.push(productId);
+      await client.query(`UPDATE pro_shop_products SET ${fields.join(', ')} WHERE id = $${idx}`, values);
+    }
+    const result = await client.query(`SELECT * FROM pro_shop_products WHERE id = $1`, [productId]);
+    const product = result.rows[0] ?? null;
+    if (product && data.stock_quantity !== undefined) {
+      await setStockLevel(client, product.facility_id, { productId, variantId: null }, data.stock_quantity, adminId);
+      product.stock_quantity = data.stock_quantity;
+    }
+    await client.query('COMMIT');
+    if (product) queueLowStockCheck(product.facility_id, [{ productId, variantId: null }]);
+    return product;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
 }
 
 export async function deleteProduct(productId: string): Promise<{ deleted: boolean; reason?: string }> {
@@ -113,34 +200,32 @@ export async function deleteProduct(productId: string): Promise<{ deleted: boole
   return { deleted: true };
 }
 
+async function insertOrderItems(
+  client: { query: (text: string, values: any[]) => Promise<unknown> },
+  orderId: string,
+  items: { product_id: string; variant_id?: string | null; quantity: number; price_cents: number }[]
+) {
+  for (const item of items) {
+    await client.query(
+      `INSERT INTO pro_shop_order_items (order_id, product_id, variant_id, quantity, price_cents_at_purchase)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [orderId, item.product_id, item.variant_id ?? null, item.quantity, item.price_cents]
+    );
+  }
+}
+
 // ── Checkout ───────────────────────────────────────────────
 
 export async function createCheckoutSession(
   facilityId: string,
   userId: string,
-  items: { product_id: string; quantity: number }[]
+  items: SaleItemInput[]
 ): Promise<{ url: string | null; orderId: string; devMode: boolean }> {
-  const productIds = items.map(i => i.product_id);
-  const productsResult = await query(
-    `SELECT id, name, price_cents, stock_quantity FROM pro_shop_products
-     WHERE id = ANY($1::uuid[]) AND facility_id = $2 AND is_active = true`,
-    [productIds, facilityId]
-  );
-  const productMap = new Map(productsResult.rows.map((p: any) => [p.id, p]));
-
-  let totalCents = 0;
-  const lineItems: { product_id: string; quantity: number; price_cents: number; name: string }[] = [];
-
-  for (const item of items) {
-    const product = productMap.get(item.product_id) as any;
-    if (!product) throw new Error(`Product ${item.product_id} not found or not available`);
-    if (product.stock_quantity !== null && product.stock_quantity < item.quantity) {
-      throw new Error(`Insufficient stock for "${product.name}"`);
-    }
-    lineItems.push({ product_id: item.product_id, quantity: item.quantity, price_cents: product.price_cents, name: product.name });
-    totalCents += product.price_cents * item.quantity;
-  }
+  const lineItems = await resolveSaleItems(facilityId, items);
+  const totalCents = lineItems.reduce((sum, i) => sum + i.price_cents * i.quantity, 0);
 
+  let walletCents = 0;
+  let orderId: string | null = null;
   const client = await getClient();
   try {
     await client.query('BEGIN');
@@ -150,15 +235,9 @@ export async function createCheckoutSession(
        VALUES ($1, $2, 'pending', $3) RETURNING id`,
       [facilityId, userId, totalCents]
     );
-    const orderId = orderResult.rows[0].id;
+    orderId = orderResult.rows[0].id as string;
 
-    for (const item of lineItems) {
-      await client.query(
-        `INSERT INTO pro_shop_order_items (order_id, product_id, quantity, price_cents_at_purchase)
-         VALUES ($1, $2, $3, $4)`,
-        [orderId, item.product_id, item.quantity, item.price_cents]
-      );
-    }
+    await insertOrderItems(client, orderId, lineItems);
 
     const stripe = getStripe();
     if (!stripe) {
@@ -167,10 +246,41 @@ export async function createCheckoutSession(
         `UPDATE pro_shop_orders SET stripe_checkout_session_id = $1, status = 'paid', updated_at = NOW() WHERE id = $2`,
         [`dev_session_${Date.now()}`, orderId]
       );
+      const touched = await recordSaleMovements(client, facilityId, orderId, lineItems, userId);
       await client.query('COMMIT');
+      queueLowStockCheck(facilityId, touched);
       return { url: null, orderId, devMode: true };
     }
 
+    // Account credit goes first; the Checkout only collects what it doesn't cover
+    const { sessionExpiresAt, holdExpiresAt } = walletCheckoutExpiry();
+    walletCents = await payFromWallet({
+      facilityId,
+      userId,
+      amountCents: totalCents,
+      description: `Pro Shop – ${lineItems.map(i => `${i.name} ×${i.quantity}`).join(', ')}`,
+      referenceType: 'pro_shop_order',
+      referenceId: orderId,
+      holdExpiresAt,
+    });
+    if (walletCents > 0) {
+      await client.query(
+        `UPDATE pro_shop_orders SET wallet_applied_cents = $1 WHERE id = $2`,
+        [walletCents, orderId]
+      );
+    }
+    if (walletCents === totalCents) {
+      await client.query(
+        `UPDATE pro_shop_orders SET status = 'paid', updated_at = NOW() WHERE id = $1`,
+        [orderId]
+      );
+      const touched = await recordSaleMovements(client, facilityId, orderId, lineItems, userId);
+      await client.query('COMMIT');
+      await captureWalletHold('pro_shop_order', orderId);
+      queueLowStockCheck(facilityId, touched);
+      return { url: `${getBaseUrl()}/shop?order=success`, orderId, devMode: false };
+    }
+
     const session = await stripe.checkout.sessions.create({
       mode: 'payment',
       line_items: lineItems.map(i => ({
@@ -181,6 +291,9 @@ export async function createCheckoutSession(
         },
         quantity: i.quantity,
       })),
+      ...(walletCents > 0
+        ? { discounts: await walletCheckoutDiscount(stripe, walletCents), expires_at: sessionExpiresAt }
+        : {}),
       metadata: { type: 'pro_shop', order_id: orderId, facility_id: facilityId },
       success_url: `${getBaseUrl()}/shop?order=success`,
       cancel_url: `${getBaseUrl()}/shop`,
@@ -195,6 +308,9 @@ export async function createCheckoutSession(
     return { url: session.url, orderId, devMode: false };
   } catch (err) {
     await client.query('ROLLBACK');
+    if (walletCents > 0 && orderId) {
+      await reverseWalletPayment('pro_shop_order', orderId, 'Checkout failed – credit returned');
+    }
     throw err;
   } finally {
     client.release();
@@ -206,28 +322,10 @@ export async function createGuestCheckoutSession(
   guestName: string,
   guestEmail: string | null,
   adminId: string,
-  items: { product_id: string; quantity: number }[]
+  items: SaleItemInput[]
 ): Promise<{ url: string | null; orderId: string; devMode: boolean }> {
-  const productIds = items.map(i => i.product_id);
-  const productsResult = await query(
-    `SELECT id, name, price_cents, stock_quantity FROM pro_shop_products
-     WHERE id = ANY($1::uuid[]) AND facility_id = $2 AND is_active = true`,
-    [productIds, facilityId]
-  );
-  const productMap = new Map(productsResult.rows.map((p: any) => [p.id, p]));
-
-  let totalCents = 0;
-  const lineItems: { product_id: string; quantity: number; price_cents: number; name: string }[] = [];
-
-  for (const item of items) {
-    const product = productMap.get(item.product_id) as any;
-    if (!product) throw new Error(`Product ${item.product_id} not found or not available`);
-    if (product.stock_quantity !== null && product.stock_quantity < item.quantity) {
-      throw new Error(`Insufficient stock for "${product.name}"`);
-    }
-    lineItems.push({ product_id: item.product_id, quantity: item.quantity, price_cents: product.price_cents, name: product.name });
-    totalCents += product.price_cents * item.quantity;
-  }
+  const lineItems = await resolveSaleItems(facilityId, items);
+  const totalCents = lineItems.reduce((sum, i) => sum + i.price_cents * i.quantity, 0);
 
   const client = await getClient();
   try {
@@ -241,13 +339,7 @@ export async function createGuestCheckoutSession(
     );
     const orderId = orderResult.rows[0].id;
 
-    for (const item of lineItems) {
-      await client.query(
-        `INSERT INTO pro_shop_order_items (order_id, product_id, quantity, price_cents_at_purchase)
-         VALUES ($1, $2, $3, $4)`,
-        [orderId, item.product_id, item.quantity, item.price_cents]
-      );
-    }
+    await insertOrderItems(client, orderId, lineItems);
 
     const stripe = getStripe();
     if (!stripe) {
@@ -255,7 +347,9 @@ export async function createGuestCheckoutSession(
         `UPDATE pro_shop_orders SET stripe_checkout_session_id = $1, status = 'paid', updated_at = NOW() WHERE id = $2`,
         [`dev_session_${Date.now()}`, orderId]
       );
+      const touched = await recordSaleMovements(client, facilityId, orderId, lineItems, adminId);
       await client.query('COMMIT');
+      queueLowStockCheck(facilityId, touched);
       return { url: null, orderId, devMode: true };
     }
 
@@ -295,39 +389,45 @@ export async function createGuestCheckoutSession(
   }
 }
 
+/**
+ * Marks a Stripe checkout order paid and takes its items out of stock.
+ * Only a pending order moves, so webhook retries don't sell stock twice.
+ */
 export async function finalizeOrder(sessionId: string): Promise<void> {
   const orderResult = await query(
-    `SELECT id FROM pro_shop_orders WHERE stripe_checkout_session_id = $1`,
+    `SELECT id, facility_id, COALESCE(user_id, charged_by) AS actor_id
+     FROM pro_shop_orders WHERE stripe_checkout_session_id = $1`,
     [sessionId]
   );
   if (orderResult.rows.length === 0) return;
 
-  const orderId = orderResult.rows[0].id;
+  const { id: orderId, facility_id: facilityId, actor_id: actorId } = orderResult.rows[0];
 
   const client = await getClient();
   try {
     await client.query('BEGIN');
 
-    await client.query(
-      `UPDATE pro_shop_orders SET status = 'paid', updated_at = NOW() WHERE id = $1`,
+    const marked = await client.query(
+      `UPDATE pro_shop_orders SET status = 'paid', updated_at = NOW()
+       WHERE id = $1 AND status = 'pending' RETURNING id, wallet_applied_cents`,
       [orderId]
     );
+    if (marked.rows.length === 0) {
+      await client.query('COMMIT');
+      return;
+    }
 
-    // Decrement stock for products with finite quantity
     const items = await client.query(
-      `SELECT product_id, quantity FROM pro_shop_order_items WHERE order_id = $1`,
+      `SELECT product_id, variant_id, quantity FROM pro_shop_order_items WHERE order_id = $1`,
       [orderId]
     );
-    for (const item of items.rows) {
-      await client.query(
-        `UPDATE pro_shop_products
-         SET stock_quantity = GREATEST(0, stock_quantity - $1), updated_at = NOW()
-         WHERE id = $2 AND stock_quantity IS NOT NULL`,
-        [item.quantity, item.product_id]
-      );
-    }
+    const touched = await recordSaleMovements(client, facilityId, orderId, items.rows, actorId);
 
     await client.query('COMMIT');
+    if (Number(marked.rows[0].wallet_applied_cents) > 0) {
+      await captureWalletHold('pro_shop_order', orderId);
+    }
+    queueLowStockCheck(facilityId, touched);
     console.log(`[ProShop] Order ${orderId} finalized for session ${sessionId}`);
   } catch (err) {
     await client.query('ROLLBACK');
@@ -347,15 +447,22 @@ export async function getAdminOrders(facilityId: string) {
        COALESCE(u.email, o.guest_email)    AS member_email,
        (o.user_id IS NULL)                 AS is_guest,
        json_agg(json_build_object(
+         'id', oi.id,
          'product_id', oi.product_id,
+         'variant_id', oi.variant_id,
          'name', p.name,
+         'size', v.size,
+         'color', v.color,
+         'grip_size', v.grip_size,
          'quantity', oi.quantity,
+         'returned_quantity', oi.returned_quantity,
          'price_cents', oi.price_cents_at_purchase
        ) ORDER BY p.name) AS items
      FROM pro_shop_orders o
      LEFT JOIN users u ON u.id = o.user_id
      JOIN pro_shop_order_items oi ON oi.order_id = o.id
      JOIN pro_shop_products p ON p.id = oi.product_id
+     LEFT JOIN pro_shop_product_variants v ON v.id = oi.variant_id
      WHERE o.facility_id = $1
      GROUP BY o.id, u.full_name, u.email, o.guest_name, o.guest_email
      ORDER BY o.created_at DESC`,
@@ -369,30 +476,10 @@ export async function recordGuestSale(
   adminId: string,
   guestName: string,
   guestEmail: string | null,
-  items: { product_id: string; quantity: number }[]
+  items: SaleItemInput[]
 ) {
-  const productIds = items.map(i => i.product_id);
-  const productsResult = await query(
-    `SELECT id, name, price_cents, stock_quantity FROM pro_shop_products
-     WHERE id = ANY($1::uuid[]) AND facility_id = $2 AND is_active = true`,
-    [productIds, facilityId]
-  );
-  if (productsResult.rows.length !== productIds.length) {
-    throw new Error('One or more products not found');
-  }
-
-  const productMap = new Map(productsResult.rows.map((p: any) => [p.id, p]));
-  const lineItems: { product_id: string; quantity: number; price_cents: number; name: string }[] = [];
-  let totalCents = 0;
-
-  for (const item of items) {
-    const product = productMap.get(item.product_id) as any;
-    if (product.stock_quantity !== null && product.stock_quantity < item.quantity) {
-      throw new Error(`Insufficient stock for "${product.name}"`);
-    }
-    lineItems.push({ product_id: item.product_id, quantity: item.quantity, price_cents: product.price_cents, name: product.name });
-    totalCents += product.price_cents * item.quantity;
-  }
+  const lineItems = await resolveSaleItems(facilityId, items);
+  const totalCents = lineItems.reduce((sum, i) => sum + i.price_cents * i.quantity, 0);
 
   const client = await getClient();
   try {
@@ -406,21 +493,11 @@ export async function recordGuestSale(
     );
     const orderId = orderResult.rows[0].id;
 
-    for (const item of lineItems) {
-      await client.query(
-        `INSERT INTO pro_shop_order_items (order_id, product_id, quantity, price_cents_at_purchase)
-         VALUES ($1, $2, $3, $4)`,
-        [orderId, item.product_id, item.quantity, item.price_cents]
-      );
-      await client.query(
-        `UPDATE pro_shop_products
-         SET stock_quantity = GREATEST(0, stock_quantity - $1), updated_at = NOW()
-         WHERE id = $2 AND stock_quantity IS NOT NULL`,
-        [item.quantity, item.product_id]
-      );
-    }
+    await insertOrderItems(client, orderId, lineItems);
+    const touched = await recordSaleMovements(client, facilityId, orderId, lineItems, adminId);
 
     await client.query('COMMIT');
+    queueLowStockCheck(facilityId, touched);
     return { orderId, totalCents };
   } catch (err) {
     await client.query('ROLLBACK');
@@ -434,24 +511,26 @@ export async function recordGuestSale(
 
 export async function getProShopSettings(facilityId: string) {
   const result = await query(
-    `SELECT tab_billing_day, require_card FROM pro_shop_settings WHERE facility_id = $1`,
+    `SELECT tab_billing_day, require_card, stringing_labor_cents FROM pro_shop_settings WHERE facility_id = $1`,
     [facilityId]
   );
-  return result.rows[0] ?? { tab_billing_day: 1, require_card: false };
+  return result.rows[0] ?? { tab_billing_day: 1, require_card: false, stringing_labor_cents: 0 };
 }
 
 export async function updateProShopSettings(facilityId: string, settings: {
   tab_billing_day?: number;
   require_card?: boolean;
+  stringing_labor_cents?: number;
 }) {
   await query(
-    `INSERT INTO pro_shop_settings (facility_id, tab_billing_day, require_card, updated_at)
-     VALUES ($1, COALESCE($2, 1), COALESCE($3, false), NOW())
+    `INSERT INTO pro_shop_settings (facility_id, tab_billing_day, require_card, stringing_labor_cents, updated_at)
+     VALUES ($1, COALESCE($2, 1), COALESCE($3, false), COALESCE($4, 0), NOW())
      ON CONFLICT (facility_id) DO UPDATE
-     SET tab_billing_day = COALESCE($2, pro_shop_settings.tab_billing_day),
-         require_card     = COALESCE($3, pro_shop_settings.require_card),
-         updated_at       = NOW()`,
-    [facilityId, settings.tab_billing_day ?? null, settings.require_card ?? null]
+     SET tab_billing_day       = COALESCE($2, pro_shop_settings.tab_billing_day),
+         require_card          = COALESCE($3, pro_shop_settings.require_card),
+         stringing_labor_cents = COALESCE($4, pro_shop_settings.stringing_labor_cents),
+         updated_at            = NOW()`,
+    [facilityId, settings.tab_billing_day ?? null, settings.require_card ?? null, settings.stringing_labor_cents ?? null]
   );
   return getProShopSettings(facilityId);
 }
@@ -473,14 +552,14 @@ export async function getMembersWithCardStatus(facilityId: string) {
 }
 
 export async function getMemberCardStatus(facilityId: string, userId: string) {
-  const result = await query(
-    `SELECT (stripe_default_payment_method_id IS NOT NULL AND card_last4 IS NOT NULL) as has_card,
-            card_brand, card_last4, card_exp_month, card_exp_year
-     FROM facility_memberships
-     WHERE facility_id = $1 AND user_id = $2`,
-    [facilityId, userId]
-  );
-  return result.rows[0] ?? { has_card: false };
+  // Members billed to a household payer run their tab on the payer's card
+  const card = await resolveBillingCard(facilityId, userId);
+  return {
+    has_card: hasUsableCard(card),
+    card_brand: card.cardBrand,
+    card_last4: card.cardLast4,
+    household_payer: card.householdId !== null,
+  };
 }
 
 // ── Member cash sale ──────────────────────────────────────
@@ -489,30 +568,10 @@ export async function recordMemberCashSale(
   facilityId: string,
   userId: string,
   adminId: string,
-  items: { product_id: string; quantity: number }[]
+  items: SaleItemInput[]
 ) {
-  const productIds = items.map(i => i.product_id);
-  const productsResult = await query(
-    `SELECT id, name, price_cents, stock_quantity FROM pro_shop_products
-     WHERE id = ANY($1::uuid[]) AND facility_id = $2 AND is_active = true`,
-    [productIds, facilityId]
-  );
-  if (productsResult.rows.length !== productIds.length) {
-    throw new Error('One or more products not found');
-  }
-
-  const productMap = new Map(productsResult.rows.map((p: any) => [p.id, p]));
-  const lineItems: { product_id: string; quantity: number; price_cents: number }[] = [];
-  let totalCents = 0;
-
-  for (const item of items) {
-    const product = productMap.get(item.product_id) as any;
-    if (product.stock_quantity !== null && product.stock_quantity < item.quantity) {
-      throw new Error(`Insufficient stock for "${product.name}"`);
-    }
-    lineItems.push({ product_id: item.product_id, quantity: item.quantity, price_cents: product.price_cents });
-    totalCents += product.price_cents * item.quantity;
-  }
+  const lineItems = await resolveSaleItems(facilityId, items);
+  const totalCents = lineItems.reduce((sum, i) => sum + i.price_cents * i.quantity, 0);
 
   const client = await getClient();
   try {
@@ -523,20 +582,10 @@ export async function recordMemberCashSale(
       [facilityId, userId, adminId, totalCents]
     );
     const orderId = orderResult.rows[0].id;
-    for (const item of lineItems) {
-      await client.query(
-        `INSERT INTO pro_shop_order_items (order_id, product_id, quantity, price_cents_at_purchase)
-         VALUES ($1, $2, $3, $4)`,
-        [orderId, item.product_id, item.quantity, item.price_cents]
-      );
-      await client.query(
-        `UPDATE pro_shop_products
-         SET stock_quantity = GREATEST(0, stock_quantity - $1), updated_at = NOW()
-         WHERE id = $2 AND stock_quantity IS NOT NULL`,
-        [item.quantity, item.product_id]
-      );
-    }
+    await insertOrderItems(client, orderId, lineItems);
+    const touched = await recordSaleMovements(client, facilityId, orderId, lineItems, adminId);
     await client.query('COMMIT');
+    queueLowStockCheck(facilityId, touched);
     return { orderId, totalCents };
   } catch (err) {
     await client.query('ROLLBACK');
@@ -558,30 +607,43 @@ async function getOrCreateTab(facilityId: string, userId: string): Promise<strin
   return result.rows[0].id as string;
 }
 
+/**
+ * `service` turns the lines into a service charge — stringing posts the string
+ * with its labor fee added and the job described in place of the product name.
+ */
 export async function addToTab(
   facilityId: string,
   userId: string,
   adminId: string,
-  items: { product_id: string; quantity: number }[]
+  items: SaleItemInput[],
+  service?: { label: string; feeCents: number }
 ) {
-  const productIds = items.map(i => i.product_id);
-  const productsResult = await query(
-    `SELECT id, name, price_cents FROM pro_shop_products WHERE id = ANY($1::uuid[]) AND facility_id = $2`,
-    [productIds, facilityId]
+  const lineItems = (await resolveSaleItems(facilityId, items, { activeOnly: false })).map(item =>
+    service ? { ...item, name: service.label, price_cents: item.price_cents + service.feeCents } : item
   );
-  if (productsResult.rows.length !== productIds.length) throw new Error('One or more products not found');
-
-  const productMap = new Map(productsResult.rows.map((p: any) => [p.id, p]));
   const tabId = await getOrCreateTab(facilityId, userId);
 
-  for (const item of items) {
-    const p = productMap.get(item.product_id) as any;
-    await query(
-      `INSERT INTO pro_shop_tab_items (tab_id, product_id, product_name, quantity, price_cents, assigned_by)
-       VALUES ($1, $2, $3, $4, $5, $6)`,
-      [tabId, p.id, p.name, item.quantity, p.price_cents, adminId]
-    );
+  // Tab items leave the shop when assigned, so stock moves now rather than at billing
+  const client = await getClient();
+  let touched: StockRef[];
+  try {
+    await client.query('BEGIN');
+    for (const item of lineItems) {
+      await client.query(
+        `INSERT INTO pro_shop_tab_items (tab_id, product_id, variant_id, product_name, quantity, price_cents, assigned_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [tabId, item.product_id, item.variant_id, item.name, item.quantity, item.price_cents, adminId]
+      );
+    }
+    touched = await recordSaleMovements(client, facilityId, null, lineItems, adminId);
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
   }
+  queueLowStockCheck(facilityId, touched);
   return getTabDetail(facilityId, userId);
 }
 
@@ -628,15 +690,49 @@ export async function getAllTabs(facilityId: string) {
 
 // ── Admin direct charge ────────────────────────────────────
 
+/**
+ * Charges the billing card off-session on the facility's connected account and
+ * returns the PaymentIntent id (a placeholder in dev mode without Stripe).
+ */
+async function chargeCardOffSession(
+  stripe: Stripe | null,
+  card: BillingCard,
+  facility: { stripe_account_id: string | null; stripe_onboarded: boolean },
+  charge: { amountCents: number; description: string; metadata: Record<string, string>; devPrefix: string }
+): Promise<string> {
+  if (!stripe) {
+    return `${charge.devPrefix}_${Date.now()}`;
+  }
+  if (!hasUsableCard(card)) {
+    throw new Error(card.householdId ? missingCardMessage(card) : 'Member does not have a card on file');
+  }
+  if (!facility.stripe_account_id || !facility.stripe_onboarded) {
+    throw new Error('This facility has not completed Stripe Connect setup');
+  }
+  const pi = await stripe.paymentIntents.create(
+    {
+      amount: charge.amountCents,
+      currency: 'usd',
+      customer: card.stripeCustomerId!,
+      payment_method: card.paymentMethodId!,
+      off_session: true,
+      confirm: true,
+      description: charge.description,
+      metadata: charge.metadata,
+    },
+    { stripeAccount: facility.stripe_account_id }
+  );
+  return pi.id;
+}
+
 export async function chargeImmediately(
   facilityId: string,
   userId: string,
   adminId: string,
-  items: { product_id: string; quantity: number }[]
+  items: SaleItemInput[]
 ) {
   const memberResult = await query(
-    `SELECT fm.stripe_customer_id, fm.stripe_default_payment_method_id,
-            f.stripe_account_id, f.stripe_onboarded
+    `SELECT f.stripe_account_id, f.stripe_onboarded
      FROM facility_memberships fm
      JOIN facilities f ON f.id = $1
      WHERE fm.facility_id = $1 AND fm.user_id = $2 AND fm.status = 'active'`,
@@ -644,70 +740,64 @@ export async function chargeImmediately(
   );
   if (memberResult.rows.length === 0) throw new Error('Member not found or not active');
   const m = memberResult.rows[0];
-
-  const productIds = items.map(i => i.product_id);
-  const productsResult = await query(
-    `SELECT id, name, price_cents FROM pro_shop_products WHERE id = ANY($1::uuid[]) AND facility_id = $2`,
-    [productIds, facilityId]
-  );
-  if (productsResult.rows.length !== productIds.length) throw new Error('One or more products not found');
-  const productMap = new Map(productsResult.rows.map((p: any) => [p.id, p]));
-  const lineItems = items.map(i => ({ ...(productMap.get(i.product_id) as any), quantity: i.quantity }));
-  const totalCents = lineItems.reduce((s: number, i: any) => s + i.price_cents * i.quantity, 0);
+  const card = await resolveBillingCard(facilityId, userId);
+
+  const lineItems = await resolveSaleItems(facilityId, items, { activeOnly: false });
+  const totalCents = lineItems.reduce((sum, i) => sum + i.price_cents * i.quantity, 0);
+  const desc = lineItems.map(i => `${i.name} ×${i.quantity}`).join(', ');
+
+  // Account credit first; the card on file covers the rest
+  const orderId = randomUUID();
+  const walletCents = await payFromWallet({
+    facilityId,
+    userId,
+    amountCents: totalCents,
+    description: `Pro Shop – ${desc}`,
+    referenceType: 'pro_shop_order',
+    referenceId: orderId,
+  });
+  const cardCents = totalCents - walletCents;
 
   const stripe = getStripe();
-  let piId: string;
+  let piId: string | null = null;
 
-  if (!stripe) {
-    piId = `dev_pi_${Date.now()}`;
-  } else {
-    if (!m.stripe_customer_id || !m.stripe_default_payment_method_id) {
-      throw new Error('Member does not have a card on file');
-    }
-    if (!m.stripe_account_id || !m.stripe_onboarded) {
-      throw new Error('This facility has not completed Stripe Connect setup');
+  try {
+    piId = cardCents === 0 ? null : await chargeCardOffSession(stripe, card, m, {
+      amountCents: cardCents,
+      description: `Pro Shop – ${desc}`,
+      metadata: { type: 'pro_shop_admin_charge', facility_id: facilityId, assigned_by: adminId },
+      devPrefix: 'dev_pi',
+    });
+  } catch (err) {
+    if (walletCents > 0) {
+      await reverseWalletPayment('pro_shop_order', orderId, 'Card charge failed – credit returned');
     }
-    const desc = lineItems.map((i: any) => `${i.name} ×${i.quantity}`).join(', ');
-    const pi = await stripe.paymentIntents.create(
-      {
-        amount: totalCents,
-        currency: 'usd',
-        customer: m.stripe_customer_id,
-        payment_method: m.stripe_default_payment_method_id,
-        off_session: true,
-        confirm: true,
-        description: `Pro Shop – ${desc}`,
-        metadata: { type: 'pro_shop_admin_charge', facility_id: facilityId, assigned_by: adminId },
-      },
-      { stripeAccount: m.stripe_account_id }
-    );
-    piId = pi.id;
+    throw err;
   }
 
   const client = await getClient();
   try {
     await client.query('BEGIN');
-    const orderResult = await client.query(
-      `INSERT INTO pro_shop_orders (facility_id, user_id, stripe_payment_intent_id, charged_by, status, total_cents)
-       VALUES ($1, $2, $3, $4, 'paid', $5) RETURNING id`,
-      [facilityId, userId, piId, adminId, totalCents]
+    await client.query(
+      `INSERT INTO pro_shop_orders
+         (id, facility_id, user_id, stripe_payment_intent_id, charged_by, status, total_cents, wallet_applied_cents)
+       VALUES ($1, $2, $3, $4, $5, 'paid', $6, $7)`,
+      [orderId, facilityId, userId, piId, adminId, totalCents, walletCents]
     );
-    const orderId = orderResult.rows[0].id;
-    for (const item of lineItems) {
-      await client.query(
-        `INSERT INTO pro_shop_order_items (order_id, product_id, quantity, price_cents_at_purchase)
-         VALUES ($1, $2, $3, $4)`,
-        [orderId, (item as any).id, (item as any).quantity, (item as any).price_cents]
-      );
-      await client.query(
-        `UPDATE pro_shop_products
-         SET stock_quantity = GREATEST(0, stock_quantity - $2), updated_at = NOW()
-         WHERE id = $1 AND stock_quantity IS NOT NULL`,
-        [(item as any).id, (item as any).quantity]
-      );
-    }
+    await insertOrderItems(client, orderId, lineItems);
+    const touched = await recordSaleMovements(client, facilityId, orderId, lineItems, adminId);
     await client.query('COMMIT');
-    return { orderId, totalCents };
+    queueLowStockCheck(facilityId, touched);
+    await recordHouseholdCharge(card, {
+      facilityId,
+      memberUserId: userId,
+      source: 'pro_shop',
+      sourceId: orderId,
+      description: `Pro Shop – ${desc}`,
+      amountCents: cardCents,
+      stripePaymentIntentId: piId,
+    });
+    return { orderId, totalCents, walletAppliedCents: walletCents };
   } catch (err) {
     await client.query('ROLLBACK');
     throw err;
@@ -723,8 +813,7 @@ export async function billMemberTab(facilityId: string, userId: string) {
   if (!tab || Number(tab.unbilled_cents) === 0) throw new Error('No unbilled items on this tab');
 
   const memberResult = await query(
-    `SELECT fm.stripe_customer_id, fm.stripe_default_payment_method_id,
-            f.stripe_account_id, f.stripe_onboarded
+    `SELECT f.stripe_account_id, f.stripe_onboarded
      FROM facility_memberships fm
      JOIN facilities f ON f.id = $1
      WHERE fm.facility_id = $1 AND fm.user_id = $2 AND fm.status = 'active'`,
@@ -732,61 +821,59 @@ export async function billMemberTab(facilityId: string, userId: string) {
   );
   if (memberResult.rows.length === 0) throw new Error('Member not found');
   const m = memberResult.rows[0];
+  // A household payer's card covers the tab when one is set
+  const card = await resolveBillingCard(facilityId, userId);
 
   const totalCents = Number(tab.unbilled_cents);
   const items = (tab.items ?? []) as any[];
   const desc = items.map(i => `${i.product_name} ×${i.quantity}`).join(', ');
 
+  // Account credit first; the card on file covers the rest
+  const orderId = randomUUID();
+  const walletCents = await payFromWallet({
+    facilityId,
+    userId,
+    amountCents: totalCents,
+    description: `Pro Shop Tab – ${desc}`,
+    referenceType: 'pro_shop_order',
+    referenceId: orderId,
+  });
+  const cardCents = totalCents - walletCents;
+
   const stripe = getStripe();
-  let piId: string;
+  let piId: string | null = null;
 
-  if (!stripe) {
-    piId = `dev_pi_tab_${Date.now()}`;
-  } else {
-    if (!m.stripe_customer_id || !m.stripe_default_payment_method_id) {
-      throw new Error('Member does not have a card on file');
-    }
-    if (!m.stripe_account_id || !m.stripe_onboarded) {
-      throw new Error('This facility has not completed Stripe Connect setup');
+  try {
+    piId = cardCents === 0 ? null : await chargeCardOffSession(stripe, card, m, {
+      amountCents: cardCents,
+      description: `Pro Shop Tab – ${desc}`,
+      metadata: { type: 'pro_shop_tab_billing', facility_id: facilityId, user_id: userId },
+      devPrefix: 'dev_pi_tab',
+    });
+  } catch (err) {
+    if (walletCents > 0) {
+      await reverseWalletPayment('pro_shop_order', orderId, 'Card charge failed – credit returned');
     }
-    const pi = await stripe.paymentIntents.create(
-      {
-        amount: totalCents,
-        currency: 'usd',
-        customer: m.stripe_customer_id,
-        payment_method: m.stripe_default_payment_method_id,
-        off_session: true,
-        confirm: true,
-        description: `Pro Shop Tab – ${desc}`,
-        metadata: { type: 'pro_shop_tab_billing', facility_id: facilityId, user_id: userId },
-      },
-      { stripeAccount: m.stripe_account_id }
-    );
-    piId = pi.id;
+    throw err;
   }
 
   const client = await getClient();
   try {
     await client.query('BEGIN');
-    const orderResult = await client.query(
-      `INSERT INTO pro_shop_orders (facility_id, user_id, stripe_payment_intent_id, status, total_cents)
-       VALUES ($1, $2, $3, 'paid', $4) RETURNING id`,
-      [facilityId, userId, piId, totalCents]
+    await client.query(
+      `INSERT INTO pro_shop_orders
+         (id, facility_id, user_id, stripe_payment_intent_id, status, total_cents, wallet_applied_cents)
+       VALUES ($1, $2, $3, $4, 'paid', $5, $6)`,
+      [orderId, facilityId, userId, piId, totalCents, walletCents]
     );
-    const orderId = orderResult.rows[0].id;
 
     const tabItems = await client.query(
-      `SELECT id, product_id, quantity, price_cents FROM pro_shop_tab_items
+      `SELECT id, product_id, variant_id, quantity, price_cents FROM pro_shop_tab_items
        WHERE tab_id = $1 AND billed_at IS NULL`,
       [tab.tab_id]
     );
-    for (const ti of tabItems.rows) {
-      await client.query(
-        `INSERT INTO pro_shop_order_items (order_id, product_id, quantity, price_cents_at_purchase)
-         VALUES ($1, $2, $3, $4)`,
-        [orderId, ti.product_id, ti.quantity, ti.price_cents]
-      );
-    }
+    // Stock already moved when the items went on the tab
+    await insertOrderItems(client, orderId, tabItems.rows);
     await client.query(
       `UPDATE pro_shop_tab_items SET billed_at = NOW(), billing_order_id = $2
        WHERE tab_id = $1 AND billed_at IS NULL`,
@@ -794,7 +881,16 @@ export async function billMemberTab(facilityId: string, userId: string) {
     );
     await client.query(`UPDATE pro_shop_tabs SET updated_at = NOW() WHERE id = $1`, [tab.tab_id]);
     await client.query('COMMIT');
-    return { orderId, totalCents };
+    await recordHouseholdCharge(card, {
+      facilityId,
+      memberUserId: userId,
+      source: 'pro_shop',
+      sourceId: orderId,
+      description: `Pro Shop Tab – ${desc}`,
+      amountCents: cardCents,
+      stripePaymentIntentId: piId,
+    });
+    return { orderId, totalCents, walletAppliedCents: walletCents };
   } catch (err) {
     await client.query('ROLLBACK');
     throw err;
@@ -825,12 +921,17 @@ export async function getUserOrders(facilityId: string, userId: string) {
        o.id, o.status, o.total_cents, o.created_at,
        json_agg(json_build_object(
          'name', p.name,
+         'size', v.size,
+         'color', v.color,
+         'grip_size', v.grip_size,
          'quantity', oi.quantity,
+         'returned_quantity', oi.returned_quantity,
          'price_cents', oi.price_cents_at_purchase
        ) ORDER BY p.name) AS items
      FROM pro_shop_orders o
      JOIN pro_shop_order_items oi ON oi.order_id = o.id
      JOIN pro_shop_products p ON p.id = oi.product_id
+     LEFT JOIN pro_shop_product_variants v ON v.id = oi.variant_id
      WHERE o.facility_id = $1 AND o.user_id = $2
      GROUP BY o.id
      ORDER BY o.created_at DESC`,
@@ -0,0 +1,262 @@
+/**
+ * Live update fan-out: services publish events to topics and each open
+ * /api/realtime/stream connection (server/routes/realtime.ts) listens on its
+ * topics.
+ *
+ * Streams are held by whichever API instance the client connected to, so once
+ * the relay is started (server/index.ts) every event is also sent through
+ * Postgres NOTIFY and each instance delivers the events other instances
+ * published to its own streams. Without the relay (tests, scripts) delivery
+ * stays in this process.
+ *
+ * Topics: facility:<id> (bookings), conversation:<id> (messages), user:<id>
+ * (the user's notifications and messages).
+ */
+
+import os from 'os';
+import type { PoolClient } from 'pg';
+import { getClient, query } from '../database/connection';
+import type { RealtimeBookingEvent, RealtimeEvent, RealtimeMessageEvent } from '../../shared/api/realtime';
+
+export type { RealtimeEvent } from '../../shared/api/realtime';
+
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+const listenersByTopic = new Map<string, Set<RealtimeListener>>();
+
+export function facilityTopic(facilityId: string): string {
+  return `facility:${facilityId}`;
+}
+
+export function conversationTopic(conversationId: string): string {
+  return `conversation:${conversationId}`;
+}
+
+export function userTopic(userId: string): string {
+  return `user:${userId}`;
+}
+
+/** Listens on the given topics until the returned function is called. */
+export function subscribe(topics: string[], listener: RealtimeListener): () => void {
+  for (const topic of topics) {
+    let listeners = listenersByTopic.get(topic);
+    if (!listeners) {
+      listeners = new Set();
+      listenersByTopic.set(topic, listeners);
+    }
+    listeners.add(listener);
+  }
+  return () => {
+    for (const topic of topics) {
+      const listeners = listenersByTopic.get(topic);
+      if (!listeners) continue;
+      listeners.delete(listener);
+      if (listeners.size === 0) listenersByTopic.delete(topic);
+    }
+  };
+}
+
+/**
+ * Delivers the event to everyone listening on any of the topics, once each
+ * even when a listener is on several of them. A failing listener (say, a
+ * socket that just closed) doesn't stop delivery to the rest. With the relay
+ * running, other instances get it too.
+ */
+export function publish(topics: string[], event: RealtimeEvent): void {
+  deliver(topics, event);
+  if (relayEnabled) relay(topics, event);
+}
+
+function deliver(topics: string[], event: RealtimeEvent): void {
+  const delivered = new Set<RealtimeListener>();
+  for (const topic of topics) {
+    for (const listener of listenersByTopic.get(topic) ?? []) {
+      if (delivered.has(listener)) continue;
+      delivered.add(listener);
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[REALTIME] Listener failed:', error);
+      }
+    }
+  }
+}
+
+export function listenerCount(topic: string): number {
+  return listenersByTopic.get(topic)?.size ?? 0;
+}
+
+/** Calendar grids refetch the day when a booking on it is made or cancelled. */
+export function publishBookingChange(
+  type: RealtimeBookingEvent['type'],
+  booking: {
+    id: string;
+    facilityId: string;
+    courtId: string;
+    bookingDate: string;
+    startTime: string;
+    endTime: string;
+  }
+): void {
+  publish([facilityTopic(booking.facilityId)], {
+    type,
+    facilityId: booking.facilityId,
+    bookingId: booking.id,
+    courtId: booking.courtId,
+    bookingDate: booking.bookingDate,
+    startTime: booking.startTime,
+    endTime: booking.endTime,
+  });
+}
+
+/**
+ * Conversation events go to whoever has the conversation open, and to each
+ * participant's own stream (sender included, for their other devices).
+ */
+export function publishToConversation(
+  conversationId: string,
+  participantIds: string[],
+  event: RealtimeEvent
+): void {
+  publish([conversationTopic(conversationId), ...participantIds.map(userTopic)], event);
+}
+
+export function publishMessageCreated(
+  message: RealtimeMessageEvent['message'],
+  participantIds: string[]
+): void {
+  publishToConversation(message.conversationId, participantIds, {
+    type: 'message.created',
+    conversationId: message.conversationId,
+    message,
+  });
+}
+
+// ── Cross-instance relay ────────────────────────────────────
+
+const RELAY_CHANNEL = 'realtime_events';
+/** Tags our own notifications so they aren't delivered here a second time. */
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+/** Postgres rejects NOTIFY payloads of 8000 bytes or more. */
+const MAX_RELAY_PAYLOAD_BYTES = 7900;
+const RELAY_RETRY_MS = 5_000;
+
+interface RelayedEvent {
+  origin: string;
+  topics: string[];
+  event: RealtimeEvent;
+}
+
+let relayEnabled = false;
+/** Hands the listening connection back to the pool; set while connected. */
+let releaseRelay: ((error?: Error) => void) | null = null;
+let relayRetryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function relayPayload(topics: string[], event: RealtimeEvent): string | null {
+  const payload = JSON.stringify({ origin: INSTANCE_ID, topics, event } satisfies RelayedEvent);
+  if (Buffer.byteLength(payload) < MAX_RELAY_PAYLOAD_BYTES) return payload;
+  // A long message doesn't fit; other instances' clients refetch the thread instead
+  if (event.type === 'message.created') {
+    return relayPayload(topics, {
+      type: 'message.updated',
+      conversationId: event.conversationId,
+      messageId: event.message.id,
+    });
+  }
+  console.warn(`[REALTIME] ${event.type} too large to relay to other instances`);
+  return null;
+}
+
+function relay(topics: string[], event: RealtimeEvent): void {
+  const payload = relayPayload(topics, event);
+  if (!payload) return;
+  query('SELECT pg_notify($1, $2)', [RELAY_CHANNEL, payload]).catch((error) => {
+    console.error('[REALTIME] Relay publish failed:', error);
+  });
+}
+
+/** Delivers an event another instance published; exported for tests. */
+export function receiveRelayed(payload: string): void {
+  let relayed: RelayedEvent;
+  try {
+    relayed = JSON.parse(payload);
+  } catch {
+    console.error('[REALTIME] Ignoring malformed relay payload');
+    return;
+  }
+  if (relayed.origin === INSTANCE_ID || !Array.isArray(relayed.topics) || !relayed.event) return;
+  deliver(relayed.topics, relayed.event);
+}
+
+function scheduleRelayRetry() {
+  if (!relayEnabled || relayRetryTimer) return;
+  relayRetryTimer = setTimeout(() => {
+    relayRetryTimer = null;
+    void connectRelay();
+  }, RELAY_RETRY_MS);
+}
+
+async function connectRelay(): Promise<void> {
+  let client: PoolClient;
+  try {
+    client = await getClient();
+  } catch (error) {
+    console.error('[REALTIME] Relay could not connect, retrying:', error);
+    scheduleRelayRetry();
+    return;
+  }
+
+  const onNotification = (notification: { channel: string; payload?: string }) => {
+    if (notification.channel === RELAY_CHANNEL && notification.payload) {
+      receiveRelayed(notification.payload);
+    }
+  };
+  let released = false;
+  const release = (error?: Error) => {
+    if (released) return;
+    released = true;
+    if (releaseRelay === release) releaseRelay = null;
+    client.removeListener('notification', onNotification);
+    client.removeListener('error', onError);
+    client.release(error);
+  };
+  const onError = (error: Error) => {
+    console.error('[REALTIME] Relay connection lost, reconnecting:', error);
+    release(error);
+    scheduleRelayRetry();
+  };
+  client.on('notification', onNotification);
+  client.on('error', onError);
+
+  try {
+    await client.query(`LISTEN ${RELAY_CHANNEL}`);
+  } catch (error) {
+    console.error('[REALTIME] Relay could not listen, retrying:', error);
+    release(error instanceof Error ? error : new Error(String(error)));
+    scheduleRelayRetry();
+    return;
+  }
+  if (released) return;
+  if (!relayEnabled) {
+    release(new Error('Relay stopped'));
+    return;
+  }
+  releaseRelay = release;
+}
+
+/**
+ * Starts relaying: publishes go out through NOTIFY and other instances'
+ * events arrive on a dedicated connection, which reconnects if dropped.
+ */
+export async function startRealtimeRelay(): Promise<void> {
+  relayEnabled = true;
+  await connectRelay();
+}
+
+/** Stops relaying; the listening connection is closed rather than pooled. */
+export function stopRealtimeRelay(): void {
+  relayEnabled = false;
+  if (relayRetryTimer) clearTimeout(relayRetryTimer);
+  relayRetryTimer = null;
+  releaseRelay?.(new Error('Relay stopped'));
+}
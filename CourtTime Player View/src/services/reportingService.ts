@@ -104,7 +104,10 @@ export async function getTransactionReport(
          u.full_name              AS member_name,
          u.email                  AS member_email,
          'annual_fee'             AS type,
-         CONCAT(COALESCE(afbr.tier_name, 'Annual Fee'), ' (', afbr.billing_year, ')') AS description,
+         CONCAT(COALESCE(afbr.tier_name, 'Annual Fee'), ' (', afbr.billing_year, ')',
+                CASE WHEN afbr.installment_count > 1
+                     THEN CONCAT(', installment ', afbr.installment_number, ' of ', afbr.installment_count)
+                     ELSE '' END) AS description,
          afbr.amount_cents,
          afbr.status
        FROM annual_fee_billing_records afbr
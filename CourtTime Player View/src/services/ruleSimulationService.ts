@@ -0,0 +1,407 @@
+/**
+ * "What-if" dry run for booking rule changes.
+ *
+ * Replays a facility's real bookings from the last few weeks through the rules
+ * engine twice: once with the rules as stored, once with a proposed rule set
+ * (the same payload the admin rules page sends to the bulk endpoint, plus the
+ * facility booking_rules object when the simplified limits change too). Each
+ * booking is evaluated as of when it was made: the clock is set to its
+ * created_at and only bookings that already existed at that moment count
+ * toward limits.
+ *
+ * Nothing is written. Member status, strikes and blackouts are taken as they
+ * are today, and bookings that were later cancelled are not in the replay, so
+ * the report is an estimate of impact rather than an exact history.
+ */
+
+import { query } from '../database/connection';
+import { rulesEngine } from './rulesEngine';
+import {
+  ALLOWED_RULE_CODES,
+  buildRuleContext,
+  fetchPeakHoursSlots,
+  getFacilityLocalNow,
+  parseStoredFacilityBookingRules,
+  resolvePeakHours,
+} from './rulesEngine/RuleContext';
+import type {
+  BookingWithDetails,
+  EvaluationResult,
+  FacilityRuleConfig,
+  FacilityWithRules,
+  RuleContext,
+  RuleResult,
+} from './rulesEngine/types';
+
+/** Thrown for caller mistakes; `status` is the HTTP status the route should return. */
+export class RuleSimulationError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'RuleSimulationError';
+  }
+}
+
+export const SIMULATION_DEFAULT_WEEKS = 4;
+export const SIMULATION_MAX_WEEKS = 12;
+
+/** Most recent bookings replayed per run; each one costs a full context build. */
+export const SIMULATION_MAX_BOOKINGS = 1000;
+
+/** Affected bookings listed individually in the report. */
+const SIMULATION_MAX_LISTED = 200;
+
+/** Same shape as one entry of POST /api/rules/facility/:facilityId/bulk. */
+export interface ProposedRuleInput {
+  ruleCode: string;
+  ruleConfig?: Record<string, any>;
+  isEnabled?: boolean;
+  appliesToCourtIds?: string[] | null;
+  appliesToTierIds?: string[] | null;
+}
+
+export interface SimulateRuleChangesParams {
+  facilityId: string;
+  rules: ProposedRuleInput[];
+  /** Proposed facilities.booking_rules; omitted = keep the stored one. */
+  bookingRules?: Record<string, unknown> | null;
+  weeks?: number;
+}
+
+export interface SimulationGroup {
+  blocked: number;
+  warned: number;
+  members: number;
+}
+
+export interface SimulationRuleGroup extends SimulationGroup {
+  ruleCode: string;
+  ruleName: string;
+}
+
+export interface SimulationTierGroup extends SimulationGroup {
+  tierId: string | null;
+  tierName: string;
+}
+
+export interface SimulatedBooking {
+  bookingId: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  courtName: string | null;
+  userId: string;
+  memberName: string;
+  tierName: string;
+  outcome: 'blocked' | 'warned';
+  /** Allowed by today's rules, blocked by the proposed ones. */
+  newlyBlocked: boolean;
+  ruleCodes: string[];
+  messages: string[];
+}
+
+export interface RuleSimulationReport {
+  weeks: number;
+  fromDate: string;
+  toDate: string;
+  totals: {
+    replayed: number;
+    blocked: number;
+    warned: number;
+    newlyBlocked: number;
+    /** Blocked by today's rules but allowed by the proposed ones. */
+    newlyAllowed: number;
+    membersAffected: number;
+    /** Bookings that could not be replayed (deleted court, member, etc.). */
+    skipped: number;
+  };
+  /** True when more bookings fell in the window than were replayed. */
+  truncated: boolean;
+  byRule: SimulationRuleGroup[];
+  byTier: SimulationTierGroup[];
+  bookings: SimulatedBooking[];
+}
+
+interface ReplayBooking {
+  id: string;
+  userId: string;
+  courtId: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  durationMinutes: number;
+  bookingType: string | null;
+  activityType: string | null;
+  createdAt: Date;
+  courtName: string | null;
+  memberName: string | null;
+}
+
+/**
+ * Turn a bulk-shaped payload into what fetchFacilityWithRules would return
+ * after the bulk save: enabled, engine-supported codes only, in evaluation order.
+ */
+async function buildProposedRuleConfigs(
+  facilityId: string,
+  rules: ProposedRuleInput[]
+): Promise<FacilityRuleConfig[]> {
+  const allowed = new Set<string>(ALLOWED_RULE_CODES);
+  const byCode = new Map<string, ProposedRuleInput>();
+  for (const rule of rules) {
+    if (!rule || typeof rule.ruleCode !== 'string') continue;
+    if (rule.isEnabled === false || !allowed.has(rule.ruleCode)) continue;
+    byCode.set(rule.ruleCode, rule);
+  }
+  if (byCode.size === 0) return [];
+
+  const defs = await query(
+    `SELECT id, rule_code as "ruleCode", rule_category as "ruleCategory",
+            rule_name as "ruleName", failure_message_template as "failureMessageTemplate"
+     FROM booking_rule_definitions
+     WHERE rule_code = ANY($1::text[])
+     ORDER BY evaluation_order`,
+    [Array.from(byCode.keys())]
+  );
+
+  return defs.rows.map((def: any) => {
+    const rule = byCode.get(def.ruleCode)!;
+    return {
+      id: `proposed-${def.ruleCode}`,
+      facilityId,
+      ruleDefinitionId: def.id,
+      ruleCode: def.ruleCode,
+      ruleCategory: def.ruleCategory,
+      ruleName: def.ruleName,
+      ruleConfig: rule.ruleConfig || {},
+      isEnabled: true,
+      appliesToCourtIds: rule.appliesToCourtIds || undefined,
+      appliesToTierIds: rule.appliesToTierIds || undefined,
+      priority: 0,
+      failureMessageTemplate: def.failureMessageTemplate || undefined,
+    };
+  });
+}
+
+/** Only bookings that already existed when `booking` was made count toward its limits. */
+function asOfBooking(context: RuleContext, booking: ReplayBooking, timezone: string): RuleContext {
+  const madeAt = new Date(booking.createdAt).getTime();
+  const existedThen = (b: BookingWithDetails) => new Date(b.createdAt).getTime() < madeAt;
+  return {
+    ...context,
+    existingBookings: {
+      user: context.existingBookings.user.filter(existedThen),
+      household: context.existingBookings.household.filter(existedThen),
+      court: context.existingBookings.court.filter(existedThen),
+    },
+    currentDateTime: getFacilityLocalNow(timezone, new Date(booking.createdAt)),
+  };
+}
+
+/** Engine status checks (SYS-*) reflect the member today, not the rule change. */
+function ruleFailures(results: RuleResult[]): RuleResult[] {
+  return results.filter((r) => !r.ruleCode.startsWith('SYS'));
+}
+
+function outcomeOf(result: EvaluationResult): { blockers: RuleResult[]; warnings: RuleResult[] } {
+  return { blockers: ruleFailures(result.blockers), warnings: ruleFailures(result.warnings) };
+}
+
+function addToGroup<T extends SimulationGroup>(
+  groups: Map<string, T & { memberIds: Set<string> }>,
+  key: string,
+  init: () => T,
+  userId: string,
+  blocked: boolean
+) {
+  let group = groups.get(key);
+  if (!group) {
+    group = { ...init(), memberIds: new Set<string>() };
+    groups.set(key, group);
+  }
+  if (blocked) group.blocked += 1;
+  else group.warned += 1;
+  group.memberIds.add(userId);
+}
+
+function finishGroups<T extends SimulationGroup>(groups: Map<string, T & { memberIds: Set<string> }>): T[] {
+  return Array.from(groups.values())
+    .map(({ memberIds, ...group }) => ({ ...group, members: memberIds.size }) as unknown as T)
+    .sort((a, b) => b.blocked - a.blocked || b.warned - a.warned);
+}
+
+/**
+ * Replay the last `weeks` weeks of bookings at a facility against a proposed
+ * rule set and report which ones it would have blocked or warned on.
+ */
+export async function simulateRuleChanges(params: SimulateRuleChangesParams): Promise<RuleSimulationReport> {
+  const { facilityId } = params;
+  if (!Array.isArray(params.rules)) {
+    throw new RuleSimulationError('rules must be an array');
+  }
+  const weeks = params.weeks ?? SIMULATION_DEFAULT_WEEKS;
+  if (!Number.isInteger(weeks) || weeks < 1 || weeks > SIMULATION_MAX_WEEKS) {
+    throw new RuleSimulationError(`weeks must be a whole number from 1 to ${SIMULATION_MAX_WEEKS}`);
+  }
+  if (params.bookingRules !== undefined && params.bookingRules !== null && typeof params.bookingRules !== 'object') {
+    throw new RuleSimulationError('bookingRules must be an object');
+  }
+
+  const facilityResult = await query(
+    `SELECT timezone,
+            TO_CHAR(CURRENT_DATE - ($2::int * 7), 'YYYY-MM-DD') as "fromDate",
+            TO_CHAR(CURRENT_DATE, 'YYYY-MM-DD') as "toDate"
+     FROM facilities WHERE id = $1`,
+    [facilityId, weeks]
+  );
+  if (facilityResult.rows.length === 0) {
+    throw new RuleSimulationError('Facility not found', 404);
+  }
+  const { fromDate, toDate } = facilityResult.rows[0];
+  const timezone: string = facilityResult.rows[0].timezone || 'America/New_York';
+
+  const [proposedRules, storedPeakSlots, bookingsResult] = await Promise.all([
+    buildProposedRuleConfigs(facilityId, params.rules),
+    fetchPeakHoursSlots(facilityId),
+    query(
+      `SELECT b.id, b.user_id as "userId", b.court_id as "courtId",
+              TO_CHAR(b.booking_date, 'YYYY-MM-DD') as "bookingDate",
+              b.start_time as "startTime", b.end_time as "endTime",
+              b.duration_minutes as "durationMinutes",
+              b.booking_type as "bookingType", b.activity_type as "activityType",
+              b.created_at as "createdAt",
+              c.name as "courtName", u.full_name as "memberName"
+       FROM bookings b
+       JOIN courts c ON c.id = b.court_id
+       LEFT JOIN users u ON u.id = b.user_id
+       WHERE b.facility_id = $1
+         AND b.status != 'cancelled'
+         AND b.booking_date BETWEEN $2::date AND $3::date
+       ORDER BY b.booking_date DESC, b.start_time DESC
+       LIMIT $4`,
+      [facilityId, fromDate, toDate, SIMULATION_MAX_BOOKINGS + 1]
+    ),
+  ]);
+
+  const truncated = bookingsResult.rows.length > SIMULATION_MAX_BOOKINGS;
+  const replay: ReplayBooking[] = bookingsResult.rows.slice(0, SIMULATION_MAX_BOOKINGS);
+
+  const proposedFacilityPatch: Partial<FacilityWithRules> = { rules: proposedRules };
+  if (params.bookingRules !== undefined) {
+    Object.assign(proposedFacilityPatch, parseStoredFacilityBookingRules(params.bookingRules));
+  }
+
+  const byRule = new Map<string, SimulationRuleGroup & { memberIds: Set<string> }>();
+  const byTier = new Map<string, SimulationTierGroup & { memberIds: Set<string> }>();
+  const affectedMembers = new Set<string>();
+  const listed: SimulatedBooking[] = [];
+  const totals = {
+    replayed: 0,
+    blocked: 0,
+    warned: 0,
+    newlyBlocked: 0,
+    newlyAllowed: 0,
+    membersAffected: 0,
+    skipped: 0,
+  };
+
+  // One at a time: each context build is ~10 queries and this runs on the
+  // shared pool alongside live booking traffic.
+  for (const booking of replay) {
+    let current: RuleContext;
+    try {
+      const built = await buildRuleContext({
+        userId: booking.userId,
+        courtId: booking.courtId,
+        facilityId,
+        bookingDate: booking.bookingDate,
+        startTime: booking.startTime,
+        endTime: booking.endTime,
+        durationMinutes: booking.durationMinutes,
+        bookingType: booking.bookingType || undefined,
+        activityType: booking.activityType || undefined,
+        excludeBookingId: booking.id,
+      });
+      current = asOfBooking(built, booking, timezone);
+    } catch (error) {
+      console.warn(`Rule simulation skipped booking ${booking.id}:`, error);
+      totals.skipped += 1;
+      continue;
+    }
+
+    const proposedFacility: FacilityWithRules = { ...current.facility, ...proposedFacilityPatch };
+    const peak = resolvePeakHours(current.request, current.court, proposedFacility, storedPeakSlots);
+    const proposed: RuleContext = {
+      ...current,
+      facility: proposedFacility,
+      isPrimeTime: peak.isPrimeTime,
+      peakHoursSlots: peak.peakHoursSlots,
+      activePeakHoursSlot: peak.activePeakHoursSlot || undefined,
+    };
+
+    const [before, after] = await Promise.all([
+      rulesEngine.evaluateContext(current).then(outcomeOf),
+      rulesEngine.evaluateContext(proposed).then(outcomeOf),
+    ]);
+    totals.replayed += 1;
+
+    const wasBlocked = before.blockers.length > 0;
+    const isBlocked = after.blockers.length > 0;
+    if (wasBlocked && !isBlocked) totals.newlyAllowed += 1;
+    if (!isBlocked && after.warnings.length === 0) continue;
+
+    const tierId = current.user.tier?.id ?? null;
+    const tierName = current.user.tier?.tierName || 'No tier';
+    const failures = isBlocked ? after.blockers : after.warnings;
+
+    if (isBlocked) totals.blocked += 1;
+    else totals.warned += 1;
+    if (isBlocked && !wasBlocked) totals.newlyBlocked += 1;
+    affectedMembers.add(booking.userId);
+
+    for (const failure of failures) {
+      addToGroup(
+        byRule,
+        failure.ruleCode,
+        () => ({ ruleCode: failure.ruleCode, ruleName: failure.ruleName, blocked: 0, warned: 0, members: 0 }),
+        booking.userId,
+        isBlocked
+      );
+    }
+    addToGroup(
+      byTier,
+      tierId ?? 'none',
+      () => ({ tierId, tierName, blocked: 0, warned: 0, members: 0 }),
+      booking.userId,
+      isBlocked
+    );
+
+    if (listed.length < SIMULATION_MAX_LISTED) {
+      listed.push({
+        bookingId: booking.id,
+        bookingDate: booking.bookingDate,
+        startTime: booking.startTime,
+        endTime: booking.endTime,
+        courtName: booking.courtName,
+        userId: booking.userId,
+        memberName: booking.memberName || current.user.fullName,
+        tierName,
+        outcome: isBlocked ? 'blocked' : 'warned',
+        newlyBlocked: isBlocked && !wasBlocked,
+        ruleCodes: Array.from(new Set(failures.map((f) => f.ruleCode))),
+        messages: Array.from(new Set(failures.map((f) => f.message).filter((m): m is string => !!m))),
+      });
+    }
+  }
+
+  totals.membersAffected = affectedMembers.size;
+
+  return {
+    weeks,
+    fromDate,
+    toDate,
+    totals,
+    truncated,
+    byRule: finishGroups(byRule),
+    byTier: finishGroups(byTier),
+    bookings: listed,
+  };
+}
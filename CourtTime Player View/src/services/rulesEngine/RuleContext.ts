@@ -22,8 +22,10 @@ import {
   HouseholdMember,
   BookingWithDetails,
   AccountStrike,
-  BookingCancellation
+  BookingCancellation,
+  GuestContext
 } from './types';
+import { getGuestVisitsForRules, resolveRequestedGuests } from '../guestRegistryService';
 import { coerceDayOfWeekList, getDayOfWeek, timeRangesOverlap } from './utils/timeUtils';
 import { normalizeAddress } from './utils/householdUtils';
 
@@ -496,7 +498,7 @@ export function parseStoredFacilityBookingRules(bookingRulesCell: unknown): {
   return { bookingRulesRaw, simplifiedBookingRules };
 }
 
-const ALLOWED_RULE_CODES = [
+export const ALLOWED_RULE_CODES = [
   'ACC-002',
   'ACC-005',
   'CRT-005',
@@ -504,7 +506,9 @@ const ALLOWED_RULE_CODES = [
   'CRT-001',
   'CRT-002',
   'HH-002',
-  'HH-003'
+  'HH-003',
+  'ACC-012',
+  'ACC-013'
 ] as const;
 
 /**
@@ -513,9 +517,11 @@ const ALLOWED_RULE_CODES = [
  * times are stored as facility-local (e.g., "16:00" means 4 PM EST).
  * This function returns a Date whose year/month/day/hour/minute match the
  * facility's current local time, so comparisons with combineDateAndTime work correctly.
+ * Pass `at` to express some other instant the same way (the rule simulator
+ * replays each booking as of when it was made).
  */
-export function getFacilityLocalNow(timezone: string): Date {
-  const now = new Date();
+export function getFacilityLocalNow(timezone: string, at: Date = new Date()): Date {
+  const now = at;
   // Format current time in the facility's timezone
   const parts = new Intl.DateTimeFormat('en-US', {
     timeZone: timezone,
@@ -582,7 +588,8 @@ export async function buildRuleContext(request: BookingRequest): Promise<RuleCon
     strikes,
     recentCancellations,
     blackouts,
-    peakHoursSlots
+    peakHoursSlots,
+    guests
   ] = await Promise.all([
     fetchUserWithTier(request.userId, request.facilityId),
     fetchCourtWithConfig(request.courtId),
@@ -593,7 +600,8 @@ export async function buildRuleContext(request: BookingRequest): Promise<RuleCon
     fetchUserStrikes(request.userId, request.facilityId),
     fetchRecentCancellations(request.userId, request.facilityId),
     fetchCourtBlackouts(request.courtId, request.facilityId, request.bookingDate),
-    fetchPeakHoursSlots(request.facilityId)
+    fetchPeakHoursSlots(request.facilityId),
+    fetchGuestContext(request)
   ]);
 
   // Fetch household bookings if household exists
@@ -623,36 +631,8 @@ export async function buildRuleContext(request: BookingRequest): Promise<RuleCon
     }
   }
 
-  // Peak detection/enforcement only when the facility has Peak Hours enabled.
-  // Stale slot rows, CRT windows, or court prime_time_* must not surface as peak when off.
-  const peakHoursEnabled = isFacilityPeakHoursEnabled(facility);
-  let combinedPeakHoursSlots: PeakHoursSlot[] = [];
-  let activePeakHoursSlot: PeakHoursSlot | null = null;
-  let bookingIsPrimeTime = false;
-
-  if (peakHoursEnabled) {
-    const slotsFromRuleEngine = extractPeakHoursSlotsFromRuleConfigs(facility.rules || []);
-    const basePeakSlots = mergePeakHoursSlots(peakHoursSlots, slotsFromRuleEngine);
-    const slotsFromSimplified = peakHoursSlotsFromSimplifiedBookingRules(facility.simplifiedBookingRules);
-    combinedPeakHoursSlots = mergePeakHoursSlots(slotsFromSimplified, basePeakSlots);
-
-    activePeakHoursSlot = findApplicablePeakHoursSlot(
-      combinedPeakHoursSlots,
-      request.courtId,
-      request.bookingDate,
-      request.startTime,
-      request.endTime
-    );
-    // Fall back to legacy court operating config peak-hours when no slot policy is configured.
-    const dayOfWeek = getDayOfWeek(request.bookingDate);
-    const dayConfig = court.operatingConfig?.find(c => c.dayOfWeek === dayOfWeek);
-    const isLegacyPrime = Boolean(
-      dayConfig?.primeTimeStart &&
-      dayConfig?.primeTimeEnd &&
-      timeRangesOverlap(request.startTime, request.endTime, dayConfig.primeTimeStart, dayConfig.primeTimeEnd)
-    );
-    bookingIsPrimeTime = Boolean(activePeakHoursSlot || isLegacyPrime);
-  }
+  const { peakHoursSlots: combinedPeakHoursSlots, activePeakHoursSlot, isPrimeTime: bookingIsPrimeTime } =
+    resolvePeakHours(request, court, facility, peakHoursSlots);
 
   // Use facility-local time for currentDateTime so comparisons with
   // combineDateAndTime (which uses local time components) are correct
@@ -677,10 +657,85 @@ export async function buildRuleContext(request: BookingRequest): Promise<RuleCon
     currentDateTime,
     isPrimeTime: bookingIsPrimeTime,
     peakHoursSlots: combinedPeakHoursSlots,
-    activePeakHoursSlot: activePeakHoursSlot || undefined
+    activePeakHoursSlot: activePeakHoursSlot || undefined,
+    guests
+  };
+}
+
+/**
+ * Requested guests matched to the registry, plus this year's counted visits
+ * by the host or by any of them. Skipped entirely when no guests are named.
+ */
+async function fetchGuestContext(request: BookingRequest): Promise<GuestContext> {
+  if (!request.guests?.length) return { requested: [], visits: [] };
+  const requested = await resolveRequestedGuests(request.facilityId, request.guests);
+  const visits = await getGuestVisitsForRules({
+    facilityId: request.facilityId,
+    hostUserId: request.userId,
+    guestIds: requested.map((g) => g.guestId).filter((id): id is string => !!id),
+    bookingDate: request.bookingDate
+  });
+  return { requested, visits };
+}
+
+/**
+ * Peak slots and prime-time status for a request. Exported so the rule
+ * simulator can re-derive them against a proposed rule set.
+ */
+export function resolvePeakHours(
+  request: Pick<BookingRequest, 'courtId' | 'bookingDate' | 'startTime' | 'endTime'>,
+  court: CourtWithConfig,
+  facility: FacilityWithRules,
+  storedPeakHoursSlots: PeakHoursSlot[]
+): { peakHoursSlots: PeakHoursSlot[]; activePeakHoursSlot: PeakHoursSlot | null; isPrimeTime: boolean } {
+  // Peak detection/enforcement only when the facility has Peak Hours enabled.
+  // Stale slot rows, CRT windows, or court prime_time_* must not surface as peak when off.
+  if (!isFacilityPeakHoursEnabled(facility)) {
+    return { peakHoursSlots: [], activePeakHoursSlot: null, isPrimeTime: false };
+  }
+
+  const slotsFromRuleEngine = extractPeakHoursSlotsFromRuleConfigs(facility.rules || []);
+  const basePeakSlots = mergePeakHoursSlots(storedPeakHoursSlots, slotsFromRuleEngine);
+  const slotsFromSimplified = peakHoursSlotsFromSimplifiedBookingRules(facility.simplifiedBookingRules);
+  const combinedPeakHoursSlots = mergePeakHoursSlots(slotsFromSimplified, basePeakSlots);
+
+  const activePeakHoursSlot = findApplicablePeakHoursSlot(
+    combinedPeakHoursSlots,
+    request.courtId,
+    request.bookingDate,
+    request.startTime,
+    request.endTime
+  );
+  // Fall back to legacy court operating config peak-hours when no slot policy is configured.
+  const dayOfWeek = getDayOfWeek(request.bookingDate);
+  const dayConfig = court.operatingConfig?.find(c => c.dayOfWeek === dayOfWeek);
+  const isLegacyPrime = Boolean(
+    dayConfig?.primeTimeStart &&
+    dayConfig?.primeTimeEnd &&
+    timeRangesOverlap(request.startTime, request.endTime, dayConfig.primeTimeStart, dayConfig.primeTimeEnd)
+  );
+  return {
+    peakHoursSlots: combinedPeakHoursSlots,
+    activePeakHoursSlot,
+    isPrimeTime: Boolean(activePeakHoursSlot || isLegacyPrime),
   };
 }
 
+/**
+ * Whether a slot falls in peak hours, decided exactly as booking validation
+ * decides it. Court pricing uses this for its peak / off-peak rates.
+ */
+export async function isPeakHoursSlot(
+  slot: Pick<BookingRequest, 'facilityId' | 'courtId' | 'bookingDate' | 'startTime' | 'endTime'>
+): Promise<boolean> {
+  const [court, facility, peakHoursSlots] = await Promise.all([
+    fetchCourtWithConfig(slot.courtId),
+    fetchFacilityWithRules(slot.facilityId),
+    fetchPeakHoursSlots(slot.facilityId),
+  ]);
+  return resolvePeakHours(slot, court, facility, peakHoursSlots).isPrimeTime;
+}
+
 /**
  * Peak slots saved on `facilities.booking_rules` (admin "simplified" shape).
  * When `hasPeakHours` is off, returns [] so stale slot arrays are ignored.
@@ -820,7 +875,7 @@ function normalizePeakHoursSlots(rawConfig: any): PeakHoursSlot[] {
   return [];
 }
 
-async function fetchPeakHoursSlots(facilityId: string): Promise<PeakHoursSlot[]> {
+export async function fetchPeakHoursSlots(facilityId: string): Promise<PeakHoursSlot[]> {
   const result = await query(
     `SELECT rule_config as "ruleConfig"
      FROM facility_rules
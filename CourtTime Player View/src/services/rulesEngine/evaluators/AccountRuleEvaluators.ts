@@ -1,5 +1,5 @@
 /**
- * Account Rule Evaluators (ACC-001 to ACC-010)
+ * Account Rule Evaluators (ACC-001 to ACC-013)
  */
 
 import { query } from '../../../database/connection';
@@ -13,7 +13,9 @@ import {
   ACC004Config,
   ACC005Config,
   ACC009Config,
-  ACC010Config
+  ACC010Config,
+  ACC012Config,
+  ACC013Config
 } from '../types';
 import {
   getTimeWindow,
@@ -21,7 +23,6 @@ import {
   timeRangesOverlap,
   addDays,
   getDayOfWeek,
-  getTodayYmdInTimeZone,
   diffCalendarDaysYmd,
   addCalendarDaysYmd,
   coerceDayOfWeekList,
@@ -256,8 +257,8 @@ const ACC005: RuleEvaluator = {
         ? Math.min(facilityCap, Math.floor(tierN))
         : facilityCap;
 
-    const tz = context.facility.timezone || 'America/New_York';
-    const facilityTodayYmd = getTodayYmdInTimeZone(tz);
+    // currentDateTime carries facility-local components (see getFacilityLocalNow).
+    const facilityTodayYmd = formatDate(context.currentDateTime);
     const bookingYmd = context.request.bookingDate;
     const daysAhead = diffCalendarDaysYmd(facilityTodayYmd, bookingYmd);
 
@@ -381,6 +382,88 @@ const ACC010: RuleEvaluator = {
   }
 };
 
+/** Counted guest visits for the rule, minus the booking being edited (it is re-counted as requested). */
+function countableGuestVisits(context: RuleContext) {
+  const excluded = context.request.excludeBookingId;
+  return (context.guests?.visits ?? []).filter((visit) => visit.bookingId !== excluded);
+}
+
+/**
+ * ACC-012: Guest Visits Per Year
+ * Each guest on a booking is one visit against the host's calendar-year allowance.
+ */
+const ACC012: RuleEvaluator = {
+  ruleCode: 'ACC-012',
+  ruleName: 'Guest Visits Per Year',
+  category: 'account',
+
+  async evaluate(context: RuleContext, config: ACC012Config): Promise<RuleResult> {
+    const requested = context.guests?.requested.length ?? 0;
+    const maxVisits = config.max_guest_visits ?? -1;
+    if (requested === 0 || maxVisits === -1) {
+      return { ruleCode: 'ACC-012', ruleName: 'Guest Visits Per Year', passed: true, severity: 'error' };
+    }
+
+    const year = context.request.bookingDate.slice(0, 4);
+    const current = countableGuestVisits(context)
+      .filter((visit) => visit.hostUserId === context.request.userId)
+      .length;
+
+    if (current + requested > maxVisits) {
+      const remaining = Math.max(0, maxVisits - current);
+      return {
+        ruleCode: 'ACC-012',
+        ruleName: 'Guest Visits Per Year',
+        passed: false,
+        severity: 'error',
+        message: remaining > 0
+          ? `You have ${remaining} guest visit${remaining === 1 ? '' : 's'} left for ${year} (${current}/${maxVisits} used).`
+          : `You have hosted ${current} of your ${maxVisits} guest visits for ${year}.`,
+        details: { current, max: maxVisits, requested, year }
+      };
+    }
+
+    return { ruleCode: 'ACC-012', ruleName: 'Guest Visits Per Year', passed: true, severity: 'error' };
+  }
+};
+
+/**
+ * ACC-013: Visits Per Guest Per Year
+ * The same guest can only visit so often in a calendar year, whoever hosts them.
+ */
+const ACC013: RuleEvaluator = {
+  ruleCode: 'ACC-013',
+  ruleName: 'Visits Per Guest Per Year',
+  category: 'account',
+
+  async evaluate(context: RuleContext, config: ACC013Config): Promise<RuleResult> {
+    const maxVisits = config.max_visits_per_guest ?? -1;
+    if (maxVisits === -1) {
+      return { ruleCode: 'ACC-013', ruleName: 'Visits Per Guest Per Year', passed: true, severity: 'error' };
+    }
+
+    const year = context.request.bookingDate.slice(0, 4);
+    const visits = countableGuestVisits(context);
+    for (const guest of context.guests?.requested ?? []) {
+      // First-time guests have no registry row yet, so no prior visits
+      if (!guest.guestId) continue;
+      const current = visits.filter((visit) => visit.guestId === guest.guestId).length;
+      if (current >= maxVisits) {
+        return {
+          ruleCode: 'ACC-013',
+          ruleName: 'Visits Per Guest Per Year',
+          passed: false,
+          severity: 'error',
+          message: `${guest.name} has already visited ${current} of ${maxVisits} times allowed in ${year}.`,
+          details: { guestId: guest.guestId, guestName: guest.name, current, max: maxVisits, year }
+        };
+      }
+    }
+
+    return { ruleCode: 'ACC-013', ruleName: 'Visits Per Guest Per Year', passed: true, severity: 'error' };
+  }
+};
+
 // Export all account evaluators
 export const accountEvaluators: RuleEvaluator[] = [
   ACC001,
@@ -389,5 +472,7 @@ export const accountEvaluators: RuleEvaluator[] = [
   ACC004,
   ACC005,
   ACC009,
-  ACC010
+  ACC010,
+  ACC012,
+  ACC013
 ];
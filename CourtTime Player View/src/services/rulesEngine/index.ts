@@ -30,7 +30,6 @@ import {
   coerceDayOfWeekList,
   formatDate,
   getDayOfWeek,
-  getTodayYmdInTimeZone,
   minutesBetween,
   timeRangesOverlap
 } from './utils/timeUtils';
@@ -53,7 +52,9 @@ export class RulesEngine {
     'CRT-001',
     'CRT-002',
     'HH-002',
-    'HH-003'
+    'HH-003',
+    'ACC-012',
+    'ACC-013'
   ]);
 
   constructor() {
@@ -92,236 +93,244 @@ export class RulesEngine {
     try {
       // Build context (fetch user, court, facility, existing bookings, etc.)
       const context = await buildRuleContext(request);
-
-      // === Pre-rule hard blocks (facility, membership, court status) ===
-
-      // Block if facility is not active
-      const facilityStatus = context.facility.status || 'active';
-      if (facilityStatus === 'suspended' || facilityStatus === 'closed') {
-        const statusLabel = facilityStatus === 'suspended' ? 'temporarily suspended' : 'permanently closed';
-        return {
-          allowed: false,
-          results: [],
-          blockers: [{
-            ruleCode: 'SYS-FACILITY',
-            ruleName: 'Facility Status',
-            passed: false,
-            severity: 'error',
-            message: `${context.facility.name} is ${statusLabel} and is not accepting reservations at this time.`
-          }],
-          warnings: [],
-          isPrimeTime: false
-        };
-      }
-      if (facilityStatus === 'pending') {
+      return await this.evaluateContext(context);
+    } catch (error: any) {
+      // Gracefully handle missing tables - allow booking to proceed
+      // This enables the app to work before migration is run
+      if (error?.code === '42P01') { // PostgreSQL "relation does not exist" error
+        console.warn('Rules engine tables not found. Skipping rule validation. Run migration 007_booking_rules_engine.sql to enable rules.');
         return {
-          allowed: false,
+          allowed: true,
           results: [],
-          blockers: [{
-            ruleCode: 'SYS-FACILITY',
-            ruleName: 'Facility Status',
+          blockers: [],
+          warnings: [{
+            ruleCode: 'SYSTEM',
+            ruleName: 'Rules Engine',
             passed: false,
-            severity: 'error',
-            message: `${context.facility.name} is still being set up and is not yet accepting reservations.`
+            severity: 'warning',
+            message: 'Rule validation skipped - rules engine not configured'
           }],
-          warnings: [],
           isPrimeTime: false
         };
       }
+      // Re-throw other errors
+      console.error('Error in rules engine evaluation:', error);
+      throw error;
+    }
+  }
 
-      // Block if member is suspended or expired
-      const memberStatus = context.user.membershipStatus;
-      if (memberStatus === 'suspended') {
-        const suspendedUntil = context.user.suspendedUntil;
-        const untilMsg = suspendedUntil
-          ? ` until ${new Date(suspendedUntil).toLocaleDateString()}`
-          : '';
-        return {
-          allowed: false,
-          results: [],
-          blockers: [{
-            ruleCode: 'SYS-MEMBER',
-            ruleName: 'Membership Status',
-            passed: false,
-            severity: 'error',
-            message: `Your membership at ${context.facility.name} is suspended${untilMsg}. Please contact the facility for assistance.`
-          }],
-          warnings: [],
-          isPrimeTime: false
-        };
-      }
-      if (memberStatus === 'expired') {
-        return {
-          allowed: false,
-          results: [],
-          blockers: [{
-            ruleCode: 'SYS-MEMBER',
-            ruleName: 'Membership Status',
-            passed: false,
-            severity: 'error',
-            message: `Your membership at ${context.facility.name} has expired. Please renew your membership to make reservations.`
-          }],
-          warnings: [],
-          isPrimeTime: false
-        };
-      }
-      if (memberStatus === 'pending') {
-        return {
-          allowed: false,
-          results: [],
-          blockers: [{
-            ruleCode: 'SYS-MEMBER',
-            ruleName: 'Membership Status',
-            passed: false,
-            severity: 'error',
-            message: `Your membership at ${context.facility.name} is pending approval. You cannot make reservations until your membership is approved.`
-          }],
-          warnings: [],
-          isPrimeTime: false
-        };
-      }
+  /**
+   * Evaluate an already-built context. The rule simulator calls this directly
+   * with a context whose rules, clock and existing bookings have been swapped
+   * for a what-if replay; live bookings always go through evaluate().
+   */
+  async evaluateContext(context: RuleContext): Promise<EvaluationResult> {
+    // === Pre-rule hard blocks (facility, membership, court status) ===
 
-      // Block if court is in maintenance or closed
-      const courtStatus = context.court.status;
-      if (courtStatus === 'maintenance') {
-        return {
-          allowed: false,
-          results: [],
-          blockers: [{
-            ruleCode: 'SYS-COURT',
-            ruleName: 'Court Status',
-            passed: false,
-            severity: 'error',
-            message: `${context.court.name} is currently under maintenance and not available for booking.`
-          }],
-          warnings: [],
-          isPrimeTime: false
-        };
-      }
-      if (courtStatus === 'closed') {
-        return {
-          allowed: false,
-          results: [],
-          blockers: [{
-            ruleCode: 'SYS-COURT',
-            ruleName: 'Court Status',
-            passed: false,
-            severity: 'error',
-            message: `${context.court.name} is closed and not available for booking.`
-          }],
-          warnings: [],
-          isPrimeTime: false
-        };
-      }
+    // Block if facility is not active
+    const facilityStatus = context.facility.status || 'active';
+    if (facilityStatus === 'suspended' || facilityStatus === 'closed') {
+      const statusLabel = facilityStatus === 'suspended' ? 'temporarily suspended' : 'permanently closed';
+      return {
+        allowed: false,
+        results: [],
+        blockers: [{
+          ruleCode: 'SYS-FACILITY',
+          ruleName: 'Facility Status',
+          passed: false,
+          severity: 'error',
+          message: `${context.facility.name} is ${statusLabel} and is not accepting reservations at this time.`
+        }],
+        warnings: [],
+        isPrimeTime: false
+      };
+    }
+    if (facilityStatus === 'pending') {
+      return {
+        allowed: false,
+        results: [],
+        blockers: [{
+          ruleCode: 'SYS-FACILITY',
+          ruleName: 'Facility Status',
+          passed: false,
+          severity: 'error',
+          message: `${context.facility.name} is still being set up and is not yet accepting reservations.`
+        }],
+        warnings: [],
+        isPrimeTime: false
+      };
+    }
+
+    // Block if member is suspended or expired
+    const memberStatus = context.user.membershipStatus;
+    if (memberStatus === 'suspended') {
+      const suspendedUntil = context.user.suspendedUntil;
+      const untilMsg = suspendedUntil
+        ? ` until ${new Date(suspendedUntil).toLocaleDateString()}`
+        : '';
+      return {
+        allowed: false,
+        results: [],
+        blockers: [{
+          ruleCode: 'SYS-MEMBER',
+          ruleName: 'Membership Status',
+          passed: false,
+          severity: 'error',
+          message: `Your membership at ${context.facility.name} is suspended${untilMsg}. Please contact the facility for assistance.`
+        }],
+        warnings: [],
+        isPrimeTime: false
+      };
+    }
+    if (memberStatus === 'expired') {
+      return {
+        allowed: false,
+        results: [],
+        blockers: [{
+          ruleCode: 'SYS-MEMBER',
+          ruleName: 'Membership Status',
+          passed: false,
+          severity: 'error',
+          message: `Your membership at ${context.facility.name} has expired. Please renew your membership to make reservations.`
+        }],
+        warnings: [],
+        isPrimeTime: false
+      };
+    }
+    if (memberStatus === 'pending') {
+      return {
+        allowed: false,
+        results: [],
+        blockers: [{
+          ruleCode: 'SYS-MEMBER',
+          ruleName: 'Membership Status',
+          passed: false,
+          severity: 'error',
+          message: `Your membership at ${context.facility.name} is pending approval. You cannot make reservations until your membership is approved.`
+        }],
+        warnings: [],
+        isPrimeTime: false
+      };
+    }
+
+    // Block if court is in maintenance or closed
+    const courtStatus = context.court.status;
+    if (courtStatus === 'maintenance') {
+      return {
+        allowed: false,
+        results: [],
+        blockers: [{
+          ruleCode: 'SYS-COURT',
+          ruleName: 'Court Status',
+          passed: false,
+          severity: 'error',
+          message: `${context.court.name} is currently under maintenance and not available for booking.`
+        }],
+        warnings: [],
+        isPrimeTime: false
+      };
+    }
+    if (courtStatus === 'closed') {
+      return {
+        allowed: false,
+        results: [],
+        blockers: [{
+          ruleCode: 'SYS-COURT',
+          ruleName: 'Court Status',
+          passed: false,
+          severity: 'error',
+          message: `${context.court.name} is closed and not available for booking.`
+        }],
+        warnings: [],
+        isPrimeTime: false
+      };
+    }
+
+    // === End pre-rule hard blocks ===
 
-      // === End pre-rule hard blocks ===
+    // Facility admins and sub-admins always bypass player reservation rules.
+    if (context.user.isFacilityAdmin || context.user.isSubAdmin) {
+      return {
+        allowed: true,
+        results: [],
+        blockers: [],
+        warnings: [],
+        isPrimeTime: context.isPrimeTime
+      };
+    }
 
-      // Facility admins and sub-admins always bypass player reservation rules.
-      if (context.user.isFacilityAdmin || context.user.isSubAdmin) {
+    // Use legacy simplified rules only as a fallback when no configured
+    // rules-engine entries exist for this facility.
+    const hasConfiguredEngineRules = Array.isArray(context.facility.rules) && context.facility.rules.length > 0;
+    const simplifiedResult = hasConfiguredEngineRules ? null : this.evaluateSimplifiedRules(context);
+    if (simplifiedResult) {
+      return simplifiedResult;
+    }
+
+    // Get applicable rules for this facility/court/tier
+    const rules = this.getApplicableRules(context);
+
+    // Days-in-advance (ACC-005) is checked first and, if violated, short-circuits every other
+    // rule below — those other rules may evaluate differently once the date is back in range,
+    // so only the days-in-advance error should surface.
+    const advanceRule = rules.find(r => r.ruleCode === 'ACC-005');
+    if (advanceRule) {
+      const advanceResult = await this.evaluateRule(advanceRule, context);
+      if (advanceResult && !advanceResult.passed) {
         return {
-          allowed: true,
-          results: [],
-          blockers: [],
+          allowed: false,
+          results: [advanceResult],
+          blockers: [advanceResult],
           warnings: [],
           isPrimeTime: context.isPrimeTime
         };
       }
+    }
 
-      // Use legacy simplified rules only as a fallback when no configured
-      // rules-engine entries exist for this facility.
-      const hasConfiguredEngineRules = Array.isArray(context.facility.rules) && context.facility.rules.length > 0;
-      const simplifiedResult = hasConfiguredEngineRules ? null : this.evaluateSimplifiedRules(context);
-      if (simplifiedResult) {
-        return simplifiedResult;
-      }
-
-      // Get applicable rules for this facility/court/tier
-      const rules = this.getApplicableRules(context);
-
-      // Days-in-advance (ACC-005) is checked first and, if violated, short-circuits every other
-      // rule below — those other rules may evaluate differently once the date is back in range,
-      // so only the days-in-advance error should surface.
-      const advanceRule = rules.find(r => r.ruleCode === 'ACC-005');
-      if (advanceRule) {
-        const advanceResult = await this.evaluateRule(advanceRule, context);
-        if (advanceResult && !advanceResult.passed) {
-          return {
-            allowed: false,
-            results: [advanceResult],
-            blockers: [advanceResult],
-            warnings: [],
-            isPrimeTime: context.isPrimeTime
-          };
-        }
-      }
+    const results: RuleResult[] = [];
 
-      const results: RuleResult[] = [];
+    // Group rules by category
+    const courtRules = rules.filter(r => r.ruleCategory === 'court');
+    const accountRules = rules.filter(r => r.ruleCategory === 'account');
+    const householdRules = rules.filter(r => r.ruleCategory === 'household');
 
-      // Group rules by category
-      const courtRules = rules.filter(r => r.ruleCategory === 'court');
-      const accountRules = rules.filter(r => r.ruleCategory === 'account');
-      const householdRules = rules.filter(r => r.ruleCategory === 'household');
+    // Evaluate court rules first (CRT-*)
+    for (const rule of courtRules) {
+      const result = await this.evaluateRule(rule, context);
+      if (result) results.push(result);
+    }
 
-      // Evaluate court rules first (CRT-*)
-      for (const rule of courtRules) {
-        const result = await this.evaluateRule(rule, context);
-        if (result) results.push(result);
-      }
+    // Evaluate account rules second (ACC-*)
+    for (const rule of accountRules) {
+      const result = await this.evaluateRule(rule, context);
+      if (result) results.push(result);
+    }
 
-      // Evaluate account rules second (ACC-*)
-      for (const rule of accountRules) {
+    // Evaluate household rules last (HH-*) - only if household exists
+    if (context.household) {
+      for (const rule of householdRules) {
         const result = await this.evaluateRule(rule, context);
         if (result) results.push(result);
       }
+    }
 
-      // Evaluate household rules last (HH-*) - only if household exists
-      if (context.household) {
-        for (const rule of householdRules) {
-          const result = await this.evaluateRule(rule, context);
-          if (result) results.push(result);
-        }
-      }
-
-      // Other engine rules skip the full simplified path. Keep simplified daily limits in force,
-      // and keep weekly limits in force when ACC-002 is absent or not tier-applicable.
-      const hasApplicableAcc002 = rules.some((r) => r.ruleCode === 'ACC-002');
-      results.push(...this.dailyAndWeeklyLimitsFromSimplifiedConfig(context, !hasApplicableAcc002));
-      results.push(...this.peakHourLimitsFromAdminBookingRules(context));
+    // Other engine rules skip the full simplified path. Keep simplified daily limits in force,
+    // and keep weekly limits in force when ACC-002 is absent or not tier-applicable.
+    const hasApplicableAcc002 = rules.some((r) => r.ruleCode === 'ACC-002');
+    results.push(...this.dailyAndWeeklyLimitsFromSimplifiedConfig(context, !hasApplicableAcc002));
+    results.push(...this.peakHourLimitsFromAdminBookingRules(context));
 
-      // Compile final result
-      const blockers = results.filter(r => !r.passed && r.severity === 'error');
-      const warnings = results.filter(r => !r.passed && r.severity === 'warning');
+    // Compile final result
+    const blockers = results.filter(r => !r.passed && r.severity === 'error');
+    const warnings = results.filter(r => !r.passed && r.severity === 'warning');
 
-      return {
-        allowed: blockers.length === 0,
-        results,
-        blockers,
-        warnings,
-        isPrimeTime: context.isPrimeTime
-      };
-    } catch (error: any) {
-      // Gracefully handle missing tables - allow booking to proceed
-      // This enables the app to work before migration is run
-      if (error?.code === '42P01') { // PostgreSQL "relation does not exist" error
-        console.warn('Rules engine tables not found. Skipping rule validation. Run migration 007_booking_rules_engine.sql to enable rules.');
-        return {
-          allowed: true,
-          results: [],
-          blockers: [],
-          warnings: [{
-            ruleCode: 'SYSTEM',
-            ruleName: 'Rules Engine',
-            passed: false,
-            severity: 'warning',
-            message: 'Rule validation skipped - rules engine not configured'
-          }],
-          isPrimeTime: false
-        };
-      }
-      // Re-throw other errors
-      console.error('Error in rules engine evaluation:', error);
-      throw error;
-    }
+    return {
+      allowed: blockers.length === 0,
+      results,
+      blockers,
+      warnings,
+      isPrimeTime: context.isPrimeTime
+    };
   }
 
   /**
@@ -629,8 +638,7 @@ export class RulesEngine {
     if (!config) return null;
 
     const blockers: RuleResult[] = [];
-    const tz = context.facility.timezone || 'America/New_York';
-    const facilityTodayYmd = getTodayYmdInTimeZone(tz);
+    const facilityTodayYmd = formatDate(context.currentDateTime);
 
     if (config.daysInAdvance?.enabled) {
       const maxDaysAhead = Number(config.daysInAdvance.limit);
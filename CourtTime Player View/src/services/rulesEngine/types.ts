@@ -34,6 +34,14 @@ export interface BookingRequest {
    * and quota checks so the slot can be reshaped without self-collision.
    */
   excludeBookingId?: string;
+  /** Guests named on the booking (bring-a-guest), for ACC-012 / ACC-013 */
+  guests?: BookingGuest[];
+}
+
+/** A guest named on a booking; email is optional and lowercased. */
+export interface BookingGuest {
+  name: string;
+  email: string | null;
 }
 
 export interface CancellationRequest {
@@ -347,6 +355,25 @@ export interface BookingCancellation {
 // RULE EVALUATION TYPES
 // =====================================================
 
+/** A requested guest matched against the facility's guest registry (null = first visit). */
+export interface RequestedGuest extends BookingGuest {
+  guestId: string | null;
+}
+
+/** A counted (non-cancelled) guest visit in the booking date's calendar year. */
+export interface GuestVisitRecord {
+  guestId: string;
+  hostUserId: string;
+  bookingId: string;
+  visitDate: string;
+}
+
+export interface GuestContext {
+  requested: RequestedGuest[];
+  /** The host's visits plus any requested guest's visits with other hosts */
+  visits: GuestVisitRecord[];
+}
+
 export interface RuleContext {
   request: BookingRequest;
   user: UserWithTier;
@@ -365,6 +392,7 @@ export interface RuleContext {
   isPrimeTime: boolean;
   peakHoursSlots: PeakHoursSlot[];
   activePeakHoursSlot?: PeakHoursSlot;
+  guests: GuestContext;
 }
 
 export interface RuleResult {
@@ -478,6 +506,16 @@ export interface ACC010Config {
   window_type: WindowType;
 }
 
+export interface ACC012Config {
+  max_guest_visits: number;
+  window_type: 'calendar_year';
+}
+
+export interface ACC013Config {
+  max_visits_per_guest: number;
+  window_type: 'calendar_year';
+}
+
 export interface CRT002Config {
   max_minutes_prime: number;
 }
@@ -0,0 +1,684 @@
+/**
+ * Prepaid session packages (migration 105, session_packages feature flag).
+ *
+ * Clubs sell packages such as "10 clinics for $200" or "20 court hours" through
+ * Stripe Connect Checkout (stripeConnectService.createSessionPackageCheckoutSession).
+ * Clinic packages count sessions and pay for one paid drill or clinic signup each;
+ * court-time packages count minutes and pay the court fee of a paid booking.
+ * Guest and ball machine fees are still charged as usual.
+ *
+ * Every change to a package's remaining units writes one session_package_ledger
+ * row while the package row is locked. Like account credit, a redemption made
+ * for a Stripe Checkout that still has something to pay is held until that
+ * checkout is paid (captureRedemptionHold) and handed back by the background job
+ * otherwise (releaseExpiredRedemptionHolds).
+ */
+
+import type { PoolClient } from 'pg';
+import { query, transaction } from '../database/connection';
+import { isFeatureEnabled } from './featureFlagService';
+import { FEATURE_FLAGS } from '../../shared/constants/featureFlags';
+
+/** Thrown for caller mistakes; `status` is the HTTP status the route should return. */
+export class SessionPackageError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'SessionPackageError';
+  }
+}
+
+export type SessionPackageKind = 'clinic' | 'court_time';
+export type SessionPackageStatus = 'pending' | 'active' | 'expired' | 'refunded' | 'cancelled';
+export type SessionPackageLedgerKind =
+  | 'purchase'
+  | 'grant'
+  | 'adjustment'
+  | 'redemption'
+  | 'redemption_reversal'
+  | 'refund'
+  | 'expiry';
+
+/** Bulletin post categories a clinic package can pay for. */
+export const CLINIC_PACKAGE_CATEGORIES = ['drill', 'clinic'] as const;
+
+export interface SessionPackageProduct {
+  id: string;
+  facilityId: string;
+  name: string;
+  description: string | null;
+  kind: SessionPackageKind;
+  /** Sessions for clinic packages, minutes for court-time packages */
+  units: number;
+  priceCents: number;
+  validDays: number | null;
+  isActive: boolean;
+}
+
+export interface SessionPackageProductInput {
+  name: string;
+  description?: string | null;
+  kind: SessionPackageKind;
+  units: number;
+  priceCents: number;
+  validDays?: number | null;
+  isActive?: boolean;
+}
+
+export interface MemberSessionPackage {
+  id: string;
+  facilityId: string;
+  userId: string;
+  productId: string | null;
+  name: string;
+  kind: SessionPackageKind;
+  unitsTotal: number;
+  unitsRemaining: number;
+  priceCentsAtPurchase: number;
+  expiresAt: string | null;
+  status: SessionPackageStatus;
+  grantedBy: string | null;
+  activatedAt: string | null;
+  createdAt: string;
+}
+
+export interface FacilitySessionPackage extends MemberSessionPackage {
+  fullName: string;
+  email: string;
+}
+
+export interface SessionPackageLedgerEntry {
+  id: string;
+  units: number;
+  unitsAfter: number;
+  kind: SessionPackageLedgerKind;
+  description: string;
+  referenceId: string | null;
+  /** A redemption held for a checkout that hasn't been paid yet */
+  pending: boolean;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+/** A redemption against one package. */
+export interface PackageRedemption {
+  packageId: string;
+  units: number;
+}
+
+const PRODUCT_COLUMNS = `
+  id,
+  facility_id AS "facilityId",
+  name,
+  description,
+  kind,
+  units,
+  price_cents AS "priceCents",
+  valid_days  AS "validDays",
+  is_active   AS "isActive"`;
+
+const PACKAGE_COLUMNS = `
+  p.id,
+  p.facility_id             AS "facilityId",
+  p.user_id                 AS "userId",
+  p.product_id              AS "productId",
+  p.name,
+  p.kind,
+  p.units_total             AS "unitsTotal",
+  p.units_remaining         AS "unitsRemaining",
+  p.price_cents_at_purchase AS "priceCentsAtPurchase",
+  p.expires_at              AS "expiresAt",
+  p.status,
+  p.granted_by              AS "grantedBy",
+  p.activated_at            AS "activatedAt",
+  p.created_at              AS "createdAt"`;
+
+export async function isSessionPackagesEnabled(facilityId: string): Promise<boolean> {
+  return isFeatureEnabled(facilityId, FEATURE_FLAGS.SESSION_PACKAGES);
+}
+
+async function requireEnabled(facilityId: string): Promise<void> {
+  if (!(await isSessionPackagesEnabled(facilityId))) {
+    throw new SessionPackageError('Session packages are not enabled for this club', 403);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Products
+// ---------------------------------------------------------------------------
+
+/** Validates and trims an admin's product form. */
+export function normalizeProductInput(input: SessionPackageProductInput): SessionPackageProductInput {
+  const name = String(input.name ?? '').trim();
+  if (!name) throw new SessionPackageError('Package name is required');
+  if (name.length > 120) throw new SessionPackageError('Package name must be 120 characters or fewer');
+  if (input.kind !== 'clinic' && input.kind !== 'court_time') {
+    throw new SessionPackageError('Package type must be clinic or court_time');
+  }
+  const units = Number(input.units);
+  if (!Number.isInteger(units) || units <= 0) {
+    throw new SessionPackageError(
+      input.kind === 'clinic' ? 'Sessions must be a positive whole number' : 'Court time must be a positive number of minutes'
+    );
+  }
+  const priceCents = Number(input.priceCents);
+  if (!Number.isInteger(priceCents) || priceCents < 0) {
+    throw new SessionPackageError('Price must be a whole number of cents');
+  }
+  const validDays = input.validDays == null || input.validDays === 0 ? null : Number(input.validDays);
+  if (validDays !== null && (!Number.isInteger(validDays) || validDays < 0)) {
+    throw new SessionPackageError('Valid days must be a positive whole number, or empty for no expiry');
+  }
+  return {
+    name,
+    description: input.description?.trim() || null,
+    kind: input.kind,
+    units,
+    priceCents,
+    validDays,
+    isActive: input.isActive ?? true,
+  };
+}
+
+export async function listProducts(
+  facilityId: string,
+  options?: { activeOnly?: boolean }
+): Promise<SessionPackageProduct[]> {
+  const result = await query(
+    `SELECT ${PRODUCT_COLUMNS}
+       FROM session_package_products
+      WHERE facility_id = $1
+        ${options?.activeOnly ? 'AND is_active = true' : ''}
+      ORDER BY kind, price_cents`,
+    [facilityId]
+  );
+  return result.rows;
+}
+
+export async function getProduct(facilityId: string, productId: string): Promise<SessionPackageProduct | null> {
+  const result = await query(
+    `SELECT ${PRODUCT_COLUMNS} FROM session_package_products WHERE facility_id = $1 AND id = $2`,
+    [facilityId, productId]
+  );
+  return result.rows[0] ?? null;
+}
+
+export async function createProduct(
+  facilityId: string,
+  input: SessionPackageProductInput
+): Promise<SessionPackageProduct> {
+  const p = normalizeProductInput(input);
+  const result = await query(
+    `INSERT INTO session_package_products
+       (facility_id, name, description, kind, units, price_cents, valid_days, is_active)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING ${PRODUCT_COLUMNS}`,
+    [facilityId, p.name, p.description, p.kind, p.units, p.priceCents, p.validDays, p.isActive]
+  );
+  return result.rows[0];
+}
+
+/** Edits a product. Packages already bought keep the terms they were bought on. */
+export async function updateProduct(
+  facilityId: string,
+  productId: string,
+  input: SessionPackageProductInput
+): Promise<SessionPackageProduct> {
+  const p = normalizeProductInput(input);
+  const result = await query(
+    `UPDATE session_package_products
+        SET name = $3, description = $4, kind = $5, units = $6, price_cents = $7,
+            valid_days = $8, is_active = $9, updated_at = NOW()
+      WHERE facility_id = $1 AND id = $2
+      RETURNING ${PRODUCT_COLUMNS}`,
+    [facilityId, productId, p.name, p.description, p.kind, p.units, p.priceCents, p.validDays, p.isActive]
+  );
+  if (result.rows.length === 0) throw new SessionPackageError('Package not found', 404);
+  return result.rows[0];
+}
+
+// ---------------------------------------------------------------------------
+// Member packages
+// ---------------------------------------------------------------------------
+
+/** The member's bought and granted packages at a club, usable ones first. */
+export async function listMemberPackages(facilityId: string, userId: string): Promise<MemberSessionPackage[]> {
+  const result = await query(
+    `SELECT ${PACKAGE_COLUMNS}
+       FROM member_session_packages p
+      WHERE p.facility_id = $1 AND p.user_id = $2 AND p.status != 'pending'
+      ORDER BY (p.status = 'active') DESC, p.expires_at ASC NULLS LAST, p.created_at DESC`,
+    [facilityId, userId]
+  );
+  return result.rows;
+}
+
+/** Every non-pending package at the club — the admin table. */
+export async function listFacilityPackages(facilityId: string): Promise<FacilitySessionPackage[]> {
+  const result = await query(
+    `SELECT ${PACKAGE_COLUMNS}, u.full_name AS "fullName", u.email
+       FROM member_session_packages p
+       JOIN users u ON u.id = p.user_id
+      WHERE p.facility_id = $1 AND p.status != 'pending'
+      ORDER BY (p.status = 'active') DESC, u.full_name, p.created_at DESC`,
+    [facilityId]
+  );
+  return result.rows;
+}
+
+export async function getPackageLedger(facilityId: string, packageId: string): Promise<SessionPackageLedgerEntry[]> {
+  const result = await query(
+    `SELECT l.id, l.units, l.units_after AS "unitsAfter", l.kind, l.description,
+            l.reference_id AS "referenceId", (l.hold_expires_at IS NOT NULL) AS pending,
+            u.full_name AS "createdByName", l.created_at AS "createdAt"
+       FROM session_package_ledger l
+       JOIN member_session_packages p ON p.id = l.package_id
+       LEFT JOIN users u ON u.id = l.created_by
+      WHERE p.facility_id = $1 AND l.package_id = $2
+      ORDER BY l.created_at DESC`,
+    [facilityId, packageId]
+  );
+  return result.rows;
+}
+
+interface LockedPackage {
+  id: string;
+  facility_id: string;
+  user_id: string;
+  kind: SessionPackageKind;
+  status: SessionPackageStatus;
+  units_total: number;
+  units_remaining: number;
+  price_cents_at_purchase: number;
+  connect_payment_id: string | null;
+}
+
+async function lockPackage(client: PoolClient, packageId: string): Promise<LockedPackage | null> {
+  const result = await client.query(
+    `SELECT id, facility_id, user_id, kind, status, units_total, units_remaining,
+            price_cents_at_purchase, connect_payment_id
+       FROM member_session_packages WHERE id = $1 FOR UPDATE`,
+    [packageId]
+  );
+  const row = result.rows[0];
+  if (!row) return null;
+  return {
+    ...row,
+    units_total: Number(row.units_total),
+    units_remaining: Number(row.units_remaining),
+    price_cents_at_purchase: Number(row.price_cents_at_purchase),
+  };
+}
+
+/** Applies one entry to a package already locked by lockPackage. Returns units left. */
+async function writeEntry(
+  client: PoolClient,
+  pkg: LockedPackage,
+  entry: {
+    units: number;
+    kind: SessionPackageLedgerKind;
+    description: string;
+    referenceId?: string | null;
+    holdExpiresAt?: Date | null;
+    createdBy?: string | null;
+  }
+): Promise<number> {
+  const unitsAfter = pkg.units_remaining + entry.units;
+  if (unitsAfter < 0) throw new SessionPackageError('Not enough left on this package');
+  await client.query(`UPDATE member_session_packages SET units_remaining = $2 WHERE id = $1`, [pkg.id, unitsAfter]);
+  await client.query(
+    `INSERT INTO session_package_ledger
+       (package_id, units, units_after, kind, description, reference_id, hold_expires_at, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+    [
+      pkg.id,
+      entry.units,
+      unitsAfter,
+      entry.kind,
+      entry.description.slice(0, 255),
+      entry.referenceId ?? null,
+      entry.holdExpiresAt ?? null,
+      entry.createdBy ?? null,
+    ]
+  );
+  pkg.units_remaining = unitsAfter;
+  return unitsAfter;
+}
+
+/**
+ * Starts a bought package once its payment lands: the units go on and the
+ * expiry clock starts now. Idempotent — the webhook and the browser redirect
+ * both call in, and the status guard makes the second a no-op.
+ */
+export async function activatePurchasedPackage(packageId: string): Promise<void> {
+  await transaction(async (client) => {
+    const pkg = await lockPackage(client, packageId);
+    if (!pkg || pkg.status !== 'pending') return;
+    await client.query(
+      `UPDATE member_session_packages
+          SET status = 'active', activated_at = NOW(),
+              expires_at = CASE WHEN valid_days IS NULL THEN NULL ELSE NOW() + valid_days * INTERVAL '1 day' END
+        WHERE id = $1`,
+      [packageId]
+    );
+    await writeEntry(client, pkg, { units: pkg.units_total, kind: 'purchase', description: 'Package purchased' });
+  });
+}
+
+/** Admin comps a package from one of the club's products — no charge, active immediately. */
+export async function grantPackage(params: {
+  facilityId: string;
+  userId: string;
+  productId: string;
+  grantedBy: string;
+  reason?: string;
+}): Promise<MemberSessionPackage> {
+  await requireEnabled(params.facilityId);
+  const product = await getProduct(params.facilityId, params.productId);
+  if (!product) throw new SessionPackageError('Package not found', 404);
+  const member = await query(
+    `SELECT 1 FROM facility_memberships WHERE facility_id = $1 AND user_id = $2`,
+    [params.facilityId, params.userId]
+  );
+  if (member.rows.length === 0) throw new SessionPackageError('Member not found', 404);
+
+  const packageId = await transaction(async (client) => {
+    const inserted = await client.query(
+      `INSERT INTO member_session_packages
+         (facility_id, user_id, product_id, name, kind, units_total, units_remaining,
+          price_cents_at_purchase, valid_days, expires_at, status, granted_by, activated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, 0, 0, $7,
+               CASE WHEN $7::int IS NULL THEN NULL ELSE NOW() + $7::int * INTERVAL '1 day' END,
+               'active', $8, NOW())
+       RETURNING id`,
+      [
+        params.facilityId,
+        params.userId,
+        product.id,
+        product.name,
+        product.kind,
+        product.units,
+        product.validDays,
+        params.grantedBy,
+      ]
+    );
+    const id: string = inserted.rows[0].id;
+    const pkg = await lockPackage(client, id);
+    await writeEntry(client, pkg!, {
+      units: product.units,
+      kind: 'grant',
+      description: params.reason?.trim() || 'Granted by the club',
+      createdBy: params.grantedBy,
+    });
+    return id;
+  });
+
+  const result = await query(`SELECT ${PACKAGE_COLUMNS} FROM member_session_packages p WHERE p.id = $1`, [packageId]);
+  return result.rows[0];
+}
+
+/** Admin adds (positive) or removes (negative) units on an active package with a reason. */
+export async function adjustPackage(params: {
+  facilityId: string;
+  packageId: string;
+  units: number;
+  reason: string;
+  adminUserId: string;
+}): Promise<number> {
+  const units = Number(params.units);
+  if (!Number.isInteger(units) || units === 0) {
+    throw new SessionPackageError('Adjustment must be a non-zero whole number');
+  }
+  const reason = String(params.reason ?? '').trim();
+  if (!reason) throw new SessionPackageError('A reason is required');
+
+  return transaction(async (client) => {
+    const pkg = await lockPackage(client, params.packageId);
+    if (!pkg || pkg.facility_id !== params.facilityId) throw new SessionPackageError('Package not found', 404);
+    if (pkg.status !== 'active') throw new SessionPackageError('Only active packages can be adjusted');
+    return writeEntry(client, pkg, {
+      units,
+      kind: 'adjustment',
+      description: reason,
+      createdBy: params.adminUserId,
+    });
+  });
+}
+
+/**
+ * What refunding a package's unused units is worth: its purchase price pro rata
+ * to what is left, never more than was paid.
+ */
+export function remainderValueCents(priceCents: number, unitsTotal: number, unitsRemaining: number): number {
+  if (priceCents <= 0 || unitsTotal <= 0 || unitsRemaining <= 0) return 0;
+  return Math.min(priceCents, Math.round((priceCents * unitsRemaining) / unitsTotal));
+}
+
+/**
+ * Closes an active package and zeroes what's left, then runs `refundMoney` with
+ * the value of those units while the package is still locked, so a failed
+ * refund leaves the package untouched. Granted packages have no value and are
+ * simply cancelled.
+ */
+export async function refundPackageRemainder<T>(
+  params: { facilityId: string; packageId: string; adminUserId: string },
+  refundMoney: (pkg: { valueCents: number; connectPaymentId: string | null; userId: string }) => Promise<T>
+): Promise<{ unitsRefunded: number; valueCents: number; result: T }> {
+  return transaction(async (client) => {
+    const pkg = await lockPackage(client, params.packageId);
+    if (!pkg || pkg.facility_id !== params.facilityId) throw new SessionPackageError('Package not found', 404);
+    if (pkg.status !== 'active') throw new SessionPackageError('Only active packages can be refunded');
+    const held = await client.query(
+      `SELECT 1 FROM session_package_ledger WHERE package_id = $1 AND hold_expires_at IS NOT NULL LIMIT 1`,
+      [pkg.id]
+    );
+    if (held.rows.length > 0) {
+      throw new SessionPackageError('This package is being used for a checkout in progress. Try again shortly.', 409);
+    }
+
+    const unitsRefunded = pkg.units_remaining;
+    const valueCents = remainderValueCents(pkg.price_cents_at_purchase, pkg.units_total, unitsRefunded);
+    const paid = pkg.connect_payment_id !== null && valueCents > 0;
+    if (unitsRefunded > 0) {
+      await writeEntry(client, pkg, {
+        units: -unitsRefunded,
+        kind: 'refund',
+        description: paid ? 'Unused units refunded' : 'Package cancelled by the club',
+        createdBy: params.adminUserId,
+      });
+    }
+    await client.query(`UPDATE member_session_packages SET status = $2 WHERE id = $1`, [
+      pkg.id,
+      paid ? 'refunded' : 'cancelled',
+    ]);
+    const result = await refundMoney({
+      valueCents: paid ? valueCents : 0,
+      connectPaymentId: pkg.connect_payment_id,
+      userId: pkg.user_id,
+    });
+    return { unitsRefunded, valueCents: paid ? valueCents : 0, result };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Redemption
+// ---------------------------------------------------------------------------
+
+/**
+ * Pays for a charge from the member's package: the live package of `kind`
+ * that expires soonest and still has `units` left. Returns null, touching
+ * nothing, when the club hasn't enabled packages or no package can cover it —
+ * packages are never split across a charge. Pass `holdExpiresAt` when part of
+ * the charge still goes through a Stripe Checkout the member may abandon.
+ */
+export async function redeemSessionPackage(params: {
+  facilityId: string;
+  userId: string;
+  kind: SessionPackageKind;
+  units: number;
+  connectPaymentId: string;
+  description: string;
+  holdExpiresAt?: Date | null;
+}): Promise<PackageRedemption | null> {
+  if (params.units <= 0) return null;
+  if (!(await isSessionPackagesEnabled(params.facilityId))) return null;
+
+  return transaction(async (client) => {
+    const candidate = await client.query(
+      `SELECT id FROM member_session_packages
+        WHERE facility_id = $1 AND user_id = $2 AND kind = $3 AND status = 'active'
+          AND units_remaining >= $4
+          AND (expires_at IS NULL OR expires_at > NOW())
+        ORDER BY expires_at ASC NULLS LAST, created_at ASC
+        LIMIT 1
+        FOR UPDATE`,
+      [params.facilityId, params.userId, params.kind, params.units]
+    );
+    if (candidate.rows.length === 0) return null;
+    const pkg = await lockPackage(client, candidate.rows[0].id);
+    await writeEntry(client, pkg!, {
+      units: -params.units,
+      kind: 'redemption',
+      description: params.description,
+      referenceId: params.connectPaymentId,
+      holdExpiresAt: params.holdExpiresAt ?? null,
+      createdBy: params.userId,
+    });
+    return { packageId: pkg!.id, units: params.units };
+  });
+}
+
+/** Marks a held redemption as used once its checkout is paid. */
+export async function captureRedemptionHold(connectPaymentId: string): Promise<void> {
+  await query(
+    `UPDATE session_package_ledger SET hold_expires_at = NULL
+      WHERE reference_id = $1 AND kind = 'redemption' AND hold_expires_at IS NOT NULL`,
+    [connectPaymentId]
+  );
+}
+
+/**
+ * Puts back whatever a charge took from packages and hasn't already been put
+ * back: an abandoned checkout, a booking that couldn't be made, or a refund.
+ * Units only go back onto packages that are still active. Returns the units
+ * restored; calling it twice restores nothing the second time.
+ */
+export async function reverseRedemption(
+  connectPaymentId: string,
+  description: string,
+  createdBy: string | null = null
+): Promise<number> {
+  const packages = await query(
+    `SELECT DISTINCT package_id FROM session_package_ledger WHERE reference_id = $1 AND kind = 'redemption'`,
+    [connectPaymentId]
+  );
+  let restored = 0;
+  for (const row of packages.rows) {
+    restored += await transaction(async (client) => {
+      const pkg = await lockPackage(client, row.package_id);
+      if (!pkg) return 0;
+      const net = await client.query(
+        `SELECT COALESCE(SUM(units), 0) AS net FROM session_package_ledger
+          WHERE package_id = $1 AND reference_id = $2 AND kind IN ('redemption', 'redemption_reversal')`,
+        [pkg.id, connectPaymentId]
+      );
+      await client.query(
+        `UPDATE session_package_ledger SET hold_expires_at = NULL
+          WHERE package_id = $1 AND reference_id = $2 AND hold_expires_at IS NOT NULL`,
+        [pkg.id, connectPaymentId]
+      );
+      const outstanding = -Number(net.rows[0].net);
+      if (outstanding <= 0 || pkg.status !== 'active') return 0;
+      await writeEntry(client, pkg, {
+        units: outstanding,
+        kind: 'redemption_reversal',
+        description,
+        referenceId: connectPaymentId,
+        createdBy,
+      });
+      return outstanding;
+    });
+  }
+  return restored;
+}
+
+/**
+ * Keeps packages in step with a refunded connect payment: units a charge used
+ * go back, and a refunded package purchase closes its package.
+ */
+export async function syncPackagesForRefundedPayment(connectPaymentId: string): Promise<void> {
+  await reverseRedemption(connectPaymentId, 'Payment refunded – units returned');
+
+  const bought = await query(
+    `SELECT id FROM member_session_packages WHERE connect_payment_id = $1 AND status IN ('pending', 'active')`,
+    [connectPaymentId]
+  );
+  for (const row of bought.rows) {
+    await transaction(async (client) => {
+      const pkg = await lockPackage(client, row.id);
+      if (!pkg || (pkg.status !== 'pending' && pkg.status !== 'active')) return;
+      if (pkg.units_remaining > 0) {
+        await writeEntry(client, pkg, {
+          units: -pkg.units_remaining,
+          kind: 'refund',
+          description: 'Package purchase refunded',
+        });
+      }
+      await client.query(`UPDATE member_session_packages SET status = 'refunded' WHERE id = $1`, [pkg.id]);
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Background jobs
+// ---------------------------------------------------------------------------
+
+/** Background job: puts back units held for checkouts that were never paid. */
+export async function releaseExpiredRedemptionHolds(): Promise<number> {
+  const expired = await query(
+    `SELECT DISTINCT reference_id FROM session_package_ledger
+      WHERE hold_expires_at IS NOT NULL AND hold_expires_at < NOW() AND reference_id IS NOT NULL`
+  );
+  let released = 0;
+  for (const row of expired.rows) {
+    try {
+      if (await reverseRedemption(row.reference_id, 'Checkout not completed – units returned')) {
+        released += 1;
+      }
+    } catch (err) {
+      console.error(`Session package hold release failed for payment ${row.reference_id}:`, err);
+    }
+  }
+  return released;
+}
+
+/**
+ * Background job: closes packages past their expiry, writing off what's left.
+ * Units held for an open checkout stay put until that checkout settles.
+ */
+export async function expireSessionPackages(): Promise<number> {
+  const due = await query(
+    `SELECT p.id FROM member_session_packages p
+      WHERE p.status = 'active' AND p.expires_at IS NOT NULL AND p.expires_at <= NOW()
+        AND NOT EXISTS (
+          SELECT 1 FROM session_package_ledger l
+           WHERE l.package_id = p.id AND l.hold_expires_at IS NOT NULL
+        )`
+  );
+  let expired = 0;
+  for (const row of due.rows) {
+    try {
+      await transaction(async (client) => {
+        const pkg = await lockPackage(client, row.id);
+        if (!pkg || pkg.status !== 'active') return;
+        if (pkg.units_remaining > 0) {
+          await writeEntry(client, pkg, { units: -pkg.units_remaining, kind: 'expiry', description: 'Package expired' });
+        }
+        await client.query(`UPDATE member_session_packages SET status = 'expired' WHERE id = $1`, [pkg.id]);
+      });
+      expired += 1;
+    } catch (err) {
+      console.error(`Session package expiry failed for ${row.id}:`, err);
+    }
+  }
+  return expired;
+}
@@ -0,0 +1,233 @@
+/**
+ * Outbound SMS and STOP/START handling.
+ *
+ * Messages go out through an SmsProvider so the carrier integration can be
+ * swapped without touching callers. Twilio is used when TWILIO_ACCOUNT_SID and
+ * TWILIO_AUTH_TOKEN are set; otherwise the fake provider logs each message and
+ * keeps it in memory (which is also what tests read). Opt-outs are tracked by
+ * phone number in sms_opt_outs whatever the provider.
+ */
+
+import crypto from 'crypto';
+import { query } from '../database/connection';
+
+export interface SmsSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+/** Final delivery outcome a provider reports after accepting a message. */
+export interface SmsStatusUpdate {
+  messageId: string;
+  status: 'delivered' | 'undelivered';
+  error?: string;
+}
+
+export interface SmsInboundMessage {
+  from: string;
+  body: string;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+  send(to: string, body: string): Promise<SmsSendResult>;
+  /** True when a webhook request really came from this provider. */
+  verifyWebhook(url: string, params: Record<string, string>, signature: string | undefined): boolean;
+  /** A reply from a player, or null when the payload isn't one. */
+  parseInbound(params: Record<string, string>): SmsInboundMessage | null;
+  /** A final delivery status, or null for intermediate ones (queued, sending). */
+  parseStatus(params: Record<string, string>): SmsStatusUpdate | null;
+}
+
+const TWILIO_API_BASE = 'https://api.twilio.com/2010-04-01';
+
+/**
+ * Twilio Programmable Messaging over its REST API. Sends from
+ * TWILIO_MESSAGING_SERVICE_SID when set, else TWILIO_FROM_NUMBER.
+ */
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio';
+
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private sender: { messagingServiceSid?: string; fromNumber?: string },
+    private statusCallbackUrl?: string
+  ) {}
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    const form = new URLSearchParams({ To: to, Body: body });
+    if (this.sender.messagingServiceSid) form.set('MessagingServiceSid', this.sender.messagingServiceSid);
+    else if (this.sender.fromNumber) form.set('From', this.sender.fromNumber);
+    if (this.statusCallbackUrl) form.set('StatusCallback', this.statusCallbackUrl);
+
+    try {
+      const response = await fetch(`${TWILIO_API_BASE}/Accounts/${this.accountSid}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64')}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: form.toString(),
+      });
+      const data = (await response.json().catch(() => ({}))) as { sid?: string; message?: string };
+      if (!response.ok || !data.sid) {
+        return { success: false, error: data.message || `Twilio responded ${response.status}` };
+      }
+      return { success: true, messageId: data.sid };
+    } catch (error: any) {
+      return { success: false, error: error?.message || 'SMS request failed' };
+    }
+  }
+
+  /** X-Twilio-Signature: HMAC-SHA1 of the URL plus every param (sorted by name), base64. */
+  verifyWebhook(url: string, params: Record<string, string>, signature: string | undefined): boolean {
+    if (!signature) return false;
+    const payload = Object.keys(params)
+      .sort()
+      .reduce((acc, key) => acc + key + params[key], url);
+    const expected = crypto.createHmac('sha1', this.authToken).update(payload).digest('base64');
+    const a = Buffer.from(expected);
+    const b = Buffer.from(signature);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
+  parseInbound(params: Record<string, string>): SmsInboundMessage | null {
+    if (!params.From || params.Body == null) return null;
+    return { from: params.From, body: params.Body };
+  }
+
+  parseStatus(params: Record<string, string>): SmsStatusUpdate | null {
+    const messageId = params.MessageSid || params.SmsSid;
+    if (!messageId) return null;
+    switch (params.MessageStatus) {
+      case 'delivered':
+        return { messageId, status: 'delivered' };
+      case 'undelivered':
+      case 'failed':
+        return {
+          messageId,
+          status: 'undelivered',
+          error: params.ErrorCode ? `Carrier error ${params.ErrorCode}` : undefined,
+        };
+      default:
+        return null;
+    }
+  }
+}
+
+/**
+ * Sends nothing: logs each message and keeps it in `sent`. Used for local
+ * development and tests; webhooks use plain `from`/`body` and
+ * `messageId`/`status` fields.
+ */
+export class FakeSmsProvider implements SmsProvider {
+  readonly name = 'fake';
+  readonly sent: Array<{ to: string; body: string; messageId: string }> = [];
+  /** Numbers whose sends fail, to exercise error handling. */
+  readonly failingNumbers = new Set<string>();
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    if (this.failingNumbers.has(to)) return { success: false, error: 'Fake provider rejected the number' };
+    const messageId = `fake-sms-${this.sent.length + 1}`;
+    this.sent.push({ to, body, messageId });
+    console.log(`[SMS:fake] to ${to}: ${body}`);
+    return { success: true, messageId };
+  }
+
+  verifyWebhook(): boolean {
+    return process.env.NODE_ENV !== 'production';
+  }
+
+  parseInbound(params: Record<string, string>): SmsInboundMessage | null {
+    if (!params.from || params.body == null) return null;
+    return { from: params.from, body: params.body };
+  }
+
+  parseStatus(params: Record<string, string>): SmsStatusUpdate | null {
+    if (!params.messageId) return null;
+    if (params.status !== 'delivered' && params.status !== 'undelivered') return null;
+    return { messageId: params.messageId, status: params.status, error: params.error };
+  }
+}
+
+let provider: SmsProvider | null = null;
+
+function createProviderFromEnv(): SmsProvider {
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN } = process.env;
+  if (TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN) {
+    const appUrl = process.env.APP_URL;
+    return new TwilioSmsProvider(
+      TWILIO_ACCOUNT_SID,
+      TWILIO_AUTH_TOKEN,
+      {
+        messagingServiceSid: process.env.TWILIO_MESSAGING_SERVICE_SID,
+        fromNumber: process.env.TWILIO_FROM_NUMBER,
+      },
+      appUrl ? `${appUrl.replace(/\/$/, '')}/api/webhooks/sms/status` : undefined
+    );
+  }
+  return new FakeSmsProvider();
+}
+
+export function getSmsProvider(): SmsProvider {
+  if (!provider) provider = createProviderFromEnv();
+  return provider;
+}
+
+/** Swap the provider (tests, or a different carrier); null goes back to the env default. */
+export function setSmsProvider(next: SmsProvider | null): void {
+  provider = next;
+}
+
+/**
+ * E.164 form of a stored phone number, or null if it can't be one. Ten-digit
+ * numbers are taken as US/Canada.
+ */
+export function normalizePhoneNumber(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  const digits = raw.replace(/\D/g, '');
+  if (raw.trim().startsWith('+')) {
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+  }
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  return null;
+}
+
+/** Carrier-standard keywords (matched on the whole message, case-insensitive). */
+const STOP_KEYWORDS = new Set(['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT']);
+const START_KEYWORDS = new Set(['START', 'UNSTOP', 'YES']);
+
+export type InboundSmsResult = 'opted_out' | 'opted_in' | 'ignored';
+
+/** Applies a STOP or START reply; anything else is ignored. */
+export async function handleInboundSms(message: SmsInboundMessage): Promise<InboundSmsResult> {
+  const phone = normalizePhoneNumber(message.from);
+  if (!phone) return 'ignored';
+  const keyword = message.body.trim().toUpperCase();
+
+  if (STOP_KEYWORDS.has(keyword)) {
+    await query(
+      `INSERT INTO sms_opt_outs (phone, keyword) VALUES ($1, $2)
+       ON CONFLICT (phone) DO UPDATE SET keyword = EXCLUDED.keyword, opted_out_at = NOW()`,
+      [phone, keyword]
+    );
+    return 'opted_out';
+  }
+  if (START_KEYWORDS.has(keyword)) {
+    await query(`DELETE FROM sms_opt_outs WHERE phone = $1`, [phone]);
+    return 'opted_in';
+  }
+  return 'ignored';
+}
+
+export async function isSmsOptedOut(phone: string): Promise<boolean> {
+  const result = await query(`SELECT 1 FROM sms_opt_outs WHERE phone = $1`, [phone]);
+  return result.rows.length > 0;
+}
+
+export async function sendSms(to: string, body: string): Promise<SmsSendResult> {
+  return getSmsProvider().send(to, body);
+}
@@ -2,12 +2,17 @@ import { query, transaction } from '../database/connection';
 import { createBooking } from './bookingService';
 import { isFeatureEnabled } from './featureFlagService';
 import { FEATURE_FLAGS } from '../../shared/constants/featureFlags';
-import { courtBookingNeedsPayment, loadCourtPaymentSettings } from './courtPaymentSettings';
+import { courtBookingNeedsPayment } from './courtPaymentSettings';
+import { loadPricedCourtPaymentSettings } from './courtPricingService';
 import { createSplitCourtPaymentCheckoutSession, refundSplitPaymentShares, refundSplitShareDifference } from './stripeConnectService';
 import { notificationService } from './notificationService';
+import { publishBookingChange } from './realtimeService';
 
 const HOLD_MINUTES = 120;
 const MAX_PARTICIPANTS = 4;
+/** What open calendars need to hear about a released hold (see publishBookingChange). */
+const CANCELLED_BOOKING_COLUMNS = `id, facility_id AS "facilityId", court_id AS "courtId",
+  TO_CHAR(booking_date, 'YYYY-MM-DD') AS "bookingDate", start_time AS "startTime", end_time AS "endTime"`;
 
 function splitEvenly(total: number, userIds: string[], ownerId: string): Map<string, number> {
   const base = Math.floor(total / userIds.length);
@@ -47,7 +52,7 @@ export async function createSplitCourtReservation(params: {
     [params.facilityId, ids]
   );
   if (memberships.rows.length !== ids.length) throw new Error('Every participant must be an active facility member');
-  const court = await loadCourtPaymentSettings(params.courtId);
+  const court = await loadPricedCourtPaymentSettings(params.courtId, params);
   if (!court || !courtBookingNeedsPayment(court, {})) throw new Error('This court does not require a payment');
   // Split v1 intentionally excludes add-ons: guests and machines have one clear owner, not an equal split.
   const total = Math.round(Number(court.booking_amount_cents) * (params.durationMinutes / 60));
@@ -166,17 +171,23 @@ export async function declineSplitPayment(bookingId: string, userId: string, rea
   if (share.bookingStatus !== 'pending') throw new Error('This reservation is no longer pending payment');
   if (share.shareStatus !== 'pending') throw new Error('Your share has already been resolved');
 
-  await transaction(async (client) => {
+  const cancelled = await transaction(async (client) => {
     await client.query(
       `UPDATE booking_payment_shares SET status = 'declined', responded_at = NOW(), decline_reason = $2, updated_at = NOW() WHERE id = $1`,
       [share.id, reason || null]
     );
-    await client.query(`UPDATE bookings SET status = 'cancelled', updated_at = NOW() WHERE id = $1`, [bookingId]);
+    const booking = await client.query(
+      `UPDATE bookings SET status = 'cancelled', updated_at = NOW() WHERE id = $1
+       RETURNING ${CANCELLED_BOOKING_COLUMNS}`,
+      [bookingId]
+    );
     await client.query(
       `UPDATE booking_payment_shares SET status = 'cancelled', updated_at = NOW() WHERE booking_id = $1 AND status = 'pending'`,
       [bookingId]
     );
+    return booking.rows[0];
   });
+  if (cancelled) publishBookingChange('booking.cancelled', cancelled);
 
   const { refunded } = await refundSplitPaymentShares(bookingId);
   await notifySplitBookingCancelled(bookingId, 'declined', refunded > 0, userId);
@@ -200,6 +211,7 @@ export async function updateSplitPaymentParticipants(params: {
 }): Promise<{ shares: Array<{ userId: string; amountCents: number; status: string }> }> {
   const bookingRes = await query(
     `SELECT b.id, b.user_id AS "ownerId", b.status, b.facility_id AS "facilityId", b.court_id AS "courtId",
+            TO_CHAR(b.booking_date, 'YYYY-MM-DD') AS "bookingDate", b.start_time AS "startTime", b.end_time AS "endTime",
             b.duration_minutes AS "durationMinutes", b.payment_mode AS "paymentMode", b.payment_deadline_at AS "deadline"
        FROM bookings b WHERE b.id = $1`,
     [params.bookingId]
@@ -220,7 +232,12 @@ export async function updateSplitPaymentParticipants(params: {
   );
   if (memberships.rows.length !== ids.length) throw new Error('Every participant must be an active facility member');
 
-  const court = await loadCourtPaymentSettings(booking.courtId);
+  const court = await loadPricedCourtPaymentSettings(booking.courtId, {
+    userId: booking.ownerId,
+    bookingDate: booking.bookingDate,
+    startTime: booking.startTime,
+    endTime: booking.endTime,
+  });
   if (!court) throw new Error('This court is no longer available');
   const total = Math.round(Number(court.booking_amount_cents) * (Number(booking.durationMinutes) / 60));
   if (total <= 0) throw new Error('This reservation has no fee to split');
@@ -378,7 +395,7 @@ export async function expireSplitCourtReservations(): Promise<number> {
     const rows = await client.query(
       `UPDATE bookings SET status = 'cancelled', updated_at = NOW()
        WHERE status = 'pending' AND payment_mode = 'split' AND payment_deadline_at <= NOW()
-       RETURNING id`
+       RETURNING ${CANCELLED_BOOKING_COLUMNS}`
     );
     if (rows.rows.length) {
       await client.query(
@@ -390,6 +407,7 @@ export async function expireSplitCourtReservations(): Promise<number> {
     return rows.rows;
   });
   for (const row of expired) {
+    publishBookingChange('booking.cancelled', row);
     const { refunded, failed } = await refundSplitPaymentShares(row.id);
     if (failed > 0) console.error(`[split-payment-expiry] ${failed} refund(s) failed for booking ${row.id}`);
     await notifySplitBookingCancelled(row.id, 'expired', refunded > 0).catch((error) =>
@@ -0,0 +1,304 @@
+/**
+ * Stringing Service
+ * Racquet stringing jobs through the pro shop. A job names the racquet, a
+ * string from the shop's 'strings' products, tensions and a due date; staff
+ * move it received -> in_progress -> ready -> picked_up. Marking it ready
+ * posts the string plus the labor fee to the member's tab through addToTab
+ * and sends the member a push notification.
+ */
+
+import { query } from '../database/connection';
+import { notificationService } from './notificationService';
+import { addToTab, getProShopSettings } from './proShopService';
+import { resolveSaleItems, variantLabel } from './proShopInventoryService';
+import { getTodayYmdInTimeZone } from './rulesEngine/utils/timeUtils';
+
+export class StringingError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'StringingError';
+  }
+}
+
+export type StringingStatus = 'received' | 'in_progress' | 'ready' | 'picked_up' | 'cancelled';
+
+export const STRINGING_STATUSES: StringingStatus[] = ['received', 'in_progress', 'ready', 'picked_up', 'cancelled'];
+
+/** Staff can step a job back from in_progress, but a charged (ready) job only moves on to pickup. */
+const NEXT_STATUSES: Record<StringingStatus, StringingStatus[]> = {
+  received: ['in_progress', 'ready', 'cancelled'],
+  in_progress: ['received', 'ready', 'cancelled'],
+  ready: ['picked_up'],
+  picked_up: [],
+  cancelled: [],
+};
+
+export function canTransition(from: StringingStatus, to: StringingStatus): boolean {
+  return NEXT_STATUSES[from]?.includes(to) ?? false;
+}
+
+export interface StringingJobInput {
+  racquet: string;
+  stringProductId: string;
+  stringVariantId?: string | null;
+  mainTensionLbs: number;
+  crossTensionLbs?: number | null;
+  dueDate: string;
+  notes?: string | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseTension(value: unknown, field: string): number {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 20 || n > 80 || Math.round(n * 10) !== n * 10) {
+    throw new StringingError(`${field} must be between 20 and 80 lbs, in steps of 0.1`);
+  }
+  return n;
+}
+
+/** Validates and normalizes a job request; `today` is the earliest allowed due date. */
+export function parseStringingJobInput(body: any, today: string): StringingJobInput {
+  const racquet = typeof body?.racquet === 'string' ? body.racquet.trim() : '';
+  if (!racquet) throw new StringingError('Describe the racquet to be strung');
+  if (racquet.length > 120) throw new StringingError('Racquet description must be 120 characters or fewer');
+
+  if (typeof body?.stringProductId !== 'string' || !body.stringProductId) {
+    throw new StringingError('Choose a string');
+  }
+
+  const mainTensionLbs = parseTension(body.mainTensionLbs, 'Main tension');
+  const crossTensionLbs = body.crossTensionLbs == null || body.crossTensionLbs === ''
+    ? null
+    : parseTension(body.crossTensionLbs, 'Cross tension');
+
+  const dueDate = typeof body?.dueDate === 'string' ? body.dueDate : '';
+  if (!DATE_PATTERN.test(dueDate)) throw new StringingError('dueDate must be a YYYY-MM-DD date');
+  if (dueDate < today) throw new StringingError('Due date cannot be in the past');
+
+  const notes = typeof body?.notes === 'string' && body.notes.trim() ? body.notes.trim().slice(0, 1000) : null;
+
+  return {
+    racquet,
+    stringProductId: body.stringProductId,
+    stringVariantId: typeof body.stringVariantId === 'string' && body.stringVariantId ? body.stringVariantId : null,
+    mainTensionLbs,
+    crossTensionLbs: crossTensionLbs === mainTensionLbs ? null : crossTensionLbs,
+    dueDate,
+    notes,
+  };
+}
+
+/** "55 lbs" or "55/53 lbs" */
+export function tensionLabel(main: number | string, cross: number | string | null): string {
+  return cross == null ? `${Number(main)} lbs` : `${Number(main)}/${Number(cross)} lbs`;
+}
+
+const JOB_COLUMNS = `
+  j.id, j.facility_id, j.user_id, u.full_name AS member_name, u.email AS member_email,
+  j.racquet, j.string_product_id, p.name AS string_name, p.price_cents AS string_price_cents,
+  j.string_variant_id, v.size, v.color, v.grip_size,
+  j.main_tension_lbs::float AS main_tension_lbs, j.cross_tension_lbs::float AS cross_tension_lbs,
+  to_char(j.due_date, 'YYYY-MM-DD') AS due_date, j.notes, j.status, j.labor_cents,
+  j.charged_cents, j.charged_at, j.started_at, j.ready_at, j.picked_up_at, j.cancelled_at, j.created_at`;
+
+const JOB_FROM = `
+  FROM pro_shop_stringing_jobs j
+  JOIN users u ON u.id = j.user_id
+  JOIN pro_shop_products p ON p.id = j.string_product_id
+  LEFT JOIN pro_shop_product_variants v ON v.id = j.string_variant_id`;
+
+function toJob(row: any) {
+  const { size, color, grip_size, ...rest } = row;
+  const label = row.string_variant_id ? variantLabel({ size, color, grip_size }) : '';
+  return {
+    ...rest,
+    string_label: label ? `${row.string_name} (${label})` : row.string_name,
+    tension_label: tensionLabel(row.main_tension_lbs, row.cross_tension_lbs),
+  };
+}
+
+async function loadJob(facilityId: string, jobId: string) {
+  const result = await query(`SELECT ${JOB_COLUMNS} ${JOB_FROM} WHERE j.id = $1 AND j.facility_id = $2`, [
+    jobId,
+    facilityId,
+  ]);
+  if (result.rows.length === 0) throw new StringingError('Stringing job not found', 404);
+  return toJob(result.rows[0]);
+}
+
+/** Active string products with their variants, and the labor fee a new job is charged. */
+export async function getStringOptions(facilityId: string) {
+  const [products, settings] = await Promise.all([
+    query(
+      `SELECT p.id, p.name, p.description, p.price_cents, p.stock_quantity,
+              COALESCE((
+                SELECT json_agg(json_build_object(
+                         'id', v.id, 'size', v.size, 'color', v.color, 'grip_size', v.grip_size,
+                         'stock_quantity', v.stock_quantity
+                       ) ORDER BY v.size, v.color, v.grip_size)
+                FROM pro_shop_product_variants v
+                WHERE v.product_id = p.id AND v.is_active
+              ), '[]'::json) AS variants
+       FROM pro_shop_products p
+       WHERE p.facility_id = $1 AND p.category = 'strings' AND p.is_active
+       ORDER BY p.name`,
+      [facilityId]
+    ),
+    getProShopSettings(facilityId),
+  ]);
+  return { strings: products.rows, laborCents: Number(settings.stringing_labor_cents ?? 0) };
+}
+
+async function facilityToday(facilityId: string): Promise<string> {
+  const tz = await query(`SELECT timezone FROM facilities WHERE id = $1`, [facilityId]);
+  return getTodayYmdInTimeZone(tz.rows[0]?.timezone || 'America/New_York');
+}
+
+export async function createStringingJob(facilityId: string, userId: string, body: unknown, createdBy: string) {
+  const input = parseStringingJobInput(body, await facilityToday(facilityId));
+
+  const membership = await query(
+    `SELECT 1 FROM facility_memberships WHERE facility_id = $1 AND user_id = $2 AND status = 'active'`,
+    [facilityId, userId]
+  );
+  if (membership.rows.length === 0) throw new StringingError('Stringing is available to active members only', 403);
+
+  const product = await query(
+    `SELECT category FROM pro_shop_products WHERE id = $1 AND facility_id = $2 AND is_active`,
+    [input.stringProductId, facilityId]
+  );
+  if (product.rows[0]?.category !== 'strings') throw new StringingError('That string is not available');
+
+  // Same variant and stock rules as a sale; the string is only taken from stock once the job is ready
+  await resolveSaleItems(facilityId, [
+    { product_id: input.stringProductId, variant_id: input.stringVariantId ?? null, quantity: 1 },
+  ]);
+
+  const settings = await getProShopSettings(facilityId);
+  const inserted = await query(
+    `INSERT INTO pro_shop_stringing_jobs
+       (facility_id, user_id, racquet, string_product_id, string_variant_id,
+        main_tension_lbs, cross_tension_lbs, due_date, notes, labor_cents, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+     RETURNING id`,
+    [
+      facilityId,
+      userId,
+      input.racquet,
+      input.stringProductId,
+      input.stringVariantId ?? null,
+      input.mainTensionLbs,
+      input.crossTensionLbs ?? null,
+      input.dueDate,
+      input.notes ?? null,
+      Number(settings.stringing_labor_cents ?? 0),
+      createdBy,
+    ]
+  );
+  return loadJob(facilityId, inserted.rows[0].id);
+}
+
+export async function listStringingJobs(
+  facilityId: string,
+  filters: { status?: StringingStatus | 'open'; userId?: string } = {}
+) {
+  const conditions = ['j.facility_id = $1'];
+  const values: any[] = [facilityId];
+  if (filters.status === 'open') {
+    conditions.push(`j.status IN ('received', 'in_progress', 'ready')`);
+  } else if (filters.status) {
+    values.push(filters.status);
+    conditions.push(`j.status = $${values.length}`);
+  }
+  if (filters.userId) {
+    values.push(filters.userId);
+    conditions.push(`j.user_id = $${values.length}`);
+  }
+
+  const result = await query(
+    `SELECT ${JOB_COLUMNS} ${JOB_FROM}
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY CASE j.status WHEN 'ready' THEN 0 WHEN 'in_progress' THEN 1 WHEN 'received' THEN 2 ELSE 3 END,
+              j.due_date, j.created_at DESC
+     LIMIT 500`,
+    values
+  );
+  return result.rows.map(toJob);
+}
+
+/**
+ * Moves a job to its next status. The status change is claimed first so two
+ * staff clicking "ready" can't both charge the tab; if posting the charge
+ * fails the job goes back to where it was.
+ */
+export async function updateStringingJobStatus(
+  facilityId: string,
+  jobId: string,
+  status: StringingStatus,
+  actorId: string
+) {
+  if (!STRINGING_STATUSES.includes(status)) throw new StringingError('Unknown status');
+
+  const job = await loadJob(facilityId, jobId);
+  if (job.status === status) return job;
+  if (!canTransition(job.status, status)) {
+    throw new StringingError(`A ${job.status.replace('_', ' ')} job can't be moved to ${status.replace('_', ' ')}`);
+  }
+
+  const timestampColumn: Partial<Record<StringingStatus, string>> = {
+    in_progress: 'started_at',
+    ready: 'ready_at',
+    picked_up: 'picked_up_at',
+    cancelled: 'cancelled_at',
+  };
+  const column = timestampColumn[status];
+  const claimed = await query(
+    `UPDATE pro_shop_stringing_jobs
+     SET status = $3${column ? `, ${column} = NOW()` : ''}
+     WHERE id = $1 AND facility_id = $2 AND status = $4
+     RETURNING id`,
+    [jobId, facilityId, status, job.status]
+  );
+  if (claimed.rows.length === 0) throw new StringingError('This job was just updated by someone else; refresh and try again', 409);
+
+  if (status === 'ready' && job.charged_at == null) {
+    const chargedCents = job.string_price_cents + job.labor_cents;
+    try {
+      await addToTab(
+        facilityId,
+        job.user_id,
+        actorId,
+        [{ product_id: job.string_product_id, variant_id: job.string_variant_id, quantity: 1 }],
+        { label: `Stringing – ${job.racquet}: ${job.string_label} @ ${job.tension_label}`, feeCents: job.labor_cents }
+      );
+    } catch (err) {
+      await query(`UPDATE pro_shop_stringing_jobs SET status = $2, ready_at = NULL WHERE id = $1`, [jobId, job.status]);
+      throw err;
+    }
+    await query(
+      `UPDATE pro_shop_stringing_jobs SET charged_cents = $2, charged_at = NOW() WHERE id = $1`,
+      [jobId, chargedCents]
+    );
+    notificationService
+      .notifyStringingReady(job.user_id, job.racquet, facilityId, jobId)
+      .catch(err => console.error('[Stringing] Ready notification failed:', err));
+  }
+
+  console.log(`[Stringing] Job ${jobId} ${job.status} -> ${status}`);
+  return loadJob(facilityId, jobId);
+}
+
+/** Members can withdraw a job until staff start on it. */
+export async function cancelOwnStringingJob(facilityId: string, userId: string, jobId: string) {
+  const result = await query(
+    `UPDATE pro_shop_stringing_jobs SET status = 'cancelled', cancelled_at = NOW()
+     WHERE id = $1 AND facility_id = $2 AND user_id = $3 AND status = 'received'
+     RETURNING id`,
+    [jobId, facilityId, userId]
+  );
+  if (result.rows.length === 0) {
+    throw new StringingError('Only jobs that have not been started can be cancelled');
+  }
+  return loadJob(facilityId, jobId);
+}
@@ -12,7 +12,37 @@
 
 import Stripe from 'stripe';
 import { query, transaction } from '../database/connection';
-import { courtBookingNeedsPayment, loadCourtPaymentSettings } from './courtPaymentSettings';
+import { billableGuestCount, courtBookingNeedsPayment } from './courtPaymentSettings';
+import { loadPricedCourtPaymentSettings } from './courtPricingService';
+import { restockRefundedOrder } from './proShopInventoryService';
+import { formatPackageUnits } from '../../shared/utils/sessionPackages';
+import {
+  WALLET_TOP_UP_MAX_CENTS,
+  WALLET_TOP_UP_MIN_CENTS,
+  WalletError,
+  captureWalletHold,
+  creditTopUp,
+  isWalletEnabled,
+  payFromWallet,
+  refundToWallet,
+  reverseTopUp,
+  reverseWalletPayment,
+  walletCheckoutDiscount,
+  walletCheckoutExpiry,
+  type WalletReferenceType,
+} from './walletService';
+import {
+  CLINIC_PACKAGE_CATEGORIES,
+  activatePurchasedPackage,
+  captureRedemptionHold,
+  isSessionPackagesEnabled,
+  redeemSessionPackage,
+  refundPackageRemainder,
+  reverseRedemption,
+  syncPackagesForRefundedPayment,
+  SessionPackageError,
+  type SessionPackageKind,
+} from './sessionPackageService';
 
 export type PaymentCategory = 'BALL_MACHINE' | 'CLINIC' | 'DRILL' | 'DUES' | 'OTHER';
 export type PaymentStatus = 'PENDING' | 'PAID' | 'FAILED' | 'REFUNDED';
@@ -40,6 +70,10 @@ export interface ConnectPayment {
   bulletinPostId?: string | null;
   amountCents: number;
   platformFeeCents: number;
+  /** Part of amountCents paid from account credit rather than the card */
+  walletAppliedCents?: number;
+  /** Value a session package covered; not included in amountCents */
+  packageAppliedCents?: number;
   status: PaymentStatus;
   stripePaymentIntentId: string | null;
   stripeCheckoutSessionId: string | null;
@@ -100,6 +134,8 @@ function rowToConnectPayment(row: any): ConnectPayment {
     bulletinPostId: row.bulletin_post_id ?? null,
     amountCents: Number(row.amount_cents),
     platformFeeCents: Number(row.platform_fee_cents ?? 0),
+    walletAppliedCents: Number(row.wallet_applied_cents ?? 0),
+    packageAppliedCents: Number(row.package_applied_cents ?? 0),
     status,
     stripePaymentIntentId: row.stripe_payment_intent_id,
     stripeCheckoutSessionId: row.stripe_checkout_session_id,
@@ -114,7 +150,9 @@ function rowToConnectPayment(row: any): ConnectPayment {
       row.refundable === true ||
       (row.refundable !== false &&
         status === 'PAID' &&
-        !!row.stripe_payment_intent_id),
+        (!!row.stripe_payment_intent_id ||
+          Number(row.wallet_applied_cents ?? 0) > 0 ||
+          Number(row.package_applied_cents ?? 0) > 0)),
   };
 }
 
@@ -680,6 +718,126 @@ export async function detachMemberPaymentMethod(userId: string, clubId: string):
 export interface CheckoutResult {
   url: string;
   paymentId: string;
+  /** Account credit or a session package covered the whole amount: nothing to pay, `url` is the success URL */
+  paidInFull?: boolean;
+}
+
+interface WalletCheckoutHold {
+  walletCents: number;
+  /** Platform fee on the card portion only; credit was already charged a fee when topped up */
+  platformFeeCents: number;
+  /** Extra Checkout Session params taking the credit off the total */
+  sessionParams: Pick<Stripe.Checkout.SessionCreateParams, 'discounts' | 'expires_at'>;
+}
+
+/**
+ * Holds the member's account credit against a just-inserted PENDING connect
+ * payment. When credit doesn't cover it all, the Checkout for the rest gets a
+ * one-time coupon and expires before the hold does.
+ */
+async function holdWalletCreditForCheckout(
+  stripe: Stripe,
+  params: {
+    paymentId: string;
+    clubId: string;
+    memberId: string;
+    amountCents: number;
+    platformFeePercent: number;
+    stripeAccountId: string;
+    description: string;
+  }
+): Promise<WalletCheckoutHold> {
+  const { sessionExpiresAt, holdExpiresAt } = walletCheckoutExpiry();
+  const walletCents = await payFromWallet({
+    facilityId: params.clubId,
+    userId: params.memberId,
+    amountCents: params.amountCents,
+    description: params.description,
+    referenceType: 'connect_payment',
+    referenceId: params.paymentId,
+    holdExpiresAt,
+  });
+  const cardCents = params.amountCents - walletCents;
+  const platformFeeCents = Math.max(0, Math.round((cardCents * params.platformFeePercent) / 100));
+  if (walletCents === 0) {
+    return { walletCents, platformFeeCents, sessionParams: {} };
+  }
+
+  await query(
+    `UPDATE connect_payments SET wallet_applied_cents = $1, platform_fee_cents = $2 WHERE id = $3`,
+    [walletCents, platformFeeCents, params.paymentId]
+  );
+  if (cardCents === 0) {
+    return { walletCents, platformFeeCents, sessionParams: {} };
+  }
+  try {
+    const discounts = await walletCheckoutDiscount(stripe, walletCents, params.stripeAccountId);
+    return { walletCents, platformFeeCents, sessionParams: { discounts, expires_at: sessionExpiresAt } };
+  } catch (err) {
+    await reverseWalletPayment('connect_payment', params.paymentId, 'Checkout failed – credit returned');
+    throw err;
+  }
+}
+
+/**
+ * Pays for a just-inserted PENDING connect payment from the member's session
+ * package, taking what the package covered off the amount still owed. Returns
+ * the cents covered, 0 when no package applies.
+ */
+async function applySessionPackageToPayment(params: {
+  paymentId: string;
+  clubId: string;
+  memberId: string;
+  kind: SessionPackageKind;
+  units: number;
+  coveredCents: number;
+  totalCents: number;
+  platformFeePercent: number;
+  description: string;
+  holdExpiresAt: Date | null;
+}): Promise<number> {
+  if (params.coveredCents <= 0) return 0;
+  const redemption = await redeemSessionPackage({
+    facilityId: params.clubId,
+    userId: params.memberId,
+    kind: params.kind,
+    units: params.units,
+    connectPaymentId: params.paymentId,
+    description: params.description,
+    holdExpiresAt: params.holdExpiresAt,
+  });
+  if (!redemption) return 0;
+  const dueCents = params.totalCents - params.coveredCents;
+  await query(
+    `UPDATE connect_payments
+        SET amount_cents = $1, platform_fee_cents = $2, package_applied_cents = $3
+      WHERE id = $4`,
+    [
+      dueCents,
+      Math.max(0, Math.round((dueCents * params.platformFeePercent) / 100)),
+      params.coveredCents,
+      params.paymentId,
+    ]
+  );
+  return params.coveredCents;
+}
+
+/**
+ * Settles a connect payment that credit or a package paid in full, running the
+ * same finalization (booking, signup, revenue log) as a completed Checkout.
+ */
+async function markPaidWithoutCheckout(metadata: Record<string, string>): Promise<void> {
+  await markCheckoutSessionPaid({
+    id: null,
+    mode: 'payment',
+    payment_intent: null,
+    metadata,
+  } as unknown as Stripe.Checkout.Session);
+}
+
+/** Stripe's success URL with the session placeholder dropped, for checkouts paid in full up front. */
+function paidInFullSuccessUrl(successUrl: string): string {
+  return successUrl.replace(/([?&])session_id=\{CHECKOUT_SESSION_ID\}&?/, '$1').replace(/[?&]$/, '');
 }
 
 export async function createMemberCheckoutSession(params: {
@@ -865,6 +1023,8 @@ export async function createBulletinSignupCheckoutSession(params: {
         return { url: existingSession.url, paymentId: pendingPayment.rows[0].id };
       }
     }
+    await reverseWalletPayment('connect_payment', pendingPayment.rows[0].id, 'Checkout replaced – credit returned');
+    await reverseRedemption(pendingPayment.rows[0].id, 'Checkout replaced – units returned');
   }
 
   const insertResult = await query(
@@ -877,6 +1037,42 @@ export async function createBulletinSignupCheckoutSession(params: {
   const paymentId: string = insertResult.rows[0].id;
 
   const eventLabel = post.title || 'Event signup';
+  // A clinic package pays for the whole signup or not at all, so nothing is held
+  const packageCoveredCents = (CLINIC_PACKAGE_CATEGORIES as readonly string[]).includes(post.category)
+    ? await applySessionPackageToPayment({
+        paymentId,
+        clubId: post.facility_id,
+        memberId: params.memberId,
+        kind: 'clinic',
+        units: 1,
+        coveredCents: amountCents,
+        totalCents: amountCents,
+        platformFeePercent,
+        description: `${eventLabel} signup`,
+        holdExpiresAt: null,
+      })
+    : 0;
+  const amountDueCents = amountCents - packageCoveredCents;
+  const walletHold = await holdWalletCreditForCheckout(stripe, {
+    paymentId,
+    clubId: post.facility_id,
+    memberId: params.memberId,
+    amountCents: amountDueCents,
+    platformFeePercent,
+    stripeAccountId: post.stripe_account_id,
+    description: `${eventLabel} signup`,
+  });
+  if (walletHold.walletCents === amountDueCents) {
+    await markPaidWithoutCheckout({
+      connectPaymentId: paymentId,
+      clubId: post.facility_id,
+      memberId: params.memberId,
+      bulletinPostId: params.bulletinPostId,
+      signupPayment: 'true',
+    });
+    return { url: paidInFullSuccessUrl(params.successUrl), paymentId, paidInFull: true };
+  }
+
   const customerOpts = await connectCheckoutCustomerOptions(
     params.memberId,
     post.facility_id
@@ -899,6 +1095,7 @@ export async function createBulletinSignupCheckoutSession(params: {
           },
         },
       ],
+      ...walletHold.sessionParams,
       success_url: params.successUrl,
       cancel_url: params.cancelUrl,
       metadata: {
@@ -909,7 +1106,7 @@ export async function createBulletinSignupCheckoutSession(params: {
         signupPayment: 'true',
       },
       payment_intent_data: {
-        application_fee_amount: platformFeeCents,
+        application_fee_amount: walletHold.platformFeeCents,
         metadata: {
           connectPaymentId: paymentId,
           clubId: post.facility_id,
@@ -931,6 +1128,241 @@ export async function createBulletinSignupCheckoutSession(params: {
   return { url: session.url, paymentId };
 }
 
+/**
+ * Checkout to top up a member's account credit (member_wallet feature flag).
+ * The balance is credited when the charge is confirmed (markCheckoutSessionPaid).
+ */
+export async function createWalletTopUpCheckoutSession(params: {
+  clubId: string;
+  memberId: string;
+  amountCents: number;
+  successUrl: string;
+  cancelUrl: string;
+}): Promise<CheckoutResult> {
+  const stripe = getStripe();
+  if (!stripe) {
+    throw new Error('Stripe is not configured on this server');
+  }
+
+  const amountCents = Number(params.amountCents);
+  if (
+    !Number.isInteger(amountCents) ||
+    amountCents < WALLET_TOP_UP_MIN_CENTS ||
+    amountCents > WALLET_TOP_UP_MAX_CENTS
+  ) {
+    throw new WalletError(
+      `Top-ups must be between $${WALLET_TOP_UP_MIN_CENTS / 100} and $${WALLET_TOP_UP_MAX_CENTS / 100}`
+    );
+  }
+  if (!(await isWalletEnabled(params.clubId))) {
+    throw new WalletError('Account credit is not enabled for this club', 403);
+  }
+  if (!(await isClubMember(params.memberId, params.clubId))) {
+    throw new WalletError('You are not a member of this club', 403);
+  }
+
+  const facilityResult = await query(
+    `SELECT name, stripe_account_id, stripe_onboarded, platform_fee_percent
+       FROM facilities WHERE id = $1`,
+    [params.clubId]
+  );
+  const facility = facilityResult.rows[0];
+  if (!facility?.stripe_account_id || !facility.stripe_onboarded) {
+    throw new Error('This club has not finished Stripe Connect onboarding yet');
+  }
+  const platformFeePercent = Number(facility.platform_fee_percent ?? 0);
+  const platformFeeCents = Math.max(0, Math.round((amountCents * platformFeePercent) / 100));
+
+  const insertResult = await query(
+    `INSERT INTO connect_payments
+       (club_id, member_id, payment_item_id, amount_cents, platform_fee_cents, status, is_wallet_top_up)
+     VALUES ($1, $2, NULL, $3, $4, 'PENDING', true)
+     RETURNING id`,
+    [params.clubId, params.memberId, amountCents, platformFeeCents]
+  );
+  const paymentId: string = insertResult.rows[0].id;
+
+  const customerOpts = await connectCheckoutCustomerOptions(params.memberId, params.clubId);
+  const session = await stripe.checkout.sessions.create(
+    {
+      mode: 'payment',
+      payment_method_types: ['card'],
+      ...customerOpts,
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            currency: 'usd',
+            unit_amount: amountCents,
+            product_data: {
+              name: 'Account credit',
+              description: `Prepaid credit at ${facility.name}`,
+            },
+          },
+        },
+      ],
+      success_url: params.successUrl,
+      cancel_url: params.cancelUrl,
+      metadata: {
+        connectPaymentId: paymentId,
+        clubId: params.clubId,
+        memberId: params.memberId,
+        walletTopUp: 'true',
+      },
+      payment_intent_data: {
+        application_fee_amount: platformFeeCents,
+        metadata: {
+          connectPaymentId: paymentId,
+          clubId: params.clubId,
+        },
+      },
+    },
+    { stripeAccount: facility.stripe_account_id }
+  );
+
+  await query(
+    `UPDATE connect_payments SET stripe_checkout_session_id = $1 WHERE id = $2`,
+    [session.id, paymentId]
+  );
+
+  if (!session.url) {
+    throw new Error('Stripe did not return a Checkout URL');
+  }
+  return { url: session.url, paymentId };
+}
+
+/**
+ * Checkout for a prepaid session package (session_packages feature flag). The
+ * package row waits as 'pending' and gets its units when the charge is
+ * confirmed (markCheckoutSessionPaid → activatePurchasedPackage).
+ */
+export async function createSessionPackageCheckoutSession(params: {
+  clubId: string;
+  memberId: string;
+  productId: string;
+  successUrl: string;
+  cancelUrl: string;
+}): Promise<CheckoutResult> {
+  const stripe = getStripe();
+  if (!stripe) {
+    throw new Error('Stripe is not configured on this server');
+  }
+  if (!(await isSessionPackagesEnabled(params.clubId))) {
+    throw new SessionPackageError('Session packages are not enabled for this club', 403);
+  }
+  if (!(await isClubMember(params.memberId, params.clubId))) {
+    throw new SessionPackageError('You are not a member of this club', 403);
+  }
+
+  const productResult = await query(
+    `SELECT p.id, p.name, p.description, p.kind, p.units, p.price_cents, p.valid_days,
+            f.name AS facility_name, f.stripe_account_id, f.stripe_onboarded, f.platform_fee_percent
+       FROM session_package_products p
+       JOIN facilities f ON f.id = p.facility_id
+      WHERE p.id = $1 AND p.facility_id = $2 AND p.is_active = true`,
+    [params.productId, params.clubId]
+  );
+  const product = productResult.rows[0];
+  if (!product) {
+    throw new SessionPackageError('That package is not currently offered by this club', 404);
+  }
+  const amountCents = Number(product.price_cents);
+  if (amountCents <= 0) {
+    throw new SessionPackageError('This package has no price set. Ask the club to set one.');
+  }
+  if (!product.stripe_account_id || !product.stripe_onboarded) {
+    throw new Error('This club has not finished Stripe Connect onboarding yet');
+  }
+  const platformFeePercent = Number(product.platform_fee_percent ?? 0);
+  const platformFeeCents = Math.max(0, Math.round((amountCents * platformFeePercent) / 100));
+
+  const insertPayment = await query(
+    `INSERT INTO connect_payments
+       (club_id, member_id, payment_item_id, amount_cents, platform_fee_cents, status)
+     VALUES ($1, $2, NULL, $3, $4, 'PENDING')
+     RETURNING id`,
+    [params.clubId, params.memberId, amountCents, platformFeeCents]
+  );
+  const paymentId: string = insertPayment.rows[0].id;
+
+  // Terms are snapshotted now so an admin edit mid-checkout doesn't change what was bought
+  const insertPackage = await query(
+    `INSERT INTO member_session_packages
+       (facility_id, user_id, product_id, name, kind, units_total, price_cents_at_purchase,
+        valid_days, status, connect_payment_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'pending', $9)
+     RETURNING id`,
+    [
+      params.clubId,
+      params.memberId,
+      product.id,
+      product.name,
+      product.kind,
+      Number(product.units),
+      amountCents,
+      product.valid_days,
+      paymentId,
+    ]
+  );
+  const packageId: string = insertPackage.rows[0].id;
+
+  const customerOpts = await connectCheckoutCustomerOptions(params.memberId, params.clubId);
+  const session = await stripe.checkout.sessions.create(
+    {
+      mode: 'payment',
+      payment_method_types: ['card'],
+      ...customerOpts,
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            currency: 'usd',
+            unit_amount: amountCents,
+            product_data: {
+              name: product.name,
+              description:
+                product.description ||
+                `${formatPackageUnits(product.kind, Number(product.units))} at ${product.facility_name}`,
+            },
+          },
+        },
+      ],
+      success_url: params.successUrl,
+      cancel_url: params.cancelUrl,
+      metadata: {
+        connectPaymentId: paymentId,
+        clubId: params.clubId,
+        memberId: params.memberId,
+        sessionPackageId: packageId,
+        sessionPackagePayment: 'true',
+      },
+      payment_intent_data: {
+        application_fee_amount: platformFeeCents,
+        metadata: {
+          connectPaymentId: paymentId,
+          clubId: params.clubId,
+          sessionPackageId: packageId,
+        },
+      },
+    },
+    { stripeAccount: product.stripe_account_id }
+  );
+
+  await query(
+    `UPDATE connect_payments SET stripe_checkout_session_id = $1 WHERE id = $2`,
+    [session.id, paymentId]
+  );
+  await query(
+    `UPDATE member_session_packages SET stripe_checkout_session_id = $1 WHERE id = $2`,
+    [session.id, packageId]
+  );
+
+  if (!session.url) {
+    throw new Error('Stripe did not return a Checkout URL');
+  }
+  return { url: session.url, paymentId };
+}
+
 /**
  * Checkout for a St. Marlow Ball Machine pass (st_marlow_ball_machine feature flag).
  *
@@ -1145,6 +1577,120 @@ async function activateBallMachinePass(params: {
   );
 }
 
+/**
+ * Checkout for a private lesson. The lesson row and its 'pending' court booking
+ * already exist (lessonService.bookLesson); this only charges the pro's price,
+ * snapshotted on the lesson. The session closes shortly after the court hold
+ * lapses so a member can't pay for a slot that has been released.
+ */
+export async function createLessonCheckoutSession(params: {
+  lessonBookingId: string;
+  successUrl: string;
+  cancelUrl: string;
+}): Promise<CheckoutResult> {
+  const stripe = getStripe();
+  if (!stripe) {
+    throw new Error('Stripe is not configured on this server');
+  }
+
+  const lessonResult = await query(
+    `SELECT l.id, l.facility_id, l.member_id, l.price_cents, l.status,
+            TO_CHAR(l.lesson_date, 'YYYY-MM-DD') as lesson_date, l.start_time,
+            u.full_name as pro_name,
+            f.name as club_name, f.stripe_account_id, f.stripe_onboarded, f.platform_fee_percent
+       FROM lesson_bookings l
+       JOIN lesson_pros p ON p.id = l.pro_id
+       JOIN users u ON u.id = p.user_id
+       JOIN facilities f ON f.id = l.facility_id
+      WHERE l.id = $1`,
+    [params.lessonBookingId]
+  );
+  const lesson = lessonResult.rows[0];
+  if (!lesson) {
+    throw new Error('Lesson not found');
+  }
+  if (lesson.status !== 'pending_payment') {
+    throw new Error('This lesson is not awaiting payment');
+  }
+  if (!lesson.stripe_account_id || !lesson.stripe_onboarded) {
+    throw new Error('This club has not finished Stripe Connect onboarding yet');
+  }
+
+  const amountCents = Number(lesson.price_cents);
+  const platformFeePercent = Number(lesson.platform_fee_percent ?? 0);
+  const platformFeeCents = Math.max(0, Math.round((amountCents * platformFeePercent) / 100));
+
+  const insertPayment = await query(
+    `INSERT INTO connect_payments
+       (club_id, member_id, payment_item_id, amount_cents, platform_fee_cents, status)
+     VALUES ($1, $2, NULL, $3, $4, 'PENDING')
+     RETURNING id`,
+    [lesson.facility_id, lesson.member_id, amountCents, platformFeeCents]
+  );
+  const paymentId: string = insertPayment.rows[0].id;
+
+  const { LESSON_HOLD_MINUTES } = await import('./lessonService');
+  const customerOpts = await connectCheckoutCustomerOptions(lesson.member_id, lesson.facility_id);
+
+  const session = await stripe.checkout.sessions.create(
+    {
+      mode: 'payment',
+      payment_method_types: ['card'],
+      ...customerOpts,
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            currency: 'usd',
+            unit_amount: amountCents,
+            product_data: {
+              name: `Private lesson with ${lesson.pro_name}`,
+              description: `${lesson.lesson_date} at ${String(lesson.start_time).slice(0, 5)} at ${lesson.club_name}`,
+            },
+          },
+        },
+      ],
+      success_url: params.successUrl,
+      cancel_url: params.cancelUrl,
+      // Stripe's minimum is 30 minutes; one extra keeps us clear of it. A payment
+      // that still lands after the hold lapsed is refunded in markCheckoutSessionPaid.
+      expires_at: Math.floor(Date.now() / 1000) + (LESSON_HOLD_MINUTES + 1) * 60,
+      metadata: {
+        connectPaymentId: paymentId,
+        clubId: lesson.facility_id,
+        memberId: lesson.member_id,
+        lessonBookingId: lesson.id,
+        lessonPayment: 'true',
+      },
+      payment_intent_data: {
+        application_fee_amount: platformFeeCents,
+        metadata: {
+          connectPaymentId: paymentId,
+          clubId: lesson.facility_id,
+          lessonBookingId: lesson.id,
+        },
+      },
+    },
+    { stripeAccount: lesson.stripe_account_id }
+  );
+
+  await query(
+    `UPDATE connect_payments SET stripe_checkout_session_id = $1 WHERE id = $2`,
+    [session.id, paymentId]
+  );
+  await query(
+    `UPDATE lesson_bookings
+        SET stripe_checkout_session_id = $1, connect_payment_id = $2
+      WHERE id = $3`,
+    [session.id, paymentId, lesson.id]
+  );
+
+  if (!session.url) {
+    throw new Error('Stripe did not return a Checkout URL');
+  }
+  return { url: session.url, paymentId };
+}
+
 /**
  * One-off Checkout for a paid court booking (no payment_items catalog row).
  */
@@ -1160,7 +1706,12 @@ export async function createCourtBookingCheckoutSession(params: {
   }
 
   const pb = params.pendingBooking;
-  const court = await loadCourtPaymentSettings(pb.courtId);
+  const court = await loadPricedCourtPaymentSettings(pb.courtId, {
+    userId: pb.userId,
+    bookingDate: pb.bookingDate,
+    startTime: pb.startTime,
+    endTime: pb.endTime,
+  });
   if (!court) {
     throw new Error('Court not found');
   }
@@ -1174,13 +1725,15 @@ export async function createCourtBookingCheckoutSession(params: {
     throw new Error('This club has not finished Stripe Connect onboarding yet');
   }
 
-  // booking_amount_cents / ball_machine_fee_cents are hourly rates; scale by duration.
+  // booking_amount_cents (already priced for this slot) / ball_machine_fee_cents are
+  // hourly rates; scale by duration.
   const durationMinutes = pb.durationMinutes > 0 ? pb.durationMinutes : 60;
   const hours = durationMinutes / 60;
   const bookingAmountCents = hasBookingFee
     ? Math.round(Number(court.booking_amount_cents) * hours)
     : 0;
-  const guestAmountCents = hasGuestFee ? Number(court.guest_fee_cents) : 0;
+  const guestCount = billableGuestCount(pb.bringGuest, pb.guestNames);
+  const guestAmountCents = hasGuestFee ? Number(court.guest_fee_cents) * guestCount : 0;
   const ballMachineAmountCents = hasBallMachineFee
     ? Math.round(Number(court.ball_machine_fee_cents) * hours)
     : 0;
@@ -1221,6 +1774,8 @@ export async function createCourtBookingCheckoutSession(params: {
         return { url: existingSession.url, paymentId: existing.id };
       }
     }
+    await reverseWalletPayment('connect_payment', existing.id, 'Checkout replaced – credit returned');
+    await reverseRedemption(existing.id, 'Checkout replaced – units returned');
   }
 
   const insertResult = await query(
@@ -1232,9 +1787,47 @@ export async function createCourtBookingCheckoutSession(params: {
   );
   const paymentId: string = insertResult.rows[0].id;
 
+  // A court-time package pays the court fee; guest and ball machine fees are still
+  // owed, so the units are held until that checkout is paid.
+  const checkoutExpiry = walletCheckoutExpiry();
+  const otherFeesCents = guestAmountCents + ballMachineAmountCents;
+  const packageCoveredCents = await applySessionPackageToPayment({
+    paymentId,
+    clubId: court.facility_id,
+    memberId: params.memberId,
+    kind: 'court_time',
+    units: durationMinutes,
+    coveredCents: bookingAmountCents,
+    totalCents: totalAmountCents,
+    platformFeePercent,
+    description: `${court.name} booking ${pb.bookingDate} ${pb.startTime}`,
+    holdExpiresAt: otherFeesCents > 0 ? checkoutExpiry.holdExpiresAt : null,
+  });
+  const amountDueCents = totalAmountCents - packageCoveredCents;
+
+  const walletHold = await holdWalletCreditForCheckout(stripe, {
+    paymentId,
+    clubId: court.facility_id,
+    memberId: params.memberId,
+    amountCents: amountDueCents,
+    platformFeePercent,
+    stripeAccountId: court.stripe_account_id,
+    description: `${court.name} booking ${pb.bookingDate} ${pb.startTime}`,
+  });
+  if (walletHold.walletCents === amountDueCents) {
+    await markPaidWithoutCheckout({
+      connectPaymentId: paymentId,
+      clubId: court.facility_id,
+      memberId: params.memberId,
+      courtBookingPayment: 'true',
+      courtId: pb.courtId,
+    });
+    return { url: paidInFullSuccessUrl(params.successUrl), paymentId, paidInFull: true };
+  }
+
   const dateLabel = pb.bookingDate;
   const lineItems: import('stripe').Stripe.Checkout.SessionCreateParams.LineItem[] = [];
-  if (bookingAmountCents > 0) {
+  if (bookingAmountCents > 0 && packageCoveredCents === 0) {
     const hoursLabel =
       durationMinutes % 60 === 0
         ? `${durationMinutes / 60} hr`
@@ -1253,10 +1846,10 @@ export async function createCourtBookingCheckoutSession(params: {
   }
   if (guestAmountCents > 0) {
     lineItems.push({
-      quantity: 1,
+      quantity: guestCount,
       price_data: {
         currency: 'usd',
-        unit_amount: guestAmountCents,
+        unit_amount: Number(court.guest_fee_cents),
         product_data: {
           name: `Guest fee — ${court.name}`,
           description: `${court.facility_name} · ${dateLabel}`,
@@ -1287,6 +1880,8 @@ export async function createCourtBookingCheckoutSession(params: {
       payment_method_types: ['card'],
       ...customerOpts,
       line_items: lineItems,
+      ...(packageCoveredCents > 0 ? { expires_at: checkoutExpiry.sessionExpiresAt } : {}),
+      ...walletHold.sessionParams,
       success_url: params.successUrl,
       cancel_url: params.cancelUrl,
       metadata: {
@@ -1298,7 +1893,7 @@ export async function createCourtBookingCheckoutSession(params: {
         pendingKey,
       },
       payment_intent_data: {
-        application_fee_amount: platformFeeCents,
+        application_fee_amount: walletHold.platformFeeCents,
         metadata: {
           connectPaymentId: paymentId,
           clubId: court.facility_id,
@@ -1363,7 +1958,15 @@ export async function createSplitCourtPaymentCheckoutSession(params: {
 export interface RefundConnectPaymentResult {
   connectPaymentId: string;
   status: 'REFUNDED';
-  stripeRefundId: string;
+  /** Null when nothing went back through Stripe (refunded as credit, or paid entirely from credit) */
+  stripeRefundId: string | null;
+  /** Cents credited to the member's account instead of the card */
+  refundedToWalletCents?: number;
+}
+
+export interface RefundClubPaymentOptions {
+  /** Refund the whole charge as account credit instead of to the card */
+  toWallet?: boolean;
 }
 
 export interface BulletinSignupRefundSummary {
@@ -1394,18 +1997,9 @@ async function executeStripeConnectRefund(params: {
   return refund.id;
 }
 
-async function executeConnectPaymentRefund(params: {
-  connectPaymentId: string;
-  stripePaymentIntentId: string;
-  stripeAccountId: string;
-}): Promise<string> {
-  const stripeRefundId = await executeStripeConnectRefund({
-    stripePaymentIntentId: params.stripePaymentIntentId,
-    stripeAccountId: params.stripeAccountId,
-  });
-
+async function markConnectPaymentRefunded(connectPaymentId: string): Promise<void> {
   await query(`UPDATE connect_payments SET status = 'REFUNDED' WHERE id = $1`, [
-    params.connectPaymentId,
+    connectPaymentId,
   ]);
 
   // A refunded ball machine pass stops granting access immediately. Bookings that
@@ -1416,27 +2010,120 @@ async function executeConnectPaymentRefund(params: {
       `UPDATE ball_machine_passes
           SET status = 'refunded'
         WHERE connect_payment_id = $1 AND status IN ('pending', 'active')`,
-      [params.connectPaymentId]
+      [connectPaymentId]
     );
   } catch (err) {
     console.error('Ball machine pass refund sync failed (non-critical):', err);
   }
 
+  // Units the charge used go back onto the package; a refunded purchase closes its package.
+  try {
+    await syncPackagesForRefundedPayment(connectPaymentId);
+  } catch (err) {
+    console.error('Session package refund sync failed (non-critical):', err);
+  }
+}
+
+async function executeConnectPaymentRefund(params: {
+  connectPaymentId: string;
+  stripePaymentIntentId: string;
+  stripeAccountId: string;
+}): Promise<string> {
+  const stripeRefundId = await executeStripeConnectRefund({
+    stripePaymentIntentId: params.stripePaymentIntentId,
+    stripeAccountId: params.stripeAccountId,
+  });
+  await markConnectPaymentRefunded(params.connectPaymentId);
   return stripeRefundId;
 }
 
+/** A paid charge about to be refunded, whichever table it lives in. */
+interface RefundableCharge {
+  referenceType: WalletReferenceType;
+  referenceId: string;
+  clubId: string;
+  memberId: string | null;
+  amountCents: number;
+  walletAppliedCents: number;
+  stripePaymentIntentId: string | null;
+  stripeAccountId: string | null;
+}
+
+/** Throws unless the charge can go back the way the admin asked for. */
+function assertRefundable(charge: RefundableCharge, options: RefundClubPaymentOptions): void {
+  if (options.toWallet) {
+    if (!charge.memberId) {
+      throw new Error('This payment has no member account to credit');
+    }
+    return;
+  }
+  const cardCents = charge.amountCents - charge.walletAppliedCents;
+  if (cardCents > 0 && (!charge.stripePaymentIntentId || !charge.stripeAccountId)) {
+    throw new Error('Only paid card charges can be refunded');
+  }
+}
+
+/**
+ * Returns a charge's money to the member: the card portion through Stripe and
+ * any credit it spent back to their wallet, or the whole amount as credit with
+ * `toWallet`. Resolves to the Stripe refund id, if Stripe was involved.
+ */
+async function returnChargeFunds(
+  charge: RefundableCharge,
+  adminUserId: string,
+  options: RefundClubPaymentOptions
+): Promise<{ stripeRefundId: string | null; refundedToWalletCents?: number }> {
+  const cardCents = charge.amountCents - charge.walletAppliedCents;
+  if (options.toWallet) {
+    const credited = await refundToWallet({
+      facilityId: charge.clubId,
+      userId: charge.memberId!,
+      referenceType: charge.referenceType,
+      referenceId: charge.referenceId,
+      cardCents,
+      description: 'Refund issued as account credit',
+      adminUserId,
+    });
+    return { stripeRefundId: null, refundedToWalletCents: credited };
+  }
+
+  const stripeRefundId =
+    cardCents > 0
+      ? await executeStripeConnectRefund({
+          stripePaymentIntentId: charge.stripePaymentIntentId!,
+          stripeAccountId: charge.stripeAccountId!,
+        })
+      : null;
+  if (charge.walletAppliedCents <= 0) {
+    return { stripeRefundId };
+  }
+  const credited = await reverseWalletPayment(
+    charge.referenceType,
+    charge.referenceId,
+    'Refund – account credit returned',
+    adminUserId
+  );
+  return { stripeRefundId, refundedToWalletCents: credited };
+}
+
 /**
  * Admin-initiated full refund for a paid Connect charge.
  * Uses direct-charge refunds on the facility's connected account.
  */
 export async function refundConnectPayment(
   connectPaymentId: string,
-  adminUserId: string
+  adminUserId: string,
+  options: RefundClubPaymentOptions = {}
 ): Promise<RefundConnectPaymentResult> {
   const result = await query(
     `SELECT cp.id,
             cp.club_id,
+            cp.member_id AS "memberId",
             cp.status,
+            cp.amount_cents AS "amountCents",
+            cp.wallet_applied_cents AS "walletAppliedCents",
+            cp.package_applied_cents AS "packageAppliedCents",
+            cp.is_wallet_top_up AS "isWalletTopUp",
             cp.stripe_payment_intent_id as "stripePaymentIntentId",
             f.stripe_account_id as "stripeAccountId"
        FROM connect_payments cp
@@ -1457,26 +2144,78 @@ export async function refundConnectPayment(
   if (row.status === 'REFUNDED') {
     throw new Error('Payment has already been refunded');
   }
-  if (row.status !== 'PAID' || !row.stripePaymentIntentId || !row.stripeAccountId) {
+  if (row.status !== 'PAID') {
     throw new Error('Only paid card charges can be refunded');
   }
 
-  const stripeRefundId = await executeConnectPaymentRefund({
-    connectPaymentId,
+  // A top-up's credit has to come back out of the wallet before its charge is refunded.
+  if (row.isWalletTopUp) {
+    if (options.toWallet) {
+      throw new Error('A credit top-up can only be refunded to the card');
+    }
+    if (!row.stripePaymentIntentId || !row.stripeAccountId) {
+      throw new Error('Only paid card charges can be refunded');
+    }
+    const stripeRefundId = await reverseTopUp(
+      {
+        facilityId: row.club_id,
+        userId: row.memberId,
+        connectPaymentId,
+        amountCents: Number(row.amountCents),
+        adminUserId,
+      },
+      () =>
+        executeConnectPaymentRefund({
+          connectPaymentId,
+          stripePaymentIntentId: row.stripePaymentIntentId,
+          stripeAccountId: row.stripeAccountId,
+        })
+    );
+    return { connectPaymentId, status: 'REFUNDED', stripeRefundId };
+  }
+
+  const charge: RefundableCharge = {
+    referenceType: 'connect_payment',
+    referenceId: connectPaymentId,
+    clubId: row.club_id,
+    memberId: row.memberId ?? null,
+    amountCents: Number(row.amountCents ?? 0),
+    walletAppliedCents: Number(row.walletAppliedCents ?? 0),
     stripePaymentIntentId: row.stripePaymentIntentId,
     stripeAccountId: row.stripeAccountId,
-  });
+  };
+  // A charge a session package covered in full has no card payment to return
+  const coveredByPackage = Number(row.packageAppliedCents ?? 0) > 0 && charge.amountCents === 0;
+  if (!options.toWallet && charge.walletAppliedCents <= 0 && !coveredByPackage) {
+    if (!row.stripePaymentIntentId || !row.stripeAccountId) {
+      throw new Error('Only paid card charges can be refunded');
+    }
+    const stripeRefundId = await executeConnectPaymentRefund({
+      connectPaymentId,
+      stripePaymentIntentId: row.stripePaymentIntentId,
+      stripeAccountId: row.stripeAccountId,
+    });
+    return { connectPaymentId, status: 'REFUNDED', stripeRefundId };
+  }
+
+  assertRefundable(charge, options);
+  const refund = await returnChargeFunds(charge, adminUserId, options);
+  await markConnectPaymentRefunded(connectPaymentId);
 
-  return { connectPaymentId, status: 'REFUNDED', stripeRefundId };
+  return { connectPaymentId, status: 'REFUNDED', ...refund };
 }
 
 async function refundSettlementCharge(
   chargeId: string,
-  adminUserId: string
+  adminUserId: string,
+  options: RefundClubPaymentOptions
 ): Promise<RefundConnectPaymentResult> {
   const result = await query(
     `SELECT bsc.id,
             bsc.status,
+            bsc.user_id AS "memberId",
+            bsc.amount_cents AS "amountCents",
+            bsc.wallet_applied_cents AS "walletAppliedCents",
             bsc.stripe_payment_intent_id AS "stripePaymentIntentId",
             b.facility_id AS "clubId",
             f.stripe_account_id AS "stripeAccountId"
@@ -1499,14 +2238,22 @@ async function refundSettlementCharge(
   if (row.status === 'refunded') {
     throw new Error('Payment has already been refunded');
   }
-  if (row.status !== 'charged' || !row.stripePaymentIntentId || !row.stripeAccountId) {
+  if (row.status !== 'charged') {
     throw new Error('Only paid card charges can be refunded');
   }
 
-  const stripeRefundId = await executeStripeConnectRefund({
+  const charge: RefundableCharge = {
+    referenceType: 'settlement_charge',
+    referenceId: chargeId,
+    clubId: row.clubId,
+    memberId: row.memberId,
+    amountCents: Number(row.amountCents),
+    walletAppliedCents: Number(row.walletAppliedCents ?? 0),
     stripePaymentIntentId: row.stripePaymentIntentId,
     stripeAccountId: row.stripeAccountId,
-  });
+  };
+  assertRefundable(charge, options);
+  const refund = await returnChargeFunds(charge, adminUserId, options);
 
   await query(
     `UPDATE booking_settlement_charges
@@ -1515,16 +2262,19 @@ async function refundSettlementCharge(
     [chargeId]
   );
 
-  return { connectPaymentId: `settlement:${chargeId}`, status: 'REFUNDED', stripeRefundId };
+  return { connectPaymentId: `settlement:${chargeId}`, status: 'REFUNDED', ...refund };
 }
 
 async function refundAnnualFeeCharge(
   recordId: string,
-  adminUserId: string
+  adminUserId: string,
+  options: RefundClubPaymentOptions
 ): Promise<RefundConnectPaymentResult> {
   const result = await query(
     `SELECT afbr.id,
             afbr.status,
+            afbr.user_id AS "memberId",
+            afbr.amount_cents AS "amountCents",
             afbr.stripe_payment_intent_id AS "stripePaymentIntentId",
             afbr.facility_id AS "clubId",
             f.stripe_account_id AS "stripeAccountId"
@@ -1546,29 +2296,41 @@ async function refundAnnualFeeCharge(
   if (row.status === 'refunded') {
     throw new Error('Payment has already been refunded');
   }
-  if (row.status !== 'charged' || !row.stripePaymentIntentId || !row.stripeAccountId) {
+  if (row.status !== 'charged') {
     throw new Error('Only paid card charges can be refunded');
   }
 
-  const stripeRefundId = await executeStripeConnectRefund({
+  const charge: RefundableCharge = {
+    referenceType: 'annual_fee',
+    referenceId: recordId,
+    clubId: row.clubId,
+    memberId: row.memberId,
+    amountCents: Number(row.amountCents),
+    walletAppliedCents: 0,
     stripePaymentIntentId: row.stripePaymentIntentId,
     stripeAccountId: row.stripeAccountId,
-  });
+  };
+  assertRefundable(charge, options);
+  const refund = await returnChargeFunds(charge, adminUserId, options);
 
   await query(`UPDATE annual_fee_billing_records SET status = 'refunded' WHERE id = $1`, [
     recordId,
   ]);
 
-  return { connectPaymentId: `annual:${recordId}`, status: 'REFUNDED', stripeRefundId };
+  return { connectPaymentId: `annual:${recordId}`, status: 'REFUNDED', ...refund };
 }
 
 async function refundProShopOrder(
   orderId: string,
-  adminUserId: string
+  adminUserId: string,
+  options: RefundClubPaymentOptions
 ): Promise<RefundConnectPaymentResult> {
   const result = await query(
     `SELECT o.id,
             o.status,
+            o.user_id AS "memberId",
+            o.total_cents AS "amountCents",
+            o.wallet_applied_cents AS "walletAppliedCents",
             o.stripe_payment_intent_id AS "stripePaymentIntentId",
             o.facility_id AS "clubId",
             f.stripe_account_id AS "stripeAccountId"
@@ -1590,46 +2352,121 @@ async function refundProShopOrder(
   if (row.status === 'refunded') {
     throw new Error('Payment has already been refunded');
   }
-  if (row.status !== 'paid' || !row.stripePaymentIntentId || !row.stripeAccountId) {
+  if (row.status !== 'paid') {
     throw new Error('Only paid card charges can be refunded');
   }
 
-  const stripeRefundId = await executeStripeConnectRefund({
+  const charge: RefundableCharge = {
+    referenceType: 'pro_shop_order',
+    referenceId: orderId,
+    clubId: row.clubId,
+    memberId: row.memberId ?? null,
+    amountCents: Number(row.amountCents),
+    walletAppliedCents: Number(row.walletAppliedCents ?? 0),
     stripePaymentIntentId: row.stripePaymentIntentId,
     stripeAccountId: row.stripeAccountId,
-  });
+  };
+  assertRefundable(charge, options);
+  const refund = await returnChargeFunds(charge, adminUserId, options);
 
   await query(
     `UPDATE pro_shop_orders SET status = 'refunded', updated_at = NOW() WHERE id = $1`,
     [orderId]
   );
+  await restockRefundedOrder(orderId, adminUserId);
 
-  return { connectPaymentId: `proshop:${orderId}`, status: 'REFUNDED', stripeRefundId };
+  return { connectPaymentId: `proshop:${orderId}`, status: 'REFUNDED', ...refund };
 }
 
 /**
  * Admin-initiated full refund for any paid Connect charge recorded in the app.
+ * With `toWallet` the member gets the whole amount back as account credit.
  */
 export async function refundClubPayment(
   paymentRef: string,
-  adminUserId: string
+  adminUserId: string,
+  options: RefundClubPaymentOptions = {}
 ): Promise<RefundConnectPaymentResult> {
   if (paymentRef.startsWith('settlement:')) {
-    return refundSettlementCharge(paymentRef.slice('settlement:'.length), adminUserId);
+    return refundSettlementCharge(paymentRef.slice('settlement:'.length), adminUserId, options);
   }
   if (paymentRef.startsWith('annual:')) {
-    return refundAnnualFeeCharge(paymentRef.slice('annual:'.length), adminUserId);
+    return refundAnnualFeeCharge(paymentRef.slice('annual:'.length), adminUserId, options);
   }
   if (paymentRef.startsWith('proshop:')) {
-    return refundProShopOrder(paymentRef.slice('proshop:'.length), adminUserId);
+    return refundProShopOrder(paymentRef.slice('proshop:'.length), adminUserId, options);
   }
-  return refundConnectPayment(paymentRef, adminUserId);
+  return refundConnectPayment(paymentRef, adminUserId, options);
 }
 
 /**
  * Refund paid bulletin signups for a cancelled event (e.g. minimum not met).
  * Uses Connect direct-charge refunds on the facility's connected account.
  */
+/**
+ * Admin refund of a session package's unused units, pro rata to its price: to
+ * the card (a partial refund of the purchase) or as account credit with
+ * `toWallet`. A package bought and refunded untouched refunds its whole charge.
+ * Granted packages are simply cancelled.
+ */
+export async function refundSessionPackage(
+  facilityId: string,
+  packageId: string,
+  adminUserId: string,
+  options: RefundClubPaymentOptions = {}
+): Promise<{ unitsRefunded: number; refundedCents: number; stripeRefundId: string | null }> {
+  const paymentResult = await query(
+    `SELECT cp.id, cp.status, cp.amount_cents AS "amountCents",
+            cp.stripe_payment_intent_id AS "stripePaymentIntentId",
+            f.stripe_account_id AS "stripeAccountId"
+       FROM member_session_packages p
+       JOIN facilities f ON f.id = p.facility_id
+       LEFT JOIN connect_payments cp ON cp.id = p.connect_payment_id
+      WHERE p.id = $1 AND p.facility_id = $2`,
+    [packageId, facilityId]
+  );
+  const payment = paymentResult.rows[0];
+  if (!payment) {
+    throw new SessionPackageError('Package not found', 404);
+  }
+
+  const refund = await refundPackageRemainder(
+    { facilityId, packageId, adminUserId },
+    async ({ valueCents, connectPaymentId, userId }): Promise<string | null> => {
+      if (valueCents <= 0 || !connectPaymentId) return null;
+      if (payment.status !== 'PAID') {
+        throw new SessionPackageError('Only packages whose payment went through can be refunded');
+      }
+      if (options.toWallet) {
+        await refundToWallet({
+          facilityId,
+          userId,
+          referenceType: 'connect_payment',
+          referenceId: connectPaymentId,
+          cardCents: valueCents,
+          description: 'Unused package units refunded as account credit',
+          adminUserId,
+        });
+        return null;
+      }
+      if (!payment.stripePaymentIntentId || !payment.stripeAccountId) {
+        throw new SessionPackageError('Only paid card charges can be refunded');
+      }
+      return executeStripeConnectRefund({
+        stripePaymentIntentId: payment.stripePaymentIntentId,
+        stripeAccountId: payment.stripeAccountId,
+        ...(valueCents < Number(payment.amountCents) ? { amountCents: valueCents } : {}),
+      });
+    }
+  );
+
+  // Nothing was used, so the whole charge went back
+  if (payment.id && refund.valueCents > 0 && refund.valueCents >= Number(payment.amountCents)) {
+    await query(`UPDATE connect_payments SET status = 'REFUNDED' WHERE id = $1`, [payment.id]);
+  }
+  return { unitsRefunded: refund.unitsRefunded, refundedCents: refund.valueCents, stripeRefundId: refund.result };
+}
+
 export async function refundBulletinSignupPaymentsForPost(
   bulletinPostId: string
 ): Promise<BulletinSignupRefundSummary> {
@@ -1646,6 +2483,9 @@ export async function refundBulletinSignupPaymentsForPost(
     `SELECT
        cp.id,
        cp.status,
+       cp.amount_cents AS "amountCents",
+       cp.wallet_applied_cents AS "walletAppliedCents",
+       cp.package_applied_cents AS "packageAppliedCents",
        cp.stripe_payment_intent_id as "stripePaymentIntentId",
        f.stripe_account_id as "stripeAccountId"
      FROM bulletin_drill_signups bds
@@ -1666,6 +2506,25 @@ export async function refundBulletinSignupPaymentsForPost(
       skipped += 1;
       continue;
     }
+    const walletAppliedCents = Number(row.walletAppliedCents ?? 0);
+    if (row.status === 'PAID' && (walletAppliedCents > 0 || Number(row.packageAppliedCents ?? 0) > 0)) {
+      try {
+        const cardCents = Number(row.amountCents) - walletAppliedCents;
+        if (cardCents > 0 && row.stripePaymentIntentId && row.stripeAccountId) {
+          await executeStripeConnectRefund({
+            stripePaymentIntentId: row.stripePaymentIntentId,
+            stripeAccountId: row.stripeAccountId,
+          });
+        }
+        await reverseWalletPayment('connect_payment', row.id, 'Event cancelled – account credit returned');
+        await markConnectPaymentRefunded(row.id);
+        refunded += 1;
+      } catch (err) {
+        failed += 1;
+        console.error(`[bulletin-refund] Failed to refund connect payment ${row.id}:`, err);
+      }
+      continue;
+    }
     if (row.status !== 'PAID' || !row.stripePaymentIntentId || !row.stripeAccountId) {
       skipped += 1;
       continue;
@@ -1754,6 +2613,42 @@ export async function refundSplitPaymentShares(
   return { refunded, skipped, failed };
 }
 
+/**
+ * Refunds a lesson's charge in full. System-initiated (the pro or an admin
+ * cancelled, the member cancelled in time, or payment arrived after the hold
+ * lapsed) — callers have already decided the refund is owed. Returns false when
+ * there is nothing paid to refund.
+ */
+export async function refundLessonPayment(lessonBookingId: string): Promise<boolean> {
+  const result = await query(
+    `SELECT cp.id as "connectPaymentId",
+            cp.status as "connectPaymentStatus",
+            cp.stripe_payment_intent_id as "stripePaymentIntentId",
+            f.stripe_account_id as "stripeAccountId"
+       FROM lesson_bookings l
+       JOIN facilities f ON f.id = l.facility_id
+       JOIN connect_payments cp ON cp.id = l.connect_payment_id
+      WHERE l.id = $1`,
+    [lessonBookingId]
+  );
+  const row = result.rows[0];
+  if (
+    !row ||
+    row.connectPaymentStatus !== 'PAID' ||
+    !row.stripePaymentIntentId ||
+    !row.stripeAccountId
+  ) {
+    return false;
+  }
+
+  await executeConnectPaymentRefund({
+    connectPaymentId: row.connectPaymentId,
+    stripePaymentIntentId: row.stripePaymentIntentId,
+    stripeAccountId: row.stripeAccountId,
+  });
+  return true;
+}
+
 /**
  * Refunds part of one already-paid split share, used when a roster change lowers
  * that member's amount (e.g. a 3rd person joins, so everyone owes less). The share
@@ -1818,6 +2713,8 @@ export async function getClubPaymentHistory(clubId: string): Promise<ConnectPaym
             cp.bulletin_post_id,
             cp.amount_cents,
             cp.platform_fee_cents,
+            cp.wallet_applied_cents,
+            cp.package_applied_cents,
             cp.status,
             cp.stripe_payment_intent_id,
             cp.stripe_checkout_session_id,
@@ -1825,6 +2722,7 @@ export async function getClubPaymentHistory(clubId: string): Promise<ConnectPaym
             cp.created_at,
             COALESCE(
               pi.name,
+              CASE WHEN cp.is_wallet_top_up THEN 'Account credit top-up' END,
               CASE WHEN cp.bulletin_post_id IS NOT NULL THEN bp.title || ' signup' END,
               CASE
                 WHEN cp.booking_id IS NOT NULL OR cp.pending_booking IS NOT NULL THEN 'Court booking'
@@ -1833,6 +2731,7 @@ export async function getClubPaymentHistory(clubId: string): Promise<ConnectPaym
                 WHEN bmp.id IS NOT NULL
                   THEN 'Ball machine pass (' || bmp.duration_months || ' mo)'
               END,
+              spk.name,
               CASE
                 WHEN cp.payment_item_id IS NULL
                  AND cp.bulletin_post_id IS NULL
@@ -1850,13 +2749,17 @@ export async function getClubPaymentHistory(clubId: string): Promise<ConnectPaym
             u.email AS member_email,
             'connect' AS source,
             CASE
-              WHEN cp.status = 'PAID' AND cp.stripe_payment_intent_id IS NOT NULL THEN true
+              WHEN cp.status = 'PAID'
+               AND (cp.stripe_payment_intent_id IS NOT NULL
+                    OR cp.wallet_applied_cents > 0
+                    OR cp.package_applied_cents > 0) THEN true
               ELSE false
             END AS refundable
        FROM connect_payments cp
        LEFT JOIN payment_items pi ON pi.id = cp.payment_item_id
        LEFT JOIN bulletin_posts bp ON bp.id = cp.bulletin_post_id
        LEFT JOIN ball_machine_passes bmp ON bmp.connect_payment_id = cp.id
+       LEFT JOIN member_session_packages spk ON spk.connect_payment_id = cp.id
        LEFT JOIN users u ON u.id = cp.member_id
       WHERE cp.club_id = $1`,
     [clubId]
@@ -1870,6 +2773,7 @@ export async function getClubPaymentHistory(clubId: string): Promise<ConnectPaym
             NULL::uuid AS bulletin_post_id,
             bsc.amount_cents,
             GREATEST(0, ROUND(bsc.amount_cents * $2::numeric / 100.0))::int AS platform_fee_cents,
+            bsc.wallet_applied_cents,
             CASE
               WHEN bsc.status = 'refunded' THEN 'REFUNDED'
               WHEN bsc.status = 'charged' THEN 'PAID'
@@ -1886,7 +2790,8 @@ export async function getClubPaymentHistory(clubId: string): Promise<ConnectPaym
             u.email AS member_email,
             'settlement' AS source,
             CASE
-              WHEN bsc.status = 'charged' AND bsc.stripe_payment_intent_id IS NOT NULL THEN true
+              WHEN bsc.status = 'charged'
+               AND (bsc.stripe_payment_intent_id IS NOT NULL OR bsc.wallet_applied_cents > 0) THEN true
               ELSE false
             END AS refundable
        FROM booking_settlement_charges bsc
@@ -1945,6 +2850,7 @@ export async function getClubPaymentHistory(clubId: string): Promise<ConnectPaym
             NULL::uuid AS bulletin_post_id,
             o.total_cents AS amount_cents,
             GREATEST(0, ROUND(o.total_cents * $2::numeric / 100.0))::int AS platform_fee_cents,
+            o.wallet_applied_cents,
             CASE
               WHEN o.status = 'refunded' THEN 'REFUNDED'
               WHEN o.status = 'paid' THEN 'PAID'
@@ -1966,7 +2872,8 @@ export async function getClubPaymentHistory(clubId: string): Promise<ConnectPaym
             COALESCE(u.email, o.guest_email) AS member_email,
             'pro_shop' AS source,
             CASE
-              WHEN o.status = 'paid' AND o.stripe_payment_intent_id IS NOT NULL THEN true
+              WHEN o.status = 'paid'
+               AND (o.stripe_payment_intent_id IS NOT NULL OR o.wallet_applied_cents > 0) THEN true
               ELSE false
             END AS refundable
        FROM pro_shop_orders o
@@ -1998,11 +2905,17 @@ export async function getClubPaymentHistory(clubId: string): Promise<ConnectPaym
 export async function getMemberPaymentHistory(memberId: string): Promise<ConnectPayment[]> {
   const result = await query(
     `SELECT cp.*,
-            COALESCE(pi.name, bp.title || ' signup') AS item_name,
+            COALESCE(
+              pi.name,
+              bp.title || ' signup',
+              CASE WHEN cp.is_wallet_top_up THEN 'Account credit top-up' END,
+              spk.name
+            ) AS item_name,
             COALESCE(pi.category, 'OTHER') AS item_category
        FROM connect_payments cp
        LEFT JOIN payment_items pi ON pi.id = cp.payment_item_id
        LEFT JOIN bulletin_posts bp ON bp.id = cp.bulletin_post_id
+       LEFT JOIN member_session_packages spk ON spk.connect_payment_id = cp.id
       WHERE cp.member_id = $1
       ORDER BY cp.created_at DESC`,
     [memberId]
@@ -2243,6 +3156,11 @@ export async function markCheckoutSessionPaid(session: Stripe.Checkout.Session):
   const ballMachinePassId = session.metadata?.ballMachinePassId || null;
   const isBallMachinePassPayment =
     session.metadata?.ballMachinePassPayment === 'true' || Boolean(ballMachinePassId);
+  const lessonBookingId = session.metadata?.lessonBookingId || null;
+  const isLessonPayment = session.metadata?.lessonPayment === 'true' || Boolean(lessonBookingId);
+  const sessionPackageId = session.metadata?.sessionPackageId || null;
+  const isSessionPackagePayment =
+    session.metadata?.sessionPackagePayment === 'true' || Boolean(sessionPackageId);
 
   let paidRow: {
     id: string;
@@ -2252,6 +3170,9 @@ export async function markCheckoutSessionPaid(session: Stripe.Checkout.Session):
     booking_id: string | null;
     pending_booking: unknown;
     amount_cents: number;
+    wallet_applied_cents: number;
+    package_applied_cents: number;
+    is_wallet_top_up: boolean;
   } | null = null;
 
   if (paymentId) {
@@ -2262,7 +3183,8 @@ export async function markCheckoutSessionPaid(session: Stripe.Checkout.Session):
              stripe_payment_intent_id = COALESCE($1, stripe_payment_intent_id),
              stripe_checkout_session_id = COALESCE($2, stripe_checkout_session_id)
        WHERE id = $3
-       RETURNING id, club_id, bulletin_post_id, member_id, booking_id, pending_booking, amount_cents`,
+       RETURNING id, club_id, bulletin_post_id, member_id, booking_id, pending_booking, amount_cents,
+                 wallet_applied_cents, package_applied_cents, is_wallet_top_up`,
       [paymentIntentId, session.id, paymentId]
     );
     paidRow = result.rows[0] ?? null;
@@ -2273,12 +3195,29 @@ export async function markCheckoutSessionPaid(session: Stripe.Checkout.Session):
              paid_at = CURRENT_TIMESTAMP,
              stripe_payment_intent_id = COALESCE($1, stripe_payment_intent_id)
        WHERE stripe_checkout_session_id = $2
-       RETURNING id, club_id, bulletin_post_id, member_id, booking_id, pending_booking, amount_cents`,
+       RETURNING id, club_id, bulletin_post_id, member_id, booking_id, pending_booking, amount_cents,
+                 wallet_applied_cents, package_applied_cents, is_wallet_top_up`,
       [paymentIntentId, session.id]
     );
     paidRow = fallback.rows[0] ?? null;
   }
 
+  if (paidRow && Number(paidRow.wallet_applied_cents) > 0) {
+    await captureWalletHold('connect_payment', paidRow.id);
+  }
+  if (paidRow && Number(paidRow.package_applied_cents) > 0) {
+    await captureRedemptionHold(paidRow.id);
+  }
+  const isWalletTopUp = Boolean(paidRow?.is_wallet_top_up);
+  if (paidRow && isWalletTopUp) {
+    await creditTopUp({
+      facilityId: paidRow.club_id,
+      userId: paidRow.member_id,
+      connectPaymentId: paidRow.id,
+      amountCents: Number(paidRow.amount_cents),
+    });
+  }
+
   const isCourtBookingPayment =
     session.metadata?.courtBookingPayment === 'true' ||
     Boolean(paidRow?.pending_booking && !paidRow?.bulletin_post_id);
@@ -2305,6 +3244,29 @@ export async function markCheckoutSessionPaid(session: Stripe.Checkout.Session):
     }
   }
 
+  if (paidRow && isSessionPackagePayment && sessionPackageId) {
+    try {
+      await activatePurchasedPackage(sessionPackageId);
+    } catch (err) {
+      console.error('Session package activation after checkout paid failed:', err);
+    }
+  }
+
+  if (paidRow && isLessonPayment && lessonBookingId) {
+    try {
+      const { confirmPaidLesson, notifyLessonPaymentRefunded } = await import('./lessonService');
+      // The hold lapsed before the charge landed and the court may already be
+      // someone else's — give the money back rather than double-booking.
+      if (!(await confirmPaidLesson(lessonBookingId, paidRow.id))) {
+        if (await refundLessonPayment(lessonBookingId)) {
+          await notifyLessonPaymentRefunded(lessonBookingId);
+        }
+      }
+    } catch (err) {
+      console.error('Lesson confirmation after checkout paid failed:', err);
+    }
+  }
+
   if (paidRow && isSignupPayment) {
     await finalizeSignupPaymentRow(paidRow);
     const signupCheck = await query(
@@ -2337,21 +3299,29 @@ export async function markCheckoutSessionPaid(session: Stripe.Checkout.Session):
     ).catch(err => console.error('Lockout clear after payment failed (non-critical):', err));
   }
 
-  // Record in revenue log once payment is confirmed
-  if (paidRow && paidRow.club_id) {
-    const paymentType = isSignupPayment
+  // Record in revenue log once payment is confirmed. Credit spent here was
+  // logged as revenue when it was topped up, so only the card portion counts.
+  const cardCents = paidRow ? Number(paidRow.amount_cents) - Number(paidRow.wallet_applied_cents ?? 0) : 0;
+  if (paidRow && paidRow.club_id && cardCents > 0) {
+    const paymentType = isWalletTopUp
+      ? 'WALLET_TOP_UP'
+      : isSignupPayment
       ? 'BULLETIN_SIGNUP'
       : isCourtBookingPayment || isSplitCourtPayment
         ? 'COURT_BOOKING'
         : isBallMachinePassPayment
           ? 'BALL_MACHINE_PASS'
-          : 'PAYMENT_ITEM';
+          : isLessonPayment
+            ? 'LESSON'
+            : isSessionPackagePayment
+              ? 'SESSION_PACKAGE'
+              : 'PAYMENT_ITEM';
     await query(
       `INSERT INTO facility_revenue_log
          (facility_id, amount_cents, payment_type, source_id, source_type, member_id)
        VALUES ($1, $2, $3, $4, 'connect_payment', $5)
        ON CONFLICT DO NOTHING`,
-      [paidRow.club_id, paidRow.amount_cents, paymentType, paidRow.id, paidRow.member_id]
+      [paidRow.club_id, cardCents, paymentType, paidRow.id, paidRow.member_id]
     ).catch(err => console.error('Revenue log insert failed (non-critical):', err));
   }
 }
@@ -2562,6 +3532,124 @@ export async function confirmBallMachinePassCheckout(params: {
   return { passId: row.id, facilityId: row.facilityId, expiresAt: row.expiresAt };
 }
 
+/** Redirect-path confirmation for a credit top-up, in case the webhook is late. */
+export async function confirmWalletTopUpCheckout(params: {
+  sessionId: string;
+  memberId: string;
+}): Promise<{ facilityId: string; amountCents: number }> {
+  const stripe = getStripe();
+  if (!stripe) {
+    throw new Error('Stripe is not configured on this server');
+  }
+
+  const paymentResult = await query(
+    `SELECT cp.id, cp.club_id, cp.member_id, cp.amount_cents, f.stripe_account_id
+       FROM connect_payments cp
+       JOIN facilities f ON f.id = cp.club_id
+      WHERE cp.stripe_checkout_session_id = $1 AND cp.is_wallet_top_up = true`,
+    [params.sessionId]
+  );
+  const payment = paymentResult.rows[0];
+  if (!payment) {
+    throw new Error('Top-up not found');
+  }
+  if (!sameMemberId(payment.member_id, params.memberId)) {
+    throw new Error('This purchase does not belong to your account');
+  }
+
+  const session = await stripe.checkout.sessions.retrieve(params.sessionId, {
+    stripeAccount: payment.stripe_account_id,
+  });
+  if (session.payment_status !== 'paid') {
+    throw new Error('Payment has not completed yet');
+  }
+
+  await markCheckoutSessionPaid(session);
+  return { facilityId: payment.club_id, amountCents: Number(payment.amount_cents) };
+}
+
+/** Redirect-path confirmation for a session package purchase, in case the webhook is late. */
+export async function confirmSessionPackageCheckout(params: {
+  sessionId: string;
+  memberId: string;
+}): Promise<{ packageId: string; facilityId: string; name: string }> {
+  const stripe = getStripe();
+  if (!stripe) {
+    throw new Error('Stripe is not configured on this server');
+  }
+
+  const packageResult = await query(
+    `SELECT p.id, p.user_id, p.facility_id, f.stripe_account_id
+       FROM member_session_packages p
+       JOIN facilities f ON f.id = p.facility_id
+      WHERE p.stripe_checkout_session_id = $1`,
+    [params.sessionId]
+  );
+  const pkg = packageResult.rows[0];
+  if (!pkg) {
+    throw new Error('Package purchase not found');
+  }
+  if (!sameMemberId(pkg.user_id, params.memberId)) {
+    throw new Error('This purchase does not belong to your account');
+  }
+
+  const session = await stripe.checkout.sessions.retrieve(params.sessionId, {
+    stripeAccount: pkg.stripe_account_id,
+  });
+  if (session.payment_status !== 'paid') {
+    throw new Error('Payment has not completed yet');
+  }
+
+  await markCheckoutSessionPaid(session);
+
+  const refreshed = await query(
+    `SELECT id, facility_id AS "facilityId", name, status FROM member_session_packages WHERE id = $1`,
+    [pkg.id]
+  );
+  const row = refreshed.rows[0];
+  if (!row || row.status !== 'active') {
+    throw new Error('Package could not be activated. Please contact the club.');
+  }
+  return { packageId: row.id, facilityId: row.facilityId, name: row.name };
+}
+
+export async function confirmLessonCheckout(params: {
+  sessionId: string;
+  memberId: string;
+}): Promise<{ lessonId: string; facilityId: string; status: string }> {
+  const stripe = getStripe();
+  if (!stripe) {
+    throw new Error('Stripe is not configured on this server');
+  }
+
+  const lessonResult = await query(
+    `SELECT l.id, l.member_id, l.facility_id, f.stripe_account_id
+       FROM lesson_bookings l
+       JOIN facilities f ON f.id = l.facility_id
+      WHERE l.stripe_checkout_session_id = $1`,
+    [params.sessionId]
+  );
+  const lesson = lessonResult.rows[0];
+  if (!lesson) {
+    throw new Error('Lesson not found');
+  }
+  if (!sameMemberId(lesson.member_id, params.memberId)) {
+    throw new Error('This lesson does not belong to your account');
+  }
+
+  const session = await stripe.checkout.sessions.retrieve(params.sessionId, {
+    stripeAccount: lesson.stripe_account_id,
+  });
+  if (session.payment_status !== 'paid') {
+    throw new Error('Payment has not completed yet');
+  }
+
+  await markCheckoutSessionPaid(session);
+
+  const refreshed = await query(`SELECT status FROM lesson_bookings WHERE id = $1`, [lesson.id]);
+  return { lessonId: lesson.id, facilityId: lesson.facility_id, status: refreshed.rows[0]?.status };
+}
+
 export async function confirmCourtBookingCheckout(params: {
   sessionId: string;
   memberId: string;
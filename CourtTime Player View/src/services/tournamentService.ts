@@ -0,0 +1,1058 @@
+/**
+ * Tournaments (tournaments feature flag): seeded single-elimination,
+ * double-elimination and compass draws whose matches hold courts as
+ * 'tournament' bookings.
+ *
+ * A bracket is a flat list of matches. Each side of a match is either filled
+ * by the draw (an entrant or a bye) or fed by the winner/loser of an earlier
+ * match, so advancement is one generic pass (advanceBracket) for every
+ * format: byes become walkovers, results move entrants on, and matches that
+ * can never be played are voided.
+ *
+ * Courts are assigned only to matches whose two entrants are known. The
+ * scheduler walks the tournament's days inside the facility's operating hours
+ * (shared/utils/operatingHours.ts), skips times taken on each court according
+ * to getCourtAvailability, and reserves the first fit through createBooking
+ * (rules and fees skipped, like leagues and bulletin events).
+ */
+
+import { query, transaction } from '../database/connection';
+import { createBooking } from './bookingService';
+import { getCourtAvailability } from './courtService';
+import { notificationService } from './notificationService';
+import { formatDate } from './rulesEngine/utils/timeUtils';
+import { buildCourtScheduleRowsFromFacilityOperatingHours } from '../../shared/utils/operatingHours';
+
+/** Thrown for caller mistakes; `status` is the HTTP status the route should return. */
+export class TournamentError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'TournamentError';
+  }
+}
+
+export type TournamentFormat = 'single_elimination' | 'double_elimination' | 'compass';
+export type TournamentStatus = 'draft' | 'drawn' | 'completed';
+export type MatchStatus = 'pending' | 'ready' | 'in_progress' | 'completed' | 'walkover' | 'void';
+
+const FORMATS: TournamentFormat[] = ['single_elimination', 'double_elimination', 'compass'];
+
+/** Entrant limits per format; compass draws are 8 or 16 lines. */
+export const TOURNAMENT_ENTRANT_LIMITS: Record<TournamentFormat, { min: number; max: number }> = {
+  single_elimination: { min: 2, max: 128 },
+  double_elimination: { min: 4, max: 64 },
+  compass: { min: 5, max: 16 },
+};
+
+/** Start-time granularity when looking for a free court. */
+const SLOT_STEP_MINUTES = 30;
+
+export interface BracketFeed {
+  key: string;
+  outcome: 'winner' | 'loser';
+}
+
+export interface BracketMatch {
+  key: string;
+  draw: string;
+  round: number;
+  position: number;
+  entrantA: string | null;
+  entrantB: string | null;
+  feedA: BracketFeed | null;
+  feedB: BracketFeed | null;
+  status: MatchStatus;
+  winnerId: string | null;
+  loserId: string | null;
+}
+
+type Side = { entrant: string | null } | { feed: BracketFeed };
+
+const TERMINAL: MatchStatus[] = ['completed', 'walkover', 'void'];
+
+// ---------------------------------------------------------------------------
+// Draw generation (pure)
+// ---------------------------------------------------------------------------
+
+/** Smallest power of two that holds `count` entrants (minimum 2). */
+export function bracketSize(count: number): number {
+  let size = 2;
+  while (size < count) size *= 2;
+  return size;
+}
+
+/**
+ * Seed on each bracket line, top to bottom: 1 v 8, 4 v 5, 2 v 7, 3 v 6 for
+ * eight lines. Keeps the top seeds apart until the late rounds and hands byes
+ * (the missing high numbers) to them.
+ */
+export function seedOrder(size: number): number[] {
+  let order = [1, 2];
+  while (order.length < size) {
+    const next = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, next - seed]);
+  }
+  return order;
+}
+
+/**
+ * Entrant (or null for a bye) on each line. Seeded entrants take their seed;
+ * the rest fill the remaining seed numbers in a random order.
+ */
+export function placeEntrants(
+  entrants: Array<{ id: string; seed: number | null }>,
+  size: number,
+  random: () => number = Math.random
+): Array<string | null> {
+  const seeded = entrants.filter((e) => e.seed != null).sort((a, b) => a.seed! - b.seed!);
+  const unseeded = entrants.filter((e) => e.seed == null);
+  for (let i = unseeded.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [unseeded[i], unseeded[j]] = [unseeded[j], unseeded[i]];
+  }
+  const ranked = [...seeded, ...unseeded].map((e) => e.id);
+  return seedOrder(size).map((seed) => ranked[seed - 1] ?? null);
+}
+
+function toSide(side: Side): Pick<BracketMatch, 'entrantA' | 'feedA'> {
+  return 'feed' in side ? { entrantA: null, feedA: side.feed } : { entrantA: side.entrant, feedA: null };
+}
+
+function newMatch(key: string, draw: string, round: number, position: number, a: Side, b: Side): BracketMatch {
+  const sideA = toSide(a);
+  const sideB = toSide(b);
+  return {
+    key,
+    draw,
+    round,
+    position,
+    entrantA: sideA.entrantA,
+    feedA: sideA.feedA,
+    entrantB: sideB.entrantA,
+    feedB: sideB.feedA,
+    status: 'pending',
+    winnerId: null,
+    loserId: null,
+  };
+}
+
+/** Plain knockout over `sides` (a power of two), keyed `${prefix}${round}-${position}`. */
+function knockout(prefix: string, draw: string, sides: Side[]): BracketMatch[][] {
+  const rounds: BracketMatch[][] = [];
+  let current = sides;
+  let round = 1;
+  while (current.length >= 2) {
+    const matches: BracketMatch[] = [];
+    for (let i = 0; i < current.length; i += 2) {
+      matches.push(newMatch(`${prefix}${round}-${i / 2 + 1}`, draw, round, i / 2 + 1, current[i], current[i + 1]));
+    }
+    rounds.push(matches);
+    current = matches.map((m) => ({ feed: { key: m.key, outcome: 'winner' as const } }));
+    round += 1;
+  }
+  return rounds;
+}
+
+const loserOf = (m: BracketMatch): Side => ({ feed: { key: m.key, outcome: 'loser' } });
+const winnerOf = (m: BracketMatch): Side => ({ feed: { key: m.key, outcome: 'winner' } });
+
+/**
+ * Double elimination: a winners' bracket, a losers' bracket that alternates
+ * "losers play each other" and "drop-in" rounds (drop-ins reversed to delay
+ * rematches), and a single grand final without a reset match.
+ */
+function doubleElimination(lines: Side[]): BracketMatch[] {
+  const winners = knockout('W', 'Winners', lines);
+  const k = winners.length;
+  const losers: BracketMatch[][] = [];
+
+  const first: BracketMatch[] = [];
+  for (let i = 0; i < winners[0].length; i += 2) {
+    first.push(newMatch(`L1-${i / 2 + 1}`, 'Losers', 1, i / 2 + 1, loserOf(winners[0][i]), loserOf(winners[0][i + 1])));
+  }
+  losers.push(first);
+
+  for (let r = 2; r <= k; r++) {
+    const previous = losers[losers.length - 1];
+    const dropping = winners[r - 1];
+    const dropRound = losers.length + 1;
+    const drop = previous.map((m, i) =>
+      newMatch(
+        `L${dropRound}-${i + 1}`,
+        'Losers',
+        dropRound,
+        i + 1,
+        winnerOf(m),
+        loserOf(dropping[dropping.length - 1 - i])
+      )
+    );
+    losers.push(drop);
+
+    if (r < k) {
+      const round = losers.length + 1;
+      const merge: BracketMatch[] = [];
+      for (let i = 0; i < drop.length; i += 2) {
+        merge.push(newMatch(`L${round}-${i / 2 + 1}`, 'Losers', round, i / 2 + 1, winnerOf(drop[i]), winnerOf(drop[i + 1])));
+      }
+      losers.push(merge);
+    }
+  }
+
+  const grandFinal = newMatch(
+    'F1-1',
+    'Final',
+    1,
+    1,
+    winnerOf(winners[k - 1][0]),
+    winnerOf(losers[losers.length - 1][0])
+  );
+  return [...winners.flat(), ...losers.flat(), grandFinal];
+}
+
+/** Compass draw names by the path of losing rounds that leads there from East. */
+const COMPASS_NAMES: Record<string, string> = {
+  '': 'East',
+  '1': 'West',
+  '2': 'North',
+  '3': 'Northeast',
+  '1.1': 'South',
+  '1.2': 'Southeast',
+  '2.1': 'Northwest',
+  '1.1.1': 'Southwest',
+};
+
+/**
+ * Compass draw: everyone starts in East; losers of each round except the
+ * last drop into a fresh draw, recursively, so every entrant plays the same
+ * number of matches (three for 8 lines, four for 16).
+ */
+function compass(lines: Side[]): BracketMatch[] {
+  const all: BracketMatch[] = [];
+  const build = (path: string, sides: Side[]) => {
+    const draw = COMPASS_NAMES[path];
+    const rounds = knockout(draw, draw, sides);
+    all.push(...rounds.flat());
+    for (let r = 1; r < rounds.length; r++) {
+      const childPath = path ? `${path}.${r}` : String(r);
+      build(childPath, rounds[r - 1].map(loserOf));
+    }
+  };
+  build('', lines);
+  return all;
+}
+
+/**
+ * Every match for a fresh draw, with byes already walked over. `lines` is
+ * the placeEntrants output.
+ */
+export function buildBracket(format: TournamentFormat, lines: Array<string | null>): BracketMatch[] {
+  const sides: Side[] = lines.map((entrant) => ({ entrant }));
+  const matches =
+    format === 'double_elimination'
+      ? doubleElimination(sides)
+      : format === 'compass'
+        ? compass(sides)
+        : knockout('M', 'Main', sides).flat();
+  advanceBracket(matches);
+  return matches;
+}
+
+// ---------------------------------------------------------------------------
+// Advancement (pure)
+// ---------------------------------------------------------------------------
+
+type SideState = { state: 'filled'; id: string } | { state: 'waiting' } | { state: 'dead' };
+
+function resolveSide(entrant: string | null, feed: BracketFeed | null, byKey: Map<string, BracketMatch>): SideState {
+  if (!feed) return entrant ? { state: 'filled', id: entrant } : { state: 'dead' };
+  const source = byKey.get(feed.key);
+  if (!source || source.status === 'void') return { state: 'dead' };
+  if (source.status === 'completed') {
+    const id = feed.outcome === 'winner' ? source.winnerId : source.loserId;
+    return id ? { state: 'filled', id } : { state: 'dead' };
+  }
+  if (source.status === 'walkover') {
+    // A bye has no loser to send on.
+    return feed.outcome === 'winner' && source.winnerId ? { state: 'filled', id: source.winnerId } : { state: 'dead' };
+  }
+  return { state: 'waiting' };
+}
+
+/**
+ * Move entrants along feeds until nothing changes: fill sides from finished
+ * matches, walk over byes, void matches neither side can reach. Mutates
+ * `matches` and returns the keys it touched.
+ */
+export function advanceBracket(matches: BracketMatch[]): Set<string> {
+  const byKey = new Map(matches.map((m) => [m.key, m]));
+  const changed = new Set<string>();
+  let progress = true;
+
+  while (progress) {
+    progress = false;
+    for (const m of matches) {
+      if (TERMINAL.includes(m.status)) continue;
+      const a = resolveSide(m.entrantA, m.feedA, byKey);
+      const b = resolveSide(m.entrantB, m.feedB, byKey);
+      const before = `${m.entrantA}|${m.entrantB}|${m.status}`;
+
+      if (a.state === 'filled') m.entrantA = a.id;
+      if (b.state === 'filled') m.entrantB = b.id;
+      if (a.state === 'dead' && b.state === 'dead') {
+        m.status = 'void';
+      } else if (a.state === 'filled' && b.state === 'dead') {
+        Object.assign(m, { status: 'walkover', winnerId: a.id, loserId: null });
+      } else if (b.state === 'filled' && a.state === 'dead') {
+        Object.assign(m, { status: 'walkover', winnerId: b.id, loserId: null });
+      } else if (a.state === 'filled' && b.state === 'filled' && m.status === 'pending') {
+        m.status = 'ready';
+      }
+
+      if (`${m.entrantA}|${m.entrantB}|${m.status}` !== before) {
+        changed.add(m.key);
+        progress = true;
+      }
+    }
+  }
+  return changed;
+}
+
+// ---------------------------------------------------------------------------
+// Court slots (pure)
+// ---------------------------------------------------------------------------
+
+export interface BusyWindow {
+  date: string;
+  startMinutes: number;
+  endMinutes: number;
+}
+
+export interface OpenSlot {
+  courtId: string;
+  date: string;
+  startMinutes: number;
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = String(time).split(':').map(Number);
+  return h * 60 + (m || 0);
+}
+
+function toTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}:00`;
+}
+
+function addDaysYmd(ymd: string, days: number): string {
+  const [y, m, d] = ymd.split('-').map(Number);
+  return formatDate(new Date(y, m - 1, d + days));
+}
+
+/**
+ * Earliest start (then lowest court in `courtIds` order) between `fromDate`
+ * `fromMinutes` and the end of `toDate` where a match fits inside that day's
+ * operating hours without touching anything in `busy`.
+ */
+export function findOpenSlot(params: {
+  schedule: Array<{ day_of_week: number; is_open: boolean; open_time: string; close_time: string }>;
+  courtIds: string[];
+  busy: Map<string, BusyWindow[]>;
+  fromDate: string;
+  fromMinutes: number;
+  toDate: string;
+  durationMinutes: number;
+}): OpenSlot | null {
+  for (let date = params.fromDate; date <= params.toDate; date = addDaysYmd(date, 1)) {
+    const [y, m, d] = date.split('-').map(Number);
+    const hours = params.schedule.find((row) => row.day_of_week === new Date(y, m - 1, d).getDay());
+    if (!hours?.is_open) continue;
+
+    const open = toMinutes(hours.open_time);
+    const close = toMinutes(hours.close_time);
+    let start = open;
+    if (date === params.fromDate && params.fromMinutes > open) {
+      start = Math.ceil(params.fromMinutes / SLOT_STEP_MINUTES) * SLOT_STEP_MINUTES;
+    }
+
+    for (; start + params.durationMinutes <= close; start += SLOT_STEP_MINUTES) {
+      const end = start + params.durationMinutes;
+      for (const courtId of params.courtIds) {
+        const taken = (params.busy.get(courtId) ?? []).some(
+          (w) => w.date === date && w.startMinutes < end && w.endMinutes > start
+        );
+        if (!taken) return { courtId, date, startMinutes: start };
+      }
+    }
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+export interface Tournament {
+  id: string;
+  facilityId: string;
+  name: string;
+  description: string | null;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  startDate: string;
+  endDate: string;
+  matchDurationMinutes: number;
+  courtIds: string[];
+  isPublic: boolean;
+  entrantCount: number;
+}
+
+export interface TournamentEntrant {
+  id: string;
+  name: string;
+  seed: number | null;
+  playerIds: string[];
+}
+
+export interface TournamentMatch {
+  id: string;
+  key: string;
+  draw: string;
+  round: number;
+  position: number;
+  entrantAId: string | null;
+  entrantBId: string | null;
+  status: MatchStatus;
+  winnerId: string | null;
+  score: string | null;
+  courtId: string | null;
+  courtName: string | null;
+  matchDate: string | null;
+  startTime: string | null;
+  endTime: string | null;
+}
+
+export interface TournamentDetail {
+  tournament: Tournament & { facilityName: string };
+  entrants: TournamentEntrant[];
+  matches: TournamentMatch[];
+}
+
+const TOURNAMENT_COLUMNS = `
+  t.id,
+  t.facility_id as "facilityId",
+  t.name,
+  t.description,
+  t.format,
+  t.status,
+  TO_CHAR(t.start_date, 'YYYY-MM-DD') as "startDate",
+  TO_CHAR(t.end_date, 'YYYY-MM-DD') as "endDate",
+  t.match_duration_minutes as "matchDurationMinutes",
+  t.court_ids as "courtIds",
+  t.is_public as "isPublic",
+  (SELECT COUNT(*)::int FROM tournament_entrants e WHERE e.tournament_id = t.id) as "entrantCount"`;
+
+function isYmd(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+export async function listTournaments(facilityId: string, options: { includeDrafts?: boolean } = {}): Promise<Tournament[]> {
+  const result = await query(
+    `SELECT ${TOURNAMENT_COLUMNS}
+       FROM tournaments t
+      WHERE t.facility_id = $1
+        AND ($2::boolean OR t.status != 'draft')
+      ORDER BY t.start_date DESC, t.name`,
+    [facilityId, Boolean(options.includeDrafts)]
+  );
+  return result.rows;
+}
+
+async function getTournament(tournamentId: string): Promise<(Tournament & { facilityName: string }) | null> {
+  const result = await query(
+    `SELECT ${TOURNAMENT_COLUMNS}, f.name as "facilityName"
+       FROM tournaments t
+       JOIN facilities f ON f.id = t.facility_id
+      WHERE t.id = $1`,
+    [tournamentId]
+  );
+  return result.rows[0] ?? null;
+}
+
+export async function facilityIdForTournament(tournamentId: string): Promise<string | null> {
+  const result = await query(`SELECT facility_id FROM tournaments WHERE id = $1`, [tournamentId]);
+  return result.rows[0]?.facility_id ?? null;
+}
+
+export async function facilityIdForTournamentMatch(matchId: string): Promise<string | null> {
+  const result = await query(
+    `SELECT t.facility_id FROM tournament_matches m JOIN tournaments t ON t.id = m.tournament_id WHERE m.id = $1`,
+    [matchId]
+  );
+  return result.rows[0]?.facility_id ?? null;
+}
+
+async function assertCourtsInFacility(facilityId: string, courtIds: string[]) {
+  if (courtIds.length === 0) return;
+  const result = await query(
+    `SELECT COUNT(*)::int as count FROM courts WHERE facility_id = $1 AND id = ANY($2::uuid[])`,
+    [facilityId, courtIds]
+  );
+  if (result.rows[0].count !== new Set(courtIds).size) {
+    throw new TournamentError('One or more courts do not belong to this facility');
+  }
+}
+
+interface TournamentFields {
+  name?: string;
+  description?: string | null;
+  format?: TournamentFormat;
+  startDate?: string;
+  endDate?: string;
+  matchDurationMinutes?: number;
+  courtIds?: string[];
+  isPublic?: boolean;
+}
+
+function validateFields(fields: TournamentFields, current?: Tournament) {
+  if (fields.name !== undefined && !String(fields.name).trim()) throw new TournamentError('name is required');
+  if (fields.format !== undefined && !FORMATS.includes(fields.format)) {
+    throw new TournamentError(`format must be one of ${FORMATS.join(', ')}`);
+  }
+  if (fields.startDate !== undefined && !isYmd(fields.startDate)) throw new TournamentError('startDate must be YYYY-MM-DD');
+  if (fields.endDate !== undefined && !isYmd(fields.endDate)) throw new TournamentError('endDate must be YYYY-MM-DD');
+  const start = fields.startDate ?? current?.startDate;
+  const end = fields.endDate ?? current?.endDate;
+  if (start && end && end < start) throw new TournamentError('endDate cannot be before startDate');
+  const duration = fields.matchDurationMinutes;
+  if (duration !== undefined && (!Number.isInteger(duration) || duration < 30 || duration > 300)) {
+    throw new TournamentError('Match length must be between 30 and 300 minutes');
+  }
+  if (fields.courtIds !== undefined && !Array.isArray(fields.courtIds)) {
+    throw new TournamentError('courtIds must be an array');
+  }
+}
+
+export async function createTournament(
+  facilityId: string,
+  createdBy: string,
+  fields: TournamentFields & { name: string; startDate: string; endDate: string }
+): Promise<Tournament> {
+  validateFields({ format: 'single_elimination', ...fields });
+  await assertCourtsInFacility(facilityId, fields.courtIds ?? []);
+  const inserted = await query(
+    `INSERT INTO tournaments
+       (facility_id, name, description, format, start_date, end_date, match_duration_minutes, court_ids, is_public, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8::uuid[], $9, $10)
+     RETURNING id`,
+    [
+      facilityId,
+      fields.name.trim(),
+      fields.description?.trim() || null,
+      fields.format ?? 'single_elimination',
+      fields.startDate,
+      fields.endDate,
+      fields.matchDurationMinutes ?? 90,
+      fields.courtIds ?? [],
+      fields.isPublic ?? true,
+      createdBy,
+    ]
+  );
+  return (await getTournament(inserted.rows[0].id))!;
+}
+
+/** Edit a tournament. Format can only change before the draw. */
+export async function updateTournament(tournamentId: string, fields: TournamentFields): Promise<Tournament> {
+  const current = await getTournament(tournamentId);
+  if (!current) throw new TournamentError('Tournament not found', 404);
+  validateFields(fields, current);
+  if (fields.format !== undefined && fields.format !== current.format && current.status !== 'draft') {
+    throw new TournamentError('The format cannot change after the draw', 409);
+  }
+  if (fields.courtIds) await assertCourtsInFacility(current.facilityId, fields.courtIds);
+
+  await query(
+    `UPDATE tournaments SET
+       name = COALESCE($2, name),
+       description = CASE WHEN $3::boolean THEN $4 ELSE description END,
+       format = COALESCE($5, format),
+       start_date = COALESCE($6, start_date),
+       end_date = COALESCE($7, end_date),
+       match_duration_minutes = COALESCE($8, match_duration_minutes),
+       court_ids = COALESCE($9::uuid[], court_ids),
+       is_public = COALESCE($10, is_public)
+     WHERE id = $1`,
+    [
+      tournamentId,
+      fields.name?.trim() ?? null,
+      fields.description !== undefined,
+      fields.description?.trim() || null,
+      fields.format ?? null,
+      fields.startDate ?? null,
+      fields.endDate ?? null,
+      fields.matchDurationMinutes ?? null,
+      fields.courtIds ?? null,
+      fields.isPublic ?? null,
+    ]
+  );
+  return (await getTournament(tournamentId))!;
+}
+
+/** Delete a tournament that hasn't been drawn (no courts are held yet). */
+export async function deleteTournament(tournamentId: string): Promise<void> {
+  const result = await query(`DELETE FROM tournaments WHERE id = $1 AND status = 'draft' RETURNING id`, [tournamentId]);
+  if (result.rows.length === 0) {
+    throw new TournamentError('Only tournaments that have not been drawn can be deleted', 409);
+  }
+}
+
+async function getEntrants(tournamentId: string): Promise<TournamentEntrant[]> {
+  const result = await query(
+    `SELECT id, name, seed, player_ids as "playerIds"
+       FROM tournament_entrants
+      WHERE tournament_id = $1
+      ORDER BY seed NULLS LAST, name`,
+    [tournamentId]
+  );
+  return result.rows;
+}
+
+const MATCH_COLUMNS = `
+  m.id,
+  m.match_key as "key",
+  m.draw,
+  m.round,
+  m.position,
+  m.entrant_a_id as "entrantAId",
+  m.entrant_b_id as "entrantBId",
+  m.status,
+  m.winner_id as "winnerId",
+  m.score,
+  m.court_id as "courtId",
+  c.name as "courtName",
+  TO_CHAR(m.match_date, 'YYYY-MM-DD') as "matchDate",
+  m.start_time as "startTime",
+  m.end_time as "endTime"`;
+
+async function getMatches(tournamentId: string): Promise<TournamentMatch[]> {
+  const result = await query(
+    `SELECT ${MATCH_COLUMNS}
+       FROM tournament_matches m
+       LEFT JOIN courts c ON c.id = m.court_id
+      WHERE m.tournament_id = $1
+      ORDER BY m.created_at, m.round, m.position`,
+    [tournamentId]
+  );
+  return result.rows;
+}
+
+/** Tournament with entrants and matches (members and admins). */
+export async function getTournamentDetail(tournamentId: string): Promise<TournamentDetail | null> {
+  const tournament = await getTournament(tournamentId);
+  if (!tournament) return null;
+  const [entrants, matches] = await Promise.all([getEntrants(tournamentId), getMatches(tournamentId)]);
+  return { tournament, entrants, matches };
+}
+
+/**
+ * The no-login bracket behind the share link: only public tournaments that
+ * have been drawn, and without members' user ids.
+ */
+export async function getPublicBracket(tournamentId: string): Promise<TournamentDetail | null> {
+  const detail = await getTournamentDetail(tournamentId);
+  if (!detail || !detail.tournament.isPublic || detail.tournament.status === 'draft') return null;
+  return {
+    tournament: { ...detail.tournament, courtIds: [] },
+    entrants: detail.entrants.map((e) => ({ ...e, playerIds: [] })),
+    matches: detail.matches,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Entrants and the draw
+// ---------------------------------------------------------------------------
+
+async function requireDraft(tournamentId: string): Promise<Tournament> {
+  const tournament = await getTournament(tournamentId);
+  if (!tournament) throw new TournamentError('Tournament not found', 404);
+  if (tournament.status !== 'draft') throw new TournamentError('Entries are closed once the draw is made', 409);
+  return tournament;
+}
+
+/**
+ * Enter a player or team. Members are listed in `playerIds`; `name` defaults
+ * to their names ("Pat Lee / Sam Cho"), and is required for guests.
+ */
+export async function addEntrant(
+  tournamentId: string,
+  fields: { name?: string; seed?: number | null; playerIds?: string[] }
+): Promise<TournamentEntrant> {
+  const tournament = await requireDraft(tournamentId);
+  const playerIds = Array.from(new Set(fields.playerIds ?? []));
+  if (playerIds.length > 2) throw new TournamentError('An entry has at most two players');
+  if (fields.seed != null && (!Number.isInteger(fields.seed) || fields.seed < 1)) {
+    throw new TournamentError('seed must be a positive whole number');
+  }
+  if (tournament.entrantCount >= TOURNAMENT_ENTRANT_LIMITS[tournament.format].max) {
+    throw new TournamentError(`This format takes at most ${TOURNAMENT_ENTRANT_LIMITS[tournament.format].max} entries`);
+  }
+
+  let name = String(fields.name ?? '').trim();
+  if (playerIds.length > 0) {
+    const players = await query(
+      `SELECT u.id, u.full_name as "fullName"
+         FROM facility_memberships fm
+         JOIN users u ON u.id = fm.user_id
+        WHERE fm.facility_id = $1 AND fm.user_id = ANY($2::uuid[]) AND fm.status = 'active'`,
+      [tournament.facilityId, playerIds]
+    );
+    if (players.rows.length !== playerIds.length) {
+      throw new TournamentError('Every player must be an active member of the facility');
+    }
+    const entered = await query(
+      `SELECT 1 FROM tournament_entrants WHERE tournament_id = $1 AND player_ids && $2::uuid[] LIMIT 1`,
+      [tournamentId, playerIds]
+    );
+    if (entered.rows.length > 0) throw new TournamentError('A player is already entered', 409);
+    if (!name) {
+      name = playerIds.map((id) => players.rows.find((p: any) => p.id === id)?.fullName).join(' / ');
+    }
+  }
+  if (!name) throw new TournamentError('Give the entry a name or pick its players');
+
+  try {
+    const inserted = await query(
+      `INSERT INTO tournament_entrants (tournament_id, name, seed, player_ids)
+       VALUES ($1, $2, $3, $4::uuid[])
+       RETURNING id, name, seed, player_ids as "playerIds"`,
+      [tournamentId, name.slice(0, 120), fields.seed ?? null, playerIds]
+    );
+    return inserted.rows[0];
+  } catch (error: any) {
+    if (error?.code === '23505') {
+      throw new TournamentError('That name or seed is already taken in this tournament', 409);
+    }
+    throw error;
+  }
+}
+
+export async function removeEntrant(tournamentId: string, entrantId: string): Promise<void> {
+  await requireDraft(tournamentId);
+  const result = await query(
+    `DELETE FROM tournament_entrants WHERE id = $1 AND tournament_id = $2 RETURNING id`,
+    [entrantId, tournamentId]
+  );
+  if (result.rows.length === 0) throw new TournamentError('Entry not found', 404);
+}
+
+/** Close entries and generate the bracket. */
+export async function generateDraw(tournamentId: string): Promise<TournamentDetail> {
+  const tournament = await requireDraft(tournamentId);
+  const entrants = await getEntrants(tournamentId);
+  const limits = TOURNAMENT_ENTRANT_LIMITS[tournament.format];
+  if (entrants.length < limits.min) {
+    throw new TournamentError(`This format needs at least ${limits.min} entries`);
+  }
+
+  const size = tournament.format === 'compass' ? (entrants.length <= 8 ? 8 : 16) : bracketSize(entrants.length);
+  const matches = buildBracket(tournament.format, placeEntrants(entrants, size));
+
+  await transaction(async (client) => {
+    for (const m of matches) {
+      await client.query(
+        `INSERT INTO tournament_matches
+           (tournament_id, match_key, draw, round, position, entrant_a_id, entrant_b_id,
+            feed_a_key, feed_a_outcome, feed_b_key, feed_b_outcome, status, winner_id, loser_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+        [
+          tournamentId,
+          m.key,
+          m.draw,
+          m.round,
+          m.position,
+          m.entrantA,
+          m.entrantB,
+          m.feedA?.key ?? null,
+          m.feedA?.outcome ?? null,
+          m.feedB?.key ?? null,
+          m.feedB?.outcome ?? null,
+          m.status,
+          m.winnerId,
+          m.loserId,
+        ]
+      );
+    }
+    await client.query(`UPDATE tournaments SET status = 'drawn' WHERE id = $1`, [tournamentId]);
+  });
+
+  return (await getTournamentDetail(tournamentId))!;
+}
+
+// ---------------------------------------------------------------------------
+// Scheduling
+// ---------------------------------------------------------------------------
+
+async function tournamentCourtIds(tournament: Tournament): Promise<string[]> {
+  const result = await query(
+    `SELECT id FROM courts
+      WHERE facility_id = $1
+        AND is_walk_up = false
+        AND COALESCE(status, 'available') = 'available'
+        AND (cardinality($2::uuid[]) = 0 OR id = ANY($2::uuid[]))
+      ORDER BY court_number NULLS LAST, name`,
+    [tournament.facilityId, tournament.courtIds]
+  );
+  return result.rows.map((row: any) => row.id);
+}
+
+async function loadBusy(courtIds: string[], fromDate: string, toDate: string): Promise<Map<string, BusyWindow[]>> {
+  const busy = new Map<string, BusyWindow[]>();
+  const [fy, fm, fd] = fromDate.split('-').map(Number);
+  const [ty, tm, td] = toDate.split('-').map(Number);
+  for (const courtId of courtIds) {
+    const bookings = await getCourtAvailability(courtId, new Date(fy, fm - 1, fd), new Date(ty, tm - 1, td));
+    busy.set(
+      courtId,
+      bookings.map((b) => ({
+        date: b.bookingDate instanceof Date ? formatDate(b.bookingDate) : String(b.bookingDate).slice(0, 10),
+        startMinutes: toMinutes(b.startTime),
+        endMinutes: toMinutes(b.endTime),
+      }))
+    );
+  }
+  return busy;
+}
+
+/**
+ * Put every ready match without a court on the earliest free court inside
+ * operating hours, from now (or the first day) to the last day. Returns how
+ * many were placed and how many didn't fit.
+ */
+export async function scheduleReadyMatches(
+  tournamentId: string,
+  actorId: string
+): Promise<{ scheduled: number; unplaced: number }> {
+  const tournament = await getTournament(tournamentId);
+  if (!tournament) throw new TournamentError('Tournament not found', 404);
+  if (tournament.status !== 'drawn') throw new TournamentError('Make the draw first', 409);
+
+  const ready = await query(
+    `SELECT id, entrant_a_id as "entrantAId", entrant_b_id as "entrantBId"
+       FROM tournament_matches
+      WHERE tournament_id = $1 AND status = 'ready' AND booking_id IS NULL
+      ORDER BY created_at, round, position`,
+    [tournamentId]
+  );
+  if (ready.rows.length === 0) return { scheduled: 0, unplaced: 0 };
+
+  const facility = await query(`SELECT operating_hours, timezone FROM facilities WHERE id = $1`, [tournament.facilityId]);
+  const schedule = buildCourtScheduleRowsFromFacilityOperatingHours(facility.rows[0]?.operating_hours);
+  const { getFacilityLocalNow } = await import('./rulesEngine/RuleContext');
+  const now = getFacilityLocalNow(facility.rows[0]?.timezone || 'America/New_York');
+  const today = formatDate(now);
+  const fromDate = today > tournament.startDate ? today : tournament.startDate;
+  if (fromDate > tournament.endDate) throw new TournamentError('The tournament dates have passed', 409);
+  const fromMinutes = fromDate === today ? now.getHours() * 60 + now.getMinutes() : 0;
+
+  const courtIds = await tournamentCourtIds(tournament);
+  const busy = await loadBusy(courtIds, fromDate, tournament.endDate);
+  const names = new Map((await getEntrants(tournamentId)).map((e) => [e.id, e]));
+  const duration = tournament.matchDurationMinutes;
+
+  let scheduled = 0;
+  let unplaced = 0;
+  for (const match of ready.rows) {
+    const label = `${tournament.name}: ${names.get(match.entrantAId)?.name} vs ${names.get(match.entrantBId)?.name}`;
+    let placed = false;
+
+    // A slot can still be lost to a booking made since loadBusy; mark it and look again.
+    for (let attempt = 0; attempt < 10 && !placed; attempt++) {
+      const slot = findOpenSlot({ schedule, courtIds, busy, fromDate, fromMinutes, toDate: tournament.endDate, durationMinutes: duration });
+      if (!slot) break;
+      const window = { date: slot.date, startMinutes: slot.startMinutes, endMinutes: slot.startMinutes + duration };
+      busy.set(slot.courtId, [...(busy.get(slot.courtId) ?? []), window]);
+
+      const result = await createBooking({
+        courtId: slot.courtId,
+        userId: actorId,
+        facilityId: tournament.facilityId,
+        bookingDate: slot.date,
+        startTime: toTime(window.startMinutes),
+        endTime: toTime(window.endMinutes),
+        durationMinutes: duration,
+        bookingType: 'tournament',
+        notes: label,
+        skipRulesValidation: true,
+        skipPaymentCheck: true,
+      });
+      if (result.ruleViolations?.length) {
+        throw new TournamentError(result.error || 'The court could not be reserved');
+      }
+      if (result.success && result.booking?.id) {
+        await query(
+          `UPDATE tournament_matches
+              SET court_id = $2, booking_id = $3, match_date = $4, start_time = $5, end_time = $6
+            WHERE id = $1`,
+          [match.id, slot.courtId, result.booking.id, slot.date, toTime(window.startMinutes), toTime(window.endMinutes)]
+        );
+        placed = true;
+        notifyMatchScheduled(tournament, [names.get(match.entrantAId), names.get(match.entrantBId)], slot.date, toTime(window.startMinutes));
+      }
+    }
+    if (placed) scheduled += 1;
+    else unplaced += 1;
+  }
+  return { scheduled, unplaced };
+}
+
+// ---------------------------------------------------------------------------
+// Scores and results
+// ---------------------------------------------------------------------------
+
+async function loadBracket(tournamentId: string): Promise<Array<BracketMatch & { id: string }>> {
+  const result = await query(
+    `SELECT id, match_key as "key", draw, round, position,
+            entrant_a_id as "entrantA", entrant_b_id as "entrantB",
+            feed_a_key as "feedAKey", feed_a_outcome as "feedAOutcome",
+            feed_b_key as "feedBKey", feed_b_outcome as "feedBOutcome",
+            status, winner_id as "winnerId", loser_id as "loserId"
+       FROM tournament_matches
+      WHERE tournament_id = $1`,
+    [tournamentId]
+  );
+  return result.rows.map((row: any) => ({
+    id: row.id,
+    key: row.key,
+    draw: row.draw,
+    round: row.round,
+    position: row.position,
+    entrantA: row.entrantA,
+    entrantB: row.entrantB,
+    feedA: row.feedAKey ? { key: row.feedAKey, outcome: row.feedAOutcome } : null,
+    feedB: row.feedBKey ? { key: row.feedBKey, outcome: row.feedBOutcome } : null,
+    status: row.status,
+    winnerId: row.winnerId,
+    loserId: row.loserId,
+  }));
+}
+
+/** True when `userId` plays as either entrant in the match. */
+export async function isMatchParticipant(matchId: string, userId: string): Promise<boolean> {
+  const result = await query(
+    `SELECT 1
+       FROM tournament_matches m
+       JOIN tournament_entrants e ON e.id IN (m.entrant_a_id, m.entrant_b_id)
+      WHERE m.id = $1 AND $2 = ANY(e.player_ids)
+      LIMIT 1`,
+    [matchId, userId]
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * Update a match's score. Without `winnerId` this is a live score and the
+ * match shows as in progress; with it the match is final and the bracket
+ * advances. A final result can be corrected until a match it feeds has
+ * started.
+ */
+export async function updateMatchScore(
+  matchId: string,
+  fields: { score?: string | null; winnerId?: string | null }
+): Promise<TournamentMatch> {
+  const matchRow = await query(
+    `SELECT tournament_id as "tournamentId", match_key as "key" FROM tournament_matches WHERE id = $1`,
+    [matchId]
+  );
+  if (matchRow.rows.length === 0) throw new TournamentError('Match not found', 404);
+  const { tournamentId, key } = matchRow.rows[0];
+  const score = fields.score == null ? null : String(fields.score).trim().slice(0, 100) || null;
+
+  await transaction(async (client) => {
+    // Serialize result entry per tournament so two courts finishing at once
+    // can't advance the bracket from stale state.
+    await client.query(`SELECT id FROM tournaments WHERE id = $1 FOR UPDATE`, [tournamentId]);
+    const bracket = await loadBracket(tournamentId);
+    const match = bracket.find((m) => m.key === key)!;
+
+    if (!['ready', 'in_progress', 'completed'].includes(match.status)) {
+      throw new TournamentError('This match is not ready to be played');
+    }
+
+    if (!fields.winnerId) {
+      if (match.status === 'completed') throw new TournamentError('Pick the winner when correcting a result');
+      await client.query(
+        `UPDATE tournament_matches SET score = $2, status = 'in_progress' WHERE id = $1`,
+        [match.id, score]
+      );
+      return;
+    }
+
+    if (fields.winnerId !== match.entrantA && fields.winnerId !== match.entrantB) {
+      throw new TournamentError('The winner must be one of the two entrants');
+    }
+
+    const dependents = bracket.filter((m) => m.feedA?.key === key || m.feedB?.key === key);
+    if (match.status === 'completed') {
+      if (dependents.some((d) => ['in_progress', 'completed', 'walkover'].includes(d.status))) {
+        throw new TournamentError('This result can no longer change: the next match has started', 409);
+      }
+      for (const d of dependents) {
+        if (d.feedA?.key === key) d.entrantA = null;
+        if (d.feedB?.key === key) d.entrantB = null;
+        d.status = 'pending';
+      }
+    }
+
+    Object.assign(match, {
+      status: 'completed',
+      winnerId: fields.winnerId,
+      loserId: fields.winnerId === match.entrantA ? match.entrantB : match.entrantA,
+    });
+    const changed = advanceBracket(bracket);
+    for (const d of dependents) changed.add(d.key);
+
+    await client.query(
+      `UPDATE tournament_matches SET score = $2, status = 'completed', winner_id = $3, loser_id = $4 WHERE id = $1`,
+      [match.id, score, match.winnerId, match.loserId]
+    );
+    for (const m of bracket) {
+      if (!changed.has(m.key) || m.key === key) continue;
+      await client.query(
+        `UPDATE tournament_matches
+            SET entrant_a_id = $2, entrant_b_id = $3, status = $4, winner_id = $5, loser_id = $6
+          WHERE id = $1`,
+        [m.id, m.entrantA, m.entrantB, m.status, m.winnerId, m.loserId]
+      );
+    }
+    if (bracket.every((m) => TERMINAL.includes(m.status))) {
+      await client.query(`UPDATE tournaments SET status = 'completed' WHERE id = $1`, [tournamentId]);
+    }
+  });
+
+  return (await getMatches(tournamentId)).find((m) => m.id === matchId)!;
+}
+
+// ---------------------------------------------------------------------------
+// Notifications
+// ---------------------------------------------------------------------------
+
+function notifyMatchScheduled(
+  tournament: Tournament,
+  entrants: Array<TournamentEntrant | undefined>,
+  date: string,
+  startTime: string
+) {
+  const [a, b] = entrants;
+  const when = `${new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })} at ${startTime.slice(0, 5)}`;
+  for (const entrant of entrants) {
+    for (const userId of entrant?.playerIds ?? []) {
+      void notificationService
+        .createNotification(
+          userId,
+          'Tournament match scheduled',
+          `${tournament.name}: ${a?.name} vs ${b?.name}, ${when}.`,
+          'tournament_match',
+          { actionUrl: '/tournaments', priority: 'medium' }
+        )
+        .catch((error) => console.error('Tournament match notification failed:', error));
+    }
+  }
+}
@@ -20,8 +20,16 @@ export interface NotificationPreferences {
   pushStrikes: boolean;
   pushAnnouncements: boolean;
   pushWeather: boolean;
+  /** Reminder email before each booking */
+  emailBookingReminders: boolean;
+  /** Hours before a booking starts that its reminder (push and email) goes out */
+  bookingReminderLeadHours: number;
 }
 
+export const DEFAULT_BOOKING_REMINDER_LEAD_HOURS = 24;
+export const MIN_BOOKING_REMINDER_LEAD_HOURS = 1;
+export const MAX_BOOKING_REMINDER_LEAD_HOURS = 72;
+
 const DEFAULT_PREFS: NotificationPreferences = {
   emailNotificationsEnabled: true,
   emailBookingConfirmations: true,
@@ -32,6 +40,8 @@ const DEFAULT_PREFS: NotificationPreferences = {
   pushStrikes: true,
   pushAnnouncements: true,
   pushWeather: true,
+  emailBookingReminders: true,
+  bookingReminderLeadHours: DEFAULT_BOOKING_REMINDER_LEAD_HOURS,
 };
 
 let emailNotificationsColumnReady = false;
@@ -51,6 +61,14 @@ async function ensureEmailNotificationsColumn(): Promise<void> {
     `ALTER TABLE user_preferences
        ADD COLUMN IF NOT EXISTS email_membership_request_alerts BOOLEAN NOT NULL DEFAULT true`
   );
+  await query(
+    `ALTER TABLE user_preferences
+       ADD COLUMN IF NOT EXISTS email_booking_reminders BOOLEAN NOT NULL DEFAULT true`
+  );
+  await query(
+    `ALTER TABLE user_preferences
+       ADD COLUMN IF NOT EXISTS booking_reminder_lead_hours INTEGER NOT NULL DEFAULT ${DEFAULT_BOOKING_REMINDER_LEAD_HOURS}`
+  );
   emailNotificationsColumnReady = true;
 }
 
@@ -71,7 +89,9 @@ export async function getNotificationPreferences(userId: string): Promise<Notifi
         push_booking_reminders  as "pushBookingReminders",
         push_strikes            as "pushStrikes",
         push_announcements      as "pushAnnouncements",
-        push_weather            as "pushWeather"
+        push_weather            as "pushWeather",
+        COALESCE(email_booking_reminders, true) as "emailBookingReminders",
+        COALESCE(booking_reminder_lead_hours, ${DEFAULT_BOOKING_REMINDER_LEAD_HOURS}) as "bookingReminderLeadHours"
      FROM user_preferences
      WHERE user_id = $1`,
     [userId]
@@ -102,6 +122,8 @@ export async function updateNotificationPreferences(
     pushStrikes: 'push_strikes',
     pushAnnouncements: 'push_announcements',
     pushWeather: 'push_weather',
+    emailBookingReminders: 'email_booking_reminders',
+    bookingReminderLeadHours: 'booking_reminder_lead_hours',
   };
 
   const sanitizedUpdates = { ...updates };
@@ -111,8 +133,9 @@ export async function updateNotificationPreferences(
 
   const entries = Object.entries(sanitizedUpdates).filter(
     ([key, value]) =>
-      typeof value === 'boolean' && Object.prototype.hasOwnProperty.call(colMap, key)
-  ) as Array<[keyof NotificationPreferences, boolean]>;
+      Object.prototype.hasOwnProperty.call(colMap, key) &&
+      (key === 'bookingReminderLeadHours' ? isValidReminderLeadHours(value) : typeof value === 'boolean')
+  ) as Array<[keyof NotificationPreferences, boolean | number]>;
   if (entries.length === 0) return getNotificationPreferences(userId);
 
   // Ensure a row exists for this user
@@ -138,6 +161,14 @@ export async function updateNotificationPreferences(
   return getNotificationPreferences(userId);
 }
 
+function isValidReminderLeadHours(value: unknown): boolean {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= MIN_BOOKING_REMINDER_LEAD_HOURS &&
+    (value as number) <= MAX_BOOKING_REMINDER_LEAD_HOURS
+  );
+}
+
 /** Strikes, lockouts, facility blast-style messages, and other non-booking transactional email. */
 export async function isEmailNotificationsEnabled(userId: string): Promise<boolean> {
   const prefs = await getNotificationPreferences(userId);
@@ -154,6 +185,11 @@ export async function isEmailMembershipRequestAlertsEnabled(userId: string): Pro
   return prefs.emailMembershipRequestAlerts !== false;
 }
 
+export async function isEmailBookingRemindersEnabled(userId: string): Promise<boolean> {
+  const prefs = await getNotificationPreferences(userId);
+  return prefs.emailBookingReminders !== false;
+}
+
 /**
  * Map an in-app notification type string to the push preference column that gates it.
  */
@@ -164,6 +200,16 @@ export function preferenceKeyForType(type: string): keyof NotificationPreference
     case 'court_change':
     case 'reservation_confirmed':
     case 'reservation_cancelled':
+    case 'court_waitlist_offer':
+    case 'lesson_booked':
+    case 'lesson_cancelled':
+    case 'league_schedule':
+    case 'league_result':
+    case 'tournament_match':
+    case 'match_result_pending':
+    case 'match_result_confirmed':
+    case 'match_result_disputed':
+    case 'hitting_invitation':
       return 'pushBookingUpdates';
     case 'booking_reminder':
     case 'reservation_reminder':
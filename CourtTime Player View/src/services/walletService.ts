@@ -0,0 +1,440 @@
+/**
+ * Member account credit (migration 104, member_wallet feature flag).
+ *
+ * Each member has a credit balance per facility. Prepaid top-ups, admin grants
+ * and refunds issued as credit add to it. Court bookings, bulletin signups, pro
+ * shop purchases and post-play close-out charges spend it before the card is
+ * charged, so only the remainder goes to Stripe. Every balance change writes one
+ * wallet_transactions row; member_wallets holds the running balance and is
+ * locked while it changes.
+ *
+ * Credit spent on a Stripe Checkout is held: the payment row carries
+ * hold_expires_at until the checkout is paid (captureWalletHold), and the
+ * background job gives unpaid holds back (releaseExpiredWalletHolds).
+ */
+
+import type Stripe from 'stripe';
+import type { PoolClient } from 'pg';
+import { query, transaction } from '../database/connection';
+import { isFeatureEnabled } from './featureFlagService';
+import { FEATURE_FLAGS } from '../../shared/constants/featureFlags';
+
+/** Thrown for caller mistakes; `status` is the HTTP status the route should return. */
+export class WalletError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'WalletError';
+  }
+}
+
+export const WALLET_TOP_UP_MIN_CENTS = 500;
+export const WALLET_TOP_UP_MAX_CENTS = 100000;
+
+/** How long a Checkout paid partly with credit stays open. Stripe's minimum is 30 minutes. */
+export const WALLET_CHECKOUT_MINUTES = 60;
+/** Extra time before an unpaid hold is released, so a late webhook still finds it held. */
+const HOLD_GRACE_MINUTES = 30;
+
+export type WalletTransactionKind =
+  | 'top_up'
+  | 'admin_credit'
+  | 'admin_debit'
+  | 'refund'
+  | 'payment'
+  | 'payment_reversal';
+
+export type WalletReferenceType = 'connect_payment' | 'pro_shop_order' | 'settlement_charge' | 'annual_fee';
+
+export interface WalletTransaction {
+  id: string;
+  amountCents: number;
+  balanceAfterCents: number;
+  kind: WalletTransactionKind;
+  description: string;
+  referenceType: WalletReferenceType | null;
+  referenceId: string | null;
+  /** A payment held for a checkout that hasn't been paid yet */
+  pending: boolean;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface WalletSummary {
+  enabled: boolean;
+  balanceCents: number;
+  transactions: WalletTransaction[];
+}
+
+interface WalletEntry {
+  facilityId: string;
+  userId: string;
+  /** Signed: positive credits the balance, negative spends it */
+  amountCents: number;
+  kind: WalletTransactionKind;
+  description: string;
+  referenceType?: WalletReferenceType | null;
+  referenceId?: string | null;
+  holdExpiresAt?: Date | null;
+  createdBy?: string | null;
+}
+
+export async function isWalletEnabled(facilityId: string): Promise<boolean> {
+  return isFeatureEnabled(facilityId, FEATURE_FLAGS.MEMBER_WALLET);
+}
+
+export async function getWalletBalance(facilityId: string, userId: string): Promise<number> {
+  const result = await query(
+    `SELECT balance_cents FROM member_wallets WHERE facility_id = $1 AND user_id = $2`,
+    [facilityId, userId]
+  );
+  return Number(result.rows[0]?.balance_cents ?? 0);
+}
+
+export async function getWalletSummary(facilityId: string, userId: string, limit = 100): Promise<WalletSummary> {
+  const [enabled, balanceCents, ledger] = await Promise.all([
+    isWalletEnabled(facilityId),
+    getWalletBalance(facilityId, userId),
+    query(
+      `SELECT t.id, t.amount_cents AS "amountCents", t.balance_after_cents AS "balanceAfterCents",
+              t.kind, t.description, t.reference_type AS "referenceType", t.reference_id AS "referenceId",
+              (t.hold_expires_at IS NOT NULL) AS pending,
+              u.full_name AS "createdByName", t.created_at AS "createdAt"
+         FROM wallet_transactions t
+         LEFT JOIN users u ON u.id = t.created_by
+        WHERE t.facility_id = $1 AND t.user_id = $2
+        ORDER BY t.created_at DESC
+        LIMIT $3`,
+      [facilityId, userId, limit]
+    ),
+  ]);
+  return { enabled, balanceCents, transactions: ledger.rows };
+}
+
+/** Locks the member's wallet row (creating it at zero) and returns the balance. */
+async function lockBalance(client: PoolClient, facilityId: string, userId: string): Promise<number> {
+  await client.query(
+    `INSERT INTO member_wallets (facility_id, user_id) VALUES ($1, $2)
+     ON CONFLICT (facility_id, user_id) DO NOTHING`,
+    [facilityId, userId]
+  );
+  const result = await client.query(
+    `SELECT balance_cents FROM member_wallets WHERE facility_id = $1 AND user_id = $2 FOR UPDATE`,
+    [facilityId, userId]
+  );
+  return Number(result.rows[0].balance_cents);
+}
+
+/** Applies one entry to a wallet already locked by lockBalance. Returns the new balance. */
+async function writeEntry(client: PoolClient, balanceCents: number, entry: WalletEntry): Promise<number> {
+  const balanceAfter = balanceCents + entry.amountCents;
+  if (balanceAfter < 0) throw new WalletError('Insufficient account credit');
+  await client.query(
+    `UPDATE member_wallets SET balance_cents = $3, updated_at = NOW() WHERE facility_id = $1 AND user_id = $2`,
+    [entry.facilityId, entry.userId, balanceAfter]
+  );
+  await client.query(
+    `INSERT INTO wallet_transactions
+       (facility_id, user_id, amount_cents, balance_after_cents, kind, description,
+        reference_type, reference_id, hold_expires_at, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+    [
+      entry.facilityId,
+      entry.userId,
+      entry.amountCents,
+      balanceAfter,
+      entry.kind,
+      entry.description.slice(0, 255),
+      entry.referenceType ?? null,
+      entry.referenceId ?? null,
+      entry.holdExpiresAt ?? null,
+      entry.createdBy ?? null,
+    ]
+  );
+  return balanceAfter;
+}
+
+/** Admin grant (positive) or debit (negative) with a reason the member sees. */
+export async function adjustWalletByAdmin(params: {
+  facilityId: string;
+  userId: string;
+  adminUserId: string;
+  amountCents: number;
+  description: string;
+}): Promise<number> {
+  const amountCents = Number(params.amountCents);
+  if (!Number.isInteger(amountCents) || amountCents === 0) {
+    throw new WalletError('Amount must be a non-zero number of cents');
+  }
+  const description = String(params.description ?? '').trim();
+  if (!description) throw new WalletError('A reason is required');
+  if (!(await isWalletEnabled(params.facilityId))) {
+    throw new WalletError('Account credit is not enabled for this club', 403);
+  }
+  const member = await query(
+    `SELECT 1 FROM facility_memberships WHERE facility_id = $1 AND user_id = $2`,
+    [params.facilityId, params.userId]
+  );
+  if (member.rows.length === 0) throw new WalletError('Member not found', 404);
+
+  return transaction(async (client) => {
+    const balance = await lockBalance(client, params.facilityId, params.userId);
+    return writeEntry(client, balance, {
+      facilityId: params.facilityId,
+      userId: params.userId,
+      amountCents,
+      kind: amountCents > 0 ? 'admin_credit' : 'admin_debit',
+      description,
+      createdBy: params.adminUserId,
+    });
+  });
+}
+
+/**
+ * Credits a paid top-up. Safe to call again for the same payment: the unique
+ * top-up index turns a repeat into a no-op.
+ */
+export async function creditTopUp(params: {
+  facilityId: string;
+  userId: string;
+  connectPaymentId: string;
+  amountCents: number;
+}): Promise<void> {
+  try {
+    await transaction(async (client) => {
+      const existing = await client.query(
+        `SELECT 1 FROM wallet_transactions WHERE kind = 'top_up' AND reference_id = $1`,
+        [params.connectPaymentId]
+      );
+      if (existing.rows.length > 0) return;
+      const balance = await lockBalance(client, params.facilityId, params.userId);
+      await writeEntry(client, balance, {
+        facilityId: params.facilityId,
+        userId: params.userId,
+        amountCents: params.amountCents,
+        kind: 'top_up',
+        description: 'Account credit top-up',
+        referenceType: 'connect_payment',
+        referenceId: params.connectPaymentId,
+        createdBy: params.userId,
+      });
+    });
+  } catch (error: any) {
+    if (error?.code !== '23505') throw error;
+  }
+}
+
+/**
+ * Takes a top-up's credit back out and runs `refundCard` while the wallet is
+ * locked; if the card refund fails the debit rolls back with it. Fails when the
+ * member has already spent the credit.
+ */
+export async function reverseTopUp<T>(
+  params: {
+    facilityId: string;
+    userId: string;
+    connectPaymentId: string;
+    amountCents: number;
+    adminUserId: string;
+  },
+  refundCard: () => Promise<T>
+): Promise<T> {
+  return transaction(async (client) => {
+    const balance = await lockBalance(client, params.facilityId, params.userId);
+    if (balance < params.amountCents) {
+      throw new WalletError('Credit from this top-up has already been spent');
+    }
+    await writeEntry(client, balance, {
+      facilityId: params.facilityId,
+      userId: params.userId,
+      amountCents: -params.amountCents,
+      kind: 'admin_debit',
+      description: 'Top-up refunded to card',
+      referenceType: 'connect_payment',
+      referenceId: params.connectPaymentId,
+      createdBy: params.adminUserId,
+    });
+    return refundCard();
+  });
+}
+
+/**
+ * Spends up to `amountCents` of credit on a charge and returns how much was
+ * applied; the caller charges the rest to Stripe. Returns 0 without touching
+ * anything when the club hasn't enabled credit. Pass `holdExpiresAt` when the
+ * rest goes through a Stripe Checkout the member may abandon.
+ */
+export async function payFromWallet(params: {
+  facilityId: string;
+  userId: string;
+  amountCents: number;
+  description: string;
+  referenceType: WalletReferenceType;
+  referenceId: string;
+  holdExpiresAt?: Date | null;
+}): Promise<number> {
+  if (params.amountCents <= 0) return 0;
+  if (!(await isWalletEnabled(params.facilityId))) return 0;
+
+  return transaction(async (client) => {
+    const balance = await lockBalance(client, params.facilityId, params.userId);
+    const applied = Math.min(balance, params.amountCents);
+    if (applied <= 0) return 0;
+    await writeEntry(client, balance, {
+      facilityId: params.facilityId,
+      userId: params.userId,
+      amountCents: -applied,
+      kind: 'payment',
+      description: params.description,
+      referenceType: params.referenceType,
+      referenceId: params.referenceId,
+      holdExpiresAt: params.holdExpiresAt ?? null,
+      createdBy: params.userId,
+    });
+    return applied;
+  });
+}
+
+/** Marks held credit as spent once its checkout is paid. */
+export async function captureWalletHold(referenceType: WalletReferenceType, referenceId: string): Promise<void> {
+  await query(
+    `UPDATE wallet_transactions SET hold_expires_at = NULL
+      WHERE reference_type = $1 AND reference_id = $2 AND kind = 'payment' AND hold_expires_at IS NOT NULL`,
+    [referenceType, referenceId]
+  );
+}
+
+/**
+ * Gives back whatever credit a charge spent and hasn't already returned: a
+ * failed card charge for the rest, an abandoned checkout, or a refund. Returns
+ * the cents returned; calling it twice returns nothing the second time.
+ */
+export async function reverseWalletPayment(
+  referenceType: WalletReferenceType,
+  referenceId: string,
+  description: string,
+  createdBy: string | null = null
+): Promise<number> {
+  const owner = await query(
+    `SELECT facility_id, user_id FROM wallet_transactions
+      WHERE reference_type = $1 AND reference_id = $2 AND kind = 'payment'
+      LIMIT 1`,
+    [referenceType, referenceId]
+  );
+  if (owner.rows.length === 0) return 0;
+  const { facility_id: facilityId, user_id: userId } = owner.rows[0];
+
+  return transaction(async (client) => {
+    const balance = await lockBalance(client, facilityId, userId);
+    const spent = await client.query(
+      `SELECT COALESCE(SUM(amount_cents), 0) AS net FROM wallet_transactions
+        WHERE reference_type = $1 AND reference_id = $2 AND kind IN ('payment', 'payment_reversal')`,
+      [referenceType, referenceId]
+    );
+    await client.query(
+      `UPDATE wallet_transactions SET hold_expires_at = NULL
+        WHERE reference_type = $1 AND reference_id = $2 AND hold_expires_at IS NOT NULL`,
+      [referenceType, referenceId]
+    );
+    const outstanding = -Number(spent.rows[0].net);
+    if (outstanding <= 0) return 0;
+    await writeEntry(client, balance, {
+      facilityId,
+      userId,
+      amountCents: outstanding,
+      kind: 'payment_reversal',
+      description,
+      referenceType,
+      referenceId,
+      createdBy,
+    });
+    return outstanding;
+  });
+}
+
+/**
+ * Refund as credit: returns the credit a charge spent and credits the card
+ * portion too, so the member gets the whole charge back as balance and the
+ * club pays no Stripe refund fees. Returns the total credited.
+ */
+export async function refundToWallet(params: {
+  facilityId: string;
+  userId: string;
+  referenceType: WalletReferenceType;
+  referenceId: string;
+  cardCents: number;
+  description: string;
+  adminUserId: string;
+}): Promise<number> {
+  if (!(await isWalletEnabled(params.facilityId))) {
+    throw new WalletError('Account credit is not enabled for this club', 403);
+  }
+  const returned = await reverseWalletPayment(
+    params.referenceType,
+    params.referenceId,
+    params.description,
+    params.adminUserId
+  );
+  if (params.cardCents <= 0) return returned;
+
+  await transaction(async (client) => {
+    const balance = await lockBalance(client, params.facilityId, params.userId);
+    await writeEntry(client, balance, {
+      facilityId: params.facilityId,
+      userId: params.userId,
+      amountCents: params.cardCents,
+      kind: 'refund',
+      description: params.description,
+      referenceType: params.referenceType,
+      referenceId: params.referenceId,
+      createdBy: params.adminUserId,
+    });
+  });
+  return returned + params.cardCents;
+}
+
+/** Background job: returns credit held for checkouts that were never paid. */
+export async function releaseExpiredWalletHolds(): Promise<number> {
+  const expired = await query(
+    `SELECT DISTINCT reference_type, reference_id FROM wallet_transactions
+      WHERE hold_expires_at IS NOT NULL AND hold_expires_at < NOW()`
+  );
+  let released = 0;
+  for (const row of expired.rows) {
+    try {
+      if (await reverseWalletPayment(row.reference_type, row.reference_id, 'Checkout not completed – credit returned')) {
+        released += 1;
+      }
+    } catch (err) {
+      console.error(`Wallet hold release failed for ${row.reference_type} ${row.reference_id}:`, err);
+    }
+  }
+  return released;
+}
+
+/**
+ * Expiry for a Checkout that spends credit: the session's `expires_at` (unix
+ * seconds) and when the held credit is released if it goes unpaid.
+ */
+export function walletCheckoutExpiry(now = Date.now()): { sessionExpiresAt: number; holdExpiresAt: Date } {
+  const sessionExpiresMs = now + WALLET_CHECKOUT_MINUTES * 60_000;
+  return {
+    sessionExpiresAt: Math.floor(sessionExpiresMs / 1000),
+    holdExpiresAt: new Date(sessionExpiresMs + HOLD_GRACE_MINUTES * 60_000),
+  };
+}
+
+/**
+ * A one-time coupon taking the credit off a Checkout Session's total. Created
+ * on the connected account when `stripeAccount` is given.
+ */
+export async function walletCheckoutDiscount(
+  stripe: Stripe,
+  walletCents: number,
+  stripeAccount?: string
+): Promise<Stripe.Checkout.SessionCreateParams.Discount[]> {
+  const coupon = await stripe.coupons.create(
+    { amount_off: walletCents, currency: 'usd', duration: 'once', max_redemptions: 1, name: 'Account credit' },
+    stripeAccount ? { stripeAccount } : undefined
+  );
+  return [{ coupon: coupon.id }];
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { describeLockoutCandidate, filterLockoutCandidates } from '../paymentLockout';
+
+const members = [
+  { userId: 'u1', fullName: 'Dana Park', email: 'dana@example.com', isPaymentLocked: false },
+  { userId: 'u2', fullName: 'Sam Park', email: null, isPaymentLocked: false },
+  { userId: 'u3', fullName: 'Lee Chen', email: 'lee@example.com', isPaymentLocked: true },
+];
+
+describe('filterLockoutCandidates', () => {
+  it('keeps dependents without an email in the results', () => {
+    expect(filterLockoutCandidates(members, 'park').map(m => m.userId)).toEqual(['u1', 'u2']);
+    expect(filterLockoutCandidates(members, '').map(m => m.userId)).toEqual(['u1', 'u2']);
+  });
+
+  it('matches on email and skips members who are already locked', () => {
+    expect(filterLockoutCandidates(members, 'DANA@').map(m => m.userId)).toEqual(['u1']);
+    expect(filterLockoutCandidates(members, 'lee')).toEqual([]);
+  });
+});
+
+describe('describeLockoutCandidate', () => {
+  it('leaves the email out for dependents', () => {
+    expect(describeLockoutCandidate(members[0])).toBe('Dana Park (dana@example.com)');
+    expect(describeLockoutCandidate(members[1])).toBe('Sam Park');
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Household statement helpers shared by the admin shared-billing panel, the
+ * payer's Payments page and the statement emails (householdBillingService).
+ */
+
+/** "2026-09" -> "September 2026", whatever the server's or browser's time zone. */
+export function formatStatementMonth(month: string): string {
+  const [year, mon] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, mon - 1, 1)).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Open the server-rendered statement in a new window and bring up the print
+ * dialog, where it can be printed or saved as a PDF. Returns false when the
+ * browser blocked the popup.
+ */
+export function openPrintableStatement(html: string): boolean {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+}
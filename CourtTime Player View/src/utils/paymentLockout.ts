@@ -0,0 +1,25 @@
+/**
+ * Helpers for the admin payment-lockout search in the Payments tab. The member
+ * list comes from GET /api/members/:facilityId and includes dependents, whose
+ * email is null because they have no login of their own.
+ */
+
+export type LockoutCandidate = {
+  fullName: string;
+  email: string | null;
+  isPaymentLocked: boolean;
+};
+
+/** Unlocked members whose name or email contains the search text (case-insensitive). */
+export function filterLockoutCandidates<T extends LockoutCandidate>(members: T[], search: string): T[] {
+  const q = search.trim().toLowerCase();
+  return members.filter(m =>
+    !m.isPaymentLocked &&
+    (m.fullName.toLowerCase().includes(q) || (m.email ?? '').toLowerCase().includes(q))
+  );
+}
+
+/** "Name (email)" for the search box once a member is picked; just the name for dependents. */
+export function describeLockoutCandidate(member: Pick<LockoutCandidate, 'fullName' | 'email'>): string {
+  return member.email ? `${member.fullName} (${member.email})` : member.fullName;
+}